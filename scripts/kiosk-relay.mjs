@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+/**
+ * Kiosk LAN relay
+ *
+ * Runs on any laptop on the venue network. When the internet drops, kiosk
+ * tablets keep checking people in from their offline cache -- but each one
+ * only knows its own scans. Tablets push their scans and badge prints here
+ * and pull everyone else's, so a delegate who collected their kit at desk A
+ * is turned away at desk B, and an auto-print station doesn't print a second
+ * badge. See src/lib/kiosk-relay.ts for the tablet side.
+ *
+ * This never talks to Supabase. Each tablet still syncs its own scans to
+ * the server when the internet is back; the relay only shares state
+ * between tablets in the meantime.
+ *
+ * Usage:
+ *   KIOSK_RELAY_EVENT=<event id> KIOSK_RELAY_KEY=<key from the Fleet page> \
+ *     node scripts/kiosk-relay.mjs
+ *   # PORT=3011 by default; HTTPS listens on PORT+1 (3012)
+ *
+ * Then on the Fleet page, set the relay address to https://<this laptop's
+ * LAN IP>:3012. Tablets load the kiosk over HTTPS, so they can only reach
+ * the relay over HTTPS too: open that address once in each tablet's browser
+ * and accept the self-signed certificate, the same one-time step as the
+ * print proxy.
+ *
+ * The log is kept in ~/.amasi-kiosk-relay/<event id>.jsonl, so a restart
+ * keeps what tablets already shared. Delete that file to start over.
+ */
+
+import http from "node:http"
+import https from "node:https"
+import crypto from "node:crypto"
+import { execSync } from "node:child_process"
+import fs from "node:fs"
+import path from "node:path"
+import os from "node:os"
+
+const PORT = parseInt(process.env.PORT || "3011", 10)
+const HTTPS_PORT = PORT + 1
+// Unlike the print proxy this has to listen on the LAN -- that's its whole
+// job. Every data route requires the shared key, so binding 0.0.0.0 only
+// exposes /status.
+const HOST = process.env.KIOSK_RELAY_HOST || "0.0.0.0"
+const EVENT_ID = process.env.KIOSK_RELAY_EVENT || ""
+const KEY = process.env.KIOSK_RELAY_KEY || ""
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MAX_BODY_BYTES = 1024 * 1024
+const MAX_PUSH = 500
+const MAX_PULL = 1000
+
+if (!UUID.test(EVENT_ID) || KEY.length < 16) {
+  console.error("Set KIOSK_RELAY_EVENT to the event id and KIOSK_RELAY_KEY to the key shown on the Fleet page.")
+  process.exit(1)
+}
+
+// --- Log ---------------------------------------------------------------------
+// Append-only. `seq` is the pull cursor; `logId` changes whenever the log
+// file is new, so tablets know to re-read (and re-push) from the top.
+
+const dataDir = path.join(os.homedir(), ".amasi-kiosk-relay")
+const logFile = path.join(dataDir, `${EVENT_ID}.jsonl`)
+fs.mkdirSync(dataDir, { recursive: true })
+
+const records = []
+const seen = new Set()
+let logId = crypto.randomUUID()
+
+if (fs.existsSync(logFile)) {
+  const lines = fs.readFileSync(logFile, "utf8").split("\n").filter(Boolean)
+  for (const line of lines) {
+    try {
+      const entry = JSON.parse(line)
+      if (entry.log_id) {
+        logId = entry.log_id
+        continue
+      }
+      records.push(entry)
+      seen.add(entry.id)
+    } catch {
+      // A torn last line from a crash mid-write -- skip it.
+    }
+  }
+} else {
+  fs.writeFileSync(logFile, JSON.stringify({ log_id: logId }) + "\n")
+}
+
+const logStream = fs.createWriteStream(logFile, { flags: "a" })
+
+function validRecord(r) {
+  return (
+    r &&
+    typeof r.id === "string" &&
+    r.id.length <= 100 &&
+    (r.kind === "scan" || r.kind === "print") &&
+    typeof r.list_id === "string" &&
+    UUID.test(r.list_id) &&
+    typeof r.registration_id === "string" &&
+    UUID.test(r.registration_id) &&
+    Number.isFinite(r.at) &&
+    typeof r.device_id === "string" &&
+    r.device_id.length <= 100 &&
+    typeof r.station_name === "string" &&
+    r.station_name.length <= 200
+  )
+}
+
+function append(r) {
+  if (seen.has(r.id)) return false
+  const entry = {
+    seq: records.length + 1,
+    id: r.id,
+    kind: r.kind,
+    list_id: r.list_id,
+    registration_id: r.registration_id,
+    at: r.at,
+    device_id: r.device_id,
+    station_name: r.station_name,
+  }
+  records.push(entry)
+  seen.add(entry.id)
+  logStream.write(JSON.stringify(entry) + "\n")
+  return true
+}
+
+// --- HTTP --------------------------------------------------------------------
+
+const keyDigest = crypto.createHash("sha256").update(KEY).digest()
+function authorized(req) {
+  const given = req.headers["x-relay-key"]
+  if (typeof given !== "string") return false
+  return crypto.timingSafeEqual(crypto.createHash("sha256").update(given).digest(), keyDigest)
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+// Same self-signed certificate scheme as the print proxy, in its own dir.
+function generateSelfSignedCert() {
+  const certFile = path.join(dataDir, "cert.pem")
+  const keyFile = path.join(dataDir, "key.pem")
+
+  if (fs.existsSync(certFile) && fs.existsSync(keyFile)) {
+    return { cert: fs.readFileSync(certFile), key: fs.readFileSync(keyFile) }
+  }
+
+  try {
+    execSync(
+      `openssl req -x509 -newkey rsa:2048 -keyout "${keyFile}" -out "${certFile}" -days 3650 -nodes -subj "/CN=amasi-kiosk-relay"`,
+      { stdio: "pipe" }
+    )
+    console.log("  Generated self-signed certificate for HTTPS")
+    return { cert: fs.readFileSync(certFile), key: fs.readFileSync(keyFile) }
+  } catch {
+    console.warn("  Could not generate HTTPS cert, falling back to HTTP only")
+    return null
+  }
+}
+
+const handler = async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", "*")
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Relay-Key")
+  // Chrome's Private Network Access preflight: a page served from the public
+  // internet asking for a LAN address must be explicitly allowed.
+  res.setHeader("Access-Control-Allow-Private-Network", "true")
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+
+  const url = new URL(req.url || "/", "http://relay")
+
+  if (req.method === "GET" && (url.pathname === "/" || url.pathname === "/status")) {
+    send(res, 200, { status: "ok", event_id: EVENT_ID, seq: records.length, log_id: logId })
+    return
+  }
+
+  if (url.pathname === "/records") {
+    if (!authorized(req)) return send(res, 401, { error: "Invalid relay key" })
+
+    if (req.method === "POST") {
+      let body = ""
+      for await (const chunk of req) {
+        body += chunk
+        if (body.length > MAX_BODY_BYTES) return send(res, 413, { error: "Too large" })
+      }
+      let payload
+      try {
+        payload = JSON.parse(body)
+      } catch {
+        return send(res, 400, { error: "Invalid JSON" })
+      }
+      if (payload.event_id !== EVENT_ID) return send(res, 404, { error: "This relay serves another event" })
+      if (!Array.isArray(payload.records) || payload.records.length > MAX_PUSH) {
+        return send(res, 400, { error: `Send up to ${MAX_PUSH} records` })
+      }
+      let added = 0
+      for (const r of payload.records) {
+        if (validRecord(r) && append(r)) added++
+      }
+      return send(res, 200, { added, seq: records.length, log_id: logId })
+    }
+
+    if (req.method === "GET") {
+      if (url.searchParams.get("event_id") !== EVENT_ID) return send(res, 404, { error: "This relay serves another event" })
+      const since = Math.max(0, parseInt(url.searchParams.get("since") || "0", 10) || 0)
+      // A cursor past the end means the tablet last talked to a different
+      // log; hand back the new log_id so it starts over.
+      const page = since > records.length ? [] : records.slice(since, since + MAX_PULL)
+      const seq = page.length > 0 ? page[page.length - 1].seq : Math.min(since, records.length)
+      return send(res, 200, { records: page, seq, log_id: logId })
+    }
+  }
+
+  send(res, 404, { error: "Not found" })
+}
+
+const tlsCert = generateSelfSignedCert()
+const httpServer = http.createServer(handler)
+
+if (tlsCert) {
+  https.createServer(tlsCert, handler).listen(HTTPS_PORT, HOST)
+}
+
+function lanAddresses() {
+  return Object.values(os.networkInterfaces())
+    .flat()
+    .filter((a) => a && a.family === "IPv4" && !a.internal)
+    .map((a) => a.address)
+}
+
+httpServer.listen(PORT, HOST, () => {
+  console.log(`
+  AMASI Kiosk Relay
+  Event:   ${EVENT_ID}
+  Records: ${records.length} (log ${logFile})
+`)
+  for (const ip of lanAddresses()) {
+    console.log(`  ${tlsCert ? `https://${ip}:${HTTPS_PORT}` : `http://${ip}:${PORT}`}`)
+  }
+  console.log(`
+  Put one of the addresses above on the Fleet page, then open it once on
+  each tablet to accept the certificate. Press Ctrl+C to stop.
+`)
+})
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { sanitizeSearchInput, isValidUUID } from "@/lib/validation"
 
 // GET /api/audio-devices/find-attendee?event_id=&q=
 // Public, event-scoped, returns minimal attendee info for the audio-desk lookup.
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   const ip = getClientIp(request)
-  const rl = checkRateLimit(`audio-desk-find:${ip}`, "authenticated")
+  const rl = await checkRateLimit(`audio-desk-find:${ip}`, "authenticated")
   if (!rl.success) return rateLimitExceededResponse(rl)
 
   const { searchParams } = new URL(request.url)
@@ -30,4 +30,4 @@ export async function GET(request: NextRequest) {
     .maybeSingle()
 
   return NextResponse.json({ data: data || null })
-}
+})
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { sendEmail } from "@/lib/email"
-import { checkRateLimit, getClientIp } from "@/lib/rate-limit"
+import { checkRateLimit, createRateLimitHeaders, getClientIp, rateLimitedRoute, withRateLimitHeaders } from "@/lib/rate-limit"
 import { logActivityFromRequest } from "@/lib/activity-logger"
 import { COMPANY_CONFIG } from "@/lib/config"
 import { createAdminClient } from "@/lib/supabase/server"
@@ -162,11 +162,11 @@ function getInviteEmailHtml(loginUrl: string, code: string): string {
 }
 
 // POST /api/auth/magic-link - Generate magic link and send custom email
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   try {
     // Rate limit: strict tier for auth endpoints
     const ip = getClientIp(request)
-    const rateLimitResult = checkRateLimit(
+    const rateLimitResult = await checkRateLimit(
       `auth-magic-link:${ip}`,
       "strict"
     )
@@ -182,11 +182,7 @@ export async function POST(request: NextRequest) {
         { error: "Too many requests. Please try again later." },
         {
           status: 429,
-          headers: {
-            "X-RateLimit-Limit": String(rateLimitResult.limit),
-            "X-RateLimit-Remaining": String(rateLimitResult.remaining),
-            "X-RateLimit-Reset": String(rateLimitResult.reset),
-          },
+          headers: createRateLimitHeaders(rateLimitResult),
         }
       )
     }
@@ -246,7 +242,7 @@ export async function POST(request: NextRequest) {
         metadata: { reason: "unknown_email", email: normalizedEmail },
         userEmail: normalizedEmail,
       }).catch(() => {})
-      return NextResponse.json({ success: true })
+      return withRateLimitHeaders(NextResponse.json({ success: true }), rateLimitResult)
     }
 
     // If team member exists but no auth user, create one first
@@ -330,7 +326,7 @@ export async function POST(request: NextRequest) {
 
     console.log(`[Magic Link] Sent to ${normalizedEmail} via custom email - ID: ${emailResult.id}`)
 
-    return NextResponse.json({ success: true })
+    return withRateLimitHeaders(NextResponse.json({ success: true }), rateLimitResult)
   } catch (error) {
     console.error("[Magic Link] Error:", error)
     return NextResponse.json(
@@ -338,4 +334,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const REQUEST_ID = "22222222-2222-2222-2222-222222222222"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const TICKET_ID = "44444444-4444-4444-4444-444444444444"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "admin-1", name: "Badge Desk" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function review(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/badge-corrections/review", {
+    method: "POST",
+    body: { event_id: EVENT_ID, request_id: REQUEST_ID, ...body },
+  })
+}
+
+function pendingRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    id: REQUEST_ID,
+    status: "pending",
+    registration_id: REG_ID,
+    requested_changes: { attendee_name: "Dr. Anil Kumar" },
+    previous_values: { attendee_name: "Dr. Anil Kumr" },
+    ...overrides,
+  }
+}
+
+function registration(overrides: Record<string, unknown> = {}) {
+  return {
+    id: REG_ID,
+    registration_number: "REG-1001",
+    attendee_name: "Dr. Anil Kumr",
+    attendee_email: "anil@example.com",
+    attendee_phone: null,
+    attendee_institution: "AIIMS",
+    attendee_designation: null,
+    ticket_type_id: TICKET_ID,
+    ticket_types: { name: "Conference" },
+    registration_addons: [],
+    ...overrides,
+  }
+}
+
+// The claim, then the registration reads the approval makes
+function queueApproval() {
+  mock.queueResponse("badge_correction_requests", { data: pendingRequest(), error: null })
+  mock.queueResponse("registrations", { data: registration(), error: null })
+  mock.queueResponse("badge_correction_requests", { data: [{ id: REQUEST_ID }], error: null })
+}
+
+function writes(table: string, method: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === method)
+}
+
+describe("POST /api/badge-corrections/review", () => {
+  it("400s on an unknown action", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(review({ action: "edit" }))).status).toBe(400)
+  })
+
+  it("409s on a request that's already been reviewed", async () => {
+    mock.queueResponse("badge_correction_requests", { data: pendingRequest({ status: "approved" }), error: null })
+    const { POST } = await import("./route")
+    expect((await POST(review({ action: "approve" }))).status).toBe(409)
+  })
+
+  it("rejects without touching the registration or badge", async () => {
+    mock.queueResponse("badge_correction_requests", { data: pendingRequest(), error: null })
+    mock.queueResponse("registrations", { data: registration(), error: null })
+    mock.queueResponse("badge_correction_requests", { data: [{ id: REQUEST_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(review({ action: "reject", note: "Name matches the ID we have" }))
+    expect(res.status).toBe(200)
+    expect(writes("badge_correction_requests", "update")[0].args[0]).toMatchObject({
+      status: "rejected",
+      review_note: "Name matches the ID we have",
+      reviewed_by: "admin-1",
+    })
+    expect(writes("registrations", "update")).toHaveLength(0)
+    expect(writes("generated_badges", "delete")).toHaveLength(0)
+  })
+
+  it("refuses to approve over an edit made since the request", async () => {
+    mock.queueResponse("badge_correction_requests", { data: pendingRequest(), error: null })
+    mock.queueResponse("registrations", { data: registration({ attendee_name: "Anil Kumar" }), error: null })
+    const { POST } = await import("./route")
+    const res = await POST(review({ action: "approve" }))
+    expect(res.status).toBe(409)
+    expect((await res.json()).error).toContain("name changed")
+    expect(writes("badge_correction_requests", "update")).toHaveLength(0)
+  })
+
+  it("approves: corrects the registration, drops the stored badge and queues a reprint", async () => {
+    queueApproval()
+    mock.queueResponse("print_jobs", { data: [{ id: "job-old" }], error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: "list-badges", ticket_type_ids: null }], error: null })
+    mock.queueResponse("checkin_records", { data: [{ checkin_list_id: "list-badges" }], error: null })
+    mock.queueResponse("kiosk_station_lists", {
+      data: [{ checkin_list_id: "list-badges", kiosk_stations: { print_station_id: "ps-hall" } }],
+      error: null,
+    })
+    mock.queueResponse("print_stations", {
+      data: [
+        { id: "ps-main", name: "Main desk", is_active: true, ticket_type_ids: null, agent_last_seen_at: null, printer_state: null },
+        { id: "ps-hall", name: "Hall A desk", is_active: true, ticket_type_ids: null, agent_last_seen_at: null, printer_state: null },
+      ],
+      error: null,
+    })
+    mock.queueResponse("print_jobs", { data: [{ print_number: 1 }], error: null })
+    mock.queueResponse("print_jobs", { data: { id: "job-new", print_number: 2 }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(review({ action: "approve" }))
+    expect(res.status).toBe(200)
+    expect((await res.json()).data.reprint).toEqual({
+      queued: true,
+      print_job_id: "job-new",
+      print_number: 2,
+      station_id: "ps-hall",
+      station_name: "Hall A desk",
+      via: "checkin_list",
+    })
+
+    expect(writes("generated_badges", "delete")).toHaveLength(1)
+    const regUpdates = writes("registrations", "update").map((c) => c.args[0])
+    expect(regUpdates).toEqual([{ badge_url: null, badge_generated_at: null }, { attendee_name: "Dr. Anil Kumar" }])
+    expect(writes("print_jobs", "insert")[0].args[0]).toMatchObject({
+      print_station_id: "ps-hall",
+      print_number: 2,
+      status: "queued",
+      reprint_reason: "details_changed",
+      registration_data: { attendee_name: "Dr. Anil Kumar", ticket_type: "Conference" },
+    })
+    const requestUpdates = writes("badge_correction_requests", "update")
+    expect(requestUpdates[requestUpdates.length - 1].args[0]).toEqual({ print_job_id: "job-new", print_station_id: "ps-hall" })
+  })
+
+  it("doesn't queue a print for a delegate whose badge was never printed", async () => {
+    queueApproval()
+    mock.queueResponse("print_jobs", { data: [], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(review({ action: "approve" }))
+    expect(res.status).toBe(200)
+    expect((await res.json()).data.reprint).toEqual({ queued: false, reason: "never_printed" })
+    expect(writes("print_jobs", "insert")).toHaveLength(0)
+  })
+
+  it("releases the claim when the registration update fails", async () => {
+    queueApproval()
+    mock.queueResponse("registrations", { data: null, error: null })
+    mock.queueResponse("registrations", { data: null, error: { message: "boom" } })
+    const { POST } = await import("./route")
+    expect((await POST(review({ action: "approve" }))).status).toBe(500)
+    const updates = writes("badge_correction_requests", "update")
+    expect(updates[updates.length - 1].args[0]).toMatchObject({ status: "pending", reviewed_at: null })
+  })
+})
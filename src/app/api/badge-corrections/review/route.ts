@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import {
+  MAX_CORRECTION_NOTE_LENGTH,
+  correctableFieldLabel,
+  correctionUpdate,
+  staleCorrectionFields,
+  type BadgeCorrection,
+} from "@/lib/badge-corrections"
+import { invalidateStoredBadge, queueCorrectionReprint, type CorrectionReprint } from "@/lib/services/badge-corrections"
+
+const REGISTRATION_SELECT = `
+  id, registration_number, attendee_name, attendee_email, attendee_phone,
+  attendee_institution, attendee_designation, ticket_type_id,
+  ticket_types (name),
+  registration_addons (addon_id)
+`
+
+// POST /api/badge-corrections/review -- approve or reject a delegate's badge
+// correction. Body: { event_id, request_id, action: "approve" | "reject", note }.
+//
+// Approving writes the corrected fields to the registration, drops the
+// stored badge (generated_badges, badge_url) so downloads re-render, and --
+// when the delegate already had a badge printed -- queues a reprint at the
+// print station serving their check-in list (see pickReprintStation).
+//
+// The request is claimed (pending -> approved/rejected) before anything is
+// written, so two staff reviewing the same request can't both apply it; if
+// the registration update then fails the claim is released. A reprint that
+// can't be queued doesn't undo the approval -- the response says so and the
+// desk prints it by hand.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const eventId = body.event_id as string | undefined
+  const requestId = body.request_id as string | undefined
+  const action = body.action as string | undefined
+  const note =
+    typeof body.note === "string" && body.note.trim() ? body.note.trim().slice(0, MAX_CORRECTION_NOTE_LENGTH) : null
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+  if (!requestId || !isValidUUID(requestId)) {
+    return NextResponse.json({ error: "Pick a correction request to review." }, { status: 400 })
+  }
+  if (action !== "approve" && action !== "reject") {
+    return NextResponse.json({ error: "Unknown action." }, { status: 400 })
+  }
+
+  const { user, error: authError } = await requireEventAndPermission(eventId, "badges")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+
+  const { data: correction, error: correctionError } = await (supabase as any)
+    .from("badge_correction_requests")
+    .select("id, status, registration_id, requested_changes, previous_values")
+    .eq("id", requestId)
+    .eq("event_id", eventId)
+    .maybeSingle()
+  if (correctionError) return NextResponse.json({ error: "Failed to load the request." }, { status: 500 })
+  if (!correction) return NextResponse.json({ error: "Correction request not found." }, { status: 404 })
+  if (correction.status !== "pending") {
+    return NextResponse.json({ error: "This request has already been reviewed." }, { status: 409 })
+  }
+
+  const { data: registration, error: registrationError } = await (supabase as any)
+    .from("registrations")
+    .select(REGISTRATION_SELECT)
+    .eq("id", correction.registration_id)
+    .maybeSingle()
+  if (registrationError) return NextResponse.json({ error: "Failed to load the registration." }, { status: 500 })
+  if (!registration) return NextResponse.json({ error: "Registration not found." }, { status: 404 })
+
+  const changes = correction.requested_changes as BadgeCorrection
+  if (action === "approve") {
+    const stale = staleCorrectionFields(correction.previous_values as BadgeCorrection, registration)
+    if (stale.length > 0) {
+      const fields = stale.map((f) => correctableFieldLabel(f).toLowerCase()).join(" and ")
+      return NextResponse.json(
+        { error: `The ${fields} changed since the delegate asked. Reject this request and let them check their badge again.` },
+        { status: 409 }
+      )
+    }
+  }
+
+  // Claim
+  const status = action === "approve" ? "approved" : "rejected"
+  const { data: claimed, error: claimError } = await (supabase as any)
+    .from("badge_correction_requests")
+    .update({ status, review_note: note, reviewed_by: user?.id ?? null, reviewed_at: new Date().toISOString() })
+    .eq("id", requestId)
+    .eq("status", "pending")
+    .select("id")
+  if (claimError) return NextResponse.json({ error: "Failed to review the request." }, { status: 500 })
+  if (!claimed || claimed.length === 0) {
+    return NextResponse.json({ error: "This request has already been reviewed." }, { status: 409 })
+  }
+
+  if (action === "reject") {
+    return NextResponse.json({ data: { id: requestId, status } })
+  }
+
+  async function releaseClaim() {
+    await (supabase as any)
+      .from("badge_correction_requests")
+      .update({ status: "pending", review_note: null, reviewed_by: null, reviewed_at: null })
+      .eq("id", requestId)
+  }
+
+  // The stored badge goes first: dropping it twice is harmless, whereas a
+  // corrected registration still serving the old PDF is the bug this fixes.
+  const { error: invalidateError } = await invalidateStoredBadge(supabase, registration.id)
+  if (invalidateError) {
+    await releaseClaim()
+    return NextResponse.json({ error: "Failed to clear the stored badge." }, { status: 500 })
+  }
+
+  const update = correctionUpdate(changes)
+  const { error: updateError } = await (supabase as any).from("registrations").update(update).eq("id", registration.id)
+  if (updateError) {
+    await releaseClaim()
+    return NextResponse.json({ error: "Failed to update the registration." }, { status: 500 })
+  }
+
+  let reprint: CorrectionReprint | { queued: false; reason: "failed" }
+  try {
+    reprint = await queueCorrectionReprint(supabase, {
+      eventId,
+      correctionId: requestId,
+      registration: { ...registration, ...update },
+    })
+  } catch (error) {
+    console.error("Failed to queue badge correction reprint:", error)
+    reprint = { queued: false, reason: "failed" }
+  }
+
+  if (reprint.queued) {
+    await (supabase as any)
+      .from("badge_correction_requests")
+      .update({ print_job_id: reprint.job.id, print_station_id: reprint.choice.station.id })
+      .eq("id", requestId)
+  }
+
+  return NextResponse.json({
+    data: {
+      id: requestId,
+      status,
+      reprint: reprint.queued
+        ? {
+            queued: true,
+            print_job_id: reprint.job.id,
+            print_number: reprint.job.print_number,
+            station_id: reprint.choice.station.id,
+            station_name: reprint.choice.station.name,
+            via: reprint.choice.via,
+          }
+        : { queued: false, reason: reprint.reason },
+    },
+  })
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { isCorrectionStatus } from "@/lib/badge-corrections"
+
+// GET /api/badge-corrections?event_id=&status= -- the delegate portal's
+// correction queue: what each delegate asked to change on their badge, with
+// the values it was made against and, once approved, where the reprint went.
+// status defaults to pending; "all" lists every request.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const eventId = searchParams.get("event_id")
+  const status = searchParams.get("status") || "pending"
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+  if (status !== "all" && !isCorrectionStatus(status)) {
+    return NextResponse.json({ error: "Unknown status." }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "badges")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+  let query = (supabase as any)
+    .from("badge_correction_requests")
+    .select(`
+      id, status, requested_changes, previous_values, delegate_note, review_note,
+      reviewed_at, created_at, print_job_id,
+      registrations (id, registration_number, attendee_name, attendee_email, ticket_types (name)),
+      print_stations (id, name),
+      print_jobs (id, status, print_number)
+    `)
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: status === "pending" })
+    .limit(500)
+  if (status !== "all") query = query.eq("status", status)
+
+  const { data, error } = await query
+  if (error) {
+    Sentry.captureException(error, { tags: { route: "badge-corrections" }, extra: { eventId } })
+    return NextResponse.json({ error: "Failed to load correction requests." }, { status: 500 })
+  }
+  return NextResponse.json({ requests: data || [] })
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { VERSION_COLUMNS, recordTemplateVersion } from "@/lib/services/badge-template-versions"
+
+// POST /api/badge-templates/[id]/versions/[version]/restore - Roll back
+// Copies the snapshot's design onto the template and records it as a new
+// version, so the rollback itself can be undone from the history too. The
+// template keeps its current name. Locked templates refuse like a design
+// save does.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params
+    const versionNumber = parseInt(version)
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 })
+    }
+
+    const db = (await createAdminClient()) as any
+    const { data: template } = await db
+      .from("badge_templates")
+      .select("id, event_id, is_locked, locked_at, badges_generated_count")
+      .eq("id", id)
+      .maybeSingle()
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const { user, error: authError } = await requireEventAndPermission(template.event_id, 'badges')
+    if (authError) return authError
+
+    if (template.is_locked) {
+      return NextResponse.json({
+        error: "Template is locked",
+        message: `This template has been locked since ${new Date(template.locked_at).toLocaleDateString()}. ${template.badges_generated_count} badges have been generated. Unlock it before rolling back.`,
+        is_locked: true,
+      }, { status: 403 })
+    }
+
+    const { data: snapshot } = await db
+      .from("badge_template_versions")
+      .select(VERSION_COLUMNS)
+      .eq("template_id", id)
+      .eq("version", versionNumber)
+      .maybeSingle()
+    if (!snapshot) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 })
+    }
+
+    const { data: restored, error } = await db
+      .from("badge_templates")
+      .update({
+        size: snapshot.size,
+        template_image_url: snapshot.template_image_url,
+        template_data: snapshot.template_data,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error("Error restoring template version:", error)
+      return NextResponse.json({ error: "Failed to restore version" }, { status: 500 })
+    }
+
+    restored.current_version = await recordTemplateVersion(db, restored, {
+      note: `Restored from v${versionNumber}`,
+      createdBy: user?.id,
+    })
+
+    return NextResponse.json({ template: restored })
+  } catch (error) {
+    console.error("Error in POST /api/badge-templates/[id]/versions/[version]/restore:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
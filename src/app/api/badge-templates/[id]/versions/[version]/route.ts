@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { diffBadgeTemplates, summarizeTemplateDiff } from "@/lib/badge-template-versions"
+import { VERSION_COLUMNS } from "@/lib/services/badge-template-versions"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/badge-templates/[id]/versions/[version] - One snapshot, with what
+// restoring it would change about the current design
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version } = await params
+    const versionNumber = parseInt(version)
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: "Invalid version" }, { status: 400 })
+    }
+
+    const db = (await createAdminClient()) as any
+    const { data: template } = await db
+      .from("badge_templates")
+      .select("id, event_id, name, size, template_image_url, template_data, current_version")
+      .eq("id", id)
+      .maybeSingle()
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAndPermission(template.event_id, 'badges')
+    if (authError) return authError
+
+    const { data: snapshot } = await db
+      .from("badge_template_versions")
+      .select(VERSION_COLUMNS)
+      .eq("template_id", id)
+      .eq("version", versionNumber)
+      .maybeSingle()
+    if (!snapshot) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 })
+    }
+
+    const changes = diffBadgeTemplates(template, snapshot)
+    return NextResponse.json({
+      version: snapshot,
+      current_version: template.current_version,
+      changes,
+      summary: summarizeTemplateDiff(changes),
+    })
+  } catch (error) {
+    console.error("Error in GET /api/badge-templates/[id]/versions/[version]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { VERSION_LIST_COLUMNS } from "@/lib/services/badge-template-versions"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/badge-templates/[id]/versions - Version history, newest first
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+
+    const { data: template } = await db
+      .from("badge_templates")
+      .select("id, event_id, current_version")
+      .eq("id", id)
+      .maybeSingle()
+    if (!template) {
+      return NextResponse.json({ error: "Template not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAndPermission(template.event_id, 'badges')
+    if (authError) return authError
+
+    const { data, error } = await db
+      .from("badge_template_versions")
+      .select(VERSION_LIST_COLUMNS)
+      .eq("template_id", id)
+      .order("version", { ascending: false })
+      .limit(200)
+
+    if (error) {
+      console.error("Error fetching template versions:", error)
+      return NextResponse.json({ error: "Failed to load version history" }, { status: 500 })
+    }
+
+    return NextResponse.json({ current_version: template.current_version, versions: data || [] })
+  } catch (error) {
+    console.error("Error in GET /api/badge-templates/[id]/versions:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireAdmin, requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isDesignChange } from "@/lib/badge-template-versions"
+import { recordTemplateVersion } from "@/lib/services/badge-template-versions"
 
 // Force dynamic - never cache this route
 export const dynamic = "force-dynamic"
@@ -52,7 +54,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Require event access + badges permission
-    const { error: authError } = await requireEventAndPermission(event_id, 'badges')
+    const { user, error: authError } = await requireEventAndPermission(event_id, 'badges')
     if (authError) return authError
 
     const supabase = await createAdminClient()
@@ -94,6 +96,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Failed to process badge template request" }, { status: 500 })
     }
 
+    data.current_version = await recordTemplateVersion(supabase, data, { createdBy: user?.id })
+
     return NextResponse.json(data)
   } catch (error: any) {
     console.error("Error creating badge template:", error)
@@ -112,20 +116,17 @@ export async function PUT(request: NextRequest) {
     }
 
     // Require event access + badges permission if event_id provided, else requireAdmin
-    if (event_id) {
-      const { error: authError } = await requireEventAndPermission(event_id, 'badges')
-      if (authError) return authError
-    } else {
-      const { error: authError } = await requireAdmin()
-      if (authError) return authError
-    }
+    const { user, error: authError } = event_id
+      ? await requireEventAndPermission(event_id, 'badges')
+      : await requireAdmin()
+    if (authError) return authError
 
     const supabase = await createAdminClient()
 
     // Check if template is locked
     const { data: existing } = await (supabase as any)
       .from("badge_templates")
-      .select("is_locked, locked_at, badges_generated_count")
+      .select("is_locked, locked_at, badges_generated_count, name, size, template_image_url, template_data")
       .eq("id", id)
       .single()
 
@@ -187,6 +188,11 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "Failed to process badge template request" }, { status: 500 })
     }
 
+    // Renames and default/ticket changes don't make a new version
+    if (existing && isDesignChange(existing, data)) {
+      data.current_version = await recordTemplateVersion(supabase, data, { createdBy: user?.id })
+    }
+
     return NextResponse.json(data)
   } catch (error: any) {
     console.error("Error updating badge template:", error)
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import QRCode from "qrcode"
+import { resolveBadgeElements } from "@/lib/badge-conditions"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
 
 // Badge sizes in points (72 points = 1 inch)
 const BADGE_SIZES: Record<string, { width: number; height: number }> = {
@@ -237,6 +239,7 @@ export async function GET(
   const templateData = template.template_data || {}
   const elements = templateData.elements || []
   const scaleFactor = 72 / 96
+  const audiences = await loadBadgeAudiences(supabase, registration.event_id, [registration], elements)
 
   const pdfDoc = await PDFDocument.create()
   const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica)
@@ -279,8 +282,7 @@ export async function GET(
   }
 
   // Draw elements
-  const visibleElements = elements
-    .filter((el: any) => el.visible !== false)
+  const visibleElements = resolveBadgeElements(elements, audiences.get(registration.id) || null)
     .sort((a: any, b: any) => (a.zIndex || 0) - (b.zIndex || 0))
 
   for (const element of visibleElements) {
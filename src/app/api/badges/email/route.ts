@@ -3,6 +3,7 @@ import { createAdminClient } from "@/lib/supabase/server"
 import { sendEmail, getEmailProvider } from "@/lib/email"
 import { escapeHtml } from "@/lib/string-utils"
 import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { getWalletConfig } from "@/lib/tenant"
 
 export const dynamic = "force-dynamic"
 
@@ -64,6 +65,14 @@ export async function POST(request: NextRequest) {
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
     const badgeUrl = `${baseUrl}/api/badge/${registration.checkin_token}/download`
 
+    // Wallet passes carry the same QR as the badge; offer whichever
+    // platforms this tenant has signing credentials for.
+    const wallet = getWalletConfig()
+    const walletLinks = [
+      wallet.apple ? { label: "Add to Apple Wallet", href: `${baseUrl}/api/my/wallet-pass/apple?token=${registration.checkin_token}` } : null,
+      wallet.google ? { label: "Add to Google Wallet", href: `${baseUrl}/api/my/wallet-pass/google?token=${registration.checkin_token}` } : null,
+    ].filter((link): link is { label: string; href: string } => link !== null)
+
     // Send email with badge
     const emailSubject = `Your Badge for ${eventName}`
     const emailResult = await sendEmail({
@@ -125,6 +134,12 @@ export async function POST(request: NextRequest) {
               </a>
             </div>
 
+            ${walletLinks.length > 0 ? `
+            <p style="text-align: center; margin-top: 16px;">
+              ${walletLinks.map((link) => `<a href="${link.href}" style="display: inline-block; margin: 4px 6px; color: #1e3a5f; font-weight: bold;">${link.label}</a>`).join("")}
+            </p>
+            ` : ""}
+
             <p style="color: #999; font-size: 12px; text-align: center; margin-top: 30px;">
               Print this badge and bring it to the event for faster check-in.
             </p>
@@ -3,9 +3,11 @@ import { createAdminClient } from "@/lib/supabase/server"
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import QRCode from "qrcode"
 import { logActivityFromRequest } from "@/lib/activity-logger"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { requireEventAndPermission } from "@/lib/auth/api-auth"
 import { resolvePdfFontFamily } from "@/lib/badge-pdf-font"
+import { resolveBadgeElements } from "@/lib/badge-conditions"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
 
 export const dynamic = "force-dynamic"
 
@@ -135,7 +137,7 @@ const A4_WIDTH = 595
 const A4_HEIGHT = 842
 
 // POST /api/badges/generate - Generate PDF badges
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Internal cron caller bypasses rate limit + user auth. The auto-generate-badges
   // cron loops over hundreds of registrations and is service-to-service, not user-facing.
   const cronSecret = process.env.CRON_SECRET?.trim()
@@ -144,7 +146,7 @@ export async function POST(request: NextRequest) {
   if (!isCronCall) {
     // Rate limit: bulk tier for badge generation (resource intensive)
     const ip = getClientIp(request)
-    const rateLimit = checkRateLimit(ip, "bulk")
+    const rateLimit = await checkRateLimit(ip, "bulk")
     if (!rateLimit.success) {
       return rateLimitExceededResponse(rateLimit)
     }
@@ -266,6 +268,9 @@ export async function POST(request: NextRequest) {
       ]
     }
 
+    // Who each badge is for, for conditional elements and colour variants
+    const audiences = await loadBadgeAudiences(supabase, event_id, registrations, elements)
+
     // Debug: Log template data
     console.log("Template loaded:", {
       id: template.id,
@@ -337,10 +342,9 @@ export async function POST(request: NextRequest) {
         })
       }
 
-      // Sort elements by zIndex and filter out hidden ones
-      const visibleElements = elements
-        .filter((el: Placeholder) => el.visible !== false)
-        .sort((a: Placeholder, b: Placeholder) => (a.zIndex || 0) - (b.zIndex || 0))
+      // Sort elements by zIndex, dropping hidden ones and those not meant for this attendee
+      const visibleElements = resolveBadgeElements(elements, audiences.get(registration.id) || null)
+        .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
 
       console.log(`Drawing ${visibleElements.length} visible elements for registration ${registration.registration_number}`)
 
@@ -743,4 +747,4 @@ export async function POST(request: NextRequest) {
     console.error("Error generating badges:", error)
     return NextResponse.json({ error: "Failed to generate badges" }, { status: 500 })
   }
-}
+})
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import QRCode from "qrcode"
+import { replaceCmePlaceholders, usesCmePlaceholders, type CmeTranscript } from "@/lib/session-attendance"
+import { loadCmeTranscripts } from "@/lib/services/session-attendance"
 
 export const dynamic = "force-dynamic"
 
@@ -42,7 +44,13 @@ function getBaseUrl(): string {
   return "http://localhost:3000"
 }
 
-function replacePlaceholders(text: string, registration: any, event: any, checkinTokenOverride?: string | null): string {
+function replacePlaceholders(
+  text: string,
+  registration: any,
+  event: any,
+  checkinTokenOverride?: string | null,
+  cmeTranscript: CmeTranscript | null = null
+): string {
   if (!text) return ""
   let result = text
   result = result.replace(/\{\{name\}\}/g, registration.attendee_name || "")
@@ -71,6 +79,7 @@ function replacePlaceholders(text: string, registration: any, event: any, checki
   const verifyUrl = `${baseUrl}/v/${checkinToken}`
   result = result.replace(/\{\{verification_url\}\}/g, verifyUrl)
   result = result.replace(/\{\{verify_url\}\}/g, verifyUrl)
+  result = replaceCmePlaceholders(result, cmeTranscript)
 
   return result
 }
@@ -192,6 +201,19 @@ export async function GET(
     const elements = templateData.elements || []
     const scaleFactor = 72 / 96
 
+    // CME placeholders need the delegate's hall-door transcript. Failing here
+    // is better than printing a certificate that understates their credits.
+    let cmeTranscript: CmeTranscript | null = null
+    if (elements.some((el: any) => el.type === "text" && usesCmePlaceholders(el.content))) {
+      try {
+        const transcripts = await loadCmeTranscripts(supabase, registration.event_id, registration.id)
+        cmeTranscript = transcripts.get(registration.id) ?? null
+      } catch (e) {
+        console.error("Certificate CME transcript error:", e)
+        return NextResponse.json({ error: "Failed to load CME credits" }, { status: 500 })
+      }
+    }
+
     const pdfDoc = await PDFDocument.create()
     const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica)
     const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
@@ -248,17 +270,23 @@ export async function GET(
       }
 
       if (element.type === "text" && element.content) {
-        const rawText = replacePlaceholders(element.content, registration, event, checkinToken)
+        const rawText = replacePlaceholders(element.content, registration, event, checkinToken, cmeTranscript)
         const text = applyTextCase(rawText, element.textCase)
         const color = hexToRgb(element.color || "#000000")
         const fontSize = (element.fontSize || 14) * scaleFactor
         const font = element.fontWeight === "bold" ? helveticaBold : helveticaFont
-        const textWidth = font.widthOfTextAtSize(text, fontSize)
-        let textX = x
-        if (element.align === "center") textX = x + (width - textWidth) / 2
-        else if (element.align === "right") textX = x + width - textWidth
-        const textY = y + (height - fontSize) / 2
-        page.drawText(text, { x: textX, y: textY, size: fontSize, font, color: rgb(color.r, color.g, color.b) })
+        // Multi-line text ({{cme_transcript}}) stacks down from the top of the
+        // box; a single line stays vertically centred.
+        const lines = text.split("\n")
+        let textY = lines.length > 1 ? y + height - fontSize : y + (height - fontSize) / 2
+        for (const line of lines) {
+          const textWidth = font.widthOfTextAtSize(line, fontSize)
+          let textX = x
+          if (element.align === "center") textX = x + (width - textWidth) / 2
+          else if (element.align === "right") textX = x + width - textWidth
+          page.drawText(line, { x: textX, y: textY, size: fontSize, font, color: rgb(color.r, color.g, color.b) })
+          textY -= fontSize * 1.3
+        }
       }
 
       if (element.type === "qr_code") {
@@ -4,6 +4,8 @@ import { requireEventAndPermission } from "@/lib/auth/api-auth"
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import QRCode from "qrcode"
 import { logActivityFromRequest } from "@/lib/activity-logger"
+import { replaceCmePlaceholders, usesCmePlaceholders, type CmeTranscript } from "@/lib/session-attendance"
+import { loadCmeTranscripts } from "@/lib/services/session-attendance"
 
 export const dynamic = "force-dynamic"
 
@@ -53,7 +55,7 @@ function getBaseUrl(): string {
 }
 
 // Replace placeholders in text
-function replacePlaceholders(text: string, registration: any, event: any): string {
+function replacePlaceholders(text: string, registration: any, event: any, cmeTranscript: CmeTranscript | null = null): string {
   if (!text) return ""
 
   let result = text
@@ -84,6 +86,9 @@ function replacePlaceholders(text: string, registration: any, event: any): strin
   result = result.replace(/\{\{issue_date\}\}/g, today)
   result = result.replace(/\{\{today\}\}/g, today)
 
+  // CME credits from the hall-door attendance scans
+  result = replaceCmePlaceholders(result, cmeTranscript)
+
   return result
 }
 
@@ -187,6 +192,18 @@ export async function POST(request: NextRequest) {
     // Scale factor: template uses pixels at 96 DPI, PDF uses points at 72 DPI
     const scaleFactor = 72 / 96
 
+    // CME transcripts, loaded once for the whole event and only when the
+    // template uses a CME placeholder
+    let cmeTranscripts = new Map<string, CmeTranscript>()
+    if (elements.some((el: any) => el.type === "text" && usesCmePlaceholders(el.content))) {
+      try {
+        cmeTranscripts = await loadCmeTranscripts(supabase, event_id)
+      } catch (e) {
+        console.error("Failed to load CME transcripts:", e)
+        return NextResponse.json({ error: "Failed to load CME credits" }, { status: 500 })
+      }
+    }
+
     // Create PDF document
     const pdfDoc = await PDFDocument.create()
     const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica)
@@ -279,19 +296,25 @@ export async function POST(request: NextRequest) {
         }
 
         if (element.type === "text" && element.content) {
-          const rawText = replacePlaceholders(element.content, registration, event)
+          const rawText = replacePlaceholders(element.content, registration, event, cmeTranscripts.get(registration.id) ?? null)
           const text = applyTextCase(rawText, element.textCase)
           const color = hexToRgb(element.color || "#000000")
           const fontSize = (element.fontSize || 14) * scaleFactor
           const font = element.fontWeight === "bold" ? helveticaBold : helveticaFont
 
-          const textWidth = font.widthOfTextAtSize(text, fontSize)
-          let textX = x
-          if (element.align === "center") textX = x + (width - textWidth) / 2
-          else if (element.align === "right") textX = x + width - textWidth
-
-          const textY = y + (height - fontSize) / 2
-          page.drawText(text, { x: textX, y: textY, size: fontSize, font, color: rgb(color.r, color.g, color.b) })
+          // Multi-line text ({{cme_transcript}}) stacks down from the top of
+          // the box; a single line stays vertically centred
+          const lines = text.split("\n")
+          let textY = lines.length > 1 ? y + height - fontSize : y + (height - fontSize) / 2
+          for (const line of lines) {
+            const textWidth = font.widthOfTextAtSize(line, fontSize)
+            let textX = x
+            if (element.align === "center") textX = x + (width - textWidth) / 2
+            else if (element.align === "right") textX = x + width - textWidth
+
+            page.drawText(line, { x: textX, y: textY, size: fontSize, font, color: rgb(color.r, color.g, color.b) })
+            textY -= fontSize * 1.3
+          }
         }
 
         if (element.type === "qr_code") {
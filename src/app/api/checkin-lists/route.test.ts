@@ -86,4 +86,42 @@ describe("PUT /api/checkin-lists", () => {
     }))
     expect(res.status).toBe(400)
   })
+
+  it("400s on malformed entitlement rules or daily limit", async () => {
+    const { PUT } = await import("./route")
+    const badDay = await PUT(makeRequest("http://localhost/api/checkin-lists", {
+      method: "PUT",
+      body: { id: LIST_ID, entitlement_rules: [{ day: "Day 2" }] },
+    }))
+    expect(badDay.status).toBe(400)
+    const badLimit = await PUT(makeRequest("http://localhost/api/checkin-lists", {
+      method: "PUT",
+      body: { id: LIST_ID, max_scans_per_day: 0 },
+    }))
+    expect(badLimit.status).toBe(400)
+    expect(mock.calls.length).toBe(0)
+  })
+
+  it("saves normalized entitlement rules and the daily limit", async () => {
+    mock.queueResponse("checkin_lists", { data: { event_id: EVENT_ID, ticket_type_ids: null, addon_ids: null }, error: null })
+    mock.queueResponse("checkin_lists", { data: { id: LIST_ID }, error: null })
+    const ticketTypeId = "33333333-3333-3333-3333-333333333333"
+
+    const { PUT } = await import("./route")
+    const res = await PUT(makeRequest("http://localhost/api/checkin-lists", {
+      method: "PUT",
+      body: {
+        id: LIST_ID,
+        entitlement_rules: [{ day: "2026-10-21", ticket_type_ids: [ticketTypeId] }],
+        max_scans_per_day: 1,
+      },
+    }))
+
+    expect(res.status).toBe(200)
+    const updateCall = mock.calls.find((c) => c.table === "checkin_lists" && c.method === "update")
+    expect(updateCall!.args[0]).toMatchObject({
+      entitlement_rules: [{ day: "2026-10-21", ticket_type_ids: [ticketTypeId], addon_ids: [], meal_plan_ids: [] }],
+      max_scans_per_day: 1,
+    })
+  })
 })
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { parseEntitlementRules, parseMaxScansPerDay } from "@/lib/checkin-entitlements"
 
 // GET /api/checkin-lists - Get all check-in lists for an event
 export async function GET(request: NextRequest) {
@@ -112,7 +113,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { event_id, name, description, ticket_type_ids, addon_ids, starts_at, ends_at, list_purpose, kiosk_opens_at, kiosk_closes_at, kiosk_force_state, prints_badge, category } = body
+    const { event_id, name, description, ticket_type_ids, addon_ids, starts_at, ends_at, list_purpose, kiosk_opens_at, kiosk_closes_at, kiosk_force_state, prints_badge, category, entitlement_rules, max_scans_per_day } = body
 
     if (!event_id || !name) {
       return NextResponse.json({ error: "event_id and name are required" }, { status: 400 })
@@ -139,6 +140,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "kiosk_force_state must be 'open', 'closed', or null" }, { status: 400 })
     }
 
+    const parsedRules = parseEntitlementRules(entitlement_rules)
+    if ("error" in parsedRules) {
+      return NextResponse.json({ error: parsedRules.error }, { status: 400 })
+    }
+    const parsedMaxScans = parseMaxScansPerDay(max_scans_per_day)
+    if ("error" in parsedMaxScans) {
+      return NextResponse.json({ error: parsedMaxScans.error }, { status: 400 })
+    }
+
     // Authorize against the target event — not just "any logged-in user".
     const { error: authError } = await requireEventAndPermission(event_id, "checkin")
     if (authError) return authError
@@ -184,6 +194,8 @@ export async function POST(request: NextRequest) {
         list_purpose,
         category,
         prints_badge: prints_badge ?? false,
+        entitlement_rules: parsedRules.rules,
+        max_scans_per_day: parsedMaxScans.value,
         access_token_expires_at,
         sort_order: nextOrder
       })
@@ -205,7 +217,7 @@ export async function POST(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json()
-    const { id, name, description, ticket_type_ids, addon_ids, starts_at, ends_at, is_active, sort_order, list_purpose, kiosk_opens_at, kiosk_closes_at, kiosk_force_state, prints_badge, category } = body
+    const { id, name, description, ticket_type_ids, addon_ids, starts_at, ends_at, is_active, sort_order, list_purpose, kiosk_opens_at, kiosk_closes_at, kiosk_force_state, prints_badge, category, entitlement_rules, max_scans_per_day } = body
 
     if (!id) {
       return NextResponse.json({ error: "id is required" }, { status: 400 })
@@ -229,6 +241,15 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ error: "kiosk_force_state must be 'open', 'closed', or null" }, { status: 400 })
     }
 
+    const parsedRules = entitlement_rules !== undefined ? parseEntitlementRules(entitlement_rules) : null
+    if (parsedRules && "error" in parsedRules) {
+      return NextResponse.json({ error: parsedRules.error }, { status: 400 })
+    }
+    const parsedMaxScans = max_scans_per_day !== undefined ? parseMaxScansPerDay(max_scans_per_day) : null
+    if (parsedMaxScans && "error" in parsedMaxScans) {
+      return NextResponse.json({ error: parsedMaxScans.error }, { status: 400 })
+    }
+
     const supabase = await createAdminClient()
 
     // Get the current list to resolve its event (for authz + the cleanup below)
@@ -261,6 +282,8 @@ export async function PUT(request: NextRequest) {
     if (list_purpose !== undefined) updateData.list_purpose = list_purpose
     if (category !== undefined) updateData.category = category
     if (prints_badge !== undefined) updateData.prints_badge = prints_badge
+    if (parsedRules) updateData.entitlement_rules = parsedRules.rules
+    if (parsedMaxScans) updateData.max_scans_per_day = parsedMaxScans.value
 
     const { data, error } = await (supabase as any)
       .from("checkin_lists")
@@ -1,17 +1,17 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { sanitizeSearchInput, validatePagination } from "@/lib/validation"
 
 // GET /api/checkin/access/[accessToken]/attendees
 // Returns the attendee roster for a check-in list, scoped to a staff access token.
 // Used by the volunteer portal's "List" tab.
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ accessToken: string }> }
 ) {
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`checkin-access-list:${clientIp}`, "authenticated")
+  const rateLimit = await checkRateLimit(`checkin-access-list:${clientIp}`, "authenticated")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const { accessToken } = await params
@@ -139,4 +139,4 @@ export async function GET(
     limit,
     totalPages: Math.ceil((count || 0) / limit),
   })
-}
+})
@@ -1,18 +1,18 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // GET /api/checkin/access/[accessToken]/stats
 // Lightweight, frequently-polled stats for the volunteer portal's live counter.
 // Split from the parent /access/[accessToken] route (which is "strict"-tier,
 // 5 req/min) so that polling every 15s from multiple volunteer devices on the
 // same venue Wi-Fi (shared/NAT'd IP) doesn't trip rate limiting.
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ accessToken: string }> }
 ) {
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`checkin-access-stats:${clientIp}`, "authenticated")
+  const rateLimit = await checkRateLimit(`checkin-access-stats:${clientIp}`, "authenticated")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const { accessToken } = await params
@@ -62,4 +62,4 @@ export async function GET(
       checkedIn: checkedInCount || 0,
     }
   })
-}
+})
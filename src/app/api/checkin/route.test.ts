@@ -164,4 +164,152 @@ describe("POST /api/checkin", () => {
     const withinBody = await withinRes.json()
     expect(withinBody.warning).toBeUndefined()
   })
+
+  it("denies a delegate the list's entitlement rules don't cover, with the reason and code", async () => {
+    mock.queueResponse("registrations", { data: baseRegistration({ ticket_type_id: "ticket-1" }), error: null })
+    mock.queueResponse("checkin_lists", {
+      data: baseList({
+        entitlement_rules: [{ day: null, ticket_type_ids: ["ticket-2"], addon_ids: [], meal_plan_ids: [] }],
+        max_scans_per_day: null,
+      }),
+      error: null,
+    })
+    mock.queueResponse("checkin_records", { data: null, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("ticket_types", { data: [{ id: "ticket-2", name: "Workshop" }], error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest("http://localhost/api/checkin", {
+        method: "POST",
+        body: { event_id: EVENT_ID, checkin_list_id: LIST_ID, registration_id: REG_ID, action: "check_in" },
+      })
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body.reason_code).toBe("not_entitled")
+    expect(body.error).toMatch(/^Not entitled to "Main Entry" on .* — requires Workshop ticket\.$/)
+    expect(mock.calls.some((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")).toBe(false)
+  })
+
+  it("admits a checked-in delegate again on a daily-limited list and counts the use", async () => {
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", { data: baseList({ name: "Lunch", entitlement_rules: [], max_scans_per_day: 2 }), error: null })
+    mock.queueResponse("checkin_records", { data: { id: "rec-1", checked_in_at: "2026-07-18T10:00:00Z" }, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest("http://localhost/api/checkin", {
+        method: "POST",
+        body: { event_id: EVENT_ID, checkin_list_id: LIST_ID, registration_id: REG_ID, action: "check_in", user_id: "u1" },
+      })
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body.action).toBe("checked_in")
+    expect(body.uses_today).toBe(2)
+    const insert = mock.calls.find((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({
+      event_id: EVENT_ID,
+      checkin_list_id: LIST_ID,
+      registration_id: REG_ID,
+      use_date: new Date().toISOString().slice(0, 10),
+      created_by: "u1",
+    })
+  })
+
+  it("denies once the daily limit is used up", async () => {
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", { data: baseList({ name: "Lunch", entitlement_rules: [], max_scans_per_day: 1 }), error: null })
+    mock.queueResponse("checkin_records", { data: { id: "rec-1", checked_in_at: "2026-07-18T10:00:00Z" }, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest("http://localhost/api/checkin", {
+        method: "POST",
+        body: { event_id: EVENT_ID, checkin_list_id: LIST_ID, registration_id: REG_ID, action: "check_in" },
+      })
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body.reason_code).toBe("daily_limit")
+    expect(body.error).toBe('Daily limit reached — already used "Lunch" 1 of 1 time today.')
+  })
+
+  it("denies when a concurrent scan takes the last slot between the count and the claim", async () => {
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", { data: baseList({ name: "Lunch", entitlement_rules: [], max_scans_per_day: 1 }), error: null })
+    mock.queueResponse("checkin_records", { data: null, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 0 })
+    mock.queueResponse("checkin_entitlement_uses", {
+      data: null,
+      error: { code: "23505", message: 'duplicate key value violates unique constraint "checkin_entitlement_uses_slot_key"' },
+    })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest("http://localhost/api/checkin", {
+        method: "POST",
+        body: { event_id: EVENT_ID, checkin_list_id: LIST_ID, registration_id: REG_ID, action: "check_in" },
+      })
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body.reason_code).toBe("daily_limit")
+    const insert = mock.calls.find((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({ slot: 1 })
+    expect(mock.calls.some((c) => c.table === "checkin_records" && c.method === "insert")).toBe(false)
+  })
+})
+
+describe("PATCH /api/checkin", () => {
+  it("runs each delegate through the list's entitlement rules and reports the ones refused", async () => {
+    const OTHER_ID = "44444444-4444-4444-4444-444444444444"
+    mock.queueResponse("checkin_lists", {
+      data: baseList({
+        entitlement_rules: [{ day: null, ticket_type_ids: ["ticket-1"], addon_ids: [], meal_plan_ids: [] }],
+        max_scans_per_day: null,
+      }),
+      error: null,
+    })
+    mock.queueResponse("checkin_records", { data: [], error: null }) // existing active records
+    mock.queueResponse("registrations", {
+      data: [
+        { id: REG_ID, ticket_type_id: "ticket-1" },
+        { id: OTHER_ID, ticket_type_id: "ticket-2" },
+      ],
+      error: null,
+    })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("ticket_types", { data: [{ id: "ticket-1", name: "Delegate" }], error: null })
+    mock.queueResponse("checkin_records", { data: [], error: null }) // previous records
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(
+      makeRequest("http://localhost/api/checkin", {
+        method: "PATCH",
+        body: { event_id: EVENT_ID, checkin_list_id: LIST_ID, registration_ids: [REG_ID, OTHER_ID], action: "check_in" },
+      })
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body.count).toBe(1)
+    expect(body.denied).toEqual([
+      expect.objectContaining({ registration_id: OTHER_ID, reason_code: "not_entitled" }),
+    ])
+    const insert = mock.calls.find((c) => c.table === "checkin_records" && c.method === "insert")
+    expect(insert?.args[0]).toEqual([expect.objectContaining({ registration_id: REG_ID })])
+  })
 })
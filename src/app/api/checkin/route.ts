@@ -3,6 +3,8 @@ import { createAdminClient } from "@/lib/supabase/server"
 import { validatePagination, sanitizeSearchInput, isValidUUID } from "@/lib/validation"
 import { getApiUser } from "@/lib/auth/api-auth"
 import { checkTimeWindow } from "@/lib/checkin-time-window"
+import { dailyLimitReached, hasEntitlements } from "@/lib/checkin-entitlements"
+import { claimEntitlementUse, evaluateListEntitlement } from "@/lib/services/checkin-entitlements"
 
 // GET /api/checkin - Search for attendees (with check-in status for a specific list)
 export async function GET(request: NextRequest) {
@@ -325,6 +327,72 @@ export async function POST(request: NextRequest) {
     const shouldCheckIn = action === "check_in" || (action === "toggle" && !isCheckedIn)
 
     if (shouldCheckIn) {
+      // Per-day entitlement rules and daily scan limits. Unlike the time
+      // window above these do block -- the reason goes back to the desk.
+      // Checked here rather than with the ticket/addon checks so a check-out
+      // is never refused.
+      const dailyLimited = !!checkinList.max_scans_per_day
+      let usesToday: number | null = null
+      if (hasEntitlements(checkinList)) {
+        const scannedAt = new Date()
+        const evaluation = await evaluateListEntitlement(supabase, {
+          eventId: event_id,
+          list: checkinList,
+          registration,
+          at: scannedAt,
+        })
+        if (!evaluation.result.allowed) {
+          return NextResponse.json({
+            error: evaluation.result.reason,
+            reason_code: evaluation.result.code,
+            registration
+          }, { status: 400 })
+        }
+
+        if (dailyLimited) {
+          const claim = await claimEntitlementUse(supabase, {
+            eventId: event_id,
+            listId: checkin_list_id,
+            registrationId: registration.id,
+            day: evaluation.day,
+            scannedAt,
+            maxPerDay: checkinList.max_scans_per_day,
+            usesToday: evaluation.usesToday,
+            createdBy: user_id || null,
+          })
+          if (claim.error) {
+            return NextResponse.json({ error: "Failed to check in attendee" }, { status: 500 })
+          }
+          if (claim.usesToday === null) {
+            // Another desk took the last use between the count and the claim.
+            const denial = dailyLimitReached(checkinList.max_scans_per_day, checkinList.max_scans_per_day, checkinList.name)
+            return NextResponse.json({
+              error: denial.reason,
+              reason_code: denial.code,
+              registration
+            }, { status: 400 })
+          }
+          usesToday = claim.usesToday
+        }
+      }
+
+      // A daily-limited list admits the same delegate again (up to the
+      // limit) on top of their one checkin_records row.
+      if (isCheckedIn && dailyLimited) {
+        return NextResponse.json({
+          success: true,
+          action: "checked_in",
+          list_name: checkinList.name,
+          uses_today: usesToday,
+          registration: {
+            ...registration,
+            checked_in: true,
+            checked_in_at: activeRecord.checked_in_at,
+            checkin_record_id: activeRecord.id
+          }
+        })
+      }
+
       if (isCheckedIn) {
         // Already checked in
         return NextResponse.json({
@@ -418,6 +486,7 @@ export async function POST(request: NextRequest) {
         action: "checked_in",
         list_name: checkinList.name,
         ...(warnings.length > 0 && { warning: warnings.join(" ") }),
+        ...(usesToday !== null && { uses_today: usesToday }),
         registration: {
           ...registration,
           checked_in: true,
@@ -495,8 +564,9 @@ export async function PATCH(request: NextRequest) {
       // compute it once from the list, not per bulk item.
       const { data: checkinList } = await (supabase as any)
         .from("checkin_lists")
-        .select("starts_at, ends_at")
+        .select("id, name, starts_at, ends_at, entitlement_rules, max_scans_per_day")
         .eq("id", checkin_list_id)
+        .eq("event_id", event_id)
         .maybeSingle()
       const { warning: timeWindowWarning } = checkTimeWindow(checkinList || {})
 
@@ -509,7 +579,60 @@ export async function PATCH(request: NextRequest) {
         .is("checked_out_at", null)
 
       const alreadyCheckedIn = new Set((existingRecords || []).map((r: any) => r.registration_id))
-      const toCheckIn = registration_ids.filter((id: string) => !alreadyCheckedIn.has(id))
+      let toCheckIn = registration_ids.filter((id: string) => !alreadyCheckedIn.has(id))
+
+      // Per-day entitlement rules and daily limits hold for bulk check-in
+      // too: each delegate goes through the same gate as a desk scan and
+      // uses up one of the day's scans. Those refused are left out and come
+      // back in `denied` with the reason.
+      const denied: { registration_id: string; reason: string; reason_code: string }[] = []
+      if (toCheckIn.length > 0 && checkinList && hasEntitlements(checkinList)) {
+        const { data: regs, error: regsError } = await (supabase as any)
+          .from("registrations")
+          .select("id, ticket_type_id")
+          .eq("event_id", event_id)
+          .in("id", toCheckIn)
+        if (regsError) {
+          return NextResponse.json({ error: "Failed to bulk check in" }, { status: 500 })
+        }
+
+        const admitted: string[] = []
+        const scannedAt = new Date()
+        for (const registration of regs || []) {
+          const evaluation = await evaluateListEntitlement(supabase, {
+            eventId: event_id,
+            list: checkinList,
+            registration,
+            at: scannedAt,
+          })
+          if (!evaluation.result.allowed) {
+            denied.push({ registration_id: registration.id, reason: evaluation.result.reason, reason_code: evaluation.result.code })
+            continue
+          }
+          if (checkinList.max_scans_per_day) {
+            const claim = await claimEntitlementUse(supabase, {
+              eventId: event_id,
+              listId: checkin_list_id,
+              registrationId: registration.id,
+              day: evaluation.day,
+              scannedAt,
+              maxPerDay: checkinList.max_scans_per_day,
+              usesToday: evaluation.usesToday,
+              createdBy: user_id || null,
+            })
+            if (claim.error) {
+              return NextResponse.json({ error: "Failed to bulk check in" }, { status: 500 })
+            }
+            if (claim.usesToday === null) {
+              const denial = dailyLimitReached(checkinList.max_scans_per_day, checkinList.max_scans_per_day, checkinList.name)
+              denied.push({ registration_id: registration.id, reason: denial.reason, reason_code: denial.code })
+              continue
+            }
+          }
+          admitted.push(registration.id)
+        }
+        toCheckIn = admitted
+      }
 
       if (toCheckIn.length > 0) {
         const bulkCheckedInAt = new Date().toISOString()
@@ -568,6 +691,7 @@ export async function PATCH(request: NextRequest) {
         action: "checked_in",
         count: toCheckIn.length,
         skipped: alreadyCheckedIn.size,
+        ...(denied.length > 0 && { denied }),
         ...(timeWindowWarning && { warning: timeWindowWarning })
       })
     } else {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { getRecipientTimeline } from "@/lib/services/campaign-runner"
+
+// GET /api/communications/campaigns/[id]/recipients/[recipientId] - Delivery timeline
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; recipientId: string }> }
+) {
+  try {
+    const { id, recipientId } = await params
+    const db = (await createAdminClient()) as any
+    const { data: campaign } = await db.from("campaigns").select("id, event_id").eq("id", id).maybeSingle()
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(campaign.event_id)
+    if (authError) return authError
+
+    const result = await getRecipientTimeline(db, id, recipientId)
+    if (!result) {
+      return NextResponse.json({ error: "Recipient not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error in GET /api/communications/campaigns/[id]/recipients/[recipientId]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
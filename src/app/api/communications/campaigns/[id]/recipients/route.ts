@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { RECIPIENT_COLUMNS } from "@/lib/services/campaign-runner"
+
+const PAGE_SIZE = 50
+
+// GET /api/communications/campaigns/[id]/recipients?status=failed&search=&page=1
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const searchParams = new URL(request.url).searchParams
+    const status = searchParams.get("status")
+    const search = searchParams.get("search")?.trim()
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1)
+
+    const db = (await createAdminClient()) as any
+    const { data: campaign } = await db.from("campaigns").select("id, event_id").eq("id", id).maybeSingle()
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(campaign.event_id)
+    if (authError) return authError
+
+    let query = db
+      .from("campaign_recipients")
+      .select(RECIPIENT_COLUMNS, { count: "exact" })
+      .eq("campaign_id", id)
+    if (status && status !== "all") query = query.eq("status", status)
+    if (search) {
+      const term = search.replace(/[%,()]/g, "")
+      query = query.or(`recipient_name.ilike.%${term}%,recipient.ilike.%${term}%`)
+    }
+
+    const from = (page - 1) * PAGE_SIZE
+    const { data, count, error } = await query
+      .order("recipient_name", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("Error fetching campaign recipients:", error)
+      return NextResponse.json({ error: "Failed to fetch recipients" }, { status: 500 })
+    }
+
+    return NextResponse.json({ recipients: data || [], total: count || 0, page, page_size: PAGE_SIZE })
+  } catch (error) {
+    console.error("Error in GET /api/communications/campaigns/[id]/recipients:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { campaignActionSchema, formatZodError } from "@/lib/schemas"
+import { CAMPAIGN_COLUMNS, applyCampaignAction, runCampaigns } from "@/lib/services/campaign-runner"
+
+async function loadCampaign(db: any, id: string) {
+  const { data } = await db.from("campaigns").select(CAMPAIGN_COLUMNS).eq("id", id).maybeSingle()
+  return data
+}
+
+// GET /api/communications/campaigns/[id]
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+    const campaign = await loadCampaign(db, id)
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(campaign.event_id)
+    if (authError) return authError
+
+    return NextResponse.json({ campaign })
+  } catch (error) {
+    console.error("Error in GET /api/communications/campaigns/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// PATCH /api/communications/campaigns/[id] - { action: pause | resume | cancel | retry_failed }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const parsed = campaignActionSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(formatZodError(parsed.error), { status: 400 })
+    }
+    const { action } = parsed.data
+
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+    const campaign = await loadCampaign(db, id)
+    if (!campaign) {
+      return NextResponse.json({ error: "Campaign not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(campaign.event_id)
+    if (authError) return authError
+
+    const result = await applyCampaignAction(db, campaign, action)
+    if (!result) {
+      return NextResponse.json(
+        { error: `Can't ${action.replace("_", " ")} a ${campaign.status} campaign` },
+        { status: 409 }
+      )
+    }
+
+    if (result.status === "sending") {
+      // Pick up where it left off without waiting for the next cron tick
+      after(async () => {
+        try {
+          await runCampaigns(db, [campaign.event_id], { campaignId: id })
+        } catch (err) {
+          console.error("[communications/campaigns] Campaign failed to resume:", err)
+        }
+      })
+    }
+
+    return NextResponse.json({ campaign: await loadCampaign(db, id), recipients: result.recipients })
+  } catch (error) {
+    console.error("Error in PATCH /api/communications/campaigns/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
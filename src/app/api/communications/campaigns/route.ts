@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse, after } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { campaignCreateSchema, formatZodError } from "@/lib/schemas"
+import { CAMPAIGN_COLUMNS, createCampaign, runCampaigns } from "@/lib/services/campaign-runner"
+import { recordSegmentCount, resolveSegment } from "@/lib/services/audience-segments"
+
+// GET /api/communications/campaigns?event_id=xxx
+export async function GET(request: NextRequest) {
+  try {
+    const eventId = new URL(request.url).searchParams.get("event_id")
+    if (!eventId) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const { error: authError } = await requireEventAccess(eventId)
+    if (authError) return authError
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("campaigns")
+      .select(CAMPAIGN_COLUMNS)
+      .eq("event_id", eventId)
+      .eq("recipient_type", "registrations")
+      .order("created_at", { ascending: false })
+      .limit(100)
+
+    if (error) {
+      console.error("Error fetching campaigns:", error)
+      return NextResponse.json({ error: "Failed to fetch campaigns" }, { status: 500 })
+    }
+
+    return NextResponse.json({ campaigns: data || [] })
+  } catch (error) {
+    console.error("Error in GET /api/communications/campaigns:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/communications/campaigns
+ * Queue a message to the selected registrations, or to everyone a saved
+ * segment matches right now. Recipients are sent by the campaigns cron at the
+ * provider's throttle; a campaign without a future `scheduled_at` starts
+ * sending straight away.
+ */
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
+  const rateLimit = await checkRateLimit(getClientIp(request), "bulk")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const parsed = campaignCreateSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(formatZodError(parsed.error), { status: 400 })
+    }
+    const input = parsed.data
+
+    const { user, error: authError } = await requireEventAccess(input.event_id)
+    if (authError) return authError
+
+    if (input.channel === "email" && !input.subject?.trim()) {
+      return NextResponse.json({ error: "Subject is required for email" }, { status: 400 })
+    }
+
+    const now = new Date()
+    const scheduledAt = input.scheduled_at ? new Date(input.scheduled_at) : null
+    const db = (await createAdminClient()) as any
+
+    let registrationIds = input.recipient_ids || []
+    if (input.segment_id) {
+      const { data: segment } = await db
+        .from("audience_segments")
+        .select("id, definition")
+        .eq("id", input.segment_id)
+        .eq("event_id", input.event_id)
+        .maybeSingle()
+      if (!segment) {
+        return NextResponse.json({ error: "Segment not found" }, { status: 404 })
+      }
+      const members = await resolveSegment(db, input.event_id, segment.definition)
+      await recordSegmentCount(db, segment.id, members.length)
+      registrationIds = members.map((m) => m.id)
+      if (registrationIds.length === 0) {
+        return NextResponse.json({ error: "No recipients found" }, { status: 404 })
+      }
+    }
+
+    let campaign
+    try {
+      campaign = await createCampaign(
+        db,
+        {
+          eventId: input.event_id,
+          name: input.name || defaultCampaignName(input.channel, input.subject, scheduledAt || now),
+          channel: input.channel,
+          subject: input.subject?.trim() || null,
+          message: input.message,
+          templateId: input.template_id || null,
+          registrationIds,
+          segmentId: input.segment_id || null,
+          scheduledAt,
+          createdBy: user?.id || null,
+        },
+        now
+      )
+    } catch (err: any) {
+      if (err.message === "No recipients found") {
+        return NextResponse.json({ error: err.message }, { status: 404 })
+      }
+      throw err
+    }
+
+    if (!scheduledAt || scheduledAt <= now) {
+      // First chunk goes out now; the campaigns cron sends the rest
+      after(async () => {
+        try {
+          await runCampaigns(db, [input.event_id], { campaignId: campaign.id })
+        } catch (err) {
+          console.error("[communications/campaigns] Campaign failed to start:", err)
+        }
+      })
+    }
+
+    return NextResponse.json({ campaign }, { status: 201 })
+  } catch (error) {
+    console.error("Error in POST /api/communications/campaigns:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+})
+
+function defaultCampaignName(channel: string, subject: string | undefined, at: Date): string {
+  const label = channel === "email" ? "Email" : channel === "whatsapp" ? "WhatsApp" : "SMS"
+  const date = at.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short", timeZone: "Asia/Kolkata" })
+  return subject?.trim() ? `${subject.trim()} (${label})` : `${label} – ${date}`
+}
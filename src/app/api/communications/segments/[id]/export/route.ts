@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { toCSV } from "@/lib/csv-export"
+import { recordSegmentCount, resolveSegment } from "@/lib/services/audience-segments"
+
+// GET /api/communications/segments/[id]/export - Everyone the segment matches, as CSV
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+    const { data: segment } = await db
+      .from("audience_segments")
+      .select("id, event_id, name, definition")
+      .eq("id", id)
+      .maybeSingle()
+    if (!segment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(segment.event_id)
+    if (authError) return authError
+
+    const members = await resolveSegment(db, segment.event_id, segment.definition)
+    await recordSegmentCount(db, id, members.length)
+
+    const csv = toCSV(
+      ["Registration Number", "Name", "Email", "Phone", "Designation", "Institution", "City", "Status", "Payment Status"],
+      members.map((m) => [
+        m.registration_number,
+        m.attendee_name,
+        m.attendee_email,
+        m.attendee_phone,
+        m.attendee_designation,
+        m.attendee_institution,
+        m.attendee_city,
+        m.status,
+        m.payment_status,
+      ])
+    )
+    const fileName = segment.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "").toLowerCase() || "segment"
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="${fileName}.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error("Error in GET /api/communications/segments/[id]/export:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
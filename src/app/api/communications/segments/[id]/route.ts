@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { formatZodError, segmentSaveSchema } from "@/lib/schemas"
+import { SEGMENT_COLUMNS, findForeignForms, recordSegmentCount, resolveSegment } from "@/lib/services/audience-segments"
+
+async function loadSegment(db: any, id: string) {
+  const { data } = await db.from("audience_segments").select(SEGMENT_COLUMNS).eq("id", id).maybeSingle()
+  return data
+}
+
+// GET /api/communications/segments/[id]
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+    const segment = await loadSegment(db, id)
+    if (!segment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(segment.event_id)
+    if (authError) return authError
+
+    return NextResponse.json({ segment })
+  } catch (error) {
+    console.error("Error in GET /api/communications/segments/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// PATCH /api/communications/segments/[id] - Rename or change the rules
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+    const segment = await loadSegment(db, id)
+    if (!segment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(segment.event_id)
+    if (authError) return authError
+
+    const parsed = segmentSaveSchema
+      .omit({ event_id: true })
+      .partial()
+      .safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(formatZodError(parsed.error), { status: 400 })
+    }
+    const input = parsed.data
+    if (input.definition !== undefined && (await findForeignForms(db, segment.event_id, input.definition)).length > 0) {
+      return NextResponse.json({ error: "Form answer rules can only use this event's forms" }, { status: 400 })
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    if (input.name !== undefined) updates.name = input.name
+    if (input.description !== undefined) updates.description = input.description || null
+    if (input.definition !== undefined) updates.definition = input.definition
+
+    const { data, error } = await db
+      .from("audience_segments")
+      .update(updates)
+      .eq("id", id)
+      .select(SEGMENT_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error("Error updating segment:", error)
+      return NextResponse.json({ error: "Failed to update segment" }, { status: 500 })
+    }
+
+    if (input.definition !== undefined) {
+      const members = await resolveSegment(db, segment.event_id, input.definition)
+      await recordSegmentCount(db, id, members.length)
+      data.last_count = members.length
+    }
+
+    return NextResponse.json({ segment: data })
+  } catch (error) {
+    console.error("Error in PATCH /api/communications/segments/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/communications/segments/[id]
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const db = (await createAdminClient()) as any
+    const segment = await loadSegment(db, id)
+    if (!segment) {
+      return NextResponse.json({ error: "Segment not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAccess(segment.event_id)
+    if (authError) return authError
+
+    const { error } = await db.from("audience_segments").delete().eq("id", id)
+    if (error) {
+      console.error("Error deleting segment:", error)
+      return NextResponse.json({ error: "Failed to delete segment" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error in DELETE /api/communications/segments/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-4111-8111-111111111111"
+const OWN_FORM = "22222222-2222-4222-8222-222222222222"
+const OTHER_FORM = "33333333-3333-4333-8333-333333333333"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAccess: vi.fn(async () => ({ user: { id: "admin-1" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function preview(formId: string) {
+  return makeRequest("http://localhost/api/communications/segments/preview", {
+    method: "POST",
+    body: {
+      event_id: EVENT_ID,
+      definition: { match: "all", rules: [{ field: "form_answer", op: "submitted", form_id: formId }] },
+    },
+  })
+}
+
+describe("POST /api/communications/segments/preview", () => {
+  it("rejects a form_answer rule on another event's form without reading its submissions", async () => {
+    mock.queueResponse("forms", { data: [], error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(preview(OTHER_FORM))
+
+    expect(res.status).toBe(400)
+    const formFilters = mock.calls.filter((c) => c.table === "forms" && c.method === "eq").map((c) => c.args)
+    expect(formFilters).toContainEqual(["event_id", EVENT_ID])
+    expect(mock.calls.some((c) => c.table === "form_submissions")).toBe(false)
+  })
+
+  it("counts delegates who submitted one of the event's own forms", async () => {
+    mock.queueResponse("forms", { data: [{ id: OWN_FORM }], error: null })
+    mock.queueResponse("registrations", {
+      data: [
+        { id: "r1", attendee_name: "Asha", attendee_email: "asha@example.com", status: "confirmed" },
+        { id: "r2", attendee_name: "Ben", attendee_email: "ben@example.com", status: "confirmed" },
+      ],
+      error: null,
+    })
+    mock.queueResponse("forms", { data: [{ id: OWN_FORM }], error: null })
+    mock.queueResponse("form_submissions", { data: [{ submitter_email: "Asha@example.com", responses: {} }], error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(preview(OWN_FORM))
+    const json = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(json.sample.map((m: { id: string }) => m.id)).toEqual(["r1"])
+  })
+})
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { summarizeAudience } from "@/lib/audience-segments"
+import { formatZodError, segmentPreviewSchema } from "@/lib/schemas"
+import { findForeignForms, resolveSegment } from "@/lib/services/audience-segments"
+
+const SAMPLE_SIZE = 10
+
+/**
+ * POST /api/communications/segments/preview
+ * Live count for a rule tree that may not be saved yet: how many
+ * registrations match, how many of them each channel reaches, and a sample.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = segmentPreviewSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(formatZodError(parsed.error), { status: 400 })
+    }
+    const input = parsed.data
+
+    const { error: authError } = await requireEventAccess(input.event_id)
+    if (authError) return authError
+
+    const db = (await createAdminClient()) as any
+    if ((await findForeignForms(db, input.event_id, input.definition)).length > 0) {
+      return NextResponse.json({ error: "Form answer rules can only use this event's forms" }, { status: 400 })
+    }
+    const members = await resolveSegment(db, input.event_id, input.definition)
+
+    return NextResponse.json({
+      audience: summarizeAudience(members),
+      sample: members.slice(0, SAMPLE_SIZE).map((m) => ({
+        id: m.id,
+        registration_number: m.registration_number,
+        attendee_name: m.attendee_name,
+        attendee_email: m.attendee_email,
+        attendee_phone: m.attendee_phone,
+        status: m.status,
+      })),
+    })
+  } catch (error) {
+    console.error("Error in POST /api/communications/segments/preview:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { formatZodError, segmentSaveSchema } from "@/lib/schemas"
+import { SEGMENT_COLUMNS, findForeignForms, recordSegmentCount, resolveSegment } from "@/lib/services/audience-segments"
+
+// GET /api/communications/segments?event_id=xxx
+export async function GET(request: NextRequest) {
+  try {
+    const eventId = new URL(request.url).searchParams.get("event_id")
+    if (!eventId) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const { error: authError } = await requireEventAccess(eventId)
+    if (authError) return authError
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("audience_segments")
+      .select(SEGMENT_COLUMNS)
+      .eq("event_id", eventId)
+      .order("name", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching segments:", error)
+      return NextResponse.json({ error: "Failed to fetch segments" }, { status: 500 })
+    }
+
+    return NextResponse.json({ segments: data || [] })
+  } catch (error) {
+    console.error("Error in GET /api/communications/segments:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/communications/segments - Save a new segment
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = segmentSaveSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json(formatZodError(parsed.error), { status: 400 })
+    }
+    const input = parsed.data
+
+    const { user, error: authError } = await requireEventAccess(input.event_id)
+    if (authError) return authError
+
+    const db = (await createAdminClient()) as any
+    if ((await findForeignForms(db, input.event_id, input.definition)).length > 0) {
+      return NextResponse.json({ error: "Form answer rules can only use this event's forms" }, { status: 400 })
+    }
+
+    const { data: segment, error } = await db
+      .from("audience_segments")
+      .insert({
+        event_id: input.event_id,
+        name: input.name,
+        description: input.description || null,
+        definition: input.definition,
+        created_by: user?.id || null,
+      })
+      .select(SEGMENT_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error("Error creating segment:", error)
+      return NextResponse.json({ error: "Failed to save segment" }, { status: 500 })
+    }
+
+    const members = await resolveSegment(db, input.event_id, input.definition)
+    await recordSegmentCount(db, segment.id, members.length)
+
+    return NextResponse.json({ segment: { ...segment, last_count: members.length } }, { status: 201 })
+  } catch (error) {
+    console.error("Error in POST /api/communications/segments:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,13 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { sendEmail, isEmailEnabled } from "@/lib/email"
-import { sendWhatsAppMessage, WhatsAppConfig } from "@/lib/services/whatsapp"
-import { sendSMS, SMSConfig } from "@/lib/services/sms"
-import { sendWebhook, buildCommunicationPayload } from "@/lib/services/webhook"
-import { COMPANY_CONFIG } from "@/lib/config"
+import { hasWebhookSubscribers } from "@/lib/services/webhook-outbox"
+import { dispatchMessage, logDispatch } from "@/lib/services/message-dispatch"
 import { requireEventAccess } from "@/lib/auth/api-auth"
-import { escapeHtml } from "@/lib/string-utils"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 interface SendRequest {
   event_id: string
@@ -19,9 +15,9 @@ interface SendRequest {
 }
 
 // POST /api/communications/send
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -57,6 +53,9 @@ export async function POST(request: NextRequest) {
       .eq("event_id", event_id)
       .maybeSingle()
 
+    // Only queue message.sent webhooks per recipient when an endpoint wants them
+    const messageWebhooks = await hasWebhookSubscribers(supabase, event_id, "message.sent")
+
     // Get registrations
     const { data: registrations } = await (supabase as any)
       .from("registrations")
@@ -89,260 +88,30 @@ export async function POST(request: NextRequest) {
       }
       sendIndex++
 
-      // Personalize message
-      const personalizedMessage = message.replace(/\{\{name\}\}/gi, reg.attendee_name)
-      const personalizedSubject = subject?.replace(/\{\{name\}\}/gi, reg.attendee_name)
-
-      let sendResult: { success: boolean; messageId?: string; error?: string } = { success: false }
-      let recipient = ""
-
       try {
-        switch (channel) {
-          case "email":
-            recipient = reg.attendee_email
-            if (!recipient) {
-              results.failed++
-              results.errors.push(`${reg.attendee_name}: No email address`)
-              continue
-            }
-
-            // Build email HTML
-            const emailHtml = buildEmailHtml(event, personalizedMessage)
-
-            if (settings?.email_provider && settings.email_provider !== "default" && settings.email_api_key) {
-              // Use event-specific email settings
-              // For now, fall back to default - could implement per-event provider later
-              sendResult = await sendEmail({
-                to: recipient,
-                subject: personalizedSubject || `Message from ${event.short_name || event.name}`,
-                html: emailHtml,
-              })
-            } else if (isEmailEnabled()) {
-              sendResult = await sendEmail({
-                to: recipient,
-                subject: personalizedSubject || `Message from ${event.short_name || event.name}`,
-                html: emailHtml,
-              })
-            } else {
-              // Dev mode
-              sendResult = { success: true, messageId: `dev-${Date.now()}` }
-              console.log(`[DEV] Would send email to ${recipient}`)
-            }
-            break
-
-          case "whatsapp":
-            recipient = reg.attendee_phone
-            if (!recipient) {
-              results.failed++
-              results.errors.push(`${reg.attendee_name}: No phone number`)
-              continue
-            }
-
-            // If the event's provider is qikchat but its api_key is blank,
-            // fall back to the env-var QIKCHAT_API_KEY (same path auto-sends
-            // use). This is how the TechnoSurg event is configured — provider
-            // set, key stored only in env. Without this fallback every send
-            // failed with "Missing Qikchat API key".
-            const qikchatEnvAvailable = !!process.env.QIKCHAT_API_KEY?.trim()
-            const useEnvQikchat =
-              settings?.whatsapp_provider === "qikchat" &&
-              !settings?.whatsapp_api_key &&
-              qikchatEnvAvailable
-
-            if (settings?.whatsapp_provider && !useEnvQikchat) {
-              // Validate required fields based on provider
-              const provider = settings.whatsapp_provider
-              if (provider === "meta" && (!settings.whatsapp_phone_number_id || !settings.whatsapp_access_token)) {
-                results.failed++
-                results.errors.push(`${reg.attendee_name}: WhatsApp Meta provider not configured (missing phone_number_id or access_token)`)
-                continue
-              }
-              if (provider === "twilio" && (!settings.twilio_account_sid || !settings.twilio_auth_token || !settings.twilio_phone_number)) {
-                results.failed++
-                results.errors.push(`${reg.attendee_name}: WhatsApp Twilio provider not configured`)
-                continue
-              }
-              if (provider === "gallabox" && (!settings.whatsapp_api_key || !settings.whatsapp_access_token || !settings.whatsapp_phone_number_id)) {
-                results.failed++
-                results.errors.push(`${reg.attendee_name}: WhatsApp Gallabox provider not configured (missing api_key, access_token/apiSecret, or phone_number_id/channelId)`)
-                continue
-              }
-              if (provider === "qikchat" && !settings.whatsapp_api_key) {
-                results.failed++
-                results.errors.push(`${reg.attendee_name}: WhatsApp Qikchat provider not configured (missing api_key, and no QIKCHAT_API_KEY env var)`)
-                continue
-              }
-
-              const whatsappConfig: WhatsAppConfig = {
-                provider: settings.whatsapp_provider,
-                phoneNumberId: settings.whatsapp_phone_number_id,
-                businessAccountId: settings.whatsapp_business_account_id,
-                accessToken: settings.whatsapp_access_token,
-                accountSid: settings.twilio_account_sid,
-                authToken: settings.twilio_auth_token,
-                phoneNumber: settings.twilio_phone_number,
-                apiKey: settings.whatsapp_api_key,
-                // Gallabox: apiSecret maps to whatsapp_access_token, channelId maps to whatsapp_phone_number_id
-                apiSecret: settings.whatsapp_provider === "gallabox" ? settings.whatsapp_access_token : undefined,
-                channelId: settings.whatsapp_provider === "gallabox" ? settings.whatsapp_phone_number_id : undefined,
-              }
-
-              // Compose sends admin-authored free text, and neither approved
-              // Gallabox template (welcome_template: fixed copy + {{Name}};
-              // delegate_login: fixed copy + Delegate_Name/Event_Name/Portal_URL)
-              // has a variable that can carry an arbitrary message body, so
-              // there's no compliant way to route this through a template —
-              // send as plain text. If a free-text-body template gets
-              // approved in Gallabox, wire it in here.
-              sendResult = await sendWhatsAppMessage(whatsappConfig, {
-                to: recipient,
-                message: personalizedMessage,
-              })
-            } else if (useEnvQikchat || (!settings?.whatsapp_provider && qikchatEnvAvailable)) {
-              // Use Qikchat from env vars as fallback
-              const { sendQikchatText } = await import("@/lib/qikchat")
-              sendResult = await sendQikchatText(recipient, personalizedMessage)
-            } else if (!settings?.whatsapp_provider && process.env.GALLABOX_API_KEY?.trim()) {
-              // Use Gallabox from env vars as fallback
-              const { sendGallaboxText } = await import("@/lib/gallabox")
-              sendResult = await sendGallaboxText(recipient, reg.attendee_name || "Delegate", personalizedMessage)
-            } else {
-              // Dev mode
-              sendResult = { success: true, messageId: `dev-wa-${Date.now()}` }
-              console.log(`[DEV] Would send WhatsApp to ${recipient}`)
-            }
-            break
-
-          case "sms":
-            recipient = reg.attendee_phone
-            if (!recipient) {
-              results.failed++
-              results.errors.push(`${reg.attendee_name}: No phone number`)
-              continue
-            }
+        const sendResult = await dispatchMessage(settings, event, channel, reg, { subject, message })
 
-            if (settings?.sms_provider) {
-              // Validate required fields based on provider
-              const smsProvider = settings.sms_provider
-              if (smsProvider === "twilio" && (!settings.twilio_account_sid || !settings.twilio_auth_token || !settings.twilio_phone_number)) {
-                results.failed++
-                results.errors.push(`${reg.attendee_name}: SMS Twilio provider not configured`)
-                continue
-              }
-              if ((smsProvider === "msg91" || smsProvider === "textlocal") && !settings.sms_api_key) {
-                results.failed++
-                results.errors.push(`${reg.attendee_name}: SMS provider ${smsProvider} not configured (missing api_key)`)
-                continue
-              }
-
-              const smsConfig: SMSConfig = {
-                provider: settings.sms_provider,
-                accountSid: settings.twilio_account_sid,
-                authToken: settings.twilio_auth_token,
-                phoneNumber: settings.twilio_phone_number,
-                apiKey: settings.sms_api_key,
-                senderId: settings.sms_sender_id,
-              }
-
-              sendResult = await sendSMS(smsConfig, {
-                to: recipient,
-                message: personalizedMessage,
-              })
-            } else {
-              // Dev mode
-              sendResult = { success: true, messageId: `dev-sms-${Date.now()}` }
-              console.log(`[DEV] Would send SMS to ${recipient}`)
-            }
-            break
+        if (sendResult.notSent) {
+          results.failed++
+          results.errors.push(`${reg.attendee_name}: ${sendResult.error}`)
+          continue
         }
 
         if (sendResult.success) {
           results.sent++
-
-          // Log message (capture insert errors so silent log loss is visible)
-          const logProvider = channel === "email"
-            ? (settings?.email_provider || "default")
-            : channel === "whatsapp"
-            ? (settings?.whatsapp_provider || null)
-            : (settings?.sms_provider || null)
-          const { error: logErr } = await (supabase as any).from("message_logs").insert({
-            event_id,
-            registration_id: reg.id,
-            template_id: template_id || null,
-            channel,
-            provider: logProvider,
-            recipient,
-            recipient_name: reg.attendee_name,
-            subject: personalizedSubject,
-            message_body: personalizedMessage,
-            status: "sent",
-            provider_message_id: sendResult.messageId,
-            sent_at: new Date().toISOString(),
-          })
-          if (logErr) {
-            console.error(`[communications/send] message_logs insert failed for ${recipient}:`, logErr)
-          }
-
-          // Send to webhook if enabled. Fire-and-forget is intentional (don't
-          // block the per-recipient loop on slow webhooks), but we surface
-          // failures rather than swallowing them silently.
-          if (settings?.webhook_enabled && settings.webhook_url) {
-            const webhookPayload = buildCommunicationPayload("message.sent", {
-              eventId: event_id,
-              registrationId: reg.id,
-              recipientName: reg.attendee_name,
-              recipientEmail: reg.attendee_email,
-              recipientPhone: reg.attendee_phone,
-              channel,
-              subject: personalizedSubject,
-              messageBody: personalizedMessage,
-              messageId: sendResult.messageId,
-            })
-
-            sendWebhook(
-              { url: settings.webhook_url, secret: settings.webhook_secret, headers: settings.webhook_headers },
-              webhookPayload
-            ).catch(async (err) => {
-              console.error("[communications/send] Webhook delivery failed:", err)
-              // Record the webhook failure as a message_log row so admins can
-              // see it without scraping server logs.
-              await (supabase as any).from("message_logs").insert({
-                event_id,
-                registration_id: reg.id,
-                template_id: template_id || null,
-                channel: "webhook",
-                provider: "webhook",
-                recipient: settings.webhook_url,
-                recipient_name: reg.attendee_name,
-                subject: `webhook delivery failed (${channel})`,
-                message_body: JSON.stringify(webhookPayload).slice(0, 4000),
-                status: "failed",
-                error_message: String(err?.message || err).slice(0, 1000),
-                failed_at: new Date().toISOString(),
-              }).then(() => undefined).catch((logErr: any) => {
-                console.error("[communications/send] Could not log webhook failure:", logErr)
-              })
-            })
-          }
         } else {
           results.failed++
-          results.errors.push(`${recipient}: ${sendResult.error}`)
-
-          // Log failed message
-          await (supabase as any).from("message_logs").insert({
-            event_id,
-            registration_id: reg.id,
-            template_id: template_id || null,
-            channel,
-            recipient,
-            recipient_name: reg.attendee_name,
-            subject: personalizedSubject,
-            message_body: personalizedMessage,
-            status: "failed",
-            error_message: sendResult.error,
-            failed_at: new Date().toISOString(),
-          })
+          results.errors.push(`${sendResult.recipient}: ${sendResult.error}`)
         }
+
+        await logDispatch(supabase, {
+          eventId: event_id,
+          channel,
+          reg,
+          result: sendResult,
+          templateId: template_id,
+          webhooks: messageWebhooks,
+        })
       } catch (err: any) {
         results.failed++
         results.errors.push(`${reg.attendee_name}: ${err.message}`)
@@ -354,46 +123,4 @@ export async function POST(request: NextRequest) {
     console.error("Error in POST /api/communications/send:", error)
     return NextResponse.json({ error: "Failed to send messages" }, { status: 500 })
   }
-}
-
-function buildEmailHtml(event: any, message: string): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    </head>
-    <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f3f4f6;">
-      <table role="presentation" style="width: 100%; border-collapse: collapse;">
-        <tr>
-          <td align="center" style="padding: 40px 20px;">
-            <table role="presentation" style="width: 100%; max-width: 600px; border-collapse: collapse;">
-              <!-- Header -->
-              <tr>
-                <td style="background: linear-gradient(135deg, #0f172a 0%, #1e293b 100%); padding: 30px; border-radius: 16px 16px 0 0; text-align: center;">
-                  <h1 style="color: white; margin: 0; font-size: 24px; font-weight: bold;">${escapeHtml(event.short_name || event.name || "")}</h1>
-                </td>
-              </tr>
-              <!-- Content -->
-              <tr>
-                <td style="background-color: white; padding: 30px;">
-                  <div style="color: #1f2937; font-size: 15px; line-height: 1.8; white-space: pre-wrap;">${escapeHtml(message || "")}</div>
-                </td>
-              </tr>
-              <!-- Footer -->
-              <tr>
-                <td style="background-color: #1f2937; padding: 20px 30px; border-radius: 0 0 16px 16px; text-align: center;">
-                  <p style="color: #6b7280; margin: 0; font-size: 12px;">
-                    &copy; ${new Date().getFullYear()} ${COMPANY_CONFIG.name}. All rights reserved.
-                  </p>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `
-}
+})
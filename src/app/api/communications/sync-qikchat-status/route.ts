@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireEventAccess } from "@/lib/auth/api-auth"
 import { getQikchatMessageStatus, isQikchatEnabled } from "@/lib/qikchat"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // Qikchat doesn't push delivery status via webhook — we have to poll their
 // GET /v1/messages?msgid=<id> endpoint. This route grabs all WhatsApp message
@@ -23,9 +23,9 @@ interface SyncRequest {
 
 export const maxDuration = 300 // 5 min — leave headroom for 500 * 600ms
 
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   try {
@@ -151,4 +151,4 @@ export async function POST(request: NextRequest) {
     console.error("[sync-qikchat-status] error:", error)
     return NextResponse.json({ error: "Failed to sync status" }, { status: 500 })
   }
-}
+})
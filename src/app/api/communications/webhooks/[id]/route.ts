@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+import { assertPublicHttpUrl } from "@/lib/services/webhook"
+import {
+  ENDPOINT_COLUMNS,
+  cleanEventTypes,
+  generateWebhookSecret,
+  maskEndpoint,
+} from "@/lib/services/webhook-outbox"
+
+// PATCH /api/communications/webhooks/[id] - Update an endpoint or rotate its secret
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { id } = await params
+    const body = await request.json()
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+
+    if (body.url !== undefined) {
+      try {
+        await assertPublicHttpUrl(body.url)
+      } catch (err: any) {
+        return NextResponse.json({ error: err.message }, { status: 400 })
+      }
+      updates.url = body.url.trim()
+    }
+    if (body.description !== undefined) updates.description = body.description?.trim() || null
+    if (body.event_types !== undefined) updates.event_types = cleanEventTypes(body.event_types)
+    if (body.is_active !== undefined) updates.is_active = !!body.is_active
+    if (body.headers !== undefined) {
+      updates.headers = body.headers && typeof body.headers === "object" ? body.headers : {}
+    }
+    if (body.rotate_secret) updates.secret = generateWebhookSecret()
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("webhook_endpoints")
+      .update(updates)
+      .eq("id", id)
+      .select(ENDPOINT_COLUMNS)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error updating webhook endpoint:", error)
+      return NextResponse.json({ error: "Failed to update webhook endpoint" }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: "Webhook endpoint not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ endpoint: body.rotate_secret ? data : maskEndpoint(data) })
+  } catch (error) {
+    console.error("Error in PATCH /api/communications/webhooks/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// DELETE /api/communications/webhooks/[id]
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { id } = await params
+    const supabase = await createAdminClient()
+    const { error } = await (supabase as any)
+      .from("webhook_endpoints")
+      .delete()
+      .eq("id", id)
+
+    if (error) {
+      console.error("Error deleting webhook endpoint:", error)
+      return NextResponse.json({ error: "Failed to delete webhook endpoint" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error in DELETE /api/communications/webhooks/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
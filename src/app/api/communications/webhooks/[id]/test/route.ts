@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+import { dispatchWebhook } from "@/lib/services/webhook-outbox"
+
+// POST /api/communications/webhooks/[id]/test - Send a webhook.test event to one endpoint
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { id } = await params
+    const supabase = await createAdminClient()
+
+    const { data: endpoint } = await (supabase as any)
+      .from("webhook_endpoints")
+      .select("id, event_id, is_active")
+      .eq("id", id)
+      .maybeSingle()
+
+    if (!endpoint) {
+      return NextResponse.json({ error: "Webhook endpoint not found" }, { status: 404 })
+    }
+    if (!endpoint.is_active) {
+      return NextResponse.json({ error: "Enable the endpoint before sending a test" }, { status: 400 })
+    }
+
+    const [row] = await dispatchWebhook(supabase, {
+      eventId: endpoint.event_id,
+      eventType: "webhook.test",
+      endpointId: endpoint.id,
+      payload: {
+        event: "webhook.test",
+        timestamp: new Date().toISOString(),
+        data: { event_id: endpoint.event_id, message: "Test webhook from Communications settings" },
+      },
+    })
+
+    if (!row) {
+      return NextResponse.json({ error: "Failed to queue test delivery" }, { status: 500 })
+    }
+
+    const { data: outbox } = await (supabase as any)
+      .from("webhook_outbox")
+      .select("id, status, last_status_code, last_error")
+      .eq("id", row.id)
+      .maybeSingle()
+
+    return NextResponse.json({
+      success: outbox?.status === "delivered",
+      delivery_id: row.id,
+      status_code: outbox?.last_status_code ?? null,
+      error: outbox?.last_error ?? null,
+    })
+  } catch (error) {
+    console.error("Error in POST /api/communications/webhooks/[id]/test:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+import { replayWebhook } from "@/lib/services/webhook-outbox"
+
+// POST /api/communications/webhooks/deliveries/[id]/replay - Send again now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { id } = await params
+    const { event_id } = await request.json()
+
+    if (!event_id) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    const result = await replayWebhook(supabase, id, event_id)
+
+    if (!result.found) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: result.delivered })
+  } catch (error) {
+    console.error("Error in POST /api/communications/webhooks/deliveries/[id]/replay:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
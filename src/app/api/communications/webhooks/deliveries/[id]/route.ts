@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+
+// GET /api/communications/webhooks/deliveries/[id] - Payload and every attempt
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { id } = await params
+    const supabase = await createAdminClient()
+
+    const { data: delivery, error } = await (supabase as any)
+      .from("webhook_outbox")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error fetching webhook delivery:", error)
+      return NextResponse.json({ error: "Failed to fetch webhook delivery" }, { status: 500 })
+    }
+    if (!delivery) {
+      return NextResponse.json({ error: "Delivery not found" }, { status: 404 })
+    }
+
+    const { data: attempts } = await (supabase as any)
+      .from("webhook_deliveries")
+      .select("id, attempt, success, status_code, error, response_body, duration_ms, trigger, attempted_at")
+      .eq("outbox_id", id)
+      .order("attempted_at", { ascending: true })
+
+    return NextResponse.json({ delivery, attempts: attempts || [] })
+  } catch (error) {
+    console.error("Error in GET /api/communications/webhooks/deliveries/[id]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+
+const PAGE_SIZE = 50
+
+// GET /api/communications/webhooks/deliveries?event_id=xxx&status=failed&endpoint_id=yyy&page=1
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const searchParams = new URL(request.url).searchParams
+    const eventId = searchParams.get("event_id")
+    const status = searchParams.get("status")
+    const endpointId = searchParams.get("endpoint_id")
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1", 10) || 1)
+
+    if (!eventId) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    let query = (supabase as any)
+      .from("webhook_outbox")
+      .select(
+        "id, endpoint_id, target_url, event_type, status, attempts, next_attempt_at, last_status_code, last_error, delivered_at, created_at",
+        { count: "exact" }
+      )
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1)
+
+    if (status && status !== "all") query = query.eq("status", status)
+    if (endpointId) query = query.eq("endpoint_id", endpointId)
+
+    const { data, count, error } = await query
+
+    if (error) {
+      console.error("Error fetching webhook deliveries:", error)
+      return NextResponse.json({ error: "Failed to fetch webhook deliveries" }, { status: 500 })
+    }
+
+    return NextResponse.json({ deliveries: data || [], total: count || 0, page, page_size: PAGE_SIZE })
+  } catch (error) {
+    console.error("Error in GET /api/communications/webhooks/deliveries:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
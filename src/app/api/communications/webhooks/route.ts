@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+import { assertPublicHttpUrl } from "@/lib/services/webhook"
+import {
+  ENDPOINT_COLUMNS,
+  cleanEventTypes,
+  generateWebhookSecret,
+  maskEndpoint,
+} from "@/lib/services/webhook-outbox"
+
+// GET /api/communications/webhooks?event_id=xxx
+export async function GET(request: NextRequest) {
+  try {
+    const { error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const eventId = new URL(request.url).searchParams.get("event_id")
+    if (!eventId) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("webhook_endpoints")
+      .select(ENDPOINT_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching webhook endpoints:", error)
+      return NextResponse.json({ error: "Failed to fetch webhook endpoints" }, { status: 500 })
+    }
+
+    return NextResponse.json({ endpoints: (data || []).map(maskEndpoint) })
+  } catch (error) {
+    console.error("Error in GET /api/communications/webhooks:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/communications/webhooks - Add an endpoint
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const body = await request.json()
+    const { event_id, url, description, event_types, headers } = body
+
+    if (!event_id || !url) {
+      return NextResponse.json({ error: "event_id and url are required" }, { status: 400 })
+    }
+
+    try {
+      await assertPublicHttpUrl(url)
+    } catch (err: any) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("webhook_endpoints")
+      .insert({
+        event_id,
+        url: url.trim(),
+        description: description?.trim() || null,
+        event_types: cleanEventTypes(event_types),
+        headers: headers && typeof headers === "object" ? headers : {},
+        secret: generateWebhookSecret(),
+        is_active: true,
+        created_by: user?.id || null,
+      })
+      .select(ENDPOINT_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error("Error creating webhook endpoint:", error)
+      return NextResponse.json({ error: "Failed to create webhook endpoint" }, { status: 500 })
+    }
+
+    return NextResponse.json({ endpoint: data })
+  } catch (error) {
+    console.error("Error in POST /api/communications/webhooks:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -1,15 +1,15 @@
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { NextRequest, NextResponse } from "next/server"
 
 // GET /api/convocation/[convocationNumber] - Public lookup by convocation number
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ convocationNumber: string }> }
 ) {
   // Rate limit: 10 requests per minute per IP (strict to prevent enumeration)
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "strict")
+  const rateLimit = await checkRateLimit(ip, "strict")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -77,4 +77,4 @@ export async function GET(
     console.error("Error in convocation lookup:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
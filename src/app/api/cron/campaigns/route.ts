@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { logCronRun } from "@/lib/services/cron-logger"
+import { runCampaigns } from "@/lib/services/campaign-runner"
+import { selectEventsForTenant } from "@/lib/tenant"
+
+export const maxDuration = 300
+
+/**
+ * Cron job: Send scheduled campaigns
+ *
+ * Starts campaigns whose send time has come and sends the next chunk of
+ * every running one at its provider's throttle, including recipients whose
+ * retry is due. Each run sends for under a minute; a campaign larger than
+ * that simply carries on in the next run.
+ *
+ * Schedule: every minute
+ */
+export async function GET(request: Request) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET?.trim()
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const run = await logCronRun("campaigns")
+
+  try {
+    const supabase = (await createAdminClient()) as any
+
+    // Scoped to current tenant — another deployment's campaigns are sent by its own cron.
+    const { data: events, error: eventsError } = await selectEventsForTenant(supabase, "id")
+
+    if (eventsError) {
+      console.error("Cron campaigns: failed to fetch events:", eventsError)
+      await run.err(eventsError)
+      return NextResponse.json({ error: eventsError.message }, { status: 500 })
+    }
+
+    const eventIds = (events || []).map((e: { id: string }) => e.id)
+    const result = await runCampaigns(supabase, eventIds)
+
+    await run.ok({ syncedCount: result.sent, metadata: { ...result } })
+    return NextResponse.json({
+      message: `Sent ${result.sent}, failed ${result.failed} across ${result.campaigns} campaign(s)`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("campaigns cron error:", error)
+    await run.err(error)
+    return NextResponse.json({ error: "Internal error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { logCronRun } from "@/lib/services/cron-logger"
+import { processImportWelcomes } from "@/lib/services/registration-import"
+import { selectEventsForTenant } from "@/lib/tenant"
+
+/**
+ * Cron job: Send queued import welcome batches
+ *
+ * A registrations import can queue a welcome email and/or WhatsApp for
+ * everyone it created. Sending starts right after the import; this picks up
+ * whatever didn't fit, a chunk per batch per run, until each batch is done.
+ *
+ * Schedule: every 5 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET?.trim()
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const run = await logCronRun("import-welcome")
+
+  try {
+    const supabase = (await createAdminClient()) as any
+
+    // Scoped to current tenant — another deployment's batches are sent by its own cron.
+    const { data: events, error: eventsError } = await selectEventsForTenant(supabase, "id")
+
+    if (eventsError) {
+      console.error("Cron import-welcome: failed to fetch events:", eventsError)
+      await run.err(eventsError)
+      return NextResponse.json({ error: eventsError.message }, { status: 500 })
+    }
+
+    const eventIds = (events || []).map((e: { id: string }) => e.id)
+    const result = await processImportWelcomes(supabase, eventIds)
+
+    await run.ok({ syncedCount: result.sent, metadata: { ...result } })
+    return NextResponse.json({
+      message: `Sent ${result.sent}, failed ${result.failed} across ${result.batches} batch(es)`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("import-welcome error:", error)
+    await run.err(error)
+    return NextResponse.json({ error: "Internal error" }, { status: 500 })
+  }
+}
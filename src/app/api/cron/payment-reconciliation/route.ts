@@ -2,11 +2,10 @@ import { createAdminClient } from "@/lib/supabase/server"
 import { getNextRegistrationNumber } from "@/lib/services/registration-number"
 import { sendPaymentAlert } from "@/lib/services/payment-alerts"
 import { logCronRun } from "@/lib/services/cron-logger"
+import { GATEWAY_EVENT_COLUMNS, getGateway } from "@/lib/services/payment-gateway-registry"
+import type { GatewayPayment, PaymentGatewayService } from "@/lib/services/payment-gateway"
 import { NextRequest, NextResponse } from "next/server"
 
-// Razorpay API base
-const RAZORPAY_API = "https://api.razorpay.com/v1"
-
 interface RazorpayPaymentItem {
   id: string
   entity: string
@@ -56,47 +55,23 @@ function isMembershipNotes(notes: Record<string, string> | undefined): boolean {
 }
 
 /**
- * Fetch captured payments from Razorpay for a given key pair within the last N hours.
- * Uses the Razorpay Payments API with basic auth.
+ * The gateway contract's payment shape, in the Razorpay field names the rest
+ * of this cron (and the razorpay_* columns it writes) already uses.
  */
-async function fetchRazorpayPayments(
-  keyId: string,
-  keySecret: string,
-  fromTimestamp: number,
-  toTimestamp: number,
-): Promise<RazorpayPaymentItem[]> {
-  const allPayments: RazorpayPaymentItem[] = []
-  let skip = 0
-  const count = 100
-
-  const auth = Buffer.from(`${keyId}:${keySecret}`).toString("base64")
-
-  while (true) {
-    const url = `${RAZORPAY_API}/payments?from=${fromTimestamp}&to=${toTimestamp}&count=${count}&skip=${skip}`
-    const res = await fetch(url, {
-      headers: { Authorization: `Basic ${auth}` },
-    })
-
-    if (!res.ok) {
-      const errText = await res.text()
-      throw new Error(`Razorpay API error ${res.status}: ${errText}`)
-    }
-
-    const data = await res.json()
-    const items: RazorpayPaymentItem[] = data.items || []
-
-    // Only include captured payments
-    const captured = items.filter((p) => p.status === "captured")
-    allPayments.push(...captured)
-
-    if (items.length < count) break
-    skip += count
-
-    // Safety: don't fetch more than 1000 payments in one run
-    if (skip >= 1000) break
+function toReconItem(p: GatewayPayment): RazorpayPaymentItem {
+  return {
+    id: p.gatewayPaymentId,
+    entity: "payment",
+    amount: p.amount,
+    currency: p.currency,
+    status: p.status,
+    order_id: p.gatewayOrderId || "",
+    method: p.method || "",
+    email: p.email || "",
+    contact: p.contact || "",
+    notes: p.notes,
+    created_at: p.createdAt,
   }
-
-  return allPayments
 }
 
 /**
@@ -153,15 +128,17 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Collect credential sets: default + any event-specific ones
-    const credentialSets: { keyId: string; keySecret: string; label: string }[] = [
-      { keyId: defaultKeyId, keySecret: defaultKeySecret, label: "default" },
+    // Collect gateways from the registry: the default account + any event-specific ones.
+    // Only Razorpay is reconciled -- matching below is on the razorpay_* columns.
+    const defaultGateway = getGateway("razorpay", null)
+    const gateways: { gateway: PaymentGatewayService; label: string }[] = [
+      { gateway: defaultGateway, label: "default" },
     ]
 
     // Find events with their own Razorpay credentials
     const { data: eventsWithCreds } = await supabase
       .from("events")
-      .select("id, name, razorpay_key_id, razorpay_key_secret")
+      .select(`id, name, ${GATEWAY_EVENT_COLUMNS}`)
       .not("razorpay_key_id", "is", null)
       .not("razorpay_key_secret", "is", null)
 
@@ -169,9 +146,8 @@ export async function GET(request: NextRequest) {
       for (const evt of eventsWithCreds) {
         // Skip if same as default
         if (evt.razorpay_key_id === defaultKeyId) continue
-        credentialSets.push({
-          keyId: evt.razorpay_key_id,
-          keySecret: evt.razorpay_key_secret,
+        gateways.push({
+          gateway: getGateway("razorpay", evt),
           label: `event:${evt.name}`,
         })
       }
@@ -183,25 +159,20 @@ export async function GET(request: NextRequest) {
     const allRazorpayPayments: RazorpayPaymentItem[] = []
     const seenPaymentIds = new Set<string>()
 
-    for (const creds of credentialSets) {
+    for (const { gateway, label } of gateways) {
       try {
-        const payments = await fetchRazorpayPayments(
-          creds.keyId,
-          creds.keySecret,
-          fromTimestamp,
-          now,
-        )
+        const payments = await gateway.listCapturedPayments({ from: fromTimestamp, to: now })
         for (const p of payments) {
-          if (!seenPaymentIds.has(p.id)) {
-            seenPaymentIds.add(p.id)
-            allRazorpayPayments.push(p)
+          if (!seenPaymentIds.has(p.gatewayPaymentId)) {
+            seenPaymentIds.add(p.gatewayPaymentId)
+            allRazorpayPayments.push(toReconItem(p))
           }
         }
         console.log(
-          `[RECON] Fetched ${payments.length} captured payments from Razorpay (${creds.label})`,
+          `[RECON] Fetched ${payments.length} captured payments from Razorpay (${label})`,
         )
       } catch (err: any) {
-        const msg = `Failed to fetch from Razorpay (${creds.label}): ${err.message}`
+        const msg = `Failed to fetch from Razorpay (${label}): ${err.message}`
         console.error(`[RECON] ${msg}`)
         summary.errors.push(msg)
       }
@@ -606,52 +577,45 @@ export async function GET(request: NextRequest) {
 
         try {
           // Check this payment directly on Razorpay
-          const auth = Buffer.from(`${defaultKeyId}:${defaultKeySecret}`).toString("base64")
-          const res = await fetch(`${RAZORPAY_API}/payments/${stale.razorpay_payment_id}`, {
-            headers: { Authorization: `Basic ${auth}` },
-          })
-
-          if (res.ok) {
-            const rzpData = await res.json()
-
-            if (rzpData.status === "captured") {
-              await supabase
-                .from("payments")
-                .update({
-                  status: "completed",
-                  completed_at: new Date().toISOString(),
-                  metadata: {
-                    ...(stale.metadata || {}),
-                    updated_by_cron_reconciliation: true,
-                    reconciled_at: new Date().toISOString(),
-                    was_stale_pending: true,
-                  },
-                } as any)
-                .eq("id", stale.id)
-                .eq("status", "pending")
-
-              await supabase
-                .from("registrations")
-                .update({
-                  status: "confirmed",
-                  payment_status: "completed",
-                  confirmed_at: new Date().toISOString(),
-                })
-                .eq("payment_id", stale.id)
-                .eq("status", "pending")
-
-              summary.pending_updated++
-              summary.details.push({
-                type: "stale_pending_updated",
-                razorpay_payment_id: stale.razorpay_payment_id,
-                amount: 0,
-                action: "stale pending payment updated -> completed",
+          const rzpData = await defaultGateway.fetchPayment(stale.razorpay_payment_id)
+
+          if (rzpData.status === "captured") {
+            await supabase
+              .from("payments")
+              .update({
+                status: "completed",
+                completed_at: new Date().toISOString(),
+                metadata: {
+                  ...(stale.metadata || {}),
+                  updated_by_cron_reconciliation: true,
+                  reconciled_at: new Date().toISOString(),
+                  was_stale_pending: true,
+                },
+              } as any)
+              .eq("id", stale.id)
+              .eq("status", "pending")
+
+            await supabase
+              .from("registrations")
+              .update({
+                status: "confirmed",
+                payment_status: "completed",
+                confirmed_at: new Date().toISOString(),
               })
+              .eq("payment_id", stale.id)
+              .eq("status", "pending")
 
-              console.log(
-                `[RECON] Fixed stale pending payment ${stale.id} (captured on Razorpay)`,
-              )
-            }
+            summary.pending_updated++
+            summary.details.push({
+              type: "stale_pending_updated",
+              razorpay_payment_id: stale.razorpay_payment_id,
+              amount: 0,
+              action: "stale pending payment updated -> completed",
+            })
+
+            console.log(
+              `[RECON] Fixed stale pending payment ${stale.id} (captured on Razorpay)`,
+            )
           }
         } catch (err: any) {
           // Non-critical - just skip
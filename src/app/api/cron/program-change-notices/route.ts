@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { logCronRun } from "@/lib/services/cron-logger"
+import { deliverProgramChangeNotices } from "@/lib/services/program-publication"
+
+/**
+ * Cron job: Send programme change notices
+ *
+ * - Publishing an agenda queues one notice per affected faculty member and
+ *   bookmarking delegate (see src/lib/services/program-publication.ts).
+ * - Sends the oldest pending notices: email with the updated .ics where we
+ *   have an address, WhatsApp otherwise.
+ *
+ * Schedule: every 5 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET?.trim()
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const run = await logCronRun("program-change-notices")
+
+  try {
+    const supabase = (await createAdminClient()) as any
+    const result = await deliverProgramChangeNotices(supabase)
+
+    await run.ok({ syncedCount: result.sent, metadata: { ...result } })
+    return NextResponse.json({
+      message: `Sent ${result.sent} change notices, ${result.failed} failed, ${result.skipped} skipped`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("program-change-notices error:", error)
+    await run.err(error)
+    return NextResponse.json({ error: "Internal error" }, { status: 500 })
+  }
+}
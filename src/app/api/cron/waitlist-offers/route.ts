@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { logCronRun } from "@/lib/services/cron-logger"
+import { settleWaitlistOffers } from "@/lib/services/waitlist-offers"
+import { selectEventsForTenant } from "@/lib/tenant"
+
+/**
+ * Cron job: Settle waitlist seat holds
+ *
+ * - Offers whose holder now has a confirmed registration are marked claimed
+ *   and the waitlist entry converted.
+ * - Offers whose hold has run out are expired and the seat is offered to the
+ *   next person waiting for that ticket type.
+ *
+ * Schedule: every 15 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET?.trim()
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const run = await logCronRun("waitlist-offers")
+
+  try {
+    const supabase = (await createAdminClient()) as any
+
+    // Scoped to current tenant — offers for another deployment's events
+    // carry that deployment's claim links and are settled by its own cron.
+    const { data: events, error: eventsError } = await selectEventsForTenant(supabase, "id")
+
+    if (eventsError) {
+      console.error("Cron waitlist-offers: failed to fetch events:", eventsError)
+      await run.err(eventsError)
+      return NextResponse.json({ error: eventsError.message }, { status: 500 })
+    }
+
+    const eventIds = (events || []).map((e: { id: string }) => e.id)
+    const result = await settleWaitlistOffers(supabase, eventIds)
+
+    await run.ok({ syncedCount: result.claimed + result.expired, metadata: { ...result } })
+    return NextResponse.json({
+      message: `Claimed ${result.claimed}, expired ${result.expired}, re-offered ${result.reoffered}`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("waitlist-offers error:", error)
+    await run.err(error)
+    return NextResponse.json({ error: "Internal error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { logCronRun } from "@/lib/services/cron-logger"
+import { syncWalletPasses } from "@/lib/services/wallet-passes"
+import { getRequiredAppUrl, getWalletConfig, selectEventsForTenant } from "@/lib/tenant"
+
+/**
+ * Cron job: Keep saved wallet passes current
+ *
+ * - Rebuilds every issued Apple / Google Wallet pass from its registration,
+ *   event and program.
+ * - Where the content changed, Apple devices that registered the pass get an
+ *   update push and the Google Wallet object is replaced.
+ *
+ * Schedule: every 15 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET?.trim()
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const config = getWalletConfig()
+  if (!config.apple && !config.google) {
+    return NextResponse.json({ message: "Wallet passes not configured for this tenant" })
+  }
+
+  const run = await logCronRun("wallet-pass-sync")
+
+  try {
+    const supabase = (await createAdminClient()) as any
+
+    // Scoped to current tenant — another deployment's passes are signed with
+    // its own certificates and kept current by its own cron.
+    const { data: events, error: eventsError } = await selectEventsForTenant(supabase, "id")
+
+    if (eventsError) {
+      console.error("Cron wallet-pass-sync: failed to fetch events:", eventsError)
+      await run.err(eventsError)
+      return NextResponse.json({ error: eventsError.message }, { status: 500 })
+    }
+
+    const eventIds = (events || []).map((e: { id: string }) => e.id)
+    const result = await syncWalletPasses(supabase, eventIds, config, getRequiredAppUrl())
+
+    await run.ok({ syncedCount: result.changed, metadata: { ...result } })
+    return NextResponse.json({
+      message: `Checked ${result.checked} passes, ${result.changed} changed`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("wallet-pass-sync error:", error)
+    await run.err(error)
+    return NextResponse.json({ error: "Internal error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { logCronRun } from "@/lib/services/cron-logger"
+import { processDueWebhooks } from "@/lib/services/webhook-outbox"
+import { selectEventsForTenant } from "@/lib/tenant"
+
+/**
+ * Cron job: Retry outgoing webhooks
+ *
+ * Sends every webhook_outbox row that is still pending and due. Each failure
+ * pushes the next attempt out with exponential backoff; after the last
+ * attempt the row is marked failed and waits for a manual replay.
+ *
+ * Schedule: every 5 minutes
+ */
+export async function GET(request: Request) {
+  // Verify cron secret
+  const authHeader = request.headers.get("authorization")
+  const cronSecret = process.env.CRON_SECRET?.trim()
+  if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const run = await logCronRun("webhook-deliveries")
+
+  try {
+    const supabase = (await createAdminClient()) as any
+
+    // Scoped to current tenant — endpoints belong to events, and another
+    // deployment's rows are retried by its own cron.
+    const { data: events, error: eventsError } = await selectEventsForTenant(supabase, "id")
+
+    if (eventsError) {
+      console.error("Cron webhook-deliveries: failed to fetch events:", eventsError)
+      await run.err(eventsError)
+      return NextResponse.json({ error: eventsError.message }, { status: 500 })
+    }
+
+    const eventIds = (events || []).map((e: { id: string }) => e.id)
+    const result = await processDueWebhooks(supabase, eventIds)
+
+    await run.ok({ syncedCount: result.delivered, metadata: { ...result } })
+    return NextResponse.json({
+      message: `Attempted ${result.attempted}, delivered ${result.delivered}, failed ${result.failed}`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("webhook-deliveries error:", error)
+    await run.err(error)
+    return NextResponse.json({ error: "Internal error" }, { status: 500 })
+  }
+}
@@ -41,6 +41,7 @@ export async function PATCH(
       "valid_until",
       "is_active",
       "applies_to_ticket_ids",
+      "stacking",
     ] as const
     const patch: Record<string, unknown> = { updated_at: new Date().toISOString() }
     for (const key of allowed) {
@@ -0,0 +1,54 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { buildCart, priceOrder } from "@/lib/services/discount-pricing"
+
+// POST - Price a checkout cart: automatic discount rules plus an optional code.
+// Uses the same pricing as create-order, so checkout shows what will be charged.
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
+  // Rate limit: strict when a code is being tried (enumeration), public otherwise
+  const ip = getClientIp(request)
+
+  try {
+    const body = await request.json()
+    const { event_id, tickets, addons, code, email, phone } = body
+
+    const rateLimit = await checkRateLimit(ip, code ? "strict" : "public")
+    if (!rateLimit.success) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    if (!event_id || !Array.isArray(tickets) || tickets.length === 0) {
+      return NextResponse.json(
+        { error: "event_id and tickets are required" },
+        { status: 400 }
+      )
+    }
+
+    const supabase = (await createAdminClient()) as any
+    const cart = await buildCart(supabase, tickets, Array.isArray(addons) ? addons : [])
+    const pricing = await priceOrder(supabase, { eventId: event_id, cart, code, email, phone })
+
+    // Say why a code didn't make it, without echoing the code row itself
+    let codeError: string | null = null
+    if (code && !pricing.code) {
+      codeError = "Invalid discount code"
+    } else if (pricing.code && !pricing.applied.some((a) => a.source === "code")) {
+      codeError = pricing.skipped.find((s) => s.source === "code")?.reason || "Discount code does not apply"
+    }
+
+    return NextResponse.json({
+      subtotal: pricing.subtotal,
+      discount_total: pricing.discount_total,
+      applied: pricing.applied,
+      // Only rules that are close to applying are worth showing a customer
+      hints: pricing.skipped
+        .filter((s) => s.source === "rule" && s.reason.startsWith("Needs "))
+        .map((s) => ({ name: s.name, reason: s.reason })),
+      code_error: codeError,
+    })
+  } catch (error: any) {
+    console.error("Discount pricing error:", error?.message || error)
+    return NextResponse.json({ error: "Failed to price order" }, { status: 500 })
+  }
+})
@@ -55,6 +55,7 @@ export async function POST(request: NextRequest) {
       valid_until,
       is_active = true,
       applies_to_ticket_ids,
+      stacking = "combinable",
     } = body
 
     if (!event_id || !code || discount_value === undefined) {
@@ -85,6 +86,7 @@ export async function POST(request: NextRequest) {
         valid_until,
         is_active,
         applies_to_ticket_ids,
+        stacking,
       })
       .select()
       .single()
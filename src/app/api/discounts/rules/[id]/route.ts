@@ -0,0 +1,114 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { validateDiscountRule } from "@/lib/discount-rules"
+
+async function lookupRule(id: string): Promise<Record<string, any> | null> {
+  const client = await createAdminClient()
+  const supabase = client as any
+  const { data } = await supabase
+    .from("discount_rules")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle()
+  return data ?? null
+}
+
+// PATCH - update a discount rule (toggle active, edit tiers, etc.)
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const existing = await lookupRule(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Discount rule not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAndPermission(existing.event_id, "registrations")
+    if (authError) return authError
+
+    const body = await request.json()
+    const allowed = [
+      "name",
+      "description",
+      "rule_type",
+      "discount_type",
+      "discount_value",
+      "max_discount_amount",
+      "tiers",
+      "applies_to_ticket_ids",
+      "bundle_ticket_ids",
+      "bundle_addon_ids",
+      "stacking",
+      "priority",
+      "valid_from",
+      "valid_until",
+      "is_active",
+    ] as const
+    const patch: Record<string, unknown> = { updated_at: new Date().toISOString() }
+    for (const key of allowed) {
+      if (key in body) patch[key] = body[key]
+    }
+
+    // Validate the rule as it will be after the update
+    const invalid = validateDiscountRule({
+      ...existing,
+      discount_value: Number(existing.discount_value),
+      ...patch,
+    })
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const client = await createAdminClient()
+    const supabase = client as any
+    const { data, error } = await supabase
+      .from("discount_rules")
+      .update(patch)
+      .eq("id", id)
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: "Failed to update discount rule" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch {
+    return NextResponse.json({ error: "Failed to update discount rule" }, { status: 500 })
+  }
+}
+
+// DELETE - remove a discount rule
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params
+    const existing = await lookupRule(id)
+    if (!existing) {
+      return NextResponse.json({ error: "Discount rule not found" }, { status: 404 })
+    }
+
+    const { error: authError } = await requireEventAndPermission(existing.event_id, "registrations")
+    if (authError) return authError
+
+    const client = await createAdminClient()
+    const supabase = client as any
+    const { error } = await supabase
+      .from("discount_rules")
+      .delete()
+      .eq("id", id)
+
+    if (error) {
+      return NextResponse.json({ error: "Failed to delete discount rule" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch {
+    return NextResponse.json({ error: "Failed to delete discount rule" }, { status: 500 })
+  }
+}
@@ -0,0 +1,116 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { validateDiscountRule } from "@/lib/discount-rules"
+
+// GET - List automatic discount rules for an event (requires event access)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const eventId = searchParams.get("event_id")
+
+    if (!eventId) {
+      return NextResponse.json(
+        { error: "event_id is required" },
+        { status: 400 }
+      )
+    }
+
+    const { error: authError } = await requireEventAndPermission(eventId, 'registrations')
+    if (authError) return authError
+
+    const client = await createAdminClient()
+    const supabase = client as any
+
+    const { data, error } = await supabase
+      .from("discount_rules")
+      .select("*")
+      .eq("event_id", eventId)
+      .order("priority", { ascending: true })
+      .order("created_at", { ascending: true })
+
+    if (error) {
+      return NextResponse.json({ error: "Failed to process discount rule request" }, { status: 500 })
+    }
+
+    return NextResponse.json({ data })
+  } catch {
+    return NextResponse.json({ error: "Failed to process discount rule request" }, { status: 500 })
+  }
+}
+
+// POST - Create a discount rule (requires event access)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    const {
+      event_id,
+      name,
+      description,
+      rule_type,
+      discount_type = "percentage",
+      discount_value = 0,
+      max_discount_amount,
+      tiers = [],
+      applies_to_ticket_ids,
+      bundle_ticket_ids,
+      bundle_addon_ids,
+      stacking = "combinable",
+      priority = 0,
+      valid_from,
+      valid_until,
+      is_active = true,
+    } = body
+
+    if (!event_id) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const rule = {
+      name,
+      rule_type,
+      discount_type,
+      discount_value,
+      max_discount_amount,
+      tiers,
+      applies_to_ticket_ids,
+      bundle_ticket_ids,
+      bundle_addon_ids,
+      stacking,
+    }
+    const invalid = validateDiscountRule(rule)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const { error: authError } = await requireEventAndPermission(event_id, 'registrations')
+    if (authError) return authError
+
+    const client = await createAdminClient()
+    const supabase = client as any
+
+    const { data, error } = await supabase
+      .from("discount_rules")
+      .insert({
+        event_id,
+        ...rule,
+        name: name.trim(),
+        description,
+        priority,
+        valid_from,
+        valid_until,
+        is_active,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      return NextResponse.json({ error: "Failed to process discount rule request" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, data })
+  } catch {
+    return NextResponse.json({ error: "Failed to process discount rule request" }, { status: 500 })
+  }
+}
@@ -1,12 +1,12 @@
 import { createServerSupabaseClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // POST - Validate a discount code
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Rate limit: strict tier to prevent code enumeration
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "strict")
+  const rateLimit = await checkRateLimit(ip, "strict")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -111,4 +111,4 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     return NextResponse.json({ error: "Failed to validate discount" }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { requireAdmin } from "@/lib/auth/api-auth"
 
 // GET - List email templates
@@ -40,12 +40,12 @@ export async function GET(request: NextRequest) {
 }
 
 // POST - Create new email template
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const { error: authError2 } = await requireAdmin()
   if (authError2) return authError2
 
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "authenticated")
+  const rateLimit = await checkRateLimit(ip, "authenticated")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -117,4 +117,4 @@ export async function POST(request: NextRequest) {
     console.error("Error creating email template:", error)
     return NextResponse.json({ error: "Failed to process email template request" }, { status: 500 })
   }
-}
+})
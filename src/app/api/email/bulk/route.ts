@@ -3,7 +3,7 @@ import { createAdminClient } from "@/lib/supabase/server"
 import { sendEmail, isEmailEnabled } from "@/lib/email"
 import { requireEventAccess } from "@/lib/auth/api-auth"
 import { escapeHtml } from "@/lib/string-utils"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { COMPANY_CONFIG } from "@/lib/config"
 
 interface BulkEmailData {
@@ -14,9 +14,9 @@ interface BulkEmailData {
 }
 
 // POST /api/email/bulk - Send bulk emails to registrations
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -168,4 +168,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
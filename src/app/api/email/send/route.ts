@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getApiUser } from "@/lib/auth/api-auth"
 import { sendEmail, isEmailEnabled } from "@/lib/email"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
 // POST /api/email/send - Send custom email (auth required)
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -54,4 +54,4 @@ export async function POST(request: NextRequest) {
     console.error("Error sending email:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
@@ -8,6 +8,7 @@ import {
   checkRateLimit,
   getClientIp,
   rateLimitExceededResponse,
+  rateLimitedRoute,
 } from "@/lib/rate-limit"
 
 /**
@@ -75,14 +76,14 @@ interface Assignment {
   hall: string | null
 }
 
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   const { eventId } = await params
 
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`aes-faculty-pdf:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`aes-faculty-pdf:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const { searchParams } = new URL(request.url)
@@ -247,4 +248,4 @@ export async function GET(
       "Cache-Control": "no-store",
     },
   })
-}
+})
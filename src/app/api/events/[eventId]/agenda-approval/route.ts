@@ -5,6 +5,7 @@ import { requireEventAndPermission } from "@/lib/auth/api-auth"
 import { deriveAgendaStatus, getLastApprovalTimestamp, canSubmitForApproval, type ApprovalLogRow } from "@/lib/agenda-approval-state"
 import { getAllConflicts } from "@/lib/agenda-conflicts"
 import { fetchConflictInputs } from "@/lib/agenda-conflict-inputs"
+import { recordPublication, type PublicationResult } from "@/lib/services/program-publication"
 
 export async function GET(
   request: NextRequest,
@@ -97,5 +98,26 @@ export async function POST(
     .single()
 
   if (error) return NextResponse.json({ error: "Failed to record approval action" }, { status: 500 })
-  return NextResponse.json({ data, status: deriveAgendaStatus([{ action: parsed.data.action, created_at: data.created_at }]) })
+
+  // Freeze what was published and queue notices for whatever moved since the
+  // last publish. The publish stands either way; a failure here is reported so
+  // it can be re-published rather than leaving people silently uninformed.
+  let publication: PublicationResult | null = null
+  if (parsed.data.action === "published") {
+    try {
+      publication = await recordPublication(supabase, eventId, data.id, user.name || user.email || null)
+    } catch (err) {
+      console.error("Failed to record agenda publication:", err)
+      return NextResponse.json(
+        { error: `Agenda published, but change notices were not prepared: ${err instanceof Error ? err.message : "unknown error"}`, data },
+        { status: 500 }
+      )
+    }
+  }
+
+  return NextResponse.json({
+    data,
+    status: deriveAgendaStatus([{ action: parsed.data.action, created_at: data.created_at }]),
+    publication,
+  })
 }
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+
+// DELETE /api/events/[eventId]/api-keys/[keyId] - Revoke a key. The row is
+// kept so its prefix and last use stay visible.
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; keyId: string }> }
+) {
+  try {
+    const { eventId, keyId } = await params
+
+    const { error: authError } = await requireEventAndPermission(eventId, "events")
+    if (authError) return authError
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("api_keys")
+      .update({ status: "revoked", revoked_at: new Date().toISOString() })
+      .eq("id", keyId)
+      .eq("event_id", eventId)
+      .is("revoked_at", null)
+      .select("id")
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error revoking API key:", error)
+      return NextResponse.json({ error: "Failed to revoke API key" }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error in DELETE /api/events/[eventId]/api-keys/[keyId]:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
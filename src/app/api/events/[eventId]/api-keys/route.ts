@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { newApiKey } from "@/lib/api-keys"
+import { isApiScope, MAX_API_KEY_RATE_LIMIT } from "@/lib/api-scopes"
+
+const KEY_COLUMNS = "id, name, key_prefix, scopes, status, rate_limit_per_minute, expires_at, last_used_at, revoked_at, created_at"
+
+// GET /api/events/[eventId]/api-keys - Keys for this event (never the secret)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+
+    const { error: authError } = await requireEventAndPermission(eventId, "events")
+    if (authError) return authError
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("api_keys")
+      .select(KEY_COLUMNS)
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+
+    if (error) {
+      console.error("Error fetching API keys:", error)
+      return NextResponse.json({ error: "Failed to fetch API keys" }, { status: 500 })
+    }
+
+    return NextResponse.json(data || [])
+  } catch (error) {
+    console.error("Error in GET /api/events/[eventId]/api-keys:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
+
+// POST /api/events/[eventId]/api-keys - Mint a key. The key itself is only in this response.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+
+    const { user, error: authError } = await requireEventAndPermission(eventId, "events")
+    if (authError) return authError
+
+    const body = await request.json()
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    const scopes: string[] = Array.isArray(body.scopes) ? [...new Set<string>(body.scopes.filter(isApiScope))] : []
+    const rateLimit = body.rate_limit_per_minute ? Number(body.rate_limit_per_minute) : null
+    const expiresAt = body.expires_at ? new Date(body.expires_at) : null
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 })
+    }
+    if (scopes.length === 0) {
+      return NextResponse.json({ error: "Choose at least one scope" }, { status: 400 })
+    }
+    if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_API_KEY_RATE_LIMIT)) {
+      return NextResponse.json(
+        { error: `rate_limit_per_minute must be between 1 and ${MAX_API_KEY_RATE_LIMIT}` },
+        { status: 400 }
+      )
+    }
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return NextResponse.json({ error: "expires_at must be a future date" }, { status: 400 })
+    }
+
+    const { key, prefix, hash } = newApiKey()
+
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("api_keys")
+      .insert({
+        event_id: eventId,
+        name,
+        key_hash: hash,
+        key_prefix: prefix,
+        scopes,
+        status: "active",
+        rate_limit_per_minute: rateLimit,
+        expires_at: expiresAt?.toISOString() || null,
+        created_by: user?.id || null,
+      })
+      .select(KEY_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error("Error creating API key:", error)
+      return NextResponse.json({ error: "Failed to create API key" }, { status: 500 })
+    }
+
+    return NextResponse.json({ ...data, key }, { status: 201 })
+  } catch (error) {
+    console.error("Error in POST /api/events/[eventId]/api-keys:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
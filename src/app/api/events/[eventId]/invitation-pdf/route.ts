@@ -5,6 +5,7 @@ import {
   checkRateLimit,
   getClientIp,
   rateLimitExceededResponse,
+  rateLimitedRoute,
 } from "@/lib/rate-limit"
 import { getLetterheadBackgroundUrl, drawLetterheadBackgroundJsPdf } from "@/lib/pdf/essurg-letterhead"
 
@@ -52,7 +53,7 @@ function formatDateRange(
   })}`
 }
 
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
@@ -60,7 +61,7 @@ export async function GET(
 
   // Rate limit
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`invitation-pdf:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`invitation-pdf:${clientIp}`, "public")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -582,4 +583,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
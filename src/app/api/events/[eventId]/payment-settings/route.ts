@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireEventAccess } from "@/lib/auth/api-auth"
-import { DEFAULT_PAYMENT_METHODS_ENABLED } from "@/lib/types/payment-methods"
+import {
+  DEFAULT_PAYMENT_GATEWAY,
+  DEFAULT_PAYMENT_METHODS_ENABLED,
+  PAYMENT_GATEWAY_OPTIONS,
+} from "@/lib/types/payment-methods"
+import { isPaymentGatewayName } from "@/lib/services/payment-gateway-registry"
 
 export async function PUT(
   request: NextRequest,
@@ -17,6 +22,8 @@ export async function PUT(
     const supabase = supabaseClient as any
     const body = await request.json()
     const {
+      // Which gateway takes online payments
+      payment_gateway,
       // Razorpay credentials
       razorpay_key_id,
       razorpay_key_secret,
@@ -32,10 +39,19 @@ export async function PUT(
       bank_upi_id,
     } = body
 
+    const gateway = payment_gateway || DEFAULT_PAYMENT_GATEWAY
+    if (!isPaymentGatewayName(gateway) || !PAYMENT_GATEWAY_OPTIONS[gateway].available) {
+      return NextResponse.json(
+        { error: "Unsupported payment gateway" },
+        { status: 400 }
+      )
+    }
+
     // Update event with all payment settings
     const { error } = await supabase
       .from("events")
       .update({
+        payment_gateway: gateway,
         razorpay_key_id: razorpay_key_id || null,
         razorpay_key_secret: razorpay_key_secret || null,
         razorpay_webhook_secret: razorpay_webhook_secret || null,
@@ -83,6 +99,7 @@ export async function GET(
     const { data, error } = await supabase
       .from("events")
       .select(`
+        payment_gateway,
         razorpay_key_id,
         razorpay_key_secret,
         razorpay_webhook_secret,
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const SESSION_ID = "22222222-2222-4222-8222-222222222222"
+const HALL_A = "33333333-3333-4333-8333-333333333333"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "admin-1", email: "desk@example.org", name: "Desk Lead" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+const UNSCHEDULED = { hall_id: null, session_date: null, start_time: null, end_time: null }
+const SLOT = { hall_id: HALL_A, session_date: "2026-11-20", start_time: "10:00", end_time: "11:00" }
+
+function sessionRow(id: string, name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    session_name: name,
+    ...UNSCHEDULED,
+    duration_minutes: 60,
+    track_id: null,
+    session_type: "lecture",
+    max_attendees: null,
+    ...overrides,
+  }
+}
+
+function programme(sessions: unknown[]) {
+  mock.queueResponse("events", { data: { start_date: "2026-11-20", end_date: "2026-11-21" }, error: null })
+  mock.queueResponse("sessions", { data: sessions, error: null })
+  mock.queueResponse("faculty_assignments", { data: [], error: null })
+  mock.queueResponse("halls", { data: [{ id: HALL_A, name: "Hall A", capacity: 300, parent_id: null, kind: null, display_order: 1 }], error: null })
+  mock.queueResponse("event_faculty", { data: [], error: null })
+}
+
+function accept(body: Record<string, unknown> = {}) {
+  return makeRequest(`http://localhost/api/events/${EVENT_ID}/program/auto-arrange/accept`, {
+    method: "POST",
+    body: { session_id: SESSION_ID, from: UNSCHEDULED, to: SLOT, ...body },
+  })
+}
+
+const params = { params: Promise.resolve({ eventId: EVENT_ID }) }
+
+function writes(table: string, method: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === method)
+}
+
+describe("POST /api/events/[eventId]/program/auto-arrange/accept", () => {
+  it("schedules the session, logs the change and leaves check-in alone when it is off", async () => {
+    programme([sessionRow(SESSION_ID, "Hernia Update")])
+    mock.queueResponse("sessions", { data: { id: SESSION_ID, ...SLOT, session_name: "Hernia Update", checkin_enabled: false }, error: null })
+    const { POST } = await import("./route")
+
+    const res = await POST(accept(), params)
+    expect(res.status).toBe(200)
+    expect(writes("sessions", "update")[0].args[0]).toMatchObject(SLOT)
+    expect(writes("program_change_log", "insert")[0].args[0]).toMatchObject({
+      event_id: EVENT_ID,
+      change_type: "auto_arrange",
+      session_id: SESSION_ID,
+      old_values: UNSCHEDULED,
+      new_values: SLOT,
+      summary: 'Scheduled "Hernia Update" in Hall A on 2026-11-20, 10:00–11:00 (auto-arrange)',
+      changed_by_email: "desk@example.org",
+    })
+    expect(writes("checkin_lists", "insert")).toHaveLength(0)
+  })
+
+  it("409s when the session was scheduled by hand after the proposal", async () => {
+    programme([sessionRow(SESSION_ID, "Hernia Update", { hall_id: HALL_A, session_date: "2026-11-20", start_time: "14:00:00", end_time: "15:00:00" })])
+    const { POST } = await import("./route")
+
+    const res = await POST(accept(), params)
+    expect(res.status).toBe(409)
+    expect(writes("sessions", "update")).toHaveLength(0)
+  })
+
+  it("409s with the reasons when the slot has since been taken", async () => {
+    programme([
+      sessionRow(SESSION_ID, "Hernia Update"),
+      sessionRow("other", "Keynote", { hall_id: HALL_A, session_date: "2026-11-20", start_time: "10:30:00", end_time: "11:30:00" }),
+    ])
+    const { POST } = await import("./route")
+
+    const res = await POST(accept(), params)
+    expect(res.status).toBe(409)
+    expect((await res.json()).violations).toEqual(['The room is taken by "Keynote"'])
+    expect(writes("sessions", "update")).toHaveLength(0)
+    expect(writes("program_change_log", "insert")).toHaveLength(0)
+  })
+
+  it("404s for a session outside the event", async () => {
+    programme([])
+    const { POST } = await import("./route")
+    expect((await POST(accept(), params)).status).toBe(404)
+  })
+
+  it("400s on a malformed slot", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(accept({ to: { ...SLOT, session_date: "20 Nov" } }), params)).status).toBe(400)
+  })
+})
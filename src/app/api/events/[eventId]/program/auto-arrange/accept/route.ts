@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { checkPlacement } from "@/lib/agenda-auto-arrange"
+import { fetchArrangeInputs } from "@/lib/agenda-arrange-inputs"
+import { syncSessionCheckinList } from "@/lib/services/session-checkin-list"
+import { buildHallLabels } from "@/lib/venue-tree"
+
+const clock = z.string().regex(/^\d{2}:\d{2}/)
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
+const acceptSchema = z.object({
+  session_id: z.string().uuid(),
+  from: z.object({
+    hall_id: z.string().nullable(),
+    session_date: z.string().nullable(),
+    start_time: z.string().nullable(),
+    end_time: z.string().nullable(),
+  }),
+  to: z.object({
+    hall_id: z.string().uuid(),
+    session_date: date,
+    start_time: clock,
+    end_time: clock,
+  }),
+})
+
+const hhmm = (t: string | null) => (t ? t.slice(0, 5) : null)
+
+/**
+ * Accept one auto-arrange placement. The proposal was computed against the
+ * programme as it was when the screen loaded; by now a colleague may have
+ * scheduled that session by hand, or filled the slot. Both are 409s -- the
+ * coordinator re-runs the proposal rather than overwriting someone's work.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params
+  const { user, error: authError } = await requireEventAndPermission(eventId, "program")
+  if (authError) return authError
+
+  const parsed = acceptSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request body", details: parsed.error.issues }, { status: 400 })
+  }
+  const { session_id: sessionId, from, to } = parsed.data
+
+  const supabase = (await createAdminClient()) as any
+  let inputs
+  try {
+    inputs = await fetchArrangeInputs(supabase, eventId)
+  } catch (error) {
+    console.error("Failed to load the programme for auto-arrange:", error)
+    return NextResponse.json({ error: "Failed to load the programme" }, { status: 500 })
+  }
+
+  const current = inputs.sessions.find((s) => s.id === sessionId)
+  if (!current) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 })
+  }
+
+  const unchanged =
+    current.hall_id === from.hall_id &&
+    current.session_date === from.session_date &&
+    hhmm(current.start_time) === hhmm(from.start_time) &&
+    hhmm(current.end_time) === hhmm(from.end_time)
+  if (!unchanged) {
+    return NextResponse.json(
+      { error: "This session was changed after the proposal was made. Refresh the proposal and try again." },
+      { status: 409 }
+    )
+  }
+
+  const slot = { ...to, start_time: hhmm(to.start_time)!, end_time: hhmm(to.end_time)! }
+  const violations = checkPlacement(inputs, sessionId, slot)
+  if (violations.length > 0) {
+    return NextResponse.json(
+      { error: "That slot is no longer free. Refresh the proposal and try again.", violations },
+      { status: 409 }
+    )
+  }
+
+  const { data: session, error: updateError } = await supabase
+    .from("sessions")
+    .update({ ...slot, updated_at: new Date().toISOString() })
+    .eq("id", sessionId)
+    .eq("event_id", eventId)
+    .select("id, session_name, session_date, start_time, end_time, hall_id, checkin_enabled")
+    .single()
+
+  if (updateError || !session) {
+    return NextResponse.json({ error: "Failed to update session" }, { status: 500 })
+  }
+
+  const hallLabel = buildHallLabels(inputs.halls).get(slot.hall_id) ?? "a hall"
+  const { error: logError } = await supabase.from("program_change_log").insert({
+    event_id: eventId,
+    change_type: "auto_arrange",
+    session_id: sessionId,
+    session_name: current.session_name,
+    old_values: from,
+    new_values: slot,
+    summary: `Scheduled "${current.session_name}" in ${hallLabel} on ${slot.session_date}, ${slot.start_time}–${slot.end_time} (auto-arrange)`,
+    changed_by_email: user?.email || null,
+    changed_by_name: user?.name || user?.email || null,
+  })
+  if (logError) console.error("Failed to log auto-arrange change:", logError)
+
+  const checkinError = await syncSessionCheckinList(supabase, eventId, session)
+  if (checkinError) {
+    return NextResponse.json({ error: checkinError }, { status: 500 })
+  }
+
+  return NextResponse.json({ data: session })
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { proposeArrangement } from "@/lib/agenda-auto-arrange"
+import { fetchArrangeInputs } from "@/lib/agenda-arrange-inputs"
+
+const clock = z.string().regex(/^\d{2}:\d{2}$/)
+
+const optionsSchema = z.object({
+  dayStart: clock.optional(),
+  dayEnd: clock.optional(),
+  slotMinutes: z.number().int().min(5).max(120).optional(),
+  changeoverMinutes: z.number().int().min(0).max(120).optional(),
+  maxContinuousMinutes: z.number().int().min(30).max(720).nullable().optional(),
+  minBreakMinutes: z.number().int().min(5).max(180).optional(),
+})
+
+// POST rather than GET: the proposal is computed, not stored, but the options
+// travel in the body. Nothing is written -- each placement is accepted
+// separately through ./accept.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params
+  const { error: authError } = await requireEventAndPermission(eventId, "program")
+  if (authError) return authError
+
+  const body = await request.json().catch(() => ({}))
+  const parsed = optionsSchema.safeParse(body ?? {})
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid options", details: parsed.error.issues }, { status: 400 })
+  }
+
+  const supabase = (await createAdminClient()) as any
+  let inputs
+  try {
+    inputs = await fetchArrangeInputs(supabase, eventId)
+  } catch (error) {
+    console.error("Failed to load the programme for auto-arrange:", error)
+    return NextResponse.json({ error: "Failed to load the programme" }, { status: 500 })
+  }
+
+  if (inputs.days.length === 0) {
+    return NextResponse.json({ error: "Set the event's dates before auto-arranging" }, { status: 422 })
+  }
+
+  return NextResponse.json({ data: proposeArrangement({ ...inputs, options: parsed.data }) })
+}
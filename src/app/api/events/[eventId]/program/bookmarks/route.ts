@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+import type { HallCapacity } from "@/lib/agenda-conflicts"
+import { planHallDemand, type DemandSession } from "@/lib/personal-agenda"
+
+// GET /api/events/[eventId]/program/bookmarks
+// How many delegates bookmarked each session, against the capacity of its
+// hall, so organisers can move a popular session to a bigger room.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+    const { error: authError } = await requireEventAndPermission(eventId, "program")
+    if (authError) return authError
+    const db = (await createAdminClient()) as any
+
+    const [sessions, bookmarks, halls] = await Promise.all([
+      fetchAllPages<Omit<DemandSession, "bookmarks">>(
+        db
+          .from("sessions")
+          .select("id, session_name, session_date, start_time, end_time, hall, hall_id, status")
+          .eq("event_id", eventId)
+      ),
+      fetchAllPages<{ session_id: string; registration_id: string }>(
+        db.from("session_bookmarks").select("session_id, registration_id").eq("event_id", eventId)
+      ),
+      fetchAllPages<HallCapacity>(db.from("halls").select("id, name, capacity, parent_id").eq("event_id", eventId)),
+    ])
+
+    const counts = new Map<string, number>()
+    for (const b of bookmarks) counts.set(b.session_id, (counts.get(b.session_id) ?? 0) + 1)
+
+    return NextResponse.json({
+      delegates: new Set(bookmarks.map((b) => b.registration_id)).size,
+      sessions: planHallDemand(
+        sessions.map((s) => ({ ...s, bookmarks: counts.get(s.id) ?? 0 })),
+        halls
+      ),
+    })
+  } catch (error: any) {
+    console.error("Error in bookmarks:", error)
+    return NextResponse.json({ error: "Failed to fetch bookmarks" }, { status: 500 })
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-4111-8111-111111111111"
+const SESSION_ID = "22222222-2222-4222-8222-222222222222"
+const FACULTY_ID = "33333333-3333-4333-8333-333333333333"
+const OTHER_FACULTY_ID = "44444444-4444-4444-8444-444444444444"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "admin-1", email: "desk@example.org", name: "Desk Lead" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function queueInputs(assignments: unknown[] = []) {
+  mock.queueResponse("sessions", {
+    data: [
+      {
+        id: SESSION_ID,
+        session_name: "Hernia Update",
+        session_date: "2026-11-20",
+        start_time: "10:00",
+        end_time: "11:00",
+        hall: "Hall A",
+        speakers: "Dr. Anitha Ravindran, Dr. Meera Kulkarni",
+      },
+    ],
+    error: null,
+  })
+  mock.queueResponse("faculty_assignments", { data: assignments, error: null })
+  mock.queueResponse("faculty", {
+    data: [{ id: FACULTY_ID, name: "Anitha Ravindran", email: "anitha@aiims.edu", phone: "9845012345" }],
+    error: null,
+  })
+  mock.queueResponse("registrations", { data: [], error: null })
+  mock.queueResponse("faculty_match_rejections", { data: [], error: null })
+}
+
+function decide(body: Record<string, unknown>) {
+  return makeRequest(`http://localhost/api/events/${EVENT_ID}/program/faculty-resolver`, {
+    method: "POST",
+    body: {
+      decision: "accept",
+      session_id: SESSION_ID,
+      role: "speaker",
+      text_name: "Dr. Anitha Ravindran",
+      faculty_id: FACULTY_ID,
+      registration_id: null,
+      ...body,
+    },
+  })
+}
+
+const params = { params: Promise.resolve({ eventId: EVENT_ID }) }
+
+function writes(table: string, method: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === method)
+}
+
+describe("POST /api/events/[eventId]/program/faculty-resolver", () => {
+  it("creates the assignment with its provenance when a proposal is accepted", async () => {
+    queueInputs()
+    mock.queueResponse("faculty_assignments", { data: { id: "fa-1" }, error: null })
+    const { POST } = await import("./route")
+
+    const res = await POST(decide({}), params)
+    expect(res.status).toBe(200)
+    expect(writes("faculty_assignments", "insert")[0].args[0]).toMatchObject({
+      event_id: EVENT_ID,
+      session_id: SESSION_ID,
+      faculty_id: FACULTY_ID,
+      faculty_name: "Anitha Ravindran",
+      faculty_email: "anitha@aiims.edu",
+      role: "speaker",
+      session_date: "2026-11-20",
+      hall: "Hall A",
+      match_source: "session_text",
+      match_confidence: 80,
+      match_text: "Dr. Anitha Ravindran",
+    })
+    expect(writes("program_change_log", "insert")[0].args[0]).toMatchObject({
+      change_type: "faculty_resolved",
+      assignment_id: "fa-1",
+      changed_by_email: "desk@example.org",
+    })
+  })
+
+  it("409s a candidate the resolver no longer proposes", async () => {
+    queueInputs()
+    const { POST } = await import("./route")
+
+    const res = await POST(decide({ faculty_id: OTHER_FACULTY_ID }), params)
+    expect(res.status).toBe(409)
+    expect(writes("faculty_assignments", "insert")).toHaveLength(0)
+  })
+
+  it("409s a name that was already accepted", async () => {
+    queueInputs([
+      { session_id: SESSION_ID, role: "speaker", faculty_name: "Anitha Ravindran", match_source: "session_text", match_text: "Dr. Anitha Ravindran" },
+    ])
+    const { POST } = await import("./route")
+
+    expect((await POST(decide({}), params)).status).toBe(409)
+    expect(writes("faculty_assignments", "insert")).toHaveLength(0)
+  })
+
+  it("records a rejection without touching assignments", async () => {
+    const { POST } = await import("./route")
+
+    const res = await POST(decide({ decision: "reject" }), params)
+    expect(res.status).toBe(200)
+    expect(writes("faculty_match_rejections", "insert")[0].args[0]).toEqual({
+      event_id: EVENT_ID,
+      session_id: SESSION_ID,
+      role: "speaker",
+      text_name: "Dr. Anitha Ravindran",
+      faculty_id: FACULTY_ID,
+      registration_id: null,
+      rejected_by: "desk@example.org",
+    })
+    expect(writes("faculty_assignments", "insert")).toHaveLength(0)
+  })
+
+  it("400s a role the free text never carries", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(decide({ role: "keynote" }), params)).status).toBe(400)
+  })
+})
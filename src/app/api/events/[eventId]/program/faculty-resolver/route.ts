@@ -0,0 +1,149 @@
+import { NextRequest, NextResponse } from "next/server"
+import crypto from "crypto"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { buildResolverQueue, normaliseName, resolverRole } from "@/lib/faculty-name-resolver"
+import { fetchResolverInputs } from "@/lib/faculty-resolver-inputs"
+
+// The review queue: every name in an unverified session's free text, with the
+// people it might be. Computed on each read -- nothing is stored until a
+// coordinator decides.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params
+  const { error: authError } = await requireEventAndPermission(eventId, "program")
+  if (authError) return authError
+
+  const supabase = (await createAdminClient()) as any
+  try {
+    const inputs = await fetchResolverInputs(supabase, eventId)
+    return NextResponse.json({ data: buildResolverQueue(inputs) })
+  } catch (error) {
+    console.error("Failed to build the faculty resolver queue:", error)
+    return NextResponse.json({ error: "Failed to load the review queue" }, { status: 500 })
+  }
+}
+
+const decisionSchema = z.object({
+  decision: z.enum(["accept", "reject"]),
+  session_id: z.string().uuid(),
+  role: z.string(),
+  text_name: z.string().min(1),
+  faculty_id: z.string().uuid().nullable(),
+  registration_id: z.string().uuid().nullable(),
+})
+
+/**
+ * Accept or reject one candidate for one name. An accept is re-checked against
+ * a fresh queue: the client's copy may be stale, and only a candidate the
+ * resolver still proposes may become an assignment.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params
+  const { user, error: authError } = await requireEventAndPermission(eventId, "program")
+  if (authError) return authError
+
+  const parsed = decisionSchema.safeParse(await request.json().catch(() => null))
+  const role = parsed.success ? resolverRole(parsed.data.role) : null
+  if (!parsed.success || !role) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+  const { decision, session_id: sessionId, text_name: textName, faculty_id: facultyId, registration_id: registrationId } = parsed.data
+  if (!facultyId && !registrationId) {
+    return NextResponse.json({ error: "Choose a faculty member or a registration" }, { status: 400 })
+  }
+
+  const supabase = (await createAdminClient()) as any
+
+  if (decision === "reject") {
+    const { error } = await supabase.from("faculty_match_rejections").insert({
+      event_id: eventId,
+      session_id: sessionId,
+      role,
+      text_name: textName,
+      faculty_id: facultyId,
+      registration_id: registrationId,
+      rejected_by: user?.email || null,
+    })
+    if (error) {
+      return NextResponse.json({ error: "Failed to record the rejection" }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  }
+
+  let inputs
+  try {
+    inputs = await fetchResolverInputs(supabase, eventId, sessionId)
+  } catch (error) {
+    console.error("Failed to load the faculty resolver queue:", error)
+    return NextResponse.json({ error: "Failed to load the review queue" }, { status: 500 })
+  }
+  const session = inputs.sessions[0]
+  if (!session) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 })
+  }
+
+  const proposal = buildResolverQueue(inputs).proposals.find(
+    (p) => p.role === role && normaliseName(p.text_name) === normaliseName(textName)
+  )
+  const candidate = proposal?.candidates.find(
+    (c) => c.faculty_id === facultyId && c.registration_id === registrationId
+  )
+  if (!proposal || !candidate) {
+    return NextResponse.json(
+      { error: "That match is no longer proposed -- the name may already be resolved. Refresh the queue." },
+      { status: 409 }
+    )
+  }
+
+  const { data: assignment, error: insertError } = await supabase
+    .from("faculty_assignments")
+    .insert({
+      event_id: eventId,
+      session_id: session.id,
+      faculty_id: candidate.faculty_id,
+      registration_id: candidate.registration_id,
+      faculty_name: candidate.name,
+      faculty_email: candidate.email,
+      faculty_phone: candidate.phone,
+      role,
+      session_date: session.session_date,
+      start_time: session.start_time,
+      end_time: session.end_time ?? null,
+      hall: session.hall ?? null,
+      session_name: session.session_name,
+      topic_title: session.session_name,
+      invitation_token: crypto.randomUUID().replace(/-/g, ""),
+      match_source: proposal.source,
+      match_confidence: candidate.confidence,
+      match_text: proposal.text_name,
+    })
+    .select("id")
+    .single()
+
+  if (insertError || !assignment) {
+    return NextResponse.json({ error: "Failed to create the assignment" }, { status: 500 })
+  }
+
+  const { error: logError } = await supabase.from("program_change_log").insert({
+    event_id: eventId,
+    change_type: "faculty_resolved",
+    session_id: session.id,
+    session_name: session.session_name,
+    assignment_id: assignment.id,
+    old_values: { text_name: proposal.text_name, text_email: proposal.text_email, text_phone: proposal.text_phone },
+    new_values: { faculty_id: candidate.faculty_id, registration_id: candidate.registration_id, faculty_name: candidate.name, role },
+    summary: `Matched "${proposal.text_name}" in "${session.session_name}" to ${candidate.name} (${candidate.confidence}% — ${candidate.evidence.join(", ")})`,
+    changed_by_email: user?.email || null,
+    changed_by_name: user?.name || user?.email || null,
+  })
+  if (logError) console.error("Failed to log faculty resolution:", logError)
+
+  return NextResponse.json({ data: { assignment_id: assignment.id } })
+}
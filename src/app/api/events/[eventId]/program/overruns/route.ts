@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+import { summariseOverruns, type OverrunSessionInfo, type RunningLogEntry } from "@/lib/agenda-running-order"
+
+// GET /api/events/[eventId]/program/overruns
+// Every start, end and delay hall coordinators logged, summarised per session
+// and per hall so organisers can see where the programme ran over and why.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+    const { error: authError } = await requireEventAndPermission(eventId, "program")
+    if (authError) return authError
+    const db = (await createAdminClient()) as any
+
+    const entries = await fetchAllPages<RunningLogEntry>(
+      db
+        .from("session_running_log")
+        .select("session_id, action, minutes, before_start, reason, logged_by, created_at")
+        .eq("event_id", eventId)
+        .order("created_at")
+    )
+
+    const sessionIds = [...new Set(entries.map((e) => e.session_id))]
+    const sessions =
+      sessionIds.length === 0
+        ? []
+        : await fetchAllPages<OverrunSessionInfo>(
+            db
+              .from("sessions")
+              .select("id, session_name, session_date, start_time, end_time, hall")
+              .eq("event_id", eventId)
+              .in("id", sessionIds)
+          )
+
+    return NextResponse.json(summariseOverruns(entries, sessions))
+  } catch (error: any) {
+    console.error("Error in overruns:", error)
+    return NextResponse.json({ error: "Failed to fetch overruns" }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/server'
+import { requireEventAndPermission } from '@/lib/auth/api-auth'
+import { toCSV } from '@/lib/csv-export'
+import { CME_CSV_HEADERS, cmeCsvRows } from '@/lib/session-attendance'
+import { loadCmeReport } from '@/lib/services/session-attendance'
+
+// GET /api/events/[eventId]/session-cme/report
+// CSV of every delegate's CME total: each credited session's cme_credits
+// weighted by the time the hall-door kiosks saw them inside it.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  const { eventId } = await params
+  const { error: authError } = await requireEventAndPermission(eventId, 'speakers')
+  if (authError) return authError
+
+  try {
+    const supabase = await createAdminClient()
+    const rows = await loadCmeReport(supabase, eventId)
+    const csv = toCSV(CME_CSV_HEADERS, cmeCsvRows(rows))
+    const date = new Date().toISOString().slice(0, 10)
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="cme-credits-${date}.csv"`,
+      },
+    })
+  } catch (e) {
+    console.error('session-cme report error:', { eventId, error: e })
+    return NextResponse.json({ error: 'Failed to build the CME report' }, { status: 500 })
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+import { offerSeat } from "@/lib/services/waitlist-offers"
+
+// POST - Hold a seat for this waitlist entry and send them the claim link,
+// out of turn. Capacity isn't checked: the organiser is choosing to offer it.
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string; id: string }> }
+) {
+  try {
+    const { user: _user, error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { eventId, id } = await params
+    const supabase = await createAdminClient()
+    const db = supabase as any
+
+    const { data: entry, error: fetchError } = await db
+      .from("waitlist")
+      .select("id, event_id, ticket_type_id, email, name, phone, status")
+      .eq("id", id)
+      .eq("event_id", eventId)
+      .single()
+
+    if (fetchError || !entry) {
+      return NextResponse.json({ error: "Waitlist entry not found" }, { status: 404 })
+    }
+
+    if (entry.status !== "waiting") {
+      return NextResponse.json({ error: `Entry is already ${entry.status}` }, { status: 400 })
+    }
+
+    const result = await offerSeat(db, entry)
+
+    if (!result.offered) {
+      return NextResponse.json({ error: result.error || "Failed to send offer" }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      offer_id: result.offer_id,
+      channels: result.channels,
+      message: `Seat held for ${entry.name} (sent by ${result.channels?.join(" and ")})`,
+    })
+  } catch (error) {
+    console.error("Error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireAdmin } from "@/lib/auth/api-auth"
+import { effectiveOfferStatus } from "@/lib/services/waitlist-offers"
+
+// GET - Offer history for the event, newest first
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { user: _user, error: authError } = await requireAdmin()
+    if (authError) return authError
+
+    const { eventId } = await params
+    const supabase = await createAdminClient()
+    const db = supabase as any
+
+    const { data, error } = await db
+      .from("waitlist_offers")
+      .select("id, waitlist_id, ticket_type_id, email, name, phone, status, channels, delivery_errors, offered_at, expires_at, claimed_at, closed_at, registration_id, ticket_types(id, name)")
+      .eq("event_id", eventId)
+      .order("offered_at", { ascending: false })
+      .limit(500)
+
+    if (error) {
+      console.error("Error fetching waitlist offers:", error)
+      return NextResponse.json({ error: "Failed to fetch offers" }, { status: 500 })
+    }
+
+    // Holds that ran out since the last cron run show as expired
+    const now = new Date()
+    return NextResponse.json(
+      (data || []).map((offer: any) => ({ ...offer, status: effectiveOfferStatus(offer, now) }))
+    )
+  } catch (error) {
+    console.error("Error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
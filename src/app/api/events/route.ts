@@ -2,16 +2,16 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireAdmin } from "@/lib/auth/api-auth"
 import { eventCreateSchema, formatZodError } from "@/lib/schemas"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { FEATURES } from "@/lib/config"
 import { getTenant, withTenant } from "@/lib/tenant"
 
 /**
  * POST /api/events - Create a new event
  */
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "authenticated")
+  const rateLimit = await checkRateLimit(ip, "authenticated")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -111,4 +111,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
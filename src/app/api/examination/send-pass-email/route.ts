@@ -3,7 +3,7 @@ import { getApiUser } from "@/lib/auth/api-auth"
 import { sendEmail, isEmailEnabled } from "@/lib/email"
 import { COMPANY_CONFIG } from "@/lib/config"
 import { NextRequest, NextResponse } from "next/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { sendWithheldNotifications, sendPassNotifications } from "@/lib/services/exam-emails"
 
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
@@ -37,9 +37,9 @@ function generateFailEmail(name: string, venue: string) {
 }
 
 // POST /api/examination/send-pass-email
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -117,4 +117,4 @@ export async function POST(request: NextRequest) {
     console.error("Error sending pass emails:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // GET /api/forms/public?event_id=X&email=Y - List public forms for an event with submission status
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "public")
+  const rateLimit = await checkRateLimit(ip, "public")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -62,4 +62,4 @@ export async function GET(request: NextRequest) {
     console.error("Error in GET /api/forms/public:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
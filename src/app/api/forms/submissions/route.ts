@@ -1,7 +1,7 @@
 import { createServerSupabaseClient, createAdminClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
 import { headers } from "next/headers"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { requireEventAccess } from "@/lib/auth/api-auth"
 import { signFormUploadUrlsDeep } from "@/lib/storage-url"
 
@@ -92,10 +92,10 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/forms/submissions - Submit a form (public endpoint)
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Rate limit
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "public")
+  const rateLimit = await checkRateLimit(ip, "public")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -339,4 +339,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
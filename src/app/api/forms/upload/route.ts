@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // Dangerous extensions to block
 const BLOCKED_EXTENSIONS = [
@@ -9,10 +9,10 @@ const BLOCKED_EXTENSIONS = [
   '.html', '.htm', '.svg' // SVG can contain scripts
 ]
 
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Rate limit: authenticated tier for file uploads
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "authenticated")
+  const rateLimit = await checkRateLimit(ip, "authenticated")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -151,4 +151,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const TOKEN = "44444444-4444-4444-8444-444444444444"
+const SESSION_ID = "22222222-2222-4222-8222-222222222222"
+// 10:15 in Asia/Kolkata.
+const NOW = new Date("2026-08-27T04:45:00Z")
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] })
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+const COORDINATOR = { id: "coord-1", event_id: EVENT_ID, hall_name: "Hall A", coordinator_name: "Ravi" }
+const SESSION = {
+  id: SESSION_ID,
+  session_date: "2026-08-27",
+  start_time: "10:00:00",
+  end_time: "11:00:00",
+  hall: "Hall A",
+  actual_start_at: null,
+  actual_end_at: null,
+  coordinator_status: "scheduled",
+  events: { timezone: "Asia/Kolkata" },
+}
+
+function hallDay(session: Record<string, unknown>) {
+  mock.queueResponse("events", { data: { timezone: "Asia/Kolkata" }, error: null })
+  mock.queueResponse("sessions", {
+    data: [{ id: SESSION_ID, session_name: "Keynote", session_type: "keynote", start_time: "10:00:00", end_time: "11:00:00", hall: "Hall A", status: null, actual_end_at: null, ...session }],
+    error: null,
+  })
+  mock.queueResponse("session_running_log", { data: [], error: null })
+}
+
+function post(body: Record<string, unknown>) {
+  return makeRequest(`http://localhost/api/hall-coordinator/${TOKEN}/running-order`, { method: "POST", body: { session_id: SESSION_ID, ...body } })
+}
+
+const params = { params: Promise.resolve({ token: TOKEN }) }
+
+function writes(table: string, method: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === method).map((c) => c.args[0] as any)
+}
+
+describe("POST /api/hall-coordinator/[token]/running-order", () => {
+  it("marks a session started, logs how late it was, and returns the re-projected day", async () => {
+    mock.queueResponse("hall_coordinators", { data: COORDINATOR, error: null })
+    mock.queueResponse("sessions", { data: SESSION, error: null })
+    mock.queueResponse("sessions", { data: null, error: null })
+    mock.queueResponse("session_running_log", { data: null, error: null })
+    hallDay({ actual_start_at: NOW.toISOString() })
+
+    const { POST } = await import("./route")
+    const res = await POST(post({ action: "start" }), params)
+    const json = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(writes("sessions", "update")[0]).toMatchObject({ actual_start_at: NOW.toISOString(), coordinator_status: "in_progress" })
+    expect(writes("session_running_log", "insert")[0]).toMatchObject({
+      action: "started",
+      minutes: 15,
+      hall: "Hall A",
+      hall_coordinator_id: "coord-1",
+      logged_by: "Ravi",
+    })
+    expect(json.projection.now).toMatchObject({ id: SESSION_ID, projected_start: "10:15", projected_end: "11:15", late_minutes: 15 })
+  })
+
+  it("logs a delay on a live session as an overrun without touching its status", async () => {
+    mock.queueResponse("hall_coordinators", { data: COORDINATOR, error: null })
+    mock.queueResponse("sessions", { data: { ...SESSION, actual_start_at: "2026-08-27T04:30:00Z", coordinator_status: "in_progress" }, error: null })
+    mock.queueResponse("session_running_log", { data: null, error: null })
+    hallDay({ actual_start_at: "2026-08-27T04:30:00Z" })
+
+    const { POST } = await import("./route")
+    const res = await POST(post({ action: "delay", minutes: 10, reason: "Q&A ran long" }), params)
+
+    expect(res.status).toBe(200)
+    expect(writes("sessions", "update")).toEqual([])
+    expect(writes("session_running_log", "insert")[0]).toMatchObject({ action: "delay", minutes: 10, before_start: false, reason: "Q&A ran long" })
+  })
+
+  it("refuses to start a session twice", async () => {
+    mock.queueResponse("hall_coordinators", { data: COORDINATOR, error: null })
+    mock.queueResponse("sessions", { data: { ...SESSION, actual_start_at: "2026-08-27T04:30:00Z" }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(post({ action: "start" }), params)
+
+    expect(res.status).toBe(409)
+    expect(writes("session_running_log", "insert")).toEqual([])
+  })
+
+  it("does not let a coordinator mark another hall's session", async () => {
+    mock.queueResponse("hall_coordinators", { data: COORDINATOR, error: null })
+    mock.queueResponse("sessions", { data: { ...SESSION, hall: "Hall B" }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(post({ action: "end" }), params)
+
+    expect(res.status).toBe(404)
+    expect(writes("sessions", "update")).toEqual([])
+  })
+
+  it("rejects an unknown portal link and a delay without minutes", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(post({ action: "start" }), params)).status).toBe(404)
+
+    mock.queueResponse("hall_coordinators", { data: COORDINATOR, error: null })
+    expect((await POST(post({ action: "delay" }), params)).status).toBe(400)
+  })
+})
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/server"
+import { localClock } from "@/lib/agenda-running-order"
+import { fetchRunningDay } from "@/lib/agenda-running-order-inputs"
+import { toMinutes } from "@/lib/session-timeline"
+
+type Coordinator = { id: string; event_id: string; hall_name: string; coordinator_name: string }
+
+async function resolveCoordinator(supabase: any, token: string): Promise<Coordinator | null> {
+  if (!z.string().uuid().safeParse(token).success) return null
+  const { data } = await supabase
+    .from("hall_coordinators")
+    .select("id, event_id, hall_name, coordinator_name")
+    .eq("portal_token", token)
+    .maybeSingle()
+  return data ?? null
+}
+
+async function hallProjection(supabase: any, coordinator: Coordinator, date?: string) {
+  const day = await fetchRunningDay(supabase, coordinator.event_id, { hall: coordinator.hall_name, date })
+  return {
+    date: day.date,
+    now_time: day.now_time,
+    projection: day.halls[0]?.projection ?? null,
+  }
+}
+
+// GET /api/hall-coordinator/[token]/running-order?date=YYYY-MM-DD
+// The coordinator's hall for the day (default today), re-projected from what
+// has actually started, ended and been delayed.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+  const supabase = (await createAdminClient()) as any
+
+  const coordinator = await resolveCoordinator(supabase, token)
+  if (!coordinator) return NextResponse.json({ error: "Invalid portal link" }, { status: 404 })
+
+  const date = request.nextUrl.searchParams.get("date")
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: "date must be YYYY-MM-DD" }, { status: 400 })
+  }
+
+  try {
+    return NextResponse.json(await hallProjection(supabase, coordinator, date ?? undefined))
+  } catch (error) {
+    console.error("Error projecting running order:", error)
+    return NextResponse.json({ error: "Failed to load the running order" }, { status: 500 })
+  }
+}
+
+const postSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("start"), session_id: z.string().uuid() }),
+  z.object({ action: z.literal("end"), session_id: z.string().uuid() }),
+  z.object({
+    action: z.literal("delay"),
+    session_id: z.string().uuid(),
+    minutes: z.number().int().min(1).max(180),
+    reason: z.string().trim().max(500).optional(),
+  }),
+])
+
+// POST /api/hall-coordinator/[token]/running-order
+// Mark a session in the coordinator's hall started or ended, or push an
+// overrun delay onto it. Every one is logged to session_running_log.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+  const supabase = (await createAdminClient()) as any
+
+  const coordinator = await resolveCoordinator(supabase, token)
+  if (!coordinator) return NextResponse.json({ error: "Invalid portal link" }, { status: 404 })
+
+  const parsed = postSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request body", details: parsed.error.issues }, { status: 400 })
+  }
+  const body = parsed.data
+
+  const { data: session, error: sessionError } = await supabase
+    .from("sessions")
+    .select("id, session_date, start_time, end_time, hall, actual_start_at, actual_end_at, coordinator_status, events(timezone)")
+    .eq("id", body.session_id)
+    .eq("event_id", coordinator.event_id)
+    .maybeSingle()
+  if (sessionError) return NextResponse.json({ error: "Failed to load session" }, { status: 500 })
+  // A coordinator runs one hall; another hall's sessions are not theirs to mark.
+  if (!session || session.hall !== coordinator.hall_name) {
+    return NextResponse.json({ error: "Session not found in your hall" }, { status: 404 })
+  }
+
+  const now = new Date()
+  const timezone: string = session.events?.timezone ?? "Asia/Kolkata"
+  const clock = toMinutes(localClock(now, timezone).time)!
+  let updates: Record<string, unknown>
+  let minutes: number | null
+
+  if (body.action === "start") {
+    if (session.actual_start_at) return NextResponse.json({ error: "Session already started" }, { status: 409 })
+    updates = { actual_start_at: now.toISOString(), coordinator_status: "in_progress" }
+    minutes = session.start_time ? clock - toMinutes(session.start_time)! : null
+  } else if (body.action === "end") {
+    if (session.actual_end_at) return NextResponse.json({ error: "Session already ended" }, { status: 409 })
+    updates = { actual_end_at: now.toISOString(), coordinator_status: "completed" }
+    minutes = session.end_time ? clock - toMinutes(session.end_time)! : null
+  } else {
+    if (session.actual_end_at) return NextResponse.json({ error: "Session has already ended" }, { status: 409 })
+    // A live session keeps showing LIVE; one yet to start shows it is delayed.
+    updates = session.actual_start_at ? {} : { coordinator_status: "delayed" }
+    minutes = body.minutes
+  }
+
+  if (Object.keys(updates).length > 0) {
+    const { error: updateError } = await supabase
+      .from("sessions")
+      .update({ ...updates, updated_at: now.toISOString() })
+      .eq("id", session.id)
+    if (updateError) return NextResponse.json({ error: "Failed to update session" }, { status: 500 })
+  }
+
+  const { error: logError } = await supabase.from("session_running_log").insert({
+    event_id: coordinator.event_id,
+    session_id: session.id,
+    hall: coordinator.hall_name,
+    hall_coordinator_id: coordinator.id,
+    action: body.action === "start" ? "started" : body.action === "end" ? "ended" : "delay",
+    minutes,
+    before_start: body.action === "delay" && !session.actual_start_at,
+    reason: body.action === "delay" ? body.reason || null : null,
+    logged_by: coordinator.coordinator_name,
+  })
+  if (logError) return NextResponse.json({ error: "Failed to log running-order change" }, { status: 500 })
+
+  try {
+    return NextResponse.json(await hallProjection(supabase, coordinator, session.session_date ?? undefined))
+  } catch (error) {
+    console.error("Error projecting running order:", error)
+    return NextResponse.json({ error: "Saved, but failed to re-project the running order" }, { status: 500 })
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient, createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { DEFAULTS } from "@/lib/config"
 import { requireAdmin } from "@/lib/auth/api-auth"
 
@@ -22,13 +22,13 @@ interface FacultyImportRow {
 }
 
 // POST /api/import/faculty - Import faculty members
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const { error: authError } = await requireAdmin()
   if (authError) return authError
 
   // Rate limit: bulk tier for import operations
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -152,4 +152,4 @@ export async function POST(request: NextRequest) {
     console.error("Error in POST /api/import/faculty:", error)
     return NextResponse.json({ error: "Failed to import faculty" }, { status: 500 })
   }
-}
+})
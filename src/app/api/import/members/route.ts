@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient, createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { DEFAULTS } from "@/lib/config"
 import { requireAdmin } from "@/lib/auth/api-auth"
 
@@ -79,12 +79,12 @@ function parseStatus(val: any): string {
 }
 
 // POST /api/import/members - Import members from CSV
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const { error: authError } = await requireAdmin()
   if (authError) return authError
 
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -230,4 +230,4 @@ export async function POST(request: NextRequest) {
     console.error("Error in POST /api/import/members:", error)
     return NextResponse.json({ error: "Failed to import members" }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createServerSupabaseClient, createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { requireAdmin } from "@/lib/auth/api-auth"
 
 interface ImportRow {
@@ -17,13 +17,13 @@ interface ImportRow {
 }
 
 // POST /api/import/registrations - Import registrations for an event
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const { error: authError } = await requireAdmin()
   if (authError) return authError
 
   // Rate limit: bulk tier for import operations
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -363,4 +363,4 @@ export async function POST(request: NextRequest) {
     console.error("Error in POST /api/import/registrations:", error)
     return NextResponse.json({ error: "Failed to import registrations" }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { toCSV } from "@/lib/csv-export"
+import { RELIABILITY_CSV_HEADERS, reliabilityCsvRows } from "@/lib/kiosk-conflicts"
+import { loadReliabilityReport } from "@/lib/services/kiosk-conflicts"
+
+// GET /api/kiosk-conflicts/report?event_id= -- per-station reliability CSV:
+// each station's kiosk check-ins next to the duplicates and sync conflicts
+// attributed to it, how they were resolved, and the build/heartbeat it last
+// reported. For the post-event hardware review -- which tablets to retire,
+// which builds to stop shipping.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const eventId = searchParams.get("event_id")
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "checkin")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+  let rows
+  try {
+    rows = await loadReliabilityReport(supabase, eventId)
+  } catch (err) {
+    Sentry.captureException(err, { tags: { route: "kiosk-conflicts/report" }, extra: { eventId } })
+    return NextResponse.json({ error: "Failed to build the reliability report." }, { status: 500 })
+  }
+
+  const csv = toCSV(RELIABILITY_CSV_HEADERS, reliabilityCsvRows(rows))
+  const date = new Date().toISOString().slice(0, 10)
+  return new NextResponse(csv, {
+    headers: {
+      "Content-Type": "text/csv",
+      "Content-Disposition": `attachment; filename="kiosk-reliability-${date}.csv"`,
+    },
+  })
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const LIST_ID = "22222222-2222-2222-2222-222222222222"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const CONFLICT_ID = "44444444-4444-4444-4444-444444444444"
+const AUDIT_ID = "55555555-5555-5555-5555-555555555555"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "admin-1", name: "Desk Lead" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function resolve(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/kiosk-conflicts/resolve", {
+    method: "POST",
+    body: { event_id: EVENT_ID, ...body },
+  })
+}
+
+function deviceConflict(overrides: Record<string, unknown> = {}) {
+  return {
+    id: CONFLICT_ID,
+    source: "device",
+    status: "open",
+    station_id: "st-tablet",
+    registration_id: REG_ID,
+    checkin_list_id: LIST_ID,
+    scanned_at: "2026-10-19T08:50:00.000Z",
+    ...overrides,
+  }
+}
+
+function activeRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "rec-1",
+    registration_id: REG_ID,
+    checkin_list_id: LIST_ID,
+    checked_in_at: "2026-10-19T08:55:00.000Z",
+    station_id: "st-desk",
+    checked_out_at: null,
+    reversed_at: null,
+    ...overrides,
+  }
+}
+
+function writes(table: string, method: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === method)
+}
+
+describe("POST /api/kiosk-conflicts/resolve", () => {
+  it("400s on an unknown resolution", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "ignore" }))).status).toBe(400)
+  })
+
+  it("409s on a conflict that's already resolved", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict({ status: "accepted" }), error: null })
+    const { POST } = await import("./route")
+    expect((await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "accept" }))).status).toBe(409)
+  })
+
+  it("accepts without touching the check-in", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict(), error: null })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: [{ id: CONFLICT_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "accept", note: "Same person, two lanes" }))
+    expect(res.status).toBe(200)
+    expect(writes("kiosk_scan_conflicts", "update")[0].args[0]).toMatchObject({
+      status: "accepted",
+      resolution_note: "Same person, two lanes",
+      resolved_by: "admin-1",
+    })
+    expect(writes("checkin_records", "update")).toHaveLength(0)
+    expect(writes("checkin_audit_log", "insert")).toHaveLength(0)
+  })
+
+  it("voids by reversing the surviving check-in and auditing it", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict(), error: null })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: [{ id: CONFLICT_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "void", note: "Badge was lent" }))
+    expect(res.status).toBe(200)
+    expect(writes("checkin_records", "update")[0].args[0]).toMatchObject({
+      reversed_by: "admin-1",
+      reversal_reason: "Badge was lent",
+    })
+    expect(writes("checkin_audit_log", "insert")[0].args[0]).toMatchObject({
+      action: "reversal",
+      performed_by: "Desk Lead",
+      performed_via: "kiosk_conflicts",
+      device_info: { conflict_id: CONFLICT_ID, reason: "Badge was lent" },
+    })
+  })
+
+  it("merges the tablet's earlier scan into the check-in on record", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict(), error: null })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: [{ id: CONFLICT_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "merge" }))
+    expect(res.status).toBe(200)
+    expect(writes("checkin_records", "update")[0].args[0]).toEqual({
+      checked_in_at: "2026-10-19T08:50:00.000Z",
+      station_id: "st-tablet",
+    })
+    expect(writes("checkin_audit_log", "insert")[0].args[0]).toMatchObject({
+      action: "merge",
+      device_info: { previous_checked_in_at: "2026-10-19T08:55:00.000Z", previous_station_id: "st-desk" },
+    })
+  })
+
+  it("refuses to merge when the tablet's scan came later", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict({ scanned_at: "2026-10-19T09:10:00.000Z" }), error: null })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    const { POST } = await import("./route")
+    expect((await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "merge" }))).status).toBe(409)
+    expect(writes("kiosk_scan_conflicts", "update")).toHaveLength(0)
+  })
+
+  it("409s voiding a check-in that's already been reversed", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict(), error: null })
+    mock.queueResponse("checkin_records", { data: activeRecord({ reversed_at: "2026-10-19T10:00:00Z" }), error: null })
+    const { POST } = await import("./route")
+    expect((await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "void" }))).status).toBe(409)
+  })
+
+  it("records a server-only duplicate's resolution as a new audit-sourced row", async () => {
+    mock.queueResponse("checkin_audit_log", {
+      data: { id: AUDIT_ID, registration_id: REG_ID, checkin_list_id: LIST_ID, device_info: { station_id: "st-tablet", duplicate: true } },
+      error: null,
+    })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: { id: "new-conflict" }, error: null })
+    const { POST } = await import("./route")
+    const res = await POST(resolve({ audit_log_id: AUDIT_ID, resolution: "accept" }))
+    expect(res.status).toBe(200)
+    expect(writes("kiosk_scan_conflicts", "insert")[0].args[0]).toMatchObject({
+      source: "audit",
+      audit_log_id: AUDIT_ID,
+      station_id: "st-tablet",
+      status: "accepted",
+    })
+  })
+
+  it("409s when another admin resolved the same duplicate first", async () => {
+    mock.queueResponse("checkin_audit_log", {
+      data: { id: AUDIT_ID, registration_id: REG_ID, checkin_list_id: LIST_ID, device_info: { duplicate: true } },
+      error: null,
+    })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: null, error: { code: "23505" } })
+    const { POST } = await import("./route")
+    expect((await POST(resolve({ audit_log_id: AUDIT_ID, resolution: "accept" }))).status).toBe(409)
+  })
+
+  it("releases the claim when the check-in change fails", async () => {
+    mock.queueResponse("kiosk_scan_conflicts", { data: deviceConflict(), error: null })
+    mock.queueResponse("checkin_records", { data: activeRecord(), error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: [{ id: CONFLICT_ID }], error: null })
+    mock.queueResponse("checkin_records", { data: null, error: { message: "boom" } })
+    const { POST } = await import("./route")
+    expect((await POST(resolve({ conflict_id: CONFLICT_ID, resolution: "void" }))).status).toBe(500)
+    const updates = writes("kiosk_scan_conflicts", "update")
+    expect(updates[updates.length - 1].args[0]).toMatchObject({ status: "open", resolved_at: null })
+  })
+})
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { RESOLUTION_STATUS, mergedCheckin, recordState, type ConflictResolution } from "@/lib/kiosk-conflicts"
+
+const RESOLUTIONS = new Set<ConflictResolution>(["accept", "void", "merge"])
+
+// POST /api/kiosk-conflicts/resolve -- settle one item in the conflicts
+// console. Body: { event_id, conflict_id | audit_log_id, resolution, note }.
+//   accept -- the server's decision stands; nothing else changes.
+//   void   -- the surviving check-in was wrong: it's reversed exactly like
+//             the help desk's Reverse (reversed_at/by/reason, never deleted)
+//             plus a "reversal" audit row.
+//   merge  -- both scans were the same arrival and the tablet's came first:
+//             the surviving check-in takes the tablet's time and station,
+//             with a "merge" audit row keeping the previous values.
+//             Device-reported conflicts only; a server-only duplicate has no
+//             earlier scan to merge from.
+//
+// The conflict row is claimed (status open -> resolved) before the
+// check-in is touched, so two admins resolving the same item can't both
+// apply it; if the check-in change then fails the claim is released.
+// A server-only duplicate gets its kiosk_scan_conflicts row here, on first
+// resolution -- the unique audit_log_id index is its claim.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const eventId = body.event_id as string | undefined
+  const conflictId = body.conflict_id as string | undefined
+  const auditLogId = body.audit_log_id as string | undefined
+  const resolution = body.resolution as ConflictResolution
+  const note = typeof body.note === "string" && body.note.trim() ? body.note.trim().slice(0, 500) : null
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+  if (!RESOLUTIONS.has(resolution)) {
+    return NextResponse.json({ error: "Unknown resolution." }, { status: 400 })
+  }
+  if (conflictId ? !isValidUUID(conflictId) : !auditLogId || !isValidUUID(auditLogId)) {
+    return NextResponse.json({ error: "Pick a conflict to resolve." }, { status: 400 })
+  }
+
+  const { user, error: authError } = await requireEventAndPermission(eventId, "checkin")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+
+  let target: {
+    registration_id: string | null
+    checkin_list_id: string | null
+    station_id: string | null
+    scanned_at: string | null
+  }
+  if (conflictId) {
+    const { data: conflict, error } = await (supabase as any)
+      .from("kiosk_scan_conflicts")
+      .select("id, source, status, station_id, registration_id, checkin_list_id, scanned_at")
+      .eq("id", conflictId)
+      .eq("event_id", eventId)
+      .maybeSingle()
+    if (error) return NextResponse.json({ error: "Failed to load the conflict." }, { status: 500 })
+    if (!conflict) return NextResponse.json({ error: "Conflict not found." }, { status: 404 })
+    if (conflict.status !== "open") {
+      return NextResponse.json({ error: "This conflict has already been resolved." }, { status: 409 })
+    }
+    if (resolution === "merge" && conflict.source !== "device") {
+      return NextResponse.json({ error: "Only a tablet-reported conflict can be merged." }, { status: 400 })
+    }
+    target = conflict
+  } else {
+    const { data: audit, error } = await (supabase as any)
+      .from("checkin_audit_log")
+      .select("id, registration_id, checkin_list_id, device_info")
+      .eq("id", auditLogId)
+      .eq("event_id", eventId)
+      .eq("performed_via", "kiosk")
+      .maybeSingle()
+    if (error) return NextResponse.json({ error: "Failed to load the duplicate." }, { status: 500 })
+    if (!audit || !audit.device_info?.duplicate) {
+      return NextResponse.json({ error: "Duplicate not found." }, { status: 404 })
+    }
+    if (resolution === "merge") {
+      return NextResponse.json({ error: "Only a tablet-reported conflict can be merged." }, { status: 400 })
+    }
+    target = {
+      registration_id: audit.registration_id,
+      checkin_list_id: audit.checkin_list_id,
+      station_id: audit.device_info?.station_id ?? null,
+      scanned_at: null,
+    }
+  }
+
+  const { data: record, error: recordError } = await (supabase as any)
+    .from("checkin_records")
+    .select("id, registration_id, checkin_list_id, checked_in_at, station_id, checked_out_at, reversed_at")
+    .eq("registration_id", target.registration_id)
+    .eq("checkin_list_id", target.checkin_list_id)
+    .maybeSingle()
+  if (recordError) return NextResponse.json({ error: "Failed to load the check-in." }, { status: 500 })
+
+  if (resolution !== "accept" && recordState(record) !== "active") {
+    return NextResponse.json({ error: "There's no active check-in left to change." }, { status: 409 })
+  }
+  const merged = resolution === "merge" ? mergedCheckin(record, target) : null
+  if (resolution === "merge" && !merged) {
+    return NextResponse.json({ error: "The tablet's scan isn't earlier than the check-in on record." }, { status: 409 })
+  }
+
+  const now = new Date().toISOString()
+  const status = RESOLUTION_STATUS[resolution]
+  const resolvedFields = { status, resolution_note: note, resolved_by: user?.id ?? null, resolved_at: now }
+
+  // Claim
+  let claimedId: string
+  if (conflictId) {
+    const { data: claimed, error } = await (supabase as any)
+      .from("kiosk_scan_conflicts")
+      .update(resolvedFields)
+      .eq("id", conflictId)
+      .eq("status", "open")
+      .select("id")
+    if (error) return NextResponse.json({ error: "Failed to resolve the conflict." }, { status: 500 })
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json({ error: "This conflict has already been resolved." }, { status: 409 })
+    }
+    claimedId = conflictId
+  } else {
+    const { data: inserted, error } = await (supabase as any)
+      .from("kiosk_scan_conflicts")
+      .insert({
+        event_id: eventId,
+        source: "audit",
+        audit_log_id: auditLogId,
+        station_id: target.station_id,
+        registration_id: target.registration_id,
+        checkin_list_id: target.checkin_list_id,
+        ...resolvedFields,
+      })
+      .select("id")
+      .single()
+    if (error?.code === "23505") {
+      return NextResponse.json({ error: "This duplicate has already been resolved." }, { status: 409 })
+    }
+    if (error) return NextResponse.json({ error: "Failed to resolve the duplicate." }, { status: 500 })
+    claimedId = inserted.id
+  }
+
+  async function releaseClaim() {
+    if (conflictId) {
+      await (supabase as any)
+        .from("kiosk_scan_conflicts")
+        .update({ status: "open", resolution_note: null, resolved_by: null, resolved_at: null })
+        .eq("id", claimedId)
+    } else {
+      await (supabase as any).from("kiosk_scan_conflicts").delete().eq("id", claimedId)
+    }
+  }
+
+  const performedBy = user!.name || user!.email || user!.id
+
+  if (resolution === "void") {
+    const { error } = await (supabase as any)
+      .from("checkin_records")
+      .update({ reversed_at: now, reversed_by: user!.id, reversal_reason: note || "Voided from kiosk conflicts" })
+      .eq("id", record.id)
+      .is("reversed_at", null)
+    if (error) {
+      await releaseClaim()
+      return NextResponse.json({ error: "Failed to void the check-in." }, { status: 500 })
+    }
+    await (supabase as any).from("checkin_audit_log").insert({
+      event_id: eventId,
+      checkin_list_id: record.checkin_list_id,
+      registration_id: record.registration_id,
+      action: "reversal",
+      performed_by: performedBy,
+      performed_via: "kiosk_conflicts",
+      success: true,
+      device_info: { conflict_id: claimedId, ...(note ? { reason: note } : {}) },
+    })
+  }
+
+  if (resolution === "merge" && merged) {
+    const { error } = await (supabase as any)
+      .from("checkin_records")
+      .update({ checked_in_at: merged.checked_in_at, station_id: merged.station_id })
+      .eq("id", record.id)
+      .is("reversed_at", null)
+    if (error) {
+      await releaseClaim()
+      return NextResponse.json({ error: "Failed to merge the check-ins." }, { status: 500 })
+    }
+    await (supabase as any).from("checkin_audit_log").insert({
+      event_id: eventId,
+      checkin_list_id: record.checkin_list_id,
+      registration_id: record.registration_id,
+      action: "merge",
+      performed_by: performedBy,
+      performed_via: "kiosk_conflicts",
+      success: true,
+      device_info: {
+        conflict_id: claimedId,
+        previous_checked_in_at: record.checked_in_at,
+        previous_station_id: record.station_id,
+        ...(note ? { reason: note } : {}),
+      },
+    })
+  }
+
+  return NextResponse.json({ data: { id: claimedId, status } })
+}
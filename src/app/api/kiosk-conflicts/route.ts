@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { loadEventConflicts } from "@/lib/services/kiosk-conflicts"
+
+// GET /api/kiosk-conflicts?event_id= -- the conflicts console's view: every
+// conflict tablets uploaded (/api/kiosk/conflicts) paired with the server's
+// duplicate audit row for it, plus the server-only duplicates no device
+// reported, each with the current state of the surviving check-in. Pairing
+// lives in src/lib/kiosk-conflicts.ts.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const eventId = searchParams.get("event_id")
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "checkin")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+  try {
+    const { items, stations, lists } = await loadEventConflicts(supabase, eventId)
+    return NextResponse.json({
+      items,
+      stations: stations.map((s) => ({ id: s.id, name: s.name })),
+      lists,
+    })
+  } catch (err) {
+    Sentry.captureException(err, { tags: { route: "kiosk-conflicts" }, extra: { eventId } })
+    return NextResponse.json({ error: "Failed to load kiosk conflicts." }, { status: 500 })
+  }
+}
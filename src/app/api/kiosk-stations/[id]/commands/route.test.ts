@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const STATION_ID = "33333333-3333-3333-3333-333333333333"
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const LIST_ID = "22222222-2222-2222-2222-222222222222"
+const OTHER_LIST_ID = "55555555-5555-5555-5555-555555555555"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "admin-1" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function params() {
+  return { params: Promise.resolve({ id: STATION_ID }) }
+}
+
+function post(body: Record<string, unknown>) {
+  return makeRequest(`http://localhost/api/kiosk-stations/${STATION_ID}/commands`, { method: "POST", body })
+}
+
+describe("POST /api/kiosk-stations/[id]/commands", () => {
+  it("404s when the station doesn't exist", async () => {
+    mock.queueResponse("kiosk_stations", { data: null, error: null })
+    const { POST } = await import("./route")
+    expect((await POST(post({ command: "reload" }), params())).status).toBe(404)
+  })
+
+  it("409s for a revoked station", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: "2026-10-01T00:00:00Z" }, error: null })
+    const { POST } = await import("./route")
+    expect((await POST(post({ command: "reload" }), params())).status).toBe(409)
+  })
+
+  it("400s on an unknown command", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: null }, error: null })
+    const { POST } = await import("./route")
+    expect((await POST(post({ command: "wipe" }), params())).status).toBe(400)
+  })
+
+  it("400s when switching to a list the station doesn't serve", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: null }, error: null })
+    mock.queueResponse("kiosk_station_lists", { data: [{ checkin_list_id: LIST_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(post({ command: "switch_list", payload: { list_id: OTHER_LIST_ID } }), params())
+    expect(res.status).toBe(400)
+    expect(mock.calls.some((c) => c.table === "kiosk_station_commands" && c.method === "insert")).toBe(false)
+  })
+
+  it("queues a command with the admin as its creator", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: null }, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: [], error: null })
+    mock.queueResponse("kiosk_station_commands", { data: { id: "cmd-1", command: "force_sync", status: "pending" }, error: null })
+    const { POST } = await import("./route")
+    const res = await POST(post({ command: "force_sync" }), params())
+    expect(res.status).toBe(201)
+    const insert = mock.calls.find((c) => c.table === "kiosk_station_commands" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({ station_id: STATION_ID, event_id: EVENT_ID, command: "force_sync", created_by: "admin-1" })
+  })
+
+  it("returns the already-queued command instead of stacking a duplicate", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: null }, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: [{ id: "cmd-1", command: "reload", status: "pending" }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(post({ command: "reload" }), params())
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(body).toMatchObject({ duplicate: true, command: { id: "cmd-1" } })
+    expect(mock.calls.some((c) => c.table === "kiosk_station_commands" && c.method === "insert")).toBe(false)
+  })
+
+  it("supersedes an undelivered switch_list with the new target", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: null }, error: null })
+    mock.queueResponse("kiosk_station_lists", { data: [{ checkin_list_id: LIST_ID }, { checkin_list_id: OTHER_LIST_ID }], error: null })
+    mock.queueResponse("kiosk_station_commands", { data: [{ id: "cmd-old", command: "switch_list", status: "pending" }], error: null })
+    mock.queueResponse("kiosk_station_commands", { data: null, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: { id: "cmd-new", command: "switch_list" }, error: null })
+    const { POST } = await import("./route")
+    const res = await POST(post({ command: "switch_list", payload: { list_id: OTHER_LIST_ID } }), params())
+    expect(res.status).toBe(201)
+    const expire = mock.calls.find((c) => c.table === "kiosk_station_commands" && c.method === "update")
+    expect(expire?.args[0]).toMatchObject({ status: "expired" })
+    const insert = mock.calls.find((c) => c.table === "kiosk_station_commands" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({ payload: { list_id: OTHER_LIST_ID } })
+  })
+
+  it("sets the station's lock flag when locking the screen", async () => {
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID, revoked_at: null }, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: [], error: null })
+    mock.queueResponse("kiosk_stations", { data: null, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: { id: "cmd-1", command: "lock_screen" }, error: null })
+    const { POST } = await import("./route")
+    const res = await POST(post({ command: "lock_screen" }), params())
+    expect(res.status).toBe(201)
+    const lock = mock.calls.find((c) => c.table === "kiosk_stations" && c.method === "update")
+    expect(lock?.args[0]).toMatchObject({ locked: true })
+  })
+})
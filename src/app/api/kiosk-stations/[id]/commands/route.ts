@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { validateKioskCommand } from "@/lib/kiosk-fleet"
+
+// POST /api/kiosk-stations/[id]/commands -- queue a remote command for one
+// tablet; it's picked up on the device's next heartbeat (~30s, see
+// /api/kiosk/heartbeat). Re-sending a command that's still waiting for
+// delivery returns the queued one instead of stacking a duplicate -- an
+// admin tapping "Reload" three times on a slow tablet wants one reload.
+// switch_list is the exception, since each one can target a different list:
+// any older undelivered switch is superseded instead.
+//
+// lock_screen/unlock_screen also set kiosk_stations.locked right away, which
+// every heartbeat echoes back, so the lock survives a reload or a tablet
+// that was offline long enough for the command itself to expire.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Invalid station id." }, { status: 400 })
+  }
+
+  const supabase = await createAdminClient()
+
+  const { data: station, error: findErr } = await (supabase as any)
+    .from("kiosk_stations")
+    .select("id, event_id, revoked_at")
+    .eq("id", id)
+    .maybeSingle()
+
+  if (findErr) {
+    return NextResponse.json({ error: "Failed to load station." }, { status: 500 })
+  }
+  if (!station) {
+    return NextResponse.json({ error: "Kiosk station not found." }, { status: 404 })
+  }
+
+  const { user, error: authError } = await requireEventAndPermission(station.event_id, "checkin")
+  if (authError) return authError
+
+  if (station.revoked_at) {
+    return NextResponse.json({ error: "This station's link is revoked -- it can't receive commands." }, { status: 409 })
+  }
+
+  const body = await request.json().catch(() => ({}))
+
+  let stationListIds: string[] = []
+  if (body.command === "switch_list") {
+    const { data: listRows, error: listErr } = await (supabase as any)
+      .from("kiosk_station_lists")
+      .select("checkin_list_id")
+      .eq("station_id", id)
+    if (listErr) {
+      return NextResponse.json({ error: "Failed to load station's lists." }, { status: 500 })
+    }
+    stationListIds = (listRows || []).map((r: { checkin_list_id: string }) => r.checkin_list_id)
+  }
+
+  const validation = validateKioskCommand(body.command, body.payload, stationListIds)
+  if (!validation.ok) {
+    return NextResponse.json({ error: validation.error }, { status: 400 })
+  }
+  const command = body.command as string
+
+  const { data: queued, error: queuedErr } = await (supabase as any)
+    .from("kiosk_station_commands")
+    .select("id, station_id, command, payload, status, result, created_at, delivered_at, completed_at")
+    .eq("station_id", id)
+    .eq("command", command)
+    .eq("status", "pending")
+
+  if (queuedErr) {
+    return NextResponse.json({ error: "Failed to queue command." }, { status: 500 })
+  }
+
+  if (command !== "switch_list" && queued && queued.length > 0) {
+    return NextResponse.json({ command: queued[0], duplicate: true })
+  }
+  if (command === "switch_list" && queued && queued.length > 0) {
+    await (supabase as any)
+      .from("kiosk_station_commands")
+      .update({ status: "expired", result: "Superseded by a newer switch", completed_at: new Date().toISOString() })
+      .in("id", queued.map((c: { id: string }) => c.id))
+  }
+
+  if (command === "lock_screen" || command === "unlock_screen") {
+    const { error: lockErr } = await (supabase as any)
+      .from("kiosk_stations")
+      .update({ locked: command === "lock_screen", updated_at: new Date().toISOString() })
+      .eq("id", id)
+    if (lockErr) {
+      return NextResponse.json({ error: "Failed to update the station's lock." }, { status: 500 })
+    }
+  }
+
+  const { data: created, error: insertErr } = await (supabase as any)
+    .from("kiosk_station_commands")
+    .insert({
+      station_id: id,
+      event_id: station.event_id,
+      command,
+      payload: validation.payload,
+      created_by: user?.id ?? null,
+    })
+    .select("id, station_id, command, payload, status, result, created_at, delivered_at, completed_at")
+    .single()
+
+  if (insertErr) {
+    return NextResponse.json({ error: "Failed to queue command." }, { status: 500 })
+  }
+
+  return NextResponse.json({ command: created }, { status: 201 })
+}
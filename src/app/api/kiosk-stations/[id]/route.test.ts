@@ -229,4 +229,18 @@ describe("PATCH /api/kiosk-stations/[id] -- print_station_id / auto_print_badge"
     const updateCall = mock.calls.find((c) => c.table === "kiosk_stations" && c.method === "update")
     expect((updateCall!.args[0] as any).attended).toBe(true)
   })
+
+  it("updates door_direction and rejects anything but entry/exit", async () => {
+    const { PATCH } = await import("./route")
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID }, error: null })
+    const bad = await PATCH(makeRequest(`http://localhost/api/kiosk-stations/${STATION_ID}`, { method: "PATCH", body: { door_direction: "sideways" } }), params())
+    expect(bad.status).toBe(400)
+
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, event_id: EVENT_ID }, error: null })
+    mock.queueResponse("kiosk_stations", { data: { id: STATION_ID, door_direction: "exit" }, error: null })
+    const res = await PATCH(makeRequest(`http://localhost/api/kiosk-stations/${STATION_ID}`, { method: "PATCH", body: { door_direction: "exit" } }), params())
+    expect(res.status).toBe(200)
+    const updateCall = mock.calls.find((c) => c.table === "kiosk_stations" && c.method === "update")
+    expect((updateCall!.args[0] as any).door_direction).toBe("exit")
+  })
 })
@@ -20,7 +20,7 @@ export async function GET(
 
   const { data: station, error: findErr } = await (supabase as any)
     .from("kiosk_stations")
-    .select("id, event_id, name, mode, print_station_id, auto_print_badge, attended, last_seen_at, revoked_at, created_at")
+    .select("id, event_id, name, mode, print_station_id, auto_print_badge, attended, door_direction, last_seen_at, revoked_at, created_at")
     .eq("id", id)
     .maybeSingle()
 
@@ -100,6 +100,12 @@ export async function PATCH(
   if (typeof body.attended === "boolean") {
     updates.attended = body.attended
   }
+  if (body.door_direction !== undefined) {
+    if (body.door_direction !== "entry" && body.door_direction !== "exit") {
+      return NextResponse.json({ error: "Invalid door direction." }, { status: 400 })
+    }
+    updates.door_direction = body.door_direction
+  }
 
   // --- Validate list_ids BEFORE any mutation happens ----------------------
   // Moved ahead of the station's own `.update()` below on purpose: this used
@@ -127,7 +133,7 @@ export async function PATCH(
     .from("kiosk_stations")
     .update(updates)
     .eq("id", id)
-    .select("id, event_id, name, mode, print_station_id, auto_print_badge, attended")
+    .select("id, event_id, name, mode, print_station_id, auto_print_badge, attended, door_direction")
     .single()
 
   if (error) {
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+
+const RECENT_COMMANDS_LIMIT = 100
+
+// GET /api/kiosk-stations/fleet?event_id= -- the fleet console's view: every
+// station with the telemetry its last heartbeat reported (see
+// /api/kiosk/heartbeat), its assigned list_ids (for the Switch list
+// command), and the event's most recent remote commands so the console can
+// show each one's delivery state. Polled by the page, so this is one
+// bounded read per table rather than anything per-station.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const eventId = searchParams.get("event_id")
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "checkin")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+  const { data: stations, error } = await (supabase as any)
+    .from("kiosk_stations")
+    .select(
+      "id, name, mode, attended, last_seen_at, revoked_at, app_version, device_id, cache_updated_at, pending_scans, conflict_scans, battery_level, battery_charging, current_list_id, telemetry_at, locked"
+    )
+    .eq("event_id", eventId)
+    .order("name", { ascending: true })
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to load kiosk stations." }, { status: 500 })
+  }
+
+  const stationIds = (stations || []).map((s: any) => s.id)
+  const [{ data: joinRows }, { data: commands, error: commandsError }] = await Promise.all([
+    stationIds.length > 0
+      ? (supabase as any).from("kiosk_station_lists").select("station_id, checkin_list_id").in("station_id", stationIds)
+      : Promise.resolve({ data: [] }),
+    (supabase as any)
+      .from("kiosk_station_commands")
+      .select("id, station_id, command, payload, status, result, created_at, delivered_at, completed_at")
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+      .limit(RECENT_COMMANDS_LIMIT),
+  ])
+
+  if (commandsError) {
+    return NextResponse.json({ error: "Failed to load station commands." }, { status: 500 })
+  }
+
+  const listIdsByStation = new Map<string, string[]>()
+  for (const row of joinRows || []) {
+    const existing = listIdsByStation.get(row.station_id) || []
+    existing.push(row.checkin_list_id)
+    listIdsByStation.set(row.station_id, existing)
+  }
+
+  return NextResponse.json({
+    stations: (stations || []).map((s: any) => ({ ...s, list_ids: listIdsByStation.get(s.id) || [] })),
+    commands: commands || [],
+  })
+}
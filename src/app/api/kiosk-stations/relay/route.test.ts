@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "admin-1" }, error: null })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function put(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/kiosk-stations/relay", { method: "PUT", body: { event_id: EVENT_ID, ...body } })
+}
+
+function saved() {
+  return mock.calls.find((c) => c.table === "event_settings" && c.method === "upsert")?.args[0] as Record<string, unknown>
+}
+
+describe("PUT /api/kiosk-stations/relay", () => {
+  it("400s on an address that isn't http(s)", async () => {
+    const { PUT } = await import("./route")
+    expect((await PUT(put({ url: "ftp://192.168.1.20" }))).status).toBe(400)
+  })
+
+  it("normalises the address and generates a key on first save", async () => {
+    mock.queueResponse("event_settings", { data: null, error: null })
+    const { PUT } = await import("./route")
+    const res = await PUT(put({ url: "192.168.1.20:3012/" }))
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(body.url).toBe("https://192.168.1.20:3012")
+    expect(body.key).toMatch(/^[A-Za-z0-9_-]{32}$/)
+    expect(saved()).toMatchObject({ event_id: EVENT_ID, kiosk_relay_url: "https://192.168.1.20:3012", kiosk_relay_key: body.key })
+  })
+
+  it("keeps the existing key unless asked to rotate it", async () => {
+    const { PUT } = await import("./route")
+    mock.queueResponse("event_settings", { data: { kiosk_relay_key: "existing-key" }, error: null })
+    expect((await (await PUT(put({ url: "https://10.0.0.5:3012" }))).json()).key).toBe("existing-key")
+
+    mock.queueResponse("event_settings", { data: { kiosk_relay_key: "existing-key" }, error: null })
+    expect((await (await PUT(put({ url: "https://10.0.0.5:3012", rotate_key: true }))).json()).key).not.toBe("existing-key")
+  })
+
+  it("clears both the address and the key when the address is removed", async () => {
+    const { PUT } = await import("./route")
+    const res = await PUT(put({ url: "" }))
+    expect(await res.json()).toEqual({ url: null, key: null })
+    expect(saved()).toMatchObject({ kiosk_relay_url: null, kiosk_relay_key: null })
+  })
+})
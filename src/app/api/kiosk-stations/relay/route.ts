@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+import crypto from "crypto"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { normalizeRelayUrl } from "@/lib/kiosk-relay"
+
+// GET/PUT /api/kiosk-stations/relay?event_id= -- the event's venue-LAN
+// relay (scripts/kiosk-relay.mjs) as configured on the Fleet page. Stations
+// pick it up from their manifest on the next refresh (~5 min, or a remote
+// "Refresh manifest").
+//
+// The key is generated here, never typed in: it's a shared secret between
+// the tablets and the relay process (KIOSK_RELAY_KEY), and the relay is
+// reachable by anyone on the venue wifi. Saving a URL keeps the existing
+// key unless `rotate_key` is set; clearing the URL clears both.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const eventId = searchParams.get("event_id")
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "checkin")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+  const { data, error } = await (supabase as any)
+    .from("event_settings")
+    .select("kiosk_relay_url, kiosk_relay_key")
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to load relay settings." }, { status: 500 })
+  }
+
+  return NextResponse.json({ url: data?.kiosk_relay_url ?? null, key: data?.kiosk_relay_key ?? null })
+}
+
+export async function PUT(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const eventId = body.event_id as string | undefined
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "checkin")
+  if (authError) return authError
+
+  let url: string | null = null
+  if (typeof body.url === "string" && body.url.trim()) {
+    url = normalizeRelayUrl(body.url)
+    if (!url) {
+      return NextResponse.json({ error: "Enter the relay's address, e.g. https://192.168.1.20:3012" }, { status: 400 })
+    }
+  }
+
+  const supabase = await createAdminClient()
+
+  let key: string | null = null
+  if (url) {
+    const { data: existing, error: readError } = await (supabase as any)
+      .from("event_settings")
+      .select("kiosk_relay_key")
+      .eq("event_id", eventId)
+      .maybeSingle()
+    if (readError) {
+      return NextResponse.json({ error: "Failed to load relay settings." }, { status: 500 })
+    }
+    key = !body.rotate_key && existing?.kiosk_relay_key ? existing.kiosk_relay_key : crypto.randomBytes(24).toString("base64url")
+  }
+
+  const { error } = await (supabase as any)
+    .from("event_settings")
+    .upsert({ event_id: eventId, kiosk_relay_url: url, kiosk_relay_key: key }, { onConflict: "event_id" })
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to save relay settings." }, { status: 500 })
+  }
+
+  return NextResponse.json({ url, key })
+}
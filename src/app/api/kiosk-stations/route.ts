@@ -21,7 +21,7 @@ export async function GET(request: NextRequest) {
   const supabase = await createAdminClient()
   const { data, error } = await (supabase as any)
     .from("kiosk_stations")
-    .select("id, event_id, name, mode, print_station_id, auto_print_badge, attended, last_seen_at, revoked_at, created_at")
+    .select("id, event_id, name, mode, print_station_id, auto_print_badge, attended, door_direction, last_seen_at, revoked_at, created_at")
     .eq("event_id", eventId)
     .order("created_at", { ascending: false })
 
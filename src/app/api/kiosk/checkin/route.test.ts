@@ -1005,4 +1005,97 @@ describe("POST /api/kiosk/checkin -- fallback search wildcard escaping (bug-audi
     const orCall = mock.calls.find((c) => c.table === "registrations" && c.method === "or")
     expect(orCall!.args[0] as string).toContain("a\\_b")
   })
+
+  it("403s with the reason when the daily limit is used up on the tablet's scan day", async () => {
+    mock.queueResponse("checkin_records", { data: null, error: null }) // scan_id lookup
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", {
+      data: baseList({ name: "Lunch", ticket_type_ids: [], entitlement_rules: [], max_scans_per_day: 1 }),
+      error: null,
+    })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null }) // scan_id replay: none
+    mock.queueResponse("events", { data: { timezone: "Asia/Kolkata" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+
+    const { POST } = await import("./route")
+    // 19:00 UTC is already the 11th in Kolkata.
+    const res = await POST(checkinRequest(baseBody({ scanned_at: Date.parse("2026-10-10T19:00:00Z") })))
+    const body = await res.json()
+
+    expect(res.status).toBe(403)
+    expect(body).toMatchObject({ success: false, reason_code: "daily_limit" })
+    expect(body.message).toMatch(/Daily limit reached/)
+    const dayFilter = mock.calls.find((c) => c.table === "checkin_entitlement_uses" && c.method === "eq" && c.args[0] === "use_date")
+    expect(dayFilter?.args[1]).toBe("2026-10-11")
+  })
+
+  it("admits a checked-in delegate again on a daily-limited list, counting the scan once", async () => {
+    mock.queueResponse("checkin_records", { data: null, error: null }) // scan_id lookup
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", {
+      data: baseList({ ticket_type_ids: [], entitlement_rules: [], max_scans_per_day: 2 }),
+      error: null,
+    })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null }) // scan_id replay: none
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null }) // insert
+    mock.queueResponse("checkin_records", { data: { id: "cr-existing" }, error: null }) // existing-active-record check
+
+    const { POST } = await import("./route")
+    const res = await POST(checkinRequest(baseBody({ scanned_at: Date.parse("2026-10-10T12:00:00Z") })))
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body).toMatchObject({ success: true, alreadyCheckedIn: false })
+    const insert = mock.calls.find((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({
+      use_date: "2026-10-10",
+      scanned_at: "2026-10-10T12:00:00.000Z",
+      scan_id: SCAN_ID,
+    })
+    expect(mock.calls.some((c) => c.table === "checkin_audit_log")).toBe(false)
+  })
+
+  it("replays a daily-limited scan that already counted without evaluating the limit again", async () => {
+    mock.queueResponse("checkin_records", { data: null, error: null }) // scan_id lookup
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", {
+      data: baseList({ ticket_type_ids: [], entitlement_rules: [], max_scans_per_day: 1 }),
+      error: null,
+    })
+    mock.queueResponse("checkin_entitlement_uses", { data: { id: "use-1" }, error: null }) // scan_id replay
+    mock.queueResponse("checkin_records", { data: { id: "cr-existing" }, error: null }) // existing-active-record check
+
+    const { POST } = await import("./route")
+    const res = await POST(checkinRequest(baseBody()))
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body).toMatchObject({ success: true, alreadyCheckedIn: false })
+    expect(mock.calls.some((c) => c.table === "events")).toBe(false)
+  })
+
+  it("admits a scan whose concurrent twin counted it first instead of refusing it for the limit", async () => {
+    mock.queueResponse("checkin_records", { data: null, error: null }) // scan_id lookup
+    mock.queueResponse("registrations", { data: baseRegistration(), error: null })
+    mock.queueResponse("checkin_lists", {
+      data: baseList({ ticket_type_ids: [], entitlement_rules: [], max_scans_per_day: 1 }),
+      error: null,
+    })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null }) // scan_id replay: none yet
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 0 })
+    mock.queueResponse("checkin_entitlement_uses", {
+      data: null,
+      error: { code: "23505", message: 'duplicate key value violates unique constraint "checkin_entitlement_uses_scan_id_key"' },
+    })
+    mock.queueResponse("checkin_records", { data: { id: "cr-existing" }, error: null }) // existing-active-record check
+
+    const { POST } = await import("./route")
+    const res = await POST(checkinRequest(baseBody()))
+
+    expect(res.status).toBe(200)
+    expect(await res.json()).toMatchObject({ success: true })
+  })
 })
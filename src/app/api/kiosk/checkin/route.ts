@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { isValidUUID, sanitizeSearchInput } from "@/lib/validation"
 import { checkTimeWindow } from "@/lib/checkin-time-window"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { dailyLimitReached, hasEntitlements } from "@/lib/checkin-entitlements"
+import { claimEntitlementUse, evaluateListEntitlement } from "@/lib/services/checkin-entitlements"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { resolveStationByToken, stationServesList } from "@/lib/kiosk-station-lookup"
 
 // POST /api/kiosk/checkin -- public self check-in for the /kiosk/[eventId]/[listId]
@@ -86,11 +88,22 @@ function validateListToken(
   return null
 }
 
-export async function POST(request: NextRequest) {
+// The tablet's clock when the delegate scanned (kiosk-sync-worker sends
+// scan_log's scanned_at). A scan queued offline last night must be judged
+// against last night's entitlements, not the day it finally synced. Absent,
+// unparseable or in the future (a tablet clock running fast) means now.
+function parseScannedAt(raw: unknown): Date {
+  const now = new Date()
+  if (typeof raw !== "number" && typeof raw !== "string") return now
+  const at = new Date(raw)
+  return isNaN(at.getTime()) || at > now ? now : at
+}
+
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Public, unauthenticated -- rate-limit by IP to blunt enumeration while
   // staying generous enough for a real kiosk queue.
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`kiosk-checkin:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`kiosk-checkin:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   try {
@@ -116,6 +129,7 @@ export async function POST(request: NextRequest) {
     // registration in the event and checked in whichever came back first
     // (bug-audit finding, 2026-08).
     const searchTerm = sanitizeSearchInput((body.search ?? "").toString().replace(/[(),]/g, "")).trim()
+    const scannedAt = parseScannedAt(body.scanned_at)
 
     if (!eventId || !isValidUUID(eventId)) {
       return NextResponse.json({ success: false, message: "Invalid event." }, { status: 400 })
@@ -290,7 +304,7 @@ export async function POST(request: NextRequest) {
 
       const { data: list } = await (supabase as any)
         .from("checkin_lists")
-        .select("id, event_id, list_purpose, ticket_type_ids, addon_ids, starts_at, ends_at, access_token, access_token_expires_at")
+        .select("id, event_id, name, list_purpose, ticket_type_ids, addon_ids, entitlement_rules, max_scans_per_day, starts_at, ends_at, access_token, access_token_expires_at")
         .eq("id", checkinListId)
         .maybeSingle()
 
@@ -355,7 +369,75 @@ export async function POST(request: NextRequest) {
       const blockedResponse = collectionListBlockedResponse(list, isAttendedStation, stationLookupHadError)
       if (blockedResponse) return blockedResponse
 
-      return completeCheckin(supabase, publicRegistration, registration.id, eventId, checkinListId, scanId, stationId, timeWindowWarning)
+      // Per-day entitlement rules and daily limits (src/lib/checkin-entitlements.ts).
+      // Unlike the eligibility checks above, a denial here is expected on
+      // the day -- "Day 2 only", "lunch already taken today" -- so it comes
+      // back as a 403 with the reason, which the sync worker records as a
+      // conflict. The tablet has usually already shown the same denial from
+      // its own cache and never queued the scan at all.
+      let repeatAdmitted = false
+      if (hasEntitlements(list)) {
+        const dailyLimited = !!list.max_scans_per_day
+
+        if (dailyLimited) {
+          // A retry of a scan whose first attempt already counted -- it must
+          // not count again, or be refused for the limit it used up itself.
+          const { data: existingUse } = await (supabase as any)
+            .from("checkin_entitlement_uses")
+            .select("id")
+            .eq("scan_id", scanId)
+            .maybeSingle()
+          if (existingUse) {
+            return completeCheckin(supabase, publicRegistration, registration.id, eventId, checkinListId, scanId, stationId, timeWindowWarning, true)
+          }
+        }
+
+        const evaluation = await evaluateListEntitlement(supabase, {
+          eventId,
+          list,
+          registration,
+          at: scannedAt,
+        })
+        if (!evaluation.result.allowed) {
+          return NextResponse.json(
+            { success: false, message: evaluation.result.reason, reason_code: evaluation.result.code },
+            { status: 403 }
+          )
+        }
+
+        if (dailyLimited) {
+          const claim = await claimEntitlementUse(supabase, {
+            eventId,
+            listId: checkinListId,
+            registrationId: registration.id,
+            day: evaluation.day,
+            scannedAt,
+            maxPerDay: list.max_scans_per_day,
+            usesToday: evaluation.usesToday,
+            scanId,
+            stationId,
+            createdBy: "Self check-in (kiosk)",
+          })
+          if (claim.error) {
+            console.error("Kiosk entitlement use insert failed:", claim.error)
+            return NextResponse.json(
+              { success: false, message: "Failed to check in. Please try again." },
+              { status: 500 }
+            )
+          }
+          // alreadyCounted: this scan's concurrent twin counted it already.
+          if (claim.usesToday === null && !claim.alreadyCounted) {
+            const denial = dailyLimitReached(list.max_scans_per_day, list.max_scans_per_day, list.name)
+            return NextResponse.json(
+              { success: false, message: denial.reason, reason_code: denial.code },
+              { status: 403 }
+            )
+          }
+          repeatAdmitted = true
+        }
+      }
+
+      return completeCheckin(supabase, publicRegistration, registration.id, eventId, checkinListId, scanId, stationId, timeWindowWarning, repeatAdmitted)
     }
 
     // --- TEMPORARY fallback: registration_id absent (pre-Stage-2 kiosk bundle) ---
@@ -441,7 +523,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Best-effort audit trail for a kiosk-detected duplicate/conflict scan --
 // e.g. two devices independently checked the same delegate into the same
@@ -490,7 +572,11 @@ async function completeCheckin(
   checkinListId: string,
   scanId: string,
   stationId: string | null,
-  timeWindowWarning: string | null
+  timeWindowWarning: string | null,
+  // True on a daily-limited list once this scan has been counted: an active
+  // record from an earlier scan (another day, or earlier today within the
+  // limit) is then a fresh admission, not a duplicate.
+  repeatAdmitted = false
 ): Promise<NextResponse> {
   // Already checked in on this list via some other path (e.g. staff
   // scanner, or a race -- see below)? allow_multiple_checkins is
@@ -522,6 +608,15 @@ async function completeCheckin(
     .maybeSingle()
 
   if (existing && !existing.checked_out_at && !existing.reversed_at) {
+    if (repeatAdmitted) {
+      return NextResponse.json({
+        success: true,
+        message: "Check-in successful!",
+        registration: registrationForResponse,
+        alreadyCheckedIn: false,
+        ...(timeWindowWarning && { warning: timeWindowWarning }),
+      })
+    }
     await logKioskDuplicateAudit(supabase, { eventId, checkinListId, registrationId, stationId })
     return NextResponse.json({
       success: true,
@@ -609,14 +704,16 @@ async function completeCheckin(
       // (syncNow previously had no in-flight guard) raced itself and the
       // other copy of this exact request won. Distinguish by re-checking
       // scan_id: a row now existing for THIS scan_id means our own twin
-      // succeeded, not a pre-existing check-in.
+      // succeeded, not a pre-existing check-in. On a daily-limited list the
+      // scan has already been counted (repeatAdmitted), so either way it was
+      // admitted -- the race only decided which scan owns the record.
       const { data: wonByTwin } = await (supabase as any)
         .from("checkin_records")
         .select("id")
         .eq("scan_id", scanId)
         .maybeSingle()
 
-      if (wonByTwin) {
+      if (wonByTwin || repeatAdmitted) {
         return NextResponse.json({
           success: true,
           message: "Check-in successful!",
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import * as Sentry from "@sentry/nextjs"
 import { createAdminClient } from "@/lib/supabase/server"
 import { isValidUUID } from "@/lib/validation"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { resolveStationByToken, stationServesList } from "@/lib/kiosk-station-lookup"
 
 // GET /api/kiosk/collected-status?event_id=&station_token=&list_id= -- Layer 2
@@ -15,9 +15,9 @@ import { resolveStationByToken, stationServesList } from "@/lib/kiosk-station-lo
 // refreshed local cache, same spirit as /api/kiosk/delegates' 5-minute roster
 // refresh. Degrades to `blocked: true`/empty on an unattended station exactly
 // like /api/kiosk/delegates, never a 403/404 for that case.
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`kiosk-collected-status:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`kiosk-collected-status:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const { searchParams } = new URL(request.url)
@@ -115,4 +115,4 @@ export async function GET(request: NextRequest) {
     Sentry.captureException(error, { tags: { route: "kiosk/collected-status" }, extra: { eventId, listId } })
     return NextResponse.json({ error: "Something went wrong." }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const OTHER_EVENT_ID = "99999999-9999-9999-9999-999999999999"
+const LIST_ID = "22222222-2222-2222-2222-222222222222"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const GONE_REG_ID = "44444444-4444-4444-4444-444444444444"
+const SCAN_ID = "55555555-5555-5555-5555-555555555555"
+const SCAN_ID_2 = "66666666-6666-6666-6666-666666666666"
+const STATION_TOKEN = "test-station-token-abc123"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function baseStation(overrides: Record<string, unknown> = {}) {
+  return { id: "st-1", event_id: EVENT_ID, mode: "checkin", revoked_at: null, attended: true, ...overrides }
+}
+
+function conflict(overrides: Record<string, unknown> = {}) {
+  return {
+    scan_id: SCAN_ID,
+    list_id: LIST_ID,
+    registration_id: REG_ID,
+    scanned_at: Date.parse("2026-10-19T09:00:00Z"),
+    registration_snapshot: { id: REG_ID, registration_number: "R-1", attendee_name: "Asha Rao", attendee_email: "a@x.test" },
+    server_response: { success: true, alreadyCheckedIn: true, checked_in_at: "2026-10-19T08:55:00Z" },
+    ...overrides,
+  }
+}
+
+function upload(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/kiosk/conflicts", {
+    method: "POST",
+    body: { event_id: EVENT_ID, station_token: STATION_TOKEN, device_id: "dev-1", ...body },
+  })
+}
+
+describe("POST /api/kiosk/conflicts", () => {
+  it("401s for a revoked station and 404s for another event's", async () => {
+    const { POST } = await import("./route")
+    mock.queueResponse("kiosk_stations", { data: baseStation({ revoked_at: "2026-10-01T00:00:00Z" }), error: null })
+    expect((await POST(upload({ conflicts: [conflict()] }))).status).toBe(401)
+
+    mock.queueResponse("kiosk_stations", { data: baseStation({ event_id: OTHER_EVENT_ID }), error: null })
+    expect((await POST(upload({ conflicts: [conflict()] }))).status).toBe(404)
+  })
+
+  it("400s on an oversized batch", async () => {
+    const { POST } = await import("./route")
+    const res = await POST(upload({ conflicts: Array.from({ length: 51 }, () => conflict()) }))
+    expect(res.status).toBe(400)
+  })
+
+  it("upserts on scan_id, keeping only the fields the console needs from the snapshot", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: LIST_ID }], error: null })
+    mock.queueResponse("registrations", { data: [{ id: REG_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(upload({ conflicts: [conflict()] }))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ received: [SCAN_ID] })
+
+    const upsert = mock.calls.find((c) => c.table === "kiosk_scan_conflicts" && c.method === "upsert")
+    expect(upsert?.args[1]).toMatchObject({ onConflict: "scan_id", ignoreDuplicates: true })
+    const [row] = upsert?.args[0] as Record<string, unknown>[]
+    expect(row).toMatchObject({
+      event_id: EVENT_ID,
+      source: "device",
+      station_id: "st-1",
+      device_id: "dev-1",
+      scan_id: SCAN_ID,
+      scanned_at: "2026-10-19T09:00:00.000Z",
+      device_snapshot: { id: REG_ID, registration_number: "R-1", attendee_name: "Asha Rao" },
+    })
+    expect(row.device_snapshot).not.toHaveProperty("attendee_email")
+  })
+
+  it("acknowledges conflicts for registrations no longer in the event without storing them", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: LIST_ID }], error: null })
+    mock.queueResponse("registrations", { data: [{ id: REG_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(upload({ conflicts: [conflict(), conflict({ scan_id: SCAN_ID_2, registration_id: GONE_REG_ID })] }))
+    expect(await res.json()).toEqual({ received: [SCAN_ID, SCAN_ID_2] })
+    const upsert = mock.calls.find((c) => c.table === "kiosk_scan_conflicts" && c.method === "upsert")
+    expect(upsert?.args[0]).toHaveLength(1)
+  })
+
+  it("503s without acknowledging anything when the write fails", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: LIST_ID }], error: null })
+    mock.queueResponse("registrations", { data: [{ id: REG_ID }], error: null })
+    mock.queueResponse("kiosk_scan_conflicts", { data: null, error: { message: "boom" } })
+    const { POST } = await import("./route")
+    expect((await POST(upload({ conflicts: [conflict()] }))).status).toBe(503)
+  })
+})
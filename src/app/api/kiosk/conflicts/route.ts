@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { createAdminClient } from "@/lib/supabase/server"
+import { isValidUUID } from "@/lib/validation"
+import { resolveStationByToken } from "@/lib/kiosk-station-lookup"
+import { parseUploadedConflict } from "@/lib/kiosk-conflicts"
+
+const MAX_BATCH = 50
+
+// POST /api/kiosk/conflicts -- a tablet uploading the "conflict" entries of
+// its IndexedDB scan_log (scans it showed as a fresh check-in offline that
+// the server answered "already checked in" on sync), so the admin conflicts
+// console can show what the attendee saw next to what the server decided.
+// KioskStationShell calls this after each successful heartbeat.
+//
+// Idempotent on scan_id: a re-upload after a lost response is a no-op. The
+// response lists every scan_id the device can stop sending -- including
+// ones dropped because their list or registration no longer belongs to
+// this event, which would otherwise be retried forever.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const eventId = body.event_id as string | undefined
+  const stationToken = body.station_token as string | undefined
+  const deviceId = typeof body.device_id === "string" ? body.device_id.slice(0, 100) : null
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+  if (!stationToken) {
+    return NextResponse.json({ error: "Missing access token." }, { status: 401 })
+  }
+  if (!Array.isArray(body.conflicts) || body.conflicts.length > MAX_BATCH) {
+    return NextResponse.json({ error: `Send between 0 and ${MAX_BATCH} conflicts.` }, { status: 400 })
+  }
+
+  const supabase = await createAdminClient()
+  const { station, error: stationError } = await resolveStationByToken(supabase, stationToken)
+
+  if (stationError) {
+    Sentry.captureException(stationError, { tags: { route: "kiosk/conflicts" }, extra: { eventId } })
+    return NextResponse.json({ error: "Something went wrong looking up this station." }, { status: 503 })
+  }
+  if (!station || station.revoked_at) {
+    return NextResponse.json({ error: "Invalid access token." }, { status: 401 })
+  }
+  if (station.event_id !== eventId) {
+    return NextResponse.json({ error: "Station not found." }, { status: 404 })
+  }
+
+  const parsed = (body.conflicts as unknown[]).map(parseUploadedConflict).filter((c) => c !== null)
+  if (parsed.length === 0) {
+    return NextResponse.json({ received: [] })
+  }
+
+  const listIds = [...new Set(parsed.map((c) => c.checkin_list_id))]
+  const registrationIds = [...new Set(parsed.map((c) => c.registration_id))]
+
+  const [listsResult, registrationsResult] = await Promise.all([
+    (supabase as any).from("checkin_lists").select("id").eq("event_id", eventId).in("id", listIds),
+    (supabase as any).from("registrations").select("id").eq("event_id", eventId).in("id", registrationIds),
+  ])
+
+  if (listsResult.error || registrationsResult.error) {
+    Sentry.captureException(listsResult.error || registrationsResult.error, {
+      tags: { route: "kiosk/conflicts" },
+      extra: { stationId: station.id },
+    })
+    return NextResponse.json({ error: "Something went wrong saving these conflicts." }, { status: 503 })
+  }
+
+  const knownLists = new Set((listsResult.data || []).map((r: { id: string }) => r.id))
+  const knownRegistrations = new Set((registrationsResult.data || []).map((r: { id: string }) => r.id))
+  const rows = parsed
+    .filter((c) => knownLists.has(c.checkin_list_id) && knownRegistrations.has(c.registration_id))
+    .map((c) => ({ ...c, event_id: eventId, source: "device", station_id: station.id, device_id: deviceId }))
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await (supabase as any)
+      .from("kiosk_scan_conflicts")
+      .upsert(rows, { onConflict: "scan_id", ignoreDuplicates: true })
+
+    if (upsertError) {
+      Sentry.captureException(upsertError, { tags: { route: "kiosk/conflicts" }, extra: { stationId: station.id } })
+      return NextResponse.json({ error: "Something went wrong saving these conflicts." }, { status: 503 })
+    }
+  }
+
+  return NextResponse.json({ received: parsed.map((c) => c.scan_id) })
+}
@@ -343,6 +343,58 @@ describe("GET /api/kiosk/delegates -- station_token multi-list", () => {
     expect(res.status).toBe(200)
   })
 
+  it("attaches each delegate's badge audience when the printing station's template has conditions", async () => {
+    mock.queueResponse("kiosk_stations", {
+      data: { id: "st-1", event_id: EVENT_ID, mode: "checkin_and_print", revoked_at: null, print_station_id: "ps-1" },
+      error: null,
+    })
+    mock.queueResponse("kiosk_station_lists", { data: { station_id: "st-1" }, error: null })
+    mock.queueResponse("checkin_lists", { data: baseList(), error: null })
+    mock.queueResponse("print_stations", {
+      data: {
+        badge_templates: {
+          template_data: {
+            elements: [
+              { id: "band", type: "shape", showWhen: { match: "all", rules: [{ field: "faculty_role", op: "any", value: [] }] } },
+            ],
+          },
+        },
+      },
+      error: null,
+    })
+    mock.queueResponse("registrations", {
+      data: [
+        {
+          id: "reg-1",
+          registration_number: "REG-001",
+          attendee_name: "Jane Doe",
+          attendee_email: "jane@example.com",
+          ticket_type_id: "ticket-1",
+          registration_addons: [{ addon_id: ADDON_ID }],
+        },
+      ],
+      error: null,
+    })
+    mock.queueResponse("faculty_assignments", {
+      data: [{ faculty_email: "Jane@Example.com", role: "speaker", status: "confirmed" }],
+      error: null,
+    })
+
+    const { GET } = await import("./route")
+    const res = await GET(makeRequest(url({ event_id: EVENT_ID, station_token: "st-tok", list_id: LIST_ID })))
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body.delegates[0].badge_audience).toEqual({
+      ticket_type_id: "ticket-1",
+      addon_ids: [ADDON_ID],
+      faculty_roles: ["speaker"],
+      is_member: false,
+    })
+    const select = mock.calls.find((c) => c.table === "registrations" && c.method === "select")
+    expect(String(select?.args[0])).toContain("registration_addons (addon_id)")
+  })
+
   it("503s (not 404) when the station-membership lookup errors, distinguishing a transient failure from a genuine miss", async () => {
     mock.queueResponse("kiosk_stations", {
       data: { id: "st-1", event_id: EVENT_ID, mode: "checkin", revoked_at: null },
@@ -461,3 +513,60 @@ describe("GET /api/kiosk/delegates -- attended-station collection-list exception
     expect(res.status).toBe(503)
   })
 })
+
+describe("GET /api/kiosk/delegates -- entitlement rules", () => {
+  const WORKSHOP_ID = "99999999-9999-9999-9999-999999999999"
+  const MEAL_PLAN_ID = "aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa"
+  const rules = [
+    { day: "2026-10-21", ticket_type_ids: [WORKSHOP_ID], addon_ids: [], meal_plan_ids: [] },
+    { day: null, ticket_type_ids: [], addon_ids: [], meal_plan_ids: [MEAL_PLAN_ID] },
+  ]
+
+  it("sends the rules and what each delegate holds, so the tablet can check them offline", async () => {
+    mock.queueResponse("checkin_lists", { data: baseList({ entitlement_rules: rules, max_scans_per_day: 1 }), error: null })
+    mock.queueResponse("registrations", {
+      data: [
+        {
+          id: "reg-1",
+          registration_number: "REG-001",
+          attendee_name: "Jane Doe",
+          attendee_email: "jane@example.com",
+          attendee_phone: null,
+          attendee_designation: null,
+          attendee_institution: null,
+          ticket_type_id: WORKSHOP_ID,
+        },
+      ],
+      error: null,
+    })
+    mock.queueResponse("meal_registrations", { data: [{ registration_id: "reg-1", meal_plan_id: MEAL_PLAN_ID }], error: null })
+    mock.queueResponse("events", { data: { timezone: "Asia/Kolkata" }, error: null })
+    mock.queueResponse("ticket_types", { data: [{ id: WORKSHOP_ID, name: "Workshop" }], error: null })
+    mock.queueResponse("meal_plans", { data: [{ id: MEAL_PLAN_ID, name: "Lunch Day 1" }], error: null })
+
+    const { GET } = await import("./route")
+    const res = await GET(makeRequest(url({ event_id: EVENT_ID, token: TOKEN })))
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body.delegates[0]).toMatchObject({ ticket_type_id: WORKSHOP_ID, addon_ids: [], meal_plan_ids: [MEAL_PLAN_ID] })
+    expect(body.entitlements).toEqual({
+      rules,
+      max_scans_per_day: 1,
+      timezone: "Asia/Kolkata",
+      labels: { [WORKSHOP_ID]: "Workshop", [MEAL_PLAN_ID]: "Lunch Day 1" },
+    })
+    expect(mock.calls.some((c) => c.table === "registration_addons")).toBe(false)
+  })
+
+  it("leaves the roster untouched for a list without rules", async () => {
+    mock.queueResponse("checkin_lists", { data: baseList({ entitlement_rules: [], max_scans_per_day: null }), error: null })
+    mock.queueResponse("registrations", { data: [{ id: "reg-1", ticket_type_id: WORKSHOP_ID }], error: null })
+
+    const { GET } = await import("./route")
+    const body = await (await GET(makeRequest(url({ event_id: EVENT_ID, token: TOKEN })))).json()
+
+    expect(body.entitlements).toBeUndefined()
+    expect(body.delegates[0]).not.toHaveProperty("ticket_type_id")
+  })
+})
@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from "next/server"
 import * as Sentry from "@sentry/nextjs"
 import { createAdminClient } from "@/lib/supabase/server"
 import { isValidUUID } from "@/lib/validation"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { resolveStationByToken, stationServesList } from "@/lib/kiosk-station-lookup"
+import { hasEntitlements, type EntitlementRule } from "@/lib/checkin-entitlements"
+import { loadEntitlementHoldings, loadEntitlementLabels, loadEventTimezone } from "@/lib/services/checkin-entitlements"
+import { templateHasConditions } from "@/lib/badge-conditions"
+import type { BadgeElement } from "@/lib/badge-template-types"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
 
 // GET /api/kiosk/delegates?event_id=&token=|&station_token= -- bulk delegate
 // roster for the self-check-in kiosk's local delegate cache (Stage 1 of the
@@ -38,9 +43,9 @@ import { resolveStationByToken, stationServesList } from "@/lib/kiosk-station-lo
 // is eligible to self-check-in -- a mismatch here means the kiosk shows a
 // false "Check-in successful!" from the stale local cache while the server
 // silently 404s the sync.
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`kiosk-delegates:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`kiosk-delegates:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const { searchParams } = new URL(request.url)
@@ -73,6 +78,9 @@ export async function GET(request: NextRequest) {
     // scope. Defaults closed: only ever flipped to true once every station-
     // resolution check below has positively succeeded.
     let stationIsAttended = false
+    // The Print Station a checkin_and_print station prints through, for the
+    // badge audiences below. Same hoisting as stationIsAttended.
+    let printStationId: string | null = null
 
     if (stationToken) {
       const { station, error: stationLookupError } = await resolveStationByToken(supabase, stationToken)
@@ -107,10 +115,11 @@ export async function GET(request: NextRequest) {
       // list) -- only now is it safe to record whether this station is
       // staff-attended, for the collection-list gate further down.
       stationIsAttended = station.attended === true
+      if (station.mode === "checkin_and_print") printStationId = station.print_station_id || null
 
       const result = await (supabase as any)
         .from("checkin_lists")
-        .select("id, event_id, name, list_purpose, ticket_type_ids, addon_ids")
+        .select("id, event_id, name, list_purpose, ticket_type_ids, addon_ids, entitlement_rules, max_scans_per_day")
         .eq("id", requestedListId)
         .maybeSingle()
       list = result.data
@@ -125,7 +134,7 @@ export async function GET(request: NextRequest) {
     } else {
       const result = await (supabase as any)
         .from("checkin_lists")
-        .select("id, event_id, name, list_purpose, access_token_expires_at, ticket_type_ids, addon_ids")
+        .select("id, event_id, name, list_purpose, access_token_expires_at, ticket_type_ids, addon_ids, entitlement_rules, max_scans_per_day")
         .eq("access_token", token)
         .maybeSingle()
       list = result.data
@@ -236,6 +245,27 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // A badge printed at the kiosk is drawn from the cached roster row, so a
+    // template with conditional elements (src/lib/badge-conditions.ts) needs
+    // each delegate's add-ons, faculty roles and membership in the roster --
+    // loaded the same way every server-side print path loads them. Only for
+    // a printing station whose template has conditions; every other roster
+    // stays exactly as it was.
+    let badgeElements: BadgeElement[] | null = null
+    if (printStationId) {
+      const { data: printStation, error: printStationError } = await (supabase as any)
+        .from("print_stations")
+        .select("badge_templates (template_data)")
+        .eq("id", printStationId)
+        .maybeSingle()
+      if (printStationError) {
+        Sentry.captureException(printStationError, { tags: { route: "kiosk/delegates" }, extra: { eventId, listId: list.id } })
+        return NextResponse.json({ error: "Failed to load delegate roster." }, { status: 500 })
+      }
+      const elements: BadgeElement[] = printStation?.badge_templates?.template_data?.elements || []
+      if (templateHasConditions(elements)) badgeElements = elements
+    }
+
     // Supabase caps a single query at ~1,000 rows -- with ~2,000 delegates
     // expected for AMASICON's main event, a bare unpaginated query would
     // silently truncate the cache past row 1,000 (no error, no admin
@@ -258,7 +288,9 @@ export async function GET(request: NextRequest) {
           attendee_email,
           attendee_phone,
           attendee_designation,
-          attendee_institution
+          attendee_institution,
+          ticket_type_id
+          ${badgeElements ? ", registration_addons (addon_id)" : ""}
         `)
         .eq("event_id", eventId)
 
@@ -287,6 +319,25 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Per-day entitlement rules (src/lib/checkin-entitlements.ts) are
+    // checked on the tablet too, before it shows "Check-in successful!" --
+    // so for a list with rules or a daily limit, each delegate carries what
+    // the rules look at and the response carries the rules, the event's
+    // timezone (which day it is) and names for the denial reasons. Every
+    // other list gets exactly the roster it always did.
+    const entitled = hasEntitlements(list)
+    const rules: EntitlementRule[] = list.entitlement_rules ?? []
+    const [holdings, timezone, labels] = entitled
+      ? await Promise.all([
+          loadEntitlementHoldings(supabase, rules),
+          loadEventTimezone(supabase, eventId),
+          loadEntitlementLabels(supabase, rules),
+        ])
+      : [null, null, null]
+    const audiences = badgeElements
+      ? await loadBadgeAudiences(supabase, eventId, registrations as any[], badgeElements)
+      : null
+
     const delegates = registrations.map((r: any) => ({
       id: r.id,
       registration_number: r.registration_number,
@@ -295,11 +346,25 @@ export async function GET(request: NextRequest) {
       attendee_phone: r.attendee_phone,
       attendee_designation: r.attendee_designation,
       attendee_institution: r.attendee_institution,
+      ...(holdings && {
+        ticket_type_id: r.ticket_type_id,
+        addon_ids: holdings.get(r.id)?.addon_ids ?? [],
+        meal_plan_ids: holdings.get(r.id)?.meal_plan_ids ?? [],
+      }),
+      ...(audiences && { badge_audience: audiences.get(r.id) ?? null }),
     }))
 
-    return NextResponse.json({ delegates, name: list.name, list_purpose: list.list_purpose, blocked: false })
+    return NextResponse.json({
+      delegates,
+      name: list.name,
+      list_purpose: list.list_purpose,
+      blocked: false,
+      ...(entitled && {
+        entitlements: { rules, max_scans_per_day: list.max_scans_per_day ?? null, timezone, labels },
+      }),
+    })
   } catch (error) {
     Sentry.captureException(error, { tags: { route: "kiosk/delegates" }, extra: { eventId } })
     return NextResponse.json({ error: "Something went wrong." }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const OTHER_EVENT_ID = "99999999-9999-9999-9999-999999999999"
+const COMMAND_ID = "44444444-4444-4444-4444-444444444444"
+const RELOAD_ID = "55555555-5555-5555-5555-555555555555"
+const STALE_ID = "66666666-6666-6666-6666-666666666666"
+const STATION_TOKEN = "test-station-token-abc123"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function baseStation(overrides: Record<string, unknown> = {}) {
+  return { id: "st-1", event_id: EVENT_ID, mode: "checkin", revoked_at: null, attended: true, ...overrides }
+}
+
+function heartbeat(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/kiosk/heartbeat", {
+    method: "POST",
+    body: { event_id: EVENT_ID, station_token: STATION_TOKEN, ...body },
+  })
+}
+
+describe("POST /api/kiosk/heartbeat", () => {
+  it("400s on an invalid event_id", async () => {
+    const { POST } = await import("./route")
+    const res = await POST(heartbeat({ event_id: "nope" }))
+    expect(res.status).toBe(400)
+  })
+
+  it("401s without a station token, or with a revoked one", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(heartbeat({ station_token: "" }))).status).toBe(401)
+
+    mock.queueResponse("kiosk_stations", { data: baseStation({ revoked_at: "2026-10-01T00:00:00Z" }), error: null })
+    expect((await POST(heartbeat({}))).status).toBe(401)
+  })
+
+  it("404s when the station belongs to another event", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation({ event_id: OTHER_EVENT_ID }), error: null })
+    const { POST } = await import("./route")
+    expect((await POST(heartbeat({}))).status).toBe(404)
+  })
+
+  it("503s when the station lookup errors", async () => {
+    mock.queueResponse("kiosk_stations", { data: null, error: { message: "boom" } })
+    const { POST } = await import("./route")
+    expect((await POST(heartbeat({}))).status).toBe(503)
+  })
+
+  it("stores telemetry and returns the station's lock state", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("kiosk_stations", { data: { locked: true }, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: [], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(heartbeat({ telemetry: { app_version: "abc1234", pending_scans: 2, battery_level: 0.5 } }))
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body).toMatchObject({ locked: true, commands: [] })
+    const update = mock.calls.find((c) => c.table === "kiosk_stations" && c.method === "update")
+    expect(update?.args[0]).toMatchObject({ app_version: "abc1234", pending_scans: 2, battery_level: 0.5 })
+  })
+
+  it("applies acks scoped to this station before reading pending commands", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("kiosk_stations", { data: { locked: false }, error: null })
+    mock.queueResponse("kiosk_station_commands", { data: null, error: null }) // ack update
+    mock.queueResponse("kiosk_station_commands", { data: [], error: null }) // pending read
+    const { POST } = await import("./route")
+    await POST(heartbeat({ acks: [{ id: COMMAND_ID, status: "failed", result: "List is closed" }] }))
+
+    const ackUpdate = mock.calls.find((c) => c.table === "kiosk_station_commands" && c.method === "update")
+    expect(ackUpdate?.args[0]).toMatchObject({ status: "failed", result: "List is closed" })
+    const stationFilter = mock.calls.filter((c) => c.table === "kiosk_station_commands" && c.method === "eq")
+    expect(stationFilter.some((c) => c.args[0] === "station_id" && c.args[1] === "st-1")).toBe(true)
+  })
+
+  it("delivers fresh commands, expires stale ones, and acks a reload on delivery", async () => {
+    const now = Date.now()
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("kiosk_stations", { data: { locked: false }, error: null })
+    mock.queueResponse("kiosk_station_commands", {
+      data: [
+        { id: STALE_ID, command: "clear_cache", payload: {}, created_at: new Date(now - 60 * 60 * 1000).toISOString() },
+        { id: COMMAND_ID, command: "force_sync", payload: {}, created_at: new Date(now - 60 * 1000).toISOString() },
+        { id: RELOAD_ID, command: "reload", payload: {}, created_at: new Date(now - 30 * 1000).toISOString() },
+      ],
+      error: null,
+    })
+    mock.queueResponse("kiosk_station_commands", { data: null, error: null }) // expire
+    mock.queueResponse("kiosk_station_commands", { data: null, error: null }) // delivered
+    mock.queueResponse("kiosk_station_commands", { data: null, error: null }) // acked on delivery
+    const { POST } = await import("./route")
+    const body = await (await POST(heartbeat({}))).json()
+
+    expect(body.commands.map((c: { id: string }) => c.id)).toEqual([COMMAND_ID, RELOAD_ID])
+    const updates = mock.calls.filter((c) => c.table === "kiosk_station_commands" && c.method === "update")
+    expect(updates.map((c) => (c.args[0] as { status: string }).status)).toEqual(["expired", "delivered", "acked"])
+    const inFilters = mock.calls.filter((c) => c.table === "kiosk_station_commands" && c.method === "in")
+    expect(inFilters.map((c) => c.args[1])).toEqual([[STALE_ID], [COMMAND_ID], [RELOAD_ID]])
+  })
+})
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { createAdminClient } from "@/lib/supabase/server"
+import { isValidUUID } from "@/lib/validation"
+import { resolveStationByToken } from "@/lib/kiosk-station-lookup"
+import {
+  ACKED_ON_DELIVERY,
+  HEARTBEAT_INTERVAL_MS,
+  isCommandExpired,
+  parseAcks,
+  parseTelemetry,
+  type KioskCommand,
+} from "@/lib/kiosk-fleet"
+
+// POST /api/kiosk/heartbeat -- KioskStationShell's ~30s check-in with the
+// fleet console. One round trip does three things, in this order:
+//   1. stores the device's telemetry on its kiosk_stations row,
+//   2. records the outcome of commands it ran since the last heartbeat,
+//   3. hands over any commands queued for it since, marking them delivered.
+// Acks are applied before the pending read on purpose: a command the device
+// has already finished must never be handed back to it. Commands that sat
+// undelivered past COMMAND_TTL_MS are expired instead of delivered -- see
+// that constant's comment in src/lib/kiosk-fleet.ts.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const eventId = body.event_id as string | undefined
+  const stationToken = body.station_token as string | undefined
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+  if (!stationToken) {
+    return NextResponse.json({ error: "Missing access token." }, { status: 401 })
+  }
+
+  const supabase = await createAdminClient()
+  const { station, error: stationError } = await resolveStationByToken(supabase, stationToken)
+
+  if (stationError) {
+    Sentry.captureException(stationError, { tags: { route: "kiosk/heartbeat" }, extra: { eventId } })
+    return NextResponse.json({ error: "Something went wrong looking up this station." }, { status: 503 })
+  }
+  if (!station || station.revoked_at) {
+    return NextResponse.json({ error: "Invalid access token." }, { status: 401 })
+  }
+  if (station.event_id !== eventId) {
+    return NextResponse.json({ error: "Station not found." }, { status: 404 })
+  }
+
+  const now = new Date()
+  const telemetry = parseTelemetry(body.telemetry)
+  if (telemetry.current_list_id && !isValidUUID(telemetry.current_list_id)) telemetry.current_list_id = null
+
+  const { data: updated, error: updateError } = await (supabase as any)
+    .from("kiosk_stations")
+    .update({ ...telemetry, telemetry_at: now.toISOString(), last_seen_at: now.toISOString() })
+    .eq("id", station.id)
+    .select("locked")
+    .single()
+
+  if (updateError) {
+    Sentry.captureException(updateError, { tags: { route: "kiosk/heartbeat" }, extra: { stationId: station.id } })
+    return NextResponse.json({ error: "Something went wrong saving this heartbeat." }, { status: 503 })
+  }
+
+  for (const ack of parseAcks(body.acks)) {
+    if (!isValidUUID(ack.id)) continue
+    const { error: ackError } = await (supabase as any)
+      .from("kiosk_station_commands")
+      .update({ status: ack.status, result: ack.result ?? null, completed_at: now.toISOString() })
+      .eq("id", ack.id)
+      .eq("station_id", station.id)
+    if (ackError) {
+      // Lost acks only leave a command showing "delivered" in the console;
+      // never worth failing the heartbeat (and its command delivery) over.
+      Sentry.captureException(ackError, { tags: { route: "kiosk/heartbeat" }, extra: { commandId: ack.id } })
+    }
+  }
+
+  const { data: pendingRows, error: pendingError } = await (supabase as any)
+    .from("kiosk_station_commands")
+    .select("id, command, payload, created_at")
+    .eq("station_id", station.id)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true })
+
+  if (pendingError) {
+    Sentry.captureException(pendingError, { tags: { route: "kiosk/heartbeat" }, extra: { stationId: station.id } })
+    return NextResponse.json({ locked: updated?.locked === true, commands: [], interval_ms: HEARTBEAT_INTERVAL_MS })
+  }
+
+  const pending = (pendingRows || []) as { id: string; command: KioskCommand; payload: Record<string, unknown>; created_at: string }[]
+  const expired = pending.filter((c) => isCommandExpired(c.created_at, now))
+  const live = pending.filter((c) => !isCommandExpired(c.created_at, now))
+
+  if (expired.length > 0) {
+    await (supabase as any)
+      .from("kiosk_station_commands")
+      .update({ status: "expired", completed_at: now.toISOString() })
+      .in("id", expired.map((c) => c.id))
+  }
+
+  const ackedNow = live.filter((c) => ACKED_ON_DELIVERY.includes(c.command)).map((c) => c.id)
+  const deliveredNow = live.filter((c) => !ACKED_ON_DELIVERY.includes(c.command)).map((c) => c.id)
+  if (deliveredNow.length > 0) {
+    await (supabase as any)
+      .from("kiosk_station_commands")
+      .update({ status: "delivered", delivered_at: now.toISOString() })
+      .in("id", deliveredNow)
+  }
+  if (ackedNow.length > 0) {
+    await (supabase as any)
+      .from("kiosk_station_commands")
+      .update({ status: "acked", delivered_at: now.toISOString(), completed_at: now.toISOString() })
+      .in("id", ackedNow)
+  }
+
+  return NextResponse.json({
+    locked: updated?.locked === true,
+    commands: live.map((c) => ({ id: c.id, command: c.command, payload: c.payload || {} })),
+    interval_ms: HEARTBEAT_INTERVAL_MS,
+  })
+}
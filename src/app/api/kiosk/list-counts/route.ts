@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import * as Sentry from "@sentry/nextjs"
 import { createAdminClient } from "@/lib/supabase/server"
 import { isValidUUID } from "@/lib/validation"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { resolveStationByToken } from "@/lib/kiosk-station-lookup"
 
 const MAX_LIST_IDS = 20
@@ -16,9 +16,9 @@ const MAX_LIST_IDS = 20
 // /api/kiosk/collected-status' background refresh. Purely informational --
 // never called from the check-in path, and a failure here must never block
 // or alter check-in; the client just keeps whatever counts it last had.
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`kiosk-list-counts:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`kiosk-list-counts:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const { searchParams } = new URL(request.url)
@@ -102,4 +102,4 @@ export async function GET(request: NextRequest) {
     Sentry.captureException(error, { tags: { route: "kiosk/list-counts" }, extra: { eventId } })
     return NextResponse.json({ error: "Something went wrong." }, { status: 500 })
   }
-}
+})
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { isValidUUID } from "@/lib/validation"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // POST /api/kiosk/print-sync -- opportunistic, best-effort sync of a badge
 // print that already happened locally (WebUSB, offline-capable -- see
@@ -11,9 +11,9 @@ import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/ra
 // the time this is called -- same bare "unguessable UUID pair" trust model
 // as /api/kiosk/checkin (this route is not the authorization boundary; the
 // print already happened offline, possibly minutes or hours earlier).
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`kiosk-print-sync:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`kiosk-print-sync:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const body = await request.json().catch(() => ({}))
@@ -55,4 +55,4 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Failed to sync print job." }, { status: 500 })
   }
   return NextResponse.json({ success: true })
-}
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const OTHER_EVENT_ID = "99999999-9999-9999-9999-999999999999"
+const SESSION_LIST_ID = "22222222-2222-2222-2222-222222222222"
+const ENTRY_LIST_ID = "77777777-7777-7777-7777-777777777777"
+const SESSION_ID = "88888888-8888-8888-8888-888888888888"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const SCAN_ID = "55555555-5555-5555-5555-555555555555"
+const SCAN_ID_2 = "66666666-6666-6666-6666-666666666666"
+const STATION_TOKEN = "test-station-token-abc123"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function baseStation(overrides: Record<string, unknown> = {}) {
+  return { id: "st-1", event_id: EVENT_ID, mode: "checkin", revoked_at: null, attended: false, door_direction: "exit", ...overrides }
+}
+
+function doorScan(overrides: Record<string, unknown> = {}) {
+  return {
+    scan_id: SCAN_ID,
+    list_id: SESSION_LIST_ID,
+    registration_id: REG_ID,
+    door: "out",
+    scanned_at: Date.parse("2026-10-20T10:40:00Z"),
+    ...overrides,
+  }
+}
+
+function upload(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/kiosk/session-scans", {
+    method: "POST",
+    body: { event_id: EVENT_ID, station_token: STATION_TOKEN, ...body },
+  })
+}
+
+describe("POST /api/kiosk/session-scans", () => {
+  it("401s for a revoked station and 404s for another event's", async () => {
+    const { POST } = await import("./route")
+    mock.queueResponse("kiosk_stations", { data: baseStation({ revoked_at: "2026-10-01T00:00:00Z" }), error: null })
+    expect((await POST(upload({ scans: [doorScan()] }))).status).toBe(401)
+
+    mock.queueResponse("kiosk_stations", { data: baseStation({ event_id: OTHER_EVENT_ID }), error: null })
+    expect((await POST(upload({ scans: [doorScan()] }))).status).toBe(404)
+  })
+
+  it("400s on an oversized batch", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(upload({ scans: Array.from({ length: 101 }, () => doorScan()) }))).status).toBe(400)
+  })
+
+  it("records scans against the list's session, keyed on scan_id, at the tablet's scan time", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: SESSION_LIST_ID, session_id: SESSION_ID }], error: null })
+    mock.queueResponse("registrations", { data: [{ id: REG_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(upload({ scans: [doorScan()] }))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ received: [SCAN_ID] })
+
+    const upsert = mock.calls.find((c) => c.table === "session_attendance_scans" && c.method === "upsert")
+    expect(upsert?.args[1]).toMatchObject({ onConflict: "scan_id", ignoreDuplicates: true })
+    expect(upsert?.args[0]).toEqual([
+      {
+        event_id: EVENT_ID,
+        session_id: SESSION_ID,
+        registration_id: REG_ID,
+        direction: "out",
+        scanned_at: "2026-10-20T10:40:00.000Z",
+        scan_id: SCAN_ID,
+        station_id: "st-1",
+      },
+    ])
+  })
+
+  it("acknowledges but drops scans on a list with no session", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: ENTRY_LIST_ID, session_id: null }], error: null })
+    mock.queueResponse("registrations", { data: [{ id: REG_ID }], error: null })
+    const { POST } = await import("./route")
+    const res = await POST(upload({ scans: [doorScan({ scan_id: SCAN_ID_2, list_id: ENTRY_LIST_ID, door: "in" })] }))
+    expect(await res.json()).toEqual({ received: [SCAN_ID_2] })
+    expect(mock.calls.some((c) => c.table === "session_attendance_scans")).toBe(false)
+  })
+
+  it("503s when the save fails so the tablet retries", async () => {
+    mock.queueResponse("kiosk_stations", { data: baseStation(), error: null })
+    mock.queueResponse("checkin_lists", { data: [{ id: SESSION_LIST_ID, session_id: SESSION_ID }], error: null })
+    mock.queueResponse("registrations", { data: [{ id: REG_ID }], error: null })
+    mock.queueResponse("session_attendance_scans", { data: null, error: { message: "boom" } })
+    const { POST } = await import("./route")
+    expect((await POST(upload({ scans: [doorScan()] }))).status).toBe(503)
+  })
+})
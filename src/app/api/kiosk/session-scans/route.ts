@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { createAdminClient } from "@/lib/supabase/server"
+import { isValidUUID } from "@/lib/validation"
+import { resolveStationByToken } from "@/lib/kiosk-station-lookup"
+import { parseUploadedDoorScan } from "@/lib/session-attendance"
+
+const MAX_BATCH = 100
+
+// POST /api/kiosk/session-scans -- a tablet uploading its hall-door scans
+// (scan_log entries with `door` set) into session_attendance_scans, where
+// src/lib/session-attendance.ts turns them into dwell time and CME credit.
+// KioskStationShell calls this after each successful heartbeat, the same
+// way it uploads sync conflicts.
+//
+// Entry scans are check-ins too and reach checkin_records through
+// /api/kiosk/checkin as usual; this only records when the delegate passed
+// the door. Only scans on a session-purpose list of this event are kept.
+// Idempotent on scan_id, and the response lists every scan_id the device
+// can stop sending -- including ones dropped here, which would otherwise be
+// retried forever.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+  const eventId = body.event_id as string | undefined
+  const stationToken = body.station_token as string | undefined
+
+  if (!eventId || !isValidUUID(eventId)) {
+    return NextResponse.json({ error: "Invalid event." }, { status: 400 })
+  }
+  if (!stationToken) {
+    return NextResponse.json({ error: "Missing access token." }, { status: 401 })
+  }
+  if (!Array.isArray(body.scans) || body.scans.length > MAX_BATCH) {
+    return NextResponse.json({ error: `Send between 0 and ${MAX_BATCH} scans.` }, { status: 400 })
+  }
+
+  const supabase = await createAdminClient()
+  const { station, error: stationError } = await resolveStationByToken(supabase, stationToken)
+
+  if (stationError) {
+    Sentry.captureException(stationError, { tags: { route: "kiosk/session-scans" }, extra: { eventId } })
+    return NextResponse.json({ error: "Something went wrong looking up this station." }, { status: 503 })
+  }
+  if (!station || station.revoked_at) {
+    return NextResponse.json({ error: "Invalid access token." }, { status: 401 })
+  }
+  if (station.event_id !== eventId) {
+    return NextResponse.json({ error: "Station not found." }, { status: 404 })
+  }
+
+  const received = (body.scans as { scan_id?: unknown }[])
+    .map((s) => s?.scan_id)
+    .filter((id): id is string => typeof id === "string")
+  const parsed = (body.scans as unknown[]).map(parseUploadedDoorScan).filter((s) => s !== null)
+  if (parsed.length === 0) {
+    return NextResponse.json({ received })
+  }
+
+  const listIds = [...new Set(parsed.map((s) => s.checkin_list_id))]
+  const registrationIds = [...new Set(parsed.map((s) => s.registration_id))]
+
+  const [listsResult, registrationsResult] = await Promise.all([
+    (supabase as any).from("checkin_lists").select("id, session_id").eq("event_id", eventId).in("id", listIds),
+    (supabase as any).from("registrations").select("id").eq("event_id", eventId).in("id", registrationIds),
+  ])
+
+  if (listsResult.error || registrationsResult.error) {
+    Sentry.captureException(listsResult.error || registrationsResult.error, {
+      tags: { route: "kiosk/session-scans" },
+      extra: { stationId: station.id },
+    })
+    return NextResponse.json({ error: "Something went wrong saving these scans." }, { status: 503 })
+  }
+
+  const sessionByList = new Map<string, string>()
+  for (const list of (listsResult.data || []) as { id: string; session_id: string | null }[]) {
+    if (list.session_id) sessionByList.set(list.id, list.session_id)
+  }
+  const knownRegistrations = new Set((registrationsResult.data || []).map((r: { id: string }) => r.id))
+  const rows = parsed
+    .filter((s) => sessionByList.has(s.checkin_list_id) && knownRegistrations.has(s.registration_id))
+    .map((s) => ({
+      event_id: eventId,
+      session_id: sessionByList.get(s.checkin_list_id),
+      registration_id: s.registration_id,
+      direction: s.direction,
+      scanned_at: s.scanned_at,
+      scan_id: s.scan_id,
+      station_id: station.id,
+    }))
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await (supabase as any)
+      .from("session_attendance_scans")
+      .upsert(rows, { onConflict: "scan_id", ignoreDuplicates: true })
+
+    if (upsertError) {
+      Sentry.captureException(upsertError, { tags: { route: "kiosk/session-scans" }, extra: { stationId: station.id } })
+      return NextResponse.json({ error: "Something went wrong saving these scans." }, { status: 503 })
+    }
+  }
+
+  return NextResponse.json({ received })
+}
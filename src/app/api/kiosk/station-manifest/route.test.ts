@@ -131,4 +131,21 @@ describe("GET /api/kiosk/station-manifest", () => {
     expect(res.status).toBe(200)
     expect(body.attended).toBe(false)
   })
+
+  it("hands out the event's LAN relay when one is configured, and null otherwise", async () => {
+    const station = { id: "st-1", event_id: EVENT_ID, name: "Kit Desk", mode: "checkin", print_station_id: null, auto_print_badge: false, revoked_at: null }
+    const { GET } = await import("./route")
+
+    mock.queueResponse("kiosk_stations", { data: station, error: null })
+    mock.queueResponse("kiosk_station_lists", { data: [], error: null })
+    mock.queueResponse("event_settings", { data: { kiosk_relay_url: "https://192.168.1.20:3012", kiosk_relay_key: "k-1" }, error: null })
+    let body = await (await GET(makeRequest(url({ event_id: EVENT_ID, station_token: "tok" })))).json()
+    expect(body.relay).toEqual({ url: "https://192.168.1.20:3012", key: "k-1" })
+
+    mock.queueResponse("kiosk_stations", { data: station, error: null })
+    mock.queueResponse("kiosk_station_lists", { data: [], error: null })
+    mock.queueResponse("event_settings", { data: { kiosk_relay_url: null, kiosk_relay_key: null }, error: null })
+    body = await (await GET(makeRequest(url({ event_id: EVENT_ID, station_token: "tok" })))).json()
+    expect(body.relay).toBeNull()
+  })
 })
@@ -63,6 +63,22 @@ export async function GET(request: NextRequest) {
     lists = data || []
   }
 
+  // The venue-LAN relay (scripts/kiosk-relay.mjs), if the event has one
+  // configured on the Fleet page. Optional on every level: a lookup error
+  // only means this tablet stays off the relay until the next refresh.
+  const { data: settings, error: settingsError } = await (supabase as any)
+    .from("event_settings")
+    .select("kiosk_relay_url, kiosk_relay_key")
+    .eq("event_id", eventId)
+    .maybeSingle()
+  if (settingsError) {
+    Sentry.captureException(settingsError, { tags: { route: "kiosk/station-manifest" }, extra: { eventId } })
+  }
+  const relay =
+    settings?.kiosk_relay_url && settings?.kiosk_relay_key
+      ? { url: settings.kiosk_relay_url as string, key: settings.kiosk_relay_key as string }
+      : null
+
   const stationRow = station as any
   return NextResponse.json({
     station_name: stationRow.name,
@@ -70,6 +86,8 @@ export async function GET(request: NextRequest) {
     print_station_id: stationRow.print_station_id ?? null,
     auto_print_badge: !!stationRow.auto_print_badge,
     attended: stationRow.attended === true,
+    door_direction: stationRow.door_direction === "exit" ? "exit" : "entry",
     lists,
+    relay,
   })
 }
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { isValidUUID } from "@/lib/validation"
 import { isGallaboxEnabled, sendGallaboxTemplate } from "@/lib/gallabox"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 export const dynamic = "force-dynamic"
 
@@ -16,7 +16,7 @@ const BADGE_WHATSAPP_TEMPLATE = "delegate_login"
 // POST /api/kiosk/whatsapp-badge — public companion to the /kiosk self check-in.
 // Sends the attendee their badge download link over WhatsApp via Gallabox.
 // Runs server-side with the admin client (the kiosk page is anon).
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Bug-audit fix (2026-08): this route had no rate limit at all, unlike its
   // sibling public kiosk routes (/api/kiosk/checkin, /api/kiosk/delegates),
   // which both gate on this same "public" tier. Anyone holding a valid
@@ -24,7 +24,7 @@ export async function POST(request: NextRequest) {
   // sends to a delegate's actual phone -- a harassment vector against
   // attendees and an unbounded cost-abuse vector against the org.
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`kiosk-whatsapp-badge:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`kiosk-whatsapp-badge:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   try {
@@ -110,4 +110,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // GET /api/members/amasi-lookup?email=xxx
 //
 // Local-only lookup against the `active_amasi_members` view (status='active').
 // The external application.amasi.org API is no longer the source of truth —
 // all member records are now imported into this Supabase.
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   // Rate limit: strict tier to prevent enumeration
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(`amasi-lookup:${ip}`, "strict")
+  const rateLimit = await checkRateLimit(`amasi-lookup:${ip}`, "strict")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -87,4 +87,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
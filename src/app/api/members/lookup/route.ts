@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, createRateLimitHeaders, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, createRateLimitHeaders, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // GET /api/members/lookup?email=xxx
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   // Rate limit: strict tier to prevent email enumeration
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "strict")
+  const rateLimit = await checkRateLimit(ip, "strict")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -81,4 +81,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const CHECKIN_TOKEN = "a".repeat(32)
+const FEED_TOKEN = "f".repeat(48)
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true })),
+  getClientIp: () => "127.0.0.1",
+  rateLimitExceededResponse: vi.fn(),
+  rateLimitedRoute: (handler: unknown) => handler,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+const REGISTRATION = { id: REG_ID, event_id: EVENT_ID, status: "confirmed", agenda_feed_token: FEED_TOKEN }
+
+function lookups(column: string) {
+  return mock.calls.filter((c) => c.table === "registrations" && c.method === "eq" && c.args[0] === column)
+}
+
+describe("GET /api/my/agenda/calendar", () => {
+  it("serves the feed for the registration's agenda feed token", async () => {
+    mock.queueResponse("registrations", { data: REGISTRATION, error: null })
+    mock.queueResponse("events", { data: { name: "Congress", short_name: null, timezone: "UTC" }, error: null })
+    mock.queueResponse("session_bookmarks", { data: [], error: null })
+
+    const { GET } = await import("./route")
+    const res = await GET(makeRequest(`http://localhost/api/my/agenda/calendar?feed=${FEED_TOKEN}`))
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get("Content-Type")).toContain("text/calendar")
+    expect(lookups("agenda_feed_token")).toHaveLength(1)
+    expect(lookups("checkin_token")).toEqual([])
+  })
+
+  it("never looks a feed up by checkin token", async () => {
+    const { GET } = await import("./route")
+    const res = await GET(makeRequest(`http://localhost/api/my/agenda/calendar?token=${CHECKIN_TOKEN}`))
+
+    expect(res.status).toBe(404)
+    expect(mock.calls).toEqual([])
+  })
+})
+
+describe("POST /api/my/agenda/calendar", () => {
+  it("replaces the feed token so the old calendar URL stops working", async () => {
+    mock.queueResponse("registrations", { data: REGISTRATION, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest("http://localhost/api/my/agenda/calendar", { method: "POST", body: { token: CHECKIN_TOKEN } })
+    )
+    const json = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(json.feed_token).toHaveLength(48)
+    expect(json.feed_token).not.toBe(FEED_TOKEN)
+    const update = mock.calls.find((c) => c.table === "registrations" && c.method === "update")
+    expect(update?.args[0]).toEqual({ agenda_feed_token: json.feed_token })
+  })
+})
@@ -0,0 +1,94 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { generateSessionsICS } from "@/lib/ics-generator"
+import { agendaCalendarEntries } from "@/lib/personal-agenda"
+import {
+  findAgendaFeedRegistration,
+  findAgendaRegistration,
+  loadPersonalAgenda,
+  rotateAgendaFeedToken,
+} from "@/lib/services/personal-agenda"
+
+// GET /api/my/agenda/calendar?feed=... - The delegate's bookmarked sessions
+// as an iCalendar feed. Served as a download from the portal and subscribed
+// to as webcal://, so it is read from the live programme on every fetch and
+// carries the latest publication number as each entry's SEQUENCE. Takes only
+// the registration's read-only agenda_feed_token (the `feed_token` in
+// /api/my/agenda responses), never the checkin_token.
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const supabase = (await createAdminClient()) as any
+    const registration = await findAgendaFeedRegistration(supabase, request.nextUrl.searchParams.get("feed"))
+    if (!registration || registration.status !== "confirmed") {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+
+    const [eventResult, publicationResult, sessions] = await Promise.all([
+      supabase.from("events").select("name, short_name, timezone").eq("id", registration.event_id).single(),
+      supabase
+        .from("agenda_snapshots")
+        .select("sequence")
+        .eq("event_id", registration.event_id)
+        .order("sequence", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      loadPersonalAgenda(supabase, registration),
+    ])
+    if (eventResult.error || !eventResult.data) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 })
+    }
+
+    const event = eventResult.data as { name: string; short_name: string | null; timezone: string | null }
+    const entries = agendaCalendarEntries(
+      sessions,
+      publicationResult.data?.sequence ?? 0,
+      event.timezone ?? "Asia/Kolkata",
+      event.name
+    )
+    const calendarName = `${event.short_name || event.name} · My agenda`
+
+    return new NextResponse(generateSessionsICS(calendarName, entries), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="my-agenda.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    })
+  } catch {
+    return NextResponse.json({ error: "Failed to build your calendar" }, { status: 500 })
+  }
+})
+
+// POST /api/my/agenda/calendar - Reset the calendar link. Body: { token }
+// (the checkin_token). Issues a new feed token, so calendars subscribed with
+// the old URL stop syncing; returns { feed_token }.
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const body = await request.json().catch(() => null)
+    const supabase = (await createAdminClient()) as any
+    const registration = await findAgendaRegistration(supabase, body?.token)
+    if (!registration) {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+    if (registration.status !== "confirmed") {
+      return NextResponse.json({ error: `Registration is ${registration.status}` }, { status: 400 })
+    }
+
+    return NextResponse.json({ feed_token: await rotateAgendaFeedToken(supabase, registration) })
+  } catch {
+    return NextResponse.json({ error: "Failed to reset your calendar link" }, { status: 500 })
+  }
+})
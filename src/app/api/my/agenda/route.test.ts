@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const SESSION_ID = "22222222-2222-4222-8222-222222222222"
+const TOKEN = "a".repeat(32)
+const FEED_TOKEN = "f".repeat(48)
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true })),
+  getClientIp: () => "127.0.0.1",
+  rateLimitExceededResponse: vi.fn(),
+  rateLimitedRoute: (handler: unknown) => handler,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+const REGISTRATION = { id: REG_ID, event_id: EVENT_ID, status: "confirmed", agenda_feed_token: FEED_TOKEN }
+const KEYNOTE = {
+  id: SESSION_ID,
+  session_name: "Keynote",
+  session_date: "2026-08-27",
+  start_time: "09:00:00",
+  end_time: "10:00:00",
+  hall: "Hall A",
+  status: null,
+}
+const PANEL = { ...KEYNOTE, id: "s-panel", session_name: "Panel", start_time: "09:30:00", end_time: "10:30:00", hall: "Hall B" }
+
+function call(method: "POST" | "DELETE", body: Record<string, unknown> = {}) {
+  return makeRequest("http://localhost/api/my/agenda", { method, body: { token: TOKEN, session_id: SESSION_ID, ...body } })
+}
+
+function writes(table: string, method: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === method).map((c) => c.args)
+}
+
+describe("POST /api/my/agenda", () => {
+  it("bookmarks the session and warns about the bookmarks it clashes with", async () => {
+    mock.queueResponse("registrations", { data: REGISTRATION, error: null })
+    mock.queueResponse("sessions", { data: KEYNOTE, error: null })
+    mock.queueResponse("session_bookmarks", { data: [{ session_id: "s-panel" }], error: null })
+    mock.queueResponse("sessions", { data: [PANEL], error: null })
+    mock.queueResponse("session_bookmarks", { data: null, error: null })
+    mock.queueResponse("session_bookmarks", { data: [{ session_id: "s-panel" }, { session_id: SESSION_ID }], error: null })
+    mock.queueResponse("sessions", { data: [PANEL, KEYNOTE], error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(call("POST"))
+    const json = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(writes("session_bookmarks", "upsert")[0]).toEqual([
+      { event_id: EVENT_ID, session_id: SESSION_ID, registration_id: REG_ID },
+      { onConflict: "session_id,registration_id", ignoreDuplicates: true },
+    ])
+    expect(json.clashes_with).toEqual([{ id: "s-panel", session_name: "Panel", hall: "Hall B" }])
+    expect(json.clashes).toHaveLength(1)
+    expect(json.clashes[0].session_ids).toEqual([SESSION_ID, "s-panel"])
+    expect(json.feed_token).toBe(FEED_TOKEN)
+  })
+
+  it("won't bookmark a cancelled session or one from another event", async () => {
+    mock.queueResponse("registrations", { data: REGISTRATION, error: null })
+    mock.queueResponse("sessions", { data: { ...KEYNOTE, status: "cancelled" }, error: null })
+    mock.queueResponse("registrations", { data: REGISTRATION, error: null })
+    mock.queueResponse("sessions", { data: null, error: null })
+
+    const { POST } = await import("./route")
+    expect((await POST(call("POST"))).status).toBe(404)
+    expect((await POST(call("POST"))).status).toBe(404)
+    expect(writes("session_bookmarks", "upsert")).toEqual([])
+  })
+
+  it("404s without a matching checkin token and refuses unconfirmed registrations", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(call("POST", { token: "short" }))).status).toBe(404)
+
+    mock.queueResponse("registrations", { data: { ...REGISTRATION, status: "pending" }, error: null })
+    expect((await POST(call("POST"))).status).toBe(400)
+  })
+})
+
+describe("DELETE /api/my/agenda", () => {
+  it("removes only this delegate's bookmark", async () => {
+    mock.queueResponse("registrations", { data: REGISTRATION, error: null })
+    mock.queueResponse("session_bookmarks", { data: null, error: null })
+    mock.queueResponse("session_bookmarks", { data: [], error: null })
+
+    const { DELETE } = await import("./route")
+    const res = await DELETE(call("DELETE"))
+
+    expect(res.status).toBe(200)
+    const filters = mock.calls.filter((c) => c.table === "session_bookmarks" && c.method === "eq").map((c) => c.args)
+    expect(filters).toContainEqual(["registration_id", REG_ID])
+    expect(filters).toContainEqual(["session_id", SESSION_ID])
+    expect((await res.json()).sessions).toEqual([])
+  })
+})
+
+describe("GET /api/my/agenda", () => {
+  it("issues a calendar feed token on first load, separate from the checkin token", async () => {
+    mock.queueResponse("registrations", { data: { ...REGISTRATION, agenda_feed_token: null }, error: null })
+    mock.queueResponse("session_bookmarks", { data: [], error: null })
+    mock.queueResponse("registrations", { data: [{ agenda_feed_token: "issued" }], error: null })
+
+    const { GET } = await import("./route")
+    const res = await GET(makeRequest(`http://localhost/api/my/agenda?token=${TOKEN}`))
+    const json = await res.json()
+
+    expect(res.status).toBe(200)
+    const [update] = writes("registrations", "update")
+    expect(json.feed_token).toBe((update[0] as { agenda_feed_token: string }).agenda_feed_token)
+    expect(json.feed_token).toHaveLength(48)
+    expect(json.feed_token).not.toBe(TOKEN)
+    expect(mock.calls).toContainEqual({ table: "registrations", method: "is", args: ["agenda_feed_token", null] })
+  })
+})
@@ -0,0 +1,139 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { clashesWith, findAgendaClashes, type AgendaSession } from "@/lib/personal-agenda"
+import {
+  ensureAgendaFeedToken,
+  findAgendaRegistration,
+  loadPersonalAgenda,
+  type AgendaRegistration,
+} from "@/lib/services/personal-agenda"
+
+const bookmarkSchema = z.object({
+  token: z.string(),
+  session_id: z.string().uuid(),
+})
+
+// `feed_token` goes into the calendar feed URL; the checkin_token never does.
+async function agendaResponse(supabase: any, registration: AgendaRegistration, extra: Record<string, unknown> = {}) {
+  const [sessions, feedToken] = await Promise.all([
+    loadPersonalAgenda(supabase, registration),
+    ensureAgendaFeedToken(supabase, registration),
+  ])
+  return NextResponse.json({
+    event_id: registration.event_id,
+    sessions,
+    clashes: findAgendaClashes(sessions),
+    feed_token: feedToken,
+    ...extra,
+  })
+}
+
+async function confirmedRegistration(supabase: any, token: unknown): Promise<AgendaRegistration | NextResponse> {
+  const registration = await findAgendaRegistration(supabase, token)
+  if (!registration) {
+    return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+  }
+  if (registration.status !== "confirmed") {
+    return NextResponse.json({ error: `Registration is ${registration.status}` }, { status: 400 })
+  }
+  return registration
+}
+
+// GET - Public (delegate portal / public programme) personal agenda: the
+// delegate's bookmarked sessions and which of them clash.
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const supabase = await createAdminClient()
+    const registration = await confirmedRegistration(supabase, request.nextUrl.searchParams.get("token"))
+    if (registration instanceof NextResponse) return registration
+    return await agendaResponse(supabase, registration)
+  } catch {
+    return NextResponse.json({ error: "Failed to load your agenda" }, { status: 500 })
+  }
+})
+
+// POST - Bookmark a session. Body: { token, session_id }. Bookmarking a
+// session that clashes with one already on the agenda is allowed; the
+// response names the clashes so the delegate is warned.
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const parsed = bookmarkSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+    const supabase = (await createAdminClient()) as any
+    const registration = await confirmedRegistration(supabase, parsed.data.token)
+    if (registration instanceof NextResponse) return registration
+
+    const { data: session, error: sessionError } = await supabase
+      .from("sessions")
+      .select("id, session_name, session_date, start_time, end_time, hall, status")
+      .eq("id", parsed.data.session_id)
+      .eq("event_id", registration.event_id)
+      .maybeSingle()
+    if (sessionError) return NextResponse.json({ error: "Failed to bookmark the session" }, { status: 500 })
+    if (!session || session.status === "cancelled") {
+      return NextResponse.json({ error: "Session not found" }, { status: 404 })
+    }
+
+    const before = await loadPersonalAgenda(supabase, registration)
+    const { error: insertError } = await supabase
+      .from("session_bookmarks")
+      .upsert(
+        { event_id: registration.event_id, session_id: session.id, registration_id: registration.id },
+        { onConflict: "session_id,registration_id", ignoreDuplicates: true }
+      )
+    if (insertError) return NextResponse.json({ error: "Failed to bookmark the session" }, { status: 500 })
+
+    const clashing = clashesWith(session as AgendaSession, before)
+    return await agendaResponse(supabase, registration, {
+      clashes_with: clashing.map((s) => ({ id: s.id, session_name: s.session_name, hall: s.hall })),
+    })
+  } catch {
+    return NextResponse.json({ error: "Failed to bookmark the session" }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a bookmark. Body: { token, session_id }.
+export const DELETE = rateLimitedRoute(async function DELETE(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const parsed = bookmarkSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+    }
+    const supabase = (await createAdminClient()) as any
+    const registration = await confirmedRegistration(supabase, parsed.data.token)
+    if (registration instanceof NextResponse) return registration
+
+    const { error: deleteError } = await supabase
+      .from("session_bookmarks")
+      .delete()
+      .eq("registration_id", registration.id)
+      .eq("session_id", parsed.data.session_id)
+    if (deleteError) return NextResponse.json({ error: "Failed to remove the bookmark" }, { status: 500 })
+
+    return await agendaResponse(supabase, registration)
+  } catch {
+    return NextResponse.json({ error: "Failed to remove the bookmark" }, { status: 500 })
+  }
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+const TOKEN = "a".repeat(32)
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/rate-limit", () => ({
+  checkRateLimit: vi.fn(async () => ({ success: true })),
+  getClientIp: () => "127.0.0.1",
+  rateLimitExceededResponse: vi.fn(),
+  rateLimitedRoute: (handler: unknown) => handler,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function registration(overrides: Record<string, unknown> = {}) {
+  return {
+    id: REG_ID,
+    event_id: EVENT_ID,
+    registration_number: "REG-1001",
+    attendee_name: "Dr. Anil Kumr",
+    attendee_designation: null,
+    attendee_institution: "AIIMS",
+    status: "confirmed",
+    ticket_type_id: null,
+    badge_template_id: null,
+    events: { name: "AMASICON 2026" },
+    ...overrides,
+  }
+}
+
+function correct(body: Record<string, unknown>) {
+  return makeRequest("http://localhost/api/my/badge-corrections", {
+    method: "POST",
+    body: { token: TOKEN, ...body },
+  })
+}
+
+describe("POST /api/my/badge-corrections", () => {
+  it("404s without a matching checkin token", async () => {
+    const { POST } = await import("./route")
+    expect((await POST(correct({ token: "short", changes: { attendee_name: "X" } }))).status).toBe(404)
+  })
+
+  it("files a pending request with the values it replaces", async () => {
+    mock.queueResponse("registrations", { data: registration(), error: null })
+    mock.queueResponse("badge_correction_requests", { data: { id: "req-1", status: "pending" }, error: null })
+    const { POST } = await import("./route")
+    const res = await POST(correct({ changes: { attendee_name: "Dr. Anil Kumar" }, note: "Surname typo" }))
+    expect(res.status).toBe(200)
+    const insert = mock.calls.find((c) => c.table === "badge_correction_requests" && c.method === "insert")
+    expect(insert?.args[0]).toEqual({
+      event_id: EVENT_ID,
+      registration_id: REG_ID,
+      requested_changes: { attendee_name: "Dr. Anil Kumar" },
+      previous_values: { attendee_name: "Dr. Anil Kumr" },
+      delegate_note: "Surname typo",
+    })
+    // Nothing on the registration changes until staff approve
+    expect(mock.calls.some((c) => c.table === "registrations" && c.method === "update")).toBe(false)
+  })
+
+  it("409s while an earlier request is still waiting", async () => {
+    mock.queueResponse("registrations", { data: registration(), error: null })
+    mock.queueResponse("badge_correction_requests", { data: null, error: { code: "23505" } })
+    const { POST } = await import("./route")
+    expect((await POST(correct({ changes: { attendee_name: "Dr. Anil Kumar" } }))).status).toBe(409)
+  })
+
+  it("400s when the correction changes nothing", async () => {
+    mock.queueResponse("registrations", { data: registration(), error: null })
+    const { POST } = await import("./route")
+    expect((await POST(correct({ changes: { attendee_institution: "AIIMS" } }))).status).toBe(400)
+  })
+})
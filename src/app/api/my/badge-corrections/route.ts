@@ -0,0 +1,142 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { parseCorrectionRequest } from "@/lib/badge-corrections"
+import { loadBadgePreviewTemplate } from "@/lib/services/badge-corrections"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
+
+const REGISTRATION_SELECT = `
+  id,
+  event_id,
+  registration_number,
+  attendee_name,
+  attendee_email,
+  attendee_phone,
+  attendee_designation,
+  attendee_institution,
+  checkin_token,
+  status,
+  ticket_type_id,
+  badge_template_id,
+  ticket_types (name),
+  registration_addons (addon_id, addons (name)),
+  events (name, start_date, end_date)
+`
+
+// The delegate proves who they are with their checkin_token -- the secret
+// already behind their portal QR and badge download -- not the guessable
+// registration number.
+async function findRegistration(supabase: any, token: unknown) {
+  if (typeof token !== "string" || token.length < 16) return null
+  const { data, error } = await supabase
+    .from("registrations")
+    .select(REGISTRATION_SELECT)
+    .eq("checkin_token", token)
+    .maybeSingle()
+  if (error) throw error
+  return data
+}
+
+async function loadRequests(supabase: any, registrationId: string) {
+  const { data, error } = await supabase
+    .from("badge_correction_requests")
+    .select("id, status, requested_changes, previous_values, delegate_note, review_note, created_at, reviewed_at")
+    .eq("registration_id", registrationId)
+    .order("created_at", { ascending: false })
+    .limit(5)
+  if (error) throw error
+  return data || []
+}
+
+// GET - Public (delegate portal) badge preview: the delegate's details, the
+// event template their badge prints with, and their recent correction
+// requests. `template` is null when the event has no badge template yet.
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const supabase = await createAdminClient()
+    const registration = await findRegistration(supabase, new URL(request.url).searchParams.get("token"))
+    if (!registration) {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+    if (registration.status !== "confirmed") {
+      return NextResponse.json({ error: `Registration is ${registration.status}` }, { status: 400 })
+    }
+
+    const template = await loadBadgePreviewTemplate(supabase, registration)
+    const audiences = template
+      ? await loadBadgeAudiences(supabase, registration.event_id, [registration], template.elements)
+      : new Map()
+    const requests = await loadRequests(supabase, registration.id)
+
+    const { events: event, badge_template_id: _templateId, ...details } = registration
+    return NextResponse.json({
+      registration: { ...details, badge_audience: audiences.get(registration.id) || null },
+      event,
+      template,
+      requests,
+    })
+  } catch {
+    return NextResponse.json({ error: "Failed to load badge preview" }, { status: 500 })
+  }
+})
+
+// POST - Public (delegate portal) correction request. Body: { token,
+// changes: { attendee_name?, attendee_designation?, attendee_institution? },
+// note? }. Staff review it from the delegate portal's Badges page; nothing on
+// the registration changes until they approve.
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}))
+    const supabase = await createAdminClient()
+    const registration = await findRegistration(supabase, body.token)
+    if (!registration) {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+    if (registration.status !== "confirmed") {
+      return NextResponse.json({ error: `Registration is ${registration.status}` }, { status: 400 })
+    }
+
+    const parsed = parseCorrectionRequest(body, registration)
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const { data: created, error } = await (supabase as any)
+      .from("badge_correction_requests")
+      .insert({
+        event_id: registration.event_id,
+        registration_id: registration.id,
+        requested_changes: parsed.changes,
+        previous_values: parsed.previous,
+        delegate_note: parsed.note,
+      })
+      .select("id, status, requested_changes, previous_values, delegate_note, review_note, created_at, reviewed_at")
+      .single()
+
+    if (error?.code === "23505") {
+      return NextResponse.json(
+        { error: "You already have a correction waiting for review. We'll update your badge once it's checked." },
+        { status: 409 }
+      )
+    }
+    if (error) {
+      return NextResponse.json({ error: "Failed to send your correction" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, request: created })
+  } catch {
+    return NextResponse.json({ error: "Failed to send your correction" }, { status: 500 })
+  }
+})
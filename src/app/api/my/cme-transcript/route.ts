@@ -0,0 +1,40 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import { isValidUUID } from "@/lib/validation"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { loadCmeTranscripts } from "@/lib/services/session-attendance"
+
+// GET - Public (delegate portal) CME transcript for one registration: the
+// credited sessions the hall-door kiosks saw the delegate in, with the
+// credits earned for the time spent in each. `transcript` is null when
+// nothing has been credited (yet).
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  const registrationId = new URL(request.url).searchParams.get("registration_id")
+  if (!registrationId || !isValidUUID(registrationId)) {
+    return NextResponse.json({ error: "Invalid registration" }, { status: 400 })
+  }
+
+  try {
+    const supabase = await createAdminClient()
+    const { data: registration, error: fetchError } = await (supabase as any)
+      .from("registrations")
+      .select("id, event_id")
+      .eq("id", registrationId)
+      .maybeSingle()
+
+    if (fetchError || !registration) {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+
+    const transcripts = await loadCmeTranscripts(supabase, registration.event_id, registration.id)
+    return NextResponse.json({ transcript: transcripts.get(registration.id) ?? null })
+  } catch {
+    return NextResponse.json({ error: "Failed to load CME credits" }, { status: 500 })
+  }
+})
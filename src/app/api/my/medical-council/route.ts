@@ -1,7 +1,7 @@
 import { createAdminClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
 import { isValidUUID } from "@/lib/validation"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // Allowed Medical Council (State) values - must match the form field options
 // (form_fields id 388a7c42-4ccd-4bb7-b9e7-8a3edcfc9af9 on the TechnoSurg form)
@@ -18,9 +18,9 @@ const REGNUM_FIELD_ID = "e6f89c4a-0de9-4f1b-a85e-99c099a09b41"
 
 // POST - Public (delegate portal) update of a registration's medical council details.
 // Used to backfill the TNMC-required council field before certificate download.
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "public")
+  const rateLimit = await checkRateLimit(ip, "public")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -73,4 +73,4 @@ export async function POST(request: NextRequest) {
   } catch {
     return NextResponse.json({ error: "Failed to save details" }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient, createTechnosurgAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 type Tenant = "amasi" | "technosurg"
 
@@ -212,9 +212,9 @@ async function fetchTenantData(
 
 // GET /api/my?q=email_or_phone_or_regnum_or_name
 // Searches AMASI + TechnoSurg (when configured) in parallel and merges results.
-export async function GET(request: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "strict")
+  const rateLimit = await checkRateLimit(ip, "strict")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -304,4 +304,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,71 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { getRequiredAppUrl, getWalletConfig } from "@/lib/tenant"
+import { buildPassContent } from "@/lib/wallet/pass-content"
+import {
+  ensureWalletPass,
+  loadPassSource,
+  recordPassContent,
+  renderApplePass,
+} from "@/lib/services/wallet-passes"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/my/wallet-pass/apple?token= - the delegate's badge as a signed
+// Apple Wallet pass. Keyed on the checkin_token like the badge download; the
+// pass carries the same QR, so it scans at the kiosk like the printed badge.
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  const config = getWalletConfig()
+  if (!config.apple) {
+    return NextResponse.json({ error: "Apple Wallet passes are not available" }, { status: 404 })
+  }
+
+  const token = new URL(request.url).searchParams.get("token")
+  if (!token || token.length < 16) {
+    return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+  }
+
+  try {
+    const supabase = await createAdminClient()
+    const source = await loadPassSource(supabase, { checkinToken: token })
+    if (!source) {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+    if (source.status !== "confirmed") {
+      return NextResponse.json({ error: `Registration is ${source.status}` }, { status: 400 })
+    }
+
+    const appUrl = getRequiredAppUrl()
+    const now = new Date()
+    const content = buildPassContent(source, appUrl)
+    let pass = await ensureWalletPass(supabase, { id: source.registration.id, event_id: source.eventId })
+    pass = await recordPassContent(
+      supabase,
+      pass,
+      content,
+      pass.apple_issued_at ? {} : { apple_issued_at: now.toISOString() },
+      now
+    )
+
+    const pkpass = renderApplePass(content, pass, { apple: config.apple, organizationName: config.organizationName }, appUrl, now)
+    const filename = (source.registration.registration_number || "badge").replace(/[^\w.-]/g, "_")
+    return new NextResponse(new Uint8Array(pkpass), {
+      headers: {
+        "Content-Type": "application/vnd.apple.pkpass",
+        "Content-Disposition": `attachment; filename="${filename}.pkpass"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    Sentry.captureException(error, { tags: { route: "my/wallet-pass/apple" } })
+    return NextResponse.json({ error: "Failed to create the wallet pass" }, { status: 500 })
+  }
+})
@@ -0,0 +1,66 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { getRequiredAppUrl, getWalletConfig } from "@/lib/tenant"
+import { buildPassContent } from "@/lib/wallet/pass-content"
+import {
+  ensureWalletPass,
+  googlePassSaveUrl,
+  loadPassSource,
+  recordPassContent,
+} from "@/lib/services/wallet-passes"
+
+export const dynamic = "force-dynamic"
+
+// GET /api/my/wallet-pass/google?token= - redirects to the Save to Google
+// Wallet link for the delegate's badge pass. ?format=json returns the link
+// instead, for the /my portal's button.
+export const GET = rateLimitedRoute(async function GET(request: NextRequest) {
+  const ip = getClientIp(request)
+  const rateLimit = await checkRateLimit(ip, "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  const config = getWalletConfig()
+  if (!config.google) {
+    return NextResponse.json({ error: "Google Wallet passes are not available" }, { status: 404 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const token = searchParams.get("token")
+  if (!token || token.length < 16) {
+    return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+  }
+
+  try {
+    const supabase = await createAdminClient()
+    const source = await loadPassSource(supabase, { checkinToken: token })
+    if (!source) {
+      return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+    }
+    if (source.status !== "confirmed") {
+      return NextResponse.json({ error: `Registration is ${source.status}` }, { status: 400 })
+    }
+
+    const appUrl = getRequiredAppUrl()
+    const content = buildPassContent(source, appUrl)
+    let pass = await ensureWalletPass(supabase, { id: source.registration.id, event_id: source.eventId })
+    pass = await recordPassContent(
+      supabase,
+      pass,
+      content,
+      pass.google_issued_at ? {} : { google_issued_at: new Date().toISOString() }
+    )
+
+    const url = googlePassSaveUrl(content, pass, config, appUrl)!
+    if (searchParams.get("format") === "json") {
+      return NextResponse.json({ url })
+    }
+    return NextResponse.redirect(url, 302)
+  } catch (error) {
+    Sentry.captureException(error, { tags: { route: "my/wallet-pass/google" } })
+    return NextResponse.json({ error: "Failed to create the wallet pass" }, { status: 500 })
+  }
+})
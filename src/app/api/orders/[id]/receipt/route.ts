@@ -496,9 +496,22 @@ export async function GET(
     y -= 15
   }
 
-  // Discount
+  // Discount: one line per rule/code that was applied, when the order
+  // recorded them, so the attendee can see how the price was reached
   const discountAmount = payment.discount_amount || 0
-  if (discountAmount > 0) {
+  const discountBreakdown: { name: string; type: string; amount: number }[] =
+    Array.isArray(metadata.discount_breakdown) ? metadata.discount_breakdown : []
+  if (discountAmount > 0 && discountBreakdown.length > 0) {
+    for (const line of discountBreakdown) {
+      // Standard fonts are WinAnsi-only; drop anything they can't draw
+      const name = String(line.name).replace(/[^\x20-\x7E]/g, "").slice(0, 32)
+      const label = line.type === "code" ? `Code ${name}` : name
+      // Right-aligned against the amounts column, since names can be long
+      page.drawText(label, { x: 470 - helvetica.widthOfTextAtSize(label, 10), y, size: 10, font: helvetica, color: successColor })
+      page.drawText(`-Rs.${Number(line.amount).toLocaleString("en-IN")}`, { x: 480, y, size: 10, font: helvetica, color: successColor })
+      y -= 15
+    }
+  } else if (discountAmount > 0) {
     page.drawText("Discount", { x: 400, y, size: 10, font: helvetica, color: successColor })
     page.drawText(`-Rs.${discountAmount.toLocaleString("en-IN")}`, { x: 480, y, size: 10, font: helvetica, color: successColor })
     y -= 15
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+import { loadRefundContext, processRefundRequest } from "@/lib/services/refunds"
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const PAYMENT_ID = "22222222-2222-4222-8222-222222222222"
+const REFUND_ID = "33333333-3333-4333-8333-333333333333"
+const REG_ID = "44444444-4444-4444-4444-444444444444"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/auth/api-auth", () => ({
+  requireEventAndPermission: vi.fn(async () => ({ user: { id: "approver-1", name: "Accounts" }, error: null })),
+}))
+
+vi.mock("@/lib/activity-logger", () => ({
+  logActivityFromRequest: vi.fn(),
+}))
+
+vi.mock("@/lib/services/refunds", () => ({
+  loadRefundContext: vi.fn(),
+  processRefundRequest: vi.fn(async () => ({ ok: true, status: "processed", credit_note_number: "CN-1" })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  vi.mocked(processRefundRequest).mockClear()
+})
+
+function refundRequest(amount: number) {
+  return {
+    id: REFUND_ID,
+    status: "requested",
+    requested_by: "requester-1",
+    amount,
+    refund_request_items: [{ item_type: "ticket", registration_id: REG_ID, registration_addon_id: null, amount }],
+  }
+}
+
+// A ₹1000 ticket that an earlier processed refund already returned `refunded` of.
+function context(amount: number, refunded: number) {
+  return {
+    payment: { id: PAYMENT_ID, event_id: EVENT_ID, payment_number: "PAY-1" },
+    event: { name: "Congress" },
+    registrations: [],
+    requests: [refundRequest(amount)],
+    lines: [{ item_type: "ticket", registration_id: REG_ID, registration_addon_id: null, description: "Delegate", paid: 1000, refunded }],
+    refundedTotal: refunded,
+    balance: 2000 - refunded,
+  } as any
+}
+
+function decide(action: "approve" | "reject") {
+  return makeRequest(`http://localhost/api/payments/${PAYMENT_ID}/refunds/${REFUND_ID}`, {
+    method: "PATCH",
+    body: { action },
+  })
+}
+
+const params = { params: Promise.resolve({ id: PAYMENT_ID, refundId: REFUND_ID }) }
+
+describe("PATCH /api/payments/[id]/refunds/[refundId]", () => {
+  it("claims the request and processes it when the line still has room", async () => {
+    vi.mocked(loadRefundContext).mockResolvedValue(context(600, 0))
+    mock.queueResponse("refund_requests", { data: [{ id: REFUND_ID }], error: null })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(decide("approve"), params)
+
+    expect(res.status).toBe(200)
+    const filters = mock.calls.filter((c) => c.table === "refund_requests" && c.method === "in").map((c) => c.args)
+    expect(filters).toEqual([["status", ["requested", "failed"]]])
+    expect(processRefundRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it("refuses a request whose line was already refunded by another processed request", async () => {
+    // The payment as a whole has ₹1400 left, but this ticket only ₹400.
+    vi.mocked(loadRefundContext).mockResolvedValue(context(600, 600))
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(decide("approve"), params)
+
+    expect(res.status).toBe(409)
+    expect((await res.json()).error).toContain("has only ₹400 left to refund")
+    expect(mock.calls.filter((c) => c.method === "update")).toEqual([])
+    expect(processRefundRequest).not.toHaveBeenCalled()
+  })
+
+  it("409s without calling the gateway when another approver claimed the request first", async () => {
+    vi.mocked(loadRefundContext).mockResolvedValue(context(600, 0))
+    mock.queueResponse("refund_requests", { data: [], error: null })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(decide("approve"), params)
+
+    expect(res.status).toBe(409)
+    expect(processRefundRequest).not.toHaveBeenCalled()
+  })
+
+  it("409s when another refund on the same payment is being processed", async () => {
+    vi.mocked(loadRefundContext).mockResolvedValue(context(600, 0))
+    mock.queueResponse("refund_requests", {
+      data: null,
+      error: { code: "23505", message: 'duplicate key value violates unique constraint "refund_requests_one_approved_per_payment"' },
+    })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(decide("approve"), params)
+
+    expect(res.status).toBe(409)
+    expect((await res.json()).error).toContain("Another refund on this order")
+    expect(processRefundRequest).not.toHaveBeenCalled()
+  })
+
+  it("releases the claim when a refund processed meanwhile leaves no room for this one", async () => {
+    vi.mocked(loadRefundContext)
+      .mockResolvedValueOnce(context(600, 0))
+      .mockResolvedValueOnce(context(600, 600))
+    mock.queueResponse("refund_requests", { data: [{ id: REFUND_ID }], error: null })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(decide("approve"), params)
+
+    expect(res.status).toBe(409)
+    const updates = mock.calls.filter((c) => c.table === "refund_requests" && c.method === "update").map((c) => c.args[0])
+    expect(updates).toHaveLength(2)
+    expect(updates[1]).toMatchObject({ status: "requested", decided_by: null })
+    expect(processRefundRequest).not.toHaveBeenCalled()
+  })
+
+  it("processes against the history read after the claim", async () => {
+    const fresh = context(600, 0)
+    vi.mocked(loadRefundContext).mockResolvedValueOnce(context(600, 0)).mockResolvedValueOnce(fresh)
+    mock.queueResponse("refund_requests", { data: [{ id: REFUND_ID }], error: null })
+
+    const { PATCH } = await import("./route")
+    await PATCH(decide("approve"), params)
+
+    expect(vi.mocked(processRefundRequest).mock.calls[0][2]).toBe(fresh)
+  })
+})
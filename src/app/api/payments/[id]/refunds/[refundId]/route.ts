@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { logActivityFromRequest } from "@/lib/activity-logger"
+import { loadRefundContext, processRefundRequest, type RefundContext } from "@/lib/services/refunds"
+import { canDecideRefund, validateRefundItems } from "@/lib/refunds"
+
+// PATCH /api/payments/[id]/refunds/[refundId] - approve or reject a refund
+// request. Approval calls the gateway immediately; a gateway failure leaves the
+// request 'failed', and approving it again retries.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; refundId: string }> }
+) {
+  try {
+    const { id, refundId } = await params
+    if (!isValidUUID(id) || !isValidUUID(refundId)) {
+      return NextResponse.json({ error: "Invalid refund." }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const action = body.action
+    const note = typeof body.note === "string" ? body.note.trim() : ""
+    if (action !== "approve" && action !== "reject") {
+      return NextResponse.json({ error: "action must be 'approve' or 'reject'." }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    const db = supabase as any
+    const context = await loadRefundContext(db, id)
+    if (!context) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 })
+    }
+
+    const { user, error: authError } = await requireEventAndPermission(context.payment.event_id, "registrations")
+    if (authError) return authError
+
+    const refund = context.requests.find((r) => r.id === refundId)
+    if (!refund) {
+      return NextResponse.json({ error: "Refund request not found" }, { status: 404 })
+    }
+
+    const decision = canDecideRefund(refund, user!.id)
+    if (!decision.ok) {
+      return NextResponse.json({ error: decision.error }, { status: 403 })
+    }
+
+    const decidedFields = {
+      decided_by: user!.id,
+      decided_by_name: user!.name || user!.email,
+      decided_at: new Date().toISOString(),
+      decision_note: note || null,
+    }
+
+    if (action === "reject") {
+      const { data: rejected } = await db
+        .from("refund_requests")
+        .update({ ...decidedFields, status: "rejected" })
+        .eq("id", refundId)
+        .in("status", ["requested", "failed"])
+        .select("id")
+      if (!rejected?.length) {
+        return NextResponse.json({ error: "This refund was decided by someone else. Refresh and try again." }, { status: 409 })
+      }
+
+      logActivityFromRequest(request, {
+        action: "refund",
+        entityType: "payment",
+        entityId: id,
+        eventId: context.payment.event_id,
+        eventName: context.event?.name,
+        description: `Rejected refund of ₹${refund.amount} on ${context.payment.payment_number}`,
+        metadata: { refund_request_id: refundId, decision: "rejected", note },
+      })
+
+      return NextResponse.json({ success: true, status: "rejected" })
+    }
+
+    // Re-check every line at approval time: two requests raised against the
+    // same ticket or add-on (or the same payment) can each fit on their own
+    // and overshoot together once the first one is processed.
+    const recheck = recheckRefund(refund, context)
+    if (recheck) return recheck
+
+    // Claim the request before touching the gateway, so two approvers racing
+    // on the same request can't both trigger a refund. Only one request per
+    // payment can be 'approved' at a time (a unique index), so two different
+    // requests on the payment are processed one after the other.
+    const { data: claimed, error: claimError } = await db
+      .from("refund_requests")
+      .update({ ...decidedFields, status: "approved" })
+      .eq("id", refundId)
+      .in("status", ["requested", "failed"])
+      .select("id")
+    if (claimError?.code === "23505") {
+      return NextResponse.json({ error: "Another refund on this order is being processed. Try again in a moment." }, { status: 409 })
+    }
+    if (claimError) throw claimError
+    if (!claimed?.length) {
+      return NextResponse.json({ error: "This refund was decided by someone else. Refresh and try again." }, { status: 409 })
+    }
+
+    // The history may have moved between the first read and the claim; the
+    // balance check, credit note number and refunded total use this one.
+    const current = await loadRefundContext(db, id)
+    const conflict = current ? recheckRefund(refund, current) : null
+    if (!current || conflict) {
+      await db
+        .from("refund_requests")
+        .update({
+          status: refund.status,
+          decided_by: refund.decided_by ?? null,
+          decided_by_name: refund.decided_by_name ?? null,
+          decided_at: refund.decided_at ?? null,
+          decision_note: refund.decision_note ?? null,
+        })
+        .eq("id", refundId)
+        .eq("status", "approved")
+      return conflict ?? NextResponse.json({ error: "Payment not found" }, { status: 404 })
+    }
+
+    const result = await processRefundRequest(db, refund, current)
+
+    logActivityFromRequest(request, {
+      action: "refund",
+      entityType: "payment",
+      entityId: id,
+      eventId: context.payment.event_id,
+      eventName: context.event?.name,
+      description: result.ok
+        ? `Approved and processed refund of ₹${refund.amount} on ${context.payment.payment_number} (${result.credit_note_number})`
+        : result.status === "needs_attention"
+          ? `Approved refund of ₹${refund.amount} on ${context.payment.payment_number}; it was paid out but needs attention: ${result.error}`
+          : `Approved refund of ₹${refund.amount} on ${context.payment.payment_number} but the gateway refund failed: ${result.error}`,
+      metadata: { refund_request_id: refundId, decision: "approved", status: result.status },
+    })
+
+    if (result.status === "needs_attention") {
+      return NextResponse.json({
+        error: "Refund paid out but not recorded",
+        message: result.error,
+        status: result.status,
+      }, { status: 500 })
+    }
+
+    if (!result.ok) {
+      return NextResponse.json({
+        error: "Refund failed",
+        message: result.error,
+        status: result.status,
+      }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      credit_note_number: result.credit_note_number,
+    })
+  } catch (error: any) {
+    console.error("Error deciding refund request:", error)
+    return NextResponse.json({ error: "Failed to update refund request" }, { status: 500 })
+  }
+}
+
+// 409 when the request's lines no longer fit what is left on the order.
+function recheckRefund(refund: any, context: RefundContext): NextResponse | null {
+  const recheck = validateRefundItems(
+    (refund.refund_request_items || []).map((item: any) => ({
+      item_type: item.item_type,
+      registration_id: item.registration_id,
+      registration_addon_id: item.registration_addon_id,
+      amount: Number(item.amount),
+    })),
+    context.lines,
+    context.balance
+  )
+  if (recheck.ok) return null
+  return NextResponse.json({
+    error: `${recheck.error} Reject this request and raise a smaller one.`,
+  }, { status: 409 })
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { isValidUUID } from "@/lib/validation"
+import { logActivityFromRequest } from "@/lib/activity-logger"
+import { loadRefundContext } from "@/lib/services/refunds"
+import {
+  isRefundReasonCode,
+  splitRefundGst,
+  validateRefundItems,
+  REFUND_REASON_CODES,
+  RefundItemInput,
+} from "@/lib/refunds"
+
+// GET /api/payments/[id]/refunds - refund history and refundable lines for one payment
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  if (!isValidUUID(id)) {
+    return NextResponse.json({ error: "Invalid payment." }, { status: 400 })
+  }
+
+  const supabase = await createAdminClient()
+  const context = await loadRefundContext(supabase as any, id)
+  if (!context) {
+    return NextResponse.json({ error: "Payment not found" }, { status: 404 })
+  }
+
+  const { user, error: authError } = await requireEventAndPermission(context.payment.event_id, "registrations")
+  if (authError) return authError
+
+  return NextResponse.json({
+    payment_id: id,
+    net_amount: Number(context.payment.net_amount || context.payment.amount || 0),
+    refunded_total: context.refundedTotal,
+    balance: context.balance,
+    lines: context.lines,
+    reason_codes: REFUND_REASON_CODES,
+    refunds: context.requests,
+    current_user_id: user?.id,
+  })
+}
+
+// POST /api/payments/[id]/refunds - raise a refund request. Nothing is paid
+// out here: a second person approves it via PATCH .../refunds/[refundId].
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!isValidUUID(id)) {
+      return NextResponse.json({ error: "Invalid payment." }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reasonCode = body.reason_code
+    const reasonNote = typeof body.reason_note === "string" ? body.reason_note.trim() : ""
+    const requestedItems: RefundItemInput[] = Array.isArray(body.items) ? body.items : []
+
+    if (!isRefundReasonCode(reasonCode)) {
+      return NextResponse.json({ error: "Choose a refund reason." }, { status: 400 })
+    }
+    if (reasonCode === "other" && !reasonNote) {
+      return NextResponse.json({ error: "Describe the reason when choosing 'Other'." }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    const db = supabase as any
+    const context = await loadRefundContext(db, id)
+    if (!context) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 })
+    }
+
+    const { user, error: authError } = await requireEventAndPermission(context.payment.event_id, "registrations")
+    if (authError) return authError
+
+    if (!["completed", "partially_refunded", "refund_pending"].includes(context.payment.status)) {
+      return NextResponse.json({ error: `A ${context.payment.status} payment cannot be refunded.` }, { status: 400 })
+    }
+
+    const validation = validateRefundItems(requestedItems, context.lines, context.balance)
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 })
+    }
+
+    // GST follows the first ticket's inclusive rate when the payment itself
+    // carried no separate tax line -- the same fallback the order receipt uses.
+    const inclusiveRate = context.registrations.find((r) => r.ticket_types?.gst_inclusive_rate)?.ticket_types?.gst_inclusive_rate
+    const { gst } = splitRefundGst(validation.total, context.payment, inclusiveRate)
+
+    const { data: refund, error: insertError } = await db
+      .from("refund_requests")
+      .insert({
+        event_id: context.payment.event_id,
+        payment_id: id,
+        reason_code: reasonCode,
+        reason_note: reasonNote || null,
+        amount: validation.total,
+        tax_amount: gst,
+        status: "requested",
+        requested_by: user!.id,
+        requested_by_name: user!.name || user!.email,
+      })
+      .select()
+      .single()
+
+    if (insertError || !refund) {
+      console.error("[Refunds] Failed to create refund request:", insertError)
+      return NextResponse.json({ error: "Failed to create refund request" }, { status: 500 })
+    }
+
+    const { error: itemsError } = await db
+      .from("refund_request_items")
+      .insert(validation.items.map((item) => ({ ...item, refund_request_id: refund.id })))
+
+    if (itemsError) {
+      console.error("[Refunds] Failed to save refund items:", itemsError)
+      await db.from("refund_requests").delete().eq("id", refund.id)
+      return NextResponse.json({ error: "Failed to create refund request" }, { status: 500 })
+    }
+
+    logActivityFromRequest(request, {
+      action: "refund",
+      entityType: "payment",
+      entityId: id,
+      eventId: context.payment.event_id,
+      eventName: context.event?.name,
+      description: `Requested refund of ₹${validation.total} on ${context.payment.payment_number} (${REFUND_REASON_CODES[reasonCode]})`,
+      metadata: {
+        refund_request_id: refund.id,
+        reason_code: reasonCode,
+        amount: validation.total,
+        items: validation.items.length,
+      },
+    })
+
+    return NextResponse.json({ success: true, refund })
+  } catch (error: any) {
+    console.error("Error creating refund request:", error)
+    return NextResponse.json({ error: "Failed to create refund request" }, { status: 500 })
+  }
+}
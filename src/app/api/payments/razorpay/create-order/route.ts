@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server"
-import { createOrder, generatePaymentNumber, RazorpayCredentials } from "@/lib/services/razorpay"
+import { generatePaymentNumber } from "@/lib/services/razorpay"
+import {
+  GATEWAY_EVENT_COLUMNS,
+  getGatewayForEvent,
+  razorpayCredentials,
+  type GatewayEventConfig,
+} from "@/lib/services/payment-gateway-registry"
 import { createAdminClient } from "@/lib/supabase/server"
+import { priceOrder, recordDiscountCodeUse, type OrderPricing } from "@/lib/services/discount-pricing"
+import { countHeldSeats } from "@/lib/services/waitlist-offers"
+import type { CartLine } from "@/lib/discount-rules"
 import crypto from "crypto"
 
 // Generate idempotency key from payment details
@@ -53,6 +62,9 @@ export async function POST(request: NextRequest) {
     // SECURITY: Calculate amount server-side - never trust client amount
     let calculatedAmount = 0
     const ticketDetails: any[] = []
+    const addonLines: CartLine[] = []
+    let pricing: OrderPricing | null = null
+    let discountAmount = 0
     let taxPercentage = 18 // Default GST rate
 
     // SECURITY: Resolve currency server-side too - a client-supplied "INR" for a
@@ -93,6 +105,9 @@ export async function POST(request: NextRequest) {
         )
       }
 
+      // Seats held for waitlist offers aren't on sale, except to their holder
+      const heldSeats = await countHeldSeats(supabase, ticketIds, trimmedEmail)
+
       // Calculate total from server-side data
       let subtotal = 0
       let totalTax = 0
@@ -118,7 +133,8 @@ export async function POST(request: NextRequest) {
         }
 
         // Check availability
-        if (ticket.quantity_total && ticket.quantity_sold + quantity > ticket.quantity_total) {
+        const held = heldSeats.get(ticket.id) || 0
+        if (ticket.quantity_total && ticket.quantity_sold + held + quantity > ticket.quantity_total) {
           return NextResponse.json(
             { error: `Not enough "${ticket.name}" tickets available` },
             { status: 400 }
@@ -184,6 +200,13 @@ export async function POST(request: NextRequest) {
               const addonPrice = unitPrice * (addonSelection.quantity || 1)
               addonsSubtotal += addonPrice
               applyCurrency(addon.currency)
+              addonLines.push({
+                kind: "addon",
+                id: addon.id,
+                name: addon.name,
+                unit_price: unitPrice,
+                quantity: addonSelection.quantity || 1,
+              })
             }
           }
           // Apply same tax rate to addons
@@ -194,43 +217,29 @@ export async function POST(request: NextRequest) {
       subtotal += addonsSubtotal
       totalTax += addonsTax
 
-      // Apply discount if provided (simplified - full validation in registration)
-      let discountAmount = 0
-      if (discount_code && event_id) {
-        const { data: discountData } = await supabase
-          .from("discount_codes")
-          .select("*")
-          .eq("event_id", event_id)
-          .eq("code", discount_code.toUpperCase())
-          .eq("is_active", true)
-          .single()
-
-        if (discountData) {
-          const now = new Date()
-          const validFrom = discountData.valid_from ? new Date(discountData.valid_from) : null
-          const validUntil = discountData.valid_until ? new Date(discountData.valid_until) : null
-          const isValidPeriod = (!validFrom || now >= validFrom) && (!validUntil || now <= validUntil)
-          const hasUsesLeft = !discountData.max_uses || discountData.current_uses < discountData.max_uses
-
-          if (isValidPeriod && hasUsesLeft) {
-            if (discountData.discount_type === "percentage") {
-              discountAmount = (subtotal * discountData.discount_value) / 100
-            } else {
-              discountAmount = discountData.discount_value
-            }
-            if (discountData.max_discount_amount && discountAmount > discountData.max_discount_amount) {
-              discountAmount = discountData.max_discount_amount
-            }
+      // Apply automatic discount rules and the discount code, if any
+      if (event_id) {
+        const cart: CartLine[] = [
+          ...ticketDetails.map((t) => ({
+            kind: "ticket" as const,
+            id: t.ticket_type_id,
+            name: t.name,
+            unit_price: t.price,
+            quantity: t.quantity,
+          })),
+          ...addonLines,
+        ]
+        pricing = await priceOrder(supabase, {
+          eventId: event_id,
+          cart,
+          code: discount_code,
+          email: trimmedEmail,
+          phone: payer_phone,
+        })
+        discountAmount = pricing.discount_total
 
-            // Increment current_uses to reserve the discount code immediately
-            if (discountAmount > 0) {
-              await supabase
-                .from("discount_codes")
-                .update({ current_uses: (discountData.current_uses || 0) + 1 })
-                .eq("id", discountData.id)
-            }
-          }
-        }
+        // Reserve the discount code immediately
+        await recordDiscountCodeUse(supabase, pricing)
       }
 
       calculatedAmount = subtotal + totalTax - discountAmount
@@ -327,26 +336,26 @@ export async function POST(request: NextRequest) {
       const existingPayment = existingPayments[0]
       console.log(`[DUPLICATE PREVENTION] Returning existing order for ${payer_email}: ${existingPayment.razorpay_order_id}`)
 
-      // Return existing order instead of creating duplicate
-      // Fetch the Razorpay key for this event
-      let razorpayKeyId = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID
+      // Return existing order instead of creating duplicate, with the
+      // checkout key of the gateway this event uses
+      let existingEvent: GatewayEventConfig | null = null
       if (event_id) {
         const { data: eventData } = await supabase
           .from("events")
-          .select("razorpay_key_id")
+          .select(GATEWAY_EVENT_COLUMNS)
           .eq("id", event_id)
           .single()
-        if (eventData?.razorpay_key_id) {
-          razorpayKeyId = eventData.razorpay_key_id
-        }
+        existingEvent = eventData || null
       }
+      const existingGateway = getGatewayForEvent(existingEvent)
 
       return NextResponse.json({
         success: true,
         order_id: existingPayment.razorpay_order_id,
-        amount: existingPayment.amount * 100, // Razorpay expects paise
+        amount: existingPayment.amount * 100, // Gateways take the smallest currency unit
         currency: existingPayment.currency,
-        key: razorpayKeyId,
+        key: existingGateway.publicKey,
+        gateway: existingGateway.name,
         payment_id: existingPayment.id,
         payment_number: existingPayment.payment_number,
         is_duplicate: true, // Flag for client awareness
@@ -354,18 +363,17 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Fetch event-specific Razorpay credentials if event_id is provided
-    let credentials: RazorpayCredentials | undefined
-    let razorpayKeyId: string | undefined
+    // Resolve the event's payment gateway (and its credentials) from the registry
+    let eventData: (GatewayEventConfig & { registration_open?: boolean | null }) | null = null
 
     if (event_id) {
       const { data: event } = await supabase
         .from("events")
-        .select("razorpay_key_id, razorpay_key_secret, registration_open")
+        .select(`${GATEWAY_EVENT_COLUMNS}, registration_open`)
         .eq("id", event_id)
         .single()
 
-      const eventData = event as any
+      eventData = event || null
 
       // Check if registration is open (skip for addon purchases - they're already registered)
       if (eventData?.registration_open === false && !isAddonPurchase) {
@@ -374,27 +382,16 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         )
       }
-
-      if (eventData?.razorpay_key_id && eventData?.razorpay_key_secret) {
-        credentials = {
-          key_id: eventData.razorpay_key_id,
-          key_secret: eventData.razorpay_key_secret,
-        }
-        razorpayKeyId = eventData.razorpay_key_id
-      }
     }
 
-    // Use default key if event doesn't have specific credentials
-    if (!razorpayKeyId) {
-      razorpayKeyId = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID
-    }
+    const gateway = getGatewayForEvent(eventData)
 
     // Generate payment number
     const paymentNumber = generatePaymentNumber()
 
-    // Create Razorpay order with event-specific credentials
-    const order = await createOrder({
-      amount,
+    // Create the gateway order (amount in paise)
+    const order = await gateway.createOrder({
+      amount: Math.round(amount * 100),
       currency,
       receipt: paymentNumber,
       notes: {
@@ -402,7 +399,6 @@ export async function POST(request: NextRequest) {
         event_id: event_id || "",
         payer_email: trimmedEmail,
       },
-      credentials,
     })
 
     // Store pending payment in database
@@ -411,24 +407,27 @@ export async function POST(request: NextRequest) {
       .insert({
         payment_number: paymentNumber,
         payment_type: payment_type || "registration",
-        payment_method: "razorpay",
+        payment_method: gateway.name,
         payer_name: payer_name.trim(),
         payer_email: trimmedEmail,
         payer_phone,
         amount,
         currency,
         tax_amount: registration_data?.tax_amount || 0,
-        discount_amount: registration_data?.discount_amount || 0,
+        discount_amount: discountAmount,
         net_amount: amount,
-        razorpay_order_id: order.id,
+        razorpay_order_id: order.gatewayOrderId,
         status: "pending",
         event_id: event_id || null,
         metadata: {
           registration_data,
-          razorpay_order: order,
-          uses_event_credentials: !!credentials,
+          gateway: gateway.name,
+          razorpay_order: order.raw,
+          uses_event_credentials: !!razorpayCredentials(eventData),
           // Store discount code used (for tracking/reversal on failure)
           discount_code: discount_code ? discount_code.toUpperCase() : null,
+          // Every rule/code that made up discount_amount, for receipts and reports
+          discount_breakdown: pricing?.applied.length ? pricing.applied : null,
           // Store server-validated ticket details for verification
           validated_tickets: ticketDetails.length > 0 ? ticketDetails : null,
           validated_amount: amount,
@@ -456,10 +455,11 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      order_id: order.id,
+      order_id: order.gatewayOrderId,
       amount: order.amount,
       currency: order.currency,
-      key: razorpayKeyId,
+      key: gateway.publicKey,
+      gateway: gateway.name,
       payment_id: payment?.id,
       payment_number: paymentNumber,
     })
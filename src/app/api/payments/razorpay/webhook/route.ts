@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
-import { verifyWebhookSignature } from "@/lib/services/razorpay"
+import { GATEWAY_EVENT_COLUMNS, getGateway } from "@/lib/services/payment-gateway-registry"
+import type { PaymentGatewayService } from "@/lib/services/payment-gateway"
 import { createAdminClient } from "@/lib/supabase/server"
 import { internalSecretHeaders } from "@/lib/env"
 import { getNextRegistrationNumber } from "@/lib/services/registration-number"
@@ -44,9 +45,14 @@ interface WebhookPayload {
 }
 
 /**
- * Get event-specific webhook secret or fall back to default
+ * Razorpay gateway configured for the event an order belongs to, so the
+ * event's own webhook secret is used. This endpoint only ever receives
+ * Razorpay payloads, so it asks the registry for Razorpay by name rather than
+ * the event's current gateway choice. Unknown orders get the default account.
  */
-async function getWebhookSecret(supabase: any, orderId: string): Promise<string | null> {
+async function getGatewayForOrder(supabase: any, orderId: string | null): Promise<PaymentGatewayService> {
+  if (!orderId) return getGateway("razorpay", null)
+
   const { data: payment } = await supabase
     .from("payments")
     .select("event_id")
@@ -57,17 +63,13 @@ async function getWebhookSecret(supabase: any, orderId: string): Promise<string
   if (paymentData?.event_id) {
     const { data: event } = await supabase
       .from("events")
-      .select("razorpay_webhook_secret")
+      .select(GATEWAY_EVENT_COLUMNS)
       .eq("id", paymentData.event_id)
       .single()
-
-    const eventData = event as any
-    if (eventData?.razorpay_webhook_secret) {
-      return eventData.razorpay_webhook_secret
-    }
+    return getGateway("razorpay", event || null)
   }
 
-  return process.env.RAZORPAY_WEBHOOK_SECRET?.trim() || null
+  return getGateway("razorpay", null)
 }
 
 /**
@@ -106,21 +108,12 @@ export async function POST(request: NextRequest) {
         ? await getOrderIdFromPaymentId(supabase, payload.payload.refund.entity.payment_id)
         : null)
 
-    // Get the appropriate webhook secret
-    const webhookSecret = orderId ? await getWebhookSecret(supabase, orderId) : process.env.RAZORPAY_WEBHOOK_SECRET?.trim()
-
-    if (!webhookSecret) {
-      console.error("[WEBHOOK] No webhook secret configured")
-      return NextResponse.json({ error: "Webhook secret not configured" }, { status: 500 })
-    }
-
-    // Verify webhook signature
-    const isValid = verifyWebhookSignature(rawBody, signature, webhookSecret)
+    // Verify webhook signature with the event's webhook secret
+    const gateway = await getGatewayForOrder(supabase, orderId)
+    const isValid = gateway.verifyWebhook({ rawBody, signature })
     if (!isValid) {
       // Try with default secret as fallback
-      const defaultValid = process.env.RAZORPAY_WEBHOOK_SECRET?.trim()
-        ? verifyWebhookSignature(rawBody, signature, process.env.RAZORPAY_WEBHOOK_SECRET?.trim())
-        : false
+      const defaultValid = getGateway("razorpay", null).verifyWebhook({ rawBody, signature })
 
       if (!defaultValid) {
         console.error("[WEBHOOK] Invalid signature")
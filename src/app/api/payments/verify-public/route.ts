@@ -1,14 +1,14 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { fetchPayment, getRazorpayForEvent, RazorpayCredentials } from "@/lib/services/razorpay"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // POST /api/payments/verify-public - Public payment verification for delegates
 // Security: requires matching email + payment belongs to that email
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Rate limit: strict for payment verification (5 per minute)
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "strict")
+  const rateLimit = await checkRateLimit(ip, "strict")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -230,4 +230,4 @@ export async function POST(request: NextRequest) {
     console.error("Error in public payment verification:", error)
     return NextResponse.json({ error: "Verification failed. Please try again." }, { status: 500 })
   }
-}
+})
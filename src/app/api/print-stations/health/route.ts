@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAccess } from "@/lib/auth/api-auth"
+import { summarizeQueue } from "@/lib/print-queue"
+
+// GET /api/print-stations/health?event_id=xxx - Printer health and queue
+// depth per station, as last reported by each station's print agent
+export async function GET(request: NextRequest) {
+  try {
+    const eventId = new URL(request.url).searchParams.get("event_id")
+    if (!eventId) {
+      return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+    }
+
+    const { error: authError } = await requireEventAccess(eventId)
+    if (authError) return authError
+
+    const db = (await createAdminClient()) as any
+
+    const { data: stations, error } = await db
+      .from("print_stations")
+      .select("id, name, zone, is_active, agent_id, agent_last_seen_at, printer_state, printer_message, printer_state_at")
+      .eq("event_id", eventId)
+      .order("name")
+
+    if (error) {
+      return NextResponse.json({ error: "Failed to load printer health" }, { status: 500 })
+    }
+
+    const stationIds = (stations || []).map((s: any) => s.id)
+    let openJobs: any[] = []
+    let failedJobs: any[] = []
+    if (stationIds.length > 0) {
+      const { data: open } = await db
+        .from("print_jobs")
+        .select("id, status, print_station_id, claimed_by_station_id")
+        .in("print_station_id", stationIds)
+        .in("status", ["queued", "claimed", "printing"])
+      openJobs = open || []
+
+      const { data: failed } = await db
+        .from("print_jobs")
+        .select("id, print_station_id, claimed_by_station_id, attempts, error_message, created_at, registration_data")
+        .in("print_station_id", stationIds)
+        .eq("status", "failed")
+        .order("created_at", { ascending: false })
+        .limit(20)
+      failedJobs = failed || []
+    }
+
+    // Queued jobs count against the station they were sent to; claimed and
+    // printing ones against the station whose agent holds them
+    const result = (stations || []).map((station: any) => ({
+      ...station,
+      queue: summarizeQueue([
+        ...openJobs.filter((j) =>
+          j.status === "queued" ? j.print_station_id === station.id : j.claimed_by_station_id === station.id
+        ),
+        ...failedJobs.filter((j) => (j.claimed_by_station_id || j.print_station_id) === station.id),
+      ]),
+    }))
+
+    return NextResponse.json({
+      stations: result,
+      failed_jobs: failedJobs.map((j) => ({
+        id: j.id,
+        station_id: j.claimed_by_station_id || j.print_station_id,
+        attempts: j.attempts,
+        error_message: j.error_message,
+        created_at: j.created_at,
+        attendee_name: j.registration_data?.attendee_name || null,
+        registration_number: j.registration_data?.registration_number || null,
+      })),
+    })
+  } catch (error) {
+    console.error("Error in GET /api/print-stations/health:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
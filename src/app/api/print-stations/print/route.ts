@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
+import { REPRINT_REASONS, reprintReasonError } from "@/lib/print-queue"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
 
 // POST /api/print-stations/print - Create a print job (scan to print)
 export async function POST(request: NextRequest) {
@@ -12,7 +14,9 @@ export async function POST(request: NextRequest) {
       search_query,
       event_id,
       token,
-      device_info
+      device_info,
+      reprint_reason,
+      reprint_note
     } = body
 
     const supabase = await createAdminClient()
@@ -63,7 +67,8 @@ export async function POST(request: NextRequest) {
         ticket_type_id,
         status,
         participation_mode,
-        ticket_types (id, name)
+        ticket_types (id, name),
+        registration_addons (addon_id, addons (name))
       `)
       .eq("event_id", station.event_id)
 
@@ -179,6 +184,31 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    // Every reprint is accounted for. The first attempt comes back asking
+    // for a reason so the station can prompt for one and resend.
+    if (printNumber > 1) {
+      const reasonError = reprintReasonError(reprint_reason, reprint_note)
+      if (reasonError) {
+        return NextResponse.json({
+          error: reasonError,
+          reprint_reason_required: true,
+          reasons: REPRINT_REASONS,
+          registration,
+          print_number: printNumber,
+          last_printed_at: lastPrint?.printed_at
+        }, { status: 409 })
+      }
+    }
+
+    // Conditional elements need roles and membership, which the device can't look up
+    const audiences = await loadBadgeAudiences(
+      supabase,
+      station.event_id,
+      [registration],
+      station.badge_templates?.template_data?.elements || []
+    )
+    const badgeAudience = audiences.get(registration.id) || null
+
     // Determine if this should be queued (for local print agent) or marked completed
     const queueMode = body.queue === true
 
@@ -189,6 +219,8 @@ export async function POST(request: NextRequest) {
       print_number: printNumber,
       status: queueMode ? "queued" : "completed",
       device_info: device_info || {},
+      reprint_reason: printNumber > 1 ? reprint_reason : null,
+      reprint_note: printNumber > 1 && typeof reprint_note === "string" ? reprint_note.trim() || null : null,
       registration_data: {
         id: registration.id,
         registration_number: registration.registration_number,
@@ -198,6 +230,7 @@ export async function POST(request: NextRequest) {
         attendee_institution: registration.attendee_institution,
         attendee_designation: registration.attendee_designation,
         ticket_type: registration.ticket_types?.name || "",
+        badge_audience: badgeAudience,
       },
     }
 
@@ -234,7 +267,8 @@ export async function POST(request: NextRequest) {
       queued: queueMode,
       registration: {
         ...registration,
-        ticket_type: registration.ticket_types?.name
+        ticket_type: registration.ticket_types?.name,
+        badge_audience: badgeAudience
       },
       station: {
         id: station.id,
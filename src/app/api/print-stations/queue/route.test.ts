@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const TOKEN = "station-token-abc123"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function report(body: Record<string, unknown>) {
+  return makeRequest(`http://localhost/api/print-stations/queue?token=${TOKEN}`, { method: "PATCH", body })
+}
+
+function job(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "job-1",
+    status: "claimed",
+    attempts: 1,
+    agent_id: "agent-a",
+    print_station_id: "station-1",
+    claimed_by_station_id: "station-1",
+    ...overrides,
+  }
+}
+
+const jobFilters = () =>
+  mock.calls.filter((c) => c.table === "print_jobs" && c.method === "eq").map((c) => c.args)
+
+describe("PATCH /api/print-stations/queue", () => {
+  it("guards a report on the lease holder so a stale agent loses to a reclaim", async () => {
+    mock.queueResponse("print_stations", { data: { id: "station-1", is_active: true }, error: null })
+    mock.queueResponse("print_jobs", { data: job(), error: null })
+    // The lease ran out and another agent reclaimed the job after the read.
+    mock.queueResponse("print_jobs", { data: null, error: null })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(report({ job_id: "job-1", status: "completed", agent_id: "agent-a" }))
+
+    expect(res.status).toBe(409)
+    expect((await res.json()).lease_lost).toBe(true)
+    expect(jobFilters()).toEqual(expect.arrayContaining([
+      ["status", "claimed"],
+      ["claimed_by_station_id", "station-1"],
+      ["agent_id", "agent-a"],
+    ]))
+  })
+
+  it("won't let the origin station requeue a job a zone peer is printing", async () => {
+    mock.queueResponse("print_stations", { data: { id: "station-1", is_active: true }, error: null })
+    mock.queueResponse("print_jobs", { data: job({ status: "printing", claimed_by_station_id: "station-2", agent_id: "agent-b" }), error: null })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(report({ job_id: "job-1", status: "queued" }))
+
+    expect(res.status).toBe(409)
+    expect(mock.calls.some((c) => c.table === "print_jobs" && c.method === "update")).toBe(false)
+  })
+
+  it("requeues a finished job without a lease guard", async () => {
+    mock.queueResponse("print_stations", { data: { id: "station-1", is_active: true }, error: null })
+    mock.queueResponse("print_jobs", { data: job({ status: "completed", claimed_by_station_id: null, agent_id: null }), error: null })
+    mock.queueResponse("print_jobs", { data: { id: "job-1", status: "queued" }, error: null })
+
+    const { PATCH } = await import("./route")
+    const res = await PATCH(report({ job_id: "job-1", status: "queued", zpl_data: "^XA^XZ" }))
+
+    expect(res.status).toBe(200)
+    expect(jobFilters().some(([column]) => column === "claimed_by_station_id")).toBe(false)
+  })
+})
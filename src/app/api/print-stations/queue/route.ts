@@ -1,24 +1,56 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
+import {
+  PRINT_LEASE_SECONDS,
+  PRINT_MAX_ATTEMPTS,
+  canTransition,
+  isPrinterState,
+  leaseExpiresAt,
+  statusAfterFailure,
+} from "@/lib/print-queue"
 
-// GET /api/print-stations/queue?token=xxx - Poll for queued print jobs (called by print agent)
+const JOB_SELECT = `
+  id, print_number, status, zpl_data, badge_html, registration_data, created_at,
+  attempts, lease_expires_at, claimed_by_station_id, reprint_reason,
+  registrations (
+    id, registration_number, attendee_name, attendee_email, attendee_phone,
+    attendee_institution, attendee_designation, ticket_type_id, status,
+    ticket_types (name)
+  )
+`
+
+// GET /api/print-stations/queue?token=xxx&agent_id=yyy - Heartbeat + claim (called by print agent)
+//
+// Every poll doubles as the agent's health report (printer_state and
+// printer_message query params), which feeds the printer-health panel. An
+// agent whose printer isn't ready gets no jobs, so the rest of its zone
+// picks them up. Jobs are claimed one poll at a time (`limit`, default 1)
+// with a lease; see src/lib/print-queue.ts for the lifecycle. Without an
+// agent_id the queue is only listed, as older agents expect.
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const token = searchParams.get("token")
     const agentId = searchParams.get("agent_id")
+    const printerState = searchParams.get("printer_state")
+    const printerMessage = searchParams.get("printer_message")
+    const limit = Math.min(Math.max(parseInt(searchParams.get("limit") || "1") || 1, 1), 10)
 
     if (!token) {
       return NextResponse.json({ error: "token is required" }, { status: 400 })
     }
 
+    if (printerState && !isPrinterState(printerState)) {
+      return NextResponse.json({ error: "Invalid printer_state" }, { status: 400 })
+    }
+
     const supabase = await createAdminClient()
     const db = supabase as any
 
     // Verify print station
     const { data: station, error: stationError } = await db
       .from("print_stations")
-      .select("id, name, event_id, is_active, print_settings, badge_template_id, badge_templates(id, name, template_data), events(id, name, short_name)")
+      .select("id, name, event_id, zone, is_active, printer_state, print_settings, badge_template_id, badge_templates(id, name, template_data), events(id, name, short_name)")
       .eq("access_token", token)
       .maybeSingle()
 
@@ -30,51 +62,79 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Station is inactive" }, { status: 400 })
     }
 
-    // Fetch queued jobs (not yet picked up by an agent)
-    const { data: jobs, error: jobsError } = await db
-      .from("print_jobs")
-      .select(`
-        id, print_number, status, zpl_data, badge_html, registration_data, created_at,
-        registrations (
-          id, registration_number, attendee_name, attendee_email, attendee_phone,
-          attendee_institution, attendee_designation, ticket_type_id, status,
-          ticket_types (name)
-        )
-      `)
-      .eq("print_station_id", station.id)
-      .eq("status", "queued")
-      .order("created_at", { ascending: true })
-      .limit(20)
-
-    if (jobsError) {
-      console.error("Queue fetch error:", jobsError)
-      return NextResponse.json({ error: "Failed to fetch queue" }, { status: 500 })
-    }
-
-    // Mark jobs as picked up (so other agents don't grab them)
-    if (jobs && jobs.length > 0 && agentId) {
-      const jobIds = jobs.map((j: any) => j.id)
-      await db
+    const stationInfo = {
+      id: station.id,
+      name: station.name,
+      zone: station.zone,
+      print_settings: station.print_settings,
+      badge_template: station.badge_templates,
+      event: station.events,
+    }
+
+    if (!agentId) {
+      const { data: jobs, error: jobsError } = await db
         .from("print_jobs")
-        .update({
-          status: "printing",
-          picked_up_at: new Date().toISOString(),
-          agent_id: agentId,
-        })
-        .in("id", jobIds)
-        .eq("status", "queued") // Only update if still queued (prevents race condition)
+        .select(JOB_SELECT)
+        .eq("print_station_id", station.id)
+        .eq("status", "queued")
+        .order("created_at", { ascending: true })
+        .limit(20)
+
+      if (jobsError) {
+        console.error("Queue fetch error:", jobsError)
+        return NextResponse.json({ error: "Failed to fetch queue" }, { status: 500 })
+      }
+      return NextResponse.json({ station: stationInfo, jobs: jobs || [], count: jobs?.length || 0 })
+    }
+
+    // Heartbeat
+    const now = new Date().toISOString()
+    const heartbeat: Record<string, any> = { agent_id: agentId, agent_last_seen_at: now }
+    if (printerState) {
+      heartbeat.printer_state = printerState
+      heartbeat.printer_message = printerMessage || null
+      if (printerState !== station.printer_state) heartbeat.printer_state_at = now
+    }
+    await db.from("print_stations").update(heartbeat).eq("id", station.id)
+
+    if (printerState && printerState !== "ready") {
+      return NextResponse.json({ station: stationInfo, jobs: [], count: 0, paused: true })
+    }
+
+    const { data: claimed, error: claimError } = await db.rpc("claim_print_jobs", {
+      p_station_id: station.id,
+      p_agent_id: agentId,
+      p_limit: limit,
+      p_lease_seconds: PRINT_LEASE_SECONDS,
+      p_max_attempts: PRINT_MAX_ATTEMPTS,
+    })
+
+    if (claimError) {
+      console.error("Queue claim error:", claimError)
+      return NextResponse.json({ error: "Failed to claim jobs" }, { status: 500 })
+    }
+
+    const claimedIds = (claimed || []).map((j: any) => j.id)
+    let jobs: any[] = []
+    if (claimedIds.length > 0) {
+      const { data, error: jobsError } = await db
+        .from("print_jobs")
+        .select(JOB_SELECT)
+        .in("id", claimedIds)
+        .order("created_at", { ascending: true })
+
+      if (jobsError) {
+        console.error("Queue fetch error:", jobsError)
+        return NextResponse.json({ error: "Failed to fetch queue" }, { status: 500 })
+      }
+      jobs = data || []
     }
 
     return NextResponse.json({
-      station: {
-        id: station.id,
-        name: station.name,
-        print_settings: station.print_settings,
-        badge_template: station.badge_templates,
-        event: station.events,
-      },
-      jobs: jobs || [],
-      count: jobs?.length || 0,
+      station: stationInfo,
+      jobs,
+      count: jobs.length,
+      lease_seconds: PRINT_LEASE_SECONDS,
     })
   } catch (error: any) {
     console.error("Queue poll error:", error)
@@ -82,10 +142,17 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PATCH /api/print-stations/queue - Update job status (called by print agent after printing)
+// PATCH /api/print-stations/queue - Move a job along its lifecycle
 // Requires the same `token` query param as GET. The token must resolve to an
-// active print station, and the job must belong to that station — otherwise
-// any caller could mark arbitrary jobs as completed/failed.
+// active print station, and the job must belong to that station (or have
+// been claimed by it from its zone) — otherwise any caller could mark
+// arbitrary jobs as completed/failed.
+//
+//   printing   agent started / is still printing; renews the lease
+//   completed  agent printed it
+//   failed     agent couldn't print it; requeued while attempts remain
+//   queued     hand a job (back) to the agents, e.g. a kiosk's direct print
+//              that found the printer unreachable
 export async function PATCH(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
@@ -101,7 +168,7 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "job_id and status are required" }, { status: 400 })
     }
 
-    if (!["completed", "failed", "queued"].includes(status)) {
+    if (!["printing", "completed", "failed", "queued"].includes(status)) {
       return NextResponse.json({ error: "Invalid status" }, { status: 400 })
     }
 
@@ -119,19 +186,51 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: "Invalid or inactive station token" }, { status: 401 })
     }
 
-    const updateData: any = {
-      status,
+    const { data: job } = await db
+      .from("print_jobs")
+      .select("id, status, attempts, agent_id, print_station_id, claimed_by_station_id")
+      .eq("id", job_id)
+      .maybeSingle()
+
+    // Scope to this station so an agent can't mutate other stations' jobs
+    if (!job || (job.print_station_id !== station.id && job.claimed_by_station_id !== station.id)) {
+      return NextResponse.json({ error: "Job not found for this station" }, { status: 404 })
+    }
+
+    if (!canTransition(job.status, status)) {
+      return NextResponse.json({ error: `Cannot move a ${job.status} job to ${status}` }, { status: 409 })
     }
 
-    if (status === "completed") {
-      updateData.printed_at = new Date().toISOString()
+    // Once claimed, only the claiming agent reports on or requeues the job —
+    // the origin station can't pull it back from a zone peer mid-print. A
+    // mismatch means the lease ran out and someone else took the job over.
+    const inFlight = job.status === "claimed" || job.status === "printing"
+    if (inFlight &&
+        (job.claimed_by_station_id !== station.id || (agent_id && job.agent_id && job.agent_id !== agent_id))) {
+      return NextResponse.json({ error: "Job was reclaimed by another agent", lease_lost: true }, { status: 409 })
     }
 
-    if (status === "failed" && error_message) {
-      updateData.error_message = error_message
+    const now = new Date()
+    const updateData: Record<string, any> = { status }
+
+    if (status === "printing") {
+      updateData.lease_expires_at = leaseExpiresAt(now)
+    } else if (status === "completed") {
+      updateData.printed_at = now.toISOString()
+      updateData.lease_expires_at = null
+      updateData.error_message = null
+    } else if (status === "failed") {
+      updateData.status = statusAfterFailure(job.attempts || 0)
+      updateData.lease_expires_at = null
+      if (error_message) updateData.error_message = error_message
+    } else {
+      updateData.lease_expires_at = null
+      updateData.claimed_by_station_id = null
+      updateData.claimed_at = null
+      if (job.status === "completed" || job.status === "failed") updateData.attempts = 0
     }
 
-    if (agent_id) {
+    if (agent_id && !inFlight) {
       updateData.agent_id = agent_id
     }
 
@@ -139,14 +238,23 @@ export async function PATCH(request: NextRequest) {
       updateData.zpl_data = zpl_data
     }
 
-    // Scope the update to this station so an agent can't mutate other stations' jobs
-    const { data, error } = await db
+    // Guarded on the status we read so a concurrent claim or report wins. An
+    // in-flight job is also guarded on its lease holder: if the lease expired
+    // and another agent reclaimed the job since we read it, the status is
+    // still "claimed" but this report no longer matches.
+    let update = db
       .from("print_jobs")
       .update(updateData)
-      .eq("id", job_id)
-      .eq("print_station_id", station.id)
-      .select()
-      .maybeSingle()
+      .eq("id", job.id)
+      .eq("status", job.status)
+
+    if (inFlight) {
+      update = update.eq("claimed_by_station_id", station.id)
+      const holder = agent_id || job.agent_id
+      if (holder) update = update.eq("agent_id", holder)
+    }
+
+    const { data, error } = await update.select().maybeSingle()
 
     if (error) {
       console.error("Queue update error:", error)
@@ -154,10 +262,13 @@ export async function PATCH(request: NextRequest) {
     }
 
     if (!data) {
-      return NextResponse.json({ error: "Job not found for this station" }, { status: 404 })
+      if (inFlight) {
+        return NextResponse.json({ error: "Job was reclaimed by another agent", lease_lost: true }, { status: 409 })
+      }
+      return NextResponse.json({ error: "Job changed while updating, try again" }, { status: 409 })
     }
 
-    return NextResponse.json({ success: true, job: data })
+    return NextResponse.json({ success: true, job: data, requeued: status === "failed" && data.status === "queued" })
   } catch (error: any) {
     console.error("Queue update error:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
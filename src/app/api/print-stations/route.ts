@@ -98,6 +98,7 @@ export async function POST(request: NextRequest) {
       event_id,
       name,
       description,
+      zone,
       print_mode,
       badge_template_id,
       print_settings,
@@ -124,6 +125,7 @@ export async function POST(request: NextRequest) {
         event_id,
         name,
         description: description || null,
+        zone: zone || null,
         print_mode: print_mode || "full_badge",
         badge_template_id: badge_template_id || null,
         print_settings: print_settings || {
@@ -181,6 +183,11 @@ export async function PUT(request: NextRequest) {
     delete updates.unique_prints
     delete updates.created_at
     delete updates.created_by
+    delete updates.agent_id
+    delete updates.agent_last_seen_at
+    delete updates.printer_state
+    delete updates.printer_message
+    delete updates.printer_state_at
 
     const { data: station, error } = await (supabase as any)
       .from("print_stations")
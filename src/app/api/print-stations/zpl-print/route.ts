@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import net from "net"
+import { compileBadgeLayout } from "@/lib/badge-layout-compiler"
+import { badgeLayoutToZPL } from "@/lib/zpl-generator"
+import { parseZebraHostStatus } from "@/lib/print-queue"
 
 // POST /api/print-stations/zpl-print - Send ZPL to Zebra printer
 export async function POST(request: NextRequest) {
@@ -14,9 +17,26 @@ export async function POST(request: NextRequest) {
       badge_template,
       print_mode,
       test_print = false,
-      generate_only = false
+      generate_only = false,
+      status_query = false
     } = body
 
+    // Ask the printer for its host status (~HS): paper out, head open, ...
+    if (status_query) {
+      if (!printer_ip) {
+        return NextResponse.json({ error: "printer_ip is required" }, { status: 400 })
+      }
+      const reply = await queryPrinterStatus(printer_ip, printer_port)
+      if (!reply.success) {
+        return NextResponse.json({ success: false, error: reply.error })
+      }
+      const status = parseZebraHostStatus(reply.data || "")
+      if (!status) {
+        return NextResponse.json({ success: false, error: "Printer did not answer ~HS" })
+      }
+      return NextResponse.json({ success: true, ...status })
+    }
+
     // Generate ZPL code
     let zpl: string
 
@@ -97,6 +117,39 @@ async function sendToPrinter(ip: string, port: number, zpl: string): Promise<{ s
   })
 }
 
+// Send ~HS and collect the three STX...ETX framed status strings
+async function queryPrinterStatus(ip: string, port: number): Promise<{ success: boolean; data?: string; error?: string }> {
+  return new Promise((resolve) => {
+    const client = new net.Socket()
+    let data = ""
+    let settled = false
+    const finish = (result: { success: boolean; data?: string; error?: string }) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      client.destroy()
+      resolve(result)
+    }
+
+    const timer = setTimeout(() => {
+      finish(data ? { success: true, data } : { success: false, error: "Status query timeout" })
+    }, 3000)
+
+    client.connect(port, ip, () => {
+      client.write("~HS")
+    })
+
+    client.on("data", (chunk) => {
+      data += chunk.toString("latin1")
+      if ((data.match(/\x03/g) || []).length >= 3) finish({ success: true, data })
+    })
+
+    client.on("error", (err) => {
+      finish({ success: false, error: err.message })
+    })
+  })
+}
+
 // Generate test label ZPL
 function generateTestZPL(): string {
   return `
@@ -174,82 +227,16 @@ function generateZPLFromTemplate(
   station: any,
   printMode?: "label" | "overlay" | "full_badge"
 ): string {
-  let elements = templateData.elements || []
   const settings = station?.print_settings || {}
-  const paperSize = settings.paper_size || "4x6"
-  const isOverlayMode = printMode === "overlay"
-
-  // Overlay mode: NO rotation (pre-printed stock orientation is fixed)
-  // Full badge/label: Use settings or default 180° for thermal printers
-  const rotation = isOverlayMode ? 0 : (settings.rotation ?? 180)
-
-  const dimensions = getLabelDimensions(paperSize)
-  const rotationCmd = rotation === 0 ? "^PON" : "^POI"
-
-  // Scale factor: template uses pixels, Zebra uses 203 DPI dots
-  const templateWidth = getTemplateDimensions(paperSize).width
-  const templateHeight = getTemplateDimensions(paperSize).height
-  const scaleX = dimensions.width / templateWidth
-  const scaleY = dimensions.height / templateHeight
-
-  // For overlay mode: only print variable data (text, QR, barcode)
-  if (isOverlayMode) {
-    elements = elements.filter((el: any) =>
-      el.type === "text" || el.type === "qr_code" || el.type === "barcode"
-    )
-  }
-
-  let zplElements = ""
-
-  // Sort elements by zIndex
-  const sortedElements = [...elements].sort((a: any, b: any) => (a.zIndex || 0) - (b.zIndex || 0))
-
-  for (const element of sortedElements) {
-    const x = Math.floor(element.x * scaleX)
-    const y = Math.floor(element.y * scaleY)
-    const width = Math.floor(element.width * scaleX)
-    const height = Math.floor(element.height * scaleY)
-
-    if (element.type === "text") {
-      const content = replacePlaceholders(element.content || "", registration, station)
-      // Scale font properly to match design
-      const scaledFontSize = Math.floor((element.fontSize || 14) * scaleY)
-      const fontHeight = Math.max(20, Math.min(scaledFontSize, 150))
-      const fontWidth = fontHeight
-
-      // Text alignment
-      const align = element.align === "center" ? "C" : element.align === "right" ? "R" : "L"
-
-      zplElements += `^FO${x},${y}^A0N,${fontHeight},${fontWidth}^FB${width},1,0,${align}^FD${content}^FS\n`
-    }
-    else if (element.type === "shape" && element.shapeType === "rectangle") {
-      const borderWidth = Math.max(1, Math.floor((element.borderWidth || 1) * scaleX))
-      zplElements += `^FO${x},${y}^GB${width},${height},${borderWidth}^FS\n`
-    }
-    else if (element.type === "line") {
-      const lineThickness = Math.max(1, Math.floor(height))
-      zplElements += `^FO${x},${y}^GB${width},${lineThickness},${lineThickness}^FS\n`
-    }
-    else if (element.type === "qr_code") {
-      const qrContent = replacePlaceholders(element.content || "", registration, station)
-      // QR magnification: use max (10) for best quality, ~25 modules typical
-      const magnification = 10
-      const actualQrSize = 25 * magnification // Approximate QR size in dots
-      // Center QR within its designed area
-      const qrX = x + Math.floor((width - actualQrSize) / 2)
-      const qrY = y + Math.floor((height - actualQrSize) / 2)
-      // ^BQ adds no quiet zone — guarantee >=4 modules (1 module = `magnification` dots)
-      // while keeping the code on-label (smallest stock is 4x2 = 812x406 dots).
-      const quiet = magnification * 4
-      const safeX = Math.min(Math.max(quiet, qrX), Math.max(quiet, dimensions.width - actualQrSize - quiet))
-      const safeY = Math.min(Math.max(quiet, qrY), Math.max(quiet, dimensions.height - actualQrSize - quiet))
-      zplElements += `^FO${safeX},${safeY}^BQN,2,${magnification}^FDQA,${qrContent}^FS\n`
-    }
-    else if (element.type === "barcode") {
-      const barcodeContent = replacePlaceholders(element.content || "", registration, station)
-      zplElements += `^FO${x},${y}^BCN,${height},Y,N,N^FD${barcodeContent}^FS\n`
-    }
-  }
+  const layout = compileBadgeLayout(templateData, registration, {
+    paperSize: settings.paper_size || "4x6",
+    dpi: settings.dpi,
+    printMode,
+    rotation: settings.rotation,
+    eventName: station?.events?.name,
+  })
+  const rotationCmd = layout.rotation === 0 ? "^PON" : "^POI"
+  const zplElements = badgeLayoutToZPL(layout)
 
   // Command order matches the convocation Electron generator (known to print
   // on the 4BARCODE 4B-2054TG): label dimensions FIRST, then media tracking
@@ -262,8 +249,8 @@ function generateZPLFromTemplate(
 ^XA
 ^CI28
 ^LH0,0
-^LL${dimensions.height}
-^PW${dimensions.width}
+^LL${layout.heightDots}
+^PW${layout.widthDots}
 ^MNM
 ^MMT
 ^LT-30
@@ -274,22 +261,6 @@ ${zplElements}
 `.trim()
 }
 
-// Replace placeholders with registration data
-function replacePlaceholders(text: string, registration: any, station: any): string {
-  if (!text) return ""
-  let result = text
-  result = result.replace(/\{\{name\}\}/gi, registration?.attendee_name || "")
-  result = result.replace(/\{\{registration_number\}\}/gi, registration?.registration_number || "")
-  result = result.replace(/\{\{ticket_type\}\}/gi, registration?.ticket_type || registration?.ticket_types?.name || "")
-  result = result.replace(/\{\{email\}\}/gi, registration?.attendee_email || "")
-  result = result.replace(/\{\{phone\}\}/gi, registration?.attendee_phone || "")
-  result = result.replace(/\{\{institution\}\}/gi, registration?.attendee_institution || "")
-  result = result.replace(/\{\{designation\}\}/gi, registration?.attendee_designation || "")
-  result = result.replace(/\{\{event_name\}\}/gi, station?.events?.name || "")
-  result = result.replace(/\{\{event_date\}\}/gi, "")
-  return result
-}
-
 // Get label dimensions in dots (203 DPI)
 function getLabelDimensions(paperSize: string): { width: number; height: number } {
   // 203 DPI: 1 inch = 203 dots
@@ -302,15 +273,3 @@ function getLabelDimensions(paperSize: string): { width: number; height: number
   }
   return sizes[paperSize] || sizes["4x6"]
 }
-
-// Get template dimensions in pixels (for scaling)
-function getTemplateDimensions(paperSize: string): { width: number; height: number } {
-  const sizes: Record<string, { width: number; height: number }> = {
-    "4x2": { width: 384, height: 192 },
-    "4x3": { width: 384, height: 288 },
-    "4x6": { width: 384, height: 576 },
-    "a6": { width: 397, height: 559 },
-    "a5": { width: 559, height: 794 },
-  }
-  return sizes[paperSize] || sizes["4x6"]
-}
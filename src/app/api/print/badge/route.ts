@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import net from "net"
+import { compileBadgeLayout } from "@/lib/badge-layout-compiler"
+import { badgeLayoutToZPL } from "@/lib/zpl-generator"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
 
 // POST /api/print/badge - Lookup registration and print badge with template
 export async function POST(request: NextRequest) {
@@ -34,7 +37,8 @@ export async function POST(request: NextRequest) {
         ticket_types (
           id,
           name
-        )
+        ),
+        registration_addons (addon_id)
       `)
       .or(`qr_code.eq.${sanitizedCode},id.eq.${sanitizedCode},registration_number.eq.${sanitizedCode}`)
       .single()
@@ -47,7 +51,8 @@ export async function POST(request: NextRequest) {
         .select(`
           *,
           events (id, name, slug),
-          ticket_types (id, name)
+          ticket_types (id, name),
+          registration_addons (addon_id)
         `)
         .eq("registration_number", code)
         .maybeSingle()
@@ -93,7 +98,11 @@ export async function POST(request: NextRequest) {
     // 3. Generate ZPL
     let zpl: string
     if (badgeTemplate?.template_data) {
-      zpl = generateZPLFromTemplate(badgeTemplate.template_data, reg)
+      const audiences = await loadBadgeAudiences(supabase, reg.event_id, [reg], badgeTemplate.template_data.elements || [])
+      zpl = generateZPLFromTemplate(badgeTemplate.template_data, badgeTemplate.size, {
+        ...reg,
+        badge_audience: audiences.get(reg.id) || null,
+      })
     } else {
       zpl = generateDefaultZPL(reg)
     }
@@ -180,77 +189,17 @@ function generateDefaultZPL(reg: any): string {
 }
 
 // Generate ZPL from badge template
-function generateZPLFromTemplate(templateData: any, reg: any): string {
-  const elements = templateData.elements || []
-  const badgeSize = templateData.badgeSize || { width: 384, height: 576 }
-
-  // Scale: template pixels to Zebra dots (203 DPI)
-  // Template is at ~96 DPI, Zebra at 203 DPI
-  const scaleX = 812 / badgeSize.width
-  const scaleY = 1218 / badgeSize.height
-
-  let zplElements = ""
-
-  const sortedElements = [...elements].sort((a: any, b: any) => (a.zIndex || 0) - (b.zIndex || 0))
-
-  for (const element of sortedElements) {
-    const x = Math.floor(element.x * scaleX)
-    const y = Math.floor(element.y * scaleY)
-    const width = Math.floor(element.width * scaleX)
-    const height = Math.floor(element.height * scaleY)
-
-    if (element.type === "text") {
-      let content = element.content || ""
-      content = replacePlaceholders(content, reg)
-
-      const fontSize = Math.floor((element.fontSize || 14) * scaleX * 0.8)
-      const fontHeight = Math.max(20, Math.min(fontSize, 100))
-      const align = element.textAlign === "center" ? "C" : element.textAlign === "right" ? "R" : "L"
-
-      zplElements += `^FO${x},${y}^A0N,${fontHeight},${fontHeight}^FB${width},2,0,${align}^FD${content}^FS\n`
-    }
-    else if (element.type === "shape" && element.shapeType === "rectangle") {
-      const borderWidth = element.borderWidth || 2
-      zplElements += `^FO${x},${y}^GB${width},${height},${borderWidth}^FS\n`
-    }
-    else if (element.type === "line") {
-      const thickness = element.strokeWidth || 2
-      zplElements += `^FO${x},${y}^GB${width},${thickness},${thickness}^FS\n`
-    }
-    else if (element.type === "qr_code") {
-      let content = element.content || "{{registration_number}}"
-      content = replacePlaceholders(content, reg)
-      const qrSize = Math.max(2, Math.min(Math.floor(width / 30), 10))
-      zplElements += `^FO${x},${y}^BQN,2,${qrSize}^FDQA,${content}^FS\n`
-    }
-    else if (element.type === "barcode") {
-      let content = element.content || "{{registration_number}}"
-      content = replacePlaceholders(content, reg)
-      zplElements += `^FO${x},${y}^BCN,${height},Y,N,N^FD${content}^FS\n`
-    }
-  }
+function generateZPLFromTemplate(templateData: any, size: string | null, reg: any): string {
+  const layout = compileBadgeLayout(templateData, reg, {
+    paperSize: size || "4x6",
+    rotation: 0,
+    eventName: reg.events?.name,
+  })
 
   return `^XA
 ^CI28
-^PW812
-^LL1218
-${zplElements}
+^PW${layout.widthDots}
+^LL${layout.heightDots}
+${badgeLayoutToZPL(layout)}
 ^XZ`
 }
-
-// Replace placeholders
-function replacePlaceholders(text: string, reg: any): string {
-  if (!text) return ""
-  return text
-    .replace(/\{\{name\}\}/gi, reg.attendee_name || "")
-    .replace(/\{\{registration_number\}\}/gi, reg.registration_number || "")
-    .replace(/\{\{ticket_type\}\}/gi, reg.ticket_types?.name || "")
-    .replace(/\{\{email\}\}/gi, reg.attendee_email || "")
-    .replace(/\{\{phone\}\}/gi, reg.attendee_phone || "")
-    .replace(/\{\{institution\}\}/gi, reg.attendee_institution || "")
-    .replace(/\{\{organization\}\}/gi, reg.attendee_institution || "")
-    .replace(/\{\{designation\}\}/gi, reg.attendee_designation || "")
-    .replace(/\{\{city\}\}/gi, reg.attendee_city || "")
-    .replace(/\{\{event_name\}\}/gi, reg.events?.name || "")
-    .replace(/\{\{participation_mode\}\}/gi, reg.participation_mode || "offline")
-}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { requireAdmin } from "@/lib/auth/api-auth"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { getAnthropicClient, isAIEnabled, UNTRUSTED_CONTENT_RULE } from "@/lib/services/ai"
 
 type SessionInput = {
@@ -19,9 +19,9 @@ type ValidationIssue = {
   reason: string
 }
 
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -122,4 +122,4 @@ If no issues found, return: {"issues": [], "summary": "Schedule looks good - no
       { status: 500 }
     )
   }
-}
+})
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { parse } from "csv-parse/sync"
 import { requireEventAccess } from "@/lib/auth/api-auth"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { getNextFacultyRegistrationNumber } from "@/lib/services/registration-number"
 
 // Convert 12-hour to 24-hour
@@ -114,9 +114,9 @@ function buildFacultyText(names: string[], facultyMap: Map<string, FacultyInfo>)
   }).join(" | ")
 }
 
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -635,4 +635,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
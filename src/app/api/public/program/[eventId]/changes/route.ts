@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { describeChange, type SessionChange } from "@/lib/program-diff"
+
+// GET /api/public/program/[eventId]/changes - What changed at each re-publish of the agenda.
+// Session names and faculty names only; the stored diff also carries contact
+// details, which never leave this route.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+
+    if (!eventId) {
+      return NextResponse.json({ error: "Event ID required" }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+
+    const { data, error } = await (supabase as any)
+      .from("agenda_snapshots")
+      .select("sequence, changes, created_at")
+      .eq("event_id", eventId)
+      .order("sequence", { ascending: false })
+      .limit(50)
+
+    if (error) {
+      console.error("Program changelog lookup error:", error)
+      return NextResponse.json({ error: "Failed to fetch changelog" }, { status: 500 })
+    }
+
+    const publications = (data || [])
+      .filter((row: { changes: SessionChange[] }) => row.changes.length > 0)
+      .map((row: { sequence: number; changes: SessionChange[]; created_at: string }) => ({
+        sequence: row.sequence,
+        published_at: row.created_at,
+        changes: row.changes.map((change) => ({
+          session_id: change.session_id,
+          session_name: change.session_name,
+          kinds: change.kinds,
+          lines: describeChange(change),
+        })),
+      }))
+
+    return NextResponse.json({
+      last_published_at: data?.[0]?.created_at ?? null,
+      publications,
+    }, {
+      headers: {
+        "Cache-Control": "public, s-maxage=300, stale-while-revalidate=600",
+      },
+    })
+  } catch (error: any) {
+    console.error("Public program changelog API error:", error)
+    return NextResponse.json({ error: "Failed to fetch changelog" }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { fetchRunningDay } from "@/lib/agenda-running-order-inputs"
+
+// GET /api/public/program/[eventId]/live?hall=Hall%20A - Today's running order per hall,
+// re-projected from what hall coordinators have marked. Feeds the now/next hall
+// screens and the live times in the public programme.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params
+
+    if (!eventId) {
+      return NextResponse.json({ error: "Event ID required" }, { status: 400 })
+    }
+
+    const supabase = await createAdminClient()
+    const hall = request.nextUrl.searchParams.get("hall") || undefined
+    const day = await fetchRunningDay(supabase as any, eventId, { hall })
+
+    return NextResponse.json(day, {
+      headers: {
+        // Hall screens poll this; short enough that a marked start shows within the minute.
+        "Cache-Control": "public, s-maxage=15, stale-while-revalidate=30",
+      },
+    })
+  } catch (error: any) {
+    console.error("Public live program API error:", error)
+    return NextResponse.json({ error: "Failed to fetch live program" }, { status: 500 })
+  }
+}
@@ -1,12 +1,12 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 const REG_FIELDS = "id, registration_number, attendee_name, attendee_email, attendee_phone, attendee_designation, attendee_institution, status, total_amount, checked_in, badge_url, certificate_url, ticket_type_id, event_id, payment_id"
 
-export async function GET(req: NextRequest) {
+export const GET = rateLimitedRoute(async function GET(req: NextRequest) {
   const ip = getClientIp(req)
-  const rateLimit = checkRateLimit(ip, "public")
+  const rateLimit = await checkRateLimit(ip, "public")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -125,4 +125,4 @@ export async function GET(req: NextRequest) {
     console.error("Registration status lookup error:", error)
     return NextResponse.json({ error: "Failed to lookup registration" }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
+import { REFUND_REASON_CODES, isRefundReasonCode } from "@/lib/refunds"
+
+// GET /api/receipt/[token]/credit-note?refund_id= - GST credit note PDF for a
+// processed refund. Same token rules as the receipt next to it (registration
+// number or checkin_token). Without refund_id, the latest processed refund
+// touching this registration is used.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+  const refundId = new URL(request.url).searchParams.get("refund_id")
+
+  if (!token || token.length < 3) {
+    return NextResponse.json({ error: "Invalid token" }, { status: 400 })
+  }
+
+  const supabase = await createAdminClient()
+  const db = supabase as any
+
+  const isSecureToken = token.length >= 32
+  let query = db
+    .from("registrations")
+    .select(`
+      id,
+      registration_number,
+      attendee_name,
+      attendee_email,
+      attendee_phone,
+      attendee_institution,
+      event_id,
+      events (name, short_name, start_date, venue_name, city)
+    `)
+  query = isSecureToken ? query.eq("checkin_token", token) : query.ilike("registration_number", token)
+
+  const { data: registration, error } = await query.single()
+  if (error || !registration) {
+    return NextResponse.json({ error: "Registration not found" }, { status: 404 })
+  }
+
+  const { data: itemRows } = await db
+    .from("refund_request_items")
+    .select("refund_request_id")
+    .eq("registration_id", registration.id)
+
+  const requestIds = [...new Set((itemRows || []).map((r: any) => r.refund_request_id))] as string[]
+  if (requestIds.length === 0 || (refundId && !requestIds.includes(refundId))) {
+    return NextResponse.json({ error: "Credit note not found" }, { status: 404 })
+  }
+
+  let refundQuery = db
+    .from("refund_requests")
+    .select("*, refund_request_items (*), payments (payment_number, razorpay_payment_id, completed_at, net_amount)")
+    .eq("status", "processed")
+    .order("processed_at", { ascending: false })
+    .limit(1)
+  refundQuery = refundId ? refundQuery.eq("id", refundId) : refundQuery.in("id", requestIds)
+
+  const { data: refunds } = await refundQuery
+  const refund = refunds?.[0]
+  if (!refund || !refund.credit_note_number) {
+    return NextResponse.json({ error: "Credit note not found" }, { status: 404 })
+  }
+
+  const event = registration.events
+  const payment = refund.payments
+  const items: any[] = refund.refund_request_items || []
+  const amount = Number(refund.amount || 0)
+  const gst = Number(refund.tax_amount || 0)
+  const taxable = Math.round((amount - gst) * 100) / 100
+
+  const pdfDoc = await PDFDocument.create()
+  const page = pdfDoc.addPage([595, 842]) // A4 size
+  const { width, height } = page.getSize()
+
+  const helvetica = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  const primaryColor = rgb(0.1, 0.3, 0.5)
+  const grayColor = rgb(0.4, 0.4, 0.4)
+  const lightGray = rgb(0.9, 0.9, 0.9)
+  const money = (n: number) => `Rs.${n.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+  // Header
+  page.drawRectangle({ x: 0, y: height - 100, width, height: 100, color: primaryColor })
+  page.drawText("CREDIT NOTE", { x: 50, y: height - 60, size: 24, font: helveticaBold, color: rgb(1, 1, 1) })
+  page.drawText(event?.short_name || event?.name || "Event", {
+    x: 50,
+    y: height - 85,
+    size: 12,
+    font: helvetica,
+    color: rgb(0.8, 0.8, 0.8),
+  })
+  page.drawText(`Credit Note #: ${refund.credit_note_number}`, { x: width - 230, y: height - 60, size: 10, font: helvetica, color: rgb(1, 1, 1) })
+  page.drawText(`Date: ${new Date(refund.processed_at || refund.updated_at).toLocaleDateString("en-IN")}`, {
+    x: width - 230,
+    y: height - 75,
+    size: 10,
+    font: helvetica,
+    color: rgb(1, 1, 1),
+  })
+
+  let y = height - 140
+
+  // Issued to
+  page.drawText("ISSUED TO", { x: 50, y, size: 10, font: helveticaBold, color: grayColor })
+  y -= 20
+  page.drawText(registration.attendee_name, { x: 50, y, size: 14, font: helveticaBold, color: primaryColor })
+  y -= 18
+  for (const line of [registration.attendee_email, registration.attendee_phone, registration.attendee_institution]) {
+    if (!line) continue
+    page.drawText(line, { x: 50, y, size: 10, font: helvetica, color: grayColor })
+    y -= 15
+  }
+
+  // Against (right side)
+  const refY = height - 140
+  page.drawText("AGAINST", { x: 350, y: refY, size: 10, font: helveticaBold, color: grayColor })
+  page.drawText(`Receipt #: ${payment?.payment_number || "-"}`, { x: 350, y: refY - 20, size: 10, font: helvetica, color: grayColor })
+  if (payment?.completed_at) {
+    page.drawText(`Paid on: ${new Date(payment.completed_at).toLocaleDateString("en-IN")}`, {
+      x: 350,
+      y: refY - 35,
+      size: 10,
+      font: helvetica,
+      color: grayColor,
+    })
+  }
+  const reasonCode: string = refund.reason_code
+  const reason = isRefundReasonCode(reasonCode) ? REFUND_REASON_CODES[reasonCode] : reasonCode
+  page.drawText(`Reason: ${reason}`, { x: 350, y: refY - 50, size: 10, font: helvetica, color: grayColor })
+
+  y -= 40
+
+  // Table
+  page.drawRectangle({ x: 50, y: y - 5, width: width - 100, height: 25, color: lightGray })
+  page.drawText("DESCRIPTION", { x: 60, y, size: 10, font: helveticaBold, color: primaryColor })
+  page.drawText("AMOUNT", { x: 460, y, size: 10, font: helveticaBold, color: primaryColor })
+  y -= 30
+
+  for (const item of items) {
+    const label = `${item.item_type === "addon" ? "Add-on: " : ""}${item.description}`
+    page.drawText(label.length > 70 ? `${label.slice(0, 67)}...` : label, { x: 60, y, size: 10, font: helvetica, color: grayColor })
+    page.drawText(money(Number(item.amount)), { x: 460, y, size: 10, font: helvetica, color: grayColor })
+    y -= 20
+  }
+
+  y -= 10
+  page.drawLine({ start: { x: 50, y }, end: { x: width - 50, y }, thickness: 1, color: lightGray })
+  y -= 25
+
+  if (gst > 0) {
+    page.drawText("Taxable value", { x: 350, y, size: 10, font: helvetica, color: grayColor })
+    page.drawText(money(taxable), { x: 460, y, size: 10, font: helvetica, color: grayColor })
+    y -= 18
+    page.drawText("GST reversed", { x: 350, y, size: 10, font: helvetica, color: grayColor })
+    page.drawText(money(gst), { x: 460, y, size: 10, font: helvetica, color: grayColor })
+    y -= 22
+  }
+
+  page.drawText("TOTAL CREDIT", { x: 350, y, size: 12, font: helveticaBold, color: primaryColor })
+  page.drawText(money(amount), { x: 460, y, size: 12, font: helveticaBold, color: primaryColor })
+
+  y -= 50
+  page.drawText(`Registration Number: ${registration.registration_number}`, { x: 50, y, size: 10, font: helvetica, color: grayColor })
+  if (refund.gateway_refund_id) {
+    y -= 15
+    page.drawText(`Refund ID: ${refund.gateway_refund_id}`, { x: 50, y, size: 10, font: helvetica, color: grayColor })
+  } else if (refund.refund_mode === "manual") {
+    y -= 15
+    page.drawText("Refunded outside the payment gateway.", { x: 50, y, size: 10, font: helvetica, color: grayColor })
+  }
+
+  page.drawText("This is a computer-generated credit note and does not require a signature.", {
+    x: 50,
+    y: 50,
+    size: 8,
+    font: helvetica,
+    color: grayColor,
+  })
+
+  const pdfBytes = await pdfDoc.save()
+
+  return new NextResponse(Buffer.from(pdfBytes), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${refund.credit_note_number}.pdf"`,
+    },
+  })
+}
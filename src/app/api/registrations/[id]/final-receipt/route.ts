@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import { getLetterheadBackgroundUrl, drawLetterheadBackgroundPdfLib } from "@/lib/pdf/essurg-letterhead"
+import { isInvoiceExempt } from "@/lib/registration-import"
 
 // GET /api/registrations/[id]/final-receipt - Generate consolidated registration receipt
 export async function GET(
@@ -35,6 +36,7 @@ export async function GET(
       total_amount,
       payment_status,
       payment_id,
+      custom_fields,
       confirmed_at,
       created_at,
       event_id,
@@ -49,6 +51,10 @@ export async function GET(
     return NextResponse.json({ error: "Registration not found" }, { status: 404 })
   }
 
+  if (isInvoiceExempt(registration.custom_fields)) {
+    return NextResponse.json({ error: "Complimentary registrations don't have a receipt" }, { status: 409 })
+  }
+
   // Fetch all addons for this registration
   const { data: addons } = await (supabase as any)
     .from("registration_addons")
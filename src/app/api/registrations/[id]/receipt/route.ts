@@ -4,6 +4,7 @@ import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import QRCode from "qrcode"
 import { COMPANY_CONFIG } from "@/lib/config"
 import { getLetterheadBackgroundUrl, drawLetterheadBackgroundPdfLib } from "@/lib/pdf/essurg-letterhead"
+import { isInvoiceExempt } from "@/lib/registration-import"
 
 // Mirrors the helper already used in src/app/api/badges/generate/route.ts and
 // src/app/api/badge/[token]/download/route.ts — kept inline (not extracted)
@@ -51,6 +52,10 @@ export async function GET(
       return NextResponse.json({ error: "Registration not found" }, { status: 404 })
     }
 
+    if (isInvoiceExempt((data as { custom_fields: unknown }).custom_fields)) {
+      return NextResponse.json({ error: "Complimentary registrations don't have a receipt" }, { status: 409 })
+    }
+
     // Type assertion for the registration data
     const registration = data as {
       registration_number: string
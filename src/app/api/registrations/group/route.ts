@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from "next/server"
 import { createOrder, generatePaymentNumber, RazorpayCredentials } from "@/lib/services/razorpay"
 import { getNextRegistrationNumber } from "@/lib/services/registration-number"
 import { DEFAULTS } from "@/lib/config"
+import { appliedCodeId, priceOrder } from "@/lib/services/discount-pricing"
+import { countHeldSeats } from "@/lib/services/waitlist-offers"
+import type { CartLine } from "@/lib/discount-rules"
 
 interface Attendee {
   ticket_type_id: string
@@ -118,9 +121,12 @@ export async function POST(request: NextRequest) {
       ticketQuantities.set(attendee.ticket_type_id, current + 1)
     }
 
+    // Seats held for waitlist offers only go to their holder
+    const heldSeats = await countHeldSeats(supabase, [...ticketQuantities.keys()], buyer.email)
     for (const [ticketId, quantity] of ticketQuantities) {
       const ticket = ticketMap.get(ticketId)!
-      if (ticket.quantity_total && ticket.quantity_sold + quantity > ticket.quantity_total) {
+      const held = heldSeats.get(ticketId) || 0
+      if (ticket.quantity_total && ticket.quantity_sold + held + quantity > ticket.quantity_total) {
         return NextResponse.json(
           { error: `Not enough "${ticket.name}" tickets available` },
           { status: 400 }
@@ -157,41 +163,24 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Apply discount if provided
-    let discountAmount = 0
-    let discountCodeId: string | null = null
-
-    if (discount_code) {
-      const { data: discountData } = await supabase
-        .from("discount_codes")
-        .select("*")
-        .eq("event_id", event_id)
-        .eq("code", discount_code.toUpperCase())
-        .eq("is_active", true)
-        .single()
-
-      if (discountData) {
-        const now = new Date()
-        const validFrom = discountData.valid_from ? new Date(discountData.valid_from) : null
-        const validUntil = discountData.valid_until ? new Date(discountData.valid_until) : null
-        const isValidPeriod = (!validFrom || now >= validFrom) && (!validUntil || now <= validUntil)
-        const hasUsesLeft = !discountData.max_uses || discountData.current_uses < discountData.max_uses
-
-        if (isValidPeriod && hasUsesLeft) {
-          discountCodeId = discountData.id
-
-          if (discountData.discount_type === "percentage") {
-            discountAmount = (subtotal * discountData.discount_value) / 100
-          } else {
-            discountAmount = discountData.discount_value
-          }
-
-          if (discountData.max_discount_amount && discountAmount > discountData.max_discount_amount) {
-            discountAmount = discountData.max_discount_amount
-          }
-        }
-      }
+    // Apply automatic discount rules (group tiers count every attendee in
+    // this order) and the discount code, if any
+    const cart: CartLine[] = []
+    for (const { ticket } of attendeePricing) {
+      const line = cart.find(l => l.id === ticket.id)
+      if (line) line.quantity++
+      else cart.push({ kind: "ticket", id: ticket.id, name: ticket.name, unit_price: ticket.price, quantity: 1 })
     }
+    const pricing = await priceOrder(supabase, {
+      eventId: event_id,
+      cart,
+      code: discount_code,
+      email: buyer.email,
+      phone: buyer.phone,
+    })
+    const discountAmount = pricing.discount_total
+    const discountCodeId = appliedCodeId(pricing)
+    const discountBreakdown = pricing.applied.length ? pricing.applied : null
 
     const totalAmount = subtotal + totalTax - discountAmount
 
@@ -250,6 +239,7 @@ export async function POST(request: NextRequest) {
         payment_method: payment_method,
         coupon_code: discount_code || null,
         discount_code_id: discountCodeId,
+        discount_breakdown: discountBreakdown,
       })
       .select()
       .single()
@@ -407,6 +397,7 @@ export async function POST(request: NextRequest) {
               buyer_id: buyerRecord.id,
               registration_ids: registrations.map((r: Record<string, unknown>) => r.id),
               attendee_count: attendees.length,
+              discount_breakdown: discountBreakdown,
             },
           })
           .select()
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { logActivityFromRequest } from "@/lib/activity-logger"
+import { undoImportBatch } from "@/lib/services/registration-import"
+
+// POST /api/registrations/import/batches/[batchId]/undo - Delete an import's registrations
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await params
+    const supabase = await createAdminClient()
+    const db = supabase as any
+
+    const { data: batch } = await db
+      .from("registration_import_batches")
+      .select("id, event_id, status, welcome_status")
+      .eq("id", batchId)
+      .maybeSingle()
+
+    if (!batch) {
+      return NextResponse.json({ error: "Import not found" }, { status: 404 })
+    }
+
+    const { user, error: authError } = await requireEventAndPermission(batch.event_id, "registrations")
+    if (authError) return authError
+
+    if (batch.status !== "completed") {
+      return NextResponse.json(
+        { error: batch.status === "undone" ? "This import has already been undone" : "This import is still running" },
+        { status: 409 }
+      )
+    }
+
+    const result = await undoImportBatch(db, batch, user!.email)
+
+    logActivityFromRequest(request, {
+      action: "delete",
+      entityType: "registration",
+      eventId: batch.event_id,
+      description: `Undid import: removed ${result.deleted} registration(s)`,
+      metadata: { batch_id: batch.id, ...result },
+    })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    console.error("Error undoing import:", error)
+    return NextResponse.json({ error: "Failed to undo import" }, { status: 500 })
+  }
+}
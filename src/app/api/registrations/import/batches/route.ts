@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { requireEventAndPermission } from "@/lib/auth/api-auth"
+import { BATCH_COLUMNS } from "@/lib/services/registration-import"
+
+// GET /api/registrations/import/batches?event_id=... - Recent imports, newest first
+export async function GET(request: NextRequest) {
+  const eventId = new URL(request.url).searchParams.get("event_id")
+  if (!eventId) {
+    return NextResponse.json({ error: "event_id is required" }, { status: 400 })
+  }
+
+  const { error: authError } = await requireEventAndPermission(eventId, "registrations")
+  if (authError) return authError
+
+  const supabase = await createAdminClient()
+  const { data, error } = await (supabase as any)
+    .from("registration_import_batches")
+    .select(BATCH_COLUMNS)
+    .eq("event_id", eventId)
+    .order("created_at", { ascending: false })
+    .limit(25)
+
+  if (error) {
+    console.error("Error fetching import batches:", error)
+    return NextResponse.json({ error: "Failed to fetch imports" }, { status: 500 })
+  }
+
+  return NextResponse.json(data || [])
+}
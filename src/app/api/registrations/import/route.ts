@@ -1,305 +1,133 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextRequest, NextResponse, after } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireEventAndPermission } from "@/lib/auth/api-auth"
 import { logActivityFromRequest } from "@/lib/activity-logger"
-import { getNextRegistrationNumber } from "@/lib/services/registration-number"
-
-// Validate email format
-function isValidEmail(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  return emailRegex.test(email)
-}
-
-interface ImportRegistration {
-  ticket?: string // Ticket name (Tito-style)
-  name: string
-  email: string
-  phone?: string
-  designation?: string
-  institution?: string
-  city?: string
-  state?: string
-  country?: string
-  notify?: string // Y/N to send email
-  [key: string]: string | undefined // For custom Q: fields
-}
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import { applyImportMapping, guessImportMapping, type ImportMapping } from "@/lib/registration-import"
+import { bulkRegistrationImportSchema, formatZodError } from "@/lib/schemas"
+import { commitImport, planEventImport, processImportWelcomes } from "@/lib/services/registration-import"
 
 /**
  * POST /api/registrations/import
- * Bulk import registrations (Tito-style with ticket name in CSV)
+ * Bulk import registrations from a spreadsheet.
+ *
+ * With `dry_run: true` nothing is written: the response is the plan — every
+ * row marked create / duplicate / error — for the wizard's review step.
+ * Otherwise the same plan is committed as one undoable import batch, and the
+ * welcome batch (if any channels were chosen) is queued.
  */
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   try {
-    const supabase = await createAdminClient()
-    const db = supabase as any
-
     const body = await request.json()
-    const {
-      event_id,
-      ticket_type_id, // Optional - fallback if no ticket column in CSV
-      registrations, // Array of registration objects
-      status = "confirmed", // Default to confirmed for imports
-    } = body
-
-    if (!event_id || !registrations?.length) {
-      return NextResponse.json(
-        { error: "event_id and registrations array are required" },
-        { status: 400 }
-      )
+    const parsed = bulkRegistrationImportSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(formatZodError(parsed.error), { status: 400 })
     }
+    const input = parsed.data
 
     // Require event access + registrations permission
-    const { error: authError } = await requireEventAndPermission(event_id, 'registrations')
+    const { user, error: authError } = await requireEventAndPermission(input.event_id, "registrations")
     if (authError) return authError
 
-    // Fetch all ticket types for this event (for matching by name)
-    const { data: ticketTypes, error: ticketsError } = await db
-      .from("ticket_types")
-      .select("id, name, price, status, quantity_total, quantity_sold")
-      .eq("event_id", event_id)
-
-    if (ticketsError || !ticketTypes?.length) {
-      return NextResponse.json(
-        { error: "No ticket types found for this event" },
-        { status: 400 }
-      )
-    }
-
-    // Create a map of ticket names to ticket objects (case-insensitive)
-    const ticketMap = new Map<string, any>()
-    for (const t of ticketTypes as any[]) {
-      ticketMap.set(t.name.toLowerCase().trim(), t)
+    // Rate limit: bulk tier for import operations
+    const rateLimit = await checkRateLimit(getClientIp(request), "bulk")
+    if (!rateLimit.success) {
+      return rateLimitExceededResponse(rateLimit)
     }
 
-    // Get default ticket if ticket_type_id provided
-    const defaultTicket = ticket_type_id
-      ? (ticketTypes as any[]).find((t: any) => t.id === ticket_type_id)
-      : ticketTypes[0]
+    const supabase = await createAdminClient()
+    const db = supabase as any
 
-    const results = {
-      success: 0,
-      failed: 0,
-      skipped: 0,
-      errors: [] as string[],
-      created: [] as any[],
-      notifications_queued: 0,
+    const headers = [...new Set(input.rows.flatMap((row) => Object.keys(row)))]
+    const mapping = (input.mapping as ImportMapping | undefined) || guessImportMapping(headers)
+    if (!Object.values(mapping).includes("name")) {
+      return NextResponse.json({ error: "Map a column to Name" }, { status: 400 })
     }
 
-    // Track ticket quantities to update
-    const ticketQuantityUpdates = new Map<string, number>()
-
-    // Check for existing registrations by email to avoid duplicates
-    const emails = registrations
-      .map((r: ImportRegistration) => r.email?.toLowerCase().trim())
-      .filter(Boolean)
-
-    const { data: existingRegs } = await db
-      .from("registrations")
-      .select("attendee_email")
-      .eq("event_id", event_id)
-      .in("attendee_email", emails)
-
-    const existingEmails = new Set((existingRegs || []).map((r: any) => r.attendee_email?.toLowerCase()))
-
-    // Process each registration
-    for (let i = 0; i < registrations.length; i++) {
-      const reg = registrations[i] as ImportRegistration
-      const rowNum = i + 2 // +2 for header row and 1-based indexing
-
-      try {
-        // Validate required fields
-        if (!reg.name?.trim()) {
-          results.failed++
-          results.errors.push(`Row ${rowNum}: Missing name`)
-          continue
-        }
-
-        if (!reg.email?.trim()) {
-          results.failed++
-          results.errors.push(`Row ${rowNum}: Missing email for "${reg.name}"`)
-          continue
-        }
-
-        const email = reg.email.toLowerCase().trim()
-
-        // Validate email format
-        if (!isValidEmail(email)) {
-          results.failed++
-          results.errors.push(`Row ${rowNum}: Invalid email "${email}"`)
-          continue
-        }
-
-        // Skip if already registered for this event
-        if (existingEmails.has(email)) {
-          results.skipped++
-          results.errors.push(`Row ${rowNum}: ${email} already registered`)
-          continue
-        }
-
-        // Find ticket by name (Tito-style) or use default
-        let ticket = defaultTicket
-        if (reg.ticket?.trim()) {
-          const matchedTicket = ticketMap.get(reg.ticket.toLowerCase().trim())
-          if (matchedTicket) {
-            ticket = matchedTicket
-          } else {
-            results.failed++
-            results.errors.push(`Row ${rowNum}: Ticket "${reg.ticket}" not found`)
-            continue
-          }
-        }
-
-        if (!ticket) {
-          results.failed++
-          results.errors.push(`Row ${rowNum}: No ticket type specified or found`)
-          continue
-        }
-
-        // Check ticket availability
-        if (ticket.quantity_total) {
-          const pendingUpdates = ticketQuantityUpdates.get(ticket.id) || 0
-          const currentSold = (ticket.quantity_sold || 0) + pendingUpdates
-          if (currentSold >= ticket.quantity_total) {
-            results.failed++
-            results.errors.push(`Row ${rowNum}: Ticket "${ticket.name}" is sold out`)
-            continue
-          }
-        }
-
-        // Extract custom fields (columns starting with Q:)
-        const customFields: Record<string, any> = {
-          designation: reg.designation,
-          institution: reg.institution,
-          city: reg.city,
-          state: reg.state,
-          country: reg.country,
-          imported: true,
-          imported_at: new Date().toISOString(),
-        }
-
-        // Add Q: prefixed fields
-        for (const [key, value] of Object.entries(reg)) {
-          if (key.toLowerCase().startsWith('q:') && value) {
-            const questionName = key.substring(2).trim()
-            customFields[questionName] = value
-          }
-        }
-
-        // Create registration
-        const registrationNumber = await getNextRegistrationNumber(db, event_id)
-        const shouldNotify = reg.notify?.toUpperCase() === 'Y'
-
-        const { data: _newReg, error: regError } = await db
-          .from("registrations")
-          .insert({
-            registration_number: registrationNumber,
-            event_id,
-            ticket_type_id: ticket.id,
-            attendee_name: reg.name.trim(),
-            attendee_email: email,
-            attendee_phone: reg.phone?.trim() || null,
-            attendee_designation: reg.designation?.trim() || null,
-            attendee_institution: reg.institution?.trim() || null,
-            quantity: 1,
-            unit_price: ticket.price,
-            total_amount: ticket.price,
-            status: status,
-            payment_status: "completed",
-            confirmed_at: status === "confirmed" ? new Date().toISOString() : null,
-            custom_fields: customFields,
-          })
-          .select()
-          .single()
-
-        if (regError) {
-          results.failed++
-          results.errors.push(`Row ${rowNum}: ${regError.message}`)
-        } else {
-          results.success++
-          results.created.push({
-            registration_number: registrationNumber,
-            name: reg.name,
-            email: email,
-            ticket: ticket.name,
-          })
-
-          // Track for ticket quantity update
-          ticketQuantityUpdates.set(
-            ticket.id,
-            (ticketQuantityUpdates.get(ticket.id) || 0) + 1
-          )
+    const rows = applyImportMapping(input.rows, mapping).map((row, index) => ({
+      ...row,
+      ticket_type_id: input.ticket_overrides?.[String(index)] || null,
+    }))
+    const options = {
+      mode: input.mode,
+      default_ticket_id: input.default_ticket_id || null,
+      organization: input.organization || null,
+    }
 
-          // Track notifications
-          if (shouldNotify) {
-            results.notifications_queued++
-            // TODO: Queue email notification
-          }
+    const { plan } = await planEventImport(db, input.event_id, rows, options)
 
-          // Add to set to prevent duplicates within same import
-          existingEmails.add(email)
-        }
-      } catch (err: any) {
-        results.failed++
-        results.errors.push(`Row ${rowNum}: Error - ${err.message}`)
-      }
+    if (input.dry_run) {
+      return NextResponse.json({
+        dry_run: true,
+        summary: plan.summary,
+        // The wizard shows the mapped values, not the whole source row
+        rows: plan.rows.map((row) => (row.action === "create" ? { ...row, data: undefined } : row)),
+      })
     }
 
-    // Update ticket quantities atomically using RPC
-    // This prevents race conditions by using server-side increment
-    for (const [ticketId, count] of ticketQuantityUpdates) {
-      // Use raw SQL update with increment to prevent race conditions
-      const { error: updateError } = await db.rpc('increment_ticket_sold', {
-        ticket_id: ticketId,
-        increment_by: count
-      }).catch(() => {
-        // Fallback if RPC doesn't exist - still risky but better than nothing
-        return { error: null }
-      })
+    if (plan.summary.create === 0) {
+      return NextResponse.json(
+        { error: "Nothing to import: every row is a duplicate or has an error", summary: plan.summary },
+        { status: 400 }
+      )
+    }
 
-      // If RPC fails or doesn't exist, use traditional update as fallback
-      if (updateError) {
-        const { data: currentTicket } = await db
-          .from("ticket_types")
-          .select("quantity_sold")
-          .eq("id", ticketId)
-          .single()
+    const result = await commitImport(db, {
+      eventId: input.event_id,
+      plan,
+      options,
+      fileName: input.file_name || null,
+      welcomeChannels: input.welcome_channels,
+      user: { id: user!.id, email: user!.email },
+    })
 
-        if (currentTicket) {
-          await db
-            .from("ticket_types")
-            .update({ quantity_sold: (currentTicket.quantity_sold || 0) + count })
-            .eq("id", ticketId)
+    if (result.batch.welcome_status === "pending") {
+      // Start sending straight away; the import-welcome cron picks up whatever
+      // doesn't fit in this invocation.
+      after(async () => {
+        try {
+          await processImportWelcomes(db, [input.event_id], { batchId: result.batch.id })
+        } catch (err) {
+          console.error("[registrations/import] Welcome batch failed to start:", err)
         }
-      }
-    }
-
-    // Log activity
-    if (results.success > 0) {
-      logActivityFromRequest(request, {
-        action: "import",
-        entityType: "registration",
-        eventId: event_id,
-        description: `Imported ${results.success} registration(s)`,
-        metadata: {
-          total: registrations.length,
-          created: results.success,
-          skipped: results.skipped,
-          failed: results.failed,
-        },
       })
     }
 
+    logActivityFromRequest(request, {
+      action: "import",
+      entityType: "registration",
+      eventId: input.event_id,
+      description: `Imported ${result.created.length} registration(s)`,
+      metadata: {
+        batch_id: result.batch.id,
+        mode: input.mode,
+        total: plan.summary.total,
+        created: result.created.length,
+        duplicates: plan.summary.duplicate,
+        failed: result.failed.length,
+        welcome_channels: input.welcome_channels,
+      },
+    })
+
     return NextResponse.json({
       success: true,
+      batch: result.batch,
       summary: {
-        total: registrations.length,
-        created: results.success,
-        skipped: results.skipped,
-        failed: results.failed,
-        notifications_queued: results.notifications_queued,
+        total: plan.summary.total,
+        created: result.created.length,
+        skipped: plan.summary.duplicate,
+        failed: result.failed.length,
+        notifications_queued: result.batch.welcome_status === "pending" ? result.created.length : 0,
       },
-      created: results.created,
-      errors: results.errors.slice(0, 50), // Limit errors to first 50
+      created: result.created,
+      errors: [
+        ...plan.rows.flatMap((row) =>
+          row.action === "duplicate"
+            ? [`Row ${row.row}: ${row.email || row.phone} already registered${row.existing ? ` (${row.existing.registration_number})` : ""}`]
+            : []
+        ),
+        ...result.failed.map((f) => `Row ${f.row}: ${f.error}`),
+      ].slice(0, 50), // Limit errors to first 50
     })
   } catch (error: any) {
     console.error("Import error:", error)
@@ -308,11 +136,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 /**
- * GET /api/registrations/import
- * Get import template/help
+ * GET /api/registrations/import?event_id=...&format=csv
+ * Download a CSV template with the event's ticket names.
  */
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url)
@@ -329,67 +157,22 @@ export async function GET(request: NextRequest) {
 
   const supabase = await createAdminClient()
   const db = supabase as any
-  const format = searchParams.get("format") // 'json' or 'csv'
-
-  // If event_id provided, generate CSV template with ticket names
-  if (eventId && format === "csv") {
-    const { data: tickets } = await db
-      .from("ticket_types")
-      .select("name")
-      .eq("event_id", eventId)
-      .order("sort_order", { ascending: true })
 
-    const _ticketNames = tickets?.map((t: any) => t.name).join(" | ") || "Ticket Name"
-
-    const csvTemplate = `ticket,name,email,phone,designation,institution,city,state,country,notify
-${tickets?.[0]?.name || "Speaker"},Dr. John Smith,john@example.com,+91 9876543210,Professor,Medical College,Mumbai,Maharashtra,India,Y
-${tickets?.[0]?.name || "Speaker"},Dr. Jane Doe,jane@example.com,,Associate Professor,Hospital,Chennai,Tamil Nadu,India,N`
-
-    return new NextResponse(csvTemplate, {
-      headers: {
-        "Content-Type": "text/csv",
-        "Content-Disposition": `attachment; filename="import-template.csv"`,
-      },
-    })
-  }
-
-  return NextResponse.json({
-    endpoint: "/api/registrations/import",
-    method: "POST",
-    description: "Bulk import registrations (Tito-style with ticket name in CSV)",
-    template_url: "/api/registrations/import?event_id=YOUR_EVENT_ID&format=csv",
-    columns: {
-      ticket: "Ticket type name (must match exactly)",
-      name: "Full name (required)",
-      email: "Email address (required, must be valid)",
-      phone: "Phone number",
-      designation: "Job title/designation",
-      institution: "Organization/institution",
-      city: "City",
-      state: "State",
-      country: "Country",
-      notify: "Y to send confirmation email, N or blank to skip",
-      "Q:custom_question": "Custom questions prefixed with Q:",
-    },
-    example: {
-      event_id: "uuid",
-      ticket_type_id: "uuid (optional fallback)",
-      registrations: [
-        {
-          ticket: "Speaker",
-          name: "Dr. John Smith",
-          email: "john@example.com",
-          phone: "+91 9876543210",
-          designation: "Professor",
-          institution: "Medical College",
-          notify: "Y",
-        },
-      ],
-    },
-    validation: {
-      email: "Must be valid email format",
-      ticket: "Must match existing ticket type name exactly (case-insensitive)",
-      duplicates: "Skipped if email already registered for this event",
+  const { data: tickets } = await db
+    .from("ticket_types")
+    .select("name")
+    .eq("event_id", eventId)
+    .order("sort_order", { ascending: true })
+
+  const ticketName = tickets?.[0]?.name || "Delegate"
+  const csvTemplate = `ticket,name,email,phone,designation,institution,city,state,country
+${ticketName},Dr. John Smith,john@example.com,+91 9876543210,Professor,Medical College,Mumbai,Maharashtra,India
+${ticketName},Dr. Jane Doe,,9876501234,Associate Professor,Hospital,Chennai,Tamil Nadu,India`
+
+  return new NextResponse(csvTemplate, {
+    headers: {
+      "Content-Type": "text/csv",
+      "Content-Disposition": `attachment; filename="import-template.csv"`,
     },
   })
 }
@@ -2,8 +2,10 @@ import { createServerSupabaseClient, createAdminClient } from "@/lib/supabase/se
 import { NextRequest, NextResponse } from "next/server"
 import { onRegistration } from "@/lib/services/auto-send"
 import { getNextRegistrationNumber } from "@/lib/services/registration-number"
+import { appliedCodeId, priceOrder, recordDiscountCodeUse } from "@/lib/services/discount-pricing"
+import { countHeldSeats } from "@/lib/services/waitlist-offers"
 import { validatePagination, sanitizeSearchInput, isValidUUID } from "@/lib/validation"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { DEFAULTS } from "@/lib/config"
 import { isGallaboxEnabled, sendGallaboxTemplate } from "@/lib/gallabox"
 import {
@@ -96,10 +98,10 @@ function generatePaymentNumber(): string {
 }
 
 // POST - Create new registration
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   // Rate limit: public tier for registration creation
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "public")
+  const rateLimit = await checkRateLimit(ip, "public")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -190,8 +192,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check availability
-    if (ticket.quantity_total && ticket.quantity_sold + quantity > ticket.quantity_total) {
+    // Check availability (seats held for waitlist offers only go to their holder)
+    const heldSeats = await countHeldSeats(supabase, [ticket_type_id], trimmedEmail)
+    const held = heldSeats.get(ticket_type_id) || 0
+    if (ticket.quantity_total && ticket.quantity_sold + held + quantity > ticket.quantity_total) {
       return NextResponse.json(
         { error: "Not enough tickets available" },
         { status: 400 }
@@ -218,55 +222,26 @@ export async function POST(request: NextRequest) {
     const unit_price = ticket.price
     let tax_amount = 0
     let discount_amount = 0
-    let discount_code_id = null
+    let discount_code_id: string | null = null
 
     // Apply tax
     if (ticket.tax_percentage > 0) {
       tax_amount = (unit_price * quantity * ticket.tax_percentage) / 100
     }
 
-    // Validate and apply discount code
-    if (discount_code) {
-      const { data: discountData } = await (supabase as any)
-        .from("discount_codes")
-        .select("*")
-        .eq("event_id", event_id)
-        .eq("code", discount_code.toUpperCase())
-        .eq("is_active", true)
-        .single()
-
-      if (discountData) {
-        const now = new Date()
-        const validFrom = discountData.valid_from ? new Date(discountData.valid_from) : null
-        const validUntil = discountData.valid_until ? new Date(discountData.valid_until) : null
-
-        const isValidPeriod = (!validFrom || now >= validFrom) && (!validUntil || now <= validUntil)
-        const hasUsesLeft = !discountData.max_uses || discountData.current_uses < discountData.max_uses
-
-        if (isValidPeriod && hasUsesLeft) {
-          discount_code_id = discountData.id
-
-          if (discountData.discount_type === "percentage") {
-            discount_amount = (unit_price * quantity * discountData.discount_value) / 100
-          } else {
-            discount_amount = discountData.discount_value
-          }
-
-          // Cap discount if max is set
-          if (discountData.max_discount_amount && discount_amount > discountData.max_discount_amount) {
-            discount_amount = discountData.max_discount_amount
-          }
+    // Apply automatic discount rules and the discount code, if any
+    const pricing = await priceOrder(supabase, {
+      eventId: event_id,
+      cart: [{ kind: "ticket", id: ticket.id, name: ticket.name, unit_price, quantity }],
+      code: discount_code,
+      email: trimmedEmail,
+      phone: attendee_phone,
+    })
+    discount_amount = pricing.discount_total
+    discount_code_id = appliedCodeId(pricing)
 
-          // Increment current_uses to enforce max_uses (mirrors razorpay create-order route)
-          if (discount_amount > 0) {
-            await (supabase as any)
-              .from("discount_codes")
-              .update({ current_uses: (discountData.current_uses || 0) + 1 })
-              .eq("id", discountData.id)
-          }
-        }
-      }
-    }
+    // Increment current_uses to enforce max_uses (mirrors razorpay create-order route)
+    await recordDiscountCodeUse(supabase, pricing)
 
     const total_amount = (unit_price * quantity) + tax_amount - discount_amount
 
@@ -396,6 +371,7 @@ export async function POST(request: NextRequest) {
             quantity,
             unit_price,
             discount_code: discount_code || null,
+            discount_breakdown: pricing.applied.length ? pricing.applied : null,
             custom_fields,
           },
         })
@@ -708,4 +684,4 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     return NextResponse.json({ error: "Failed to process registration" }, { status: 500 })
   }
-}
+})
@@ -1,16 +1,16 @@
 import { createAdminClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // POST /api/submit-abstract/[eventId]/draft - Save draft
-export async function POST(
+export const POST = rateLimitedRoute(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
     // Rate limit check for public endpoint
     const ip = getClientIp(request)
-    const rateLimitResult = checkRateLimit(ip, "public")
+    const rateLimitResult = await checkRateLimit(ip, "public")
     if (!rateLimitResult.success) return rateLimitExceededResponse(rateLimitResult)
 
     const { eventId } = await params
@@ -72,17 +72,17 @@ export async function POST(
     console.error("Error saving draft:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
 
 // GET /api/submit-abstract/[eventId]/draft - Get saved draft
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
     // Rate limit check for public endpoint
     const ip = getClientIp(request)
-    const rateLimitResult = checkRateLimit(ip, "public")
+    const rateLimitResult = await checkRateLimit(ip, "public")
     if (!rateLimitResult.success) return rateLimitExceededResponse(rateLimitResult)
 
     const { eventId } = await params
@@ -115,17 +115,17 @@ export async function GET(
     console.error("Error fetching draft:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
 
 // DELETE /api/submit-abstract/[eventId]/draft - Delete draft
-export async function DELETE(
+export const DELETE = rateLimitedRoute(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
     // Rate limit check for public endpoint
     const ip = getClientIp(request)
-    const rateLimitResult = checkRateLimit(ip, "public")
+    const rateLimitResult = await checkRateLimit(ip, "public")
     if (!rateLimitResult.success) return rateLimitExceededResponse(rateLimitResult)
 
     const { eventId } = await params
@@ -149,4 +149,4 @@ export async function DELETE(
     console.error("Error deleting draft:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,6 @@
 import { createAdminClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { claimIdempotency } from "@/lib/idempotency"
 import { sendAndLogAbstractNotification } from "@/lib/abstracts/notify"
 import { buildAbstractVariables } from "@/lib/email-templates"
@@ -58,14 +58,14 @@ interface SubmissionData {
 }
 
 // POST /api/submit-abstract/[eventId] - Submit a new abstract
-export async function POST(
+export const POST = rateLimitedRoute(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
     // Public endpoint — rate limit before doing any work
     const ip = getClientIp(request)
-    const rl = checkRateLimit(ip, "public")
+    const rl = await checkRateLimit(ip, "public")
     if (!rl.success) return rateLimitExceededResponse(rl)
 
     const { eventId } = await params
@@ -653,7 +653,7 @@ export async function POST(
     console.error("Error in abstract submission:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
 
 // GET /api/submit-abstract/[eventId] - Get submission settings and categories
 export async function GET(
@@ -1,16 +1,16 @@
 import { createAdminClient } from "@/lib/supabase/server"
 import { NextRequest, NextResponse } from "next/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 
 // POST /api/submit-abstract/[eventId]/upload - Upload abstract attachment
-export async function POST(
+export const POST = rateLimitedRoute(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
     // Rate limit check for public endpoint
     const ip = getClientIp(request)
-    const rateLimitResult = checkRateLimit(ip, "public")
+    const rateLimitResult = await checkRateLimit(ip, "public")
     if (!rateLimitResult.success) return rateLimitExceededResponse(rateLimitResult)
 
     const { eventId } = await params
@@ -119,17 +119,17 @@ export async function POST(
     console.error("Error in file upload:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
 
 // DELETE /api/submit-abstract/[eventId]/upload - Delete uploaded file
-export async function DELETE(
+export const DELETE = rateLimitedRoute(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ eventId: string }> }
 ) {
   try {
     // Rate limit check for public endpoint
     const ip = getClientIp(request)
-    const rateLimitResult = checkRateLimit(ip, "public")
+    const rateLimitResult = await checkRateLimit(ip, "public")
     if (!rateLimitResult.success) return rateLimitExceededResponse(rateLimitResult)
 
     const { eventId } = await params
@@ -161,4 +161,4 @@ export async function DELETE(
     console.error("Error deleting file:", error)
     return NextResponse.json({ error: "Internal server error" }, { status: 500 })
   }
-}
+})
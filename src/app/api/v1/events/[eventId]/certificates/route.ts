@@ -0,0 +1,33 @@
+import { NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { fetchCursorPage } from "@/lib/supabase/fetch-all-pages"
+import { apiColumns, apiJson, parseListQuery, requireApiKey } from "@/lib/public-api"
+import { apiCertificateSchema } from "@/lib/schemas"
+
+// GET /api/v1/events/[eventId]/certificates?cursor=&limit= - Registrations with a generated certificate
+export async function GET(request: NextRequest, { params }: { params: Promise<{ eventId: string }> }) {
+  const { eventId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "certificates", "read")
+  if (auth.error) return auth.error
+
+  const list = parseListQuery(request, auth.rateLimit)
+  if (list.error) return list.error
+
+  try {
+    let query = (supabase as any)
+      .from("registrations")
+      .select(apiColumns(apiCertificateSchema))
+      .eq("event_id", eventId)
+      .not("certificate_generated_at", "is", null)
+      .order("id", { ascending: true })
+    if (list.after) query = query.gt("id", list.after)
+
+    const page = await fetchCursorPage<{ id: string }>(query, list.limit)
+    return apiJson({ data: page.rows, next_cursor: page.next_cursor }, auth.rateLimit)
+  } catch (error) {
+    console.error("Error in GET /api/v1/certificates:", error)
+    return apiJson({ error: "Failed to fetch certificates" }, auth.rateLimit, 500)
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-4111-8111-111111111111"
+const LIST_ID = "22222222-2222-4222-8222-222222222222"
+const REG_ID = "33333333-3333-4333-8333-333333333333"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/public-api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/public-api")>()),
+  requireApiKey: vi.fn(async () => ({
+    key: { id: "key-1", name: "Gate", event_id: EVENT_ID, scopes: ["checkin:write"] },
+    rateLimit: { success: true, limit: 60, remaining: 59, reset: 0, windowMs: 60_000 },
+    error: null,
+  })),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function lunchList(maxPerDay: number) {
+  return { id: LIST_ID, name: "Lunch", ticket_type_ids: [], addon_ids: [], entitlement_rules: [], max_scans_per_day: maxPerDay }
+}
+
+function checkIn() {
+  return makeRequest(`http://localhost/api/v1/events/${EVENT_ID}/checkins`, {
+    method: "POST",
+    body: { checkin_list_id: LIST_ID, registration_id: REG_ID, action: "check_in" },
+  })
+}
+
+const params = { params: Promise.resolve({ eventId: EVENT_ID }) }
+
+describe("POST /api/v1/events/[eventId]/checkins", () => {
+  it("admits a checked-in delegate again on a daily-limited list and counts the use", async () => {
+    mock.queueResponse("registrations", { data: { id: REG_ID, ticket_type_id: "ticket-1", status: "confirmed" }, error: null })
+    mock.queueResponse("checkin_lists", { data: lunchList(2), error: null })
+    mock.queueResponse("checkin_records", { data: { id: "rec-1", checked_in_at: "2026-10-19T08:00:00Z", checked_out_at: null }, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(checkIn(), params)
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body.action).toBe("checked_in")
+    expect(body.uses_today).toBe(2)
+    const insert = mock.calls.find((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({ checkin_list_id: LIST_ID, registration_id: REG_ID, slot: 2 })
+  })
+
+  it("returns the denial reason once the daily limit is used up", async () => {
+    mock.queueResponse("registrations", { data: { id: REG_ID, ticket_type_id: "ticket-1", status: "confirmed" }, error: null })
+    mock.queueResponse("checkin_lists", { data: lunchList(1), error: null })
+    mock.queueResponse("checkin_records", { data: null, error: null })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+
+    const { POST } = await import("./route")
+    const res = await POST(checkIn(), params)
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body.reason_code).toBe("daily_limit")
+    expect(body.error).toBe('Daily limit reached — already used "Lunch" 1 of 1 time today.')
+    expect(res.headers.get("RateLimit-Limit")).toBe("60")
+    expect(mock.calls.some((c) => c.table === "checkin_records" && c.method === "insert")).toBe(false)
+    expect(mock.calls.some((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")).toBe(false)
+  })
+})
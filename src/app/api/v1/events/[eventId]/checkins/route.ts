@@ -0,0 +1,218 @@
+import { NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { fetchCursorPage } from "@/lib/supabase/fetch-all-pages"
+import { apiColumns, apiJson, apiValidationError, parseListQuery, requireApiKey } from "@/lib/public-api"
+import { apiCheckinCreateSchema, apiCheckinFilterSchema, apiCheckinSchema } from "@/lib/schemas"
+import { dailyLimitReached, hasEntitlements } from "@/lib/checkin-entitlements"
+import { claimEntitlementUse, evaluateListEntitlement } from "@/lib/services/checkin-entitlements"
+
+type RouteParams = { params: Promise<{ eventId: string }> }
+
+// GET /api/v1/events/[eventId]/checkins?cursor=&limit=&checkin_list_id=&registration_id=
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { eventId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "checkin", "read")
+  if (auth.error) return auth.error
+
+  const list = parseListQuery(request, auth.rateLimit)
+  if (list.error) return list.error
+
+  const searchParams = new URL(request.url).searchParams
+  const filters = apiCheckinFilterSchema.safeParse({
+    checkin_list_id: searchParams.get("checkin_list_id") || undefined,
+    registration_id: searchParams.get("registration_id") || undefined,
+  })
+  if (!filters.success) return apiValidationError(filters.error, auth.rateLimit)
+
+  try {
+    // checkin_records has no event_id; scope through the event's lists
+    const { data: lists, error: listsError } = await (supabase as any)
+      .from("checkin_lists")
+      .select("id")
+      .eq("event_id", eventId)
+    if (listsError) throw listsError
+
+    let listIds: string[] = (lists || []).map((l: { id: string }) => l.id)
+    if (filters.data.checkin_list_id) {
+      listIds = listIds.filter((id) => id === filters.data.checkin_list_id)
+    }
+    if (listIds.length === 0) return apiJson({ data: [], next_cursor: null }, auth.rateLimit)
+
+    let query = (supabase as any)
+      .from("checkin_records")
+      .select(apiColumns(apiCheckinSchema))
+      .in("checkin_list_id", listIds)
+      .order("id", { ascending: true })
+    if (list.after) query = query.gt("id", list.after)
+    if (filters.data.registration_id) query = query.eq("registration_id", filters.data.registration_id)
+
+    const page = await fetchCursorPage<{ id: string }>(query, list.limit)
+    return apiJson({ data: page.rows, next_cursor: page.next_cursor }, auth.rateLimit)
+  } catch (error) {
+    console.error("Error in GET /api/v1/checkins:", error)
+    return apiJson({ error: "Failed to fetch check-ins" }, auth.rateLimit, 500)
+  }
+}
+
+// POST /api/v1/events/[eventId]/checkins - Check a registration in to (or out of) a list.
+// Applies the same list rules as the dashboard scanner (/api/checkin).
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { eventId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "checkin", "write")
+  if (auth.error) return auth.error
+
+  const body = await request.json().catch(() => null)
+  const parsed = apiCheckinCreateSchema.safeParse(body)
+  if (!parsed.success) return apiValidationError(parsed.error, auth.rateLimit)
+  const input = parsed.data
+  const db = supabase as any
+
+  try {
+    let regQuery = db
+      .from("registrations")
+      .select("id, ticket_type_id, status")
+      .eq("event_id", eventId)
+    regQuery = input.registration_id
+      ? regQuery.eq("id", input.registration_id)
+      : regQuery.eq("registration_number", input.registration_number)
+    const { data: registration } = await regQuery.maybeSingle()
+
+    if (!registration) return apiJson({ error: "Registration not found" }, auth.rateLimit, 404)
+    if (registration.status !== "confirmed") {
+      return apiJson({ error: "Registration is not confirmed" }, auth.rateLimit, 400)
+    }
+
+    const { data: checkinList } = await db
+      .from("checkin_lists")
+      .select("id, name, ticket_type_ids, addon_ids, entitlement_rules, max_scans_per_day")
+      .eq("id", input.checkin_list_id)
+      .eq("event_id", eventId)
+      .maybeSingle()
+
+    if (!checkinList) return apiJson({ error: "Check-in list not found" }, auth.rateLimit, 404)
+
+    if (checkinList.ticket_type_ids?.length > 0 && !checkinList.ticket_type_ids.includes(registration.ticket_type_id)) {
+      return apiJson({ error: `This ticket type is not allowed for "${checkinList.name}"` }, auth.rateLimit, 400)
+    }
+
+    if (checkinList.addon_ids?.length > 0) {
+      const { data: regAddons } = await db
+        .from("registration_addons")
+        .select("addon_id")
+        .eq("registration_id", registration.id)
+        .in("addon_id", checkinList.addon_ids)
+      if (!regAddons || regAddons.length === 0) {
+        return apiJson({ error: `A required add-on for "${checkinList.name}" has not been purchased` }, auth.rateLimit, 400)
+      }
+    }
+
+    const columns = apiColumns(apiCheckinSchema)
+    const { data: existing } = await db
+      .from("checkin_records")
+      .select(columns)
+      .eq("checkin_list_id", checkinList.id)
+      .eq("registration_id", registration.id)
+      .maybeSingle()
+
+    const isCheckedIn = !!existing && !existing.checked_out_at
+    const now = new Date().toISOString()
+
+    if (input.action === "check_in") {
+      // Per-day entitlement rules and daily scan limits, as at the scanner.
+      // A check-out is never refused.
+      const dailyLimited = !!checkinList.max_scans_per_day
+      let usesToday: number | null = null
+      if (hasEntitlements(checkinList)) {
+        const scannedAt = new Date()
+        const evaluation = await evaluateListEntitlement(db, {
+          eventId,
+          list: checkinList,
+          registration,
+          at: scannedAt,
+        })
+        if (!evaluation.result.allowed) {
+          return apiJson(
+            { error: evaluation.result.reason, reason_code: evaluation.result.code },
+            auth.rateLimit,
+            400
+          )
+        }
+
+        if (dailyLimited) {
+          const claim = await claimEntitlementUse(db, {
+            eventId,
+            listId: checkinList.id,
+            registrationId: registration.id,
+            day: evaluation.day,
+            scannedAt,
+            maxPerDay: checkinList.max_scans_per_day,
+            usesToday: evaluation.usesToday,
+          })
+          if (claim.error) throw claim.error
+          if (claim.usesToday === null) {
+            // Another scan took the last use between the count and the claim.
+            const denial = dailyLimitReached(checkinList.max_scans_per_day, checkinList.max_scans_per_day, checkinList.name)
+            return apiJson({ error: denial.reason, reason_code: denial.code }, auth.rateLimit, 400)
+          }
+          usesToday = claim.usesToday
+        }
+      }
+
+      // A daily-limited list admits the same delegate again (up to the
+      // limit) on top of their one checkin_records row.
+      if (isCheckedIn && dailyLimited) {
+        return apiJson({ data: existing, action: "checked_in", uses_today: usesToday }, auth.rateLimit)
+      }
+      if (isCheckedIn) return apiJson({ data: existing, action: "already_checked_in" }, auth.rateLimit)
+
+      // One record per (list, registration): re-open a checked-out one
+      const write = existing
+        ? db.from("checkin_records").update({ checked_in_at: now, checked_out_at: null }).eq("id", existing.id)
+        : db.from("checkin_records").insert({ checkin_list_id: checkinList.id, registration_id: registration.id, checked_in_at: now })
+      const { data: record, error: writeError } = await write.select(columns).single()
+      if (writeError) throw writeError
+
+      await db
+        .from("registrations")
+        .update({ checked_in: true, checked_in_at: now })
+        .eq("id", registration.id)
+
+      return apiJson(
+        { data: record, action: "checked_in", ...(dailyLimited && { uses_today: usesToday }) },
+        auth.rateLimit
+      )
+    }
+
+    if (!isCheckedIn) return apiJson({ data: existing, action: "already_checked_out" }, auth.rateLimit)
+
+    const { data: record, error: checkoutError } = await db
+      .from("checkin_records")
+      .update({ checked_out_at: now })
+      .eq("id", existing.id)
+      .select(columns)
+      .single()
+    if (checkoutError) throw checkoutError
+
+    const { data: remaining } = await db
+      .from("checkin_records")
+      .select("id")
+      .eq("registration_id", registration.id)
+      .is("checked_out_at", null)
+      .limit(1)
+    if (!remaining || remaining.length === 0) {
+      await db
+        .from("registrations")
+        .update({ checked_in: false, checked_in_at: null })
+        .eq("id", registration.id)
+    }
+
+    return apiJson({ data: record, action: "checked_out" }, auth.rateLimit)
+  } catch (error) {
+    console.error("Error in POST /api/v1/checkins:", error)
+    return apiJson({ error: "Failed to process check-in" }, auth.rateLimit, 500)
+  }
+}
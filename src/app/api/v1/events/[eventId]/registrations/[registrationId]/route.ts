@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { apiColumns, apiJson, apiValidationError, requireApiKey } from "@/lib/public-api"
+import { apiRegistrationSchema, apiRegistrationUpdateSchema } from "@/lib/schemas"
+
+type RouteParams = { params: Promise<{ eventId: string; registrationId: string }> }
+
+// GET /api/v1/events/[eventId]/registrations/[registrationId]
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { eventId, registrationId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "registrations", "read")
+  if (auth.error) return auth.error
+
+  const { data, error } = await (supabase as any)
+    .from("registrations")
+    .select(apiColumns(apiRegistrationSchema))
+    .eq("id", registrationId)
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error in GET /api/v1/registrations/[id]:", error)
+    return apiJson({ error: "Failed to fetch registration" }, auth.rateLimit, 500)
+  }
+  if (!data) return apiJson({ error: "Registration not found" }, auth.rateLimit, 404)
+
+  return apiJson({ data }, auth.rateLimit)
+}
+
+// PATCH /api/v1/events/[eventId]/registrations/[registrationId] - Attendee details only;
+// status and payment changes go through the dashboard, where refunds and
+// seat counts are handled.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { eventId, registrationId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "registrations", "write")
+  if (auth.error) return auth.error
+
+  const body = await request.json().catch(() => null)
+  const parsed = apiRegistrationUpdateSchema.safeParse(body)
+  if (!parsed.success) return apiValidationError(parsed.error, auth.rateLimit)
+
+  const updates = Object.fromEntries(Object.entries(parsed.data).filter(([, value]) => value !== undefined))
+  if (Object.keys(updates).length === 0) {
+    return apiJson({ error: "No fields to update" }, auth.rateLimit, 400)
+  }
+
+  const { data, error } = await (supabase as any)
+    .from("registrations")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", registrationId)
+    .eq("event_id", eventId)
+    .select(apiColumns(apiRegistrationSchema))
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error in PATCH /api/v1/registrations/[id]:", error)
+    return apiJson({ error: "Failed to update registration" }, auth.rateLimit, 500)
+  }
+  if (!data) return apiJson({ error: "Registration not found" }, auth.rateLimit, 404)
+
+  return apiJson({ data }, auth.rateLimit)
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+
+const EVENT_ID = "11111111-1111-4111-8111-111111111111"
+const TICKET_ID = "22222222-2222-4222-8222-222222222222"
+const REG_ID = "33333333-3333-4333-8333-333333333333"
+
+let mock: ReturnType<typeof createSupabaseMock>
+let rpc: ReturnType<typeof vi.fn>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/public-api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/public-api")>()),
+  requireApiKey: vi.fn(async () => ({
+    key: { id: "key-1", name: "Society", event_id: EVENT_ID, scopes: ["registrations:write"] },
+    rateLimit: { success: true, limit: 60, remaining: 59, reset: 0, windowMs: 60_000 },
+    error: null,
+  })),
+}))
+
+vi.mock("@/lib/services/registration-number", () => ({
+  getNextRegistrationNumber: vi.fn(async () => "REG-1"),
+}))
+
+vi.mock("@/lib/services/waitlist-offers", () => ({
+  countHeldSeats: vi.fn(async () => new Map()),
+}))
+
+vi.mock("@/lib/services/auto-send", () => ({
+  onRegistration: vi.fn(async () => undefined),
+}))
+
+vi.mock("@/lib/webhooks", () => ({
+  webhookRegistrationCreated: vi.fn(async () => undefined),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  rpc = vi.fn(async () => ({ data: { success: true }, error: null }))
+  ;(mock.client as any).rpc = rpc
+})
+
+function ticket(overrides: Record<string, unknown> = {}) {
+  return { id: TICKET_ID, name: "Delegate", price: 5000, tax_percentage: 18, quantity_total: 100, quantity_sold: 10, status: "active", ...overrides }
+}
+
+function create(payment?: string) {
+  return makeRequest(`http://localhost/api/v1/events/${EVENT_ID}/registrations`, {
+    method: "POST",
+    body: { ticket_type_id: TICKET_ID, attendee_name: "Anitha Rao", attendee_email: "anitha@x.in", ...(payment && { payment }) },
+  })
+}
+
+const params = { params: Promise.resolve({ eventId: EVENT_ID }) }
+const inserted = () => mock.calls.find((c) => c.table === "registrations" && c.method === "insert")?.args[0] as Record<string, any>
+
+describe("POST /api/v1/events/[eventId]/registrations", () => {
+  it("requires the caller to say how the registration was paid for", async () => {
+    const { POST } = await import("./route")
+    const res = await POST(create(), params)
+
+    expect(res.status).toBe(400)
+    expect(mock.calls.some((c) => c.table === "ticket_types")).toBe(false)
+  })
+
+  it("refuses a ticket type that isn't on sale", async () => {
+    mock.queueResponse("ticket_types", { data: ticket({ status: "closed" }), error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(create("paid"), params)
+
+    expect(res.status).toBe(400)
+    expect(inserted()).toBeUndefined()
+  })
+
+  it("records a complimentary pass at zero, invoice-exempt, and counts the seat atomically", async () => {
+    mock.queueResponse("ticket_types", { data: ticket(), error: null })
+    mock.queueResponse("registrations", { data: null, error: null })
+    mock.queueResponse("registrations", { data: { id: REG_ID, created_at: "2026-10-19T08:00:00Z" }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(create("complimentary"), params)
+
+    expect(res.status).toBe(201)
+    expect(inserted()).toMatchObject({ unit_price: 0, tax_amount: 0, total_amount: 0, payment_status: "completed" })
+    expect(inserted().custom_fields).toMatchObject({ ticket_mode: "complimentary", invoice_exempt: true })
+    expect(rpc).toHaveBeenCalledWith("increment_ticket_sold_atomic", { p_ticket_type_id: TICKET_ID, p_payment_id: REG_ID, p_quantity: 1 })
+    expect(mock.calls.some((c) => c.table === "ticket_types" && c.method === "update")).toBe(false)
+  })
+
+  it("removes the registration again when the last seat went to someone else", async () => {
+    mock.queueResponse("ticket_types", { data: ticket(), error: null })
+    mock.queueResponse("registrations", { data: null, error: null })
+    mock.queueResponse("registrations", { data: { id: REG_ID, created_at: "2026-10-19T08:00:00Z" }, error: null })
+    rpc.mockResolvedValue({ data: { success: false, reason: "insufficient_capacity" }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(create("paid"), params)
+
+    expect(res.status).toBe(409)
+    expect(inserted()).toMatchObject({ total_amount: 5900 })
+    expect(mock.calls.some((c) => c.table === "registrations" && c.method === "delete")).toBe(true)
+  })
+})
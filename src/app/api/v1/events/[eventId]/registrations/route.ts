@@ -0,0 +1,215 @@
+import { NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { fetchCursorPage } from "@/lib/supabase/fetch-all-pages"
+import { apiColumns, apiJson, apiValidationError, parseListQuery, requireApiKey } from "@/lib/public-api"
+import {
+  apiRegistrationCreateSchema,
+  apiRegistrationFilterSchema,
+  apiRegistrationSchema,
+} from "@/lib/schemas"
+import { getNextRegistrationNumber } from "@/lib/services/registration-number"
+import { countHeldSeats } from "@/lib/services/waitlist-offers"
+import { onRegistration } from "@/lib/services/auto-send"
+import { webhookRegistrationCreated } from "@/lib/webhooks"
+import { DEFAULTS } from "@/lib/config"
+
+type RouteParams = { params: Promise<{ eventId: string }> }
+
+// GET /api/v1/events/[eventId]/registrations?cursor=&limit=&status=&email=&updated_since=
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { eventId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "registrations", "read")
+  if (auth.error) return auth.error
+
+  const list = parseListQuery(request, auth.rateLimit)
+  if (list.error) return list.error
+
+  const searchParams = new URL(request.url).searchParams
+  const filters = apiRegistrationFilterSchema.safeParse({
+    status: searchParams.get("status") || undefined,
+    email: searchParams.get("email") || undefined,
+    updated_since: searchParams.get("updated_since") || undefined,
+  })
+  if (!filters.success) return apiValidationError(filters.error, auth.rateLimit)
+
+  try {
+    let query = (supabase as any)
+      .from("registrations")
+      .select(apiColumns(apiRegistrationSchema))
+      .eq("event_id", eventId)
+      .order("id", { ascending: true })
+
+    if (list.after) query = query.gt("id", list.after)
+    if (filters.data.status) query = query.eq("status", filters.data.status)
+    if (filters.data.email) query = query.eq("attendee_email", filters.data.email.trim().toLowerCase())
+    if (filters.data.updated_since) query = query.gte("updated_at", filters.data.updated_since)
+
+    const page = await fetchCursorPage<{ id: string }>(query, list.limit)
+    return apiJson({ data: page.rows, next_cursor: page.next_cursor }, auth.rateLimit)
+  } catch (error) {
+    console.error("Error in GET /api/v1/registrations:", error)
+    return apiJson({ error: "Failed to fetch registrations" }, auth.rateLimit, 500)
+  }
+}
+
+// POST /api/v1/events/[eventId]/registrations - Create a confirmed registration.
+// Payment, if any, is settled in the calling system (e.g. society membership
+// dues), so no payment record is created here. The caller says which: a
+// 'paid' registration is recorded at the ticket's price, a 'complimentary'
+// one at zero and marked invoice-exempt like a free imported pass.
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { eventId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "registrations", "write")
+  if (auth.error) return auth.error
+
+  const body = await request.json().catch(() => null)
+  const parsed = apiRegistrationCreateSchema.safeParse(body)
+  if (!parsed.success) return apiValidationError(parsed.error, auth.rateLimit)
+  const input = parsed.data
+
+  try {
+    const { data: ticket } = await (supabase as any)
+      .from("ticket_types")
+      .select("id, name, price, tax_percentage, quantity_total, quantity_sold, status")
+      .eq("id", input.ticket_type_id)
+      .eq("event_id", eventId)
+      .maybeSingle()
+
+    if (!ticket) {
+      return apiJson({ error: "ticket_type_id is not a ticket type of this event" }, auth.rateLimit, 400)
+    }
+    if (ticket.status !== "active") {
+      return apiJson({ error: "Ticket is not available for purchase" }, auth.rateLimit, 400)
+    }
+
+    const { data: existing } = await (supabase as any)
+      .from("registrations")
+      .select("id, registration_number")
+      .eq("event_id", eventId)
+      .eq("ticket_type_id", ticket.id)
+      .eq("attendee_email", input.attendee_email)
+      .neq("status", "cancelled")
+      .limit(1)
+      .maybeSingle()
+
+    if (existing) {
+      return apiJson(
+        { error: "This person already has a registration for this ticket type", registration_id: existing.id },
+        auth.rateLimit,
+        409
+      )
+    }
+
+    const heldSeats = await countHeldSeats(supabase, [ticket.id], input.attendee_email)
+    const held = heldSeats.get(ticket.id) || 0
+    if (ticket.quantity_total && ticket.quantity_sold + held + 1 > ticket.quantity_total) {
+      return apiJson({ error: "Not enough tickets available" }, auth.rateLimit, 409)
+    }
+
+    const complimentary = input.payment === "complimentary"
+    const unitPrice = complimentary ? 0 : Number(ticket.price) || 0
+    const taxAmount = ticket.tax_percentage > 0 ? (unitPrice * ticket.tax_percentage) / 100 : 0
+    const now = new Date().toISOString()
+    const registrationNumber = await getNextRegistrationNumber(supabase, eventId)
+
+    const { data: registration, error: insertError } = await (supabase as any)
+      .from("registrations")
+      .insert({
+        event_id: eventId,
+        ticket_type_id: ticket.id,
+        registration_number: registrationNumber,
+        attendee_name: input.attendee_name,
+        attendee_email: input.attendee_email,
+        attendee_phone: input.attendee_phone || null,
+        attendee_institution: input.attendee_institution || null,
+        attendee_designation: input.attendee_designation || null,
+        attendee_city: input.attendee_city || null,
+        attendee_state: input.attendee_state || null,
+        attendee_country: input.attendee_country || DEFAULTS.country,
+        quantity: 1,
+        unit_price: unitPrice,
+        tax_amount: taxAmount,
+        discount_amount: 0,
+        total_amount: unitPrice + taxAmount,
+        status: "confirmed",
+        payment_status: "completed",
+        confirmed_at: now,
+        participation_mode: "offline",
+        custom_fields: {
+          ...(input.custom_fields || {}),
+          source: "api",
+          api_key_id: auth.key.id,
+          ...(input.external_reference && { external_reference: input.external_reference }),
+          ...(complimentary && { ticket_mode: "complimentary", invoice_exempt: true }),
+        },
+        checkin_token: crypto.randomUUID(),
+      })
+      .select(apiColumns(apiRegistrationSchema))
+      .single()
+
+    if (insertError) {
+      console.error("Error creating registration via API:", insertError)
+      return apiJson({ error: "Failed to create registration" }, auth.rateLimit, 500)
+    }
+
+    // The seat, through the same atomic RPC checkout uses (keyed on the new
+    // registration). The check above can pass for two callers at once; the
+    // RPC can't, so the loser's registration is removed again.
+    const { data: seat, error: seatError } = await (supabase as any).rpc("increment_ticket_sold_atomic", {
+      p_ticket_type_id: ticket.id,
+      p_payment_id: registration.id,
+      p_quantity: 1,
+    })
+    if (seatError || (seat && !seat.success && seat.reason !== "already_processed")) {
+      await (supabase as any).from("registrations").delete().eq("id", registration.id)
+      if (seat?.reason === "insufficient_capacity") {
+        return apiJson({ error: "Not enough tickets available" }, auth.rateLimit, 409)
+      }
+      console.error("Error counting API registration seat:", seatError?.message || seat?.reason)
+      return apiJson({ error: "Failed to create registration" }, auth.rateLimit, 500)
+    }
+
+    const { data: event } = await (supabase as any)
+      .from("events")
+      .select("name, start_date, venue_name")
+      .eq("id", eventId)
+      .maybeSingle()
+
+    onRegistration({
+      event_id: eventId,
+      registration_id: registration.id,
+      recipient_email: input.attendee_email,
+      recipient_phone: input.attendee_phone,
+      recipient_name: input.attendee_name,
+      registration_number: registrationNumber,
+      ticket_type: ticket.name,
+      event_name: event?.name || "Event",
+      event_date: event?.start_date ? new Date(event.start_date).toLocaleDateString("en-IN", { dateStyle: "long" }) : "",
+      venue: event?.venue_name || "",
+    }).catch((err) => {
+      console.error("Auto-send failed:", err)
+    })
+
+    webhookRegistrationCreated({
+      id: registration.id,
+      event_id: eventId,
+      event_name: event?.name,
+      attendee_name: input.attendee_name,
+      attendee_email: input.attendee_email,
+      attendee_phone: input.attendee_phone,
+      registration_type: ticket.name,
+      created_at: registration.created_at,
+    }).catch((err) => {
+      console.error("Registration webhook failed:", err)
+    })
+
+    return apiJson({ data: registration }, auth.rateLimit, 201)
+  } catch (error) {
+    console.error("Error in POST /api/v1/registrations:", error)
+    return apiJson({ error: "Failed to create registration" }, auth.rateLimit, 500)
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { fetchCursorPage } from "@/lib/supabase/fetch-all-pages"
+import { apiColumns, apiJson, parseListQuery, requireApiKey } from "@/lib/public-api"
+import { apiSessionSchema } from "@/lib/schemas"
+
+// GET /api/v1/events/[eventId]/sessions?cursor=&limit=
+export async function GET(request: NextRequest, { params }: { params: Promise<{ eventId: string }> }) {
+  const { eventId } = await params
+  const supabase = await createAdminClient()
+
+  const auth = await requireApiKey(supabase, request, eventId, "program", "read")
+  if (auth.error) return auth.error
+
+  const list = parseListQuery(request, auth.rateLimit)
+  if (list.error) return list.error
+
+  try {
+    let query = (supabase as any)
+      .from("sessions")
+      .select(apiColumns(apiSessionSchema))
+      .eq("event_id", eventId)
+      .order("id", { ascending: true })
+    if (list.after) query = query.gt("id", list.after)
+
+    const page = await fetchCursorPage<{ id: string }>(query, list.limit)
+    return apiJson({ data: page.rows, next_cursor: page.next_cursor }, auth.rateLimit)
+  } catch (error) {
+    console.error("Error in GET /api/v1/sessions:", error)
+    return apiJson({ error: "Failed to fetch sessions" }, auth.rateLimit, 500)
+  }
+}
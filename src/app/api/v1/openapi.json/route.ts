@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server"
+import { buildOpenApiDocument } from "@/lib/openapi"
+
+// GET /api/v1/openapi.json - Public API description (no key needed)
+export async function GET(request: NextRequest) {
+  const serverUrl = `${new URL(request.url).origin}/api/v1`
+  return NextResponse.json(buildOpenApiDocument(serverUrl), {
+    headers: { "Cache-Control": "public, max-age=3600" },
+  })
+}
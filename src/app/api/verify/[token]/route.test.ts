@@ -139,4 +139,65 @@ describe("POST /api/verify/[token]", () => {
     const reversedAtCalls = isCalls.filter((c) => c.args[0] === "reversed_at" && c.args[1] === null)
     expect(reversedAtCalls.length).toBeGreaterThanOrEqual(2)
   })
+
+  it("applies the list's per-day entitlement rules, refusing and logging a scan on a day it doesn't cover", async () => {
+    mock.queueResponse("checkin_lists", {
+      data: baseCheckinList({
+        entitlement_rules: [{ day: "2000-01-01", ticket_type_ids: [], addon_ids: [], meal_plan_ids: [] }],
+        max_scans_per_day: null,
+      }),
+      error: null,
+    })
+    mock.queueResponse("registrations", {
+      data: { id: REG_ID, registration_number: "REG-003", attendee_name: "Jane Doe", status: "confirmed", event_id: EVENT_A, ticket_type_id: "t1" },
+      error: null,
+    })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest(`http://localhost/api/verify/${SECURE_TOKEN}`, {
+        method: "POST",
+        body: { access_token: ACCESS_TOKEN, action: "check_in" },
+      }),
+      { params: Promise.resolve({ token: SECURE_TOKEN }) }
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(body).toMatchObject({ success: false, error_code: "not_today" })
+    const audit = mock.calls.find((c) => c.table === "checkin_audit_log" && c.method === "insert")
+    expect(audit?.args[0]).toMatchObject({ success: false, error_message: body.error })
+    expect(mock.calls.some((c) => c.table === "checkin_records")).toBe(false)
+  })
+
+  it("admits a checked-in delegate again on a daily-limited list and counts the use", async () => {
+    mock.queueResponse("checkin_lists", {
+      data: baseCheckinList({ name: "Lunch", entitlement_rules: [], max_scans_per_day: 2 }),
+      error: null,
+    })
+    mock.queueResponse("registrations", {
+      data: { id: REG_ID, registration_number: "REG-004", attendee_name: "Jane Doe", status: "confirmed", event_id: EVENT_A, ticket_type_id: "t1" },
+      error: null,
+    })
+    mock.queueResponse("events", { data: { timezone: "UTC" }, error: null })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null, count: 1 })
+    mock.queueResponse("checkin_entitlement_uses", { data: null, error: null }) // claim
+    mock.queueResponse("checkin_records", { data: { id: "rec-1", checked_in_at: "2026-07-18T10:00:00Z" }, error: null })
+
+    const { POST } = await import("./route")
+    const res = await POST(
+      makeRequest(`http://localhost/api/verify/${SECURE_TOKEN}`, {
+        method: "POST",
+        body: { access_token: ACCESS_TOKEN, action: "check_in", performed_by: "desk-2" },
+      }),
+      { params: Promise.resolve({ token: SECURE_TOKEN }) }
+    )
+    const body = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(body).toMatchObject({ success: true, action: "check_in", uses_today: 2 })
+    const insert = mock.calls.find((c) => c.table === "checkin_entitlement_uses" && c.method === "insert")
+    expect(insert?.args[0]).toMatchObject({ checkin_list_id: LIST_ID, registration_id: REG_ID, slot: 2, created_by: "desk-2" })
+  })
 })
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { checkTimeWindow } from "@/lib/checkin-time-window"
+import { dailyLimitReached, hasEntitlements, type ListEntitlements } from "@/lib/checkin-entitlements"
+import { claimEntitlementUse, evaluateListEntitlement } from "@/lib/services/checkin-entitlements"
 
 // GET /api/verify/[token] - Verify a registration token and return attendee info
 // This is what gets called when a QR code is scanned
 // Accepts either a checkin_token (long secure token) or registration_number (like 121A001)
-export async function GET(
+export const GET = rateLimitedRoute(async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
@@ -14,7 +16,7 @@ export async function GET(
 
   // Rate limit public lookups
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`verify:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`verify:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   // Public verification accepts ONLY the 32-char secure checkin_token.
@@ -119,12 +121,12 @@ export async function GET(
       template_name: certificateTemplate.name,
     } : { available: false },
   })
-}
+})
 
 // POST /api/verify/[token] - Check-in using token
 // Called by check-in app after scanning QR
 // Accepts either a checkin_token (long secure token) or registration_number (like 121A001)
-export async function POST(
+export const POST = rateLimitedRoute(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
@@ -139,7 +141,7 @@ export async function POST(
 
   // Rate limit
   const clientIp = getClientIp(request)
-  const rateLimit = checkRateLimit(`verify-post:${clientIp}`, "public")
+  const rateLimit = await checkRateLimit(`verify-post:${clientIp}`, "public")
   if (!rateLimit.success) return rateLimitExceededResponse(rateLimit)
 
   const body = await request.json()
@@ -165,10 +167,11 @@ export async function POST(
   let verified_checkin_list_id: string
   let verified_event_id: string
   let timeWindowWarning: string | null = null
+  let entitlementList: ListEntitlements & { id: string; name: string | null }
   {
     const { data: checkinList, error: listError } = await (supabase as any)
       .from("checkin_lists")
-      .select("id, event_id, name, access_token_expires_at, starts_at, ends_at")
+      .select("id, event_id, name, access_token_expires_at, starts_at, ends_at, entitlement_rules, max_scans_per_day")
       .eq("access_token", access_token)
       .single()
 
@@ -192,6 +195,7 @@ export async function POST(
     verified_checkin_list_id = checkinList.id
     verified_event_id = checkinList.event_id
     timeWindowWarning = checkTimeWindow(checkinList).warning
+    entitlementList = checkinList
   }
 
   // Determine if this is a checkin_token (long) or registration_number (short).
@@ -322,6 +326,73 @@ export async function POST(
   // Perform check-in or check-out
   const isCheckIn = action === "check_in"
 
+  // Per-day entitlement rules and daily scan limits -- the same gate and the
+  // same counted use as /api/checkin and /api/kiosk/checkin, so the QR
+  // scanner can't hand out a second lunch the desk would refuse. Only on
+  // check-in; a check-out is never refused.
+  let usesToday: number | null = null
+  if (isCheckIn && hasEntitlements(entitlementList)) {
+    const denied = async (reason: string, code: string) => {
+      await logAudit(supabase, {
+        event_id: registration.event_id,
+        checkin_list_id: verified_checkin_list_id,
+        registration_id: registration.id,
+        action,
+        performed_by,
+        performed_via: "qr_scan",
+        device_info,
+        token_used: token,
+        success: false,
+        error_message: reason,
+      })
+      return NextResponse.json({
+        success: false,
+        error: reason,
+        error_code: code,
+        registration_number: registration.registration_number,
+      }, { status: 400 })
+    }
+
+    try {
+      const scannedAt = new Date()
+      const evaluation = await evaluateListEntitlement(supabase, {
+        eventId: verified_event_id,
+        list: entitlementList,
+        registration,
+        at: scannedAt,
+      })
+      if (!evaluation.result.allowed) {
+        return await denied(evaluation.result.reason, evaluation.result.code)
+      }
+
+      const max = entitlementList.max_scans_per_day
+      if (max) {
+        const claim = await claimEntitlementUse(supabase, {
+          eventId: verified_event_id,
+          listId: verified_checkin_list_id,
+          registrationId: registration.id,
+          day: evaluation.day,
+          scannedAt,
+          maxPerDay: max,
+          usesToday: evaluation.usesToday,
+          createdBy: performed_by || null,
+        })
+        if (claim.error) throw claim.error
+        if (claim.usesToday === null) {
+          const denial = dailyLimitReached(max, max, entitlementList.name)
+          return await denied(denial.reason, denial.code)
+        }
+        usesToday = claim.usesToday
+      }
+    } catch (e) {
+      console.error("[verify] entitlement check failed:", e)
+      return NextResponse.json(
+        { success: false, error: "Failed to check entitlement. Please try again." },
+        { status: 500 }
+      )
+    }
+  }
+
   // Check if already checked in for this specific list (prevent duplicate food/meals)
   if (isCheckIn) {
     // Check for existing check-in record
@@ -345,6 +416,36 @@ export async function POST(
     // means there can only ever be one row per list+registration). Recurring
     // access (hall re-entry, sessions) belongs to a separate checkin_list per
     // occurrence, not a repeat check-in on the same one. See CLAUDE.md.
+    // A daily-limited list admits the same delegate again (up to the limit)
+    // on top of their one checkin_records row; the use was counted above.
+    if (existingRecord && usesToday !== null) {
+      await logAudit(supabase, {
+        event_id: registration.event_id,
+        checkin_list_id: verified_checkin_list_id,
+        registration_id: registration.id,
+        action,
+        performed_by,
+        performed_via: "qr_scan",
+        device_info,
+        token_used: token,
+        success: true,
+      })
+
+      return NextResponse.json({
+        success: true,
+        action: "check_in",
+        uses_today: usesToday,
+        registration: {
+          id: registration.id,
+          registration_number: registration.registration_number,
+          attendee_name: registration.attendee_name,
+          checked_in: true,
+          checked_in_at: existingRecord.checked_in_at,
+          ticket_type: registration.ticket_types,
+        }
+      })
+    }
+
     if (existingRecord) {
       // A repeat scan of an already-checked-in delegate is expected (re-entry,
       // a volunteer confirming status) — not an error. success:true / HTTP 200
@@ -504,6 +605,7 @@ export async function POST(
   return NextResponse.json({
     success: true,
     action,
+    ...(usesToday !== null && { uses_today: usesToday }),
     ...(activeTimeWindowWarning && { warning: activeTimeWindowWarning }),
     registration: {
       id: registration.id,
@@ -513,7 +615,7 @@ export async function POST(
       ticket_type: registration.ticket_types,
     }
   })
-}
+})
 
 // Helper function to log audit entries
 async function logAudit(supabase: any, data: {
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAdminClient } from "@/lib/supabase/server"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
+import {
+  declineWaitlistOffer,
+  getOfferByToken,
+  loadOfferDetails,
+} from "@/lib/services/waitlist-offers"
+
+type RouteParams = { params: Promise<{ token: string }> }
+
+const CLOSED_OFFER_MESSAGES: Record<string, string> = {
+  claimed: "This offer has already been claimed",
+  expired: "This offer has expired",
+  declined: "This offer was declined",
+  cancelled: "This offer was withdrawn",
+}
+
+// GET - Public view of a waitlist offer, for the claim page
+export const GET = rateLimitedRoute(async function GET(request: NextRequest, { params }: RouteParams) {
+  const rateLimit = await checkRateLimit(getClientIp(request), "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const { token } = await params
+    const supabase = (await createAdminClient()) as any
+
+    const offer = await getOfferByToken(supabase, token)
+    if (!offer) {
+      return NextResponse.json({ error: "Offer not found" }, { status: 404 })
+    }
+
+    const details = await loadOfferDetails(supabase, offer.event_id, offer.ticket_type_id)
+
+    return NextResponse.json({
+      status: offer.status,
+      name: offer.name,
+      email: offer.email,
+      event_name: details.eventName,
+      event_slug: details.eventSlug,
+      ticket_type_id: offer.ticket_type_id,
+      ticket_name: details.ticketName,
+      expires_at: offer.expires_at,
+    })
+  } catch (error) {
+    console.error("Error loading waitlist offer:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+})
+
+// POST - The holder passes on the seat; it goes to the next person in line
+export const POST = rateLimitedRoute(async function POST(request: NextRequest, { params }: RouteParams) {
+  const rateLimit = await checkRateLimit(getClientIp(request), "public")
+  if (!rateLimit.success) {
+    return rateLimitExceededResponse(rateLimit)
+  }
+
+  try {
+    const { token } = await params
+    const body = await request.json().catch(() => ({}))
+
+    if (body.action !== "decline") {
+      return NextResponse.json({ error: "Unknown action" }, { status: 400 })
+    }
+
+    const supabase = (await createAdminClient()) as any
+    const offer = await getOfferByToken(supabase, token)
+    if (!offer) {
+      return NextResponse.json({ error: "Offer not found" }, { status: 404 })
+    }
+
+    if (offer.status !== "active") {
+      return NextResponse.json({ error: CLOSED_OFFER_MESSAGES[offer.status] }, { status: 400 })
+    }
+
+    const declined = await declineWaitlistOffer(supabase, offer)
+    if (!declined) {
+      return NextResponse.json({ error: "This offer is no longer open" }, { status: 409 })
+    }
+
+    return NextResponse.json({ success: true, status: "declined" })
+  } catch (error) {
+    console.error("Error declining waitlist offer:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { makeRequest } from "@/test/helpers/request"
+import { fixtureAppleConfig } from "@/test/helpers/wallet-fixtures"
+
+const SERIAL = "55555555-5555-5555-5555-555555555555"
+const PASS_TYPE = "pass.org.example.test"
+const DEVICE = "device-abc"
+const AUTH_TOKEN = "t".repeat(48)
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+vi.mock("@/lib/supabase/server", () => ({
+  createAdminClient: async () => mock.client,
+}))
+
+vi.mock("@/lib/tenant", () => ({
+  getWalletConfig: () => ({ organizationName: "AMASI", apple: fixtureAppleConfig(), google: null }),
+}))
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+})
+
+function walletPass() {
+  return {
+    id: SERIAL,
+    event_id: "11111111-1111-1111-1111-111111111111",
+    registration_id: "33333333-3333-3333-3333-333333333333",
+    authentication_token: AUTH_TOKEN,
+    content_hash: "h",
+    content_updated_at: "2026-10-19T09:00:00.000Z",
+    apple_issued_at: "2026-10-19T09:00:00.000Z",
+    google_issued_at: null,
+  }
+}
+
+function call(method: "POST" | "DELETE", options: { auth?: string; passType?: string; body?: unknown } = {}) {
+  const passTypeId = options.passType ?? PASS_TYPE
+  const request = makeRequest(
+    `http://localhost/api/wallet/apple/v1/devices/${DEVICE}/registrations/${passTypeId}/${SERIAL}`,
+    {
+      method,
+      body: options.body ?? { pushToken: "push-1" },
+      headers: { Authorization: options.auth ?? `ApplePass ${AUTH_TOKEN}` },
+    }
+  )
+  return { request, params: { params: Promise.resolve({ deviceId: DEVICE, passTypeId, serial: SERIAL }) } }
+}
+
+function writes(method: string) {
+  return mock.calls.filter((c) => c.table === "wallet_pass_devices" && c.method === method)
+}
+
+describe("POST (register a device)", () => {
+  it("401s with the wrong pass token or an unknown pass type", async () => {
+    mock.queueResponse("wallet_passes", { data: walletPass(), error: null })
+    const { POST } = await import("./route")
+    const wrong = call("POST", { auth: `ApplePass ${"x".repeat(48)}` })
+    expect((await POST(wrong.request, wrong.params)).status).toBe(401)
+
+    const otherType = call("POST", { passType: "pass.com.someone.else" })
+    expect((await POST(otherType.request, otherType.params)).status).toBe(401)
+    expect(writes("insert")).toHaveLength(0)
+  })
+
+  it("201s a new registration", async () => {
+    mock.queueResponse("wallet_passes", { data: walletPass(), error: null })
+    mock.queueResponse("wallet_pass_devices", { data: null, error: null })
+    const { POST } = await import("./route")
+    const { request, params } = call("POST")
+    expect((await POST(request, params)).status).toBe(201)
+    expect(writes("insert")[0].args[0]).toEqual({
+      device_library_identifier: DEVICE,
+      pass_type_identifier: PASS_TYPE,
+      serial_number: SERIAL,
+      push_token: "push-1",
+    })
+  })
+
+  it("200s a repeat registration, taking a rotated push token", async () => {
+    mock.queueResponse("wallet_passes", { data: walletPass(), error: null })
+    mock.queueResponse("wallet_pass_devices", { data: { push_token: "push-old" }, error: null })
+    const { POST } = await import("./route")
+    const { request, params } = call("POST")
+    expect((await POST(request, params)).status).toBe(200)
+    expect(writes("update")[0].args[0]).toEqual({ push_token: "push-1" })
+    expect(writes("insert")).toHaveLength(0)
+  })
+
+  it("400s without a push token", async () => {
+    const { POST } = await import("./route")
+    const { request, params } = call("POST", { body: {} })
+    expect((await POST(request, params)).status).toBe(400)
+  })
+})
+
+describe("DELETE (unregister a device)", () => {
+  it("removes only this device's registration for the pass", async () => {
+    mock.queueResponse("wallet_passes", { data: walletPass(), error: null })
+    const { DELETE } = await import("./route")
+    const { request, params } = call("DELETE")
+    expect((await DELETE(request, params)).status).toBe(200)
+    expect(writes("delete")).toHaveLength(1)
+    const filters = mock.calls.filter((c) => c.table === "wallet_pass_devices" && c.method === "eq").map((c) => c.args)
+    expect(filters).toEqual([
+      ["device_library_identifier", DEVICE],
+      ["pass_type_identifier", PASS_TYPE],
+      ["serial_number", SERIAL],
+    ])
+  })
+})
@@ -0,0 +1,96 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { getWalletConfig } from "@/lib/tenant"
+import { findAuthorizedPass } from "@/lib/services/wallet-passes"
+
+type Params = { params: Promise<{ deviceId: string; passTypeId: string; serial: string }> }
+
+function forRegistration(query: any, deviceId: string, passTypeId: string, serial: string) {
+  return query.eq("device_library_identifier", deviceId).eq("pass_type_identifier", passTypeId).eq("serial_number", serial)
+}
+
+// Apple Wallet web service: a device registering for (POST) or dropping
+// (DELETE) update pushes for a pass. Wallet calls these itself when the pass
+// is added or removed; the device proves it holds the pass with the pass's
+// "ApplePass <authenticationToken>" header. Status codes are Apple's.
+
+export async function POST(request: NextRequest, { params }: Params) {
+  const { deviceId, passTypeId, serial } = await params
+  const { apple } = getWalletConfig()
+  if (!apple) return new NextResponse(null, { status: 404 })
+
+  let pushToken: unknown
+  try {
+    pushToken = (await request.json()).pushToken
+  } catch {
+    pushToken = null
+  }
+  if (typeof pushToken !== "string" || !pushToken || pushToken.length > 200 || deviceId.length > 200) {
+    return new NextResponse(null, { status: 400 })
+  }
+
+  try {
+    const supabase = await createAdminClient()
+    const pass = await findAuthorizedPass(supabase, apple, passTypeId, serial, request.headers.get("authorization"))
+    if (!pass) return new NextResponse(null, { status: 401 })
+
+    const { data: existing, error: lookupError } = await forRegistration(
+      (supabase as any).from("wallet_pass_devices").select("push_token"),
+      deviceId,
+      passTypeId,
+      pass.id
+    ).maybeSingle()
+    if (lookupError) throw lookupError
+
+    // Already registered: 200, refreshing the push token if it rotated.
+    if (existing) {
+      if (existing.push_token !== pushToken) {
+        const { error } = await forRegistration(
+          (supabase as any).from("wallet_pass_devices").update({ push_token: pushToken }),
+          deviceId,
+          passTypeId,
+          pass.id
+        )
+        if (error) throw error
+      }
+      return new NextResponse(null, { status: 200 })
+    }
+
+    const { error } = await (supabase as any).from("wallet_pass_devices").insert({
+      device_library_identifier: deviceId,
+      pass_type_identifier: passTypeId,
+      serial_number: pass.id,
+      push_token: pushToken,
+    })
+    if (error && error.code !== "23505") throw error
+    return new NextResponse(null, { status: 201 })
+  } catch (error) {
+    Sentry.captureException(error, { tags: { route: "wallet/apple/register" } })
+    return new NextResponse(null, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { deviceId, passTypeId, serial } = await params
+  const { apple } = getWalletConfig()
+  if (!apple) return new NextResponse(null, { status: 404 })
+
+  try {
+    const supabase = await createAdminClient()
+    const pass = await findAuthorizedPass(supabase, apple, passTypeId, serial, request.headers.get("authorization"))
+    if (!pass) return new NextResponse(null, { status: 401 })
+
+    const { error } = await forRegistration(
+      (supabase as any).from("wallet_pass_devices").delete(),
+      deviceId,
+      passTypeId,
+      pass.id
+    )
+    if (error) throw error
+    return new NextResponse(null, { status: 200 })
+  } catch (error) {
+    Sentry.captureException(error, { tags: { route: "wallet/apple/unregister" } })
+    return new NextResponse(null, { status: 500 })
+  }
+}
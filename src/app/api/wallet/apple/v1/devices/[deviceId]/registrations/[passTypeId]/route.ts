@@ -0,0 +1,49 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { getWalletConfig } from "@/lib/tenant"
+
+// GET /api/wallet/apple/v1/devices/[deviceId]/registrations/[passTypeId]?passesUpdatedSince=
+// Apple Wallet web service: which of the passes this device registered for
+// have changed. A device calls this after an update push (and on pull to
+// refresh), sending back the lastUpdated tag from its previous answer. The
+// tag is the latest content_updated_at, so only passes the sync cron saw
+// change come back. 204 when nothing has.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ deviceId: string; passTypeId: string }> }
+) {
+  const { deviceId, passTypeId } = await params
+  const { apple } = getWalletConfig()
+  if (!apple || passTypeId !== apple.passTypeIdentifier) return new NextResponse(null, { status: 404 })
+
+  const since = new URL(request.url).searchParams.get("passesUpdatedSince")
+  const sinceTime = since ? Date.parse(since) : NaN
+
+  try {
+    const supabase = await createAdminClient()
+    const { data, error } = await (supabase as any)
+      .from("wallet_pass_devices")
+      .select("serial_number, wallet_passes (content_updated_at)")
+      .eq("device_library_identifier", deviceId)
+      .eq("pass_type_identifier", passTypeId)
+    if (error) throw error
+
+    const updated = (data || []).filter((row: any) => {
+      const updatedAt = row.wallet_passes?.content_updated_at
+      return updatedAt && (Number.isNaN(sinceTime) || Date.parse(updatedAt) > sinceTime)
+    })
+    if (updated.length === 0) return new NextResponse(null, { status: 204 })
+
+    const lastUpdated = updated
+      .map((row: any) => row.wallet_passes.content_updated_at as string)
+      .reduce((latest: string, at: string) => (Date.parse(at) > Date.parse(latest) ? at : latest))
+    return NextResponse.json({
+      serialNumbers: updated.map((row: any) => row.serial_number),
+      lastUpdated,
+    })
+  } catch (error) {
+    Sentry.captureException(error, { tags: { route: "wallet/apple/registrations" } })
+    return new NextResponse(null, { status: 500 })
+  }
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server"
+
+// POST /api/wallet/apple/v1/log - Apple Wallet web service: devices report
+// problems with our passes or web service here (a bad signature, a 401 they
+// didn't expect). Only worth reading in the server logs.
+export async function POST(request: NextRequest) {
+  try {
+    const { logs } = await request.json()
+    if (Array.isArray(logs)) {
+      for (const line of logs.slice(0, 20)) {
+        console.warn("Apple Wallet device log:", String(line).slice(0, 500))
+      }
+    }
+  } catch {
+    // Malformed body -- nothing to log.
+  }
+  return new NextResponse(null, { status: 200 })
+}
@@ -0,0 +1,59 @@
+import { createAdminClient } from "@/lib/supabase/server"
+import { NextRequest, NextResponse } from "next/server"
+import * as Sentry from "@sentry/nextjs"
+import { getRequiredAppUrl, getWalletConfig } from "@/lib/tenant"
+import { buildPassContent } from "@/lib/wallet/pass-content"
+import {
+  findAuthorizedPass,
+  loadPassSource,
+  recordPassContent,
+  renderApplePass,
+} from "@/lib/services/wallet-passes"
+
+// GET /api/wallet/apple/v1/passes/[passTypeId]/[serial] - Apple Wallet web
+// service: the latest version of a pass, re-rendered from the registration,
+// event and program as they are now. Answers 304 when the content hasn't
+// changed since the device's If-Modified-Since.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ passTypeId: string; serial: string }> }
+) {
+  const { passTypeId, serial } = await params
+  const config = getWalletConfig()
+  if (!config.apple) return new NextResponse(null, { status: 404 })
+
+  try {
+    const supabase = await createAdminClient()
+    let pass = await findAuthorizedPass(supabase, config.apple, passTypeId, serial, request.headers.get("authorization"))
+    if (!pass) return new NextResponse(null, { status: 401 })
+
+    const source = await loadPassSource(supabase, { registrationId: pass.registration_id })
+    if (!source) return new NextResponse(null, { status: 404 })
+
+    // Usually the sync cron has already recorded this content; recording it
+    // here too covers a device that refreshes before the cron's next run.
+    const appUrl = getRequiredAppUrl()
+    const content = buildPassContent(source, appUrl)
+    pass = await recordPassContent(supabase, pass, content)
+
+    // HTTP dates have whole seconds; compare at that precision.
+    const lastModified = new Date(pass.content_updated_at)
+    lastModified.setUTCMilliseconds(0)
+    const ifModifiedSince = Date.parse(request.headers.get("if-modified-since") || "")
+    if (!Number.isNaN(ifModifiedSince) && lastModified.getTime() <= ifModifiedSince) {
+      return new NextResponse(null, { status: 304 })
+    }
+
+    const pkpass = renderApplePass(content, pass, { apple: config.apple, organizationName: config.organizationName }, appUrl)
+    return new NextResponse(new Uint8Array(pkpass), {
+      headers: {
+        "Content-Type": "application/vnd.apple.pkpass",
+        "Last-Modified": lastModified.toUTCString(),
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    Sentry.captureException(error, { tags: { route: "wallet/apple/pass" }, extra: { serial } })
+    return new NextResponse(null, { status: 500 })
+  }
+}
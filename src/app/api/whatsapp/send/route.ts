@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { createAdminClient } from "@/lib/supabase/server"
 import { requireAdmin } from "@/lib/auth/api-auth"
-import { checkRateLimit, getClientIp, rateLimitExceededResponse } from "@/lib/rate-limit"
+import { checkRateLimit, getClientIp, rateLimitExceededResponse, rateLimitedRoute } from "@/lib/rate-limit"
 import { isGallaboxEnabled } from "@/lib/gallabox"
 import { isQikchatEnabled } from "@/lib/qikchat"
 import { sendWhatsAppTemplate, sendWhatsAppText } from "@/lib/whatsapp-send"
@@ -18,9 +18,9 @@ interface SendRequest {
 }
 
 // POST /api/whatsapp/send
-export async function POST(request: NextRequest) {
+export const POST = rateLimitedRoute(async function POST(request: NextRequest) {
   const ip = getClientIp(request)
-  const rateLimit = checkRateLimit(ip, "bulk")
+  const rateLimit = await checkRateLimit(ip, "bulk")
   if (!rateLimit.success) {
     return rateLimitExceededResponse(rateLimit)
   }
@@ -105,4 +105,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,290 @@
+"use client"
+
+import { Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { FACULTY_ROLES, ROLE_LABELS } from "@/lib/agenda-roles"
+import { describeBadgeCondition, type BadgeConditionLabels } from "@/lib/badge-conditions"
+import type {
+  BadgeCondition,
+  BadgeConditionRule,
+  BadgeElement,
+  BadgeElementVariant,
+} from "@/lib/badge-template-types"
+
+interface Option {
+  id: string
+  name: string
+}
+
+const FIELD_LABELS: Record<BadgeConditionRule["field"], string> = {
+  ticket_type: "Ticket type",
+  faculty_role: "Faculty role",
+  addon: "Addon",
+  membership: "Membership",
+}
+
+const OP_LABELS: Record<string, string> = {
+  in: "is one of",
+  not_in: "is not",
+  none: "not faculty",
+  has_any: "has any of",
+  has_none: "has none of",
+  is_member: "is a member",
+  not_member: "is not a member",
+}
+
+const FIELD_OPS: Record<BadgeConditionRule["field"], string[]> = {
+  ticket_type: ["in", "not_in"],
+  faculty_role: ["in", "none"],
+  addon: ["has_any", "has_none"],
+  membership: ["is_member", "not_member"],
+}
+
+function newRule(field: BadgeConditionRule["field"]): BadgeConditionRule {
+  switch (field) {
+    case "ticket_type":
+      return { field, op: "in", value: [] }
+    case "faculty_role":
+      return { field, op: "in", value: [] }
+    case "addon":
+      return { field, op: "has_any", value: [] }
+    case "membership":
+      return { field, op: "is_member" }
+  }
+}
+
+function ConditionEditor({
+  condition,
+  onChange,
+  ticketTypes,
+  addons,
+}: {
+  condition: BadgeCondition
+  onChange: (condition: BadgeCondition) => void
+  ticketTypes: Option[]
+  addons: Option[]
+}) {
+  const setRule = (index: number, rule: BadgeConditionRule) =>
+    onChange({ ...condition, rules: condition.rules.map((r, i) => (i === index ? rule : r)) })
+  const removeRule = (index: number) => onChange({ ...condition, rules: condition.rules.filter((_, i) => i !== index) })
+
+  const valueOptions = (field: BadgeConditionRule["field"]): Option[] => {
+    if (field === "ticket_type") return ticketTypes
+    if (field === "addon") return addons
+    if (field === "faculty_role") return FACULTY_ROLES.map((role) => ({ id: role, name: ROLE_LABELS[role].one }))
+    return []
+  }
+
+  return (
+    <div className="space-y-2">
+      {condition.rules.length > 1 && (
+        <Select value={condition.match} onValueChange={(v) => onChange({ ...condition, match: v as BadgeCondition["match"] })}>
+          <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Match all rules</SelectItem>
+            <SelectItem value="any">Match any rule</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+      {condition.rules.map((rule, index) => {
+        const options = valueOptions(rule.field)
+        const values = "value" in rule ? rule.value : []
+        const showValues = rule.field !== "membership" && !(rule.field === "faculty_role" && rule.op === "none")
+        return (
+          <div key={index} className="p-2 rounded-lg border bg-muted/30 space-y-2">
+            <div className="flex items-center gap-1">
+              <Select value={rule.field} onValueChange={(v) => setRule(index, newRule(v as BadgeConditionRule["field"]))}>
+                <SelectTrigger className="h-7 text-xs flex-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FIELD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button onClick={() => removeRule(index)} className="p-1 text-muted-foreground hover:text-destructive" title="Remove rule">
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+            <Select value={rule.op} onValueChange={(op) => setRule(index, { ...rule, op } as BadgeConditionRule)}>
+              <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {FIELD_OPS[rule.field].map((op) => (
+                  <SelectItem key={op} value={op}>{OP_LABELS[op]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {showValues && (
+              <div className="flex flex-wrap gap-1">
+                {options.length === 0 && <span className="text-[11px] text-muted-foreground">Nothing to choose from</span>}
+                {options.map((option) => {
+                  const selected = values.includes(option.id)
+                  return (
+                    <button
+                      key={option.id}
+                      onClick={() =>
+                        setRule(index, {
+                          ...rule,
+                          value: selected ? values.filter((v) => v !== option.id) : [...values, option.id],
+                        } as BadgeConditionRule)
+                      }
+                      className={cn(
+                        "px-2 py-0.5 rounded-full border text-[11px] transition-colors",
+                        selected ? "bg-primary text-primary-foreground border-primary" : "bg-background hover:bg-muted"
+                      )}
+                    >
+                      {option.name}
+                    </button>
+                  )
+                })}
+                {rule.field === "faculty_role" && values.length === 0 && (
+                  <span className="text-[11px] text-muted-foreground">None picked: any role</span>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function AddRuleButton({ onAdd }: { onAdd: (rule: BadgeConditionRule) => void }) {
+  return (
+    <Select value="" onValueChange={(field) => onAdd(newRule(field as BadgeConditionRule["field"]))}>
+      <SelectTrigger className="h-7 text-xs">
+        <span className="flex items-center gap-1 text-muted-foreground"><Plus className="h-3 w-3" />Add rule</span>
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(FIELD_LABELS).map(([value, label]) => (
+          <SelectItem key={value} value={value}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * "Show when" and per-category colour variants for the selected element.
+ * Rules are evaluated per attendee by resolveBadgeElements() at print time.
+ */
+export function ElementConditionsPanel({
+  element,
+  ticketTypes,
+  addons,
+  onChange,
+}: {
+  element: BadgeElement
+  ticketTypes: Option[]
+  addons: Option[]
+  onChange: (updates: Partial<BadgeElement>) => void
+}) {
+  const labels: BadgeConditionLabels = {
+    ticketTypes: Object.fromEntries(ticketTypes.map((t) => [t.id, t.name])),
+    addons: Object.fromEntries(addons.map((a) => [a.id, a.name])),
+  }
+  const showWhen = element.showWhen || { match: "all" as const, rules: [] }
+  const variants = element.variants || []
+  const hasFill = element.type === "shape" || element.type === "text"
+  const hasColor = element.type === "text" || element.type === "line"
+
+  // No rules left means everyone: drop the condition rather than store an empty one
+  const setShowWhen = (condition: BadgeCondition) =>
+    onChange({ showWhen: condition.rules.length > 0 ? condition : undefined })
+  const setVariants = (next: BadgeElementVariant[]) => onChange({ variants: next.length > 0 ? next : undefined })
+  const setVariant = (index: number, updates: Partial<BadgeElementVariant>) =>
+    setVariants(variants.map((v, i) => (i === index ? { ...v, ...updates } : v)))
+
+  return (
+    <>
+      <div>
+        <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Show When</Label>
+        <p className="text-xs text-muted-foreground mt-1">{describeBadgeCondition(element.showWhen, labels)}</p>
+        <div className="mt-2 space-y-2">
+          <ConditionEditor condition={showWhen} onChange={setShowWhen} ticketTypes={ticketTypes} addons={addons} />
+          <AddRuleButton onAdd={(rule) => setShowWhen({ ...showWhen, rules: [...showWhen.rules, rule] })} />
+        </div>
+      </div>
+
+      {(hasFill || hasColor) && (
+        <div>
+          <div className="flex items-center justify-between">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Variants</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() =>
+                setVariants([
+                  ...variants,
+                  {
+                    when: { match: "all", rules: [] },
+                    ...(hasFill ? { backgroundColor: element.backgroundColor || "#e5e7eb" } : {}),
+                    ...(hasColor ? { color: element.color || "#000000" } : {}),
+                  },
+                ])
+              }
+            >
+              <Plus className="h-3 w-3 mr-1" />Add
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            Colour or text per category, e.g. a band per ticket type. The first match wins.
+          </p>
+          <div className="mt-2 space-y-3">
+            {variants.map((variant, index) => (
+              <div key={index} className="p-2 rounded-lg border space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium flex-1 truncate">
+                    {index + 1}. {describeBadgeCondition(variant.when, labels)}
+                  </span>
+                  <button onClick={() => setVariants(variants.filter((_, i) => i !== index))} className="p-1 text-muted-foreground hover:text-destructive" title="Remove variant">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+                <ConditionEditor
+                  condition={variant.when}
+                  onChange={(when) => setVariant(index, { when })}
+                  ticketTypes={ticketTypes}
+                  addons={addons}
+                />
+                <AddRuleButton onAdd={(rule) => setVariant(index, { when: { ...variant.when, rules: [...variant.when.rules, rule] } })} />
+                {hasFill && (
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs w-10">Fill</Label>
+                    <input type="color" value={variant.backgroundColor || "#e5e7eb"} onChange={(e) => setVariant(index, { backgroundColor: e.target.value })} className="h-7 w-9 rounded border cursor-pointer" />
+                    <Input value={variant.backgroundColor || ""} onChange={(e) => setVariant(index, { backgroundColor: e.target.value || undefined })} className="flex-1 h-7 text-xs" placeholder="unchanged" />
+                  </div>
+                )}
+                {hasColor && (
+                  <div className="flex items-center gap-2">
+                    <Label className="text-xs w-10">Colour</Label>
+                    <input type="color" value={variant.color || "#000000"} onChange={(e) => setVariant(index, { color: e.target.value })} className="h-7 w-9 rounded border cursor-pointer" />
+                    <Input value={variant.color || ""} onChange={(e) => setVariant(index, { color: e.target.value || undefined })} className="flex-1 h-7 text-xs" placeholder="unchanged" />
+                  </div>
+                )}
+                {element.type === "text" && (
+                  <Input
+                    value={variant.content ?? ""}
+                    onChange={(e) => setVariant(index, { content: e.target.value || undefined })}
+                    className="h-7 text-xs"
+                    placeholder="Text (unchanged if empty)"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -91,6 +91,7 @@ import {
   CheckCircle,
   Package,
   AlertTriangle,
+  History,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { clampElementToCanvas } from "@/lib/badge-element-bounds"
@@ -98,6 +99,9 @@ import { BADGE_SIZES, type BadgeElement, type BadgeTemplate } from "@/lib/badge-
 import { BadgeCanvas } from "@/components/badges/badge-canvas"
 import { BadgeElementView } from "@/components/badges/badge-element-view"
 import type { BadgeEventLike } from "@/lib/badge-placeholders"
+import { ElementConditionsPanel } from "./element-conditions-panel"
+import { TemplateHistoryDialog } from "./template-history-dialog"
+import { findTextOverflows } from "./preview-overflows"
 
 // Predefined fields with Lucide icons
 const PREDEFINED_FIELDS: { key: string; label: string; icon: any; placeholder: string; defaultSize: { w: number; h: number }; fontSize: number; fontWeight: "normal" | "bold" }[] = [
@@ -925,6 +929,7 @@ function BadgeDesignerPage() {
   const [snapGuides, setSnapGuides] = useState<{ horizontal: number[]; vertical: number[] }>({ horizontal: [], vertical: [] })
   const [showRulers, setShowRulers] = useState(true)
   const [isPreBuiltDialogOpen, setIsPreBuiltDialogOpen] = useState(false)
+  const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false)
   const [exportFormat, setExportFormat] = useState<"pdf">("pdf")
   const [badgesPerPage, setBadgesPerPage] = useState(1)
 
@@ -1114,6 +1119,14 @@ function BadgeDesignerPage() {
     },
   })
 
+  const { data: addons } = useQuery({
+    queryKey: ["addons-badge", eventId],
+    queryFn: async () => {
+      const { data } = await (supabase as any).from("addons").select("id, name").eq("event_id", eventId)
+      return data || []
+    },
+  })
+
   const { data: savedTemplates, isLoading: isLoadingTemplates } = useQuery({
     queryKey: ["badge-templates", eventId],
     queryFn: async () => {
@@ -1245,6 +1258,21 @@ function BadgeDesignerPage() {
 
   const currentRegistration = filteredRegistrations?.[previewIndex]
   const badgeSize = BADGE_SIZES[template.size]
+  const previewEvent = (event ?? undefined) as BadgeEventLike | undefined
+  const previewOverflows = previewMode ? findTextOverflows(template.elements, currentRegistration, previewEvent) : []
+
+  // Jumps to the next attendee (in the current filter) whose text doesn't fit
+  const goToNextOverflow = () => {
+    const count = filteredRegistrations.length
+    for (let step = 1; step < count; step++) {
+      const index = (previewIndex + step) % count
+      if (findTextOverflows(template.elements, filteredRegistrations[index], previewEvent).length > 0) {
+        setPreviewIndex(index)
+        return
+      }
+    }
+    toast.success(previewOverflows.length > 0 ? "No other attendee's text overflows" : "All text fits for every attendee")
+  }
 
   // Handlers
   const handleElementSelect = useCallback((elementId: string, e?: React.MouseEvent) => {
@@ -2269,6 +2297,7 @@ function BadgeDesignerPage() {
               <span className="hidden sm:inline">Templates</span>
               {savedTemplates?.length > 0 && <span className="text-xs bg-muted px-1.5 py-0.5 rounded">{savedTemplates.length}</span>}
             </Button>
+            <Button variant="ghost" size="icon" onClick={() => setIsHistoryDialogOpen(true)} disabled={!savedTemplateId} title="Version History"><History className="h-4 w-4" /></Button>
             <div className="h-4 w-px bg-border mx-1" />
             <Button variant="ghost" size="icon" onClick={undo} disabled={historyIndex <= 0} title="Undo (Ctrl+Z)"><Undo2 className="h-4 w-4" /></Button>
             <Button variant="ghost" size="icon" onClick={redo} disabled={historyIndex >= history.length - 1} title="Redo (Ctrl+Y)"><Redo2 className="h-4 w-4" /></Button>
@@ -2410,13 +2439,22 @@ function BadgeDesignerPage() {
                 </div>
               )}
               {previewMode ? (
-                <BadgeCanvas
-                  template={template}
-                  mode="live"
-                  registration={currentRegistration}
-                  event={(event ?? undefined) as BadgeEventLike | undefined}
-                  scale={zoom}
-                />
+                <>
+                  <BadgeCanvas
+                    template={template}
+                    mode="live"
+                    registration={currentRegistration}
+                    event={previewEvent}
+                    scale={zoom}
+                  />
+                  {previewOverflows.map(({ element }) => (
+                    <div
+                      key={element.id}
+                      className="absolute border-2 border-dashed border-red-500 pointer-events-none"
+                      style={{ left: element.x * zoom, top: element.y * zoom, width: element.width * zoom, height: element.height * zoom, zIndex: 998 }}
+                    />
+                  ))}
+                </>
               ) : (
                 template.elements.sort((a, b) => a.zIndex - b.zIndex).map(renderElement)
               )}
@@ -2509,6 +2547,18 @@ function BadgeDesignerPage() {
               <Button variant="outline" size="sm" onClick={() => setPreviewIndex((i) => Math.min(filteredRegistrations.length - 1, i + 1))} disabled={previewIndex >= filteredRegistrations.length - 1 || filteredRegistrations.length === 0}>
                 <ChevronRight className="h-4 w-4" />
               </Button>
+              <div className="h-4 w-px bg-border" />
+              {previewOverflows.length > 0 ? (
+                <span className="flex items-center gap-1.5 text-xs text-red-600" title={previewOverflows.map((o) => o.text).join("\n")}>
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  {previewOverflows.length} text {previewOverflows.length === 1 ? "element overflows" : "elements overflow"}
+                </span>
+              ) : filteredRegistrations.length > 0 && (
+                <span className="flex items-center gap-1.5 text-xs text-emerald-600"><CheckCircle className="h-3.5 w-3.5" />All text fits</span>
+              )}
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={goToNextOverflow} disabled={filteredRegistrations.length < 2}>
+                Next overflow
+              </Button>
             </div>
           </div>
         )}
@@ -2806,6 +2856,14 @@ function BadgeDesignerPage() {
               </div>
             )}
 
+            {/* Conditional visibility and colour variants */}
+            <ElementConditionsPanel
+              element={selectedElement}
+              ticketTypes={ticketTypes || []}
+              addons={addons || []}
+              onChange={(updates) => updateElement(selectedElement.id, updates)}
+            />
+
             {/* Layer Controls */}
             <div>
               <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Layer</Label>
@@ -2889,6 +2947,17 @@ function BadgeDesignerPage() {
       </div>
 
       {/* Templates Dialog */}
+      <TemplateHistoryDialog
+        templateId={savedTemplateId}
+        open={isHistoryDialogOpen}
+        onOpenChange={setIsHistoryDialogOpen}
+        hasUnsavedChanges={hasUnsavedChanges}
+        onRestored={(restored) => {
+          loadTemplate(restored)
+          queryClient.invalidateQueries({ queryKey: ["badge-templates", eventId] })
+        }}
+      />
+
       <Dialog open={isTemplateDialogOpen} onOpenChange={setIsTemplateDialogOpen}>
         <DialogContent className="sm:max-w-2xl">
           <DialogHeader>
@@ -0,0 +1,62 @@
+import { measureTextFit } from "@/lib/badge-element-bounds"
+import { badgeAudienceFromRegistration, resolveBadgeElements, type BadgeAudienceSource } from "@/lib/badge-conditions"
+import {
+  applyTextCase,
+  replacePlaceholders,
+  type BadgeEventLike,
+  type BadgeRegistrationLike,
+} from "@/lib/badge-placeholders"
+import type { BadgeElement } from "@/lib/badge-template-types"
+
+export interface TextOverflow {
+  element: BadgeElement
+  text: string
+  lines: number
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+  if (!measureContext && typeof document !== "undefined") {
+    measureContext = document.createElement("canvas").getContext("2d")
+  }
+  return measureContext
+}
+
+/**
+ * Text elements that spill out of their box on one attendee's badge, measured
+ * at the designer's 1:1 scale with the browser's own font metrics. Faculty
+ * roles and membership aren't loaded here, so elements conditional on them
+ * are checked as for a non-member delegate.
+ */
+export function findTextOverflows(
+  elements: BadgeElement[],
+  registration: (BadgeRegistrationLike & BadgeAudienceSource) | undefined,
+  event: BadgeEventLike | undefined
+): TextOverflow[] {
+  const ctx = getMeasureContext()
+  if (!ctx || !registration) return []
+
+  const overflows: TextOverflow[] = []
+  for (const element of resolveBadgeElements(elements, badgeAudienceFromRegistration(registration))) {
+    if (element.type !== "text" || !element.content) continue
+    const text = applyTextCase(replacePlaceholders(element.content, registration, event), element.textCase)
+    if (!text) continue
+
+    ctx.font = `${element.fontStyle || "normal"} ${element.fontWeight || "normal"} ${element.fontSize || 14}px ${element.fontFamily || "Arial, sans-serif"}`
+    const border = (element.borderWidth || 0) * 2
+    const fit = measureTextFit(
+      text,
+      {
+        width: element.width - border,
+        height: element.height - border,
+        fontSize: element.fontSize || 14,
+        lineHeight: element.lineHeight,
+        letterSpacing: element.letterSpacing,
+      },
+      (value) => ctx.measureText(value).width
+    )
+    if (fit.overflows) overflows.push({ element, text, lines: fit.lines })
+  }
+  return overflows
+}
@@ -0,0 +1,168 @@
+"use client"
+
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { toast } from "sonner"
+import { History, Loader2, Minus, Pencil, Plus, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import type { BadgeTemplateChange } from "@/lib/badge-template-versions"
+
+interface VersionRow {
+  id: string
+  version: number
+  name: string
+  size: string | null
+  note: string | null
+  created_at: string
+}
+
+interface VersionDetail {
+  changes: BadgeTemplateChange[]
+  summary: string
+}
+
+function ChangeIcon({ kind }: { kind: BadgeTemplateChange["kind"] }) {
+  if (kind === "added") return <Plus className="h-3.5 w-3.5 text-emerald-600" />
+  if (kind === "removed") return <Minus className="h-3.5 w-3.5 text-destructive" />
+  return <Pencil className="h-3.5 w-3.5 text-amber-600" />
+}
+
+/**
+ * Saved versions of a template. Picking one shows what restoring it would
+ * change about the current design; restoring saves it as a new version.
+ */
+export function TemplateHistoryDialog({
+  templateId,
+  open,
+  onOpenChange,
+  hasUnsavedChanges,
+  onRestored,
+}: {
+  templateId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  hasUnsavedChanges: boolean
+  onRestored: (template: any) => void
+}) {
+  const [selected, setSelected] = useState<number | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ["badge-template-versions", templateId],
+    queryFn: async () => {
+      const res = await fetch(`/api/badge-templates/${templateId}/versions`, { cache: "no-store" })
+      if (!res.ok) throw new Error("Failed to load version history")
+      return res.json() as Promise<{ current_version: number | null; versions: VersionRow[] }>
+    },
+    enabled: open && !!templateId,
+  })
+
+  const { data: detail, isFetching: isLoadingDetail } = useQuery({
+    queryKey: ["badge-template-version", templateId, selected],
+    queryFn: async () => {
+      const res = await fetch(`/api/badge-templates/${templateId}/versions/${selected}`, { cache: "no-store" })
+      if (!res.ok) throw new Error("Failed to load version")
+      return res.json() as Promise<VersionDetail>
+    },
+    enabled: open && !!templateId && selected !== null,
+  })
+
+  const restore = async () => {
+    if (!templateId || selected === null) return
+    if (hasUnsavedChanges && !confirm("You have unsaved changes that will be lost. Restore anyway?")) return
+    setIsRestoring(true)
+    try {
+      const res = await fetch(`/api/badge-templates/${templateId}/versions/${selected}/restore`, { method: "POST" })
+      const result = await res.json()
+      if (!res.ok) {
+        toast.error(result.message || result.error || "Failed to restore version")
+        return
+      }
+      onRestored(result.template)
+      setSelected(null)
+      refetch()
+      onOpenChange(false)
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const versions = data?.versions || []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2"><History className="h-5 w-5" />Version History</DialogTitle>
+        </DialogHeader>
+        {!templateId ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Save the template to start its history.</p>
+        ) : isLoading ? (
+          <div className="py-10 flex justify-center"><Loader2 className="h-5 w-5 animate-spin" /></div>
+        ) : (
+          <div className="grid grid-cols-[220px_1fr] gap-4 min-h-[320px]">
+            <div className="border rounded-lg overflow-auto max-h-[420px] divide-y">
+              {versions.map((v) => (
+                <button
+                  key={v.id}
+                  onClick={() => setSelected(v.version)}
+                  className={cn("w-full text-left px-3 py-2 hover:bg-muted/60", selected === v.version && "bg-primary/10")}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">v{v.version}</span>
+                    {v.version === data?.current_version && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400">Current</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{new Date(v.created_at).toLocaleString()}</p>
+                  {v.note && <p className="text-xs text-muted-foreground truncate">{v.note}</p>}
+                </button>
+              ))}
+              {versions.length === 0 && <p className="p-3 text-sm text-muted-foreground">No versions yet</p>}
+            </div>
+
+            <div className="border rounded-lg p-4 flex flex-col">
+              {selected === null ? (
+                <p className="text-sm text-muted-foreground m-auto">Pick a version to compare it with the current design</p>
+              ) : isLoadingDetail || !detail ? (
+                <div className="m-auto"><Loader2 className="h-5 w-5 animate-spin" /></div>
+              ) : (
+                <>
+                  <p className="text-sm font-medium">Restoring v{selected}: {detail.summary}</p>
+                  <div className="mt-3 space-y-1.5 flex-1 overflow-auto max-h-[300px]">
+                    {detail.changes.map((change, i) => (
+                      <div key={i} className="flex items-start gap-2 text-sm">
+                        <span className="mt-0.5"><ChangeIcon kind={change.kind} /></span>
+                        <span>
+                          {change.label}
+                          {change.kind === "changed" && <span className="text-muted-foreground"> · {change.fields.join(", ")}</span>}
+                          {(change.kind === "added" || change.kind === "removed") && (
+                            <span className="text-muted-foreground"> · {change.kind === "added" ? "comes back" : "goes away"}</span>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                    {detail.changes.length === 0 && <p className="text-sm text-muted-foreground">Same as the current design</p>}
+                  </div>
+                  <div className="pt-3 border-t flex justify-end">
+                    <Button size="sm" onClick={restore} disabled={isRestoring || detail.changes.length === 0}>
+                      {isRestoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                      Restore v{selected}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -86,6 +86,8 @@ import {
   UserCircle,
   FileImage,
   Wand2,
+  Award,
+  ScrollText,
 } from "lucide-react"
 import JsBarcode from "jsbarcode"
 import { cn } from "@/lib/utils"
@@ -111,6 +113,8 @@ const PREDEFINED_FIELDS: { key: string; label: string; icon: any; placeholder: s
   { key: "event_date", label: "Event Date", icon: Calendar, placeholder: "{{event_date}}", defaultSize: { w: 350, h: 30 }, fontSize: 18, fontWeight: "normal" },
   { key: "issue_date", label: "Issue Date", icon: Calendar, placeholder: "{{issue_date}}", defaultSize: { w: 300, h: 28 }, fontSize: 16, fontWeight: "normal" },
   { key: "registration_number", label: "Certificate No.", icon: Hash, placeholder: "{{registration_number}}", defaultSize: { w: 250, h: 25 }, fontSize: 14, fontWeight: "normal" },
+  { key: "cme_credits", label: "CME Credits", icon: Award, placeholder: "{{cme_credits}}", defaultSize: { w: 200, h: 30 }, fontSize: 18, fontWeight: "bold" },
+  { key: "cme_transcript", label: "CME Transcript", icon: ScrollText, placeholder: "{{cme_transcript}}", defaultSize: { w: 600, h: 120 }, fontSize: 12, fontWeight: "normal" },
 ]
 
 const FONT_OPTIONS = [
@@ -592,6 +596,9 @@ function CertificateDesignerPage() {
     result = result.replace(/\{\{institution\}\}/g, registration?.attendee_institution || "Institution")
     result = result.replace(/\{\{designation\}\}/g, registration?.attendee_designation || "Designation")
     result = result.replace(/\{\{event_name\}\}/g, event?.name || "Event Name")
+    // CME values come from hall-door attendance at download time; sample here
+    result = result.replace(/\{\{cme_credits\}\}/g, "2.50")
+    result = result.replace(/\{\{cme_transcript\}\}/g, "20 Oct · Keynote session · 1.00 credits\n20 Oct · Surgical masterclass · 1.50 credits")
     // Verification URL for QR codes
     const regNumber = registration?.registration_number || "REG001"
     result = result.replace(/\{\{verification_url\}\}/g, `${window.location.origin}/v/${regNumber}`)
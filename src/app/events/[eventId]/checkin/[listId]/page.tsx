@@ -185,6 +185,13 @@ export default function CheckinListAttendeesPage() {
       if (data?.warning) {
         toast.warning(data.warning)
       }
+      // Refused by the list's per-day entitlement rules or daily limit.
+      if (data?.denied?.length) {
+        toast.error(
+          `${data.denied.length} not checked in: ${data.denied[0].reason}` +
+            (data.denied.length > 1 ? ` (and ${data.denied.length - 1} more)` : "")
+        )
+      }
     },
     onError: (error: Error) => {
       toast.error(error.message || "Bulk check-in failed")
@@ -27,10 +27,12 @@ import {
   Ticket,
   ChevronRight,
   Package,
+  X,
 } from "lucide-react"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 import { LIST_CATEGORIES, CATEGORY_COLORS, type ListCategory } from "@/lib/checkin-list-category"
+import { MAX_SCANS_PER_DAY_LIMIT, type EntitlementRule } from "@/lib/checkin-entitlements"
 
 type CheckinList = {
   id: string
@@ -47,6 +49,8 @@ type CheckinList = {
   kiosk_opens_at?: string
   kiosk_closes_at?: string
   kiosk_force_state?: "open" | "closed" | null
+  entitlement_rules?: EntitlementRule[]
+  max_scans_per_day?: number | null
   created_at: string
   access_token?: string
 }
@@ -61,6 +65,12 @@ type Addon = {
   name: string
 }
 
+type MealPlan = {
+  id: string
+  name: string
+  date: string
+}
+
 // Local copies of the same conversion helpers used by
 // src/app/events/[eventId]/tickets/discounts/page.tsx for `valid_until` --
 // NOT exported from there, small per-page duplication is this codebase's
@@ -113,6 +123,9 @@ export default function CheckinListsPage() {
     kiosk_opens_at: "",
     kiosk_closes_at: "",
     kiosk_force_state: null as "open" | "closed" | null,
+    entitlement_rules: [] as EntitlementRule[],
+    // Kept as the input's text; "" = no daily limit.
+    max_scans_per_day: "",
   })
 
   // Fetch lists — goes through the API route (admin client) rather than a
@@ -158,6 +171,17 @@ export default function CheckinListsPage() {
     },
   })
 
+  // Fetch meal plans for meal-based entitlement rules. The meals API is
+  // admin-only, so a check-in-only user just doesn't get meal plan chips.
+  const { data: mealPlans } = useQuery({
+    queryKey: ["meal-plans-all", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/meals`)
+      if (!res.ok) return []
+      return ((await res.json()) || []) as MealPlan[]
+    },
+  })
+
   // Load selected list data into form
   useEffect(() => {
     if (selectedListId && lists) {
@@ -177,6 +201,8 @@ export default function CheckinListsPage() {
           kiosk_opens_at: toLocalDatetimeInput(list.kiosk_opens_at ?? null),
           kiosk_closes_at: toLocalDatetimeInput(list.kiosk_closes_at ?? null),
           kiosk_force_state: list.kiosk_force_state ?? null,
+          entitlement_rules: list.entitlement_rules || [],
+          max_scans_per_day: list.max_scans_per_day ? String(list.max_scans_per_day) : "",
         })
       }
     }
@@ -199,6 +225,8 @@ export default function CheckinListsPage() {
         kiosk_opens_at: fromLocalDatetimeInput(data.kiosk_opens_at),
         kiosk_closes_at: fromLocalDatetimeInput(data.kiosk_closes_at),
         kiosk_force_state: data.kiosk_force_state,
+        entitlement_rules: data.entitlement_rules,
+        max_scans_per_day: data.max_scans_per_day ? Number(data.max_scans_per_day) : null,
       }
       // Go through the API route — checkin_lists has an RLS policy that
       // blocks browser-session inserts; the API uses the admin client.
@@ -240,8 +268,8 @@ export default function CheckinListsPage() {
         }
       }
     },
-    onError: () => {
-      toast.error("Failed to save list")
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save list")
     },
   })
 
@@ -278,6 +306,8 @@ export default function CheckinListsPage() {
       kiosk_opens_at: "",
       kiosk_closes_at: "",
       kiosk_force_state: null,
+      entitlement_rules: [],
+      max_scans_per_day: "",
     })
   }
 
@@ -616,6 +646,19 @@ export default function CheckinListsPage() {
                   </div>
                 </div>
 
+                {/* Daily entitlements -- unlike the Schedule card above, these
+                    do turn scans away, with the reason shown at the desk and
+                    on the kiosk. See src/lib/checkin-entitlements.ts. */}
+                <EntitlementRulesCard
+                  rules={formData.entitlement_rules}
+                  maxScansPerDay={formData.max_scans_per_day}
+                  ticketTypes={ticketTypes || []}
+                  addons={addons || []}
+                  mealPlans={mealPlans || []}
+                  onRulesChange={(entitlement_rules) => setFormData({ ...formData, entitlement_rules })}
+                  onMaxScansPerDayChange={(max_scans_per_day) => setFormData({ ...formData, max_scans_per_day })}
+                />
+
                 {/* Kiosk schedule -- a completely separate system from the
                     Schedule card above (starts_at/ends_at is a soft warning
                     only, live today). This hard-gates whether the list is
@@ -834,3 +877,139 @@ export default function CheckinListsPage() {
     </div>
   )
 }
+
+function EntitlementRulesCard({
+  rules,
+  maxScansPerDay,
+  ticketTypes,
+  addons,
+  mealPlans,
+  onRulesChange,
+  onMaxScansPerDayChange,
+}: {
+  rules: EntitlementRule[]
+  maxScansPerDay: string
+  ticketTypes: TicketType[]
+  addons: Addon[]
+  mealPlans: MealPlan[]
+  onRulesChange: (rules: EntitlementRule[]) => void
+  onMaxScansPerDayChange: (value: string) => void
+}) {
+  const updateRule = (index: number, patch: Partial<EntitlementRule>) =>
+    onRulesChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)))
+
+  const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id])
+
+  const chipGroups = (rule: EntitlementRule, index: number) => [
+    {
+      label: "Ticket types",
+      options: ticketTypes,
+      selected: rule.ticket_type_ids,
+      onToggle: (id: string) => updateRule(index, { ticket_type_ids: toggle(rule.ticket_type_ids, id) }),
+    },
+    {
+      label: "Addons",
+      options: addons,
+      selected: rule.addon_ids,
+      onToggle: (id: string) => updateRule(index, { addon_ids: toggle(rule.addon_ids, id) }),
+    },
+    {
+      label: "Meal plans",
+      options: mealPlans,
+      selected: rule.meal_plan_ids,
+      onToggle: (id: string) => updateRule(index, { meal_plan_ids: toggle(rule.meal_plan_ids, id) }),
+    },
+  ]
+
+  return (
+    <div className="bg-card rounded-2xl border p-5 space-y-4">
+      <h3 className="font-medium flex items-center gap-2 text-sm text-muted-foreground uppercase tracking-wide">
+        <CalendarDays className="h-4 w-4" />
+        Daily Entitlements (Optional)
+      </h3>
+      <p className="text-xs text-muted-foreground">
+        Who can use this list on which day. With rules, a delegate gets in on a day when any rule for that day matches
+        everything it selects. Scans are refused with the reason shown at the desk and on the kiosk.
+      </p>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="rounded-xl border p-4 space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <Label className="text-sm font-medium">Day</Label>
+              <Input
+                type="date"
+                value={rule.day ?? ""}
+                onChange={(e) => updateRule(index, { day: e.target.value || null })}
+                className="mt-1.5"
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onRulesChange(rules.filter((_, i) => i !== index))}
+              aria-label="Remove rule"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {rule.day ? "Applies on this day only." : "No day — applies every day."} Nothing selected below lets
+            everyone in.
+          </p>
+          {chipGroups(rule, index)
+            .filter((group) => group.options.length > 0)
+            .map((group) => (
+              <div key={group.label}>
+                <Label className="text-xs text-muted-foreground">{group.label}</Label>
+                <div className="flex flex-wrap gap-2 mt-1.5">
+                  {group.options.map((option) => (
+                    <button
+                      key={option.id}
+                      type="button"
+                      onClick={() => group.onToggle(option.id)}
+                      className={cn(
+                        "px-3 py-1.5 rounded-lg text-xs font-medium border-2 transition-all",
+                        group.selected.includes(option.id)
+                          ? "bg-primary text-primary-foreground border-primary"
+                          : "bg-muted/50 border-transparent hover:border-primary/30"
+                      )}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+        </div>
+      ))}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onRulesChange([...rules, { day: null, ticket_type_ids: [], addon_ids: [], meal_plan_ids: [] }])
+        }
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add rule
+      </Button>
+
+      <div>
+        <Label className="text-sm font-medium">Max scans per day</Label>
+        <Input
+          type="number"
+          min={1}
+          max={MAX_SCANS_PER_DAY_LIMIT}
+          value={maxScansPerDay}
+          onChange={(e) => onMaxScansPerDayChange(e.target.value)}
+          placeholder="No limit"
+          className="mt-1.5 w-40"
+        />
+        <p className="text-xs text-muted-foreground mt-1.5">
+          Per delegate, per event day — e.g. 1 for one lunch coupon a day. Leave empty for the usual single check-in.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useMemo, useEffect } from "react"
-import { useParams, useSearchParams } from "next/navigation"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { useQuery } from "@tanstack/react-query"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
 import {
   Select,
   SelectContent,
@@ -28,6 +29,8 @@ import {
   FileText,
   Eye,
   AlertCircle,
+  CalendarClock,
+  Filter,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
@@ -36,6 +39,7 @@ type Channel = "email" | "whatsapp" | "sms"
 
 export default function ComposeMessagePage() {
   const params = useParams()
+  const router = useRouter()
   const searchParams = useSearchParams()
   const eventId = params.eventId as string
   const supabase = createClient()
@@ -47,9 +51,13 @@ export default function ComposeMessagePage() {
   const [statusFilter, setStatusFilter] = useState<string>("all")
   const [ticketFilter, setTicketFilter] = useState<string>("all")
   const [designationFilter, setDesignationFilter] = useState<string>("all")
+  const [campaignName, setCampaignName] = useState("")
+  const [sendLater, setSendLater] = useState(false)
+  const [scheduledAt, setScheduledAt] = useState("")
   const [sending, setSending] = useState(false)
   const [showPreview, setShowPreview] = useState(false)
   const [bulkRecipientIds, setBulkRecipientIds] = useState<Set<string> | null>(null)
+  const [segmentId, setSegmentId] = useState<string>(searchParams.get("segment") || "")
 
   // Load pre-selected recipients from bulk registration flow
   useEffect(() => {
@@ -130,10 +138,41 @@ export default function ComposeMessagePage() {
     },
   })
 
+  // Fetch saved audience segments
+  const { data: segments } = useQuery({
+    queryKey: ["audience-segments", eventId],
+    queryFn: async () => {
+      const response = await fetch(`/api/communications/segments?event_id=${eventId}`)
+      if (!response.ok) return []
+      const result = await response.json()
+      return result.segments || []
+    },
+  })
+  const selectedSegment = segments?.find((s: any) => s.id === segmentId)
+
+  // Who the selected segment matches right now
+  const { data: segmentPreview, isLoading: segmentPreviewLoading } = useQuery({
+    queryKey: ["audience-segment-preview", eventId, segmentId],
+    enabled: !!selectedSegment,
+    queryFn: async () => {
+      const response = await fetch("/api/communications/segments/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId, definition: selectedSegment.definition }),
+      })
+      if (!response.ok) throw new Error("Failed to count segment")
+      return response.json()
+    },
+  })
+
   // Filter recipients
   const recipients = useMemo(() => {
     if (!registrations) return []
 
+    if (selectedSegment) {
+      return (segmentPreview?.sample || []).filter((r: any) => (channel === "email" ? r.attendee_email : r.attendee_phone))
+    }
+
     // If bulk recipient IDs are set, use those exclusively
     if (bulkRecipientIds && bulkRecipientIds.size > 0) {
       return registrations.filter((r: any) => {
@@ -155,7 +194,13 @@ export default function ComposeMessagePage() {
 
       return matchesStatus && matchesTicket && matchesDesignation
     })
-  }, [registrations, statusFilter, ticketFilter, designationFilter, channel, bulkRecipientIds])
+  }, [registrations, statusFilter, ticketFilter, designationFilter, channel, bulkRecipientIds, selectedSegment, segmentPreview])
+
+  // A segment is resolved on the server when the campaign is created; the
+  // preview only carries a sample, so count from its per-channel totals.
+  const recipientCount = selectedSegment
+    ? (channel === "email" ? segmentPreview?.audience?.with_email : segmentPreview?.audience?.with_phone) || 0
+    : recipients.length
 
   // Available channels
   const channels = [
@@ -186,7 +231,7 @@ export default function ComposeMessagePage() {
 
   // Send messages
   const handleSend = async () => {
-    if (recipients.length === 0) {
+    if (recipientCount === 0) {
       toast.error("No recipients selected")
       return
     }
@@ -201,34 +246,57 @@ export default function ComposeMessagePage() {
       return
     }
 
+    const sendAt = sendLater && scheduledAt ? new Date(scheduledAt) : null
+    if (sendLater && (!sendAt || sendAt.getTime() <= Date.now())) {
+      toast.error("Pick a send time in the future")
+      return
+    }
+
     setSending(true)
     try {
-      const response = await fetch("/api/communications/send", {
+      // Queued as a campaign: sent in the background at the provider's
+      // throttle, with retries, instead of inside this request.
+      const response = await fetch("/api/communications/campaigns", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           event_id: eventId,
+          name: campaignName.trim() || undefined,
           channel,
-          recipient_ids: recipients.map((r: any) => r.id),
-          subject: subject.trim(),
+          ...(selectedSegment
+            ? { segment_id: selectedSegment.id }
+            : { recipient_ids: recipients.map((r: any) => r.id) }),
+          subject: subject.trim() || undefined,
           message: message.trim(),
           template_id: templateId || undefined,
+          scheduled_at: sendAt ? sendAt.toISOString() : undefined,
         }),
       })
 
       const result = await response.json()
 
-      if (result.success) {
-        const { sent, failed } = result.results
-        if (failed > 0) {
-          toast.warning(`Sent: ${sent}, Failed: ${failed}`)
-        } else {
-          toast.success(`Successfully sent to ${sent} recipients`)
-        }
+      if (response.ok) {
+        const { campaign } = result
+        const queued = campaign.recipient_count - (campaign.total_skipped || 0)
+        toast.success(
+          sendAt
+            ? `Scheduled for ${sendAt.toLocaleString("en-IN", { dateStyle: "medium", timeStyle: "short" })} to ${queued} recipients`
+            : `Sending to ${queued} recipients`,
+          {
+            description: campaign.total_skipped ? `${campaign.total_skipped} skipped (no address)` : undefined,
+            action: {
+              label: "Track",
+              onClick: () => router.push(`/events/${eventId}/communications/history?tab=campaigns`),
+            },
+          }
+        )
         // Reset form
         setSubject("")
         setMessage("")
         setTemplateId("")
+        setCampaignName("")
+        setSendLater(false)
+        setScheduledAt("")
       } else {
         toast.error(result.error || "Failed to send messages")
       }
@@ -403,7 +471,31 @@ export default function ComposeMessagePage() {
               </div>
             )}
 
+            {/* Saved segment */}
+            {!bulkRecipientIds?.size && (
+              <div className="space-y-1">
+                <Label className="text-xs">Segment</Label>
+                <Select value={segmentId || "none"} onValueChange={(val) => setSegmentId(val === "none" ? "" : val)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No segment (use filters)</SelectItem>
+                    {segments?.map((s: any) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        <div className="flex items-center gap-2">
+                          <Filter className="h-4 w-4" />
+                          {s.name}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Filters */}
+            {!selectedSegment && (
             <div className="space-y-3">
               <div className="space-y-1">
                 <Label className="text-xs">Status</Label>
@@ -449,6 +541,7 @@ export default function ComposeMessagePage() {
                 </Select>
               </div>
             </div>
+            )}
 
             {/* Selected Count */}
             <div className="flex items-center justify-between pt-3 border-t">
@@ -456,11 +549,11 @@ export default function ComposeMessagePage() {
                 <Users className="h-4 w-4 text-muted-foreground" />
                 <span className="text-sm text-muted-foreground">Selected</span>
               </div>
-              <Badge variant="secondary" className="text-lg px-3">{recipients.length}</Badge>
+              <Badge variant="secondary" className="text-lg px-3">{recipientCount}</Badge>
             </div>
 
             {/* Preview List */}
-            {registrationsLoading ? (
+            {registrationsLoading || (selectedSegment && segmentPreviewLoading) ? (
               <div className="flex items-center justify-center py-4">
                 <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
               </div>
@@ -483,31 +576,59 @@ export default function ComposeMessagePage() {
                     )}
                   </div>
                 ))}
-                {recipients.length > 10 && (
+                {recipientCount > 10 && (
                   <p className="text-xs text-muted-foreground pt-1">
-                    +{recipients.length - 10} more recipients
+                    +{recipientCount - Math.min(recipients.length, 10)} more recipients
                   </p>
                 )}
               </div>
             )}
           </div>
 
+          {/* Schedule */}
+          <div className="bg-card rounded-lg border p-5 space-y-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Campaign name (optional)</Label>
+              <Input
+                value={campaignName}
+                onChange={(e) => setCampaignName(e.target.value)}
+                placeholder={subject || "e.g. Day 1 reminder"}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="send-later" className="text-sm">Send later</Label>
+              <Switch id="send-later" checked={sendLater} onCheckedChange={setSendLater} />
+            </div>
+            {sendLater && (
+              <Input
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+              />
+            )}
+          </div>
+
           {/* Send Button */}
           <Button
             className="w-full"
             size="lg"
             onClick={handleSend}
-            disabled={sending || recipients.length === 0 || !message.trim() || (channel === "email" && !subject.trim())}
+            disabled={sending || recipientCount === 0 || (sendLater && !scheduledAt) || !message.trim() || (channel === "email" && !subject.trim())}
           >
             {sending ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Sending...
+                Queueing...
+              </>
+            ) : sendLater ? (
+              <>
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Schedule for {recipientCount} Recipient{recipientCount !== 1 ? "s" : ""}
               </>
             ) : (
               <>
                 <Send className="h-4 w-4 mr-2" />
-                Send to {recipients.length} Recipient{recipients.length !== 1 ? "s" : ""}
+                Send to {recipientCount} Recipient{recipientCount !== 1 ? "s" : ""}
               </>
             )}
           </Button>
@@ -0,0 +1,493 @@
+"use client"
+
+import { useState } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { toast } from "sonner"
+import {
+  AlertCircle,
+  ArrowLeft,
+  Ban,
+  CalendarClock,
+  CheckCircle,
+  ChevronLeft,
+  ChevronRight,
+  Clock,
+  Eye,
+  Loader2,
+  Mail,
+  MessageSquare,
+  Pause,
+  Phone,
+  Play,
+  RefreshCw,
+  RotateCcw,
+  Send,
+  SkipForward,
+  XCircle,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  campaignTransition,
+  type CampaignAction,
+  type CampaignStatus,
+  type CampaignRecipientStatus,
+  type TimelineEntry,
+  type TimelineKind,
+} from "@/lib/campaign-sending"
+
+interface Campaign {
+  id: string
+  name: string
+  channel: string
+  subject: string | null
+  provider: string | null
+  status: CampaignStatus
+  scheduled_at: string | null
+  completed_at: string | null
+  paused_at: string | null
+  last_error: string | null
+  recipient_count: number
+  total_sent: number
+  total_failed: number
+  total_skipped: number
+  created_at: string
+}
+
+interface Recipient {
+  id: string
+  recipient_name: string | null
+  recipient: string | null
+  status: CampaignRecipientStatus
+  attempts: number
+  next_attempt_at: string | null
+  last_error: string | null
+  sent_at: string | null
+}
+
+const STATUS_STYLES: Record<CampaignStatus, string> = {
+  draft: "bg-secondary text-secondary-foreground",
+  scheduled: "bg-violet-500 text-white",
+  sending: "bg-sky-500 text-white",
+  paused: "bg-amber-500 text-white",
+  completed: "bg-green-500 text-white",
+  cancelled: "bg-muted text-muted-foreground",
+}
+
+const RECIPIENT_STYLES: Record<CampaignRecipientStatus, string> = {
+  queued: "text-muted-foreground",
+  sending: "text-sky-600",
+  retrying: "text-amber-600",
+  sent: "text-green-600",
+  failed: "text-red-600",
+  skipped: "text-muted-foreground",
+  cancelled: "text-muted-foreground",
+}
+
+const TIMELINE: Record<TimelineKind, { label: string; icon: typeof Clock; className: string }> = {
+  queued: { label: "Queued", icon: Clock, className: "text-muted-foreground" },
+  sent: { label: "Sent", icon: Send, className: "text-sky-500" },
+  delivered: { label: "Delivered", icon: CheckCircle, className: "text-green-500" },
+  read: { label: "Read", icon: Eye, className: "text-blue-500" },
+  failed: { label: "Failed", icon: XCircle, className: "text-red-500" },
+  retry_scheduled: { label: "Retry scheduled", icon: RotateCcw, className: "text-amber-500" },
+  skipped: { label: "Skipped", icon: SkipForward, className: "text-muted-foreground" },
+  cancelled: { label: "Cancelled", icon: Ban, className: "text-muted-foreground" },
+}
+
+const ACTIONS: { action: CampaignAction; label: string; icon: typeof Pause }[] = [
+  { action: "pause", label: "Pause", icon: Pause },
+  { action: "resume", label: "Resume", icon: Play },
+  { action: "retry_failed", label: "Retry failed", icon: RotateCcw },
+  { action: "cancel", label: "Cancel", icon: Ban },
+]
+
+const formatDate = (dateStr: string | null) => {
+  if (!dateStr) return "-"
+  return new Date(dateStr).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+const channelIcon = (channel: string) =>
+  channel === "whatsapp" ? (
+    <MessageSquare className="h-4 w-4 text-green-500" />
+  ) : channel === "sms" ? (
+    <Phone className="h-4 w-4 text-purple-500" />
+  ) : (
+    <Mail className="h-4 w-4 text-blue-500" />
+  )
+
+export function CampaignsPanel({ eventId }: { eventId: string }) {
+  const queryClient = useQueryClient()
+  const [openCampaignId, setOpenCampaignId] = useState<string | null>(null)
+
+  const { data: campaigns, isLoading, refetch } = useQuery({
+    queryKey: ["campaigns", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/communications/campaigns?event_id=${eventId}`)
+      if (!res.ok) throw new Error("Failed to load campaigns")
+      return ((await res.json()).campaigns || []) as Campaign[]
+    },
+    // Keep progress moving while something is sending
+    refetchInterval: (query) =>
+      (query.state.data as Campaign[] | undefined)?.some((c) => c.status === "sending") ? 10_000 : false,
+  })
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: CampaignAction }) => {
+      const res = await fetch(`/api/communications/campaigns/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Action failed")
+      return json as { recipients: number }
+    },
+    onSuccess: (result, { action }) => {
+      const messages: Record<CampaignAction, string> = {
+        pause: "Campaign paused",
+        resume: "Campaign resumed",
+        cancel: `Campaign cancelled${result.recipients ? ` · ${result.recipients} unsent` : ""}`,
+        retry_failed: `${result.recipients} recipient(s) queued again`,
+      }
+      toast.success(messages[action])
+      queryClient.invalidateQueries({ queryKey: ["campaigns", eventId] })
+      queryClient.invalidateQueries({ queryKey: ["campaign-recipients"] })
+    },
+    onError: (err: Error) => toast.error(err.message),
+  })
+
+  const runAction = (campaign: Campaign, action: CampaignAction) => {
+    if (action === "cancel" && !confirm(`Cancel "${campaign.name}"? Recipients not sent yet won't be.`)) return
+    actionMutation.mutate({ id: campaign.id, action })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const openCampaign = campaigns?.find((c) => c.id === openCampaignId) || null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => refetch()}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="bg-card rounded-lg border overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead>Campaign</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-[220px]">Progress</TableHead>
+              <TableHead>Send time</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {campaigns?.map((campaign) => {
+              const done = campaign.total_sent + campaign.total_failed + campaign.total_skipped
+              const percent = campaign.recipient_count ? Math.round((done / campaign.recipient_count) * 100) : 0
+              return (
+                <TableRow key={campaign.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {channelIcon(campaign.channel)}
+                      <div>
+                        <p className="font-medium">{campaign.name}</p>
+                        <p className="text-xs text-muted-foreground capitalize">
+                          {campaign.recipient_count} recipients{campaign.provider ? ` · ${campaign.provider}` : ""}
+                        </p>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={cn("capitalize", STATUS_STYLES[campaign.status])}>{campaign.status}</Badge>
+                    {campaign.status === "paused" && campaign.last_error && (
+                      <p className="text-xs text-red-600 mt-1 max-w-[200px]">{campaign.last_error}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={percent} className="h-2" />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      <span className="text-green-600">{campaign.total_sent} sent</span>
+                      {campaign.total_failed > 0 && <span className="text-red-600"> · {campaign.total_failed} failed</span>}
+                      {campaign.total_skipped > 0 && <span> · {campaign.total_skipped} skipped</span>}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      {campaign.status === "scheduled" && <CalendarClock className="h-3 w-3" />}
+                      {formatDate(campaign.scheduled_at || campaign.created_at)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      {ACTIONS.filter(({ action }) => {
+                        if (!campaignTransition(campaign.status, action)) return false
+                        return action !== "retry_failed" || campaign.total_failed > 0
+                      }).map(({ action, label, icon: Icon }) => (
+                        <Button
+                          key={action}
+                          variant="ghost"
+                          size="sm"
+                          title={label}
+                          disabled={actionMutation.isPending}
+                          onClick={() => runAction(campaign, action)}
+                        >
+                          <Icon className="h-4 w-4" />
+                        </Button>
+                      ))}
+                      <Button variant="ghost" size="sm" title="Recipients" onClick={() => setOpenCampaignId(campaign.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            })}
+            {campaigns?.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No campaigns yet. Messages sent from Compose show up here.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!openCampaign} onOpenChange={(open) => !open && setOpenCampaignId(null)}>
+        <DialogContent className="max-w-3xl">
+          {openCampaign && <CampaignRecipients campaign={openCampaign} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function CampaignRecipients({ campaign }: { campaign: Campaign }) {
+  const [statusFilter, setStatusFilter] = useState<string>("all")
+  const [page, setPage] = useState(1)
+  const [recipientId, setRecipientId] = useState<string | null>(null)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["campaign-recipients", campaign.id, statusFilter, page],
+    queryFn: async () => {
+      const res = await fetch(
+        `/api/communications/campaigns/${campaign.id}/recipients?status=${statusFilter}&page=${page}`
+      )
+      if (!res.ok) throw new Error("Failed to load recipients")
+      return (await res.json()) as { recipients: Recipient[]; total: number; page_size: number }
+    },
+  })
+
+  if (recipientId) {
+    return (
+      <RecipientTimeline campaignId={campaign.id} recipientId={recipientId} onBack={() => setRecipientId(null)} />
+    )
+  }
+
+  const total = data?.total ?? 0
+  const pageSize = data?.page_size ?? 50
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          {channelIcon(campaign.channel)}
+          {campaign.name}
+        </DialogTitle>
+      </DialogHeader>
+
+      <div className="flex items-center justify-between">
+        <Select value={statusFilter} onValueChange={(value) => { setStatusFilter(value); setPage(1) }}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All recipients</SelectItem>
+            <SelectItem value="queued">Queued</SelectItem>
+            <SelectItem value="retrying">Retrying</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="skipped">Skipped</SelectItem>
+            <SelectItem value="cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">{total} recipient{total !== 1 ? "s" : ""}</p>
+      </div>
+
+      <div className="max-h-[50vh] overflow-y-auto border rounded-lg">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last update</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data?.recipients.map((r) => (
+                <TableRow key={r.id} className="cursor-pointer" onClick={() => setRecipientId(r.id)}>
+                  <TableCell>
+                    <p className="font-medium">{r.recipient_name || "-"}</p>
+                    <p className="text-xs text-muted-foreground">{r.recipient || "No address"}</p>
+                  </TableCell>
+                  <TableCell>
+                    <span className={cn("text-sm capitalize", RECIPIENT_STYLES[r.status])}>{r.status}</span>
+                    {r.last_error && r.status !== "sent" && (
+                      <p className="text-xs text-muted-foreground truncate max-w-[220px]">{r.last_error}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{r.attempts}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {r.status === "retrying" ? `Retry ${formatDate(r.next_attempt_at)}` : formatDate(r.sent_at)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {data?.recipients.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                    No recipients
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {total > pageSize && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage((p) => p - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {Math.ceil(total / pageSize)}
+          </span>
+          <Button variant="outline" size="sm" disabled={page * pageSize >= total} onClick={() => setPage((p) => p + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </>
+  )
+}
+
+function RecipientTimeline({
+  campaignId,
+  recipientId,
+  onBack,
+}: {
+  campaignId: string
+  recipientId: string
+  onBack: () => void
+}) {
+  const { data, isLoading } = useQuery({
+    queryKey: ["campaign-recipient-timeline", campaignId, recipientId],
+    queryFn: async () => {
+      const res = await fetch(`/api/communications/campaigns/${campaignId}/recipients/${recipientId}`)
+      if (!res.ok) throw new Error("Failed to load timeline")
+      return (await res.json()) as { recipient: Recipient; timeline: TimelineEntry[] }
+    },
+  })
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          {data?.recipient.recipient_name || "Recipient"}
+        </DialogTitle>
+      </DialogHeader>
+
+      {isLoading || !data ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {data.recipient.recipient || "No address"} · {data.recipient.attempts} attempt
+            {data.recipient.attempts !== 1 ? "s" : ""}
+          </p>
+          <ol className="relative border-l ml-2 space-y-4">
+            {data.timeline.map((entry, index) => {
+              const { label, icon: Icon, className } = TIMELINE[entry.kind]
+              return (
+                <li key={index} className="ml-5">
+                  <span className="absolute -left-2.5 flex h-5 w-5 items-center justify-center rounded-full bg-background">
+                    <Icon className={cn("h-4 w-4", className)} />
+                  </span>
+                  <p className="text-sm font-medium">
+                    {label}
+                    {entry.attempt && entry.attempt > 1 && (
+                      <span className="text-muted-foreground font-normal"> · attempt {entry.attempt}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{formatDate(entry.at)}</p>
+                  {entry.detail && (
+                    <p
+                      className={cn(
+                        "text-xs mt-1",
+                        entry.kind === "failed" || entry.kind === "retry_scheduled" ? "text-red-600" : "text-muted-foreground"
+                      )}
+                    >
+                      {entry.kind === "failed" && <AlertCircle className="inline h-3 w-3 mr-1" />}
+                      {entry.detail}
+                    </p>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        </div>
+      )}
+    </>
+  )
+}
@@ -1,12 +1,13 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { useParams } from "next/navigation"
+import { useParams, useSearchParams } from "next/navigation"
 import { useQuery } from "@tanstack/react-query"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import {
   Select,
   SelectContent,
@@ -46,6 +47,7 @@ import {
   ChevronRight,
 } from "lucide-react"
 import { toast } from "sonner"
+import { CampaignsPanel } from "./campaigns-panel"
 
 const PAGE_SIZE = 100
 
@@ -70,8 +72,11 @@ type MessageLog = {
 export default function HistoryPage() {
   const params = useParams()
   const eventId = params.eventId as string
+  const searchParams = useSearchParams()
   const supabase = createClient()
 
+  const [tab, setTab] = useState(searchParams.get("tab") === "campaigns" ? "campaigns" : "messages")
+
   const [search, setSearch] = useState("")
   const [channelFilter, setChannelFilter] = useState<string>("all")
   const [statusFilter, setStatusFilter] = useState<string>("all")
@@ -282,174 +287,191 @@ export default function HistoryPage() {
           <h1 className="text-xl sm:text-2xl font-bold">Message History</h1>
           <p className="text-muted-foreground">Track all sent messages and their delivery status</p>
         </div>
-        <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={syncWhatsAppStatus} disabled={syncing}>
-            {syncing ? (
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-            ) : (
+        {tab === "messages" && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={syncWhatsAppStatus} disabled={syncing}>
+              {syncing ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Sync WhatsApp status
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => refetch()}>
               <RefreshCw className="h-4 w-4 mr-2" />
-            )}
-            Sync WhatsApp status
-          </Button>
-          <Button variant="outline" size="sm" onClick={() => refetch()}>
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh
-          </Button>
-          <Button variant="outline" size="sm" onClick={exportCSV}>
-            <Download className="h-4 w-4 mr-2" />
-            Export CSV
-          </Button>
-        </div>
-      </div>
-
-      {/* Filters */}
-      <div className="flex items-center gap-4">
-        <div className="relative flex-1 max-w-sm">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search by recipient..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-10"
-          />
-        </div>
-        <Select value={channelFilter} onValueChange={setChannelFilter}>
-          <SelectTrigger className="w-[150px]">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Channels</SelectItem>
-            <SelectItem value="email">Email</SelectItem>
-            <SelectItem value="whatsapp">WhatsApp</SelectItem>
-            <SelectItem value="sms">SMS</SelectItem>
-            <SelectItem value="webhook">Webhook</SelectItem>
-          </SelectContent>
-        </Select>
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
-          <SelectTrigger className="w-[150px]">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Statuses</SelectItem>
-            <SelectItem value="sent">Sent</SelectItem>
-            <SelectItem value="delivered">Delivered</SelectItem>
-            <SelectItem value="read">Read</SelectItem>
-            <SelectItem value="failed">Failed</SelectItem>
-            <SelectItem value="pending">Pending</SelectItem>
-          </SelectContent>
-        </Select>
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" onClick={exportCSV}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        )}
       </div>
 
-      {/* Stats Summary (across ALL rows for the current channel filter) */}
-      <div className="grid grid-cols-5 gap-4">
-        <div className="bg-card rounded-lg border p-3 text-center">
-          <p className="text-xl sm:text-2xl font-bold">{stats?.total ?? 0}</p>
-          <p className="text-xs text-muted-foreground">Total</p>
-        </div>
-        <div className="bg-card rounded-lg border p-3 text-center">
-          <p className="text-xl sm:text-2xl font-bold text-green-500">{stats?.delivered ?? 0}</p>
-          <p className="text-xs text-muted-foreground">Delivered</p>
-        </div>
-        <div className="bg-card rounded-lg border p-3 text-center">
-          <p className="text-xl sm:text-2xl font-bold text-sky-500">{stats?.sent ?? 0}</p>
-          <p className="text-xs text-muted-foreground">Sent</p>
-        </div>
-        <div className="bg-card rounded-lg border p-3 text-center">
-          <p className="text-xl sm:text-2xl font-bold text-amber-500">{stats?.pending ?? 0}</p>
-          <p className="text-xs text-muted-foreground">Pending</p>
-        </div>
-        <div className="bg-card rounded-lg border p-3 text-center">
-          <p className="text-xl sm:text-2xl font-bold text-red-500">{stats?.failed ?? 0}</p>
-          <p className="text-xs text-muted-foreground">Failed</p>
-        </div>
-      </div>
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="messages">Messages</TabsTrigger>
+          <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="campaigns" className="mt-4">
+          <CampaignsPanel eventId={eventId} />
+        </TabsContent>
+
+        <TabsContent value="messages" className="mt-4 space-y-6">
+
+          {/* Filters */}
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by recipient..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={channelFilter} onValueChange={setChannelFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Channels</SelectItem>
+                <SelectItem value="email">Email</SelectItem>
+                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                <SelectItem value="sms">SMS</SelectItem>
+                <SelectItem value="webhook">Webhook</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Statuses</SelectItem>
+                <SelectItem value="sent">Sent</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="read">Read</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
 
-      {/* Logs Table */}
-      <div className="bg-card rounded-lg border overflow-x-auto">
-        <Table>
-          <TableHeader>
-            <TableRow className="bg-muted/50">
-              <TableHead>Channel</TableHead>
-              <TableHead>Recipient</TableHead>
-              <TableHead>Subject/Message</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Sent At</TableHead>
-              <TableHead className="text-right">Actions</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {filteredLogs?.map((log) => (
-              <TableRow key={log.id}>
-                <TableCell>
-                  <div className="flex items-center gap-2">
-                    {getChannelIcon(log.channel)}
-                    <span className="capitalize text-sm">{log.channel}</span>
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <p className="font-medium">{log.recipient_name || "-"}</p>
-                  <p className="text-xs text-muted-foreground">{log.recipient}</p>
-                </TableCell>
-                <TableCell>
-                  <p className="truncate max-w-[200px]">
-                    {log.subject || log.message_body?.slice(0, 50) || "-"}
-                  </p>
-                </TableCell>
-                <TableCell>{getStatusBadge(log.status)}</TableCell>
-                <TableCell className="text-sm text-muted-foreground">
-                  {formatDate(log.sent_at || log.created_at)}
-                </TableCell>
-                <TableCell className="text-right">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => setSelectedLog(log)}
-                  >
-                    <Eye className="h-4 w-4" />
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))}
-            {filteredLogs?.length === 0 && (
-              <TableRow>
-                <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
-                  No messages found
-                </TableCell>
-              </TableRow>
-            )}
-          </TableBody>
-        </Table>
-      </div>
+          {/* Stats Summary (across ALL rows for the current channel filter) */}
+          <div className="grid grid-cols-5 gap-4">
+            <div className="bg-card rounded-lg border p-3 text-center">
+              <p className="text-xl sm:text-2xl font-bold">{stats?.total ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Total</p>
+            </div>
+            <div className="bg-card rounded-lg border p-3 text-center">
+              <p className="text-xl sm:text-2xl font-bold text-green-500">{stats?.delivered ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Delivered</p>
+            </div>
+            <div className="bg-card rounded-lg border p-3 text-center">
+              <p className="text-xl sm:text-2xl font-bold text-sky-500">{stats?.sent ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Sent</p>
+            </div>
+            <div className="bg-card rounded-lg border p-3 text-center">
+              <p className="text-xl sm:text-2xl font-bold text-amber-500">{stats?.pending ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Pending</p>
+            </div>
+            <div className="bg-card rounded-lg border p-3 text-center">
+              <p className="text-xl sm:text-2xl font-bold text-red-500">{stats?.failed ?? 0}</p>
+              <p className="text-xs text-muted-foreground">Failed</p>
+            </div>
+          </div>
 
-      {/* Pagination */}
-      {total > 0 && (
-        <div className="flex items-center justify-between">
-          <p className="text-sm text-muted-foreground">
-            Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)} of {total}
-            {search && " (search applied to current page)"}
-          </p>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => Math.max(0, p - 1))}
-              disabled={page === 0 || isLoading}
-            >
-              <ChevronLeft className="h-4 w-4 mr-1" />
-              Previous
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setPage((p) => p + 1)}
-              disabled={(page + 1) * PAGE_SIZE >= total || isLoading}
-            >
-              Next
-              <ChevronRight className="h-4 w-4 ml-1" />
-            </Button>
+          {/* Logs Table */}
+          <div className="bg-card rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Subject/Message</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Sent At</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredLogs?.map((log) => (
+                  <TableRow key={log.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {getChannelIcon(log.channel)}
+                        <span className="capitalize text-sm">{log.channel}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{log.recipient_name || "-"}</p>
+                      <p className="text-xs text-muted-foreground">{log.recipient}</p>
+                    </TableCell>
+                    <TableCell>
+                      <p className="truncate max-w-[200px]">
+                        {log.subject || log.message_body?.slice(0, 50) || "-"}
+                      </p>
+                    </TableCell>
+                    <TableCell>{getStatusBadge(log.status)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDate(log.sent_at || log.created_at)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedLog(log)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {filteredLogs?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No messages found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
           </div>
-        </div>
-      )}
+
+          {/* Pagination */}
+          {total > 0 && (
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                Showing {page * PAGE_SIZE + 1}–{Math.min((page + 1) * PAGE_SIZE, total)} of {total}
+                {search && " (search applied to current page)"}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => Math.max(0, p - 1))}
+                  disabled={page === 0 || isLoading}
+                >
+                  <ChevronLeft className="h-4 w-4 mr-1" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={(page + 1) * PAGE_SIZE >= total || isLoading}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+        </TabsContent>
+      </Tabs>
 
       {/* Detail Dialog */}
       <Dialog open={!!selectedLog} onOpenChange={() => setSelectedLog(null)}>
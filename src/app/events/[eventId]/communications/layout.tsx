@@ -20,6 +20,7 @@ import {
   Calendar,
   MapPin,
   MessageSquare,
+  Filter,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useRouter } from "next/navigation"
@@ -28,6 +29,7 @@ const sidebarItems = [
   { title: "Overview", href: "", icon: LayoutDashboard },
   { title: "Compose", href: "/compose", icon: Send },
   { title: "Templates", href: "/templates", icon: FileText },
+  { title: "Segments", href: "/segments", icon: Filter },
   { title: "History", href: "/history", icon: History },
   { title: "Settings", href: "/settings", icon: Settings },
 ]
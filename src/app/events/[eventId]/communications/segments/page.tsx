@@ -0,0 +1,779 @@
+"use client"
+
+import { useState } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { createClient } from "@/lib/supabase/client"
+import { useDebounce } from "@/hooks/use-debounce"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Filter,
+  Plus,
+  Trash2,
+  Download,
+  Send,
+  Pencil,
+  Loader2,
+  Users,
+  Mail,
+  Phone,
+  FolderPlus,
+  Save,
+  X,
+} from "lucide-react"
+import { cn } from "@/lib/utils"
+import { toast } from "sonner"
+import { FACULTY_ROLES, ROLE_LABELS } from "@/lib/agenda-roles"
+import {
+  EMPTY_SEGMENT,
+  MAX_SEGMENT_DEPTH,
+  SEGMENT_ABSTRACT_STATUSES,
+  SEGMENT_ATTRIBUTES,
+  SEGMENT_FIELD_LABELS,
+  SEGMENT_PAYMENT_STATUSES,
+  SEGMENT_REGISTRATION_STATUSES,
+  isSegmentGroup,
+  newSegmentRule,
+  type SegmentAttribute,
+  type SegmentAudience,
+  type SegmentField,
+  type SegmentGroup,
+  type SegmentNode,
+  type SegmentRule,
+} from "@/lib/audience-segments"
+
+interface Segment {
+  id: string
+  name: string
+  description: string | null
+  definition: SegmentGroup
+  last_count: number | null
+  last_counted_at: string | null
+  updated_at: string
+}
+
+type Option = { value: string; label: string }
+
+interface RuleOptions {
+  ticketTypes: Option[]
+  addons: Option[]
+  checkinLists: Option[]
+  forms: Option[]
+  formFields: Record<string, Option[]>
+  templates: Option[]
+}
+
+const NONE = "__any__"
+
+const humanize = (value: string) => value.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase())
+const asOptions = (values: readonly string[]): Option[] => values.map((value) => ({ value, label: humanize(value) }))
+
+const formatDate = (dateStr: string | null) => {
+  if (!dateStr) return "-"
+  return new Date(dateStr).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  })
+}
+
+export default function AudienceSegmentsPage() {
+  const params = useParams()
+  const eventId = params.eventId as string
+  const supabase = createClient()
+  const queryClient = useQueryClient()
+
+  // null = not editing; "" = new segment
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [definition, setDefinition] = useState<SegmentGroup>(EMPTY_SEGMENT)
+  const debouncedDefinition = useDebounce(definition, 500)
+
+  const { data: segments, isLoading } = useQuery({
+    queryKey: ["audience-segments", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/communications/segments?event_id=${eventId}`)
+      if (!res.ok) throw new Error("Failed to load segments")
+      return ((await res.json()).segments || []) as Segment[]
+    },
+  })
+
+  // Everything the rule pickers choose from
+  const { data: options } = useQuery({
+    queryKey: ["audience-segment-options", eventId],
+    queryFn: async (): Promise<RuleOptions> => {
+      const db = supabase as any
+      const [ticketTypes, addons, checkinLists, forms, templates] = await Promise.all([
+        db.from("ticket_types").select("id, name").eq("event_id", eventId).order("name"),
+        db.from("addons").select("id, name").eq("event_id", eventId).order("name"),
+        db.from("checkin_lists").select("id, name").eq("event_id", eventId).order("name"),
+        db.from("forms").select("id, name").eq("event_id", eventId).order("name"),
+        db
+          .from("message_templates")
+          .select("id, name")
+          .or(`event_id.eq.${eventId},event_id.is.null`)
+          .order("name"),
+      ])
+      const formIds = (forms.data || []).map((f: any) => f.id)
+      const { data: fields } = formIds.length
+        ? await db
+            .from("form_fields")
+            .select("id, form_id, label, field_type")
+            .in("form_id", formIds)
+            .order("sort_order")
+        : { data: [] }
+
+      const toOptions = (rows: any[] | null) => (rows || []).map((r) => ({ value: r.id, label: r.name }))
+      const formFields: Record<string, Option[]> = {}
+      for (const field of fields || []) {
+        if (["heading", "paragraph", "divider"].includes(field.field_type)) continue
+        ;(formFields[field.form_id] ||= []).push({ value: field.id, label: field.label || "Untitled field" })
+      }
+
+      return {
+        ticketTypes: toOptions(ticketTypes.data),
+        addons: toOptions(addons.data),
+        checkinLists: toOptions(checkinLists.data),
+        forms: toOptions(forms.data),
+        formFields,
+        templates: toOptions(templates.data),
+      }
+    },
+  })
+
+  // Live count while editing
+  const { data: preview, isFetching: previewLoading } = useQuery({
+    queryKey: ["audience-segment-preview", eventId, "draft", debouncedDefinition],
+    enabled: editingId !== null,
+    queryFn: async () => {
+      const res = await fetch("/api/communications/segments/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId, definition: debouncedDefinition }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to count segment")
+      return json as { audience: SegmentAudience; sample: { id: string; attendee_name: string | null; attendee_email: string | null }[] }
+    },
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const isNew = !editingId
+      const res = await fetch(isNew ? "/api/communications/segments" : `/api/communications/segments/${editingId}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(isNew ? { event_id: eventId } : {}),
+          name: name.trim(),
+          description: description.trim() || null,
+          definition,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to save segment")
+      return json.segment as Segment
+    },
+    onSuccess: (segment) => {
+      toast.success(`Saved "${segment.name}" · ${segment.last_count ?? 0} registrations`)
+      queryClient.invalidateQueries({ queryKey: ["audience-segments", eventId] })
+      setEditingId(null)
+    },
+    onError: (err: Error) => toast.error(err.message),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/communications/segments/${id}`, { method: "DELETE" })
+      if (!res.ok) throw new Error((await res.json()).error || "Failed to delete segment")
+    },
+    onSuccess: () => {
+      toast.success("Segment deleted")
+      queryClient.invalidateQueries({ queryKey: ["audience-segments", eventId] })
+    },
+    onError: (err: Error) => toast.error(err.message),
+  })
+
+  const startEditing = (segment?: Segment) => {
+    setEditingId(segment?.id || "")
+    setName(segment?.name || "")
+    setDescription(segment?.description || "")
+    setDefinition(segment?.definition || EMPTY_SEGMENT)
+  }
+
+  const removeSegment = (segment: Segment) => {
+    if (!confirm(`Delete "${segment.name}"? Campaigns already sent to it are kept.`)) return
+    deleteMutation.mutate(segment.id)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Segments</h1>
+          <p className="text-muted-foreground">Saved audiences for email, WhatsApp, SMS and exports</p>
+        </div>
+        {editingId === null && (
+          <Button onClick={() => startEditing()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Segment
+          </Button>
+        )}
+      </div>
+
+      {editingId !== null ? (
+        <div className="grid grid-cols-3 gap-6">
+          <div className="col-span-2 space-y-4">
+            <div className="bg-card rounded-lg border p-5 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Name *</Label>
+                  <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Paid delegates not checked in" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Description</Label>
+                  <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+                </div>
+              </div>
+            </div>
+
+            <GroupEditor
+              group={definition}
+              depth={1}
+              options={options}
+              onChange={(node) => setDefinition(node)}
+            />
+          </div>
+
+          {/* Live count */}
+          <div className="space-y-4">
+            <div className="bg-card rounded-lg border p-5 space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Matches</h3>
+                {previewLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Users className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">Registrations</span>
+                </div>
+                <Badge variant="secondary" className="text-lg px-3">{preview?.audience.total ?? "–"}</Badge>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Mail className="h-3 w-3" /> Reachable by email
+                </span>
+                <span>{preview?.audience.with_email ?? "–"}</span>
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Phone className="h-3 w-3" /> Reachable by WhatsApp/SMS
+                </span>
+                <span>{preview?.audience.with_phone ?? "–"}</span>
+              </div>
+              {preview && preview.sample.length > 0 && (
+                <div className="pt-3 border-t space-y-1 max-h-48 overflow-y-auto">
+                  {preview.sample.map((r) => (
+                    <div key={r.id} className="text-sm truncate">
+                      {r.attendee_name || r.attendee_email}
+                    </div>
+                  ))}
+                  {preview.audience.total > preview.sample.length && (
+                    <p className="text-xs text-muted-foreground pt-1">
+                      +{preview.audience.total - preview.sample.length} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setEditingId(null)}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => saveMutation.mutate()}
+                disabled={!name.trim() || saveMutation.isPending}
+              >
+                {saveMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                Save
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-48">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !segments?.length ? (
+        <div className="bg-card rounded-lg border p-10 text-center">
+          <Filter className="h-10 w-10 mx-auto text-muted-foreground mb-3" />
+          <p className="font-medium">No segments yet</p>
+          <p className="text-sm text-muted-foreground">
+            Combine ticket types, payment, check-ins, add-ons, abstracts, faculty roles and form answers into a reusable audience.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-card rounded-lg border divide-y">
+          {segments.map((segment) => (
+            <div key={segment.id} className="flex items-center gap-4 p-4">
+              <Filter className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">{segment.name}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {segment.description || `${segment.definition.rules.length} rule(s)`}
+                  {" · counted "}
+                  {formatDate(segment.last_counted_at)}
+                </p>
+              </div>
+              <Badge variant="secondary">{segment.last_count ?? "–"}</Badge>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href={`/events/${eventId}/communications/compose?segment=${segment.id}`}>
+                    <Send className="h-4 w-4 mr-1" />
+                    Message
+                  </Link>
+                </Button>
+                <Button variant="ghost" size="sm" asChild>
+                  <a href={`/api/communications/segments/${segment.id}/export`}>
+                    <Download className="h-4 w-4 mr-1" />
+                    CSV
+                  </a>
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => startEditing(segment)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => removeSegment(segment)}>
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function GroupEditor({
+  group,
+  depth,
+  options,
+  onChange,
+  onRemove,
+}: {
+  group: SegmentGroup
+  depth: number
+  options: RuleOptions | undefined
+  onChange: (group: SegmentGroup) => void
+  onRemove?: () => void
+}) {
+  const [newField, setNewField] = useState<SegmentField>("ticket_type")
+
+  const updateChild = (index: number, node: SegmentNode) =>
+    onChange({ ...group, rules: group.rules.map((r, i) => (i === index ? node : r)) })
+  const removeChild = (index: number) => onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) })
+
+  return (
+    <div className={cn("rounded-lg border p-4 space-y-3", depth === 1 ? "bg-card" : "bg-secondary/30")}>
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select value={group.match} onValueChange={(match) => onChange({ ...group, match: match as SegmentGroup["match"] })}>
+          <SelectTrigger className="w-24 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">all</SelectItem>
+            <SelectItem value="any">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these rules</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-sm text-muted-foreground">No rules yet, so this matches every registration.</p>
+      )}
+
+      {group.rules.map((node, index) =>
+        isSegmentGroup(node) ? (
+          <GroupEditor
+            key={index}
+            group={node}
+            depth={depth + 1}
+            options={options}
+            onChange={(child) => updateChild(index, child)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <RuleEditor
+            key={index}
+            rule={node}
+            options={options}
+            onChange={(rule) => updateChild(index, rule)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex items-center gap-2 pt-1">
+        <Select value={newField} onValueChange={(field) => setNewField(field as SegmentField)}>
+          <SelectTrigger className="w-52 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SEGMENT_FIELD_LABELS) as SegmentField[]).map((field) => (
+              <SelectItem key={field} value={field}>{SEGMENT_FIELD_LABELS[field]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...group, rules: [...group.rules, newSegmentRule(newField)] })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Rule
+        </Button>
+        {depth < MAX_SEGMENT_DEPTH && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...group, rules: [...group.rules, { match: group.match === "all" ? "any" : "all", rules: [] }] })}
+          >
+            <FolderPlus className="h-4 w-4 mr-1" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function RuleEditor({
+  rule,
+  options,
+  onChange,
+  onRemove,
+}: {
+  rule: SegmentRule
+  options: RuleOptions | undefined
+  onChange: (rule: SegmentRule) => void
+  onRemove: () => void
+}) {
+  return (
+    <div className="flex items-start gap-2 rounded-md border bg-background p-3">
+      <div className="w-40 shrink-0 pt-1.5 text-sm font-medium">{SEGMENT_FIELD_LABELS[rule.field]}</div>
+      <div className="flex-1 space-y-2">
+        <RuleBody rule={rule} options={options} onChange={onChange} />
+      </div>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onRemove}>
+        <Trash2 className="h-4 w-4 text-muted-foreground" />
+      </Button>
+    </div>
+  )
+}
+
+function RuleBody({
+  rule,
+  options,
+  onChange,
+}: {
+  rule: SegmentRule
+  options: RuleOptions | undefined
+  onChange: (rule: SegmentRule) => void
+}) {
+  switch (rule.field) {
+    case "ticket_type":
+    case "registration_status":
+    case "payment_status": {
+      const choices =
+        rule.field === "ticket_type"
+          ? options?.ticketTypes || []
+          : asOptions(rule.field === "payment_status" ? SEGMENT_PAYMENT_STATUSES : SEGMENT_REGISTRATION_STATUSES)
+      return (
+        <>
+          <OpSelect
+            value={rule.op}
+            ops={{ in: "is one of", not_in: "is not one of" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          <ValueChips choices={choices} value={rule.value} onChange={(value) => onChange({ ...rule, value })} />
+        </>
+      )
+    }
+    case "checked_in":
+      return (
+        <div className="flex flex-wrap gap-2">
+          <OpSelect
+            value={rule.op}
+            ops={{ is: "has checked in", is_not: "has not checked in" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          <OptionSelect
+            value={rule.list_id || null}
+            anyLabel="at any list"
+            choices={options?.checkinLists || []}
+            onChange={(list_id) => onChange({ ...rule, list_id })}
+          />
+        </div>
+      )
+    case "addon":
+      return (
+        <>
+          <OpSelect
+            value={rule.op}
+            ops={{ has_any: "bought any of", has_none: "bought none of" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          <ValueChips
+            choices={options?.addons || []}
+            value={rule.value}
+            emptyHint="No add-on picked: any add-on"
+            onChange={(value) => onChange({ ...rule, value })}
+          />
+        </>
+      )
+    case "abstract_status":
+      return (
+        <>
+          <OpSelect
+            value={rule.op}
+            ops={{ in: "presents an abstract that is", none: "presents no such abstract" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          <ValueChips
+            choices={asOptions(SEGMENT_ABSTRACT_STATUSES)}
+            value={rule.value}
+            emptyHint="No status picked: any status"
+            onChange={(value) => onChange({ ...rule, value })}
+          />
+        </>
+      )
+    case "faculty_role":
+      return (
+        <>
+          <OpSelect
+            value={rule.op}
+            ops={{ in: "is faculty as", none: "is not faculty as" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          <ValueChips
+            choices={FACULTY_ROLES.map((role) => ({ value: role, label: ROLE_LABELS[role].one }))}
+            value={rule.value}
+            emptyHint="No role picked: any role"
+            onChange={(value) => onChange({ ...rule, value: value as typeof rule.value })}
+          />
+        </>
+      )
+    case "form_answer": {
+      const fields = options?.formFields[rule.form_id] || []
+      const needsAnswer = rule.op === "equals" || rule.op === "contains"
+      return (
+        <div className="flex flex-wrap gap-2">
+          <OptionSelect
+            value={rule.form_id || null}
+            anyLabel="Pick a form"
+            choices={options?.forms || []}
+            onChange={(form_id) => onChange({ ...rule, form_id: form_id || "", field_id: null })}
+          />
+          <OpSelect
+            value={rule.op}
+            ops={{ submitted: "submitted", not_submitted: "not submitted", equals: "answered exactly", contains: "answer contains" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          {needsAnswer && (
+            <>
+              <OptionSelect
+                value={rule.field_id || null}
+                anyLabel="Pick a question"
+                choices={fields}
+                onChange={(field_id) => onChange({ ...rule, field_id })}
+              />
+              <Input
+                className="h-8 w-48"
+                value={rule.value || ""}
+                onChange={(e) => onChange({ ...rule, value: e.target.value })}
+                placeholder="Answer"
+              />
+            </>
+          )}
+        </div>
+      )
+    }
+    case "membership":
+      return (
+        <OpSelect
+          value={rule.op}
+          ops={{ is_member: "is an active member", not_member: "is not an active member" }}
+          onChange={(op) => onChange({ ...rule, op })}
+        />
+      )
+    case "message":
+      return (
+        <div className="flex flex-wrap gap-2">
+          <OpSelect
+            value={rule.op}
+            ops={{ received: "has received", not_received: "has not received" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          <OptionSelect
+            value={rule.template_id || null}
+            anyLabel="any message"
+            choices={options?.templates || []}
+            onChange={(template_id) => onChange({ ...rule, template_id })}
+          />
+          <OptionSelect
+            value={rule.channel || null}
+            anyLabel="on any channel"
+            choices={[
+              { value: "email", label: "by email" },
+              { value: "whatsapp", label: "on WhatsApp" },
+              { value: "sms", label: "by SMS" },
+            ]}
+            onChange={(channel) => onChange({ ...rule, channel: channel as typeof rule.channel })}
+          />
+        </div>
+      )
+    case "attribute": {
+      const needsValue = rule.op === "equals" || rule.op === "contains"
+      return (
+        <div className="flex flex-wrap gap-2">
+          <Select value={rule.attribute} onValueChange={(attribute) => onChange({ ...rule, attribute: attribute as SegmentAttribute })}>
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SEGMENT_ATTRIBUTES) as SegmentAttribute[]).map((attribute) => (
+                <SelectItem key={attribute} value={attribute}>{SEGMENT_ATTRIBUTES[attribute]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <OpSelect
+            value={rule.op}
+            ops={{ contains: "contains", equals: "is", is_empty: "is empty", not_empty: "is not empty" }}
+            onChange={(op) => onChange({ ...rule, op })}
+          />
+          {needsValue && (
+            <Input
+              className="h-8 w-48"
+              value={rule.value || ""}
+              onChange={(e) => onChange({ ...rule, value: e.target.value })}
+            />
+          )}
+        </div>
+      )
+    }
+  }
+}
+
+function OpSelect<T extends string>({
+  value,
+  ops,
+  onChange,
+}: {
+  value: T
+  ops: Record<T, string>
+  onChange: (op: T) => void
+}) {
+  return (
+    <Select value={value} onValueChange={(op) => onChange(op as T)}>
+      <SelectTrigger className="w-56 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ops) as T[]).map((op) => (
+          <SelectItem key={op} value={op}>{ops[op]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function OptionSelect({
+  value,
+  anyLabel,
+  choices,
+  onChange,
+}: {
+  value: string | null
+  anyLabel: string
+  choices: Option[]
+  onChange: (value: string | null) => void
+}) {
+  return (
+    <Select value={value || NONE} onValueChange={(val) => onChange(val === NONE ? null : val)}>
+      <SelectTrigger className="w-52 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>{anyLabel}</SelectItem>
+        {choices.map((choice) => (
+          <SelectItem key={choice.value} value={choice.value}>{choice.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function ValueChips({
+  choices,
+  value,
+  emptyHint,
+  onChange,
+}: {
+  choices: Option[]
+  value: string[]
+  emptyHint?: string
+  onChange: (value: string[]) => void
+}) {
+  const toggle = (choice: string) =>
+    onChange(value.includes(choice) ? value.filter((v) => v !== choice) : [...value, choice])
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {choices.map((choice) => (
+        <button
+          key={choice.value}
+          type="button"
+          onClick={() => toggle(choice.value)}
+          className={cn(
+            "px-2 py-0.5 rounded-full border text-xs transition-colors",
+            value.includes(choice.value)
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-border text-muted-foreground hover:border-muted-foreground/50"
+          )}
+        >
+          {choice.label}
+        </button>
+      ))}
+      {choices.length === 0 && <span className="text-xs text-muted-foreground">Nothing to pick from yet</span>}
+      {value.length === 0 && emptyHint && choices.length > 0 && (
+        <span className="text-xs text-muted-foreground self-center">{emptyHint}</span>
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { useParams, useRouter } from "next/navigation"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { Button } from "@/components/ui/button"
@@ -26,10 +27,16 @@ import {
   Save,
   TestTube,
   ChevronLeft,
+  ChevronRight,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
 import { COMPANY_CONFIG } from "@/lib/config"
+import {
+  THROTTLED_PROVIDERS,
+  type CampaignThrottles,
+  type ThrottledProvider,
+} from "@/lib/campaign-sending"
 
 type ChannelsEnabled = {
   email: boolean
@@ -60,6 +67,7 @@ type Settings = {
   webhook_secret: string | null
   webhook_headers: Record<string, string>
   channels_enabled: ChannelsEnabled
+  campaign_throttles: CampaignThrottles
 }
 
 const defaultSettings: Settings = {
@@ -84,6 +92,49 @@ const defaultSettings: Settings = {
   webhook_secret: null,
   webhook_headers: {},
   channels_enabled: { email: true, whatsapp: false, sms: false, webhook: false },
+  campaign_throttles: {},
+}
+
+// Sends per minute used by campaigns; blank falls back to the provider default
+function CampaignThrottleFields({
+  providers,
+  throttles,
+  onChange,
+}: {
+  providers: ThrottledProvider[]
+  throttles: CampaignThrottles
+  onChange: (throttles: CampaignThrottles) => void
+}) {
+  return (
+    <div className="space-y-3 pt-4 border-t">
+      <div>
+        <h4 className="font-medium text-sm">Campaign send rate</h4>
+        <p className="text-xs text-muted-foreground">
+          Messages per minute when sending a campaign. Lower it if the provider starts rejecting sends.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {providers.map((provider) => (
+          <div key={provider} className="space-y-2">
+            <Label>{THROTTLED_PROVIDERS[provider].label} (per minute)</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder={String(THROTTLED_PROVIDERS[provider].defaultPerMinute)}
+              value={throttles[provider] ?? ""}
+              onChange={(e) => {
+                const next = { ...throttles }
+                const value = parseInt(e.target.value, 10)
+                if (value > 0) next[provider] = value
+                else delete next[provider]
+                onChange(next)
+              }}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
 }
 
 export default function CommunicationsSettingsPage() {
@@ -151,9 +202,6 @@ export default function CommunicationsSettingsPage() {
         } else if (settings.whatsapp_provider === "meta") {
           credentials.access_token = settings.whatsapp_access_token
         }
-      } else if (channel === "webhook") {
-        credentials.url = settings.webhook_url
-        credentials.headers = settings.webhook_headers
       }
 
       const response = await fetch("/api/communications/settings", {
@@ -336,6 +384,12 @@ export default function CommunicationsSettingsPage() {
                 Test Connection
               </Button>
             )}
+
+            <CampaignThrottleFields
+              providers={["resend"]}
+              throttles={settings.campaign_throttles || {}}
+              onChange={(campaign_throttles) => setSettings({ ...settings, campaign_throttles })}
+            />
           </div>
         )}
 
@@ -453,6 +507,12 @@ export default function CommunicationsSettingsPage() {
                 Test Connection
               </Button>
             )}
+
+            <CampaignThrottleFields
+              providers={["gallabox", "qikchat"]}
+              throttles={settings.campaign_throttles || {}}
+              onChange={(campaign_throttles) => setSettings({ ...settings, campaign_throttles })}
+            />
           </div>
         )}
 
@@ -558,48 +618,21 @@ export default function CommunicationsSettingsPage() {
               <h3 className="font-semibold">Webhook Configuration</h3>
             </div>
 
-            <div className="flex items-center justify-between p-4 rounded-lg bg-secondary/30">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg bg-secondary/30">
               <div>
-                <p className="font-medium">Enable Webhooks</p>
-                <p className="text-sm text-muted-foreground">Send message events to external URLs</p>
+                <p className="font-medium">Endpoints &amp; Delivery Log</p>
+                <p className="text-sm text-muted-foreground">
+                  Add endpoints, choose which events each receives, and inspect or replay deliveries.
+                  Failed deliveries are retried automatically with backoff.
+                </p>
               </div>
-              <Switch
-                checked={settings.webhook_enabled}
-                onCheckedChange={(checked) => setSettings({ ...settings, webhook_enabled: checked })}
-              />
+              <Button variant="outline" asChild>
+                <Link href={`/events/${eventId}/communications/settings/webhooks`}>
+                  Manage Webhooks
+                  <ChevronRight className="h-4 w-4 ml-2" />
+                </Link>
+              </Button>
             </div>
-
-            {settings.webhook_enabled && (
-              <>
-                <div className="space-y-2">
-                  <Label>Webhook URL</Label>
-                  <Input
-                    type="url"
-                    placeholder="https://your-api.com/webhook"
-                    value={settings.webhook_url || ""}
-                    onChange={(e) => setSettings({ ...settings, webhook_url: e.target.value })}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label>Webhook Secret (for signature verification)</Label>
-                  <Input
-                    type={showSecrets ? "text" : "password"}
-                    placeholder="Enter secret key"
-                    value={settings.webhook_secret || ""}
-                    onChange={(e) => setSettings({ ...settings, webhook_secret: e.target.value })}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    We'll send X-Webhook-Signature header with HMAC-SHA256 of the payload
-                  </p>
-                </div>
-
-                <Button variant="outline" onClick={() => testConnection("webhook")} disabled={testing === "webhook"}>
-                  {testing === "webhook" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <TestTube className="h-4 w-4 mr-2" />}
-                  Test Webhook
-                </Button>
-              </>
-            )}
           </div>
         )}
       </div>
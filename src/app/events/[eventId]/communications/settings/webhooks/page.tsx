@@ -0,0 +1,683 @@
+"use client"
+
+import { useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import {
+  Webhook,
+  Loader2,
+  Plus,
+  Trash2,
+  TestTube,
+  RotateCcw,
+  KeyRound,
+  Copy,
+  ChevronLeft,
+  ChevronRight,
+  Pencil,
+} from "lucide-react"
+import { toast } from "sonner"
+import { WEBHOOK_EVENT_TYPES, type WebhookDeliveryStatus } from "@/lib/webhook-events"
+
+type Endpoint = {
+  id: string
+  url: string
+  description: string | null
+  secret: string | null
+  event_types: string[]
+  is_active: boolean
+  created_at: string
+}
+
+type DeliveryRow = {
+  id: string
+  endpoint_id: string | null
+  target_url: string
+  event_type: string
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string | null
+  last_status_code: number | null
+  last_error: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+type Attempt = {
+  id: string
+  attempt: number
+  success: boolean
+  status_code: number | null
+  error: string | null
+  response_body: string | null
+  duration_ms: number | null
+  trigger: "auto" | "replay"
+  attempted_at: string
+}
+
+type EndpointForm = {
+  id: string | null
+  url: string
+  description: string
+  event_types: string[]
+}
+
+const SUBSCRIBABLE_TYPES = Object.entries(WEBHOOK_EVENT_TYPES).filter(([type]) => type !== "webhook.test")
+
+const STATUS_BADGE: Record<WebhookDeliveryStatus, { label: string; color: string }> = {
+  pending: { label: "Retrying", color: "bg-amber-500" },
+  delivered: { label: "Delivered", color: "bg-green-500" },
+  failed: { label: "Failed", color: "bg-red-500" },
+}
+
+const emptyForm: EndpointForm = { id: null, url: "", description: "", event_types: [] }
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  })
+
+const prettyJson = (value: unknown) => {
+  if (typeof value !== "string") return JSON.stringify(value, null, 2)
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2)
+  } catch {
+    return value
+  }
+}
+
+export default function WebhookSettingsPage() {
+  const params = useParams()
+  const router = useRouter()
+  const eventId = params.eventId as string
+  const queryClient = useQueryClient()
+
+  const [form, setForm] = useState<EndpointForm | null>(null)
+  const [deleteEndpoint, setDeleteEndpoint] = useState<Endpoint | null>(null)
+  const [revealedSecret, setRevealedSecret] = useState<{ url: string; secret: string } | null>(null)
+  const [statusFilter, setStatusFilter] = useState<string>("all")
+  const [endpointFilter, setEndpointFilter] = useState<string>("all")
+  const [page, setPage] = useState(1)
+  const [selectedDelivery, setSelectedDelivery] = useState<string | null>(null)
+
+  const { data: endpoints, isLoading } = useQuery({
+    queryKey: ["webhook-endpoints", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/communications/webhooks?event_id=${eventId}`)
+      if (!res.ok) throw new Error("Failed to fetch endpoints")
+      const data = await res.json()
+      return data.endpoints as Endpoint[]
+    },
+  })
+
+  const { data: deliveries, isLoading: deliveriesLoading } = useQuery({
+    queryKey: ["webhook-deliveries", eventId, statusFilter, endpointFilter, page],
+    queryFn: async () => {
+      const search = new URLSearchParams({ event_id: eventId, status: statusFilter, page: String(page) })
+      if (endpointFilter !== "all") search.set("endpoint_id", endpointFilter)
+      const res = await fetch(`/api/communications/webhooks/deliveries?${search}`)
+      if (!res.ok) throw new Error("Failed to fetch deliveries")
+      return res.json() as Promise<{ deliveries: DeliveryRow[]; total: number; page_size: number }>
+    },
+  })
+
+  const { data: detail, isLoading: detailLoading } = useQuery({
+    queryKey: ["webhook-delivery", selectedDelivery],
+    enabled: !!selectedDelivery,
+    queryFn: async () => {
+      const res = await fetch(`/api/communications/webhooks/deliveries/${selectedDelivery}`)
+      if (!res.ok) throw new Error("Failed to fetch delivery")
+      return res.json() as Promise<{ delivery: DeliveryRow & { payload: unknown }; attempts: Attempt[] }>
+    },
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["webhook-endpoints", eventId] })
+    queryClient.invalidateQueries({ queryKey: ["webhook-deliveries", eventId] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: EndpointForm) => {
+      const body = { url: values.url, description: values.description, event_types: values.event_types }
+      const res = await fetch(
+        values.id ? `/api/communications/webhooks/${values.id}` : "/api/communications/webhooks",
+        {
+          method: values.id ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(values.id ? body : { event_id: eventId, ...body }),
+        }
+      )
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to save endpoint")
+      return { created: !values.id, endpoint: data.endpoint as Endpoint }
+    },
+    onSuccess: ({ created, endpoint }) => {
+      toast.success(created ? "Endpoint added" : "Endpoint updated")
+      if (created && endpoint.secret) setRevealedSecret({ url: endpoint.url, secret: endpoint.secret })
+      setForm(null)
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) => {
+      const res = await fetch(`/api/communications/webhooks/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update endpoint")
+      return data.endpoint as Endpoint
+    },
+    onSuccess: (endpoint, { updates }) => {
+      if (updates.rotate_secret && endpoint.secret) {
+        setRevealedSecret({ url: endpoint.url, secret: endpoint.secret })
+        toast.success("Secret rotated")
+      }
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/communications/webhooks/${id}`, { method: "DELETE" })
+      if (!res.ok) throw new Error("Failed to delete endpoint")
+      return res.json()
+    },
+    onSuccess: () => {
+      toast.success("Endpoint removed")
+      setDeleteEndpoint(null)
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/communications/webhooks/${id}/test`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to send test")
+      return data
+    },
+    onSuccess: (data) => {
+      if (data.success) toast.success(`Test delivered (HTTP ${data.status_code})`)
+      else toast.error(`Test failed: ${data.error || `HTTP ${data.status_code}`}`)
+      invalidate()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/communications/webhooks/deliveries/${id}/replay`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to replay")
+      return data
+    },
+    onSuccess: (data, id) => {
+      if (data.success) toast.success("Delivered")
+      else toast.error("Replay failed — see the attempt log")
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: ["webhook-delivery", id] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const toggleFormType = (type: string, checked: boolean) => {
+    if (!form) return
+    setForm({
+      ...form,
+      event_types: checked ? [...form.event_types, type] : form.event_types.filter((t) => t !== type),
+    })
+  }
+
+  const copySecret = async (secret: string) => {
+    await navigator.clipboard.writeText(secret)
+    toast.success("Secret copied")
+  }
+
+  const endpointLabel = (row: DeliveryRow) => {
+    if (!row.endpoint_id) return "Deployment integration"
+    const endpoint = endpoints?.find((e) => e.id === row.endpoint_id)
+    return endpoint?.description || endpoint?.url || row.target_url
+  }
+
+  const totalPages = deliveries ? Math.max(1, Math.ceil(deliveries.total / deliveries.page_size)) : 1
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Back Button */}
+      <button onClick={() => router.back()} className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors">
+        <ChevronLeft className="h-4 w-4" />
+        Back
+      </button>
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <Webhook className="h-6 w-6 text-orange-500" />
+            Webhooks
+          </h1>
+          <p className="text-muted-foreground">
+            Every request is signed with X-Webhook-Signature (HMAC-SHA256 of the body). Failed deliveries are retried with backoff for about ten hours, then can be replayed here.
+          </p>
+        </div>
+        <Button onClick={() => setForm(emptyForm)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Endpoint
+        </Button>
+      </div>
+
+      {/* Endpoints */}
+      {!endpoints || endpoints.length === 0 ? (
+        <div className="bg-card rounded-lg border p-8 text-center text-sm text-muted-foreground">
+          No endpoints yet. Add one to start receiving registration, speaker, booking and message events.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {endpoints.map((endpoint) => (
+            <div key={endpoint.id} className="bg-card rounded-lg border p-4 space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{endpoint.description || endpoint.url}</p>
+                  {endpoint.description && (
+                    <p className="text-sm text-muted-foreground truncate">{endpoint.url}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1 font-mono">{endpoint.secret || "Unsigned"}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Switch
+                    checked={endpoint.is_active}
+                    onCheckedChange={(checked) =>
+                      updateMutation.mutate({ id: endpoint.id, updates: { is_active: checked } })
+                    }
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => testMutation.mutate(endpoint.id)}
+                    disabled={!endpoint.is_active || testMutation.isPending}
+                  >
+                    {testMutation.isPending && testMutation.variables === endpoint.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <TestTube className="h-4 w-4 mr-2" />
+                    )}
+                    Test
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        id: endpoint.id,
+                        url: endpoint.url,
+                        description: endpoint.description || "",
+                        event_types: endpoint.event_types,
+                      })
+                    }
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Rotate secret"
+                    onClick={() => updateMutation.mutate({ id: endpoint.id, updates: { rotate_secret: true } })}
+                  >
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="text-red-600" onClick={() => setDeleteEndpoint(endpoint)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {endpoint.event_types.length === 0 ? (
+                  <Badge variant="secondary" className="text-xs">All events</Badge>
+                ) : (
+                  endpoint.event_types.map((type) => (
+                    <Badge key={type} variant="secondary" className="text-xs font-mono">{type}</Badge>
+                  ))
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Deliveries */}
+      <div className="space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Delivery Log</h2>
+          <div className="flex gap-2">
+            <Select value={endpointFilter} onValueChange={(v) => { setEndpointFilter(v); setPage(1) }}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Endpoint" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All endpoints</SelectItem>
+                {endpoints?.map((endpoint) => (
+                  <SelectItem key={endpoint.id} value={endpoint.id}>
+                    {endpoint.description || endpoint.url}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={(v) => { setStatusFilter(v); setPage(1) }}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="pending">Retrying</SelectItem>
+                <SelectItem value="delivered">Delivered</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {deliveriesLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !deliveries || deliveries.deliveries.length === 0 ? (
+          <div className="bg-card rounded-lg border p-6 text-center text-sm text-muted-foreground">
+            No deliveries yet
+          </div>
+        ) : (
+          <div className="bg-card rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Last Response</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="w-[100px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.deliveries.map((row) => {
+                  const statusInfo = STATUS_BADGE[row.status]
+                  return (
+                    <TableRow key={row.id} className="cursor-pointer" onClick={() => setSelectedDelivery(row.id)}>
+                      <TableCell className="font-mono text-xs">{row.event_type}</TableCell>
+                      <TableCell className="max-w-[220px] truncate text-sm">{endpointLabel(row)}</TableCell>
+                      <TableCell>
+                        <Badge className={`${statusInfo.color} text-white`}>{statusInfo.label}</Badge>
+                        {row.status === "pending" && row.next_attempt_at && row.attempts > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">Next {formatDateTime(row.next_attempt_at)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.attempts}</TableCell>
+                      <TableCell className="max-w-[220px] truncate text-sm text-muted-foreground">
+                        {row.last_status_code ? `HTTP ${row.last_status_code}` : ""}
+                        {row.last_error ? ` ${row.last_error}` : ""}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatDateTime(row.created_at)}</TableCell>
+                      <TableCell>
+                        {row.status !== "delivered" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              replayMutation.mutate(row.id)
+                            }}
+                            disabled={replayMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {deliveries && deliveries.total > deliveries.page_size && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-muted-foreground">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Endpoint Dialog */}
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? "Edit Endpoint" : "Add Endpoint"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>URL</Label>
+                <Input
+                  type="url"
+                  placeholder="https://your-api.com/webhook"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Input
+                  placeholder="e.g. CRM sync"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Events</Label>
+                <p className="text-xs text-muted-foreground">Leave all unticked to receive every event.</p>
+                <div className="space-y-2">
+                  {SUBSCRIBABLE_TYPES.map(([type, description]) => (
+                    <label key={type} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={form.event_types.includes(type)}
+                        onCheckedChange={(checked) => toggleFormType(type, checked === true)}
+                        className="mt-0.5"
+                      />
+                      <span>
+                        <span className="font-mono text-xs">{type}</span>
+                        <span className="block text-muted-foreground">{description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => form && saveMutation.mutate(form)} disabled={!form?.url || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* New Secret Dialog */}
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Copy the secret for {revealedSecret?.url} now — it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret?.secret || ""} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={() => revealedSecret && copySecret(revealedSecret.secret)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <Dialog open={!!deleteEndpoint} onOpenChange={(open) => !open && setDeleteEndpoint(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-red-600">Remove Endpoint</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm">
+            Remove <strong>{deleteEndpoint?.url}</strong>? Its delivery log is deleted with it.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteEndpoint(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteEndpoint && deleteMutation.mutate(deleteEndpoint.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delivery Detail */}
+      <Dialog open={!!selectedDelivery} onOpenChange={(open) => !open && setSelectedDelivery(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Delivery</DialogTitle>
+          </DialogHeader>
+          {detailLoading || !detail ? (
+            <div className="flex items-center justify-center h-32">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge className={`${STATUS_BADGE[detail.delivery.status].color} text-white`}>
+                  {STATUS_BADGE[detail.delivery.status].label}
+                </Badge>
+                <span className="font-mono text-xs">{detail.delivery.event_type}</span>
+                <span className="text-muted-foreground truncate">{detail.delivery.target_url}</span>
+              </div>
+              <div className="space-y-1">
+                <Label>Payload</Label>
+                <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto">{prettyJson(detail.delivery.payload)}</pre>
+              </div>
+              <div className="space-y-2">
+                <Label>Attempts</Label>
+                {detail.attempts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Not attempted yet</p>
+                ) : (
+                  detail.attempts.map((attempt) => (
+                    <div key={attempt.id} className="rounded-md border p-3 space-y-1 text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">#{attempt.attempt}</span>
+                        <Badge variant={attempt.success ? "default" : "destructive"} className="text-xs">
+                          {attempt.status_code ? `HTTP ${attempt.status_code}` : attempt.success ? "OK" : "Error"}
+                        </Badge>
+                        {attempt.trigger === "replay" && <Badge variant="secondary" className="text-xs">Replay</Badge>}
+                        <span className="text-muted-foreground">{formatDateTime(attempt.attempted_at)}</span>
+                        {attempt.duration_ms !== null && (
+                          <span className="text-muted-foreground">{attempt.duration_ms} ms</span>
+                        )}
+                      </div>
+                      {attempt.error && <p className="text-red-600">{attempt.error}</p>}
+                      {attempt.response_body && (
+                        <pre className="bg-muted rounded p-2 text-xs overflow-x-auto">{prettyJson(attempt.response_body)}</pre>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            {detail && detail.delivery.status !== "delivered" && (
+              <Button
+                variant="outline"
+                onClick={() => replayMutation.mutate(detail.delivery.id)}
+                disabled={replayMutation.isPending}
+              >
+                {replayMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Replay
+              </Button>
+            )}
+            <Button onClick={() => setSelectedDelivery(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import { useMemo, useState, useCallback } from "react"
 import { useParams } from "next/navigation"
-import { useQuery } from "@tanstack/react-query"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -17,9 +17,10 @@ import {
 import {
   Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
 } from "@/components/ui/table"
-import { Loader2, Download, BadgeCheck, CheckCircle, Clock, Users, Info, Search, Send, Mail, Ticket, Filter, MessageCircle } from "lucide-react"
+import { Loader2, Download, BadgeCheck, CheckCircle, Clock, Users, Info, Search, Send, Mail, Ticket, Filter, MessageCircle, Pencil, Check, X } from "lucide-react"
 import { toast } from "sonner"
 import { format } from "date-fns"
+import { correctableFieldLabel } from "@/lib/badge-corrections"
 
 export default function DelegatePortalBadgesPage() {
   const params = useParams()
@@ -314,6 +315,8 @@ export default function DelegatePortalBadgesPage() {
         </span>
       </div>
 
+      <BadgeCorrectionQueue eventId={eventId} />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-card border rounded-lg p-4">
@@ -519,3 +522,105 @@ export default function DelegatePortalBadgesPage() {
     </div>
   )
 }
+
+// Corrections delegates asked for from their badge preview on /my. Approving
+// updates the registration, clears the stored badge and queues a reprint at
+// the station serving their check-in list (POST /api/badge-corrections/review).
+function BadgeCorrectionQueue({ eventId }: { eventId: string }) {
+  const queryClient = useQueryClient()
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [reviewing, setReviewing] = useState<string | null>(null)
+
+  const { data: requests } = useQuery({
+    queryKey: ["badge-corrections", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/badge-corrections?event_id=${eventId}`)
+      if (!res.ok) throw new Error("Failed to load correction requests")
+      const data = await res.json()
+      return (data.requests || []) as any[]
+    },
+    refetchInterval: 30000,
+  })
+
+  const review = async (req: any, action: "approve" | "reject") => {
+    setReviewing(req.id)
+    try {
+      const res = await fetch("/api/badge-corrections/review", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId, request_id: req.id, action, note: notes[req.id] || null }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to review the request")
+      const name = req.registrations?.attendee_name || "Delegate"
+      if (action === "reject") {
+        toast.success(`${name}: correction rejected`)
+      } else if (data.data.reprint.queued) {
+        toast.success(`${name}: corrected — reprint queued at ${data.data.reprint.station_name}`)
+      } else if (data.data.reprint.reason === "never_printed") {
+        toast.success(`${name}: corrected — no badge printed yet, so nothing to reprint`)
+      } else {
+        toast.warning(`${name}: corrected, but no print station could take the reprint — print it at the desk`)
+      }
+      queryClient.invalidateQueries({ queryKey: ["badge-corrections", eventId] })
+      queryClient.invalidateQueries({ queryKey: ["delegate-portal-badges", eventId] })
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to review the request")
+    } finally {
+      setReviewing(null)
+    }
+  }
+
+  if (!requests || requests.length === 0) return null
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center gap-2 p-4 border-b">
+        <Pencil className="h-4 w-4 text-muted-foreground" />
+        <h2 className="font-semibold">Correction Requests</h2>
+        <span className="text-xs font-medium rounded-full px-2 py-0.5 bg-amber-100 text-amber-700">{requests.length} pending</span>
+      </div>
+      <div className="divide-y">
+        {requests.map((req: any) => (
+          <div key={req.id} className="p-4 flex flex-col lg:flex-row lg:items-start gap-4">
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="font-medium">
+                {req.registrations?.attendee_name}
+                <span className="ml-2 font-mono text-xs text-muted-foreground">{req.registrations?.registration_number}</span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {req.registrations?.ticket_types?.name || "—"} · asked {format(new Date(req.created_at), "dd MMM, HH:mm")}
+              </p>
+              <ul className="text-sm space-y-0.5">
+                {Object.entries(req.requested_changes || {}).map(([field, value]) => (
+                  <li key={field}>
+                    <span className="text-muted-foreground">{correctableFieldLabel(field)}:</span>{" "}
+                    <span className="line-through text-muted-foreground">{req.previous_values?.[field] || "—"}</span>{" "}
+                    → <span className="font-medium">{(value as string) || "—"}</span>
+                  </li>
+                ))}
+              </ul>
+              {req.delegate_note && <p className="text-xs italic text-muted-foreground">&ldquo;{req.delegate_note}&rdquo;</p>}
+            </div>
+            <div className="flex items-center gap-2 lg:w-[420px]">
+              <Input
+                placeholder="Note to delegate (optional)"
+                value={notes[req.id] || ""}
+                onChange={(e) => setNotes((prev) => ({ ...prev, [req.id]: e.target.value }))}
+                className="h-9"
+              />
+              <Button size="sm" variant="outline" disabled={reviewing === req.id} onClick={() => review(req, "reject")}>
+                <X className="h-4 w-4 mr-1" />
+                Reject
+              </Button>
+              <Button size="sm" disabled={reviewing === req.id} onClick={() => review(req, "approve")}>
+                {reviewing === req.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                Approve
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -256,6 +256,23 @@ export default function KioskStationDetailPage() {
     await loadStation()
   }
 
+  const handleChangeDoorDirection = async (door: "entry" | "exit") => {
+    if (!station || door === station.door_direction) return
+    const res = await fetch(`/api/kiosk-stations/${station.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ door_direction: door }),
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      toast.error(data.error || "Failed to change the hall door")
+      return
+    }
+    toast.success(`${station.name}: hall ${door} door`)
+    await loadStation()
+  }
+  const servesSessionList = station?.list_ids.some((id) => lists.find((l) => l.id === id)?.list_purpose === "session") ?? false
+
   // New link / Revoke / Delete
   const [regenerateConfirmOpen, setRegenerateConfirmOpen] = useState(false)
   const [regenerateBusy, setRegenerateBusy] = useState(false)
@@ -427,6 +444,7 @@ export default function KioskStationDetailPage() {
               onToggleAttended={handleAttendedSwitch}
               onTogglePrint={handleToggleAutoPrint}
               onReassignPrintStation={handleReassignPrintStation}
+              onChangeDoorDirection={servesSessionList ? handleChangeDoorDirection : undefined}
             />
           </section>
         </div>
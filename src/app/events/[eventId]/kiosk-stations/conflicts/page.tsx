@@ -0,0 +1,362 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { toast } from "sonner"
+import { ArrowLeft, Download, GitMerge, RefreshCw, Search, Tablet, Server } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn, formatDateTime } from "@/lib/utils"
+import {
+  CONFLICT_STATUS_LABELS,
+  RESOLUTION_LABELS,
+  type ConflictItem,
+  type ConflictResolution,
+  type ConflictStatus,
+  type RecordState,
+} from "@/lib/kiosk-conflicts"
+
+const STATUS_CLASS: Record<ConflictStatus, string> = {
+  open: "bg-warning/10 text-warning",
+  accepted: "bg-muted text-muted-foreground",
+  voided: "bg-destructive/10 text-destructive",
+  merged: "bg-info/10 text-info",
+}
+
+const RECORD_LABELS: Record<RecordState, string> = {
+  active: "Check-in on record",
+  checked_out: "Checked out since",
+  reversed: "Check-in reversed since",
+  missing: "No check-in on record",
+}
+
+const RESOLUTION_COPY: Record<ConflictResolution, string> = {
+  accept: "The server's decision stands. Nothing about the check-in changes; the conflict is marked reviewed.",
+  void: "The check-in on record is reversed, as if the help desk had reversed it. The attendee can be checked in again.",
+  merge: "Both scans were the same arrival. The check-in on record takes the tablet's earlier time and station.",
+}
+
+type StatusFilter = "open" | "resolved" | "all"
+
+function SideCard({
+  icon: Icon,
+  title,
+  children,
+}: {
+  icon: typeof Tablet
+  title: string
+  children: React.ReactNode
+}) {
+  return (
+    <div className="rounded-xl border bg-muted/20 p-3">
+      <p className="flex items-center gap-1.5 text-[11px] font-medium uppercase tracking-wider text-muted-foreground">
+        <Icon className="h-3.5 w-3.5" />
+        {title}
+      </p>
+      <div className="mt-1.5 space-y-0.5 text-sm">{children}</div>
+    </div>
+  )
+}
+
+export default function KioskConflictsPage() {
+  const { eventId } = useParams<{ eventId: string }>()
+
+  const [items, setItems] = useState<ConflictItem[]>([])
+  const [stations, setStations] = useState<{ id: string; name: string }[]>([])
+  const [lists, setLists] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open")
+  const [stationFilter, setStationFilter] = useState("all")
+  const [listFilter, setListFilter] = useState("all")
+  const [search, setSearch] = useState("")
+  const [resolving, setResolving] = useState<{ item: ConflictItem; resolution: ConflictResolution } | null>(null)
+  const [note, setNote] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  const loadConflicts = async () => {
+    const res = await fetch(`/api/kiosk-conflicts?event_id=${eventId}`, { cache: "no-store" })
+    if (!res.ok) {
+      toast.error("Failed to load conflicts")
+      return
+    }
+    const data = await res.json()
+    setItems(data.items || [])
+    setStations(data.stations || [])
+    setLists(data.lists || [])
+  }
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true)
+      await loadConflicts()
+      setLoading(false)
+    }
+    load()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId])
+
+  const openCount = useMemo(() => items.filter((i) => i.status === "open").length, [items])
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    return items.filter((i) => {
+      if (statusFilter === "open" && i.status !== "open") return false
+      if (statusFilter === "resolved" && i.status === "open") return false
+      if (stationFilter !== "all" && i.station_id !== stationFilter) return false
+      if (listFilter !== "all" && i.checkin_list_id !== listFilter) return false
+      if (q && !i.attendee_name.toLowerCase().includes(q) && !i.registration_number.toLowerCase().includes(q)) return false
+      return true
+    })
+  }, [items, statusFilter, stationFilter, listFilter, search])
+
+  const startResolve = (item: ConflictItem, resolution: ConflictResolution) => {
+    setNote("")
+    setResolving({ item, resolution })
+  }
+
+  const submitResolve = async () => {
+    if (!resolving) return
+    const { item, resolution } = resolving
+    setSaving(true)
+    try {
+      const res = await fetch("/api/kiosk-conflicts/resolve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_id: eventId,
+          ...(item.conflict_id ? { conflict_id: item.conflict_id } : { audit_log_id: item.audit_log_id }),
+          resolution,
+          note,
+        }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || "Failed to resolve conflict")
+      toast.success(`${item.attendee_name}: ${CONFLICT_STATUS_LABELS[data.data.status as ConflictStatus].toLowerCase()}`)
+      setResolving(null)
+      await loadConflicts()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to resolve conflict")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col gap-4 xl:flex-row xl:items-center xl:justify-between">
+        <div>
+          <Link
+            href={`/events/${eventId}/kiosk-stations/fleet`}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Fleet
+          </Link>
+          <h1 className="text-xl font-semibold flex items-center gap-2 mt-1">
+            <GitMerge className="h-5 w-5" />
+            Sync conflicts
+            {openCount > 0 && (
+              <span className="rounded-full bg-warning/10 px-2 py-0.5 text-xs font-medium text-warning">
+                {openCount} to review
+              </span>
+            )}
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Scans a tablet accepted offline that the server later found were already checked in, and repeat scans the
+            server turned away. Compare both sides, then accept, void or merge.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={loadConflicts}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/kiosk-conflicts/report?event_id=${eventId}`}>
+              <Download className="h-4 w-4 mr-2" />
+              Station reliability CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-full sm:w-64">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Name or registration no."
+            className="pl-8"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Needs review</SelectItem>
+            <SelectItem value="resolved">Resolved</SelectItem>
+            <SelectItem value="all">All</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={stationFilter} onValueChange={setStationFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All stations</SelectItem>
+            {stations.map((s) => (
+              <SelectItem key={s.id} value={s.id}>
+                {s.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={listFilter} onValueChange={setListFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All lists</SelectItem>
+            {lists.map((l) => (
+              <SelectItem key={l.id} value={l.id}>
+                {l.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : visible.length === 0 ? (
+        <p className="rounded-2xl border bg-card py-14 text-center text-sm text-muted-foreground">
+          {items.length === 0 ? "No conflicts — every kiosk scan agreed with the server" : "Nothing matches these filters"}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((item) => (
+            <div key={item.key} className="rounded-2xl border bg-card p-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <p className="font-medium">
+                    {item.attendee_name}
+                    {item.registration_number && (
+                      <span className="ml-2 font-mono text-xs text-muted-foreground">{item.registration_number}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {item.list_name} · {item.station_name}
+                  </p>
+                </div>
+                <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_CLASS[item.status])}>
+                  {CONFLICT_STATUS_LABELS[item.status]}
+                </span>
+              </div>
+
+              <div className="mt-3 grid gap-3 md:grid-cols-2">
+                <SideCard icon={Tablet} title="What the attendee saw">
+                  {item.device ? (
+                    <>
+                      <p className="font-medium text-success">Checked in</p>
+                      <p>{formatDateTime(item.device.scanned_at)} (tablet clock, offline)</p>
+                      {item.device.shown_name !== item.attendee_name && (
+                        <p className="text-warning">Shown as &ldquo;{item.device.shown_name}&rdquo;</p>
+                      )}
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">
+                      Not reported by the tablet — usually an online repeat scan, which was turned away on the spot.
+                    </p>
+                  )}
+                </SideCard>
+                <SideCard icon={Server} title="What the server decided">
+                  <p className="font-medium text-warning">Already checked in</p>
+                  {item.server.original_checked_in_at && (
+                    <p>
+                      Originally {formatDateTime(item.server.original_checked_in_at)}
+                      {item.server.original_station_name && ` at ${item.server.original_station_name}`}
+                    </p>
+                  )}
+                  {item.server.decided_at && (
+                    <p className="text-muted-foreground">Decided {formatDateTime(item.server.decided_at)}</p>
+                  )}
+                  <p className={cn("text-xs", item.server.record === "active" ? "text-muted-foreground" : "text-warning")}>
+                    {RECORD_LABELS[item.server.record]}
+                  </p>
+                </SideCard>
+              </div>
+
+              {item.status !== "open" ? (
+                <p className="mt-3 text-xs text-muted-foreground">
+                  {CONFLICT_STATUS_LABELS[item.status]}
+                  {item.resolved_at && ` ${formatDateTime(item.resolved_at)}`}
+                  {item.resolution_note && ` — ${item.resolution_note}`}
+                </p>
+              ) : (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {item.resolutions.map((resolution) => (
+                    <Button
+                      key={resolution}
+                      size="sm"
+                      variant={resolution === "void" ? "destructive" : resolution === "accept" ? "outline" : "default"}
+                      onClick={() => startResolve(item, resolution)}
+                    >
+                      {RESOLUTION_LABELS[resolution]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && !saving && setResolving(null)}>
+        <DialogContent>
+          {resolving && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {RESOLUTION_LABELS[resolving.resolution]} — {resolving.item.attendee_name}
+                </DialogTitle>
+                <DialogDescription>{RESOLUTION_COPY[resolving.resolution]}</DialogDescription>
+              </DialogHeader>
+              <Textarea
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder={resolving.resolution === "void" ? "Reason (kept on the reversal)" : "Note (optional)"}
+                maxLength={500}
+                rows={3}
+              />
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setResolving(null)} disabled={saving}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={resolving.resolution === "void" ? "destructive" : "default"}
+                  onClick={submitResolve}
+                  disabled={saving}
+                >
+                  {saving ? "Saving…" : RESOLUTION_LABELS[resolving.resolution]}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
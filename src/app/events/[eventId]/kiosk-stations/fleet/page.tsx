@@ -0,0 +1,448 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { toast } from "sonner"
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Battery,
+  BatteryCharging,
+  BatteryWarning,
+  GitMerge,
+  Lock,
+  MoreHorizontal,
+  Radio,
+  RefreshCw,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useConfirm } from "@/components/confirm-dialog"
+import { cn } from "@/lib/utils"
+import { computeStationStatus, STATION_STATUS_LABELS } from "@/lib/kiosk-station-status"
+import { STATUS_META, relativeLastSeen, type CheckinList } from "@/components/kiosk-admin/station-controls"
+import { RelaySettings } from "@/components/kiosk-admin/relay-settings"
+import {
+  KIOSK_COMMAND_LABELS,
+  fleetMajorityVersion,
+  fleetWarnings,
+  formatAge,
+  type FleetStationTelemetry,
+  type KioskCommand,
+  type KioskCommandStatus,
+} from "@/lib/kiosk-fleet"
+
+interface FleetStation extends FleetStationTelemetry {
+  id: string
+  name: string
+  mode: string
+  attended: boolean
+  last_seen_at: string | null
+  device_id: string | null
+  current_list_id: string | null
+  locked: boolean
+  list_ids: string[]
+}
+
+interface FleetCommandRow {
+  id: string
+  station_id: string
+  command: KioskCommand
+  payload: { list_id?: string }
+  status: KioskCommandStatus
+  result: string | null
+  created_at: string
+  completed_at: string | null
+}
+
+const POLL_MS = 15 * 1000
+
+const COMMAND_STATUS_META: Record<KioskCommandStatus, { label: string; className: string }> = {
+  pending: { label: "Waiting for device", className: "text-info" },
+  delivered: { label: "Delivered", className: "text-info" },
+  acked: { label: "Done", className: "text-success" },
+  failed: { label: "Failed", className: "text-destructive" },
+  expired: { label: "Expired", className: "text-muted-foreground" },
+}
+
+// Commands that interrupt whoever is at the desk get a confirmation; the
+// rest are safe to fire straight away.
+const CONFIRM_COPY: Partial<Record<KioskCommand, string>> = {
+  reload: "The app restarts on the tablet. Unsynced scans are kept and sync after the reload.",
+  clear_cache: "The tablet drops its cached rosters and print templates and downloads them again. Unsynced scans are kept.",
+  lock_screen: "The tablet shows a \"station paused\" screen until you unlock it. Check-ins can't be made there meanwhile.",
+}
+
+const BULK_COMMANDS: KioskCommand[] = ["refresh_manifest", "force_sync", "reload"]
+
+function BatteryCell({ level, charging }: { level: number | null; charging: boolean | null }) {
+  if (level === null) return <span className="text-muted-foreground">—</span>
+  const low = !charging && level < 0.2
+  const Icon = charging ? BatteryCharging : low ? BatteryWarning : Battery
+  return (
+    <span className={cn("inline-flex items-center gap-1 tabular-nums", low ? "text-orange-600 font-semibold" : "")}>
+      <Icon className="h-3.5 w-3.5" />
+      {Math.round(level * 100)}%
+    </span>
+  )
+}
+
+export default function KioskFleetPage() {
+  const { eventId } = useParams<{ eventId: string }>()
+  const confirm = useConfirm()
+
+  const [stations, setStations] = useState<FleetStation[]>([])
+  const [commands, setCommands] = useState<FleetCommandRow[]>([])
+  const [lists, setLists] = useState<CheckinList[]>([])
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState<string | null>(null)
+  const [now, setNow] = useState(() => new Date())
+
+  const loadFleet = async () => {
+    const res = await fetch(`/api/kiosk-stations/fleet?event_id=${eventId}`, { cache: "no-store" })
+    if (!res.ok) return
+    const data = await res.json()
+    setStations(data.stations || [])
+    setCommands(data.commands || [])
+    setNow(new Date())
+  }
+
+  useEffect(() => {
+    async function load() {
+      setLoading(true)
+      await Promise.all([
+        loadFleet(),
+        fetch(`/api/checkin-lists?event_id=${eventId}`)
+          .then((r) => r.json())
+          .then((d) => setLists(d.lists || d || [])),
+      ])
+      setLoading(false)
+    }
+    load()
+    // Tablets heartbeat every 30s, so a 15s poll shows a command's progress
+    // (waiting -> delivered -> done) without the admin reloading the page.
+    const intervalId = setInterval(loadFleet, POLL_MS)
+    return () => clearInterval(intervalId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId])
+
+  const listNames = useMemo(() => new Map(lists.map((l) => [l.id, l.name])), [lists])
+  const stationNames = useMemo(() => new Map(stations.map((s) => [s.id, s.name])), [stations])
+  const majorityVersion = useMemo(() => fleetMajorityVersion(stations), [stations])
+  const liveStations = stations.filter((s) => !s.revoked_at)
+
+  // Newest command per station, for the inline "Reload · Delivered" hint.
+  const latestCommand = useMemo(() => {
+    const byStation = new Map<string, FleetCommandRow>()
+    for (const c of commands) if (!byStation.has(c.station_id)) byStation.set(c.station_id, c)
+    return byStation
+  }, [commands])
+
+  const totals = useMemo(
+    () => ({
+      online: liveStations.filter((s) => computeStationStatus(s, now) === "online").length,
+      pending: liveStations.reduce((sum, s) => sum + (s.pending_scans || 0), 0),
+      conflicts: liveStations.reduce((sum, s) => sum + (s.conflict_scans || 0), 0),
+      needsAttention: liveStations.filter((s) => fleetWarnings(s, { majorityVersion, now }).length > 0).length,
+    }),
+    [liveStations, majorityVersion, now]
+  )
+
+  const sendCommand = async (station: FleetStation, command: KioskCommand, payload?: Record<string, unknown>) => {
+    const res = await fetch(`/api/kiosk-stations/${station.id}/commands`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ command, payload }),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(data.error || "Failed to send command")
+    return data as { duplicate?: boolean }
+  }
+
+  const handleCommand = async (station: FleetStation, command: KioskCommand, payload?: Record<string, unknown>) => {
+    const copy = CONFIRM_COPY[command]
+    if (copy) {
+      const ok = await confirm({
+        title: `${KIOSK_COMMAND_LABELS[command]} on "${station.name}"?`,
+        description: copy,
+        confirmText: KIOSK_COMMAND_LABELS[command],
+        variant: "warning",
+      })
+      if (!ok) return
+    }
+    setSending(station.id)
+    try {
+      const result = await sendCommand(station, command, payload)
+      toast.success(
+        result.duplicate
+          ? `${KIOSK_COMMAND_LABELS[command]} is already waiting for "${station.name}"`
+          : `${KIOSK_COMMAND_LABELS[command]} sent — "${station.name}" picks it up within 30 seconds`
+      )
+      await loadFleet()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to send command")
+    } finally {
+      setSending(null)
+    }
+  }
+
+  const handleBulk = async (command: KioskCommand) => {
+    if (liveStations.length === 0) return
+    const copy = CONFIRM_COPY[command]
+    const ok = await confirm({
+      title: `${KIOSK_COMMAND_LABELS[command]} on all ${liveStations.length} stations?`,
+      description: copy || "Every station that isn't revoked picks this up on its next heartbeat.",
+      confirmText: KIOSK_COMMAND_LABELS[command],
+      variant: "warning",
+    })
+    if (!ok) return
+    setSending("bulk")
+    try {
+      const results = await Promise.allSettled(liveStations.map((s) => sendCommand(s, command)))
+      const failed = results.filter((r) => r.status === "rejected").length
+      if (failed > 0) toast.error(`${failed} of ${liveStations.length} stations couldn't be sent the command`)
+      else toast.success(`${KIOSK_COMMAND_LABELS[command]} sent to ${liveStations.length} stations`)
+      await loadFleet()
+    } finally {
+      setSending(null)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col gap-4 xl:flex-row xl:items-center xl:justify-between">
+        <div>
+          <Link
+            href={`/events/${eventId}/kiosk-stations`}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Kiosk Stations
+          </Link>
+          <h1 className="text-xl font-semibold flex items-center gap-2 mt-1">
+            <Radio className="h-5 w-5" />
+            Fleet
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            What each tablet last reported, and remote commands it picks up on its next check-in (every 30 seconds
+            while online).
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/events/${eventId}/kiosk-stations/conflicts`}>
+              <GitMerge className="h-4 w-4 mr-2" />
+              Conflicts
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" onClick={loadFleet}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" disabled={sending === "bulk" || liveStations.length === 0}>
+                Send to all
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {BULK_COMMANDS.map((command) => (
+                <DropdownMenuItem key={command} onClick={() => handleBulk(command)}>
+                  {KIOSK_COMMAND_LABELS[command]}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {[
+          { label: "Active", value: `${totals.online} / ${liveStations.length}` },
+          { label: "Unsynced scans", value: totals.pending },
+          { label: "Conflicts", value: totals.conflicts },
+          { label: "Need attention", value: totals.needsAttention },
+        ].map((tile) => (
+          <div key={tile.label} className="rounded-xl border bg-card p-4">
+            <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground">{tile.label}</p>
+            <p className="mt-1 text-2xl font-semibold tabular-nums">{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : stations.length === 0 ? (
+        <p className="rounded-2xl border bg-card py-14 text-center text-sm text-muted-foreground">No stations yet</p>
+      ) : (
+        <div className="overflow-x-auto rounded-2xl border bg-card">
+          <table className="w-full text-sm">
+            <thead className="border-b bg-muted/40 text-left text-xs uppercase tracking-wider text-muted-foreground">
+              <tr>
+                <th className="px-4 py-2.5 font-medium">Station</th>
+                <th className="px-3 py-2.5 font-medium">Heartbeat</th>
+                <th className="px-3 py-2.5 font-medium">Version</th>
+                <th className="px-3 py-2.5 font-medium">Cache</th>
+                <th className="px-3 py-2.5 font-medium text-right">Pending</th>
+                <th className="px-3 py-2.5 font-medium text-right">Conflicts</th>
+                <th className="px-3 py-2.5 font-medium">Battery</th>
+                <th className="px-3 py-2.5 font-medium">On screen</th>
+                <th className="px-3 py-2.5" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {stations.map((station) => {
+                const status = computeStationStatus(station, now)
+                const warnings = fleetWarnings(station, { majorityVersion, now })
+                const last = latestCommand.get(station.id)
+                const revoked = !!station.revoked_at
+                return (
+                  <tr key={station.id} className={cn("align-top", revoked && "opacity-60")}>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className={cn("h-2 w-2 shrink-0 rounded-full", STATUS_META[status].dot)} />
+                        <Link
+                          href={`/events/${eventId}/kiosk-stations/${station.id}`}
+                          className="font-medium hover:underline"
+                        >
+                          {station.name}
+                        </Link>
+                        {station.locked && (
+                          <span title="Screen locked" className="text-amber-600">
+                            <Lock className="h-3.5 w-3.5" />
+                          </span>
+                        )}
+                      </div>
+                      <p className={cn("text-xs", STATUS_META[status].label)}>
+                        {STATION_STATUS_LABELS[status]} · {relativeLastSeen(station.last_seen_at)}
+                      </p>
+                      {warnings.length > 0 && (
+                        <div className="mt-1.5 flex flex-wrap gap-1">
+                          {warnings.map((w) => (
+                            <span
+                              key={w.kind}
+                              className="inline-flex items-center gap-1 rounded-full bg-warning/10 px-2 py-0.5 text-[11px] text-warning"
+                            >
+                              <AlertTriangle className="h-3 w-3" />
+                              {w.label}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {last && (
+                        <p className="mt-1 text-[11px] text-muted-foreground">
+                          {KIOSK_COMMAND_LABELS[last.command]} ·{" "}
+                          <span className={COMMAND_STATUS_META[last.status].className}>
+                            {COMMAND_STATUS_META[last.status].label}
+                          </span>
+                          {last.result && ` · ${last.result}`}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 whitespace-nowrap text-muted-foreground">
+                      {station.telemetry_at ? formatAge(station.telemetry_at, now) : "No heartbeat yet"}
+                    </td>
+                    <td className="px-3 py-3 font-mono text-xs">{station.app_version || "—"}</td>
+                    <td className="px-3 py-3 whitespace-nowrap text-muted-foreground">
+                      {station.telemetry_at ? formatAge(station.cache_updated_at, now) : "—"}
+                    </td>
+                    <td className="px-3 py-3 text-right tabular-nums">{station.pending_scans ?? "—"}</td>
+                    <td className="px-3 py-3 text-right tabular-nums">{station.conflict_scans ?? "—"}</td>
+                    <td className="px-3 py-3">
+                      <BatteryCell level={station.battery_level} charging={station.battery_charging} />
+                    </td>
+                    <td className="px-3 py-3 text-muted-foreground">
+                      {station.current_list_id ? listNames.get(station.current_list_id) || "Unknown list" : "Menu"}
+                    </td>
+                    <td className="px-3 py-3 text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" disabled={revoked || sending === station.id}>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => handleCommand(station, "refresh_manifest")}>
+                            {KIOSK_COMMAND_LABELS.refresh_manifest}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleCommand(station, "force_sync")}>
+                            {KIOSK_COMMAND_LABELS.force_sync}
+                          </DropdownMenuItem>
+                          <DropdownMenuSub>
+                            <DropdownMenuSubTrigger disabled={station.list_ids.length === 0}>
+                              {KIOSK_COMMAND_LABELS.switch_list}
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent>
+                              {station.list_ids.map((listId) => (
+                                <DropdownMenuItem
+                                  key={listId}
+                                  onClick={() => handleCommand(station, "switch_list", { list_id: listId })}
+                                >
+                                  {listNames.get(listId) || "Unknown list"}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => handleCommand(station, "clear_cache")}>
+                            {KIOSK_COMMAND_LABELS.clear_cache}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleCommand(station, "reload")}>
+                            {KIOSK_COMMAND_LABELS.reload}
+                          </DropdownMenuItem>
+                          {station.locked ? (
+                            <DropdownMenuItem onClick={() => handleCommand(station, "unlock_screen")}>
+                              {KIOSK_COMMAND_LABELS.unlock_screen}
+                            </DropdownMenuItem>
+                          ) : (
+                            <DropdownMenuItem onClick={() => handleCommand(station, "lock_screen")}>
+                              {KIOSK_COMMAND_LABELS.lock_screen}
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {commands.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-semibold">Recent commands</h2>
+          <div className="rounded-2xl border bg-card divide-y">
+            {commands.slice(0, 20).map((c) => (
+              <div key={c.id} className="flex flex-wrap items-center gap-x-3 gap-y-0.5 px-4 py-2 text-sm">
+                <span className="font-medium">{stationNames.get(c.station_id) || "Deleted station"}</span>
+                <span>
+                  {KIOSK_COMMAND_LABELS[c.command]}
+                  {c.command === "switch_list" && c.payload.list_id && ` → ${listNames.get(c.payload.list_id) || "Unknown list"}`}
+                </span>
+                <span className={cn("text-xs", COMMAND_STATUS_META[c.status].className)}>
+                  {COMMAND_STATUS_META[c.status].label}
+                </span>
+                {c.result && <span className="text-xs text-muted-foreground">{c.result}</span>}
+                <span className="ml-auto text-xs text-muted-foreground">{formatAge(c.created_at, now)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <RelaySettings eventId={eventId} />
+    </div>
+  )
+}
@@ -34,6 +34,7 @@ import {
   LayoutGrid,
   ChevronDown,
   ChevronRight,
+  Radio,
   X,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
@@ -622,10 +623,18 @@ export default function KioskStationsPage() {
             stays signed in on its own and never needs a password again.
           </p>
         </div>
-        <Button className="w-full xl:w-auto" onClick={() => setAddWizardOpen(true)}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Station
-        </Button>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Button variant="outline" className="w-full xl:w-auto" asChild>
+            <Link href={`/events/${eventId}/kiosk-stations/fleet`}>
+              <Radio className="h-4 w-4 mr-2" />
+              Fleet
+            </Link>
+          </Button>
+          <Button className="w-full xl:w-auto" onClick={() => setAddWizardOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Station
+          </Button>
+        </div>
       </div>
 
       {loading ? (
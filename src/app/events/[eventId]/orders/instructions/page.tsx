@@ -223,6 +223,15 @@ export default function OrdersInstructionsPage() {
               representing the total value of their registration.
             </span>
           </li>
+          <li className="flex gap-2">
+            <ArrowRight className="w-4 h-4 text-primary mt-0.5 flex-shrink-0" />
+            <span>
+              <strong>Refunds</strong> are requested from the order menu with a reason and an amount per
+              ticket or add-on, then approved by a <em>different</em> team member before any money moves.
+              A ticket refunded in full cancels the registration and offers the seat to the waitlist.
+              Each processed refund gets a GST credit note, downloadable from the order.
+            </span>
+          </li>
         </ul>
       </section>
 
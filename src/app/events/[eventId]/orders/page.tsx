@@ -57,6 +57,7 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog"
 import { cn } from "@/lib/utils"
+import { RefundRequestDialog, OrderRefundsSection } from "./refunds-section"
 
 interface OrderAddon {
   id: string
@@ -119,7 +120,8 @@ export default function OrdersPage() {
   const [statusFilter, setStatusFilter] = useState<string>("all")
   const [deletingOrderId, setDeletingOrderId] = useState<string | null>(null)
 
-  const [refundingOrderId, setRefundingOrderId] = useState<string | null>(null)
+  // Refund requests (two-person approval, see refunds-section.tsx)
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null)
 
   // Payment verification
   const [verifyDialogOpen, setVerifyDialogOpen] = useState(false)
@@ -161,44 +163,6 @@ export default function OrdersPage() {
     }
   }
 
-  // Refund handler
-  const handleRefund = async (order: Order, e?: React.MouseEvent) => {
-    e?.stopPropagation()
-
-    const cancelledReg = order.registrations?.find((r) => r.status === "cancelled")
-    if (!cancelledReg) {
-      toast.error("No cancelled registration found for this order")
-      return
-    }
-
-    if (!confirm(`Refund ₹${order.net_amount.toLocaleString()} for ${order.payer_name}? This will process a refund via Razorpay.`)) {
-      return
-    }
-
-    setRefundingOrderId(order.id)
-    try {
-      const response = await fetch(`/api/registrations/${cancelledReg.id}/cancel`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ refund_now: true }),
-      })
-
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || data.message || "Failed to process refund")
-      }
-
-      toast.success(data.message || "Refund processed successfully")
-      refetch()
-    } catch (error: any) {
-      console.error("Error processing refund:", error)
-      toast.error(error.message || "Failed to process refund")
-    } finally {
-      setRefundingOrderId(null)
-    }
-  }
-
   // Open verify dialog
   const openVerifyDialog = (order: Order, e?: React.MouseEvent) => {
     e?.stopPropagation()
@@ -690,32 +654,17 @@ export default function OrdersPage() {
                           <Download className="w-4 h-4 mr-2" />
                           Download Invoice
                         </DropdownMenuItem>
-                        {order.status === "completed" && order.registrations?.some((r) => r.status === "cancelled") && (
-                          order.registrations.some((r) => r.id) ? (
-                            <DropdownMenuItem
-                              onClick={(e) => handleRefund(order, e)}
-                              disabled={refundingOrderId === order.id}
-                              className="text-info focus:text-info"
-                            >
-                              <RefreshCw className="w-4 h-4 mr-2" />
-                              {refundingOrderId === order.id ? "Processing..." : "Refund via Razorpay"}
-                            </DropdownMenuItem>
-                          ) : (
-                            <DropdownMenuItem
-                              onClick={(e) => {
-                                e.stopPropagation()
-                                if (order.razorpay_payment_id) {
-                                  window.open(`https://dashboard.razorpay.com/app/payments/${order.razorpay_payment_id}`, "_blank")
-                                } else {
-                                  window.open("https://dashboard.razorpay.com/app/payments", "_blank")
-                                }
-                              }}
-                              className="text-info focus:text-info"
-                            >
-                              <RefreshCw className="w-4 h-4 mr-2" />
-                              Refund via Razorpay Dashboard
-                            </DropdownMenuItem>
-                          )
+                        {["completed", "partially_refunded", "refund_pending"].includes(order.status) && !!order.registrations?.length && (
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setRefundOrder(order)
+                            }}
+                            className="text-info focus:text-info"
+                          >
+                            <RefreshCw className="w-4 h-4 mr-2" />
+                            Request Refund
+                          </DropdownMenuItem>
                         )}
                         {order.status === "completed" && !order.registrations?.some((r) => r.status === "cancelled") && !order.registrations?.length && order.razorpay_payment_id && (
                           <DropdownMenuItem
@@ -963,6 +912,12 @@ export default function OrdersPage() {
               </div>
             </SlideOverSection>
 
+            <OrderRefundsSection
+              paymentId={selectedOrder.id}
+              registrationNumber={selectedOrder.registrations?.[0]?.registration_number}
+              onChanged={() => refetch()}
+            />
+
             {/* Actions */}
             <SlideOverFooter>
               {(selectedOrder?.status === "failed" || selectedOrder?.status === "pending" || (selectedOrder?.status === "completed" && (!selectedOrder?.registrations || selectedOrder.registrations.length === 0))) && (
@@ -1000,6 +955,14 @@ export default function OrdersPage() {
         )}
       </SlideOver>
 
+      <RefundRequestDialog
+        paymentId={refundOrder?.id || null}
+        paymentNumber={refundOrder?.payment_number}
+        open={!!refundOrder}
+        onOpenChange={(open) => !open && setRefundOrder(null)}
+        onCreated={() => refetch()}
+      />
+
       {/* Payment Verify Dialog */}
       <Dialog open={verifyDialogOpen} onOpenChange={setVerifyDialogOpen}>
         <DialogContent className="max-w-md">
@@ -0,0 +1,390 @@
+"use client"
+
+import { useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { format } from "date-fns"
+import { toast } from "sonner"
+import { AlertTriangle, CheckCircle2, Clock, Download, Loader2, RefreshCw, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { SlideOverSection } from "@/components/ui/slide-over"
+import { cn } from "@/lib/utils"
+import type { RefundableLine, RefundStatus } from "@/lib/refunds"
+
+interface RefundItem {
+  id: string
+  item_type: "ticket" | "addon"
+  registration_id: string
+  description: string
+  amount: number
+}
+
+interface RefundRequest {
+  id: string
+  reason_code: string
+  reason_note: string | null
+  amount: number
+  tax_amount: number
+  status: RefundStatus
+  requested_by: string
+  requested_by_name: string | null
+  decided_by_name: string | null
+  decision_note: string | null
+  error_message: string | null
+  credit_note_number: string | null
+  created_at: string
+  refund_request_items: RefundItem[]
+}
+
+interface RefundsResponse {
+  net_amount: number
+  refunded_total: number
+  balance: number
+  lines: RefundableLine[]
+  reason_codes: Record<string, string>
+  refunds: RefundRequest[]
+  current_user_id?: string
+}
+
+const refundStatusConfig: Record<RefundRequest["status"], { label: string; color: string; icon: React.ElementType }> = {
+  requested: { label: "Awaiting approval", color: "bg-warning/10 text-warning", icon: Clock },
+  approved: { label: "Approved", color: "bg-info/10 text-info", icon: RefreshCw },
+  processed: { label: "Refunded", color: "bg-success/10 text-success", icon: CheckCircle2 },
+  rejected: { label: "Rejected", color: "bg-muted text-muted-foreground", icon: XCircle },
+  failed: { label: "Gateway failed", color: "bg-destructive/10 text-destructive", icon: XCircle },
+  needs_attention: { label: "Paid, not recorded", color: "bg-destructive/10 text-destructive", icon: AlertTriangle },
+}
+
+function lineKey(line: { item_type: string; registration_id: string; registration_addon_id?: string | null }) {
+  return line.item_type === "addon" ? `addon:${line.registration_addon_id}` : `ticket:${line.registration_id}`
+}
+
+export function useOrderRefunds(paymentId: string | null) {
+  return useQuery<RefundsResponse>({
+    queryKey: ["order-refunds", paymentId],
+    enabled: !!paymentId,
+    queryFn: async () => {
+      const res = await fetch(`/api/payments/${paymentId}/refunds`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to load refunds")
+      return data
+    },
+  })
+}
+
+// Raise a refund request: reason code plus per-ticket / per-add-on amounts.
+// Nothing is paid out until someone else approves it in the order's Refunds
+// section.
+export function RefundRequestDialog({
+  paymentId,
+  paymentNumber,
+  open,
+  onOpenChange,
+  onCreated,
+}: {
+  paymentId: string | null
+  paymentNumber?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated: () => void
+}) {
+  const { data, isLoading } = useOrderRefunds(open ? paymentId : null)
+  const [reasonCode, setReasonCode] = useState("")
+  const [reasonNote, setReasonNote] = useState("")
+  const [selected, setSelected] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const close = () => {
+    setReasonCode("")
+    setReasonNote("")
+    setSelected({})
+    onOpenChange(false)
+  }
+
+  const total = Object.values(selected).reduce((sum, v) => sum + (parseFloat(v) || 0), 0)
+
+  const toggleLine = (line: RefundableLine, checked: boolean) => {
+    const key = lineKey(line)
+    setSelected((prev) => {
+      const next = { ...prev }
+      if (checked) next[key] = String(Math.max(0, line.paid - line.refunded))
+      else delete next[key]
+      return next
+    })
+  }
+
+  const handleSubmit = async () => {
+    if (!paymentId || !data) return
+    const items = data.lines
+      .filter((line) => selected[lineKey(line)] !== undefined)
+      .map((line) => ({
+        item_type: line.item_type,
+        registration_id: line.registration_id,
+        registration_addon_id: line.registration_addon_id,
+        amount: parseFloat(selected[lineKey(line)]) || 0,
+      }))
+
+    setIsSubmitting(true)
+    try {
+      const res = await fetch(`/api/payments/${paymentId}/refunds`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason_code: reasonCode, reason_note: reasonNote, items }),
+      })
+      const result = await res.json()
+      if (!res.ok) throw new Error(result.error || "Failed to request refund")
+      toast.success("Refund requested — another team member needs to approve it")
+      onCreated()
+      close()
+    } catch (error: any) {
+      toast.error(error.message || "Failed to request refund")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-primary" />
+            Request Refund {paymentNumber ? `· ${paymentNumber}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="bg-muted rounded-lg p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid</span>
+                <span>₹{data.net_amount.toLocaleString()}</span>
+              </div>
+              {data.refunded_total > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Already refunded</span>
+                  <span>₹{data.refunded_total.toLocaleString()}</span>
+                </div>
+              )}
+              <div className="flex justify-between font-medium">
+                <span>Refundable balance</span>
+                <span>₹{data.balance.toLocaleString()}</span>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Reason</label>
+              <Select value={reasonCode} onValueChange={setReasonCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(data.reason_codes).map(([code, label]) => (
+                    <SelectItem key={code} value={code}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Lines to refund</label>
+              <div className="space-y-2">
+                {data.lines.map((line) => {
+                  const key = lineKey(line)
+                  const available = Math.max(0, line.paid - line.refunded)
+                  const isSelected = selected[key] !== undefined
+                  return (
+                    <div key={key} className={cn("flex items-center gap-3 p-2 rounded-lg border", available <= 0 && "opacity-50")}>
+                      <Checkbox
+                        checked={isSelected}
+                        disabled={available <= 0}
+                        onCheckedChange={(checked) => toggleLine(line, checked === true)}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm truncate">
+                          {line.item_type === "addon" && <span className="text-muted-foreground">Add-on · </span>}
+                          {line.description}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          ₹{available.toLocaleString()} refundable
+                          {line.refunded > 0 && ` (₹${line.refunded.toLocaleString()} refunded)`}
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={available}
+                        step="0.01"
+                        className="w-28 text-right"
+                        disabled={!isSelected}
+                        value={selected[key] ?? ""}
+                        onChange={(e) => setSelected((prev) => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    </div>
+                  )
+                })}
+                {data.lines.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Nothing on this order can be refunded.</p>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-1.5">
+                Refunding a ticket in full cancels the registration and releases the seat to the waitlist.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium mb-1.5">Note {reasonCode === "other" && "(required)"}</label>
+              <Textarea
+                value={reasonNote}
+                onChange={(e) => setReasonNote(e.target.value)}
+                placeholder="What happened, who asked, any reference"
+                rows={2}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting || !reasonCode || total <= 0}
+          >
+            {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Request ₹{total.toLocaleString()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Refund history for one order, with approve/reject for anyone other than the
+// requester and a credit note download once processed.
+export function OrderRefundsSection({
+  paymentId,
+  registrationNumber,
+  onChanged,
+}: {
+  paymentId: string
+  registrationNumber?: string
+  onChanged: () => void
+}) {
+  const { data, refetch } = useOrderRefunds(paymentId)
+  const [decidingId, setDecidingId] = useState<string | null>(null)
+
+  if (!data || data.refunds.length === 0) return null
+
+  const decide = async (refund: RefundRequest, action: "approve" | "reject") => {
+    const prompt = action === "approve"
+      ? `Approve and pay out ₹${refund.amount.toLocaleString()}? This calls the payment gateway now.`
+      : `Reject this ₹${refund.amount.toLocaleString()} refund request?`
+    if (!confirm(prompt)) return
+
+    setDecidingId(refund.id)
+    try {
+      const res = await fetch(`/api/payments/${paymentId}/refunds/${refund.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      })
+      const result = await res.json()
+      if (!res.ok) throw new Error(result.message || result.error || "Failed to update refund")
+      toast.success(action === "approve" ? `Refund processed (${result.credit_note_number})` : "Refund rejected")
+      refetch()
+      onChanged()
+    } catch (error: any) {
+      toast.error(error.message || "Failed to update refund")
+      refetch()
+    } finally {
+      setDecidingId(null)
+    }
+  }
+
+  return (
+    <SlideOverSection title="Refunds" icon={RefreshCw}>
+      <div className="space-y-3">
+        {data.refunds.map((refund) => {
+          const config = refundStatusConfig[refund.status]
+          const StatusIcon = config.icon
+          const canDecide = (refund.status === "requested" || refund.status === "failed")
+            && refund.requested_by !== data.current_user_id
+          return (
+            <div key={refund.id} className="p-3 rounded-lg bg-muted/30 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className={cn("inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium", config.color)}>
+                  <StatusIcon className="w-3 h-3" />
+                  {config.label}
+                </span>
+                <span className="font-semibold">₹{Number(refund.amount).toLocaleString()}</span>
+              </div>
+              <p className="text-sm">
+                {data.reason_codes[refund.reason_code] || refund.reason_code}
+                {refund.reason_note && <span className="text-muted-foreground"> — {refund.reason_note}</span>}
+              </p>
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {refund.refund_request_items.map((item) => (
+                  <li key={item.id} className="flex justify-between gap-2">
+                    <span className="truncate">{item.item_type === "addon" ? "Add-on · " : ""}{item.description}</span>
+                    <span>₹{Number(item.amount).toLocaleString()}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                Requested by {refund.requested_by_name || "—"} · {format(new Date(refund.created_at), "dd MMM yyyy, h:mm a")}
+                {refund.decided_by_name && ` · decided by ${refund.decided_by_name}`}
+              </p>
+              {refund.error_message && (
+                <p className="text-xs text-destructive">{refund.error_message}</p>
+              )}
+              {canDecide && (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => decide(refund, "approve")} disabled={decidingId === refund.id}>
+                    {decidingId === refund.id ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <CheckCircle2 className="w-3 h-3 mr-1" />}
+                    {refund.status === "failed" ? "Retry" : "Approve"}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => decide(refund, "reject")} disabled={decidingId === refund.id}>
+                    Reject
+                  </Button>
+                </div>
+              )}
+              {refund.status === "requested" && refund.requested_by === data.current_user_id && (
+                <p className="text-xs text-muted-foreground">Waiting for another team member to approve.</p>
+              )}
+              {refund.status === "processed" && registrationNumber && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => window.open(`/api/receipt/${encodeURIComponent(registrationNumber)}/credit-note?refund_id=${refund.id}`, "_blank")}
+                >
+                  <Download className="w-3 h-3 mr-1" />
+                  Credit Note {refund.credit_note_number}
+                </Button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </SlideOverSection>
+  )
+}
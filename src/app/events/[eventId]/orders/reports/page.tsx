@@ -93,6 +93,9 @@ export default function OrderReportsPage() {
           registration_numbers: paymentRegs.map((r: any) => r.registration_number || "").filter(Boolean).join(", "),
           addon_names: allAddons.map((a: any) => a.name).join(", "),
           addon_total: allAddons.reduce((sum: number, a: any) => sum + (a.price || 0), 0),
+          // Rules/codes that made up discount_amount (orders placed before
+          // discount rules only have the total)
+          discount_lines: Array.isArray(payment.metadata?.discount_breakdown) ? payment.metadata.discount_breakdown : [],
         }
       })
     },
@@ -120,6 +123,22 @@ export default function OrderReportsPage() {
       .filter((o: any) => o.status === "completed")
       .reduce((sum: number, o: any) => sum + (o.discount_amount || 0), 0)
 
+    // By discount rule/code
+    const byDiscount: Record<string, { count: number; amount: number }> = {}
+    orders.filter((o: any) => o.status === "completed").forEach((o: any) => {
+      if (o.discount_lines.length === 0 && o.discount_amount > 0) {
+        if (!byDiscount["Unitemised"]) byDiscount["Unitemised"] = { count: 0, amount: 0 }
+        byDiscount["Unitemised"].count++
+        byDiscount["Unitemised"].amount += o.discount_amount
+      }
+      o.discount_lines.forEach((line: any) => {
+        const name = line.type === "code" ? `Code ${line.name}` : line.name
+        if (!byDiscount[name]) byDiscount[name] = { count: 0, amount: 0 }
+        byDiscount[name].count++
+        byDiscount[name].amount += Number(line.amount) || 0
+      })
+    })
+
     // By payment method
     const byMethod: Record<string, { count: number; revenue: number }> = {}
     orders.filter((o: any) => o.status === "completed").forEach((o: any) => {
@@ -147,6 +166,7 @@ export default function OrderReportsPage() {
       totalRevenue,
       totalTax,
       totalDiscount,
+      byDiscount: Object.entries(byDiscount).sort(([, a], [, b]) => b.amount - a.amount),
       avgOrderValue: completed > 0 ? totalRevenue / completed : 0,
       byMethod,
       byDate: Object.entries(byDate).sort(([a], [b]) => b.localeCompare(a)).slice(0, 10),
@@ -172,6 +192,7 @@ export default function OrderReportsPage() {
       "Subtotal",
       "Tax",
       "Discount",
+      "Discount Breakdown",
       "Net Amount",
       "Status",
       "Payment Method",
@@ -196,6 +217,7 @@ export default function OrderReportsPage() {
       o.amount || 0,
       o.tax_amount || 0,
       o.discount_amount || 0,
+      `"${o.discount_lines.map((l: any) => `${l.type === "code" ? `Code ${l.name}` : l.name}: ${l.amount}`).join("; ").replace(/"/g, '""')}"`,
       o.net_amount || 0,
       o.status || "",
       o.payment_method || "",
@@ -311,6 +333,12 @@ export default function OrderReportsPage() {
               <span>Discounts Given</span>
               <span>-{(stats?.totalDiscount || 0).toLocaleString()}</span>
             </div>
+            {stats?.byDiscount.map(([name, data]) => (
+              <div key={name} className="flex items-center justify-between pl-4 text-sm text-muted-foreground">
+                <span>{name} <span className="text-xs">({data.count} orders)</span></span>
+                <span>-{Math.round(data.amount).toLocaleString()}</span>
+              </div>
+            ))}
             <div className="flex items-center justify-between text-muted-foreground">
               <span>Tax Collected</span>
               <span>{(stats?.totalTax || 0).toLocaleString()}</span>
@@ -364,7 +392,18 @@ export default function OrderReportsPage() {
                     <span className="text-muted-foreground">-</span>
                   )}
                 </TableCell>
-                <TableCell className="text-right font-medium">{(order.net_amount || 0).toLocaleString()}</TableCell>
+                <TableCell className="text-right">
+                  <p className="font-medium">{(order.net_amount || 0).toLocaleString()}</p>
+                  {order.discount_amount > 0 && (
+                    <p
+                      className="text-xs text-green-600"
+                      title={order.discount_lines.map((l: any) => `${l.name}: -${l.amount}`).join("\n") || undefined}
+                    >
+                      -{order.discount_amount.toLocaleString()}
+                      {order.discount_lines.length > 0 && ` (${order.discount_lines.map((l: any) => l.name).join(", ")})`}
+                    </p>
+                  )}
+                </TableCell>
                 <TableCell>
                   <span className={`px-2 py-1 rounded-full text-xs ${
                     order.status === "completed" ? "bg-green-100 text-green-800" :
@@ -22,7 +22,13 @@ import {
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { COMPANY_CONFIG } from "@/lib/config"
-import { DEFAULT_PAYMENT_METHODS_ENABLED, type PaymentMethodsEnabled } from "@/lib/types/payment-methods"
+import {
+  DEFAULT_PAYMENT_GATEWAY,
+  DEFAULT_PAYMENT_METHODS_ENABLED,
+  PAYMENT_GATEWAY_OPTIONS,
+  type PaymentGatewayName,
+  type PaymentMethodsEnabled,
+} from "@/lib/types/payment-methods"
 
 export default function PaymentSettingsPage() {
   const params = useParams()
@@ -36,6 +42,8 @@ export default function PaymentSettingsPage() {
   const [showWebhookSecret, setShowWebhookSecret] = useState(false)
   const [showBankDetails, setShowBankDetails] = useState(false)
   const [paymentSettings, setPaymentSettings] = useState({
+    // Gateway that takes online payments
+    payment_gateway: DEFAULT_PAYMENT_GATEWAY as PaymentGatewayName,
     // Razorpay credentials
     razorpay_key_id: "",
     razorpay_key_secret: "",
@@ -61,6 +69,7 @@ export default function PaymentSettingsPage() {
     id: string
     name: string
     short_name: string | null
+    payment_gateway: PaymentGatewayName | null
     razorpay_key_id: string | null
     razorpay_key_secret: string | null
     razorpay_webhook_secret: string | null
@@ -77,9 +86,10 @@ export default function PaymentSettingsPage() {
   const { data: event, isLoading } = useQuery({
     queryKey: ["event-payment-settings", eventId],
     queryFn: async () => {
-      const { data, error } = await supabase
+      // payment_gateway isn't in the generated types yet
+      const { data, error } = await (supabase as any)
         .from("events")
-        .select("id, name, short_name, razorpay_key_id, razorpay_key_secret, razorpay_webhook_secret, payment_methods_enabled, bank_account_name, bank_account_number, bank_ifsc_code, bank_name, bank_branch, bank_upi_id")
+        .select("id, name, short_name, payment_gateway, razorpay_key_id, razorpay_key_secret, razorpay_webhook_secret, payment_methods_enabled, bank_account_name, bank_account_number, bank_ifsc_code, bank_name, bank_branch, bank_upi_id")
         .eq("id", eventId)
         .maybeSingle()
 
@@ -90,6 +100,7 @@ export default function PaymentSettingsPage() {
         const eventData = data as EventData
         const defaultMethods = DEFAULT_PAYMENT_METHODS_ENABLED
         setPaymentSettings({
+          payment_gateway: eventData.payment_gateway || DEFAULT_PAYMENT_GATEWAY,
           razorpay_key_id: eventData.razorpay_key_id || "",
           razorpay_key_secret: eventData.razorpay_key_secret || "",
           razorpay_webhook_secret: eventData.razorpay_webhook_secret || "",
@@ -382,8 +393,50 @@ export default function PaymentSettingsPage() {
             </div>
           )}
 
-          {/* Razorpay Credentials (shown when Razorpay enabled) */}
+          {/* Gateway choice (shown when online payments are enabled) */}
           {paymentSettings.payment_methods_enabled.razorpay && (
+            <div className="space-y-3">
+              <label className="text-sm font-medium text-foreground">
+                Online Payment Gateway
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {(Object.keys(PAYMENT_GATEWAY_OPTIONS) as PaymentGatewayName[]).map((name) => {
+                  const option = PAYMENT_GATEWAY_OPTIONS[name]
+                  const selected = paymentSettings.payment_gateway === name
+                  return (
+                    <button
+                      key={name}
+                      type="button"
+                      disabled={!option.available}
+                      title={option.available ? undefined : `${option.label} integration is not yet available`}
+                      onClick={() => setPaymentSettings({ ...paymentSettings, payment_gateway: name })}
+                      className={cn(
+                        "flex items-center justify-between gap-2 p-4 rounded-xl border-2 text-left transition-all",
+                        selected
+                          ? "border-primary bg-primary/10"
+                          : "border-border hover:border-muted-foreground/50",
+                        !option.available && "border-dashed opacity-60 cursor-not-allowed hover:border-border"
+                      )}
+                    >
+                      <span className={cn("text-sm font-medium", selected ? "text-primary" : "text-foreground")}>
+                        {option.label}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {option.available ? (selected ? "Selected" : "") : "Coming soon"}
+                      </span>
+                    </button>
+                  )
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                New orders for this event go through the selected gateway. Refunds always go back
+                through the gateway that took the original payment.
+              </p>
+            </div>
+          )}
+
+          {/* Razorpay Credentials (shown when Razorpay is the selected gateway) */}
+          {paymentSettings.payment_methods_enabled.razorpay && paymentSettings.payment_gateway === "razorpay" && (
             <div className="space-y-4 p-4 rounded-xl bg-secondary/30 border border-border">
               <div className="flex items-center gap-2">
                 <Wallet className="h-5 w-5 text-primary" />
@@ -31,11 +31,13 @@ import {
   Monitor,
   Download
 } from "lucide-react"
+import { PrinterHealthPanel } from "./printer-health-panel"
 
 interface PrintStation {
   id: string
   name: string
   description: string | null
+  zone: string | null
   print_mode: "label" | "overlay" | "full_badge"
   badge_template_id: string | null
   print_settings: {
@@ -111,6 +113,7 @@ export default function PrintStationHubPage() {
   // Form state
   const [formName, setFormName] = useState("")
   const [formDescription, setFormDescription] = useState("")
+  const [formZone, setFormZone] = useState("")
   const [formPrintMode, setFormPrintMode] = useState<string>("full_badge")
   const [formTemplateId, setFormTemplateId] = useState<string>("")
   const [formPaperSize, setFormPaperSize] = useState("4x6")
@@ -300,6 +303,7 @@ export default function PrintStationHubPage() {
   const resetForm = () => {
     setFormName("")
     setFormDescription("")
+    setFormZone("")
     setFormPrintMode("full_badge")
     setFormTemplateId("")
     setFormPaperSize("4x6")
@@ -320,6 +324,7 @@ export default function PrintStationHubPage() {
     setEditingStation(station)
     setFormName(station.name)
     setFormDescription(station.description || "")
+    setFormZone(station.zone || "")
     setFormPrintMode(station.print_mode)
     setFormTemplateId(station.badge_template_id || "")
     setFormPaperSize(station.print_settings?.paper_size || "4x6")
@@ -343,6 +348,7 @@ export default function PrintStationHubPage() {
       event_id: eventId,
       name: formName,
       description: formDescription || null,
+      zone: formZone.trim() || null,
       print_mode: formPrintMode,
       badge_template_id: formTemplateId || null,
       print_settings: {
@@ -560,6 +566,8 @@ export default function PrintStationHubPage() {
             </div>
           </div>
 
+          <PrinterHealthPanel eventId={eventId} />
+
           {/* Stations Grid */}
           <div className="grid md:grid-cols-2 gap-6">
             {stationsList.map((station) => (
@@ -599,6 +607,12 @@ export default function PrintStationHubPage() {
                               <span className="text-sm text-muted-foreground">{station.badge_templates.name}</span>
                             </>
                           )}
+                          {station.zone && (
+                            <>
+                              <span className="text-muted-foreground">•</span>
+                              <span className="text-sm text-muted-foreground">Zone {station.zone}</span>
+                            </>
+                          )}
                           {station.print_settings?.printer_ip && (
                             <>
                               <span className="text-muted-foreground">•</span>
@@ -770,6 +784,20 @@ export default function PrintStationHubPage() {
                 />
               </div>
 
+              <div>
+                <label className="block text-sm font-semibold mb-2">Zone</label>
+                <input
+                  type="text"
+                  value={formZone}
+                  onChange={(e) => setFormZone(e.target.value)}
+                  placeholder="e.g., Hall A desk"
+                  className="w-full px-4 py-3 bg-muted border border-border rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all placeholder-muted-foreground"
+                />
+                <p className="text-xs text-muted-foreground mt-1">
+                  Stations in the same zone share their print queue — whichever printer is free takes the next badge.
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-semibold mb-2">Print Mode *</label>
                 <select
@@ -0,0 +1,172 @@
+"use client"
+
+import { useQuery } from "@tanstack/react-query"
+import { AlertTriangle, CheckCircle, Clock, HeartPulse, Printer, WifiOff, XCircle } from "lucide-react"
+import {
+  PRINTER_STATE_LABELS,
+  computeAgentStatus,
+  isPrinterState,
+  type AgentStatus,
+  type ZoneQueueStats,
+} from "@/lib/print-queue"
+
+interface StationHealth {
+  id: string
+  name: string
+  zone: string | null
+  is_active: boolean
+  agent_id: string | null
+  agent_last_seen_at: string | null
+  printer_state: string | null
+  printer_message: string | null
+  printer_state_at: string | null
+  queue: ZoneQueueStats
+}
+
+interface FailedJob {
+  id: string
+  station_id: string
+  attempts: number
+  error_message: string | null
+  created_at: string
+  attendee_name: string | null
+  registration_number: string | null
+}
+
+const AGENT_STATUS_LABELS: Record<AgentStatus, string> = {
+  online: "Agent online",
+  stale: "Agent not responding",
+  offline: "Agent offline",
+  never: "No agent yet",
+}
+
+function timeAgo(iso: string | null): string {
+  if (!iso) return "never"
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000))
+  if (seconds < 60) return `${seconds}s ago`
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`
+  return new Date(iso).toLocaleTimeString()
+}
+
+export function PrinterHealthPanel({ eventId }: { eventId: string }) {
+  const { data } = useQuery({
+    queryKey: ["print-station-health", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/print-stations/health?event_id=${eventId}`)
+      if (!res.ok) return { stations: [] as StationHealth[], failed_jobs: [] as FailedJob[] }
+      return res.json() as Promise<{ stations: StationHealth[]; failed_jobs: FailedJob[] }>
+    },
+    refetchInterval: 5000,
+  })
+
+  const stations = (data?.stations || []).filter((s) => s.is_active)
+  const failedJobs = data?.failed_jobs || []
+  if (stations.length === 0) return null
+
+  // Group by zone; stations without one stand alone under "No zone"
+  const zones = new Map<string, StationHealth[]>()
+  for (const station of stations) {
+    const key = station.zone || ""
+    zones.set(key, [...(zones.get(key) || []), station])
+  }
+  const stationName = (id: string) => stations.find((s) => s.id === id)?.name || "Unknown station"
+
+  return (
+    <div className="bg-card rounded-2xl border-2 border-border shadow-sm mb-8 overflow-hidden">
+      <div className="px-5 py-4 border-b border-border flex items-center gap-3">
+        <HeartPulse className="w-5 h-5 text-rose-500" />
+        <h2 className="font-bold">Printer Health</h2>
+        <span className="text-xs text-muted-foreground ml-auto">Reported by print agents · refreshes every 5s</span>
+      </div>
+
+      <div className="divide-y divide-border">
+        {[...zones.entries()].map(([zone, zoneStations]) => (
+          <div key={zone || "none"} className="p-5">
+            <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-3">
+              {zone ? `Zone ${zone}` : "No zone"}
+            </div>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {zoneStations.map((station) => (
+                <StationHealthCard key={station.id} station={station} />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {failedJobs.length > 0 && (
+        <div className="border-t border-border p-5">
+          <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-3">
+            Failed jobs
+          </div>
+          <div className="space-y-2">
+            {failedJobs.slice(0, 8).map((job) => (
+              <div key={job.id} className="flex items-center gap-3 text-sm">
+                <XCircle className="w-4 h-4 text-destructive flex-shrink-0" />
+                <span className="font-medium truncate">{job.attendee_name || "Unknown"}</span>
+                <span className="text-muted-foreground font-mono text-xs">{job.registration_number}</span>
+                <span className="text-muted-foreground truncate flex-1">
+                  {stationName(job.station_id)} · {job.attempts} attempt{job.attempts === 1 ? "" : "s"}
+                  {job.error_message && ` · ${job.error_message}`}
+                </span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">{timeAgo(job.created_at)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StationHealthCard({ station }: { station: StationHealth }) {
+  const agent = computeAgentStatus(station)
+  const state = isPrinterState(station.printer_state) ? station.printer_state : null
+  const healthy = agent === "online" && (state === null || state === "ready")
+  const warning = agent === "online" && !healthy
+
+  return (
+    <div
+      className={`rounded-xl border p-4 ${
+        healthy
+          ? "border-emerald-500/30 bg-emerald-500/5"
+          : warning
+            ? "border-amber-500/40 bg-amber-500/5"
+            : "border-border bg-muted/30"
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <Printer className="w-4 h-4 text-muted-foreground" />
+        <span className="font-semibold truncate">{station.name}</span>
+        <span className="ml-auto">
+          {healthy ? (
+            <CheckCircle className="w-4 h-4 text-emerald-600" />
+          ) : warning ? (
+            <AlertTriangle className="w-4 h-4 text-amber-600" />
+          ) : (
+            <WifiOff className="w-4 h-4 text-muted-foreground" />
+          )}
+        </span>
+      </div>
+
+      <div className={`mt-2 text-sm font-medium ${warning ? "text-amber-600" : healthy ? "text-emerald-600" : "text-muted-foreground"}`}>
+        {agent === "online" ? (state ? PRINTER_STATE_LABELS[state] : "Ready") : AGENT_STATUS_LABELS[agent]}
+      </div>
+      {warning && station.printer_message && (
+        <p className="text-xs text-muted-foreground mt-0.5 truncate" title={station.printer_message}>
+          {station.printer_message}
+        </p>
+      )}
+
+      <div className="mt-3 flex items-center gap-3 text-xs text-muted-foreground">
+        <span>{station.queue.queued} queued</span>
+        <span>{station.queue.inFlight} printing</span>
+        {station.queue.failed > 0 && <span className="text-destructive">{station.queue.failed} failed</span>}
+        <span className="ml-auto inline-flex items-center gap-1">
+          <Clock className="w-3 h-3" />
+          {timeAgo(station.agent_last_seen_at)}
+        </span>
+      </div>
+    </div>
+  )
+}
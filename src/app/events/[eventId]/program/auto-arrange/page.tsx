@@ -0,0 +1,215 @@
+"use client"
+
+import { useState } from "react"
+import { useParams } from "next/navigation"
+import { useMutation } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Check, Loader2, Wand2, AlertCircle } from "lucide-react"
+import { toast } from "sonner"
+import type { ArrangeProposal, ProposedPlacement } from "@/lib/agenda-auto-arrange"
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" })
+
+export default function AutoArrangePage() {
+  const params = useParams()
+  const eventId = params.eventId as string
+
+  const [options, setOptions] = useState({
+    dayStart: "09:00",
+    dayEnd: "18:00",
+    changeoverMinutes: "0",
+    maxContinuousMinutes: "",
+  })
+  const [proposal, setProposal] = useState<ArrangeProposal | null>(null)
+  const [accepted, setAccepted] = useState<Set<string>>(new Set())
+
+  // Nothing is saved by proposing -- the coordinator accepts one row at a time.
+  const proposeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/program/auto-arrange`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dayStart: options.dayStart,
+          dayEnd: options.dayEnd,
+          changeoverMinutes: Number(options.changeoverMinutes) || 0,
+          maxContinuousMinutes: options.maxContinuousMinutes ? Number(options.maxContinuousMinutes) : null,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to arrange sessions")
+      return json.data as ArrangeProposal
+    },
+    onSuccess: (data) => {
+      setProposal(data)
+      setAccepted(new Set())
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const acceptMutation = useMutation({
+    mutationFn: async (placement: ProposedPlacement) => {
+      const res = await fetch(`/api/events/${eventId}/program/auto-arrange/accept`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ session_id: placement.session_id, from: placement.from, to: placement.to }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        throw new Error([json.error, ...(json.violations ?? [])].filter(Boolean).join(" "))
+      }
+      return placement
+    },
+    onSuccess: (placement) => {
+      setAccepted((prev) => new Set(prev).add(placement.session_id))
+      toast.success(`"${placement.session_name}" scheduled`)
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const pending = proposal?.placements.filter((p) => !accepted.has(p.session_id)) ?? []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Auto-arrange</h1>
+          <p className="text-muted-foreground">
+            Suggests a hall and time for every unscheduled session. Scheduled sessions are never moved.
+          </p>
+        </div>
+        <Button onClick={() => proposeMutation.mutate()} disabled={proposeMutation.isPending}>
+          {proposeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Wand2 className="h-4 w-4 mr-2" />
+          )}
+          {proposal ? "Re-run" : "Propose arrangement"}
+        </Button>
+      </div>
+
+      {/* Options */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 bg-card rounded-lg border p-4">
+        <div>
+          <Label>Day starts</Label>
+          <Input type="time" value={options.dayStart} onChange={(e) => setOptions({ ...options, dayStart: e.target.value })} />
+        </div>
+        <div>
+          <Label>Day ends</Label>
+          <Input type="time" value={options.dayEnd} onChange={(e) => setOptions({ ...options, dayEnd: e.target.value })} />
+        </div>
+        <div>
+          <Label>Changeover (min)</Label>
+          <Input
+            type="number"
+            min={0}
+            value={options.changeoverMinutes}
+            onChange={(e) => setOptions({ ...options, changeoverMinutes: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label>Break after (min)</Label>
+          <Input
+            type="number"
+            min={30}
+            placeholder="No limit"
+            value={options.maxContinuousMinutes}
+            onChange={(e) => setOptions({ ...options, maxContinuousMinutes: e.target.value })}
+          />
+        </div>
+      </div>
+
+      {proposal && (
+        <>
+          {/* Proposed placements */}
+          {proposal.placements.length === 0 ? (
+            <div className="text-center py-12 bg-card rounded-lg border border-dashed">
+              <Wand2 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium mb-2">Nothing to place</h3>
+              <p className="text-muted-foreground">Every session that can be scheduled already is.</p>
+            </div>
+          ) : (
+            <div className="bg-card rounded-lg border overflow-x-auto">
+              <div className="px-4 py-3 border-b text-sm text-muted-foreground">
+                {pending.length} of {proposal.placements.length} proposals waiting
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50">
+                    <TableHead>Session</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>Where</TableHead>
+                    <TableHead>Why here</TableHead>
+                    <TableHead className="w-[120px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {proposal.placements.map((placement) => {
+                    const done = accepted.has(placement.session_id)
+                    const busy = acceptMutation.isPending && acceptMutation.variables?.session_id === placement.session_id
+                    return (
+                      <TableRow key={placement.session_id} className={done ? "opacity-60" : undefined}>
+                        <TableCell className="font-medium">{placement.session_name}</TableCell>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(placement.to.session_date)}, {placement.to.start_time}–{placement.to.end_time}
+                        </TableCell>
+                        <TableCell>{placement.hall_label}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {placement.notes.length ? placement.notes.join(". ") : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {done ? (
+                            <Badge variant="secondary">
+                              <Check className="h-3 w-3 mr-1" />
+                              Accepted
+                            </Badge>
+                          ) : (
+                            <Button size="sm" onClick={() => acceptMutation.mutate(placement)} disabled={acceptMutation.isPending}>
+                              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                              Accept
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {/* Sessions it could not place */}
+          {proposal.unplaced.length > 0 && (
+            <div className="bg-card rounded-lg border">
+              <div className="px-4 py-3 border-b font-medium flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 text-amber-500" />
+                Needs a coordinator ({proposal.unplaced.length})
+              </div>
+              <ul className="divide-y">
+                {proposal.unplaced.map((item) => (
+                  <li key={item.session_id} className="px-4 py-3 text-sm">
+                    <span className="font-medium">{item.session_name}</span>
+                    <span className="text-muted-foreground"> — {item.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
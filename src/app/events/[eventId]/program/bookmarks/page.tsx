@@ -0,0 +1,140 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useParams } from "next/navigation"
+import { useQuery } from "@tanstack/react-query"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Bookmark, Loader2 } from "lucide-react"
+import type { DemandFit, SessionDemand } from "@/lib/personal-agenda"
+import { cn } from "@/lib/utils"
+
+const FIT_LABELS: Record<DemandFit, { label: string; className: string }> = {
+  over: { label: "Over capacity", className: "bg-red-100 text-red-800" },
+  tight: { label: "Nearly full", className: "bg-amber-100 text-amber-800" },
+  ok: { label: "Fits", className: "bg-green-100 text-green-800" },
+  unknown: { label: "No capacity", className: "bg-muted text-muted-foreground" },
+}
+
+const formatTime = (time: string | null) => {
+  if (!time) return "--"
+  const [hours, minutes] = time.split(":")
+  const h = parseInt(hours)
+  return `${h % 12 || 12}:${minutes} ${h >= 12 ? "PM" : "AM"}`
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" }) : "Unscheduled"
+
+export default function BookmarksPage() {
+  const params = useParams()
+  const eventId = params.eventId as string
+  const [onlyAtRisk, setOnlyAtRisk] = useState(false)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["program-bookmarks", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/program/bookmarks`)
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to load bookmarks")
+      return json as { delegates: number; sessions: SessionDemand[] }
+    },
+  })
+
+  const sessions = useMemo(() => {
+    const all = (data?.sessions ?? []).filter((s) => s.bookmarks > 0)
+    return onlyAtRisk ? all.filter((s) => s.fit === "over" || s.fit === "tight") : all
+  }, [data, onlyAtRisk])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const atRisk = (data?.sessions ?? []).filter((s) => s.fit === "over" || s.fit === "tight").length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h1 className="text-xl sm:text-2xl font-bold">Bookmarks</h1>
+          <p className="text-muted-foreground">
+            Sessions delegates have added to their agenda, against the seats in each hall.
+            {data && data.delegates > 0 && ` ${data.delegates} delegate${data.delegates !== 1 ? "s" : ""} have bookmarked so far.`}
+          </p>
+        </div>
+        {atRisk > 0 && (
+          <Button variant={onlyAtRisk ? "default" : "outline"} size="sm" onClick={() => setOnlyAtRisk((v) => !v)}>
+            {onlyAtRisk ? "Show all" : `Show ${atRisk} nearly full or over`}
+          </Button>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-dashed">
+          <Bookmark className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">No bookmarks yet</h3>
+          <p className="text-muted-foreground">Delegates bookmark sessions from the public programme and their delegate portal.</p>
+        </div>
+      ) : (
+        <div className="bg-card rounded-lg border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Session</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-right">Bookmarks</TableHead>
+                <TableHead className="text-right">Seats</TableHead>
+                <TableHead>Fit</TableHead>
+                <TableHead>Suggested hall</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell>
+                    <div className="font-medium">{session.session_name}</div>
+                    <div className="text-xs text-muted-foreground">{session.hall || "No hall"}</div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    <div>{formatDate(session.session_date)}</div>
+                    <div className="text-muted-foreground">{formatTime(session.start_time)}</div>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{session.bookmarks}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">{session.capacity ?? "--"}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={cn("font-normal", FIT_LABELS[session.fit].className)}>
+                      {FIT_LABELS[session.fit].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {session.suggested_hall ? (
+                      <span>
+                        {session.suggested_hall.name}
+                        <span className="text-muted-foreground"> · {session.suggested_hall.capacity} seats</span>
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">--</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -29,6 +29,7 @@ import {
   AlertTriangle,
   X,
   User,
+  Megaphone,
 } from "lucide-react"
 import { toast } from "sonner"
 
@@ -75,6 +76,19 @@ type ChangeLogEntry = {
   created_at: string
 }
 
+type PublishedChange = {
+  session_id: string
+  session_name: string
+  kinds: string[]
+  lines: string[]
+}
+
+type Publication = {
+  sequence: number
+  published_at: string
+  changes: PublishedChange[]
+}
+
 const STATUS_CONFIG: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline"; icon: any }> = {
   pending: { label: "Pending", variant: "secondary", icon: Clock3 },
   invited: { label: "Invited", variant: "default", icon: Mail },
@@ -145,6 +159,16 @@ export default function ProgramChangesPage() {
     },
   })
 
+  // Fetch the public changelog -- what changed at each re-publish
+  const { data: changelog, isLoading: changelogLoading } = useQuery({
+    queryKey: ["program-public-changelog", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/program/${eventId}/changes`)
+      if (!res.ok) return { last_published_at: null, publications: [] }
+      return (await res.json()) as { last_published_at: string | null; publications: Publication[] }
+    },
+  })
+
   // Swap mutation
   const swapMutation = useMutation({
     mutationFn: async (data: {
@@ -575,6 +599,65 @@ export default function ProgramChangesPage() {
         )}
       </div>
 
+      {/* Public Changelog Section */}
+      <div className="border rounded-lg p-5 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Megaphone className="h-5 w-5" />
+            Published Changelog
+          </h2>
+          <p className="text-muted-foreground text-sm mt-1">
+            What changed each time the agenda was re-published, as attendees see it. Affected faculty and delegates who
+            bookmarked these sessions are notified automatically.
+          </p>
+        </div>
+
+        {changelogLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !changelog?.last_published_at ? (
+          <p className="text-sm text-muted-foreground py-4">The agenda hasn&apos;t been published yet.</p>
+        ) : changelog.publications.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Nothing has changed since the agenda was first published ({formatRelativeTime(changelog.last_published_at)}).
+          </p>
+        ) : (
+          <div className="space-y-5">
+            {changelog.publications.map((publication) => (
+              <div key={publication.sequence} className="space-y-2">
+                <div className="text-sm font-medium">
+                  Update {publication.sequence - 1}
+                  <span className="text-muted-foreground font-normal">
+                    {" "}· {new Date(publication.published_at).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "numeric", minute: "2-digit" })}
+                  </span>
+                </div>
+                <ul className="divide-y border rounded-md">
+                  {publication.changes.map((change) => (
+                    <li key={change.session_id} className="px-3 py-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className={`text-sm font-medium ${change.kinds.includes("cancelled") ? "line-through text-muted-foreground" : ""}`}>
+                          {change.session_name}
+                        </span>
+                        {change.kinds.includes("cancelled") && (
+                          <Badge variant="destructive" className="text-xs">Cancelled</Badge>
+                        )}
+                        {change.kinds.includes("added") && (
+                          <Badge variant="secondary" className="text-xs">New</Badge>
+                        )}
+                      </div>
+                      {change.lines.filter((line) => line !== "Cancelled").map((line) => (
+                        <p key={line} className="text-xs text-muted-foreground mt-0.5">{line}</p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Recent Changes Log Section */}
       <div className="border rounded-lg p-5 space-y-4">
         <h2 className="text-lg font-semibold">Recent Changes</h2>
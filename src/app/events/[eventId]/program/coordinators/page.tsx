@@ -51,6 +51,7 @@ import {
   Phone,
   Users,
   Trash2,
+  Monitor,
 } from "lucide-react"
 import { toast } from "sonner"
 
@@ -369,6 +370,20 @@ export default function CoordinatorsPage() {
                           <ExternalLink className="h-4 w-4" />
                         </a>
                       </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        asChild
+                        title="Now / next screen for this hall"
+                      >
+                        <a
+                          href={`/p/${eventId}/now-next?hall=${encodeURIComponent(coordinator.hall_name)}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          <Monitor className="h-4 w-4" />
+                        </a>
+                      </Button>
                     </div>
                   </TableCell>
                   <TableCell>
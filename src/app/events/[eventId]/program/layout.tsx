@@ -28,6 +28,10 @@ import {
   CalendarDays,
   BookOpen,
   RefreshCw,
+  Wand2,
+  UserSearch,
+  Timer,
+  Bookmark,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { useRouter } from "next/navigation"
@@ -61,10 +65,12 @@ const sidebarSections: SidebarSection[] = [
     title: "Content",
     items: [
       { title: "Venue Overview", href: "/halls", icon: Building2 },
+      { title: "Bookmarks", href: "/bookmarks", icon: Bookmark },
       { title: "Schedule", href: "/schedule", icon: Calendar },
       // The two-level agenda (blocks and talks). Sits alongside Schedule rather
       // than replacing it: Schedule is in live use for AMASICON 2026.
       { title: "Session Builder", href: "/builder", icon: CalendarDays },
+      { title: "Auto-arrange", href: "/auto-arrange", icon: Wand2 },
       { title: "Sessions", href: "/sessions", icon: Presentation },
       { title: "Tracks", href: "/tracks", icon: Layers },
     ],
@@ -92,7 +98,9 @@ const sidebarSections: SidebarSection[] = [
       // modelled as screens under their hall, which is what halls.parent_id
       // exists for.
       { title: "Conflicts", href: "/conflicts", icon: AlertTriangle },
+      { title: "Resolve Names", href: "/resolve-names", icon: UserSearch },
       { title: "Changes", href: "/changes", icon: RefreshCw },
+      { title: "Overruns", href: "/overruns", icon: Timer },
     ],
   },
   {
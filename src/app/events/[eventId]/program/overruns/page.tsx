@@ -0,0 +1,150 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import { useQuery } from "@tanstack/react-query"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Loader2, Timer } from "lucide-react"
+import type { HallOverrun, SessionOverrun } from "@/lib/agenda-running-order"
+import { cn } from "@/lib/utils"
+
+const formatTime = (time: string | null) => {
+  if (!time) return "--"
+  const [hours, minutes] = time.split(":")
+  const h = parseInt(hours)
+  return `${h % 12 || 12}:${minutes} ${h >= 12 ? "PM" : "AM"}`
+}
+
+const formatDate = (date: string | null) =>
+  date ? new Date(date).toLocaleDateString("en-IN", { weekday: "short", day: "numeric", month: "short" }) : ""
+
+function Lateness({ minutes }: { minutes: number | null }) {
+  if (minutes === null) return <span className="text-muted-foreground">not marked</span>
+  return (
+    <span className={cn("font-medium", minutes > 10 ? "text-red-600" : minutes > 0 ? "text-amber-600" : "text-green-700")}>
+      {minutes > 0 ? `+${minutes} min` : minutes < 0 ? `${minutes} min` : "on time"}
+    </span>
+  )
+}
+
+export default function OverrunsPage() {
+  const params = useParams()
+  const eventId = params.eventId as string
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["program-overruns", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/program/overruns`)
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to load overruns")
+      return json as { sessions: SessionOverrun[]; halls: HallOverrun[] }
+    },
+  })
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const sessions = data?.sessions ?? []
+  const halls = data?.halls ?? []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Overruns</h1>
+        <p className="text-muted-foreground">
+          What hall coordinators marked on the day: how late each session started and ended, and every delay they pushed.
+        </p>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-dashed">
+          <Timer className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Nothing logged yet</h3>
+          <p className="text-muted-foreground">Starts, ends and delays appear here once coordinators mark them from their hall portal.</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+            {halls.map((hall) => (
+              <div key={hall.hall} className="bg-card rounded-lg border p-4">
+                <div className="font-medium">{hall.hall}</div>
+                <div className="mt-1 text-2xl font-bold">{hall.overrun_minutes} min</div>
+                <div className="text-xs text-muted-foreground">
+                  over across {hall.sessions} session{hall.sessions !== 1 ? "s" : ""} · {hall.late_starts} late start{hall.late_starts !== 1 ? "s" : ""}
+                  {hall.worst_end_late > 0 && ` · worst +${hall.worst_end_late} min`}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="bg-card rounded-lg border overflow-x-auto">
+            <div className="px-4 py-3 border-b text-sm text-muted-foreground">
+              {sessions.length} session{sessions.length !== 1 ? "s" : ""} logged, latest finish first
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Session</TableHead>
+                  <TableHead>Planned</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Ended</TableHead>
+                  <TableHead>Delays pushed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="font-medium">{session.session_name}</div>
+                      <div className="text-xs text-muted-foreground">{session.hall}</div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm">
+                      <div>{formatDate(session.session_date)}</div>
+                      <div className="text-muted-foreground">
+                        {formatTime(session.start_time)} – {formatTime(session.end_time)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm"><Lateness minutes={session.start_late} /></TableCell>
+                    <TableCell className="text-sm"><Lateness minutes={session.end_late} /></TableCell>
+                    <TableCell>
+                      {session.delays.length === 0 ? (
+                        <span className="text-sm text-muted-foreground">none</span>
+                      ) : (
+                        <div className="space-y-1">
+                          {session.delays.map((delay, i) => (
+                            <div key={i} className="flex flex-wrap items-center gap-2 text-sm">
+                              <Badge variant="outline" className={delay.before_start ? "border-sky-200 text-sky-700" : "border-amber-200 text-amber-700"}>
+                                +{delay.minutes} min {delay.before_start ? "hold" : "overrun"}
+                              </Badge>
+                              <span>{delay.reason || <span className="text-muted-foreground">no reason given</span>}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {delay.logged_by} · {new Date(delay.created_at).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" })}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+"use client"
+
+import { useState } from "react"
+import { useParams } from "next/navigation"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Check, Loader2, UserSearch, X, AlertCircle } from "lucide-react"
+import { toast } from "sonner"
+import { ROLE_LABELS } from "@/lib/agenda-roles"
+import type { MatchEvidence, ResolverCandidate, ResolverProposal, ResolverQueue } from "@/lib/faculty-name-resolver"
+import { cn } from "@/lib/utils"
+
+const EVIDENCE_LABELS: Record<MatchEvidence, string> = {
+  email: "email",
+  phone: "phone",
+  exact_name: "same name",
+  reordered_name: "same name, reordered",
+  partial_name: "name contained",
+  initials: "initials",
+  text_match: "named in this role",
+}
+
+const proposalKey = (p: ResolverProposal) => `${p.session_id}::${p.role}::${p.text_name}`
+const candidateKey = (c: ResolverCandidate) => `${c.faculty_id ?? ""}::${c.registration_id ?? ""}`
+
+function confidenceClass(confidence: number) {
+  if (confidence >= 85) return "bg-green-100 text-green-800"
+  if (confidence >= 65) return "bg-amber-100 text-amber-800"
+  return "bg-red-100 text-red-800"
+}
+
+export default function ResolveNamesPage() {
+  const params = useParams()
+  const eventId = params.eventId as string
+  const queryClient = useQueryClient()
+
+  // The reviewer's pick per proposal, when it isn't the top candidate.
+  const [picked, setPicked] = useState<Record<string, string>>({})
+
+  const { data: queue, isLoading } = useQuery({
+    queryKey: ["faculty-resolver", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/program/faculty-resolver`)
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to load the review queue")
+      return json.data as ResolverQueue
+    },
+  })
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ decision, proposal, candidate }: { decision: "accept" | "reject"; proposal: ResolverProposal; candidate: ResolverCandidate }) => {
+      const res = await fetch(`/api/events/${eventId}/program/faculty-resolver`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision,
+          session_id: proposal.session_id,
+          role: proposal.role,
+          text_name: proposal.text_name,
+          faculty_id: candidate.faculty_id,
+          registration_id: candidate.registration_id,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to save")
+      return { decision, proposal, candidate }
+    },
+    onSuccess: ({ decision, proposal, candidate }) => {
+      queryClient.invalidateQueries({ queryKey: ["faculty-resolver", eventId] })
+      toast.success(
+        decision === "accept"
+          ? `"${proposal.text_name}" assigned to ${candidate.name}`
+          : `${candidate.name} won't be suggested for "${proposal.text_name}" again`
+      )
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const chosen = (proposal: ResolverProposal) =>
+    proposal.candidates.find((c) => candidateKey(c) === picked[proposalKey(proposal)]) ?? proposal.candidates[0]
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const proposals = queue?.proposals ?? []
+  const unmatched = queue?.unmatched ?? []
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-xl sm:text-2xl font-bold">Resolve Names</h1>
+        <p className="text-muted-foreground">
+          Faculty named only in a session&apos;s text, matched to people we know. Nothing is assigned until you accept it.
+        </p>
+      </div>
+
+      {proposals.length === 0 ? (
+        <div className="text-center py-12 bg-card rounded-lg border border-dashed">
+          <UserSearch className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium mb-2">Nothing to review</h3>
+          <p className="text-muted-foreground">Every name with a likely match has been accepted or rejected.</p>
+        </div>
+      ) : (
+        <div className="bg-card rounded-lg border overflow-x-auto">
+          <div className="px-4 py-3 border-b text-sm text-muted-foreground">
+            {proposals.length} names to review, surest first
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead>Session</TableHead>
+                <TableHead>In the text</TableHead>
+                <TableHead>Match</TableHead>
+                <TableHead>Confidence</TableHead>
+                <TableHead className="w-[180px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proposals.map((proposal) => {
+                const candidate = chosen(proposal)
+                const key = proposalKey(proposal)
+                const busy = decideMutation.isPending && decideMutation.variables && proposalKey(decideMutation.variables.proposal) === key
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <div className="font-medium">{proposal.session_name}</div>
+                      <div className="text-xs text-muted-foreground">{ROLE_LABELS[proposal.role].one}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{proposal.text_name}</div>
+                      {(proposal.text_email || proposal.text_phone) && (
+                        <div className="text-xs text-muted-foreground">
+                          {[proposal.text_email, proposal.text_phone].filter(Boolean).join(" · ")}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="min-w-[220px]">
+                      {proposal.candidates.length > 1 ? (
+                        <Select
+                          value={candidateKey(candidate)}
+                          onValueChange={(value) => setPicked((prev) => ({ ...prev, [key]: value }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {proposal.candidates.map((c) => (
+                              <SelectItem key={candidateKey(c)} value={candidateKey(c)}>
+                                {c.name} ({c.confidence}%)
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <div>{candidate.name}</div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {[candidate.email, candidate.institution, candidate.faculty_id ? null : "registrant only"]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge className={cn("border-0", confidenceClass(candidate.confidence))}>{candidate.confidence}%</Badge>
+                      {proposal.ambiguous && <Badge variant="outline" className="ml-1">ambiguous</Badge>}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {candidate.evidence.map((e) => EVIDENCE_LABELS[e]).join(", ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          disabled={decideMutation.isPending}
+                          onClick={() => decideMutation.mutate({ decision: "accept", proposal, candidate })}
+                        >
+                          {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={decideMutation.isPending}
+                          onClick={() => decideMutation.mutate({ decision: "reject", proposal, candidate })}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Names with no likely match */}
+      {unmatched.length > 0 && (
+        <div className="bg-card rounded-lg border">
+          <div className="px-4 py-3 border-b font-medium flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 text-amber-500" />
+            No likely match ({unmatched.length})
+          </div>
+          <p className="px-4 pt-3 text-sm text-muted-foreground">
+            Add these people to the faculty directory, or assign them from the session.
+          </p>
+          <ul className="divide-y">
+            {unmatched.map((entry) => (
+              <li key={`${entry.session_id}::${entry.role}::${entry.name}`} className="px-4 py-3 text-sm">
+                <span className="font-medium">{entry.name}</span>
+                <span className="text-muted-foreground"> — {ROLE_LABELS[entry.role].one}, {entry.session_name}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,13 +1,59 @@
 "use client"
 
-import { useState, useEffect, useMemo, useCallback } from "react"
+import { useMemo, useState } from "react"
 import { useParams } from "next/navigation"
-import { CSVImportDynamic, type PreviewExtra } from "@/components/ui/csv-import-dynamic"
 import Link from "next/link"
-import { ArrowLeft, Settings2, Trash2, AlertTriangle, X } from "lucide-react"
+import Papa from "papaparse"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  RefreshCw,
+  Undo2,
+  Upload,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { StepIndicator } from "@/components/ui/step-wizard"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { format } from "date-fns"
 import { toast } from "sonner"
-import { COMPANY_CONFIG } from "@/lib/config"
+import { cn } from "@/lib/utils"
+import {
+  IMPORT_FIELDS,
+  IMPORT_TICKET_MODES,
+  guessImportMapping,
+  type ImportMapping,
+  type ImportPlan,
+  type ImportTarget,
+  type ImportTicketMode,
+  type PlannedRow,
+} from "@/lib/registration-import"
+import type { ImportBatch } from "@/lib/services/registration-import"
+import type { WelcomeChannel } from "@/lib/services/welcome-messages"
 
 interface TicketType {
   id: string
@@ -15,370 +61,705 @@ interface TicketType {
   price: number
 }
 
+interface CommitResponse {
+  batch: ImportBatch
+  summary: { total: number; created: number; skipped: number; failed: number; notifications_queued: number }
+  errors: string[]
+}
+
+const STEPS = [
+  { id: "upload", title: "Upload" },
+  { id: "map", title: "Map columns" },
+  { id: "tickets", title: "Tickets" },
+  { id: "review", title: "Review" },
+  { id: "done", title: "Done" },
+]
+
+type RowFilter = "all" | "create" | "duplicate" | "error"
+
+const WELCOME_LABELS: Record<WelcomeChannel, string> = {
+  email: "Welcome email (registration confirmation)",
+  whatsapp: "Welcome WhatsApp (delegate portal link)",
+}
+
+/** Spreadsheet cells to rows keyed by the header row (1-based `headerRow`). */
+function toRecords(cells: unknown[][], headerRow: number): { headers: string[]; rows: Record<string, string>[] } {
+  const header = (cells[headerRow - 1] || []).map((h, i) => String(h ?? "").trim() || `Column ${i + 1}`)
+  const rows = cells
+    .slice(headerRow)
+    .filter((line) => line.some((cell) => String(cell ?? "").trim()))
+    .map((line) => Object.fromEntries(header.map((h, i) => [h, String(line[i] ?? "").trim()])))
+  return { headers: header, rows }
+}
+
 export default function ImportRegistrationsPage() {
   const params = useParams()
   const eventId = params.eventId as string
-  const [registrationPrefix, setRegistrationPrefix] = useState("")
-  const [_eventShortName, setEventShortName] = useState("")
-  const [fixedAmount, setFixedAmount] = useState("")
-  const [showSettings, setShowSettings] = useState(true)
-  const [ticketTypes, setTicketTypes] = useState<TicketType[]>([])
-  const [selectedTicketId, setSelectedTicketId] = useState("")
-  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
-  const [isDeleting, setIsDeleting] = useState(false)
-  const [importedCount, setImportedCount] = useState(0)
-  // Per-row ticket overrides: rowIndex -> ticketId
-  const [rowTickets, setRowTickets] = useState<Record<number, string>>({})
-  // Selected rows for bulk-assign
-  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set())
-
-  // Delete imported registrations
-  const handleDeleteImported = async () => {
-    setIsDeleting(true)
-    try {
-      const res = await fetch(`/api/import/registrations/delete`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ event_id: eventId }),
-      })
-      if (res.ok) {
-        const data = await res.json()
-        toast.success(`Deleted ${data.deleted} imported registrations`)
-        setShowDeleteConfirm(false)
-        setImportedCount(0)
-      } else {
-        const error = await res.json()
-        toast.error(error.error || "Failed to delete")
-      }
-    } catch (_err) {
-      toast.error("Failed to delete imported registrations")
-    } finally {
-      setIsDeleting(false)
-    }
-  }
+  const queryClient = useQueryClient()
 
-  // Fetch event, ticket types, and imported count
-  useEffect(() => {
-    const fetchData = async () => {
-      // Fetch event
-      const eventRes = await fetch(`/api/events/${eventId}`)
-      if (eventRes.ok) {
-        const data = await eventRes.json()
-        setEventShortName(data.short_name || "")
-        setRegistrationPrefix(data.short_name || "REG")
-      }
+  const [step, setStep] = useState(0)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [cells, setCells] = useState<unknown[][]>([])
+  const [headerRow, setHeaderRow] = useState(1)
+  const [mapping, setMapping] = useState<ImportMapping>({})
+  const [mode, setMode] = useState<ImportTicketMode>("paid")
+  const [organization, setOrganization] = useState("")
+  const [defaultTicketId, setDefaultTicketId] = useState("")
+  const [welcomeChannels, setWelcomeChannels] = useState<WelcomeChannel[]>([])
+  // Row index (0-based data row) → ticket picked during review
+  const [ticketOverrides, setTicketOverrides] = useState<Record<string, string>>({})
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [rowFilter, setRowFilter] = useState<RowFilter>("all")
+  const [result, setResult] = useState<CommitResponse | null>(null)
 
-      // Fetch ticket types
-      const ticketsRes = await fetch(`/api/events/${eventId}/tickets`)
-      if (ticketsRes.ok) {
-        const tickets = await ticketsRes.json()
-        setTicketTypes(tickets)
-        // Auto-select first ticket if available
-        if (tickets.length > 0) {
-          setSelectedTicketId(tickets[0].id)
-          setFixedAmount(tickets[0].price.toString())
-        }
-      }
+  const { headers, rows } = useMemo(() => toRecords(cells, headerRow), [cells, headerRow])
 
-      // Fetch imported registrations count
-      const countRes = await fetch(`/api/import/registrations/count?event_id=${eventId}`)
-      if (countRes.ok) {
-        const countData = await countRes.json()
-        setImportedCount(countData.count || 0)
-      }
-    }
-    fetchData()
-  }, [eventId])
-
-  // Update amount when ticket selection changes
-  const handleTicketChange = (ticketId: string) => {
-    setSelectedTicketId(ticketId)
-    const ticket = ticketTypes.find(t => t.id === ticketId)
-    if (ticket) {
-      setFixedAmount(ticket.price.toString())
-    }
-  }
+  const { data: tickets } = useQuery({
+    queryKey: ["event-ticket-types", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/tickets`)
+      if (!res.ok) throw new Error("Failed to load tickets")
+      return (await res.json()) as TicketType[]
+    },
+  })
 
-  const standardFields = [
-    { key: "registration_number", label: "Registration Number", description: "Use existing reg number (e.g., 122A1157)" },
-    { key: "name", label: "Name", required: true, description: "Attendee full name" },
-    { key: "email", label: "Email", required: true, description: "Email address" },
-    { key: "phone", label: "Phone/Mobile", description: "Contact number" },
-    { key: "status", label: "Status", description: "Registration status (confirmed, pending, etc.)" },
-    { key: "ticket_name", label: "Ticket Name", description: "Matches to ticket type by name" },
-    { key: "registered_on", label: "Registration Date", description: "Date of registration" },
-    { key: "total_amount", label: "Amount Paid", description: "Payment amount received" },
-  ]
-
-  const handleImport = async (data: Record<string, any>[]) => {
-    const response = await fetch("/api/import/registrations", {
+  const { data: batches } = useQuery({
+    queryKey: ["registration-import-batches", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/registrations/import/batches?event_id=${eventId}`)
+      if (!res.ok) throw new Error("Failed to load imports")
+      return (await res.json()) as ImportBatch[]
+    },
+    // Welcome batches keep sending after the import finishes
+    refetchInterval: (query) =>
+      query.state.data?.some((b) => b.welcome_status === "pending") ? 15000 : false,
+  })
+
+  const requestBody = (dryRun: boolean) => ({
+    event_id: eventId,
+    rows,
+    mapping,
+    ticket_overrides: ticketOverrides,
+    mode,
+    default_ticket_id: defaultTicketId || null,
+    organization: mode === "sponsor" || mode === "exhibitor" ? organization || null : null,
+    welcome_channels: welcomeChannels,
+    file_name: fileName,
+    dry_run: dryRun,
+  })
+
+  const postImport = async (dryRun: boolean) => {
+    const res = await fetch("/api/registrations/import", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        event_id: eventId,
-        ticket_type_id: selectedTicketId || null,
-        rows: data,
-        registration_prefix: registrationPrefix,
-        fixed_amount: fixedAmount ? parseFloat(fixedAmount) : null,
-      }),
+      body: JSON.stringify(requestBody(dryRun)),
     })
+    const data = await res.json()
+    if (!res.ok) throw new Error(data.error || "Import failed")
+    return data
+  }
 
-    if (!response.ok) {
-      const error = await response.json()
-      throw new Error(error.error || "Import failed")
-    }
+  const dryRun = useMutation({
+    mutationFn: async () => (await postImport(true)) as ImportPlan,
+    onSuccess: (data) => {
+      setPlan(data)
+      setStep(3)
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
 
-    return response.json()
-  }
+  const commit = useMutation({
+    mutationFn: async () => (await postImport(false)) as CommitResponse,
+    onSuccess: (data) => {
+      setResult(data)
+      setStep(4)
+      queryClient.invalidateQueries({ queryKey: ["registration-import-batches", eventId] })
+      queryClient.invalidateQueries({ queryKey: ["event-registrations", eventId] })
+      toast.success(`Imported ${data.summary.created} registration(s)`)
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
 
-  // Toggle a single row's selection
-  const toggleRow = useCallback((index: number) => {
-    setSelectedRows(prev => {
-      const next = new Set(prev)
-      if (next.has(index)) next.delete(index)
-      else next.add(index)
-      return next
-    })
-  }, [])
-
-  // Bulk-assign ticket to all selected rows
-  const bulkAssignTicket = useCallback((ticketId: string) => {
-    setRowTickets(prev => {
-      const next = { ...prev }
-      selectedRows.forEach(i => { next[i] = ticketId })
-      return next
-    })
-    setSelectedRows(new Set())
-  }, [selectedRows])
-
-  // Build previewExtra: checkbox + per-row ticket dropdown
-  const previewExtra: PreviewExtra = useMemo(() => ({
-    header: (
-      <span className="whitespace-nowrap">Ticket Type</span>
-    ),
-    cell: (rowIndex: number) => {
-      const override = rowTickets[rowIndex]
-      return (
-        <div className="flex items-center gap-2">
-          <input
-            type="checkbox"
-            checked={selectedRows.has(rowIndex)}
-            onChange={() => toggleRow(rowIndex)}
-            className="h-4 w-4 rounded border-gray-300"
-          />
-          <select
-            value={override || ""}
-            onChange={(e) => {
-              setRowTickets(prev => ({ ...prev, [rowIndex]: e.target.value }))
-            }}
-            className="px-2 py-1 border rounded text-xs bg-background min-w-[140px]"
-          >
-            <option value="">Auto (from CSV)</option>
-            {ticketTypes.map(t => (
-              <option key={t.id} value={t.id}>
-                {t.name}
-              </option>
-            ))}
-          </select>
-        </div>
+  const undo = useMutation({
+    mutationFn: async (batchId: string) => {
+      const res = await fetch(`/api/registrations/import/batches/${batchId}/undo`, { method: "POST" })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to undo import")
+      return data as { deleted: number; kept_checked_in: number }
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["registration-import-batches", eventId] })
+      queryClient.invalidateQueries({ queryKey: ["event-registrations", eventId] })
+      toast.success(
+        `Removed ${data.deleted} registration(s)` +
+          (data.kept_checked_in ? `; kept ${data.kept_checked_in} already checked in` : "")
       )
     },
-    getRowData: (rowIndex: number) => ({
-      ticket_type_id: rowTickets[rowIndex] || undefined,
-    }),
-  }), [rowTickets, selectedTicketId, selectedRows, ticketTypes, toggleRow])
-
-  // Build previewToolbar: bulk-assign bar when rows are selected
-  const previewToolbar = useMemo(() => {
-    if (selectedRows.size === 0) return null
-    return (
-      <div className="flex items-center gap-3 p-3 bg-primary/10 border border-primary/20 rounded-lg">
-        <span className="text-sm font-medium">{selectedRows.size} row{selectedRows.size > 1 ? "s" : ""} selected</span>
-        <select
-          defaultValue=""
-          onChange={(e) => {
-            if (e.target.value) bulkAssignTicket(e.target.value)
-          }}
-          className="px-2 py-1 border rounded text-sm bg-background"
-        >
-          <option value="" disabled>Assign ticket...</option>
-          {ticketTypes.map(t => (
-            <option key={t.id} value={t.id}>
-              {t.name} - ₹{Math.round(t.price).toLocaleString("en-IN")}
-            </option>
-          ))}
-        </select>
-        <button
-          onClick={() => setSelectedRows(new Set())}
-          className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1"
-        >
-          <X className="h-3 w-3" />
-          Clear
-        </button>
-      </div>
-    )
-  }, [selectedRows, ticketTypes, bulkAssignTicket])
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const handleFile = async (file: File) => {
+    try {
+      let parsed: unknown[][]
+      if (/\.xlsx?$/i.test(file.name)) {
+        const XLSX = await import("xlsx")
+        const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" })
+        const sheet = workbook.Sheets[workbook.SheetNames[0]]
+        parsed = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: "" })
+      } else {
+        parsed = Papa.parse<unknown[]>(await file.text(), { skipEmptyLines: true }).data
+      }
+      if (parsed.length < 2) {
+        toast.error("The file needs a header row and at least one data row")
+        return
+      }
+      const first = toRecords(parsed, 1)
+      setFileName(file.name)
+      setCells(parsed)
+      setHeaderRow(1)
+      setMapping(guessImportMapping(first.headers))
+      setTicketOverrides({})
+      setPlan(null)
+      setResult(null)
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`)
+    }
+  }
+
+  const changeHeaderRow = (value: number) => {
+    const next = Math.max(1, Math.min(value || 1, Math.max(cells.length - 1, 1)))
+    setHeaderRow(next)
+    setMapping(guessImportMapping(toRecords(cells, next).headers))
+  }
+
+  const overrideTicket = (row: number, ticketId: string) => {
+    setTicketOverrides((prev) => ({ ...prev, [String(row - 2)]: ticketId }))
+  }
+
+  const reset = () => {
+    setStep(0)
+    setFileName(null)
+    setCells([])
+    setMapping({})
+    setTicketOverrides({})
+    setPlan(null)
+    setResult(null)
+  }
+
+  const nameMapped = Object.values(mapping).includes("name")
+  const ticketMapped = Object.values(mapping).includes("ticket_name")
+  const usedFields = new Set(Object.values(mapping))
+  const visibleRows = plan?.rows.filter((r) => rowFilter === "all" || r.action === rowFilter) || []
 
   return (
     <div className="space-y-6">
-      {/* Header */}
       <div className="flex items-center justify-between">
-        <div className="flex items-center gap-4">
-          <Link
-            href={`/events/${eventId}/registrations`}
-            className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
-          >
-            <ArrowLeft className="h-4 w-4" />
-            Back to Registrations
-          </Link>
-        </div>
-        <button
-          onClick={() => setShowSettings(!showSettings)}
+        <Link
+          href={`/events/${eventId}/registrations`}
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Registrations
+        </Link>
+        <a
+          href={`/api/registrations/import?event_id=${eventId}`}
           className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground"
         >
-          <Settings2 className="h-4 w-4" />
-          Import Settings
-        </button>
+          <Download className="h-4 w-4" />
+          CSV template
+        </a>
       </div>
 
-      {/* Import Settings */}
-      {showSettings && (
-        <div className="bg-secondary/30 border border-border rounded-xl p-4">
-          <h4 className="font-medium text-sm mb-3">Import Settings</h4>
-          <div className="grid gap-4 md:grid-cols-3">
-            <div>
-              <label className="block text-sm font-medium mb-1">
-                Ticket Type
-              </label>
-              <select
-                value={selectedTicketId}
-                onChange={(e) => handleTicketChange(e.target.value)}
-                className="w-full px-3 py-2 border rounded-lg text-sm bg-background"
-              >
-                <option value="">Select ticket type</option>
-                {ticketTypes.map(ticket => (
-                  <option key={ticket.id} value={ticket.id}>
-                    {ticket.name} - ₹{Math.round(ticket.price).toLocaleString("en-IN")}
-                  </option>
-                ))}
-              </select>
-              <p className="text-xs text-muted-foreground mt-1">
-                Ticket type for imported registrations
-              </p>
-            </div>
-            <div>
-              <label className="block text-sm font-medium mb-1">
-                Amount (₹)
-              </label>
+      <div>
+        <h1 className="text-2xl font-bold">Import Registrations</h1>
+        <p className="text-muted-foreground">
+          Add delegates, guests, sponsor and exhibitor passes from a spreadsheet
+        </p>
+      </div>
+
+      <StepIndicator steps={STEPS} currentStep={step} className="max-w-3xl" />
+
+      <div className="bg-card border border-border rounded-xl p-6">
+        {/* Step 1: Upload */}
+        {step === 0 && (
+          <div className="space-y-5">
+            <label
+              htmlFor="import-file"
+              className="block border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer hover:border-primary/50 transition-colors"
+            >
               <input
-                type="number"
-                value={fixedAmount}
-                onChange={(e) => setFixedAmount(e.target.value)}
-                placeholder="e.g., 5000"
-                className="w-full px-3 py-2 border rounded-lg text-sm bg-background"
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = ""
+                }}
               />
+              <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-sm font-medium">Click to choose a CSV or Excel file</p>
               <p className="text-xs text-muted-foreground mt-1">
-                Auto-filled from ticket, or enter custom
+                One row per person. Any column layout works; you map columns in the next step.
               </p>
+            </label>
+
+            {fileName && (
+              <div className="flex flex-wrap items-end justify-between gap-4 p-4 bg-secondary/30 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <FileSpreadsheet className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <p className="font-medium text-sm">{fileName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {rows.length} row(s), {headers.length} column(s)
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-end gap-3">
+                  <div>
+                    <Label htmlFor="header-row" className="text-xs">Header row</Label>
+                    <Input
+                      id="header-row"
+                      type="number"
+                      min={1}
+                      value={headerRow}
+                      onChange={(e) => changeHeaderRow(parseInt(e.target.value, 10))}
+                      className="w-20 h-9"
+                    />
+                  </div>
+                  <Button onClick={() => setStep(1)} disabled={rows.length === 0}>
+                    Next
+                    <ArrowRight className="h-4 w-4 ml-2" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Step 2: Map columns */}
+        {step === 1 && (
+          <div className="space-y-5">
+            <p className="text-sm text-muted-foreground">
+              Pick what each column holds. Unmapped columns are kept as custom fields; choose
+              &ldquo;Skip&rdquo; to leave one out.
+            </p>
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead className="w-64">Imports as</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {headers.map((header) => {
+                    const target = mapping[header] || "skip"
+                    const sample = rows.find((r) => r[header])?.[header] || ""
+                    return (
+                      <TableRow key={header}>
+                        <TableCell className="font-medium">{header}</TableCell>
+                        <TableCell className="text-muted-foreground text-sm max-w-xs truncate">{sample}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={target.startsWith("custom:") ? "custom" : target}
+                            onValueChange={(value) =>
+                              setMapping((prev) => ({
+                                ...prev,
+                                [header]: (value === "custom" ? `custom:${header}` : value) as ImportTarget,
+                              }))
+                            }
+                          >
+                            <SelectTrigger className="h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {IMPORT_FIELDS.map((field) => (
+                                <SelectItem
+                                  key={field.key}
+                                  value={field.key}
+                                  disabled={usedFields.has(field.key) && target !== field.key}
+                                >
+                                  {field.label}
+                                  {"required" in field ? " *" : ""}
+                                </SelectItem>
+                              ))}
+                              <SelectItem value="custom">Custom field</SelectItem>
+                              <SelectItem value="skip">Skip</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            {!nameMapped && <p className="text-sm text-destructive">Map one column to Name to continue.</p>}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep(0)}>Back</Button>
+              <Button onClick={() => setStep(2)} disabled={!nameMapped}>
+                Next
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: Tickets and options */}
+        {step === 2 && (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <Label>Pass type</Label>
+              <RadioGroup
+                value={mode}
+                onValueChange={(value) => setMode(value as ImportTicketMode)}
+                className="grid gap-3 md:grid-cols-2"
+              >
+                {(Object.keys(IMPORT_TICKET_MODES) as ImportTicketMode[]).map((key) => (
+                  <label
+                    key={key}
+                    className={cn(
+                      "flex items-start gap-3 rounded-lg border p-3 cursor-pointer",
+                      mode === key && "border-primary bg-primary/5"
+                    )}
+                  >
+                    <RadioGroupItem value={key} className="mt-0.5" />
+                    <div>
+                      <p className="font-medium text-sm">{IMPORT_TICKET_MODES[key].label}</p>
+                      <p className="text-xs text-muted-foreground">{IMPORT_TICKET_MODES[key].description}</p>
+                    </div>
+                  </label>
+                ))}
+              </RadioGroup>
+              {mode !== "paid" && (
+                <p className="text-xs text-muted-foreground">
+                  Free passes are recorded at ₹0 and never get a receipt or invoice.
+                </p>
+              )}
             </div>
-            <div>
-              <label className="block text-sm font-medium mb-1">
-                Registration Prefix
-              </label>
-              <div className="flex gap-2 items-center">
-                <input
-                  type="text"
-                  value={registrationPrefix}
-                  onChange={(e) => setRegistrationPrefix(e.target.value.toUpperCase())}
-                  placeholder="e.g., 121"
-                  className="px-3 py-2 border rounded-lg text-sm w-20 bg-background"
-                  maxLength={10}
+
+            {(mode === "sponsor" || mode === "exhibitor") && (
+              <div className="max-w-sm space-y-2">
+                <Label htmlFor="organization">{mode === "sponsor" ? "Sponsor" : "Exhibitor"}</Label>
+                <Input
+                  id="organization"
+                  value={organization}
+                  onChange={(e) => setOrganization(e.target.value)}
+                  placeholder="Company name"
                 />
-                <span className="text-xs text-muted-foreground">
-                  → {registrationPrefix}A1001...
-                </span>
               </div>
+            )}
+
+            <div className="max-w-sm space-y-2">
+              <Label>Ticket</Label>
+              <Select value={defaultTicketId || "none"} onValueChange={(v) => setDefaultTicketId(v === "none" ? "" : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{ticketMapped ? "From the ticket column" : "Select a ticket"}</SelectItem>
+                  {tickets?.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name} - ₹{Math.round(t.price).toLocaleString("en-IN")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ticketMapped
+                  ? "Used for rows whose ticket column is empty"
+                  : "Every row gets this ticket; you can change individual rows in the review"}
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <Label>After the import</Label>
+              {(Object.keys(WELCOME_LABELS) as WelcomeChannel[]).map((channel) => (
+                <label key={channel} className="flex items-center gap-3 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={welcomeChannels.includes(channel)}
+                    onCheckedChange={(checked) =>
+                      setWelcomeChannels((prev) =>
+                        checked ? [...prev, channel] : prev.filter((c) => c !== channel)
+                      )
+                    }
+                  />
+                  {WELCOME_LABELS[channel]}
+                </label>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Sent in the background in batches; people without an email or phone are skipped.
+              </p>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep(1)}>Back</Button>
+              <Button onClick={() => dryRun.mutate()} disabled={dryRun.isPending || (!ticketMapped && !defaultTicketId)}>
+                {dryRun.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Check rows
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
             </div>
           </div>
-        </div>
-      )}
+        )}
+
+        {/* Step 4: Review (dry run) */}
+        {step === 3 && plan && (
+          <div className="space-y-5">
+            <div className="grid gap-3 md:grid-cols-4">
+              <SummaryCard label="Rows" value={plan.summary.total} />
+              <SummaryCard label="New registrations" value={plan.summary.create} tone="success" />
+              <SummaryCard label="Already registered" value={plan.summary.duplicate} tone="warning" />
+              <SummaryCard label="Errors" value={plan.summary.error} tone="destructive" />
+            </div>
+
+            {Object.keys(plan.summary.by_ticket).length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(plan.summary.by_ticket).map(([name, count]) => (
+                  <Badge key={name} variant="secondary">{name}: {count}</Badge>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-3">
+              <Tabs value={rowFilter} onValueChange={(v) => setRowFilter(v as RowFilter)}>
+                <TabsList>
+                  <TabsTrigger value="all">All</TabsTrigger>
+                  <TabsTrigger value="create">New ({plan.summary.create})</TabsTrigger>
+                  <TabsTrigger value="duplicate">Duplicates ({plan.summary.duplicate})</TabsTrigger>
+                  <TabsTrigger value="error">Errors ({plan.summary.error})</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {Object.keys(ticketOverrides).length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => dryRun.mutate()} disabled={dryRun.isPending}>
+                  <RefreshCw className={cn("h-4 w-4 mr-2", dryRun.isPending && "animate-spin")} />
+                  Re-check
+                </Button>
+              )}
+            </div>
+
+            <div className="border rounded-lg max-h-[28rem] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead className="w-56">Ticket</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <PlanRow
+                      key={row.row}
+                      row={row}
+                      tickets={tickets || []}
+                      override={ticketOverrides[String(row.row - 2)]}
+                      onOverride={(ticketId) => overrideTicket(row.row, ticketId)}
+                    />
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep(2)}>Back</Button>
+              <Button onClick={() => commit.mutate()} disabled={commit.isPending || plan.summary.create === 0}>
+                {commit.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Import {plan.summary.create} registration{plan.summary.create === 1 ? "" : "s"}
+              </Button>
+            </div>
+          </div>
+        )}
 
-      {/* Delete Imported - only show if there are imported registrations */}
-      {importedCount > 0 && (
-        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
-          <div className="flex items-center justify-between">
+        {/* Step 5: Done */}
+        {step === 4 && result && (
+          <div className="space-y-5">
             <div className="flex items-center gap-3">
-              <AlertTriangle className="h-5 w-5 text-amber-600" />
+              <CheckCircle2 className="h-6 w-6 text-success" />
               <div>
-                <p className="font-medium text-amber-900">
-                  {importedCount} imported registrations found
-                </p>
-                <p className="text-sm text-amber-700">
-                  Delete these to re-import with correct settings
+                <p className="font-medium">Imported {result.summary.created} registration(s)</p>
+                <p className="text-sm text-muted-foreground">
+                  {result.summary.skipped} already registered, {result.summary.failed} failed
+                  {result.summary.notifications_queued > 0 && " · welcome messages are being sent"}
                 </p>
               </div>
             </div>
-            {!showDeleteConfirm ? (
-              <Button
-                variant="outline"
-                size="sm"
-                className="border-amber-300 text-amber-700 hover:bg-amber-100"
-                onClick={() => setShowDeleteConfirm(true)}
-              >
-                <Trash2 className="h-4 w-4 mr-2" />
-                Delete & Re-import
-              </Button>
-            ) : (
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-amber-700">Are you sure?</span>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowDeleteConfirm(false)}
-                  disabled={isDeleting}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  variant="destructive"
-                  size="sm"
-                  onClick={handleDeleteImported}
-                  disabled={isDeleting}
-                >
-                  {isDeleting ? "Deleting..." : "Yes, Delete All"}
-                </Button>
-              </div>
+            {result.errors.length > 0 && (
+              <ul className="text-sm text-muted-foreground space-y-1 max-h-48 overflow-auto border rounded-lg p-3">
+                {result.errors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
             )}
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => undo.mutate(result.batch.id)} disabled={undo.isPending}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Undo this import
+              </Button>
+              <Button variant="outline" onClick={reset}>Import another file</Button>
+              <Button asChild>
+                <Link href={`/events/${eventId}/registrations/list`}>View registrations</Link>
+              </Button>
+            </div>
           </div>
+        )}
+      </div>
+
+      {/* Recent imports */}
+      {batches && batches.length > 0 && (
+        <div className="bg-card border border-border rounded-xl p-6 space-y-3">
+          <h2 className="font-semibold">Recent imports</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Pass type</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead>Welcome</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <TableRow key={batch.id}>
+                  <TableCell>
+                    <p className="font-medium text-sm">{batch.file_name || "Import"}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(batch.created_at), "d MMM yyyy, h:mm a")}
+                      {batch.created_by_email && ` · ${batch.created_by_email}`}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {IMPORT_TICKET_MODES[batch.ticket_mode].label}
+                    {batch.organization && ` · ${batch.organization}`}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {batch.created_count}
+                    <span className="text-muted-foreground">
+                      {" "}/ {batch.total_rows}
+                      {batch.duplicate_count > 0 && ` · ${batch.duplicate_count} dup`}
+                      {batch.error_count > 0 && ` · ${batch.error_count} err`}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {batch.welcome_status === "none" ? (
+                      <span className="text-muted-foreground">-</span>
+                    ) : (
+                      <>
+                        <Badge variant="outline" className="capitalize">{batch.welcome_status}</Badge>
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {batch.welcome_sent} sent{batch.welcome_failed > 0 && `, ${batch.welcome_failed} failed`}
+                        </span>
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={batch.status === "undone" ? "secondary" : "outline"} className="capitalize">
+                      {batch.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {batch.status === "completed" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={undo.isPending}
+                        onClick={() => {
+                          if (confirm(`Remove the ${batch.created_count} registration(s) added by this import?`)) {
+                            undo.mutate(batch.id)
+                          }
+                        }}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Undo
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
         </div>
       )}
+    </div>
+  )
+}
 
-      {/* Import Component */}
-      <div className="bg-card border border-border rounded-xl p-6">
-        <CSVImportDynamic
-          title="Import Attendees"
-          description="Import registrations from any CSV file. Map your columns to standard fields - everything else becomes custom fields."
-          standardFields={standardFields}
-          onImport={handleImport}
-          templateFileName="attendees_import_template.csv"
-          previewExtra={previewExtra}
-          previewToolbar={previewToolbar}
-          showAllRowsInPreview={true}
-        />
-      </div>
-
-      {/* Info Box */}
-      <div className="bg-blue-50 border border-blue-200 rounded-xl p-4">
-        <h4 className="font-medium text-sm text-blue-900 mb-2">
-          How Custom Fields Work
-        </h4>
-        <ul className="text-sm text-blue-800 space-y-1">
-          <li>• <strong>Standard fields</strong> (Name, Email, Phone, Status) are stored in main columns</li>
-          <li>• <strong>Custom fields</strong> ({COMPANY_CONFIG.name} Membership, Food Preference, etc.) are stored in form_responses</li>
-          <li>• <strong>Registration numbers</strong> can be imported from CSV, or auto-generated as {registrationPrefix || "PREFIX"}A1001, {registrationPrefix || "PREFIX"}A1002, ...</li>
-          <li>• <strong>Duplicates</strong> are skipped (based on email)</li>
-        </ul>
-      </div>
+function SummaryCard({
+  label,
+  value,
+  tone,
+}: {
+  label: string
+  value: number
+  tone?: "success" | "warning" | "destructive"
+}) {
+  return (
+    <div className="rounded-lg border p-4">
+      <p
+        className={cn(
+          "text-2xl font-bold",
+          tone === "success" && "text-success",
+          tone === "warning" && value > 0 && "text-amber-600",
+          tone === "destructive" && value > 0 && "text-destructive"
+        )}
+      >
+        {value}
+      </p>
+      <p className="text-sm text-muted-foreground">{label}</p>
     </div>
   )
 }
+
+function PlanRow({
+  row,
+  tickets,
+  override,
+  onOverride,
+}: {
+  row: PlannedRow
+  tickets: TicketType[]
+  override?: string
+  onOverride: (ticketId: string) => void
+}) {
+  const contact =
+    row.action === "error" ? "" : [row.action === "create" && row.placeholder_email ? null : row.email, row.phone]
+      .filter(Boolean)
+      .join(" · ")
+
+  return (
+    <TableRow>
+      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+      <TableCell className="font-medium">{row.name || <span className="text-muted-foreground">-</span>}</TableCell>
+      <TableCell className="text-sm text-muted-foreground">{contact}</TableCell>
+      <TableCell className="text-sm">
+        {row.action === "create" && <Badge className="bg-success/15 text-success border-0">New</Badge>}
+        {row.action === "duplicate" && (
+          <span className="text-amber-700">
+            Same {row.matched_by} as{" "}
+            {row.existing ? `${row.existing.registration_number} (${row.existing.name})` : `row ${row.earlier_row}`}
+          </span>
+        )}
+        {row.action === "error" && <span className="text-destructive">{row.error}</span>}
+      </TableCell>
+      <TableCell>
+        {row.action !== "duplicate" && (
+          <Select value={override || (row.action === "create" ? row.ticket_type_id : "")} onValueChange={onOverride}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Pick a ticket" />
+            </SelectTrigger>
+            <SelectContent>
+              {tickets.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </TableCell>
+    </TableRow>
+  )
+}
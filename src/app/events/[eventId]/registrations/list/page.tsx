@@ -986,9 +986,8 @@ function RegistrationsContent() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           event_id: eventId,
-          ticket_type_id: importTicketId,
-          registrations: importPreview,
-          status: "confirmed",
+          default_ticket_id: importTicketId || null,
+          rows: importPreview,
         }),
       })
       if (!response.ok) {
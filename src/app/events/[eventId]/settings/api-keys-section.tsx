@@ -0,0 +1,282 @@
+"use client"
+
+import { useState } from "react"
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { KeyRound, Loader2, Plus, Copy, Trash2, FileJson } from "lucide-react"
+import { toast } from "sonner"
+import { API_MODULES, API_SCOPES, DEFAULT_API_KEY_RATE_LIMIT, type ApiModule } from "@/lib/api-scopes"
+
+interface ApiKeysSectionProps {
+  eventId: string
+}
+
+interface ApiKey {
+  id: string
+  name: string
+  key_prefix: string
+  scopes: string[]
+  status: string
+  rate_limit_per_minute: number | null
+  expires_at: string | null
+  last_used_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })
+
+const scopeLabel = (scope: string) => {
+  const [module, access] = scope.split(":")
+  const label = API_MODULES[module as ApiModule]?.label || module
+  return `${label} (${access})`
+}
+
+export function ApiKeysSection({ eventId }: ApiKeysSectionProps) {
+  const queryClient = useQueryClient()
+  const [creating, setCreating] = useState(false)
+  const [name, setName] = useState("")
+  const [scopes, setScopes] = useState<string[]>([])
+  const [rateLimit, setRateLimit] = useState("")
+  const [newKey, setNewKey] = useState<string | null>(null)
+  const [revokeKey, setRevokeKey] = useState<ApiKey | null>(null)
+
+  const { data: keys, isLoading } = useQuery({
+    queryKey: ["api-keys", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/api-keys`)
+      if (!res.ok) throw new Error("Failed to fetch API keys")
+      return res.json() as Promise<ApiKey[]>
+    },
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/api-keys`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes,
+          rate_limit_per_minute: rateLimit ? Number(rateLimit) : null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to create API key")
+      return data as ApiKey & { key: string }
+    },
+    onSuccess: (data) => {
+      setCreating(false)
+      setName("")
+      setScopes([])
+      setRateLimit("")
+      setNewKey(data.key)
+      queryClient.invalidateQueries({ queryKey: ["api-keys", eventId] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/events/${eventId}/api-keys/${id}`, { method: "DELETE" })
+      if (!res.ok) throw new Error("Failed to revoke API key")
+      return res.json()
+    },
+    onSuccess: () => {
+      toast.success("API key revoked")
+      setRevokeKey(null)
+      queryClient.invalidateQueries({ queryKey: ["api-keys", eventId] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)))
+  }
+
+  const copyKey = async () => {
+    if (!newKey) return
+    await navigator.clipboard.writeText(newKey)
+    toast.success("API key copied")
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-xl p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pb-4 border-b border-border">
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-lg bg-indigo-500/10 flex items-center justify-center">
+            <KeyRound className="h-5 w-5 text-indigo-500" />
+          </div>
+          <div>
+            <h3 className="font-semibold">API Keys</h3>
+            <p className="text-sm text-muted-foreground">
+              Let membership, LMS and other systems read and update this event through the REST API
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href="/api/v1/openapi.json" target="_blank" rel="noopener noreferrer">
+              <FileJson className="h-4 w-4 mr-2" />
+              OpenAPI
+            </a>
+          </Button>
+          <Button size="sm" onClick={() => setCreating(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Key
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center h-20">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : !keys || keys.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No API keys yet</p>
+      ) : (
+        <div className="space-y-3">
+          {keys.map((key) => {
+            const revoked = !!key.revoked_at
+            return (
+              <div
+                key={key.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-secondary/30 rounded-xl border border-border"
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{key.name}</p>
+                    {revoked && (
+                      <span className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full">Revoked</span>
+                    )}
+                  </div>
+                  <p className="text-xs font-mono text-muted-foreground">{key.key_prefix}…</p>
+                  <p className="text-xs text-muted-foreground">{key.scopes.map(scopeLabel).join(", ")}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {key.rate_limit_per_minute || DEFAULT_API_KEY_RATE_LIMIT} requests/min · Created {formatDate(key.created_at)}
+                    {key.last_used_at ? ` · Last used ${formatDate(key.last_used_at)}` : " · Never used"}
+                    {key.expires_at ? ` · Expires ${formatDate(key.expires_at)}` : ""}
+                  </p>
+                </div>
+                {!revoked && (
+                  <Button variant="ghost" size="sm" className="text-red-600 shrink-0" onClick={() => setRevokeKey(key)}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Create Key */}
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New API Key</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Membership portal" />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Scopes</label>
+              <div className="grid grid-cols-2 gap-2">
+                {API_SCOPES.map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={scopes.includes(scope)}
+                      onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                    />
+                    {scopeLabel(scope)}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Write access includes read.</p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Requests per minute</label>
+              <Input
+                type="number"
+                min={1}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.value)}
+                placeholder={String(DEFAULT_API_KEY_RATE_LIMIT)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Key
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Show New Key Once */}
+      <Dialog open={!!newKey} onOpenChange={(open) => !open && setNewKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Copy Your API Key</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            This is the only time the key is shown. Send it as <code>Authorization: Bearer &lt;key&gt;</code>.
+          </p>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={newKey || ""} className="font-mono text-xs" />
+            <Button variant="outline" size="sm" onClick={copyKey}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setNewKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation */}
+      <Dialog open={!!revokeKey} onOpenChange={(open) => !open && setRevokeKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-red-600">Revoke API Key</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm">
+            Revoke <strong>{revokeKey?.name}</strong>? Anything using it will start getting 401 errors immediately.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevokeKey(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => revokeKey && revokeMutation.mutate(revokeKey.id)}
+              disabled={revokeMutation.isPending}
+            >
+              {revokeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -35,6 +35,7 @@ import { AdvancedSection } from "./advanced-section"
 import { ModulesSection } from "./modules-section"
 import { AutomationSection } from "./automation-section"
 import { IntegrationsSection } from "./integrations-section"
+import { ApiKeysSection } from "./api-keys-section"
 import { TeamSection } from "./team-section"
 
 export default function SettingsPage() {
@@ -426,7 +427,10 @@ export default function SettingsPage() {
           )}
 
           {activeSection === "integrations" && (
-            <IntegrationsSection eventId={eventId} />
+            <div className="space-y-6">
+              <IntegrationsSection eventId={eventId} />
+              <ApiKeysSection eventId={eventId} />
+            </div>
           )}
 
           {activeSection === "branding" && (
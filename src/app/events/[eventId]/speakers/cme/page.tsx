@@ -4,7 +4,7 @@ import { useState, useMemo, useEffect } from "react"
 import { useParams } from "next/navigation"
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query"
 import { toast } from "sonner"
-import { Award, Calendar, MapPin, Save, Search } from "lucide-react"
+import { Award, Calendar, Download, MapPin, Save, Search } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
@@ -323,6 +323,12 @@ export default function SpeakerCmePage() {
           >
             Total CME credits assigned: {totalCredits}
           </Badge>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/events/${eventId}/session-cme/report`} title="Credits each delegate earned, weighted by time in the hall">
+              <Download className="h-4 w-4 mr-2" />
+              Delegate credits CSV
+            </a>
+          </Button>
         </div>
       </div>
 
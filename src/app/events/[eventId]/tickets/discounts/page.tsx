@@ -39,6 +39,14 @@ import {
 } from "lucide-react"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
+import type { DiscountStacking } from "@/lib/discount-rules"
+import { DiscountRulesPanel, type DiscountRuleRow } from "@/components/discounts/discount-rules-panel"
+import {
+  DiscountPreview,
+  emptySampleCart,
+  type PricedItem,
+  type SampleCart,
+} from "@/components/discounts/discount-preview"
 
 type DiscountType = "percentage" | "fixed"
 
@@ -57,15 +65,10 @@ interface DiscountCode {
   valid_until: string | null
   is_active: boolean
   applies_to_ticket_ids: string[] | null
+  stacking: DiscountStacking | null
   created_at: string
 }
 
-interface TicketTypeLite {
-  id: string
-  name: string
-  price: number
-}
-
 interface FormState {
   code: string
   description: string
@@ -77,6 +80,7 @@ interface FormState {
   valid_until: string
   is_active: boolean
   applies_to_ticket_ids: string[]
+  stacking: DiscountStacking
 }
 
 const emptyForm: FormState = {
@@ -90,6 +94,7 @@ const emptyForm: FormState = {
   valid_until: "",
   is_active: true,
   applies_to_ticket_ids: [],
+  stacking: "combinable",
 }
 
 function toLocalDatetimeInput(iso: string | null): string {
@@ -118,6 +123,7 @@ export default function DiscountsPage() {
   const [editing, setEditing] = useState<DiscountCode | null>(null)
   const [form, setForm] = useState<FormState>(emptyForm)
   const [saving, setSaving] = useState(false)
+  const [sample, setSample] = useState<SampleCart>(emptySampleCart)
 
   const { data: event } = useQuery({
     queryKey: ["event-discount-flag", eventId],
@@ -132,7 +138,7 @@ export default function DiscountsPage() {
     enabled: !!eventId,
   })
 
-  const { data: tickets } = useQuery<TicketTypeLite[]>({
+  const { data: tickets } = useQuery<PricedItem[]>({
     queryKey: ["event-ticket-types-lite", eventId],
     queryFn: async () => {
       const { data } = await supabase
@@ -140,7 +146,35 @@ export default function DiscountsPage() {
         .select("id, name, price")
         .eq("event_id", eventId)
         .order("sort_order")
-      return (data as TicketTypeLite[]) || []
+      return (data as PricedItem[]) || []
+    },
+    enabled: !!eventId,
+  })
+
+  const { data: addons } = useQuery<PricedItem[]>({
+    queryKey: ["event-addons-lite", eventId],
+    queryFn: async () => {
+      const { data } = await (supabase as any)
+        .from("addons")
+        .select("id, name, price")
+        .eq("event_id", eventId)
+        .order("sort_order")
+      return (data as PricedItem[]) || []
+    },
+    enabled: !!eventId,
+  })
+
+  const { data: rules, isLoading: rulesLoading } = useQuery<DiscountRuleRow[]>({
+    queryKey: ["discount-rules", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/discounts/rules?event_id=${eventId}`)
+      if (!res.ok) throw new Error("Failed to fetch")
+      const json = await res.json()
+      return ((json.data || []) as DiscountRuleRow[]).map((r) => ({
+        ...r,
+        discount_value: Number(r.discount_value),
+        max_discount_amount: r.max_discount_amount != null ? Number(r.max_discount_amount) : null,
+      }))
     },
     enabled: !!eventId,
   })
@@ -217,6 +251,7 @@ export default function DiscountsPage() {
       valid_until: toLocalDatetimeInput(code.valid_until),
       is_active: code.is_active,
       applies_to_ticket_ids: code.applies_to_ticket_ids || [],
+      stacking: code.stacking || "combinable",
     })
     setDialogOpen(true)
   }
@@ -247,6 +282,7 @@ export default function DiscountsPage() {
       valid_until: fromLocalDatetimeInput(form.valid_until),
       is_active: form.is_active,
       applies_to_ticket_ids: form.applies_to_ticket_ids.length > 0 ? form.applies_to_ticket_ids : null,
+      stacking: form.stacking,
     }
 
     setSaving(true)
@@ -288,10 +324,10 @@ export default function DiscountsPage() {
         <div>
           <h1 className="text-2xl font-bold flex items-center gap-2">
             <Tag className="h-6 w-6" />
-            Discount Codes
+            Discounts
           </h1>
           <p className="text-sm text-muted-foreground mt-1">
-            Create promo codes that attendees can apply at checkout.
+            Promo codes attendees can apply at checkout, and rules that apply automatically.
           </p>
         </div>
         <Button onClick={openCreate}>
@@ -360,6 +396,7 @@ export default function DiscountsPage() {
                         {Number(code.discount_value).toLocaleString("en-IN", { maximumFractionDigits: 0 })} off
                       </Badge>
                     )}
+                    {code.stacking === "exclusive" && <Badge variant="outline">Exclusive</Badge>}
                     {!code.is_active && <Badge variant="outline">Inactive</Badge>}
                     {expired && <Badge variant="destructive">Expired</Badge>}
                     {exhausted && <Badge variant="destructive">Max uses reached</Badge>}
@@ -404,6 +441,24 @@ export default function DiscountsPage() {
         </div>
       )}
 
+      <DiscountRulesPanel
+        eventId={eventId}
+        rules={rules || []}
+        isLoading={rulesLoading}
+        tickets={tickets || []}
+        addons={addons || []}
+        sample={sample}
+      />
+
+      <DiscountPreview
+        sample={sample}
+        onChange={setSample}
+        tickets={tickets || []}
+        addons={addons || []}
+        rules={rules || []}
+        codes={(codes || []).map((c) => ({ ...c, discount_value: Number(c.discount_value) }))}
+      />
+
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -554,6 +609,22 @@ export default function DiscountsPage() {
               </div>
             </div>
 
+            <div>
+              <label className="text-sm font-medium">Stacking</label>
+              <Select
+                value={form.stacking}
+                onValueChange={(v) => setForm({ ...form, stacking: v as DiscountStacking })}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="combinable">Combines with automatic rules</SelectItem>
+                  <SelectItem value="exclusive">Exclusive (best discount wins)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="flex items-center justify-between p-3 border rounded-md">
               <label htmlFor="active-toggle" className="text-sm font-medium cursor-pointer">
                 Active
@@ -63,8 +63,8 @@ export default function WaitlistInstructionsPage() {
               <div className="flex items-start gap-3">
                 <div className="h-6 w-6 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-bold">3</div>
                 <div>
-                  <p className="font-medium">Notify Users</p>
-                  <p className="text-sm text-muted-foreground">When spots open up, notify waitlisted users that they can now register</p>
+                  <p className="font-medium">Offers Go Out Automatically</p>
+                  <p className="text-sm text-muted-foreground">When a spot opens up, it is held for the next person for 24 hours and they get a claim link by email and WhatsApp</p>
                 </div>
               </div>
               <div className="flex items-start gap-3">
@@ -105,8 +105,8 @@ export default function WaitlistInstructionsPage() {
               </div>
               <div className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
                 <div className="flex items-center gap-3">
-                  <Badge className="bg-blue-500/10 text-blue-600 border-blue-500/20">Notified</Badge>
-                  <span className="text-sm">Notified that a spot is available, awaiting their response</span>
+                  <Badge className="bg-blue-500/10 text-blue-600 border-blue-500/20">Offered</Badge>
+                  <span className="text-sm">A spot is being held for them, awaiting their claim</span>
                 </div>
               </div>
               <div className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
@@ -118,7 +118,7 @@ export default function WaitlistInstructionsPage() {
               <div className="flex items-center justify-between p-3 bg-secondary/30 rounded-lg">
                 <div className="flex items-center gap-3">
                   <Badge className="bg-slate-500/10 text-slate-600 border-slate-500/20">Expired</Badge>
-                  <span className="text-sm">Notification window expired without response</span>
+                  <span className="text-sm">Hold expired without a claim; the spot moved to the next person</span>
                 </div>
               </div>
             </div>
@@ -203,7 +203,7 @@ export default function WaitlistInstructionsPage() {
               </li>
               <li className="flex items-start gap-2">
                 <CheckCircle className="h-4 w-4 text-emerald-500 mt-0.5" />
-                <span className="text-sm">Set a <strong>response deadline</strong> when notifying — give 48-72 hours before moving to the next person</span>
+                <span className="text-sm">Check <strong>Offer History</strong> for offers that couldn&apos;t be delivered — add a phone number or email and send the offer again</span>
               </li>
               <li className="flex items-start gap-2">
                 <CheckCircle className="h-4 w-4 text-emerald-500 mt-0.5" />
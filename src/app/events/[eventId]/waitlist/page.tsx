@@ -50,6 +50,10 @@ import {
   CheckCircle,
   XCircle,
   BookOpen,
+  Send,
+  History,
+  Mail,
+  MessageCircle,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { toast } from "sonner"
@@ -69,13 +73,46 @@ type WaitlistEntry = {
   ticket_types?: { id: string; name: string } | null
 }
 
+type WaitlistOffer = {
+  id: string
+  waitlist_id: string
+  name: string
+  email: string
+  phone: string | null
+  status: "active" | "claimed" | "expired" | "declined" | "cancelled"
+  channels: string[]
+  delivery_errors: Record<string, string> | null
+  offered_at: string
+  expires_at: string
+  claimed_at: string | null
+  closed_at: string | null
+  ticket_types?: { id: string; name: string } | null
+}
+
 const STATUS_OPTIONS = [
   { value: "waiting", label: "Waiting", color: "bg-amber-500", icon: Clock },
-  { value: "notified", label: "Notified", color: "bg-blue-500", icon: Bell },
+  { value: "notified", label: "Offered", color: "bg-blue-500", icon: Bell },
   { value: "converted", label: "Converted", color: "bg-green-500", icon: CheckCircle },
+  { value: "expired", label: "Expired", color: "bg-gray-500", icon: Clock },
   { value: "cancelled", label: "Cancelled", color: "bg-red-500", icon: XCircle },
 ]
 
+const OFFER_STATUS: Record<WaitlistOffer["status"], { label: string; color: string }> = {
+  active: { label: "Holding", color: "bg-blue-500" },
+  claimed: { label: "Claimed", color: "bg-green-500" },
+  expired: { label: "Expired", color: "bg-gray-500" },
+  declined: { label: "Declined", color: "bg-amber-500" },
+  cancelled: { label: "Cancelled", color: "bg-red-500" },
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+
 export default function WaitlistPage() {
   const params = useParams()
   const eventId = params.eventId as string
@@ -94,6 +131,32 @@ export default function WaitlistPage() {
     },
   })
 
+  const { data: offers } = useQuery({
+    queryKey: ["waitlist-offers", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/events/${eventId}/waitlist/offers`)
+      if (!res.ok) throw new Error("Failed to fetch offers")
+      return res.json() as Promise<WaitlistOffer[]>
+    },
+  })
+
+  const offerMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/events/${eventId}/waitlist/${id}/offer`, {
+        method: "POST",
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to send offer")
+      return data
+    },
+    onSuccess: (data) => {
+      toast.success(data.message || "Offer sent")
+      queryClient.invalidateQueries({ queryKey: ["waitlist", eventId] })
+      queryClient.invalidateQueries({ queryKey: ["waitlist-offers", eventId] })
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
   const notifyMutation = useMutation({
     mutationFn: async (id: string) => {
       const res = await fetch(`/api/events/${eventId}/waitlist/${id}`, {
@@ -231,7 +294,7 @@ export default function WaitlistPage() {
           <p className="text-2xl font-bold text-amber-600">{stats.waiting}</p>
         </div>
         <div className="bg-card rounded-lg border p-4">
-          <p className="text-sm text-muted-foreground">Notified</p>
+          <p className="text-sm text-muted-foreground">Offered</p>
           <p className="text-2xl font-bold text-blue-600">{stats.notified}</p>
         </div>
         <div className="bg-card rounded-lg border p-4">
@@ -327,6 +390,15 @@ export default function WaitlistPage() {
                           </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
+                          {entry.status === "waiting" && (
+                            <DropdownMenuItem
+                              onClick={() => offerMutation.mutate(entry.id)}
+                              disabled={offerMutation.isPending}
+                            >
+                              <Send className="h-4 w-4 mr-2" />
+                              Hold Seat &amp; Send Offer
+                            </DropdownMenuItem>
+                          )}
                           {entry.status === "waiting" && (
                             <DropdownMenuItem
                               onClick={() => notifyMutation.mutate(entry.id)}
@@ -364,6 +436,84 @@ export default function WaitlistPage() {
         </div>
       )}
 
+      {/* Offer History */}
+      <div className="space-y-3">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Offer History
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Freed seats are held for the next person for 24 hours, then offered on automatically.
+          </p>
+        </div>
+        {!offers || offers.length === 0 ? (
+          <div className="bg-card rounded-lg border p-6 text-center text-sm text-muted-foreground">
+            No offers sent yet
+          </div>
+        ) : (
+          <div className="bg-card rounded-lg border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted/50">
+                  <TableHead>Name</TableHead>
+                  <TableHead>Ticket Type</TableHead>
+                  <TableHead>Sent Via</TableHead>
+                  <TableHead>Offered</TableHead>
+                  <TableHead>Hold Until</TableHead>
+                  <TableHead>Outcome</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {offers.map((offer) => {
+                  const statusInfo = OFFER_STATUS[offer.status]
+                  const closedAt = offer.claimed_at || offer.closed_at
+                  return (
+                    <TableRow key={offer.id}>
+                      <TableCell>
+                        <div className="font-medium">{offer.name}</div>
+                        <div className="text-xs text-muted-foreground">{offer.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        {offer.ticket_types ? (
+                          <Badge variant="outline">{offer.ticket_types.name}</Badge>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          {offer.channels.includes("email") && <Mail className="h-4 w-4" aria-label="Email" />}
+                          {offer.channels.includes("whatsapp") && (
+                            <MessageCircle className="h-4 w-4" aria-label="WhatsApp" />
+                          )}
+                          {offer.channels.length === 0 && <span className="text-xs">Not delivered</span>}
+                        </div>
+                        {offer.delivery_errors && Object.keys(offer.delivery_errors).length > 0 && (
+                          <div className="text-xs text-red-600">
+                            {Object.entries(offer.delivery_errors)
+                              .map(([channel, error]) => `${channel}: ${error}`)
+                              .join("; ")}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatDateTime(offer.offered_at)}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{formatDateTime(offer.expires_at)}</TableCell>
+                      <TableCell>
+                        <Badge className={cn("text-white", statusInfo.color)}>{statusInfo.label}</Badge>
+                        {closedAt && offer.status !== "active" && (
+                          <div className="text-xs text-muted-foreground mt-1">{formatDateTime(closedAt)}</div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
       {/* Delete Confirmation */}
       <Dialog open={!!deleteEntry} onOpenChange={(open) => !open && setDeleteEntry(null)}>
         <DialogContent>
@@ -53,6 +53,7 @@ import {
 } from "lucide-react"
 import { toast } from "sonner"
 import { cn } from "@/lib/utils"
+import { describeLateness, type HallProjection } from "@/lib/agenda-running-order"
 
 type Session = {
   id: string
@@ -65,6 +66,8 @@ type Session = {
   hall?: string
   specialty_track?: string
   coordinator_status?: string
+  actual_start_at?: string | null
+  actual_end_at?: string | null
   coordinator_notes?: string
   coordinator_checklist?: Record<string, boolean>
   audience_count?: number
@@ -79,6 +82,18 @@ type Session = {
   faculty_phone?: string
 }
 
+type RunningOrder = {
+  date: string
+  now_time: string
+  projection: HallProjection | null
+}
+
+type RunningAction =
+  | { action: "start" | "end"; session_id: string }
+  | { action: "delay"; session_id: string; minutes: number; reason?: string }
+
+const DELAY_STEPS = [5, 10, 15]
+
 type Issue = {
   id: string
   type: string
@@ -164,6 +179,7 @@ export default function HallControlDashboard() {
   const [_audienceDialogOpen, _setAudienceDialogOpen] = useState(false)
   const [_audienceCount, _setAudienceCount] = useState("")
   const [localIssues, setLocalIssues] = useState<Issue[]>([])
+  const [delayReason, setDelayReason] = useState("")
 
   // Real-time clock
   useEffect(() => {
@@ -241,6 +257,41 @@ export default function HallControlDashboard() {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ["coordinator-sessions"] }),
   })
 
+  // Running order: the hall's day re-projected from started / ended marks and pushed delays
+  const { data: runningOrder } = useQuery({
+    queryKey: ["coordinator-running-order", token, selectedDay],
+    enabled: !!coordinator && !!selectedDay,
+    refetchInterval: 15000,
+    queryFn: async () => {
+      const res = await fetch(`/api/hall-coordinator/${token}/running-order?date=${selectedDay}`)
+      if (!res.ok) throw new Error("Failed to load running order")
+      return (await res.json()) as RunningOrder
+    },
+  })
+
+  const runningMutation = useMutation({
+    mutationFn: async (body: RunningAction) => {
+      const res = await fetch(`/api/hall-coordinator/${token}/running-order`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to update running order")
+      return data as RunningOrder
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["coordinator-running-order", token, data.date], data)
+      queryClient.invalidateQueries({ queryKey: ["coordinator-sessions"] })
+    },
+    onError: (e: Error) => toast.error(e.message),
+  })
+
+  const projectedById = useMemo(
+    () => new Map((runningOrder?.projection?.sessions ?? []).map(p => [p.id, p])),
+    [runningOrder]
+  )
+
   // Smart name normalization (removes titles, extra spaces)
   const normalizeName = useCallback((name: string) => {
     if (!name) return ""
@@ -362,6 +413,16 @@ export default function HallControlDashboard() {
     return "past"
   }, [currentTime])
 
+  // Where the session really is, once the hall's running order says so
+  const getRunningTiming = useCallback((s: Session) => {
+    const projected = projectedById.get(s.id)
+    if (!projected || !runningOrder || s.session_date !== runningOrder.date) return getSessionTiming(s)
+    if (projected.state === "live") return "current"
+    if (projected.state === "ended") return "past"
+    const now = parseTime(runningOrder.now_time)
+    return now < parseTime(projected.projected_start) - 30 ? "upcoming" : "starting_soon"
+  }, [projectedById, runningOrder, getSessionTiming])
+
   const getStatusInfo = (status?: string) => SESSION_STATUS.find(s => s.value === status) || SESSION_STATUS[0]
 
   // Day groups
@@ -391,29 +452,28 @@ export default function HallControlDashboard() {
     let current: Session | null = null, next: Session | null = null
     const upcoming: Session[] = []
     for (const s of todaySessions) {
-      const t = getSessionTiming(s)
+      const t = getRunningTiming(s)
       if (t === "current" || t === "starting_soon") current = current || s
       else if (t === "upcoming") { next = next || s; upcoming.push(s) }
     }
     return { currentSession: current, nextSession: next, upcomingSessions: upcoming.slice(0, 5) }
-  }, [todaySessions, getSessionTiming])
+  }, [todaySessions, getRunningTiming])
 
-  // Time info for current session
+  // Time info for current session, against when it really started
   const timeInfo = useMemo(() => {
     if (!currentSession) return null
     const now = currentTime.getHours() * 60 + currentTime.getMinutes()
-    const start = parseTime(currentSession.start_time)
-    const end = parseTime(currentSession.end_time)
+    const projected = projectedById.get(currentSession.id)
+    const start = parseTime(projected?.projected_start ?? currentSession.start_time)
+    const end = parseTime(projected?.due_end ?? currentSession.end_time)
     const remaining = end - now
     const progress = Math.min(100, Math.max(0, ((now - start) / (end - start)) * 100))
     return { remaining, progress, isOvertime: remaining < 0, overtimeMinutes: remaining < 0 ? Math.abs(remaining) : 0 }
-  }, [currentSession, currentTime])
+  }, [currentSession, currentTime, projectedById])
 
-  // Calculate cascade delay for subsequent sessions
-  const cascadeDelay = useMemo(() => {
-    if (!timeInfo?.isOvertime) return 0
-    return timeInfo.overtimeMinutes
-  }, [timeInfo])
+  // How late the hall is running, from the projected running order
+  const cascadeDelay = Math.max(0, runningOrder?.projection?.late_minutes ?? 0)
+  const lateBy = useCallback((s: Session) => Math.max(0, projectedById.get(s.id)?.late_minutes ?? 0), [projectedById])
 
   // Helper to format adjusted time
   const formatAdjustedTime = useCallback((originalTime: string | undefined, delay: number) => {
@@ -597,6 +657,80 @@ export default function HallControlDashboard() {
   }, [findSpeakerPhone, parseContactFromText])
 
   // Actions
+  const handleRunning = (s: Session, action: "start" | "end" | "delay", minutes?: number) => {
+    const body: RunningAction = action === "delay"
+      ? { action, session_id: s.id, minutes: minutes!, reason: delayReason.trim() || undefined }
+      : { action, session_id: s.id }
+    runningMutation.mutate(body, {
+      onSuccess: () => {
+        if (action === "delay") setDelayReason("")
+        toast.success(action === "start" ? "Session started" : action === "end" ? "Session ended" : `Pushed +${minutes} min`)
+      },
+    })
+  }
+
+  const renderRunningControls = (s: Session) => {
+    const projected = projectedById.get(s.id)
+    const started = !!s.actual_start_at
+    const ended = !!s.actual_end_at
+    const busy = runningMutation.isPending
+    return (
+      <div className="mt-4 p-3 bg-black/20 rounded-2xl border border-white/10 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-bold text-white/60 uppercase tracking-wider">Running Order</span>
+          {projected && (
+            <span className={cn("text-xs font-semibold", projected.late_minutes > 0 ? "text-amber-400" : "text-green-400")}>
+              {describeLateness(projected.late_minutes)}
+            </span>
+          )}
+        </div>
+        {ended ? (
+          <p className="text-sm text-white/50">Ended at {formatTime(projected?.projected_end)}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {started ? (
+                <Button size="sm" disabled={busy} onClick={() => handleRunning(s, "end")} className="bg-emerald-600 hover:bg-emerald-700">
+                  <CheckCheck className="h-4 w-4 mr-1" />
+                  End now
+                </Button>
+              ) : (
+                <Button size="sm" disabled={busy} onClick={() => handleRunning(s, "start")} className="bg-green-600 hover:bg-green-700">
+                  <PlayCircle className="h-4 w-4 mr-1" />
+                  Start now
+                </Button>
+              )}
+              {DELAY_STEPS.map(minutes => (
+                <Button
+                  key={minutes}
+                  size="sm"
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => handleRunning(s, "delay", minutes)}
+                  className="border-amber-500/30 bg-amber-500/10 text-amber-400 hover:bg-amber-500/20"
+                >
+                  <Timer className="h-4 w-4 mr-1" />
+                  +{minutes}m
+                </Button>
+              ))}
+            </div>
+            <Input
+              value={delayReason}
+              onChange={e => setDelayReason(e.target.value)}
+              placeholder={started ? "Reason for overrun (optional)" : "Reason for late start (optional)"}
+              className="h-8 bg-white/5 border-white/10 text-white text-sm placeholder:text-white/30"
+            />
+            {started && projected && (
+              <p className="text-xs text-white/40">
+                Started {formatTime(projected.projected_start)} · due to end {formatTime(projected.due_end)}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    )
+  }
+
   const handleStatus = (s: Session, status: string) => {
     updateMutation.mutate({ id: s.id, updates: { coordinator_status: status } })
     toast.success(SESSION_STATUS.find(st => st.value === status)?.label || "Updated")
@@ -814,7 +948,14 @@ export default function HallControlDashboard() {
               </div>
 
               <h2 className="text-xl font-bold text-white mb-2">{currentSession.session_name}</h2>
-              <p className="text-sm text-white/50 mb-4">{formatTime(currentSession.start_time)} - {formatTime(currentSession.end_time)}</p>
+              <p className="text-sm text-white/50 mb-4">
+                {formatTime(currentSession.start_time)} - {formatTime(currentSession.end_time)}
+                {lateBy(currentSession) > 0 && (
+                  <span className="ml-2 text-amber-400">
+                    now {formatTime(projectedById.get(currentSession.id)?.projected_start)} - {formatTime(projectedById.get(currentSession.id)?.projected_end)}
+                  </span>
+                )}
+              </p>
 
               {/* Progress Bar */}
               <div className="h-2 bg-black/30 rounded-full overflow-hidden mb-6">
@@ -847,6 +988,8 @@ export default function HallControlDashboard() {
                   </button>
                 ))}
               </div>
+
+              {renderRunningControls(currentSession)}
             </div>
           </div>
         </div>
@@ -859,7 +1002,7 @@ export default function HallControlDashboard() {
             <div className="flex items-center gap-2 mb-4">
               <SkipForward className="h-5 w-5 text-blue-400" />
               <span className="text-sm font-bold text-blue-400 uppercase tracking-wider">Next Up</span>
-              <span className="text-sm text-white/40">at {formatTime(nextSession.start_time)}</span>
+              <span className="text-sm text-white/40">at {formatAdjustedTime(nextSession.start_time, lateBy(nextSession))}</span>
             </div>
             <h2 className="text-xl font-bold text-white mb-4">{nextSession.session_name}</h2>
 
@@ -882,6 +1025,8 @@ export default function HallControlDashboard() {
                 )
               })}
             </div>
+
+            {renderRunningControls(nextSession)}
           </div>
         </div>
       )}
@@ -973,7 +1118,8 @@ export default function HallControlDashboard() {
                     const status = getStatusInfo(session.coordinator_status)
                     const checklist = session.coordinator_checklist || {}
                     const _checkCount = Object.values(checklist).filter(Boolean).length
-                    const hasDelay = cascadeDelay > 0
+                    const delay = lateBy(session)
+                    const hasDelay = delay > 0
                     return (
                       <div
                         key={session.id}
@@ -987,8 +1133,8 @@ export default function HallControlDashboard() {
                           {hasDelay ? (
                             <>
                               <p className="text-xs text-white/30 line-through">{formatTime(session.start_time)}</p>
-                              <p className="text-lg font-bold text-amber-400">{formatAdjustedTime(session.start_time, cascadeDelay)}</p>
-                              <p className="text-[10px] text-amber-400/60">~{formatAdjustedTime(session.end_time, cascadeDelay)}</p>
+                              <p className="text-lg font-bold text-amber-400">{formatAdjustedTime(session.start_time, delay)}</p>
+                              <p className="text-[10px] text-amber-400/60">~{formatTime(projectedById.get(session.id)?.projected_end)}</p>
                             </>
                           ) : (
                             <>
@@ -1005,7 +1151,7 @@ export default function HallControlDashboard() {
                             </Badge>
                             {hasDelay && (
                               <Badge className="text-[10px] bg-amber-500/20 text-amber-400 border-0">
-                                Pushed +{cascadeDelay}m
+                                Pushed +{delay}m
                               </Badge>
                             )}
                             <div className="flex gap-0.5">
@@ -1088,11 +1234,12 @@ export default function HallControlDashboard() {
               </div>
             ) : (
               todaySessions.map(session => {
-                const timing = getSessionTiming(session)
+                const timing = getRunningTiming(session)
                 const status = getStatusInfo(session.coordinator_status)
                 const StatusIcon = status.icon
                 const isUpcoming = timing === "upcoming" || timing === "starting_soon"
-                const showAdjusted = cascadeDelay > 0 && isUpcoming
+                const delay = lateBy(session)
+                const showAdjusted = delay > 0 && isUpcoming
                 return (
                   <div
                     key={session.id}
@@ -1115,7 +1262,7 @@ export default function HallControlDashboard() {
                       {showAdjusted ? (
                         <>
                           <p className="text-xs text-white/30 line-through">{formatTime(session.start_time)}</p>
-                          <p className="text-lg font-bold text-amber-400">{formatAdjustedTime(session.start_time, cascadeDelay)}</p>
+                          <p className="text-lg font-bold text-amber-400">{formatAdjustedTime(session.start_time, delay)}</p>
                         </>
                       ) : (
                         <p className={cn(
@@ -1136,7 +1283,7 @@ export default function HallControlDashboard() {
                         </Badge>
                         {showAdjusted && (
                           <Badge className="text-[10px] bg-amber-500/20 text-amber-400 border-0">
-                            +{cascadeDelay}m
+                            +{delay}m
                           </Badge>
                         )}
                       </div>
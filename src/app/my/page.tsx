@@ -44,12 +44,20 @@ import {
   Truck,
   Stethoscope,
   ArrowLeft,
+  Pencil,
+  BookmarkCheck,
+  AlertTriangle,
 } from "lucide-react"
 import { toast } from "sonner"
 import { motion, AnimatePresence, useMotionValue, useTransform } from "framer-motion"
 import QRCode from "qrcode"
 import { FormRenderer } from "@/components/forms/renderer/form-renderer"
 import { Form as FormType, FormField } from "@/lib/types"
+import { formatCredits, type CmeTranscript } from "@/lib/session-attendance"
+import { BadgeCanvas } from "@/components/badges/badge-canvas"
+import { BADGE_SIZES, type BadgeTemplate } from "@/lib/badge-template-types"
+import { CORRECTABLE_FIELDS, correctableFieldLabel, type CorrectableField } from "@/lib/badge-corrections"
+import type { AgendaClash, AgendaSession } from "@/lib/personal-agenda"
 
 // -- TechnoSurg: Medical Council gate for certificate download (TNMC CME reporting) --
 // Scoped to the TechnoSurg registration form only, so other events are unaffected.
@@ -1685,6 +1693,21 @@ export default function DelegatePortalPage() {
           registrationNumber={registration.registration_number}
         />
 
+        {/* CME Transcript Section */}
+        <CmeTranscriptSection registrationId={bareRegId(registration)} />
+
+        {/* My Agenda */}
+        {registration.status === "confirmed" &&
+          registration._tenant !== "technosurg" &&
+          registration.checkin_token &&
+          event?.id && <MyAgendaSection token={registration.checkin_token} eventId={event.id} />}
+
+        {/* Badge Preview & Corrections */}
+        {portalSettings.show_badge &&
+          registration.status === "confirmed" &&
+          registration._tenant !== "technosurg" &&
+          registration.checkin_token && <BadgeCorrectionSection token={registration.checkin_token} />}
+
         {/* Feedback Forms Section */}
         <div ref={feedbackSectionRef}>
           <EventFeedbackForms
@@ -2213,6 +2236,433 @@ export default function DelegatePortalPage() {
   )
 }
 
+// CME Transcript Component -- credits earned per session, weighted by the
+// time the hall-door kiosks saw the delegate inside. Hidden until at least
+// one session has been credited.
+function CmeTranscriptSection({ registrationId }: { registrationId: string }) {
+  const [transcript, setTranscript] = useState<CmeTranscript | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/my/cme-transcript?registration_id=${registrationId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled) setTranscript(data?.transcript ?? null)
+      })
+      .catch((error) => console.error("Failed to fetch CME transcript:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [registrationId])
+
+  if (!transcript || transcript.lines.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-100 rounded-xl flex items-center justify-center">
+            <GraduationCap className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">CME Credits</h3>
+            <p className="text-xs text-gray-500">Based on the time you spent in each session hall</p>
+          </div>
+        </div>
+        <span className="px-3 py-1 text-sm font-semibold rounded-full bg-indigo-100 text-indigo-700">
+          {formatCredits(transcript.total_credits)} credits
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {transcript.lines.map((line) => (
+          <div key={line.session_id} className="p-3 bg-gray-50 rounded-xl border border-gray-100 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 text-sm">{line.session_name}</p>
+              <p className="text-xs text-gray-500">
+                {new Date(`${line.session_date}T00:00:00Z`).toLocaleDateString("en-IN", {
+                  day: "numeric",
+                  month: "short",
+                  timeZone: "UTC",
+                })}
+                {" · "}
+                {line.start_time.slice(0, 5)}–{line.end_time.slice(0, 5)}
+                {" · "}
+                {line.dwell_minutes} of {line.session_minutes} min
+                {line.accrediting_body && ` · ${line.accrediting_body}`}
+              </p>
+            </div>
+            <p className="text-sm font-semibold text-gray-900 whitespace-nowrap">
+              {formatCredits(line.credits_earned)}
+              <span className="text-xs font-normal text-gray-500"> / {formatCredits(line.credits_available)}</span>
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// My Agenda -- the sessions the delegate bookmarked in the public programme,
+// with clash warnings and a calendar feed that follows programme changes.
+function MyAgendaSection({ token, eventId }: { token: string; eventId: string }) {
+  const [agenda, setAgenda] = useState<{ sessions: AgendaSession[]; clashes: AgendaClash[]; feed_token: string } | null>(null)
+  const [removing, setRemoving] = useState<string | null>(null)
+  const [resettingFeed, setResettingFeed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/my/agenda?token=${encodeURIComponent(token)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setAgenda(data)
+      })
+      .catch((error) => console.error("Failed to fetch agenda:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [token])
+
+  const remove = async (session: AgendaSession) => {
+    setRemoving(session.id)
+    try {
+      const res = await fetch("/api/my/agenda", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, session_id: session.id }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to remove the bookmark")
+      setAgenda(data)
+      toast.success(`Removed "${session.session_name}"`)
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  // Issues a new calendar link; calendars subscribed with the old one stop syncing.
+  const resetFeed = async () => {
+    setResettingFeed(true)
+    try {
+      const res = await fetch("/api/my/agenda/calendar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to reset your calendar link")
+      setAgenda((current) => (current ? { ...current, feed_token: data.feed_token } : current))
+      toast.success("Calendar link reset. Subscribe again with the new link.")
+    } catch (error: any) {
+      toast.error(error.message)
+    } finally {
+      setResettingFeed(false)
+    }
+  }
+
+  if (!agenda) return null
+
+  const sessions = agenda.sessions
+    .filter((s) => s.status !== "cancelled")
+    .sort((a, b) => `${a.session_date} ${a.start_time}`.localeCompare(`${b.session_date} ${b.start_time}`))
+  const clashing = new Set(agenda.clashes.flatMap((c) => c.session_ids))
+  const feed = `/api/my/agenda/calendar?feed=${encodeURIComponent(agenda.feed_token)}`
+  const programmeHref = `/p/${eventId}?token=${encodeURIComponent(token)}`
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-100 rounded-xl flex items-center justify-center">
+            <BookmarkCheck className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">My Agenda</h3>
+            <p className="text-xs text-gray-500">Sessions you&apos;ve bookmarked in the programme</p>
+          </div>
+        </div>
+        <a href={programmeHref} className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-700 text-sm font-medium">
+          Browse programme
+          <ArrowRight className="w-4 h-4" />
+        </a>
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nothing bookmarked yet. Open the programme and add the sessions you plan to attend.
+        </p>
+      ) : (
+        <>
+          {agenda.clashes.map((clash) => (
+            <p key={clash.session_ids.join(":")} className="mb-2 flex items-start gap-2 rounded-xl bg-amber-50 px-3 py-2 text-sm text-amber-800">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              {clash.message}
+            </p>
+          ))}
+          <div className="space-y-2">
+            {sessions.map((session) => (
+              <div
+                key={session.id}
+                className={`p-3 rounded-xl border flex items-start justify-between gap-4 ${clashing.has(session.id) ? "bg-amber-50/50 border-amber-200" : "bg-gray-50 border-gray-100"}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 text-sm">{session.session_name}</p>
+                  <p className="text-xs text-gray-500">
+                    {session.session_date &&
+                      new Date(`${session.session_date}T00:00:00Z`).toLocaleDateString("en-IN", {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                        timeZone: "UTC",
+                      })}
+                    {session.start_time && ` · ${session.start_time.slice(0, 5)}–${session.end_time?.slice(0, 5) ?? ""}`}
+                    {session.hall && ` · ${session.hall}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => remove(session)}
+                  disabled={removing === session.id}
+                  className="text-xs text-gray-400 hover:text-red-600 whitespace-nowrap disabled:opacity-50"
+                >
+                  {removing === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : "Remove"}
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <a
+              href={`webcal://${window.location.host}${feed}`}
+              className="inline-flex items-center gap-1.5 rounded-xl bg-indigo-600 px-3 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+            >
+              <CalendarDays className="w-4 h-4" />
+              Subscribe in calendar
+            </a>
+            <a
+              href={feed}
+              download="my-agenda.ics"
+              className="inline-flex items-center gap-1.5 rounded-xl border border-gray-200 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <Download className="w-4 h-4" />
+              Download .ics
+            </a>
+          </div>
+          <p className="mt-2 text-xs text-gray-400">
+            A subscribed calendar picks up time and hall changes automatically.{" "}
+            <button onClick={resetFeed} disabled={resettingFeed} className="underline hover:text-gray-600 disabled:opacity-50">
+              {resettingFeed ? "Resetting…" : "Reset calendar link"}
+            </button>
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Badge Preview & Corrections -- the delegate's badge rendered with the
+// event's template, so a misspelt name is caught before it's printed (or
+// reprinted). Corrections go to the badge desk for approval; nothing on the
+// registration changes until they do.
+interface BadgeCorrectionRequest {
+  id: string
+  status: "pending" | "approved" | "rejected"
+  requested_changes: Partial<Record<CorrectableField, string>>
+  previous_values: Partial<Record<CorrectableField, string>>
+  review_note?: string | null
+  created_at: string
+}
+
+const PREVIEW_WIDTH = 300
+
+function BadgeCorrectionSection({ token }: { token: string }) {
+  const [preview, setPreview] = useState<{
+    registration: Record<string, any>
+    event: Record<string, any> | null
+    template: BadgeTemplate | null
+    requests: BadgeCorrectionRequest[]
+  } | null>(null)
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState<Record<CorrectableField, string>>({
+    attendee_name: "",
+    attendee_designation: "",
+    attendee_institution: "",
+  })
+  const [note, setNote] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(`/api/my/badge-corrections?token=${encodeURIComponent(token)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setPreview(data)
+      })
+      .catch((error) => console.error("Failed to fetch badge preview:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [token, reloadKey])
+
+  if (!preview) return null
+
+  const { registration, event, template, requests } = preview
+  const pending = requests.find((r) => r.status === "pending")
+  const lastReviewed = requests.find((r) => r.status !== "pending")
+
+  const startEditing = () => {
+    setDraft({
+      attendee_name: registration.attendee_name || "",
+      attendee_designation: registration.attendee_designation || "",
+      attendee_institution: registration.attendee_institution || "",
+    })
+    setNote("")
+    setEditing(true)
+  }
+
+  const handleSubmit = async () => {
+    const changes = Object.fromEntries(
+      CORRECTABLE_FIELDS.filter((f) => draft[f.key].trim() !== (registration[f.key] || "")).map((f) => [f.key, draft[f.key]])
+    )
+    setSubmitting(true)
+    try {
+      const res = await fetch("/api/my/badge-corrections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, changes, note }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to send your correction")
+      toast.success("Correction sent! The badge desk will review it shortly.")
+      setEditing(false)
+      setReloadKey((key) => key + 1)
+    } catch (error: any) {
+      toast.error(error.message || "Failed to send your correction")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // While editing, the preview shows the badge as it would print corrected
+  const shown = editing ? { ...registration, ...draft } : registration
+  const scale = template ? Math.min(1, PREVIEW_WIDTH / (BADGE_SIZES[template.size] || BADGE_SIZES["4x3"]).width) : 1
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-100 rounded-xl flex items-center justify-center">
+            <QrCode className="w-5 h-5 text-indigo-600" />
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-900">Your Badge</h3>
+            <p className="text-xs text-gray-500">Check your details before you collect it</p>
+          </div>
+        </div>
+        {!editing && !pending && (
+          <button
+            onClick={startEditing}
+            className="inline-flex items-center gap-1 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <Pencil className="w-4 h-4" />
+            Request a correction
+          </button>
+        )}
+      </div>
+
+      {template ? (
+        <div className="flex justify-center mb-4">
+          <div className="border border-gray-200 rounded-lg overflow-hidden shadow-sm">
+            <BadgeCanvas template={template} mode="live" registration={shown} event={event || undefined} scale={scale} />
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">Your badge design isn&apos;t ready yet. You can still check your details below.</p>
+      )}
+
+      {pending && (
+        <div className="p-3 rounded-xl bg-amber-50 border border-amber-200 text-sm text-amber-800 mb-3">
+          <p className="font-medium flex items-center gap-1.5">
+            <Clock className="w-4 h-4" />
+            Correction waiting for review
+          </p>
+          <ul className="mt-1 text-xs space-y-0.5">
+            {Object.entries(pending.requested_changes).map(([field, value]) => (
+              <li key={field}>
+                {correctableFieldLabel(field)}: <span className="line-through">{pending.previous_values[field as CorrectableField] || "—"}</span>{" "}
+                → <span className="font-medium">{value || "—"}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!pending && lastReviewed && !editing && (
+        <div
+          className={`p-3 rounded-xl text-sm mb-3 ${
+            lastReviewed.status === "approved" ? "bg-green-50 text-green-800" : "bg-gray-50 text-gray-700"
+          }`}
+        >
+          <p className="font-medium flex items-center gap-1.5">
+            {lastReviewed.status === "approved" ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+            {lastReviewed.status === "approved"
+              ? "Your correction was approved — collect your updated badge at the desk"
+              : "Your last correction wasn't approved"}
+          </p>
+          {lastReviewed.review_note && <p className="mt-1 text-xs">{lastReviewed.review_note}</p>}
+        </div>
+      )}
+
+      {editing && (
+        <div className="space-y-3">
+          {CORRECTABLE_FIELDS.map((field) => (
+            <div key={field.key}>
+              <label className="block text-xs font-medium text-gray-600 mb-1">{field.label}</label>
+              <input
+                value={draft[field.key]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                maxLength={200}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+          ))}
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Anything the desk should know? (optional)</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setEditing(false)}
+              disabled={submitting}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={submitting}
+              className="inline-flex items-center gap-1.5 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              Send correction
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Abstract Submissions Component
 function AbstractSubmissions({
   eventId,
@@ -1,8 +1,8 @@
 "use client"
 
-import { useState, useMemo, useEffect } from "react"
+import { useState, useMemo, useEffect, useSyncExternalStore } from "react"
 import { useParams } from "next/navigation"
-import { useQuery } from "@tanstack/react-query"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
@@ -34,9 +34,17 @@ import {
   Filter,
   X,
   ArrowRight,
+  Bookmark,
+  BookmarkCheck,
+  AlertTriangle,
+  CalendarPlus,
 } from "lucide-react"
+import { toast } from "sonner"
 import { cn } from "@/lib/utils"
 import { COMPANY_CONFIG } from "@/lib/config"
+import { describeLateness, type ProjectedSession } from "@/lib/agenda-running-order"
+import type { RunningDay } from "@/lib/agenda-running-order-inputs"
+import { clashesWith, type AgendaClash, type AgendaSession } from "@/lib/personal-agenda"
 
 type Session = {
   id: string
@@ -57,6 +65,14 @@ type Session = {
   moderators_text?: string | null
 }
 
+type PersonalAgenda = {
+  sessions: AgendaSession[]
+  clashes: AgendaClash[]
+  clashes_with?: { id: string; session_name: string; hall: string | null }[]
+  // Read-only token for the calendar feed URL.
+  feed_token: string
+}
+
 type Track = {
   id: string
   name: string
@@ -197,6 +213,18 @@ function SpeakerLine({ names }: { names: string[] }) {
   )
 }
 
+const agendaTokenKey = (eventId: string) => `agenda-token:${eventId}`
+const noSubscription = () => () => {}
+
+function readAgendaToken(eventId: string): string | null {
+  const fromUrl = new URLSearchParams(window.location.search).get("token")
+  try {
+    return fromUrl || localStorage.getItem(agendaTokenKey(eventId))
+  } catch {
+    return fromUrl
+  }
+}
+
 export default function LegacyPublicProgram() {
   const params = useParams()
   const eventId = params.eventId as string
@@ -207,6 +235,20 @@ export default function LegacyPublicProgram() {
   const [selectedSession, setSelectedSession] = useState<Session | null>(null)
   const [showFilters, setShowFilters] = useState(false)
   const [groupBy, setGroupBy] = useState<"hall" | "track">("track")
+  const [showMyAgenda, setShowMyAgenda] = useState(false)
+  const queryClient = useQueryClient()
+
+  // The delegate portal links here with ?token= (their checkin token). Kept
+  // per event in localStorage so bookmarks keep working on the next visit.
+  const agendaToken = useSyncExternalStore(noSubscription, () => readAgendaToken(eventId), () => null)
+  useEffect(() => {
+    if (!agendaToken) return
+    try {
+      localStorage.setItem(agendaTokenKey(eventId), agendaToken)
+    } catch {
+      // localStorage unavailable -- bookmarks work only while the link is open.
+    }
+  }, [eventId, agendaToken])
 
   const extractNames = (formatted: string | null | undefined) => {
     if (!formatted) return []
@@ -226,6 +268,62 @@ export default function LegacyPublicProgram() {
     refetchOnWindowFocus: false,
   })
 
+  // Today's running order, so delegates see when sessions will really start.
+  const { data: liveDay } = useQuery({
+    queryKey: ["public-program-live", eventId],
+    queryFn: async () => {
+      const res = await fetch(`/api/public/program/${eventId}/live`)
+      if (!res.ok) throw new Error("Failed to fetch live program")
+      return res.json() as Promise<RunningDay>
+    },
+    refetchInterval: 60 * 1000,
+    refetchOnWindowFocus: false,
+  })
+
+  const liveById = useMemo(() => {
+    const byId = new Map<string, ProjectedSession>()
+    liveDay?.halls.forEach((h) => h.projection.sessions.forEach((p) => byId.set(p.id, p)))
+    return byId
+  }, [liveDay])
+
+  const agendaKey = ["my-agenda", agendaToken]
+  const { data: agenda } = useQuery({
+    queryKey: agendaKey,
+    enabled: !!agendaToken,
+    queryFn: async () => {
+      const res = await fetch(`/api/my/agenda?token=${encodeURIComponent(agendaToken!)}`)
+      if (!res.ok) throw new Error("Failed to load your agenda")
+      return res.json() as Promise<PersonalAgenda>
+    },
+  })
+
+  const bookmarkMutation = useMutation({
+    mutationFn: async ({ session, add }: { session: Session; add: boolean }) => {
+      const res = await fetch("/api/my/agenda", {
+        method: add ? "POST" : "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token: agendaToken, session_id: session.id }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed to update your agenda")
+      return json as PersonalAgenda
+    },
+    onSuccess: (data, { session, add }) => {
+      queryClient.setQueryData(agendaKey, data)
+      if (!add) {
+        toast.success(`Removed "${session.session_name}" from your agenda`)
+      } else if (data.clashes_with?.length) {
+        toast.warning(`Added, but it clashes with ${data.clashes_with.map((c) => `"${c.session_name}"`).join(", ")}`)
+      } else {
+        toast.success(`Added "${session.session_name}" to your agenda`)
+      }
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const bookmarkedIds = useMemo(() => new Set((agenda?.sessions ?? []).map((s) => s.id)), [agenda])
+  const clashingIds = useMemo(() => new Set((agenda?.clashes ?? []).flatMap((c) => c.session_ids)), [agenda])
+
   const event = programData?.event
   const sessions = programData?.sessions || []
   const tracks = programData?.tracks || []
@@ -260,6 +358,7 @@ export default function LegacyPublicProgram() {
       if (/^hall\s*[a-z0-9]?$/i.test(sessionName)) return false
       if (/^(red|green|blue|yellow|main|conference)\s*hall/i.test(sessionName)) return false
       if (selectedDay && session.session_date !== selectedDay) return false
+      if (showMyAgenda && !bookmarkedIds.has(session.id)) return false
       if (selectedHalls.length > 0 && session.hall && !selectedHalls.includes(session.hall)) return false
       if (searchQuery) {
         const query = searchQuery.toLowerCase()
@@ -271,7 +370,7 @@ export default function LegacyPublicProgram() {
       }
       return true
     })
-  }, [sessions, selectedDay, selectedHalls, searchQuery])
+  }, [sessions, selectedDay, selectedHalls, searchQuery, showMyAgenda, bookmarkedIds])
 
   const sessionsByHall = useMemo(() => {
     const grouped: Record<string, Session[]> = {}
@@ -330,6 +429,35 @@ export default function LegacyPublicProgram() {
     return `${s.toLocaleDateString("en-IN", { day: "numeric", month: "short" })} – ${e.toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" })}`
   }
 
+  // Planned times, or the re-projected ones once the hall is running off plan.
+  const renderTimes = (session: Session) => {
+    const live = liveDay?.date === session.session_date ? liveById.get(session.id) : undefined
+    // An ended session shows what really happened only if the coordinator marked it.
+    const late = live && (live.state !== "ended" || live.tracked) && live.late_minutes !== 0
+    return (
+      <div className="w-[58px] sm:w-[66px]">
+        {late ? (
+          <>
+            <p className="text-xs text-slate-400 line-through">{formatTime(session.start_time)}</p>
+            <p className="text-sm font-bold text-amber-600">{formatTime(live.projected_start)}</p>
+            <p className="text-xs text-amber-500">{formatTime(live.projected_end)}</p>
+          </>
+        ) : (
+          <>
+            <p className="text-sm font-bold text-slate-900">{formatTime(session.start_time)}</p>
+            <p className="text-xs text-slate-400">{formatTime(session.end_time)}</p>
+          </>
+        )}
+        {live?.state === "live" && (
+          <span className="mt-1 inline-flex items-center gap-1 rounded-full bg-emerald-50 px-1.5 py-0.5 text-[10px] font-semibold text-emerald-700 ring-1 ring-emerald-200">
+            <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
+            Live
+          </span>
+        )}
+      </div>
+    )
+  }
+
   const toggleHall = (hall: string) =>
     setSelectedHalls((prev) => (prev.includes(hall) ? prev.filter((h) => h !== hall) : [...prev, hall]))
 
@@ -564,6 +692,19 @@ export default function LegacyPublicProgram() {
                   {selectedHalls.length > 0 && <Badge className="ml-1.5 h-5 px-1.5">{selectedHalls.length}</Badge>}
                 </Button>
               )}
+              {agendaToken && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowMyAgenda(!showMyAgenda)}
+                  className="min-h-[34px] border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+                  style={showMyAgenda ? { color: accent, borderColor: accent } : undefined}
+                >
+                  <BookmarkCheck className="mr-1 h-4 w-4" />
+                  My agenda
+                  {bookmarkedIds.size > 0 && <Badge className="ml-1.5 h-5 px-1.5">{bookmarkedIds.size}</Badge>}
+                </Button>
+              )}
             </div>
           </div>
 
@@ -611,6 +752,40 @@ export default function LegacyPublicProgram() {
           </div>
         )}
 
+        {showMyAgenda && agendaToken && (
+          <div className="mb-6 space-y-3 rounded-2xl border border-slate-100 bg-white p-4 shadow-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="mr-auto text-sm text-slate-600">
+                {bookmarkedIds.size === 0
+                  ? "Nothing bookmarked yet. Open a session to add it to your agenda."
+                  : `${bookmarkedIds.size} session${bookmarkedIds.size !== 1 ? "s" : ""} on your agenda`}
+              </p>
+              {agenda?.feed_token && (
+                <>
+                  <Button asChild variant="outline" size="sm" className="border-slate-200 text-slate-700">
+                    <a href={`/api/my/agenda/calendar?feed=${encodeURIComponent(agenda.feed_token)}`} download="my-agenda.ics">
+                      <CalendarPlus className="mr-1 h-4 w-4" />
+                      Download .ics
+                    </a>
+                  </Button>
+                  <Button asChild size="sm" style={{ backgroundColor: accent }}>
+                    <a href={`webcal://${window.location.host}/api/my/agenda/calendar?feed=${encodeURIComponent(agenda.feed_token)}`}>
+                      <Calendar className="mr-1 h-4 w-4" />
+                      Subscribe in calendar
+                    </a>
+                  </Button>
+                </>
+              )}
+            </div>
+            {(agenda?.clashes ?? []).map((clash) => (
+              <p key={clash.session_ids.join(":")} className="flex items-start gap-2 rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                {clash.message}
+              </p>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-6">
           {groupBy === "track"
             ? Object.entries(sessionsByTrack).map(([trackName, { track, sessions: trackSessions }]) => {
@@ -650,10 +825,7 @@ export default function LegacyPublicProgram() {
                           >
                             {/* time rail */}
                             <div className="flex shrink-0 gap-3">
-                              <div className="w-[58px] sm:w-[66px]">
-                                <p className="text-sm font-bold text-slate-900">{formatTime(session.start_time)}</p>
-                                <p className="text-xs text-slate-400">{formatTime(session.end_time)}</p>
-                              </div>
+                              {renderTimes(session)}
                               <span className="w-0.5 rounded-full" style={{ backgroundColor: withAlpha(accent, "40") }} />
                             </div>
 
@@ -661,6 +833,12 @@ export default function LegacyPublicProgram() {
                               <div className="flex items-start gap-2">
                                 {SessionIcon && <SessionIcon className="mt-0.5 h-4 w-4 shrink-0" style={{ color: accent }} />}
                                 <h4 className="font-semibold leading-snug text-slate-900">{session.session_name}</h4>
+                                {bookmarkedIds.has(session.id) && (
+                                  <BookmarkCheck className="mt-0.5 h-4 w-4 shrink-0" style={{ color: accent }} aria-label="On your agenda" />
+                                )}
+                                {clashingIds.has(session.id) && (
+                                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" aria-label="Clashes with another session on your agenda" />
+                                )}
                               </div>
                               <SpeakerLine names={speakers} />
                               {session.hall && (
@@ -702,16 +880,19 @@ export default function LegacyPublicProgram() {
                             className="group flex w-full items-stretch gap-4 px-5 py-4 text-left transition-colors hover:bg-slate-50"
                           >
                             <div className="flex shrink-0 gap-3">
-                              <div className="w-[58px] sm:w-[66px]">
-                                <p className="text-sm font-bold text-slate-900">{formatTime(session.start_time)}</p>
-                                <p className="text-xs text-slate-400">{formatTime(session.end_time)}</p>
-                              </div>
+                              {renderTimes(session)}
                               <span className="w-0.5 rounded-full" style={{ backgroundColor: withAlpha(accent, "40") }} />
                             </div>
                             <div className="min-w-0 flex-1">
                               <div className="flex items-start gap-2">
                                 {SessionIcon && <SessionIcon className="mt-0.5 h-4 w-4 shrink-0" style={{ color: accent }} />}
                                 <h4 className="font-semibold leading-snug text-slate-900">{session.session_name}</h4>
+                                {bookmarkedIds.has(session.id) && (
+                                  <BookmarkCheck className="mt-0.5 h-4 w-4 shrink-0" style={{ color: accent }} aria-label="On your agenda" />
+                                )}
+                                {clashingIds.has(session.id) && (
+                                  <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-500" aria-label="Clashes with another session on your agenda" />
+                                )}
                               </div>
                               <SpeakerLine names={speakers} />
                               {chairs.length > 0 && (
@@ -835,6 +1016,18 @@ export default function LegacyPublicProgram() {
                     <Clock className="mr-1 h-3.5 w-3.5" />
                     {formatTime(selectedSession.start_time)} – {formatTime(selectedSession.end_time)}
                   </Badge>
+                  {(() => {
+                    const live = liveDay?.date === selectedSession.session_date ? liveById.get(selectedSession.id) : undefined
+                    if (!live || live.state === "ended") return null
+                    return (
+                      <Badge variant="outline" className={cn("text-sm", live.late_minutes > 0 ? "border-amber-200 text-amber-700" : "border-emerald-200 text-emerald-700")}>
+                        {live.state === "live" ? "Live · " : ""}
+                        {live.late_minutes !== 0
+                          ? `${describeLateness(live.late_minutes)} · now ${formatTime(live.projected_start)} – ${formatTime(live.projected_end)}`
+                          : describeLateness(0)}
+                      </Badge>
+                    )
+                  })()}
                   {selectedSession.hall && (
                     <Badge className={cn(getHallColor(selectedSession.hall).bg, "text-white")}>
                       <MapPin className="mr-1 h-3.5 w-3.5" />
@@ -846,6 +1039,31 @@ export default function LegacyPublicProgram() {
                   )}
                 </div>
 
+                {agendaToken && (() => {
+                  const bookmarked = bookmarkedIds.has(selectedSession.id)
+                  const clashes = clashesWith(selectedSession, agenda?.sessions ?? [])
+                  return (
+                    <div className="space-y-2">
+                      <Button
+                        size="sm"
+                        variant={bookmarked ? "outline" : "default"}
+                        disabled={bookmarkMutation.isPending}
+                        onClick={() => bookmarkMutation.mutate({ session: selectedSession, add: !bookmarked })}
+                        style={bookmarked ? undefined : { backgroundColor: accent }}
+                      >
+                        {bookmarked ? <BookmarkCheck className="mr-1 h-4 w-4" /> : <Bookmark className="mr-1 h-4 w-4" />}
+                        {bookmarked ? "Remove from my agenda" : "Add to my agenda"}
+                      </Button>
+                      {clashes.length > 0 && (
+                        <p className="flex items-start gap-2 rounded-lg bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                          Runs at the same time as {clashes.map((c) => `"${c.session_name}"${c.hall ? ` (${c.hall})` : ""}`).join(", ")} on your agenda
+                        </p>
+                      )}
+                    </div>
+                  )
+                })()}
+
                 {selectedSession.description && <p className="text-slate-600">{selectedSession.description}</p>}
 
                 {selectedSession.speakers && (
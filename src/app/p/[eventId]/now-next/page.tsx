@@ -0,0 +1,125 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useSearchParams } from "next/navigation"
+import { useQuery } from "@tanstack/react-query"
+import { Loader2, MapPin, Radio, SkipForward } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { describeLateness, type ProjectedSession } from "@/lib/agenda-running-order"
+import type { HallDay, RunningDay } from "@/lib/agenda-running-order-inputs"
+
+// Now / next board for the screens outside each hall. ?hall=Hall%20A shows a
+// single hall full-screen; without it every hall is tiled for the foyer.
+// Times come from the live running order, so a hall running late shows when
+// the next session will really start, not when it was printed.
+
+const formatTime = (time: string | undefined) => {
+  if (!time) return ""
+  const [hours, minutes] = time.split(":")
+  const h = parseInt(hours)
+  return `${h % 12 || 12}:${minutes} ${h >= 12 ? "PM" : "AM"}`
+}
+
+function SessionSlot({ label, session, large }: { label: "Now" | "Next"; session: ProjectedSession | null; large: boolean }) {
+  const Icon = label === "Now" ? Radio : SkipForward
+  return (
+    <div className={cn("rounded-2xl border p-5", label === "Now" ? "border-emerald-500/30 bg-emerald-500/10" : "border-white/10 bg-white/5")}>
+      <div className="mb-2 flex items-center gap-2">
+        <Icon className={cn("h-4 w-4", label === "Now" ? "text-emerald-400" : "text-sky-400")} />
+        <span className={cn("text-xs font-bold uppercase tracking-wider", label === "Now" ? "text-emerald-400" : "text-sky-400")}>{label}</span>
+      </div>
+      {session ? (
+        <>
+          <p className={cn("font-bold leading-snug text-white", large ? "text-4xl" : "text-xl")}>{session.session_name}</p>
+          <p className={cn("mt-2 font-mono", large ? "text-2xl" : "text-base", session.late_minutes > 0 ? "text-amber-400" : "text-white/60")}>
+            {formatTime(session.projected_start)} – {formatTime(session.projected_end)}
+            {session.late_minutes > 0 && (
+              <span className="ml-3 text-sm text-white/30 line-through">{formatTime(session.planned_start)}</span>
+            )}
+          </p>
+        </>
+      ) : (
+        <p className={cn("text-white/30", large ? "text-2xl" : "text-base")}>{label === "Now" ? "Nothing on right now" : "No more sessions today"}</p>
+      )}
+    </div>
+  )
+}
+
+function HallBoard({ day, large }: { day: HallDay; large: boolean }) {
+  const { projection } = day
+  return (
+    <div className="space-y-3 rounded-3xl border border-white/10 bg-white/[0.03] p-5">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className={cn("flex items-center gap-2 font-bold text-white", large ? "text-3xl" : "text-lg")}>
+          <MapPin className={large ? "h-7 w-7" : "h-5 w-5"} />
+          {day.hall}
+        </h2>
+        <span
+          className={cn(
+            "rounded-full px-3 py-1 text-sm font-semibold",
+            projection.late_minutes > 0 ? "bg-amber-500/20 text-amber-400" : "bg-emerald-500/20 text-emerald-400"
+          )}
+        >
+          {describeLateness(projection.late_minutes)}
+        </span>
+      </div>
+      <SessionSlot label="Now" session={projection.now} large={large} />
+      <SessionSlot label="Next" session={projection.next} large={large} />
+    </div>
+  )
+}
+
+export default function NowNextBoardPage() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const eventId = params.eventId as string
+  const hall = searchParams.get("hall")
+
+  const [clock, setClock] = useState(new Date())
+  useEffect(() => {
+    const interval = setInterval(() => setClock(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["now-next-board", eventId, hall],
+    queryFn: async () => {
+      const query = hall ? `?hall=${encodeURIComponent(hall)}` : ""
+      const res = await fetch(`/api/public/program/${eventId}/live${query}`)
+      if (!res.ok) throw new Error("Failed to fetch live program")
+      return res.json() as Promise<RunningDay>
+    },
+    refetchInterval: 15 * 1000,
+  })
+
+  const large = !!hall
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0f] p-6 text-white">
+      <div className="mx-auto max-w-7xl">
+        <div className="mb-6 flex items-center justify-between">
+          <h1 className="text-2xl font-black tracking-tight">Now &amp; Next</h1>
+          <span className="font-mono text-2xl text-white/60">
+            {clock.toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit", timeZone: data?.timezone })}
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-24">
+            <Loader2 className="h-10 w-10 animate-spin text-white/40" />
+          </div>
+        ) : error || !data ? (
+          <p className="py-24 text-center text-white/40">The live programme is unavailable right now.</p>
+        ) : data.halls.length === 0 ? (
+          <p className="py-24 text-center text-2xl text-white/40">{hall ? `No sessions in ${hall} today` : "No sessions today"}</p>
+        ) : (
+          <div className={cn("grid gap-6", large ? "grid-cols-1" : "md:grid-cols-2 xl:grid-cols-3")}>
+            {data.halls.map((day) => (
+              <HallBoard key={day.hall} day={day} large={large} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
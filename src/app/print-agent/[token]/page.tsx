@@ -17,10 +17,12 @@ import {
   Zap,
   Clock,
 } from "lucide-react"
+import { PRINTER_STATE_LABELS, type PrinterState } from "@/lib/print-queue"
 
 interface StationInfo {
   id: string
   name: string
+  zone: string | null
   print_settings: any
   badge_template: any
   event: { id: string; name: string; short_name: string } | null
@@ -73,8 +75,12 @@ export default function PrintAgentPage() {
   const [currentJob, setCurrentJob] = useState<string | null>(null)
   const [testStatus, setTestStatus] = useState<{ success: boolean; message: string } | null>(null)
   const [showSettings, setShowSettings] = useState(false)
+  const [printerState, setPrinterState] = useState<PrinterState>("ready")
+  const [printerMessage, setPrinterMessage] = useState<string | null>(null)
 
   const pollingRef = useRef<NodeJS.Timeout | null>(null)
+  const busyRef = useRef(false)
+  const printerStateRef = useRef<{ state: PrinterState; message: string | null }>({ state: "ready", message: null })
   const agentIdRef = useRef(`agent-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`)
 
   // Connect to station
@@ -87,6 +93,7 @@ export default function PrintAgentPage() {
         setStation({
           id: data.id,
           name: data.name,
+          zone: data.zone || null,
           print_settings: data.print_settings,
           badge_template: data.badge_templates,
           event: data.events,
@@ -106,7 +113,24 @@ export default function PrintAgentPage() {
     connect()
   }, [token])
 
-  // Process a single queued job
+  // Reported with every poll; anything but "ready" stops this agent claiming
+  // jobs so the rest of the zone prints them instead.
+  const reportPrinterState = useCallback((state: PrinterState, message: string | null = null) => {
+    printerStateRef.current = { state, message }
+    setPrinterState(state)
+    setPrinterMessage(message)
+  }, [])
+
+  const updateJob = useCallback(async (jobId: string, update: Record<string, any>) => {
+    const res = await fetch(`/api/print-stations/queue?token=${token}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ job_id: jobId, agent_id: agentIdRef.current, ...update })
+    })
+    return { ok: res.ok, data: await res.json().catch(() => ({})) }
+  }, [token])
+
+  // Process a single claimed job
   const processJob = useCallback(async (job: QueueJob) => {
     const reg = job.registrations || job.registration_data
     const regName = reg?.attendee_name || "Unknown"
@@ -114,6 +138,13 @@ export default function PrintAgentPage() {
 
     setCurrentJob(regName)
 
+    // Renews the lease; a 409 means it ran out and another agent has the job
+    const started = await updateJob(job.id, { status: "printing" })
+    if (!started.ok) {
+      setCurrentJob(null)
+      return
+    }
+
     try {
       let zpl = job.zpl_data || null
 
@@ -132,6 +163,8 @@ export default function PrintAgentPage() {
               attendee_designation: reg?.attendee_designation,
               registration_number: reg?.registration_number,
               ticket_type: reg?.ticket_types?.name || "",
+              ticket_type_id: reg?.ticket_type_id,
+              badge_audience: job.registration_data?.badge_audience,
             },
             station: {
               id: station?.id,
@@ -191,16 +224,7 @@ export default function PrintAgentPage() {
         }
       }
 
-      // Mark as completed
-      await fetch("/api/print-stations/queue", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          job_id: job.id,
-          status: "completed",
-          agent_id: agentIdRef.current,
-        })
-      })
+      await updateJob(job.id, { status: "completed" })
 
       setPrintedJobs(prev => [{
         id: job.id,
@@ -212,17 +236,10 @@ export default function PrintAgentPage() {
 
       setJobsProcessed(prev => prev + 1)
     } catch (err: any) {
-      // Mark as failed
-      await fetch("/api/print-stations/queue", {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          job_id: job.id,
-          status: "failed",
-          error_message: err.message,
-          agent_id: agentIdRef.current,
-        })
-      })
+      // Hand the job back to the zone and stop taking new ones until the
+      // printer is fixed
+      const failed = await updateJob(job.id, { status: "failed", error_message: err.message })
+      reportPrinterState(/timed? ?out|unreachable|ECONNREFUSED|EHOSTUNREACH/i.test(err.message) ? "offline" : "error", err.message)
 
       setPrintedJobs(prev => [{
         id: job.id,
@@ -230,33 +247,53 @@ export default function PrintAgentPage() {
         regNumber,
         time: new Date().toLocaleTimeString(),
         status: "failed" as const,
-        error: err.message,
+        error: failed.data?.requeued ? `${err.message} (requeued)` : err.message,
       }, ...prev].slice(0, 50))
     }
 
     setCurrentJob(null)
-  }, [printerIp, printerPort, station])
+  }, [printerIp, printerPort, station, updateJob, reportPrinterState])
+
+  // Ask the printer itself (~HS via the server) whether it is out of paper,
+  // open, paused... Only works where the server can reach the printer; when
+  // it can't, the state from the last print outcome stands.
+  const checkPrinterStatus = useCallback(async () => {
+    if (!printerIp) return
+    try {
+      const res = await fetch("/api/print-stations/zpl-print", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ printer_ip: printerIp, printer_port: parseInt(printerPort), status_query: true })
+      })
+      const result = await res.json()
+      if (result.success && result.state) reportPrinterState(result.state, result.message || null)
+    } catch {
+      // Status is best-effort
+    }
+  }, [printerIp, printerPort, reportPrinterState])
 
   // Poll for queued jobs
   const pollQueue = useCallback(async () => {
-    if (!configured || !connected) return
+    if (!configured || !connected || busyRef.current) return
+    busyRef.current = true
 
     try {
-      const res = await fetch(
-        `/api/print-stations/queue?token=${token}&agent_id=${agentIdRef.current}`
-      )
+      const { state, message } = printerStateRef.current
+      const query = new URLSearchParams({ token, agent_id: agentIdRef.current, printer_state: state })
+      if (message) query.set("printer_message", message)
+      const res = await fetch(`/api/print-stations/queue?${query}`)
       if (!res.ok) return
 
       const data = await res.json()
 
-      if (data.jobs && data.jobs.length > 0) {
-        // Process jobs sequentially
-        for (const job of data.jobs) {
-          await processJob(job)
-        }
+      // One job per poll, so idle agents in the zone share the queue
+      for (const job of data.jobs || []) {
+        await processJob(job)
       }
     } catch (err) {
       console.error("Poll error:", err)
+    } finally {
+      busyRef.current = false
     }
   }, [configured, connected, token, processJob])
 
@@ -286,6 +323,13 @@ export default function PrintAgentPage() {
     return () => stopPolling()
   }, [configured, connected, startPolling, stopPolling])
 
+  useEffect(() => {
+    if (!configured || !connected) return
+    checkPrinterStatus()
+    const interval = setInterval(checkPrinterStatus, 15000)
+    return () => clearInterval(interval)
+  }, [configured, connected, checkPrinterStatus])
+
   // Test printer connection
   const testPrinter = async () => {
     setTestStatus(null)
@@ -491,7 +535,9 @@ export default function PrintAgentPage() {
                 <Printer className="w-5 h-5 text-gray-400" />
                 <p className="text-lg font-mono text-gray-300">{printerIp}</p>
               </div>
-              <p className="text-sm text-gray-400 mt-1">Zebra ZD230</p>
+              <p className={`text-sm mt-1 ${printerState === "ready" ? "text-gray-400" : "text-amber-400"}`}>
+                {PRINTER_STATE_LABELS[printerState]}{station.zone ? ` · Zone ${station.zone}` : ""}
+              </p>
             </div>
             <div className="bg-gray-900 border border-gray-800 rounded-xl p-5 text-center">
               {polling ? (
@@ -516,6 +562,26 @@ export default function PrintAgentPage() {
             </div>
           </div>
 
+          {/* Printer not ready: this agent has stopped taking jobs */}
+          {printerState !== "ready" && (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded-xl p-5 flex items-center gap-4">
+              <AlertCircle className="w-8 h-8 text-amber-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-amber-400 font-semibold text-lg">Printer: {PRINTER_STATE_LABELS[printerState]}</p>
+                <p className="text-amber-300/80 text-sm truncate">
+                  {printerMessage || "Not taking new jobs."}
+                  {station.zone ? " Other printers in the zone will take over." : ""}
+                </p>
+              </div>
+              <button
+                onClick={() => reportPrinterState("ready")}
+                className="px-4 py-2 bg-amber-500 text-gray-950 rounded-lg font-semibold hover:bg-amber-400 flex-shrink-0"
+              >
+                Printer fixed — resume
+              </button>
+            </div>
+          )}
+
           {/* Current Job */}
           {currentJob && (
             <div className="bg-blue-600/10 border border-blue-500/30 rounded-xl p-5 flex items-center gap-4">
@@ -44,6 +44,7 @@ import {
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Input } from "@/components/ui/input"
+import { PRINT_JOB_STATUS_LABELS, REPRINT_REASONS, isPrintJobStatus, reprintReasonLabel, type ReprintReason } from "@/lib/print-queue"
 import { replacePlaceholders, renderElementToHtml, generatePrintContent, getPaperDimensions, getBadgeRotationDegrees, waitForRenderReady } from "@/lib/badge-render"
 
 interface PrintStation {
@@ -105,6 +106,7 @@ interface PrintJob {
   print_number: number
   status: string
   printed_at: string
+  reprint_reason: string | null
   registrations: {
     registration_number: string
     attendee_name: string
@@ -113,6 +115,15 @@ interface PrintJob {
 
 type ScanMode = "camera" | "manual"
 
+type PrintRequest = string | { input: string; reprint_reason: ReprintReason; reprint_note?: string }
+
+interface ReprintPrompt {
+  input: string
+  registration: Registration
+  print_number: number
+  last_printed_at?: string
+}
+
 export default function PrintStationKioskPageWrapper() {
   return (
     <Suspense fallback={<div className="min-h-screen flex items-center justify-center"><div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full" /></div>}>
@@ -140,6 +151,7 @@ function PrintStationKioskPage() {
   const [soundEnabled, setSoundEnabled] = useState(true)
   const [_isFullscreen, setIsFullscreen] = useState(false)
   const [reprintInfo, setReprintInfo] = useState<{ is_reprint: boolean; print_number: number } | null>(null)
+  const [reprintPrompt, setReprintPrompt] = useState<ReprintPrompt | null>(null)
   const [zplPrinting, setZplPrinting] = useState(false)
   const [zplStatus, setZplStatus] = useState<{ success: boolean; message: string } | null>(null)
   const [cameraActive, setCameraActive] = useState(false)
@@ -214,7 +226,9 @@ function PrintStationKioskPage() {
 
   // Print mutation
   const printMutation = useMutation({
-    mutationFn: async (input: string) => {
+    mutationFn: async (request: PrintRequest) => {
+      const input = typeof request === "string" ? request : request.input
+      const reprint = typeof request === "string" ? null : request
       const printerType = station?.print_settings?.printer_type || "browser"
       const hasDirectPrinter = !!station?.print_settings?.printer_ip && printerType !== "thermal"
 
@@ -234,6 +248,7 @@ function PrintStationKioskPage() {
           token,
           ...(isFullRegNumber ? { registration_number: input } : { search_query: input }),
           queue: false,
+          ...(reprint ? { reprint_reason: reprint.reprint_reason, reprint_note: reprint.reprint_note } : {}),
           device_info: {
             userAgent: navigator.userAgent,
             timestamp: new Date().toISOString()
@@ -243,6 +258,11 @@ function PrintStationKioskPage() {
 
       const data = await res.json()
 
+      // Already printed: ask the operator why before printing again
+      if (res.status === 409 && data.reprint_reason_required && !reprint) {
+        return { reprint_reason_required: true, input, ...data }
+      }
+
       if (!res.ok) {
         throw new Error(data.error || "Print failed")
       }
@@ -254,11 +274,11 @@ function PrintStationKioskPage() {
 
       // If we have a direct printer, generate ZPL and send it
       if (hasDirectPrinter) {
-        const { generateZPL } = await import("@/lib/zpl-generator")
+        const { generateZPLWithImages } = await import("@/lib/zpl-generator")
         const { sendZPLToZebra } = await import("@/lib/zebra-printer")
 
         const reg = data.registration
-        const zpl = generateZPL(
+        const zpl = await generateZPLWithImages(
           {
             attendee_name: reg.attendee_name,
             attendee_email: reg.attendee_email,
@@ -283,11 +303,11 @@ function PrintStationKioskPage() {
 
         if (!printResult.success) {
           // Fallback: queue the job with pre-generated ZPL for print agent
-          await fetch("/api/print-stations/queue", {
+          await fetch(`/api/print-stations/queue?token=${token}`, {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
             body: JSON.stringify({
-              job_id: data.job_id,
+              job_id: data.print_job?.id,
               status: "queued",
               zpl_data: zpl,
             })
@@ -301,6 +321,18 @@ function PrintStationKioskPage() {
       return data
     },
     onSuccess: async (data) => {
+      if (data.reprint_reason_required) {
+        setSearchResults(null)
+        setIsPrinting(false)
+        setReprintPrompt({
+          input: data.registration?.registration_number || data.input,
+          registration: data.registration,
+          print_number: data.print_number,
+          last_printed_at: data.last_printed_at,
+        })
+        return
+      }
+
       // Handle multiple search results - show list for user to select
       if (data.multiple_results) {
         setSearchResults(data.results)
@@ -403,8 +435,8 @@ function PrintStationKioskPage() {
         const fourBarcode = proxyPrinters.find(p => /4BARCODE|4B-/i.test(p.name))
         if (fourBarcode) {
           try {
-            const { generateZPL } = await import("@/lib/zpl-generator")
-            const zpl = generateZPL(
+            const { generateZPLWithImages } = await import("@/lib/zpl-generator")
+            const zpl = await generateZPLWithImages(
               data.registration,
               {
                 id: station?.id,
@@ -437,8 +469,8 @@ function PrintStationKioskPage() {
         // Otherwise /api/local-print falls back to a real Zebra over raw ZPL.
         if (!proxyOnline) {
           try {
-            const { generateZPL } = await import("@/lib/zpl-generator")
-            const zpl = generateZPL(
+            const { generateZPLWithImages } = await import("@/lib/zpl-generator")
+            const zpl = await generateZPLWithImages(
               data.registration,
               {
                 id: station?.id,
@@ -1026,11 +1058,11 @@ function PrintStationKioskPage() {
     setZplStatus(null)
 
     try {
-      const { generateZPL } = await import("@/lib/zpl-generator")
+      const { generateZPLWithImages } = await import("@/lib/zpl-generator")
       const { sendZPLToZebra } = await import("@/lib/zebra-printer")
 
       const reg = data.registration
-      const zpl = generateZPL(
+      const zpl = await generateZPLWithImages(
         {
           attendee_name: reg.attendee_name,
           attendee_email: reg.attendee_email,
@@ -1352,6 +1384,7 @@ function PrintStationKioskPage() {
   const resetScan = () => {
     setScannedRegistration(null)
     setSearchResults(null)
+    setReprintPrompt(null)
     setError(null)
     setPrintError(null)
     setPrintSuccess(false)
@@ -2051,8 +2084,19 @@ function PrintStationKioskPage() {
         <div className={`flex-1 p-4 flex flex-col ${showHistory ? "max-w-2xl" : ""}`}>
           {/* Scan Input Section */}
           <div className="flex-1 flex items-center justify-center">
-            {/* Search Results - Multiple Matches */}
-            {searchResults && searchResults.length > 0 ? (
+            {reprintPrompt ? (
+              <ReprintReasonPicker
+                prompt={reprintPrompt}
+                pending={printMutation.isPending}
+                onCancel={resetScan}
+                onConfirm={(reason, note) => {
+                  setReprintPrompt(null)
+                  setIsPrinting(true)
+                  printMutation.mutate({ input: reprintPrompt.input, reprint_reason: reason, reprint_note: note })
+                }}
+              />
+            ) : searchResults && searchResults.length > 0 ? (
+              /* Search Results - Multiple Matches */
               <div className="w-full max-w-lg">
                 <div className="mb-4 flex items-center justify-between">
                   <h2 className="text-lg font-semibold">Select Attendee ({searchResults.length} found)</h2>
@@ -2639,6 +2683,12 @@ function PrintStationKioskPage() {
                       <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
                         <Clock className="w-3 h-3" />
                         {new Date(job.printed_at).toLocaleTimeString()}
+                        {job.status !== "completed" && isPrintJobStatus(job.status) && (
+                          <span className={job.status === "failed" ? "text-destructive" : ""}>
+                            · {PRINT_JOB_STATUS_LABELS[job.status]}
+                          </span>
+                        )}
+                        {job.reprint_reason && <span>· {reprintReasonLabel(job.reprint_reason)}</span>}
                       </div>
                     </div>
                   ))}
@@ -2727,3 +2777,72 @@ function PrintStationKioskPage() {
     </div>
   )
 }
+
+function ReprintReasonPicker({
+  prompt,
+  pending,
+  onCancel,
+  onConfirm,
+}: {
+  prompt: ReprintPrompt
+  pending: boolean
+  onCancel: () => void
+  onConfirm: (reason: ReprintReason, note: string) => void
+}) {
+  const [reason, setReason] = useState<ReprintReason | null>(null)
+  const [note, setNote] = useState("")
+  const canConfirm = !!reason && (reason !== "other" || note.trim().length > 0)
+
+  return (
+    <div className="w-full max-w-lg">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">Reprint #{prompt.print_number}</h2>
+          <p className="text-sm text-muted-foreground">
+            {prompt.registration?.attendee_name} · {prompt.registration?.registration_number}
+            {prompt.last_printed_at && ` · last printed ${new Date(prompt.last_printed_at).toLocaleTimeString()}`}
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-sm text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </button>
+      </div>
+      <p className="text-sm font-medium mb-2">Why is this badge being printed again?</p>
+      <div className="grid grid-cols-2 gap-2">
+        {REPRINT_REASONS.map((r) => (
+          <button
+            key={r.value}
+            onClick={() => setReason(r.value)}
+            className={`p-3 rounded-xl border text-left text-sm font-medium transition-all ${
+              reason === r.value
+                ? "border-purple-500 bg-purple-500/10"
+                : "border-border bg-card hover:bg-muted/50"
+            }`}
+          >
+            {r.label}
+          </button>
+        ))}
+      </div>
+      {reason && (
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={reason === "other" ? "Describe the reason (required)" : "Note (optional)"}
+          className="mt-3"
+          autoFocus
+        />
+      )}
+      <button
+        onClick={() => reason && onConfirm(reason, note.trim())}
+        disabled={!canConfirm || pending}
+        className="mt-4 w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-600 text-white rounded-xl font-medium hover:bg-purple-700 disabled:opacity-50"
+      >
+        {pending ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+        Reprint badge
+      </button>
+    </div>
+  )
+}
@@ -424,11 +424,39 @@ export default function CheckoutPage() {
     return method ? `${baseUrl}&method=${method}` : baseUrl
   }
 
+  // Automatic discount rules (early bird, group, member, bundle) plus the
+  // applied code, priced server-side the same way create-order charges.
+  // Member pricing is only asked for once the member lookup has matched.
+  const pricingEmail = memberData ? formData.email : ""
+  const { data: pricing } = useQuery({
+    queryKey: ["checkout-pricing", event?.id, checkoutData?.selection, checkoutData?.addonsSelection, pricingEmail, discountApplied?.code],
+    queryFn: async () => {
+      const res = await fetch("/api/discounts/price", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_id: event?.id,
+          tickets: selectedTicketsDetails.map((t) => ({ id: t?.id, quantity: t?.quantity })),
+          addons: checkoutData?.addonsSelection,
+          code: discountApplied?.code,
+          email: pricingEmail || undefined,
+        }),
+      })
+      if (!res.ok) return null
+      return await res.json() as {
+        discount_total: number
+        applied: Array<{ source: "rule" | "code"; id: string; name: string; amount: number }>
+        hints: Array<{ name: string; reason: string }>
+      }
+    },
+    enabled: !!event?.id && selectedTicketsDetails.length > 0,
+  })
+
   // Calculate totals including addons with GST
   const totals = useMemo(() => {
     const subtotal = selectedTicketsDetails.reduce((acc, t) => acc + (t?.subtotal || 0), 0)
     const tax = selectedTicketsDetails.reduce((acc, t) => acc + (t?.tax || 0), 0)
-    const discount = discountApplied?.amount || 0
+    const discount = pricing ? pricing.discount_total : (discountApplied?.amount || 0)
     const addonsTotal = checkoutData?.addonsSelection?.reduce((acc, a) => acc + a.totalPrice, 0) || 0
 
     // Get tax percentage from first ticket (default 18% only when truly unset —
@@ -445,7 +473,7 @@ export default function CheckoutPage() {
       total: Math.max(0, subtotal + tax + addonsTotal + addonsTax - discount),
       currency: selectedTicketsDetails[0]?.currency || "INR",
     }
-  }, [selectedTicketsDetails, discountApplied, checkoutData?.addonsSelection])
+  }, [selectedTicketsDetails, discountApplied, pricing, checkoutData?.addonsSelection])
 
   const handleInputChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>
@@ -587,28 +615,30 @@ export default function CheckoutPage() {
     setDiscountError("")
 
     try {
-      const response = await fetch("/api/discounts/validate", {
+      const response = await fetch("/api/discounts/price", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           code: discountCode,
           event_id: event?.id,
-          ticket_type_id: selectedTicketsDetails[0]?.id,
-          order_amount: totals.subtotal + totals.tax,
+          tickets: selectedTicketsDetails.map((t) => ({ id: t?.id, quantity: t?.quantity })),
+          addons: checkoutData?.addonsSelection,
+          email: pricingEmail || undefined,
         }),
       })
 
       const data = await response.json()
+      const codeLine = data.applied?.find((a: { source: string }) => a.source === "code")
 
-      if (data.valid) {
+      if (response.ok && codeLine) {
         setDiscountApplied({
-          id: data.discount.id,
-          code: data.discount.code,
-          amount: data.discount.calculated_discount,
+          id: codeLine.id,
+          code: codeLine.name,
+          amount: codeLine.amount,
         })
         setDiscountError("")
       } else {
-        setDiscountError(data.error || "Invalid discount code")
+        setDiscountError(data.code_error || data.error || "Invalid discount code")
         setDiscountApplied(null)
       }
     } catch (_err) {
@@ -1541,12 +1571,24 @@ export default function CheckoutPage() {
                       </div>
                     </>
                   )}
-                  {totals.discount > 0 && (
+                  {pricing?.applied.length ? (
+                    pricing.applied.map((line) => (
+                      <div key={`${line.source}-${line.id}`} className="flex justify-between text-sm">
+                        <span className="text-green-600">{line.source === "code" ? `Code ${line.name}` : line.name}</span>
+                        <span className="text-green-600">-{getCurrencySymbol(totals.currency)}{line.amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
+                      </div>
+                    ))
+                  ) : totals.discount > 0 && (
                     <div className="flex justify-between text-sm">
                       <span className="text-green-600">Discount</span>
                       <span className="text-green-600">-{getCurrencySymbol(totals.currency)}{totals.discount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
                     </div>
                   )}
+                  {pricing?.hints.map((hint) => (
+                    <p key={hint.name} className="text-xs text-gray-500">
+                      {hint.name}: {hint.reason}
+                    </p>
+                  ))}
                   <div className="flex justify-between text-lg font-bold pt-4 border-t border-gray-200">
                     <span className="text-gray-900">Total</span>
                     <span className="text-emerald-600">{getCurrencySymbol(totals.currency)}{totals.total.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
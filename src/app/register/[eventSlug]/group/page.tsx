@@ -75,6 +75,7 @@ export default function GroupRegistrationPage() {
   const [isAddingAttendee, setIsAddingAttendee] = useState(false)
   const [editingAttendee, setEditingAttendee] = useState<AttendeeData | null>(null)
   const [attendees, setAttendees] = useState<AttendeeData[]>([])
+  const [buyerIsMember, setBuyerIsMember] = useState(false)
 
   const router = useRouter()
   const params = useParams()
@@ -162,6 +163,37 @@ export default function GroupRegistrationPage() {
     return attendee.ticketType.price + tax
   }
 
+  // Automatic discount rules (group tiers count every attendee) plus the
+  // applied code, priced server-side the same way the group order is charged
+  const pricingTickets = useMemo(() => {
+    const counts = new Map<string, number>()
+    attendees.forEach((att) => counts.set(att.ticketType.id, (counts.get(att.ticketType.id) || 0) + 1))
+    return [...counts].map(([id, quantity]) => ({ id, quantity }))
+  }, [attendees])
+  const pricingEmail = buyerIsMember ? buyerData.email : ""
+  const { data: pricing } = useQuery({
+    queryKey: ["group-pricing", event?.id, pricingTickets, pricingEmail, discountApplied?.code],
+    queryFn: async () => {
+      const res = await fetch("/api/discounts/price", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_id: event?.id,
+          tickets: pricingTickets,
+          code: discountApplied?.code,
+          email: pricingEmail || undefined,
+        }),
+      })
+      if (!res.ok) return null
+      return await res.json() as {
+        discount_total: number
+        applied: Array<{ source: "rule" | "code"; id: string; name: string; amount: number }>
+        hints: Array<{ name: string; reason: string }>
+      }
+    },
+    enabled: !!event?.id && pricingTickets.length > 0,
+  })
+
   // Calculate grand total
   const totals = useMemo(() => {
     let subtotal = 0
@@ -172,7 +204,7 @@ export default function GroupRegistrationPage() {
       tax += (att.ticketType.price * att.ticketType.tax_percentage) / 100
     })
 
-    const discount = discountApplied?.amount || 0
+    const discount = pricing ? pricing.discount_total : (discountApplied?.amount || 0)
     return {
       subtotal,
       tax,
@@ -180,7 +212,7 @@ export default function GroupRegistrationPage() {
       total: Math.max(0, subtotal + tax - discount),
       count: attendees.length,
     }
-  }, [attendees, discountApplied])
+  }, [attendees, discountApplied, pricing])
 
   // Add attendee
   const handleAddAttendee = () => {
@@ -262,7 +294,10 @@ export default function GroupRegistrationPage() {
           phone: m.phone || prev.phone,
           institution: m.institution || prev.institution,
         }))
+        setBuyerIsMember(true)
         toast.success(`${COMPANY_CONFIG.name} member found! Buyer details auto-filled.`)
+      } else {
+        setBuyerIsMember(false)
       }
     } catch (err) {
       console.error("Error looking up buyer member:", err)
@@ -309,28 +344,30 @@ export default function GroupRegistrationPage() {
     setDiscountError("")
 
     try {
-      const response = await fetch("/api/discounts/validate", {
+      const response = await fetch("/api/discounts/price", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           code: discountCode,
           event_id: event?.id,
-          order_amount: totals.subtotal + totals.tax,
+          tickets: pricingTickets,
+          email: pricingEmail || undefined,
         }),
       })
 
       const data = await response.json()
+      const codeLine = data.applied?.find((a: { source: string }) => a.source === "code")
 
-      if (data.valid) {
+      if (response.ok && codeLine) {
         setDiscountApplied({
-          id: data.discount.id,
-          code: data.discount.code,
-          amount: data.discount.calculated_discount,
+          id: codeLine.id,
+          code: codeLine.name,
+          amount: codeLine.amount,
         })
         setDiscountError("")
         toast.success("Discount applied!")
       } else {
-        setDiscountError(data.error || "Invalid discount code")
+        setDiscountError(data.code_error || data.error || "Invalid discount code")
         setDiscountApplied(null)
       }
     } catch (_err) {
@@ -811,12 +848,24 @@ export default function GroupRegistrationPage() {
                           ₹{totals.tax.toLocaleString("en-IN", { maximumFractionDigits: 0 })}
                         </span>
                       </div>
-                      {totals.discount > 0 && (
+                      {pricing?.applied.length ? (
+                        pricing.applied.map((line) => (
+                          <div key={`${line.source}-${line.id}`} className="flex justify-between text-sm">
+                            <span className="text-green-600">{line.source === "code" ? `Code ${line.name}` : line.name}</span>
+                            <span className="text-green-600">-₹{line.amount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
+                          </div>
+                        ))
+                      ) : totals.discount > 0 && (
                         <div className="flex justify-between text-sm">
                           <span className="text-green-600">Discount</span>
                           <span className="text-green-600">-₹{totals.discount.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
                         </div>
                       )}
+                      {pricing?.hints.map((hint) => (
+                        <p key={hint.name} className="text-xs text-gray-500">
+                          {hint.name}: {hint.reason}
+                        </p>
+                      ))}
                       <div className="flex justify-between text-lg font-bold pt-4 border-t border-gray-200">
                         <span className="text-gray-900">Grand Total</span>
                         <span className="text-emerald-600">₹{totals.total.toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
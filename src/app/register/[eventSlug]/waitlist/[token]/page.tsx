@@ -0,0 +1,139 @@
+"use client"
+
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Button } from "@/components/ui/button"
+import { CheckCircle, Clock, Loader2, Ticket, XCircle } from "lucide-react"
+import { toast } from "sonner"
+
+type OfferView = {
+  status: "active" | "claimed" | "expired" | "declined" | "cancelled"
+  name: string
+  email: string
+  event_name: string
+  event_slug: string
+  ticket_type_id: string | null
+  ticket_name: string
+  expires_at: string
+}
+
+const CLOSED_COPY: Record<Exclude<OfferView["status"], "active">, { title: string; body: string }> = {
+  claimed: { title: "Spot claimed", body: "You're registered. Check your email for the confirmation." },
+  expired: { title: "This offer has expired", body: "The hold ran out and the spot has gone to the next person in line." },
+  declined: { title: "Spot passed on", body: "Thanks for letting us know. The spot has gone to the next person in line." },
+  cancelled: { title: "Offer withdrawn", body: "This offer is no longer available." },
+}
+
+export default function WaitlistOfferPage() {
+  const params = useParams()
+  const token = params.token as string
+  const queryClient = useQueryClient()
+
+  const { data: offer, isLoading } = useQuery({
+    queryKey: ["waitlist-offer", token],
+    queryFn: async () => {
+      const res = await fetch(`/api/waitlist/offers/${token}`)
+      if (res.status === 404) return null
+      if (!res.ok) throw new Error("Failed to load offer")
+      return res.json() as Promise<OfferView>
+    },
+    retry: false,
+  })
+
+  const declineMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch(`/api/waitlist/offers/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "decline" }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || "Failed to pass on the spot")
+      return data
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["waitlist-offer", token] }),
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="h-8 w-8 animate-spin text-gray-400" />
+      </div>
+    )
+  }
+
+  if (!offer) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="text-center max-w-md bg-white rounded-lg shadow-lg p-8">
+          <XCircle className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold mb-2">Offer not found</h2>
+          <p className="text-gray-600">This link is invalid. Please check the link in your email or WhatsApp message.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const expiry = new Date(offer.expires_at).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+  const registerHref = offer.ticket_type_id
+    ? `/register/${offer.event_slug}?ticket=${offer.ticket_type_id}`
+    : `/register/${offer.event_slug}`
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
+        {offer.status === "active" ? (
+          <>
+            <div className="h-16 w-16 rounded-full bg-violet-100 flex items-center justify-center mx-auto mb-4">
+              <Ticket className="h-8 w-8 text-violet-600" />
+            </div>
+            <h1 className="text-xl font-semibold mb-2">A spot is being held for you</h1>
+            <p className="text-gray-600 mb-4">
+              Hi {offer.name}, a <strong>{offer.ticket_name}</strong> spot at{" "}
+              <strong>{offer.event_name}</strong> is reserved in your name.
+            </p>
+            <p className="inline-flex items-center gap-2 text-sm bg-amber-50 text-amber-800 rounded px-3 py-2 mb-4">
+              <Clock className="h-4 w-4" />
+              Held until {expiry}
+            </p>
+            <p className="text-sm text-gray-500 mb-6">
+              Register with <strong>{offer.email}</strong> so the held spot is used for you.
+            </p>
+            <div className="flex flex-col gap-3">
+              <Button asChild size="lg">
+                <Link href={registerHref}>Claim My Spot</Link>
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => declineMutation.mutate()}
+                disabled={declineMutation.isPending}
+              >
+                {declineMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                I can&apos;t make it, pass it on
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="h-16 w-16 rounded-full bg-gray-100 flex items-center justify-center mx-auto mb-4">
+              {offer.status === "claimed" ? (
+                <CheckCircle className="h-8 w-8 text-green-600" />
+              ) : (
+                <XCircle className="h-8 w-8 text-gray-500" />
+              )}
+            </div>
+            <h1 className="text-xl font-semibold mb-2">{CLOSED_COPY[offer.status].title}</h1>
+            <p className="text-gray-600">{CLOSED_COPY[offer.status].body}</p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,17 +3,22 @@
 import { BADGE_SIZES, type BadgeTemplate } from "@/lib/badge-template-types"
 import { BadgeElementView, type BadgeRenderMode } from "./badge-element-view"
 import type { BadgeRegistrationLike, BadgeEventLike } from "@/lib/badge-placeholders"
+import { badgeAudienceFromRegistration, resolveBadgeElements, type BadgeAudienceSource } from "@/lib/badge-conditions"
 
 export interface BadgeCanvasProps {
   template: BadgeTemplate
   mode: BadgeRenderMode
-  registration?: BadgeRegistrationLike
+  registration?: BadgeRegistrationLike & BadgeAudienceSource
   event?: BadgeEventLike
   scale?: number
 }
 
 export function BadgeCanvas({ template, mode, registration, event, scale = 1 }: BadgeCanvasProps) {
   const size = BADGE_SIZES[template.size] || BADGE_SIZES["4x3"]
+  // Conditions only apply to a real attendee; the designer's other modes show every element
+  const elements = mode === "live" && registration
+    ? resolveBadgeElements(template.elements, badgeAudienceFromRegistration(registration))
+    : template.elements
   return (
     <div className="relative" style={{
       width: size.width * scale,
@@ -23,7 +28,7 @@ export function BadgeCanvas({ template, mode, registration, event, scale = 1 }:
       {template.backgroundImageUrl && (
         <img src={template.backgroundImageUrl} alt="" className="absolute inset-0 w-full h-full object-cover pointer-events-none" style={{ zIndex: 0 }} />
       )}
-      {template.elements.slice().sort((a, b) => a.zIndex - b.zIndex).map((element) => {
+      {elements.slice().sort((a, b) => a.zIndex - b.zIndex).map((element) => {
         const rotation = element.rotation || 0
         return (
           <div key={element.id} className="absolute" style={{
@@ -0,0 +1,223 @@
+"use client"
+
+import { useMemo } from "react"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Calculator, CheckCircle2, CircleSlash } from "lucide-react"
+import {
+  priceCart,
+  type CartLine,
+  type DiscountCodeRow,
+  type DiscountRule,
+} from "@/lib/discount-rules"
+
+export interface PricedItem {
+  id: string
+  name: string
+  price: number
+}
+
+export interface SampleCart {
+  tickets: Record<string, number>
+  addons: Record<string, number>
+  isMember: boolean
+  asOf: string // datetime-local value; empty means now
+  codeId: string // "" for no code
+}
+
+export const emptySampleCart: SampleCart = {
+  tickets: {},
+  addons: {},
+  isMember: false,
+  asOf: "",
+  codeId: "",
+}
+
+export function sampleCartLines(sample: SampleCart, tickets: PricedItem[], addons: PricedItem[]): CartLine[] {
+  const lines: CartLine[] = []
+  for (const t of tickets) {
+    const quantity = sample.tickets[t.id] || 0
+    if (quantity > 0) lines.push({ kind: "ticket", id: t.id, name: t.name, unit_price: Number(t.price), quantity })
+  }
+  for (const a of addons) {
+    const quantity = sample.addons[a.id] || 0
+    if (quantity > 0) lines.push({ kind: "addon", id: a.id, name: a.name, unit_price: Number(a.price), quantity })
+  }
+  return lines
+}
+
+export function sampleCartContext(sample: SampleCart) {
+  const asOf = sample.asOf ? new Date(sample.asOf) : undefined
+  return {
+    now: asOf && !Number.isNaN(asOf.getTime()) ? asOf : undefined,
+    isMember: sample.isMember,
+  }
+}
+
+const rupees = (n: number) => `₹${n.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`
+
+interface DiscountPreviewProps {
+  sample: SampleCart
+  onChange: (sample: SampleCart) => void
+  tickets: PricedItem[]
+  addons: PricedItem[]
+  rules: DiscountRule[]
+  codes: DiscountCodeRow[]
+}
+
+/**
+ * Prices a sample cart with the same engine checkout uses, and says for every
+ * rule and code whether it applied and why not.
+ */
+export function DiscountPreview({ sample, onChange, tickets, addons, rules, codes }: DiscountPreviewProps) {
+  const cart = useMemo(() => sampleCartLines(sample, tickets, addons), [sample, tickets, addons])
+  const code = codes.find((c) => c.id === sample.codeId) || null
+  const result = useMemo(
+    () => priceCart(cart, rules, code, sampleCartContext(sample)),
+    [cart, rules, code, sample]
+  )
+
+  const setQuantity = (kind: "tickets" | "addons", id: string, value: string) => {
+    const quantity = Math.max(0, Math.floor(Number(value) || 0))
+    onChange({ ...sample, [kind]: { ...sample[kind], [id]: quantity } })
+  }
+
+  return (
+    <div className="border rounded-lg p-4 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Preview
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Build a sample cart to see which discounts apply and what the attendee would pay.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-3">
+          <div className="space-y-2">
+            {tickets.map((t) => (
+              <div key={t.id} className="flex items-center justify-between gap-3">
+                <span className="text-sm truncate">
+                  {t.name} <span className="text-xs text-muted-foreground">({rupees(Number(t.price))})</span>
+                </span>
+                <Input
+                  type="number"
+                  min="0"
+                  value={sample.tickets[t.id] || ""}
+                  onChange={(e) => setQuantity("tickets", t.id, e.target.value)}
+                  placeholder="0"
+                  className="w-20 h-8"
+                />
+              </div>
+            ))}
+            {addons.map((a) => (
+              <div key={a.id} className="flex items-center justify-between gap-3">
+                <span className="text-sm truncate">
+                  <Badge variant="outline" className="mr-1">Add-on</Badge>
+                  {a.name} <span className="text-xs text-muted-foreground">({rupees(Number(a.price))})</span>
+                </span>
+                <Input
+                  type="number"
+                  min="0"
+                  value={sample.addons[a.id] || ""}
+                  onChange={(e) => setQuantity("addons", a.id, e.target.value)}
+                  placeholder="0"
+                  className="w-20 h-8"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-medium">Booking date</label>
+              <Input
+                type="datetime-local"
+                value={sample.asOf}
+                onChange={(e) => onChange({ ...sample, asOf: e.target.value })}
+                className="mt-1 h-8"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium">Discount code</label>
+              <Select
+                value={sample.codeId || "none"}
+                onValueChange={(v) => onChange({ ...sample, codeId: v === "none" ? "" : v })}
+              >
+                <SelectTrigger className="mt-1 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No code</SelectItem>
+                  {codes.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <label className="flex items-center justify-between gap-3 text-sm">
+            AMASI member
+            <Switch
+              checked={sample.isMember}
+              onCheckedChange={(v) => onChange({ ...sample, isMember: v })}
+            />
+          </label>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          {cart.length === 0 ? (
+            <p className="text-muted-foreground">Add a ticket to the sample cart.</p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal (before GST)</span>
+                  <span>{rupees(result.subtotal)}</span>
+                </div>
+                {result.applied.map((a) => (
+                  <div key={`${a.source}-${a.id}`} className="flex justify-between text-green-600">
+                    <span className="flex items-center gap-1">
+                      <CheckCircle2 className="h-3.5 w-3.5" />
+                      {a.source === "code" ? `Code ${a.name}` : a.name}
+                    </span>
+                    <span>-{rupees(a.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-semibold border-t pt-1">
+                  <span>Discounted subtotal</span>
+                  <span>{rupees(result.subtotal - result.discount_total)}</span>
+                </div>
+              </div>
+
+              {result.skipped.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground">Not applied</p>
+                  {result.skipped.map((s) => (
+                    <div key={`${s.source}-${s.id}`} className="flex items-start gap-1 text-xs text-muted-foreground">
+                      <CircleSlash className="h-3.5 w-3.5 mt-px shrink-0" />
+                      <span>
+                        <span className="font-medium text-foreground">{s.name}</span>: {s.reason}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,677 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+import { useConfirm } from "@/components/confirm-dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Edit2, Trash2, Loader2, Sparkles, X } from "lucide-react"
+import { format } from "date-fns"
+import { cn } from "@/lib/utils"
+import {
+  DISCOUNT_RULE_TYPES,
+  evaluateRule,
+  validateDiscountRule,
+  type DiscountRule,
+  type DiscountRuleType,
+  type DiscountStacking,
+  type DiscountTier,
+  type DiscountValueType,
+} from "@/lib/discount-rules"
+import {
+  sampleCartContext,
+  sampleCartLines,
+  type PricedItem,
+  type SampleCart,
+} from "./discount-preview"
+
+export interface DiscountRuleRow extends DiscountRule {
+  event_id: string
+  description: string | null
+  created_at: string
+}
+
+interface TierState {
+  ends_at: string
+  min_quantity: string
+  discount_value: string
+}
+
+interface RuleFormState {
+  name: string
+  description: string
+  rule_type: DiscountRuleType
+  discount_type: DiscountValueType
+  discount_value: string
+  max_discount_amount: string
+  tiers: TierState[]
+  applies_to_ticket_ids: string[]
+  bundle_ticket_ids: string[]
+  bundle_addon_ids: string[]
+  stacking: DiscountStacking
+  priority: string
+  valid_until: string
+  is_active: boolean
+}
+
+const emptyTier: TierState = { ends_at: "", min_quantity: "", discount_value: "" }
+
+const emptyForm: RuleFormState = {
+  name: "",
+  description: "",
+  rule_type: "early_bird",
+  discount_type: "percentage",
+  discount_value: "",
+  max_discount_amount: "",
+  tiers: [{ ...emptyTier }],
+  applies_to_ticket_ids: [],
+  bundle_ticket_ids: [],
+  bundle_addon_ids: [],
+  stacking: "combinable",
+  priority: "0",
+  valid_until: "",
+  is_active: true,
+}
+
+function toLocalDatetimeInput(iso: string | null | undefined): string {
+  if (!iso) return ""
+  const d = new Date(iso)
+  if (Number.isNaN(d.getTime())) return ""
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`
+}
+
+function fromLocalDatetimeInput(value: string): string | null {
+  if (!value) return null
+  const d = new Date(value)
+  if (Number.isNaN(d.getTime())) return null
+  return d.toISOString()
+}
+
+const usesTiers = (type: DiscountRuleType) => type === "early_bird" || type === "group"
+
+function formToRule(form: RuleFormState): Omit<DiscountRule, "id"> & { description: string | null } {
+  const tiers: DiscountTier[] = usesTiers(form.rule_type)
+    ? form.tiers
+      .filter((t) => t.discount_value !== "")
+      .map((t) =>
+        form.rule_type === "early_bird"
+          ? { ends_at: fromLocalDatetimeInput(t.ends_at), discount_value: Number(t.discount_value) }
+          : { min_quantity: Number(t.min_quantity), discount_value: Number(t.discount_value) }
+      )
+    : []
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || null,
+    rule_type: form.rule_type,
+    discount_type: form.discount_type,
+    discount_value: usesTiers(form.rule_type) ? 0 : Number(form.discount_value),
+    max_discount_amount: form.max_discount_amount ? Number(form.max_discount_amount) : null,
+    tiers,
+    applies_to_ticket_ids: form.applies_to_ticket_ids.length > 0 ? form.applies_to_ticket_ids : null,
+    bundle_ticket_ids: form.bundle_ticket_ids.length > 0 ? form.bundle_ticket_ids : null,
+    bundle_addon_ids: form.bundle_addon_ids.length > 0 ? form.bundle_addon_ids : null,
+    stacking: form.stacking,
+    priority: Number(form.priority) || 0,
+    valid_until: fromLocalDatetimeInput(form.valid_until),
+    is_active: form.is_active,
+  }
+}
+
+function describeRule(rule: DiscountRule): string {
+  const value = (v: number) =>
+    rule.discount_type === "percentage" ? `${v}%` : `₹${Number(v).toLocaleString("en-IN", { maximumFractionDigits: 0 })}`
+  const tiers = rule.tiers || []
+  switch (rule.rule_type) {
+    case "early_bird":
+      if (tiers.length === 0) return `${value(rule.discount_value)} off`
+      return tiers
+        .map((t) => `${value(t.discount_value)} until ${t.ends_at ? format(new Date(t.ends_at), "d MMM") : "?"}`)
+        .join(", ")
+    case "group":
+      return tiers.map((t) => `${t.min_quantity}+: ${value(t.discount_value)} off`).join(", ")
+    case "bundle":
+      return `${value(rule.discount_value)} off${rule.discount_type === "fixed" ? " per bundle" : " the bundle"}`
+    default:
+      return `${value(rule.discount_value)} off${rule.discount_type === "fixed" ? " per ticket" : ""}`
+  }
+}
+
+function ItemChecklist({
+  items,
+  selected,
+  onChange,
+  empty,
+}: {
+  items: PricedItem[]
+  selected: string[]
+  onChange: (ids: string[]) => void
+  empty: string
+}) {
+  return (
+    <div className="mt-2 space-y-2 border rounded-md p-3 max-h-40 overflow-y-auto">
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{empty}</p>
+      ) : (
+        items.map((item) => (
+          <label key={item.id} className="flex items-center gap-2 cursor-pointer">
+            <Checkbox
+              checked={selected.includes(item.id)}
+              onCheckedChange={(v) =>
+                onChange(v ? [...selected, item.id] : selected.filter((x) => x !== item.id))
+              }
+            />
+            <span className="text-sm">
+              {item.name}{" "}
+              <span className="text-xs text-muted-foreground">
+                (₹{Number(item.price).toLocaleString("en-IN", { maximumFractionDigits: 0 })})
+              </span>
+            </span>
+          </label>
+        ))
+      )}
+    </div>
+  )
+}
+
+interface DiscountRulesPanelProps {
+  eventId: string
+  rules: DiscountRuleRow[]
+  isLoading: boolean
+  tickets: PricedItem[]
+  addons: PricedItem[]
+  sample: SampleCart
+}
+
+/**
+ * Automatic discount rules: list, create/edit dialog, and a live check of the
+ * rule being edited against the preview's sample cart.
+ */
+export function DiscountRulesPanel({ eventId, rules, isLoading, tickets, addons, sample }: DiscountRulesPanelProps) {
+  const queryClient = useQueryClient()
+  const confirm = useConfirm()
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<DiscountRuleRow | null>(null)
+  const [form, setForm] = useState<RuleFormState>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["discount-rules", eventId] })
+
+  const toggleActive = useMutation({
+    mutationFn: async (vars: { id: string; is_active: boolean }) => {
+      const res = await fetch(`/api/discounts/rules/${vars.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ is_active: vars.is_active }),
+      })
+      if (!res.ok) throw new Error((await res.json()).error || "Failed")
+    },
+    onSuccess: invalidate,
+    onError: (e: Error) => toast.error(e.message),
+  })
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/discounts/rules/${id}`, { method: "DELETE" })
+      if (!res.ok) throw new Error((await res.json()).error || "Failed")
+    },
+    onSuccess: () => {
+      invalidate()
+      toast.success("Discount rule deleted")
+    },
+    onError: (e: Error) => toast.error(e.message),
+  })
+
+  const openCreate = () => {
+    setEditing(null)
+    setForm(emptyForm)
+    setDialogOpen(true)
+  }
+
+  const openEdit = (rule: DiscountRuleRow) => {
+    setEditing(rule)
+    const tiers = (rule.tiers || []).map((t) => ({
+      ends_at: toLocalDatetimeInput(t.ends_at),
+      min_quantity: t.min_quantity != null ? String(t.min_quantity) : "",
+      discount_value: String(t.discount_value),
+    }))
+    setForm({
+      name: rule.name,
+      description: rule.description || "",
+      rule_type: rule.rule_type,
+      discount_type: rule.discount_type,
+      discount_value: String(rule.discount_value),
+      max_discount_amount: rule.max_discount_amount != null ? String(rule.max_discount_amount) : "",
+      tiers: tiers.length > 0 ? tiers : [{ ...emptyTier }],
+      applies_to_ticket_ids: rule.applies_to_ticket_ids || [],
+      bundle_ticket_ids: rule.bundle_ticket_ids || [],
+      bundle_addon_ids: rule.bundle_addon_ids || [],
+      stacking: rule.stacking,
+      priority: String(rule.priority ?? 0),
+      valid_until: toLocalDatetimeInput(rule.valid_until),
+      is_active: rule.is_active !== false,
+    })
+    setDialogOpen(true)
+  }
+
+  const draft = formToRule(form)
+  const draftError = validateDiscountRule(draft)
+  const sampleLines = sampleCartLines(sample, tickets, addons)
+  const draftPreview = !draftError && sampleLines.length > 0
+    ? evaluateRule({ ...draft, id: editing?.id || "draft" }, sampleLines, sampleCartContext(sample))
+    : null
+
+  const submit = async () => {
+    if (draftError) {
+      toast.error(draftError)
+      return
+    }
+
+    setSaving(true)
+    try {
+      const url = editing ? `/api/discounts/rules/${editing.id}` : "/api/discounts/rules"
+      const method = editing ? "PATCH" : "POST"
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId, ...draft }),
+      })
+      const json = await res.json()
+      if (!res.ok) throw new Error(json.error || "Failed")
+      toast.success(editing ? "Rule updated" : "Rule created")
+      setDialogOpen(false)
+      invalidate()
+    } catch (e) {
+      toast.error((e as Error).message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (rule: DiscountRuleRow) => {
+    const ok = await confirm({
+      title: `Delete ${rule.name}?`,
+      description: "Checkout stops applying this rule. Orders already placed keep their discount.",
+      variant: "destructive",
+      confirmText: "Delete",
+    })
+    if (ok) deleteRule.mutate(rule.id)
+  }
+
+  const updateTier = (index: number, patch: Partial<TierState>) => {
+    setForm((f) => ({ ...f, tiers: f.tiers.map((t, i) => (i === index ? { ...t, ...patch } : t)) }))
+  }
+
+  const itemNames = (ids: string[] | null | undefined, items: PricedItem[]) =>
+    (ids || []).map((id) => items.find((i) => i.id === id)?.name || "Unknown").join(", ")
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <Sparkles className="h-5 w-5" />
+            Automatic Rules
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Applied at checkout without a code: early-bird tiers, group sizes, member pricing and bundles.
+          </p>
+        </div>
+        <Button variant="outline" onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="border border-dashed rounded-lg p-8 text-center">
+          <p className="font-medium">No automatic rules yet</p>
+          <p className="text-sm text-muted-foreground mt-1">
+            Everyone pays list price unless they enter a code.
+          </p>
+        </div>
+      ) : (
+        rules.map((rule) => (
+          <div
+            key={rule.id}
+            className={cn(
+              "border rounded-lg p-4 flex flex-wrap items-start justify-between gap-4 transition-colors",
+              rule.is_active === false && "bg-muted/30 opacity-75"
+            )}
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-semibold">{rule.name}</span>
+                <Badge variant="secondary">{DISCOUNT_RULE_TYPES[rule.rule_type].label}</Badge>
+                {rule.stacking === "exclusive" && <Badge variant="outline">Exclusive</Badge>}
+                {rule.is_active === false && <Badge variant="outline">Inactive</Badge>}
+              </div>
+              <p className="text-sm mt-1">{describeRule(rule)}</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-muted-foreground">
+                <span>Priority {rule.priority ?? 0}</span>
+                {rule.applies_to_ticket_ids?.length ? (
+                  <span>Tickets: {itemNames(rule.applies_to_ticket_ids, tickets)}</span>
+                ) : null}
+                {rule.rule_type === "bundle" && (
+                  <span>
+                    Bundle: {rule.bundle_ticket_ids?.length ? itemNames(rule.bundle_ticket_ids, tickets) : "any ticket"}
+                    {" + "}
+                    {itemNames(rule.bundle_addon_ids, addons)}
+                  </span>
+                )}
+                {rule.max_discount_amount != null && (
+                  <span>Cap: ₹{Number(rule.max_discount_amount).toLocaleString("en-IN", { maximumFractionDigits: 0 })}</span>
+                )}
+                {rule.valid_until && (
+                  <span>Until {format(new Date(rule.valid_until), "d MMM yyyy, h:mm a")}</span>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={rule.is_active !== false}
+                onCheckedChange={(v) => toggleActive.mutate({ id: rule.id, is_active: v })}
+                disabled={toggleActive.isPending}
+              />
+              <Button variant="ghost" size="icon" onClick={() => openEdit(rule)}>
+                <Edit2 className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Discount Rule" : "New Discount Rule"}</DialogTitle>
+            <DialogDescription>
+              {DISCOUNT_RULE_TYPES[form.rule_type].description}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Name <span className="text-destructive">*</span></label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Early bird"
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Shown to attendees on checkout and receipts.</p>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium">Description</label>
+              <Textarea
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                placeholder="Internal note about this rule"
+                rows={2}
+                className="mt-1"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Rule</label>
+                <Select
+                  value={form.rule_type}
+                  onValueChange={(v) => setForm({ ...form, rule_type: v as DiscountRuleType, tiers: [{ ...emptyTier }] })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DISCOUNT_RULE_TYPES) as DiscountRuleType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{DISCOUNT_RULE_TYPES[type].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Type</label>
+                <Select
+                  value={form.discount_type}
+                  onValueChange={(v) => setForm({ ...form, discount_type: v as DiscountValueType })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percentage (%)</SelectItem>
+                    <SelectItem value="fixed">
+                      {form.rule_type === "bundle" ? "Fixed per bundle (₹)" : "Fixed per ticket (₹)"}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {usesTiers(form.rule_type) ? (
+              <div>
+                <label className="text-sm font-medium">
+                  {form.rule_type === "early_bird" ? "Date tiers" : "Group size tiers"}
+                </label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {form.rule_type === "early_bird"
+                    ? "The earliest tier that hasn't ended applies."
+                    : "The largest tier the order reaches applies to every ticket in it."}
+                </p>
+                <div className="mt-2 space-y-2">
+                  {form.tiers.map((tier, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      {form.rule_type === "early_bird" ? (
+                        <Input
+                          type="datetime-local"
+                          value={tier.ends_at}
+                          onChange={(e) => updateTier(index, { ends_at: e.target.value })}
+                          aria-label="Ends at"
+                        />
+                      ) : (
+                        <Input
+                          type="number"
+                          min="2"
+                          value={tier.min_quantity}
+                          onChange={(e) => updateTier(index, { min_quantity: e.target.value })}
+                          placeholder="Min. registrations"
+                        />
+                      )}
+                      <Input
+                        type="number"
+                        min="0"
+                        value={tier.discount_value}
+                        onChange={(e) => updateTier(index, { discount_value: e.target.value })}
+                        placeholder={form.discount_type === "percentage" ? "%" : "₹"}
+                        className="w-24"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setForm((f) => ({ ...f, tiers: f.tiers.filter((_, i) => i !== index) }))}
+                        disabled={form.tiers.length === 1}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm((f) => ({ ...f, tiers: [...f.tiers, { ...emptyTier }] }))}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add tier
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label className="text-sm font-medium">Value <span className="text-destructive">*</span></label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.discount_value}
+                  onChange={(e) => setForm({ ...form, discount_value: e.target.value })}
+                  placeholder={form.discount_type === "percentage" ? "10" : "1000"}
+                  className="mt-1"
+                />
+              </div>
+            )}
+
+            {form.rule_type === "bundle" ? (
+              <>
+                <div>
+                  <label className="text-sm font-medium">Bundle add-ons <span className="text-destructive">*</span></label>
+                  <p className="text-xs text-muted-foreground mt-0.5">All of these must be in the cart.</p>
+                  <ItemChecklist
+                    items={addons}
+                    selected={form.bundle_addon_ids}
+                    onChange={(ids) => setForm({ ...form, bundle_addon_ids: ids })}
+                    empty="No add-ons yet"
+                  />
+                </div>
+                <div>
+                  <label className="text-sm font-medium">With tickets</label>
+                  <p className="text-xs text-muted-foreground mt-0.5">Leave all unchecked to bundle with any ticket.</p>
+                  <ItemChecklist
+                    items={tickets}
+                    selected={form.bundle_ticket_ids}
+                    onChange={(ids) => setForm({ ...form, bundle_ticket_ids: ids })}
+                    empty="No ticket types yet"
+                  />
+                </div>
+              </>
+            ) : (
+              <div>
+                <label className="text-sm font-medium">Restrict to specific tickets</label>
+                <p className="text-xs text-muted-foreground mt-0.5">Leave all unchecked to apply to every ticket.</p>
+                <ItemChecklist
+                  items={tickets}
+                  selected={form.applies_to_ticket_ids}
+                  onChange={(ids) => setForm({ ...form, applies_to_ticket_ids: ids })}
+                  empty="No ticket types yet"
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Stacking</label>
+                <Select
+                  value={form.stacking}
+                  onValueChange={(v) => setForm({ ...form, stacking: v as DiscountStacking })}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="combinable">Combines with others</SelectItem>
+                    <SelectItem value="exclusive">Exclusive (best wins)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium">Priority</label>
+                <Input
+                  type="number"
+                  value={form.priority}
+                  onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm font-medium">Max discount (₹)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.max_discount_amount}
+                  onChange={(e) => setForm({ ...form, max_discount_amount: e.target.value })}
+                  placeholder="No cap"
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium">Valid until</label>
+                <Input
+                  type="datetime-local"
+                  value={form.valid_until}
+                  onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+                  className="mt-1"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between p-3 border rounded-md">
+              <label htmlFor="rule-active-toggle" className="text-sm font-medium cursor-pointer">
+                Active
+              </label>
+              <Switch
+                id="rule-active-toggle"
+                checked={form.is_active}
+                onCheckedChange={(v) => setForm({ ...form, is_active: v })}
+              />
+            </div>
+
+            <div className="p-3 rounded-md bg-muted/40 text-sm">
+              <span className="font-medium">On the sample cart: </span>
+              {draftError ? (
+                <span className="text-muted-foreground">{draftError}</span>
+              ) : !draftPreview ? (
+                <span className="text-muted-foreground">add tickets to the preview cart below to try this rule</span>
+              ) : "reason" in draftPreview ? (
+                <span className="text-muted-foreground">doesn&apos;t apply ({draftPreview.reason})</span>
+              ) : (
+                <span className="text-green-600">
+                  -₹{draftPreview.amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })} on its own
+                </span>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={submit} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editing ? "Save Changes" : "Create Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Copy, Network } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useConfirm } from "@/components/confirm-dialog"
+
+// Fleet page card for the venue-LAN relay (scripts/kiosk-relay.mjs). Saving
+// an address generates the shared key; the card then shows the exact
+// command to start the relay with. Tablets pick the address up on their next
+// manifest refresh.
+export function RelaySettings({ eventId }: { eventId: string }) {
+  const confirm = useConfirm()
+  const [url, setUrl] = useState("")
+  const [saved, setSaved] = useState<{ url: string | null; key: string | null }>({ url: null, key: null })
+  const [saving, setSaving] = useState(false)
+  const [testing, setTesting] = useState(false)
+
+  useEffect(() => {
+    fetch(`/api/kiosk-stations/relay?event_id=${eventId}`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((d) => {
+        if (!d) return
+        setSaved(d)
+        setUrl(d.url || "")
+      })
+  }, [eventId])
+
+  const save = async (next: { url: string; rotate_key?: boolean }) => {
+    setSaving(true)
+    try {
+      const res = await fetch("/api/kiosk-stations/relay", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ event_id: eventId, ...next }),
+      })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || "Failed to save relay")
+      setSaved(data)
+      setUrl(data.url || "")
+      toast.success(data.url ? "Relay saved — tablets pick it up on their next manifest refresh" : "Relay removed")
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save relay")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const rotate = async () => {
+    const ok = await confirm({
+      title: "Generate a new relay key?",
+      description: "Restart the relay with the new key. Tablets stop sharing until they refresh their manifest.",
+      confirmText: "New key",
+      variant: "warning",
+    })
+    if (ok) await save({ url, rotate_key: true })
+  }
+
+  // From this browser, which is usually on the venue network too. A
+  // certificate error looks the same as "not running" to fetch, so the
+  // failure message mentions both.
+  const test = async () => {
+    if (!saved.url) return
+    setTesting(true)
+    try {
+      const res = await fetch(`${saved.url}/status`, { cache: "no-store" })
+      const data = await res.json()
+      if (data.event_id !== eventId) toast.error("A relay answered, but it's running for a different event")
+      else toast.success(`Relay is up — ${data.seq} records shared so far`)
+    } catch {
+      toast.error("Couldn't reach the relay. Is it running, and has this browser accepted its certificate?")
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const command = saved.key
+    ? `KIOSK_RELAY_EVENT=${eventId} KIOSK_RELAY_KEY=${saved.key} node scripts/kiosk-relay.mjs`
+    : null
+
+  return (
+    <div className="rounded-2xl border bg-card p-4 space-y-3">
+      <div>
+        <h2 className="text-sm font-semibold flex items-center gap-2">
+          <Network className="h-4 w-4" />
+          LAN relay
+        </h2>
+        <p className="text-xs text-muted-foreground">
+          Optional. Lets tablets on the venue network share scans and badge prints while the internet is down.
+        </p>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://192.168.1.20:3012"
+          className="w-72"
+        />
+        <Button size="sm" onClick={() => save({ url })} disabled={saving || url.trim() === (saved.url || "")}>
+          Save
+        </Button>
+        {saved.url && (
+          <>
+            <Button size="sm" variant="outline" onClick={test} disabled={testing}>
+              Test
+            </Button>
+            <Button size="sm" variant="outline" onClick={rotate} disabled={saving}>
+              New key
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => save({ url: "" })} disabled={saving}>
+              Remove
+            </Button>
+          </>
+        )}
+      </div>
+      {command && (
+        <div className="flex items-start gap-2 rounded-lg bg-muted/50 p-2">
+          <code className="flex-1 break-all text-xs">{command}</code>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 shrink-0"
+            onClick={() => {
+              navigator.clipboard.writeText(command)
+              toast.success("Copied")
+            }}
+          >
+            <Copy className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
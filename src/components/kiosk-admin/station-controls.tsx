@@ -58,6 +58,13 @@ export function autoPrintHelpText(autoPrint: boolean) {
     : "Off — the volunteer taps Print. Use this if badges are checked before printing."
 }
 
+// Help text for the hall-door select -- same pattern as attendedHelpText.
+export function doorDirectionHelpText(door: "entry" | "exit") {
+  return door === "exit"
+    ? "Exit — on session lists, scans record the delegate leaving the hall instead of checking them in. Used to work out CME credit."
+    : "Entry — on session lists, scans check the delegate in and record them entering the hall."
+}
+
 export const PRINTER_USB_HELP_TEXT =
   "The printer must be plugged into this tablet by USB. A printer at another desk cannot be used from here."
 
@@ -72,6 +79,7 @@ export type KioskStation = {
   print_station_id: string | null
   auto_print_badge: boolean
   attended: boolean
+  door_direction: "entry" | "exit"
   last_seen_at: string | null
   revoked_at: string | null
   created_at: string
@@ -369,6 +377,7 @@ export function StationBehaviourControls({
   onToggleAttended,
   onTogglePrint,
   onReassignPrintStation,
+  onChangeDoorDirection,
 }: {
   station: KioskStation
   revoked: boolean
@@ -377,6 +386,9 @@ export function StationBehaviourControls({
   onToggleAttended: () => void
   onTogglePrint: () => void
   onReassignPrintStation: (printStationId: string) => void
+  // Only passed when the station serves a session list -- the door makes no
+  // difference anywhere else, so the select isn't shown.
+  onChangeDoorDirection?: (door: "entry" | "exit") => void
 }) {
   return (
     <div className="flex flex-col gap-2.5 text-xs">
@@ -394,6 +406,26 @@ export function StationBehaviourControls({
           {attendedHelpText(station.attended)}
         </p>
       </div>
+      {onChangeDoorDirection && (
+        <div className="flex flex-col gap-1">
+          <Select
+            value={station.door_direction}
+            disabled={revoked}
+            onValueChange={(v) => onChangeDoorDirection(v as "entry" | "exit")}
+          >
+            <SelectTrigger className="h-7 w-full text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="entry">Hall entry door</SelectItem>
+              <SelectItem value="exit">Hall exit door</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-[10.5px] leading-snug text-muted-foreground/80">
+            {doorDirectionHelpText(station.door_direction)}
+          </p>
+        </div>
+      )}
       {station.mode === "checkin_and_print" && (
         <>
           <div className="flex flex-col gap-1">
@@ -39,6 +39,7 @@ import {
   replaceDelegateCache,
   getDelegateCache,
   enqueueScan,
+  recordExitScan,
   newId,
   cachePrintTemplate,
   getPrintTemplate,
@@ -52,15 +53,19 @@ import {
   getStationNames,
   cacheCollectedStatus,
   getCollectedStatus,
+  getPeerStatus,
   cacheListPurpose,
   getListPurpose,
   type CachedStationName,
   type CachedCollectedEntry,
 } from "@/lib/kiosk-offline-store"
 import { drainScanQueue } from "@/lib/kiosk-sync-worker"
+import { RELAY_SYNC_INTERVAL_MS, type PeerStatusEntry } from "@/lib/kiosk-relay"
 import { isNetworkFailure } from "@/lib/offline-scan-queue"
 import { resolveStationName } from "@/lib/kiosk-station-lookup-client"
 import { CATEGORY_COLORS, type ListCategory } from "@/lib/checkin-list-category"
+import { checkEntitlement, eventDay, type EntitlementDenialCode, type KioskEntitlements } from "@/lib/checkin-entitlements"
+import type { BadgeAudience } from "@/lib/badge-conditions"
 import { useScreenWakeLock } from "@/hooks/use-screen-wake-lock"
 import { useForceLightTheme } from "@/hooks/use-force-light-theme"
 import { BatteryStatusBadge } from "@/components/kiosk/BatteryStatusBadge"
@@ -79,6 +84,7 @@ type CheckinResult = {
     attendee_designation?: string
     attendee_institution?: string
     ticket_type?: { name: string }
+    badge_audience?: BadgeAudience | null
   }
   alreadyCheckedIn?: boolean
   // Set when `alreadyCheckedIn` was determined to be a duplicate collection
@@ -93,6 +99,12 @@ type CheckinResult = {
   // Consumed by NotOnListScreen below.
   notOnList?: boolean
   scannedCode?: string
+  // An exit-door scan on a session hall (doorDirection "exit"): recorded for
+  // CME dwell time only, not a check-in -- no badge, no sync.
+  exitRecorded?: boolean
+  // Set when the list's per-day entitlement rules turned the scan away
+  // (wrong day, not entitled, daily limit used) -- `message` is the reason.
+  entitlementDenied?: EntitlementDenialCode
 }
 
 // Scanner-burst auto-submit tunables (mirror of the staff check-in kiosk): a
@@ -146,6 +158,11 @@ interface KioskCheckinScreenProps {
   listClosesAt?: string | null
   contactPhone?: string | null
   category?: ListCategory
+  // kiosk_stations.door_direction, passed by KioskStationShell only while a
+  // session-purpose list is active (undefined everywhere else). "entry"
+  // checks in as usual and tags the scan as a hall entry; "exit" records a
+  // hall exit instead of checking in. See src/lib/session-attendance.ts.
+  doorDirection?: "entry" | "exit"
 }
 
 export function KioskCheckinScreen({
@@ -166,6 +183,7 @@ export function KioskCheckinScreen({
   listClosesAt,
   contactPhone,
   category,
+  doorDirection,
 }: KioskCheckinScreenProps) {
   const supabase = createClient()
 
@@ -321,6 +339,15 @@ export function KioskCheckinScreen({
   // network call.
   const cachedStationNamesRef = useRef<CachedStationName[]>([])
   const collectedStatusRef = useRef<Map<string, CachedCollectedEntry>>(new Map())
+  // What other tablets reported through the venue-LAN relay (kiosk-relay.ts)
+  // -- Layer 2's fallback while the server's collected status can't be
+  // refreshed, and the cross-device half of auto-print's "already printed"
+  // check. Empty when the event has no relay.
+  const peerStatusRef = useRef<Map<string, PeerStatusEntry>>(new Map())
+  // The list's per-day entitlement rules and daily limit, as last sent with
+  // the roster (null for a list without any). Read synchronously in
+  // handleCheckin, like the duplicate-detection refs above.
+  const entitlementsRef = useRef<KioskEntitlements | null>(null)
   // In-flight guard for syncNow -- the click handler (`void syncNow()` in
   // handleCheckin), the `online` listener, and the 20s interval poll can all
   // fire close together, and drainScanQueue has no guard of its own against
@@ -381,7 +408,13 @@ export function KioskCheckinScreen({
           if (!cancelled && delegatesRef.current.length > 0) setCacheReady(true)
           return
         }
-        const data = (await res.json()) as { delegates: CachedDelegate[]; name?: string; list_purpose?: string; blocked?: boolean }
+        const data = (await res.json()) as {
+          delegates: CachedDelegate[]
+          name?: string
+          list_purpose?: string
+          blocked?: boolean
+          entitlements?: KioskEntitlements
+        }
         if (cancelled) return
 
         // This state's only job is deciding whether handleCheckin runs a
@@ -405,7 +438,9 @@ export function KioskCheckinScreen({
           list_purpose: data.list_purpose ?? "",
           blocked: data.blocked ?? true,
           name: data.name,
+          entitlements: data.entitlements ?? null,
         })
+        entitlementsRef.current = data.entitlements ?? null
 
         if (data.blocked) {
           // The server is the single authority on whether self check-in is
@@ -465,6 +500,7 @@ export function KioskCheckinScreen({
         if (cachedPurpose && !cancelled) {
           setIsCollectionListActive(cachedPurpose.list_purpose === "collection" && cachedPurpose.blocked === false)
           if (cachedPurpose.name) setListName(cachedPurpose.name)
+          entitlementsRef.current = cachedPurpose.entitlements ?? null
         }
         await refreshFromServer()
       } catch (err) {
@@ -594,6 +630,29 @@ export function KioskCheckinScreen({
     }
   }, [eventId, listId, stationToken, isCollectionListActive])
 
+  // Re-read the relay's peer status for this list on the relay's own
+  // cadence. Local IndexedDB only -- KioskStationShell's relay loop is what
+  // talks to the relay and writes it. Station path only; the direct-URL
+  // kiosk has no manifest and so no relay.
+  useEffect(() => {
+    if (!stationToken) return
+    let cancelled = false
+    async function loadPeerStatus() {
+      try {
+        const entries = await getPeerStatus(listId)
+        if (!cancelled) peerStatusRef.current = new Map(entries.map((e) => [e.registration_id, e]))
+      } catch (err) {
+        Sentry.captureException(err, { tags: { module: "kiosk-page" }, extra: { eventId, listId } })
+      }
+    }
+    loadPeerStatus()
+    const interval = setInterval(loadPeerStatus, RELAY_SYNC_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+    }
+  }, [eventId, listId, stationToken])
+
   // Forces a re-render once a second while the collection-list ready screen
   // is showing, purely so its "last scan N seconds ago" chip counts up live
   // rather than only updating on the next actual scan. The value itself
@@ -1018,7 +1077,7 @@ export function KioskCheckinScreen({
   // own identity changes (e.g. event name resolving after the query
   // settles) for the same result.
   useEffect(() => {
-    if (mode !== "checkin_and_print" || !autoPrintBadge || !result?.success || !result.registration) return
+    if (mode !== "checkin_and_print" || !autoPrintBadge || !result?.success || result.exitRecorded || !result.registration) return
     const registration = result.registration
     let cancelled = false
     ;(async () => {
@@ -1032,6 +1091,15 @@ export function KioskCheckinScreen({
           })
           return
         }
+        // Printed at another station, as shared over the venue LAN relay.
+        const peerPrint = peerStatusRef.current.get(registration.id)
+        if (peerPrint?.printed_at) {
+          setPrintStatus({
+            success: true,
+            message: `Badge already printed at ${new Date(peerPrint.printed_at).toLocaleTimeString()} at ${peerPrint.printed_station || "another station"} — tap Print Badge to reprint.`,
+          })
+          return
+        }
         void printBadge(registration)
       } catch (err) {
         // This path runs completely unattended (no human triggers it, no
@@ -1059,9 +1127,13 @@ export function KioskCheckinScreen({
   const handlePrintButtonClick = async () => {
     if (!result?.registration) return
     const last = await getLastPrintForRegistration(listId, result.registration.id)
+    const peerPrint = peerStatusRef.current.get(result.registration.id)
     if (last && last.status === "success") {
       const when = new Date(last.printed_at).toLocaleTimeString()
       if (!confirm(`Already printed at ${when} — print again?`)) return
+    } else if (peerPrint?.printed_at) {
+      const when = new Date(peerPrint.printed_at).toLocaleTimeString()
+      if (!confirm(`Already printed at ${when} at ${peerPrint.printed_station || "another station"} — print again?`)) return
     }
     void printBadge(result.registration)
   }
@@ -1179,13 +1251,43 @@ export function KioskCheckinScreen({
         return
       }
 
+      // Per-day entitlement rules and the daily limit, checked against the
+      // copy /api/kiosk/delegates sent with the roster -- fully offline. A
+      // denial shows its reason and queues nothing. The count is this
+      // tablet's own scans only; /api/kiosk/checkin counts every device's
+      // when the scan syncs and files any overrun as a conflict. An exit
+      // scan isn't a use of the list, so it's never checked.
+      const entitlements = entitlementsRef.current
+      if (entitlements && doorDirection !== "exit") {
+        const day = eventDay(new Date(), entitlements.timezone)
+        const usesToday = entitlements.max_scans_per_day
+          ? (await getScanHistoryForRegistration(listId, delegate.id)).filter(
+              (s) => s.status !== "exit" && eventDay(new Date(s.scanned_at), entitlements.timezone) === day
+            ).length
+          : 0
+        const verdict = checkEntitlement(
+          { entitlement_rules: entitlements.rules, max_scans_per_day: entitlements.max_scans_per_day },
+          {
+            ticket_type_id: delegate.ticket_type_id ?? null,
+            addon_ids: delegate.addon_ids ?? [],
+            meal_plan_ids: delegate.meal_plan_ids ?? [],
+          },
+          { day, usesToday, listName, labels: entitlements.labels }
+        )
+        if (!verdict.allowed) {
+          setResult({ success: false, message: verdict.reason, entitlementDenied: verdict.code })
+          return
+        }
+      }
+
       // Layer 1 duplicate detection: instant, same-tablet, fully offline --
       // only relevant on a collection-purpose list at a genuinely attended
       // station (isCollectionListActive). Entry-purpose lists (and any list
       // this component isn't sure about) must take the exact same path as
       // before this check existed -- repeat entry scans are always a
-      // success, never flagged here.
-      if (isCollectionListActive) {
+      // success, never flagged here. A list with a daily limit skips all
+      // three layers: a repeat scan is that limit's call, made above.
+      if (isCollectionListActive && !entitlements?.max_scans_per_day) {
         const allPriorScans = await getScanHistoryForRegistration(listId, delegate.id)
         // Bug-audit fix (2026-08): a "conflict" scan_log entry means either a
         // genuine duplicate (the server said alreadyCheckedIn:true) OR a
@@ -1249,10 +1351,63 @@ export function KioskCheckinScreen({
           })
           return
         }
+
+        // Same check against what other tablets shared over the venue LAN
+        // relay -- the case the poll above can't cover, since it needs the
+        // internet. The server's own collected status wins when it has the
+        // registration (it's authoritative and has the real station).
+        const peerMatch = peerStatusRef.current.get(delegate.id)
+        if (peerMatch?.checked_in_at) {
+          setResult({
+            success: false,
+            message: "Self check-in isn't available for this list. Please see a staff member.", // Never displayed: DuplicateWarningScreen intercepts it, as above.
+            alreadyCheckedIn: true,
+            duplicateCheckedInAt: peerMatch.checked_in_at,
+            duplicateStationName: peerMatch.checked_in_station || "another station",
+            registration: {
+              id: delegate.id,
+              registration_number: delegate.registration_number,
+              attendee_name: delegate.attendee_name,
+              attendee_email: delegate.attendee_email,
+              attendee_designation: delegate.attendee_designation ?? undefined,
+              attendee_institution: delegate.attendee_institution ?? undefined,
+            },
+          })
+          return
+        }
       }
 
       const scanId = newId()
 
+      // Exit door: the delegate is leaving the hall, so there's nothing to
+      // check in -- just the time they left, for the attendance upload
+      // KioskStationShell makes after each heartbeat.
+      if (doorDirection === "exit") {
+        await recordExitScan({
+          scan_id: scanId,
+          station_id: deviceIdRef.current,
+          list_id: listId,
+          delegate_code: searchTerm,
+          scanned_at: Date.now(),
+          registration_id: delegate.id,
+          registration_snapshot: delegate,
+        })
+        setResult({
+          success: true,
+          message: "Exit recorded",
+          exitRecorded: true,
+          registration: {
+            id: delegate.id,
+            registration_number: delegate.registration_number,
+            attendee_name: delegate.attendee_name,
+            attendee_email: delegate.attendee_email,
+            attendee_designation: delegate.attendee_designation ?? undefined,
+            attendee_institution: delegate.attendee_institution ?? undefined,
+          },
+        })
+        return
+      }
+
       await enqueueScan({
         scan_id: scanId,
         station_id: deviceIdRef.current,
@@ -1261,6 +1416,7 @@ export function KioskCheckinScreen({
         scanned_at: Date.now(),
         registration_id: delegate.id,
         registration_snapshot: delegate,
+        ...(doorDirection === "entry" ? { door: "in" as const } : {}),
       })
 
       setResult({
@@ -1273,6 +1429,9 @@ export function KioskCheckinScreen({
           attendee_email: delegate.attendee_email,
           attendee_designation: delegate.attendee_designation ?? undefined,
           attendee_institution: delegate.attendee_institution ?? undefined,
+          // What the badge template's conditional elements look at, when
+          // the roster carried it -- printBadge draws from this row.
+          badge_audience: delegate.badge_audience ?? undefined,
         },
       })
 
@@ -1957,10 +2116,14 @@ export function KioskCheckinScreen({
                 </div>
 
                 <h1 className="text-[clamp(20px,5cqh,48px)] font-bold text-foreground mb-[clamp(4px,0.8cqh,12px)] shrink-0">
-                  Welcome, {result.registration?.attendee_name?.split(" ")[0]}!
+                  {result.exitRecorded ? "Goodbye" : "Welcome"}, {result.registration?.attendee_name?.split(" ")[0]}!
                 </h1>
                 <p className="text-[clamp(13px,2.2cqh,20px)] text-emerald-700 mb-[clamp(2px,0.5cqh,8px)] shrink-0">
-                  {result.alreadyCheckedIn ? "You're already checked in" : "Check-in successful"}
+                  {result.exitRecorded
+                    ? "Exit recorded"
+                    : result.alreadyCheckedIn
+                      ? "You're already checked in"
+                      : "Check-in successful"}
                 </p>
                 {result.warning && (
                   <p className="text-sm text-amber-800 mb-[clamp(6px,1.2cqh,24px)] max-w-md mx-auto shrink-0">{result.warning}</p>
@@ -2145,7 +2308,7 @@ export function KioskCheckinScreen({
                 </div>
 
                 <h1 className="text-[clamp(20px,5cqh,48px)] font-bold text-foreground mb-[clamp(4px,0.8cqh,12px)] shrink-0">
-                  Check-in failed
+                  {result.entitlementDenied ? "Not valid for this scan" : "Check-in failed"}
                 </h1>
                 <p className="text-[clamp(13px,2.2cqh,20px)] text-red-700 mb-[clamp(6px,1.6cqh,32px)] max-w-md mx-auto shrink-0">
                   {result.message}
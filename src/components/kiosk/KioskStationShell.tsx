@@ -3,14 +3,31 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import Link from "next/link"
 import * as Sentry from "@sentry/nextjs"
-import { ClipboardList, Printer } from "lucide-react"
+import { ClipboardList, Lock, Printer } from "lucide-react"
 import { KioskCheckinScreen } from "./KioskCheckinScreen"
 import { computeListState, minutesUntilClose, type ScheduledList } from "@/lib/kiosk-list-schedule"
-import { cacheStationManifest, getStationManifest, replaceDelegateCache, type StationManifest } from "@/lib/kiosk-offline-store"
+import {
+  cacheStationManifest,
+  clearCachedData,
+  getCacheUpdatedAt,
+  getConflictScanCount,
+  getOrCreateDeviceId,
+  getPendingScanCount,
+  getStationManifest,
+  getUnreportedConflicts,
+  getUnreportedDoorScans,
+  markConflictsReported,
+  markDoorScansReported,
+  replaceDelegateCache,
+  type StationManifest,
+} from "@/lib/kiosk-offline-store"
 import { drainScanQueue } from "@/lib/kiosk-sync-worker"
+import { HEARTBEAT_INTERVAL_MS, KIOSK_APP_VERSION, type KioskCommand, type KioskCommandAck } from "@/lib/kiosk-fleet"
+import { RELAY_SYNC_INTERVAL_MS, syncWithRelay, type KioskRelayConfig } from "@/lib/kiosk-relay"
 import { CATEGORY_COLORS } from "@/lib/checkin-list-category"
 import { useForceLightTheme } from "@/hooks/use-force-light-theme"
 import { BatteryStatusBadge } from "@/components/kiosk/BatteryStatusBadge"
+import { useBatteryStatus } from "@/hooks/use-battery-status"
 
 export interface AssignedList extends ScheduledList {
   id: string
@@ -41,6 +58,18 @@ interface KioskStationShellProps {
   contactPhone?: string | null
 }
 
+// Matches /api/kiosk/conflicts' batch cap; a backlog drains over a few
+// heartbeats.
+const CONFLICT_UPLOAD_BATCH = 50
+// Matches /api/kiosk/session-scans' batch cap.
+const DOOR_SCAN_UPLOAD_BATCH = 100
+
+interface FleetCommand {
+  id: string
+  command: KioskCommand
+  payload: { list_id?: string }
+}
+
 function toAssignedLists(manifest: StationManifest): AssignedList[] {
   return manifest.lists.map((l) => ({
     id: l.id,
@@ -143,6 +172,19 @@ export function KioskStationShell({
     selectList(null, false)
   }, [selectList])
   const [tick, forceTick] = useState(0)
+  // Fleet console state (see /api/kiosk/heartbeat). `locked` is the admin's
+  // screen lock, re-applied from every heartbeat response; `rosterEpoch`
+  // bumps after a remote clear_cache so the roster-caching effect below
+  // re-downloads every list it just lost.
+  const [locked, setLocked] = useState(false)
+  const [rosterEpoch, setRosterEpoch] = useState(0)
+  const battery = useBatteryStatus()
+  // The event's venue-LAN relay, from the manifest (null when none is set
+  // up). See the relay effect below.
+  const [relay, setRelay] = useState<KioskRelayConfig | null>(null)
+  // Which hall door this tablet stands at (kiosk_stations.door_direction).
+  // Only handed to the scan screen on session-purpose lists.
+  const [doorDirection, setDoorDirection] = useState<"entry" | "exit">("entry")
 
   const refreshManifest = useCallback(async () => {
     try {
@@ -153,6 +195,8 @@ export function KioskStationShell({
       const manifest = (await res.json()) as StationManifest
       setAssignedLists(toAssignedLists(manifest))
       setAttended(manifest.attended)
+      setRelay(manifest.relay ?? null)
+      setDoorDirection(manifest.door_direction ?? "entry")
       await cacheStationManifest(stationToken, manifest)
     } catch {
       // Offline/transient -- keep whatever's currently in state.
@@ -171,6 +215,8 @@ export function KioskStationShell({
         if (cached && !cancelled) {
           setAssignedLists(toAssignedLists(cached))
           setAttended(cached.attended)
+          setRelay(cached.relay ?? null)
+          setDoorDirection(cached.door_direction ?? "entry")
         }
       } catch (err) {
         Sentry.captureException(err, { tags: { module: "kiosk-station-shell" } })
@@ -210,7 +256,7 @@ export function KioskStationShell({
       cancelled = true
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [eventId, stationToken, assignedLists.map((l) => l.id).join(",")])
+  }, [eventId, stationToken, rosterEpoch, assignedLists.map((l) => l.id).join(",")])
 
   // Shell owns draining every assigned list's scan queue -- a scan made on
   // list A that's still pending when the volunteer switches to list B must
@@ -243,6 +289,34 @@ export function KioskStationShell({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [eventId, stationToken, assignedLists.map((l) => l.id).join(",")])
 
+  // Venue-LAN relay (src/lib/kiosk-relay.ts): every few seconds, share this
+  // tablet's scans and prints with the other tablets and pull theirs into
+  // each list's peer-status cache, which KioskCheckinScreen reads. Runs
+  // whether or not the internet is up -- the LAN usually outlives it, and
+  // that's exactly when this matters. A relay that isn't reachable (not
+  // started, wrong network, certificate not yet accepted) just fails
+  // quietly until it is.
+  useEffect(() => {
+    if (!relay) return
+    const config = relay
+    let inFlight = false
+    async function relayPass() {
+      if (inFlight) return
+      inFlight = true
+      try {
+        await syncWithRelay(config, eventId, await getOrCreateDeviceId(), stationName, assignedLists.map((l) => l.id))
+      } catch (err) {
+        Sentry.captureException(err, { tags: { module: "kiosk-station-shell" }, extra: { relay: config.url } })
+      } finally {
+        inFlight = false
+      }
+    }
+    void relayPass()
+    const intervalId = setInterval(relayPass, RELAY_SYNC_INTERVAL_MS)
+    return () => clearInterval(intervalId)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId, stationName, relay?.url, relay?.key, assignedLists.map((l) => l.id).join(",")])
+
   // Recompute open/closed and the closing-soon banner every 30s -- both are
   // pure functions of the device clock, not of any fetched data.
   useEffect(() => {
@@ -339,6 +413,191 @@ export function KioskStationShell({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tick, activeList, attended])
 
+  // Fleet heartbeat: report what only this device knows (build, roster
+  // cache age, unsynced/conflicted scans, battery, current list) and run
+  // whatever the admin queued for it since the last one. The interval reads
+  // the latest render's values through this ref rather than restarting on
+  // every list switch or battery tick. Command outcomes ride along on the
+  // NEXT heartbeat -- the server already marked them delivered, so nothing
+  // is re-run if that heartbeat is lost; the console just shows "delivered".
+  const fleetStateRef = useRef({ assignedLists, activeListId, attended, battery })
+  useEffect(() => {
+    fleetStateRef.current = { assignedLists, activeListId, attended, battery }
+  })
+  const pendingAcksRef = useRef<KioskCommandAck[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    let inFlight = false
+
+    async function runCommand(cmd: FleetCommand): Promise<KioskCommandAck> {
+      const { assignedLists: lists, attended: isAttended } = fleetStateRef.current
+      switch (cmd.command) {
+        case "refresh_manifest":
+          await refreshManifest()
+          return { id: cmd.id, status: "acked" }
+        case "clear_cache":
+          await clearCachedData()
+          await refreshManifest()
+          setRosterEpoch((n) => n + 1)
+          return { id: cmd.id, status: "acked" }
+        case "force_sync": {
+          let remaining = 0
+          for (const list of lists) {
+            const result = await drainScanQueue(list.id, eventId, stationToken, undefined, () => {}, () => {})
+            remaining += result.remaining
+          }
+          return { id: cmd.id, status: "acked", result: remaining > 0 ? `${remaining} still pending` : "All scans synced" }
+        }
+        case "lock_screen":
+          setLocked(true)
+          return { id: cmd.id, status: "acked" }
+        case "unlock_screen":
+          setLocked(false)
+          return { id: cmd.id, status: "acked" }
+        case "switch_list": {
+          const list = lists.find((l) => l.id === cmd.payload.list_id)
+          if (!list) return { id: cmd.id, status: "failed", result: "List isn't on this station's menu" }
+          if (!isListUsable(list, isAttended)) return { id: cmd.id, status: "failed", result: "List is closed on this station" }
+          selectList(list.id, false)
+          return { id: cmd.id, status: "acked" }
+        }
+        default:
+          return { id: cmd.id, status: "failed", result: "Not supported by this app version" }
+      }
+    }
+
+    async function collectTelemetry() {
+      const { assignedLists: lists, activeListId: currentListId, battery: batteryStatus } = fleetStateRef.current
+      let pending = 0
+      let conflicts = 0
+      let oldestCache: number | null = null
+      for (const list of lists) {
+        pending += await getPendingScanCount(list.id)
+        conflicts += await getConflictScanCount(list.id)
+        const cachedAt = await getCacheUpdatedAt(list.id)
+        // Oldest, not newest: one list's roster going stale is exactly what
+        // the console needs to see, and a fresher sibling would hide it.
+        if (cachedAt !== null && (oldestCache === null || cachedAt < oldestCache)) oldestCache = cachedAt
+      }
+      return {
+        app_version: KIOSK_APP_VERSION,
+        device_id: await getOrCreateDeviceId(),
+        cache_updated_at: oldestCache,
+        pending_scans: pending,
+        conflict_scans: conflicts,
+        battery_level: batteryStatus.supported ? batteryStatus.level : null,
+        battery_charging: batteryStatus.supported ? batteryStatus.charging : null,
+        current_list_id: currentListId,
+      }
+    }
+
+    // Hand this device's side of any sync conflicts to the admin conflicts
+    // console (/api/kiosk/conflicts). Piggybacks on a heartbeat that just
+    // succeeded, so it only runs when the server is reachable; anything not
+    // acknowledged stays unreported and goes again next time.
+    async function reportConflicts() {
+      const unreported = await getUnreportedConflicts(CONFLICT_UPLOAD_BATCH)
+      if (unreported.length === 0) return
+      const res = await fetch("/api/kiosk/conflicts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_id: eventId,
+          station_token: stationToken,
+          device_id: await getOrCreateDeviceId(),
+          conflicts: unreported,
+        }),
+      })
+      if (!res.ok) return
+      const data = (await res.json()) as { received: string[] }
+      await markConflictsReported(data.received)
+    }
+
+    // Same piggyback for hall-door scans on session lists, which feed CME
+    // dwell time (/api/kiosk/session-scans). Exit scans never reach the
+    // server any other way.
+    async function reportDoorScans() {
+      const unreported = await getUnreportedDoorScans(DOOR_SCAN_UPLOAD_BATCH)
+      if (unreported.length === 0) return
+      const res = await fetch("/api/kiosk/session-scans", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          event_id: eventId,
+          station_token: stationToken,
+          scans: unreported.map((s) => ({
+            scan_id: s.scan_id,
+            list_id: s.list_id,
+            registration_id: s.registration_id,
+            door: s.door,
+            scanned_at: s.scanned_at,
+          })),
+        }),
+      })
+      if (!res.ok) return
+      const data = (await res.json()) as { received: string[] }
+      await markDoorScansReported(data.received)
+    }
+
+    async function heartbeat() {
+      if (inFlight || (typeof navigator !== "undefined" && !navigator.onLine)) return
+      inFlight = true
+      const acks = pendingAcksRef.current
+      pendingAcksRef.current = []
+      try {
+        const res = await fetch("/api/kiosk/heartbeat", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ event_id: eventId, station_token: stationToken, telemetry: await collectTelemetry(), acks }),
+        })
+        if (!res.ok) {
+          pendingAcksRef.current.unshift(...acks)
+          return
+        }
+        const data = (await res.json()) as { locked: boolean; commands: FleetCommand[] }
+        if (cancelled) return
+        setLocked(data.locked)
+        await reportConflicts().catch(() => {})
+        await reportDoorScans().catch(() => {})
+
+        let reload = false
+        for (const cmd of data.commands) {
+          if (cmd.command === "reload") {
+            reload = true
+            continue
+          }
+          try {
+            pendingAcksRef.current.push(await runCommand(cmd))
+          } catch (err) {
+            Sentry.captureException(err, { tags: { module: "kiosk-station-shell" }, extra: { command: cmd.command } })
+            pendingAcksRef.current.push({ id: cmd.id, status: "failed", result: err instanceof Error ? err.message : "Command failed" })
+          }
+        }
+        // Last, so every other command in the same batch has already run;
+        // the server acked it on delivery (ACKED_ON_DELIVERY). Pending scans
+        // are in IndexedDB, so nothing queued is lost across the reload.
+        if (reload) window.location.reload()
+      } catch {
+        // Offline/transient -- retried on the next tick, acks included.
+        pendingAcksRef.current.unshift(...acks)
+      } finally {
+        inFlight = false
+      }
+    }
+
+    void heartbeat()
+    const intervalId = setInterval(heartbeat, HEARTBEAT_INTERVAL_MS)
+    window.addEventListener("online", heartbeat)
+    return () => {
+      cancelled = true
+      clearInterval(intervalId)
+      window.removeEventListener("online", heartbeat)
+    }
+  }, [eventId, stationToken, refreshManifest, selectList])
+
+  const lockScreen = locked ? <KioskLockedScreen stationName={stationName} /> : null
+
   if (activeList) {
     // Printing is a property of the LIST, not the station -- a
     // checkin_and_print station only actually shows print controls on
@@ -347,46 +606,72 @@ export function KioskStationShell({
     // though the station's printer hardware is fully configured.
     const effectiveMode = mode === "checkin_and_print" && activeList.prints_badge ? "checkin_and_print" : "checkin"
     return (
-      <KioskCheckinScreen
-        key={activeList.id}
-        eventId={eventId}
-        listId={activeList.id}
-        stationToken={stationToken}
-        stationName={stationName}
-        mode={effectiveMode}
-        autoPrintBadge={autoPrintBadge}
-        printStationId={printStationId}
-        badgeTemplate={badgeTemplate}
-        printSettings={printSettings}
-        printMode={printMode}
-        contactPhone={contactPhone}
-        externallyDriven
-        onSwitchList={requestMenu}
-        closingSoonMinutes={minutesUntilClose(activeList)}
-        listClosesAt={activeList.kiosk_closes_at}
-        category={activeList.category}
-      />
+      <>
+        <KioskCheckinScreen
+          key={activeList.id}
+          eventId={eventId}
+          listId={activeList.id}
+          stationToken={stationToken}
+          stationName={stationName}
+          mode={effectiveMode}
+          autoPrintBadge={autoPrintBadge}
+          printStationId={printStationId}
+          badgeTemplate={badgeTemplate}
+          printSettings={printSettings}
+          printMode={printMode}
+          contactPhone={contactPhone}
+          externallyDriven
+          onSwitchList={requestMenu}
+          closingSoonMinutes={minutesUntilClose(activeList)}
+          listClosesAt={activeList.kiosk_closes_at}
+          category={activeList.category}
+          doorDirection={activeList.list_purpose === "session" ? doorDirection : undefined}
+        />
+        {lockScreen}
+      </>
     )
   }
 
   return (
-    <KioskMenuScreen
-      stationName={stationName}
-      stationToken={stationToken}
-      lists={assignedLists}
-      attended={attended}
-      listCounts={listCounts}
-      mode={mode}
-      onSelect={(list) => {
-        if (!isListUsable(list, attended)) return
-        selectList(list.id, false)
-      }}
-      // Recomputed fresh on every render -- this component already re-renders
-      // at least every 30s via the `tick` state below (see that effect's
-      // comment), so this stays in sync with the exact same cadence every
-      // other schedule computation in this file already uses.
-      now={new Date()}
-    />
+    <>
+      <KioskMenuScreen
+        stationName={stationName}
+        stationToken={stationToken}
+        lists={assignedLists}
+        attended={attended}
+        listCounts={listCounts}
+        mode={mode}
+        onSelect={(list) => {
+          if (!isListUsable(list, attended)) return
+          selectList(list.id, false)
+        }}
+        // Recomputed fresh on every render -- this component already re-renders
+        // at least every 30s via the `tick` state below (see that effect's
+        // comment), so this stays in sync with the exact same cadence every
+        // other schedule computation in this file already uses.
+        now={new Date()}
+      />
+      {lockScreen}
+    </>
+  )
+}
+
+// Shown over whichever screen is active while an admin holds the station's
+// lock from the fleet console. An overlay rather than a replacement so the
+// check-in screen underneath stays mounted -- unmounting it would drop its
+// live WebUSB printer session (see the self-test link comment below).
+function KioskLockedScreen({ stationName }: { stationName: string }) {
+  return (
+    <div className="fixed inset-0 z-[100] kiosk-scope bg-background flex flex-col items-center justify-center gap-4 px-8 text-center">
+      <span className="size-16 rounded-full bg-muted flex items-center justify-center">
+        <Lock className="size-8 text-muted-foreground" />
+      </span>
+      <p className="text-sm font-semibold uppercase tracking-widest text-muted-foreground">{stationName}</p>
+      <h1 className="text-3xl font-bold tracking-tight text-foreground">This station is paused</h1>
+      <p className="max-w-md text-base text-muted-foreground">
+        The event team has paused this tablet. Please use another desk, or ask a volunteer for help.
+      </p>
+    </div>
   )
 }
 
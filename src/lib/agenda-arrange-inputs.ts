@@ -0,0 +1,72 @@
+// Shared data-fetching for auto-arrange, consumed by the proposal route
+// (POST /api/events/[eventId]/program/auto-arrange) and the per-session accept
+// route beneath it. Pure I/O wrapper around the ArrangeInput shape in
+// src/lib/agenda-auto-arrange.ts, the same split as agenda-conflict-inputs.ts.
+
+import type { ArrangeInput, ArrangeSession, FacultyAvailability } from "./agenda-auto-arrange"
+import type { FacultyAssignmentRow } from "./agenda-conflicts"
+import { eventDays } from "./session-builder-days"
+import { fetchAllPages } from "./supabase/fetch-all-pages"
+import type { VenueRow } from "./venue-tree"
+
+export type ArrangeInputs = Omit<ArrangeInput, "options">
+
+export async function fetchArrangeInputs(supabase: any, eventId: string): Promise<ArrangeInputs> {
+  // Paged for the same reason as fetchConflictInputs: a programme past 1,000
+  // sessions would otherwise look half empty, and the solver would happily
+  // propose slots that are already taken.
+  const [eventResult, sessions, assignments, halls, availability] = await Promise.all([
+    supabase.from("events").select("start_date, end_date").eq("id", eventId).maybeSingle(),
+    fetchAllPages<any>(
+      supabase
+        .from("sessions")
+        .select(
+          "id, session_name, session_date, start_time, end_time, duration_minutes, hall_id, track_id, session_type, max_attendees"
+        )
+        .eq("event_id", eventId)
+    ),
+    fetchAllPages<FacultyAssignmentRow>(
+      supabase
+        .from("faculty_assignments")
+        .select("session_id, faculty_id, faculty_name, status")
+        .eq("event_id", eventId)
+    ),
+    fetchAllPages<VenueRow>(
+      supabase
+        .from("halls")
+        .select("id, name, capacity, parent_id, kind, display_order")
+        .eq("event_id", eventId)
+    ),
+    // Travel dates are only as good as the travel desk's last update; a
+    // faculty member with none is treated as present throughout.
+    fetchAllPages<FacultyAvailability>(
+      supabase
+        .from("event_faculty")
+        .select("faculty_id, arrival_date, arrival_time, departure_date, departure_time")
+        .eq("event_id", eventId)
+    ),
+  ])
+
+  const event = eventResult?.data ?? { start_date: null, end_date: null }
+
+  return {
+    sessions: sessions.map(
+      (s: any): ArrangeSession => ({
+        id: s.id,
+        session_name: s.session_name,
+        session_date: s.session_date,
+        start_time: s.start_time,
+        end_time: s.end_time,
+        duration_minutes: s.duration_minutes,
+        hall_id: s.hall_id,
+        track_id: s.track_id,
+        session_type: s.session_type,
+        expected_attendance: s.max_attendees,
+      })
+    ),
+    assignments,
+    halls,
+    availability,
+    days: eventDays(event),
+  }
+}
@@ -0,0 +1,247 @@
+import { describe, it, expect } from "vitest"
+import {
+  proposeArrangement,
+  checkPlacement,
+  type ArrangeInput,
+  type ArrangeSession,
+} from "./agenda-auto-arrange"
+import { findFacultyDoubleBookings, findHallDoubleBookings, type FacultyAssignmentRow } from "./agenda-conflicts"
+import type { VenueRow } from "./venue-tree"
+
+const DAY1 = "2026-11-20"
+const DAY2 = "2026-11-21"
+
+const session = (overrides: Partial<ArrangeSession>): ArrangeSession => ({
+  id: "s1",
+  session_name: "Untitled",
+  session_date: null,
+  start_time: null,
+  end_time: null,
+  duration_minutes: 60,
+  hall_id: null,
+  track_id: null,
+  session_type: "lecture",
+  expected_attendance: null,
+  ...overrides,
+})
+
+const assign = (session_id: string, faculty_id: string, status = "confirmed"): FacultyAssignmentRow => ({
+  session_id,
+  faculty_id,
+  faculty_name: faculty_id.toUpperCase(),
+  status,
+})
+
+const HALLS: VenueRow[] = [
+  { id: "hall-a", name: "Hall A", capacity: 500, display_order: 1 },
+  { id: "hall-b", name: "Hall B", capacity: 120, display_order: 2 },
+]
+
+const input = (overrides: Partial<ArrangeInput>): ArrangeInput => ({
+  sessions: [],
+  halls: HALLS,
+  assignments: [],
+  days: [DAY1],
+  options: { dayStart: "09:00", dayEnd: "12:00", slotMinutes: 30 },
+  ...overrides,
+})
+
+/** The proposal applied on top of the programme, in the conflict checker's shape. */
+function applied(data: ArrangeInput) {
+  const { placements } = proposeArrangement(data)
+  return data.sessions.map((s) => {
+    const p = placements.find((x) => x.session_id === s.id)
+    return p ? { ...s, ...p.to } : s
+  })
+}
+
+describe("proposeArrangement", () => {
+  it("fills free time around the sessions already scheduled, without moving them", () => {
+    const fixed = session({ id: "fixed", session_name: "Keynote", session_date: DAY1, start_time: "09:00", end_time: "10:00", hall_id: "hall-a" })
+    const data = input({
+      sessions: [fixed, session({ id: "new", session_name: "Symposium" })],
+      halls: [HALLS[0]],
+    })
+    const { placements, unplaced } = proposeArrangement(data)
+    expect(unplaced).toEqual([])
+    expect(placements).toHaveLength(1)
+    expect(placements[0]).toMatchObject({
+      session_id: "new",
+      from: { hall_id: null, session_date: null, start_time: null, end_time: null },
+      to: { hall_id: "hall-a", session_date: DAY1, start_time: "10:00", end_time: "11:00" },
+      hall_label: "Hall A",
+    })
+  })
+
+  it("gives the same proposal for the same programme, whatever order the rows arrive in", () => {
+    const sessions = ["c", "a", "b", "d"].map((id) => session({ id, session_name: `Session ${id}`, track_id: id < "c" ? "t1" : "t2" }))
+    const first = proposeArrangement(input({ sessions }))
+    const second = proposeArrangement(input({ sessions: [...sessions].reverse() }))
+    expect(second).toEqual(first)
+  })
+
+  it("never produces a blocking hall clash or a faculty double booking", () => {
+    const sessions = [
+      session({ id: "k", session_name: "Keynote", session_date: DAY1, start_time: "09:00", end_time: "10:00", hall_id: "hall-a" }),
+      ...Array.from({ length: 5 }, (_, i) => session({ id: `s${i}`, session_name: `Session ${i}` })),
+    ]
+    const assignments = [assign("k", "f1"), assign("s0", "f1"), assign("s1", "f1"), assign("s2", "f2"), assign("s3", "f2")]
+    const data = input({ sessions, assignments })
+    const result = applied(data)
+    expect(findHallDoubleBookings(result, HALLS).filter((c) => c.severity === "blocking")).toEqual([])
+    expect(findFacultyDoubleBookings(result, assignments)).toEqual([])
+  })
+
+  it("treats a hall and its screens as one space", () => {
+    const halls: VenueRow[] = [
+      { id: "main", name: "Main Hall", capacity: 900, display_order: 1 },
+      { id: "scr-1", name: "Screen 1", capacity: 300, parent_id: "main", kind: "screen", display_order: 1 },
+    ]
+    const busy = session({ id: "busy", session_name: "Plenary", session_date: DAY1, start_time: "09:00", end_time: "12:00", hall_id: "main" })
+    const { placements, unplaced } = proposeArrangement(input({ sessions: [busy, session({ id: "new" })], halls }))
+    expect(placements).toEqual([])
+    expect(unplaced[0]).toMatchObject({ session_id: "new", reason: "no_slot" })
+  })
+
+  it("offers screens, never the hall they split", () => {
+    const halls: VenueRow[] = [
+      { id: "main", name: "Main Hall", capacity: 900, display_order: 1 },
+      { id: "scr-1", name: "Screen 1", capacity: 300, parent_id: "main", kind: "screen", display_order: 1 },
+    ]
+    const { placements } = proposeArrangement(input({ sessions: [session({ id: "new" })], halls }))
+    expect(placements[0].to.hall_id).toBe("scr-1")
+    expect(placements[0].hall_label).toBe("Main Hall › Screen 1")
+  })
+
+  it("keeps every room clear while a venue-wide break runs", () => {
+    const lunch = session({ id: "lunch", session_name: "Lunch", session_type: "break", session_date: DAY1, start_time: "09:00", end_time: "10:00" })
+    const { placements } = proposeArrangement(input({ sessions: [lunch, session({ id: "new" })] }))
+    expect(placements[0].to.start_time).toBe("10:00")
+  })
+
+  it("leaves unscheduled breaks to the coordinator", () => {
+    const { placements, unplaced } = proposeArrangement(input({ sessions: [session({ id: "tea", session_name: "Tea", session_type: "break" })] }))
+    expect(placements).toEqual([])
+    expect(unplaced).toEqual([expect.objectContaining({ session_id: "tea", reason: "break" })])
+  })
+
+  it("puts the session in the snuggest room that seats it", () => {
+    const small = session({ id: "small", expected_attendance: 80 })
+    const large = session({ id: "large", expected_attendance: 300 })
+    const { placements } = proposeArrangement(input({ sessions: [small, large] }))
+    expect(placements.find((p) => p.session_id === "small")?.to.hall_id).toBe("hall-b")
+    expect(placements.find((p) => p.session_id === "large")?.to.hall_id).toBe("hall-a")
+  })
+
+  it("reports a session no room can seat", () => {
+    const { unplaced } = proposeArrangement(input({ sessions: [session({ id: "huge", expected_attendance: 2000 })] }))
+    expect(unplaced).toEqual([expect.objectContaining({ session_id: "huge", reason: "too_large" })])
+  })
+
+  it("schedules faculty only while they are at the venue", () => {
+    const data = input({
+      sessions: [session({ id: "talk" })],
+      assignments: [assign("talk", "f1")],
+      days: [DAY1, DAY2],
+      availability: [{ faculty_id: "f1", arrival_date: DAY2, arrival_time: "10:30", departure_date: null, departure_time: null }],
+    })
+    const { placements } = proposeArrangement(data)
+    expect(placements[0].to).toMatchObject({ session_date: DAY2, start_time: "10:30" })
+  })
+
+  it("says so when faculty are never at the venue during the event", () => {
+    const data = input({
+      sessions: [session({ id: "talk" })],
+      assignments: [assign("talk", "f1")],
+      availability: [{ faculty_id: "f1", arrival_date: DAY2, arrival_time: null, departure_date: null, departure_time: null }],
+    })
+    expect(proposeArrangement(data).unplaced).toEqual([expect.objectContaining({ reason: "faculty_unavailable" })])
+  })
+
+  it("ignores assignments the faculty member has declined", () => {
+    const fixed = session({ id: "fixed", session_date: DAY1, start_time: "09:00", end_time: "10:00", hall_id: "hall-a" })
+    const data = input({
+      sessions: [fixed, session({ id: "new" })],
+      halls: HALLS,
+      assignments: [assign("fixed", "f1"), assign("new", "f1", "declined")],
+    })
+    // hall-b at 09:00 is free, and f1 won't be in "new" any more.
+    expect(proposeArrangement(data).placements[0].to).toMatchObject({ hall_id: "hall-b", start_time: "09:00" })
+  })
+
+  it("keeps a track together in one room, back to back", () => {
+    const opener = session({ id: "t0", session_name: "Hernia I", track_id: "hernia", session_date: DAY1, start_time: "09:00", end_time: "10:00", hall_id: "hall-b" })
+    const next = session({ id: "t1", session_name: "Hernia II", track_id: "hernia" })
+    const { placements } = proposeArrangement(input({ sessions: [opener, next] }))
+    expect(placements[0].to).toMatchObject({ hall_id: "hall-b", start_time: "10:00" })
+    expect(placements[0].notes).toContain('Follows "Hernia I" from the same track')
+  })
+
+  it("doesn't run a track in two rooms at once when it can help it", () => {
+    const running = session({ id: "t0", track_id: "hernia", session_date: DAY1, start_time: "09:00", end_time: "12:00", hall_id: "hall-a" })
+    const data = input({ sessions: [running, session({ id: "t1", track_id: "hernia" })], days: [DAY1, DAY2] })
+    expect(proposeArrangement(data).placements[0].to.session_date).toBe(DAY2)
+  })
+
+  it("honours the parts of a session that are already pinned", () => {
+    const data = input({
+      sessions: [session({ id: "pinned", hall_id: "hall-b", start_time: "11:00", end_time: "11:45" })],
+      days: [DAY1, DAY2],
+    })
+    expect(proposeArrangement(data).placements[0].to).toEqual({
+      hall_id: "hall-b",
+      session_date: DAY1,
+      start_time: "11:00",
+      end_time: "11:45",
+    })
+  })
+
+  it("enforces the changeover gap and the longest run without a break", () => {
+    const fixed = session({ id: "fixed", session_date: DAY1, start_time: "09:00", end_time: "10:00", hall_id: "hall-a" })
+    const changeover = proposeArrangement(
+      input({ sessions: [fixed, session({ id: "new" })], halls: [HALLS[0]], options: { dayStart: "09:00", dayEnd: "12:00", slotMinutes: 15, changeoverMinutes: 15 } })
+    )
+    expect(changeover.placements[0].to.start_time).toBe("10:15")
+
+    const run = proposeArrangement(
+      input({
+        sessions: [fixed, session({ id: "new" })],
+        halls: [HALLS[0]],
+        options: { dayStart: "09:00", dayEnd: "12:00", slotMinutes: 15, maxContinuousMinutes: 90, minBreakMinutes: 30 },
+      })
+    )
+    expect(run.placements[0].to.start_time).toBe("10:30")
+  })
+
+  it("needs a duration to place a session", () => {
+    const { unplaced } = proposeArrangement(input({ sessions: [session({ id: "x", duration_minutes: null })] }))
+    expect(unplaced).toEqual([expect.objectContaining({ reason: "no_duration" })])
+  })
+})
+
+describe("checkPlacement", () => {
+  const fixed = session({ id: "fixed", session_name: "Keynote", session_date: DAY1, start_time: "09:00", end_time: "10:00", hall_id: "hall-a" })
+  const slot = { hall_id: "hall-a", session_date: DAY1, start_time: "09:30", end_time: "10:30" }
+
+  it("passes a slot that is still free", () => {
+    const data = input({ sessions: [fixed, session({ id: "new" })] })
+    expect(checkPlacement(data, "new", { ...slot, start_time: "10:00", end_time: "11:00" })).toEqual([])
+  })
+
+  it("lists every reason a slot has gone bad since it was proposed", () => {
+    const data = input({
+      sessions: [fixed, session({ id: "new", expected_attendance: 800 })],
+      assignments: [assign("fixed", "f1"), assign("new", "f1")],
+    })
+    expect(checkPlacement(data, "new", slot)).toEqual([
+      "Hall A seats 500; this session needs 800",
+      'The room is taken by "Keynote"',
+      'F1 is in "Keynote" then',
+    ])
+  })
+
+  it("doesn't count the session against its own current slot", () => {
+    const data = input({ sessions: [fixed] })
+    expect(checkPlacement(data, "fixed", slot)).toEqual([])
+  })
+})
@@ -0,0 +1,636 @@
+// Auto-arrange -- proposing a hall and time for every unscheduled session.
+//
+// Pure and framework-free, like the rest of src/lib/agenda-*: callers fetch
+// sessions, halls, assignments and faculty travel dates (see
+// src/lib/agenda-arrange-inputs.ts) and pass plain data in. Nothing here reads
+// the clock or a random source, so one programme always yields one proposal --
+// which is what lets a coordinator reload the screen and find the same
+// suggestions, and what lets the tests pin them down.
+//
+// WHAT IT IS NOT
+//
+// It never moves a session that is already scheduled. Those are the fixed
+// points the programme committee argued over; an optimiser that reshuffles
+// them to fit one more symposium is answering a question nobody asked. It
+// only fills gaps, and only proposes: each placement is accepted (or not) one
+// session at a time, and acceptance re-checks the slot against the programme
+// as it is then (checkPlacement).
+//
+// HOW IT DECIDES
+//
+// Greedy, most-constrained first: sessions pinned to a day, time or hall and
+// sessions whose faculty are only around part of the event go first, because
+// they have the fewest places to go. Then a track at a time, so each track's
+// sessions can gather in one hall. For each session every (day, start, room)
+// is tried against the hard rules --
+//
+//   * the room is free (a hall is taken by its own screens and vice versa,
+//     exactly as findHallDoubleBookings judges it), with the changeover gap,
+//   * no break is running venue-wide,
+//   * no faculty member is in two places (faculty_double_booking),
+//   * every faculty member has arrived and not yet left,
+//   * the room seats the session,
+//   * the room doesn't run longer than the break rules allow without a pause
+//
+// -- and the survivors are ranked: no clash with the same track elsewhere,
+// then next to the same track in the same room, then the earliest day, then
+// the snuggest room, then the earliest start. A greedy pass won't find the
+// placement a full search might, but every choice it makes can be explained
+// in a sentence, and the notes on each placement do exactly that.
+
+import { hallsShareSpace, type FacultyAssignmentRow } from "./agenda-conflicts"
+import { normaliseSessionType } from "./agenda-roles"
+import { isAnchor, toClock, toMinutes } from "./session-timeline"
+import { buildHallLabels, buildVenueTree, toLocationOptions, type VenueRow } from "./venue-tree"
+
+export interface ArrangeSession {
+  id: string
+  session_name: string
+  session_date: string | null
+  start_time: string | null
+  end_time: string | null
+  duration_minutes?: number | null
+  hall_id: string | null
+  track_id?: string | null
+  session_type?: string | null
+  /** Seats the session needs. Null when nobody knows yet. */
+  expected_attendance?: number | null
+}
+
+/** From event_faculty's travel: when a faculty member is actually at the venue. */
+export interface FacultyAvailability {
+  faculty_id: string
+  arrival_date: string | null
+  arrival_time: string | null
+  departure_date: string | null
+  departure_time: string | null
+}
+
+export interface ArrangeOptions {
+  /** First start time tried each day, HH:MM. */
+  dayStart: string
+  /** Nothing is placed to end after this, HH:MM. */
+  dayEnd: string
+  /** Start times are tried on this grid. */
+  slotMinutes: number
+  /** Minimum gap between two sessions in one room, for the turnover. */
+  changeoverMinutes: number
+  /**
+   * Longest a room may run without a pause of at least minBreakMinutes (a
+   * break session counts as a pause). Null switches the rule off.
+   */
+  maxContinuousMinutes: number | null
+  minBreakMinutes: number
+}
+
+export const DEFAULT_ARRANGE_OPTIONS: ArrangeOptions = {
+  dayStart: "09:00",
+  dayEnd: "18:00",
+  slotMinutes: 15,
+  changeoverMinutes: 0,
+  maxContinuousMinutes: null,
+  minBreakMinutes: 15,
+}
+
+export interface ArrangeInput {
+  sessions: readonly ArrangeSession[]
+  halls: readonly VenueRow[]
+  assignments: readonly FacultyAssignmentRow[]
+  availability?: readonly FacultyAvailability[]
+  /** The event's days, yyyy-mm-dd, in order. */
+  days: readonly string[]
+  options?: Partial<ArrangeOptions>
+}
+
+export interface SessionSlot {
+  hall_id: string
+  session_date: string
+  start_time: string
+  end_time: string
+}
+
+export interface ProposedPlacement {
+  session_id: string
+  session_name: string
+  /** Where the session stands now -- whatever parts of it are already set. */
+  from: {
+    hall_id: string | null
+    session_date: string | null
+    start_time: string | null
+    end_time: string | null
+  }
+  to: SessionSlot
+  hall_label: string
+  /** Why here, in a sentence or two. */
+  notes: string[]
+}
+
+export type UnplacedReason = "break" | "no_duration" | "too_large" | "faculty_unavailable" | "no_slot"
+
+export interface UnplacedSession {
+  session_id: string
+  session_name: string
+  reason: UnplacedReason
+  message: string
+}
+
+export interface ArrangeProposal {
+  placements: ProposedPlacement[]
+  unplaced: UnplacedSession[]
+}
+
+/**
+ * Assignment statuses that don't put a person in the room -- mirrors
+ * agenda-open-slots. A speaker who declined can't double-book.
+ */
+const VACATING_STATUSES: ReadonlySet<string> = new Set(["declined", "cancelled", "withdrawn"])
+
+// ---------------------------------------------------------------------------
+// The programme as occupied time
+// ---------------------------------------------------------------------------
+
+interface Booking {
+  session_id: string
+  session_name: string
+  date: string
+  start: number
+  end: number
+  /** Null only for a venue-wide break. */
+  hall_id: string | null
+  track_id: string | null
+  faculty: string[]
+  isBreak: boolean
+}
+
+interface Candidate {
+  date: string
+  start: number
+  end: number
+  hall_id: string
+}
+
+type RejectionCode =
+  | "room_busy"
+  | "break"
+  | "faculty_busy"
+  | "faculty_unavailable"
+  | "too_large"
+  | "continuous_run"
+
+interface Rejection {
+  code: RejectionCode
+  message: string
+}
+
+interface Location {
+  id: string
+  label: string
+  capacity: number | null
+  order: number
+}
+
+const isBreakSession = (s: ArrangeSession) =>
+  isAnchor({ id: s.id, start_time: s.start_time, end_time: s.end_time, talk_type: normaliseSessionType(s.session_type) })
+
+/** A break needs only a day and times -- without a hall it holds the whole venue. */
+function isScheduled(s: ArrangeSession): boolean {
+  if (!s.session_date || toMinutes(s.start_time) === null || toMinutes(s.end_time) === null) return false
+  return !!s.hall_id || isBreakSession(s)
+}
+
+function durationOf(s: ArrangeSession): number | null {
+  const start = toMinutes(s.start_time)
+  const end = toMinutes(s.end_time)
+  if (start !== null && end !== null && end > start) return end - start
+  return s.duration_minutes && s.duration_minutes > 0 ? s.duration_minutes : null
+}
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }, gap = 0) =>
+  a.start < b.end + gap && b.start < a.end + gap
+
+class Programme {
+  private bookings: Booking[] = []
+  private byDate = new Map<string, Booking[]>()
+  private byFaculty = new Map<string, Booking[]>()
+
+  constructor(
+    readonly options: ArrangeOptions,
+    readonly parentOf: ReadonlyMap<string, string | null>,
+    readonly locations: ReadonlyMap<string, Location>,
+    private readonly availability: ReadonlyMap<string, FacultyAvailability>,
+    private readonly facultyNames: ReadonlyMap<string, string>
+  ) {}
+
+  add(booking: Booking) {
+    this.bookings.push(booking)
+    this.byDate.set(booking.date, [...(this.byDate.get(booking.date) ?? []), booking])
+    for (const id of booking.faculty) {
+      this.byFaculty.set(id, [...(this.byFaculty.get(id) ?? []), booking])
+    }
+  }
+
+  onDate(date: string): readonly Booking[] {
+    return this.byDate.get(date) ?? []
+  }
+
+  /** Every rule `candidate` breaks, or only the first when `firstOnly`. */
+  rejections(
+    session: { expected_attendance?: number | null; faculty: string[] },
+    candidate: Candidate,
+    firstOnly: boolean
+  ): Rejection[] {
+    const out: Rejection[] = []
+    const done = () => firstOnly && out.length > 0
+    const day = this.onDate(candidate.date)
+
+    const location = this.locations.get(candidate.hall_id)
+    const needed = session.expected_attendance ?? null
+    if (needed !== null && location?.capacity != null && needed > location.capacity) {
+      out.push({ code: "too_large", message: `${location.label} seats ${location.capacity}; this session needs ${needed}` })
+      if (done()) return out
+    }
+
+    for (const b of day) {
+      if (b.isBreak && b.hall_id === null && overlaps(b, candidate)) {
+        out.push({ code: "break", message: `"${b.session_name}" is on for the whole venue then` })
+        if (done()) return out
+        continue
+      }
+      if (hallsShareSpace(b.hall_id, candidate.hall_id, this.parentOf) && overlaps(b, candidate, this.options.changeoverMinutes)) {
+        out.push({ code: "room_busy", message: `The room is taken by "${b.session_name}"` })
+        if (done()) return out
+      }
+    }
+
+    for (const id of session.faculty) {
+      const name = this.facultyNames.get(id) ?? "A faculty member"
+      const clash = (this.byFaculty.get(id) ?? []).find((b) => b.date === candidate.date && overlaps(b, candidate))
+      if (clash) {
+        out.push({ code: "faculty_busy", message: `${name} is in "${clash.session_name}" then` })
+        if (done()) return out
+      }
+      if (!this.isAvailable(id, candidate)) {
+        out.push({ code: "faculty_unavailable", message: `${name} isn't at the venue then` })
+        if (done()) return out
+      }
+    }
+
+    const run = this.continuousRun(candidate)
+    if (run !== null) {
+      out.push({
+        code: "continuous_run",
+        message: `The room would run ${run} minutes without a break (limit ${this.options.maxContinuousMinutes})`,
+      })
+    }
+    return out
+  }
+
+  private isAvailable(facultyId: string, candidate: Candidate): boolean {
+    const window = this.availability.get(facultyId)
+    if (!window) return true
+    if (window.arrival_date) {
+      if (candidate.date < window.arrival_date) return false
+      const arrives = toMinutes(window.arrival_time)
+      if (candidate.date === window.arrival_date && arrives !== null && candidate.start < arrives) return false
+    }
+    if (window.departure_date) {
+      if (candidate.date > window.departure_date) return false
+      const leaves = toMinutes(window.departure_time)
+      if (candidate.date === window.departure_date && leaves !== null && candidate.end > leaves) return false
+    }
+    return true
+  }
+
+  /** Length of the run `candidate` would join, when that breaks the limit. */
+  private continuousRun(candidate: Candidate): number | null {
+    const limit = this.options.maxContinuousMinutes
+    if (limit === null) return null
+    const spans = this.onDate(candidate.date)
+      .filter((b) => !b.isBreak && hallsShareSpace(b.hall_id, candidate.hall_id, this.parentOf))
+      .map((b) => ({ start: b.start, end: b.end }))
+      .concat({ start: candidate.start, end: candidate.end })
+      .sort((a, b) => a.start - b.start)
+
+    let runStart = spans[0].start
+    let runEnd = spans[0].end
+    for (const span of spans.slice(1)) {
+      if (span.start - runEnd < this.options.minBreakMinutes) {
+        runEnd = Math.max(runEnd, span.end)
+        continue
+      }
+      if (runStart <= candidate.start && candidate.end <= runEnd) break
+      runStart = span.start
+      runEnd = span.end
+    }
+    return runEnd - runStart > limit ? runEnd - runStart : null
+  }
+}
+
+interface Prepared {
+  programme: Programme
+  options: ArrangeOptions
+  locationList: Location[]
+  facultyBySession: Map<string, string[]>
+  hallLabel: (id: string) => string
+}
+
+function prepare(input: ArrangeInput, exclude?: string): Prepared {
+  const options = { ...DEFAULT_ARRANGE_OPTIONS, ...input.options }
+  const parentOf = new Map(input.halls.map((h) => [h.id, h.parent_id ?? null]))
+
+  // A session goes in a flat hall or a screen -- the same rooms the Session
+  // Builder's picker offers -- never a hall that is split into screens. A
+  // pinned hall_id may still name one, so every row keeps a label.
+  const labels = buildHallLabels(input.halls)
+  const locationList: Location[] = toLocationOptions(buildVenueTree(input.halls))
+    .filter((o) => o.selectable)
+    .map((o, order) => ({ id: o.id, label: labels.get(o.id) ?? o.label, capacity: o.capacity, order }))
+  const locations = new Map(locationList.map((l) => [l.id, l]))
+  for (const h of input.halls) {
+    if (!locations.has(h.id)) {
+      locations.set(h.id, { id: h.id, label: labels.get(h.id) ?? h.name, capacity: h.capacity ?? null, order: Infinity })
+    }
+  }
+
+  const facultyBySession = new Map<string, string[]>()
+  const facultyNames = new Map<string, string>()
+  for (const a of input.assignments) {
+    if (!a.faculty_id || VACATING_STATUSES.has((a.status ?? "").toLowerCase())) continue
+    const list = facultyBySession.get(a.session_id) ?? []
+    if (!list.includes(a.faculty_id)) list.push(a.faculty_id)
+    facultyBySession.set(a.session_id, list)
+    if (a.faculty_name) facultyNames.set(a.faculty_id, a.faculty_name)
+  }
+
+  const programme = new Programme(
+    options,
+    parentOf,
+    locations,
+    new Map((input.availability ?? []).map((w) => [w.faculty_id, w])),
+    facultyNames
+  )
+  for (const s of input.sessions) {
+    if (s.id === exclude || !isScheduled(s)) continue
+    programme.add({
+      session_id: s.id,
+      session_name: s.session_name,
+      date: s.session_date!,
+      start: toMinutes(s.start_time)!,
+      end: toMinutes(s.end_time)!,
+      hall_id: s.hall_id,
+      track_id: s.track_id ?? null,
+      faculty: facultyBySession.get(s.id) ?? [],
+      isBreak: isBreakSession(s),
+    })
+  }
+
+  return {
+    programme,
+    options,
+    locationList,
+    facultyBySession,
+    hallLabel: (id) => locations.get(id)?.label ?? "the room",
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Ranking
+// ---------------------------------------------------------------------------
+
+interface Scored {
+  candidate: Candidate
+  /** Compared left to right; lower wins. */
+  rank: number[]
+  adjacent: Booking[]
+  waste: number | null
+}
+
+function score(
+  prepared: Prepared,
+  session: ArrangeSession,
+  candidate: Candidate,
+  dayIndex: number
+): Scored {
+  const { programme, options } = prepared
+  const track = session.track_id ?? null
+  let trackClashes = 0
+  const adjacent: Booking[] = []
+  let sameRoom = 0
+  if (track) {
+    for (const b of programme.onDate(candidate.date)) {
+      if (b.track_id !== track) continue
+      const sameSpace = hallsShareSpace(b.hall_id, candidate.hall_id, programme.parentOf)
+      // Delegates following a track can't be in two rooms at once.
+      if (!sameSpace && overlaps(b, candidate)) trackClashes++
+      if (!sameSpace) continue
+      sameRoom = 1
+      const gap = options.changeoverMinutes
+      if (Math.abs(b.end - candidate.start) <= gap || Math.abs(candidate.end - b.start) <= gap) adjacent.push(b)
+    }
+  }
+
+  const location = programme.locations.get(candidate.hall_id)!
+  const needed = session.expected_attendance ?? null
+  const waste = needed !== null && location.capacity !== null ? location.capacity - needed : null
+
+  return {
+    candidate,
+    rank: [
+      trackClashes,
+      -adjacent.length,
+      -sameRoom,
+      dayIndex,
+      // An unknown fit sorts after every known one.
+      waste ?? Number.MAX_SAFE_INTEGER,
+      candidate.start,
+      location.order,
+    ],
+    adjacent,
+    waste,
+  }
+}
+
+function better(a: Scored, b: Scored | null): boolean {
+  if (!b) return true
+  for (let i = 0; i < a.rank.length; i++) {
+    if (a.rank[i] !== b.rank[i]) return a.rank[i] < b.rank[i]
+  }
+  return false
+}
+
+// ---------------------------------------------------------------------------
+// Propose
+// ---------------------------------------------------------------------------
+
+const UNPLACED_MESSAGES: Record<UnplacedReason, string> = {
+  break: "Breaks hold the time you give them -- set this one by hand.",
+  no_duration: "Give the session a duration or an end time so it can be placed.",
+  too_large: "No room seats the expected audience.",
+  faculty_unavailable: "Its faculty aren't all at the venue at any one time.",
+  no_slot: "Every room is taken whenever its faculty are free.",
+}
+
+export function proposeArrangement(input: ArrangeInput): ArrangeProposal {
+  const prepared = prepare(input)
+  const { programme, options, locationList, facultyBySession } = prepared
+  const dayStart = toMinutes(options.dayStart) ?? 0
+  const dayEnd = toMinutes(options.dayEnd) ?? 24 * 60
+  const step = Math.max(5, options.slotMinutes)
+
+  const placements: ProposedPlacement[] = []
+  const unplaced: UnplacedSession[] = []
+  const skip = (s: ArrangeSession, reason: UnplacedReason) =>
+    unplaced.push({ session_id: s.id, session_name: s.session_name, reason, message: UNPLACED_MESSAGES[reason] })
+
+  const pending = input.sessions.filter((s) => !isScheduled(s))
+  const pinned = (s: ArrangeSession) =>
+    (s.session_date ? 1 : 0) + (toMinutes(s.start_time) !== null ? 1 : 0) + (s.hall_id ? 1 : 0)
+  const limitedFaculty = (s: ArrangeSession) =>
+    (facultyBySession.get(s.id) ?? []).some((id) =>
+      (input.availability ?? []).some((w) => w.faculty_id === id && (w.arrival_date || w.departure_date))
+    )
+      ? 1
+      : 0
+  const ordered = [...pending].sort(
+    (a, b) =>
+      pinned(b) - pinned(a) ||
+      limitedFaculty(b) - limitedFaculty(a) ||
+      Number(!a.track_id) - Number(!b.track_id) ||
+      (a.track_id ?? "").localeCompare(b.track_id ?? "") ||
+      (durationOf(b) ?? 0) - (durationOf(a) ?? 0) ||
+      a.session_name.localeCompare(b.session_name) ||
+      a.id.localeCompare(b.id)
+  )
+
+  for (const session of ordered) {
+    if (isBreakSession(session)) {
+      skip(session, "break")
+      continue
+    }
+    const duration = durationOf(session)
+    if (duration === null) {
+      skip(session, "no_duration")
+      continue
+    }
+
+    const faculty = facultyBySession.get(session.id) ?? []
+    const days = session.session_date ? [session.session_date] : input.days
+    const pinnedStart = toMinutes(session.start_time)
+    const rooms = session.hall_id
+      ? [programme.locations.get(session.hall_id)].filter((l): l is Location => !!l)
+      : locationList
+
+    const counts = new Map<RejectionCode, number>()
+    let best: Scored | null = null
+    days.forEach((date, i) => {
+      const dayIndex = input.days.indexOf(date) === -1 ? i : input.days.indexOf(date)
+      const starts: number[] = []
+      if (pinnedStart !== null) starts.push(pinnedStart)
+      else for (let t = dayStart; t + duration <= dayEnd; t += step) starts.push(t)
+
+      for (const start of starts) {
+        for (const room of rooms) {
+          const candidate = { date, start, end: start + duration, hall_id: room.id }
+          const [rejection] = programme.rejections(
+            { expected_attendance: session.expected_attendance, faculty },
+            candidate,
+            true
+          )
+          if (rejection) {
+            counts.set(rejection.code, (counts.get(rejection.code) ?? 0) + 1)
+            continue
+          }
+          const scored = score(prepared, session, candidate, dayIndex)
+          if (better(scored, best)) best = scored
+        }
+      }
+    })
+
+    if (!best) {
+      const tried = [...counts.values()].reduce((n, c) => n + c, 0)
+      if (tried > 0 && counts.get("too_large") === tried) skip(session, "too_large")
+      else if (counts.has("faculty_unavailable") && !counts.has("room_busy") && !counts.has("faculty_busy")) {
+        skip(session, "faculty_unavailable")
+      } else skip(session, "no_slot")
+      continue
+    }
+
+    const chosen: Scored = best
+    const { candidate } = chosen
+    programme.add({
+      session_id: session.id,
+      session_name: session.session_name,
+      date: candidate.date,
+      start: candidate.start,
+      end: candidate.end,
+      hall_id: candidate.hall_id,
+      track_id: session.track_id ?? null,
+      faculty,
+      isBreak: false,
+    })
+
+    const notes: string[] = []
+    for (const b of chosen.adjacent) {
+      notes.push(b.end <= candidate.start ? `Follows "${b.session_name}" from the same track` : `Leads into "${b.session_name}" from the same track`)
+    }
+    const location = programme.locations.get(candidate.hall_id)!
+    if (chosen.waste !== null) notes.push(`Seats ${session.expected_attendance} in a room for ${location.capacity}`)
+    if (faculty.length > 0) {
+      notes.push(`${faculty.length === 1 ? "Its faculty member is" : `All ${faculty.length} faculty are`} free and at the venue`)
+    }
+
+    placements.push({
+      session_id: session.id,
+      session_name: session.session_name,
+      from: {
+        hall_id: session.hall_id,
+        session_date: session.session_date,
+        start_time: session.start_time,
+        end_time: session.end_time,
+      },
+      to: {
+        hall_id: candidate.hall_id,
+        session_date: candidate.date,
+        start_time: toClock(candidate.start),
+        end_time: toClock(candidate.end),
+      },
+      hall_label: prepared.hallLabel(candidate.hall_id),
+      notes,
+    })
+  }
+
+  placements.sort(
+    (a, b) =>
+      a.to.session_date.localeCompare(b.to.session_date) ||
+      a.to.start_time.localeCompare(b.to.start_time) ||
+      a.hall_label.localeCompare(b.hall_label)
+  )
+  unplaced.sort((a, b) => a.session_name.localeCompare(b.session_name))
+  return { placements, unplaced }
+}
+
+/**
+ * Everything wrong with putting `sessionId` at `slot` in the programme as it
+ * stands -- empty when the slot is still good. Acceptance runs this against a
+ * fresh read, because the proposal may be minutes old and other placements
+ * may have been accepted or edited since.
+ */
+export function checkPlacement(input: ArrangeInput, sessionId: string, slot: SessionSlot): string[] {
+  const session = input.sessions.find((s) => s.id === sessionId)
+  if (!session) return ["That session is no longer in the programme"]
+
+  const start = toMinutes(slot.start_time)
+  const end = toMinutes(slot.end_time)
+  if (start === null || end === null || end <= start) return ["The proposed end time is not after its start"]
+
+  const { programme, facultyBySession } = prepare(input, sessionId)
+  if (!programme.locations.has(slot.hall_id)) return ["That room is no longer in the venue"]
+
+  return programme
+    .rejections(
+      { expected_attendance: session.expected_attendance, faculty: facultyBySession.get(sessionId) ?? [] },
+      { date: slot.session_date, start, end, hall_id: slot.hall_id },
+      false
+    )
+    .map((r) => r.message)
+}
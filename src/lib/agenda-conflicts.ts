@@ -12,6 +12,9 @@ export interface ConflictSession {
   hall_id: string | null
 }
 
+/** Just when a session runs -- all sessionsOverlap needs. */
+export type SessionSlot = Pick<ConflictSession, "session_date" | "start_time" | "end_time">
+
 export interface FacultyAssignmentRow {
   session_id: string
   faculty_id: string | null
@@ -43,7 +46,8 @@ function toMinutes(time: string | null): number | null {
   return (h || 0) * 60 + (m || 0)
 }
 
-function sessionsOverlap(a: ConflictSession, b: ConflictSession): boolean {
+/** Same day, and the time ranges overlap (touching end-to-start doesn't count). */
+export function sessionsOverlap(a: SessionSlot, b: SessionSlot): boolean {
   if (!a.session_date || !b.session_date || a.session_date !== b.session_date) return false
   const aStart = toMinutes(a.start_time)
   const aEnd = toMinutes(a.end_time)
@@ -68,14 +72,22 @@ export interface HallRef {
  *   two different screens of one hall  -> NO, that is what screens are for
  *   the parent hall and one of its own screens -> yes, the room is taken
  */
+export function hallsShareSpace(
+  a: string | null,
+  b: string | null,
+  parentOf: ReadonlyMap<string, string | null>
+): boolean {
+  if (!a || !b) return false
+  if (a === b) return true
+  return parentOf.get(a) === b || parentOf.get(b) === a
+}
+
 function sharesSpace(
   a: ConflictSession,
   b: ConflictSession,
   parentOf: Map<string, string | null>
 ): boolean {
-  if (!a.hall_id || !b.hall_id) return false
-  if (a.hall_id === b.hall_id) return true
-  return parentOf.get(a.hall_id) === b.hall_id || parentOf.get(b.hall_id) === a.hall_id
+  return hallsShareSpace(a.hall_id, b.hall_id, parentOf)
 }
 
 /**
@@ -144,6 +144,24 @@ describe("the 1,242-session trap", () => {
     expect(slots[0].state).toBe("open")
   })
 
+  it("stays unverified while resolver-accepted rows cover only some of the text", () => {
+    const resolved = (match_text: string): AssignmentRow => ({
+      ...assign("s1", "speaker"),
+      faculty_name: match_text,
+      match_source: "session_text",
+      match_text,
+    })
+    const input = {
+      sessions: [session({ id: "s1", speakers: "Dr. Anitha Ravindran, Dr. Meera Kulkarni" })],
+      requirements: [req("s1", "speaker", 3)],
+    }
+    const partly = getOpenSlots({ ...input, assignments: [resolved("Dr. Anitha Ravindran")] })
+    expect(partly[0].state).toBe("unverified")
+
+    const fully = getOpenSlots({ ...input, assignments: [resolved("Dr. Anitha Ravindran"), resolved("Dr. Meera Kulkarni")] })
+    expect(fully[0].state).toBe("open")
+  })
+
   it("counts unverified separately from open in the summary", () => {
     const slots = getOpenSlots({
       sessions: [
@@ -18,8 +18,13 @@
 // "somebody may already be doing this, but only a human can confirm who".
 // Auto-matching those names is explicitly deferred -- attributing a session to
 // the wrong person is worse than showing a coordinator a short review queue.
+// That queue is src/lib/faculty-name-resolver.ts: it only proposes, and the
+// rows a coordinator accepts from it carry their provenance, so one accepted
+// name out of three does not clear the block (isTextReconciled).
 
 import { ROLE_LABELS, type FacultyRole } from "./agenda-roles"
+import { isTextReconciled } from "./faculty-name-resolver"
+import type { MatchSource } from "./faculty-session-match"
 import { buildHallLabels } from "./venue-tree"
 
 // Label formatting lives in ./venue-tree -- one owner for "Hall A › Screen 2",
@@ -67,6 +72,11 @@ export interface AssignmentRow {
   talk_id?: string | null
   role: string
   status: string | null
+  faculty_name?: string | null
+  faculty_email?: string | null
+  /** Set when the row was accepted from the faculty-name resolver. */
+  match_source?: MatchSource | null
+  match_text?: string | null
 }
 
 export interface HallRef {
@@ -161,9 +171,11 @@ export function getOpenSlots(input: {
 
   // Reconciliation is judged per BLOCK, not per talk: leftover free text sits on
   // the session's columns and says nothing about which talk it belongs to.
-  const sessionsWithAnyAssignment = new Set(
-    input.assignments.map((a) => a.session_id).filter((id): id is string => !!id)
-  )
+  const assignmentsBySession = new Map<string, AssignmentRow[]>()
+  for (const a of input.assignments) {
+    if (!a.session_id) continue
+    assignmentsBySession.set(a.session_id, [...(assignmentsBySession.get(a.session_id) ?? []), a])
+  }
 
   const slots: OpenSlot[] = []
 
@@ -180,12 +192,12 @@ export function getOpenSlots(input: {
     const openCount = req.required_count - filledCount
     if (openCount <= 0) continue
 
-    // Any assignment row at all for this block means somebody has already
+    // Any hand-made assignment row for this block means somebody has already
     // reconciled it; the leftover text is then just a stale duplicate, not an
-    // unreviewed roster. Only a block with NO assignments and SOME text is
-    // genuinely unverified.
+    // unreviewed roster. Rows accepted from the resolver reconcile it only
+    // once they cover every name in the text.
     const state: SlotState =
-      !sessionsWithAnyAssignment.has(req.session_id) && hasFacultyText(session)
+      hasFacultyText(session) && !isTextReconciled(session, assignmentsBySession.get(req.session_id) ?? [])
         ? "unverified"
         : "open"
 
@@ -0,0 +1,101 @@
+// Shared data-fetching for the live running order, consumed by the hall
+// coordinator's controls, the now/next hall screens and the public programme.
+// Pure I/O wrapper around projectHallDay's input shape
+// (src/lib/agenda-running-order.ts).
+
+import { localClock, projectHallDay, type HallProjection, type RunningSession } from "./agenda-running-order"
+import { fetchAllPages } from "./supabase/fetch-all-pages"
+
+export interface HallDay {
+  hall: string
+  projection: HallProjection
+}
+
+export interface RunningDay {
+  /** Event-local date being projected. */
+  date: string
+  /** Event-local wall clock the projection was made at. */
+  now_time: string
+  timezone: string
+  halls: HallDay[]
+}
+
+interface RunningSessionRow {
+  id: string
+  session_name: string
+  session_type: string | null
+  start_time: string | null
+  end_time: string | null
+  hall: string | null
+  status: string | null
+  actual_start_at: string | null
+  actual_end_at: string | null
+}
+
+/**
+ * Project every hall's day (or just `hall`'s) on `date`, which defaults to
+ * today in the event's timezone. A past day is projected as finished and a
+ * future one as not yet begun.
+ */
+export async function fetchRunningDay(
+  supabase: any,
+  eventId: string,
+  options: { hall?: string; date?: string; now?: Date } = {}
+): Promise<RunningDay> {
+  const { data: event, error: eventError } = await supabase.from("events").select("timezone").eq("id", eventId).single()
+  if (eventError || !event) throw new Error("Event not found")
+
+  const timezone: string = event.timezone ?? "Asia/Kolkata"
+  const local = localClock(options.now ?? new Date(), timezone)
+  const date = options.date ?? local.date
+  const nowTime = date === local.date ? local.time : date < local.date ? "23:59" : "00:00"
+
+  let sessionsQuery = supabase
+    .from("sessions")
+    .select("id, session_name, session_type, start_time, end_time, hall, status, actual_start_at, actual_end_at")
+    .eq("event_id", eventId)
+    .eq("session_date", date)
+  if (options.hall) sessionsQuery = sessionsQuery.eq("hall", options.hall)
+  const rows = (await fetchAllPages<RunningSessionRow>(sessionsQuery)).filter((s) => s.hall && s.status !== "cancelled")
+
+  const delays =
+    rows.length === 0
+      ? []
+      : await fetchAllPages<{ session_id: string; minutes: number | null; before_start: boolean }>(
+          supabase
+            .from("session_running_log")
+            .select("session_id, minutes, before_start")
+            .eq("event_id", eventId)
+            .eq("action", "delay")
+            .in(
+              "session_id",
+              rows.map((s) => s.id)
+            )
+        )
+
+  const toLocal = (instant: string | null) => (instant ? localClock(new Date(instant), timezone).time : null)
+  const byHall = new Map<string, RunningSession[]>()
+  for (const row of rows) {
+    const list = byHall.get(row.hall!) ?? []
+    list.push({
+      id: row.id,
+      session_name: row.session_name,
+      session_type: row.session_type,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      actual_start: toLocal(row.actual_start_at),
+      actual_end: toLocal(row.actual_end_at),
+    })
+    byHall.set(row.hall!, list)
+  }
+
+  const delayRows = delays.map((d) => ({ session_id: d.session_id, minutes: d.minutes ?? 0, before_start: d.before_start }))
+  return {
+    date,
+    now_time: nowTime,
+    timezone,
+    halls: Array.from(byHall.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([hall, sessions]) => ({ hall, projection: projectHallDay(sessions, delayRows, nowTime) })),
+  }
+}
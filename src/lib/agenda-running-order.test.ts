@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest"
+import {
+  describeLateness,
+  localClock,
+  projectHallDay,
+  summariseOverruns,
+  type RunningLogEntry,
+  type RunningSession,
+} from "./agenda-running-order"
+
+const session = (id: string, start: string, end: string, over: Partial<RunningSession> = {}): RunningSession => ({
+  id,
+  session_name: id,
+  session_type: "lecture",
+  start_time: start,
+  end_time: end,
+  actual_start: null,
+  actual_end: null,
+  ...over,
+})
+
+// A morning: three talks, then lunch held at 13:00-13:45, then the afternoon.
+const DAY = [
+  session("t1", "09:00", "10:00"),
+  session("t2", "10:00", "11:00"),
+  session("t3", "11:00", "12:45"),
+  session("lunch", "13:00", "13:45", { session_type: "break" }),
+  session("t4", "13:45", "14:30"),
+]
+
+const times = (p: ReturnType<typeof projectHallDay>) =>
+  Object.fromEntries(p.sessions.map((s) => [s.id, `${s.projected_start}-${s.projected_end} ${s.state}`]))
+
+describe("projectHallDay", () => {
+  it("runs to plan, reading now off the clock, until anything is marked", () => {
+    const p = projectHallDay(DAY, [], "10:20")
+    expect(times(p)).toMatchObject({ t1: "09:00-10:00 ended", t2: "10:00-11:00 live", t3: "11:00-12:45 upcoming" })
+    expect(p.now?.id).toBe("t2")
+    expect(p.next?.id).toBe("t3")
+    expect(p.late_minutes).toBe(0)
+    expect(p.fit.overflowMinutes).toBe(0)
+  })
+
+  it("keeps a live talk running past its planned end and moves what follows", () => {
+    const marked = [
+      session("t1", "09:00", "10:00", { actual_start: "09:05", actual_end: "10:12" }),
+      session("t2", "10:00", "11:00", { actual_start: "10:15" }),
+      ...DAY.slice(2),
+    ]
+    const p = projectHallDay(marked, [], "11:30")
+    expect(times(p)).toMatchObject({
+      t1: "09:05-10:12 ended",
+      t2: "10:15-11:30 live",
+      t3: "11:30-13:15 upcoming",
+    })
+    expect(p.now).toMatchObject({ id: "t2", late_minutes: 15, due_end: "11:15" })
+    expect(p.next).toMatchObject({ id: "t3", late_minutes: 30 })
+    expect(p.late_minutes).toBe(15)
+  })
+
+  it("lets an overrun eat into lunch rather than push the afternoon", () => {
+    const marked = [...DAY.slice(0, 2), session("t3", "11:00", "12:45", { actual_start: "11:20" }), ...DAY.slice(3)]
+    const p = projectHallDay(marked, [], "11:30")
+    expect(times(p)).toMatchObject({
+      t1: "09:00-10:00 ended",
+      t2: "10:00-11:00 ended",
+      t3: "11:20-13:05 live",
+      lunch: "13:05-13:45 upcoming",
+      t4: "13:45-14:30 upcoming",
+    })
+    expect(p.fit.overflowMinutes).toBe(0)
+  })
+
+  it("adds a pushed delay to the session's length and reports the day running over", () => {
+    const marked = [
+      ...DAY.slice(0, 3),
+      DAY[3],
+      session("t4", "13:45", "14:30", { actual_start: "13:50" }),
+    ]
+    const p = projectHallDay(marked, [{ session_id: "t4", minutes: 10, before_start: false }, { session_id: "t4", minutes: 5, before_start: false }], "14:00")
+    expect(times(p)).toMatchObject({ t4: "13:50-14:50 live" })
+    expect(p.fit.overflowMinutes).toBe(20)
+    expect(p.timeline.some((seg) => seg.kind === "overflow" && seg.id === "t4")).toBe(true)
+  })
+
+  it("pushes the afternoon only once the morning has run past the end of lunch", () => {
+    const marked = [...DAY.slice(0, 2), session("t3", "11:00", "12:45", { actual_start: "12:00" }), ...DAY.slice(3)]
+    const p = projectHallDay(marked, [{ session_id: "t3", minutes: 20, before_start: false }], "12:10")
+    expect(times(p)).toMatchObject({ t3: "12:00-14:05 live", lunch: "14:05-14:05 upcoming", t4: "14:05-14:50 upcoming" })
+    expect(p.next).toMatchObject({ id: "t4", late_minutes: 20 })
+  })
+
+  it("holds back the start of a session delayed before it began", () => {
+    const p = projectHallDay(DAY, [{ session_id: "t4", minutes: 15, before_start: true }], "12:00")
+    expect(times(p)).toMatchObject({ lunch: "13:00-13:45 upcoming", t4: "14:00-14:45 upcoming" })
+    expect(p.fit.overflowMinutes).toBe(15)
+  })
+
+  it("never projects an unstarted session into the past once the hall is tracked", () => {
+    const marked = [session("t1", "09:00", "10:00", { actual_start: "09:00", actual_end: "10:00" }), ...DAY.slice(1)]
+    const p = projectHallDay(marked, [], "10:25")
+    expect(times(p)).toMatchObject({ t2: "10:25-11:25 upcoming", t3: "11:25-13:10 upcoming" })
+    expect(p.now).toBeNull()
+    expect(p.late_minutes).toBe(25)
+  })
+
+  it("assumes a session nobody marked, before one they did, ran to plan", () => {
+    const marked = [DAY[0], DAY[1], session("t3", "11:00", "12:45", { actual_start: "11:02" }), ...DAY.slice(3)]
+    const p = projectHallDay(marked, [], "11:10")
+    expect(p.sessions.find((s) => s.id === "t2")).toMatchObject({ state: "ended", tracked: false, projected_start: "10:00", projected_end: "11:00" })
+  })
+
+  it("leaves out sessions with no planned time", () => {
+    const p = projectHallDay([...DAY, session("tba", "", "")], [], "08:00")
+    expect(p.sessions.map((s) => s.id)).not.toContain("tba")
+  })
+})
+
+describe("localClock", () => {
+  it("reads an instant in the event's timezone", () => {
+    expect(localClock(new Date("2026-08-27T03:34:00Z"), "Asia/Kolkata")).toEqual({ date: "2026-08-27", time: "09:04" })
+    expect(localClock(new Date("2026-08-26T20:00:00Z"), "Asia/Kolkata")).toEqual({ date: "2026-08-27", time: "01:30" })
+  })
+})
+
+describe("describeLateness", () => {
+  it("says how far off plan the hall is", () => {
+    expect(describeLateness(12)).toBe("Running 12 min late")
+    expect(describeLateness(0)).toBe("On time")
+    expect(describeLateness(-5)).toBe("5 min ahead")
+  })
+})
+
+describe("summariseOverruns", () => {
+  const info = [
+    { id: "t1", session_name: "Keynote", session_date: "2026-08-27", start_time: "09:00:00", end_time: "10:00:00", hall: "Hall A" },
+    { id: "t2", session_name: "Panel", session_date: "2026-08-27", start_time: "10:00:00", end_time: "11:00:00", hall: "Hall A" },
+    { id: "t3", session_name: "Video", session_date: "2026-08-27", start_time: "09:00:00", end_time: "09:30:00", hall: "Hall B" },
+  ]
+  const entry = (session_id: string, action: RunningLogEntry["action"], minutes: number, over: Partial<RunningLogEntry> = {}): RunningLogEntry => ({
+    session_id,
+    action,
+    minutes,
+    before_start: false,
+    reason: null,
+    logged_by: "Ravi",
+    created_at: "2026-08-27T04:00:00Z",
+    ...over,
+  })
+
+  it("folds the log into per-session lateness, split into holds and overruns, worst first", () => {
+    const { sessions, halls } = summariseOverruns(
+      [
+        entry("t1", "started", 5),
+        entry("t1", "delay", 10, { reason: "Q&A" }),
+        entry("t1", "ended", 15),
+        entry("t2", "delay", 5, { before_start: true, reason: "Speaker late" }),
+        entry("t2", "started", 20),
+        entry("t2", "ended", 25),
+        entry("t3", "started", -2),
+        entry("t3", "ended", 0),
+        entry("gone", "started", 99),
+      ],
+      info
+    )
+    expect(sessions.map((s) => s.id)).toEqual(["t2", "t1", "t3"])
+    expect(sessions[1]).toMatchObject({ start_late: 5, end_late: 15, held_minutes: 0, overrun_minutes: 10 })
+    expect(sessions[0]).toMatchObject({ held_minutes: 5, overrun_minutes: 0 })
+    expect(sessions[0].delays).toEqual([expect.objectContaining({ minutes: 5, before_start: true, reason: "Speaker late" })])
+    expect(halls).toEqual([
+      { hall: "Hall A", sessions: 2, late_starts: 2, overrun_minutes: 40, worst_end_late: 25 },
+      { hall: "Hall B", sessions: 1, late_starts: 0, overrun_minutes: 0, worst_end_late: 0 },
+    ])
+  })
+})
@@ -0,0 +1,341 @@
+// Running order on the day -- where a hall actually is against its plan, and
+// when everything still to come in it will really happen.
+//
+// Pure and framework-free like the rest of src/lib/agenda-*: the hall
+// coordinator's marks (started / ended, stored as sessions.actual_start_at and
+// actual_end_at) and pushed delays (session_running_log) come in as plain data,
+// already converted to the event's local wall clock by the caller.
+//
+// HOW THE REST OF THE DAY IS RE-PROJECTED
+//
+// The hall's day is treated the way session-timeline.ts treats one session's
+// talks: a running order that flows, held in place by breaks.
+//
+//   * A session that has started keeps its real start. It is projected to end
+//     after its planned length plus any delay pushed onto it -- and never
+//     before now, because a talk still running at 10:40 has not ended at 10:30
+//     whatever the plan says.
+//   * Sessions still to come start at their planned time (plus any hold
+//     pushed onto them) or when the one before them ends, whichever is later.
+//     A session can't start in the past either, once the hall is being
+//     tracked.
+//   * Breaks hold their END. An overrun eats into lunch rather than pushing it:
+//     lunch is still over at 13:45, and the afternoon starts on time. Only a
+//     morning that runs past the end of lunch makes the afternoon late.
+//
+// Until the coordinator marks anything, the day runs to plan and "now" is read
+// off the clock. A session the coordinator never marked, but that comes before
+// one they did, is taken to have run to plan -- a missed tap mustn't make the
+// board claim the hall is an hour behind.
+
+import { normaliseSessionType } from "./agenda-roles"
+import {
+  buildTimeline,
+  computeFit,
+  inRunningOrder,
+  toClock,
+  toMinutes,
+  type Fit,
+  type TimedTalk,
+  type TimelineSegment,
+} from "./session-timeline"
+
+export interface RunningSession {
+  id: string
+  session_name: string
+  session_type?: string | null
+  /** Planned, HH:MM or HH:MM:SS. */
+  start_time: string | null
+  end_time: string | null
+  /** Marked by the hall coordinator, local HH:MM. */
+  actual_start: string | null
+  actual_end: string | null
+}
+
+export interface RunningDelay {
+  session_id: string
+  minutes: number
+  /**
+   * Pushed before the session started: its start is held back (speaker late,
+   * AV not ready). Otherwise it is an overrun and lengthens the session.
+   */
+  before_start: boolean
+}
+
+export type RunningState = "ended" | "live" | "upcoming"
+
+export interface ProjectedSession {
+  id: string
+  session_name: string
+  state: RunningState
+  is_break: boolean
+  /** Whether the coordinator marked this session, as opposed to it being assumed. */
+  tracked: boolean
+  planned_start: string
+  planned_end: string
+  projected_start: string
+  projected_end: string
+  /**
+   * When a live session is due to finish: its start plus planned length plus
+   * any overrun. Unlike projected_end this can be in the past, which is what a
+   * countdown needs. Equal to projected_end for every other session.
+   */
+  due_end: string
+  /** Minutes the projected start is behind plan; negative when ahead. */
+  late_minutes: number
+}
+
+export interface HallProjection {
+  sessions: ProjectedSession[]
+  /** The session on now, if any. */
+  now: ProjectedSession | null
+  /** The next session that isn't a break. */
+  next: ProjectedSession | null
+  /** How late the hall is running: the live session's start, else the next one's. */
+  late_minutes: number
+  /** The projected day measured against the planned day; overflowMinutes is how far it now runs past the end. */
+  fit: Fit
+  timeline: TimelineSegment[]
+}
+
+const isBreak = (s: RunningSession) => normaliseSessionType(s.session_type) === "break"
+
+/**
+ * Re-project one hall's day. `nowTime` is the event-local wall clock, HH:MM.
+ * Sessions with no planned time can't be placed and are left out.
+ */
+export function projectHallDay(sessions: RunningSession[], delays: RunningDelay[], nowTime: string): HallProjection {
+  const now = toMinutes(nowTime) ?? 0
+  const overrun = new Map<string, number>()
+  const held = new Map<string, number>()
+  for (const d of delays) {
+    const into = d.before_start ? held : overrun
+    into.set(d.session_id, (into.get(d.session_id) ?? 0) + d.minutes)
+  }
+
+  const byId = new Map(sessions.map((s) => [s.id, s]))
+  const ordered = inRunningOrder(
+    sessions
+      .filter((s) => {
+        const start = toMinutes(s.start_time)
+        const end = toMinutes(s.end_time)
+        return start !== null && end !== null && end > start
+      })
+      .map((s) => ({ id: s.id, start_time: s.start_time, end_time: s.end_time }))
+  ).map((t) => byId.get(t.id)!)
+
+  const isTracked = (s: RunningSession) => s.actual_start !== null || s.actual_end !== null
+  let lastTracked = -1
+  ordered.forEach((s, i) => {
+    if (isTracked(s)) lastTracked = i
+  })
+  const tracking = lastTracked >= 0
+
+  const projected: ProjectedSession[] = []
+  let cursor = -Infinity
+
+  ordered.forEach((s, i) => {
+    const plannedStart = toMinutes(s.start_time)!
+    const plannedEnd = toMinutes(s.end_time)!
+    const length = plannedEnd - plannedStart + (overrun.get(s.id) ?? 0)
+    const earliest = plannedStart + (held.get(s.id) ?? 0)
+    const actualStart = toMinutes(s.actual_start)
+    const actualEnd = toMinutes(s.actual_end)
+
+    let start: number
+    let end: number
+    let due: number | null = null
+    let state: RunningState
+
+    if (actualEnd !== null) {
+      // Ended without a start mark: it ran up to the end mark from whenever it could have begun.
+      start = actualStart ?? Math.min(Math.max(plannedStart, cursor), actualEnd)
+      end = actualEnd
+      state = "ended"
+    } else if (actualStart !== null) {
+      start = actualStart
+      due = start + length
+      end = Math.max(due, now)
+      state = "live"
+    } else if (!tracking) {
+      start = earliest
+      end = start + length
+      state = end <= now ? "ended" : start <= now ? "live" : "upcoming"
+    } else if (i < lastTracked) {
+      start = Math.max(plannedStart, cursor)
+      end = Math.max(start, plannedEnd)
+      state = "ended"
+    } else if (isBreak(s)) {
+      end = Math.max(plannedEnd, cursor)
+      start = Math.min(Math.max(plannedStart, cursor, now), end)
+      state = "upcoming"
+    } else {
+      start = Math.max(earliest, cursor, now)
+      end = start + length
+      state = "upcoming"
+    }
+
+    cursor = Math.max(cursor, end)
+    projected.push({
+      id: s.id,
+      session_name: s.session_name,
+      state,
+      is_break: isBreak(s),
+      tracked: isTracked(s),
+      planned_start: toClock(plannedStart),
+      planned_end: toClock(plannedEnd),
+      projected_start: toClock(start),
+      projected_end: toClock(end),
+      due_end: toClock(due ?? end),
+      late_minutes: start - plannedStart,
+    })
+  })
+
+  const live = projected.find((p) => p.state === "live") ?? null
+  const next = projected.find((p) => p.state === "upcoming" && !p.is_break) ?? null
+
+  const block = {
+    start_time: projected.length > 0 ? projected[0].planned_start : null,
+    end_time: projected.length > 0 ? toClock(Math.max(...projected.map((p) => toMinutes(p.planned_end)!))) : null,
+  }
+  const talks: TimedTalk[] = projected.map((p) => ({
+    id: p.id,
+    start_time: p.projected_start,
+    end_time: p.projected_end,
+    talk_type: p.is_break ? "break" : null,
+    title: p.session_name,
+  }))
+
+  return {
+    sessions: projected,
+    now: live,
+    next,
+    late_minutes: Math.max(0, (live ?? next)?.late_minutes ?? 0),
+    fit: computeFit(block, talks),
+    timeline: buildTimeline(block, talks, (t) => t.title ?? t.id),
+  }
+}
+
+/**
+ * The event-local date and wall-clock time of an instant, e.g. for reading
+ * actual_start_at back as "09:04" in Asia/Kolkata.
+ */
+export function localClock(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((p) => [p.type, p.value])
+  )
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` }
+}
+
+/** "On time", "Running 12 min late", "5 min ahead" -- for boards and the delegate view. */
+export function describeLateness(minutes: number): string {
+  if (minutes >= 1) return `Running ${minutes} min late`
+  if (minutes <= -1) return `${-minutes} min ahead`
+  return "On time"
+}
+
+// ---------------------------------------------------------------------------
+// Overrun review -- the delay log read back after the day, per session and per
+// hall, worst first.
+
+export interface RunningLogEntry {
+  session_id: string
+  action: "started" | "ended" | "delay"
+  minutes: number | null
+  before_start: boolean
+  reason: string | null
+  logged_by: string | null
+  created_at: string
+}
+
+export interface OverrunSessionInfo {
+  id: string
+  session_name: string
+  session_date: string | null
+  start_time: string | null
+  end_time: string | null
+  hall: string | null
+}
+
+export interface SessionOverrun extends OverrunSessionInfo {
+  /** Minutes late (negative: early) against the plan, when marked. */
+  start_late: number | null
+  end_late: number | null
+  /** Delays pushed before the session started. */
+  held_minutes: number
+  /** Delays pushed while it ran. */
+  overrun_minutes: number
+  delays: Omit<RunningLogEntry, "session_id" | "action">[]
+}
+
+export interface HallOverrun {
+  hall: string
+  sessions: number
+  late_starts: number
+  /** Sum of how late marked sessions ended, counting only the late ones. */
+  overrun_minutes: number
+  worst_end_late: number
+}
+
+export function summariseOverruns(
+  entries: RunningLogEntry[],
+  sessions: OverrunSessionInfo[]
+): { sessions: SessionOverrun[]; halls: HallOverrun[] } {
+  const info = new Map(sessions.map((s) => [s.id, s]))
+  const bySession = new Map<string, SessionOverrun>()
+
+  for (const e of [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    const s = info.get(e.session_id)
+    if (!s) continue
+    const row = bySession.get(s.id) ?? {
+      ...s,
+      start_late: null,
+      end_late: null,
+      held_minutes: 0,
+      overrun_minutes: 0,
+      delays: [],
+    }
+    if (e.action === "started") row.start_late = e.minutes
+    else if (e.action === "ended") row.end_late = e.minutes
+    else {
+      const minutes = e.minutes ?? 0
+      if (e.before_start) row.held_minutes += minutes
+      else row.overrun_minutes += minutes
+      row.delays.push({ minutes, before_start: e.before_start, reason: e.reason, logged_by: e.logged_by, created_at: e.created_at })
+    }
+    bySession.set(s.id, row)
+  }
+
+  const rows = Array.from(bySession.values()).sort(
+    (a, b) =>
+      (b.end_late ?? b.overrun_minutes) - (a.end_late ?? a.overrun_minutes) ||
+      (a.session_date ?? "").localeCompare(b.session_date ?? "") ||
+      (a.start_time ?? "").localeCompare(b.start_time ?? "")
+  )
+
+  const halls = new Map<string, HallOverrun>()
+  for (const r of rows) {
+    const name = r.hall ?? "Unassigned"
+    const h = halls.get(name) ?? { hall: name, sessions: 0, late_starts: 0, overrun_minutes: 0, worst_end_late: 0 }
+    h.sessions++
+    if ((r.start_late ?? 0) > 0) h.late_starts++
+    if ((r.end_late ?? 0) > 0) h.overrun_minutes += r.end_late!
+    h.worst_end_late = Math.max(h.worst_end_late, r.end_late ?? 0)
+    halls.set(name, h)
+  }
+
+  return {
+    sessions: rows,
+    halls: Array.from(halls.values()).sort((a, b) => b.overrun_minutes - a.overrun_minutes || a.hall.localeCompare(b.hall)),
+  }
+}
@@ -0,0 +1,31 @@
+import crypto from "crypto"
+
+// Public API keys. Same approach as kiosk station tokens
+// (kiosk-station-auth.ts): a high-entropy random secret, SHA-256 hashed at
+// rest, shown to the admin exactly once when minted.
+
+const KEY_PREFIX = "evk_"
+
+// Characters of the key kept in clear (api_keys.key_prefix) so admins can
+// tell keys apart and match a leaked key to its row
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+export function newApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`
+  return { key, prefix: key.slice(0, VISIBLE_PREFIX_LENGTH), hash: hashApiKey(key) }
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex")
+}
+
+/**
+ * The key from `Authorization: Bearer <key>` or `X-API-Key: <key>`, or null
+ * when neither looks like one of ours.
+ */
+export function readApiKey(request: Request): string | null {
+  const authorization = request.headers.get("authorization")
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1]
+  const key = bearer || request.headers.get("x-api-key")?.trim()
+  return key && key.startsWith(KEY_PREFIX) ? key : null
+}
@@ -0,0 +1,44 @@
+/**
+ * Public API (v1) scopes.
+ *
+ * A key's scopes are `<permission>:<access>` pairs, where the permission is
+ * the same module name team members are granted (ROUTE_PERMISSION_MAP), so
+ * "can read registrations" means the same thing for a person and a key.
+ * Write access implies read.
+ *
+ * Client-safe: the API keys settings panel renders this catalog.
+ */
+
+import { ROUTE_PERMISSION_MAP } from "@/lib/route-permissions"
+
+export type ApiAccess = "read" | "write"
+
+// Modules exposed through /api/v1, and whether they accept writes
+export const API_MODULES = {
+  [ROUTE_PERMISSION_MAP.registrations]: { label: "Registrations", writable: true },
+  [ROUTE_PERMISSION_MAP.program]: { label: "Sessions", writable: false },
+  [ROUTE_PERMISSION_MAP.checkin]: { label: "Check-ins", writable: true },
+  [ROUTE_PERMISSION_MAP.certificates]: { label: "Certificates", writable: false },
+} as const
+
+export type ApiModule = keyof typeof API_MODULES
+
+export type ApiScope = `${ApiModule}:${ApiAccess}`
+
+export const API_SCOPES: ApiScope[] = (Object.keys(API_MODULES) as ApiModule[]).flatMap((module) =>
+  API_MODULES[module].writable ? [`${module}:read`, `${module}:write`] as ApiScope[] : [`${module}:read`] as ApiScope[]
+)
+
+export function isApiScope(value: string): value is ApiScope {
+  return (API_SCOPES as string[]).includes(value)
+}
+
+export function hasApiScope(granted: string[] | null | undefined, module: ApiModule, access: ApiAccess): boolean {
+  if (!granted) return false
+  if (granted.includes(`${module}:${access}`)) return true
+  return access === "read" && granted.includes(`${module}:write`)
+}
+
+// Requests per minute when a key has no limit of its own
+export const DEFAULT_API_KEY_RATE_LIMIT = 120
+export const MAX_API_KEY_RATE_LIMIT = 1000
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest"
+import {
+  EMPTY_SEGMENT,
+  emptySegmentFacts,
+  matchesSegment,
+  messageFactKey,
+  segmentDepth,
+  segmentNeeds,
+  summarizeAudience,
+  type SegmentFacts,
+  type SegmentRegistration,
+} from "./audience-segments"
+
+function reg(fields: Partial<SegmentRegistration> = {}): SegmentRegistration {
+  return {
+    id: "r1",
+    ticket_type_id: "t-delegate",
+    status: "confirmed",
+    payment_status: "completed",
+    attendee_name: "Asha Rao",
+    attendee_email: "asha@example.com",
+    attendee_phone: "+919800000001",
+    attendee_designation: "Consultant Surgeon",
+    attendee_institution: null,
+    attendee_city: "Chennai",
+    attendee_state: null,
+    attendee_country: "India",
+    participation_mode: "in_person",
+    ...fields,
+  }
+}
+
+function facts(fields: Partial<SegmentFacts> = {}): SegmentFacts {
+  return { ...emptySegmentFacts(), ...fields }
+}
+
+describe("matchesSegment", () => {
+  it("matches everyone with an empty root group", () => {
+    expect(matchesSegment(EMPTY_SEGMENT, reg(), facts())).toBe(true)
+  })
+
+  it("combines rules with all / any", () => {
+    const paid = { field: "payment_status" as const, op: "in" as const, value: ["completed"] }
+    const faculty = { field: "ticket_type" as const, op: "in" as const, value: ["t-faculty"] }
+    expect(matchesSegment({ match: "all", rules: [paid, faculty] }, reg(), facts())).toBe(false)
+    expect(matchesSegment({ match: "any", rules: [paid, faculty] }, reg(), facts())).toBe(true)
+  })
+
+  it("evaluates nested groups", () => {
+    const tree = {
+      match: "all" as const,
+      rules: [
+        { field: "registration_status" as const, op: "not_in" as const, value: ["cancelled", "refunded"] },
+        {
+          match: "any" as const,
+          rules: [
+            { field: "attribute" as const, attribute: "attendee_city" as const, op: "equals" as const, value: " chennai " },
+            { field: "membership" as const, op: "is_member" as const },
+          ],
+        },
+      ],
+    }
+    expect(matchesSegment(tree, reg(), facts())).toBe(true)
+    expect(matchesSegment(tree, reg({ attendee_city: "Delhi" }), facts())).toBe(false)
+    expect(matchesSegment(tree, reg({ attendee_city: "Delhi" }), facts({ members: new Set(["r1"]) }))).toBe(true)
+    expect(matchesSegment(tree, reg({ status: "cancelled" }), facts())).toBe(false)
+  })
+
+  it("checks check-ins at any list or one list", () => {
+    const checkins = new Map([["r1", new Set(["day-1"])]])
+    expect(matchesSegment({ field: "checked_in", op: "is" }, reg(), facts({ checkins }))).toBe(true)
+    expect(matchesSegment({ field: "checked_in", op: "is", list_id: "day-2" }, reg(), facts({ checkins }))).toBe(false)
+    expect(matchesSegment({ field: "checked_in", op: "is_not" }, reg(), facts())).toBe(true)
+  })
+
+  it("treats an empty add-on / abstract / role list as any", () => {
+    const f = facts({
+      addons: new Map([["r1", new Set(["workshop"])]]),
+      abstracts: new Map([["r1", new Set(["accepted"])]]),
+      facultyRoles: new Map([["r1", new Set(["chairperson" as const])]]),
+    })
+    expect(matchesSegment({ field: "addon", op: "has_any", value: [] }, reg(), f)).toBe(true)
+    expect(matchesSegment({ field: "addon", op: "has_none", value: ["dinner"] }, reg(), f)).toBe(true)
+    expect(matchesSegment({ field: "abstract_status", op: "in", value: ["rejected"] }, reg(), f)).toBe(false)
+    expect(matchesSegment({ field: "abstract_status", op: "none", value: [] }, reg({ id: "r2" }), f)).toBe(true)
+    expect(matchesSegment({ field: "faculty_role", op: "in", value: [] }, reg(), f)).toBe(true)
+    expect(matchesSegment({ field: "faculty_role", op: "none", value: ["speaker"] }, reg(), f)).toBe(true)
+  })
+
+  it("compares form answers, including checkbox arrays", () => {
+    const forms = new Map([["f1", new Map([["r1", { diet: "Vegetarian", topics: ["Hernia", "Bariatric"] }]])]])
+    const f = facts({ forms })
+    expect(matchesSegment({ field: "form_answer", op: "submitted", form_id: "f1" }, reg(), f)).toBe(true)
+    expect(matchesSegment({ field: "form_answer", op: "not_submitted", form_id: "f1" }, reg({ id: "r2" }), f)).toBe(true)
+    expect(
+      matchesSegment({ field: "form_answer", op: "equals", form_id: "f1", field_id: "diet", value: "vegetarian" }, reg(), f)
+    ).toBe(true)
+    expect(
+      matchesSegment({ field: "form_answer", op: "contains", form_id: "f1", field_id: "topics", value: "bari" }, reg(), f)
+    ).toBe(true)
+    expect(
+      matchesSegment({ field: "form_answer", op: "contains", form_id: "f1", field_id: "topics", value: "" }, reg(), f)
+    ).toBe(false)
+  })
+
+  it("looks up messages by template and channel", () => {
+    const rule = { field: "message" as const, op: "not_received" as const, template_id: "welcome", channel: "email" as const }
+    const messages = new Map([[messageFactKey(rule), new Set(["r1"])]])
+    expect(matchesSegment(rule, reg(), facts({ messages }))).toBe(false)
+    expect(matchesSegment(rule, reg({ id: "r2" }), facts({ messages }))).toBe(true)
+  })
+})
+
+describe("segmentNeeds", () => {
+  it("collects only the facts the rules look at", () => {
+    const needs = segmentNeeds({
+      match: "all",
+      rules: [
+        { field: "ticket_type", op: "in", value: ["t1"] },
+        { match: "any", rules: [{ field: "form_answer", op: "submitted", form_id: "f1" }, { field: "message", op: "received" }] },
+      ],
+    })
+    expect(needs.checkins).toBe(false)
+    expect(needs.membership).toBe(false)
+    expect([...needs.formIds]).toEqual(["f1"])
+    expect([...needs.messageKeys.keys()]).toEqual(["*|*"])
+  })
+})
+
+describe("segmentDepth", () => {
+  it("counts the root group as one level", () => {
+    expect(segmentDepth(EMPTY_SEGMENT)).toBe(1)
+    expect(segmentDepth({ match: "all", rules: [{ match: "any", rules: [{ field: "membership", op: "is_member" }] }] })).toBe(2)
+  })
+})
+
+describe("summarizeAudience", () => {
+  it("counts who each channel reaches", () => {
+    expect(
+      summarizeAudience([
+        reg(),
+        reg({ id: "r2", attendee_phone: null }),
+        reg({ id: "r3", attendee_email: null }),
+      ])
+    ).toEqual({ total: 3, with_email: 2, with_phone: 2 })
+  })
+})
@@ -0,0 +1,338 @@
+/**
+ * Audience segments
+ *
+ * A segment is a saved rule tree over an event's registrations: groups
+ * match "all" or "any" of their rules, and rules look at the registration
+ * itself or at what's recorded about it elsewhere (check-ins, add-ons,
+ * abstracts, faculty roles, form answers, AMASI membership, messages
+ * already received). This file holds the rule vocabulary and evaluates a
+ * tree against facts the caller has loaded; lib/services/audience-segments.ts
+ * loads those facts for an event.
+ */
+
+import type { AbstractStatus } from "@/lib/abstracts/transitions"
+import type { FacultyRole } from "@/lib/agenda-roles"
+
+export const SEGMENT_REGISTRATION_STATUSES = ["pending", "confirmed", "cancelled", "refunded"] as const
+export const SEGMENT_PAYMENT_STATUSES = ["pending", "completed", "failed", "refunded"] as const
+export const SEGMENT_ABSTRACT_STATUSES: readonly AbstractStatus[] = [
+  "submitted",
+  "under_review",
+  "revision_requested",
+  "accepted",
+  "rejected",
+  "withdrawn",
+]
+
+export const SEGMENT_ATTRIBUTES = {
+  attendee_designation: "Designation",
+  attendee_institution: "Institution",
+  attendee_city: "City",
+  attendee_state: "State",
+  attendee_country: "Country",
+  participation_mode: "Participation mode",
+} as const
+
+export type SegmentAttribute = keyof typeof SEGMENT_ATTRIBUTES
+
+export type SegmentRule =
+  | { field: "ticket_type"; op: "in" | "not_in"; value: string[] }
+  | { field: "registration_status"; op: "in" | "not_in"; value: string[] }
+  | { field: "payment_status"; op: "in" | "not_in"; value: string[] }
+  /** Checked in at any list, or at `list_id`. */
+  | { field: "checked_in"; op: "is" | "is_not"; list_id?: string | null }
+  /** Bought any of `value` (any add-on when empty), or none of them. */
+  | { field: "addon"; op: "has_any" | "has_none"; value: string[] }
+  /** Presents an abstract in one of `value` (any status when empty), or has none. */
+  | { field: "abstract_status"; op: "in" | "none"; value: string[] }
+  /** Holds one of the roles in the program (any role when empty), or none. */
+  | { field: "faculty_role"; op: "in" | "none"; value: FacultyRole[] }
+  | {
+      field: "form_answer"
+      op: "submitted" | "not_submitted" | "equals" | "contains"
+      form_id: string
+      field_id?: string | null
+      value?: string | null
+    }
+  | { field: "membership"; op: "is_member" | "not_member" }
+  /** Already got a message (optionally from one template / on one channel). */
+  | {
+      field: "message"
+      op: "received" | "not_received"
+      template_id?: string | null
+      channel?: "email" | "whatsapp" | "sms" | null
+    }
+  | {
+      field: "attribute"
+      attribute: SegmentAttribute
+      op: "equals" | "contains" | "is_empty" | "not_empty"
+      value?: string | null
+    }
+
+export type SegmentField = SegmentRule["field"]
+
+export interface SegmentGroup {
+  match: "all" | "any"
+  rules: SegmentNode[]
+}
+
+export type SegmentNode = SegmentRule | SegmentGroup
+
+/** Deepest tree allowed, counting the root group; keeps the builder readable. */
+export const MAX_SEGMENT_DEPTH = 3
+
+export const SEGMENT_FIELD_LABELS: Record<SegmentField, string> = {
+  ticket_type: "Ticket type",
+  registration_status: "Registration status",
+  payment_status: "Payment status",
+  checked_in: "Check-in",
+  addon: "Add-ons",
+  abstract_status: "Abstract",
+  faculty_role: "Faculty role",
+  form_answer: "Form answer",
+  membership: "AMASI membership",
+  message: "Messages received",
+  attribute: "Registration field",
+}
+
+export const EMPTY_SEGMENT: SegmentGroup = { match: "all", rules: [] }
+
+export function isSegmentGroup(node: SegmentNode): node is SegmentGroup {
+  return "rules" in node
+}
+
+/** Levels of groups in a tree; the root group is 1. */
+export function segmentDepth(node: SegmentNode): number {
+  if (!isSegmentGroup(node)) return 0
+  return 1 + Math.max(0, ...node.rules.map(segmentDepth))
+}
+
+/** A rule with its defaults filled in, for the builder's "add rule". */
+export function newSegmentRule(field: SegmentField): SegmentRule {
+  switch (field) {
+    case "ticket_type":
+    case "registration_status":
+    case "payment_status":
+      return { field, op: "in", value: [] }
+    case "checked_in":
+      return { field, op: "is", list_id: null }
+    case "addon":
+      return { field, op: "has_any", value: [] }
+    case "abstract_status":
+    case "faculty_role":
+      return { field, op: "in", value: [] }
+    case "form_answer":
+      return { field, op: "submitted", form_id: "" }
+    case "membership":
+      return { field, op: "is_member" }
+    case "message":
+      return { field, op: "received", template_id: null, channel: null }
+    case "attribute":
+      return { field, attribute: "attendee_designation", op: "contains", value: "" }
+  }
+}
+
+export function messageFactKey(rule: { template_id?: string | null; channel?: string | null }): string {
+  return `${rule.template_id || "*"}|${rule.channel || "*"}`
+}
+
+export interface SegmentRegistration {
+  id: string
+  ticket_type_id: string | null
+  status: string | null
+  payment_status: string | null
+  attendee_name: string | null
+  attendee_email: string | null
+  attendee_phone: string | null
+  attendee_designation: string | null
+  attendee_institution: string | null
+  attendee_city: string | null
+  attendee_state: string | null
+  attendee_country: string | null
+  participation_mode: string | null
+}
+
+/** What the rules look at besides the registration row. Keys are registration ids. */
+export interface SegmentFacts {
+  checkins: Map<string, Set<string>>
+  addons: Map<string, Set<string>>
+  abstracts: Map<string, Set<string>>
+  facultyRoles: Map<string, Set<FacultyRole>>
+  /** form id → registration id → responses */
+  forms: Map<string, Map<string, Record<string, unknown>>>
+  members: Set<string>
+  /** messageFactKey → registration ids */
+  messages: Map<string, Set<string>>
+}
+
+export function emptySegmentFacts(): SegmentFacts {
+  return {
+    checkins: new Map(),
+    addons: new Map(),
+    abstracts: new Map(),
+    facultyRoles: new Map(),
+    forms: new Map(),
+    members: new Set(),
+    messages: new Map(),
+  }
+}
+
+export interface SegmentNeeds {
+  checkins: boolean
+  addons: boolean
+  abstracts: boolean
+  facultyRoles: boolean
+  formIds: Set<string>
+  membership: boolean
+  messageKeys: Map<string, { template_id: string | null; channel: string | null }>
+}
+
+/** Which facts a tree needs, so the loader skips tables no rule looks at. */
+export function segmentNeeds(node: SegmentNode, needs?: SegmentNeeds): SegmentNeeds {
+  const acc: SegmentNeeds = needs || {
+    checkins: false,
+    addons: false,
+    abstracts: false,
+    facultyRoles: false,
+    formIds: new Set(),
+    membership: false,
+    messageKeys: new Map(),
+  }
+  if (isSegmentGroup(node)) {
+    for (const child of node.rules) segmentNeeds(child, acc)
+    return acc
+  }
+  switch (node.field) {
+    case "checked_in":
+      acc.checkins = true
+      break
+    case "addon":
+      acc.addons = true
+      break
+    case "abstract_status":
+      acc.abstracts = true
+      break
+    case "faculty_role":
+      acc.facultyRoles = true
+      break
+    case "form_answer":
+      if (node.form_id) acc.formIds.add(node.form_id)
+      break
+    case "membership":
+      acc.membership = true
+      break
+    case "message":
+      acc.messageKeys.set(messageFactKey(node), {
+        template_id: node.template_id || null,
+        channel: node.channel || null,
+      })
+      break
+  }
+  return acc
+}
+
+/**
+ * Whether a registration is in the segment. An empty group matches
+ * everyone, so a new segment starts as "all registrations".
+ */
+export function matchesSegment(node: SegmentNode, reg: SegmentRegistration, facts: SegmentFacts): boolean {
+  if (isSegmentGroup(node)) {
+    if (node.rules.length === 0) return true
+    return node.match === "all"
+      ? node.rules.every((rule) => matchesSegment(rule, reg, facts))
+      : node.rules.some((rule) => matchesSegment(rule, reg, facts))
+  }
+  return matchesRule(node, reg, facts)
+}
+
+function matchesRule(rule: SegmentRule, reg: SegmentRegistration, facts: SegmentFacts): boolean {
+  switch (rule.field) {
+    case "ticket_type":
+      return inList(rule.op, rule.value, reg.ticket_type_id)
+    case "registration_status":
+      return inList(rule.op, rule.value, reg.status)
+    case "payment_status":
+      return inList(rule.op, rule.value, reg.payment_status)
+    case "checked_in": {
+      const lists = facts.checkins.get(reg.id)
+      const checkedIn = rule.list_id ? !!lists?.has(rule.list_id) : !!lists && lists.size > 0
+      return rule.op === "is" ? checkedIn : !checkedIn
+    }
+    case "addon": {
+      const has = overlaps(facts.addons.get(reg.id), rule.value)
+      return rule.op === "has_any" ? has : !has
+    }
+    case "abstract_status": {
+      const has = overlaps(facts.abstracts.get(reg.id), rule.value)
+      return rule.op === "in" ? has : !has
+    }
+    case "faculty_role": {
+      const has = overlaps(facts.facultyRoles.get(reg.id), rule.value)
+      return rule.op === "in" ? has : !has
+    }
+    case "form_answer": {
+      const responses = facts.forms.get(rule.form_id)?.get(reg.id)
+      if (rule.op === "submitted") return !!responses
+      if (rule.op === "not_submitted") return !responses
+      if (!responses || !rule.field_id) return false
+      return answerMatches(responses[rule.field_id], rule.op, rule.value || "")
+    }
+    case "membership": {
+      const member = facts.members.has(reg.id)
+      return rule.op === "is_member" ? member : !member
+    }
+    case "message": {
+      const received = !!facts.messages.get(messageFactKey(rule))?.has(reg.id)
+      return rule.op === "received" ? received : !received
+    }
+    case "attribute": {
+      const value = (reg[rule.attribute] || "").trim().toLowerCase()
+      const wanted = (rule.value || "").trim().toLowerCase()
+      switch (rule.op) {
+        case "is_empty":
+          return value === ""
+        case "not_empty":
+          return value !== ""
+        case "equals":
+          return value === wanted
+        case "contains":
+          return wanted !== "" && value.includes(wanted)
+      }
+    }
+  }
+}
+
+function inList(op: "in" | "not_in", values: string[], value: string | null): boolean {
+  const found = !!value && values.includes(value)
+  return op === "in" ? found : !found
+}
+
+// Empty `wanted` means "any"
+function overlaps<T extends string>(have: Set<T> | undefined, wanted: T[]): boolean {
+  if (!have || have.size === 0) return false
+  return wanted.length === 0 || wanted.some((value) => have.has(value))
+}
+
+// Checkbox answers are arrays; everything else compares as text
+function answerMatches(answer: unknown, op: "equals" | "contains", wanted: string): boolean {
+  const target = wanted.trim().toLowerCase()
+  const values = (Array.isArray(answer) ? answer : [answer])
+    .filter((v) => v !== null && v !== undefined)
+    .map((v) => String(v).trim().toLowerCase())
+  return op === "equals" ? values.includes(target) : target !== "" && values.some((v) => v.includes(target))
+}
+
+export interface SegmentAudience {
+  total: number
+  with_email: number
+  with_phone: number
+}
+
+/** Head counts per channel: who the segment reaches by email vs WhatsApp/SMS. */
+export function summarizeAudience(regs: Pick<SegmentRegistration, "attendee_email" | "attendee_phone">[]): SegmentAudience {
+  return {
+    total: regs.length,
+    with_email: regs.filter((r) => !!r.attendee_email).length,
+    with_phone: regs.filter((r) => !!r.attendee_phone).length,
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+import {
+  badgeAudienceFromRegistration,
+  describeBadgeCondition,
+  matchesBadgeCondition,
+  resolveBadgeElements,
+  templateConditionNeeds,
+  templateHasConditions,
+  type BadgeAudience,
+} from "./badge-conditions"
+import type { BadgeElement } from "./badge-template-types"
+
+const delegate: BadgeAudience = { ticket_type_id: "tt-delegate", addon_ids: ["ad-gala"], faculty_roles: [], is_member: true }
+const speaker: BadgeAudience = { ticket_type_id: "tt-faculty", addon_ids: [], faculty_roles: ["speaker"], is_member: false }
+
+function element(overrides: Partial<BadgeElement>): BadgeElement {
+  return { id: "el", type: "shape", x: 0, y: 0, width: 100, height: 20, zIndex: 1, ...overrides } as BadgeElement
+}
+
+describe("matchesBadgeCondition", () => {
+  it("matches everyone without rules", () => {
+    expect(matchesBadgeCondition(undefined, speaker)).toBe(true)
+    expect(matchesBadgeCondition({ match: "all", rules: [] }, speaker)).toBe(true)
+  })
+
+  it("checks ticket types, addons and membership", () => {
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "ticket_type", op: "in", value: ["tt-delegate"] }] }, delegate)).toBe(true)
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "ticket_type", op: "not_in", value: ["tt-delegate"] }] }, delegate)).toBe(false)
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "addon", op: "has_any", value: ["ad-gala"] }] }, delegate)).toBe(true)
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "addon", op: "has_none", value: ["ad-gala"] }] }, speaker)).toBe(true)
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "membership", op: "is_member" }] }, speaker)).toBe(false)
+  })
+
+  it("treats an empty faculty role list as any role", () => {
+    const anyFaculty = { match: "all" as const, rules: [{ field: "faculty_role" as const, op: "in" as const, value: [] }] }
+    expect(matchesBadgeCondition(anyFaculty, speaker)).toBe(true)
+    expect(matchesBadgeCondition(anyFaculty, delegate)).toBe(false)
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "faculty_role", op: "in", value: ["chairperson"] }] }, speaker)).toBe(false)
+    expect(matchesBadgeCondition({ match: "all", rules: [{ field: "faculty_role", op: "none", value: [] }] }, delegate)).toBe(true)
+  })
+
+  it("combines rules with all or any", () => {
+    const rules = [
+      { field: "membership" as const, op: "is_member" as const },
+      { field: "faculty_role" as const, op: "in" as const, value: [] },
+    ]
+    expect(matchesBadgeCondition({ match: "all", rules }, delegate)).toBe(false)
+    expect(matchesBadgeCondition({ match: "any", rules }, delegate)).toBe(true)
+    expect(matchesBadgeCondition({ match: "any", rules }, speaker)).toBe(true)
+  })
+})
+
+describe("resolveBadgeElements", () => {
+  const band = element({
+    id: "band",
+    backgroundColor: "#22c55e",
+    variants: [
+      { when: { match: "all", rules: [{ field: "faculty_role", op: "in", value: [] }] }, backgroundColor: "#ef4444", content: "FACULTY" },
+      { when: { match: "all", rules: [{ field: "membership", op: "is_member" }] }, backgroundColor: "#3b82f6" },
+    ],
+  })
+  const gala = element({ id: "gala", showWhen: { match: "all", rules: [{ field: "addon", op: "has_any", value: ["ad-gala"] }] } })
+  const hidden = element({ id: "hidden", visible: false })
+
+  it("drops elements whose condition doesn't match and hidden ones", () => {
+    expect(resolveBadgeElements([band, gala, hidden], speaker).map((el) => el.id)).toEqual(["band"])
+    expect(resolveBadgeElements([band, gala, hidden], delegate).map((el) => el.id)).toEqual(["band", "gala"])
+  })
+
+  it("applies the first matching variant only", () => {
+    expect(resolveBadgeElements([band], speaker)[0]).toMatchObject({ backgroundColor: "#ef4444", content: "FACULTY" })
+    expect(resolveBadgeElements([band], delegate)[0].backgroundColor).toBe("#3b82f6")
+    expect(resolveBadgeElements([band], { ...delegate, is_member: false })[0].backgroundColor).toBe("#22c55e")
+  })
+
+  it("keeps every visible element as designed without an audience", () => {
+    const resolved = resolveBadgeElements([band, gala, hidden], null)
+    expect(resolved.map((el) => el.id)).toEqual(["band", "gala"])
+    expect(resolved[0]).toBe(band)
+  })
+})
+
+describe("badgeAudienceFromRegistration", () => {
+  it("reads ticket type and addons off the row", () => {
+    expect(
+      badgeAudienceFromRegistration({
+        ticket_type_id: "tt-delegate",
+        registration_addons: [{ addon_id: "ad-gala" }, { addon_id: null }],
+      })
+    ).toEqual({ ticket_type_id: "tt-delegate", addon_ids: ["ad-gala"], faculty_roles: [], is_member: false })
+  })
+
+  it("prefers an audience the server attached", () => {
+    expect(badgeAudienceFromRegistration({ ticket_type_id: "x", badge_audience: speaker })).toBe(speaker)
+  })
+})
+
+describe("templateConditionNeeds", () => {
+  it("only asks for roles and membership when a rule uses them", () => {
+    expect(templateConditionNeeds([element({})])).toEqual({ facultyRoles: false, membership: false })
+    expect(
+      templateConditionNeeds([
+        element({ variants: [{ when: { match: "all", rules: [{ field: "membership", op: "not_member" }] } }] }),
+      ])
+    ).toEqual({ facultyRoles: false, membership: true })
+  })
+})
+
+describe("templateHasConditions", () => {
+  it("is true only when an element is shown or styled by a rule", () => {
+    expect(templateHasConditions([element({}), element({ showWhen: { match: "all", rules: [] } })])).toBe(false)
+    expect(
+      templateHasConditions([
+        element({ variants: [{ when: { match: "all", rules: [{ field: "addon", op: "has_any", value: ["a1"] }] } }] }),
+      ])
+    ).toBe(true)
+  })
+})
+
+describe("describeBadgeCondition", () => {
+  it("names ticket types and roles", () => {
+    expect(describeBadgeCondition(undefined)).toBe("Everyone")
+    expect(
+      describeBadgeCondition(
+        {
+          match: "any",
+          rules: [
+            { field: "ticket_type", op: "in", value: ["tt-faculty"] },
+            { field: "faculty_role", op: "in", value: ["speaker", "chairperson"] },
+          ],
+        },
+        { ticketTypes: { "tt-faculty": "Faculty" } }
+      )
+    ).toBe("Ticket is Faculty or Faculty: Speaker, Chair")
+  })
+})
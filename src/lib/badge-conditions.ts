@@ -0,0 +1,182 @@
+// Conditional elements for badge templates: one template per event instead of
+// one near-copy per ticket type. An element can be shown only to some
+// attendees (`showWhen`) and can swap colours or text per category
+// (`variants`, e.g. a band that is red for faculty and green for delegates).
+//
+// Every renderer runs template.elements through resolveBadgeElements() with
+// the attendee's BadgeAudience before drawing: the designer canvas, the
+// HTML print path, the PDF generator, the ZPL/TSPL compiler, the print
+// agent and the kiosk's offline print. Ticket type and addons come with the
+// registration; faculty roles and membership are loaded by
+// src/lib/services/badge-audience.ts, only when a template actually has
+// rules about them. The kiosk prints from its cached roster, which has none
+// of these, so /api/kiosk/delegates attaches each delegate's loaded
+// audience whenever the station's template has conditions.
+
+import type {
+  BadgeCondition,
+  BadgeConditionRule,
+  BadgeElement,
+} from "./badge-template-types"
+import { ROLE_LABELS, isFacultyRole } from "./agenda-roles"
+
+/** What the conditions can ask about one attendee. */
+export interface BadgeAudience {
+  ticket_type_id: string | null
+  addon_ids: string[]
+  /** Active faculty roles at this event (declined/cancelled excluded) */
+  faculty_roles: string[]
+  is_member: boolean
+}
+
+export const EMPTY_BADGE_AUDIENCE: BadgeAudience = {
+  ticket_type_id: null,
+  addon_ids: [],
+  faculty_roles: [],
+  is_member: false,
+}
+
+function matchesRule(rule: BadgeConditionRule, audience: BadgeAudience): boolean {
+  switch (rule.field) {
+    case "ticket_type": {
+      const hit = !!audience.ticket_type_id && rule.value.includes(audience.ticket_type_id)
+      return rule.op === "in" ? hit : !hit
+    }
+    case "faculty_role":
+      if (rule.op === "none") return audience.faculty_roles.length === 0
+      // An empty list means "any faculty role"
+      return rule.value.length === 0
+        ? audience.faculty_roles.length > 0
+        : audience.faculty_roles.some((role) => rule.value.includes(role))
+    case "addon": {
+      const hit = audience.addon_ids.some((id) => rule.value.includes(id))
+      return rule.op === "has_any" ? hit : !hit
+    }
+    case "membership":
+      return rule.op === "is_member" ? audience.is_member : !audience.is_member
+    default:
+      return true
+  }
+}
+
+/** A condition without rules matches everyone. */
+export function matchesBadgeCondition(
+  condition: BadgeCondition | undefined,
+  audience: BadgeAudience
+): boolean {
+  if (!condition || condition.rules.length === 0) return true
+  return condition.match === "any"
+    ? condition.rules.some((rule) => matchesRule(rule, audience))
+    : condition.rules.every((rule) => matchesRule(rule, audience))
+}
+
+/**
+ * The elements one attendee's badge is drawn from: hidden and non-matching
+ * elements dropped, the first matching variant merged in. Pass null when
+ * there is no attendee (the designer's edit mode, blank test prints) to keep
+ * every element as designed.
+ */
+export function resolveBadgeElements(
+  elements: BadgeElement[],
+  audience: BadgeAudience | null
+): BadgeElement[] {
+  const visible = elements.filter((el) => el.visible !== false)
+  if (!audience) return visible
+
+  return visible
+    .filter((el) => matchesBadgeCondition(el.showWhen, audience))
+    .map((el) => {
+      const variant = el.variants?.find((v) => matchesBadgeCondition(v.when, audience))
+      if (!variant) return el
+      const resolved = { ...el }
+      if (variant.backgroundColor !== undefined) resolved.backgroundColor = variant.backgroundColor
+      if (variant.color !== undefined) resolved.color = variant.color
+      if (variant.borderColor !== undefined) resolved.borderColor = variant.borderColor
+      if (variant.content !== undefined) resolved.content = variant.content
+      return resolved
+    })
+}
+
+export interface BadgeAudienceSource {
+  ticket_type_id?: string | null
+  registration_addons?: { addon_id?: string | null }[] | null
+  /** Set by the server when it has loaded roles and membership */
+  badge_audience?: BadgeAudience | null
+}
+
+/**
+ * Builds the audience from a registration row. Ticket type and addons are on
+ * the row itself; roles and membership only when the server attached a
+ * loaded `badge_audience`.
+ */
+export function badgeAudienceFromRegistration(registration: BadgeAudienceSource | null | undefined): BadgeAudience {
+  if (!registration) return EMPTY_BADGE_AUDIENCE
+  if (registration.badge_audience) return registration.badge_audience
+  return {
+    ticket_type_id: registration.ticket_type_id || null,
+    addon_ids: (registration.registration_addons || [])
+      .map((ra) => ra.addon_id)
+      .filter((id): id is string => !!id),
+    faculty_roles: [],
+    is_member: false,
+  }
+}
+
+/** Whether any element is shown or styled per attendee. */
+export function templateHasConditions(elements: BadgeElement[]): boolean {
+  return elements.some(
+    (el) => (el.showWhen?.rules.length ?? 0) > 0 || (el.variants || []).some((v) => v.when.rules.length > 0)
+  )
+}
+
+/** Which facts beyond the registration row a set of elements asks about. */
+export function templateConditionNeeds(elements: BadgeElement[]): { facultyRoles: boolean; membership: boolean } {
+  const needs = { facultyRoles: false, membership: false }
+  for (const el of elements) {
+    const conditions = [el.showWhen, ...(el.variants || []).map((v) => v.when)]
+    for (const condition of conditions) {
+      for (const rule of condition?.rules || []) {
+        if (rule.field === "faculty_role") needs.facultyRoles = true
+        if (rule.field === "membership") needs.membership = true
+      }
+    }
+  }
+  return needs
+}
+
+export interface BadgeConditionLabels {
+  ticketTypes?: Record<string, string>
+  addons?: Record<string, string>
+}
+
+function nameList(ids: string[], names: Record<string, string> | undefined): string {
+  return ids.map((id) => names?.[id] || "unknown").join(", ")
+}
+
+function describeRule(rule: BadgeConditionRule, labels: BadgeConditionLabels): string {
+  switch (rule.field) {
+    case "ticket_type":
+      return `${rule.op === "in" ? "Ticket is" : "Ticket is not"} ${nameList(rule.value, labels.ticketTypes)}`
+    case "faculty_role":
+      if (rule.op === "none") return "Not faculty"
+      if (rule.value.length === 0) return "Any faculty role"
+      return `Faculty: ${rule.value.map((r) => (isFacultyRole(r) ? ROLE_LABELS[r].one : r)).join(", ")}`
+    case "addon":
+      return `${rule.op === "has_any" ? "Has addon" : "Without addon"} ${nameList(rule.value, labels.addons)}`
+    case "membership":
+      return rule.op === "is_member" ? "Member" : "Not a member"
+    default:
+      return "Unknown rule"
+  }
+}
+
+/** One-line summary for the designer's layer list and properties panel. */
+export function describeBadgeCondition(
+  condition: BadgeCondition | undefined,
+  labels: BadgeConditionLabels = {}
+): string {
+  if (!condition || condition.rules.length === 0) return "Everyone"
+  return condition.rules
+    .map((rule) => describeRule(rule, labels))
+    .join(condition.match === "any" ? " or " : " and ")
+}
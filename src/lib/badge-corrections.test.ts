@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest"
+import {
+  correctionUpdate,
+  parseCorrectionRequest,
+  pickReprintStation,
+  staleCorrectionFields,
+  type ReprintStation,
+} from "./badge-corrections"
+
+const NOW = new Date("2026-10-19T09:00:00.000Z")
+const CONFERENCE = "11111111-1111-1111-1111-111111111111"
+const WORKSHOP = "22222222-2222-2222-2222-222222222222"
+
+const current = { attendee_name: "Dr. Anil Kumr", attendee_designation: null, attendee_institution: "AIIMS" }
+
+function station(overrides: Partial<ReprintStation> = {}): ReprintStation {
+  return {
+    id: "ps-1",
+    name: "Main desk",
+    is_active: true,
+    ticket_type_ids: null,
+    agent_last_seen_at: "2026-10-19T08:59:50.000Z",
+    printer_state: "ready",
+    ...overrides,
+  }
+}
+
+describe("parseCorrectionRequest", () => {
+  it("keeps only the fields that change, with the values they replace", () => {
+    const result = parseCorrectionRequest(
+      { changes: { attendee_name: "  Dr. Anil   Kumar ", attendee_institution: "AIIMS" }, note: " Typo in surname " },
+      current
+    )
+    expect(result).toEqual({
+      changes: { attendee_name: "Dr. Anil Kumar" },
+      previous: { attendee_name: "Dr. Anil Kumr" },
+      note: "Typo in surname",
+    })
+  })
+
+  it("treats a blank optional field as clearing it", () => {
+    expect(parseCorrectionRequest({ changes: { attendee_institution: "" } }, current)).toEqual({
+      changes: { attendee_institution: "" },
+      previous: { attendee_institution: "AIIMS" },
+      note: null,
+    })
+  })
+
+  it("rejects a blank name, other fields and a request that changes nothing", () => {
+    expect(parseCorrectionRequest({ changes: { attendee_name: " " } }, current)).toHaveProperty("error")
+    expect(parseCorrectionRequest({ changes: { ticket_type_id: WORKSHOP } }, current)).toHaveProperty("error")
+    expect(parseCorrectionRequest({ changes: { attendee_institution: "AIIMS " } }, current)).toHaveProperty("error")
+    expect(parseCorrectionRequest({ changes: { attendee_name: "x".repeat(201) } }, current)).toHaveProperty("error")
+    expect(parseCorrectionRequest({}, current)).toHaveProperty("error")
+  })
+})
+
+describe("staleCorrectionFields", () => {
+  it("flags fields edited since the request was made", () => {
+    const previous = { attendee_name: "Dr. Anil Kumr", attendee_designation: "" }
+    expect(staleCorrectionFields(previous, current)).toEqual([])
+    expect(staleCorrectionFields(previous, { ...current, attendee_name: "Anil Kumar" })).toEqual(["attendee_name"])
+  })
+})
+
+describe("correctionUpdate", () => {
+  it("writes cleared fields as null", () => {
+    expect(correctionUpdate({ attendee_name: "Dr. Anil Kumar", attendee_institution: "" })).toEqual({
+      attendee_name: "Dr. Anil Kumar",
+      attendee_institution: null,
+    })
+  })
+})
+
+describe("pickReprintStation", () => {
+  const hall = station({ id: "ps-hall", name: "Hall A desk" })
+  const main = station({ id: "ps-main", name: "Main desk" })
+
+  it("prefers the station serving the delegate's check-in list", () => {
+    const choice = pickReprintStation({
+      ticketTypeId: CONFERENCE,
+      listIds: ["list-hall", "list-main"],
+      links: [
+        { checkin_list_id: "list-main", print_station_id: "ps-main" },
+        { checkin_list_id: "list-hall", print_station_id: "ps-hall" },
+      ],
+      stations: [main, hall],
+      now: NOW,
+    })
+    expect(choice).toEqual({ station: hall, via: "checkin_list" })
+  })
+
+  it("skips stations that are inactive or can't print the ticket type", () => {
+    const choice = pickReprintStation({
+      ticketTypeId: CONFERENCE,
+      listIds: ["list-hall"],
+      links: [{ checkin_list_id: "list-hall", print_station_id: "ps-hall" }],
+      stations: [station({ ...hall, ticket_type_ids: [WORKSHOP] }), main],
+      now: NOW,
+    })
+    expect(choice).toEqual({ station: main, via: "event" })
+    expect(pickReprintStation({ ticketTypeId: CONFERENCE, listIds: [], links: [], stations: [station({ is_active: false })] })).toBeNull()
+  })
+
+  it("picks a live agent with a ready printer over one that needs attention", () => {
+    const jammed = station({ id: "ps-jammed", printer_state: "paper_out" })
+    const asleep = station({ id: "ps-asleep", agent_last_seen_at: "2026-10-19T08:00:00.000Z" })
+    const choice = pickReprintStation({ ticketTypeId: null, listIds: [], links: [], stations: [asleep, jammed, main], now: NOW })
+    expect(choice?.station.id).toBe("ps-main")
+  })
+})
@@ -0,0 +1,176 @@
+// Badge correction requests: a delegate previews their badge on the portal
+// (/my), spots a typo and asks for the printed details to be corrected; staff
+// approve or reject it from the delegate portal's Badges queue.
+//
+//   pending ──approve──▶ approved   registration updated, stored badge
+//      │                            invalidated, reprint queued
+//      └────reject────▶ rejected
+//
+// Only the fields a badge prints from the delegate's own details can be
+// corrected -- ticket type and registration number are the desk's call. The
+// request keeps the values it was made against (previous_values), so an
+// approval can't silently overwrite an edit staff made in the meantime.
+// DB work lives in src/lib/services/badge-corrections.ts.
+
+import { computeAgentStatus } from "./print-queue"
+
+export const CORRECTABLE_FIELDS = [
+  { key: "attendee_name", label: "Name" },
+  { key: "attendee_designation", label: "Designation" },
+  { key: "attendee_institution", label: "Institution" },
+] as const
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number]["key"]
+
+export type BadgeCorrection = Partial<Record<CorrectableField, string>>
+
+export const CORRECTION_STATUSES = ["pending", "approved", "rejected"] as const
+export type CorrectionStatus = (typeof CORRECTION_STATUSES)[number]
+
+export const MAX_CORRECTION_LENGTH = 200
+export const MAX_CORRECTION_NOTE_LENGTH = 500
+
+export function correctableFieldLabel(key: string): string {
+  return CORRECTABLE_FIELDS.find((f) => f.key === key)?.label || key
+}
+
+export function isCorrectionStatus(value: unknown): value is CorrectionStatus {
+  return typeof value === "string" && (CORRECTION_STATUSES as readonly string[]).includes(value)
+}
+
+// Trims and collapses the runs of spaces a phone keyboard leaves behind.
+function normalize(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : ""
+}
+
+/**
+ * Validates a delegate's correction against their current registration.
+ * Only fields that actually differ are kept; `previous` holds their current
+ * values for the before/after and the stale check at approval.
+ */
+export function parseCorrectionRequest(
+  raw: { changes?: unknown; note?: unknown },
+  current: Partial<Record<CorrectableField, string | null>>
+): { changes: BadgeCorrection; previous: BadgeCorrection; note: string | null } | { error: string } {
+  if (!raw.changes || typeof raw.changes !== "object" || Array.isArray(raw.changes)) {
+    return { error: "Tell us what should be on your badge" }
+  }
+
+  const entries = Object.entries(raw.changes as Record<string, unknown>)
+  const allowed = new Set<string>(CORRECTABLE_FIELDS.map((f) => f.key))
+  if (entries.some(([key]) => !allowed.has(key))) {
+    return { error: "Only your name, designation and institution can be corrected here" }
+  }
+
+  const changes: BadgeCorrection = {}
+  const previous: BadgeCorrection = {}
+  for (const [key, value] of entries) {
+    const field = key as CorrectableField
+    if (value !== null && typeof value !== "string") {
+      return { error: `${correctableFieldLabel(field)} must be text` }
+    }
+    const next = normalize(value)
+    if (field === "attendee_name" && !next) return { error: "Name can't be blank" }
+    if (next.length > MAX_CORRECTION_LENGTH) {
+      return { error: `${correctableFieldLabel(field)} can be at most ${MAX_CORRECTION_LENGTH} characters` }
+    }
+    const was = current[field] ?? ""
+    if (next === normalize(was)) continue
+    changes[field] = next
+    previous[field] = was
+  }
+
+  if (Object.keys(changes).length === 0) {
+    return { error: "Nothing to correct — these details already match your badge" }
+  }
+
+  const note = normalize(raw.note)
+  if (note.length > MAX_CORRECTION_NOTE_LENGTH) {
+    return { error: `The note can be at most ${MAX_CORRECTION_NOTE_LENGTH} characters` }
+  }
+  return { changes, previous, note: note || null }
+}
+
+/**
+ * Fields the registration no longer holds the request's `previous` value
+ * for -- someone edited them after the delegate asked. Approving would
+ * overwrite that edit, so the queue asks staff to reject instead.
+ */
+export function staleCorrectionFields(
+  previous: BadgeCorrection,
+  current: Partial<Record<CorrectableField, string | null>>
+): CorrectableField[] {
+  return (Object.keys(previous) as CorrectableField[]).filter(
+    (field) => normalize(previous[field]) !== normalize(current[field])
+  )
+}
+
+/** The registration update an approval writes; a cleared field becomes null. */
+export function correctionUpdate(changes: BadgeCorrection): Record<string, string | null> {
+  const update: Record<string, string | null> = {}
+  for (const [field, value] of Object.entries(changes)) {
+    update[field] = value || null
+  }
+  return update
+}
+
+// ── Reprint station ──────────────────────────────────────────────────
+
+export interface ReprintStation {
+  id: string
+  name: string
+  is_active: boolean | null
+  ticket_type_ids: string[] | null
+  agent_last_seen_at: string | null
+  printer_state: string | null
+}
+
+export interface ReprintStationChoice {
+  station: ReprintStation
+  // checkin_list: a kiosk station serving the delegate's badge check-in
+  // list prints through it. event: no such link, so any of the event's
+  // print stations that may print this ticket type.
+  via: "checkin_list" | "event"
+}
+
+// Lower is better: a live agent with a ready printer first, a printer that
+// needs attention next, a station whose agent isn't running last.
+function stationRank(station: ReprintStation, now: Date): number {
+  const agent = computeAgentStatus(station, now)
+  const agentRank = agent === "online" ? 0 : agent === "stale" ? 1 : 2
+  const printerRank = !station.printer_state || station.printer_state === "ready" ? 0 : 1
+  return agentRank * 2 + printerRank
+}
+
+/**
+ * Where an approved correction's reprint is sent: the print station behind
+ * the kiosk serving the delegate's check-in list -- the desk they'll walk
+ * back to -- falling back to any of the event's stations. `listIds` is in
+ * preference order (the list they were checked in on first); `links` pairs
+ * a check-in list with a kiosk station's print_station_id. Returns null
+ * when no active station may print the delegate's ticket type.
+ */
+export function pickReprintStation(params: {
+  ticketTypeId: string | null
+  listIds: string[]
+  links: { checkin_list_id: string; print_station_id: string }[]
+  stations: ReprintStation[]
+  now?: Date
+}): ReprintStationChoice | null {
+  const now = params.now ?? new Date()
+  const usable = params.stations.filter(
+    (s) =>
+      s.is_active !== false &&
+      (!s.ticket_type_ids?.length || (!!params.ticketTypeId && s.ticket_type_ids.includes(params.ticketTypeId)))
+  )
+  const best = (candidates: ReprintStation[]) =>
+    candidates.slice().sort((a, b) => stationRank(a, now) - stationRank(b, now))[0]
+
+  for (const listId of params.listIds) {
+    const linked = new Set(params.links.filter((l) => l.checkin_list_id === listId).map((l) => l.print_station_id))
+    const station = best(usable.filter((s) => linked.has(s.id)))
+    if (station) return { station, via: "checkin_list" }
+  }
+
+  const station = best(usable)
+  return station ? { station, via: "event" } : null
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { clampElementToCanvas } from "./badge-element-bounds"
+import { clampElementToCanvas, measureTextFit } from "./badge-element-bounds"
 
 describe("clampElementToCanvas", () => {
   const canvas = { width: 384, height: 576 } // 4x6 badge at 96 DPI
@@ -45,3 +45,33 @@ describe("clampElementToCanvas", () => {
     expect(result.y).toBe(0)
   })
 })
+
+describe("measureTextFit", () => {
+  // Every character 10px wide keeps the arithmetic obvious
+  const measure = (value: string) => value.length * 10
+  const box = { width: 100, height: 40, fontSize: 10, lineHeight: 1.5 }
+
+  it("fits short text on one line", () => {
+    const fit = measureTextFit("Dr Rao", box, measure)
+    expect(fit).toMatchObject({ lines: 1, neededHeight: 15, overflows: false })
+  })
+
+  it("wraps on word boundaries and flags text taller than the box", () => {
+    expect(measureTextFit("Anand Kumar Rao", box, measure)).toMatchObject({ lines: 2, overflows: false })
+    expect(measureTextFit("Anand Kumar Rao Venkata Subramanian", box, measure)).toMatchObject({
+      lines: 4,
+      overflows: true,
+    })
+  })
+
+  it("flags a single word wider than the box", () => {
+    const fit = measureTextFit("Venkatasubramanian", box, measure)
+    expect(fit.lines).toBe(1)
+    expect(fit.overflows).toBe(true)
+  })
+
+  it("keeps explicit line breaks and counts letter spacing", () => {
+    expect(measureTextFit("A\nB\nC", box, measure).lines).toBe(3)
+    expect(measureTextFit("ABCDEFGHI", { ...box, letterSpacing: 2 }, measure).overflows).toBe(true)
+  })
+})
@@ -23,3 +23,54 @@ export function clampElementToCanvas(rect: BadgeElementRect, canvas: CanvasSize)
   const y = Math.min(Math.max(rect.y, 0), canvas.height - height)
   return { x, y, width, height }
 }
+
+export interface TextFit {
+  lines: number
+  /** Height the wrapped text needs at the element's line height */
+  neededHeight: number
+  /** Widest single word, which wrapping cannot break */
+  widestWord: number
+  overflows: boolean
+}
+
+/**
+ * Word-wraps `text` into a text element's box the way BadgeElementView lays
+ * it out (pre-wrap, so explicit line breaks are kept) and reports whether it
+ * spills out. `measure` returns a string's width in px at the element's font,
+ * e.g. CanvasRenderingContext2D.measureText in the designer, so this stays
+ * free of the DOM.
+ */
+export function measureTextFit(
+  text: string,
+  box: { width: number; height: number; fontSize: number; lineHeight?: number; letterSpacing?: number },
+  measure: (value: string) => number
+): TextFit {
+  const spacing = box.letterSpacing || 0
+  const widthOf = (value: string) => measure(value) + spacing * value.length
+  let lines = 0
+  let widestWord = 0
+
+  for (const paragraph of text.split("\n")) {
+    const words = paragraph.split(/\s+/).filter(Boolean)
+    lines++
+    let current = ""
+    for (const word of words) {
+      widestWord = Math.max(widestWord, widthOf(word))
+      const candidate = current ? `${current} ${word}` : word
+      if (current && widthOf(candidate) > box.width) {
+        lines++
+        current = word
+      } else {
+        current = candidate
+      }
+    }
+  }
+
+  const neededHeight = lines * box.fontSize * (box.lineHeight || 1.3)
+  return {
+    lines,
+    neededHeight,
+    widestWord,
+    overflows: widestWord > box.width || neededHeight > box.height + 0.5,
+  }
+}
@@ -0,0 +1,236 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyTextCase,
+  barcodeSymbology,
+  compileBadgeLayout,
+  isInked,
+  qrModuleCount,
+  type BadgeOp,
+  type RgbaImage,
+} from "./badge-layout-compiler"
+import type { BadgeElement } from "./badge-template-types"
+import { renderElementToHtml } from "./badge-render"
+import { badgeLayoutToZPL } from "./zpl-generator"
+import { badgeLayoutToTspl } from "./tspl-generator"
+
+function el(fields: Partial<BadgeElement> & Pick<BadgeElement, "id" | "type">): BadgeElement {
+  return { x: 0, y: 0, width: 100, height: 40, zIndex: 1, ...fields }
+}
+
+const registration = {
+  attendee_name: "Dr. asha rao",
+  registration_number: "AMASI26-0042",
+  ticket_type: { name: "Delegate" },
+  attendee_institution: "Govt. Medical College",
+  attendee_designation: "Consultant",
+}
+
+// Every element type the Designer offers, on a 4x6 badge
+const template = {
+  backgroundColor: "#ffffff",
+  elements: [
+    el({ id: "header", type: "shape", shapeType: "rectangle", x: 0, y: 0, width: 384, height: 60, backgroundColor: "#111827", zIndex: 0 }),
+    el({ id: "event", type: "text", x: 12, y: 10, width: 360, height: 40, content: "{{event_name}}", fontSize: 18, color: "#ffffff", align: "center", letterSpacing: 2, textCase: "uppercase" }),
+    el({ id: "name", type: "text", x: 20, y: 90, width: 344, height: 80, content: "{{name}}", fontSize: 28, fontWeight: "bold", align: "center", textCase: "capitalize" }),
+    el({ id: "inst", type: "text", x: 20, y: 175, width: 344, height: 24, content: "{{institution}}", fontSize: 14, align: "center", color: "#374151" }),
+    el({ id: "faint", type: "text", x: 20, y: 200, width: 344, height: 20, content: "watermark", fontSize: 12, color: "#e5e7eb" }),
+    el({ id: "ticket-box", type: "shape", shapeType: "rounded", x: 92, y: 230, width: 200, height: 44, backgroundColor: "#ffffff", borderWidth: 2, borderColor: "#000000", borderRadius: 10 }),
+    el({ id: "ticket", type: "text", x: 92, y: 230, width: 200, height: 44, content: "{{ticket_type}}", fontSize: 20, align: "center", zIndex: 2 }),
+    el({ id: "dot", type: "shape", shapeType: "circle", x: 20, y: 240, width: 24, height: 24, backgroundColor: "#000000" }),
+    el({ id: "tri", type: "shape", shapeType: "triangle", x: 340, y: 240, width: 24, height: 20, backgroundColor: "#000000" }),
+    el({ id: "rule", type: "line", x: 20, y: 290, width: 344, height: 2, color: "#000000", lineStyle: "dashed" }),
+    el({ id: "side", type: "text", x: 280, y: 330, width: 120, height: 24, content: "FACULTY", fontSize: 14, rotation: 90 }),
+    el({ id: "qr", type: "qr_code", x: 132, y: 310, width: 120, height: 120, content: "{{registration_number}}" }),
+    el({ id: "code", type: "barcode", x: 42, y: 450, width: 300, height: 60, content: "{{registration_number}}", barcodeFormat: "EAN13" }),
+    el({ id: "logo", type: "image", x: 20, y: 520, width: 8, height: 4, imageUrl: "https://example.com/logo.png" }),
+    el({ id: "hidden", type: "text", x: 20, y: 540, width: 100, height: 20, content: "hidden", visible: false }),
+  ],
+}
+
+// A tiny checkerboard "logo", already decoded at its printed size
+function checker(width: number, height: number): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < width * height; i++) {
+    const black = (i % width) % 2 === Math.floor(i / width) % 2
+    data.fill(black ? 0 : 255, i * 4, i * 4 + 3)
+    data[i * 4 + 3] = 255
+  }
+  return { data, width, height }
+}
+const images = new Map([["logo", checker(17, 8)]])
+
+const compile = (options: Parameters<typeof compileBadgeLayout>[2] = {}) =>
+  compileBadgeLayout(template, registration, { paperSize: "4x6", eventName: "AMASICON 2026", images, ...options })
+
+// TSPL jobs carry raw BITMAP bytes; show them as hex so the golden is text
+function printableTspl(bytes: Uint8Array): string {
+  const out: string[] = []
+  let i = 0
+  const decoder = new TextDecoder()
+  while (i < bytes.length) {
+    const lineEnd = bytes.indexOf(0x0a, i)
+    const head = decoder.decode(bytes.subarray(i, Math.min(lineEnd === -1 ? bytes.length : lineEnd, i + 64)))
+    const bitmap = head.match(/^BITMAP \d+,\d+,(\d+),(\d+),0,/)
+    if (bitmap) {
+      const start = i + bitmap[0].length
+      const length = Number(bitmap[1]) * Number(bitmap[2])
+      const hex = Array.from(bytes.subarray(start, start + length), (b) => b.toString(16).padStart(2, "0")).join("")
+      out.push(`${bitmap[0]}<${hex}>`)
+      i = start + length + 2
+      continue
+    }
+    out.push(decoder.decode(bytes.subarray(i, lineEnd)).replace(/\r$/, ""))
+    i = lineEnd + 1
+  }
+  return out.join("\n")
+}
+
+describe("golden output", () => {
+  it("compiles every element type to ZPL", async () => {
+    await expect(badgeLayoutToZPL(compile()) + "\n").toMatchFileSnapshot("./__golden__/badge-4x6.zpl")
+  })
+
+  it("compiles every element type to TSPL", async () => {
+    await expect(printableTspl(badgeLayoutToTspl(compile(), "4x6")) + "\n").toMatchFileSnapshot(
+      "./__golden__/badge-4x6.tspl"
+    )
+  })
+
+  it("keeps only variable data in overlay mode", async () => {
+    await expect(badgeLayoutToZPL(compile({ printMode: "overlay" })) + "\n").toMatchFileSnapshot(
+      "./__golden__/badge-4x6-overlay.zpl"
+    )
+  })
+})
+
+describe("compileBadgeLayout", () => {
+  const boxOf = (op: BadgeOp) => {
+    if (op.kind === "qr") {
+      const size = op.modules * op.magnification
+      return { x: op.x, y: op.y, width: size, height: size }
+    }
+    if (op.kind === "barcode") return { x: op.x, y: op.y, width: 0, height: op.height }
+    if (op.kind === "text" && (op.rotation === 90 || op.rotation === 270)) {
+      return { x: op.x, y: op.y, width: op.height, height: op.width }
+    }
+    return { x: op.x, y: op.y, width: op.width, height: op.height }
+  }
+
+  it("places each element inside the box the HTML render draws it in", () => {
+    const scale = 203 / 96
+    const [header] = template.elements
+    const options = { paperSize: "4x6", eventName: "AMASICON 2026", images }
+    const headerOps = compileBadgeLayout({ elements: [header] }, registration, options).ops.length
+    // "faint" is too light to print at all
+    for (const element of template.elements.filter((e) => e.visible !== false && e.id !== "faint")) {
+      const html = renderElementToHtml(element, registration, "AMASICON 2026")
+      const px = (prop: string) => Number(html.match(new RegExp(`${prop}: (-?[\\d.]+)px`))![1])
+      const rendered = { x: px("left"), y: px("top"), width: px("width"), height: px("height") }
+      // Over the header, so white-on-black text has its fill
+      const elements = element === header ? [header] : [header, element]
+      const ops = compileBadgeLayout({ elements }, registration, options).ops.slice(element === header ? 0 : headerOps)
+      expect(ops.length, element.id).toBeGreaterThan(0)
+
+      // Rotated elements turn about their centre
+      const sideways = quarter(element.rotation) % 180 !== 0
+      const cx = (rendered.x + rendered.width / 2) * scale
+      const cy = (rendered.y + rendered.height / 2) * scale
+      const w = (sideways ? rendered.height : rendered.width) * scale
+      const h = (sideways ? rendered.width : rendered.height) * scale
+      for (const op of ops) {
+        const box = boxOf(op)
+        expect(box.x, element.id).toBeGreaterThanOrEqual(Math.floor(cx - w / 2) - 1)
+        expect(box.y, element.id).toBeGreaterThanOrEqual(Math.floor(cy - h / 2) - 1)
+        expect(box.x + box.width, element.id).toBeLessThanOrEqual(Math.ceil(cx + w / 2) + 1)
+        expect(box.y + box.height, element.id).toBeLessThanOrEqual(Math.ceil(cy + h / 2) + 1)
+      }
+    }
+  })
+
+  it("sizes the label from paper-sizes.ts at the printer's DPI", () => {
+    expect(compile()).toMatchObject({ widthDots: 812, heightDots: 1218, dpi: 203 })
+    const at300 = compile({ dpi: 300 })
+    expect(at300).toMatchObject({ widthDots: 1200, heightDots: 1800 })
+    const name = at300.ops.find((op) => op.kind === "text" && op.text === "Dr. Asha Rao")
+    expect(name).toMatchObject({ fontHeight: Math.round(28 * (300 / 96)), bold: true, align: "center" })
+  })
+
+  it("rotates full badges 180° by default but never overlays", () => {
+    expect(compile().rotation).toBe(180)
+    expect(compile({ rotation: 0 }).rotation).toBe(0)
+    expect(compile({ printMode: "overlay", rotation: 180 }).rotation).toBe(0)
+  })
+
+  it("reverses light text on a dark fill and drops it elsewhere", () => {
+    const ops = compile().ops.filter((op) => op.kind === "text")
+    const eventGlyphs = ops.filter((op) => op.kind === "text" && op.y < 60 * (203 / 96))
+    expect(eventGlyphs.length).toBe("AMASICON 2026".replace(/ /g, "").length)
+    expect(eventGlyphs.every((op) => op.kind === "text" && op.reverse)).toBe(true)
+    expect(ops.some((op) => op.kind === "text" && op.text === "watermark")).toBe(false)
+  })
+
+  it("fits the QR code's real module count into its box", () => {
+    const qr = compile().ops.find((op) => op.kind === "qr")!
+    expect(qr.kind === "qr" && qr.modules).toBe(qrModuleCount("AMASI26-0042"))
+    if (qr.kind !== "qr") return
+    const side = Math.round(120 * (203 / 96))
+    expect(qr.magnification).toBe(Math.min(10, Math.floor(side / qr.modules)))
+    expect(qr.modules * qr.magnification).toBeLessThanOrEqual(side)
+  })
+
+  it("skips images it has no pixels for", () => {
+    expect(compile({ images: new Map() }).ops.filter((op) => op.kind === "bitmap")).toHaveLength(1)
+    expect(compile().ops.filter((op) => op.kind === "bitmap")).toHaveLength(2)
+  })
+})
+
+function quarter(degrees: number | undefined): number {
+  return ((Math.round((degrees || 0) / 90) % 4) + 4) % 4 * 90
+}
+
+describe("emitters", () => {
+  it("escapes ZPL control characters in attendee data", () => {
+    const layout = compileBadgeLayout(
+      { elements: [el({ id: "t", type: "text", content: "{{name}}", fontSize: 14 })] },
+      { attendee_name: "A^XZ~JR_B" },
+      { paperSize: "4x6" }
+    )
+    const zpl = badgeLayoutToZPL(layout)
+    expect(zpl).toContain("^FH^FDA_5EXZ_7EJR_5FB^FS")
+    expect(zpl).not.toContain("^XZ")
+  })
+
+  it("escapes quotes in TSPL strings", () => {
+    const layout = compileBadgeLayout(
+      { elements: [el({ id: "t", type: "text", content: 'Say "hi"', fontSize: 14 })] },
+      {},
+      { paperSize: "4x6" }
+    )
+    expect(printableTspl(badgeLayoutToTspl(layout))).toContain('"Say \\["]hi\\["]"')
+  })
+})
+
+describe("helpers", () => {
+  it("applies text case like the PDF badges", () => {
+    expect(applyTextCase("dr.asha RAO", "capitalize")).toBe("Dr.Asha Rao")
+    expect(applyTextCase("Asha", "uppercase")).toBe("ASHA")
+    expect(applyTextCase("Asha", "none")).toBe("Asha")
+  })
+
+  it("only inks colours darker than mid-grey after opacity", () => {
+    expect(isInked("#000")).toBe(true)
+    expect(isInked("#374151")).toBe(true)
+    expect(isInked("#e5e7eb")).toBe(false)
+    expect(isInked("#000000", 30)).toBe(false)
+    expect(isInked("rgba(0,0,0,0.3)")).toBe(false)
+    expect(isInked("transparent")).toBe(false)
+  })
+
+  it("falls back to Code 128 for data a format can't encode", () => {
+    expect(barcodeSymbology("EAN13", "890123456789")).toBe("EAN13")
+    expect(barcodeSymbology("EAN13", "AMASI26-0042")).toBe("CODE128")
+    expect(barcodeSymbology("UPC", "12345678901")).toBe("UPC")
+    expect(barcodeSymbology("CODE39", "ABC-12")).toBe("CODE39")
+    expect(barcodeSymbology("CODE39", "abc")).toBe("CODE128")
+  })
+})
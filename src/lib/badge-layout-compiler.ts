@@ -0,0 +1,544 @@
+// Printer-neutral badge layout: compiles a Designer template (the same
+// template_data badge-render.ts turns into HTML) into positioned drawing
+// ops measured in printer dots, so zpl-generator.ts and tspl-generator.ts
+// can each emit native commands from one shared layout instead of keeping
+// their own partial element loops.
+//
+// Every BadgeElement type compiles to something: text (with textCase,
+// letterSpacing, rotation, background/border and white-on-black), shapes,
+// lines (solid/dashed/dotted), QR codes sized from their real module count,
+// barcodes in all four Designer formats, and images/photos as dithered
+// bitmaps. Geometry follows the Designer canvas (96 px per inch, see
+// BADGE_SIZES) scaled to the printer's DPI, with the label size taken from
+// paper-sizes.ts -- the same shared table badge-render.ts sizes its page by.
+//
+// Thermal printers only print black: a colour "prints" when it's darker
+// than mid-grey after opacity (see isInked). Light fills and light text are
+// dropped, except light text sitting on a dark fill, which prints reversed.
+//
+// Images have to be decoded before compiling; loadBadgeImages() does that
+// in the browser. Without them, image/photo elements are skipped -- which
+// is also what overlay mode does on purpose.
+
+import QRCode from "qrcode"
+import type { BadgeElement } from "./badge-template-types"
+import { badgeAudienceFromRegistration, resolveBadgeElements } from "./badge-conditions"
+import { replacePlaceholders } from "./badge-render"
+import { ditherToMonochrome, packBits } from "./escpos-printer"
+import { getPaperSizeInches } from "./paper-sizes"
+
+/** Pixels per inch on the Designer canvas (BADGE_SIZES are 4in = 384px). */
+export const DESIGNER_DPI = 96
+export const DEFAULT_PRINTER_DPI = 203
+
+export type Rotation = 0 | 90 | 180 | 270
+
+export interface RgbaImage {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+/** Decoded image pixels per element id, already fitted to the element's box in dots. */
+export type BadgeImages = Map<string, RgbaImage>
+
+export type BarcodeSymbology = NonNullable<BadgeElement["barcodeFormat"]>
+
+export type BadgeOp =
+  /** thickness >= the shorter side means a solid fill. */
+  | { kind: "box"; x: number; y: number; width: number; height: number; thickness: number; radius: number }
+  | { kind: "ellipse"; x: number; y: number; width: number; height: number; thickness: number }
+  /**
+   * A text block. (x, y) is the top-left of the block as printed; `width`
+   * is the line length before rotation, `lines` the most lines it wraps to.
+   */
+  | {
+      kind: "text"
+      x: number
+      y: number
+      width: number
+      height: number
+      text: string
+      fontHeight: number
+      lines: number
+      lineSpacing: number
+      align: "left" | "center" | "right"
+      bold: boolean
+      reverse: boolean
+      rotation: Rotation
+    }
+  | { kind: "qr"; x: number; y: number; magnification: number; modules: number; data: string }
+  | {
+      kind: "barcode"
+      x: number
+      y: number
+      symbology: BarcodeSymbology
+      height: number
+      moduleWidth: number
+      data: string
+    }
+  /** 1 bit per dot, MSB first, 1 = black (packBits layout). */
+  | { kind: "bitmap"; x: number; y: number; width: number; height: number; bytesPerRow: number; data: Uint8Array }
+
+export interface CompiledBadge {
+  dpi: number
+  widthDots: number
+  heightDots: number
+  /** Whole-label rotation (print_settings.rotation); element rotation is per op. */
+  rotation: 0 | 180
+  ops: BadgeOp[]
+}
+
+export interface CompileBadgeOptions {
+  paperSize?: string | null
+  dpi?: number
+  printMode?: "label" | "overlay" | "full_badge" | string | null
+  rotation?: number | null
+  eventName?: string
+  images?: BadgeImages
+}
+
+// Average glyph advance of the printers' scalable font relative to its
+// height. Only used where there are no font metrics to ask: centring
+// wrapped text vertically and spacing out letter-spaced text.
+const AVG_CHAR_WIDTH = 0.55
+const MIN_FONT_DOTS = 10
+const MAX_QR_MAGNIFICATION = 10
+const MAX_MODULE_WIDTH = 10
+
+export function compileBadgeLayout(
+  templateData: { elements?: BadgeElement[]; backgroundColor?: string } | null | undefined,
+  registration: any,
+  options: CompileBadgeOptions = {}
+): CompiledBadge {
+  const dpi = options.dpi || DEFAULT_PRINTER_DPI
+  const scale = dpi / DESIGNER_DPI
+  const { widthIn, heightIn } = getPaperSizeInches(options.paperSize)
+  const widthDots = Math.round(widthIn * dpi)
+  const heightDots = Math.round(heightIn * dpi)
+  const isOverlayMode = options.printMode === "overlay"
+  // Overlay stock has a fixed orientation; full badges default to 180° like
+  // getBadgeRotationDegrees() in badge-render.ts
+  const rotation = (isOverlayMode ? 0 : (options.rotation ?? 180)) === 180 ? 180 : 0
+
+  const ops: BadgeOp[] = []
+  if (!isOverlayMode && templateData?.backgroundColor && isInked(templateData.backgroundColor)) {
+    ops.push(solidBox(0, 0, widthDots, heightDots))
+  }
+
+  const audience = registration ? badgeAudienceFromRegistration(registration) : null
+  const elements = resolveBadgeElements(templateData?.elements || [], audience)
+    // Overlay mode prints only variable data; the design is pre-printed
+    .filter((el) => !isOverlayMode || el.type === "text" || el.type === "qr_code" || el.type === "barcode")
+    .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
+
+  for (const element of elements) {
+    const box = {
+      x: Math.max(0, Math.round(element.x * scale)),
+      y: Math.max(0, Math.round(element.y * scale)),
+      width: Math.max(1, Math.round(element.width * scale)),
+      height: Math.max(1, Math.round(element.height * scale)),
+    }
+    const context = { element, box, scale, registration, eventName: options.eventName || "" }
+
+    switch (element.type) {
+      case "text":
+        ops.push(...compileText(context, ops))
+        break
+      case "shape":
+        ops.push(...compileShape(context))
+        break
+      case "line":
+        ops.push(...compileLine(context))
+        break
+      case "qr_code":
+        ops.push(...compileQr(context))
+        break
+      case "barcode":
+        ops.push(...compileBarcode(context))
+        break
+      case "image":
+      case "photo": {
+        const image = options.images?.get(element.id)
+        if (image) ops.push(bitmapOp(box.x, box.y, image))
+        break
+      }
+    }
+  }
+
+  return { dpi, widthDots, heightDots, rotation, ops }
+}
+
+interface ElementContext {
+  element: BadgeElement
+  box: { x: number; y: number; width: number; height: number }
+  scale: number
+  registration: any
+  eventName: string
+}
+
+/** Same rules as the PDF badge generator (capitalize also after "Dr."). */
+export function applyTextCase(text: string, textCase?: BadgeElement["textCase"]): string {
+  switch (textCase) {
+    case "uppercase":
+      return text.toUpperCase()
+    case "lowercase":
+      return text.toLowerCase()
+    case "capitalize":
+      return text.toLowerCase().replace(/(?:^|[\s.])([a-z])/g, (match) => match.toUpperCase())
+    default:
+      return text
+  }
+}
+
+/** Whether a colour prints black on a thermal head, after opacity (0-100). */
+export function isInked(color: string | null | undefined, opacity: number = 100): boolean {
+  const luminance = colorLuminance(color)
+  if (luminance === null) return false
+  const visible = Math.max(0, Math.min(100, opacity)) / 100
+  // Blend towards the white label
+  return 255 - (255 - luminance) * visible < 128
+}
+
+function colorLuminance(color: string | null | undefined): number | null {
+  if (!color || color === "transparent") return null
+  const value = color.trim().toLowerCase()
+  let r: number, g: number, b: number
+  let alpha = 1
+  const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/)
+  const rgb = value.match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+))?\s*\)$/)
+  if (hex) {
+    const full = hex[1].length === 3 ? hex[1].replace(/./g, "$&$&") : hex[1]
+    r = parseInt(full.slice(0, 2), 16)
+    g = parseInt(full.slice(2, 4), 16)
+    b = parseInt(full.slice(4, 6), 16)
+  } else if (rgb) {
+    r = Number(rgb[1])
+    g = Number(rgb[2])
+    b = Number(rgb[3])
+    if (rgb[4] !== undefined) alpha = Number(rgb[4])
+  } else if (value === "black") {
+    r = g = b = 0
+  } else if (value === "white") {
+    r = g = b = 255
+  } else {
+    return null
+  }
+  const luminance = 0.299 * r + 0.587 * g + 0.114 * b
+  return 255 - (255 - luminance) * alpha
+}
+
+function fillColor(element: BadgeElement): string | undefined {
+  const gradient = element.gradient
+  if (gradient?.enabled && gradient.colors.length >= 2) {
+    // A thermal head can't shade; print the gradient if it's mostly dark
+    const dark = gradient.colors.filter((c) => isInked(c)).length
+    return dark * 2 >= gradient.colors.length ? "#000000" : "#ffffff"
+  }
+  return element.backgroundColor
+}
+
+function solidBox(x: number, y: number, width: number, height: number, radius = 0): BadgeOp {
+  return { kind: "box", x, y, width, height, thickness: Math.min(width, height), radius }
+}
+
+function isSolid(op: BadgeOp): boolean {
+  return (op.kind === "box" || op.kind === "ellipse") && op.thickness >= Math.min(op.width, op.height)
+}
+
+/** Quarter turns only: printer fonts and symbols can't print at other angles. */
+function quarterTurn(degrees: number | undefined): Rotation {
+  const turns = Math.round((degrees || 0) / 90)
+  return ((((turns % 4) + 4) % 4) * 90) as Rotation
+}
+
+function compileText({ element, box, scale, registration, eventName }: ElementContext, drawn: BadgeOp[]): BadgeOp[] {
+  const raw = replacePlaceholders(element.content || "", registration, eventName)
+  const text = applyTextCase(raw, element.textCase).trim()
+  const opacity = element.opacity ?? 100
+  const out: BadgeOp[] = []
+
+  if (isInked(element.backgroundColor, opacity)) {
+    out.push(solidBox(box.x, box.y, box.width, box.height, Math.round((element.borderRadius || 0) * scale)))
+  }
+  if (element.borderWidth && isInked(element.borderColor || "#000000", opacity)) {
+    out.push({
+      kind: "box",
+      ...box,
+      thickness: Math.max(1, Math.round(element.borderWidth * scale)),
+      radius: Math.round((element.borderRadius || 0) * scale),
+    })
+  }
+  if (!text) return out
+
+  // Light text only shows up on a dark fill underneath it, reversed
+  const centre = { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+  const onDarkFill = [...drawn, ...out].some(
+    (op) =>
+      isSolid(op) &&
+      "width" in op &&
+      centre.x >= op.x &&
+      centre.x <= op.x + op.width &&
+      centre.y >= op.y &&
+      centre.y <= op.y + op.height
+  )
+  const inked = isInked(element.color || "#000000", opacity)
+  if (!inked && !onDarkFill) return out
+  const reverse = !inked && onDarkFill
+
+  const rotation = quarterTurn(element.rotation)
+  const sideways = rotation === 90 || rotation === 270
+  // Rotation is about the element's centre, as in the HTML render
+  const lineLength = box.width
+  const blockDepth = box.height
+  const printed = sideways
+    ? {
+        x: Math.max(0, Math.round(box.x + (box.width - box.height) / 2)),
+        y: Math.max(0, Math.round(box.y + (box.height - box.width) / 2)),
+      }
+    : { x: box.x, y: box.y }
+
+  const fontHeight = Math.max(MIN_FONT_DOTS, Math.round((element.fontSize || 14) * scale))
+  const advance = Math.round(fontHeight * (element.lineHeight || 1.3))
+  const lineSpacing = Math.max(0, advance - fontHeight)
+  const singleLine = !!(element as any).singleLine
+  const clamp = Number((element as any).lineClamp) || 0
+  const fits = Math.max(1, Math.floor((blockDepth + lineSpacing) / advance))
+  const lines = singleLine ? 1 : clamp > 0 ? Math.min(clamp, fits) : fits
+  const align = element.align || "left"
+  const bold = element.fontWeight === "bold"
+  const spacing = Math.round((element.letterSpacing || 0) * scale)
+
+  // Centre the lines the text is expected to use, like the render's flex box
+  const charWidth = fontHeight * AVG_CHAR_WIDTH
+  const estimatedWidth = text.length * charWidth + Math.max(0, text.length - 1) * spacing
+  const usedLines = Math.min(lines, Math.max(1, Math.ceil(estimatedWidth / lineLength)))
+  const usedDepth = usedLines * fontHeight + (usedLines - 1) * lineSpacing
+  const inset = Math.max(0, Math.floor((blockDepth - usedDepth) / 2))
+
+  if (spacing > 0 && rotation === 0 && usedLines === 1) {
+    // Printer fonts have no tracking, so place each glyph ourselves
+    const start =
+      align === "center"
+        ? box.x + (lineLength - estimatedWidth) / 2
+        : align === "right"
+          ? box.x + lineLength - estimatedWidth
+          : box.x
+    const step = charWidth + spacing
+    const glyphWidth = Math.max(1, Math.ceil(charWidth))
+    ;[...text].forEach((char, index) => {
+      if (char === " ") return
+      out.push({
+        kind: "text",
+        x: Math.max(0, Math.round(start + index * step)),
+        y: box.y + inset,
+        width: glyphWidth,
+        height: fontHeight,
+        text: char,
+        fontHeight,
+        lines: 1,
+        lineSpacing: 0,
+        align: "left",
+        bold,
+        reverse,
+        rotation,
+      })
+    })
+    return out
+  }
+
+  // Inset moves the block along its own depth axis, which is x when sideways
+  const offset = {
+    0: { x: 0, y: inset },
+    90: { x: blockDepth - usedDepth - inset, y: 0 },
+    180: { x: 0, y: blockDepth - usedDepth - inset },
+    270: { x: inset, y: 0 },
+  }[rotation]
+  out.push({
+    kind: "text",
+    x: printed.x + Math.max(0, offset.x),
+    y: printed.y + Math.max(0, offset.y),
+    width: lineLength,
+    height: usedDepth,
+    text,
+    fontHeight,
+    lines,
+    lineSpacing,
+    align,
+    bold,
+    reverse,
+    rotation,
+  })
+  return out
+}
+
+function compileShape({ element, box, scale }: ElementContext): BadgeOp[] {
+  const opacity = element.opacity ?? 100
+  const filled = isInked(fillColor(element), opacity)
+  const border = element.borderWidth ? Math.max(1, Math.round(element.borderWidth * scale)) : 0
+  const bordered = border > 0 && isInked(element.borderColor || "#000000", opacity)
+  if (!filled && !bordered) return []
+
+  if (element.shapeType === "triangle") {
+    // Neither language draws polygons: rasterise it (filled, like the render's SVG)
+    return filled ? [bitmapOp(box.x, box.y, triangleImage(box.width, box.height))] : []
+  }
+  if (element.shapeType === "circle") {
+    return [{ kind: "ellipse", ...box, thickness: filled ? Math.min(box.width, box.height) : border }]
+  }
+  const radius = Math.round((element.borderRadius || (element.shapeType === "rounded" ? 8 : 0)) * scale)
+  return [{ kind: "box", ...box, thickness: filled ? Math.min(box.width, box.height) : border, radius }]
+}
+
+function compileLine({ element, box }: ElementContext): BadgeOp[] {
+  if (!isInked(element.color || "#000000", element.opacity ?? 100)) return []
+  const thickness = box.height
+  const style = element.lineStyle || "solid"
+  if (style === "solid") return [solidBox(box.x, box.y, box.width, thickness)]
+
+  const dash = style === "dashed" ? thickness * 3 : thickness
+  const gap = style === "dashed" ? thickness * 2 : thickness
+  const ops: BadgeOp[] = []
+  for (let x = 0; x < box.width; x += dash + gap) {
+    ops.push(solidBox(box.x + x, box.y, Math.min(dash, box.width - x), thickness))
+  }
+  return ops
+}
+
+function compileQr({ element, box, registration, eventName }: ElementContext): BadgeOp[] {
+  const data = replacePlaceholders(element.content || "", registration, eventName)
+  if (!data) return []
+  // Same error correction as the PDF badges and ZPL's "QA" prefix
+  const modules = qrModuleCount(data)
+  const side = Math.min(box.width, box.height)
+  const magnification = Math.max(1, Math.min(MAX_QR_MAGNIFICATION, Math.floor(side / modules)))
+  const size = modules * magnification
+  return [
+    {
+      kind: "qr",
+      x: box.x + Math.max(0, Math.floor((box.width - size) / 2)),
+      y: box.y + Math.max(0, Math.floor((box.height - size) / 2)),
+      magnification,
+      modules,
+      data,
+    },
+  ]
+}
+
+export function qrModuleCount(data: string): number {
+  return QRCode.create(data, { errorCorrectionLevel: "Q" }).modules.size
+}
+
+function compileBarcode({ element, box, registration, eventName }: ElementContext): BadgeOp[] {
+  const data = replacePlaceholders(element.content || "", registration, eventName).trim()
+  if (!data) return []
+  const symbology = barcodeSymbology(element.barcodeFormat, data)
+  const modules = barcodeModules(symbology, data)
+  const moduleWidth = Math.max(1, Math.min(MAX_MODULE_WIDTH, Math.floor(box.width / modules)))
+  // Leave room under the bars for the human-readable line
+  const height = Math.max(10, Math.round(box.height * 0.75))
+  return [
+    {
+      kind: "barcode",
+      x: box.x + Math.max(0, Math.floor((box.width - modules * moduleWidth) / 2)),
+      y: box.y,
+      symbology,
+      height,
+      moduleWidth,
+      data,
+    },
+  ]
+}
+
+/** EAN/UPC only encode digits of a fixed length; anything else prints as Code 128. */
+export function barcodeSymbology(format: BadgeElement["barcodeFormat"], data: string): BarcodeSymbology {
+  if (format === "EAN13" && /^\d{12,13}$/.test(data)) return "EAN13"
+  if (format === "UPC" && /^\d{11,12}$/.test(data)) return "UPC"
+  if (format === "CODE39" && /^[0-9A-Z \-.$/+%]+$/.test(data)) return "CODE39"
+  return "CODE128"
+}
+
+// Symbol width in narrow modules, quiet zones excluded
+function barcodeModules(symbology: BarcodeSymbology, data: string): number {
+  switch (symbology) {
+    case "EAN13":
+    case "UPC":
+      return 95
+    case "CODE39":
+      // 3:1 wide bars, start/stop characters, one-module gaps
+      return (data.length + 2) * 16 - 1
+    case "CODE128":
+      // Start, checksum, stop (13) around 11-module characters
+      return (data.length + 3) * 11 + 2
+  }
+}
+
+function bitmapOp(x: number, y: number, image: RgbaImage): BadgeOp {
+  const mono = ditherToMonochrome(image)
+  const { data, bytesPerRow } = packBits(mono, image.width, image.height)
+  return { kind: "bitmap", x, y, width: image.width, height: image.height, bytesPerRow, data }
+}
+
+function triangleImage(width: number, height: number): RgbaImage {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    // Apex at the top centre, base along the bottom edge
+    const half = ((y + 1) / height) * (width / 2)
+    for (let x = 0; x < width; x++) {
+      const inside = Math.abs(x + 0.5 - width / 2) <= half
+      const i = (y * width + x) * 4
+      const value = inside ? 0 : 255
+      data[i] = data[i + 1] = data[i + 2] = value
+      data[i + 3] = 255
+    }
+  }
+  return { data, width, height }
+}
+
+/**
+ * Browser only: decode every image/photo element at its printed size so
+ * compileBadgeLayout() can dither it. Images are fitted like the HTML
+ * render -- "contain" for images, "cover" for photos. Ones that fail to
+ * load (offline kiosk, CORS) are left out and simply don't print.
+ */
+export async function loadBadgeImages(
+  templateData: { elements?: BadgeElement[] } | null | undefined,
+  options: { dpi?: number } = {}
+): Promise<BadgeImages> {
+  const scale = (options.dpi || DEFAULT_PRINTER_DPI) / DESIGNER_DPI
+  const images: BadgeImages = new Map()
+  const elements = (templateData?.elements || []).filter(
+    (el) => (el.type === "image" || el.type === "photo") && el.imageUrl && el.visible !== false
+  )
+
+  await Promise.all(
+    elements.map(async (element) => {
+      try {
+        const img = new Image()
+        img.crossOrigin = "anonymous"
+        img.src = element.imageUrl!
+        await img.decode()
+
+        const width = Math.max(1, Math.round(element.width * scale))
+        const height = Math.max(1, Math.round(element.height * scale))
+        const canvas = document.createElement("canvas")
+        canvas.width = width
+        canvas.height = height
+        const ctx = canvas.getContext("2d")!
+        ctx.fillStyle = "#ffffff"
+        ctx.fillRect(0, 0, width, height)
+
+        const fit = element.type === "photo" ? Math.max : Math.min
+        const ratio = fit(width / img.naturalWidth, height / img.naturalHeight)
+        const drawWidth = img.naturalWidth * ratio
+        const drawHeight = img.naturalHeight * ratio
+        ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+
+        images.set(element.id, ctx.getImageData(0, 0, width, height))
+      } catch (err) {
+        console.warn(`Badge image ${element.id} could not be loaded for printing:`, err)
+      }
+    })
+  )
+  return images
+}
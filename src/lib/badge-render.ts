@@ -8,6 +8,7 @@
 // printer-specific code and no network calls of its own.
 
 import { getPaperSizeInches } from "./paper-sizes"
+import { badgeAudienceFromRegistration, resolveBadgeElements } from "./badge-conditions"
 
 // Shared by every html2canvas capture site (KioskCheckinScreen.tsx,
 // print/[token]/page.tsx x2) in place of a fixed setTimeout guess before
@@ -273,7 +274,8 @@ export function generatePrintContent(data: {
   // If we have a badge template, render it
   if (badgeTemplate?.template_data) {
     const templateData = badgeTemplate.template_data
-    let elements = templateData.elements || []
+    // Conditional elements and colour variants for this attendee
+    let elements = resolveBadgeElements(templateData.elements || [], registration ? badgeAudienceFromRegistration(registration) : null)
     // For overlay mode: transparent background, skip background images (keep only variable data)
     const bgColor = isOverlayMode ? "transparent" : (templateData.backgroundColor || "#ffffff")
 
@@ -7,6 +7,30 @@ export const BADGE_SIZES: Record<string, { width: number; height: number; label:
   A6: { width: 397, height: 559, label: "A6" },
 }
 
+// Who an element is for. Rules read the registration's ticket type plus
+// facts loaded alongside it (see src/lib/badge-conditions.ts).
+export type BadgeConditionRule =
+  | { field: "ticket_type"; op: "in" | "not_in"; value: string[] }
+  | { field: "faculty_role"; op: "in" | "none"; value: string[] }
+  | { field: "addon"; op: "has_any" | "has_none"; value: string[] }
+  | { field: "membership"; op: "is_member" | "not_member" }
+
+export interface BadgeCondition {
+  match: "all" | "any"
+  rules: BadgeConditionRule[]
+}
+
+// A per-category override, e.g. the colour band that is red for faculty and
+// blue for delegates. The first variant whose condition matches wins.
+export interface BadgeElementVariant {
+  when: BadgeCondition
+  label?: string
+  backgroundColor?: string
+  color?: string
+  borderColor?: string
+  content?: string
+}
+
 export interface BadgeElement {
   id: string
   type: "text" | "qr_code" | "image" | "shape" | "line" | "barcode" | "photo"
@@ -48,6 +72,8 @@ export interface BadgeElement {
     colors: string[]
     angle?: number
   }
+  showWhen?: BadgeCondition
+  variants?: BadgeElementVariant[]
 }
 
 export interface BadgeTemplate {
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import {
+  diffBadgeTemplates,
+  isDesignChange,
+  summarizeTemplateDiff,
+  type BadgeTemplateSnapshot,
+} from "./badge-template-versions"
+import type { BadgeElement } from "./badge-template-types"
+
+const name: BadgeElement = { id: "name", type: "text", x: 20, y: 40, width: 300, height: 50, content: "{{name}}", fontSize: 28, zIndex: 2 }
+const band: BadgeElement = { id: "band", type: "shape", x: 0, y: 500, width: 384, height: 76, backgroundColor: "#22c55e", zIndex: 1 }
+
+const v1: BadgeTemplateSnapshot = {
+  name: "Delegate",
+  size: "4x6",
+  template_image_url: null,
+  template_data: { backgroundColor: "#ffffff", elements: [name, band] },
+}
+
+describe("diffBadgeTemplates", () => {
+  it("finds nothing between identical snapshots", () => {
+    expect(diffBadgeTemplates(v1, structuredClone(v1))).toEqual([])
+  })
+
+  it("groups element field changes and matches elements by id", () => {
+    const v2 = structuredClone(v1)
+    v2.template_data!.elements![0] = { ...name, x: 30, y: 50, fontSize: 32 }
+    v2.template_data!.elements![1] = {
+      ...band,
+      variants: [{ when: { match: "all", rules: [{ field: "faculty_role", op: "in", value: [] }] }, backgroundColor: "#ef4444" }],
+    }
+    expect(diffBadgeTemplates(v1, v2)).toEqual([
+      { kind: "changed", elementId: "name", label: 'Text "{{name}}"', fields: ["position", "style"] },
+      { kind: "changed", elementId: "band", label: "Shape", fields: ["colour variants"] },
+    ])
+  })
+
+  it("reports added and removed elements and template fields", () => {
+    const qr: BadgeElement = { id: "qr", type: "qr_code", x: 150, y: 300, width: 80, height: 80, content: "{{checkin_url}}", zIndex: 3 }
+    const v2: BadgeTemplateSnapshot = {
+      ...v1,
+      size: "4x3",
+      template_data: { backgroundColor: "#000000", elements: [name, qr] },
+    }
+    const changes = diffBadgeTemplates(v1, v2)
+    expect(changes.map((c) => c.kind)).toEqual(["template", "template", "added", "removed"])
+    expect(changes[0].label).toBe("Size 4x6 → 4x3")
+    expect(changes[2].label).toBe("Qr code")
+    expect(summarizeTemplateDiff(changes)).toBe("1 added, 1 removed, 2 changed")
+  })
+})
+
+describe("isDesignChange", () => {
+  it("ignores a rename", () => {
+    expect(isDesignChange(v1, { ...v1, name: "Faculty" })).toBe(false)
+    expect(isDesignChange(v1, { ...v1, template_image_url: "https://example.com/bg.png" })).toBe(true)
+  })
+})
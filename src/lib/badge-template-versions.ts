@@ -0,0 +1,116 @@
+// Diffs two badge template snapshots for the designer's version history.
+// Snapshots are rows of badge_template_versions (or the template itself);
+// elements are matched by id, so a moved or restyled element shows up as a
+// change rather than a removal plus an addition.
+
+import type { BadgeElement } from "./badge-template-types"
+
+export interface BadgeTemplateSnapshot {
+  name: string
+  size: string | null
+  template_image_url: string | null
+  template_data: { backgroundColor?: string; elements?: BadgeElement[] } | null
+}
+
+export type BadgeTemplateChange =
+  | { kind: "template"; field: string; label: string }
+  | { kind: "added" | "removed"; elementId: string; label: string }
+  | { kind: "changed"; elementId: string; label: string; fields: string[] }
+
+// Element keys grouped the way a designer thinks about them
+const FIELD_GROUPS: Record<string, string> = {
+  x: "position",
+  y: "position",
+  width: "size",
+  height: "size",
+  rotation: "rotation",
+  zIndex: "layer order",
+  content: "content",
+  showWhen: "conditions",
+  variants: "colour variants",
+  visible: "visibility",
+  locked: "lock",
+  imageUrl: "image",
+}
+
+function fieldGroup(key: string): string {
+  return FIELD_GROUPS[key] || "style"
+}
+
+/** Something a person recognises an element by in a list of changes. */
+export function badgeElementLabel(element: BadgeElement): string {
+  const type = element.type.replace("_", " ")
+  if (element.type === "text" && element.content) {
+    const text = element.content.length > 30 ? `${element.content.slice(0, 30)}…` : element.content
+    return `Text "${text}"`
+  }
+  return type.charAt(0).toUpperCase() + type.slice(1)
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+function changedFields(before: BadgeElement, after: BadgeElement): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]) as Set<keyof BadgeElement>
+  const groups = new Set<string>()
+  for (const key of keys) {
+    if (key === "id") continue
+    if (!same(before[key], after[key])) groups.add(fieldGroup(key))
+  }
+  return [...groups]
+}
+
+/** What changed going from `before` to `after`, template fields first. */
+export function diffBadgeTemplates(before: BadgeTemplateSnapshot, after: BadgeTemplateSnapshot): BadgeTemplateChange[] {
+  const changes: BadgeTemplateChange[] = []
+  if (before.name !== after.name) changes.push({ kind: "template", field: "name", label: `Renamed to "${after.name}"` })
+  if ((before.size || null) !== (after.size || null)) {
+    changes.push({ kind: "template", field: "size", label: `Size ${before.size || "default"} → ${after.size || "default"}` })
+  }
+  if (!same(before.template_data?.backgroundColor, after.template_data?.backgroundColor)) {
+    changes.push({ kind: "template", field: "backgroundColor", label: "Background colour changed" })
+  }
+  if ((before.template_image_url || null) !== (after.template_image_url || null)) {
+    changes.push({ kind: "template", field: "template_image_url", label: "Background image changed" })
+  }
+
+  const beforeElements = before.template_data?.elements || []
+  const afterElements = after.template_data?.elements || []
+  const beforeById = new Map(beforeElements.map((el) => [el.id, el]))
+  const afterIds = new Set(afterElements.map((el) => el.id))
+
+  for (const el of afterElements) {
+    const previous = beforeById.get(el.id)
+    if (!previous) {
+      changes.push({ kind: "added", elementId: el.id, label: badgeElementLabel(el) })
+      continue
+    }
+    const fields = changedFields(previous, el)
+    if (fields.length > 0) changes.push({ kind: "changed", elementId: el.id, label: badgeElementLabel(el), fields })
+  }
+  for (const el of beforeElements) {
+    if (!afterIds.has(el.id)) changes.push({ kind: "removed", elementId: el.id, label: badgeElementLabel(el) })
+  }
+  return changes
+}
+
+/** Whether a save changes what badges look like, i.e. needs a new version. */
+export function isDesignChange(before: BadgeTemplateSnapshot, after: BadgeTemplateSnapshot): boolean {
+  return diffBadgeTemplates(before, after).some((c) => c.kind !== "template" || c.field !== "name")
+}
+
+/** e.g. "2 added, 1 removed, 3 changed" */
+export function summarizeTemplateDiff(changes: BadgeTemplateChange[]): string {
+  if (changes.length === 0) return "No changes"
+  const count = (kind: BadgeTemplateChange["kind"]) => changes.filter((c) => c.kind === kind).length
+  const parts = [
+    [count("added"), "added"],
+    [count("removed"), "removed"],
+    [count("changed") + count("template"), "changed"],
+  ] as const
+  return parts
+    .filter(([n]) => n > 0)
+    .map(([n, label]) => `${n} ${label}`)
+    .join(", ")
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest"
+import {
+  CAMPAIGN_MAX_ATTEMPTS,
+  DEFAULT_SENDS_PER_MINUTE,
+  MAX_SENDS_PER_MINUTE,
+  buildRecipientTimeline,
+  campaignRetryDelayMs,
+  campaignThrottle,
+  campaignTransition,
+  cleanCampaignThrottles,
+  sendBudget,
+  sendSpacingMs,
+  type TimelineLog,
+  type TimelineRecipient,
+} from "./campaign-sending"
+
+function log(fields: Partial<TimelineLog>): TimelineLog {
+  return {
+    id: "log",
+    status: "sent",
+    provider: "resend",
+    error_message: null,
+    created_at: null,
+    sent_at: null,
+    delivered_at: null,
+    read_at: null,
+    failed_at: null,
+    ...fields,
+  }
+}
+
+function recipient(fields: Partial<TimelineRecipient>): TimelineRecipient {
+  return {
+    status: "sent",
+    created_at: "2026-10-19T09:00:00Z",
+    updated_at: null,
+    next_attempt_at: null,
+    last_error: null,
+    ...fields,
+  }
+}
+
+describe("campaignTransition", () => {
+  it("pauses only campaigns that haven't finished", () => {
+    expect(campaignTransition("scheduled", "pause")).toBe("paused")
+    expect(campaignTransition("sending", "pause")).toBe("paused")
+    expect(campaignTransition("completed", "pause")).toBeNull()
+  })
+
+  it("resumes paused campaigns into sending", () => {
+    expect(campaignTransition("paused", "resume")).toBe("sending")
+    expect(campaignTransition("sending", "resume")).toBeNull()
+  })
+
+  it("cancels anything still open", () => {
+    expect(campaignTransition("paused", "cancel")).toBe("cancelled")
+    expect(campaignTransition("cancelled", "cancel")).toBeNull()
+    expect(campaignTransition("completed", "cancel")).toBeNull()
+  })
+
+  it("reopens a completed campaign to retry failures", () => {
+    expect(campaignTransition("completed", "retry_failed")).toBe("sending")
+    expect(campaignTransition("cancelled", "retry_failed")).toBeNull()
+    expect(campaignTransition("scheduled", "retry_failed")).toBeNull()
+  })
+})
+
+describe("campaignThrottle", () => {
+  it("uses the provider default, an event override, or the generic rate", () => {
+    expect(campaignThrottle("resend")).toBe(100)
+    expect(campaignThrottle("qikchat", { qikchat: 20 })).toBe(20)
+    expect(campaignThrottle("gallabox", { gallabox: 0 })).toBe(60)
+    expect(campaignThrottle("msg91", { resend: 5 })).toBe(DEFAULT_SENDS_PER_MINUTE)
+    expect(campaignThrottle(null)).toBe(DEFAULT_SENDS_PER_MINUTE)
+  })
+
+  it("caps overrides", () => {
+    expect(campaignThrottle("resend", { resend: 10_000 })).toBe(MAX_SENDS_PER_MINUTE)
+  })
+})
+
+describe("cleanCampaignThrottles", () => {
+  it("keeps known providers with positive whole rates", () => {
+    expect(cleanCampaignThrottles({ resend: "45.7", gallabox: -1, twilio: 10, qikchat: 30 })).toEqual({
+      resend: 45,
+      qikchat: 30,
+    })
+    expect(cleanCampaignThrottles("nope")).toEqual({})
+  })
+})
+
+describe("send pacing", () => {
+  it("spaces sends evenly and fits the budget to the run window", () => {
+    expect(sendSpacingMs(60)).toBe(1000)
+    expect(sendSpacingMs(100)).toBe(600)
+    expect(sendBudget(60, 50_000)).toBe(50)
+    expect(sendBudget(100, 50_000)).toBe(83)
+  })
+})
+
+describe("campaignRetryDelayMs", () => {
+  it("backs off, then gives up", () => {
+    expect(campaignRetryDelayMs(1)).toBe(2 * 60 * 1000)
+    expect(campaignRetryDelayMs(2)).toBe(10 * 60 * 1000)
+    expect(campaignRetryDelayMs(3)).toBe(30 * 60 * 1000)
+    expect(campaignRetryDelayMs(CAMPAIGN_MAX_ATTEMPTS)).toBeNull()
+  })
+})
+
+describe("buildRecipientTimeline", () => {
+  it("orders a failed attempt, the retry and its delivery receipts", () => {
+    const timeline = buildRecipientTimeline(recipient({ status: "sent" }), [
+      log({
+        id: "b",
+        sent_at: "2026-10-19T09:03:00Z",
+        delivered_at: "2026-10-19T09:03:05Z",
+        read_at: "2026-10-19T09:10:00Z",
+      }),
+      log({ id: "a", status: "failed", error_message: "429 Too many requests", failed_at: "2026-10-19T09:01:00Z" }),
+    ])
+    expect(timeline.map((e) => [e.kind, e.attempt])).toEqual([
+      ["queued", undefined],
+      ["failed", 1],
+      ["sent", 2],
+      ["delivered", 2],
+      ["read", 2],
+    ])
+    expect(timeline[1].detail).toBe("429 Too many requests")
+  })
+
+  it("shows a bounce reported after the send", () => {
+    const timeline = buildRecipientTimeline(recipient({}), [
+      log({ status: "bounced", sent_at: "2026-10-19T09:01:00Z", failed_at: "2026-10-19T09:02:00Z" }),
+    ])
+    expect(timeline.map((e) => e.kind)).toEqual(["queued", "sent", "failed"])
+  })
+
+  it("ends with what happens next", () => {
+    const retrying = buildRecipientTimeline(
+      recipient({ status: "retrying", next_attempt_at: "2026-10-19T09:12:00Z", last_error: "timeout" }),
+      [log({ status: "failed", failed_at: "2026-10-19T09:02:00Z" })]
+    )
+    expect(retrying.at(-1)).toMatchObject({ kind: "retry_scheduled", detail: "timeout" })
+
+    const skipped = buildRecipientTimeline(
+      recipient({ status: "skipped", last_error: "No phone number" }),
+      []
+    )
+    expect(skipped.map((e) => e.kind)).toEqual(["queued", "skipped"])
+  })
+})
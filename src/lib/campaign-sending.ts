@@ -0,0 +1,189 @@
+/**
+ * Campaign sending rules
+ *
+ * Pure pieces of the campaign scheduler: campaign and recipient states, what
+ * an admin can do in each state, per-provider send rates, the retry schedule
+ * for failed sends, and the per-recipient timeline shown on the
+ * communications history page. The runner that applies them is
+ * lib/services/campaign-runner.ts.
+ */
+
+export type CampaignStatus = "draft" | "scheduled" | "sending" | "paused" | "completed" | "cancelled"
+
+export type CampaignRecipientStatus =
+  | "queued"
+  | "sending"
+  | "retrying"
+  | "sent"
+  | "failed"
+  | "skipped"
+  | "cancelled"
+
+/** Recipient states the runner still has to work through. */
+export const OPEN_RECIPIENT_STATUSES: CampaignRecipientStatus[] = ["queued", "sending", "retrying"]
+
+export type CampaignAction = "pause" | "resume" | "cancel" | "retry_failed"
+
+/**
+ * The campaign status an admin action leads to, or null if the action makes
+ * no sense in the current state. `retry_failed` re-queues recipients whose
+ * attempts ran out, so it also reopens a completed campaign.
+ */
+export function campaignTransition(status: CampaignStatus, action: CampaignAction): CampaignStatus | null {
+  switch (action) {
+    case "pause":
+      return status === "scheduled" || status === "sending" ? "paused" : null
+    case "resume":
+      return status === "paused" ? "sending" : null
+    case "cancel":
+      return status === "completed" || status === "cancelled" ? null : "cancelled"
+    case "retry_failed":
+      return status === "completed" || status === "paused" || status === "sending" ? "sending" : null
+  }
+}
+
+// Providers with their own throttle setting. The defaults sit under each
+// provider's documented rate: Resend allows 2 requests/second, and the
+// WhatsApp BSPs start queueing (and eventually rejecting) text sends well
+// before that.
+export const THROTTLED_PROVIDERS = {
+  resend: { label: "Resend", channel: "email", defaultPerMinute: 100 },
+  gallabox: { label: "Gallabox", channel: "whatsapp", defaultPerMinute: 60 },
+  qikchat: { label: "QikChat", channel: "whatsapp", defaultPerMinute: 60 },
+} as const
+
+export type ThrottledProvider = keyof typeof THROTTLED_PROVIDERS
+
+export type CampaignThrottles = Partial<Record<ThrottledProvider, number>>
+
+/** Rate for providers without a setting of their own (SMS gateways, Meta, Twilio, ...). */
+export const DEFAULT_SENDS_PER_MINUTE = 30
+
+export const MAX_SENDS_PER_MINUTE = 600
+
+export function isThrottledProvider(value: string | null | undefined): value is ThrottledProvider {
+  return !!value && Object.prototype.hasOwnProperty.call(THROTTLED_PROVIDERS, value)
+}
+
+/**
+ * Sends per minute for a provider: the event's override when it's a positive
+ * number, else the provider default.
+ */
+export function campaignThrottle(provider: string | null, overrides?: CampaignThrottles | null): number {
+  if (!isThrottledProvider(provider)) return DEFAULT_SENDS_PER_MINUTE
+  const override = Number(overrides?.[provider])
+  const perMinute = Number.isFinite(override) && override > 0 ? override : THROTTLED_PROVIDERS[provider].defaultPerMinute
+  return Math.min(Math.floor(perMinute) || 1, MAX_SENDS_PER_MINUTE)
+}
+
+/** Keep only known providers with positive whole-number rates. */
+export function cleanCampaignThrottles(value: unknown): CampaignThrottles {
+  const throttles: CampaignThrottles = {}
+  if (!value || typeof value !== "object") return throttles
+  for (const [provider, rate] of Object.entries(value as Record<string, unknown>)) {
+    const n = Math.floor(Number(rate))
+    if (isThrottledProvider(provider) && n > 0) throttles[provider] = Math.min(n, MAX_SENDS_PER_MINUTE)
+  }
+  return throttles
+}
+
+/** Gap between two sends through a provider running at `perMinute`. */
+export function sendSpacingMs(perMinute: number): number {
+  return Math.ceil(60_000 / Math.max(perMinute, 1))
+}
+
+/** How many sends fit in a run of `windowMs` at `perMinute`. */
+export function sendBudget(perMinute: number, windowMs: number): number {
+  return Math.max(0, Math.floor((perMinute * windowMs) / 60_000))
+}
+
+// Attempt 1 is the scheduled send; the rest are automatic retries.
+export const CAMPAIGN_MAX_ATTEMPTS = 4
+
+const RETRY_DELAYS_MS = [2 * 60 * 1000, 10 * 60 * 1000, 30 * 60 * 1000]
+
+/**
+ * Wait after failed attempt number `attempt` (1-based): 2m, 10m, 30m.
+ * Null once attempts are used up.
+ */
+export function campaignRetryDelayMs(attempt: number): number | null {
+  if (attempt >= CAMPAIGN_MAX_ATTEMPTS) return null
+  return RETRY_DELAYS_MS[Math.min(attempt, RETRY_DELAYS_MS.length) - 1]
+}
+
+export interface TimelineRecipient {
+  status: CampaignRecipientStatus
+  created_at: string
+  updated_at: string | null
+  next_attempt_at: string | null
+  last_error: string | null
+}
+
+export interface TimelineLog {
+  id: string
+  status: string | null
+  provider: string | null
+  error_message: string | null
+  created_at: string | null
+  sent_at: string | null
+  delivered_at: string | null
+  read_at: string | null
+  failed_at: string | null
+}
+
+export type TimelineKind =
+  | "queued"
+  | "sent"
+  | "delivered"
+  | "read"
+  | "failed"
+  | "retry_scheduled"
+  | "skipped"
+  | "cancelled"
+
+export interface TimelineEntry {
+  at: string
+  kind: TimelineKind
+  detail?: string
+  attempt?: number
+}
+
+/**
+ * One recipient's history, oldest first: queued, then every attempt from
+ * message_logs (with the provider's delivered/read receipts as they come in),
+ * then what happens next.
+ */
+export function buildRecipientTimeline(recipient: TimelineRecipient, logs: TimelineLog[]): TimelineEntry[] {
+  const entries: TimelineEntry[] = [{ at: recipient.created_at, kind: "queued" }]
+
+  const attemptTime = (log: TimelineLog) => time(log.sent_at || log.failed_at || log.created_at)
+  const attempts = [...logs].sort((a, b) => attemptTime(a) - attemptTime(b))
+  attempts.forEach((log, index) => {
+    const attempt = index + 1
+    if (log.sent_at) entries.push({ at: log.sent_at, kind: "sent", attempt, detail: log.provider || undefined })
+    if (log.delivered_at) entries.push({ at: log.delivered_at, kind: "delivered", attempt })
+    if (log.read_at) entries.push({ at: log.read_at, kind: "read", attempt })
+    // A failure can come straight back from the API or later as a delivery report
+    if (log.status === "failed" || log.status === "bounced" || (!log.sent_at && log.failed_at)) {
+      entries.push({
+        at: log.failed_at || log.created_at || recipient.created_at,
+        kind: "failed",
+        attempt,
+        detail: log.error_message || undefined,
+      })
+    }
+  })
+
+  const changedAt = recipient.updated_at || recipient.created_at
+  if (recipient.status === "retrying" && recipient.next_attempt_at) {
+    entries.push({ at: recipient.next_attempt_at, kind: "retry_scheduled", detail: recipient.last_error || undefined })
+  } else if (recipient.status === "skipped") {
+    entries.push({ at: changedAt, kind: "skipped", detail: recipient.last_error || undefined })
+  } else if (recipient.status === "cancelled") {
+    entries.push({ at: changedAt, kind: "cancelled" })
+  }
+
+  return entries.sort((a, b) => time(a.at) - time(b.at))
+}
+
+const time = (value: string | null) => (value ? new Date(value).getTime() : 0)
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest"
+import {
+  checkEntitlement,
+  entitlementCriteria,
+  eventDay,
+  hasEntitlements,
+  parseEntitlementRules,
+  parseMaxScansPerDay,
+  type EntitlementHolder,
+  type EntitlementRule,
+} from "./checkin-entitlements"
+
+const CONFERENCE = "11111111-1111-1111-1111-111111111111"
+const WORKSHOP = "22222222-2222-2222-2222-222222222222"
+const GALA_ADDON = "33333333-3333-3333-3333-333333333333"
+const LUNCH_DAY1 = "44444444-4444-4444-4444-444444444444"
+
+function rule(overrides: Partial<EntitlementRule> = {}): EntitlementRule {
+  return { day: null, ticket_type_ids: [], addon_ids: [], meal_plan_ids: [], ...overrides }
+}
+
+function holder(overrides: Partial<EntitlementHolder> = {}): EntitlementHolder {
+  return { ticket_type_id: CONFERENCE, addon_ids: [], meal_plan_ids: [], ...overrides }
+}
+
+const labels = { [CONFERENCE]: "Conference", [WORKSHOP]: "Workshop", [GALA_ADDON]: "Gala dinner" }
+
+describe("eventDay", () => {
+  it("uses the event's timezone, not UTC", () => {
+    const at = new Date("2026-10-20T19:00:00Z")
+    expect(eventDay(at, "UTC")).toBe("2026-10-20")
+    expect(eventDay(at, "Asia/Kolkata")).toBe("2026-10-21")
+  })
+
+  it("falls back to UTC for an unknown timezone", () => {
+    expect(eventDay(new Date("2026-10-20T19:00:00Z"), "Not/AZone")).toBe("2026-10-20")
+  })
+})
+
+describe("checkEntitlement", () => {
+  const day2Workshop = { entitlement_rules: [rule({ day: "2026-10-21", ticket_type_ids: [WORKSHOP] })] }
+
+  it("allows everyone when the list has no rules or limit", () => {
+    expect(hasEntitlements({ entitlement_rules: [], max_scans_per_day: null })).toBe(false)
+    expect(checkEntitlement({}, holder(), { day: "2026-10-20", usesToday: 5 })).toEqual({ allowed: true })
+  })
+
+  it("denies on a day no rule covers, naming the days that are", () => {
+    const result = checkEntitlement(day2Workshop, holder({ ticket_type_id: WORKSHOP }), {
+      day: "2026-10-20",
+      usesToday: 0,
+      listName: "Workshop hall",
+    })
+    expect(result).toEqual({
+      allowed: false,
+      code: "not_today",
+      reason: 'Not valid today — "Workshop hall" is only open on 21 Oct.',
+    })
+  })
+
+  it("denies a delegate no rule for the day matches, naming what's required", () => {
+    const result = checkEntitlement(day2Workshop, holder(), { day: "2026-10-21", usesToday: 0, listName: "Workshop hall", labels })
+    expect(result).toEqual({
+      allowed: false,
+      code: "not_entitled",
+      reason: 'Not entitled to "Workshop hall" on 21 Oct — requires Workshop ticket.',
+    })
+    expect(checkEntitlement(day2Workshop, holder({ ticket_type_id: WORKSHOP }), { day: "2026-10-21", usesToday: 0 })).toEqual({
+      allowed: true,
+    })
+  })
+
+  it("ANDs criteria within a rule and ORs rules for the same day", () => {
+    const list = {
+      entitlement_rules: [
+        rule({ ticket_type_ids: [WORKSHOP], addon_ids: [GALA_ADDON] }),
+        rule({ day: "2026-10-20", meal_plan_ids: [LUNCH_DAY1] }),
+      ],
+    }
+    const ctx = { day: "2026-10-20", usesToday: 0 }
+    expect(checkEntitlement(list, holder({ ticket_type_id: WORKSHOP }), ctx).allowed).toBe(false)
+    expect(checkEntitlement(list, holder({ ticket_type_id: WORKSHOP, addon_ids: [GALA_ADDON] }), ctx).allowed).toBe(true)
+    expect(checkEntitlement(list, holder({ meal_plan_ids: [LUNCH_DAY1] }), ctx).allowed).toBe(true)
+    expect(checkEntitlement(list, holder({ meal_plan_ids: [LUNCH_DAY1] }), { ...ctx, day: "2026-10-21" }).allowed).toBe(false)
+  })
+
+  it("caps admitted scans per day", () => {
+    const lunch = { entitlement_rules: [], max_scans_per_day: 1 }
+    expect(checkEntitlement(lunch, holder(), { day: "2026-10-20", usesToday: 0 })).toEqual({ allowed: true })
+    expect(checkEntitlement(lunch, holder(), { day: "2026-10-20", usesToday: 1, listName: "Lunch" })).toEqual({
+      allowed: false,
+      code: "daily_limit",
+      reason: 'Daily limit reached — already used "Lunch" 1 of 1 time today.',
+    })
+  })
+
+  it("reports which registration data the rules need", () => {
+    expect(entitlementCriteria({ entitlement_rules: [rule({ ticket_type_ids: [WORKSHOP] })] })).toEqual({
+      addons: false,
+      mealPlans: false,
+    })
+    expect(entitlementCriteria({ entitlement_rules: [rule({ meal_plan_ids: [LUNCH_DAY1] })] })).toEqual({
+      addons: false,
+      mealPlans: true,
+    })
+  })
+})
+
+describe("parseEntitlementRules", () => {
+  it("normalizes missing id lists and blank days", () => {
+    expect(parseEntitlementRules([{ day: "", ticket_type_ids: [WORKSHOP, WORKSHOP] }])).toEqual({
+      rules: [rule({ ticket_type_ids: [WORKSHOP] })],
+    })
+    expect(parseEntitlementRules(undefined)).toEqual({ rules: [] })
+  })
+
+  it("rejects bad days, ids and shapes", () => {
+    expect(parseEntitlementRules({})).toHaveProperty("error")
+    expect(parseEntitlementRules([{ day: "21/10/2026" }])).toHaveProperty("error")
+    expect(parseEntitlementRules([{ addon_ids: ["not-a-uuid"] }])).toHaveProperty("error")
+    expect(parseEntitlementRules(["x"])).toHaveProperty("error")
+  })
+})
+
+describe("parseMaxScansPerDay", () => {
+  it("accepts null or a small whole number", () => {
+    expect(parseMaxScansPerDay(null)).toEqual({ value: null })
+    expect(parseMaxScansPerDay(2)).toEqual({ value: 2 })
+    expect(parseMaxScansPerDay(0)).toHaveProperty("error")
+    expect(parseMaxScansPerDay(1.5)).toHaveProperty("error")
+    expect(parseMaxScansPerDay("1")).toHaveProperty("error")
+  })
+})
@@ -0,0 +1,222 @@
+// Per-day entitlement rules for check-in lists. Where checkTimeWindow
+// (checkin-time-window.ts) only warns about an early or late scan, these
+// rules decide whether the delegate may use the list on the scan's event day
+// at all, and how many times. A denial is a real rejection with a reason the
+// desk can read out -- unlike the time window, which never blocks.
+//
+// A list's rules (checkin_lists.entitlement_rules):
+//  - each rule applies on one event day ("YYYY-MM-DD" in the event's
+//    timezone) or, with day null, on every day;
+//  - a rule matches a delegate when every criterion it sets matches: ticket
+//    type in ticket_type_ids, any of addon_ids bought (registration_addons),
+//    any of meal_plan_ids registered for (meal_registrations). A rule with no
+//    criteria lets everyone in on its day;
+//  - the delegate is entitled on a day when ANY rule for that day matches.
+// No rules at all means everyone, every day -- the list's existing
+// ticket_type_ids/addon_ids restrictions still apply on top, as before.
+//
+// checkin_lists.max_scans_per_day then caps admitted scans per delegate per
+// event day ("one lunch coupon per day" is max 1). Counts come from
+// checkin_entitlement_uses on the server and from the tablet's own scan log
+// offline. DB reads live in src/lib/services/checkin-entitlements.ts.
+
+import { isValidUUID } from "@/lib/validation"
+
+export interface EntitlementRule {
+  day: string | null
+  ticket_type_ids: string[]
+  addon_ids: string[]
+  meal_plan_ids: string[]
+}
+
+export interface ListEntitlements {
+  entitlement_rules?: EntitlementRule[] | null
+  max_scans_per_day?: number | null
+}
+
+export interface EntitlementHolder {
+  ticket_type_id: string | null
+  addon_ids: string[]
+  meal_plan_ids: string[]
+}
+
+export type EntitlementDenialCode = "not_today" | "not_entitled" | "daily_limit"
+
+export type EntitlementResult =
+  | { allowed: true }
+  | { allowed: false; code: EntitlementDenialCode; reason: string }
+
+// What /api/kiosk/delegates sends a tablet for a list with rules or a daily
+// limit, cached alongside the list's purpose so the check runs offline.
+export interface KioskEntitlements {
+  rules: EntitlementRule[]
+  max_scans_per_day: number | null
+  timezone: string
+  labels: Record<string, string>
+}
+
+export const MAX_ENTITLEMENT_RULES = 50
+export const MAX_SCANS_PER_DAY_LIMIT = 20
+
+export function hasEntitlements(list: ListEntitlements): boolean {
+  return (list.entitlement_rules?.length ?? 0) > 0 || !!list.max_scans_per_day
+}
+
+// Which registration data checkEntitlement will look at, so the server only
+// loads add-ons and meal registrations for lists whose rules mention them.
+export function entitlementCriteria(list: ListEntitlements): { addons: boolean; mealPlans: boolean } {
+  const rules = list.entitlement_rules ?? []
+  return {
+    addons: rules.some((r) => r.addon_ids.length > 0),
+    mealPlans: rules.some((r) => r.meal_plan_ids.length > 0),
+  }
+}
+
+// --- Event days ---------------------------------------------------------------
+
+// The calendar day `at` falls on in the event's timezone, as YYYY-MM-DD. A
+// 00:30 scan in Kolkata is the next day's lunch, not the previous one's.
+export function eventDay(at: Date, timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(at)
+  } catch {
+    return at.toISOString().slice(0, 10)
+  }
+}
+
+export function formatEntitlementDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString("en-IN", { day: "numeric", month: "short", timeZone: "UTC" })
+}
+
+// --- Evaluation ---------------------------------------------------------------
+
+function ruleMatches(rule: EntitlementRule, holder: EntitlementHolder): boolean {
+  if (rule.ticket_type_ids.length > 0 && !(holder.ticket_type_id && rule.ticket_type_ids.includes(holder.ticket_type_id))) {
+    return false
+  }
+  if (rule.addon_ids.length > 0 && !rule.addon_ids.some((id) => holder.addon_ids.includes(id))) return false
+  if (rule.meal_plan_ids.length > 0 && !rule.meal_plan_ids.some((id) => holder.meal_plan_ids.includes(id))) return false
+  return true
+}
+
+// "Workshop ticket + Gala dinner add-on", "Conference or Workshop ticket".
+// `labels` maps ticket type / add-on / meal plan ids to names; an id without
+// one (deleted, or a tablet with a stale cache) is left out rather than
+// printed as a UUID.
+function describeRule(rule: EntitlementRule, labels: Record<string, string>): string | null {
+  const names = (ids: string[]) => ids.map((id) => labels[id]).filter(Boolean).join(" or ")
+  const parts = [
+    rule.ticket_type_ids.length > 0 && names(rule.ticket_type_ids) && `${names(rule.ticket_type_ids)} ticket`,
+    rule.addon_ids.length > 0 && names(rule.addon_ids) && `${names(rule.addon_ids)} add-on`,
+    rule.meal_plan_ids.length > 0 && names(rule.meal_plan_ids) && `${names(rule.meal_plan_ids)} meal plan`,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(" + ") : null
+}
+
+/**
+ * Whether `holder` may scan into the list on `day`, given `usesToday`
+ * admitted scans on it already that day. The reason is written for the
+ * person at the desk: it names the list, the day and what's missing.
+ */
+export function checkEntitlement(
+  list: ListEntitlements,
+  holder: EntitlementHolder,
+  context: { day: string; usesToday: number; listName?: string | null; labels?: Record<string, string> }
+): EntitlementResult {
+  const rules = list.entitlement_rules ?? []
+  const listName = context.listName ? `"${context.listName}"` : "this list"
+
+  if (rules.length > 0) {
+    const todays = rules.filter((r) => r.day === null || r.day === context.day)
+    if (todays.length === 0) {
+      const days = [...new Set(rules.map((r) => r.day!))].sort().map(formatEntitlementDay)
+      return {
+        allowed: false,
+        code: "not_today",
+        reason: `Not valid today — ${listName} is only open on ${days.join(", ")}.`,
+      }
+    }
+    if (!todays.some((r) => ruleMatches(r, holder))) {
+      const needs = [...new Set(todays.map((r) => describeRule(r, context.labels ?? {})).filter(Boolean))]
+      return {
+        allowed: false,
+        code: "not_entitled",
+        reason:
+          `Not entitled to ${listName} on ${formatEntitlementDay(context.day)}` +
+          (needs.length > 0 ? ` — requires ${needs.join(", or ")}.` : "."),
+      }
+    }
+  }
+
+  const max = list.max_scans_per_day
+  if (max && context.usesToday >= max) return dailyLimitReached(max, context.usesToday, context.listName)
+
+  return { allowed: true }
+}
+
+// The daily_limit denial on its own, for a scan that passed checkEntitlement
+// but then found every slot taken by a concurrent scan when claiming its use.
+export function dailyLimitReached(
+  max: number,
+  usesToday: number,
+  listName?: string | null
+): EntitlementResult & { allowed: false } {
+  const name = listName ? `"${listName}"` : "this list"
+  return {
+    allowed: false,
+    code: "daily_limit",
+    reason: `Daily limit reached — already used ${name} ${usesToday} of ${max} ${max === 1 ? "time" : "times"} today.`,
+  }
+}
+
+// --- Admin input --------------------------------------------------------------
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function parseIdList(raw: unknown): string[] | null {
+  if (raw === undefined || raw === null) return []
+  if (!Array.isArray(raw) || !raw.every((id) => typeof id === "string" && isValidUUID(id))) return null
+  return [...new Set(raw as string[])]
+}
+
+// Validates entitlement_rules from /api/checkin-lists POST/PUT. Returns the
+// normalized rules (missing id lists become [], duplicates dropped) or an
+// error message for a 400.
+export function parseEntitlementRules(raw: unknown): { rules: EntitlementRule[] } | { error: string } {
+  if (raw === undefined || raw === null) return { rules: [] }
+  if (!Array.isArray(raw)) return { error: "entitlement_rules must be an array" }
+  if (raw.length > MAX_ENTITLEMENT_RULES) {
+    return { error: `entitlement_rules can have at most ${MAX_ENTITLEMENT_RULES} rules` }
+  }
+
+  const rules: EntitlementRule[] = []
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") return { error: "Each entitlement rule must be an object" }
+    const r = entry as Record<string, unknown>
+    const day = r.day === undefined || r.day === null || r.day === "" ? null : r.day
+    if (day !== null && (typeof day !== "string" || !DAY_PATTERN.test(day) || isNaN(Date.parse(`${day}T00:00:00Z`)))) {
+      return { error: "Each entitlement rule's day must be a YYYY-MM-DD date or null" }
+    }
+    const ticketTypeIds = parseIdList(r.ticket_type_ids)
+    const addonIds = parseIdList(r.addon_ids)
+    const mealPlanIds = parseIdList(r.meal_plan_ids)
+    if (!ticketTypeIds || !addonIds || !mealPlanIds) {
+      return { error: "Entitlement rule ticket_type_ids, addon_ids and meal_plan_ids must be arrays of ids" }
+    }
+    rules.push({ day, ticket_type_ids: ticketTypeIds, addon_ids: addonIds, meal_plan_ids: mealPlanIds })
+  }
+  return { rules }
+}
+
+export function parseMaxScansPerDay(raw: unknown): { value: number | null } | { error: string } {
+  if (raw === undefined || raw === null || raw === "") return { value: null }
+  if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 1 || raw > MAX_SCANS_PER_DAY_LIMIT) {
+    return { error: `max_scans_per_day must be a whole number from 1 to ${MAX_SCANS_PER_DAY_LIMIT}, or null` }
+  }
+  return { value: raw }
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest"
+import {
+  evaluateDiscountCode,
+  evaluateRule,
+  priceCart,
+  validateDiscountRule,
+  type CartLine,
+  type DiscountCodeRow,
+  type DiscountRule,
+} from "./discount-rules"
+
+const NOW = new Date("2026-10-19T10:00:00Z")
+
+const DELEGATE: CartLine = { kind: "ticket", id: "t-delegate", name: "Delegate", unit_price: 10000, quantity: 1 }
+const PG: CartLine = { kind: "ticket", id: "t-pg", name: "PG Student", unit_price: 4000, quantity: 1 }
+const WORKSHOP: CartLine = { kind: "addon", id: "a-workshop", name: "Workshop", unit_price: 2000, quantity: 1 }
+
+function rule(overrides: Partial<DiscountRule>): DiscountRule {
+  return {
+    id: "r1",
+    name: "Rule",
+    rule_type: "member",
+    discount_type: "percentage",
+    discount_value: 10,
+    stacking: "combinable",
+    priority: 0,
+    ...overrides,
+  }
+}
+
+function code(overrides: Partial<DiscountCodeRow> = {}): DiscountCodeRow {
+  return {
+    id: "c1",
+    code: "SAVE500",
+    discount_type: "fixed",
+    discount_value: 500,
+    current_uses: 0,
+    ...overrides,
+  }
+}
+
+describe("evaluateRule", () => {
+  it("uses the earliest early-bird tier that hasn't ended", () => {
+    const earlyBird = rule({
+      rule_type: "early_bird",
+      tiers: [
+        { ends_at: "2026-12-01T00:00:00Z", discount_value: 10 },
+        { ends_at: "2026-09-01T00:00:00Z", discount_value: 30 },
+        { ends_at: "2026-11-01T00:00:00Z", discount_value: 20 },
+      ],
+    })
+    expect(evaluateRule(earlyBird, [DELEGATE], { now: NOW })).toEqual({ amount: 2000 })
+    expect(evaluateRule(earlyBird, [DELEGATE], { now: new Date("2027-01-01") })).toEqual({
+      reason: "Early-bird period has ended",
+    })
+  })
+
+  it("picks the largest group tier reached and says how far off the first one is", () => {
+    const group = rule({
+      rule_type: "group",
+      discount_type: "fixed",
+      tiers: [
+        { min_quantity: 5, discount_value: 500 },
+        { min_quantity: 10, discount_value: 1000 },
+      ],
+    })
+    expect(evaluateRule(group, [{ ...DELEGATE, quantity: 6 }], { now: NOW })).toEqual({ amount: 3000 })
+    expect(evaluateRule(group, [{ ...DELEGATE, quantity: 10 }], { now: NOW })).toEqual({ amount: 10000 })
+    expect(evaluateRule(group, [{ ...DELEGATE, quantity: 3 }], { now: NOW })).toEqual({
+      reason: "Needs 5+ registrations (cart has 3)",
+    })
+  })
+
+  it("gives member pricing only to members and only on the tickets it targets", () => {
+    const member = rule({ applies_to_ticket_ids: ["t-delegate"] })
+    expect(evaluateRule(member, [DELEGATE, PG], { now: NOW, isMember: true })).toEqual({ amount: 1000 })
+    expect(evaluateRule(member, [DELEGATE], { now: NOW, isMember: false })).toEqual({
+      reason: "Not an active AMASI member",
+    })
+    expect(evaluateRule(member, [PG], { now: NOW, isMember: true })).toEqual({
+      reason: "No qualifying tickets in cart",
+    })
+  })
+
+  it("prices complete bundles only, cheapest ticket first", () => {
+    const bundle = rule({
+      rule_type: "bundle",
+      discount_type: "percentage",
+      discount_value: 50,
+      bundle_ticket_ids: [],
+      bundle_addon_ids: ["a-workshop"],
+    })
+    // One workshop pairs with the cheaper PG ticket: 50% of (4000 + 2000)
+    expect(evaluateRule(bundle, [DELEGATE, PG, WORKSHOP], { now: NOW })).toEqual({ amount: 3000 })
+    expect(evaluateRule(bundle, [DELEGATE], { now: NOW })).toEqual({
+      reason: "Cart doesn't contain the full bundle",
+    })
+  })
+
+  it("honours the rule's validity window, active flag and cap", () => {
+    expect(evaluateRule(rule({ valid_until: "2026-10-01T00:00:00Z" }), [DELEGATE], { now: NOW, isMember: true }))
+      .toEqual({ reason: "Expired" })
+    expect(evaluateRule(rule({ is_active: false }), [DELEGATE], { now: NOW, isMember: true }))
+      .toEqual({ reason: "Inactive" })
+    expect(evaluateRule(rule({ discount_value: 50, max_discount_amount: 1500 }), [DELEGATE], { now: NOW, isMember: true }))
+      .toEqual({ amount: 1500 })
+  })
+})
+
+describe("evaluateDiscountCode", () => {
+  it("takes a fixed code off the order once", () => {
+    expect(evaluateDiscountCode(code(), [{ ...DELEGATE, quantity: 3 }], { now: NOW })).toEqual({ amount: 500 })
+  })
+
+  it("rejects codes that are used up, expired or below the minimum order", () => {
+    expect(evaluateDiscountCode(code({ max_uses: 2, current_uses: 2 }), [DELEGATE], { now: NOW }))
+      .toEqual({ reason: "Discount code usage limit reached" })
+    expect(evaluateDiscountCode(code({ valid_until: "2026-01-01T00:00:00Z" }), [DELEGATE], { now: NOW }))
+      .toEqual({ reason: "Discount code has expired" })
+    expect(evaluateDiscountCode(code({ min_order_amount: 20000 }), [DELEGATE], { now: NOW }))
+      .toEqual({ reason: "Minimum order amount is ₹20000" })
+  })
+
+  it("limits a restricted percentage code to its tickets", () => {
+    const pgOnly = code({ discount_type: "percentage", discount_value: 25, applies_to_ticket_ids: ["t-pg"] })
+    expect(evaluateDiscountCode(pgOnly, [DELEGATE, PG], { now: NOW })).toEqual({ amount: 1000 })
+    expect(evaluateDiscountCode(pgOnly, [DELEGATE], { now: NOW })).toEqual({
+      reason: "Discount code does not apply to these tickets",
+    })
+  })
+})
+
+describe("priceCart", () => {
+  const earlyBird = rule({ id: "eb", name: "Early bird", rule_type: "early_bird", discount_value: 10, priority: 1 })
+  const member = rule({ id: "m", name: "Member", rule_type: "member", discount_value: 20, priority: 2 })
+
+  it("adds combinable rules and the code together, with a line for each", () => {
+    const result = priceCart([DELEGATE], [earlyBird, member], code(), { now: NOW, isMember: true })
+    expect(result.subtotal).toBe(10000)
+    expect(result.discount_total).toBe(3500)
+    expect(result.applied.map((a) => [a.name, a.amount])).toEqual([
+      ["Early bird", 1000],
+      ["Member", 2000],
+      ["SAVE500", 500],
+    ])
+  })
+
+  it("lets an exclusive rule win when it beats the combined set", () => {
+    const flash = rule({ id: "f", name: "Flash sale", rule_type: "early_bird", discount_value: 40, stacking: "exclusive" })
+    const result = priceCart([DELEGATE], [earlyBird, member, flash], code(), { now: NOW, isMember: true })
+    expect(result.discount_total).toBe(4000)
+    expect(result.applied.map((a) => a.name)).toEqual(["Flash sale"])
+    expect(result.skipped.find((s) => s.name === "SAVE500")?.reason).toBe("Flash sale is exclusive and saves more")
+  })
+
+  it("keeps the combined set when an exclusive rule saves less", () => {
+    const small = rule({ id: "s", name: "Small", rule_type: "early_bird", discount_value: 5, stacking: "exclusive" })
+    const result = priceCart([DELEGATE], [earlyBird, member, small], null, { now: NOW, isMember: true })
+    expect(result.discount_total).toBe(3000)
+    expect(result.skipped).toEqual([
+      { source: "rule", id: "s", name: "Small", reason: "Can't be combined; Early bird + Member saves more" },
+    ])
+  })
+
+  it("treats an exclusive code the same way as an exclusive rule", () => {
+    const result = priceCart([DELEGATE], [earlyBird], code({ discount_value: 3000, stacking: "exclusive" }), { now: NOW })
+    expect(result.applied).toEqual([{ source: "code", id: "c1", name: "SAVE500", type: "code", amount: 3000 }])
+  })
+
+  it("never discounts below zero", () => {
+    const big = rule({ id: "b", name: "Big", rule_type: "early_bird", discount_type: "fixed", discount_value: 9000 })
+    const result = priceCart([DELEGATE], [big], code({ discount_value: 5000 }), { now: NOW })
+    expect(result.discount_total).toBe(10000)
+    expect(result.applied.map((a) => a.amount)).toEqual([9000, 1000])
+  })
+
+  it("reports why rules didn't apply", () => {
+    const result = priceCart([DELEGATE], [member], null, { now: NOW, isMember: false })
+    expect(result.discount_total).toBe(0)
+    expect(result.applied).toEqual([])
+    expect(result.skipped[0].reason).toBe("Not an active AMASI member")
+  })
+})
+
+describe("validateDiscountRule", () => {
+  it("accepts a complete rule of each type", () => {
+    expect(validateDiscountRule(rule({ name: "Member", rule_type: "member" }))).toBeNull()
+    expect(validateDiscountRule(rule({ rule_type: "group", tiers: [{ min_quantity: 5, discount_value: 10 }] }))).toBeNull()
+    expect(validateDiscountRule(rule({ rule_type: "early_bird", tiers: [{ ends_at: "2026-11-01T00:00:00Z", discount_value: 15 }] }))).toBeNull()
+    expect(validateDiscountRule(rule({ rule_type: "bundle", bundle_addon_ids: ["a-workshop"] }))).toBeNull()
+  })
+
+  it("rejects rules that can't be priced", () => {
+    expect(validateDiscountRule(rule({ name: " " }))).toBe("Name is required")
+    expect(validateDiscountRule(rule({ discount_value: 120 }))).toBe("Percentage can't be more than 100")
+    expect(validateDiscountRule(rule({ rule_type: "group", tiers: [] }))).toBe("Add at least one group size tier")
+    expect(validateDiscountRule(rule({ rule_type: "group", tiers: [{ min_quantity: 1, discount_value: 5 }] })))
+      .toBe("Group tiers need a minimum of 2 or more registrations")
+    expect(validateDiscountRule(rule({ rule_type: "early_bird", tiers: [{ ends_at: "soon", discount_value: 5 }] })))
+      .toBe("Every early-bird tier needs an end date")
+    expect(validateDiscountRule(rule({ rule_type: "bundle" }))).toBe("Pick the add-ons that make up the bundle")
+  })
+})
@@ -0,0 +1,386 @@
+/**
+ * Discount rule engine
+ *
+ * Prices a cart against an event's automatic discount rules (early-bird date
+ * tiers, group size tiers, AMASI-member pricing, ticket+addon bundles) and an
+ * optional discount code. Pure and client-safe: the server uses it to charge,
+ * the admin discounts page uses it to preview rules against a sample cart,
+ * so both always agree on the number.
+ *
+ * Stacking: every "combinable" discount that applies is added together; an
+ * "exclusive" one only ever applies on its own. The engine tries the
+ * combinable set and each exclusive discount alone and keeps whichever saves
+ * the customer the most. Percentages are taken off list price (they don't
+ * compound), and the total never exceeds the subtotal.
+ */
+
+export type DiscountRuleType = "early_bird" | "group" | "member" | "bundle"
+export type DiscountStacking = "exclusive" | "combinable"
+export type DiscountValueType = "percentage" | "fixed"
+
+export const DISCOUNT_RULE_TYPES: Record<DiscountRuleType, { label: string; description: string }> = {
+  early_bird: { label: "Early bird", description: "Cheaper the earlier they book, in date tiers" },
+  group: { label: "Group", description: "Off each ticket once an order reaches N+ registrations" },
+  member: { label: "AMASI member", description: "Member pricing, checked against the members list" },
+  bundle: { label: "Bundle", description: "Ticket bought together with specific add-ons" },
+}
+
+export interface DiscountTier {
+  ends_at?: string | null // early_bird: tier applies until this instant
+  min_quantity?: number | null // group: tier applies from this many tickets
+  discount_value: number
+}
+
+export interface DiscountRule {
+  id: string
+  name: string
+  rule_type: DiscountRuleType
+  discount_type: DiscountValueType
+  discount_value: number
+  max_discount_amount?: number | null
+  tiers?: DiscountTier[] | null
+  bundle_ticket_ids?: string[] | null
+  bundle_addon_ids?: string[] | null
+  applies_to_ticket_ids?: string[] | null
+  stacking: DiscountStacking
+  priority?: number | null
+  valid_from?: string | null
+  valid_until?: string | null
+  is_active?: boolean | null
+}
+
+export interface DiscountCodeRow {
+  id: string
+  code: string
+  description?: string | null
+  discount_type: DiscountValueType
+  discount_value: number
+  max_uses?: number | null
+  current_uses?: number | null
+  min_order_amount?: number | null
+  max_discount_amount?: number | null
+  valid_from?: string | null
+  valid_until?: string | null
+  applies_to_ticket_ids?: string[] | null
+  stacking?: DiscountStacking | null
+  is_active?: boolean | null
+}
+
+export interface CartLine {
+  kind: "ticket" | "addon"
+  id: string
+  name?: string
+  unit_price: number
+  quantity: number
+}
+
+export interface PricingContext {
+  now?: Date
+  isMember?: boolean
+}
+
+export interface AppliedDiscount {
+  source: "rule" | "code"
+  id: string
+  name: string
+  type: DiscountRuleType | "code"
+  amount: number
+}
+
+export interface SkippedDiscount {
+  source: "rule" | "code"
+  id: string
+  name: string
+  reason: string
+}
+
+export interface PricingResult {
+  subtotal: number
+  discount_total: number
+  applied: AppliedDiscount[]
+  skipped: SkippedDiscount[]
+}
+
+interface Candidate {
+  discount: AppliedDiscount
+  stacking: DiscountStacking
+  priority: number
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function cartSubtotal(cart: CartLine[]): number {
+  return roundMoney(cart.reduce((sum, line) => sum + line.unit_price * line.quantity, 0))
+}
+
+function qualifyingTickets(cart: CartLine[], ticketIds?: string[] | null): CartLine[] {
+  return cart.filter(
+    (line) => line.kind === "ticket" && (!ticketIds?.length || ticketIds.includes(line.id))
+  )
+}
+
+function withinWindow(now: Date, from?: string | null, until?: string | null): string | null {
+  if (from && new Date(from) > now) return "Not active yet"
+  if (until && new Date(until) < now) return "Expired"
+  return null
+}
+
+/**
+ * The tier in effect: the earliest early-bird tier that hasn't ended, or the
+ * largest group tier the order has reached.
+ */
+export function pickTier(rule: DiscountRule, now: Date, ticketCount: number): DiscountTier | null {
+  const tiers = rule.tiers || []
+  if (rule.rule_type === "early_bird") {
+    if (tiers.length === 0) return { discount_value: rule.discount_value }
+    const open = tiers
+      .filter((t) => t.ends_at && new Date(t.ends_at) >= now)
+      .sort((a, b) => new Date(a.ends_at!).getTime() - new Date(b.ends_at!).getTime())
+    return open[0] || null
+  }
+  if (rule.rule_type === "group") {
+    const reached = tiers
+      .filter((t) => (t.min_quantity || 0) > 0 && ticketCount >= (t.min_quantity || 0))
+      .sort((a, b) => (b.min_quantity || 0) - (a.min_quantity || 0))
+    return reached[0] || null
+  }
+  return { discount_value: rule.discount_value }
+}
+
+function amountFor(type: DiscountValueType, value: number, base: number, units: number, cap?: number | null): number {
+  let amount = type === "percentage" ? (base * value) / 100 : value * units
+  if (cap && amount > cap) amount = cap
+  return roundMoney(Math.max(0, Math.min(amount, base)))
+}
+
+/**
+ * How many complete bundles the cart holds and what they cost at list
+ * price. Tickets count cheapest first so a bundle never discounts more than
+ * the customer would expect.
+ */
+function bundleBase(rule: DiscountRule, cart: CartLine[]): { count: number; base: number } {
+  const tickets = qualifyingTickets(cart, rule.bundle_ticket_ids).sort((a, b) => a.unit_price - b.unit_price)
+  const addonIds = rule.bundle_addon_ids || []
+  if (addonIds.length === 0) return { count: 0, base: 0 }
+
+  const ticketCount = tickets.reduce((sum, line) => sum + line.quantity, 0)
+  const addonCounts = addonIds.map((id) =>
+    cart.filter((line) => line.kind === "addon" && line.id === id).reduce((sum, line) => sum + line.quantity, 0)
+  )
+  const count = Math.min(ticketCount, ...addonCounts)
+  if (count <= 0) return { count: 0, base: 0 }
+
+  let base = 0
+  let remaining = count
+  for (const line of tickets) {
+    const take = Math.min(remaining, line.quantity)
+    base += line.unit_price * take
+    remaining -= take
+    if (remaining === 0) break
+  }
+  for (const id of addonIds) {
+    const line = cart.find((l) => l.kind === "addon" && l.id === id)
+    if (line) base += line.unit_price * count
+  }
+  return { count, base }
+}
+
+/**
+ * Evaluate one rule against the cart. Returns the discount it would give on
+ * its own, or the reason it doesn't apply.
+ */
+export function evaluateRule(
+  rule: DiscountRule,
+  cart: CartLine[],
+  ctx: PricingContext = {}
+): { amount: number } | { reason: string } {
+  const now = ctx.now || new Date()
+  if (rule.is_active === false) return { reason: "Inactive" }
+  const windowReason = withinWindow(now, rule.valid_from, rule.valid_until)
+  if (windowReason) return { reason: windowReason }
+
+  if (rule.rule_type === "bundle") {
+    const { count, base } = bundleBase(rule, cart)
+    if (count === 0) return { reason: "Cart doesn't contain the full bundle" }
+    return { amount: amountFor(rule.discount_type, rule.discount_value, base, count, rule.max_discount_amount) }
+  }
+
+  const tickets = qualifyingTickets(cart, rule.applies_to_ticket_ids)
+  const units = tickets.reduce((sum, line) => sum + line.quantity, 0)
+  if (units === 0) return { reason: "No qualifying tickets in cart" }
+
+  if (rule.rule_type === "member" && !ctx.isMember) {
+    return { reason: "Not an active AMASI member" }
+  }
+
+  const tier = pickTier(rule, now, units)
+  if (!tier) {
+    if (rule.rule_type === "early_bird") return { reason: "Early-bird period has ended" }
+    const smallest = Math.min(...(rule.tiers || []).map((t) => t.min_quantity || Infinity))
+    return {
+      reason: Number.isFinite(smallest)
+        ? `Needs ${smallest}+ registrations (cart has ${units})`
+        : "No group tiers configured",
+    }
+  }
+
+  const base = tickets.reduce((sum, line) => sum + line.unit_price * line.quantity, 0)
+  return { amount: amountFor(rule.discount_type, tier.discount_value, base, units, rule.max_discount_amount) }
+}
+
+/**
+ * Evaluate a discount code against the cart. Fixed-value codes come off the
+ * order once; percentage codes apply to the tickets they're restricted to,
+ * or the whole subtotal when unrestricted.
+ */
+export function evaluateDiscountCode(
+  code: DiscountCodeRow,
+  cart: CartLine[],
+  ctx: PricingContext = {}
+): { amount: number } | { reason: string } {
+  const now = ctx.now || new Date()
+  if (code.is_active === false) return { reason: "Invalid discount code" }
+  if (code.valid_from && new Date(code.valid_from) > now) return { reason: "Discount code is not yet active" }
+  if (code.valid_until && new Date(code.valid_until) < now) return { reason: "Discount code has expired" }
+  if (code.max_uses && (code.current_uses || 0) >= code.max_uses) {
+    return { reason: "Discount code usage limit reached" }
+  }
+
+  const subtotal = cartSubtotal(cart)
+  if (code.min_order_amount && subtotal < code.min_order_amount) {
+    return { reason: `Minimum order amount is ₹${code.min_order_amount}` }
+  }
+
+  const restricted = !!code.applies_to_ticket_ids?.length
+  const tickets = qualifyingTickets(cart, code.applies_to_ticket_ids)
+  if (restricted && tickets.length === 0) {
+    return { reason: "Discount code does not apply to these tickets" }
+  }
+
+  const base = restricted ? tickets.reduce((sum, line) => sum + line.unit_price * line.quantity, 0) : subtotal
+  return { amount: amountFor(code.discount_type, code.discount_value, base, 1, code.max_discount_amount) }
+}
+
+function sumAmounts(list: Candidate[]): number {
+  return roundMoney(list.reduce((sum, c) => sum + c.discount.amount, 0))
+}
+
+/**
+ * Clamp a set of discounts, in priority order, so together they never take
+ * the order below zero.
+ */
+function clampToSubtotal(list: Candidate[], subtotal: number): Candidate[] {
+  let left = subtotal
+  return [...list]
+    .sort((a, b) => a.priority - b.priority)
+    .map((c) => {
+      const amount = roundMoney(Math.min(c.discount.amount, left))
+      left = roundMoney(left - amount)
+      return { ...c, discount: { ...c.discount, amount } }
+    })
+    .filter((c) => c.discount.amount > 0)
+}
+
+/**
+ * Price a cart: evaluate every rule and the code, then pick the stacking
+ * combination that gives the biggest discount.
+ */
+export function priceCart(
+  cart: CartLine[],
+  rules: DiscountRule[],
+  code: DiscountCodeRow | null = null,
+  ctx: PricingContext = {}
+): PricingResult {
+  const subtotal = cartSubtotal(cart)
+  const candidates: Candidate[] = []
+  const skipped: SkippedDiscount[] = []
+
+  for (const rule of rules) {
+    const result = evaluateRule(rule, cart, ctx)
+    if ("reason" in result) {
+      skipped.push({ source: "rule", id: rule.id, name: rule.name, reason: result.reason })
+    } else if (result.amount > 0) {
+      candidates.push({
+        discount: { source: "rule", id: rule.id, name: rule.name, type: rule.rule_type, amount: result.amount },
+        stacking: rule.stacking,
+        priority: rule.priority ?? 0,
+      })
+    }
+  }
+
+  if (code) {
+    const result = evaluateDiscountCode(code, cart, ctx)
+    if ("reason" in result) {
+      skipped.push({ source: "code", id: code.id, name: code.code, reason: result.reason })
+    } else if (result.amount > 0) {
+      candidates.push({
+        discount: { source: "code", id: code.id, name: code.code, type: "code", amount: result.amount },
+        stacking: code.stacking || "combinable",
+        // Codes come off after the automatic rules
+        priority: Number.MAX_SAFE_INTEGER,
+      })
+    }
+  }
+
+  const options: Candidate[][] = [
+    clampToSubtotal(candidates.filter((c) => c.stacking === "combinable"), subtotal),
+    ...candidates.filter((c) => c.stacking === "exclusive").map((c) => clampToSubtotal([c], subtotal)),
+  ]
+  let best = options[0]
+  for (const option of options.slice(1)) {
+    if (sumAmounts(option) > sumAmounts(best)) best = option
+  }
+
+  const combinedWon = best === options[0]
+  const winners = new Set(best.map((c) => `${c.discount.source}:${c.discount.id}`))
+  const bestNames = best.map((c) => c.discount.name).join(" + ")
+  for (const c of candidates) {
+    if (winners.has(`${c.discount.source}:${c.discount.id}`)) continue
+    let reason: string
+    if (c.stacking === "exclusive") reason = `Can't be combined; ${bestNames} saves more`
+    else if (combinedWon) reason = "Order is already fully discounted"
+    else reason = `${bestNames} is exclusive and saves more`
+    skipped.push({ source: c.discount.source, id: c.discount.id, name: c.discount.name, reason })
+  }
+
+  return {
+    subtotal,
+    discount_total: sumAmounts(best),
+    applied: best.map((c) => c.discount),
+    skipped,
+  }
+}
+
+/**
+ * Check a rule before it's saved. Returns the problem, or null when the rule
+ * can be priced.
+ */
+export function validateDiscountRule(rule: Partial<DiscountRule>): string | null {
+  if (!rule.name?.trim()) return "Name is required"
+  if (!rule.rule_type || !(rule.rule_type in DISCOUNT_RULE_TYPES)) return "Unknown rule type"
+  if (rule.discount_type !== "percentage" && rule.discount_type !== "fixed") return "Unknown discount type"
+  if (rule.stacking && rule.stacking !== "combinable" && rule.stacking !== "exclusive") return "Unknown stacking mode"
+
+  const values = rule.rule_type === "early_bird" || rule.rule_type === "group"
+    ? (rule.tiers || []).map((t) => t.discount_value)
+    : [rule.discount_value]
+  if (rule.rule_type === "early_bird" && values.length === 0) values.push(rule.discount_value)
+  for (const value of values) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) return "Discount value must be greater than 0"
+    if (rule.discount_type === "percentage" && value > 100) return "Percentage can't be more than 100"
+  }
+
+  if (rule.rule_type === "early_bird" && (rule.tiers || []).some((t) => !t.ends_at || isNaN(new Date(t.ends_at).getTime()))) {
+    return "Every early-bird tier needs an end date"
+  }
+  if (rule.rule_type === "group") {
+    if (!rule.tiers?.length) return "Add at least one group size tier"
+    if (rule.tiers.some((t) => !Number.isInteger(t.min_quantity) || (t.min_quantity || 0) < 2)) {
+      return "Group tiers need a minimum of 2 or more registrations"
+    }
+  }
+  if (rule.rule_type === "bundle" && !rule.bundle_addon_ids?.length) return "Pick the add-ons that make up the bundle"
+  return null
+}
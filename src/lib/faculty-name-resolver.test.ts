@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildResolverQueue,
+  isTextReconciled,
+  normaliseName,
+  normalisePhone,
+  parseFacultyText,
+  textEntries,
+  unresolvedTextEntries,
+  type DirectoryFaculty,
+  type ResolverAssignment,
+  type ResolverSession,
+} from "./faculty-name-resolver"
+
+const session = (over: Partial<ResolverSession> & { id: string }): ResolverSession => ({
+  session_name: `Session ${over.id}`,
+  session_date: "2026-08-27",
+  start_time: "09:00",
+  ...over,
+})
+
+const ANITHA: DirectoryFaculty = { id: "f-anitha", name: "Dr. Anitha Ravindran", email: "anitha@aiims.edu", phone: "+91 98450 12345" }
+const MEERA: DirectoryFaculty = { id: "f-meera", name: "Meera Kulkarni", email: "meera@kem.org", phone: null }
+
+const queue = (sessions: ResolverSession[], over: Partial<Parameters<typeof buildResolverQueue>[0]> = {}) =>
+  buildResolverQueue({ sessions, assignments: [], faculty: [ANITHA, MEERA], registrations: [], ...over })
+
+describe("parsing the free text", () => {
+  it("reads names with their contacts from the _text columns", () => {
+    expect(parseFacultyText("Dr. A Rao (rao@x.in, 98450 11111) | Dr. B Shah")).toEqual([
+      { name: "Dr. A Rao", email: "rao@x.in", phone: "98450 11111" },
+      { name: "Dr. B Shah", email: null, phone: null },
+    ])
+  })
+
+  it("prefers the _text column and falls back to the names column, per role", () => {
+    const entries = textEntries({
+      id: "s1",
+      speakers: "Dr Anitha Ravindran",
+      speakers_text: "Dr Anitha Ravindran (ANITHA@aiims.edu, 9845012345)",
+      chairpersons: "Meera Kulkarni (Chair), Meera Kulkarni",
+    })
+    expect(entries).toEqual([
+      { role: "speaker", name: "Dr Anitha Ravindran", email: "anitha@aiims.edu", phone: "9845012345" },
+      { role: "chairperson", name: "Meera Kulkarni", email: null, phone: null },
+    ])
+  })
+
+  it("normalises names and phones for comparison", () => {
+    expect(normaliseName("Prof. Dr. A.  Ravindran,")).toBe("a ravindran")
+    expect(normalisePhone("+91 98450-12345")).toBe("9845012345")
+    expect(normalisePhone("12345")).toBeNull()
+  })
+})
+
+describe("buildResolverQueue", () => {
+  it("is surest about a matching email, and says why", () => {
+    const { proposals } = queue([session({ id: "s1", speakers_text: "Dr A. Ravindran (anitha@aiims.edu, )" })])
+    expect(proposals).toHaveLength(1)
+    expect(proposals[0]).toMatchObject({ role: "speaker", text_name: "Dr A. Ravindran", source: "session_text", ambiguous: false })
+    expect(proposals[0].candidates[0]).toMatchObject({ faculty_id: "f-anitha", evidence: ["email", "initials", "text_match"], confidence: 100 })
+  })
+
+  it("matches on phone when the text has no email", () => {
+    const { proposals } = queue([session({ id: "s1", speakers_text: "Someone Else (, 098450 12345)" })])
+    expect(proposals[0].candidates[0]).toMatchObject({ faculty_id: "f-anitha", evidence: ["phone"], confidence: 85 })
+  })
+
+  it("matches names through titles, punctuation and order", () => {
+    const { proposals } = queue([session({ id: "s1", speakers: "Prof. Anitha Ravindran, Kulkarni Meera" })])
+    const byName = Object.fromEntries(proposals.map((p) => [p.text_name, p.candidates[0]]))
+    expect(byName["Prof. Anitha Ravindran"]).toMatchObject({ faculty_id: "f-anitha", evidence: ["exact_name", "text_match"], confidence: 80 })
+    expect(byName["Kulkarni Meera"]).toMatchObject({ faculty_id: "f-meera", evidence: ["reordered_name"], confidence: 70 })
+  })
+
+  it("never proposes someone whose email contradicts the text", () => {
+    const { proposals, unmatched } = queue([session({ id: "s1", speakers_text: "Anitha Ravindran (a.ravindran@gmail.com, )" })])
+    expect(proposals).toEqual([])
+    expect(unmatched).toEqual([expect.objectContaining({ session_id: "s1", name: "Anitha Ravindran" })])
+  })
+
+  it("does not let a single shared word pass as a match", () => {
+    // "Dr Rao" vs "Dr Raghava Rao" -- the word-boundary rule, not substrings.
+    const { unmatched } = queue([session({ id: "s1", speakers: "Dr Rao" })], {
+      faculty: [{ id: "f-rao", name: "Dr Raghava Rao" }],
+    })
+    expect(unmatched).toHaveLength(1)
+  })
+
+  it("shows every close candidate and marks the proposal ambiguous", () => {
+    const { proposals } = queue([session({ id: "s1", speakers: "A Kulkarni" })], {
+      faculty: [
+        { id: "f-1", name: "Arun Kulkarni" },
+        { id: "f-2", name: "Asha Kulkarni" },
+      ],
+    })
+    expect(proposals[0].ambiguous).toBe(true)
+    expect(proposals[0].candidates.map((c) => c.faculty_id)).toEqual(["f-1", "f-2"])
+    expect(proposals[0].candidates[0].confidence).toBe(30)
+  })
+
+  it("treats a registrant who is also in the directory as one person", () => {
+    const { proposals } = queue([session({ id: "s1", speakers: "Meera Kulkarni" })], {
+      registrations: [
+        { id: "r-meera", attendee_name: "Dr. Meera Kulkarni", attendee_email: "MEERA@kem.org", attendee_phone: null },
+        { id: "r-new", attendee_name: "Farhan Qureshi", attendee_email: "farhan@x.in", attendee_phone: null },
+      ],
+    })
+    expect(proposals[0].candidates).toHaveLength(1)
+    expect(proposals[0].candidates[0]).toMatchObject({ faculty_id: "f-meera", registration_id: "r-meera" })
+  })
+
+  it("offers a registrant who isn't in the directory", () => {
+    const { proposals } = queue([session({ id: "s1", moderators: "Farhan Qureshi" })], {
+      registrations: [{ id: "r-new", attendee_name: "Dr Farhan Qureshi", attendee_email: "farhan@x.in", attendee_phone: "9000000001" }],
+    })
+    expect(proposals[0]).toMatchObject({ role: "moderator" })
+    expect(proposals[0].candidates[0]).toMatchObject({ faculty_id: null, registration_id: "r-new", phone: "9000000001" })
+  })
+
+  it("drops candidates a coordinator already rejected for that name", () => {
+    const { proposals, unmatched } = queue([session({ id: "s1", speakers: "Meera Kulkarni" })], {
+      rejections: [{ session_id: "s1", role: "speaker", text_name: "meera  kulkarni", faculty_id: "f-meera", registration_id: null }],
+    })
+    expect(proposals).toEqual([])
+    expect(unmatched).toHaveLength(1)
+  })
+
+  it("skips sessions a coordinator reconciled by hand", () => {
+    const assignments: ResolverAssignment[] = [{ session_id: "s1", role: "speaker", faculty_name: "Someone Else" }]
+    expect(queue([session({ id: "s1", speakers: "Meera Kulkarni" })], { assignments }).proposals).toEqual([])
+  })
+
+  it("lists the surest proposals first", () => {
+    const { proposals } = queue([
+      session({ id: "s1", session_name: "A", speakers: "Kulkarni Meera" }),
+      session({ id: "s2", session_name: "B", speakers_text: "Anitha Ravindran (anitha@aiims.edu, )" }),
+    ])
+    expect(proposals.map((p) => p.session_id)).toEqual(["s2", "s1"])
+  })
+})
+
+describe("reconciliation", () => {
+  const s1 = session({ id: "s1", speakers: "Dr Anitha Ravindran, Meera Kulkarni" })
+  const accepted = (text: string): ResolverAssignment => ({
+    session_id: "s1",
+    role: "speaker",
+    faculty_name: "Whoever",
+    match_source: "session_text",
+    match_text: text,
+  })
+
+  it("keeps a session unverified until every name in its text is accepted", () => {
+    const one = [accepted("Dr Anitha Ravindran")]
+    expect(isTextReconciled(s1, one)).toBe(false)
+    expect(unresolvedTextEntries(s1, one).map((e) => e.name)).toEqual(["Meera Kulkarni"])
+    expect(queue([s1], { assignments: one }).proposals.map((p) => p.text_name)).toEqual(["Meera Kulkarni"])
+
+    expect(isTextReconciled(s1, [...one, accepted("Meera Kulkarni")])).toBe(true)
+  })
+
+  it("still trusts any assignment made by hand", () => {
+    expect(isTextReconciled(s1, [{ session_id: "s1", role: "chairperson", faculty_name: "X" }])).toBe(true)
+  })
+})
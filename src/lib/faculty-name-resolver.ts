@@ -0,0 +1,458 @@
+// Faculty-name resolver -- a review queue that turns the free-text faculty on
+// `unverified` sessions into proposed faculty_assignments rows.
+//
+// Pure and framework-free: callers fetch sessions, assignments, the faculty
+// directory and the event's registrations (src/lib/faculty-resolver-inputs.ts)
+// and pass plain data in.
+//
+// agenda-open-slots.ts deferred this on purpose: attributing a session to the
+// wrong person is worse than a short review queue. So this module never
+// decides anything. It parses each name out of `speakers` / `chairpersons` /
+// `moderators` (or their `_text` twins, which carry email and phone), lines it
+// up against people we already know, and says how sure it is and why. A
+// coordinator accepts or rejects each one; only an accepted proposal becomes an
+// assignment, and it carries the evidence with it (match_source,
+// match_confidence, match_text) so a session only stops being `unverified`
+// once every name in its text is accounted for -- see unresolvedTextEntries.
+//
+// HOW SURE
+//
+// Contact details beat names. An email in the text that matches the person's
+// email is near-certain; a phone is nearly as good. Then names, worst-first
+// collisions in mind: exact (titles and punctuation aside), the same words in
+// another order, one name inside the other at word boundaries (the
+// buildNameMatcher rule that stopped "Dr Rao" matching "Dr Raghava Rao"), and
+// finally initials ("A. Ravindran"). Two candidates that score alike are both
+// shown and the score drops -- the reviewer picks.
+
+import { isFacultyRole, type FacultyRole } from "./agenda-roles"
+import { buildNameMatcher, matchFacultySessions, stripTitle, type MatchableSession, type MatchSource } from "./faculty-session-match"
+
+export interface ResolverSession extends MatchableSession {
+  session_name: string
+  session_date: string | null
+  start_time: string | null
+  end_time?: string | null
+  hall?: string | null
+}
+
+/** The assignment columns reconciliation needs. */
+export interface ResolverAssignment {
+  session_id: string | null
+  role: string
+  faculty_name?: string | null
+  faculty_email?: string | null
+  /** Set only on rows a coordinator accepted from this queue. */
+  match_source?: MatchSource | null
+  /** The text the row was resolved from, verbatim. */
+  match_text?: string | null
+}
+
+export interface DirectoryFaculty {
+  id: string
+  name: string
+  email?: string | null
+  email_secondary?: string | null
+  phone?: string | null
+  phone_secondary?: string | null
+  institution?: string | null
+}
+
+export interface DirectoryRegistration {
+  id: string
+  attendee_name: string | null
+  attendee_email: string | null
+  attendee_phone: string | null
+}
+
+/** A proposal a coordinator turned down -- it is not offered again. */
+export interface ResolverRejection {
+  session_id: string
+  role: string
+  text_name: string
+  faculty_id: string | null
+  registration_id: string | null
+}
+
+/** One person named in a session's free text. */
+export interface TextEntry {
+  role: FacultyRole
+  name: string
+  email: string | null
+  phone: string | null
+}
+
+export type MatchEvidence = "email" | "phone" | "exact_name" | "reordered_name" | "partial_name" | "initials" | "text_match"
+
+export interface ResolverCandidate {
+  faculty_id: string | null
+  registration_id: string | null
+  name: string
+  email: string | null
+  phone: string | null
+  institution: string | null
+  /** 0-100. */
+  confidence: number
+  evidence: MatchEvidence[]
+}
+
+export interface ResolverProposal {
+  session_id: string
+  session_name: string
+  session_date: string | null
+  start_time: string | null
+  role: FacultyRole
+  text_name: string
+  text_email: string | null
+  text_phone: string | null
+  source: MatchSource
+  /** Best first. The first one is the proposal; the rest are for the reviewer. */
+  candidates: ResolverCandidate[]
+  /** Two candidates scored alike -- a human has to choose. */
+  ambiguous: boolean
+}
+
+export interface ResolverQueue {
+  proposals: ResolverProposal[]
+  /** Names nobody in the directory or the registrations resembles. */
+  unmatched: Array<TextEntry & { session_id: string; session_name: string }>
+}
+
+/** Below this a candidate is noise, not a lead. */
+export const MIN_CONFIDENCE = 50
+
+const EVIDENCE_SCORE: Record<MatchEvidence, number> = {
+  email: 95,
+  phone: 85,
+  exact_name: 75,
+  reordered_name: 70,
+  partial_name: 60,
+  initials: 50,
+  text_match: 0,
+}
+
+/** Each further, independent kind of evidence adds a little. */
+const CORROBORATION_BONUS = 5
+const AMBIGUITY_PENALTY = 20
+
+// ---------------------------------------------------------------------------
+// Parsing the free text
+// ---------------------------------------------------------------------------
+
+/**
+ * `_text` columns: "Name (email, phone) | Name2 (email2, phone2)" -- the format
+ * every importer writes and the program sync-assignments route reads.
+ */
+export function parseFacultyText(text: string | null | undefined): Array<{ name: string; email: string | null; phone: string | null }> {
+  if (!text) return []
+
+  return text
+    .split(" | ")
+    .map((part) => {
+      // No `\s*` after ([^(]+): the two overlap and backtrack quadratically on
+      // long whitespace runs (2,400 ms on 50k spaces). .trim() does its job.
+      const match = part.match(/^([^(]+)(?:\(([^,]*),?\s*([^)]*)\))?$/)
+      if (match) {
+        return { name: match[1].trim(), email: match[2]?.trim() || null, phone: match[3]?.trim() || null }
+      }
+      return { name: part.trim(), email: null, phone: null }
+    })
+    .filter((f) => f.name)
+}
+
+/** Name columns: "Dr Name1, Dr Name2" or "Name1 (Role), Name2 (Role)". */
+export function parseNamesList(text: string | null | undefined): Array<{ name: string; email: string | null; phone: string | null }> {
+  if (!text) return []
+
+  return text
+    .split(",")
+    .map((entry) => ({ name: entry.replace(/\s*\([^)]*\)\s*$/, "").trim(), email: null, phone: null }))
+    .filter((f) => f.name)
+}
+
+const TEXT_COLUMNS: ReadonlyArray<{ role: FacultyRole; names: keyof MatchableSession; contacts: keyof MatchableSession }> = [
+  { role: "speaker", names: "speakers", contacts: "speakers_text" },
+  { role: "chairperson", names: "chairpersons", contacts: "chairpersons_text" },
+  { role: "moderator", names: "moderators", contacts: "moderators_text" },
+]
+
+/** Everyone a session's text names, per role -- the `_text` column when it has one. */
+export function textEntries(session: MatchableSession): TextEntry[] {
+  const out: TextEntry[] = []
+  for (const { role, names, contacts } of TEXT_COLUMNS) {
+    const withContacts = parseFacultyText(session[contacts] as string | null | undefined)
+    const people = withContacts.length > 0 ? withContacts : parseNamesList(session[names] as string | null | undefined)
+    const seen = new Set<string>()
+    for (const person of people) {
+      const key = normaliseName(person.name)
+      if (!key || seen.has(key)) continue
+      seen.add(key)
+      out.push({ role, name: person.name, email: normaliseEmail(person.email), phone: person.phone })
+    }
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// Normalising
+// ---------------------------------------------------------------------------
+
+/** "Prof. Dr. A.  Ravindran," -> "a ravindran". */
+export function normaliseName(name: string | null | undefined): string {
+  let stripped = (name ?? "").trim()
+  // Titles stack ("Prof. Dr."), so strip until nothing changes.
+  for (let prev = ""; prev !== stripped; ) {
+    prev = stripped
+    stripped = stripTitle(stripped)
+  }
+  return stripped
+    .toLowerCase()
+    .replace(/[.,'’]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+function normaliseEmail(email: string | null | undefined): string | null {
+  const e = email?.trim().toLowerCase()
+  return e && e.includes("@") && !e.includes("@placeholder.") ? e : null
+}
+
+/** The last ten digits -- enough to ignore +91, 0 and spacing. */
+export function normalisePhone(phone: string | null | undefined): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "")
+  return digits.length >= 10 ? digits.slice(-10) : null
+}
+
+function nameEvidence(textName: string, candidateName: string): MatchEvidence | null {
+  const a = normaliseName(textName)
+  const b = normaliseName(candidateName)
+  if (!a || !b) return null
+  if (a === b) return "exact_name"
+
+  const aTokens = a.split(" ")
+  const bTokens = b.split(" ")
+  if (aTokens.length > 1 && [...aTokens].sort().join(" ") === [...bTokens].sort().join(" ")) return "reordered_name"
+
+  const textMatcher = buildNameMatcher(a)
+  const candidateMatcher = buildNameMatcher(b)
+  if (textMatcher?.test(b) || candidateMatcher?.test(a)) return "partial_name"
+
+  // "A Ravindran" / "Anitha Ravindran": same surname, and every other word
+  // of the shorter name is an initial of, or equal to, its counterpart.
+  if (aTokens.length > 1 && aTokens.length === bTokens.length && aTokens.at(-1) === bTokens.at(-1)) {
+    const compatible = aTokens.slice(0, -1).every((t, i) => {
+      const u = bTokens[i]
+      return t === u || (t.length === 1 && u.startsWith(t)) || (u.length === 1 && t.startsWith(u))
+    })
+    if (compatible) return "initials"
+  }
+  return null
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+interface Person {
+  faculty_id: string | null
+  registration_id: string | null
+  name: string
+  emails: string[]
+  /** Normalised, for matching. */
+  phones: string[]
+  /** As stored, for the assignment row. */
+  phone: string | null
+  institution: string | null
+}
+
+function directory(faculty: readonly DirectoryFaculty[], registrations: readonly DirectoryRegistration[]): Person[] {
+  const people: Person[] = faculty.map((f) => ({
+    faculty_id: f.id,
+    registration_id: null,
+    name: f.name,
+    emails: [f.email, f.email_secondary].map(normaliseEmail).filter((e): e is string => !!e),
+    phones: [f.phone, f.phone_secondary].map(normalisePhone).filter((p): p is string => !!p),
+    phone: f.phone?.trim() || f.phone_secondary?.trim() || null,
+    institution: f.institution ?? null,
+  }))
+
+  // A registrant who is also in the directory is one person, not two
+  // candidates that split the vote.
+  const byEmail = new Map<string, Person>()
+  for (const p of people) for (const e of p.emails) if (!byEmail.has(e)) byEmail.set(e, p)
+  for (const r of registrations) {
+    if (!r.attendee_name) continue
+    const email = normaliseEmail(r.attendee_email)
+    const known = email ? byEmail.get(email) : undefined
+    if (known) {
+      known.registration_id ??= r.id
+      continue
+    }
+    people.push({
+      faculty_id: null,
+      registration_id: r.id,
+      name: r.attendee_name,
+      emails: email ? [email] : [],
+      phones: [normalisePhone(r.attendee_phone)].filter((p): p is string => !!p),
+      phone: r.attendee_phone?.trim() || null,
+      institution: null,
+    })
+  }
+  return people
+}
+
+function scoreCandidate(entry: TextEntry, session: MatchableSession, person: Person): ResolverCandidate | null {
+  const entryPhone = normalisePhone(entry.phone)
+  const evidence: MatchEvidence[] = []
+
+  if (entry.email && person.emails.length > 0) {
+    // Both have an email and they differ: a different person, however alike
+    // the names -- the same rule matchFacultySessions applies to assignments.
+    if (!person.emails.includes(entry.email)) return null
+    evidence.push("email")
+  }
+  if (entryPhone && person.phones.includes(entryPhone)) evidence.push("phone")
+  const byName = nameEvidence(entry.name, person.name)
+  if (byName) evidence.push(byName)
+  if (evidence.length === 0) return null
+
+  // The shared session matcher agreeing -- this person, this role, this
+  // session -- is corroboration, not a signal of its own.
+  const agrees = matchFacultySessions([session], [], { email: person.emails[0] ?? null, name: person.name }).some(
+    (m) => m.role === entry.role
+  )
+  if (agrees) evidence.push("text_match")
+
+  const scores = evidence.map((e) => EVIDENCE_SCORE[e])
+  const confidence = Math.min(100, Math.max(...scores) + CORROBORATION_BONUS * (evidence.length - 1))
+  if (confidence < MIN_CONFIDENCE) return null
+
+  return {
+    faculty_id: person.faculty_id,
+    registration_id: person.registration_id,
+    name: person.name,
+    email: person.emails[0] ?? null,
+    phone: person.phone,
+    institution: person.institution,
+    confidence,
+    evidence,
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reconciliation
+// ---------------------------------------------------------------------------
+
+function covers(a: ResolverAssignment, entry: TextEntry): boolean {
+  if (a.role !== entry.role) return false
+  if (a.match_text && normaliseName(a.match_text) === normaliseName(entry.name)) return true
+  const email = normaliseEmail(a.faculty_email)
+  if (email && entry.email) return email === entry.email
+  return !!a.faculty_name && nameEvidence(entry.name, a.faculty_name) === "exact_name"
+}
+
+/**
+ * The names in a session's text that no assignment accounts for yet. An
+ * assignment made from this queue covers the text it was resolved from; any
+ * other assignment covers a name it plainly belongs to.
+ */
+export function unresolvedTextEntries(session: MatchableSession, assignments: readonly ResolverAssignment[]): TextEntry[] {
+  const own = assignments.filter((a) => a.session_id === session.id)
+  return textEntries(session).filter((entry) => !own.some((a) => covers(a, entry)))
+}
+
+/**
+ * Has a human reconciled this session's text? Any assignment a coordinator
+ * made by hand says yes, as it always has (agenda-open-slots); rows accepted
+ * from this queue say yes only once every name is covered, so accepting one
+ * of three speakers cannot quietly clear the other two.
+ */
+export function isTextReconciled(session: MatchableSession, assignments: readonly ResolverAssignment[]): boolean {
+  const own = assignments.filter((a) => a.session_id === session.id)
+  if (own.length === 0) return false
+  if (own.some((a) => !a.match_source)) return true
+  return unresolvedTextEntries(session, own).length === 0
+}
+
+// ---------------------------------------------------------------------------
+// The queue
+// ---------------------------------------------------------------------------
+
+export function buildResolverQueue(input: {
+  sessions: readonly ResolverSession[]
+  assignments: readonly ResolverAssignment[]
+  faculty: readonly DirectoryFaculty[]
+  registrations: readonly DirectoryRegistration[]
+  rejections?: readonly ResolverRejection[]
+}): ResolverQueue {
+  const people = directory(input.faculty, input.registrations)
+  const rejected = new Set(
+    (input.rejections ?? []).map((r) => rejectionKey(r.session_id, r.role, r.text_name, r.faculty_id, r.registration_id))
+  )
+
+  const proposals: ResolverProposal[] = []
+  const unmatched: ResolverQueue["unmatched"] = []
+
+  for (const session of input.sessions) {
+    if (isTextReconciled(session, input.assignments)) continue
+
+    for (const entry of unresolvedTextEntries(session, input.assignments)) {
+      const candidates = people
+        .map((p) => scoreCandidate(entry, session, p))
+        .filter((c): c is ResolverCandidate => !!c)
+        .filter((c) => !rejected.has(rejectionKey(session.id, entry.role, entry.name, c.faculty_id, c.registration_id)))
+        .sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name) || (a.faculty_id ?? "").localeCompare(b.faculty_id ?? ""))
+
+      if (candidates.length === 0) {
+        unmatched.push({ ...entry, session_id: session.id, session_name: session.session_name })
+        continue
+      }
+
+      const ambiguous = candidates.length > 1 && candidates[0].confidence - candidates[1].confidence < CORROBORATION_BONUS * 2
+      if (ambiguous) {
+        candidates[0] = { ...candidates[0], confidence: Math.max(0, candidates[0].confidence - AMBIGUITY_PENALTY) }
+      }
+
+      proposals.push({
+        session_id: session.id,
+        session_name: session.session_name,
+        session_date: session.session_date,
+        start_time: session.start_time,
+        role: entry.role,
+        text_name: entry.name,
+        text_email: entry.email,
+        text_phone: entry.phone,
+        source: "session_text",
+        candidates,
+        ambiguous,
+      })
+    }
+  }
+
+  // Surest first: a reviewer clears the easy ones in a minute and spends the
+  // time on the doubtful tail.
+  proposals.sort(
+    (a, b) =>
+      b.candidates[0].confidence - a.candidates[0].confidence ||
+      (a.session_date ?? "9999-12-31").localeCompare(b.session_date ?? "9999-12-31") ||
+      (a.start_time ?? "99:99").localeCompare(b.start_time ?? "99:99") ||
+      a.session_name.localeCompare(b.session_name) ||
+      a.text_name.localeCompare(b.text_name)
+  )
+  return { proposals, unmatched }
+}
+
+export function rejectionKey(
+  sessionId: string,
+  role: string,
+  textName: string,
+  facultyId: string | null,
+  registrationId: string | null
+): string {
+  return [sessionId, role, normaliseName(textName), facultyId ?? "", registrationId ?? ""].join("::")
+}
+
+/** The role a queue request names, or null when it isn't one the text columns carry. */
+export function resolverRole(value: unknown): FacultyRole | null {
+  return isFacultyRole(value) && TEXT_COLUMNS.some((c) => c.role === value) ? value : null
+}
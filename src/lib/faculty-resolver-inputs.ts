@@ -0,0 +1,66 @@
+// Shared data-fetching for the faculty-name resolver, consumed by the review
+// queue's GET and its accept/reject POST. Pure I/O wrapper around
+// buildResolverQueue's input shape (src/lib/faculty-name-resolver.ts).
+
+import type {
+  DirectoryFaculty,
+  DirectoryRegistration,
+  ResolverAssignment,
+  ResolverRejection,
+  ResolverSession,
+} from "./faculty-name-resolver"
+import { fetchAllPages } from "./supabase/fetch-all-pages"
+
+export interface ResolverInputs {
+  sessions: ResolverSession[]
+  assignments: ResolverAssignment[]
+  faculty: DirectoryFaculty[]
+  registrations: DirectoryRegistration[]
+  rejections: ResolverRejection[]
+}
+
+/** `sessionId` narrows the sessions, assignments and rejections to one block. */
+export async function fetchResolverInputs(supabase: any, eventId: string, sessionId?: string): Promise<ResolverInputs> {
+  const forSession = (query: any) => (sessionId ? query.eq("session_id", sessionId) : query)
+  let sessionsQuery = supabase
+    .from("sessions")
+    .select(
+      "id, session_name, session_date, start_time, end_time, hall, speakers, chairpersons, moderators, speakers_text, chairpersons_text, moderators_text, description"
+    )
+    .eq("event_id", eventId)
+  if (sessionId) sessionsQuery = sessionsQuery.eq("id", sessionId)
+
+  // The faculty directory is shared across events and runs to thousands of
+  // rows; like every list here it is paged rather than trusted to fit in 1,000.
+  const [sessions, assignments, faculty, registrations, rejections] = await Promise.all([
+    fetchAllPages<ResolverSession>(sessionsQuery),
+    fetchAllPages<ResolverAssignment>(
+      forSession(
+        supabase
+          .from("faculty_assignments")
+          .select("session_id, role, faculty_name, faculty_email, match_source, match_text")
+          .eq("event_id", eventId)
+      )
+    ),
+    fetchAllPages<DirectoryFaculty>(
+      supabase.from("faculty").select("id, name, email, email_secondary, phone, phone_secondary, institution")
+    ),
+    fetchAllPages<DirectoryRegistration>(
+      supabase
+        .from("registrations")
+        .select("id, attendee_name, attendee_email, attendee_phone")
+        .eq("event_id", eventId)
+        .neq("status", "cancelled")
+    ),
+    fetchAllPages<ResolverRejection>(
+      forSession(
+        supabase
+          .from("faculty_match_rejections")
+          .select("session_id, role, text_name, faculty_id, registration_id")
+          .eq("event_id", eventId)
+      )
+    ),
+  ])
+
+  return { sessions, assignments, faculty, registrations, rejections }
+}
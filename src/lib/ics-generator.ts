@@ -77,6 +77,52 @@ export function generateICSEvent(event: CalendarEvent): string {
   return lines.join("\r\n")
 }
 
+// One session on a programme calendar. `uid` must stay the same across
+// re-sends so calendar apps update the entry they already have instead of
+// adding a second one; `sequence` must go up each time it changes.
+export interface SessionCalendarEntry {
+  uid: string
+  sequence: number
+  title: string
+  description?: string
+  location?: string
+  startDate: Date
+  endDate: Date
+  cancelled?: boolean
+}
+
+// Generate ICS for programme sessions, replacing earlier copies by UID
+export function generateSessionsICS(calendarName: string, entries: SessionCalendarEntry[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${COMPANY_CONFIG.name} Events//Programme//EN`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+  ]
+
+  for (const entry of entries) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${entry.uid}@${COMPANY_CONFIG.website.replace(/^https?:\/\//, "")}`,
+      `SEQUENCE:${entry.sequence}`,
+      `DTSTAMP:${formatICSDate(new Date())}`,
+      `DTSTART:${formatICSDate(entry.startDate)}`,
+      `DTEND:${formatICSDate(entry.endDate)}`,
+      `SUMMARY:${escapeICSText(entry.title)}`,
+      `STATUS:${entry.cancelled ? "CANCELLED" : "CONFIRMED"}`
+    )
+    if (entry.description) lines.push(`DESCRIPTION:${escapeICSText(entry.description)}`)
+    if (entry.location) lines.push(`LOCATION:${escapeICSText(entry.location)}`)
+    lines.push("END:VEVENT")
+  }
+
+  lines.push("END:VCALENDAR")
+
+  return lines.join("\r\n")
+}
+
 // Generate ICS for flight
 export function generateFlightICS(flight: {
   airline: string
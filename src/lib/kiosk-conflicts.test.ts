@@ -0,0 +1,257 @@
+import { describe, it, expect } from "vitest"
+import {
+  availableResolutions,
+  buildConflictItems,
+  buildReliabilityReport,
+  mergedCheckin,
+  pairAuditDuplicates,
+  parseUploadedConflict,
+  reliabilityCsvRows,
+  type CheckinRecordState,
+  type ConflictItemInputs,
+  type ConflictRow,
+  type DuplicateAuditRow,
+} from "./kiosk-conflicts"
+
+const LIST = "22222222-2222-2222-2222-222222222222"
+const REG_A = "33333333-3333-3333-3333-333333333333"
+const REG_B = "44444444-4444-4444-4444-444444444444"
+const SCAN = "55555555-5555-5555-5555-555555555555"
+
+function conflict(overrides: Partial<ConflictRow> = {}): ConflictRow {
+  return {
+    id: "c-1",
+    source: "device",
+    station_id: "st-tablet",
+    device_id: "dev-1",
+    scan_id: SCAN,
+    audit_log_id: null,
+    checkin_list_id: LIST,
+    registration_id: REG_A,
+    scanned_at: "2026-10-19T08:50:00.000Z",
+    device_snapshot: { attendee_name: "Asha Rao", registration_number: "R-1" },
+    server_response: { checked_in_at: "2026-10-19T08:55:00.000Z", attributed_station_id: "st-desk" },
+    status: "open",
+    resolution_note: null,
+    resolved_at: null,
+    ...overrides,
+  }
+}
+
+function audit(overrides: Partial<DuplicateAuditRow> = {}): DuplicateAuditRow {
+  return {
+    id: "a-1",
+    created_at: "2026-10-19T09:05:00.000Z",
+    checkin_list_id: LIST,
+    registration_id: REG_A,
+    device_info: { station_id: "st-tablet", duplicate: true },
+    ...overrides,
+  }
+}
+
+function record(overrides: Partial<CheckinRecordState> = {}): CheckinRecordState {
+  return {
+    id: "rec-1",
+    registration_id: REG_A,
+    checkin_list_id: LIST,
+    checked_in_at: "2026-10-19T08:55:00.000Z",
+    station_id: "st-desk",
+    checked_out_at: null,
+    reversed_at: null,
+    ...overrides,
+  }
+}
+
+function inputs(overrides: Partial<ConflictItemInputs> = {}): ConflictItemInputs {
+  return {
+    conflicts: [],
+    auditRows: [],
+    records: [record()],
+    stationNames: new Map([
+      ["st-tablet", "Hall A tablet"],
+      ["st-desk", "Front desk"],
+    ]),
+    listNames: new Map([[LIST, "Main entry"]]),
+    registrations: new Map([[REG_A, { attendee_name: "Asha Rao", registration_number: "R-1" }]]),
+    ...overrides,
+  }
+}
+
+describe("parseUploadedConflict", () => {
+  it("normalises a scan_log entry and trims the snapshot to what the console shows", () => {
+    const parsed = parseUploadedConflict({
+      scan_id: SCAN,
+      list_id: LIST,
+      registration_id: REG_A,
+      scanned_at: Date.parse("2026-10-19T08:50:00Z"),
+      registration_snapshot: { id: REG_A, attendee_name: "Asha Rao", registration_number: "R-1", attendee_phone: "999" },
+      server_response: { alreadyCheckedIn: true },
+    })
+    expect(parsed).toEqual({
+      scan_id: SCAN,
+      checkin_list_id: LIST,
+      registration_id: REG_A,
+      scanned_at: "2026-10-19T08:50:00.000Z",
+      device_snapshot: { id: REG_A, attendee_name: "Asha Rao", registration_number: "R-1" },
+      server_response: { alreadyCheckedIn: true },
+    })
+  })
+
+  it("rejects entries with bad ids or times", () => {
+    expect(parseUploadedConflict({ scan_id: "x", list_id: LIST, registration_id: REG_A, scanned_at: 1 })).toBeNull()
+    expect(parseUploadedConflict({ scan_id: SCAN, list_id: LIST, registration_id: REG_A, scanned_at: "soon" })).toBeNull()
+    expect(parseUploadedConflict(null)).toBeNull()
+  })
+})
+
+describe("pairAuditDuplicates", () => {
+  it("pairs a device conflict with the duplicate its sync produced", () => {
+    const pairs = pairAuditDuplicates([conflict()], [audit()])
+    expect(pairs.get("c-1")).toBe("a-1")
+  })
+
+  it("ignores duplicates from another station, list or registration, or from before the scan", () => {
+    const rows = [
+      audit({ id: "other-station", device_info: { station_id: "st-desk", duplicate: true } }),
+      audit({ id: "other-reg", registration_id: REG_B }),
+      audit({ id: "too-early", created_at: "2026-10-19T08:30:00.000Z" }),
+    ]
+    expect(pairAuditDuplicates([conflict()], rows).size).toBe(0)
+  })
+
+  it("allows for a tablet clock running a little fast", () => {
+    const pairs = pairAuditDuplicates([conflict()], [audit({ created_at: "2026-10-19T08:49:00.000Z" })])
+    expect(pairs.get("c-1")).toBe("a-1")
+  })
+
+  it("uses each audit row once, earliest scan to earliest row", () => {
+    const pairs = pairAuditDuplicates(
+      [conflict({ id: "c-late", scanned_at: "2026-10-19T09:00:00.000Z" }), conflict({ id: "c-early" })],
+      [audit({ id: "a-late", created_at: "2026-10-19T09:10:00.000Z" }), audit({ id: "a-early" })]
+    )
+    expect(pairs.get("c-early")).toBe("a-early")
+    expect(pairs.get("c-late")).toBe("a-late")
+  })
+
+  it("never re-pairs an audit row already stored on another conflict", () => {
+    const pairs = pairAuditDuplicates([conflict({ id: "c-stored", audit_log_id: "a-1" }), conflict({ id: "c-2" })], [audit()])
+    expect(pairs.has("c-2")).toBe(false)
+  })
+})
+
+describe("buildConflictItems", () => {
+  it("shows a device conflict once, with both sides, and hides its paired duplicate", () => {
+    const items = buildConflictItems(inputs({ conflicts: [conflict()], auditRows: [audit()] }))
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({
+      key: "c-1",
+      conflict_id: "c-1",
+      audit_log_id: "a-1",
+      source: "device",
+      attendee_name: "Asha Rao",
+      list_name: "Main entry",
+      station_name: "Hall A tablet",
+      device: { outcome: "checked_in", scanned_at: "2026-10-19T08:50:00.000Z", shown_name: "Asha Rao" },
+      server: {
+        decided_at: "2026-10-19T09:05:00.000Z",
+        original_checked_in_at: "2026-10-19T08:55:00.000Z",
+        original_station_name: "Front desk",
+        record: "active",
+        record_id: "rec-1",
+      },
+      resolutions: ["accept", "void", "merge"],
+    })
+  })
+
+  it("lists unpaired server duplicates on their own, with no device side", () => {
+    const items = buildConflictItems(inputs({ auditRows: [audit()] }))
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ key: "audit:a-1", conflict_id: null, source: "audit", device: null, status: "open" })
+    expect(items[0].resolutions).toEqual(["accept", "void"])
+  })
+
+  it("carries a resolved server duplicate's status from its audit-sourced row", () => {
+    const resolved = conflict({ id: "c-audit", source: "audit", audit_log_id: "a-1", scan_id: null, scanned_at: null, status: "voided" })
+    const items = buildConflictItems(inputs({ conflicts: [resolved], auditRows: [audit()], records: [record({ reversed_at: "2026-10-19T10:00:00Z" })] }))
+    expect(items).toHaveLength(1)
+    expect(items[0]).toMatchObject({ key: "c-audit", status: "voided", device: null, resolutions: [] })
+    expect(items[0].server.record).toBe("reversed")
+  })
+
+  it("only offers accept once the surviving check-in is gone", () => {
+    const items = buildConflictItems(inputs({ conflicts: [conflict()], records: [] }))
+    expect(items[0].server.record).toBe("missing")
+    expect(items[0].resolutions).toEqual(["accept"])
+  })
+
+  it("sorts newest first", () => {
+    const items = buildConflictItems(
+      inputs({
+        conflicts: [conflict()],
+        auditRows: [audit({ id: "a-2", registration_id: REG_B, created_at: "2026-10-19T11:00:00.000Z" })],
+      })
+    )
+    expect(items.map((i) => i.key)).toEqual(["audit:a-2", "c-1"])
+  })
+})
+
+describe("availableResolutions", () => {
+  it("leaves merge out when the record already holds the earlier time", () => {
+    const resolutions = availableResolutions({
+      status: "open",
+      device: { outcome: "checked_in", scanned_at: "2026-10-19T09:00:00.000Z", shown_name: "" },
+      server: {
+        outcome: "already_checked_in",
+        decided_at: null,
+        original_checked_in_at: "2026-10-19T08:55:00.000Z",
+        original_station_name: null,
+        record: "active",
+        record_id: "rec-1",
+      },
+    })
+    expect(resolutions).toEqual(["accept", "void"])
+  })
+})
+
+describe("mergedCheckin", () => {
+  it("moves the record to the tablet's earlier scan and station", () => {
+    expect(mergedCheckin(record(), conflict())).toEqual({ checked_in_at: "2026-10-19T08:50:00.000Z", station_id: "st-tablet" })
+  })
+
+  it("returns null when the record is already earliest", () => {
+    expect(mergedCheckin(record(), conflict({ scanned_at: "2026-10-19T09:00:00.000Z" }))).toBeNull()
+  })
+})
+
+describe("buildReliabilityReport", () => {
+  const stations = [
+    { id: "st-tablet", name: "Hall A tablet", app_version: "abc1234", telemetry_at: "2026-10-19T12:00:00Z", pending_scans: 2, revoked_at: null },
+    { id: "st-desk", name: "Front desk", app_version: "abc1234", telemetry_at: null, pending_scans: null, revoked_at: null },
+  ]
+
+  it("counts each station's check-ins, duplicates and conflicts by outcome", () => {
+    const items = buildConflictItems(
+      inputs({
+        conflicts: [conflict(), conflict({ id: "c-2", scan_id: null, registration_id: REG_B, status: "merged" })],
+        auditRows: [audit(), audit({ id: "a-online", registration_id: REG_B, device_info: { station_id: "st-desk", duplicate: true } })],
+      })
+    )
+    const rows = buildReliabilityReport(stations, new Map([["st-tablet", 40]]), items)
+    expect(rows[0]).toMatchObject({
+      station_name: "Hall A tablet",
+      check_ins: 40,
+      duplicates: 1,
+      conflicts: 2,
+      open: 1,
+      merged: 1,
+      conflict_rate: 5,
+      unsynced_at_last_heartbeat: 2,
+    })
+    expect(rows[1]).toMatchObject({ station_name: "Front desk", check_ins: 0, duplicates: 1, conflicts: 0, conflict_rate: null })
+  })
+
+  it("flattens rows for the CSV in header order", () => {
+    const [row] = reliabilityCsvRows(buildReliabilityReport(stations.slice(0, 1), new Map([["st-tablet", 8]]), []))
+    expect(row).toEqual(["Hall A tablet", "abc1234", "2026-10-19T12:00:00Z", 2, 8, 0, 0, 0, 0, 0, 0, 0])
+  })
+})
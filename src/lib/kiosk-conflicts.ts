@@ -0,0 +1,413 @@
+// Pure logic for the kiosk conflicts console: pairing what each tablet
+// uploaded about a disputed scan with the server's own record of it,
+// deciding which resolutions make sense, and the per-station reliability
+// report. The DB reads live in src/lib/services/kiosk-conflicts.ts.
+//
+// Two sources feed the console:
+//  - device conflicts (kiosk_scan_conflicts, source 'device'): the tablet
+//    showed a fresh check-in offline and the server said "already checked
+//    in" on sync -- see kiosk-sync-worker.ts's module comment.
+//  - server duplicates (checkin_audit_log rows the kiosk check-in route
+//    writes with device_info.duplicate, see logKioskDuplicateAudit). Every
+//    device conflict produces one of these too, so they're paired up and
+//    only the unpaired ones show on their own -- usually an online repeat
+//    scan, or a tablet on a build too old to upload its conflicts.
+
+import { isValidUUID } from "@/lib/validation"
+import type { CachedDelegate } from "@/lib/kiosk-delegate-match"
+
+export type ConflictStatus = "open" | "accepted" | "voided" | "merged"
+export type ConflictResolution = "accept" | "void" | "merge"
+
+export const RESOLUTION_STATUS: Record<ConflictResolution, ConflictStatus> = {
+  accept: "accepted",
+  void: "voided",
+  merge: "merged",
+}
+
+export const CONFLICT_STATUS_LABELS: Record<ConflictStatus, string> = {
+  open: "Needs review",
+  accepted: "Accepted",
+  voided: "Voided",
+  merged: "Merged",
+}
+
+export const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  accept: "Accept",
+  void: "Void check-in",
+  merge: "Merge",
+}
+
+// Audit rows are written at sync time on the server's clock; scanned_at is
+// the tablet's clock. Allow for the tablet running a little fast.
+const CLOCK_SKEW_MS = 2 * 60 * 1000
+
+export interface ConflictRow {
+  id: string
+  source: "device" | "audit"
+  station_id: string | null
+  device_id: string | null
+  scan_id: string | null
+  audit_log_id: string | null
+  checkin_list_id: string | null
+  registration_id: string | null
+  scanned_at: string | null
+  device_snapshot: Partial<CachedDelegate> | null
+  server_response: { checked_in_at?: string; attributed_station_id?: string | null; message?: string } | null
+  status: ConflictStatus
+  resolution_note: string | null
+  resolved_at: string | null
+}
+
+export interface DuplicateAuditRow {
+  id: string
+  created_at: string
+  checkin_list_id: string | null
+  registration_id: string | null
+  device_info: { station_id?: string; duplicate?: boolean } | null
+}
+
+export interface CheckinRecordState {
+  id: string
+  registration_id: string
+  checkin_list_id: string
+  checked_in_at: string
+  station_id: string | null
+  checked_out_at: string | null
+  reversed_at: string | null
+}
+
+export type RecordState = "active" | "checked_out" | "reversed" | "missing"
+
+export function recordState(record: CheckinRecordState | null | undefined): RecordState {
+  if (!record) return "missing"
+  if (record.reversed_at) return "reversed"
+  if (record.checked_out_at) return "checked_out"
+  return "active"
+}
+
+// --- Device upload ----------------------------------------------------------
+
+export interface UploadedConflict {
+  scan_id: string
+  checkin_list_id: string
+  registration_id: string
+  scanned_at: string
+  device_snapshot: Partial<CachedDelegate> | null
+  server_response: unknown
+}
+
+export function parseUploadedConflict(raw: unknown): UploadedConflict | null {
+  if (!raw || typeof raw !== "object") return null
+  const c = raw as Record<string, unknown>
+  if (typeof c.scan_id !== "string" || !isValidUUID(c.scan_id)) return null
+  if (typeof c.list_id !== "string" || !isValidUUID(c.list_id)) return null
+  if (typeof c.registration_id !== "string" || !isValidUUID(c.registration_id)) return null
+  const scannedAt = typeof c.scanned_at === "number" || typeof c.scanned_at === "string" ? new Date(c.scanned_at) : null
+  if (!scannedAt || isNaN(scannedAt.getTime())) return null
+  const snapshot = c.registration_snapshot && typeof c.registration_snapshot === "object"
+    ? (c.registration_snapshot as Partial<CachedDelegate>)
+    : null
+  return {
+    scan_id: c.scan_id,
+    checkin_list_id: c.list_id,
+    registration_id: c.registration_id,
+    scanned_at: scannedAt.toISOString(),
+    device_snapshot: snapshot && {
+      id: snapshot.id,
+      registration_number: snapshot.registration_number,
+      attendee_name: snapshot.attendee_name,
+    },
+    server_response: c.server_response ?? null,
+  }
+}
+
+// --- Pairing ----------------------------------------------------------------
+
+// Matches each device conflict without a stored audit_log_id to the server
+// duplicate it produced: same registration, list and station, written at or
+// after the scan (allowing for clock skew), earliest first, each audit row
+// used at most once.
+export function pairAuditDuplicates(conflicts: ConflictRow[], auditRows: DuplicateAuditRow[]): Map<string, string> {
+  const used = new Set(conflicts.map((c) => c.audit_log_id).filter((id): id is string => !!id))
+  const sorted = [...auditRows].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const pairs = new Map<string, string>()
+
+  const unpaired = conflicts
+    .filter((c) => c.source === "device" && !c.audit_log_id && c.scanned_at)
+    .sort((a, b) => (a.scanned_at as string).localeCompare(b.scanned_at as string))
+
+  for (const conflict of unpaired) {
+    const earliest = new Date(conflict.scanned_at as string).getTime() - CLOCK_SKEW_MS
+    const match = sorted.find(
+      (row) =>
+        !used.has(row.id) &&
+        row.registration_id === conflict.registration_id &&
+        row.checkin_list_id === conflict.checkin_list_id &&
+        (row.device_info?.station_id ?? null) === conflict.station_id &&
+        new Date(row.created_at).getTime() >= earliest
+    )
+    if (match) {
+      used.add(match.id)
+      pairs.set(conflict.id, match.id)
+    }
+  }
+  return pairs
+}
+
+// --- Console items ----------------------------------------------------------
+
+export interface ConflictItem {
+  // conflict id, or "audit:<audit_log_id>" for an unresolved server-only duplicate
+  key: string
+  conflict_id: string | null
+  audit_log_id: string | null
+  source: "device" | "audit"
+  status: ConflictStatus
+  registration_id: string | null
+  attendee_name: string
+  registration_number: string
+  checkin_list_id: string | null
+  list_name: string
+  station_id: string | null
+  station_name: string
+  // What the tablet showed. null for a server-only duplicate: the device
+  // never reported it, so there's nothing to say beyond the server's side.
+  device: { outcome: "checked_in"; scanned_at: string; shown_name: string } | null
+  server: {
+    outcome: "already_checked_in"
+    decided_at: string | null
+    original_checked_in_at: string | null
+    original_station_name: string | null
+    record: RecordState
+    record_id: string | null
+  }
+  resolution_note: string | null
+  resolved_at: string | null
+  resolutions: ConflictResolution[]
+}
+
+export interface ConflictItemInputs {
+  conflicts: ConflictRow[]
+  auditRows: DuplicateAuditRow[]
+  records: CheckinRecordState[]
+  stationNames: Map<string, string>
+  listNames: Map<string, string>
+  registrations: Map<string, { attendee_name: string; registration_number: string }>
+}
+
+function recordKey(registrationId: string | null, listId: string | null): string {
+  return `${registrationId}:${listId}`
+}
+
+export function availableResolutions(item: Pick<ConflictItem, "status" | "device" | "server">): ConflictResolution[] {
+  if (item.status !== "open") return []
+  const out: ConflictResolution[] = ["accept"]
+  if (item.server.record === "active") {
+    out.push("void")
+    // Merging only means something when the tablet's scan came first --
+    // otherwise the surviving record already holds the earliest arrival.
+    if (item.device && item.server.original_checked_in_at && item.device.scanned_at < item.server.original_checked_in_at) {
+      out.push("merge")
+    }
+  }
+  return out
+}
+
+export function buildConflictItems(inputs: ConflictItemInputs): ConflictItem[] {
+  const { conflicts, auditRows, records, stationNames, listNames, registrations } = inputs
+  const recordsByKey = new Map(records.map((r) => [recordKey(r.registration_id, r.checkin_list_id), r]))
+  const auditById = new Map(auditRows.map((r) => [r.id, r]))
+  const pairs = pairAuditDuplicates(conflicts, auditRows)
+  const claimedAudit = new Set<string>([
+    ...conflicts.map((c) => c.audit_log_id).filter((id): id is string => !!id),
+    ...pairs.values(),
+  ])
+
+  const stationName = (id: string | null) => (id ? stationNames.get(id) || "Unknown station" : "No station")
+
+  function item(base: {
+    key: string
+    conflict: ConflictRow | null
+    audit: DuplicateAuditRow | null
+    source: "device" | "audit"
+    registrationId: string | null
+    listId: string | null
+    stationId: string | null
+  }): ConflictItem {
+    const { conflict, audit } = base
+    const record = recordsByKey.get(recordKey(base.registrationId, base.listId)) ?? null
+    const reg = base.registrationId ? registrations.get(base.registrationId) : undefined
+    const response = conflict?.server_response ?? null
+    const originalStationId = response?.attributed_station_id !== undefined ? response.attributed_station_id : record?.station_id ?? null
+    const built: ConflictItem = {
+      key: base.key,
+      conflict_id: conflict?.id ?? null,
+      audit_log_id: audit?.id ?? conflict?.audit_log_id ?? null,
+      source: base.source,
+      status: conflict?.status ?? "open",
+      registration_id: base.registrationId,
+      attendee_name: reg?.attendee_name || conflict?.device_snapshot?.attendee_name || "Unknown",
+      registration_number: reg?.registration_number || conflict?.device_snapshot?.registration_number || "",
+      checkin_list_id: base.listId,
+      list_name: base.listId ? listNames.get(base.listId) || "Unknown list" : "Unknown list",
+      station_id: base.stationId,
+      station_name: stationName(base.stationId),
+      device:
+        base.source === "device" && conflict?.scanned_at
+          ? {
+              outcome: "checked_in",
+              scanned_at: conflict.scanned_at,
+              shown_name: conflict.device_snapshot?.attendee_name || reg?.attendee_name || "Unknown",
+            }
+          : null,
+      server: {
+        outcome: "already_checked_in",
+        decided_at: audit?.created_at ?? null,
+        original_checked_in_at: response?.checked_in_at ?? record?.checked_in_at ?? null,
+        original_station_name: originalStationId ? stationName(originalStationId) : null,
+        record: recordState(record),
+        record_id: record?.id ?? null,
+      },
+      resolution_note: conflict?.resolution_note ?? null,
+      resolved_at: conflict?.resolved_at ?? null,
+      resolutions: [],
+    }
+    built.resolutions = availableResolutions(built)
+    return built
+  }
+
+  const items: ConflictItem[] = []
+  for (const conflict of conflicts) {
+    const auditId = conflict.audit_log_id ?? pairs.get(conflict.id) ?? null
+    items.push(
+      item({
+        key: conflict.id,
+        conflict,
+        audit: auditId ? auditById.get(auditId) ?? null : null,
+        source: conflict.source,
+        registrationId: conflict.registration_id,
+        listId: conflict.checkin_list_id,
+        stationId: conflict.station_id,
+      })
+    )
+  }
+  for (const audit of auditRows) {
+    if (claimedAudit.has(audit.id)) continue
+    items.push(
+      item({
+        key: `audit:${audit.id}`,
+        conflict: null,
+        audit,
+        source: "audit",
+        registrationId: audit.registration_id,
+        listId: audit.checkin_list_id,
+        stationId: audit.device_info?.station_id ?? null,
+      })
+    )
+  }
+
+  const when = (i: ConflictItem) => i.device?.scanned_at ?? i.server.decided_at ?? ""
+  return items.sort((a, b) => when(b).localeCompare(when(a)))
+}
+
+// Where the surviving check-in moves to when a conflict is merged: the
+// tablet's scan time and station, when that scan came first. null when
+// there's nothing to move.
+export function mergedCheckin(
+  record: Pick<CheckinRecordState, "checked_in_at" | "station_id">,
+  conflict: Pick<ConflictRow, "scanned_at" | "station_id">
+): { checked_in_at: string; station_id: string | null } | null {
+  if (!conflict.scanned_at || conflict.scanned_at >= record.checked_in_at) return null
+  return { checked_in_at: conflict.scanned_at, station_id: conflict.station_id }
+}
+
+// --- Reliability report -----------------------------------------------------
+
+export interface ReliabilityStation {
+  id: string
+  name: string
+  app_version: string | null
+  telemetry_at: string | null
+  pending_scans: number | null
+  revoked_at: string | null
+}
+
+export interface StationReliabilityRow {
+  station_id: string
+  station_name: string
+  app_version: string | null
+  last_heartbeat: string | null
+  unsynced_at_last_heartbeat: number | null
+  check_ins: number
+  duplicates: number
+  conflicts: number
+  open: number
+  accepted: number
+  voided: number
+  merged: number
+  // conflicts per 100 check-ins, one decimal; null with no check-ins
+  conflict_rate: number | null
+}
+
+export function buildReliabilityReport(
+  stations: ReliabilityStation[],
+  checkInsByStation: Map<string, number>,
+  items: ConflictItem[]
+): StationReliabilityRow[] {
+  return stations.map((station) => {
+    const mine = items.filter((i) => i.station_id === station.id)
+    const conflicts = mine.filter((i) => i.source === "device")
+    const checkIns = checkInsByStation.get(station.id) || 0
+    const byStatus = (status: ConflictStatus) => mine.filter((i) => i.status === status).length
+    return {
+      station_id: station.id,
+      station_name: station.name,
+      app_version: station.app_version,
+      last_heartbeat: station.telemetry_at,
+      unsynced_at_last_heartbeat: station.pending_scans,
+      check_ins: checkIns,
+      // Every server-side duplicate attributed to this station, whether or
+      // not the tablet also reported it as a conflict.
+      duplicates: mine.filter((i) => i.server.decided_at !== null).length,
+      conflicts: conflicts.length,
+      open: byStatus("open"),
+      accepted: byStatus("accepted"),
+      voided: byStatus("voided"),
+      merged: byStatus("merged"),
+      conflict_rate: checkIns > 0 ? Math.round((conflicts.length / checkIns) * 1000) / 10 : null,
+    }
+  })
+}
+
+export const RELIABILITY_CSV_HEADERS = [
+  "Station",
+  "App Version",
+  "Last Heartbeat",
+  "Unsynced At Last Heartbeat",
+  "Check-ins",
+  "Server Duplicates",
+  "Device Conflicts",
+  "Conflicts per 100 Check-ins",
+  "Open",
+  "Accepted",
+  "Voided",
+  "Merged",
+]
+
+export function reliabilityCsvRows(rows: StationReliabilityRow[]): (string | number | null)[][] {
+  return rows.map((r) => [
+    r.station_name,
+    r.app_version,
+    r.last_heartbeat,
+    r.unsynced_at_last_heartbeat,
+    r.check_ins,
+    r.duplicates,
+    r.conflicts,
+    r.conflict_rate,
+    r.open,
+    r.accepted,
+    r.voided,
+    r.merged,
+  ])
+}
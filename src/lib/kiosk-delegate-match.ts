@@ -6,6 +6,9 @@
 // The server's .or() query has no deterministic field-priority tie-break;
 // this version does, intentionally: an exact identifier (registration
 // number) should never lose to a coincidental name/phone substring match.
+
+import type { BadgeAudience } from "./badge-conditions"
+
 export interface CachedDelegate {
   id: string
   registration_number: string
@@ -14,6 +17,14 @@ export interface CachedDelegate {
   attendee_phone: string | null
   attendee_designation: string | null
   attendee_institution: string | null
+  // Only sent for a list with per-day entitlement rules (see
+  // src/lib/checkin-entitlements.ts) -- what the rules look at.
+  ticket_type_id?: string | null
+  addon_ids?: string[]
+  meal_plan_ids?: string[]
+  // Only sent to a printing station whose badge template has conditional
+  // elements (see src/lib/badge-conditions.ts) -- what the conditions look at.
+  badge_audience?: BadgeAudience | null
 }
 
 function includesTerm(value: string | null | undefined, term: string): boolean {
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest"
+import {
+  fleetMajorityVersion,
+  fleetWarnings,
+  formatAge,
+  isCommandExpired,
+  parseAcks,
+  parseTelemetry,
+  validateKioskCommand,
+  type FleetStationTelemetry,
+} from "./kiosk-fleet"
+
+const NOON = new Date("2026-10-19T12:00:00.000Z")
+const LIST_A = "22222222-2222-2222-2222-222222222222"
+const LIST_B = "33333333-3333-3333-3333-333333333333"
+
+function station(overrides: Partial<FleetStationTelemetry> = {}): FleetStationTelemetry {
+  return {
+    revoked_at: null,
+    telemetry_at: "2026-10-19T11:59:30.000Z",
+    app_version: "abc1234",
+    cache_updated_at: "2026-10-19T11:55:00.000Z",
+    pending_scans: 0,
+    conflict_scans: 0,
+    battery_level: 0.8,
+    battery_charging: false,
+    ...overrides,
+  }
+}
+
+describe("validateKioskCommand", () => {
+  it("rejects an unknown command", () => {
+    expect(validateKioskCommand("format_disk", {}, [LIST_A])).toEqual({ ok: false, error: "Unknown command." })
+  })
+
+  it("drops any payload on commands that don't take one", () => {
+    expect(validateKioskCommand("reload", { list_id: LIST_A }, [LIST_A])).toEqual({ ok: true, payload: {} })
+  })
+
+  it("requires switch_list to name a list", () => {
+    expect(validateKioskCommand("switch_list", {}, [LIST_A]).ok).toBe(false)
+    expect(validateKioskCommand("switch_list", null, [LIST_A]).ok).toBe(false)
+  })
+
+  it("only allows switching to a list the station serves", () => {
+    expect(validateKioskCommand("switch_list", { list_id: LIST_B }, [LIST_A])).toEqual({
+      ok: false,
+      error: "That list isn't assigned to this station.",
+    })
+    expect(validateKioskCommand("switch_list", { list_id: LIST_A }, [LIST_A, LIST_B])).toEqual({
+      ok: true,
+      payload: { list_id: LIST_A },
+    })
+  })
+})
+
+describe("isCommandExpired", () => {
+  it("expires commands left undelivered for more than 30 minutes", () => {
+    expect(isCommandExpired("2026-10-19T11:31:00.000Z", NOON)).toBe(false)
+    expect(isCommandExpired("2026-10-19T11:29:00.000Z", NOON)).toBe(true)
+  })
+})
+
+describe("parseTelemetry", () => {
+  it("normalises a well-formed report", () => {
+    expect(parseTelemetry({
+      app_version: " abc1234 ",
+      device_id: "dev-1",
+      cache_updated_at: NOON.getTime(),
+      pending_scans: 3,
+      conflict_scans: 1,
+      battery_level: 0.4567,
+      battery_charging: true,
+      current_list_id: LIST_A,
+    })).toEqual({
+      app_version: "abc1234",
+      device_id: "dev-1",
+      cache_updated_at: NOON.toISOString(),
+      pending_scans: 3,
+      conflict_scans: 1,
+      battery_level: 0.457,
+      battery_charging: true,
+      current_list_id: LIST_A,
+    })
+  })
+
+  it("nulls out malformed fields instead of rejecting the heartbeat", () => {
+    const t = parseTelemetry({ pending_scans: -2, battery_level: 7, cache_updated_at: "not a date", battery_charging: "yes" })
+    expect(t.pending_scans).toBeNull()
+    expect(t.battery_level).toBeNull()
+    expect(t.cache_updated_at).toBeNull()
+    expect(t.battery_charging).toBeNull()
+  })
+
+  it("accepts no telemetry at all", () => {
+    expect(parseTelemetry(undefined).app_version).toBeNull()
+  })
+})
+
+describe("parseAcks", () => {
+  it("keeps only well-formed acks and caps result length", () => {
+    const acks = parseAcks([
+      { id: "c1", status: "acked" },
+      { id: "c2", status: "failed", result: "x".repeat(500) },
+      { id: "c3", status: "delivered" },
+      { status: "acked" },
+    ])
+    expect(acks.map((a) => a.id)).toEqual(["c1", "c2"])
+    expect(acks[1].result).toHaveLength(300)
+  })
+
+  it("treats a non-array as no acks", () => {
+    expect(parseAcks({ id: "c1" })).toEqual([])
+  })
+})
+
+describe("fleetMajorityVersion", () => {
+  it("picks the build most live stations run, ignoring revoked ones", () => {
+    expect(fleetMajorityVersion([
+      { app_version: "old", revoked_at: null },
+      { app_version: "new", revoked_at: null },
+      { app_version: "new", revoked_at: null },
+      { app_version: "old", revoked_at: "2026-10-01T00:00:00Z" },
+      { app_version: "old", revoked_at: "2026-10-01T00:00:00Z" },
+    ])).toBe("new")
+  })
+
+  it("returns null when no station has reported a version", () => {
+    expect(fleetMajorityVersion([{ app_version: null, revoked_at: null }])).toBeNull()
+  })
+})
+
+describe("fleetWarnings", () => {
+  it("has nothing to say about a healthy station", () => {
+    expect(fleetWarnings(station(), { majorityVersion: "abc1234", now: NOON })).toEqual([])
+  })
+
+  it("has nothing to say about a station that has never sent a heartbeat", () => {
+    expect(fleetWarnings(station({ telemetry_at: null, pending_scans: 9 }), { now: NOON })).toEqual([])
+  })
+
+  it("flags unsynced scans, conflicts, stale cache, low battery and an outdated build", () => {
+    const kinds = fleetWarnings(
+      station({
+        pending_scans: 4,
+        conflict_scans: 1,
+        cache_updated_at: "2026-10-19T08:00:00.000Z",
+        battery_level: 0.12,
+        app_version: "old1234",
+      }),
+      { majorityVersion: "abc1234", now: NOON }
+    ).map((w) => w.kind)
+    expect(kinds).toEqual(["unsynced", "conflicts", "stale_cache", "low_battery", "outdated"])
+  })
+
+  it("doesn't flag a low battery that's charging", () => {
+    expect(fleetWarnings(station({ battery_level: 0.05, battery_charging: true }), { now: NOON })).toEqual([])
+  })
+
+  it("flags a station with no roster cached at all", () => {
+    expect(fleetWarnings(station({ cache_updated_at: null }), { now: NOON })).toEqual([
+      { kind: "stale_cache", label: "No roster cached" },
+    ])
+  })
+})
+
+describe("formatAge", () => {
+  it("formats minutes, hours and days", () => {
+    expect(formatAge(null, NOON)).toBe("never")
+    expect(formatAge("2026-10-19T11:59:40.000Z", NOON)).toBe("just now")
+    expect(formatAge("2026-10-19T11:48:00.000Z", NOON)).toBe("12m ago")
+    expect(formatAge("2026-10-19T09:00:00.000Z", NOON)).toBe("3h ago")
+    expect(formatAge("2026-10-17T12:00:00.000Z", NOON)).toBe("2d ago")
+  })
+})
@@ -0,0 +1,219 @@
+// Pure helpers for the kiosk fleet console: the remote-command vocabulary
+// an admin can queue for a tablet, validation of those commands and of the
+// telemetry a tablet reports on each heartbeat, and the per-station
+// warnings the fleet view highlights. The heartbeat route, the admin
+// command route, KioskStationShell and the fleet page all share these, so
+// the device and the console can never disagree about what a command means.
+
+export const KIOSK_COMMANDS = [
+  "refresh_manifest",
+  "clear_cache",
+  "force_sync",
+  "reload",
+  "lock_screen",
+  "unlock_screen",
+  "switch_list",
+] as const
+
+export type KioskCommand = (typeof KIOSK_COMMANDS)[number]
+
+export const KIOSK_COMMAND_LABELS: Record<KioskCommand, string> = {
+  refresh_manifest: "Refresh lists",
+  clear_cache: "Clear cache",
+  force_sync: "Force sync",
+  reload: "Reload app",
+  lock_screen: "Lock screen",
+  unlock_screen: "Unlock screen",
+  switch_list: "Switch list",
+}
+
+export type KioskCommandStatus = "pending" | "delivered" | "acked" | "failed" | "expired"
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000
+
+// A command still undelivered after this long is dropped rather than
+// delivered late: "reload" or "switch list" queued for a tablet that was
+// switched off overnight must not fire the moment it's powered on at the
+// next morning's registration desk.
+export const COMMAND_TTL_MS = 30 * 60 * 1000
+
+// The device can't report back on a reload -- the page it would report from
+// is gone. Its next heartbeat (from the freshly loaded app) is the only
+// confirmation there is, so delivery counts as done.
+export const ACKED_ON_DELIVERY: readonly KioskCommand[] = ["reload"]
+
+// Build identifier the tablet reports. Vercel exposes the deploy's commit
+// to client bundles; anything else (local dev, a self-hosted build) shows
+// up as "dev" so it's still obviously distinct from a real deploy.
+export const KIOSK_APP_VERSION = (process.env.NEXT_PUBLIC_VERCEL_GIT_COMMIT_SHA || "").slice(0, 7) || "dev"
+
+export function isKioskCommand(value: unknown): value is KioskCommand {
+  return typeof value === "string" && (KIOSK_COMMANDS as readonly string[]).includes(value)
+}
+
+export type KioskCommandValidation =
+  | { ok: true; payload: Record<string, unknown> }
+  | { ok: false; error: string }
+
+// Only switch_list carries a payload, and its target must be one of the
+// lists already assigned to this station -- the device would refuse any
+// other list anyway (it only ever renders its own manifest), so catching it
+// here gives the admin the error instead of a silent "failed" later.
+export function validateKioskCommand(
+  command: unknown,
+  payload: unknown,
+  stationListIds: string[]
+): KioskCommandValidation {
+  if (!isKioskCommand(command)) return { ok: false, error: "Unknown command." }
+  if (command !== "switch_list") return { ok: true, payload: {} }
+
+  const listId = (payload as { list_id?: unknown } | null)?.list_id
+  if (typeof listId !== "string" || !listId) {
+    return { ok: false, error: "Pick the list to switch to." }
+  }
+  if (!stationListIds.includes(listId)) {
+    return { ok: false, error: "That list isn't assigned to this station." }
+  }
+  return { ok: true, payload: { list_id: listId } }
+}
+
+export function isCommandExpired(createdAt: string, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(createdAt).getTime() > COMMAND_TTL_MS
+}
+
+export interface KioskTelemetry {
+  app_version: string | null
+  device_id: string | null
+  cache_updated_at: string | null
+  pending_scans: number | null
+  conflict_scans: number | null
+  battery_level: number | null
+  battery_charging: boolean | null
+  current_list_id: string | null
+}
+
+function shortString(value: unknown, max: number): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, max) : null
+}
+
+function count(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : null
+}
+
+// The body comes from a device, not a trusted client -- anything malformed
+// is dropped to null rather than rejecting the whole heartbeat, since the
+// heartbeat's main job (delivering commands) shouldn't depend on, say, an
+// odd battery reading.
+export function parseTelemetry(raw: unknown): KioskTelemetry {
+  const t = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>
+  const cacheAt = typeof t.cache_updated_at === "number" || typeof t.cache_updated_at === "string"
+    ? new Date(t.cache_updated_at)
+    : null
+  const battery = typeof t.battery_level === "number" && t.battery_level >= 0 && t.battery_level <= 1
+    ? Math.round(t.battery_level * 1000) / 1000
+    : null
+  return {
+    app_version: shortString(t.app_version, 40),
+    device_id: shortString(t.device_id, 64),
+    cache_updated_at: cacheAt && !isNaN(cacheAt.getTime()) ? cacheAt.toISOString() : null,
+    pending_scans: count(t.pending_scans),
+    conflict_scans: count(t.conflict_scans),
+    battery_level: battery,
+    battery_charging: typeof t.battery_charging === "boolean" ? t.battery_charging : null,
+    current_list_id: shortString(t.current_list_id, 36),
+  }
+}
+
+export interface KioskCommandAck {
+  id: string
+  status: "acked" | "failed"
+  result?: string
+}
+
+export function parseAcks(raw: unknown): KioskCommandAck[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter((a) => a && typeof a.id === "string" && (a.status === "acked" || a.status === "failed"))
+    .map((a) => ({
+      id: a.id as string,
+      status: a.status as KioskCommandAck["status"],
+      ...(typeof a.result === "string" && { result: a.result.slice(0, 300) }),
+    }))
+}
+
+// --- Fleet view ------------------------------------------------------------
+
+export interface FleetStationTelemetry {
+  revoked_at: string | null
+  telemetry_at: string | null
+  app_version: string | null
+  cache_updated_at: string | null
+  pending_scans: number | null
+  conflict_scans: number | null
+  battery_level: number | null
+  battery_charging: boolean | null
+}
+
+export type FleetWarningKind = "stale_cache" | "unsynced" | "conflicts" | "low_battery" | "outdated"
+
+export interface FleetWarning {
+  kind: FleetWarningKind
+  label: string
+}
+
+const STALE_CACHE_MS = 2 * 60 * 60 * 1000 // roster refreshes every 5 min while online
+const LOW_BATTERY = 0.2
+
+// The build most of the fleet is running. Stations on anything else are the
+// ones that missed a deploy (usually a PWA that hasn't been reloaded since).
+// Ties go to the lexically greater version so the answer is stable.
+export function fleetMajorityVersion(stations: Pick<FleetStationTelemetry, "app_version" | "revoked_at">[]): string | null {
+  const counts = new Map<string, number>()
+  for (const s of stations) {
+    if (s.revoked_at || !s.app_version) continue
+    counts.set(s.app_version, (counts.get(s.app_version) || 0) + 1)
+  }
+  let best: string | null = null
+  for (const [version, n] of counts) {
+    const bestCount = best ? counts.get(best)! : 0
+    if (n > bestCount || (n === bestCount && best !== null && version > best)) best = version
+  }
+  return best
+}
+
+export function fleetWarnings(
+  station: FleetStationTelemetry,
+  options: { majorityVersion?: string | null; now?: Date } = {}
+): FleetWarning[] {
+  if (station.revoked_at || !station.telemetry_at) return []
+  const now = options.now ?? new Date()
+  const warnings: FleetWarning[] = []
+
+  if (station.pending_scans && station.pending_scans > 0) {
+    warnings.push({ kind: "unsynced", label: `${station.pending_scans} unsynced scan${station.pending_scans === 1 ? "" : "s"}` })
+  }
+  if (station.conflict_scans && station.conflict_scans > 0) {
+    warnings.push({ kind: "conflicts", label: `${station.conflict_scans} conflict${station.conflict_scans === 1 ? "" : "s"}` })
+  }
+  if (!station.cache_updated_at || now.getTime() - new Date(station.cache_updated_at).getTime() > STALE_CACHE_MS) {
+    warnings.push({ kind: "stale_cache", label: station.cache_updated_at ? "Roster cache is stale" : "No roster cached" })
+  }
+  if (station.battery_level !== null && station.battery_level < LOW_BATTERY && station.battery_charging !== true) {
+    warnings.push({ kind: "low_battery", label: `Battery ${Math.round(station.battery_level * 100)}%` })
+  }
+  if (options.majorityVersion && station.app_version && station.app_version !== options.majorityVersion) {
+    warnings.push({ kind: "outdated", label: `Running ${station.app_version}` })
+  }
+  return warnings
+}
+
+export function formatAge(since: string | number | null, now: Date = new Date()): string {
+  if (since === null) return "never"
+  const ms = now.getTime() - new Date(since).getTime()
+  if (ms < 60 * 1000) return "just now"
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.floor(hours / 24)}d ago`
+}
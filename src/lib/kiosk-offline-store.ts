@@ -14,6 +14,9 @@
 import { openDB, type IDBPDatabase } from "idb"
 import * as Sentry from "@sentry/nextjs"
 import type { CachedDelegate } from "./kiosk-delegate-match"
+import type { KioskEntitlements } from "./checkin-entitlements"
+import type { KioskRelayConfig, PeerStatusEntry } from "./kiosk-relay"
+import type { DoorDirection } from "./session-attendance"
 
 export type { CachedDelegate }
 
@@ -40,13 +43,26 @@ export interface ScanLogEntry {
   list_id: string
   delegate_code: string
   scanned_at: number
-  status: "pending" | "synced" | "conflict"
+  // "exit" is a hall exit-door scan (see `door` below): never a check-in,
+  // so the sync worker never sees it -- it only goes to the session
+  // attendance upload.
+  status: "pending" | "synced" | "conflict" | "exit"
   registration_id: string
   registration_snapshot: CachedDelegate
   attempts: number
   last_attempt_at?: number
   last_error?: string
   server_response?: unknown
+  // Set once a "conflict" entry has been uploaded to /api/kiosk/conflicts for
+  // the admin conflicts console. Entries from before that route existed
+  // simply have it unset and get uploaded on the next heartbeat.
+  reported_at?: number
+  // Set on scans of a session-purpose list at a hall door -- "in" from an
+  // entry tablet (a normal check-in as well), "out" from an exit tablet --
+  // and `door_reported_at` once /api/kiosk/session-scans has it. Unset on
+  // every other scan.
+  door?: DoorDirection
+  door_reported_at?: number
 }
 
 export interface CachedPrintTemplate {
@@ -104,6 +120,13 @@ export interface StationManifest {
   // the same rule instead of offering a tile that will only fail on submit.
   attended: boolean
   lists: StationManifestList[]
+  // The event's venue-LAN relay (kiosk-relay.ts), or null/absent when none
+  // is configured -- absent on manifests cached before the relay existed.
+  relay?: KioskRelayConfig | null
+  // kiosk_stations.door_direction -- only matters on session-purpose lists.
+  // Absent on manifests cached before hall-door scanning existed, which
+  // means "entry", the column's default.
+  door_direction?: "entry" | "exit"
 }
 
 export interface CachedStationName {
@@ -311,6 +334,45 @@ export async function getCollectedStatus(listId: string): Promise<CachedCollecte
   return JSON.parse(row.value as string) as CachedCollectedEntry[]
 }
 
+// --- LAN relay (see kiosk-relay.ts) -----------------------------------------
+// Same JSON-blob-in-meta approach: one peer-status blob per list (what other
+// tablets reported through the relay), and one relay_state row holding this
+// device's push watermark and pull cursor for the relay it last talked to.
+
+export async function cachePeerStatus(listId: string, entries: PeerStatusEntry[]): Promise<void> {
+  const db = await getDb()
+  await db.put(META_STORE, { key: `peer_status:${listId}`, value: JSON.stringify(entries) } satisfies MetaRow)
+}
+
+export async function getPeerStatus(listId: string): Promise<PeerStatusEntry[]> {
+  const db = await getDb()
+  const row = (await db.get(META_STORE, `peer_status:${listId}`)) as MetaRow | undefined
+  if (!row) return []
+  return JSON.parse(row.value as string) as PeerStatusEntry[]
+}
+
+export interface RelayState {
+  url: string
+  // scanned_at/printed_at of the newest own record the relay acknowledged
+  pushed_until: number
+  // the relay's seq of the newest record pulled
+  cursor: number
+  // the relay's log identity; a change means it started over
+  log_id: string | null
+}
+
+export async function setRelayState(state: RelayState): Promise<void> {
+  const db = await getDb()
+  await db.put(META_STORE, { key: "relay_state", value: JSON.stringify(state) } satisfies MetaRow)
+}
+
+export async function getRelayState(): Promise<RelayState | null> {
+  const db = await getDb()
+  const row = (await db.get(META_STORE, "relay_state")) as MetaRow | undefined
+  if (!row) return null
+  return JSON.parse(row.value as string) as RelayState
+}
+
 // --- List purpose/blocked cache (offline cold-start support) ---------------
 // One new META_STORE key per list, no VERSION bump -- same JSON-blob-in-meta
 // approach as the station manifest/names/collected-status caches above.
@@ -326,6 +388,8 @@ export interface CachedListPurpose {
   list_purpose: string
   blocked: boolean
   name?: string
+  // The list's per-day entitlement rules and daily limit, when it has any.
+  entitlements?: KioskEntitlements | null
 }
 
 export async function cacheListPurpose(listId: string, info: CachedListPurpose): Promise<void> {
@@ -357,6 +421,67 @@ export async function getPendingScanCount(listId: string): Promise<number> {
   return (await getPendingScans(listId)).length
 }
 
+// Scans the server answered differently from what the tablet showed (see
+// kiosk-sync-worker.ts's module comment) -- reported on each fleet
+// heartbeat so an admin can spot a device that keeps disagreeing.
+export async function getConflictScanCount(listId: string): Promise<number> {
+  const db = await getDb()
+  const rows = (await db.getAllFromIndex(SCAN_STORE, "by_status", "conflict")) as ScanLogEntry[]
+  return rows.filter((r) => r.list_id === listId).length
+}
+
+// Conflict entries the admin console hasn't received yet, oldest first --
+// across every list, since the upload is per-device, not per-list.
+export async function getUnreportedConflicts(limit: number): Promise<ScanLogEntry[]> {
+  const db = await getDb()
+  const rows = (await db.getAllFromIndex(SCAN_STORE, "by_status", "conflict")) as ScanLogEntry[]
+  return rows
+    .filter((r) => r.reported_at === undefined)
+    .sort((a, b) => a.scanned_at - b.scanned_at)
+    .slice(0, limit)
+}
+
+export async function markConflictsReported(scanIds: string[], now: number = Date.now()): Promise<void> {
+  const db = await getDb()
+  for (const scanId of scanIds) {
+    const entry = (await db.get(SCAN_STORE, scanId)) as ScanLogEntry | undefined
+    if (!entry || entry.status !== "conflict") continue
+    await db.put(SCAN_STORE, { ...entry, reported_at: now } satisfies ScanLogEntry)
+  }
+}
+
+// --- Hall-door scans (session attendance) ----------------------------------
+
+// An exit-door scan: recorded for the attendance upload only, never queued
+// as a check-in.
+export async function recordExitScan(
+  entry: Omit<ScanLogEntry, "status" | "attempts" | "door">
+): Promise<void> {
+  const db = await getDb()
+  await db.put(SCAN_STORE, { ...entry, status: "exit", attempts: 0, door: "out" } satisfies ScanLogEntry)
+}
+
+// Door scans /api/kiosk/session-scans hasn't acknowledged yet, oldest first.
+// An entry scan goes whatever its check-in sync state: the time the delegate
+// walked in is true even if the server later calls it a repeat.
+export async function getUnreportedDoorScans(limit: number): Promise<ScanLogEntry[]> {
+  const db = await getDb()
+  const rows = (await db.getAll(SCAN_STORE)) as ScanLogEntry[]
+  return rows
+    .filter((r) => r.door !== undefined && r.door_reported_at === undefined)
+    .sort((a, b) => a.scanned_at - b.scanned_at)
+    .slice(0, limit)
+}
+
+export async function markDoorScansReported(scanIds: string[], now: number = Date.now()): Promise<void> {
+  const db = await getDb()
+  for (const scanId of scanIds) {
+    const entry = (await db.get(SCAN_STORE, scanId)) as ScanLogEntry | undefined
+    if (!entry || entry.door === undefined) continue
+    await db.put(SCAN_STORE, { ...entry, door_reported_at: now } satisfies ScanLogEntry)
+  }
+}
+
 // Every prior scan of this exact registration on this exact list, from THIS
 // device, regardless of sync outcome (pending, synced, or conflict all
 // count -- if this tablet has recorded a scan for this person on this list
@@ -422,6 +547,21 @@ export async function getLastPrintForRegistration(listId: string, registrationId
   return rows.reduce((latest, row) => (row.printed_at > latest.printed_at ? row : latest))
 }
 
+// Every check-in scan this device made after `since` (ms), whatever its
+// sync state -- the relay cares that the scan happened, not whether the
+// server has it yet. Exit-door scans aren't check-ins and stay out.
+export async function getScansSince(since: number): Promise<ScanLogEntry[]> {
+  const db = await getDb()
+  const rows = (await db.getAll(SCAN_STORE)) as ScanLogEntry[]
+  return rows.filter((r) => r.scanned_at > since && r.status !== "exit")
+}
+
+export async function getSuccessfulPrintsSince(since: number): Promise<PrintLogEntry[]> {
+  const db = await getDb()
+  const rows = (await db.getAll(PRINT_LOG_STORE)) as PrintLogEntry[]
+  return rows.filter((r) => r.status === "success" && r.printed_at > since)
+}
+
 export async function getPendingPrintSyncs(listId: string): Promise<PrintLogEntry[]> {
   const db = await getDb()
   const rows = (await db.getAllFromIndex(PRINT_LOG_STORE, "by_list", listId)) as PrintLogEntry[]
@@ -435,6 +575,37 @@ export async function markPrintSynced(printId: string): Promise<void> {
   await db.put(PRINT_LOG_STORE, { ...entry, synced: true })
 }
 
+// --- Remote "clear cache" ---------------------------------------------------
+//
+// The fleet console's clear_cache command. Drops everything this device
+// re-downloads on its own -- rosters, print templates, and the cached
+// manifest/station-name/collected/list-purpose/relay blobs in META_STORE --
+// so the next refresh rebuilds them from the server (or the relay's log). Never touches scan_log or
+// print_log: a pending scan is a check-in the server hasn't seen yet, and
+// the synced history is what same-tablet duplicate detection reads. The
+// device_id is kept too, so the tablet stays the same device in telemetry.
+const CLEARABLE_META_PREFIXES = [
+  "cache_updated_at:",
+  "station_manifest:",
+  "station_names:",
+  "collected_status:",
+  "list_purpose:",
+  "peer_status:",
+  "relay_state",
+]
+
+export async function clearCachedData(): Promise<void> {
+  const db = await getDb()
+  await db.clear(DELEGATE_STORE)
+  await db.clear(PRINT_TEMPLATE_STORE)
+  const keys = (await db.getAllKeys(META_STORE)) as string[]
+  for (const key of keys) {
+    if (CLEARABLE_META_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      await db.delete(META_STORE, key)
+    }
+  }
+}
+
 // --- Retention -------------------------------------------------------------
 //
 // A device reused across many events/lists over time never had anything
@@ -476,16 +647,20 @@ export async function pruneStaleData(now: number = Date.now()): Promise<void> {
 
   // Synced scan_log entries are already durably recorded server-side --
   // safe to drop locally once old. "pending"/"conflict" entries are never
-  // touched here regardless of age.
-  const scanTx = db.transaction(SCAN_STORE, "readwrite")
-  const scanIndex = scanTx.store.index("by_status")
-  let scanCursor = await scanIndex.openCursor(IDBKeyRange.only("synced"))
-  while (scanCursor) {
-    const entry = scanCursor.value as ScanLogEntry
-    if (entry.scanned_at < cutoff) await scanCursor.delete()
-    scanCursor = await scanCursor.continue()
+  // touched here regardless of age. Exit-door entries follow the same rule,
+  // and no door scan goes before the attendance upload has it.
+  for (const status of ["synced", "exit"] as const) {
+    const scanTx = db.transaction(SCAN_STORE, "readwrite")
+    const scanIndex = scanTx.store.index("by_status")
+    let scanCursor = await scanIndex.openCursor(IDBKeyRange.only(status))
+    while (scanCursor) {
+      const entry = scanCursor.value as ScanLogEntry
+      const doorPending = entry.door !== undefined && entry.door_reported_at === undefined
+      if (entry.scanned_at < cutoff && !doorPending) await scanCursor.delete()
+      scanCursor = await scanCursor.continue()
+    }
+    await scanTx.done
   }
-  await scanTx.done
 
   // Synced print_log entries -- same reasoning as scan_log above.
   const printRows = (await db.getAll(PRINT_LOG_STORE)) as PrintLogEntry[]
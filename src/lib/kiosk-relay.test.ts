@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest"
+import {
+  applyPeerRecords,
+  normalizeRelayUrl,
+  reconcilePeerStatus,
+  PEER_ENTRY_TTL_MS,
+  type PeerStatusEntry,
+  type RelayRecord,
+} from "./kiosk-relay"
+
+const LIST = "22222222-2222-2222-2222-222222222222"
+const OTHER_LIST = "66666666-6666-6666-6666-666666666666"
+const REG_A = "33333333-3333-3333-3333-333333333333"
+const REG_B = "44444444-4444-4444-4444-444444444444"
+const T0 = Date.parse("2026-10-19T10:00:00.000Z")
+
+function record(overrides: Partial<RelayRecord>): RelayRecord {
+  return {
+    id: crypto.randomUUID(),
+    kind: "scan",
+    list_id: LIST,
+    registration_id: REG_A,
+    at: T0,
+    device_id: "device-b",
+    station_name: "Desk 2",
+    ...overrides,
+  }
+}
+
+describe("normalizeRelayUrl", () => {
+  it("defaults to https and drops trailing slashes", () => {
+    expect(normalizeRelayUrl(" 192.168.1.20:3012/ ")).toBe("https://192.168.1.20:3012")
+    expect(normalizeRelayUrl("http://relay.local:3011")).toBe("http://relay.local:3011")
+  })
+
+  it("rejects empty input and other schemes", () => {
+    expect(normalizeRelayUrl("   ")).toBeNull()
+    expect(normalizeRelayUrl("ftp://192.168.1.20")).toBeNull()
+    expect(normalizeRelayUrl("https://")).toBeNull()
+  })
+})
+
+describe("applyPeerRecords", () => {
+  it("keeps the earliest check-in and print per registration", () => {
+    const out = applyPeerRecords(
+      [],
+      [
+        record({ at: T0 + 60_000, station_name: "Desk 3" }),
+        record({ at: T0, station_name: "Desk 2" }),
+        record({ kind: "print", at: T0 + 5_000, station_name: "Desk 2" }),
+      ],
+      LIST,
+      "device-a"
+    )
+    expect(out).toEqual([
+      {
+        registration_id: REG_A,
+        checked_in_at: new Date(T0).toISOString(),
+        checked_in_station: "Desk 2",
+        printed_at: new Date(T0 + 5_000).toISOString(),
+        printed_station: "Desk 2",
+      },
+    ])
+  })
+
+  it("skips this device's own records and other lists", () => {
+    const out = applyPeerRecords(
+      [],
+      [record({ device_id: "device-a" }), record({ list_id: OTHER_LIST, registration_id: REG_B })],
+      LIST,
+      "device-a"
+    )
+    expect(out).toEqual([])
+  })
+
+  it("merges into existing entries without mutating them", () => {
+    const existing: PeerStatusEntry[] = [
+      {
+        registration_id: REG_A,
+        checked_in_at: new Date(T0).toISOString(),
+        checked_in_station: "Desk 2",
+        printed_at: null,
+        printed_station: null,
+      },
+    ]
+    const out = applyPeerRecords(existing, [record({ kind: "print", at: T0 + 1_000, station_name: "Desk 4" })], LIST, "device-a")
+    expect(out[0].printed_station).toBe("Desk 4")
+    expect(existing[0].printed_at).toBeNull()
+  })
+})
+
+describe("reconcilePeerStatus", () => {
+  const entry = (overrides: Partial<PeerStatusEntry>): PeerStatusEntry => ({
+    registration_id: REG_A,
+    checked_in_at: new Date(T0).toISOString(),
+    checked_in_station: "Desk 2",
+    printed_at: null,
+    printed_station: null,
+    ...overrides,
+  })
+
+  it("drops peer check-ins the server already has but keeps peer prints", () => {
+    const out = reconcilePeerStatus(
+      [entry({ printed_at: new Date(T0).toISOString(), printed_station: "Desk 2" }), entry({ registration_id: REG_B })],
+      [{ registration_id: REG_A, checked_in_at: new Date(T0).toISOString(), station_id: null }],
+      T0 + 60_000
+    )
+    expect(out).toEqual([
+      entry({ checked_in_at: null, checked_in_station: null, printed_at: new Date(T0).toISOString(), printed_station: "Desk 2" }),
+      entry({ registration_id: REG_B }),
+    ])
+  })
+
+  it("ages entries out after the TTL", () => {
+    expect(reconcilePeerStatus([entry({})], [], T0 + PEER_ENTRY_TTL_MS + 1)).toEqual([])
+  })
+})
@@ -0,0 +1,234 @@
+// Tablet side of the optional venue-LAN relay (scripts/kiosk-relay.mjs).
+//
+// Without it every kiosk tablet is an island while the internet is down:
+// its scans sit in its own scan_log until /api/kiosk/checkin is reachable
+// again, so a delegate who collected their kit at station A still looks
+// uncollected at station B, and an auto-print station happily prints a
+// second badge for someone who already has one. The relay is a dumb,
+// append-only feed on the local network: each tablet pushes its own scans
+// and badge prints to it, and pulls everyone else's into a per-list
+// "peer status" cache in IndexedDB. KioskCheckinScreen consults that cache
+// exactly like the server's collected-status poll (Layer 2 duplicate
+// detection) and before auto-printing.
+//
+// The relay never talks to Supabase and is never an authority. Each tablet
+// still syncs its OWN scans through kiosk-sync-worker.ts, so attribution and
+// the server's duplicate handling are unchanged; a relay hit only makes a
+// tablet more cautious (turn away a repeat collection, skip an auto-print).
+// Reconciliation once the internet is back is therefore one-way: the
+// server's collected status supersedes whatever the relay said about
+// check-ins (reconcilePeerStatus), and peer entries age out after a day.
+
+import { fetchWithTimeout } from "./fetch-with-timeout"
+import {
+  cachePeerStatus,
+  getCollectedStatus,
+  getPeerStatus,
+  getRelayState,
+  getScansSince,
+  getSuccessfulPrintsSince,
+  setRelayState,
+  type CachedCollectedEntry,
+  type RelayState,
+} from "./kiosk-offline-store"
+
+export interface KioskRelayConfig {
+  url: string
+  key: string
+}
+
+export type RelayRecordKind = "scan" | "print"
+
+// One line of the relay's feed. `id` is the scan_id/print_id, so a re-push
+// after a lost response is a no-op on the relay.
+export interface RelayRecord {
+  id: string
+  kind: RelayRecordKind
+  list_id: string
+  registration_id: string
+  at: number
+  device_id: string
+  station_name: string
+}
+
+export interface PeerStatusEntry {
+  registration_id: string
+  checked_in_at: string | null
+  checked_in_station: string | null
+  printed_at: string | null
+  printed_station: string | null
+}
+
+// LAN round trips are fast; anything slower than this is a relay that
+// isn't there, and every pass runs on a timer anyway.
+export const RELAY_SYNC_INTERVAL_MS = 5000
+const RELAY_TIMEOUT_MS = 2000
+export const RELAY_PUSH_BATCH = 200
+export const PEER_ENTRY_TTL_MS = 24 * 60 * 60 * 1000
+
+// The relay's base URL as an admin would type it: host[:port], with or
+// without a scheme. Only http(s); trailing slashes dropped.
+export function normalizeRelayUrl(raw: string): string | null {
+  const trimmed = raw.trim()
+  if (!trimmed) return null
+  const withScheme = /^[a-z]+:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+  try {
+    const url = new URL(withScheme)
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, "")}`
+  } catch {
+    return null
+  }
+}
+
+// Folds relay records into a list's peer status. Earliest wins for both
+// the check-in and the print -- "already collected at 10:02 at Desk 3" should
+// name the first desk, not the latest repeat. Records from this device and
+// from other lists are skipped.
+export function applyPeerRecords(
+  current: PeerStatusEntry[],
+  records: RelayRecord[],
+  listId: string,
+  ownDeviceId: string
+): PeerStatusEntry[] {
+  const byRegistration = new Map(current.map((e) => [e.registration_id, { ...e }]))
+  for (const record of records) {
+    if (record.list_id !== listId || record.device_id === ownDeviceId) continue
+    const entry = byRegistration.get(record.registration_id) ?? {
+      registration_id: record.registration_id,
+      checked_in_at: null,
+      checked_in_station: null,
+      printed_at: null,
+      printed_station: null,
+    }
+    const at = new Date(record.at).toISOString()
+    if (record.kind === "scan" && (!entry.checked_in_at || at < entry.checked_in_at)) {
+      entry.checked_in_at = at
+      entry.checked_in_station = record.station_name
+    }
+    if (record.kind === "print" && (!entry.printed_at || at < entry.printed_at)) {
+      entry.printed_at = at
+      entry.printed_station = record.station_name
+    }
+    byRegistration.set(record.registration_id, entry)
+  }
+  return [...byRegistration.values()]
+}
+
+// Drops what the server now knows better: a peer check-in the server's
+// collected status already covers (it has the real time and station), and
+// anything older than PEER_ENTRY_TTL_MS. Peer prints stay until they age
+// out -- the server's collected status says nothing about prints.
+export function reconcilePeerStatus(
+  peer: PeerStatusEntry[],
+  serverCollected: CachedCollectedEntry[],
+  now: number = Date.now()
+): PeerStatusEntry[] {
+  const onServer = new Set(serverCollected.map((e) => e.registration_id))
+  const cutoff = new Date(now - PEER_ENTRY_TTL_MS).toISOString()
+  const out: PeerStatusEntry[] = []
+  for (const entry of peer) {
+    const next = { ...entry }
+    if (next.checked_in_at && (onServer.has(next.registration_id) || next.checked_in_at < cutoff)) {
+      next.checked_in_at = null
+      next.checked_in_station = null
+    }
+    if (next.printed_at && next.printed_at < cutoff) {
+      next.printed_at = null
+      next.printed_station = null
+    }
+    if (next.checked_in_at || next.printed_at) out.push(next)
+  }
+  return out
+}
+
+function relayHeaders(config: KioskRelayConfig): HeadersInit {
+  return { "Content-Type": "application/json", "X-Relay-Key": config.key }
+}
+
+/**
+ * One relay round: push this device's scans and successful prints since the
+ * last acknowledged push, pull every record since the last cursor, and fold
+ * them into each assigned list's peer status. Returns false when the relay
+ * couldn't be reached -- callers just try again next tick. Cursors only
+ * advance on success, so nothing is skipped across a failed pass.
+ */
+export async function syncWithRelay(
+  config: KioskRelayConfig,
+  eventId: string,
+  deviceId: string,
+  stationName: string,
+  listIds: string[]
+): Promise<boolean> {
+  const saved = await getRelayState()
+  // A different relay (or a relay restarted onto a fresh log) has its own
+  // sequence numbers -- start that one from scratch.
+  const state: RelayState =
+    saved && saved.url === config.url ? { ...saved } : { url: config.url, pushed_until: 0, cursor: 0, log_id: null }
+
+  const scans = await getScansSince(state.pushed_until)
+  const prints = await getSuccessfulPrintsSince(state.pushed_until)
+  const outgoing: RelayRecord[] = [
+    ...scans.map((s) => ({
+      id: s.scan_id,
+      kind: "scan" as const,
+      list_id: s.list_id,
+      registration_id: s.registration_id,
+      at: s.scanned_at,
+      device_id: deviceId,
+      station_name: stationName,
+    })),
+    ...prints.map((p) => ({
+      id: p.print_id,
+      kind: "print" as const,
+      list_id: p.list_id,
+      registration_id: p.registration_id,
+      at: p.printed_at,
+      device_id: deviceId,
+      station_name: stationName,
+    })),
+  ].sort((a, b) => a.at - b.at)
+  const batch = outgoing.slice(0, RELAY_PUSH_BATCH)
+
+  try {
+    if (batch.length > 0) {
+      const res = await fetchWithTimeout(
+        `${config.url}/records`,
+        { method: "POST", headers: relayHeaders(config), body: JSON.stringify({ event_id: eventId, records: batch }) },
+        RELAY_TIMEOUT_MS
+      )
+      if (!res.ok) return false
+      // A full batch may have cut between two records with the same
+      // timestamp; stop just short of it so the rest go next pass (the
+      // relay ignores the ones it already has).
+      const last = batch[batch.length - 1].at
+      state.pushed_until = outgoing.length > batch.length ? last - 1 : last
+    }
+
+    const res = await fetchWithTimeout(
+      `${config.url}/records?event_id=${encodeURIComponent(eventId)}&since=${state.cursor}`,
+      { headers: relayHeaders(config) },
+      RELAY_TIMEOUT_MS
+    )
+    if (!res.ok) return false
+    const data = (await res.json()) as { records: RelayRecord[]; seq: number; log_id: string }
+    // The relay's log was wiped (new log_id) -- re-read it from the top
+    // and re-push everything, since peers lost our records too.
+    if (state.log_id && state.log_id !== data.log_id) {
+      await setRelayState({ url: config.url, pushed_until: 0, cursor: 0, log_id: data.log_id })
+      return true
+    }
+
+    for (const listId of listIds) {
+      const [peer, serverCollected] = await Promise.all([getPeerStatus(listId), getCollectedStatus(listId)])
+      const merged = applyPeerRecords(peer, data.records, listId, deviceId)
+      await cachePeerStatus(listId, reconcilePeerStatus(merged, serverCollected))
+    }
+    await setRelayState({ ...state, cursor: data.seq, log_id: data.log_id })
+    return true
+  } catch {
+    // Relay unreachable (not on this network, not started, cert not yet
+    // trusted on this tablet) -- routine, retried next tick.
+    return false
+  }
+}
@@ -110,6 +110,9 @@ export async function drainScanQueue(
           registration_id: entry.registration_id,
           search: entry.delegate_code,
           scan_id: entry.scan_id,
+          // Per-day entitlement rules judge the scan by when it happened,
+          // not when this queue finally drained.
+          scanned_at: entry.scanned_at,
           ...(stationToken && { station_token: stationToken }),
           ...(token && { token }),
         }),
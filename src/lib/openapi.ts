@@ -0,0 +1,204 @@
+/**
+ * OpenAPI document for the public API (v1), served at /api/v1/openapi.json.
+ *
+ * Request and response bodies are converted from the zod schemas the routes
+ * themselves use (schemas.ts), so adding a field to a schema documents it.
+ */
+
+import { z } from "zod"
+import { API_MODULES, type ApiAccess, type ApiModule } from "@/lib/api-scopes"
+import {
+  apiCertificateSchema,
+  apiCheckinCreateSchema,
+  apiCheckinFilterSchema,
+  apiCheckinSchema,
+  apiListQuerySchema,
+  apiRegistrationCreateSchema,
+  apiRegistrationFilterSchema,
+  apiRegistrationSchema,
+  apiRegistrationUpdateSchema,
+  apiSessionSchema,
+} from "@/lib/schemas"
+
+type Method = "get" | "post" | "patch"
+
+interface Operation {
+  path: string
+  method: Method
+  summary: string
+  scope: [ApiModule, ApiAccess]
+  list?: boolean
+  filters?: z.ZodObject
+  body?: z.ZodType
+  response: z.ZodType
+  status?: number
+}
+
+const OPERATIONS: Operation[] = [
+  {
+    path: "/events/{eventId}/registrations",
+    method: "get",
+    summary: "List registrations",
+    scope: ["registrations", "read"],
+    list: true,
+    filters: apiRegistrationFilterSchema,
+    response: apiRegistrationSchema,
+  },
+  {
+    path: "/events/{eventId}/registrations",
+    method: "post",
+    summary: "Create a confirmed paid or complimentary registration (payment settled outside this system)",
+    scope: ["registrations", "write"],
+    body: apiRegistrationCreateSchema,
+    response: apiRegistrationSchema,
+    status: 201,
+  },
+  {
+    path: "/events/{eventId}/registrations/{registrationId}",
+    method: "get",
+    summary: "Get a registration",
+    scope: ["registrations", "read"],
+    response: apiRegistrationSchema,
+  },
+  {
+    path: "/events/{eventId}/registrations/{registrationId}",
+    method: "patch",
+    summary: "Update attendee details",
+    scope: ["registrations", "write"],
+    body: apiRegistrationUpdateSchema,
+    response: apiRegistrationSchema,
+  },
+  {
+    path: "/events/{eventId}/sessions",
+    method: "get",
+    summary: "List programme sessions",
+    scope: ["program", "read"],
+    list: true,
+    response: apiSessionSchema,
+  },
+  {
+    path: "/events/{eventId}/checkins",
+    method: "get",
+    summary: "List check-in records",
+    scope: ["checkin", "read"],
+    list: true,
+    filters: apiCheckinFilterSchema,
+    response: apiCheckinSchema,
+  },
+  {
+    path: "/events/{eventId}/checkins",
+    method: "post",
+    summary: "Check a registration in to, or out of, a check-in list",
+    scope: ["checkin", "write"],
+    body: apiCheckinCreateSchema,
+    response: apiCheckinSchema,
+  },
+  {
+    path: "/events/{eventId}/certificates",
+    method: "get",
+    summary: "List issued certificates",
+    scope: ["certificates", "read"],
+    list: true,
+    response: apiCertificateSchema,
+  },
+]
+
+function toSchema(schema: z.ZodType, io: "input" | "output") {
+  return z.toJSONSchema(schema, { target: "openapi-3.0", io, unrepresentable: "any" }) as Record<string, unknown>
+}
+
+const ERROR_RESPONSE = {
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        properties: { error: { type: "string" }, details: { type: "object", additionalProperties: { type: "string" } } },
+        required: ["error"],
+      },
+    },
+  },
+}
+
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string", format: "uuid" },
+  }))
+}
+
+function queryParameters(schema: z.ZodObject) {
+  const query = toSchema(schema, "input") as { properties: Record<string, Record<string, unknown>> }
+  return Object.entries(query.properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: false,
+    description: property.description,
+    schema: property,
+  }))
+}
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {}
+
+  for (const op of OPERATIONS) {
+    const [module, access] = op.scope
+    const item = toSchema(op.response, "output")
+    const data = op.list
+      ? {
+          type: "object",
+          properties: {
+            data: { type: "array", items: item },
+            next_cursor: { type: "string", nullable: true },
+          },
+          required: ["data", "next_cursor"],
+        }
+      : { type: "object", properties: { data: item }, required: ["data"] }
+
+    paths[op.path] ??= {}
+    paths[op.path][op.method] = {
+      summary: op.summary,
+      tags: [API_MODULES[module].label],
+      description: `Requires the \`${module}:${access}\` scope.`,
+      parameters: [
+        ...pathParameters(op.path),
+        ...(op.list ? queryParameters(apiListQuerySchema) : []),
+        ...(op.filters ? queryParameters(op.filters) : []),
+      ],
+      ...(op.body && {
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: toSchema(op.body, "input") } },
+        },
+      }),
+      responses: {
+        [String(op.status || 200)]: { description: "OK", content: { "application/json": { schema: data } } },
+        "400": { description: "Invalid request", ...ERROR_RESPONSE },
+        "401": { description: "Missing, invalid, revoked or expired API key", ...ERROR_RESPONSE },
+        "403": { description: "Key is for another event or lacks the scope", ...ERROR_RESPONSE },
+        "429": { description: "Rate limit exceeded; see Retry-After", ...ERROR_RESPONSE },
+      },
+    }
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Events API",
+      version: "1.0.0",
+      description:
+        "Read and write access to one event's registrations, sessions, check-ins and certificates. " +
+        "Keys are created per event under Settings → Integrations. Lists are cursor-paginated: pass " +
+        "next_cursor back as ?cursor= until it is null. Every response carries RateLimit-* headers.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    components: {
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer", description: "Authorization: Bearer evk_..." },
+      },
+    },
+    paths,
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest"
+import {
+  agendaCalendarEntries,
+  clashesWith,
+  findAgendaClashes,
+  planHallDemand,
+  type AgendaSession,
+  type DemandSession,
+} from "./personal-agenda"
+
+const session = (id: string, start: string, end: string, over: Partial<AgendaSession> = {}): AgendaSession => ({
+  id,
+  session_name: id.toUpperCase(),
+  session_date: "2026-08-27",
+  start_time: start,
+  end_time: end,
+  hall: "Hall A",
+  ...over,
+})
+
+describe("findAgendaClashes", () => {
+  it("pairs bookmarked sessions that overlap, ignoring back-to-back and cancelled ones", () => {
+    const clashes = findAgendaClashes([
+      session("b", "09:30:00", "10:30:00", { hall: "Hall B" }),
+      session("a", "09:00:00", "10:00:00"),
+      session("c", "10:30:00", "11:00:00"),
+      session("d", "09:00:00", "09:45:00", { status: "cancelled" }),
+      session("e", "09:00:00", "10:00:00", { session_date: "2026-08-28" }),
+    ])
+    expect(clashes).toEqual([
+      { session_ids: ["a", "b"], message: '"A" (Hall A) and "B" (Hall B) run at the same time' },
+    ])
+  })
+})
+
+describe("clashesWith", () => {
+  it("names the bookmarks a new one would clash with", () => {
+    const bookmarked = [session("a", "09:00", "10:00"), session("b", "10:00", "11:00")]
+    expect(clashesWith(session("x", "09:45", "10:15"), bookmarked).map((s) => s.id)).toEqual(["a", "b"])
+    expect(clashesWith(session("a", "09:00", "10:00"), bookmarked)).toEqual([])
+  })
+})
+
+describe("agendaCalendarEntries", () => {
+  it("uses the stable session UID and publication sequence, in event-local time", () => {
+    const [entry, cancelled] = agendaCalendarEntries(
+      [session("b", "11:00:00", "12:00:00", { status: "cancelled" }), session("a", "09:00:00", "10:00:00"), session("tba", "", "")],
+      3,
+      "Asia/Kolkata",
+      "AMASICON 2026"
+    )
+    expect(entry).toMatchObject({ uid: "session-a", sequence: 3, title: "A", location: "Hall A", cancelled: false })
+    expect(entry.startDate.toISOString()).toBe("2026-08-27T03:30:00.000Z")
+    expect(entry.endDate.toISOString()).toBe("2026-08-27T04:30:00.000Z")
+    expect(cancelled).toMatchObject({ uid: "session-b", cancelled: true })
+  })
+})
+
+describe("planHallDemand", () => {
+  const halls = [
+    { id: "h-small", name: "Seminar Room", capacity: 60, parent_id: null },
+    { id: "h-big", name: "Main Hall", capacity: 400, parent_id: null },
+    { id: "h-mid", name: "Hall B", capacity: 150, parent_id: null },
+    { id: "h-screen", name: "Hall B Screen 2", capacity: 80, parent_id: "h-mid" },
+    { id: "h-unknown", name: "Lawn", capacity: null, parent_id: null },
+  ]
+  const demand = (id: string, hall_id: string | null, bookmarks: number, over: Partial<DemandSession> = {}): DemandSession => ({
+    ...session(id, "09:00", "10:00"),
+    hall_id,
+    bookmarks,
+    ...over,
+  })
+
+  it("flags sessions that outgrow their hall and suggests the smallest room that fits", () => {
+    const rows = planHallDemand(
+      [
+        demand("fits", "h-big", 120),
+        demand("over", "h-small", 70),
+        demand("tight", "h-mid", 140),
+        demand("no-hall", null, 10),
+        demand("lawn", "h-unknown", 0),
+        demand("dropped", "h-small", 500, { status: "cancelled" }),
+      ],
+      halls
+    )
+    expect(rows.map((r) => [r.id, r.fit, r.suggested_hall?.name ?? null])).toEqual([
+      ["tight", "tight", null],
+      ["fits", "ok", null],
+      ["over", "over", "Hall B"],
+      ["no-hall", "unknown", "Seminar Room"],
+      ["lawn", "unknown", null],
+    ])
+    expect(rows.find((r) => r.id === "over")).toMatchObject({ capacity: 60, bookmarks: 70 })
+  })
+})
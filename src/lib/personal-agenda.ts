@@ -0,0 +1,145 @@
+// A delegate's own programme: the sessions they bookmarked, which of those
+// clash, and the calendar feed they can subscribe to. Also the other side of
+// bookmarks -- how many people plan to be in each session -- for organisers
+// sizing halls.
+//
+// Pure and framework-free like src/lib/agenda-*: routes fetch sessions,
+// bookmarks and halls and pass plain data in.
+//
+// WHY CLASHES ARE WARNINGS, NOT ERRORS: delegates bookmark parallel sessions
+// on purpose -- to pick on the day, or to catch the second half of one. The
+// clash check reuses sessionsOverlap from agenda-conflicts.ts so "clash" means
+// the same thing here as on the organiser's Conflicts screen.
+
+import { sessionsOverlap, type HallCapacity } from "./agenda-conflicts"
+import { computeSessionCheckinWindow } from "./agenda-session-checkin-window"
+import type { SessionCalendarEntry } from "./ics-generator"
+
+export interface AgendaSession {
+  id: string
+  session_name: string
+  session_date: string | null
+  start_time: string | null
+  end_time: string | null
+  hall: string | null
+  status?: string | null
+}
+
+export interface AgendaClash {
+  session_ids: [string, string]
+  message: string
+}
+
+const isCancelled = (s: AgendaSession) => s.status === "cancelled"
+
+const bySlot = (a: AgendaSession, b: AgendaSession) =>
+  (a.session_date ?? "").localeCompare(b.session_date ?? "") || (a.start_time ?? "").localeCompare(b.start_time ?? "")
+
+/** Every pair of bookmarked sessions that run at the same time, in programme order. */
+export function findAgendaClashes(sessions: AgendaSession[]): AgendaClash[] {
+  const live = sessions.filter((s) => !isCancelled(s)).sort(bySlot)
+  const clashes: AgendaClash[] = []
+  for (let i = 0; i < live.length; i++) {
+    for (let j = i + 1; j < live.length; j++) {
+      const [a, b] = [live[i], live[j]]
+      if (!sessionsOverlap(a, b)) continue
+      clashes.push({
+        session_ids: [a.id, b.id],
+        message: `"${a.session_name}"${a.hall ? ` (${a.hall})` : ""} and "${b.session_name}"${b.hall ? ` (${b.hall})` : ""} run at the same time`,
+      })
+    }
+  }
+  return clashes
+}
+
+/** The bookmarked sessions `candidate` would clash with if it were bookmarked too. */
+export function clashesWith(candidate: AgendaSession, bookmarked: AgendaSession[]): AgendaSession[] {
+  if (isCancelled(candidate)) return []
+  return bookmarked.filter((s) => s.id !== candidate.id && !isCancelled(s) && sessionsOverlap(candidate, s))
+}
+
+/**
+ * Calendar entries for a delegate's bookmarks. UIDs are the same
+ * `session-<id>` the faculty change notices use, and `sequence` is the latest
+ * publication number, so a subscribed calendar moves the entry it already has
+ * when the programme is re-published. A cancelled session stays in the feed
+ * marked CANCELLED so calendars take it off rather than keep a stale copy.
+ */
+export function agendaCalendarEntries(
+  sessions: AgendaSession[],
+  sequence: number,
+  timezone: string,
+  eventName: string
+): SessionCalendarEntry[] {
+  return [...sessions].sort(bySlot).flatMap((s) => {
+    if (!s.session_date || !s.start_time || !s.end_time) return []
+    const { opensAt, closesAt } = computeSessionCheckinWindow(
+      { session_date: s.session_date, start_time: s.start_time, end_time: s.end_time },
+      timezone,
+      0
+    )
+    return [
+      {
+        uid: `session-${s.id}`,
+        sequence,
+        title: s.session_name,
+        description: eventName,
+        location: s.hall ?? undefined,
+        startDate: new Date(opensAt),
+        endDate: new Date(closesAt),
+        cancelled: isCancelled(s),
+      },
+    ]
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Bookmark demand -- for organisers choosing hall sizes.
+
+export interface DemandSession extends AgendaSession {
+  hall_id: string | null
+  bookmarks: number
+}
+
+/**
+ * over: more bookmarks than seats. tight: at least 90% full.
+ * ok: fits. unknown: no hall, or the hall has no capacity recorded.
+ */
+export type DemandFit = "over" | "tight" | "ok" | "unknown"
+
+export interface SessionDemand extends DemandSession {
+  capacity: number | null
+  fit: DemandFit
+  /** The smallest hall that would seat everyone who bookmarked, when the current one won't. */
+  suggested_hall: { id: string; name: string; capacity: number } | null
+}
+
+const TIGHT_SHARE = 0.9
+
+/**
+ * Bookmarks per session against the capacity of its hall, most bookmarked
+ * first. Screens (halls with a parent) are never suggested: a session that
+ * outgrows its hall needs a room, not a screen inside one.
+ */
+export function planHallDemand(sessions: DemandSession[], halls: HallCapacity[]): SessionDemand[] {
+  const byId = new Map(halls.map((h) => [h.id, h]))
+  const rooms = halls
+    .filter((h) => !h.parent_id && h.capacity != null)
+    .sort((a, b) => a.capacity! - b.capacity! || (a.name ?? "").localeCompare(b.name ?? ""))
+
+  return sessions
+    .filter((s) => !isCancelled(s))
+    .map((s) => {
+      const capacity = s.hall_id ? (byId.get(s.hall_id)?.capacity ?? null) : null
+      const fit: DemandFit =
+        capacity == null ? "unknown" : s.bookmarks > capacity ? "over" : s.bookmarks >= capacity * TIGHT_SHARE ? "tight" : "ok"
+      const bigger = fit === "over" || fit === "unknown" ? rooms.find((h) => h.capacity! >= s.bookmarks && h.id !== s.hall_id) : undefined
+      return {
+        ...s,
+        capacity,
+        fit,
+        suggested_hall: bigger && s.bookmarks > 0 ? { id: bigger.id, name: bigger.name ?? "", capacity: bigger.capacity! } : null,
+      }
+    })
+    .sort((a, b) => b.bookmarks - a.bookmarks || bySlot(a, b))
+}
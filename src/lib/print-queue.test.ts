@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+import {
+  PRINT_MAX_ATTEMPTS,
+  canTransition,
+  computeAgentStatus,
+  isLeaseExpired,
+  leaseExpiresAt,
+  parseZebraHostStatus,
+  reprintReasonError,
+  statusAfterFailure,
+  summarizeQueue,
+} from "./print-queue"
+
+const NOON = new Date("2026-10-19T12:00:00.000Z")
+
+// Builds a ~HS reply from the flags the parser looks at
+function hostStatus({ paperOut = "0", paused = "0", headUp = "0", ribbonOut = "0" } = {}): string {
+  return [
+    `\x02030,${paperOut},${paused},1245,000,0,0,0,000,0,0,0\x03\r\n`,
+    `\x02001,0,${headUp},${ribbonOut},0,2,4,0,00000000,1,000\x03\r\n`,
+    `\x021234,0\x03\r\n`,
+  ].join("")
+}
+
+describe("canTransition", () => {
+  it("follows the queued -> claimed -> printing -> completed path", () => {
+    expect(canTransition("queued", "claimed")).toBe(true)
+    expect(canTransition("claimed", "printing")).toBe(true)
+    expect(canTransition("printing", "printing")).toBe(true)
+    expect(canTransition("printing", "completed")).toBe(true)
+  })
+
+  it("never lets an agent report on a job it hasn't claimed", () => {
+    expect(canTransition("queued", "printing")).toBe(false)
+    expect(canTransition("queued", "completed")).toBe(false)
+    expect(canTransition("completed", "failed")).toBe(false)
+  })
+
+  it("lets finished jobs be queued again but not cancelled ones", () => {
+    expect(canTransition("failed", "queued")).toBe(true)
+    expect(canTransition("completed", "queued")).toBe(true)
+    expect(canTransition("cancelled", "queued")).toBe(false)
+    expect(canTransition("bogus", "queued")).toBe(false)
+  })
+})
+
+describe("leases", () => {
+  it("expires a claimed job once its lease has passed", () => {
+    const job = { status: "claimed", lease_expires_at: leaseExpiresAt(NOON) }
+    expect(isLeaseExpired(job, NOON)).toBe(false)
+    expect(isLeaseExpired(job, new Date(NOON.getTime() + 61_000))).toBe(true)
+  })
+
+  it("treats a claim without a lease as expired and ignores other statuses", () => {
+    expect(isLeaseExpired({ status: "printing", lease_expires_at: null }, NOON)).toBe(true)
+    expect(isLeaseExpired({ status: "queued", lease_expires_at: null }, NOON)).toBe(false)
+    expect(isLeaseExpired({ status: "completed", lease_expires_at: "2020-01-01T00:00:00Z" }, NOON)).toBe(false)
+  })
+
+  it("requeues a failure until the attempts run out", () => {
+    expect(statusAfterFailure(1)).toBe("queued")
+    expect(statusAfterFailure(PRINT_MAX_ATTEMPTS - 1)).toBe("queued")
+    expect(statusAfterFailure(PRINT_MAX_ATTEMPTS)).toBe("failed")
+  })
+})
+
+describe("reprintReasonError", () => {
+  it("requires a known reason", () => {
+    expect(reprintReasonError(undefined, undefined)).toMatch(/required/)
+    expect(reprintReasonError("because", undefined)).toMatch(/Unknown/)
+    expect(reprintReasonError("damaged", undefined)).toBeNull()
+  })
+
+  it("requires a note for other", () => {
+    expect(reprintReasonError("other", "  ")).toMatch(/Describe/)
+    expect(reprintReasonError("other", "Spilled coffee on it")).toBeNull()
+  })
+})
+
+describe("computeAgentStatus", () => {
+  it("goes stale after 30 seconds and offline after two minutes", () => {
+    const seen = (ms: number) => ({ agent_last_seen_at: new Date(NOON.getTime() - ms).toISOString() })
+    expect(computeAgentStatus({ agent_last_seen_at: null }, NOON)).toBe("never")
+    expect(computeAgentStatus(seen(5_000), NOON)).toBe("online")
+    expect(computeAgentStatus(seen(45_000), NOON)).toBe("stale")
+    expect(computeAgentStatus(seen(3 * 60_000), NOON)).toBe("offline")
+  })
+})
+
+describe("parseZebraHostStatus", () => {
+  it("reads a healthy printer as ready", () => {
+    expect(parseZebraHostStatus(hostStatus())).toEqual({ state: "ready", message: null })
+  })
+
+  it("reports paper out ahead of everything else", () => {
+    expect(parseZebraHostStatus(hostStatus({ paperOut: "1", paused: "1" }))?.state).toBe("paper_out")
+  })
+
+  it("reports head open, ribbon out and pause", () => {
+    expect(parseZebraHostStatus(hostStatus({ headUp: "1" }))?.state).toBe("head_open")
+    expect(parseZebraHostStatus(hostStatus({ ribbonOut: "1" }))?.state).toBe("ribbon_out")
+    expect(parseZebraHostStatus(hostStatus({ paused: "1" }))?.state).toBe("paused")
+  })
+
+  it("rejects replies that aren't ~HS", () => {
+    expect(parseZebraHostStatus("")).toBeNull()
+    expect(parseZebraHostStatus("HTTP/1.1 200 OK")).toBeNull()
+  })
+})
+
+describe("summarizeQueue", () => {
+  it("buckets jobs by lifecycle stage", () => {
+    expect(
+      summarizeQueue([
+        { status: "queued" },
+        { status: "queued" },
+        { status: "claimed" },
+        { status: "printing" },
+        { status: "failed" },
+        { status: "completed" },
+        { status: "cancelled" },
+      ])
+    ).toEqual({ queued: 2, inFlight: 2, failed: 1, completed: 1 })
+  })
+})
@@ -0,0 +1,186 @@
+// Print job lifecycle, shared by /api/print-stations/queue (the agents' side),
+// /api/print-stations/print (the kiosk's side) and the printer-health panel.
+//
+//   queued ──claim──▶ claimed ──▶ printing ──▶ completed
+//     ▲                  │            │
+//     └──── lease expired / failed with attempts left ──┘──▶ failed
+//
+// A claim is a lease: the agent must report progress (which renews it) before
+// lease_expires_at, or the next claim in the zone takes the job over. That is
+// how a crashed or closed agent's jobs get printed somewhere else. The claim
+// itself is claim_print_jobs() in 20261019_print_job_lifecycle.sql; the rules
+// here are the ones the routes check before writing.
+//
+// "completed" rather than "done" because every existing print_jobs writer
+// (kiosk print-sync, direct prints) and the reprint count already use it.
+
+export const PRINT_JOB_STATUSES = ["queued", "claimed", "printing", "completed", "failed", "cancelled"] as const
+export type PrintJobStatus = (typeof PRINT_JOB_STATUSES)[number]
+
+export const PRINT_JOB_STATUS_LABELS: Record<PrintJobStatus, string> = {
+  queued: "Queued",
+  claimed: "Claimed",
+  printing: "Printing",
+  completed: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+}
+
+/** How long a claim holds a job before another agent may take it over. */
+export const PRINT_LEASE_SECONDS = 60
+
+/** Claims per job (first try included) before it is failed for good. */
+export const PRINT_MAX_ATTEMPTS = 3
+
+const TRANSITIONS: Record<PrintJobStatus, readonly PrintJobStatus[]> = {
+  queued: ["claimed", "cancelled"],
+  claimed: ["printing", "completed", "failed", "queued"],
+  printing: ["printing", "completed", "failed", "queued"],
+  // A kiosk records a direct print as completed up front and hands it to the
+  // agents when the printer turns out to be unreachable.
+  completed: ["queued"],
+  failed: ["queued"],
+  cancelled: [],
+}
+
+export function canTransition(from: string, to: string): boolean {
+  const allowed = TRANSITIONS[from as PrintJobStatus]
+  return !!allowed && allowed.includes(to as PrintJobStatus)
+}
+
+export function isPrintJobStatus(value: unknown): value is PrintJobStatus {
+  return typeof value === "string" && (PRINT_JOB_STATUSES as readonly string[]).includes(value)
+}
+
+export function leaseExpiresAt(now: Date = new Date()): string {
+  return new Date(now.getTime() + PRINT_LEASE_SECONDS * 1000).toISOString()
+}
+
+/** A claimed/printing job whose agent stopped renewing its lease. */
+export function isLeaseExpired(
+  job: { status: string; lease_expires_at: string | null },
+  now: Date = new Date()
+): boolean {
+  if (job.status !== "claimed" && job.status !== "printing") return false
+  if (!job.lease_expires_at) return true
+  return new Date(job.lease_expires_at).getTime() <= now.getTime()
+}
+
+/**
+ * Where a job goes when its agent reports a failure: back to the zone while
+ * it has attempts left (another printer may well be fine), failed otherwise.
+ */
+export function statusAfterFailure(attempts: number): "queued" | "failed" {
+  return attempts < PRINT_MAX_ATTEMPTS ? "queued" : "failed"
+}
+
+// ── Reprint reasons ──────────────────────────────────────────────────
+
+export const REPRINT_REASONS = [
+  { value: "damaged", label: "Badge damaged" },
+  { value: "misprint", label: "Misprint / faded" },
+  { value: "lost", label: "Lost badge" },
+  { value: "details_changed", label: "Name or details changed" },
+  { value: "category_changed", label: "Ticket category changed" },
+  { value: "other", label: "Other" },
+] as const
+export type ReprintReason = (typeof REPRINT_REASONS)[number]["value"]
+
+export function isReprintReason(value: unknown): value is ReprintReason {
+  return REPRINT_REASONS.some((r) => r.value === value)
+}
+
+export function reprintReasonLabel(value: string | null | undefined): string | null {
+  if (!value) return null
+  return REPRINT_REASONS.find((r) => r.value === value)?.label || value
+}
+
+/**
+ * Validates the reason sent with a reprint. Returns an error message, or
+ * null when the reprint may go ahead. "other" needs a note saying why.
+ */
+export function reprintReasonError(reason: unknown, note: unknown): string | null {
+  if (!reason) return "A reason is required for reprints"
+  if (!isReprintReason(reason)) return "Unknown reprint reason"
+  if (reason === "other" && !(typeof note === "string" && note.trim())) {
+    return "Describe the reason when choosing Other"
+  }
+  return null
+}
+
+// ── Printer health ───────────────────────────────────────────────────
+
+export const PRINTER_STATES = ["ready", "paper_out", "ribbon_out", "head_open", "paused", "offline", "error"] as const
+export type PrinterState = (typeof PRINTER_STATES)[number]
+
+export const PRINTER_STATE_LABELS: Record<PrinterState, string> = {
+  ready: "Ready",
+  paper_out: "Paper out",
+  ribbon_out: "Ribbon out",
+  head_open: "Head open",
+  paused: "Paused",
+  offline: "Unreachable",
+  error: "Error",
+}
+
+export function isPrinterState(value: unknown): value is PrinterState {
+  return typeof value === "string" && (PRINTER_STATES as readonly string[]).includes(value)
+}
+
+/** Agent heartbeats older than this mean the agent page is closed or asleep. */
+const AGENT_STALE_MS = 30 * 1000
+const AGENT_OFFLINE_MS = 2 * 60 * 1000
+
+export type AgentStatus = "online" | "stale" | "offline" | "never"
+
+export function computeAgentStatus(
+  station: { agent_last_seen_at: string | null },
+  now: Date = new Date()
+): AgentStatus {
+  if (!station.agent_last_seen_at) return "never"
+  const elapsed = now.getTime() - new Date(station.agent_last_seen_at).getTime()
+  if (elapsed > AGENT_OFFLINE_MS) return "offline"
+  return elapsed > AGENT_STALE_MS ? "stale" : "online"
+}
+
+/**
+ * Parses a Zebra ~HS (host status) reply: three STX…ETX framed strings of
+ * comma-separated flags. String 1 carries paper out (field 2) and pause
+ * (field 3); string 2 carries head up (field 3) and ribbon out (field 4).
+ * Returns null when the reply doesn't look like ~HS at all.
+ */
+export function parseZebraHostStatus(reply: string): { state: PrinterState; message: string | null } | null {
+  const frames = reply
+    .split("\x02")
+    .map((s) => s.split("\x03")[0].trim())
+    .filter(Boolean)
+  if (frames.length < 2) return null
+  const first = frames[0].split(",")
+  const second = frames[1].split(",")
+  if (first.length < 3 || second.length < 4) return null
+
+  if (first[1] === "1") return { state: "paper_out", message: "Out of labels" }
+  if (second[2] === "1") return { state: "head_open", message: "Print head is open" }
+  if (second[3] === "1") return { state: "ribbon_out", message: "Out of ribbon" }
+  if (first[2] === "1") return { state: "paused", message: "Printer is paused" }
+  return { state: "ready", message: null }
+}
+
+export interface ZoneQueueStats {
+  queued: number
+  inFlight: number
+  failed: number
+  completed: number
+}
+
+/** Counts jobs by lifecycle bucket, for the health panel. */
+export function summarizeQueue(jobs: { status: string }[]): ZoneQueueStats {
+  const stats: ZoneQueueStats = { queued: 0, inFlight: 0, failed: 0, completed: 0 }
+  for (const job of jobs) {
+    if (job.status === "queued") stats.queued++
+    else if (job.status === "claimed" || job.status === "printing") stats.inFlight++
+    else if (job.status === "failed") stats.failed++
+    else if (job.status === "completed") stats.completed++
+  }
+  return stats
+}
@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildSnapshot,
+  composeNotice,
+  describeChange,
+  diffSnapshots,
+  formatSlot,
+  planNotices,
+  type SessionBookmark,
+  type SnapshotSourceAssignment,
+  type SnapshotSourceSession,
+} from "./program-diff"
+
+const session = (over: Partial<SnapshotSourceSession> & { id: string }): SnapshotSourceSession => ({
+  session_name: `Session ${over.id}`,
+  session_date: "2026-08-27",
+  start_time: "09:00:00",
+  end_time: "10:00:00",
+  hall: "Hall A",
+  ...over,
+})
+
+const assignment = (session_id: string, faculty_name: string, over: Partial<SnapshotSourceAssignment> = {}): SnapshotSourceAssignment => ({
+  session_id,
+  faculty_name,
+  faculty_email: `${faculty_name.split(" ")[0].toLowerCase()}@x.in`,
+  faculty_phone: null,
+  role: "speaker",
+  status: "confirmed",
+  ...over,
+})
+
+const bookmark = (session_id: string, registration_id: string, over: Partial<SessionBookmark> = {}): SessionBookmark => ({
+  session_id,
+  registration_id,
+  attendee_name: `Delegate ${registration_id}`,
+  attendee_email: `${registration_id}@mail.in`,
+  attendee_phone: null,
+  ...over,
+})
+
+const BEFORE = buildSnapshot(
+  [session({ id: "s1" }), session({ id: "s2", start_time: "10:00", end_time: "11:00" }), session({ id: "s3", hall: "Hall B" })],
+  [assignment("s1", "Anitha Rao"), assignment("s2", "Meera Shah"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+)
+
+describe("buildSnapshot", () => {
+  it("drops cancelled sessions and faculty who have declined", () => {
+    const snapshot = buildSnapshot(
+      [session({ id: "s1" }), session({ id: "s2", status: "cancelled" })],
+      [assignment("s1", "Anitha Rao"), assignment("s1", "Meera Shah", { status: "declined" })]
+    )
+    expect(snapshot.sessions.map((s) => s.id)).toEqual(["s1"])
+    expect(snapshot.sessions[0]).toMatchObject({ start: "09:00", end: "10:00", faculty: [{ name: "Anitha Rao", email: "anitha@x.in" }] })
+  })
+})
+
+describe("diffSnapshots", () => {
+  it("finds nothing when nothing changed", () => {
+    expect(diffSnapshots(BEFORE, BEFORE)).toEqual([])
+  })
+
+  it("reports moved, renamed and re-halled sessions", () => {
+    const after = buildSnapshot(
+      [
+        session({ id: "s1", start_time: "14:00", end_time: "15:00" }),
+        session({ id: "s2", session_name: "Renamed", start_time: "10:00", end_time: "11:00", hall: "Hall C" }),
+        session({ id: "s3", hall: "Hall B" }),
+      ],
+      [assignment("s1", "Anitha Rao"), assignment("s2", "Meera Shah"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+    )
+    const changes = diffSnapshots(BEFORE, after)
+    expect(changes.map((c) => [c.session_id, c.kinds])).toEqual([
+      ["s2", ["renamed", "rehalled"]],
+      ["s1", ["moved"]],
+    ])
+    expect(describeChange(changes[0])).toEqual(['Renamed from "Session s2"', "Now in Hall C (was Hall A)"])
+  })
+
+  it("reports cancelled sessions, whether deleted or marked cancelled", () => {
+    const after = buildSnapshot(
+      [session({ id: "s1", status: "cancelled" }), session({ id: "s2", start_time: "10:00", end_time: "11:00" })],
+      [assignment("s2", "Meera Shah"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+    )
+    const changes = diffSnapshots(BEFORE, after)
+    expect(changes.map((c) => [c.session_id, c.kinds])).toEqual([
+      ["s1", ["cancelled"]],
+      ["s3", ["cancelled"]],
+    ])
+    expect(changes[0]).toMatchObject({ session_name: "Session s1", after: null })
+  })
+
+  it("reports faculty added and removed, matching people by email before name", () => {
+    const after = buildSnapshot(
+      [session({ id: "s1" }), session({ id: "s2", start_time: "10:00", end_time: "11:00" }), session({ id: "s3", hall: "Hall B" })],
+      [
+        // Same email, name written differently: the same person.
+        assignment("s1", "Dr. A. Rao", { faculty_email: "ANITHA@x.in" }),
+        assignment("s2", "Farhan Qureshi"),
+        assignment("s2", "Kiran Das", { role: "chairperson" }),
+      ]
+    )
+    const [change] = diffSnapshots(BEFORE, after)
+    expect(change).toMatchObject({ session_id: "s2", kinds: ["faculty_added", "faculty_removed"] })
+    expect(change.faculty_added.map((p) => p.name)).toEqual(["Farhan Qureshi"])
+    expect(change.faculty_removed.map((p) => p.name)).toEqual(["Meera Shah"])
+    expect(describeChange(change)).toEqual(["Added: Farhan Qureshi (Speaker)", "No longer taking part: Meera Shah (Speaker)"])
+  })
+
+  it("reports new sessions with all their faculty added", () => {
+    const after = buildSnapshot([...BEFORE.sessions.map((s) => session({ id: s.id, start_time: s.start, end_time: s.end, hall: s.hall })), session({ id: "s4" })], [
+      assignment("s1", "Anitha Rao"),
+      assignment("s2", "Meera Shah"),
+      assignment("s2", "Kiran Das", { role: "chairperson" }),
+      assignment("s4", "Farhan Qureshi"),
+    ])
+    const [change] = diffSnapshots(BEFORE, after)
+    expect(change).toMatchObject({ session_id: "s4", kinds: ["added", "faculty_added"], before: null })
+  })
+})
+
+describe("formatSlot", () => {
+  it("reads day and times, and copes with missing parts", () => {
+    expect(formatSlot({ date: "2026-08-27", start: "14:00", end: "15:30" })).toBe("Thu, 27 Aug, 2:00 PM – 3:30 PM")
+    expect(formatSlot({ date: "2026-08-27", start: null, end: null })).toBe("Thu, 27 Aug")
+    expect(formatSlot({ date: null, start: null, end: null })).toBe("time to be announced")
+  })
+})
+
+describe("planNotices", () => {
+  const moved = () =>
+    diffSnapshots(
+      BEFORE,
+      buildSnapshot(
+        [session({ id: "s1" }), session({ id: "s2", start_time: "16:00", end_time: "17:00" })],
+        [assignment("s1", "Anitha Rao"), assignment("s2", "Meera Shah"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+      )
+    )
+
+  it("tells everyone on a moved session, and everyone on a cancelled one", () => {
+    const notices = planNotices(moved(), [])
+    expect(notices.map((n) => [n.recipient.name, n.on.map((c) => c.session_id), n.off.map((c) => c.session_id)])).toEqual([
+      ["Kiran Das", ["s2"], []],
+      ["Meera Shah", ["s2"], []],
+    ])
+    // s3 had nobody on it, so its cancellation reaches no faculty.
+  })
+
+  it("tells only the added and removed faculty when nothing else changed", () => {
+    const after = buildSnapshot(
+      [session({ id: "s1" }), session({ id: "s2", start_time: "10:00", end_time: "11:00" }), session({ id: "s3", hall: "Hall B" })],
+      [assignment("s1", "Anitha Rao"), assignment("s2", "Farhan Qureshi"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+    )
+    const notices = planNotices(diffSnapshots(BEFORE, after), [])
+    expect(notices.map((n) => [n.recipient.name, n.on.length, n.off.length])).toEqual([
+      ["Farhan Qureshi", 1, 0],
+      ["Meera Shah", 0, 1],
+    ])
+  })
+
+  it("does not treat a change of role on the same session as being taken off", () => {
+    const after = buildSnapshot(
+      [session({ id: "s1" }), session({ id: "s2", start_time: "10:00", end_time: "11:00" }), session({ id: "s3", hall: "Hall B" })],
+      [assignment("s1", "Anitha Rao", { role: "moderator" }), assignment("s2", "Meera Shah"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+    )
+    const notices = planNotices(diffSnapshots(BEFORE, after), [])
+    expect(notices).toHaveLength(1)
+    expect(notices[0]).toMatchObject({ recipient: { name: "Anitha Rao" }, off: [] })
+    expect(notices[0].on).toHaveLength(1)
+  })
+
+  it("sends one notice per person across all their changed sessions", () => {
+    const after = buildSnapshot(
+      [session({ id: "s1", hall: "Hall C" }), session({ id: "s2", start_time: "16:00", end_time: "17:00" })],
+      [assignment("s1", "Anitha Rao"), assignment("s2", "Anitha Rao"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+    )
+    const anitha = planNotices(diffSnapshots(BEFORE, after), []).find((n) => n.recipient.name === "Anitha Rao")!
+    expect(anitha.on.map((c) => c.session_id)).toEqual(["s1", "s2"])
+  })
+
+  it("tells delegates about changes to sessions they bookmarked, and no others", () => {
+    const notices = planNotices(moved(), [bookmark("s2", "r1"), bookmark("s3", "r1"), bookmark("s1", "r2")])
+    const delegates = notices.filter((n) => n.recipient.kind === "delegate")
+    expect(delegates).toHaveLength(1)
+    expect(delegates[0]).toMatchObject({ recipient: { registration_id: "r1" } })
+    expect(delegates[0].on.map((c) => c.session_id)).toEqual(["s2"])
+    expect(delegates[0].off.map((c) => c.session_id)).toEqual(["s3"])
+  })
+
+  it("does not send a faculty member a second, delegate notice", () => {
+    const notices = planNotices(moved(), [bookmark("s2", "r1", { attendee_name: "Dr Meera Shah", attendee_email: "MEERA@x.in" })])
+    expect(notices.filter((n) => n.recipient.kind === "delegate")).toEqual([])
+  })
+})
+
+describe("composeNotice", () => {
+  it("gives faculty their new slot and role", () => {
+    const meera = planNotices(
+      diffSnapshots(
+        BEFORE,
+        buildSnapshot(
+          [session({ id: "s1" }), session({ id: "s2", start_time: "16:00", end_time: "17:00", hall: "Hall C" }), session({ id: "s3", hall: "Hall B" })],
+          [assignment("s1", "Anitha Rao"), assignment("s2", "Meera Shah"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+        )
+      ),
+      []
+    ).find((n) => n.recipient.name === "Meera Shah")!
+    const { subject, message } = composeNotice(meera, "ASICON 2026")
+    expect(subject).toBe("ASICON 2026: programme update for Session s2")
+    expect(message).toContain("Dear {{name}},")
+    expect(message).toContain("Session s2 (Speaker)\nWhen: Thu, 27 Aug, 4:00 PM – 5:00 PM\nWhere: Hall C")
+    expect(message).toContain("- Moved from Thu, 27 Aug, 10:00 AM – 11:00 AM to Thu, 27 Aug, 4:00 PM – 5:00 PM")
+  })
+
+  it("tells people plainly about cancellations and removals", () => {
+    const after = buildSnapshot(
+      [session({ id: "s2", start_time: "10:00", end_time: "11:00" }), session({ id: "s3", hall: "Hall B" })],
+      [assignment("s2", "Anitha Rao"), assignment("s2", "Kiran Das", { role: "chairperson" })]
+    )
+    const notices = planNotices(diffSnapshots(BEFORE, after), [])
+    const anitha = notices.find((n) => n.recipient.name === "Anitha Rao")!
+    const meera = notices.find((n) => n.recipient.name === "Meera Shah")!
+    expect(composeNotice(anitha, "ASICON").message).toContain("Session s1 (Thu, 27 Aug, 9:00 AM – 10:00 AM) has been cancelled.")
+    expect(composeNotice(meera, "ASICON").message).toContain("You are no longer taking part in Session s2")
+    expect(composeNotice(anitha, "ASICON").subject).toBe("ASICON: programme update")
+  })
+})
@@ -0,0 +1,359 @@
+// Pure diffing of published agendas, and the notices that follow from a diff.
+//
+// Every time an agenda is published we freeze what it said -- each session's
+// name, slot and hall, and who was on it -- into a snapshot. Comparing that
+// snapshot with the one from the previous publication gives the list of
+// changes people actually need to hear about: sessions that moved, were
+// renamed, changed hall or were cancelled, and faculty who were added or
+// taken off. program_change_log records every individual edit in between;
+// this is deliberately coarser, because a session dragged around the grid
+// five times before re-publishing is one change to the people on it.
+//
+// No I/O here. Fetching and storing live in
+// src/lib/services/program-publication.ts.
+
+import { isFacultyRole, ROLE_LABELS } from "./agenda-roles"
+import { normaliseName } from "./faculty-name-resolver"
+import { formatTime } from "./utils"
+
+export interface SnapshotPerson {
+  name: string
+  email: string | null
+  phone: string | null
+  role: string
+}
+
+export interface SnapshotSession {
+  id: string
+  name: string
+  date: string | null
+  start: string | null
+  end: string | null
+  hall: string | null
+  faculty: SnapshotPerson[]
+}
+
+export interface ProgramSnapshot {
+  sessions: SnapshotSession[]
+}
+
+export interface SnapshotSourceSession {
+  id: string
+  session_name: string
+  session_date: string | null
+  start_time: string | null
+  end_time: string | null
+  hall: string | null
+  status?: string | null
+}
+
+export interface SnapshotSourceAssignment {
+  session_id: string
+  faculty_name: string
+  faculty_email: string | null
+  faculty_phone: string | null
+  role: string
+  status: string | null
+}
+
+/** Assignment statuses that mean the person is no longer on the session. */
+const VACATING_STATUSES: ReadonlySet<string> = new Set(["declined", "cancelled", "withdrawn"])
+
+const clock = (time: string | null) => (time ? time.slice(0, 5) : null)
+
+/**
+ * Freeze the agenda as it stands. A session whose status is "cancelled" is
+ * left out, so it reads as cancelled against the previous snapshot exactly
+ * as a deleted one does.
+ */
+export function buildSnapshot(sessions: SnapshotSourceSession[], assignments: SnapshotSourceAssignment[]): ProgramSnapshot {
+  const facultyBySession = new Map<string, SnapshotPerson[]>()
+  for (const a of assignments) {
+    if (a.status && VACATING_STATUSES.has(a.status)) continue
+    const list = facultyBySession.get(a.session_id) ?? []
+    list.push({ name: a.faculty_name, email: a.faculty_email?.trim().toLowerCase() || null, phone: a.faculty_phone || null, role: a.role })
+    facultyBySession.set(a.session_id, list)
+  }
+
+  return {
+    sessions: sessions
+      .filter((s) => s.status !== "cancelled")
+      .map((s) => ({
+        id: s.id,
+        name: s.session_name,
+        date: s.session_date,
+        start: clock(s.start_time),
+        end: clock(s.end_time),
+        hall: s.hall,
+        faculty: (facultyBySession.get(s.id) ?? []).sort((a, b) => a.role.localeCompare(b.role) || a.name.localeCompare(b.name)),
+      }))
+      .sort(
+        (a, b) =>
+          (a.date ?? "").localeCompare(b.date ?? "") ||
+          (a.start ?? "").localeCompare(b.start ?? "") ||
+          a.name.localeCompare(b.name)
+      ),
+  }
+}
+
+export type ProgramChangeKind = "added" | "moved" | "renamed" | "rehalled" | "cancelled" | "faculty_added" | "faculty_removed"
+
+export interface SessionChange {
+  session_id: string
+  /** The name as published now, or the last published name for a cancelled session. */
+  session_name: string
+  kinds: ProgramChangeKind[]
+  before: SnapshotSession | null
+  after: SnapshotSession | null
+  faculty_added: SnapshotPerson[]
+  faculty_removed: SnapshotPerson[]
+}
+
+/** One person, whichever of their names or addresses a row happens to carry. */
+export function personKey(person: Pick<SnapshotPerson, "name" | "email">): string {
+  return person.email?.trim().toLowerCase() || normaliseName(person.name)
+}
+
+const seatKey = (person: SnapshotPerson) => `${person.role}::${personKey(person)}`
+
+/** Sessions in the order the later snapshot lists them, cancelled ones after. */
+export function diffSnapshots(before: ProgramSnapshot, after: ProgramSnapshot): SessionChange[] {
+  const previous = new Map(before.sessions.map((s) => [s.id, s]))
+  const current = new Set(after.sessions.map((s) => s.id))
+  const changes: SessionChange[] = []
+
+  for (const now of after.sessions) {
+    const was = previous.get(now.id) ?? null
+    const kinds: ProgramChangeKind[] = []
+    if (!was) {
+      kinds.push("added")
+    } else {
+      if (was.date !== now.date || was.start !== now.start || was.end !== now.end) kinds.push("moved")
+      if (was.name !== now.name) kinds.push("renamed")
+      if ((was.hall ?? "") !== (now.hall ?? "")) kinds.push("rehalled")
+    }
+
+    // A new session's faculty are all "added" -- they need telling as much as
+    // someone added to an existing session does.
+    const wasSeats = new Set((was?.faculty ?? []).map(seatKey))
+    const nowSeats = new Set(now.faculty.map(seatKey))
+    const added = now.faculty.filter((p) => !wasSeats.has(seatKey(p)))
+    const removed = (was?.faculty ?? []).filter((p) => !nowSeats.has(seatKey(p)))
+    if (added.length > 0) kinds.push("faculty_added")
+    if (removed.length > 0) kinds.push("faculty_removed")
+
+    if (kinds.length > 0) {
+      changes.push({ session_id: now.id, session_name: now.name, kinds, before: was, after: now, faculty_added: added, faculty_removed: removed })
+    }
+  }
+
+  for (const was of before.sessions) {
+    if (current.has(was.id)) continue
+    changes.push({
+      session_id: was.id,
+      session_name: was.name,
+      kinds: ["cancelled"],
+      before: was,
+      after: null,
+      faculty_added: [],
+      faculty_removed: [],
+    })
+  }
+
+  return changes
+}
+
+// ---------------------------------------------------------------------------
+// Wording
+// ---------------------------------------------------------------------------
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-IN", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  })
+}
+
+/** "Thu, 27 Aug, 9:00 AM – 10:00 AM" -- whatever parts the session has. */
+export function formatSlot(session: Pick<SnapshotSession, "date" | "start" | "end">): string {
+  const time = session.start ? [session.start, session.end].filter(Boolean).map((t) => formatTime(t as string)).join(" – ") : null
+  return [session.date ? formatDay(session.date) : null, time].filter(Boolean).join(", ") || "time to be announced"
+}
+
+export function roleLabel(role: string): string {
+  return isFacultyRole(role) ? ROLE_LABELS[role].one : role
+}
+
+const personLabel = (p: SnapshotPerson) => `${p.name} (${roleLabel(p.role)})`
+
+/**
+ * Plain-language lines for one change, as shown on the public changelog.
+ * Names only -- never contact details.
+ */
+export function describeChange(change: SessionChange): string[] {
+  const { before, after } = change
+  const lines: string[] = []
+  for (const kind of change.kinds) {
+    switch (kind) {
+      case "added":
+        lines.push(`New session: ${formatSlot(after!)}${after!.hall ? `, ${after!.hall}` : ""}`)
+        break
+      case "cancelled":
+        lines.push("Cancelled")
+        break
+      case "moved":
+        lines.push(`Moved from ${formatSlot(before!)} to ${formatSlot(after!)}`)
+        break
+      case "renamed":
+        lines.push(`Renamed from "${before!.name}"`)
+        break
+      case "rehalled":
+        lines.push(`Now in ${after!.hall || "a hall to be announced"} (was ${before!.hall || "unassigned"})`)
+        break
+      case "faculty_added":
+        lines.push(`Added: ${change.faculty_added.map(personLabel).join(", ")}`)
+        break
+      case "faculty_removed":
+        lines.push(`No longer taking part: ${change.faculty_removed.map(personLabel).join(", ")}`)
+        break
+    }
+  }
+  return lines
+}
+
+// ---------------------------------------------------------------------------
+// Who hears about it
+// ---------------------------------------------------------------------------
+
+export interface SessionBookmark {
+  session_id: string
+  registration_id: string
+  attendee_name: string
+  attendee_email: string | null
+  attendee_phone: string | null
+}
+
+export interface NoticeRecipient {
+  kind: "faculty" | "delegate"
+  name: string
+  email: string | null
+  phone: string | null
+  registration_id: string | null
+}
+
+/** What one person is told, and about which sessions. */
+export interface PlannedNotice {
+  recipient: NoticeRecipient
+  /** Sessions they are still on, with their slot as now published. */
+  on: SessionChange[]
+  /** Sessions they were taken off, or that were cancelled under them. */
+  off: SessionChange[]
+}
+
+/** A change the people already on the session need to hear about. */
+const SLOT_KINDS: ReadonlySet<ProgramChangeKind> = new Set(["moved", "renamed", "rehalled"])
+
+/**
+ * One notice per person, however many of their sessions changed.
+ *
+ * Faculty hear about sessions whose slot, name or hall changed, sessions
+ * they were added to or taken off, and cancellations. Delegates hear about
+ * any change to a session they bookmarked -- a replaced speaker matters to
+ * someone who planned their day around the talk. Someone who is both faculty
+ * and a bookmarking delegate gets the faculty notice only.
+ */
+export function planNotices(changes: SessionChange[], bookmarks: SessionBookmark[]): PlannedNotice[] {
+  const notices = new Map<string, PlannedNotice>()
+  const noticeFor = (key: string, recipient: NoticeRecipient) => {
+    let notice = notices.get(key)
+    if (!notice) {
+      notice = { recipient, on: [], off: [] }
+      notices.set(key, notice)
+    }
+    return notice
+  }
+  const addOnce = (list: SessionChange[], change: SessionChange) => {
+    if (!list.includes(change)) list.push(change)
+  }
+  const asFaculty = (p: SnapshotPerson): NoticeRecipient => ({ kind: "faculty", name: p.name, email: p.email, phone: p.phone, registration_id: null })
+
+  for (const change of changes) {
+    if (change.kinds.includes("cancelled")) {
+      for (const p of change.before!.faculty) addOnce(noticeFor(personKey(p), asFaculty(p)).off, change)
+      continue
+    }
+
+    const slotChanged = change.kinds.some((k) => SLOT_KINDS.has(k))
+    const added = new Set(change.faculty_added.map(personKey))
+    for (const p of change.after!.faculty) {
+      if (slotChanged || added.has(personKey(p))) addOnce(noticeFor(personKey(p), asFaculty(p)).on, change)
+    }
+    for (const p of change.faculty_removed) {
+      // Moving from speaker to chair on the same session is one seat lost and
+      // one gained; they are still on it.
+      if (change.after!.faculty.some((q) => personKey(q) === personKey(p))) continue
+      addOnce(noticeFor(personKey(p), asFaculty(p)).off, change)
+    }
+  }
+
+  const facultyKeys = new Set(notices.keys())
+  const changed = new Map(changes.filter((c) => !c.kinds.includes("added")).map((c) => [c.session_id, c]))
+  for (const bookmark of bookmarks) {
+    const change = changed.get(bookmark.session_id)
+    if (!change) continue
+    const key = personKey({ name: bookmark.attendee_name, email: bookmark.attendee_email })
+    if (facultyKeys.has(key)) continue
+    const notice = noticeFor(`registration:${bookmark.registration_id}`, {
+      kind: "delegate",
+      name: bookmark.attendee_name,
+      email: bookmark.attendee_email,
+      phone: bookmark.attendee_phone,
+      registration_id: bookmark.registration_id,
+    })
+    addOnce(change.kinds.includes("cancelled") ? notice.off : notice.on, change)
+  }
+
+  return Array.from(notices.values())
+}
+
+/** The message body for one notice; `{{name}}` is filled in by message dispatch. */
+export function composeNotice(notice: PlannedNotice, eventName: string): { subject: string; message: string } {
+  const { recipient, on, off } = notice
+  const count = on.length + off.length
+  const subject = `${eventName}: programme update${count === 1 ? ` for ${(on[0] ?? off[0]).session_name}` : ""}`
+
+  const paragraphs: string[] = [
+    recipient.kind === "faculty"
+      ? `Dear {{name}},\n\nThe ${eventName} programme has been updated, and it changes your part in it.`
+      : `Dear {{name}},\n\nThe ${eventName} programme has been updated, including sessions you bookmarked.`,
+  ]
+
+  for (const change of on) {
+    const now = change.after!
+    const roles =
+      recipient.kind === "faculty"
+        ? now.faculty.filter((p) => personKey(p) === personKey(recipient)).map((p) => roleLabel(p.role))
+        : []
+    const details = describeChange(change).filter((line) => !line.startsWith("New session"))
+    paragraphs.push(
+      [
+        `${now.name}${roles.length > 0 ? ` (${roles.join(", ")})` : ""}`,
+        `When: ${formatSlot(now)}`,
+        `Where: ${now.hall || "to be announced"}`,
+        ...details.map((line) => `- ${line}`),
+      ].join("\n")
+    )
+  }
+
+  for (const change of off) {
+    paragraphs.push(
+      change.kinds.includes("cancelled")
+        ? `${change.session_name} (${formatSlot(change.before!)}) has been cancelled.`
+        : `You are no longer taking part in ${change.session_name} (${formatSlot(change.before!)}).`
+    )
+  }
+
+  return { subject, message: paragraphs.join("\n\n") }
+}
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { hashApiKey, newApiKey, readApiKey } from "@/lib/api-keys"
+import { buildOpenApiDocument } from "@/lib/openapi"
+import { createMemoryRateLimitStore, setRateLimitStore } from "@/lib/rate-limit"
+import { requireApiKey } from "./public-api"
+
+const NOW = new Date("2026-10-19T10:00:00Z")
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const KEY = newApiKey()
+
+const ROW = {
+  id: "key1",
+  name: "Membership portal",
+  event_id: EVENT_ID,
+  scopes: ["registrations:write", "checkin:read"],
+  status: "active",
+  revoked_at: null,
+  expires_at: null,
+  rate_limit_per_minute: null,
+  last_used_at: null,
+}
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  setRateLimitStore(createMemoryRateLimitStore())
+})
+
+function request(key: string | null = KEY.key) {
+  return new Request(`https://app.example.com/api/v1/events/${EVENT_ID}/registrations`, {
+    headers: key ? { Authorization: `Bearer ${key}` } : {},
+  })
+}
+
+describe("API keys", () => {
+  it("only stores a hash and reads keys from either header", () => {
+    expect(KEY.key).toMatch(/^evk_/)
+    expect(KEY.hash).toBe(hashApiKey(KEY.key))
+    expect(KEY.key.startsWith(KEY.prefix)).toBe(true)
+    expect(readApiKey(request())).toBe(KEY.key)
+    expect(readApiKey(new Request("https://x", { headers: { "X-API-Key": KEY.key } }))).toBe(KEY.key)
+    expect(readApiKey(new Request("https://x", { headers: { Authorization: "Bearer something-else" } }))).toBeNull()
+  })
+})
+
+describe("requireApiKey", () => {
+  it("rejects requests without a key before touching the database", async () => {
+    const auth = await requireApiKey(mock.client, request(null), EVENT_ID, "registrations", "read", NOW)
+
+    expect(auth.error?.status).toBe(401)
+    expect(auth.error?.headers.get("WWW-Authenticate")).toBe("Bearer")
+    expect(mock.calls).toEqual([])
+  })
+
+  it("looks keys up by hash and rejects unknown, revoked or expired ones", async () => {
+    mock.queueResponse("api_keys", { data: null, error: null })
+    expect((await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)).error?.status).toBe(401)
+    expect(mock.calls).toContainEqual({ table: "api_keys", method: "eq", args: ["key_hash", KEY.hash] })
+
+    mock.queueResponse("api_keys", { data: { ...ROW, status: "revoked", revoked_at: NOW.toISOString() }, error: null })
+    expect((await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)).error?.status).toBe(401)
+
+    mock.queueResponse("api_keys", { data: { ...ROW, expires_at: "2026-10-19T09:00:00Z" }, error: null })
+    expect((await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)).error?.status).toBe(401)
+  })
+
+  it("forbids keys issued for another event", async () => {
+    mock.queueResponse("api_keys", { data: { ...ROW, event_id: "other" }, error: null })
+
+    const auth = await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+
+    expect(auth.error?.status).toBe(403)
+    expect(auth.error?.headers.get("RateLimit-Limit")).toBe("120")
+  })
+
+  it("treats write as implying read but not the reverse", async () => {
+    mock.queueResponse("api_keys", { data: ROW, error: null })
+    const read = await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+    expect(read.error).toBeNull()
+    expect(read.key).toMatchObject({ id: "key1", event_id: EVENT_ID })
+
+    mock.queueResponse("api_keys", { data: ROW, error: null })
+    expect((await requireApiKey(mock.client, request(), EVENT_ID, "checkin", "write", NOW)).error?.status).toBe(403)
+
+    mock.queueResponse("api_keys", { data: ROW, error: null })
+    expect((await requireApiKey(mock.client, request(), EVENT_ID, "program", "read", NOW)).error?.status).toBe(403)
+  })
+
+  it("applies the key's own rate limit", async () => {
+    const limited = { ...ROW, rate_limit_per_minute: 2, last_used_at: NOW.toISOString() }
+    for (let i = 0; i < 3; i++) mock.queueResponse("api_keys", { data: limited, error: null })
+
+    await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+    await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+    const third = await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+
+    expect(third.error?.status).toBe(429)
+    expect(third.error?.headers.get("Retry-After")).toBeTruthy()
+  })
+
+  it("records last use at most once a minute", async () => {
+    mock.queueResponse("api_keys", { data: ROW, error: null })
+    await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+    const update = mock.calls.find((c) => c.table === "api_keys" && c.method === "update")
+    expect(update?.args[0]).toEqual({ last_used_at: NOW.toISOString() })
+
+    mock = createSupabaseMock()
+    mock.queueResponse("api_keys", { data: { ...ROW, last_used_at: "2026-10-19T09:59:30Z" }, error: null })
+    await requireApiKey(mock.client, request(), EVENT_ID, "registrations", "read", NOW)
+    expect(mock.calls.some((c) => c.method === "update")).toBe(false)
+  })
+})
+
+describe("buildOpenApiDocument", () => {
+  it("documents every endpoint with its scope and the schemas the routes validate with", () => {
+    const doc = buildOpenApiDocument("https://app.example.com/api/v1") as any
+
+    expect(Object.keys(doc.paths)).toEqual([
+      "/events/{eventId}/registrations",
+      "/events/{eventId}/registrations/{registrationId}",
+      "/events/{eventId}/sessions",
+      "/events/{eventId}/checkins",
+      "/events/{eventId}/certificates",
+    ])
+    const create = doc.paths["/events/{eventId}/registrations"].post
+    expect(create.description).toContain("registrations:write")
+    expect(create.requestBody.content["application/json"].schema.required).toEqual(
+      expect.arrayContaining(["attendee_name", "attendee_email", "ticket_type_id"])
+    )
+    const list = doc.paths["/events/{eventId}/registrations"].get
+    expect(list.parameters.map((p: any) => p.name)).toEqual(
+      expect.arrayContaining(["eventId", "cursor", "limit", "status", "updated_since"])
+    )
+    expect(list.responses["200"].content["application/json"].schema.properties).toHaveProperty("next_cursor")
+  })
+})
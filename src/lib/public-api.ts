@@ -0,0 +1,139 @@
+/**
+ * Public API (v1)
+ *
+ * Shared plumbing for the /api/v1 routes: API key authentication (scoped to
+ * one event and a set of module permissions, see api-scopes.ts), per-key
+ * rate limiting, cursor list parameters and JSON responses that always carry
+ * the RateLimit headers.
+ */
+
+import { NextResponse } from "next/server"
+import type { z } from "zod"
+import { hashApiKey, readApiKey } from "@/lib/api-keys"
+import { hasApiScope, type ApiAccess, type ApiModule } from "@/lib/api-scopes"
+import {
+  checkRateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+  type RateLimitResult,
+} from "@/lib/rate-limit"
+import { apiListQuerySchema, formatZodError } from "@/lib/schemas"
+import { decodeCursor } from "@/lib/supabase/fetch-all-pages"
+
+export interface ApiKeyContext {
+  id: string
+  name: string
+  event_id: string
+  scopes: string[]
+}
+
+export type ApiKeyAuthResult =
+  | { key: ApiKeyContext; rateLimit: RateLimitResult; error: null }
+  | { key: null; rateLimit: RateLimitResult | null; error: Response }
+
+// last_used_at is only a hint for admins; don't write it on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+function apiError(message: string, status: number, headers?: Record<string, string>): Response {
+  return NextResponse.json({ error: message }, { status, headers })
+}
+
+/**
+ * Authenticate a request's API key for `module:access` on `eventId`.
+ *
+ * 401 for a missing, unknown, revoked or expired key; 429 once the key is
+ * over its limit; 403 when the key is valid but belongs to another event or
+ * lacks the scope.
+ */
+export async function requireApiKey(
+  db: any,
+  request: Request,
+  eventId: string,
+  module: ApiModule,
+  access: ApiAccess,
+  now = new Date()
+): Promise<ApiKeyAuthResult> {
+  const unauthorized = (message: string) => ({
+    key: null,
+    rateLimit: null,
+    error: apiError(message, 401, { "WWW-Authenticate": "Bearer" }),
+  })
+
+  const presented = readApiKey(request)
+  if (!presented) return unauthorized("API key required")
+
+  const { data: row } = await db
+    .from("api_keys")
+    .select("id, name, event_id, scopes, status, revoked_at, expires_at, rate_limit_per_minute, last_used_at")
+    .eq("key_hash", hashApiKey(presented))
+    .maybeSingle()
+
+  if (!row || row.status !== "active" || row.revoked_at) return unauthorized("Invalid API key")
+  if (row.expires_at && new Date(row.expires_at) <= now) return unauthorized("API key has expired")
+
+  const rateLimit = await checkRateLimit(
+    row.id,
+    "api",
+    row.rate_limit_per_minute ? { requests: row.rate_limit_per_minute, windowMs: 60 * 1000 } : undefined
+  )
+  if (!rateLimit.success) {
+    return { key: null, rateLimit, error: rateLimitExceededResponse(rateLimit) }
+  }
+
+  const forbidden = (message: string) => ({
+    key: null,
+    rateLimit,
+    error: withRateLimitHeaders(apiError(message, 403), rateLimit),
+  })
+  if (row.event_id !== eventId) return forbidden("This API key is not valid for this event")
+  if (!hasApiScope(row.scopes, module, access)) return forbidden(`This API key lacks the ${module}:${access} scope`)
+
+  if (!row.last_used_at || now.getTime() - new Date(row.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.from("api_keys").update({ last_used_at: now.toISOString() }).eq("id", row.id)
+  }
+
+  return {
+    key: { id: row.id, name: row.name, event_id: row.event_id, scopes: row.scopes || [] },
+    rateLimit,
+    error: null,
+  }
+}
+
+/**
+ * JSON response with the key's rate limit state attached.
+ */
+export function apiJson(body: unknown, rateLimit: RateLimitResult, status = 200): Response {
+  return withRateLimitHeaders(NextResponse.json(body, { status }), rateLimit)
+}
+
+export function apiValidationError(error: z.ZodError, rateLimit: RateLimitResult): Response {
+  return apiJson(formatZodError(error), rateLimit, 400)
+}
+
+/**
+ * `?cursor=&limit=` for a list endpoint. `after` is the id the cursor points
+ * past (null on the first page).
+ */
+export function parseListQuery(
+  request: Request,
+  rateLimit: RateLimitResult
+): { limit: number; after: string | null; error: null } | { error: Response } {
+  const params = new URL(request.url).searchParams
+  const parsed = apiListQuerySchema.safeParse({
+    cursor: params.get("cursor") || undefined,
+    limit: params.get("limit") || undefined,
+  })
+  if (!parsed.success) return { error: apiValidationError(parsed.error, rateLimit) }
+
+  const after = decodeCursor(parsed.data.cursor)
+  if (parsed.data.cursor && !after) return { error: apiJson({ error: "Invalid cursor" }, rateLimit, 400) }
+  return { limit: parsed.data.limit, after, error: null }
+}
+
+/**
+ * The select list for a response schema, so routes return exactly the
+ * fields the OpenAPI document promises.
+ */
+export function apiColumns(schema: z.ZodObject): string {
+  return Object.keys(schema.shape).join(", ")
+}
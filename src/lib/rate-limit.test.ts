@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from "vitest"
+import {
+  checkRateLimit,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  createRateLimitHeaders,
+  evaluateSlidingWindow,
+  parseTierOverrides,
+  RATE_LIMIT_TIERS,
+  rateLimitedRoute,
+  rateLimitExceededResponse,
+  setRateLimitStore,
+} from "./rate-limit"
+
+const rpc = vi.fn()
+
+vi.mock("./supabase/server", () => ({
+  createAdminClient: async () => ({ rpc }),
+}))
+
+const MINUTE = 60 * 1000
+const CONFIG = { requests: 5, windowMs: MINUTE }
+
+describe("evaluateSlidingWindow", () => {
+  it("allows up to the limit within one window", () => {
+    const result = evaluateSlidingWindow({ current: 5, previous: 0 }, CONFIG, 0, 10_000)
+    expect(result).toMatchObject({ success: true, limit: 5, remaining: 0, reset: 60 })
+  })
+
+  it("rejects past the limit with a retry-after to the window end", () => {
+    const result = evaluateSlidingWindow({ current: 6, previous: 0 }, CONFIG, 0, 45_000)
+    expect(result).toMatchObject({ success: false, remaining: 0, retryAfter: 15 })
+  })
+
+  it("weights the previous window by how much of it still overlaps", () => {
+    // 25% into the window: 75% of the previous window's 4 hits (3) still count
+    expect(evaluateSlidingWindow({ current: 2, previous: 4 }, CONFIG, MINUTE, MINUTE + 15_000).success).toBe(true)
+    expect(evaluateSlidingWindow({ current: 3, previous: 4 }, CONFIG, MINUTE, MINUTE + 15_000).success).toBe(false)
+  })
+
+  it("stops a burst straddling the boundary from getting double the limit", () => {
+    // 5 hits at the very end of one window, then 5 more just after it
+    const result = evaluateSlidingWindow({ current: 5, previous: 5 }, CONFIG, MINUTE, MINUTE + 1000)
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("memory store", () => {
+  it("counts hits per key and window", async () => {
+    const store = createMemoryRateLimitStore()
+    await store.hit("a", 0, MINUTE)
+    expect(await store.hit("a", 0, MINUTE)).toEqual({ current: 2, previous: 0 })
+    expect(await store.hit("b", 0, MINUTE)).toEqual({ current: 1, previous: 0 })
+  })
+
+  it("carries the previous window's count only into the next window", async () => {
+    const store = createMemoryRateLimitStore()
+    await store.hit("a", 0, MINUTE)
+    await store.hit("a", 0, MINUTE)
+    expect(await store.hit("a", MINUTE, MINUTE)).toEqual({ current: 1, previous: 2 })
+    expect(await store.hit("a", 5 * MINUTE, MINUTE)).toEqual({ current: 1, previous: 0 })
+  })
+
+  it("sweeps entries that no longer overlap any window", async () => {
+    const store = createMemoryRateLimitStore()
+    await store.hit("a", 0, MINUTE)
+    store.sweep(3 * MINUTE)
+    expect(await store.hit("a", MINUTE, MINUTE)).toEqual({ current: 1, previous: 0 })
+  })
+})
+
+describe("postgres store", () => {
+  it("reads both counts from the rate_limit_hit RPC", async () => {
+    rpc.mockResolvedValueOnce({ data: [{ current_count: 3, previous_count: 7 }], error: null })
+    const store = createPostgresRateLimitStore(createMemoryRateLimitStore())
+    expect(await store.hit("strict:1.2.3.4", 0, MINUTE)).toEqual({ current: 3, previous: 7 })
+    expect(rpc).toHaveBeenCalledWith("rate_limit_hit", {
+      p_key: "strict:1.2.3.4",
+      p_window_start: new Date(0).toISOString(),
+      p_window_ms: MINUTE,
+    })
+  })
+
+  it("falls back to the local store when the RPC fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    rpc.mockResolvedValueOnce({ data: null, error: { message: "function does not exist" } })
+    const fallback = createMemoryRateLimitStore()
+    await fallback.hit("k", 0, MINUTE)
+    const store = createPostgresRateLimitStore(fallback)
+    expect(await store.hit("k", 0, MINUTE)).toEqual({ current: 2, previous: 0 })
+  })
+})
+
+describe("parseTierOverrides", () => {
+  it("keeps well-formed overrides for known tiers", () => {
+    expect(parseTierOverrides({ strict: { requests: 3, windowMs: 120_000 } })).toEqual({
+      strict: { requests: 3, windowMs: 120_000 },
+    })
+  })
+
+  it("fills a partial override from the code default", () => {
+    expect(parseTierOverrides({ bulk: { requests: 20 } })).toEqual({
+      bulk: { requests: 20, windowMs: RATE_LIMIT_TIERS.bulk.windowMs },
+    })
+  })
+
+  it("drops unknown tiers and malformed values", () => {
+    expect(
+      parseTierOverrides({
+        nope: { requests: 1 },
+        strict: { requests: 0 },
+        public: { requests: "lots" },
+        webhook: { requests: 10, windowMs: 5 },
+      })
+    ).toEqual({})
+    expect(parseTierOverrides(null)).toEqual({})
+    expect(parseTierOverrides([1, 2])).toEqual({})
+  })
+})
+
+describe("checkRateLimit", () => {
+  it("applies a caller's own limit instead of the tier's", async () => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    const limit = { requests: 2, windowMs: MINUTE }
+
+    expect((await checkRateLimit("key:1", "api", limit)).success).toBe(true)
+    expect((await checkRateLimit("key:1", "api", limit)).remaining).toBe(0)
+    const third = await checkRateLimit("key:1", "api", limit)
+    expect(third).toMatchObject({ success: false, limit: 2 })
+  })
+})
+
+describe("createRateLimitHeaders", () => {
+  it("sends standard and legacy headers", () => {
+    const headers = createRateLimitHeaders(
+      { success: false, limit: 5, remaining: 0, reset: 1_000_060, retryAfter: 20, windowMs: MINUTE },
+      1_000_040_000
+    )
+    expect(headers).toMatchObject({
+      "RateLimit-Limit": "5",
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": "20",
+      "RateLimit-Policy": "5;w=60",
+      "X-RateLimit-Reset": "1000060",
+      "Retry-After": "20",
+    })
+  })
+})
+
+describe("rateLimitedRoute", () => {
+  it("puts the headers of the handler's checks on its successful response", async () => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    const handler = rateLimitedRoute(async (id: string) => {
+      await checkRateLimit(`route:${id}`, "public", { requests: 10, windowMs: MINUTE })
+      return new Response("ok")
+    })
+
+    const res = await handler("a")
+    expect(res.headers.get("RateLimit-Limit")).toBe("10")
+    expect(res.headers.get("RateLimit-Remaining")).toBe("9")
+    expect(res.headers.get("Retry-After")).toBeNull()
+  })
+
+  it("reports the check closest to running out when a handler makes several", async () => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    const handler = rateLimitedRoute(async () => {
+      await checkRateLimit("wide", "public", { requests: 100, windowMs: MINUTE })
+      await checkRateLimit("narrow", "strict", { requests: 2, windowMs: MINUTE })
+      return new Response("ok")
+    })
+
+    const res = await handler()
+    expect(res.headers.get("RateLimit-Limit")).toBe("2")
+    expect(res.headers.get("RateLimit-Remaining")).toBe("1")
+  })
+
+  it("leaves a 429 and a handler that checked nothing alone", async () => {
+    setRateLimitStore(createMemoryRateLimitStore())
+    const limit = { requests: 1, windowMs: MINUTE }
+    const limited = rateLimitedRoute(async () => {
+      const result = await checkRateLimit("busy", "public", limit)
+      return result.success ? new Response("ok") : rateLimitExceededResponse(result)
+    })
+    await limited()
+    const rejected = await limited()
+    expect(rejected.status).toBe(429)
+    expect(rejected.headers.get("Retry-After")).not.toBeNull()
+
+    const unchecked = await rateLimitedRoute(async () => new Response("ok"))()
+    expect(unchecked.headers.get("RateLimit-Limit")).toBeNull()
+  })
+})
@@ -1,10 +1,22 @@
 /**
  * Rate Limiting Utility
  *
- * Implements a sliding window rate limiter with in-memory storage.
- * Can be upgraded to Redis/Upstash for distributed deployments.
+ * Sliding-window-counter rate limiter with a pluggable counter store:
+ * - memory (default): a process-local Map. Fine for a single server; on
+ *   Vercel each instance counts separately.
+ * - postgres (RATE_LIMIT_STORE=postgres): shared rate_limit_counters rows via
+ *   the rate_limit_hit() RPC, so every instance enforces the same limit.
+ *
+ * Tier limits can be overridden without a deploy through the
+ * 'rate_limit_tiers' row in platform_settings.
+ *
+ * Route handlers wrapped in rateLimitedRoute() send the RateLimit-* headers
+ * of the checks they made on every response, not just on a 429.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { createAdminClient } from './supabase/server'
+
 // Rate limit configuration tiers
 export const RATE_LIMIT_TIERS = {
   // Strict: For sensitive endpoints (auth, password reset)
@@ -21,91 +33,244 @@ export const RATE_LIMIT_TIERS = {
 
   // Webhook: For payment webhooks (higher limit, verified by signature)
   webhook: { requests: 200, windowMs: 60 * 1000 }, // 200 requests per minute
+
+  // API: Public API (v1) keys without a limit of their own
+  api: { requests: 120, windowMs: 60 * 1000 }, // 120 requests per minute
 } as const
 
 export type RateLimitTier = keyof typeof RATE_LIMIT_TIERS
 
-// In-memory store for rate limiting
-// In production with multiple instances, use Redis/Upstash
-interface RateLimitEntry {
+export interface RateLimitConfig {
+  requests: number
+  windowMs: number
+}
+
+// ============================================================
+// Stores
+// ============================================================
+
+export interface WindowCounts {
+  current: number // hits in the current fixed window, including this one
+  previous: number // hits in the fixed window before it
+}
+
+/**
+ * Counter backend. `hit` records one request for `key` in the fixed window
+ * starting at `windowStart` (ms) and returns that window's count alongside
+ * the previous window's, atomically with respect to other callers.
+ */
+export interface RateLimitStore {
+  readonly name: string
+  hit(key: string, windowStart: number, windowMs: number): Promise<WindowCounts>
+}
+
+interface MemoryEntry {
+  windowStart: number
+  windowMs: number
   count: number
-  resetAt: number
+  previous: number
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore & { sweep(now: number): void } {
+  const entries = new Map<string, MemoryEntry>()
+
+  return {
+    name: 'memory',
+    async hit(key, windowStart, windowMs) {
+      const entry = entries.get(key)
+      if (entry && entry.windowStart === windowStart) {
+        entry.count++
+        return { current: entry.count, previous: entry.previous }
+      }
+      // A new window: the old one becomes "previous" only if it was the one
+      // immediately before; anything older no longer overlaps.
+      const previous = entry && entry.windowStart === windowStart - windowMs ? entry.count : 0
+      entries.set(key, { windowStart, windowMs, count: 1, previous })
+      return { current: 1, previous }
+    },
+    sweep(now) {
+      for (const [key, entry] of entries.entries()) {
+        if (entry.windowStart + entry.windowMs * 2 < now) {
+          entries.delete(key)
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Shared store backed by rate_limit_counters. If the RPC fails (migration not
+ * applied, database unreachable) the request is counted in `fallback`
+ * instead, so limits degrade to per-instance rather than disappearing.
+ */
+export function createPostgresRateLimitStore(fallback: RateLimitStore): RateLimitStore {
+  return {
+    name: 'postgres',
+    async hit(key, windowStart, windowMs) {
+      try {
+        const supabase = (await createAdminClient()) as any
+        const { data, error } = await supabase.rpc('rate_limit_hit', {
+          p_key: key,
+          p_window_start: new Date(windowStart).toISOString(),
+          p_window_ms: windowMs,
+        })
+        if (error) throw error
+        const row = Array.isArray(data) ? data[0] : data
+        if (!row) throw new Error('rate_limit_hit returned no row')
+        return { current: Number(row.current_count), previous: Number(row.previous_count) }
+      } catch (err: any) {
+        console.error('[RateLimit] Postgres store failed, using memory:', err?.message || err)
+        return fallback.hit(key, windowStart, windowMs)
+      }
+    },
+  }
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>()
+const memoryStore = createMemoryRateLimitStore()
 
 // Clean up expired entries periodically (every 5 minutes)
 if (typeof setInterval !== 'undefined') {
-  setInterval(() => {
-    const now = Date.now()
-    for (const [key, entry] of rateLimitStore.entries()) {
-      if (entry.resetAt < now) {
-        rateLimitStore.delete(key)
-      }
-    }
-  }, 5 * 60 * 1000)
+  setInterval(() => memoryStore.sweep(Date.now()), 5 * 60 * 1000)
+}
+
+let activeStore: RateLimitStore =
+  process.env.RATE_LIMIT_STORE?.trim() === 'postgres'
+    ? createPostgresRateLimitStore(memoryStore)
+    : memoryStore
+
+/**
+ * Swap the counter store (tests, or a future Redis backend).
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  activeStore = store
+}
+
+// ============================================================
+// Tier overrides (platform_settings.rate_limit_tiers)
+// ============================================================
+
+const OVERRIDES_TTL_MS = 60 * 1000
+let overridesCache: { loadedAt: number; value: Partial<Record<RateLimitTier, RateLimitConfig>> } | null = null
+
+/**
+ * Keep only well-formed overrides for known tiers. A bad value in
+ * platform_settings must never loosen a limit to "anything goes" or lock
+ * everyone out, so malformed entries are dropped, not coerced.
+ */
+export function parseTierOverrides(value: unknown): Partial<Record<RateLimitTier, RateLimitConfig>> {
+  const result: Partial<Record<RateLimitTier, RateLimitConfig>> = {}
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return result
+
+  for (const tier of Object.keys(RATE_LIMIT_TIERS) as RateLimitTier[]) {
+    const override = (value as Record<string, any>)[tier]
+    if (!override || typeof override !== 'object') continue
+    const requests = Number(override.requests ?? RATE_LIMIT_TIERS[tier].requests)
+    const windowMs = Number(override.windowMs ?? RATE_LIMIT_TIERS[tier].windowMs)
+    if (!Number.isInteger(requests) || requests < 1) continue
+    if (!Number.isInteger(windowMs) || windowMs < 1000) continue
+    result[tier] = { requests, windowMs }
+  }
+  return result
 }
 
+async function loadTierOverrides(now: number): Promise<Partial<Record<RateLimitTier, RateLimitConfig>>> {
+  if (overridesCache && now - overridesCache.loadedAt < OVERRIDES_TTL_MS) {
+    return overridesCache.value
+  }
+  let value: Partial<Record<RateLimitTier, RateLimitConfig>> = overridesCache?.value || {}
+  try {
+    const supabase = (await createAdminClient()) as any
+    const { data } = await supabase
+      .from('platform_settings')
+      .select('value')
+      .eq('key', 'rate_limit_tiers')
+      .maybeSingle()
+    value = parseTierOverrides(data?.value)
+  } catch (err: any) {
+    // Keep the last good overrides (or the code defaults) until the next try
+    console.error('[RateLimit] Failed to load tier overrides:', err?.message || err)
+  }
+  overridesCache = { loadedAt: now, value }
+  return value
+}
+
+/**
+ * Effective limit for a tier: the platform_settings override if there is one,
+ * otherwise the code default above.
+ */
+export async function getTierConfig(tier: RateLimitTier, now: number = Date.now()): Promise<RateLimitConfig> {
+  const overrides = await loadTierOverrides(now)
+  return overrides[tier] || RATE_LIMIT_TIERS[tier]
+}
+
+// ============================================================
+// Check
+// ============================================================
+
 export interface RateLimitResult {
   success: boolean
   limit: number
   remaining: number
   reset: number // Unix timestamp when the rate limit resets
   retryAfter?: number // Seconds until retry is allowed
+  windowMs: number
 }
 
 /**
- * Check rate limit for a given identifier
+ * Sliding-window-counter decision. The previous fixed window's hits count in
+ * proportion to how much of it still falls inside the trailing window, so a
+ * burst straddling a window boundary can't get twice the limit through.
  */
-export function checkRateLimit(
-  identifier: string,
-  tier: RateLimitTier = 'public'
+export function evaluateSlidingWindow(
+  counts: WindowCounts,
+  config: RateLimitConfig,
+  windowStart: number,
+  now: number
 ): RateLimitResult {
-  const config = RATE_LIMIT_TIERS[tier]
-  const now = Date.now()
-  const key = `${tier}:${identifier}`
+  const elapsed = now - windowStart
+  const previousWeight = Math.max(0, 1 - elapsed / config.windowMs)
+  const estimated = Math.floor(counts.previous * previousWeight) + counts.current
+  const resetAt = windowStart + config.windowMs
 
-  let entry = rateLimitStore.get(key)
-
-  // If no entry or expired, create new one
-  if (!entry || entry.resetAt < now) {
-    entry = {
-      count: 1,
-      resetAt: now + config.windowMs,
-    }
-    rateLimitStore.set(key, entry)
-
-    return {
-      success: true,
-      limit: config.requests,
-      remaining: config.requests - 1,
-      reset: Math.floor(entry.resetAt / 1000),
-    }
-  }
-
-  // Increment count
-  entry.count++
-
-  // Check if over limit
-  if (entry.count > config.requests) {
-    const retryAfter = Math.ceil((entry.resetAt - now) / 1000)
+  if (estimated > config.requests) {
     return {
       success: false,
       limit: config.requests,
       remaining: 0,
-      reset: Math.floor(entry.resetAt / 1000),
-      retryAfter,
+      reset: Math.floor(resetAt / 1000),
+      retryAfter: Math.max(1, Math.ceil((resetAt - now) / 1000)),
+      windowMs: config.windowMs,
     }
   }
 
   return {
     success: true,
     limit: config.requests,
-    remaining: config.requests - entry.count,
-    reset: Math.floor(entry.resetAt / 1000),
+    remaining: config.requests - estimated,
+    reset: Math.floor(resetAt / 1000),
+    windowMs: config.windowMs,
   }
 }
 
+/**
+ * Check rate limit for a given identifier. `override` replaces the tier's
+ * limit for callers that carry their own (per-key API limits); counts are
+ * still kept under the tier's namespace.
+ */
+export async function checkRateLimit(
+  identifier: string,
+  tier: RateLimitTier = 'public',
+  override?: RateLimitConfig
+): Promise<RateLimitResult> {
+  const now = Date.now()
+  const config = override || (await getTierConfig(tier, now))
+  const windowStart = Math.floor(now / config.windowMs) * config.windowMs
+  const counts = await activeStore.hit(`${tier}:${identifier}`, windowStart, config.windowMs)
+  const result = evaluateSlidingWindow(counts, config, windowStart, now)
+  recordRouteCheck(result)
+  return result
+}
+
 /**
  * Get client IP from request headers
  * Handles various proxy configurations
@@ -133,10 +298,17 @@ export function getClientIp(request: Request): string {
 }
 
 /**
- * Create rate limit headers for response
+ * Create rate limit headers for response: the IETF RateLimit-* fields
+ * (Reset is seconds from now) plus the legacy X-RateLimit-* ones (Reset is a
+ * Unix timestamp) that existing clients already read.
  */
-export function createRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+export function createRateLimitHeaders(result: RateLimitResult, now: number = Date.now()): Record<string, string> {
+  const resetIn = Math.max(0, result.reset - Math.floor(now / 1000))
   const headers: Record<string, string> = {
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': resetIn.toString(),
+    'RateLimit-Policy': `${result.limit};w=${Math.round(result.windowMs / 1000)}`,
     'X-RateLimit-Limit': result.limit.toString(),
     'X-RateLimit-Remaining': result.remaining.toString(),
     'X-RateLimit-Reset': result.reset.toString(),
@@ -149,6 +321,17 @@ export function createRateLimitHeaders(result: RateLimitResult): Record<string,
   return headers
 }
 
+/**
+ * Copy rate limit headers onto a successful response, so clients can pace
+ * themselves before they hit a 429.
+ */
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(createRateLimitHeaders(result))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
 /**
  * Rate limit response helper
  */
@@ -168,3 +351,44 @@ export function rateLimitExceededResponse(result: RateLimitResult): Response {
     }
   )
 }
+
+// ============================================================
+// Headers on every response
+// ============================================================
+
+// The checks made while a rateLimitedRoute handler runs. When a handler
+// checks more than one limit, the one closest to running out is reported.
+const routeChecks = new AsyncLocalStorage<{ result: RateLimitResult | null }>()
+
+function recordRouteCheck(result: RateLimitResult): void {
+  const store = routeChecks.getStore()
+  if (!store) return
+  if (!store.result || result.remaining / result.limit < store.result.remaining / store.result.limit) {
+    store.result = result
+  }
+}
+
+/**
+ * Wraps a route handler so the response it returns carries the RateLimit-*
+ * headers of the checkRateLimit() calls it made -- the handler checks its
+ * limits where and how it always has, and doesn't have to wrap each return.
+ * A response that already has them (a 429, or one a handler wrapped itself)
+ * is left alone, as is one the handler made without checking any limit.
+ */
+export function rateLimitedRoute<Args extends unknown[], R extends Response>(
+  handler: (...args: Args) => Promise<R>
+): (...args: Args) => Promise<R> {
+  return (...args: Args) =>
+    routeChecks.run({ result: null }, async () => {
+      const response = await handler(...args)
+      const result = routeChecks.getStore()?.result
+      if (result && !response.headers.has('RateLimit-Limit')) {
+        try {
+          withRateLimitHeaders(response, result)
+        } catch {
+          // Immutable headers (a proxied fetch Response); send it as it is.
+        }
+      }
+      return response
+    })
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildRefundableLines,
+  canDecideRefund,
+  creditNoteNumber,
+  isRefundReasonCode,
+  paymentStatusAfterRefund,
+  splitRefundGst,
+  validateRefundItems,
+} from "./refunds"
+
+const REG = "11111111-1111-1111-1111-111111111111"
+const ADDON_ROW = "22222222-2222-2222-2222-222222222222"
+
+function lines(previous: any[] = []) {
+  return buildRefundableLines(
+    [{ id: REG, registration_number: "R-001", attendee_name: "Dr K. Thomas", ticket_name: "Delegate", total_amount: 12000 }],
+    [{ id: ADDON_ROW, registration_id: REG, name: "Gala Dinner", total_price: 2000 }],
+    previous
+  )
+}
+
+describe("buildRefundableLines", () => {
+  it("lists the ticket and each add-on row", () => {
+    const result = lines()
+    expect(result).toHaveLength(2)
+    expect(result[0]).toMatchObject({ item_type: "ticket", paid: 12000, refunded: 0 })
+    expect(result[0].description).toContain("Delegate")
+    expect(result[1]).toMatchObject({ item_type: "addon", registration_addon_id: ADDON_ROW, paid: 2000 })
+  })
+
+  it("nets out earlier processed refunds per line", () => {
+    const result = lines([
+      { item_type: "ticket", registration_id: REG, amount: 5000 },
+      { item_type: "addon", registration_id: REG, registration_addon_id: ADDON_ROW, amount: 500 },
+    ])
+    expect(result[0].refunded).toBe(5000)
+    expect(result[1].refunded).toBe(500)
+  })
+})
+
+describe("validateRefundItems", () => {
+  it("accepts a partial add-on refund and does not release the seat", () => {
+    const result = validateRefundItems(
+      [{ item_type: "addon", registration_id: REG, registration_addon_id: ADDON_ROW, amount: 1000 }],
+      lines(),
+      14000
+    )
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.total).toBe(1000)
+    expect(result.items[0].releases_seat).toBe(false)
+  })
+
+  it("releases the seat only when the ticket's remaining balance is refunded in full", () => {
+    const partial = validateRefundItems([{ item_type: "ticket", registration_id: REG, amount: 6000 }], lines(), 14000)
+    const full = validateRefundItems(
+      [{ item_type: "ticket", registration_id: REG, amount: 7000 }],
+      lines([{ item_type: "ticket", registration_id: REG, amount: 5000 }]),
+      9000
+    )
+    expect(partial.ok && partial.items[0].releases_seat).toBe(false)
+    expect(full.ok && full.items[0].releases_seat).toBe(true)
+  })
+
+  it("rejects more than a line has left", () => {
+    const result = validateRefundItems([{ item_type: "addon", registration_id: REG, registration_addon_id: ADDON_ROW, amount: 2500 }], lines(), 14000)
+    expect(result).toEqual({ ok: false, error: expect.stringMatching(/only ₹2000 left/) })
+  })
+
+  it("rejects more than the payment has left even when each line fits", () => {
+    const result = validateRefundItems(
+      [
+        { item_type: "ticket", registration_id: REG, amount: 12000 },
+        { item_type: "addon", registration_id: REG, registration_addon_id: ADDON_ROW, amount: 2000 },
+      ],
+      lines(),
+      12000
+    )
+    expect(result.ok).toBe(false)
+  })
+
+  it("rejects lines from another order, duplicates, zero amounts and empty requests", () => {
+    expect(validateRefundItems([], lines(), 14000).ok).toBe(false)
+    expect(validateRefundItems([{ item_type: "ticket", registration_id: "other", amount: 10 }], lines(), 14000).ok).toBe(false)
+    expect(validateRefundItems([{ item_type: "ticket", registration_id: REG, amount: 0 }], lines(), 14000).ok).toBe(false)
+    expect(
+      validateRefundItems(
+        [
+          { item_type: "ticket", registration_id: REG, amount: 10 },
+          { item_type: "ticket", registration_id: REG, amount: 10 },
+        ],
+        lines(),
+        14000
+      ).ok
+    ).toBe(false)
+  })
+})
+
+describe("canDecideRefund", () => {
+  it("never lets the requester decide their own request", () => {
+    expect(canDecideRefund({ status: "requested", requested_by: "u1" }, "u1").ok).toBe(false)
+  })
+
+  it("lets a second person decide a waiting or failed request", () => {
+    expect(canDecideRefund({ status: "requested", requested_by: "u1" }, "u2").ok).toBe(true)
+    expect(canDecideRefund({ status: "failed", requested_by: "u1" }, "u2").ok).toBe(true)
+  })
+
+  it("refuses requests that are already settled", () => {
+    expect(canDecideRefund({ status: "processed", requested_by: "u1" }, "u2").ok).toBe(false)
+    expect(canDecideRefund({ status: "rejected", requested_by: "u1" }, "u2").ok).toBe(false)
+  })
+})
+
+describe("splitRefundGst", () => {
+  it("carries the payment's own tax proportion when GST was charged on top", () => {
+    expect(splitRefundGst(1180, { net_amount: 11800, tax_amount: 1800 })).toEqual({ taxable: 1000, gst: 180 })
+  })
+
+  it("back-calculates from a GST-inclusive rate when no tax line exists", () => {
+    expect(splitRefundGst(11800, { net_amount: 11800, tax_amount: 0 }, 18)).toEqual({ taxable: 10000, gst: 1800 })
+  })
+
+  it("returns zero GST when neither applies", () => {
+    expect(splitRefundGst(500, { net_amount: 500, tax_amount: null })).toEqual({ taxable: 500, gst: 0 })
+  })
+})
+
+describe("helpers", () => {
+  it("numbers credit notes per payment", () => {
+    expect(creditNoteNumber("PAY-2026-AB12C", 2)).toBe("CN-PAY-2026-AB12C-2")
+  })
+
+  it("derives payment status from the refunded total", () => {
+    expect(paymentStatusAfterRefund(12000, 12000)).toBe("refunded")
+    expect(paymentStatusAfterRefund(12000, 4000)).toBe("partially_refunded")
+  })
+
+  it("recognises reason codes", () => {
+    expect(isRefundReasonCode("duplicate_payment")).toBe(true)
+    expect(isRefundReasonCode("toString")).toBe(false)
+  })
+})
@@ -0,0 +1,237 @@
+// Pure rules for the refund workflow (refund_requests / refund_request_items).
+// Everything that decides HOW MUCH can go back, WHO may approve it and WHAT the
+// credit note says lives here, so the routes under /api/payments/[id]/refunds
+// and the credit-note PDF stay thin and these rules stay unit-testable.
+
+export const REFUND_REASON_CODES = {
+  attendee_cancelled: "Attendee cancelled",
+  duplicate_payment: "Duplicate payment",
+  event_change: "Event cancelled or rescheduled",
+  pricing_error: "Overcharged / pricing error",
+  addon_unavailable: "Add-on withdrawn or unavailable",
+  ticket_downgrade: "Ticket downgrade",
+  goodwill: "Goodwill (discretionary)",
+  other: "Other",
+} as const
+
+export type RefundReasonCode = keyof typeof REFUND_REASON_CODES
+
+export type RefundStatus = "requested" | "approved" | "rejected" | "processed" | "failed" | "needs_attention"
+
+// Statuses whose money has left: 'needs_attention' is a gateway refund that
+// went through but could not be recorded, so it counts against the balance.
+export const REFUND_PAID_OUT_STATUSES: RefundStatus[] = ["processed", "needs_attention"]
+
+export type RefundItemType = "ticket" | "addon"
+
+export function isRefundReasonCode(value: unknown): value is RefundReasonCode {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(REFUND_REASON_CODES, value)
+}
+
+// One refundable line of an order: a registration's ticket, or one of its
+// registration_addons rows. `paid` is what was charged for the line;
+// `refunded` is what earlier paid-out requests already gave back for it.
+export interface RefundableLine {
+  item_type: RefundItemType
+  registration_id: string
+  registration_addon_id: string | null
+  description: string
+  paid: number
+  refunded: number
+}
+
+export interface RefundItemInput {
+  item_type: RefundItemType
+  registration_id: string
+  registration_addon_id?: string | null
+  amount: number
+}
+
+export interface ValidatedRefundItem {
+  item_type: RefundItemType
+  registration_id: string
+  registration_addon_id: string | null
+  description: string
+  amount: number
+  releases_seat: boolean
+}
+
+export type RefundValidation =
+  | { ok: true; items: ValidatedRefundItem[]; total: number }
+  | { ok: false; error: string }
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function lineKey(line: { item_type: RefundItemType; registration_id: string; registration_addon_id?: string | null }): string {
+  return line.item_type === "addon"
+    ? `addon:${line.registration_addon_id}`
+    : `ticket:${line.registration_id}`
+}
+
+/**
+ * Build the refundable lines of an order from its registrations and add-on
+ * rows, netting out what earlier processed refunds already returned.
+ * `previousItems` should only contain items of PROCESSED requests — a request
+ * still awaiting approval doesn't reduce the balance. The approve route runs
+ * validateRefundItems again against freshly built lines, so of two pending
+ * requests for the same line only the first to be processed can go through.
+ */
+export function buildRefundableLines(
+  registrations: { id: string; registration_number?: string | null; attendee_name?: string | null; ticket_name?: string | null; total_amount?: number | null }[],
+  addons: { id: string; registration_id: string; name?: string | null; total_price?: number | null }[],
+  previousItems: { item_type: RefundItemType; registration_id: string; registration_addon_id?: string | null; amount: number }[]
+): RefundableLine[] {
+  const refundedByKey = new Map<string, number>()
+  for (const item of previousItems) {
+    const key = lineKey(item)
+    refundedByKey.set(key, roundMoney((refundedByKey.get(key) || 0) + Number(item.amount || 0)))
+  }
+
+  const lines: RefundableLine[] = []
+  for (const reg of registrations) {
+    const label = [reg.ticket_name || "Registration", reg.attendee_name, reg.registration_number]
+      .filter(Boolean)
+      .join(" — ")
+    lines.push({
+      item_type: "ticket",
+      registration_id: reg.id,
+      registration_addon_id: null,
+      description: label,
+      paid: roundMoney(Number(reg.total_amount || 0)),
+      refunded: refundedByKey.get(`ticket:${reg.id}`) || 0,
+    })
+  }
+  for (const addon of addons) {
+    lines.push({
+      item_type: "addon",
+      registration_id: addon.registration_id,
+      registration_addon_id: addon.id,
+      description: addon.name || "Add-on",
+      paid: roundMoney(Number(addon.total_price || 0)),
+      refunded: refundedByKey.get(`addon:${addon.id}`) || 0,
+    })
+  }
+  return lines
+}
+
+/**
+ * Validate requested line amounts against what each line (and the payment as
+ * a whole) still has available. A ticket line refunded down to zero marks the
+ * seat for release; a partial ticket refund keeps the registration.
+ *
+ * `registration.total_amount` on a ticket line can include the add-ons bought
+ * with it, so the per-line cap alone can double-count; `paymentBalance` (net
+ * amount minus everything already refunded) is the hard ceiling.
+ */
+export function validateRefundItems(
+  requested: RefundItemInput[],
+  lines: RefundableLine[],
+  paymentBalance: number
+): RefundValidation {
+  if (requested.length === 0) {
+    return { ok: false, error: "Select at least one ticket or add-on to refund." }
+  }
+
+  const byKey = new Map(lines.map((l) => [lineKey(l), l]))
+  const seen = new Set<string>()
+  const items: ValidatedRefundItem[] = []
+
+  for (const input of requested) {
+    const key = lineKey(input)
+    const line = byKey.get(key)
+    if (!line) {
+      return { ok: false, error: "A selected line does not belong to this order." }
+    }
+    if (seen.has(key)) {
+      return { ok: false, error: `"${line.description}" is listed twice.` }
+    }
+    seen.add(key)
+
+    const amount = roundMoney(Number(input.amount))
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return { ok: false, error: `Enter a refund amount for "${line.description}".` }
+    }
+    const available = roundMoney(line.paid - line.refunded)
+    if (amount > available) {
+      return { ok: false, error: `"${line.description}" has only ₹${available} left to refund.` }
+    }
+
+    items.push({
+      item_type: line.item_type,
+      registration_id: line.registration_id,
+      registration_addon_id: line.registration_addon_id,
+      description: line.description,
+      amount,
+      releases_seat: line.item_type === "ticket" && amount === available,
+    })
+  }
+
+  const total = roundMoney(items.reduce((sum, i) => sum + i.amount, 0))
+  if (total > roundMoney(paymentBalance)) {
+    return { ok: false, error: `Only ₹${roundMoney(paymentBalance)} of this payment is left to refund.` }
+  }
+
+  return { ok: true, items, total }
+}
+
+/**
+ * Two-person rule: the person who raised a request can never approve or
+ * reject it, whatever their role — super admins included. Only requests
+ * still waiting, or whose gateway call failed, can be decided.
+ */
+export function canDecideRefund(
+  request: { status: RefundStatus; requested_by: string },
+  userId: string
+): { ok: true } | { ok: false; error: string } {
+  if (request.requested_by === userId) {
+    return { ok: false, error: "A refund must be approved by someone other than the person who requested it." }
+  }
+  if (request.status !== "requested" && request.status !== "failed") {
+    return { ok: false, error: `This refund is already ${request.status}.` }
+  }
+  return { ok: true }
+}
+
+/**
+ * GST portion of a refund, for the credit note. When the payment charged GST
+ * on top (tax_amount > 0) the refund carries the same proportion. When the
+ * ticket price was GST-inclusive, the tax is back-calculated from the rate the
+ * same way /api/orders/[id]/receipt does. Otherwise there is no GST to reverse.
+ */
+export function splitRefundGst(
+  amount: number,
+  payment: { net_amount?: number | null; tax_amount?: number | null },
+  inclusiveRate?: number | null
+): { taxable: number; gst: number } {
+  const net = Number(payment.net_amount || 0)
+  const tax = Number(payment.tax_amount || 0)
+  let gst = 0
+  if (tax > 0 && net > 0) {
+    gst = (amount * tax) / net
+  } else if (inclusiveRate && inclusiveRate > 0) {
+    gst = amount - amount / (1 + inclusiveRate / 100)
+  }
+  gst = roundMoney(gst)
+  return { taxable: roundMoney(amount - gst), gst }
+}
+
+/**
+ * Credit notes are numbered per payment: the first processed refund against
+ * PAY-2026-AB12C is CN-PAY-2026-AB12C-1, and `sequence` is one more than the
+ * requests already numbered. Deterministic from data already on the rows, so
+ * no extra sequence table is needed -- only one refund per payment is ever
+ * being processed at a time (see the approve route).
+ */
+export function creditNoteNumber(paymentNumber: string, sequence: number): string {
+  return `CN-${paymentNumber}-${sequence}`
+}
+
+/**
+ * payments.status after a refund is processed. Mirrors the values the cancel
+ * route and the orders page already use.
+ */
+export function paymentStatusAfterRefund(netAmount: number, totalRefunded: number): "refunded" | "partially_refunded" {
+  return roundMoney(totalRefunded) >= roundMoney(netAmount) ? "refunded" : "partially_refunded"
+}
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyImportMapping,
+  guessImportMapping,
+  isInvoiceExempt,
+  isPlaceholderEmail,
+  planImport,
+  type ExistingRegistration,
+  type ImportOptions,
+  type ImportRow,
+  type ImportTicket,
+} from "./registration-import"
+
+const DELEGATE: ImportTicket = { id: "t-delegate", name: "Delegate", price: 5000, quantity_total: null, quantity_sold: 0 }
+const WORKSHOP: ImportTicket = { id: "t-workshop", name: "Workshop Pass", price: 2000, quantity_total: 2, quantity_sold: 1 }
+const TICKETS = [DELEGATE, WORKSHOP]
+
+const EXISTING: ExistingRegistration[] = [
+  {
+    id: "r1",
+    registration_number: "122A1001",
+    attendee_name: "Dr. Asha Rao",
+    attendee_email: "asha@example.com",
+    attendee_phone: "+91 98765 43210",
+  },
+]
+
+const PAID: ImportOptions = { mode: "paid", default_ticket_id: DELEGATE.id }
+
+function row(fields: Partial<ImportRow>): ImportRow {
+  return {
+    name: "",
+    email: null,
+    phone: null,
+    designation: null,
+    institution: null,
+    city: null,
+    state: null,
+    country: null,
+    ticket_name: null,
+    amount: null,
+    custom_fields: {},
+    ...fields,
+  }
+}
+
+describe("guessImportMapping", () => {
+  it("maps exact aliases, then loose matches, and keeps the rest as custom fields", () => {
+    const mapping = guessImportMapping([
+      "S.No",
+      "Full Name",
+      "Email ID",
+      "Delegate Mobile Number",
+      "Ticket Name",
+      "Q: Food preference",
+    ])
+    expect(mapping).toEqual({
+      "S.No": "skip",
+      "Full Name": "name",
+      "Email ID": "email",
+      "Delegate Mobile Number": "phone",
+      "Ticket Name": "ticket_name",
+      "Q: Food preference": "custom:Food preference",
+    })
+  })
+
+  it("maps each field to one column only", () => {
+    const mapping = guessImportMapping(["Email", "Alternate Email"])
+    expect(mapping.Email).toBe("email")
+    expect(mapping["Alternate Email"]).toBe("custom:Alternate Email")
+  })
+})
+
+describe("applyImportMapping", () => {
+  it("reads mapped columns, treats placeholders as empty and drops skipped columns", () => {
+    const [mapped] = applyImportMapping(
+      [{ Name: " Dr. Vikram ", Mobile: "N/A", Hospital: "AIIMS", Notes: "veg", Id: "7" }],
+      { Name: "name", Mobile: "phone", Hospital: "institution", Notes: "custom:Food", Id: "skip" }
+    )
+    expect(mapped.name).toBe("Dr. Vikram")
+    expect(mapped.phone).toBeNull()
+    expect(mapped.institution).toBe("AIIMS")
+    expect(mapped.custom_fields).toEqual({ Food: "veg" })
+  })
+})
+
+describe("planImport", () => {
+  it("creates new rows at the ticket price and numbers rows as the spreadsheet does", () => {
+    const plan = planImport([row({ name: "Dr. Meera", email: "Meera@Example.com" })], TICKETS, EXISTING, PAID)
+    expect(plan.rows[0]).toMatchObject({
+      row: 2,
+      action: "create",
+      email: "meera@example.com",
+      ticket_type_id: DELEGATE.id,
+      amount: 5000,
+    })
+    expect(plan.summary).toMatchObject({ total: 1, create: 1, by_ticket: { Delegate: 1 } })
+  })
+
+  it("flags duplicates of existing registrations by email", () => {
+    const plan = planImport([row({ name: "Asha Rao", email: "ASHA@example.com" })], TICKETS, EXISTING, PAID)
+    expect(plan.rows[0]).toMatchObject({
+      action: "duplicate",
+      matched_by: "email",
+      existing: { registration_number: "122A1001", name: "Dr. Asha Rao" },
+    })
+  })
+
+  it("matches on phone only when the row has no email", () => {
+    const plan = planImport(
+      [
+        row({ name: "Asha's PA", email: "pa@example.com", phone: "9876543210" }),
+        row({ name: "Asha", phone: "09876543210" }),
+      ],
+      TICKETS,
+      EXISTING,
+      PAID
+    )
+    expect(plan.rows.map((r) => r.action)).toEqual(["create", "duplicate"])
+    expect(plan.rows[1]).toMatchObject({ matched_by: "phone" })
+  })
+
+  it("flags repeats within the same file against the earlier row", () => {
+    const plan = planImport(
+      [row({ name: "Ravi", email: "ravi@example.com" }), row({ name: "Ravi K", email: "ravi@example.com" })],
+      TICKETS,
+      [],
+      PAID
+    )
+    expect(plan.rows[1]).toMatchObject({ action: "duplicate", existing: null, earlier_row: 2 })
+  })
+
+  it("rejects rows it can't import", () => {
+    const plan = planImport(
+      [
+        row({ name: "", email: "x@example.com" }),
+        row({ name: "No Contact" }),
+        row({ name: "Bad Email", email: "not-an-email" }),
+        row({ name: "Unknown Ticket", email: "u@example.com", ticket_name: "Gala Dinner" }),
+      ],
+      TICKETS,
+      [],
+      PAID
+    )
+    expect(plan.rows.map((r) => r.action === "error" && r.error)).toEqual([
+      "Name is missing",
+      "Needs an email or a phone number",
+      'Invalid email "not-an-email"',
+      'No ticket matches "Gala Dinner"',
+    ])
+    expect(plan.summary.error).toBe(4)
+  })
+
+  it("stops at the ticket's capacity, counting earlier rows and held seats", () => {
+    const rows = [
+      row({ name: "A", email: "a@example.com", ticket_name: "workshop" }),
+      row({ name: "B", email: "b@example.com", ticket_name: "workshop" }),
+    ]
+    expect(planImport(rows, TICKETS, [], PAID).rows.map((r) => r.action)).toEqual(["create", "error"])
+    expect(
+      planImport(rows, TICKETS, [], PAID, new Map([[WORKSHOP.id, 1]])).rows.map((r) => r.action)
+    ).toEqual(["error", "error"])
+  })
+
+  it("prefers a ticket picked in the review over the ticket column", () => {
+    const plan = planImport(
+      [row({ name: "A", email: "a@example.com", ticket_name: "Delegate", ticket_type_id: WORKSHOP.id })],
+      TICKETS,
+      [],
+      PAID
+    )
+    expect(plan.rows[0]).toMatchObject({ action: "create", ticket_type_id: WORKSHOP.id })
+  })
+
+  it("imports free passes at zero and gives phone-only rows a placeholder email", () => {
+    const plan = planImport(
+      [row({ name: "Sponsor Guest", phone: "+91 99887 76655", amount: "5000" })],
+      TICKETS,
+      [],
+      { mode: "sponsor", default_ticket_id: DELEGATE.id, organization: "Acme Medical" }
+    )
+    const created = plan.rows[0]
+    expect(created).toMatchObject({ action: "create", amount: 0, placeholder_email: true })
+    expect(created.action === "create" && isPlaceholderEmail(created.email)).toBe(true)
+  })
+})
+
+describe("isInvoiceExempt", () => {
+  it("is true only for the explicit flag", () => {
+    expect(isInvoiceExempt({ invoice_exempt: true })).toBe(true)
+    expect(isInvoiceExempt({ invoice_exempt: "true" })).toBe(false)
+    expect(isInvoiceExempt(null)).toBe(false)
+  })
+})
@@ -0,0 +1,349 @@
+/**
+ * Bulk registration import
+ *
+ * Pure planning for the registrations/import wizard: map spreadsheet columns
+ * onto registration fields, pick each row's ticket and price, and decide —
+ * against the event's existing registrations and the rest of the file — which
+ * rows would be created, which are duplicates and which can't be imported.
+ * The same plan is shown as the dry-run diff and then executed by
+ * /api/registrations/import, so what the admin reviews is what gets written.
+ */
+
+export const IMPORT_FIELDS = [
+  { key: "name", label: "Name", required: true, aliases: ["name", "full name", "attendee name", "participant name", "dr. name", "dr name", "delegate name"] },
+  { key: "email", label: "Email", aliases: ["email", "email address", "e-mail", "mail", "mail id", "email id"] },
+  { key: "phone", label: "Phone", aliases: ["phone", "mobile", "mobile number", "phone number", "contact", "contact number", "whatsapp", "cell"] },
+  { key: "designation", label: "Designation", aliases: ["designation", "title", "position", "role"] },
+  { key: "institution", label: "Institution", aliases: ["institution", "hospital", "organization", "organisation", "company", "college", "address"] },
+  { key: "city", label: "City", aliases: ["city", "town"] },
+  { key: "state", label: "State", aliases: ["state"] },
+  { key: "country", label: "Country", aliases: ["country"] },
+  { key: "ticket_name", label: "Ticket", aliases: ["ticket", "ticket name", "ticket type", "category"] },
+  { key: "amount", label: "Amount Paid", aliases: ["amount", "amount paid", "total amount", "fee", "price"] },
+] as const
+
+export type ImportField = (typeof IMPORT_FIELDS)[number]["key"]
+
+/** What a spreadsheet column becomes: a field, a custom field, or nothing. */
+export type ImportTarget = ImportField | "skip" | `custom:${string}`
+
+/** Spreadsheet header → target. */
+export type ImportMapping = Record<string, ImportTarget>
+
+export const IMPORT_TICKET_MODES = {
+  paid: { label: "Paid", description: "Charged the ticket price (or the amount column)" },
+  complimentary: { label: "Complimentary", description: "Free guest pass" },
+  sponsor: { label: "Sponsor", description: "Free pass on a sponsor's allocation" },
+  exhibitor: { label: "Exhibitor", description: "Free pass for exhibitor staff" },
+} as const
+
+export type ImportTicketMode = keyof typeof IMPORT_TICKET_MODES
+
+// Rows without an email still get a registration (the door checks in by phone
+// or name); welcome sends and email blasts skip this domain.
+export const PLACEHOLDER_EMAIL_DOMAIN = "noemail.local"
+
+// Serial-number columns carry nothing worth keeping
+const SKIP_HEADERS = ["s.no", "s. no", "sr.no", "sr. no", "sl.no", "sl. no", "serial", "#"]
+
+export interface ImportRow {
+  name: string
+  email: string | null
+  phone: string | null
+  designation: string | null
+  institution: string | null
+  city: string | null
+  state: string | null
+  country: string | null
+  ticket_name: string | null
+  amount: string | null
+  /** Ticket chosen for this row in the wizard; beats the ticket column. */
+  ticket_type_id?: string | null
+  custom_fields: Record<string, string>
+}
+
+export interface ImportTicket {
+  id: string
+  name: string
+  price: number
+  quantity_total: number | null
+  quantity_sold: number | null
+}
+
+export interface ExistingRegistration {
+  id: string
+  registration_number: string
+  attendee_name: string
+  attendee_email: string | null
+  attendee_phone: string | null
+}
+
+export interface ImportOptions {
+  mode: ImportTicketMode
+  /** Ticket for rows that neither name one nor had one picked. */
+  default_ticket_id: string | null
+  /** Sponsor or exhibitor company, recorded on each registration. */
+  organization?: string | null
+}
+
+export type DuplicateSource = "email" | "phone"
+
+export type PlannedRow =
+  | {
+      row: number
+      action: "create"
+      name: string
+      email: string
+      placeholder_email: boolean
+      phone: string | null
+      ticket_type_id: string
+      ticket_name: string
+      amount: number
+      data: ImportRow
+    }
+  | {
+      row: number
+      action: "duplicate"
+      name: string
+      email: string | null
+      phone: string | null
+      matched_by: DuplicateSource
+      /** The existing registration, or null when the earlier match is in this file. */
+      existing: { registration_number: string; name: string } | null
+      earlier_row: number | null
+    }
+  | { row: number; action: "error"; name: string; error: string }
+
+export interface ImportPlan {
+  rows: PlannedRow[]
+  summary: {
+    total: number
+    create: number
+    duplicate: number
+    error: number
+    /** New registrations per ticket name. */
+    by_ticket: Record<string, number>
+  }
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\s+/g, " ").trim()
+
+/**
+ * First guess at the mapping: exact alias matches, then headers that contain
+ * an alias ("Delegate Mobile Number" → phone). Anything left over is kept as
+ * a custom field rather than dropped.
+ */
+export function guessImportMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {}
+  const taken = new Set<ImportField>()
+
+  const claim = (header: string, field: ImportField) => {
+    mapping[header] = field
+    taken.add(field)
+  }
+
+  for (const header of headers) {
+    const h = normalizeHeader(header)
+    if (!h || SKIP_HEADERS.includes(h)) {
+      mapping[header] = "skip"
+      continue
+    }
+    const exact = IMPORT_FIELDS.find((f) => !taken.has(f.key) && (f.aliases as readonly string[]).includes(h))
+    if (exact) claim(header, exact.key)
+  }
+
+  for (const header of headers) {
+    if (mapping[header]) continue
+    const h = normalizeHeader(header)
+    // "ticket name" contains "name", so ticket has to be tried before name
+    const loose = [...IMPORT_FIELDS]
+      .sort((a, b) => (a.key === "name" ? 1 : 0) - (b.key === "name" ? 1 : 0))
+      .find((f) => !taken.has(f.key) && f.aliases.some((alias) => alias.length > 3 && h.includes(alias)))
+    if (loose) claim(header, loose.key)
+    // Tito-style "Q: question" columns keep just the question
+    else mapping[header] = `custom:${header.trim().replace(/^q:\s*/i, "")}`
+  }
+
+  return mapping
+}
+
+const clean = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null
+  const text = String(value).trim()
+  return text && !["n/a", "na", "-", "nil"].includes(text.toLowerCase()) ? text : null
+}
+
+/**
+ * Spreadsheet rows → ImportRows using the admin's mapping.
+ */
+export function applyImportMapping(rows: Record<string, unknown>[], mapping: ImportMapping): ImportRow[] {
+  return rows.map((raw) => {
+    const row: ImportRow = {
+      name: "",
+      email: null,
+      phone: null,
+      designation: null,
+      institution: null,
+      city: null,
+      state: null,
+      country: null,
+      ticket_name: null,
+      amount: null,
+      custom_fields: {},
+    }
+    for (const [header, target] of Object.entries(mapping)) {
+      const value = clean(raw[header])
+      if (!value || target === "skip") continue
+      if (target.startsWith("custom:")) {
+        row.custom_fields[target.slice("custom:".length)] = value
+      } else if (target === "name") {
+        row.name = value
+      } else {
+        row[target as Exclude<ImportField, "name">] = value
+      }
+    }
+    return row
+  })
+}
+
+/** Digits only; the last ten are what identify an Indian mobile number. */
+export function phoneKey(phone: string | null | undefined): string | null {
+  const digits = (phone || "").replace(/\D/g, "")
+  return digits.length >= 7 ? digits.slice(-10) : null
+}
+
+export function placeholderEmail(name: string, phone: string | null): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "").slice(0, 24) || "anon"
+  return `${slug}-${phoneKey(phone) || "x"}@${PLACEHOLDER_EMAIL_DOMAIN}`
+}
+
+export function isPlaceholderEmail(email: string | null | undefined): boolean {
+  return !email || email.toLowerCase().endsWith(`@${PLACEHOLDER_EMAIL_DOMAIN}`)
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/** Ticket named in a row: exact (case-insensitive), then either name containing the other. */
+function matchTicket(name: string, tickets: ImportTicket[]): ImportTicket | null {
+  const wanted = name.toLowerCase().trim()
+  return (
+    tickets.find((t) => t.name.toLowerCase().trim() === wanted) ||
+    tickets.find((t) => {
+      const have = t.name.toLowerCase().trim()
+      return have.includes(wanted) || wanted.includes(have)
+    }) ||
+    null
+  )
+}
+
+function parseAmount(value: string | null): number | null {
+  if (!value) return null
+  const amount = parseFloat(value.replace(/[₹$,\s]/g, ""))
+  return Number.isFinite(amount) && amount >= 0 ? amount : null
+}
+
+/**
+ * Decide what happens to every row. `held` is seats kept for waitlist offers
+ * per ticket; they are not available to an import either.
+ */
+export function planImport(
+  rows: ImportRow[],
+  tickets: ImportTicket[],
+  existing: ExistingRegistration[],
+  options: ImportOptions,
+  held: Map<string, number> = new Map()
+): ImportPlan {
+  const byEmail = new Map<string, ExistingRegistration>()
+  const byPhone = new Map<string, ExistingRegistration>()
+  for (const reg of existing) {
+    if (reg.attendee_email && !isPlaceholderEmail(reg.attendee_email)) {
+      byEmail.set(reg.attendee_email.toLowerCase(), reg)
+    }
+    const key = phoneKey(reg.attendee_phone)
+    if (key && !byPhone.has(key)) byPhone.set(key, reg)
+  }
+
+  const seenEmail = new Map<string, number>()
+  const seenPhone = new Map<string, number>()
+  const allocated = new Map<string, number>()
+  const ticketById = new Map(tickets.map((t) => [t.id, t]))
+  const defaultTicket = options.default_ticket_id ? ticketById.get(options.default_ticket_id) || null : null
+
+  const planned: PlannedRow[] = rows.map((data, index): PlannedRow => {
+    const row = index + 2 // header row + 1-based
+    const name = data.name.trim()
+    if (!name) return { row, action: "error", name: "", error: "Name is missing" }
+
+    const email = data.email?.toLowerCase() || null
+    if (email && !EMAIL_PATTERN.test(email)) return { row, action: "error", name, error: `Invalid email "${data.email}"` }
+
+    const phone = phoneKey(data.phone)
+    // Without an email the phone is the only identity we have
+    if (!email && !phone) return { row, action: "error", name, error: "Needs an email or a phone number" }
+
+    // Duplicates: email first, phone only when the row has no real email
+    // (families and PAs routinely share one phone number).
+    const matchedBy: DuplicateSource | null =
+      email && (byEmail.has(email) || seenEmail.has(email)) ? "email" :
+      !email && phone && (byPhone.has(phone) || seenPhone.has(phone)) ? "phone" :
+      null
+    if (matchedBy) {
+      const prior = matchedBy === "email" ? byEmail.get(email!) : byPhone.get(phone!)
+      return {
+        row,
+        action: "duplicate",
+        name,
+        email,
+        phone: data.phone,
+        matched_by: matchedBy,
+        existing: prior ? { registration_number: prior.registration_number, name: prior.attendee_name } : null,
+        earlier_row: prior ? null : (matchedBy === "email" ? seenEmail.get(email!) : seenPhone.get(phone!)) ?? null,
+      }
+    }
+
+    let ticket = data.ticket_type_id ? ticketById.get(data.ticket_type_id) || null : null
+    if (!ticket && data.ticket_name) {
+      ticket = matchTicket(data.ticket_name, tickets)
+      if (!ticket) return { row, action: "error", name, error: `No ticket matches "${data.ticket_name}"` }
+    }
+    ticket ||= defaultTicket
+    if (!ticket) return { row, action: "error", name, error: "No ticket selected" }
+
+    if (ticket.quantity_total) {
+      const used = (ticket.quantity_sold || 0) + (held.get(ticket.id) || 0) + (allocated.get(ticket.id) || 0)
+      if (used >= ticket.quantity_total) return { row, action: "error", name, error: `"${ticket.name}" is sold out` }
+    }
+
+    if (email) seenEmail.set(email, row)
+    if (phone) seenPhone.set(phone, row)
+    allocated.set(ticket.id, (allocated.get(ticket.id) || 0) + 1)
+
+    return {
+      row,
+      action: "create",
+      name,
+      email: email || placeholderEmail(name, data.phone),
+      placeholder_email: !email,
+      phone: data.phone,
+      ticket_type_id: ticket.id,
+      ticket_name: ticket.name,
+      amount: options.mode === "paid" ? parseAmount(data.amount) ?? ticket.price : 0,
+      data,
+    }
+  })
+
+  const summary: ImportPlan["summary"] = { total: rows.length, create: 0, duplicate: 0, error: 0, by_ticket: {} }
+  for (const p of planned) {
+    summary[p.action]++
+    if (p.action === "create") summary.by_ticket[p.ticket_name] = (summary.by_ticket[p.ticket_name] || 0) + 1
+  }
+  return { rows: planned, summary }
+}
+
+/**
+ * Free imported passes (complimentary, sponsor, exhibitor) are settled
+ * outside the payment system and must never produce a receipt or invoice.
+ */
+export function isInvoiceExempt(customFields: unknown): boolean {
+  return !!customFields && typeof customFields === "object" && (customFields as Record<string, unknown>).invoice_exempt === true
+}
@@ -5,6 +5,13 @@
  */
 
 import { z } from "zod"
+import { FACULTY_ROLES } from "@/lib/agenda-roles"
+import {
+  MAX_SEGMENT_DEPTH,
+  SEGMENT_ATTRIBUTES,
+  segmentDepth,
+  type SegmentNode,
+} from "@/lib/audience-segments"
 
 // ==================== Common Schemas ====================
 
@@ -114,6 +121,23 @@ export const registrationImportSchema = z.object({
   fixed_amount: z.number().min(0).optional(),
 })
 
+// registrations/import wizard: raw spreadsheet rows plus the column mapping,
+// planned (dry_run) or committed by /api/registrations/import
+export const bulkRegistrationImportSchema = z.object({
+  event_id: uuidSchema,
+  rows: z.array(z.record(z.string(), z.unknown())).min(1).max(5000),
+  // Header → field | "skip" | "custom:<name>"; guessed from the headers when omitted
+  mapping: z.record(z.string(), z.string()).optional(),
+  // Row index → ticket picked for that row in the wizard
+  ticket_overrides: z.record(z.string(), uuidSchema).optional(),
+  mode: z.enum(["paid", "complimentary", "sponsor", "exhibitor"]).default("paid"),
+  default_ticket_id: uuidSchema.nullish(),
+  organization: z.string().trim().max(200).nullish(),
+  welcome_channels: z.array(z.enum(["email", "whatsapp"])).default([]),
+  file_name: z.string().max(255).nullish(),
+  dry_run: z.boolean().default(false),
+})
+
 export const facultyImportSchema = z.object({
   rows: z.array(z.object({
     name: z.string().min(1).max(200),
@@ -176,6 +200,201 @@ export const ticketTypeSchema = z.object({
   sale_ends_at: dateSchema.optional(),
 })
 
+// ==================== Campaign Schemas ====================
+
+export const campaignCreateSchema = z.object({
+  event_id: uuidSchema,
+  name: z.string().trim().max(200).optional(),
+  channel: z.enum(["email", "whatsapp", "sms"]),
+  // Either explicit recipients or a saved segment, resolved when the campaign is created
+  recipient_ids: z.array(uuidSchema).min(1).max(20000).optional(),
+  segment_id: uuidSchema.optional(),
+  subject: z.string().max(500).optional(),
+  message: z.string().min(1, "Message is required").max(10000),
+  template_id: uuidSchema.nullish(),
+  // Omitted or in the past = send now
+  scheduled_at: z.string().datetime({ offset: true }).nullish(),
+}).refine((data) => !!data.recipient_ids !== !!data.segment_id, {
+  message: "Provide either recipient_ids or segment_id",
+  path: ["recipient_ids"],
+})
+
+export const campaignActionSchema = z.object({
+  action: z.enum(["pause", "resume", "cancel", "retry_failed"]),
+})
+
+// ==================== Audience Segment Schemas ====================
+
+const idListSchema = z.array(z.string().min(1).max(100)).max(200)
+
+const segmentRuleSchema = z.discriminatedUnion("field", [
+  z.object({ field: z.literal("ticket_type"), op: z.enum(["in", "not_in"]), value: idListSchema }),
+  z.object({ field: z.literal("registration_status"), op: z.enum(["in", "not_in"]), value: idListSchema }),
+  z.object({ field: z.literal("payment_status"), op: z.enum(["in", "not_in"]), value: idListSchema }),
+  z.object({ field: z.literal("checked_in"), op: z.enum(["is", "is_not"]), list_id: uuidSchema.nullish() }),
+  z.object({ field: z.literal("addon"), op: z.enum(["has_any", "has_none"]), value: idListSchema }),
+  z.object({ field: z.literal("abstract_status"), op: z.enum(["in", "none"]), value: idListSchema }),
+  z.object({ field: z.literal("faculty_role"), op: z.enum(["in", "none"]), value: z.array(z.enum(FACULTY_ROLES)) }),
+  z.object({
+    field: z.literal("form_answer"),
+    op: z.enum(["submitted", "not_submitted", "equals", "contains"]),
+    form_id: uuidSchema,
+    field_id: z.string().max(100).nullish(),
+    value: z.string().max(500).nullish(),
+  }),
+  z.object({ field: z.literal("membership"), op: z.enum(["is_member", "not_member"]) }),
+  z.object({
+    field: z.literal("message"),
+    op: z.enum(["received", "not_received"]),
+    template_id: uuidSchema.nullish(),
+    channel: z.enum(["email", "whatsapp", "sms"]).nullish(),
+  }),
+  z.object({
+    field: z.literal("attribute"),
+    attribute: z.enum(Object.keys(SEGMENT_ATTRIBUTES) as [keyof typeof SEGMENT_ATTRIBUTES]),
+    op: z.enum(["equals", "contains", "is_empty", "not_empty"]),
+    value: z.string().max(500).nullish(),
+  }),
+])
+
+const segmentNodeSchema: z.ZodType<SegmentNode> = z.lazy(() =>
+  z.union([
+    z.object({ match: z.enum(["all", "any"]), rules: z.array(segmentNodeSchema).max(50) }),
+    segmentRuleSchema,
+  ])
+)
+
+export const segmentDefinitionSchema = z
+  .object({ match: z.enum(["all", "any"]), rules: z.array(segmentNodeSchema).max(50) })
+  .refine((group) => segmentDepth(group) <= MAX_SEGMENT_DEPTH, {
+    message: `Groups can be nested at most ${MAX_SEGMENT_DEPTH} deep`,
+  })
+
+export const segmentSaveSchema = z.object({
+  event_id: uuidSchema,
+  name: z.string().trim().min(1, "Name is required").max(200),
+  description: z.string().trim().max(1000).nullish(),
+  definition: segmentDefinitionSchema,
+})
+
+export const segmentPreviewSchema = z.object({
+  event_id: uuidSchema,
+  definition: segmentDefinitionSchema,
+})
+
+// ==================== Public API (v1) Schemas ====================
+// /api/v1 validates requests with these and builds its responses from the
+// response shapes' keys; /api/v1/openapi.json is generated from the same
+// objects, so the document can't drift from what the API does.
+
+export const apiListQuerySchema = z.object({
+  cursor: z.string().max(200).optional().describe("next_cursor from the previous page"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+})
+
+export const apiRegistrationFilterSchema = z.object({
+  status: z.enum(["pending", "confirmed", "cancelled", "refunded"]).optional(),
+  email: z.string().max(320).optional().describe("Exact attendee email"),
+  updated_since: z.string().datetime({ offset: true }).optional().describe("Only rows changed at or after this time"),
+})
+
+export const apiCheckinFilterSchema = z.object({
+  checkin_list_id: uuidSchema.optional(),
+  registration_id: uuidSchema.optional(),
+})
+
+export const apiRegistrationCreateSchema = registrationCreateSchema.pick({
+  ticket_type_id: true,
+  attendee_name: true,
+  attendee_email: true,
+  attendee_phone: true,
+  attendee_institution: true,
+  attendee_designation: true,
+  attendee_city: true,
+  attendee_state: true,
+  attendee_country: true,
+  custom_fields: true,
+}).extend({
+  external_reference: z.string().max(100).optional().describe("Your system's id for this person, e.g. a membership number"),
+  payment: z
+    .enum(["paid", "complimentary"])
+    .describe("'paid' when your system collected the ticket price (recorded at that price); 'complimentary' for a free pass (recorded at zero, never invoiced)"),
+})
+
+export const apiRegistrationUpdateSchema = registrationUpdateSchema.pick({
+  attendee_name: true,
+  attendee_email: true,
+  attendee_phone: true,
+  attendee_institution: true,
+  attendee_designation: true,
+  notes: true,
+})
+
+export const apiCheckinCreateSchema = z.object({
+  checkin_list_id: uuidSchema,
+  registration_id: uuidSchema.optional(),
+  registration_number: z.string().max(50).optional(),
+  action: z.enum(["check_in", "check_out"]).default("check_in"),
+}).refine(
+  (data) => data.registration_id || data.registration_number,
+  { message: "Either registration_id or registration_number is required" }
+)
+
+export const apiRegistrationSchema = z.object({
+  id: uuidSchema,
+  registration_number: z.string(),
+  ticket_type_id: uuidSchema,
+  attendee_name: z.string(),
+  attendee_email: z.string(),
+  attendee_phone: z.string().nullable(),
+  attendee_institution: z.string().nullable(),
+  attendee_designation: z.string().nullable(),
+  attendee_city: z.string().nullable(),
+  attendee_state: z.string().nullable(),
+  attendee_country: z.string().nullable(),
+  status: z.string(),
+  payment_status: z.string(),
+  total_amount: z.number(),
+  checked_in: z.boolean(),
+  checked_in_at: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+})
+
+export const apiSessionSchema = z.object({
+  id: uuidSchema,
+  session_name: z.string(),
+  session_code: z.string().nullable(),
+  session_type: z.string().nullable(),
+  session_date: z.string().nullable(),
+  start_time: z.string().nullable(),
+  end_time: z.string().nullable(),
+  duration_minutes: z.number().nullable(),
+  hall: z.string().nullable(),
+  specialty_track: z.string().nullable(),
+  description: z.string().nullable(),
+  speakers_text: z.string().nullable(),
+  chairpersons_text: z.string().nullable(),
+  moderators_text: z.string().nullable(),
+})
+
+export const apiCheckinSchema = z.object({
+  id: uuidSchema,
+  checkin_list_id: uuidSchema,
+  registration_id: uuidSchema,
+  checked_in_at: z.string().nullable(),
+  checked_out_at: z.string().nullable(),
+})
+
+export const apiCertificateSchema = z.object({
+  id: uuidSchema.describe("Registration id"),
+  registration_number: z.string(),
+  attendee_name: z.string(),
+  attendee_email: z.string(),
+  certificate_url: z.string().nullable(),
+  certificate_generated_at: z.string(),
+})
+
 // ==================== Helper Functions ====================
 
 /**
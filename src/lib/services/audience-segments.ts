@@ -0,0 +1,255 @@
+/**
+ * Audience segment resolution
+ *
+ * Loads an event's registrations plus only the facts a segment's rules look
+ * at, and returns the registrations the segment matches. Used by the segment
+ * builder's live counts, CSV export and campaigns sent to a segment.
+ */
+
+import { isFacultyRole, type FacultyRole } from "@/lib/agenda-roles"
+import {
+  emptySegmentFacts,
+  matchesSegment,
+  segmentNeeds,
+  type SegmentFacts,
+  type SegmentGroup,
+  type SegmentRegistration,
+} from "@/lib/audience-segments"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+export interface AudienceSegment {
+  id: string
+  event_id: string
+  name: string
+  description: string | null
+  definition: SegmentGroup
+  last_count: number | null
+  last_counted_at: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const SEGMENT_COLUMNS =
+  "id, event_id, name, description, definition, last_count, last_counted_at, created_by, created_at, updated_at"
+
+const REGISTRATION_COLUMNS =
+  "id, registration_number, ticket_type_id, status, payment_status, attendee_name, attendee_email, attendee_phone, attendee_designation, attendee_institution, attendee_city, attendee_state, attendee_country, participation_mode"
+
+export interface SegmentMember extends SegmentRegistration {
+  registration_number: string | null
+}
+
+// Faculty who said no aren't in the program
+const INACTIVE_ASSIGNMENT_STATUSES = new Set(["declined", "cancelled"])
+
+// Message statuses that mean it reached the provider
+const RECEIVED_MESSAGE_STATUSES = ["sent", "delivered", "read"]
+
+const IN_CHUNK = 300
+
+/**
+ * Every registration of the event the segment matches, ordered by name.
+ */
+export async function resolveSegment(db: any, eventId: string, definition: SegmentGroup): Promise<SegmentMember[]> {
+  const registrations = await fetchAllPages<SegmentMember>(
+    db
+      .from("registrations")
+      .select(REGISTRATION_COLUMNS)
+      .eq("event_id", eventId)
+      .order("attendee_name", { ascending: true })
+      .order("id", { ascending: true })
+  )
+  if (registrations.length === 0) return []
+
+  const facts = await loadSegmentFacts(db, eventId, definition, registrations)
+  return registrations.filter((reg) => matchesSegment(definition, reg, facts))
+}
+
+/**
+ * Form ids the definition's form_answer rules name that aren't forms of the
+ * event. The segment routes reject a definition with any before saving or
+ * previewing it.
+ */
+export async function findForeignForms(db: any, eventId: string, definition: SegmentGroup): Promise<string[]> {
+  const formIds = [...segmentNeeds(definition).formIds]
+  if (formIds.length === 0) return []
+  const owned = await loadEventFormIds(db, eventId, formIds)
+  return formIds.filter((id) => !owned.has(id))
+}
+
+async function loadEventFormIds(db: any, eventId: string, formIds: string[]): Promise<Set<string>> {
+  const { data, error } = await db.from("forms").select("id").eq("event_id", eventId).in("id", formIds)
+  if (error) throw new Error(`Failed to load forms: ${error.message}`)
+  return new Set((data || []).map((f: { id: string }) => f.id))
+}
+
+async function loadSegmentFacts(
+  db: any,
+  eventId: string,
+  definition: SegmentGroup,
+  registrations: SegmentMember[]
+): Promise<SegmentFacts> {
+  const needs = segmentNeeds(definition)
+  const facts = emptySegmentFacts()
+
+  // Facts recorded against an email rather than a registration
+  const idsByEmail = new Map<string, string[]>()
+  for (const reg of registrations) {
+    const email = reg.attendee_email?.trim().toLowerCase()
+    if (!email) continue
+    idsByEmail.set(email, [...(idsByEmail.get(email) || []), reg.id])
+  }
+  const idsFor = (email: string | null | undefined) => idsByEmail.get(email?.trim().toLowerCase() || "") || []
+
+  const loads: Promise<void>[] = []
+
+  if (needs.checkins) {
+    loads.push(
+      (async () => {
+        const { data: lists } = await db.from("checkin_lists").select("id").eq("event_id", eventId)
+        const listIds = ((lists || []) as { id: string }[]).map((l) => l.id)
+        if (listIds.length === 0) return
+        const records = await fetchAllPages<{ registration_id: string; checkin_list_id: string }>(
+          db
+            .from("checkin_records")
+            .select("registration_id, checkin_list_id")
+            .in("checkin_list_id", listIds)
+            .order("id", { ascending: true })
+        )
+        for (const r of records) addTo(facts.checkins, r.registration_id, r.checkin_list_id)
+      })()
+    )
+  }
+
+  if (needs.addons) {
+    loads.push(
+      (async () => {
+        const { data: addons } = await db.from("addons").select("id").eq("event_id", eventId)
+        const addonIds = ((addons || []) as { id: string }[]).map((a) => a.id)
+        if (addonIds.length === 0) return
+        const rows = await fetchAllPages<{ registration_id: string; addon_id: string }>(
+          db
+            .from("registration_addons")
+            .select("registration_id, addon_id")
+            .in("addon_id", addonIds)
+            .order("id", { ascending: true })
+        )
+        for (const r of rows) addTo(facts.addons, r.registration_id, r.addon_id)
+      })()
+    )
+  }
+
+  if (needs.abstracts) {
+    loads.push(
+      (async () => {
+        const rows = await fetchAllPages<{ registration_id: string | null; presenting_author_email: string | null; status: string }>(
+          db
+            .from("abstracts")
+            .select("registration_id, presenting_author_email, status")
+            .eq("event_id", eventId)
+            .order("id", { ascending: true })
+        )
+        for (const r of rows) {
+          // Most abstracts are submitted before the author registers
+          const ids = r.registration_id ? [r.registration_id] : idsFor(r.presenting_author_email)
+          for (const id of ids) addTo(facts.abstracts, id, r.status)
+        }
+      })()
+    )
+  }
+
+  if (needs.facultyRoles) {
+    loads.push(
+      (async () => {
+        const rows = await fetchAllPages<{ faculty_email: string | null; role: string; status: string | null }>(
+          db
+            .from("faculty_assignments")
+            .select("faculty_email, role, status")
+            .eq("event_id", eventId)
+            .order("id", { ascending: true })
+        )
+        for (const r of rows) {
+          if (!isFacultyRole(r.role) || INACTIVE_ASSIGNMENT_STATUSES.has(r.status || "")) continue
+          for (const id of idsFor(r.faculty_email)) addTo<FacultyRole>(facts.facultyRoles, id, r.role)
+        }
+      })()
+    )
+  }
+
+  // Only the event's own forms: a rule naming another event's form (a saved
+  // segment predating the route check) matches nobody rather than reading
+  // that event's submissions.
+  const formIds = needs.formIds.size > 0 ? await loadEventFormIds(db, eventId, [...needs.formIds]) : new Set<string>()
+  for (const formId of formIds) {
+    loads.push(
+      (async () => {
+        const rows = await fetchAllPages<{ submitter_email: string | null; responses: Record<string, unknown> | null }>(
+          db
+            .from("form_submissions")
+            .select("submitter_email, responses")
+            .eq("form_id", formId)
+            .order("submitted_at", { ascending: true })
+        )
+        // Latest submission wins when someone answered twice
+        const byRegistration = new Map<string, Record<string, unknown>>()
+        for (const r of rows) {
+          for (const id of idsFor(r.submitter_email)) byRegistration.set(id, r.responses || {})
+        }
+        facts.forms.set(formId, byRegistration)
+      })()
+    )
+  }
+
+  if (needs.membership) {
+    loads.push(
+      (async () => {
+        const emails = [...idsByEmail.keys()]
+        for (let i = 0; i < emails.length; i += IN_CHUNK) {
+          // Same gate as verifyAmasiMembership: the active-members view
+          const { data, error } = await db
+            .from("active_amasi_members")
+            .select("email")
+            .in("email", emails.slice(i, i + IN_CHUNK))
+          if (error) throw new Error(`Failed to load members: ${error.message}`)
+          for (const m of (data || []) as { email: string }[]) {
+            for (const id of idsFor(m.email)) facts.members.add(id)
+          }
+        }
+      })()
+    )
+  }
+
+  for (const [key, { template_id, channel }] of needs.messageKeys) {
+    loads.push(
+      (async () => {
+        let query = db
+          .from("message_logs")
+          .select("registration_id")
+          .eq("event_id", eventId)
+          .in("status", RECEIVED_MESSAGE_STATUSES)
+        if (template_id) query = query.eq("template_id", template_id)
+        if (channel) query = query.eq("channel", channel)
+        const rows = await fetchAllPages<{ registration_id: string | null }>(query.order("id", { ascending: true }))
+        facts.messages.set(key, new Set(rows.flatMap((r) => (r.registration_id ? [r.registration_id] : []))))
+      })()
+    )
+  }
+
+  await Promise.all(loads)
+  return facts
+}
+
+function addTo<T extends string>(map: Map<string, Set<T>>, key: string, value: T) {
+  const set = map.get(key)
+  if (set) set.add(value)
+  else map.set(key, new Set([value]))
+}
+
+/** Remember the latest count so the segment list needn't resolve every segment. */
+export async function recordSegmentCount(db: any, segmentId: string, count: number) {
+  await db
+    .from("audience_segments")
+    .update({ last_count: count, last_counted_at: new Date().toISOString() })
+    .eq("id", segmentId)
+}
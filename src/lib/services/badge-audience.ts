@@ -0,0 +1,95 @@
+/**
+ * Badge audiences
+ *
+ * Loads what conditional badge elements ask about (see
+ * src/lib/badge-conditions.ts) for the registrations about to be printed.
+ * Faculty roles and membership are matched by email and only loaded when
+ * the template has rules about them.
+ */
+
+import {
+  badgeAudienceFromRegistration,
+  templateConditionNeeds,
+  type BadgeAudience,
+  type BadgeAudienceSource,
+} from "@/lib/badge-conditions"
+import type { BadgeElement } from "@/lib/badge-template-types"
+import { isFacultyRole } from "@/lib/agenda-roles"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+interface AudienceRegistration extends BadgeAudienceSource {
+  id: string
+  attendee_email?: string | null
+}
+
+// Faculty who said no aren't in the program
+const INACTIVE_ASSIGNMENT_STATUSES = new Set(["declined", "cancelled"])
+
+const IN_CHUNK = 300
+
+/**
+ * The audience of every registration, keyed by registration id. Registrations
+ * should carry ticket_type_id and registration_addons(addon_id).
+ */
+export async function loadBadgeAudiences(
+  db: any,
+  eventId: string,
+  registrations: AudienceRegistration[],
+  elements: BadgeElement[]
+): Promise<Map<string, BadgeAudience>> {
+  const audiences = new Map<string, BadgeAudience>()
+  const idsByEmail = new Map<string, string[]>()
+  for (const reg of registrations) {
+    audiences.set(reg.id, { ...badgeAudienceFromRegistration({ ...reg, badge_audience: null }) })
+    const email = reg.attendee_email?.trim().toLowerCase()
+    if (email) idsByEmail.set(email, [...(idsByEmail.get(email) || []), reg.id])
+  }
+  if (idsByEmail.size === 0) return audiences
+
+  const needs = templateConditionNeeds(elements)
+  const idsFor = (email: string | null | undefined) => idsByEmail.get(email?.trim().toLowerCase() || "") || []
+  const loads: Promise<void>[] = []
+
+  if (needs.facultyRoles) {
+    loads.push(
+      (async () => {
+        const rows = await fetchAllPages<{ faculty_email: string | null; role: string; status: string | null }>(
+          db
+            .from("faculty_assignments")
+            .select("faculty_email, role, status")
+            .eq("event_id", eventId)
+            .order("id", { ascending: true })
+        )
+        for (const r of rows) {
+          if (!isFacultyRole(r.role) || INACTIVE_ASSIGNMENT_STATUSES.has(r.status || "")) continue
+          for (const id of idsFor(r.faculty_email)) {
+            const audience = audiences.get(id)!
+            if (!audience.faculty_roles.includes(r.role)) audience.faculty_roles = [...audience.faculty_roles, r.role]
+          }
+        }
+      })()
+    )
+  }
+
+  if (needs.membership) {
+    loads.push(
+      (async () => {
+        const emails = [...idsByEmail.keys()]
+        for (let i = 0; i < emails.length; i += IN_CHUNK) {
+          // Same gate as verifyAmasiMembership: the active-members view
+          const { data, error } = await db
+            .from("active_amasi_members")
+            .select("email")
+            .in("email", emails.slice(i, i + IN_CHUNK))
+          if (error) throw new Error(`Failed to load members: ${error.message}`)
+          for (const m of (data || []) as { email: string }[]) {
+            for (const id of idsFor(m.email)) audiences.get(id)!.is_member = true
+          }
+        }
+      })()
+    )
+  }
+
+  await Promise.all(loads)
+  return audiences
+}
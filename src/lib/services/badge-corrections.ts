@@ -0,0 +1,221 @@
+/**
+ * Badge corrections
+ *
+ * The database side of badge correction requests (see
+ * src/lib/badge-corrections.ts): the template a delegate's badge preview is
+ * rendered with, invalidating the stored badge once a correction is
+ * approved, and queueing the reprint at the print station serving the
+ * delegate's check-in list. Used by /api/my/badge-corrections (delegate)
+ * and /api/badge-corrections/review (staff).
+ */
+
+import { pickReprintStation, type ReprintStationChoice } from "@/lib/badge-corrections"
+import type { BadgeTemplate } from "@/lib/badge-template-types"
+import { loadBadgeAudiences } from "@/lib/services/badge-audience"
+
+export const CORRECTION_REPRINT_NOTE = "Badge correction approved"
+
+// Same order /api/badge/[token]/download picks a template in, so the preview
+// is the badge the delegate will download: a template for their ticket type,
+// then a general default, then any default.
+function findBadgeTemplate(templates: any[], ticketTypeId: string | null): any | null {
+  if (ticketTypeId) {
+    const specific = templates.find((t) => t.ticket_type_ids?.includes(ticketTypeId))
+    if (specific) return specific
+  }
+  return (
+    templates.find((t) => t.is_default && !t.ticket_type_ids?.length) ||
+    templates.find((t) => t.is_default) ||
+    null
+  )
+}
+
+function toBadgeTemplate(row: any): BadgeTemplate {
+  let data = row.template_data || {}
+  if (typeof data === "string") {
+    try {
+      data = JSON.parse(data)
+    } catch {
+      data = {}
+    }
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    size: row.size || "4x3",
+    backgroundColor: data.backgroundColor || "#ffffff",
+    backgroundImageUrl: row.template_image_url || null,
+    elements: data.elements || [],
+  }
+}
+
+/** The event template the delegate's badge is (or will be) printed with. */
+export async function loadBadgePreviewTemplate(
+  db: any,
+  registration: { event_id: string; ticket_type_id: string | null; badge_template_id?: string | null }
+): Promise<BadgeTemplate | null> {
+  const { data, error } = await db
+    .from("badge_templates")
+    .select("id, name, size, template_data, template_image_url, ticket_type_ids, is_default")
+    .eq("event_id", registration.event_id)
+  if (error) throw error
+
+  const templates = data || []
+  const saved = registration.badge_template_id
+    ? templates.find((t: any) => t.id === registration.badge_template_id)
+    : null
+  const template = findBadgeTemplate(templates, registration.ticket_type_id) || saved
+  return template ? toBadgeTemplate(template) : null
+}
+
+/**
+ * Drops every stored copy of the delegate's badge so the next download or
+ * print renders the corrected details rather than serving the old PDF.
+ */
+export async function invalidateStoredBadge(db: any, registrationId: string): Promise<{ error: any }> {
+  const { error: deleteError } = await db.from("generated_badges").delete().eq("registration_id", registrationId)
+  if (deleteError) return { error: deleteError }
+  const { error } = await db
+    .from("registrations")
+    .update({ badge_url: null, badge_generated_at: null })
+    .eq("id", registrationId)
+  return { error: error ?? null }
+}
+
+export type CorrectionReprint =
+  | { queued: true; job: { id: string; print_number: number }; choice: ReprintStationChoice }
+  | { queued: false; reason: "never_printed" | "no_station" }
+
+/**
+ * Queues a reprint of a corrected badge. A delegate who hasn't had a badge
+ * printed yet gets nothing queued -- the desk prints the corrected badge
+ * when they collect it. `registration` is the row after the correction.
+ */
+export async function queueCorrectionReprint(
+  db: any,
+  params: {
+    eventId: string
+    correctionId: string
+    registration: {
+      id: string
+      registration_number: string
+      attendee_name: string | null
+      attendee_email: string | null
+      attendee_phone: string | null
+      attendee_institution: string | null
+      attendee_designation: string | null
+      ticket_type_id: string | null
+      ticket_types?: { name?: string | null } | null
+      registration_addons?: { addon_id?: string | null }[] | null
+    }
+  }
+): Promise<CorrectionReprint> {
+  const { eventId, correctionId, registration } = params
+
+  const { data: printed, error: printedError } = await db
+    .from("print_jobs")
+    .select("id")
+    .eq("registration_id", registration.id)
+    .eq("status", "completed")
+    .limit(1)
+  if (printedError) throw printedError
+  if (!printed || printed.length === 0) return { queued: false, reason: "never_printed" }
+
+  // The delegate's badge lists: the ones their ticket may use, the list
+  // they were actually checked in on first.
+  const { data: lists, error: listsError } = await db
+    .from("checkin_lists")
+    .select("id, ticket_type_ids")
+    .eq("event_id", eventId)
+    .eq("prints_badge", true)
+    .eq("is_active", true)
+  if (listsError) throw listsError
+  const eligible = (lists || [])
+    .filter(
+      (l: any) =>
+        !l.ticket_type_ids?.length || (!!registration.ticket_type_id && l.ticket_type_ids.includes(registration.ticket_type_id))
+    )
+    .map((l: any) => l.id as string)
+
+  let listIds: string[] = []
+  let links: { checkin_list_id: string; print_station_id: string }[] = []
+  if (eligible.length > 0) {
+    const [recordsResult, linksResult] = await Promise.all([
+      db
+        .from("checkin_records")
+        .select("checkin_list_id")
+        .eq("registration_id", registration.id)
+        .in("checkin_list_id", eligible)
+        .is("reversed_at", null),
+      db.from("kiosk_station_lists").select("checkin_list_id, kiosk_stations(print_station_id)").in("checkin_list_id", eligible),
+    ])
+    if (recordsResult.error) throw recordsResult.error
+    if (linksResult.error) throw linksResult.error
+    const checkedIn = new Set((recordsResult.data || []).map((r: any) => r.checkin_list_id as string))
+    listIds = [...eligible.filter((id: string) => checkedIn.has(id)), ...eligible.filter((id: string) => !checkedIn.has(id))]
+    links = (linksResult.data || [])
+      .filter((l: any) => l.kiosk_stations?.print_station_id)
+      .map((l: any) => ({ checkin_list_id: l.checkin_list_id, print_station_id: l.kiosk_stations.print_station_id }))
+  }
+
+  const { data: stations, error: stationsError } = await db
+    .from("print_stations")
+    .select("id, name, is_active, ticket_type_ids, agent_last_seen_at, printer_state, badge_templates(template_data)")
+    .eq("event_id", eventId)
+  if (stationsError) throw stationsError
+
+  const choice = pickReprintStation({
+    ticketTypeId: registration.ticket_type_id,
+    listIds,
+    links,
+    stations: stations || [],
+  })
+  if (!choice) return { queued: false, reason: "no_station" }
+  const station = choice.station as (typeof choice.station) & { badge_templates?: { template_data?: any } | null }
+
+  // print_number is per station and registration (idx_print_jobs_unique_print)
+  const { data: last, error: lastError } = await db
+    .from("print_jobs")
+    .select("print_number")
+    .eq("print_station_id", station.id)
+    .eq("registration_id", registration.id)
+    .order("print_number", { ascending: false })
+    .limit(1)
+  if (lastError) throw lastError
+  const printNumber = (last?.[0]?.print_number ?? 0) + 1
+
+  const audiences = await loadBadgeAudiences(
+    db,
+    eventId,
+    [registration],
+    station.badge_templates?.template_data?.elements || []
+  )
+
+  const { data: job, error: jobError } = await db
+    .from("print_jobs")
+    .insert({
+      print_station_id: station.id,
+      registration_id: registration.id,
+      print_number: printNumber,
+      status: "queued",
+      device_info: { source: "badge_correction", correction_id: correctionId },
+      reprint_reason: printNumber > 1 ? "details_changed" : null,
+      reprint_note: printNumber > 1 ? CORRECTION_REPRINT_NOTE : null,
+      registration_data: {
+        id: registration.id,
+        registration_number: registration.registration_number,
+        attendee_name: registration.attendee_name,
+        attendee_email: registration.attendee_email,
+        attendee_phone: registration.attendee_phone,
+        attendee_institution: registration.attendee_institution,
+        attendee_designation: registration.attendee_designation,
+        ticket_type: registration.ticket_types?.name || "",
+        badge_audience: audiences.get(registration.id) || null,
+      },
+    })
+    .select("id, print_number")
+    .single()
+  if (jobError) throw jobError
+
+  return { queued: true, job, choice }
+}
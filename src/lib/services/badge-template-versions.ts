@@ -0,0 +1,61 @@
+/**
+ * Badge template version history
+ *
+ * Every save that changes a template's design is snapshotted into
+ * badge_template_versions, and rollbacks are recorded as new versions. The
+ * diff between snapshots lives in src/lib/badge-template-versions.ts.
+ */
+
+export const VERSION_COLUMNS = "id, template_id, version, name, size, template_image_url, template_data, note, created_by, created_at"
+
+// Version list rows leave out the (large) design itself
+export const VERSION_LIST_COLUMNS = "id, template_id, version, name, size, note, created_by, created_at"
+
+interface TemplateRow {
+  id: string
+  event_id: string
+  name: string
+  size: string | null
+  template_image_url: string | null
+  template_data: unknown
+}
+
+/**
+ * Snapshots the template as it is now and points current_version at it.
+ * Returns the new version number.
+ */
+export async function recordTemplateVersion(
+  db: any,
+  template: TemplateRow,
+  options: { note?: string | null; createdBy?: string | null } = {}
+): Promise<number> {
+  // Two saves racing for the same number: the loser takes the next one
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: latest } = await db
+      .from("badge_template_versions")
+      .select("version")
+      .eq("template_id", template.id)
+      .order("version", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    const version = (latest?.version || 0) + 1
+
+    const { error } = await db.from("badge_template_versions").insert({
+      template_id: template.id,
+      event_id: template.event_id,
+      version,
+      name: template.name,
+      size: template.size,
+      template_image_url: template.template_image_url,
+      template_data: template.template_data || {},
+      note: options.note || null,
+      created_by: options.createdBy || null,
+    })
+    if (error?.code === "23505") continue
+    if (error) throw new Error(`Failed to record template version: ${error.message}`)
+
+    await db.from("badge_templates").update({ current_version: version }).eq("id", template.id)
+    return version
+  }
+  throw new Error("Failed to record template version: too many concurrent saves")
+}
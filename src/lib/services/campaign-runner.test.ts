@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { applyCampaignAction, runCampaigns, type Campaign, type CampaignRecipient } from "./campaign-runner"
+
+const dispatchMessage = vi.fn()
+const logDispatch = vi.fn()
+
+vi.mock("@/lib/services/message-dispatch", () => ({
+  dispatchMessage: (...args: unknown[]) => dispatchMessage(...args),
+  logDispatch: (...args: unknown[]) => logDispatch(...args),
+  resolveMessageProvider: () => "resend",
+}))
+
+vi.mock("@/lib/services/webhook-outbox", () => ({
+  hasWebhookSubscribers: async () => false,
+}))
+
+const NOW = new Date("2026-10-19T10:00:00Z")
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+
+const CAMPAIGN: Campaign = {
+  id: "c1",
+  event_id: EVENT_ID,
+  name: "Day 1 reminder",
+  channel: "email",
+  subject: "See you tomorrow",
+  message_body: "Hi {{name}}",
+  message_template_id: null,
+  provider: "resend",
+  status: "sending",
+  scheduled_at: NOW.toISOString(),
+  started_at: NOW.toISOString(),
+  completed_at: null,
+  paused_at: null,
+  last_run_at: null,
+  last_error: null,
+  recipient_count: 2,
+  total_sent: 0,
+  total_failed: 0,
+  total_skipped: 0,
+  created_at: NOW.toISOString(),
+}
+
+function recipient(id: string, fields: Partial<CampaignRecipient> = {}): CampaignRecipient {
+  return {
+    id,
+    campaign_id: CAMPAIGN.id,
+    registration_id: `reg-${id}`,
+    recipient_name: `Attendee ${id}`,
+    recipient: `${id}@example.com`,
+    status: "queued",
+    attempts: 0,
+    next_attempt_at: NOW.toISOString(),
+    last_error: null,
+    provider_message_id: null,
+    sent_at: null,
+    created_at: NOW.toISOString(),
+    updated_at: null,
+    ...fields,
+  }
+}
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] })
+  dispatchMessage.mockReset()
+  logDispatch.mockReset().mockResolvedValue("log1")
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+function recipientUpdates() {
+  return mock.calls
+    .filter((c) => c.table === "campaign_recipients" && c.method === "update")
+    .map((c) => c.args[0] as Record<string, unknown>)
+}
+
+function campaignUpdates() {
+  return mock.calls
+    .filter((c) => c.table === "campaigns" && c.method === "update")
+    .map((c) => c.args[0] as Record<string, unknown>)
+}
+
+// One campaign with the given due recipients, in the order runCampaigns reads each table.
+// `updates` is how many recipient updates follow the claim (one per send by default).
+function queueRun(
+  due: CampaignRecipient[],
+  counts: { sent: number; failed: number; skipped: number; open: number },
+  updates = due.length
+) {
+  mock.queueResponse("campaigns", { data: [CAMPAIGN], error: null })
+  mock.queueResponse("communication_settings", { data: null, error: null })
+  mock.queueResponse("events", { data: { id: EVENT_ID, name: "Annual Conference", short_name: "AC26" }, error: null })
+  mock.queueResponse("campaign_recipients", { data: due, error: null })
+  mock.queueResponse("campaign_recipients", { data: due.map((r) => ({ id: r.id })), error: null })
+  mock.queueResponse("registrations", {
+    data: due.map((r) => ({
+      id: r.registration_id,
+      attendee_name: r.recipient_name,
+      attendee_email: r.recipient,
+      attendee_phone: null,
+    })),
+    error: null,
+  })
+  for (let i = 0; i < updates; i++) mock.queueResponse("campaign_recipients", { data: null, error: null })
+  for (const count of [counts.sent, counts.failed, counts.skipped, counts.open]) {
+    mock.queueResponse("campaign_recipients", { data: null, error: null, count })
+  }
+  mock.queueResponse("campaigns", { data: { status: "sending" }, error: null })
+}
+
+describe("runCampaigns", () => {
+  it("sends at the provider's pace and schedules a retry for failures", async () => {
+    dispatchMessage
+      .mockResolvedValueOnce({ success: true, recipient: "a@example.com", provider: "resend", messageId: "m1", message: "" })
+      .mockResolvedValueOnce({ success: false, recipient: "b@example.com", provider: "resend", error: "429 Too many requests", message: "" })
+    const sleep = vi.fn().mockResolvedValue(undefined)
+    queueRun([recipient("a"), recipient("b")], { sent: 1, failed: 0, skipped: 0, open: 1 })
+
+    const result = await runCampaigns(mock.client, [EVENT_ID], { sleep, clock: () => 0 })
+
+    expect(result).toMatchObject({ campaigns: 1, sent: 1, retrying: 1, failed: 0, completed: 0 })
+    // Resend defaults to 100/min: 600ms between sends
+    expect(sleep).toHaveBeenCalledWith(600)
+
+    const [claim, sent, retry] = recipientUpdates()
+    expect(claim).toMatchObject({ status: "sending" })
+    expect(sent).toMatchObject({ status: "sent", attempts: 1, provider_message_id: "m1" })
+    expect(retry).toMatchObject({
+      status: "retrying",
+      attempts: 1,
+      last_error: "429 Too many requests",
+      next_attempt_at: new Date(NOW.getTime() + 2 * 60 * 1000).toISOString(),
+    })
+    expect(logDispatch).toHaveBeenCalledTimes(2)
+    expect(logDispatch.mock.calls[0][1]).toMatchObject({ campaignId: CAMPAIGN.id })
+  })
+
+  it("fails a recipient for good once its attempts run out and completes the campaign", async () => {
+    dispatchMessage.mockResolvedValueOnce({ success: false, recipient: "a@example.com", provider: "resend", error: "Bounced", message: "" })
+    queueRun([recipient("a", { status: "retrying", attempts: 3 })], { sent: 1, failed: 1, skipped: 0, open: 0 })
+
+    const result = await runCampaigns(mock.client, [EVENT_ID], { sleep: async () => {}, clock: () => 0 })
+
+    expect(result).toMatchObject({ failed: 1, completed: 1 })
+    expect(recipientUpdates()[1]).toMatchObject({ status: "failed", attempts: 4, next_attempt_at: null })
+    expect(campaignUpdates().at(-1)).toMatchObject({ status: "completed", total_sent: 1, total_failed: 1 })
+  })
+
+  it("pauses the campaign when the provider isn't configured and hands recipients back", async () => {
+    dispatchMessage.mockResolvedValueOnce({
+      success: false,
+      notSent: "not_configured",
+      recipient: "a@example.com",
+      provider: "resend",
+      error: "Email provider not configured",
+      message: "",
+    })
+    queueRun([recipient("a"), recipient("b")], { sent: 0, failed: 0, skipped: 0, open: 2 }, 1)
+
+    const result = await runCampaigns(mock.client, [EVENT_ID], { sleep: async () => {}, clock: () => 0 })
+
+    expect(result).toMatchObject({ paused: 1, sent: 0 })
+    expect(recipientUpdates()[1]).toMatchObject({ status: "queued" })
+    expect(campaignUpdates()[0]).toMatchObject({ status: "paused", last_error: "Email provider not configured" })
+    expect(logDispatch).not.toHaveBeenCalled()
+  })
+})
+
+describe("applyCampaignAction", () => {
+  it("rejects actions that don't fit the campaign's state", async () => {
+    expect(await applyCampaignAction(mock.client, { id: "c1", status: "completed" }, "pause", NOW)).toBeNull()
+    expect(mock.calls).toHaveLength(0)
+  })
+
+  it("cancels what's still waiting", async () => {
+    mock.queueResponse("campaign_recipients", { data: [{ id: "a" }, { id: "b" }], error: null })
+
+    const result = await applyCampaignAction(mock.client, { id: "c1", status: "paused" }, "cancel", NOW)
+
+    expect(result).toEqual({ status: "cancelled", recipients: 2 })
+    expect(recipientUpdates()[0]).toMatchObject({ status: "cancelled" })
+    expect(
+      mock.calls.find((c) => c.table === "campaign_recipients" && c.method === "in")?.args
+    ).toEqual(["status", ["queued", "retrying"]])
+    expect(campaignUpdates()[0]).toMatchObject({ status: "cancelled", completed_at: NOW.toISOString() })
+  })
+})
@@ -0,0 +1,601 @@
+/**
+ * Campaign Runner
+ *
+ * A campaign is one compose message to a fixed set of registrations. Creating
+ * it writes a campaign_recipients row per registration; nothing is sent in
+ * the request. runCampaigns — called by the campaigns cron every minute and
+ * kicked off straight away for "send now" — works through due recipients a
+ * chunk at a time:
+ *
+ *   - each provider (Resend, Gallabox, QikChat, ...) gets a per-run budget and
+ *     spacing from its sends-per-minute throttle, shared by every campaign
+ *     using it;
+ *   - recipients are claimed with a lease first, so overlapping runs never
+ *     pick up the same row;
+ *   - failed sends are retried on the schedule in lib/campaign-sending.ts
+ *     until CAMPAIGN_MAX_ATTEMPTS, then marked failed;
+ *   - a paused or cancelled campaign stops between sends, and resuming
+ *     carries on where it left off.
+ *
+ * Every attempt is a message_logs row tagged with the campaign, which is
+ * what the per-recipient timeline on the history page is built from.
+ */
+
+import {
+  OPEN_RECIPIENT_STATUSES,
+  buildRecipientTimeline,
+  campaignRetryDelayMs,
+  campaignThrottle,
+  campaignTransition,
+  sendBudget,
+  sendSpacingMs,
+  type CampaignAction,
+  type CampaignRecipientStatus,
+  type CampaignStatus,
+  type TimelineEntry,
+  type TimelineLog,
+} from "@/lib/campaign-sending"
+import {
+  dispatchMessage,
+  logDispatch,
+  resolveMessageProvider,
+  type DispatchRecipient,
+  type MessageChannel,
+} from "@/lib/services/message-dispatch"
+import { hasWebhookSubscribers } from "@/lib/services/webhook-outbox"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+export interface Campaign {
+  id: string
+  event_id: string
+  name: string
+  channel: MessageChannel
+  subject: string | null
+  message_body: string
+  message_template_id: string | null
+  provider: string | null
+  status: CampaignStatus
+  scheduled_at: string | null
+  started_at: string | null
+  completed_at: string | null
+  paused_at: string | null
+  last_run_at: string | null
+  last_error: string | null
+  recipient_count: number
+  total_sent: number
+  total_failed: number
+  total_skipped: number
+  created_at: string
+}
+
+export interface CampaignRecipient {
+  id: string
+  campaign_id: string
+  registration_id: string | null
+  recipient_name: string | null
+  recipient: string | null
+  status: CampaignRecipientStatus
+  attempts: number
+  next_attempt_at: string | null
+  last_error: string | null
+  provider_message_id: string | null
+  sent_at: string | null
+  created_at: string
+  updated_at: string | null
+}
+
+export const CAMPAIGN_COLUMNS =
+  "id, event_id, name, channel, subject, message_body, message_template_id, provider, status, scheduled_at, started_at, completed_at, paused_at, last_run_at, last_error, recipient_count, total_sent, total_failed, total_skipped, created_at"
+
+export const RECIPIENT_COLUMNS =
+  "id, campaign_id, registration_id, recipient_name, recipient, status, attempts, next_attempt_at, last_error, provider_message_id, sent_at, created_at, updated_at"
+
+// A cron run stops claiming new sends after this long; the next run carries on
+export const CAMPAIGN_RUN_WINDOW_MS = 50 * 1000
+
+// How long a claimed recipient is left alone by other runs while it's being sent
+const CLAIM_LEASE_MS = CAMPAIGN_RUN_WINDOW_MS + 2 * 60 * 1000
+
+const INSERT_CHUNK = 500
+
+const REGISTRATION_COLUMNS = "id, attendee_name, attendee_email, attendee_phone"
+
+function addressFor(channel: MessageChannel, reg: DispatchRecipient): string | null {
+  return (channel === "email" ? reg.attendee_email : reg.attendee_phone) || null
+}
+
+export interface CreateCampaignInput {
+  eventId: string
+  name: string
+  channel: MessageChannel
+  subject: string | null
+  message: string
+  templateId: string | null
+  registrationIds: string[]
+  /** Saved segment the recipients were resolved from, if any. */
+  segmentId?: string | null
+  /** When to start; null sends on the next run. */
+  scheduledAt: Date | null
+  createdBy: string | null
+}
+
+/**
+ * Create a campaign and queue its recipients. Registrations without an
+ * address on the campaign's channel are recorded as skipped straight away.
+ */
+export async function createCampaign(db: any, input: CreateCampaignInput, now = new Date()): Promise<Campaign> {
+  const ids = [...new Set(input.registrationIds)]
+  const registrations: DispatchRecipient[] = []
+  for (let i = 0; i < ids.length; i += INSERT_CHUNK) {
+    const { data, error } = await db
+      .from("registrations")
+      .select(REGISTRATION_COLUMNS)
+      .eq("event_id", input.eventId)
+      .in("id", ids.slice(i, i + INSERT_CHUNK))
+    if (error) throw new Error(error.message)
+    registrations.push(...(data || []))
+  }
+  if (registrations.length === 0) throw new Error("No recipients found")
+
+  const { data: settings } = await db
+    .from("communication_settings")
+    .select("*")
+    .eq("event_id", input.eventId)
+    .maybeSingle()
+
+  const startAt = input.scheduledAt && input.scheduledAt > now ? input.scheduledAt : now
+  const { data: campaign, error } = await db
+    .from("campaigns")
+    .insert({
+      event_id: input.eventId,
+      name: input.name,
+      campaign_type: "broadcast",
+      channel: input.channel,
+      recipient_type: "registrations",
+      recipient_count: registrations.length,
+      subject: input.subject,
+      message_body: input.message,
+      message_template_id: input.templateId,
+      segment_id: input.segmentId || null,
+      provider: resolveMessageProvider(input.channel, settings),
+      is_scheduled: startAt > now,
+      scheduled_at: startAt.toISOString(),
+      status: "scheduled",
+      created_by: input.createdBy,
+    })
+    .select(CAMPAIGN_COLUMNS)
+    .single()
+  if (error || !campaign) throw new Error(error?.message || "Failed to create campaign")
+
+  const rows = registrations.map((reg) => {
+    const address = addressFor(input.channel, reg)
+    return {
+      campaign_id: campaign.id,
+      event_id: input.eventId,
+      registration_id: reg.id,
+      recipient_name: reg.attendee_name,
+      recipient: address,
+      status: address ? "queued" : "skipped",
+      last_error: address ? null : input.channel === "email" ? "No email address" : "No phone number",
+      next_attempt_at: address ? startAt.toISOString() : null,
+    }
+  })
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+    const { error: insertError } = await db.from("campaign_recipients").insert(rows.slice(i, i + INSERT_CHUNK))
+    if (insertError) {
+      // Half-queued campaigns would send to an arbitrary subset
+      await db.from("campaigns").delete().eq("id", campaign.id)
+      throw new Error(insertError.message)
+    }
+  }
+
+  const skipped = rows.filter((r) => r.status === "skipped").length
+  if (skipped > 0) {
+    await db.from("campaigns").update({ total_skipped: skipped }).eq("id", campaign.id)
+  }
+  return { ...campaign, total_skipped: skipped }
+}
+
+export interface CampaignRunResult {
+  campaigns: number
+  sent: number
+  failed: number
+  retrying: number
+  skipped: number
+  completed: number
+  paused: number
+}
+
+export interface RunOptions {
+  now?: Date
+  /** Only this campaign (the "send now" kick-off). */
+  campaignId?: string
+  windowMs?: number
+  sleep?: (ms: number) => Promise<void>
+  clock?: () => number
+}
+
+interface ProviderSlot {
+  remaining: number
+  spacingMs: number
+  lastSendAt: number | null
+}
+
+/**
+ * Send the next chunk of every due campaign for the given events.
+ */
+export async function runCampaigns(db: any, eventIds: string[], options: RunOptions = {}): Promise<CampaignRunResult> {
+  const result: CampaignRunResult = { campaigns: 0, sent: 0, failed: 0, retrying: 0, skipped: 0, completed: 0, paused: 0 }
+  if (eventIds.length === 0) return result
+
+  const now = options.now || new Date()
+  const windowMs = options.windowMs ?? CAMPAIGN_RUN_WINDOW_MS
+  const sleep = options.sleep || ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+  const clock = options.clock || Date.now
+  const deadline = clock() + windowMs
+
+  let query = db
+    .from("campaigns")
+    .select(CAMPAIGN_COLUMNS)
+    .in("event_id", eventIds)
+    .in("status", ["scheduled", "sending"])
+    .lte("scheduled_at", now.toISOString())
+    .order("scheduled_at", { ascending: true })
+  if (options.campaignId) query = query.eq("id", options.campaignId)
+  const { data: campaigns, error } = await query
+  if (error) throw new Error(`Failed to load campaigns: ${error.message}`)
+
+  const settingsByEvent = new Map<string, any>()
+  const eventsById = new Map<string, any>()
+  const webhooksByEvent = new Map<string, boolean>()
+  // One budget per provider per run, shared by every campaign sending through it
+  const slots = new Map<string, ProviderSlot>()
+
+  for (const campaign of (campaigns || []) as Campaign[]) {
+    if (clock() >= deadline) break
+    result.campaigns++
+
+    if (!settingsByEvent.has(campaign.event_id)) {
+      const [{ data: settings }, { data: event }] = await Promise.all([
+        db.from("communication_settings").select("*").eq("event_id", campaign.event_id).maybeSingle(),
+        db.from("events").select("id, name, short_name").eq("id", campaign.event_id).single(),
+      ])
+      settingsByEvent.set(campaign.event_id, settings || null)
+      eventsById.set(campaign.event_id, event || { id: campaign.event_id, name: "Event", short_name: null })
+      webhooksByEvent.set(campaign.event_id, await hasWebhookSubscribers(db, campaign.event_id, "message.sent"))
+    }
+    const settings = settingsByEvent.get(campaign.event_id)
+
+    if (campaign.status === "scheduled") {
+      await db
+        .from("campaigns")
+        .update({ status: "sending", started_at: campaign.started_at || now.toISOString() })
+        .eq("id", campaign.id)
+        .eq("status", "scheduled")
+    }
+
+    const provider = campaign.provider || resolveMessageProvider(campaign.channel, settings)
+    const slotKey = provider || campaign.channel
+    if (!slots.has(slotKey)) {
+      const perMinute = campaignThrottle(provider, settings?.campaign_throttles)
+      slots.set(slotKey, { remaining: sendBudget(perMinute, windowMs), spacingMs: sendSpacingMs(perMinute), lastSendAt: null })
+    }
+    const slot = slots.get(slotKey)!
+
+    const outcome = await sendCampaignChunk(db, campaign, {
+      settings,
+      event: eventsById.get(campaign.event_id),
+      webhooks: webhooksByEvent.get(campaign.event_id) || false,
+      slot,
+      now,
+      deadline,
+      sleep,
+      clock,
+    })
+    result.sent += outcome.sent
+    result.failed += outcome.failed
+    result.retrying += outcome.retrying
+    result.skipped += outcome.skipped
+    if (outcome.pausedFor) result.paused++
+
+    const status = await refreshCampaignTotals(db, campaign.id, now)
+    if (status === "completed") result.completed++
+  }
+
+  return result
+}
+
+interface ChunkContext {
+  settings: any
+  event: { id: string; name: string; short_name: string | null }
+  webhooks: boolean
+  slot: ProviderSlot
+  now: Date
+  deadline: number
+  sleep: (ms: number) => Promise<void>
+  clock: () => number
+}
+
+interface ChunkOutcome {
+  sent: number
+  failed: number
+  retrying: number
+  skipped: number
+  /** Set when the runner paused the campaign itself. */
+  pausedFor?: string
+}
+
+// How often (in sends) a long chunk re-reads the campaign to notice a pause
+const STATUS_CHECK_EVERY = 10
+
+async function sendCampaignChunk(db: any, campaign: Campaign, ctx: ChunkContext): Promise<ChunkOutcome> {
+  const outcome: ChunkOutcome = { sent: 0, failed: 0, retrying: 0, skipped: 0 }
+  if (ctx.slot.remaining <= 0) return outcome
+
+  const { data: due, error } = await db
+    .from("campaign_recipients")
+    .select(RECIPIENT_COLUMNS)
+    .eq("campaign_id", campaign.id)
+    .in("status", OPEN_RECIPIENT_STATUSES)
+    .lte("next_attempt_at", ctx.now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(ctx.slot.remaining)
+  if (error) throw new Error(`Failed to load campaign recipients: ${error.message}`)
+  if (!due || due.length === 0) return outcome
+
+  const { data: claimed } = await db
+    .from("campaign_recipients")
+    .update({ status: "sending", next_attempt_at: new Date(ctx.now.getTime() + CLAIM_LEASE_MS).toISOString() })
+    .in("id", (due as CampaignRecipient[]).map((r) => r.id))
+    .in("status", OPEN_RECIPIENT_STATUSES)
+    .lte("next_attempt_at", ctx.now.toISOString())
+    .select("id")
+  const claimedIds = new Set(((claimed || []) as { id: string }[]).map((r) => r.id))
+  const recipients = (due as CampaignRecipient[]).filter((r) => claimedIds.has(r.id))
+  if (recipients.length === 0) return outcome
+
+  // Current contact details: a corrected email or phone is picked up by retries
+  const registrationIds = recipients.map((r) => r.registration_id).filter((id): id is string => !!id)
+  const { data: registrations } = registrationIds.length
+    ? await db.from("registrations").select(REGISTRATION_COLUMNS).in("id", registrationIds)
+    : { data: [] }
+  const regById = new Map<string, DispatchRecipient>(((registrations || []) as DispatchRecipient[]).map((r) => [r.id, r]))
+
+  for (let i = 0; i < recipients.length; i++) {
+    const recipient = recipients[i]
+    const rest = recipients.slice(i)
+
+    if (i > 0 && i % STATUS_CHECK_EVERY === 0) {
+      const { data: current } = await db.from("campaigns").select("status").eq("id", campaign.id).single()
+      if (current?.status !== "sending") {
+        await releaseRecipients(db, rest, current?.status === "cancelled" ? "cancelled" : null)
+        break
+      }
+    }
+    if (ctx.clock() >= ctx.deadline || ctx.slot.remaining <= 0) {
+      await releaseRecipients(db, rest, null)
+      break
+    }
+
+    const reg = recipient.registration_id ? regById.get(recipient.registration_id) : undefined
+    if (!reg) {
+      await finishRecipient(db, recipient, { status: "skipped", last_error: "Registration no longer exists" })
+      outcome.skipped++
+      continue
+    }
+
+    if (ctx.slot.lastSendAt !== null) {
+      const wait = ctx.slot.lastSendAt + ctx.slot.spacingMs - ctx.clock()
+      if (wait > 0) await ctx.sleep(wait)
+    }
+    ctx.slot.lastSendAt = ctx.clock()
+    ctx.slot.remaining--
+
+    const sendResult = await dispatchMessage(ctx.settings, ctx.event, campaign.channel, reg, {
+      subject: campaign.subject,
+      message: campaign.message_body,
+    })
+
+    if (sendResult.notSent === "no_address") {
+      await finishRecipient(db, recipient, { status: "skipped", last_error: sendResult.error || null })
+      outcome.skipped++
+      continue
+    }
+    if (sendResult.notSent === "not_configured") {
+      // Every other recipient would fail the same way; stop until an admin
+      // fixes the settings and resumes.
+      await releaseRecipients(db, rest, null)
+      await db
+        .from("campaigns")
+        .update({ status: "paused", paused_at: new Date().toISOString(), last_error: sendResult.error || "Provider not configured" })
+        .eq("id", campaign.id)
+      outcome.pausedFor = sendResult.error
+      break
+    }
+
+    await logDispatch(db, {
+      eventId: campaign.event_id,
+      channel: campaign.channel,
+      reg,
+      result: sendResult,
+      templateId: campaign.message_template_id,
+      campaignId: campaign.id,
+      webhooks: ctx.webhooks,
+    })
+
+    const attempt = recipient.attempts + 1
+    const finishedAt = new Date()
+    if (sendResult.success) {
+      await finishRecipient(db, recipient, {
+        status: "sent",
+        attempts: attempt,
+        sent_at: finishedAt.toISOString(),
+        provider_message_id: sendResult.messageId || null,
+        recipient: sendResult.recipient,
+        last_error: null,
+      })
+      outcome.sent++
+      continue
+    }
+
+    const retryDelay = campaignRetryDelayMs(attempt)
+    await finishRecipient(db, recipient, {
+      status: retryDelay === null ? "failed" : "retrying",
+      attempts: attempt,
+      recipient: sendResult.recipient,
+      last_error: sendResult.error || "Send failed",
+      next_attempt_at: retryDelay === null ? null : new Date(finishedAt.getTime() + retryDelay).toISOString(),
+    })
+    if (retryDelay === null) outcome.failed++
+    else outcome.retrying++
+  }
+
+  return outcome
+}
+
+async function finishRecipient(db: any, recipient: CampaignRecipient, update: Record<string, unknown>) {
+  await db
+    .from("campaign_recipients")
+    .update({ next_attempt_at: null, ...update, updated_at: new Date().toISOString() })
+    .eq("id", recipient.id)
+}
+
+/**
+ * Hand claimed-but-unsent recipients back: due again straight away, or
+ * cancelled when the campaign was cancelled mid-chunk.
+ */
+async function releaseRecipients(db: any, recipients: CampaignRecipient[], to: "cancelled" | null) {
+  if (recipients.length === 0) return
+  const now = new Date().toISOString()
+  await db
+    .from("campaign_recipients")
+    .update(to === "cancelled" ? { status: "cancelled", next_attempt_at: null, updated_at: now } : { status: "queued", next_attempt_at: now, updated_at: now })
+    .in("id", recipients.map((r) => r.id))
+    .eq("status", "sending")
+}
+
+async function countRecipients(db: any, campaignId: string, statuses: CampaignRecipientStatus[]): Promise<number> {
+  const { count } = await db
+    .from("campaign_recipients")
+    .select("id", { count: "exact", head: true })
+    .eq("campaign_id", campaignId)
+    .in("status", statuses)
+  return count || 0
+}
+
+/**
+ * Recount the campaign's totals and close it once nothing is left to send.
+ * Returns the campaign's status afterwards.
+ */
+export async function refreshCampaignTotals(db: any, campaignId: string, now = new Date()): Promise<CampaignStatus | null> {
+  const [sent, failed, skipped, open] = await Promise.all([
+    countRecipients(db, campaignId, ["sent"]),
+    countRecipients(db, campaignId, ["failed"]),
+    countRecipients(db, campaignId, ["skipped"]),
+    countRecipients(db, campaignId, OPEN_RECIPIENT_STATUSES),
+  ])
+
+  const { data: campaign } = await db.from("campaigns").select("status").eq("id", campaignId).single()
+  const done = open === 0 && campaign?.status === "sending"
+
+  await db
+    .from("campaigns")
+    .update({
+      total_sent: sent,
+      total_failed: failed,
+      total_skipped: skipped,
+      last_run_at: now.toISOString(),
+      ...(done && { status: "completed", completed_at: now.toISOString() }),
+    })
+    .eq("id", campaignId)
+
+  return done ? "completed" : campaign?.status || null
+}
+
+export interface CampaignActionResult {
+  status: CampaignStatus
+  /** Recipients cancelled or re-queued by the action. */
+  recipients: number
+}
+
+/**
+ * Pause, resume, cancel, or re-queue the recipients whose retries ran out.
+ * Returns null when the action isn't allowed in the campaign's state.
+ */
+export async function applyCampaignAction(
+  db: any,
+  campaign: Pick<Campaign, "id" | "status">,
+  action: CampaignAction,
+  now = new Date()
+): Promise<CampaignActionResult | null> {
+  const next = campaignTransition(campaign.status, action)
+  if (!next) return null
+  const at = now.toISOString()
+  let recipients = 0
+
+  if (action === "cancel") {
+    // Rows mid-send finish; everything still waiting is dropped
+    const { data } = await db
+      .from("campaign_recipients")
+      .update({ status: "cancelled", next_attempt_at: null, updated_at: at })
+      .eq("campaign_id", campaign.id)
+      .in("status", ["queued", "retrying"])
+      .select("id")
+    recipients = data?.length || 0
+  }
+
+  if (action === "retry_failed") {
+    const { data } = await db
+      .from("campaign_recipients")
+      .update({ status: "queued", attempts: 0, next_attempt_at: at, updated_at: at })
+      .eq("campaign_id", campaign.id)
+      .eq("status", "failed")
+      .select("id")
+    recipients = data?.length || 0
+  }
+
+  await db
+    .from("campaigns")
+    .update({
+      status: next,
+      ...(action === "pause" && { paused_at: at }),
+      ...(action === "resume" && { paused_at: null, last_error: null }),
+      ...(action === "cancel" && { completed_at: at }),
+      ...(action === "retry_failed" && { completed_at: null }),
+    })
+    .eq("id", campaign.id)
+
+  if (action === "cancel" || action === "retry_failed") await refreshCampaignTotals(db, campaign.id, now)
+  return { status: next, recipients }
+}
+
+/**
+ * A recipient's delivery timeline: queued, each attempt with its delivery
+ * receipts, and any pending retry.
+ */
+export async function getRecipientTimeline(
+  db: any,
+  campaignId: string,
+  recipientId: string
+): Promise<{ recipient: CampaignRecipient; timeline: TimelineEntry[] } | null> {
+  const { data: recipient } = await db
+    .from("campaign_recipients")
+    .select(RECIPIENT_COLUMNS)
+    .eq("id", recipientId)
+    .eq("campaign_id", campaignId)
+    .maybeSingle()
+  if (!recipient) return null
+
+  const logs = recipient.registration_id
+    ? await fetchAllPages<TimelineLog>(
+        db
+          .from("message_logs")
+          .select("id, status, provider, error_message, created_at, sent_at, delivered_at, read_at, failed_at")
+          .eq("campaign_id", campaignId)
+          .eq("registration_id", recipient.registration_id)
+          .order("created_at", { ascending: true })
+      )
+    : []
+
+  return { recipient, timeline: buildRecipientTimeline(recipient, logs) }
+}
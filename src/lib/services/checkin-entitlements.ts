@@ -0,0 +1,225 @@
+/**
+ * Check-in entitlements
+ *
+ * Loads what a check-in list's per-day entitlement rules need about one
+ * registration -- the event's timezone, add-ons, meal registrations and the
+ * day's scan count -- and hands it to the pure checkEntitlement in
+ * src/lib/checkin-entitlements.ts. Used by /api/checkin (staff desk),
+ * /api/verify/[token] (staff QR scanner), /api/kiosk/checkin (tablet sync)
+ * and /api/kiosk/delegates (the tablet's own copy of the rules), and by the
+ * bulk PATCH on /api/checkin. Only call these for lists where
+ * hasEntitlements() is true; every other list skips the extra reads.
+ */
+
+import {
+  checkEntitlement,
+  entitlementCriteria,
+  eventDay,
+  type EntitlementResult,
+  type EntitlementRule,
+  type ListEntitlements,
+} from "@/lib/checkin-entitlements"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+// Same fallback the session check-in provisioning uses.
+const DEFAULT_TIMEZONE = "Asia/Kolkata"
+
+// A meal registration that was cancelled doesn't entitle anyone.
+const ACTIVE_MEAL_STATUSES = ["registered", "checked_in"]
+
+export interface EntitlementEvaluation {
+  day: string
+  usesToday: number
+  result: EntitlementResult
+}
+
+export async function loadEventTimezone(db: any, eventId: string): Promise<string> {
+  const { data, error } = await db.from("events").select("timezone").eq("id", eventId).maybeSingle()
+  if (error) throw error
+  return data?.timezone || DEFAULT_TIMEZONE
+}
+
+/**
+ * Names for every ticket type, add-on and meal plan the rules mention, so a
+ * denial can say "requires Workshop ticket" instead of an id.
+ */
+export async function loadEntitlementLabels(db: any, rules: EntitlementRule[]): Promise<Record<string, string>> {
+  const ids = (key: "ticket_type_ids" | "addon_ids" | "meal_plan_ids") => [...new Set(rules.flatMap((r) => r[key]))]
+  const sources = [
+    { table: "ticket_types", ids: ids("ticket_type_ids") },
+    { table: "addons", ids: ids("addon_ids") },
+    { table: "meal_plans", ids: ids("meal_plan_ids") },
+  ].filter((s) => s.ids.length > 0)
+
+  const results = await Promise.all(sources.map((s) => db.from(s.table).select("id, name").in("id", s.ids)))
+  const labels: Record<string, string> = {}
+  for (const { data, error } of results) {
+    if (error) throw error
+    for (const row of data || []) labels[row.id] = row.name
+  }
+  return labels
+}
+
+export async function countEntitlementUses(db: any, listId: string, registrationId: string, day: string): Promise<number> {
+  const { count, error } = await db
+    .from("checkin_entitlement_uses")
+    .select("id", { count: "exact", head: true })
+    .eq("checkin_list_id", listId)
+    .eq("registration_id", registrationId)
+    .eq("use_date", day)
+  if (error) throw error
+  return count ?? 0
+}
+
+/**
+ * Evaluates the list's rules for one registration at `at` (the scan time).
+ * Throws on a failed read -- callers turn that into a 5xx rather than
+ * guessing either way.
+ */
+export async function evaluateListEntitlement(
+  db: any,
+  params: {
+    eventId: string
+    list: ListEntitlements & { id: string; name?: string | null }
+    registration: { id: string; ticket_type_id: string | null }
+    at: Date
+  }
+): Promise<EntitlementEvaluation> {
+  const { eventId, list, registration, at } = params
+  const criteria = entitlementCriteria(list)
+  const timezone = await loadEventTimezone(db, eventId)
+  const day = eventDay(at, timezone)
+
+  const [addonsResult, mealsResult, usesToday] = await Promise.all([
+    criteria.addons
+      ? db.from("registration_addons").select("addon_id").eq("registration_id", registration.id)
+      : { data: [], error: null },
+    criteria.mealPlans
+      ? db
+          .from("meal_registrations")
+          .select("meal_plan_id")
+          .eq("registration_id", registration.id)
+          .in("status", ACTIVE_MEAL_STATUSES)
+      : { data: [], error: null },
+    list.max_scans_per_day ? countEntitlementUses(db, list.id, registration.id, day) : 0,
+  ])
+  if (addonsResult.error) throw addonsResult.error
+  if (mealsResult.error) throw mealsResult.error
+
+  const holder = {
+    ticket_type_id: registration.ticket_type_id,
+    addon_ids: (addonsResult.data || []).map((r: { addon_id: string }) => r.addon_id),
+    meal_plan_ids: (mealsResult.data || []).map((r: { meal_plan_id: string }) => r.meal_plan_id),
+  }
+  const context = { day, usesToday, listName: list.name }
+
+  let result = checkEntitlement(list, holder, context)
+  if (!result.allowed && result.code === "not_entitled") {
+    // Names are only worth a query when the reason will show them.
+    const labels = await loadEntitlementLabels(db, list.entitlement_rules ?? [])
+    result = checkEntitlement(list, holder, { ...context, labels })
+  }
+  return { day, usesToday, result }
+}
+
+/**
+ * The add-ons and meal plans each roster delegate holds, limited to the ones
+ * the list's rules mention -- what a kiosk tablet needs to run
+ * checkEntitlement offline. Keyed by registration id; delegates holding
+ * none are absent.
+ */
+export async function loadEntitlementHoldings(
+  db: any,
+  rules: EntitlementRule[]
+): Promise<Map<string, { addon_ids: string[]; meal_plan_ids: string[] }>> {
+  const addonIds = [...new Set(rules.flatMap((r) => r.addon_ids))]
+  const mealPlanIds = [...new Set(rules.flatMap((r) => r.meal_plan_ids))]
+
+  const [addonRows, mealRows] = await Promise.all([
+    addonIds.length > 0
+      ? fetchAllPages<{ registration_id: string; addon_id: string }>(
+          db.from("registration_addons").select("registration_id, addon_id").in("addon_id", addonIds).order("id")
+        )
+      : [],
+    mealPlanIds.length > 0
+      ? fetchAllPages<{ registration_id: string; meal_plan_id: string }>(
+          db
+            .from("meal_registrations")
+            .select("registration_id, meal_plan_id")
+            .in("meal_plan_id", mealPlanIds)
+            .in("status", ACTIVE_MEAL_STATUSES)
+            .order("id")
+        )
+      : [],
+  ])
+
+  const holdings = new Map<string, { addon_ids: string[]; meal_plan_ids: string[] }>()
+  const holding = (registrationId: string) => {
+    let h = holdings.get(registrationId)
+    if (!h) {
+      h = { addon_ids: [], meal_plan_ids: [] }
+      holdings.set(registrationId, h)
+    }
+    return h
+  }
+  for (const r of addonRows) holding(r.registration_id).addon_ids.push(r.addon_id)
+  for (const r of mealRows) holding(r.registration_id).meal_plan_ids.push(r.meal_plan_id)
+  return holdings
+}
+
+// The unique index the claim below races on; the other unique index on the
+// table is the kiosk's scan_id.
+const SLOT_KEY = "checkin_entitlement_uses_slot_key"
+
+export interface EntitlementClaim {
+  // The delegate's admitted scans on the list that day including this one,
+  // or null when every slot up to the limit is already taken.
+  usesToday: number | null
+  // Kiosk scans: another upload of the same scan_id counted it first.
+  alreadyCounted?: boolean
+  error: { code?: string; message?: string } | null
+}
+
+/**
+ * Counts one admitted scan toward the list's max_scans_per_day by claiming
+ * the next free slot for the delegate and day. `usesToday` is the count the
+ * evaluation read; a concurrent scan that took that slot in the meantime
+ * pushes this one to the next, and once the slots run out the scan is over
+ * the limit. The unique (list, registration, day, slot) index makes the
+ * check and the insert one step, so two desks can't both admit the last use.
+ */
+export async function claimEntitlementUse(
+  db: any,
+  use: {
+    eventId: string
+    listId: string
+    registrationId: string
+    day: string
+    scannedAt: Date
+    maxPerDay: number
+    usesToday: number
+    scanId?: string | null
+    stationId?: string | null
+    createdBy?: string | null
+  }
+): Promise<EntitlementClaim> {
+  for (let slot = use.usesToday + 1; slot <= use.maxPerDay; slot++) {
+    const { error } = await db.from("checkin_entitlement_uses").insert({
+      event_id: use.eventId,
+      checkin_list_id: use.listId,
+      registration_id: use.registrationId,
+      use_date: use.day,
+      slot,
+      scanned_at: use.scannedAt.toISOString(),
+      scan_id: use.scanId ?? null,
+      station_id: use.stationId ?? null,
+      created_by: use.createdBy ?? null,
+    })
+    if (!error) return { usesToday: slot, error: null }
+    if (error.code !== "23505") return { usesToday: null, error }
+    if (!String(error.message ?? "").includes(SLOT_KEY)) {
+      return { usesToday: null, alreadyCounted: true, error: null }
+    }
+  }
+  return { usesToday: null, error: null }
+}
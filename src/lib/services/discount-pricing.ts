@@ -0,0 +1,163 @@
+/**
+ * Server-side discount pricing: loads an event's discount rules and the
+ * customer's code, checks AMASI membership when a member rule exists, and
+ * prices the cart with the rule engine in @/lib/discount-rules.
+ *
+ * Used by checkout (create-order, registrations, group registrations) and the
+ * public /api/discounts/price preview, so the number a customer sees is the
+ * number they're charged.
+ */
+
+import {
+  priceCart,
+  type CartLine,
+  type DiscountCodeRow,
+  type DiscountRule,
+  type PricingResult,
+} from "@/lib/discount-rules"
+import { lookupAmasiMember } from "@/lib/services/amasi-member-lookup"
+
+type Db = any
+
+export interface OrderPricing extends PricingResult {
+  code: DiscountCodeRow | null
+  is_member: boolean
+}
+
+export async function loadDiscountRules(db: Db, eventId: string): Promise<DiscountRule[]> {
+  const { data, error } = await db
+    .from("discount_rules")
+    .select("*")
+    .eq("event_id", eventId)
+    .eq("is_active", true)
+    .order("priority", { ascending: true })
+
+  if (error) {
+    // Missing rules must not block checkout; the customer just pays list price
+    console.error("[DiscountPricing] Failed to load rules:", error.message)
+    return []
+  }
+  return (data || []).map((row: any) => ({
+    ...row,
+    discount_value: Number(row.discount_value),
+    max_discount_amount: row.max_discount_amount != null ? Number(row.max_discount_amount) : null,
+  }))
+}
+
+export async function loadDiscountCode(db: Db, eventId: string, code?: string | null): Promise<DiscountCodeRow | null> {
+  if (!code?.trim()) return null
+  const { data } = await db
+    .from("discount_codes")
+    .select("*")
+    .eq("event_id", eventId)
+    .eq("code", code.trim().toUpperCase())
+    .eq("is_active", true)
+    .maybeSingle()
+  return data || null
+}
+
+/**
+ * Build cart lines from ticket/addon selections using database prices.
+ * Unknown or inactive items are left out rather than priced from the client.
+ */
+export async function buildCart(
+  db: Db,
+  tickets: Array<{ id?: string; ticket_type_id?: string; quantity?: number }> = [],
+  addons: Array<{ addonId: string; variantId?: string | null; quantity?: number }> = []
+): Promise<CartLine[]> {
+  const cart: CartLine[] = []
+
+  const ticketIds = tickets.map((t) => t.id || t.ticket_type_id).filter(Boolean)
+  if (ticketIds.length > 0) {
+    const { data: ticketTypes } = await db
+      .from("ticket_types")
+      .select("id, name, price, status")
+      .in("id", ticketIds)
+    for (const selection of tickets) {
+      const ticket = (ticketTypes || []).find((t: any) => t.id === (selection.id || selection.ticket_type_id))
+      if (!ticket || ticket.status !== "active") continue
+      cart.push({ kind: "ticket", id: ticket.id, name: ticket.name, unit_price: Number(ticket.price), quantity: selection.quantity || 1 })
+    }
+  }
+
+  if (addons.length > 0) {
+    const { data: addonRows } = await db
+      .from("addons")
+      .select("id, name, price, is_active")
+      .in("id", addons.map((a) => a.addonId))
+    const variantIds = addons.filter((a) => a.variantId).map((a) => a.variantId)
+    let variants: any[] = []
+    if (variantIds.length > 0) {
+      const { data } = await db.from("addon_variants").select("id, addon_id, price").in("id", variantIds)
+      variants = data || []
+    }
+    for (const selection of addons) {
+      const addon = (addonRows || []).find((a: any) => a.id === selection.addonId)
+      if (!addon || !addon.is_active) continue
+      const variant = variants.find((v) => v.id === selection.variantId && v.addon_id === addon.id)
+      cart.push({
+        kind: "addon",
+        id: addon.id,
+        name: addon.name,
+        unit_price: Number(variant ? variant.price : addon.price),
+        quantity: selection.quantity || 1,
+      })
+    }
+  }
+
+  return cart
+}
+
+/**
+ * Price a cart for an event. Membership is only looked up when the event
+ * actually has a member rule, so ordinary checkouts don't pay for the query.
+ */
+export async function priceOrder(
+  db: Db,
+  params: {
+    eventId: string
+    cart: CartLine[]
+    code?: string | null
+    email?: string | null
+    phone?: string | null
+    now?: Date
+  }
+): Promise<OrderPricing> {
+  const [rules, code] = await Promise.all([
+    loadDiscountRules(db, params.eventId),
+    loadDiscountCode(db, params.eventId, params.code),
+  ])
+
+  let isMember = false
+  if (rules.some((r) => r.rule_type === "member") && (params.email || params.phone)) {
+    try {
+      isMember = !!(await lookupAmasiMember({ email: params.email, phone: params.phone }, db))
+    } catch (err: any) {
+      console.error("[DiscountPricing] Member lookup failed:", err?.message || err)
+    }
+  }
+
+  const result = priceCart(params.cart, rules, code, { now: params.now, isMember })
+  return { ...result, code, is_member: isMember }
+}
+
+/**
+ * The applied code's id, if the code made it into the final price.
+ */
+export function appliedCodeId(pricing: PricingResult): string | null {
+  return pricing.applied.find((a) => a.source === "code")?.id || null
+}
+
+/**
+ * Count a use of the code, if it was applied. Reserving at order time (not
+ * at capture) is how codes have always worked here; max_uses is checked
+ * against this counter.
+ */
+export async function recordDiscountCodeUse(db: Db, pricing: OrderPricing, uses = 1): Promise<void> {
+  const codeId = appliedCodeId(pricing)
+  if (!codeId || !pricing.code) return
+  await db
+    .from("discount_codes")
+    .update({ current_uses: (pricing.code.current_uses || 0) + uses })
+    .eq("id", codeId)
+}
@@ -17,4 +17,14 @@ describe("iciciGateway", () => {
       iciciGateway.verifySignature({ gatewayOrderId: "o1", gatewayPaymentId: "p1", signature: "sig" })
     ).toThrow(/not yet configured/i)
   })
+
+  it("fetchPayment, refund and listCapturedPayments reject with a clear not-configured message", async () => {
+    await expect(iciciGateway.fetchPayment("p1")).rejects.toThrow(/not yet configured/i)
+    await expect(iciciGateway.refund({ gatewayPaymentId: "p1", amount: 100 })).rejects.toThrow(/not yet configured/i)
+    await expect(iciciGateway.listCapturedPayments({ from: 0, to: 1 })).rejects.toThrow(/not yet configured/i)
+  })
+
+  it("verifyWebhook throws a clear not-configured message", () => {
+    expect(() => iciciGateway.verifyWebhook({ rawBody: "{}", signature: "sig" })).toThrow(/not yet configured/i)
+  })
 })
@@ -1,20 +1,44 @@
-// Stub ICICI Payment Gateway implementation. Not wired into any API route
-// yet -- ICICI merchant credentials and API integration details are not
-// yet available. When they are, replace these method bodies with real
-// ICICI API calls; see docs/superpowers/specs/2026-07-31-multi-payment-
-// gateway-scaffold-design.md for the follow-on integration notes.
+// Stub ICICI Payment Gateway implementation. Registered in
+// payment-gateway-registry.ts but marked unavailable, so the payment-settings
+// page can't select it yet -- ICICI merchant credentials and API integration
+// details are not yet available. When they are, replace these method bodies
+// with real ICICI API calls; see docs/superpowers/specs/2026-07-31-multi-
+// payment-gateway-scaffold-design.md for the follow-on integration notes.
 
-import type { PaymentGatewayService, CreateOrderParams, GatewayOrder, VerifySignatureParams } from "./payment-gateway"
+import type {
+  PaymentGatewayService,
+  CreateOrderParams,
+  GatewayOrder,
+  GatewayPayment,
+  GatewayRefund,
+  ListPaymentsParams,
+  RefundParams,
+  VerifySignatureParams,
+  VerifyWebhookParams,
+} from "./payment-gateway"
 
 const NOT_CONFIGURED_MESSAGE =
   "ICICI Payment Gateway integration is not yet configured -- merchant credentials and API integration are pending."
 
 export const iciciGateway: PaymentGatewayService = {
   name: "icici",
+  publicKey: null,
   async createOrder(_params: CreateOrderParams): Promise<GatewayOrder> {
     throw new Error(NOT_CONFIGURED_MESSAGE)
   },
   verifySignature(_params: VerifySignatureParams): boolean {
     throw new Error(NOT_CONFIGURED_MESSAGE)
   },
+  async fetchPayment(_gatewayPaymentId: string): Promise<GatewayPayment> {
+    throw new Error(NOT_CONFIGURED_MESSAGE)
+  },
+  async refund(_params: RefundParams): Promise<GatewayRefund> {
+    throw new Error(NOT_CONFIGURED_MESSAGE)
+  },
+  verifyWebhook(_params: VerifyWebhookParams): boolean {
+    throw new Error(NOT_CONFIGURED_MESSAGE)
+  },
+  async listCapturedPayments(_params: ListPaymentsParams): Promise<GatewayPayment[]> {
+    throw new Error(NOT_CONFIGURED_MESSAGE)
+  },
 }
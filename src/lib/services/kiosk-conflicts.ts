@@ -0,0 +1,133 @@
+/**
+ * Kiosk conflicts
+ *
+ * Loads everything the admin conflicts console and its reliability report
+ * need for one event, and hands it to the pure pairing/report logic in
+ * src/lib/kiosk-conflicts.ts.
+ */
+
+import {
+  buildConflictItems,
+  buildReliabilityReport,
+  type CheckinRecordState,
+  type ConflictItem,
+  type ConflictRow,
+  type DuplicateAuditRow,
+  type ReliabilityStation,
+  type StationReliabilityRow,
+} from "@/lib/kiosk-conflicts"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+const IN_CHUNK = 300
+
+export interface EventConflicts {
+  items: ConflictItem[]
+  stations: ReliabilityStation[]
+  lists: { id: string; name: string }[]
+}
+
+async function loadInChunks<T>(ids: string[], load: (chunk: string[]) => PromiseLike<T[]>): Promise<T[]> {
+  const out: T[] = []
+  for (let i = 0; i < ids.length; i += IN_CHUNK) {
+    out.push(...(await load(ids.slice(i, i + IN_CHUNK))))
+  }
+  return out
+}
+
+export async function loadEventConflicts(db: any, eventId: string): Promise<EventConflicts> {
+  const [conflicts, auditRows, stations, lists] = await Promise.all([
+    fetchAllPages<ConflictRow>(
+      db
+        .from("kiosk_scan_conflicts")
+        .select(
+          "id, source, station_id, device_id, scan_id, audit_log_id, checkin_list_id, registration_id, scanned_at, device_snapshot, server_response, status, resolution_note, resolved_at"
+        )
+        .eq("event_id", eventId)
+        .order("id", { ascending: true })
+    ),
+    // Same selection as /api/reports/duplicates: the kiosk check-in route's
+    // duplicate rows, never help-desk or scanner-app ones.
+    fetchAllPages<DuplicateAuditRow>(
+      db
+        .from("checkin_audit_log")
+        .select("id, created_at, checkin_list_id, registration_id, device_info")
+        .eq("event_id", eventId)
+        .eq("performed_via", "kiosk")
+        .contains("device_info", { duplicate: true })
+        .order("id", { ascending: true })
+    ),
+    fetchAllPages<ReliabilityStation>(
+      db
+        .from("kiosk_stations")
+        .select("id, name, app_version, telemetry_at, pending_scans, revoked_at")
+        .eq("event_id", eventId)
+        .order("name", { ascending: true })
+    ),
+    fetchAllPages<{ id: string; name: string }>(
+      db.from("checkin_lists").select("id, name").eq("event_id", eventId).order("name", { ascending: true })
+    ),
+  ])
+
+  const registrationIds = [
+    ...new Set(
+      [...conflicts.map((c) => c.registration_id), ...auditRows.map((r) => r.registration_id)].filter(
+        (id): id is string => !!id
+      )
+    ),
+  ]
+
+  const [records, registrations] = await Promise.all([
+    loadInChunks<CheckinRecordState>(registrationIds, async (chunk) => {
+      const { data, error } = await db
+        .from("checkin_records")
+        .select("id, registration_id, checkin_list_id, checked_in_at, station_id, checked_out_at, reversed_at")
+        .in("registration_id", chunk)
+      if (error) throw error
+      return data || []
+    }),
+    loadInChunks<{ id: string; attendee_name: string; registration_number: string }>(registrationIds, async (chunk) => {
+      const { data, error } = await db
+        .from("registrations")
+        .select("id, attendee_name, registration_number")
+        .eq("event_id", eventId)
+        .in("id", chunk)
+      if (error) throw error
+      return data || []
+    }),
+  ])
+
+  const items = buildConflictItems({
+    conflicts,
+    auditRows,
+    records,
+    stationNames: new Map(stations.map((s) => [s.id, s.name])),
+    listNames: new Map(lists.map((l) => [l.id, l.name])),
+    registrations: new Map(registrations.map((r) => [r.id, r])),
+  })
+
+  return { items, stations, lists }
+}
+
+/**
+ * Per-station reliability for the event: its kiosk check-ins next to the
+ * duplicates and conflicts attributed to it.
+ */
+export async function loadReliabilityReport(db: any, eventId: string): Promise<StationReliabilityRow[]> {
+  const { items, stations, lists } = await loadEventConflicts(db, eventId)
+
+  const checkIns = new Map<string, number>()
+  if (lists.length > 0) {
+    const rows = await fetchAllPages<{ station_id: string }>(
+      db
+        .from("checkin_records")
+        .select("station_id")
+        .in("checkin_list_id", lists.map((l) => l.id))
+        .not("station_id", "is", null)
+        .is("reversed_at", null)
+        .order("id", { ascending: true })
+    )
+    for (const row of rows) checkIns.set(row.station_id, (checkIns.get(row.station_id) || 0) + 1)
+  }
+
+  return buildReliabilityReport(stations, checkIns, items)
+}
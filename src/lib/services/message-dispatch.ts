@@ -0,0 +1,343 @@
+/**
+ * Message Dispatch
+ *
+ * Sends one admin-composed message to one registration over email, WhatsApp
+ * or SMS using the event's communication_settings (falling back to the
+ * deployment's env-configured providers), and records it in message_logs.
+ * Shared by the immediate compose send (/api/communications/send) and the
+ * campaign runner so both resolve providers and log identically.
+ */
+
+import { sendEmail, isEmailEnabled, getEmailProvider } from "@/lib/email"
+import { sendWhatsAppMessage, WhatsAppConfig } from "@/lib/services/whatsapp"
+import { sendSMS, SMSConfig } from "@/lib/services/sms"
+import { buildCommunicationPayload } from "@/lib/services/webhook"
+import { attemptDelivery, enqueueWebhook } from "@/lib/services/webhook-outbox"
+import { COMPANY_CONFIG } from "@/lib/config"
+import { escapeHtml } from "@/lib/string-utils"
+
+export type MessageChannel = "email" | "whatsapp" | "sms"
+
+export interface DispatchRecipient {
+  id: string
+  attendee_name: string
+  attendee_email: string | null
+  attendee_phone: string | null
+}
+
+export interface DispatchEvent {
+  id: string
+  name: string
+  short_name: string | null
+}
+
+export interface DispatchContent {
+  subject?: string | null
+  message: string
+  /** Email only; other channels send the message alone. */
+  attachments?: { filename: string; content: Buffer }[]
+}
+
+export interface DispatchResult {
+  success: boolean
+  /** Why nothing was sent: the recipient has no address on this channel, or the provider isn't set up. */
+  notSent?: "no_address" | "not_configured"
+  recipient: string
+  provider: string | null
+  messageId?: string
+  error?: string
+  subject?: string
+  message: string
+}
+
+export function personalize(text: string, recipient: Pick<DispatchRecipient, "attendee_name">): string {
+  return text.replace(/\{\{name\}\}/gi, recipient.attendee_name)
+}
+
+/**
+ * The provider a channel's sends go out through for this event, as recorded
+ * in message_logs.provider and used for campaign throttles.
+ */
+export function resolveMessageProvider(channel: MessageChannel, settings: any): string | null {
+  if (channel === "email") {
+    return settings?.email_provider && settings.email_provider !== "default"
+      ? settings.email_provider
+      : getEmailProvider()
+  }
+  if (channel === "whatsapp") {
+    const qikchatEnvAvailable = !!process.env.QIKCHAT_API_KEY?.trim()
+    if (settings?.whatsapp_provider) return settings.whatsapp_provider
+    if (qikchatEnvAvailable) return "qikchat"
+    if (process.env.GALLABOX_API_KEY?.trim()) return "gallabox"
+    return null
+  }
+  return settings?.sms_provider || null
+}
+
+/**
+ * Send one message. Never throws for provider errors; they come back as
+ * `success: false` with the provider's message.
+ */
+export async function dispatchMessage(
+  settings: any,
+  event: DispatchEvent,
+  channel: MessageChannel,
+  reg: DispatchRecipient,
+  content: DispatchContent
+): Promise<DispatchResult> {
+  const message = personalize(content.message, reg)
+  const subject = content.subject ? personalize(content.subject, reg) : undefined
+  const provider = resolveMessageProvider(channel, settings)
+  const base = { provider, subject, message }
+  const notSent = (recipient: string, error: string, reason: DispatchResult["notSent"] = "not_configured"): DispatchResult =>
+    ({ ...base, success: false, notSent: reason, recipient, error })
+
+  let sendResult: { success: boolean; messageId?: string; error?: string }
+  let recipient = ""
+
+  switch (channel) {
+    case "email": {
+      recipient = reg.attendee_email || ""
+      if (!recipient) return notSent(recipient, "No email address", "no_address")
+
+      const emailHtml = buildEmailHtml(event, message)
+      if (isEmailEnabled() || (settings?.email_provider && settings.email_provider !== "default" && settings.email_api_key)) {
+        // Event-specific email providers fall back to the default sender for now
+        sendResult = await sendEmail({
+          to: recipient,
+          subject: subject || `Message from ${event.short_name || event.name}`,
+          html: emailHtml,
+          attachments: content.attachments,
+        })
+      } else {
+        // Dev mode
+        sendResult = { success: true, messageId: `dev-${Date.now()}` }
+        console.log(`[DEV] Would send email to ${recipient}`)
+      }
+      break
+    }
+
+    case "whatsapp": {
+      recipient = reg.attendee_phone || ""
+      if (!recipient) return notSent(recipient, "No phone number", "no_address")
+
+      // If the event's provider is qikchat but its api_key is blank,
+      // fall back to the env-var QIKCHAT_API_KEY (same path auto-sends
+      // use). This is how the TechnoSurg event is configured — provider
+      // set, key stored only in env. Without this fallback every send
+      // failed with "Missing Qikchat API key".
+      const qikchatEnvAvailable = !!process.env.QIKCHAT_API_KEY?.trim()
+      const useEnvQikchat =
+        settings?.whatsapp_provider === "qikchat" &&
+        !settings?.whatsapp_api_key &&
+        qikchatEnvAvailable
+
+      if (settings?.whatsapp_provider && !useEnvQikchat) {
+        // Validate required fields based on provider
+        const whatsappProvider = settings.whatsapp_provider
+        if (whatsappProvider === "meta" && (!settings.whatsapp_phone_number_id || !settings.whatsapp_access_token)) {
+          return notSent(recipient, "WhatsApp Meta provider not configured (missing phone_number_id or access_token)")
+        }
+        if (whatsappProvider === "twilio" && (!settings.twilio_account_sid || !settings.twilio_auth_token || !settings.twilio_phone_number)) {
+          return notSent(recipient, "WhatsApp Twilio provider not configured")
+        }
+        if (whatsappProvider === "gallabox" && (!settings.whatsapp_api_key || !settings.whatsapp_access_token || !settings.whatsapp_phone_number_id)) {
+          return notSent(recipient, "WhatsApp Gallabox provider not configured (missing api_key, access_token/apiSecret, or phone_number_id/channelId)")
+        }
+        if (whatsappProvider === "qikchat" && !settings.whatsapp_api_key) {
+          return notSent(recipient, "WhatsApp Qikchat provider not configured (missing api_key, and no QIKCHAT_API_KEY env var)")
+        }
+
+        const whatsappConfig: WhatsAppConfig = {
+          provider: settings.whatsapp_provider,
+          phoneNumberId: settings.whatsapp_phone_number_id,
+          businessAccountId: settings.whatsapp_business_account_id,
+          accessToken: settings.whatsapp_access_token,
+          accountSid: settings.twilio_account_sid,
+          authToken: settings.twilio_auth_token,
+          phoneNumber: settings.twilio_phone_number,
+          apiKey: settings.whatsapp_api_key,
+          // Gallabox: apiSecret maps to whatsapp_access_token, channelId maps to whatsapp_phone_number_id
+          apiSecret: settings.whatsapp_provider === "gallabox" ? settings.whatsapp_access_token : undefined,
+          channelId: settings.whatsapp_provider === "gallabox" ? settings.whatsapp_phone_number_id : undefined,
+        }
+
+        // Compose sends admin-authored free text, and neither approved
+        // Gallabox template (welcome_template: fixed copy + {{Name}};
+        // delegate_login: fixed copy + Delegate_Name/Event_Name/Portal_URL)
+        // has a variable that can carry an arbitrary message body, so
+        // there's no compliant way to route this through a template —
+        // send as plain text. If a free-text-body template gets
+        // approved in Gallabox, wire it in here.
+        sendResult = await sendWhatsAppMessage(whatsappConfig, { to: recipient, message })
+      } else if (useEnvQikchat || (!settings?.whatsapp_provider && qikchatEnvAvailable)) {
+        // Use Qikchat from env vars as fallback
+        const { sendQikchatText } = await import("@/lib/qikchat")
+        sendResult = await sendQikchatText(recipient, message)
+      } else if (!settings?.whatsapp_provider && process.env.GALLABOX_API_KEY?.trim()) {
+        // Use Gallabox from env vars as fallback
+        const { sendGallaboxText } = await import("@/lib/gallabox")
+        sendResult = await sendGallaboxText(recipient, reg.attendee_name || "Delegate", message)
+      } else {
+        // Dev mode
+        sendResult = { success: true, messageId: `dev-wa-${Date.now()}` }
+        console.log(`[DEV] Would send WhatsApp to ${recipient}`)
+      }
+      break
+    }
+
+    case "sms": {
+      recipient = reg.attendee_phone || ""
+      if (!recipient) return notSent(recipient, "No phone number", "no_address")
+
+      if (settings?.sms_provider) {
+        // Validate required fields based on provider
+        const smsProvider = settings.sms_provider
+        if (smsProvider === "twilio" && (!settings.twilio_account_sid || !settings.twilio_auth_token || !settings.twilio_phone_number)) {
+          return notSent(recipient, "SMS Twilio provider not configured")
+        }
+        if ((smsProvider === "msg91" || smsProvider === "textlocal") && !settings.sms_api_key) {
+          return notSent(recipient, `SMS provider ${smsProvider} not configured (missing api_key)`)
+        }
+
+        const smsConfig: SMSConfig = {
+          provider: settings.sms_provider,
+          accountSid: settings.twilio_account_sid,
+          authToken: settings.twilio_auth_token,
+          phoneNumber: settings.twilio_phone_number,
+          apiKey: settings.sms_api_key,
+          senderId: settings.sms_sender_id,
+        }
+
+        sendResult = await sendSMS(smsConfig, { to: recipient, message })
+      } else {
+        // Dev mode
+        sendResult = { success: true, messageId: `dev-sms-${Date.now()}` }
+        console.log(`[DEV] Would send SMS to ${recipient}`)
+      }
+      break
+    }
+  }
+
+  return { ...base, ...sendResult, recipient }
+}
+
+export interface LogDispatchParams {
+  eventId: string
+  channel: MessageChannel
+  reg: DispatchRecipient
+  result: DispatchResult
+  templateId?: string | null
+  campaignId?: string | null
+  /** Queue message.sent for the event's webhook endpoints (successful sends only). */
+  webhooks?: boolean
+}
+
+/**
+ * Record a send (or failed send) in message_logs. Returns the log row id.
+ */
+export async function logDispatch(db: any, params: LogDispatchParams): Promise<string | null> {
+  const { eventId, channel, reg, result } = params
+  const now = new Date().toISOString()
+
+  // Capture insert errors so silent log loss is visible
+  const { data: log, error: logErr } = await db
+    .from("message_logs")
+    .insert({
+      event_id: eventId,
+      registration_id: reg.id,
+      template_id: params.templateId || null,
+      campaign_id: params.campaignId || null,
+      channel,
+      provider: result.provider || (channel === "email" ? "default" : null),
+      recipient: result.recipient,
+      recipient_name: reg.attendee_name,
+      subject: result.subject,
+      message_body: result.message,
+      status: result.success ? "sent" : "failed",
+      provider_message_id: result.messageId || null,
+      error_message: result.success ? null : result.error || null,
+      sent_at: result.success ? now : null,
+      failed_at: result.success ? null : now,
+    })
+    .select("id")
+    .single()
+  if (logErr) {
+    console.error(`[message-dispatch] message_logs insert failed for ${result.recipient}:`, logErr)
+  }
+
+  // Queue for the event's webhook endpoints subscribed to message.sent.
+  // The first delivery attempt isn't awaited so slow receivers don't
+  // hold up the sender; failures are retried by the webhook-deliveries
+  // cron and show up on the webhook settings page.
+  if (params.webhooks && result.success) {
+    const webhookPayload = buildCommunicationPayload("message.sent", {
+      eventId,
+      registrationId: reg.id,
+      recipientName: reg.attendee_name,
+      recipientEmail: reg.attendee_email || undefined,
+      recipientPhone: reg.attendee_phone || undefined,
+      channel,
+      subject: result.subject,
+      messageBody: result.message,
+      messageId: result.messageId,
+    })
+    const webhookRows = await enqueueWebhook(db, {
+      eventId,
+      eventType: "message.sent",
+      payload: { ...webhookPayload },
+    }).catch((err) => {
+      console.error("[message-dispatch] Could not queue webhook:", err)
+      return []
+    })
+    for (const row of webhookRows) {
+      attemptDelivery(db, row, "auto").catch((err) => {
+        console.error("[message-dispatch] Webhook delivery failed:", err)
+      })
+    }
+  }
+
+  return log?.id || null
+}
+
+export function buildEmailHtml(event: Pick<DispatchEvent, "name" | "short_name">, message: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #f3f4f6;">
+      <table role="presentation" style="width: 100%; border-collapse: collapse;">
+        <tr>
+          <td align="center" style="padding: 40px 20px;">
+            <table role="presentation" style="width: 100%; max-width: 600px; border-collapse: collapse;">
+              <!-- Header -->
+              <tr>
+                <td style="background: linear-gradient(135deg, #0f172a 0%, #1e293b 100%); padding: 30px; border-radius: 16px 16px 0 0; text-align: center;">
+                  <h1 style="color: white; margin: 0; font-size: 24px; font-weight: bold;">${escapeHtml(event.short_name || event.name || "")}</h1>
+                </td>
+              </tr>
+              <!-- Content -->
+              <tr>
+                <td style="background-color: white; padding: 30px;">
+                  <div style="color: #1f2937; font-size: 15px; line-height: 1.8; white-space: pre-wrap;">${escapeHtml(message || "")}</div>
+                </td>
+              </tr>
+              <!-- Footer -->
+              <tr>
+                <td style="background-color: #1f2937; padding: 20px 30px; border-radius: 0 0 16px 16px; text-align: center;">
+                  <p style="color: #6b7280; margin: 0; font-size: 12px;">
+                    &copy; ${new Date().getFullYear()} ${COMPANY_CONFIG.name}. All rights reserved.
+                  </p>
+                </td>
+              </tr>
+            </table>
+          </td>
+        </tr>
+      </table>
+    </body>
+    </html>
+  `
+}
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import crypto from "crypto"
+import {
+  getGateway,
+  getGatewayForEvent,
+  getGatewayForPayment,
+  isPaymentGatewayName,
+  razorpayCredentials,
+  resolveGatewayName,
+} from "./payment-gateway-registry"
+
+const EVENT = {
+  payment_gateway: "razorpay",
+  razorpay_key_id: "rzp_test_event",
+  razorpay_key_secret: "event_secret",
+  razorpay_webhook_secret: "event_webhook_secret",
+}
+
+function sign(body: string, secret: string) {
+  return crypto.createHmac("sha256", secret).update(body).digest("hex")
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe("resolveGatewayName", () => {
+  it("uses the event's choice", () => {
+    expect(resolveGatewayName({ payment_gateway: "icici" })).toBe("icici")
+  })
+
+  it("falls back to razorpay for unset, unknown or missing events", () => {
+    expect(resolveGatewayName({ payment_gateway: null })).toBe("razorpay")
+    expect(resolveGatewayName({ payment_gateway: "paypal" })).toBe("razorpay")
+    expect(resolveGatewayName(null)).toBe("razorpay")
+  })
+
+  it("recognises registered names only", () => {
+    expect(isPaymentGatewayName("razorpay")).toBe(true)
+    expect(isPaymentGatewayName("toString")).toBe(false)
+  })
+})
+
+describe("razorpayCredentials", () => {
+  it("needs both keys", () => {
+    expect(razorpayCredentials({ razorpay_key_id: "k" })).toBeUndefined()
+    expect(razorpayCredentials(EVENT)).toEqual({
+      key_id: "rzp_test_event",
+      key_secret: "event_secret",
+      webhook_secret: "event_webhook_secret",
+    })
+  })
+})
+
+describe("getGatewayForEvent", () => {
+  it("returns the event's gateway configured with its checkout key", () => {
+    const gateway = getGatewayForEvent(EVENT)
+    expect(gateway.name).toBe("razorpay")
+    expect(gateway.publicKey).toBe("rzp_test_event")
+  })
+
+  it("falls back to the default account's public key", () => {
+    vi.stubEnv("NEXT_PUBLIC_RAZORPAY_KEY_ID", "rzp_test_default")
+    expect(getGatewayForEvent(null).publicKey).toBe("rzp_test_default")
+  })
+
+  it("routes ICICI events to the ICICI stub", () => {
+    expect(getGatewayForEvent({ payment_gateway: "icici" }).name).toBe("icici")
+  })
+})
+
+describe("getGatewayForPayment", () => {
+  it("goes back to the gateway recorded on the payment, not the event's current one", () => {
+    const event = { ...EVENT, payment_gateway: "icici" }
+    expect(getGatewayForPayment({ metadata: { gateway: "razorpay" } }, event).name).toBe("razorpay")
+    expect(getGatewayForPayment({ payment_method: "razorpay", metadata: null }, event).name).toBe("razorpay")
+  })
+
+  it("uses the event's gateway when the payment doesn't name one", () => {
+    expect(getGatewayForPayment({ payment_method: "bank_transfer" }, { payment_gateway: "icici" }).name).toBe("icici")
+  })
+})
+
+describe("razorpay verifyWebhook", () => {
+  const body = JSON.stringify({ event: "payment.captured" })
+
+  it("checks against the event's webhook secret", () => {
+    const gateway = getGateway("razorpay", EVENT)
+    expect(gateway.verifyWebhook({ rawBody: body, signature: sign(body, "event_webhook_secret") })).toBe(true)
+    expect(gateway.verifyWebhook({ rawBody: body, signature: sign(body, "other") })).toBe(false)
+  })
+
+  it("uses the default secret for events without their own", () => {
+    vi.stubEnv("RAZORPAY_WEBHOOK_SECRET", "default_webhook_secret")
+    const gateway = getGateway("razorpay", null)
+    expect(gateway.verifyWebhook({ rawBody: body, signature: sign(body, "default_webhook_secret") })).toBe(true)
+  })
+
+  it("rejects everything when no secret is configured at all", () => {
+    vi.stubEnv("RAZORPAY_WEBHOOK_SECRET", "")
+    const gateway = getGateway("razorpay", null)
+    expect(gateway.verifyWebhook({ rawBody: body, signature: sign(body, "") })).toBe(false)
+  })
+})
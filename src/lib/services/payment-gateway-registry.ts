@@ -0,0 +1,108 @@
+// Which PaymentGatewayService handles an event's online payments.
+//
+// events.payment_gateway names the gateway (picked on the event's
+// payment-settings page); this module turns that name plus the event's
+// credential columns into a ready-to-use instance. Routes call
+// getGatewayForEvent / loadGatewayForEvent and never import razorpay.ts or
+// icici.ts for gateway operations, so adding a gateway means a new entry in
+// FACTORIES (and PAYMENT_GATEWAY_OPTIONS in src/lib/types/payment-methods.ts)
+// and nothing in the registration flow.
+
+import type { PaymentGatewayService } from "./payment-gateway"
+import { createRazorpayGateway, type RazorpayCredentials } from "./razorpay"
+import { iciciGateway } from "./icici"
+import {
+  DEFAULT_PAYMENT_GATEWAY,
+  PAYMENT_GATEWAY_OPTIONS,
+  type PaymentGatewayName,
+} from "@/lib/types/payment-methods"
+
+// The event columns a gateway may read its configuration from.
+export interface GatewayEventConfig {
+  payment_gateway?: string | null
+  razorpay_key_id?: string | null
+  razorpay_key_secret?: string | null
+  razorpay_webhook_secret?: string | null
+}
+
+export const GATEWAY_EVENT_COLUMNS = "payment_gateway, razorpay_key_id, razorpay_key_secret, razorpay_webhook_secret"
+
+const FACTORIES: Record<PaymentGatewayName, (event: GatewayEventConfig | null) => PaymentGatewayService> = {
+  razorpay: (event) => createRazorpayGateway(razorpayCredentials(event)),
+  icici: () => iciciGateway,
+}
+
+export function isPaymentGatewayName(value: unknown): value is PaymentGatewayName {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PAYMENT_GATEWAY_OPTIONS, value)
+}
+
+/**
+ * The event's Razorpay credentials, or undefined when it uses the platform
+ * default account from the environment. Both key fields must be set; a
+ * webhook secret on its own is ignored, matching the create-order route.
+ */
+export function razorpayCredentials(event: GatewayEventConfig | null): RazorpayCredentials | undefined {
+  if (!event?.razorpay_key_id || !event?.razorpay_key_secret) return undefined
+  return {
+    key_id: event.razorpay_key_id,
+    key_secret: event.razorpay_key_secret,
+    webhook_secret: event.razorpay_webhook_secret || undefined,
+  }
+}
+
+/**
+ * Gateway name for an event. Unset or unknown values fall back to Razorpay,
+ * which is what every event used before the column existed.
+ */
+export function resolveGatewayName(event: GatewayEventConfig | null): PaymentGatewayName {
+  return isPaymentGatewayName(event?.payment_gateway) ? event.payment_gateway : DEFAULT_PAYMENT_GATEWAY
+}
+
+/**
+ * Gateway instance for an event row. `null` (no event, e.g. a platform-level
+ * payment) gets the default gateway on the default account.
+ */
+export function getGatewayForEvent(event: GatewayEventConfig | null): PaymentGatewayService {
+  return FACTORIES[resolveGatewayName(event)](event)
+}
+
+/**
+ * A specific gateway configured with an event's credentials, for callers that
+ * already know which gateway they are talking to -- a gateway's own webhook
+ * endpoint, or a payment taken before the event switched gateways.
+ */
+export function getGateway(name: PaymentGatewayName, event: GatewayEventConfig | null): PaymentGatewayService {
+  return FACTORIES[name](event)
+}
+
+/**
+ * The gateway that took a payment. Refunds and lookups must go back to it
+ * even if the event has since been switched to another gateway; the name is
+ * recorded in payments.metadata.gateway at order creation, and older rows
+ * carry it in payment_method.
+ */
+export function getGatewayForPayment(
+  payment: { payment_method?: string | null; metadata?: { gateway?: string | null } | null },
+  event: GatewayEventConfig | null
+): PaymentGatewayService {
+  const recorded = payment.metadata?.gateway || payment.payment_method
+  return isPaymentGatewayName(recorded) ? getGateway(recorded, event) : getGatewayForEvent(event)
+}
+
+/**
+ * Load the event's gateway columns and return its gateway. An unknown or
+ * missing event resolves to the default gateway rather than failing, so a
+ * webhook or cron never drops a payment because an event row went away.
+ */
+export async function loadGatewayForEvent(
+  db: any,
+  eventId: string | null | undefined
+): Promise<PaymentGatewayService> {
+  if (!eventId) return getGatewayForEvent(null)
+  const { data: event } = await db
+    .from("events")
+    .select(GATEWAY_EVENT_COLUMNS)
+    .eq("id", eventId)
+    .maybeSingle()
+  return getGatewayForEvent(event || null)
+}
@@ -1,20 +1,26 @@
-// Shared contract for a payment gateway integration, formalizing the shape
-// src/lib/services/razorpay.ts already implements informally. razorpay.ts
-// itself is NOT refactored to implement this interface -- it's live,
-// working, production payment code, and conforming it here is a separate,
-// deliberately deferred change. This interface exists so a new gateway
-// (icici.ts, and any future one) has a contract to implement against.
+// Shared contract for a payment gateway integration. Razorpay (razorpay.ts,
+// createRazorpayGateway) and ICICI (icici.ts) both implement it, and routes
+// get an instance from payment-gateway-registry.ts for the event they are
+// handling rather than importing a gateway module directly -- so a third
+// gateway is a new implementation plus a registry entry, not a change to the
+// registration flow.
+//
+// Amounts are always in the smallest currency unit (paise for INR), matching
+// Razorpay's convention. Gateway-specific IDs are passed through as opaque
+// strings.
 
 export interface CreateOrderParams {
   amount: number // smallest currency unit (paise for INR), matching Razorpay's convention
   currency: string
   receipt: string
+  notes?: Record<string, string>
 }
 
 export interface GatewayOrder {
   gatewayOrderId: string
   amount: number
   currency: string
+  raw?: unknown // the gateway's own response, for payments.metadata
 }
 
 export interface VerifySignatureParams {
@@ -23,8 +29,50 @@ export interface VerifySignatureParams {
   signature: string
 }
 
+export interface GatewayPayment {
+  gatewayPaymentId: string
+  gatewayOrderId: string | null
+  amount: number // smallest currency unit
+  currency: string
+  status: string // the gateway's own status string, e.g. "captured"
+  method: string | null
+  email: string | null
+  contact: string | null
+  notes: Record<string, string>
+  createdAt: number // unix seconds
+}
+
+export interface RefundParams {
+  gatewayPaymentId: string
+  amount: number // smallest currency unit
+  notes?: Record<string, string>
+}
+
+export interface GatewayRefund {
+  gatewayRefundId: string
+  amount: number
+  status: string
+}
+
+export interface VerifyWebhookParams {
+  rawBody: string
+  signature: string
+}
+
+export interface ListPaymentsParams {
+  from: number // unix seconds
+  to: number // unix seconds
+}
+
 export interface PaymentGatewayService {
   readonly name: string
+  // Public key the browser checkout needs, or null if the gateway has none.
+  readonly publicKey: string | null
   createOrder(params: CreateOrderParams): Promise<GatewayOrder>
   verifySignature(params: VerifySignatureParams): boolean
+  fetchPayment(gatewayPaymentId: string): Promise<GatewayPayment>
+  refund(params: RefundParams): Promise<GatewayRefund>
+  verifyWebhook(params: VerifyWebhookParams): boolean
+  // Captured payments in a time window, for cron/payment-reconciliation.
+  listCapturedPayments(params: ListPaymentsParams): Promise<GatewayPayment[]>
 }
@@ -0,0 +1,108 @@
+/**
+ * Personal agenda
+ *
+ * Loads a delegate's bookmarked sessions for the delegate portal, the public
+ * programme and the subscribable calendar feed. In the portal and the
+ * programme the delegate is identified by their registration's checkin_token
+ * -- the secret already behind their portal QR. The calendar feed gets its
+ * own agenda_feed_token instead: a feed URL lives on in calendar apps and
+ * their sync servers, so it must not carry a secret that also checks the
+ * delegate in or downloads their badge, and it has to be revocable.
+ */
+
+import crypto from "crypto"
+import type { AgendaSession } from "@/lib/personal-agenda"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+export interface AgendaRegistration {
+  id: string
+  event_id: string
+  status: string
+  agenda_feed_token?: string | null
+}
+
+const REGISTRATION_COLUMNS = "id, event_id, status, agenda_feed_token"
+
+export async function findAgendaRegistration(db: any, token: unknown): Promise<AgendaRegistration | null> {
+  if (typeof token !== "string" || token.length < 16) return null
+  const { data, error } = await db
+    .from("registrations")
+    .select(REGISTRATION_COLUMNS)
+    .eq("checkin_token", token)
+    .maybeSingle()
+  if (error) throw error
+  return data ?? null
+}
+
+// Same length as the tokens waitlist offers and wallet passes hand out.
+export function generateAgendaFeedToken(): string {
+  return crypto.randomBytes(24).toString("hex")
+}
+
+/** The registration a calendar feed URL belongs to, by its agenda_feed_token only. */
+export async function findAgendaFeedRegistration(db: any, feedToken: unknown): Promise<AgendaRegistration | null> {
+  if (typeof feedToken !== "string" || feedToken.length < 32) return null
+  const { data, error } = await db
+    .from("registrations")
+    .select(REGISTRATION_COLUMNS)
+    .eq("agenda_feed_token", feedToken)
+    .maybeSingle()
+  if (error) throw error
+  return data ?? null
+}
+
+/**
+ * The registration's calendar feed token, issuing one on first use. Two
+ * requests issuing at once both end up with whichever token was stored.
+ */
+export async function ensureAgendaFeedToken(db: any, registration: AgendaRegistration): Promise<string> {
+  if (registration.agenda_feed_token) return registration.agenda_feed_token
+
+  const token = generateAgendaFeedToken()
+  const { data, error } = await db
+    .from("registrations")
+    .update({ agenda_feed_token: token })
+    .eq("id", registration.id)
+    .is("agenda_feed_token", null)
+    .select("agenda_feed_token")
+  if (error) throw error
+  if (data?.length) return token
+
+  const { data: current, error: readError } = await db
+    .from("registrations")
+    .select("agenda_feed_token")
+    .eq("id", registration.id)
+    .single()
+  if (readError) throw readError
+  return current.agenda_feed_token
+}
+
+/** Replaces the feed token, so every calendar subscribed with the old URL stops syncing. */
+export async function rotateAgendaFeedToken(db: any, registration: AgendaRegistration): Promise<string> {
+  const token = generateAgendaFeedToken()
+  const { error } = await db.from("registrations").update({ agenda_feed_token: token }).eq("id", registration.id)
+  if (error) throw error
+  return token
+}
+
+/**
+ * The registration's bookmarked sessions that still exist, cancelled ones
+ * included (the caller decides whether to show them). Throws on read failure.
+ */
+export async function loadPersonalAgenda(db: any, registration: AgendaRegistration): Promise<AgendaSession[]> {
+  const bookmarks = await fetchAllPages<{ session_id: string }>(
+    db.from("session_bookmarks").select("session_id").eq("registration_id", registration.id)
+  )
+  if (bookmarks.length === 0) return []
+
+  return fetchAllPages<AgendaSession>(
+    db
+      .from("sessions")
+      .select("id, session_name, session_date, start_time, end_time, hall, status")
+      .eq("event_id", registration.event_id)
+      .in(
+        "id",
+        bookmarks.map((b) => b.session_id)
+      )
+  )
+}
@@ -0,0 +1,179 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { buildSnapshot } from "@/lib/program-diff"
+import { deliverProgramChangeNotices, recordPublication } from "./program-publication"
+
+const dispatchMessage = vi.fn()
+const logDispatch = vi.fn()
+
+vi.mock("@/lib/services/message-dispatch", () => ({
+  dispatchMessage: (...args: unknown[]) => dispatchMessage(...args),
+  logDispatch: (...args: unknown[]) => logDispatch(...args),
+}))
+
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+
+const SESSION = {
+  id: "s1",
+  session_name: "Keynote",
+  session_date: "2026-08-27",
+  start_time: "09:00:00",
+  end_time: "10:00:00",
+  hall: "Hall A",
+  status: null,
+}
+const ASSIGNMENT = {
+  session_id: "s1",
+  faculty_name: "Anitha Rao",
+  faculty_email: "anitha@x.in",
+  faculty_phone: null,
+  role: "speaker",
+  status: "confirmed",
+}
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  dispatchMessage.mockReset()
+  logDispatch.mockReset().mockResolvedValue("log1")
+})
+
+function inserted(table: string) {
+  return mock.calls.filter((c) => c.table === table && c.method === "insert").map((c) => c.args[0] as any)
+}
+
+function queuePublication(previous: unknown, sessions: unknown[]) {
+  mock.queueResponse("events", { data: { name: "ASICON 2026", short_name: "ASICON", timezone: "Asia/Kolkata" }, error: null })
+  mock.queueResponse("agenda_snapshots", { data: previous, error: null })
+  mock.queueResponse("sessions", { data: sessions, error: null })
+  mock.queueResponse("faculty_assignments", { data: [ASSIGNMENT], error: null })
+  mock.queueResponse("agenda_snapshots", { data: { id: "snap-2" }, error: null })
+}
+
+describe("recordPublication", () => {
+  it("records the first publication as a baseline and tells nobody", async () => {
+    queuePublication(null, [SESSION])
+
+    const result = await recordPublication(mock.client, EVENT_ID, "log-1", "Priya")
+
+    expect(result).toEqual({ snapshot_id: "snap-2", sequence: 1, changes: 0, notices: 0 })
+    expect(inserted("agenda_snapshots")[0]).toMatchObject({ sequence: 1, changes: [], approval_log_id: "log-1", published_by: "Priya" })
+    expect(inserted("program_change_notices")).toEqual([])
+  })
+
+  it("queues a notice with an updated calendar for faculty, and one for a bookmarking delegate", async () => {
+    const previous = { sequence: 1, snapshot: buildSnapshot([SESSION], [ASSIGNMENT]) }
+    queuePublication(previous, [{ ...SESSION, start_time: "14:00:00", end_time: "15:00:00" }])
+    mock.queueResponse("session_bookmarks", { data: [{ session_id: "s1", registration_id: "r1" }, { session_id: "s9", registration_id: "r2" }], error: null })
+    mock.queueResponse("registrations", {
+      data: [
+        { id: "r1", attendee_name: "Delegate One", attendee_email: null, attendee_phone: "9000000001" },
+        { id: "r2", attendee_name: "Delegate Two", attendee_email: "two@mail.in", attendee_phone: null },
+      ],
+      error: null,
+    })
+
+    const result = await recordPublication(mock.client, EVENT_ID, "log-2", null)
+
+    expect(result).toEqual({ snapshot_id: "snap-2", sequence: 2, changes: 1, notices: 2 })
+    expect(inserted("agenda_snapshots")[0].changes[0]).toMatchObject({ session_id: "s1", kinds: ["moved"] })
+
+    const [faculty, delegate] = inserted("program_change_notices")[0]
+    expect(faculty).toMatchObject({ recipient_kind: "faculty", recipient_email: "anitha@x.in", session_ids: ["s1"], snapshot_id: "snap-2" })
+    expect(faculty.ics).toContain("SEQUENCE:2")
+    expect(faculty.ics).toMatch(/UID:session-s1@/)
+    // 14:00 in Asia/Kolkata.
+    expect(faculty.ics).toContain("DTSTART:20260827T083000Z")
+    expect(delegate).toMatchObject({ recipient_kind: "delegate", registration_id: "r1", ics: null })
+  })
+
+  it("fails loudly when the snapshot cannot be saved", async () => {
+    mock.queueResponse("events", { data: { name: "ASICON 2026", short_name: null, timezone: null }, error: null })
+    mock.queueResponse("agenda_snapshots", { data: null, error: null })
+    mock.queueResponse("sessions", { data: [SESSION], error: null })
+    mock.queueResponse("faculty_assignments", { data: [], error: null })
+    mock.queueResponse("agenda_snapshots", { data: null, error: { message: "duplicate key" } })
+
+    await expect(recordPublication(mock.client, EVENT_ID, null, null)).rejects.toThrow("Failed to save the published programme")
+  })
+})
+
+describe("deliverProgramChangeNotices", () => {
+  const notice = (id: string, over: Record<string, unknown> = {}) => ({
+    id,
+    event_id: EVENT_ID,
+    recipient_name: `Person ${id}`,
+    recipient_email: null,
+    recipient_phone: null,
+    registration_id: null,
+    subject: "ASICON: programme update",
+    message: "Dear {{name}}",
+    ics: null,
+    ...over,
+  })
+
+  function updates() {
+    return mock.calls.filter((c) => c.table === "program_change_notices" && c.method === "update").map((c) => c.args[0] as any)
+  }
+
+  it("emails the calendar, falls back to WhatsApp, and skips people it cannot reach", async () => {
+    mock.queueResponse("program_change_notices", {
+      data: [
+        notice("n1", { recipient_email: "anitha@x.in", ics: "BEGIN:VCALENDAR" }),
+        notice("n2", { recipient_phone: "9000000001", registration_id: "r1" }),
+        notice("n3"),
+      ],
+      error: null,
+    })
+    mock.queueResponse("program_change_notices", { data: [{ id: "n1" }, { id: "n2" }, { id: "n3" }], error: null })
+    mock.queueResponse("events", { data: { id: EVENT_ID, name: "ASICON 2026", short_name: "ASICON" }, error: null })
+    dispatchMessage.mockResolvedValue({ success: true, recipient: "x", provider: "resend", message: "" })
+
+    const result = await deliverProgramChangeNotices(mock.client)
+
+    expect(result).toEqual({ sent: 2, failed: 0, skipped: 1 })
+    const [emailCall, whatsappCall] = dispatchMessage.mock.calls
+    expect(emailCall[2]).toBe("email")
+    expect(emailCall[4].attachments[0]).toMatchObject({ filename: "programme-update.ics" })
+    expect(emailCall[4].message).toContain("The attached calendar file")
+    expect(whatsappCall[2]).toBe("whatsapp")
+    expect(whatsappCall[4].attachments).toBeUndefined()
+    // Only the delegate's send belongs in message_logs.
+    expect(logDispatch).toHaveBeenCalledTimes(1)
+    expect(logDispatch.mock.calls[0][1]).toMatchObject({ reg: { id: "r1" }, channel: "whatsapp" })
+    expect(updates().map((u) => u.status)).toEqual(["sending", "sent", "sent", "skipped"])
+  })
+
+  it("sends only the notices its claim matched, so an overlapping run can't send them again", async () => {
+    mock.queueResponse("program_change_notices", {
+      data: [notice("n1", { recipient_email: "anitha@x.in" }), notice("n2", { recipient_email: "ravi@x.in" })],
+      error: null,
+    })
+    mock.queueResponse("program_change_notices", { data: [{ id: "n2" }], error: null })
+    dispatchMessage.mockResolvedValue({ success: true, recipient: "x", provider: "resend", message: "" })
+
+    const result = await deliverProgramChangeNotices(mock.client)
+
+    expect(result).toEqual({ sent: 1, failed: 0, skipped: 0 })
+    expect(dispatchMessage).toHaveBeenCalledTimes(1)
+    expect(dispatchMessage.mock.calls[0][3]).toMatchObject({ attendee_email: "ravi@x.in" })
+    const [claim] = updates()
+    expect(claim).toMatchObject({ status: "sending" })
+    expect(claim.lease_expires_at).toEqual(expect.any(String))
+    const claimFilters = mock.calls.filter((c) => c.table === "program_change_notices" && c.method === "or")
+    expect(claimFilters).toHaveLength(2)
+    expect(claimFilters[1].args[0]).toMatch(/^status\.eq\.pending,and\(status\.eq\.sending,lease_expires_at\.lt\./)
+  })
+
+  it("records a provider failure on the notice", async () => {
+    mock.queueResponse("program_change_notices", { data: [notice("n1", { recipient_email: "anitha@x.in" })], error: null })
+    mock.queueResponse("program_change_notices", { data: [{ id: "n1" }], error: null })
+    dispatchMessage.mockResolvedValue({ success: false, error: "Mailbox unavailable", recipient: "anitha@x.in", provider: "resend", message: "" })
+
+    const result = await deliverProgramChangeNotices(mock.client)
+
+    expect(result).toEqual({ sent: 0, failed: 1, skipped: 0 })
+    expect(updates()[1]).toMatchObject({ status: "failed", channel: "email", error_message: "Mailbox unavailable", sent_at: null })
+  })
+})
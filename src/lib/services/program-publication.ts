@@ -0,0 +1,302 @@
+/**
+ * Program publications
+ *
+ * What happens when an agenda is (re-)published: the programme is frozen into
+ * an agenda_snapshots row, diffed against the previous publication (see
+ * src/lib/program-diff.ts), and one program_change_notices row is queued per
+ * person the diff affects -- faculty on a changed session and delegates who
+ * bookmarked one. The first publication has nothing to compare against, so it
+ * only records the baseline.
+ *
+ * Notices are composed at publish time, so the text a person receives is the
+ * text the coordinator's publish produced, and sent by the
+ * program-change-notices cron. Faculty who get theirs by email also get an
+ * .ics whose entries carry each session's stable UID and the publication
+ * number as SEQUENCE, so calendar apps move the entry they already have.
+ */
+
+import { computeSessionCheckinWindow } from "@/lib/agenda-session-checkin-window"
+import { generateSessionsICS, type SessionCalendarEntry } from "@/lib/ics-generator"
+import {
+  buildSnapshot,
+  composeNotice,
+  diffSnapshots,
+  planNotices,
+  roleLabel,
+  type PlannedNotice,
+  type ProgramSnapshot,
+  type SessionBookmark,
+  type SessionChange,
+  type SnapshotSession,
+  type SnapshotSourceAssignment,
+  type SnapshotSourceSession,
+} from "@/lib/program-diff"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+import { dispatchMessage, logDispatch, type MessageChannel } from "@/lib/services/message-dispatch"
+
+export interface PublicationResult {
+  snapshot_id: string
+  sequence: number
+  changes: number
+  notices: number
+}
+
+interface PublicationEvent {
+  name: string
+  short_name: string | null
+  timezone: string | null
+}
+
+function calendarEntry(
+  session: SnapshotSession,
+  sequence: number,
+  timezone: string,
+  eventName: string,
+  cancelled: boolean
+): SessionCalendarEntry | null {
+  if (!session.date || !session.start || !session.end) return null
+  const { opensAt, closesAt } = computeSessionCheckinWindow(
+    { session_date: session.date, start_time: session.start, end_time: session.end },
+    timezone,
+    0
+  )
+  return {
+    uid: `session-${session.id}`,
+    sequence,
+    title: session.name,
+    description: [
+      session.faculty.map((p) => `${roleLabel(p.role)}: ${p.name}`).join("\n"),
+      eventName,
+    ]
+      .filter(Boolean)
+      .join("\n\n"),
+    location: session.hall ?? undefined,
+    startDate: new Date(opensAt),
+    endDate: new Date(closesAt),
+    cancelled,
+  }
+}
+
+/** The faculty member's sessions as now published, and the ones they've lost, as one calendar. */
+function noticeCalendar(notice: PlannedNotice, sequence: number, event: PublicationEvent): string | null {
+  const timezone = event.timezone ?? "Asia/Kolkata"
+  const entries = [
+    ...notice.on.map((c) => calendarEntry(c.after!, sequence, timezone, event.name, false)),
+    ...notice.off.map((c) => calendarEntry(c.before!, sequence, timezone, event.name, true)),
+  ].filter((e): e is SessionCalendarEntry => e !== null)
+  return entries.length > 0 ? generateSessionsICS(event.short_name || event.name, entries) : null
+}
+
+/**
+ * Snapshot the programme for a publish that has just been logged, and queue
+ * notices for whatever changed since the last one. Throws on any read or
+ * write failure; the publish itself is already recorded by then.
+ */
+export async function recordPublication(
+  db: any,
+  eventId: string,
+  approvalLogId: string | null,
+  publishedBy: string | null
+): Promise<PublicationResult> {
+  const [eventResult, previousResult, sessions, assignments] = await Promise.all([
+    db.from("events").select("name, short_name, timezone").eq("id", eventId).single(),
+    db
+      .from("agenda_snapshots")
+      .select("sequence, snapshot")
+      .eq("event_id", eventId)
+      .order("sequence", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    fetchAllPages<SnapshotSourceSession>(
+      db.from("sessions").select("id, session_name, session_date, start_time, end_time, hall, status").eq("event_id", eventId)
+    ),
+    fetchAllPages<SnapshotSourceAssignment>(
+      db
+        .from("faculty_assignments")
+        .select("session_id, faculty_name, faculty_email, faculty_phone, role, status")
+        .eq("event_id", eventId)
+    ),
+  ])
+  if (eventResult.error || !eventResult.data) throw new Error("Event not found")
+  if (previousResult.error) throw new Error("Failed to load the previous publication")
+
+  const event = eventResult.data as PublicationEvent
+  const previous = previousResult.data as { sequence: number; snapshot: ProgramSnapshot } | null
+  const snapshot = buildSnapshot(sessions, assignments)
+  const changes: SessionChange[] = previous ? diffSnapshots(previous.snapshot, snapshot) : []
+  const sequence = (previous?.sequence ?? 0) + 1
+
+  const { data: saved, error: saveError } = await db
+    .from("agenda_snapshots")
+    .insert({
+      event_id: eventId,
+      approval_log_id: approvalLogId,
+      sequence,
+      snapshot,
+      changes,
+      published_by: publishedBy,
+    })
+    .select("id")
+    .single()
+  if (saveError || !saved) throw new Error("Failed to save the published programme")
+
+  if (changes.length === 0) return { snapshot_id: saved.id, sequence, changes: 0, notices: 0 }
+
+  const changedIds = new Set(changes.map((c) => c.session_id))
+  const [bookmarkRows, registrations] = await Promise.all([
+    fetchAllPages<{ session_id: string; registration_id: string }>(
+      db.from("session_bookmarks").select("session_id, registration_id").eq("event_id", eventId)
+    ),
+    fetchAllPages<{ id: string; attendee_name: string; attendee_email: string | null; attendee_phone: string | null }>(
+      db
+        .from("registrations")
+        .select("id, attendee_name, attendee_email, attendee_phone")
+        .eq("event_id", eventId)
+        .neq("status", "cancelled")
+    ),
+  ])
+  const registrationsById = new Map(registrations.map((r) => [r.id, r]))
+  const bookmarks: SessionBookmark[] = bookmarkRows.flatMap((b) => {
+    const reg = registrationsById.get(b.registration_id)
+    if (!reg || !changedIds.has(b.session_id)) return []
+    return [{ session_id: b.session_id, registration_id: reg.id, attendee_name: reg.attendee_name, attendee_email: reg.attendee_email, attendee_phone: reg.attendee_phone }]
+  })
+
+  const eventName = event.short_name || event.name
+  const rows = planNotices(changes, bookmarks).map((notice) => {
+    const { subject, message } = composeNotice(notice, eventName)
+    return {
+      event_id: eventId,
+      snapshot_id: saved.id,
+      recipient_kind: notice.recipient.kind,
+      recipient_name: notice.recipient.name,
+      recipient_email: notice.recipient.email,
+      recipient_phone: notice.recipient.phone,
+      registration_id: notice.recipient.registration_id,
+      session_ids: [...notice.on, ...notice.off].map((c) => c.session_id),
+      subject,
+      message,
+      ics: notice.recipient.kind === "faculty" ? noticeCalendar(notice, sequence, event) : null,
+    }
+  })
+
+  if (rows.length > 0) {
+    const { error: queueError } = await db.from("program_change_notices").insert(rows)
+    if (queueError) throw new Error("Programme saved, but failed to queue change notices")
+  }
+
+  return { snapshot_id: saved.id, sequence, changes: changes.length, notices: rows.length }
+}
+
+interface NoticeRow {
+  id: string
+  event_id: string
+  recipient_name: string
+  recipient_email: string | null
+  recipient_phone: string | null
+  registration_id: string | null
+  subject: string
+  message: string
+  ics: string | null
+}
+
+export interface NoticeDeliveryResult {
+  sent: number
+  failed: number
+  skipped: number
+}
+
+// How long a claimed notice is left alone by other runs while it's being sent
+const NOTICE_LEASE_MS = 10 * 60 * 1000
+
+/**
+ * Send queued notices, oldest first: by email where we have an address (with
+ * the .ics attached), otherwise by WhatsApp. Sends to registrations are also
+ * recorded in message_logs like any other message to a delegate.
+ *
+ * Notices are claimed first ('sending' with a lease), and only the ones this
+ * run's claim matched are sent, so overlapping cron runs never send the same
+ * notice twice. A claim whose lease ran out is due again.
+ */
+export async function deliverProgramChangeNotices(db: any, limit = 100): Promise<NoticeDeliveryResult> {
+  const result: NoticeDeliveryResult = { sent: 0, failed: 0, skipped: 0 }
+  const now = new Date()
+  const due = `status.eq.pending,and(status.eq.sending,lease_expires_at.lt.${now.toISOString()})`
+
+  const { data: candidates, error } = await db
+    .from("program_change_notices")
+    .select("id, event_id, recipient_name, recipient_email, recipient_phone, registration_id, subject, message, ics")
+    .or(due)
+    .order("created_at", { ascending: true })
+    .limit(limit)
+  if (error) throw new Error("Failed to load pending change notices")
+  if (!candidates || candidates.length === 0) return result
+
+  const { data: claimed, error: claimError } = await db
+    .from("program_change_notices")
+    .update({ status: "sending", lease_expires_at: new Date(now.getTime() + NOTICE_LEASE_MS).toISOString() })
+    .in("id", (candidates as NoticeRow[]).map((n) => n.id))
+    .or(due)
+    .select("id")
+  if (claimError) throw new Error("Failed to claim pending change notices")
+  const claimedIds = new Set(((claimed || []) as { id: string }[]).map((n) => n.id))
+  const notices = (candidates as NoticeRow[]).filter((n) => claimedIds.has(n.id))
+
+  const contextByEvent = new Map<string, { settings: any; event: { id: string; name: string; short_name: string | null } }>()
+
+  for (const notice of notices) {
+    let context = contextByEvent.get(notice.event_id)
+    if (!context) {
+      const [{ data: settings }, { data: event }] = await Promise.all([
+        db.from("communication_settings").select("*").eq("event_id", notice.event_id).maybeSingle(),
+        db.from("events").select("id, name, short_name").eq("id", notice.event_id).single(),
+      ])
+      context = { settings: settings || null, event: event || { id: notice.event_id, name: "Event", short_name: null } }
+      contextByEvent.set(notice.event_id, context)
+    }
+
+    const channel: MessageChannel | null = notice.recipient_email ? "email" : notice.recipient_phone ? "whatsapp" : null
+    if (!channel) {
+      await db
+        .from("program_change_notices")
+        .update({ status: "skipped", lease_expires_at: null, error_message: "No email address or phone number" })
+        .eq("id", notice.id)
+      result.skipped++
+      continue
+    }
+
+    const withCalendar = channel === "email" && !!notice.ics
+    const recipient = {
+      id: notice.registration_id ?? notice.id,
+      attendee_name: notice.recipient_name,
+      attendee_email: notice.recipient_email,
+      attendee_phone: notice.recipient_phone,
+    }
+    const sendResult = await dispatchMessage(context.settings, context.event, channel, recipient, {
+      subject: notice.subject,
+      message: withCalendar
+        ? `${notice.message}\n\nThe attached calendar file updates these sessions in your calendar.`
+        : notice.message,
+      attachments: withCalendar ? [{ filename: "programme-update.ics", content: Buffer.from(notice.ics!, "utf-8") }] : undefined,
+    })
+
+    if (notice.registration_id) {
+      await logDispatch(db, { eventId: notice.event_id, channel, reg: recipient, result: sendResult })
+    }
+
+    const status = sendResult.success ? "sent" : sendResult.notSent === "no_address" ? "skipped" : "failed"
+    await db
+      .from("program_change_notices")
+      .update({
+        status,
+        channel,
+        lease_expires_at: null,
+        error_message: sendResult.success ? null : sendResult.error || null,
+        sent_at: sendResult.success ? new Date().toISOString() : null,
+      })
+      .eq("id", notice.id)
+    result[status]++
+  }
+
+  return result
+}
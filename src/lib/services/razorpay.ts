@@ -1,5 +1,6 @@
 import Razorpay from "razorpay"
 import crypto from "crypto"
+import type { GatewayPayment, PaymentGatewayService } from "./payment-gateway"
 
 // Cache for event-specific Razorpay instances
 const razorpayInstances: Map<string, Razorpay> = new Map()
@@ -185,6 +186,108 @@ export async function createRefund(
   })
 }
 
+// Razorpay REST API base, for the list endpoint the SDK doesn't page for us
+const RAZORPAY_API = "https://api.razorpay.com/v1"
+
+function toGatewayPayment(p: any): GatewayPayment {
+  return {
+    gatewayPaymentId: p.id,
+    gatewayOrderId: p.order_id || null,
+    amount: Number(p.amount),
+    currency: p.currency,
+    status: p.status,
+    method: p.method || null,
+    email: p.email || null,
+    contact: p.contact || null,
+    notes: p.notes && !Array.isArray(p.notes) ? p.notes : {},
+    createdAt: p.created_at,
+  }
+}
+
+/**
+ * Razorpay behind the shared PaymentGatewayService contract. Wraps the
+ * functions above with one event's credentials (or the env default when none
+ * are given), so callers never thread credentials themselves.
+ *
+ * Contract amounts are in paise; createOrder/createRefund above take rupees,
+ * so this adapter talks to the SDK directly rather than converting twice.
+ */
+export function createRazorpayGateway(credentials?: RazorpayCredentials): PaymentGatewayService {
+  const client = () => (credentials ? getRazorpayForEvent(credentials) : getRazorpay())
+
+  return {
+    name: "razorpay",
+    publicKey: credentials?.key_id || process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID || null,
+
+    async createOrder({ amount, currency, receipt, notes = {} }) {
+      const order = (await client().orders.create({
+        amount: Math.round(amount),
+        currency,
+        receipt,
+        notes,
+      })) as RazorpayOrderResponse
+      return { gatewayOrderId: order.id, amount: Number(order.amount), currency: order.currency, raw: order }
+    },
+
+    verifySignature({ gatewayOrderId, gatewayPaymentId, signature }) {
+      return verifyPaymentSignature(gatewayOrderId, gatewayPaymentId, signature, credentials?.key_secret)
+    },
+
+    async fetchPayment(gatewayPaymentId) {
+      return toGatewayPayment(await client().payments.fetch(gatewayPaymentId))
+    },
+
+    async refund({ gatewayPaymentId, amount, notes }) {
+      const refund: any = await client().payments.refund(gatewayPaymentId, {
+        amount: Math.round(amount),
+        notes,
+      })
+      return { gatewayRefundId: refund.id, amount: Number(refund.amount), status: refund.status }
+    },
+
+    verifyWebhook({ rawBody, signature }) {
+      // An empty secret would make any signature computed with "" pass
+      const secret = credentials?.webhook_secret || process.env.RAZORPAY_WEBHOOK_SECRET?.trim()
+      if (!secret) return false
+      return verifyWebhookSignature(rawBody, signature, secret)
+    },
+
+    async listCapturedPayments({ from, to }) {
+      const keyId = credentials?.key_id || process.env.RAZORPAY_KEY_ID?.trim()
+      const keySecret = credentials?.key_secret || process.env.RAZORPAY_KEY_SECRET?.trim()
+      if (!keyId || !keySecret) {
+        throw new Error("Razorpay credentials not configured")
+      }
+
+      const auth = Buffer.from(`${keyId}:${keySecret}`).toString("base64")
+      const captured: GatewayPayment[] = []
+      const count = 100
+      let skip = 0
+
+      while (true) {
+        const res = await fetch(`${RAZORPAY_API}/payments?from=${from}&to=${to}&count=${count}&skip=${skip}`, {
+          headers: { Authorization: `Basic ${auth}` },
+        })
+        if (!res.ok) {
+          const errText = await res.text()
+          throw new Error(`Razorpay API error ${res.status}: ${errText}`)
+        }
+
+        const data = await res.json()
+        const items: any[] = data.items || []
+        captured.push(...items.filter((p) => p.status === "captured").map(toGatewayPayment))
+
+        if (items.length < count) break
+        skip += count
+        // Safety: don't fetch more than 1000 payments in one run
+        if (skip >= 1000) break
+      }
+
+      return captured
+    },
+  }
+}
+
 /**
  * Generate payment number in format PAY-YYYY-XXXXX
  */
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { processRefundRequest } from "./refunds"
+
+const refund = vi.fn(async () => ({ gatewayRefundId: "rfnd_1" }))
+
+vi.mock("@/lib/services/payment-gateway-registry", () => ({
+  GATEWAY_EVENT_COLUMNS: "payment_gateway",
+  getGatewayForPayment: () => ({ refund }),
+}))
+
+vi.mock("@/lib/services/waitlist-notify", () => ({
+  notifyWaitlist: vi.fn(async () => undefined),
+}))
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  refund.mockClear()
+})
+
+const request = {
+  id: "refund-2",
+  amount: 400,
+  reason_code: "goodwill",
+  refund_request_items: [{ id: "item-1", item_type: "ticket", registration_id: "reg-1", amount: 400, releases_seat: false }],
+}
+
+// One earlier refund of ₹600 already processed and numbered.
+function context() {
+  return {
+    payment: { id: "pay-1", event_id: "event-1", payment_number: "PAY-1", net_amount: 2000, razorpay_payment_id: "pay_rzp" },
+    event: { name: "Congress" },
+    registrations: [],
+    requests: [{ id: "refund-1", status: "processed", credit_note_number: "CN-PAY-1-1" }, { id: "refund-2", status: "approved" }],
+    lines: [],
+    refundedTotal: 600,
+    balance: 1400,
+  } as any
+}
+
+const updatesTo = (table: string) =>
+  mock.calls.filter((c) => c.table === table && c.method === "update").map((c) => c.args[0] as Record<string, unknown>)
+
+describe("processRefundRequest", () => {
+  it("numbers the credit note after the requests already numbered and totals every paid-out refund", async () => {
+    mock.queueResponse("refund_requests", { data: [{ id: "refund-2" }], error: null })
+
+    const result = await processRefundRequest(mock.client, request, context())
+
+    expect(result).toEqual({ ok: true, status: "processed", credit_note_number: "CN-PAY-1-2" })
+    expect(mock.calls.filter((c) => c.table === "refund_requests" && c.method === "eq").map((c) => c.args)).toEqual([
+      ["id", "refund-2"],
+      ["status", "approved"],
+    ])
+    expect(updatesTo("payments")[0]).toMatchObject({ status: "partially_refunded", refund_amount: 1000 })
+  })
+
+  it("flags the request instead of reporting success when recording it fails after the gateway paid out", async () => {
+    mock.queueResponse("refund_requests", { data: null, error: { message: "connection reset" } })
+
+    const result = await processRefundRequest(mock.client, request, context())
+
+    expect(refund).toHaveBeenCalledTimes(1)
+    expect(result.ok).toBe(false)
+    expect(result.status).toBe("needs_attention")
+    expect(updatesTo("refund_requests")[1]).toMatchObject({ status: "needs_attention", gateway_refund_id: "rfnd_1" })
+    expect(updatesTo("payments")).toEqual([])
+  })
+
+  it("flags the request when the payment row can't be updated", async () => {
+    mock.queueResponse("refund_requests", { data: [{ id: "refund-2" }], error: null })
+    mock.queueResponse("payments", { data: null, error: { message: "statement timeout" } })
+
+    const result = await processRefundRequest(mock.client, request, context())
+
+    expect(result.status).toBe("needs_attention")
+    expect(result.error).toContain("rfnd_1")
+    expect(updatesTo("refund_requests")[1]).toMatchObject({ status: "needs_attention", gateway_refund_id: "rfnd_1" })
+  })
+})
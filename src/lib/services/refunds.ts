@@ -0,0 +1,277 @@
+/**
+ * Refund Processing Service
+ *
+ * Loads everything a refund decision needs for one payment, and carries out an
+ * approved refund_requests row: gateway refund, payment/registration status,
+ * add-on rows, seat release and waitlist notification.
+ *
+ * The rules themselves (balances, two-person approval, GST split, credit note
+ * numbering) are in src/lib/refunds.ts. This file is only the I/O around them.
+ */
+
+import { GATEWAY_EVENT_COLUMNS, getGatewayForPayment } from "@/lib/services/payment-gateway-registry"
+import { notifyWaitlist } from "@/lib/services/waitlist-notify"
+import {
+  buildRefundableLines,
+  creditNoteNumber,
+  paymentStatusAfterRefund,
+  REFUND_PAID_OUT_STATUSES,
+  roundMoney,
+  RefundableLine,
+} from "@/lib/refunds"
+
+export interface RefundContext {
+  payment: any
+  event: any
+  registrations: any[]
+  requests: any[]
+  lines: RefundableLine[]
+  refundedTotal: number
+  balance: number
+}
+
+/**
+ * Load a payment with its registrations, add-ons and refund history.
+ * Returns null when the payment doesn't exist.
+ */
+export async function loadRefundContext(db: any, paymentId: string): Promise<RefundContext | null> {
+  const { data: payment } = await db
+    .from("payments")
+    .select("id, payment_number, event_id, payer_name, payer_email, payer_phone, amount, tax_amount, discount_amount, net_amount, status, payment_method, payment_type, razorpay_payment_id, metadata, completed_at")
+    .eq("id", paymentId)
+    .maybeSingle()
+
+  if (!payment) return null
+
+  const { data: event } = await db
+    .from("events")
+    .select(`id, name, short_name, ${GATEWAY_EVENT_COLUMNS}`)
+    .eq("id", payment.event_id)
+    .maybeSingle()
+
+  // Registrations are linked by payment_id, or -- for add-on purchases and a
+  // few legacy rows -- only through payments.metadata.registration_id.
+  const { data: linkedRegs } = await db
+    .from("registrations")
+    .select("id, registration_number, attendee_name, attendee_email, status, payment_status, total_amount, ticket_type_id, ticket_types (name, gst_inclusive_rate)")
+    .eq("payment_id", paymentId)
+
+  let registrations: any[] = linkedRegs || []
+  const metaRegId = payment.metadata?.registration_id
+  if (metaRegId && !registrations.some((r) => r.id === metaRegId)) {
+    const { data: metaReg } = await db
+      .from("registrations")
+      .select("id, registration_number, attendee_name, attendee_email, status, payment_status, total_amount, ticket_type_id, ticket_types (name, gst_inclusive_rate)")
+      .eq("id", metaRegId)
+      .maybeSingle()
+    if (metaReg) registrations = [...registrations, metaReg]
+  }
+
+  const isAddonPurchase = payment.payment_type === "addon_purchase"
+  const registrationIds = registrations.map((r) => r.id)
+
+  const { data: addonRows } = registrationIds.length > 0
+    ? await db
+        .from("registration_addons")
+        .select("id, registration_id, addon_id, quantity, total_price, addon:addons(name, price)")
+        .in("registration_id", registrationIds)
+    : { data: [] }
+
+  // An add-on purchase only paid for the add-ons named in its metadata; the
+  // ticket was paid for by a different payment and is not refundable here.
+  const purchasedAddonIds: string[] = (payment.metadata?.addons_selection || []).map((a: any) => a.addonId || a.addon_id)
+  const addons = (addonRows || [])
+    .filter((a: any) => !isAddonPurchase || purchasedAddonIds.length === 0 || purchasedAddonIds.includes(a.addon_id))
+    .map((a: any) => ({
+      id: a.id,
+      registration_id: a.registration_id,
+      name: a.addon?.name,
+      total_price: a.total_price || (a.addon?.price || 0) * (a.quantity || 1),
+    }))
+
+  const { data: requests } = await db
+    .from("refund_requests")
+    .select("*, refund_request_items (*)")
+    .eq("payment_id", paymentId)
+    .order("created_at", { ascending: false })
+
+  const paidOut = (requests || []).filter((r: any) => REFUND_PAID_OUT_STATUSES.includes(r.status))
+  const previousItems = paidOut.flatMap((r: any) => r.refund_request_items || [])
+  const refundedTotal = roundMoney(paidOut.reduce((sum: number, r: any) => sum + Number(r.amount || 0), 0))
+
+  const lines = buildRefundableLines(
+    isAddonPurchase
+      ? []
+      : registrations.map((r) => ({
+          id: r.id,
+          registration_number: r.registration_number,
+          attendee_name: r.attendee_name,
+          ticket_name: r.ticket_types?.name,
+          total_amount: r.total_amount,
+        })),
+    addons,
+    previousItems
+  )
+
+  const netAmount = Number(payment.net_amount || payment.amount || 0)
+
+  return {
+    payment,
+    event,
+    registrations,
+    requests: requests || [],
+    lines,
+    refundedTotal,
+    balance: roundMoney(Math.max(0, netAmount - refundedTotal)),
+  }
+}
+
+type RefundOutcome = {
+  ok: boolean
+  status: "processed" | "failed" | "needs_attention"
+  error?: string
+  credit_note_number?: string
+}
+
+/**
+ * Carry out an approved refund request. Never throws for a gateway failure --
+ * the request is marked 'failed' with the gateway's message so a second
+ * approver can retry it; the return value says which way it went.
+ *
+ * `context` must be loaded after the request was claimed as 'approved', so
+ * its refunded total and credit note count include every earlier refund.
+ */
+export async function processRefundRequest(
+  db: any,
+  request: any,
+  context: RefundContext
+): Promise<RefundOutcome> {
+  const { payment, event } = context
+  const items: any[] = request.refund_request_items || []
+  const now = new Date().toISOString()
+
+  // 1. Money. Online payments go back through the gateway; offline ones
+  //    (bank transfer, cash, complimentary-then-charged) are recorded as
+  //    manual and paid back by the office.
+  let gatewayRefundId: string | null = null
+  const refundMode: "gateway" | "manual" = payment.razorpay_payment_id ? "gateway" : "manual"
+
+  if (refundMode === "gateway") {
+    // Back through the gateway that took the payment, not the event's current choice.
+    const gateway = getGatewayForPayment(payment, event)
+    try {
+      const refund = await gateway.refund({
+        gatewayPaymentId: payment.razorpay_payment_id,
+        amount: Math.round(Number(request.amount) * 100),
+        notes: {
+          refund_request_id: request.id,
+          reason: request.reason_code,
+          payment_number: payment.payment_number,
+        },
+      })
+      gatewayRefundId = refund.gatewayRefundId
+    } catch (err: any) {
+      const message = err?.error?.description || err?.message || "Gateway refund failed"
+      console.error("[Refunds] Gateway refund failed:", message)
+      await db
+        .from("refund_requests")
+        .update({ status: "failed", error_message: message, refund_mode: refundMode })
+        .eq("id", request.id)
+      return { ok: false, status: "failed", error: message }
+    }
+  }
+
+  // From here on the money has gone. A write that fails must not leave the
+  // request looking undecided, or it could be approved and paid out again.
+  const needsAttention = async (message: string): Promise<RefundOutcome> => {
+    console.error(`[Refunds] Refund ${request.id} paid out but not recorded:`, message)
+    const error = `Refund paid out${gatewayRefundId ? ` (gateway refund ${gatewayRefundId})` : ""} but not recorded: ${message}`
+    const { error: flagError } = await db
+      .from("refund_requests")
+      .update({ status: "needs_attention", refund_mode: refundMode, gateway_refund_id: gatewayRefundId, error_message: error })
+      .eq("id", request.id)
+    if (flagError) console.error(`[Refunds] Could not flag refund ${request.id}:`, flagError.message)
+    return { ok: false, status: "needs_attention", error }
+  }
+
+  // 2. The request itself, with its credit note number.
+  const numbered = context.requests.filter((r) => r.credit_note_number).length
+  const cnNumber = creditNoteNumber(payment.payment_number, numbered + 1)
+
+  const { data: recorded, error: recordError } = await db
+    .from("refund_requests")
+    .update({
+      status: "processed",
+      refund_mode: refundMode,
+      gateway_refund_id: gatewayRefundId,
+      error_message: null,
+      processed_at: now,
+      credit_note_number: cnNumber,
+    })
+    .eq("id", request.id)
+    .eq("status", "approved")
+    .select("id")
+  if (recordError || !recorded?.length) {
+    return needsAttention(recordError?.message || "the request was no longer approved")
+  }
+
+  // 3. The payment row.
+  const totalRefunded = roundMoney(context.refundedTotal + Number(request.amount))
+  const netAmount = Number(payment.net_amount || payment.amount || 0)
+  const { error: paymentError } = await db
+    .from("payments")
+    .update({
+      status: paymentStatusAfterRefund(netAmount, totalRefunded),
+      refund_amount: totalRefunded,
+      refund_reason: request.reason_code,
+      refunded_at: now,
+      updated_at: now,
+      ...(gatewayRefundId ? { razorpay_refund_id: gatewayRefundId } : {}),
+    })
+    .eq("id", payment.id)
+  if (paymentError) return needsAttention(`payment not updated: ${paymentError.message}`)
+
+  // 4. Lines. A fully refunded ticket cancels its registration and gives the
+  //    seat back; a fully refunded add-on row is removed so add-on capacity
+  //    counts (which count rows) free up. Partial refunds leave both alone.
+  const releasedTicketTypes = new Set<string>()
+  for (const item of items) {
+    if (item.item_type === "ticket" && item.releases_seat) {
+      const reg = context.registrations.find((r) => r.id === item.registration_id)
+      await db
+        .from("registrations")
+        .update({ status: "cancelled", payment_status: "refunded", updated_at: now })
+        .eq("id", item.registration_id)
+
+      if (reg?.ticket_type_id && reg.status === "confirmed") {
+        // Negative quantity through the same atomic RPC that sold the seat.
+        // Keyed on the item id: the RPC's processed_payments list makes a
+        // retried request a no-op instead of a second release.
+        const { data, error } = await db.rpc("increment_ticket_sold_atomic", {
+          p_ticket_type_id: reg.ticket_type_id,
+          p_payment_id: item.id,
+          p_quantity: -1,
+        })
+        if (error || (data && !data.success && data.reason !== "already_processed")) {
+          console.error("[Refunds] Seat release failed:", error?.message || data?.reason)
+        } else {
+          releasedTicketTypes.add(reg.ticket_type_id)
+        }
+      }
+    } else if (item.item_type === "addon" && item.registration_addon_id) {
+      const line = context.lines.find((l) => l.registration_addon_id === item.registration_addon_id)
+      if (line && roundMoney(line.refunded + Number(item.amount)) >= line.paid) {
+        await db.from("registration_addons").delete().eq("id", item.registration_addon_id)
+      }
+    }
+  }
+
+  // 5. Freed seats go to the waitlist -- fire and forget, as the cancel route does.
+  for (const ticketTypeId of releasedTicketTypes) {
+    notifyWaitlist(payment.event_id, ticketTypeId).catch((err) => {
+      console.error("[Refunds] Waitlist notification failed:", err)
+    })
+  }
+
+  return { ok: true, status: "processed", credit_note_number: cnNumber }
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { processImportWelcomes } from "./registration-import"
+
+const sendWelcome = vi.fn()
+
+vi.mock("@/lib/services/welcome-messages", () => ({
+  canSendWelcome: () => true,
+  welcomeAlreadySent: () => false,
+  sendWelcome: (...args: unknown[]) => sendWelcome(...args),
+}))
+
+const EVENT_ID = "11111111-1111-4111-8111-111111111111"
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  sendWelcome.mockReset()
+  sendWelcome.mockResolvedValue({ success: true })
+})
+
+function batch(id: string, overrides: Record<string, unknown> = {}) {
+  return { id, event_id: EVENT_ID, welcome_channels: ["email"], welcome_status: "pending", welcome_sent: 3, welcome_failed: 1, ...overrides }
+}
+
+const updates = () =>
+  mock.calls
+    .filter((c) => c.table === "registration_import_batches" && c.method === "update")
+    .map((c) => c.args[0] as Record<string, unknown>)
+
+describe("processImportWelcomes", () => {
+  it("sends only the batches its claim matched, so the kick-off and the cron can't both send one", async () => {
+    mock.queueResponse("registration_import_batches", { data: [{ id: "b1" }, { id: "b2" }], error: null })
+    mock.queueResponse("registration_import_batches", { data: [batch("b1")], error: null })
+    mock.queueResponse("registration_import_batches", { data: null, error: null })
+    mock.queueResponse("registration_import_batches", { data: [], error: null })
+    mock.queueResponse("events", { data: { name: "Congress", short_name: null }, error: null })
+    mock.queueResponse("registrations", {
+      data: [{ id: "r1", attendee_email: "anitha@x.in", custom_fields: {} }, { id: "r2", attendee_email: "ravi@x.in", custom_fields: {} }],
+      error: null,
+    })
+
+    const result = await processImportWelcomes(mock.client, [EVENT_ID])
+
+    expect(result).toEqual({ batches: 1, sent: 2, failed: 0, completed: 1 })
+    expect(sendWelcome).toHaveBeenCalledTimes(2)
+    const [claimB1, counters, claimB2] = updates()
+    expect(claimB1.welcome_lease_expires_at).toEqual(expect.any(String))
+    expect(claimB2.welcome_lease_expires_at).toEqual(expect.any(String))
+    // Counted from the claimed row and the lease handed back.
+    expect(counters).toEqual({ welcome_sent: 5, welcome_failed: 1, welcome_lease_expires_at: null, welcome_status: "sent" })
+    const claimFilters = mock.calls.filter((c) => c.table === "registration_import_batches" && c.method === "or")
+    expect(claimFilters[1].args[0]).toMatch(/^welcome_lease_expires_at\.is\.null,welcome_lease_expires_at\.lt\./)
+  })
+
+  it("sends nothing when another run holds the batch", async () => {
+    mock.queueResponse("registration_import_batches", { data: [{ id: "b1" }], error: null })
+    mock.queueResponse("registration_import_batches", { data: [], error: null })
+
+    const result = await processImportWelcomes(mock.client, [EVENT_ID], { batchId: "b1" })
+
+    expect(result).toEqual({ batches: 0, sent: 0, failed: 0, completed: 0 })
+    expect(sendWelcome).not.toHaveBeenCalled()
+    expect(updates()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,374 @@
+/**
+ * Registration Imports
+ *
+ * Executes a plan from lib/registration-import.ts. Every committed import is
+ * a registration_import_batches row and each registration it creates carries
+ * that batch id, so the whole import can be undone in one step. Numbers come
+ * from getNextRegistrationNumber, exactly as for a checkout registration.
+ *
+ * An import can ask for a welcome batch (email and/or WhatsApp). The batch is
+ * queued on the import row and sent by processImportWelcomes — kicked off
+ * right after the import and resumed by the import-welcome cron — a chunk at
+ * a time, skipping anyone already stamped as welcomed.
+ */
+
+import {
+  planImport,
+  type ExistingRegistration,
+  type ImportOptions,
+  type ImportPlan,
+  type ImportRow,
+  type ImportTicket,
+} from "@/lib/registration-import"
+import { getNextRegistrationNumber } from "@/lib/services/registration-number"
+import { countHeldSeats } from "@/lib/services/waitlist-offers"
+import {
+  canSendWelcome,
+  sendWelcome,
+  welcomeAlreadySent,
+  type WelcomeChannel,
+  type WelcomeRegistration,
+} from "@/lib/services/welcome-messages"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+export interface ImportBatch {
+  id: string
+  event_id: string
+  file_name: string | null
+  ticket_mode: ImportOptions["mode"]
+  organization: string | null
+  status: "importing" | "completed" | "undone"
+  total_rows: number
+  created_count: number
+  duplicate_count: number
+  error_count: number
+  welcome_channels: WelcomeChannel[]
+  welcome_status: "none" | "pending" | "sent" | "cancelled"
+  welcome_sent: number
+  welcome_failed: number
+  created_by_email: string | null
+  created_at: string
+  undone_at: string | null
+  undone_by_email: string | null
+}
+
+export const BATCH_COLUMNS =
+  "id, event_id, file_name, ticket_mode, organization, status, total_rows, created_count, duplicate_count, error_count, welcome_channels, welcome_status, welcome_sent, welcome_failed, created_by_email, created_at, undone_at, undone_by_email"
+
+// Messages sent per batch per run; keeps a cron invocation inside its time limit
+export const WELCOME_CHUNK_SIZE = 40
+
+// How long a claimed welcome batch is left alone by other runs while its chunk is sent
+const WELCOME_LEASE_MS = 10 * 60 * 1000
+
+/**
+ * Plan an import against the event's current tickets, registrations and
+ * waitlist holds.
+ */
+export async function planEventImport(
+  db: any,
+  eventId: string,
+  rows: ImportRow[],
+  options: ImportOptions
+): Promise<{ plan: ImportPlan; tickets: ImportTicket[] }> {
+  const { data: tickets, error: ticketsError } = await db
+    .from("ticket_types")
+    .select("id, name, price, quantity_total, quantity_sold")
+    .eq("event_id", eventId)
+  if (ticketsError) throw new Error(ticketsError.message)
+
+  const existing = await fetchAllPages<ExistingRegistration>(
+    db
+      .from("registrations")
+      .select("id, registration_number, attendee_name, attendee_email, attendee_phone")
+      .eq("event_id", eventId)
+      .order("id", { ascending: true })
+  )
+  const held = await countHeldSeats(db, (tickets || []).map((t: ImportTicket) => t.id))
+
+  return { plan: planImport(rows, tickets || [], existing, options, held), tickets: tickets || [] }
+}
+
+export interface CommitImportInput {
+  eventId: string
+  plan: ImportPlan
+  options: ImportOptions
+  fileName: string | null
+  welcomeChannels: WelcomeChannel[]
+  user: { id: string; email: string }
+}
+
+export interface CommitImportResult {
+  batch: ImportBatch
+  created: { row: number; registration_number: string; name: string; ticket: string }[]
+  failed: { row: number; error: string }[]
+}
+
+/**
+ * Create every "create" row of the plan under a new batch.
+ */
+export async function commitImport(db: any, input: CommitImportInput): Promise<CommitImportResult> {
+  const { eventId, plan, options } = input
+  const { data: batch, error: batchError } = await db
+    .from("registration_import_batches")
+    .insert({
+      event_id: eventId,
+      file_name: input.fileName,
+      ticket_mode: options.mode,
+      organization: options.organization || null,
+      status: "importing",
+      total_rows: plan.summary.total,
+      duplicate_count: plan.summary.duplicate,
+      welcome_channels: input.welcomeChannels,
+      created_by: input.user.id,
+      created_by_email: input.user.email,
+    })
+    .select(BATCH_COLUMNS)
+    .single()
+  if (batchError || !batch) throw new Error(batchError?.message || "Failed to create import batch")
+
+  const created: CommitImportResult["created"] = []
+  const failed: CommitImportResult["failed"] = plan.rows
+    .filter((r) => r.action === "error")
+    .map((r) => ({ row: r.row, error: (r as { error: string }).error }))
+  const sold = new Map<string, number>()
+  const importedAt = new Date().toISOString()
+  const free = options.mode !== "paid"
+
+  for (const planned of plan.rows) {
+    if (planned.action !== "create") continue
+    const { data } = planned
+    try {
+      const registrationNumber = await getNextRegistrationNumber(db, eventId)
+      const { error } = await db.from("registrations").insert({
+        event_id: eventId,
+        ticket_type_id: planned.ticket_type_id,
+        registration_number: registrationNumber,
+        import_batch_id: batch.id,
+        attendee_name: planned.name,
+        attendee_email: planned.email,
+        attendee_phone: data.phone,
+        attendee_designation: data.designation,
+        attendee_institution: data.institution || (free ? options.organization || null : null),
+        attendee_city: data.city,
+        attendee_state: data.state,
+        attendee_country: data.country,
+        checkin_token: crypto.randomUUID(),
+        quantity: 1,
+        unit_price: planned.amount,
+        tax_amount: 0,
+        discount_amount: 0,
+        total_amount: planned.amount,
+        currency: "INR",
+        status: "confirmed",
+        payment_status: "completed",
+        confirmed_at: importedAt,
+        custom_fields: {
+          ...data.custom_fields,
+          source: "import",
+          import_batch_id: batch.id,
+          imported_at: importedAt,
+          ...(free && {
+            ticket_mode: options.mode,
+            invoice_exempt: true,
+            ...(options.organization && { [options.mode === "exhibitor" ? "exhibitor" : "sponsor"]: options.organization }),
+          }),
+        },
+      })
+      if (error) {
+        failed.push({ row: planned.row, error: error.message })
+        continue
+      }
+      created.push({ row: planned.row, registration_number: registrationNumber, name: planned.name, ticket: planned.ticket_name })
+      sold.set(planned.ticket_type_id, (sold.get(planned.ticket_type_id) || 0) + 1)
+    } catch (err) {
+      failed.push({ row: planned.row, error: (err as Error).message })
+    }
+  }
+
+  await adjustQuantitySold(db, sold, 1)
+
+  const welcome = input.welcomeChannels.length > 0 && created.length > 0
+  const { data: finished } = await db
+    .from("registration_import_batches")
+    .update({
+      status: "completed",
+      created_count: created.length,
+      error_count: failed.length,
+      welcome_status: welcome ? "pending" : "none",
+    })
+    .eq("id", batch.id)
+    .select(BATCH_COLUMNS)
+    .single()
+
+  return { batch: finished || batch, created, failed: failed.sort((a, b) => a.row - b.row) }
+}
+
+async function adjustQuantitySold(db: any, counts: Map<string, number>, sign: 1 | -1) {
+  for (const [ticketId, count] of counts) {
+    const { data: ticket } = await db.from("ticket_types").select("quantity_sold").eq("id", ticketId).single()
+    if (!ticket) continue
+    await db
+      .from("ticket_types")
+      .update({ quantity_sold: Math.max(0, (ticket.quantity_sold || 0) + sign * count) })
+      .eq("id", ticketId)
+  }
+}
+
+export interface UndoImportResult {
+  deleted: number
+  /** Registrations kept because the person has already checked in. */
+  kept_checked_in: number
+}
+
+/**
+ * Delete the registrations an import created and release their seats.
+ * Anyone already checked in is kept: they are at the venue, and removing
+ * them would orphan their attendance.
+ */
+export async function undoImportBatch(
+  db: any,
+  batch: Pick<ImportBatch, "id" | "event_id" | "welcome_status">,
+  undoneBy: string,
+  now = new Date()
+): Promise<UndoImportResult> {
+  const registrations = await fetchAllPages<{ id: string; ticket_type_id: string; checked_in: boolean }>(
+    db
+      .from("registrations")
+      .select("id, ticket_type_id, checked_in")
+      .eq("event_id", batch.event_id)
+      .eq("import_batch_id", batch.id)
+      .order("id", { ascending: true })
+  )
+
+  const removable = registrations.filter((r) => !r.checked_in)
+  const released = new Map<string, number>()
+  for (const r of removable) released.set(r.ticket_type_id, (released.get(r.ticket_type_id) || 0) + 1)
+
+  if (removable.length > 0) {
+    const { error } = await db
+      .from("registrations")
+      .delete()
+      .eq("import_batch_id", batch.id)
+      .eq("checked_in", false)
+    if (error) throw new Error(error.message)
+    await adjustQuantitySold(db, released, -1)
+  }
+
+  await db
+    .from("registration_import_batches")
+    .update({
+      status: "undone",
+      undone_at: now.toISOString(),
+      undone_by_email: undoneBy,
+      ...(batch.welcome_status === "pending" && { welcome_status: "cancelled" }),
+    })
+    .eq("id", batch.id)
+
+  return { deleted: removable.length, kept_checked_in: registrations.length - removable.length }
+}
+
+export interface WelcomeRunResult {
+  batches: number
+  sent: number
+  failed: number
+  completed: number
+}
+
+/**
+ * Send the next chunk of every pending welcome batch. A registration counts
+ * as done for a channel once it is stamped sent, has failed once (its error
+ * is stamped and shown on the import page for a manual resend) or can't be
+ * reached on that channel at all.
+ *
+ * Each batch is claimed with a lease before its chunk is sent, and only a
+ * run whose claim matched sends it, so the import's own kick-off and the
+ * cron never welcome the same delegates twice. The counters are written
+ * from the claimed row, under the lease. A claim whose lease ran out (the
+ * run died mid-chunk) is due again.
+ */
+export async function processImportWelcomes(
+  db: any,
+  eventIds: string[],
+  options: { batchId?: string; chunkSize?: number } = {}
+): Promise<WelcomeRunResult> {
+  const result: WelcomeRunResult = { batches: 0, sent: 0, failed: 0, completed: 0 }
+  if (eventIds.length === 0) return result
+
+  const now = new Date()
+  const unleased = `welcome_lease_expires_at.is.null,welcome_lease_expires_at.lt.${now.toISOString()}`
+
+  let query = db
+    .from("registration_import_batches")
+    .select("id")
+    .in("event_id", eventIds)
+    .eq("welcome_status", "pending")
+    .or(unleased)
+    .order("created_at", { ascending: true })
+  if (options.batchId) query = query.eq("id", options.batchId)
+  const { data: candidates, error } = await query
+  if (error) throw new Error(error.message)
+
+  for (const candidate of (candidates || []) as { id: string }[]) {
+    const { data: claimed, error: claimError } = await db
+      .from("registration_import_batches")
+      .update({ welcome_lease_expires_at: new Date(now.getTime() + WELCOME_LEASE_MS).toISOString() })
+      .eq("id", candidate.id)
+      .eq("welcome_status", "pending")
+      .or(unleased)
+      .select(BATCH_COLUMNS)
+    if (claimError) throw new Error(claimError.message)
+    // Another run claimed it between the read and the update.
+    if (!claimed || claimed.length === 0) continue
+
+    const batch = claimed[0] as ImportBatch
+    result.batches++
+    const { data: event } = await db
+      .from("events")
+      .select("name, short_name, start_date, venue_name")
+      .eq("id", batch.event_id)
+      .single()
+
+    const registrations = await fetchAllPages<WelcomeRegistration>(
+      db
+        .from("registrations")
+        .select("id, event_id, registration_number, attendee_name, attendee_email, attendee_phone, total_amount, payment_status, custom_fields, ticket_types(name)")
+        .eq("import_batch_id", batch.id)
+        .order("id", { ascending: true })
+    )
+
+    const pending: [WelcomeRegistration, WelcomeChannel][] = []
+    for (const registration of registrations) {
+      for (const channel of batch.welcome_channels) {
+        if (welcomeAlreadySent(registration, channel) || !canSendWelcome(registration, channel)) continue
+        if (registration.custom_fields?.[`welcome_${channel}_error`]) continue
+        pending.push([registration, channel])
+      }
+    }
+
+    const chunk = pending.slice(0, options.chunkSize ?? WELCOME_CHUNK_SIZE)
+    let sent = 0
+    let failed = 0
+    for (const [registration, channel] of chunk) {
+      const outcome = await sendWelcome(db, channel, registration, event || { name: "Event", short_name: null })
+      if (outcome.success) sent++
+      else failed++
+    }
+    result.sent += sent
+    result.failed += failed
+
+    const done = chunk.length === pending.length
+    if (done) result.completed++
+    await db
+      .from("registration_import_batches")
+      .update({
+        welcome_sent: batch.welcome_sent + sent,
+        welcome_failed: batch.welcome_failed + failed,
+        welcome_lease_expires_at: null,
+        ...(done && { welcome_status: "sent" }),
+      })
+      .eq("id", batch.id)
+  }
+
+  return result
+}
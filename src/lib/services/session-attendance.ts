@@ -0,0 +1,91 @@
+/**
+ * Session attendance
+ *
+ * Loads an event's programme, session_cme weights and hall-door scans, and
+ * hands them to the pure dwell/credit logic in src/lib/session-attendance.ts.
+ * Used by the admin CME report, the delegate portal's transcript and the
+ * certificate download.
+ */
+
+import {
+  buildCmeTranscripts,
+  type AttendanceScan,
+  type AttendanceSession,
+  type CmeReportRow,
+  type CmeTranscript,
+  type SessionCmeWeight,
+} from "@/lib/session-attendance"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+
+const IN_CHUNK = 300
+
+/**
+ * Every delegate's CME transcript for the event, or just one delegate's when
+ * `registrationId` is given. Delegates with no credited session are absent.
+ */
+export async function loadCmeTranscripts(
+  db: any,
+  eventId: string,
+  registrationId?: string
+): Promise<Map<string, CmeTranscript>> {
+  let scansQuery = db
+    .from("session_attendance_scans")
+    .select("session_id, registration_id, direction, scanned_at")
+    .eq("event_id", eventId)
+  if (registrationId) scansQuery = scansQuery.eq("registration_id", registrationId)
+
+  const [eventResult, sessions, cme, scans] = await Promise.all([
+    db.from("events").select("timezone").eq("id", eventId).maybeSingle(),
+    fetchAllPages<AttendanceSession>(
+      db
+        .from("sessions")
+        .select("id, session_name, session_date, start_time, end_time")
+        .eq("event_id", eventId)
+        .order("id", { ascending: true })
+    ),
+    fetchAllPages<SessionCmeWeight>(
+      db
+        .from("session_cme")
+        .select("session_id, cme_credits, cme_category, accrediting_body")
+        .eq("event_id", eventId)
+        .order("session_id", { ascending: true })
+    ),
+    fetchAllPages<AttendanceScan>(scansQuery.order("id", { ascending: true })),
+  ])
+  if (eventResult.error) throw eventResult.error
+
+  return buildCmeTranscripts({
+    sessions,
+    cme,
+    scans,
+    // Same fallback the session check-in provisioning uses.
+    timezone: eventResult.data?.timezone ?? "Asia/Kolkata",
+  })
+}
+
+/** One row per credited delegate, by registration number. */
+export async function loadCmeReport(db: any, eventId: string): Promise<CmeReportRow[]> {
+  const transcripts = await loadCmeTranscripts(db, eventId)
+  const ids = [...transcripts.keys()]
+
+  const registrations = new Map<string, { registration_number: string; attendee_name: string }>()
+  for (let i = 0; i < ids.length; i += IN_CHUNK) {
+    const { data, error } = await db
+      .from("registrations")
+      .select("id, registration_number, attendee_name")
+      .eq("event_id", eventId)
+      .in("id", ids.slice(i, i + IN_CHUNK))
+    if (error) throw error
+    for (const r of data || []) registrations.set(r.id, r)
+  }
+
+  return [...transcripts.values()]
+    .map((t) => ({
+      registration_id: t.registration_id,
+      registration_number: registrations.get(t.registration_id)?.registration_number ?? "",
+      attendee_name: registrations.get(t.registration_id)?.attendee_name ?? "Deleted registration",
+      sessions: t.lines.length,
+      total_credits: t.total_credits,
+    }))
+    .sort((a, b) => a.registration_number.localeCompare(b.registration_number))
+}
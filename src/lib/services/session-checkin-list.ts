@@ -0,0 +1,82 @@
+import { computeSessionCheckinWindow } from "@/lib/agenda-session-checkin-window"
+
+export interface CheckinListSession {
+  id: string
+  session_date: string | null
+  start_time: string | null
+  end_time: string | null
+  checkin_enabled: boolean | null
+}
+
+/**
+ * Bring a session's check-in list in line with the session after it moved or
+ * had check-in switched: open (or create) the list over the new window, or
+ * force it closed when check-in is off.
+ *
+ * Shared by the Session Builder's PATCH and auto-arrange's accept, so a
+ * session placed by either ends up with the same kiosk window. Returns the
+ * failure to report -- the session itself is already saved by then -- or null.
+ */
+export async function syncSessionCheckinList(
+  supabase: any,
+  eventId: string,
+  session: CheckinListSession
+): Promise<string | null> {
+  if (session.checkin_enabled && session.session_date && session.start_time && session.end_time) {
+    const { data: event, error: eventError } = await supabase.from("events").select("timezone, end_date").eq("id", eventId).single()
+    if (eventError) return "Session updated, but failed to look up event timezone for check-in provisioning"
+    const timezone = event?.timezone ?? "Asia/Kolkata"
+
+    const { opensAt, closesAt } = computeSessionCheckinWindow(
+      { session_date: session.session_date, start_time: session.start_time, end_time: session.end_time },
+      timezone
+    )
+
+    const { data: existingList, error: existingListError } = await supabase
+      .from("checkin_lists")
+      .select("id")
+      .eq("session_id", session.id)
+      .maybeSingle()
+    if (existingListError) return "Session updated, but failed to check for an existing check-in list"
+
+    if (existingList) {
+      const { error: updateListError } = await supabase
+        .from("checkin_lists")
+        .update({ kiosk_opens_at: opensAt, kiosk_closes_at: closesAt, kiosk_force_state: null, updated_at: new Date().toISOString() })
+        .eq("id", existingList.id)
+      if (updateListError) return "Session updated, but failed to update its check-in list"
+    } else {
+      const accessTokenExpiresAt = new Date(
+        event?.end_date ? new Date(event.end_date).getTime() + 2 * 864e5 : Date.now() + 30 * 864e5
+      ).toISOString()
+
+      const { error: insertListError } = await supabase.from("checkin_lists").insert({
+        event_id: eventId,
+        session_id: session.id,
+        name: `Session check-in — ${session.id}`,
+        list_purpose: "session",
+        kiosk_opens_at: opensAt,
+        kiosk_closes_at: closesAt,
+        allow_multiple_checkins: false,
+        access_token_expires_at: accessTokenExpiresAt,
+        is_active: true,
+      })
+      if (insertListError) return "Session updated, but failed to create its check-in list"
+    }
+  } else if (!session.checkin_enabled) {
+    const { data: existingList, error: existingListError } = await supabase
+      .from("checkin_lists")
+      .select("id")
+      .eq("session_id", session.id)
+      .maybeSingle()
+    if (existingListError) return "Session updated, but failed to check for an existing check-in list to close"
+    if (existingList) {
+      const { error: closeError } = await supabase
+        .from("checkin_lists")
+        .update({ kiosk_force_state: "closed", updated_at: new Date().toISOString() })
+        .eq("id", existingList.id)
+      if (closeError) return "Session updated, but failed to close its check-in list"
+    }
+  }
+  return null
+}
@@ -0,0 +1,250 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import {
+  buildOfferWhatsAppText,
+  countHeldSeats,
+  declineWaitlistOffer,
+  effectiveOfferStatus,
+  holdExpiresAt,
+  offerNextInLine,
+  seatsLeft,
+  settleWaitlistOffers,
+} from "./waitlist-offers"
+
+const sendEmail = vi.fn()
+const sendWhatsAppText = vi.fn()
+
+vi.mock("@/lib/email", () => ({
+  isEmailEnabled: () => true,
+  sendEmail: (...args: unknown[]) => sendEmail(...args),
+}))
+
+vi.mock("@/lib/whatsapp-send", () => ({
+  sendWhatsAppText: (...args: unknown[]) => sendWhatsAppText(...args),
+}))
+
+vi.mock("@/lib/tenant", () => ({
+  getRequiredAppUrl: () => "https://events.example.com",
+}))
+
+const NOW = new Date("2026-10-19T10:00:00Z")
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const TICKET_ID = "22222222-2222-2222-2222-222222222222"
+
+const ENTRY = {
+  id: "w1",
+  event_id: EVENT_ID,
+  ticket_type_id: TICKET_ID,
+  email: "Asha@Example.com",
+  name: "Asha",
+  phone: "9876543210",
+}
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  sendEmail.mockReset().mockResolvedValue({ success: true })
+  sendWhatsAppText.mockReset().mockResolvedValue({ success: true })
+})
+
+// Responses offerSeat reads after inserting the offer
+function queueOfferDetails() {
+  mock.queueResponse("ticket_types", { data: { name: "Delegate" }, error: null })
+  mock.queueResponse("events", { data: { name: "AMASICON 2026", short_name: "AMASICON", slug: "amasicon-2026" }, error: null })
+}
+
+function updatesTo(table: string) {
+  return mock.calls
+    .filter((c) => c.table === table && c.method === "update")
+    .map((c) => c.args[0])
+}
+
+describe("holds", () => {
+  it("holds for 24 hours by default", () => {
+    expect(holdExpiresAt(NOW).toISOString()).toBe("2026-10-20T10:00:00.000Z")
+  })
+
+  it("takes held seats out of what's left on sale", () => {
+    expect(seatsLeft({ quantity_total: 100, quantity_sold: 98 }, 1)).toBe(1)
+    expect(seatsLeft({ quantity_total: 100, quantity_sold: 100 }, 2)).toBe(0)
+    expect(seatsLeft({ quantity_total: null, quantity_sold: 500 }, 3)).toBeNull()
+  })
+
+  it("treats an active offer past its hold as expired", () => {
+    expect(effectiveOfferStatus({ status: "active", expires_at: "2026-10-19T09:59:00Z" }, NOW)).toBe("expired")
+    expect(effectiveOfferStatus({ status: "active", expires_at: "2026-10-19T10:01:00Z" }, NOW)).toBe("active")
+    expect(effectiveOfferStatus({ status: "claimed", expires_at: "2026-10-19T09:00:00Z" }, NOW)).toBe("claimed")
+  })
+
+  it("counts other people's active holds per ticket, leaving out the buyer's own", async () => {
+    mock.queueResponse("waitlist_offers", {
+      data: [{ ticket_type_id: "t1" }, { ticket_type_id: "t1" }, { ticket_type_id: "t2" }],
+      error: null,
+    })
+    const held = await countHeldSeats(mock.client, ["t1", "t2"], " Buyer@Example.com", NOW)
+    expect(held.get("t1")).toBe(2)
+    expect(held.get("t2")).toBe(1)
+    expect(mock.calls).toContainEqual({ table: "waitlist_offers", method: "neq", args: ["email", "buyer@example.com"] })
+    expect(mock.calls).toContainEqual({ table: "waitlist_offers", method: "gt", args: ["expires_at", NOW.toISOString()] })
+  })
+})
+
+describe("offerNextInLine", () => {
+  it("holds the seat for the first person and sends the claim link by email and WhatsApp", async () => {
+    mock.queueResponse("ticket_types", { data: { quantity_total: 100, quantity_sold: 99 }, error: null })
+    mock.queueResponse("waitlist_offers", { data: [], error: null })
+    mock.queueResponse("waitlist", { data: [ENTRY], error: null })
+    mock.queueResponse("waitlist_offers", { data: { id: "o1", token: "tok" }, error: null })
+    queueOfferDetails()
+
+    const result = await offerNextInLine(mock.client, EVENT_ID, TICKET_ID, NOW)
+
+    expect(result).toEqual({ offered: true, offer_id: "o1", email: ENTRY.email, channels: ["email", "whatsapp"] })
+    const insert = mock.calls.find((c) => c.table === "waitlist_offers" && c.method === "insert")!.args[0] as any
+    expect(insert).toMatchObject({
+      waitlist_id: "w1",
+      email: "asha@example.com",
+      status: "active",
+      expires_at: "2026-10-20T10:00:00.000Z",
+    })
+    expect(sendWhatsAppText.mock.calls[0][2]).toContain("https://events.example.com/register/amasicon-2026/waitlist/tok")
+    expect(updatesTo("waitlist")).toEqual([{ notified_at: NOW.toISOString(), status: "notified" }])
+  })
+
+  it("doesn't offer a seat that other holds have already taken", async () => {
+    mock.queueResponse("ticket_types", { data: { quantity_total: 100, quantity_sold: 99 }, error: null })
+    mock.queueResponse("waitlist_offers", { data: [{ ticket_type_id: TICKET_ID }], error: null })
+
+    const result = await offerNextInLine(mock.client, EVENT_ID, TICKET_ID, NOW)
+
+    expect(result.offered).toBe(false)
+    expect(mock.calls.some((c) => c.table === "waitlist")).toBe(false)
+  })
+
+  it("skips someone who can't be reached and offers the seat to the next person", async () => {
+    const unreachable = { ...ENTRY, id: "w0", email: "gone@example.com", phone: null }
+    sendEmail.mockResolvedValueOnce({ success: false, error: "Bounced" })
+
+    mock.queueResponse("ticket_types", { data: { quantity_total: 100, quantity_sold: 99 }, error: null })
+    mock.queueResponse("waitlist_offers", { data: [], error: null })
+    mock.queueResponse("waitlist", { data: [unreachable, ENTRY], error: null })
+    mock.queueResponse("waitlist_offers", { data: { id: "o0", token: "tok0" }, error: null })
+    queueOfferDetails()
+    mock.queueResponse("waitlist_offers", { data: null, error: null }) // cancel o0
+    mock.queueResponse("waitlist", { data: null, error: null }) // stamp w0
+    mock.queueResponse("waitlist_offers", { data: { id: "o1", token: "tok1" }, error: null })
+    queueOfferDetails()
+
+    const result = await offerNextInLine(mock.client, EVENT_ID, TICKET_ID, NOW)
+
+    expect(result).toMatchObject({ offered: true, offer_id: "o1" })
+    expect(updatesTo("waitlist_offers")[0]).toEqual({
+      status: "cancelled",
+      closed_at: NOW.toISOString(),
+      delivery_errors: { email: "Bounced" },
+    })
+    expect(updatesTo("waitlist")).toEqual([
+      { notified_at: NOW.toISOString() },
+      { notified_at: NOW.toISOString(), status: "notified" },
+    ])
+  })
+})
+
+describe("settleWaitlistOffers", () => {
+  const active = {
+    id: "o1",
+    event_id: EVENT_ID,
+    waitlist_id: "w1",
+    ticket_type_id: TICKET_ID,
+    email: "asha@example.com",
+  }
+
+  it("claims an offer once the holder has a confirmed registration", async () => {
+    mock.queueResponse("waitlist_offers", { data: [{ ...active, expires_at: "2026-10-19T09:00:00Z" }], error: null })
+    mock.queueResponse("registrations", { data: { id: "r1" }, error: null })
+
+    const result = await settleWaitlistOffers(mock.client, [EVENT_ID], NOW)
+
+    expect(result).toEqual({ claimed: 1, expired: 0, reoffered: 0 })
+    expect(updatesTo("waitlist")).toEqual([
+      { status: "converted", converted_at: NOW.toISOString(), registration_id: "r1" },
+    ])
+  })
+
+  it("leaves a live hold alone", async () => {
+    mock.queueResponse("waitlist_offers", { data: [{ ...active, expires_at: "2026-10-19T12:00:00Z" }], error: null })
+    mock.queueResponse("registrations", { data: null, error: null })
+
+    const result = await settleWaitlistOffers(mock.client, [EVENT_ID], NOW)
+
+    expect(result).toEqual({ claimed: 0, expired: 0, reoffered: 0 })
+    expect(updatesTo("waitlist_offers")).toEqual([])
+  })
+
+  it("expires a lapsed hold and offers the seat to the next person", async () => {
+    mock.queueResponse("waitlist_offers", { data: [{ ...active, expires_at: "2026-10-19T09:00:00Z" }], error: null })
+    mock.queueResponse("registrations", { data: null, error: null })
+    mock.queueResponse("waitlist_offers", { data: [{ id: "o1" }], error: null }) // expire o1
+    mock.queueResponse("waitlist", { data: null, error: null }) // expire w1
+    mock.queueResponse("ticket_types", { data: { quantity_total: 100, quantity_sold: 99 }, error: null })
+    mock.queueResponse("waitlist_offers", { data: [], error: null })
+    mock.queueResponse("waitlist", { data: [{ ...ENTRY, id: "w2" }], error: null })
+    mock.queueResponse("waitlist_offers", { data: { id: "o2", token: "tok2" }, error: null })
+    queueOfferDetails()
+
+    const result = await settleWaitlistOffers(mock.client, [EVENT_ID], NOW)
+
+    expect(result).toEqual({ claimed: 0, expired: 1, reoffered: 1 })
+    expect(updatesTo("waitlist_offers")[0]).toEqual({ status: "expired", closed_at: NOW.toISOString() })
+    expect(updatesTo("waitlist")[0]).toEqual({ status: "expired" })
+  })
+
+  it("leaves the entry and the seat alone when the offer closed under it", async () => {
+    mock.queueResponse("waitlist_offers", { data: [{ ...active, expires_at: "2026-10-19T09:00:00Z" }], error: null })
+    mock.queueResponse("registrations", { data: null, error: null })
+    mock.queueResponse("waitlist_offers", { data: [], error: null }) // declined meanwhile
+
+    const result = await settleWaitlistOffers(mock.client, [EVENT_ID], NOW)
+
+    expect(result).toEqual({ claimed: 0, expired: 0, reoffered: 0 })
+    expect(updatesTo("waitlist")).toEqual([])
+    expect(mock.calls.some((c) => c.table === "ticket_types")).toBe(false)
+  })
+})
+
+describe("declineWaitlistOffer", () => {
+  const offer = {
+    id: "o1",
+    event_id: EVENT_ID,
+    waitlist_id: "w1",
+    ticket_type_id: TICKET_ID,
+    email: "asha@example.com",
+    status: "active",
+  } as any
+
+  it("re-offers nothing when a second decline finds the offer already closed", async () => {
+    mock.queueResponse("waitlist_offers", { data: [], error: null })
+
+    const result = await declineWaitlistOffer(mock.client, offer, NOW)
+
+    expect(result).toBeNull()
+    expect(updatesTo("waitlist")).toEqual([])
+    expect(mock.calls.some((c) => c.table === "waitlist_offers" && c.method === "insert")).toBe(false)
+  })
+})
+
+describe("buildOfferWhatsAppText", () => {
+  it("says how long the seat is held in IST", () => {
+    const text = buildOfferWhatsAppText({
+      name: "Asha",
+      ticketName: "Delegate",
+      eventName: "AMASICON",
+      claimUrl: "https://events.example.com/register/amasicon-2026/waitlist/tok",
+      expiresAt: holdExpiresAt(NOW),
+    })
+    expect(text).toContain("Delegate at AMASICON")
+    expect(text).toContain("20 Oct")
+    expect(text).toContain("IST")
+  })
+})
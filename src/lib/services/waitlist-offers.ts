@@ -0,0 +1,579 @@
+/**
+ * Waitlist Offers
+ *
+ * When a seat frees up, the first person in line gets an offer: the seat is
+ * held for them for WAITLIST_HOLD_HOURS and they are sent a claim link by
+ * email and WhatsApp. While the offer is active the seat doesn't count as
+ * available for anyone else (see countHeldSeats), but ticket_types.quantity_sold
+ * is left alone — the holder buys through the normal checkout, which
+ * increments it as usual.
+ *
+ * The waitlist-offers cron settles offers: an active offer whose holder now
+ * has a confirmed registration is marked claimed; one whose hold has run out
+ * is expired and the seat is offered to the next person in line.
+ */
+
+import crypto from "crypto"
+import { sendEmail, isEmailEnabled } from "@/lib/email"
+import { sendWhatsAppText } from "@/lib/whatsapp-send"
+import { getRequiredAppUrl } from "@/lib/tenant"
+
+export const WAITLIST_HOLD_HOURS = 24
+
+export type WaitlistOfferStatus = "active" | "claimed" | "expired" | "declined" | "cancelled"
+
+export type WaitlistOfferChannel = "email" | "whatsapp"
+
+export interface WaitlistOffer {
+  id: string
+  event_id: string
+  waitlist_id: string
+  ticket_type_id: string | null
+  email: string
+  name: string
+  phone: string | null
+  token: string
+  status: WaitlistOfferStatus
+  channels: WaitlistOfferChannel[]
+  delivery_errors: Partial<Record<WaitlistOfferChannel, string>> | null
+  offered_at: string
+  expires_at: string
+  claimed_at: string | null
+  closed_at: string | null
+  registration_id: string | null
+}
+
+interface WaitlistEntry {
+  id: string
+  event_id: string
+  ticket_type_id: string | null
+  email: string
+  name: string
+  phone: string | null
+}
+
+export interface OfferResult {
+  offered: boolean
+  offer_id?: string
+  email?: string
+  channels?: WaitlistOfferChannel[]
+  error?: string
+  undeliverable?: boolean
+}
+
+// People tried per freed seat before giving up when offers can't be delivered
+const MAX_CANDIDATES = 5
+
+export function generateOfferToken(): string {
+  return crypto.randomBytes(24).toString("hex")
+}
+
+export function holdExpiresAt(from: Date, hours = WAITLIST_HOLD_HOURS): Date {
+  return new Date(from.getTime() + hours * 60 * 60 * 1000)
+}
+
+/**
+ * Seats still on sale once other people's holds are taken out.
+ * Returns null for tickets without a capacity limit.
+ */
+export function seatsLeft(
+  ticket: { quantity_total: number | null; quantity_sold: number | null },
+  held: number
+): number | null {
+  if (!ticket.quantity_total) return null
+  return Math.max(0, ticket.quantity_total - (ticket.quantity_sold || 0) - held)
+}
+
+/**
+ * An active offer whose hold has run out is expired even if the cron hasn't
+ * got to it yet.
+ */
+export function effectiveOfferStatus(
+  offer: Pick<WaitlistOffer, "status" | "expires_at">,
+  now = new Date()
+): WaitlistOfferStatus {
+  if (offer.status === "active" && new Date(offer.expires_at).getTime() <= now.getTime()) {
+    return "expired"
+  }
+  return offer.status
+}
+
+/**
+ * Active holds per ticket type. Holds belonging to `exceptEmail` are left
+ * out so the holder themselves can buy the seat that's being kept for them.
+ */
+export async function countHeldSeats(
+  db: any,
+  ticketTypeIds: string[],
+  exceptEmail?: string | null,
+  now = new Date()
+): Promise<Map<string, number>> {
+  const held = new Map<string, number>()
+  if (ticketTypeIds.length === 0) return held
+
+  let query = db
+    .from("waitlist_offers")
+    .select("ticket_type_id, email")
+    .in("ticket_type_id", ticketTypeIds)
+    .eq("status", "active")
+    .gt("expires_at", now.toISOString())
+
+  if (exceptEmail) {
+    query = query.neq("email", exceptEmail.trim().toLowerCase())
+  }
+
+  const { data, error } = await query
+  if (error) {
+    // Don't block sales on a failed lookup; worst case a hold is oversold
+    console.error("[WaitlistOffers] Failed to count held seats:", error)
+    return held
+  }
+
+  for (const row of (data || []) as Array<{ ticket_type_id: string }>) {
+    held.set(row.ticket_type_id, (held.get(row.ticket_type_id) || 0) + 1)
+  }
+  return held
+}
+
+/**
+ * Offer a freed seat to the first person waiting for this ticket type.
+ * Does nothing if no seat is actually free once other holds are counted.
+ */
+export async function offerNextInLine(
+  db: any,
+  eventId: string,
+  ticketTypeId: string | null,
+  now = new Date()
+): Promise<OfferResult> {
+  if (ticketTypeId) {
+    const { data: ticket } = await db
+      .from("ticket_types")
+      .select("quantity_total, quantity_sold")
+      .eq("id", ticketTypeId)
+      .maybeSingle()
+
+    if (ticket) {
+      const held = await countHeldSeats(db, [ticketTypeId], null, now)
+      const left = seatsLeft(ticket, held.get(ticketTypeId) || 0)
+      if (left !== null && left <= 0) {
+        return { offered: false, error: "No seat available to offer" }
+      }
+    }
+  }
+
+  // Waitlisted people (FIFO by created_at) who haven't had an offer
+  let query = db
+    .from("waitlist")
+    .select("id, event_id, ticket_type_id, email, name, phone")
+    .eq("event_id", eventId)
+    .eq("status", "waiting")
+    .is("notified_at", null)
+    .order("created_at", { ascending: true })
+    .limit(MAX_CANDIDATES)
+
+  query = ticketTypeId ? query.eq("ticket_type_id", ticketTypeId) : query.is("ticket_type_id", null)
+
+  const { data: entries, error: fetchError } = await query
+
+  if (fetchError) {
+    console.error("[WaitlistOffers] Failed to query waitlist:", fetchError)
+    return { offered: false, error: "Failed to query waitlist" }
+  }
+
+  if (!entries || entries.length === 0) {
+    return { offered: false }
+  }
+
+  // Someone who can't be reached is skipped rather than holding up the line
+  let result: OfferResult = { offered: false }
+  for (const entry of entries as WaitlistEntry[]) {
+    result = await offerSeat(db, entry, now)
+    if (!result.undeliverable) return result
+  }
+  return result
+}
+
+/**
+ * Hold a seat for one waitlist entry and send them the claim link.
+ * If neither email nor WhatsApp goes out the offer is cancelled straight
+ * away, so the seat isn't held for someone who doesn't know about it, and
+ * the entry is stamped notified_at so automatic offers skip it (it stays
+ * 'waiting' for the organiser to follow up).
+ */
+export async function offerSeat(
+  db: any,
+  entry: WaitlistEntry,
+  now = new Date()
+): Promise<OfferResult> {
+  const expiresAt = holdExpiresAt(now)
+
+  const { data: offer, error: insertError } = await db
+    .from("waitlist_offers")
+    .insert({
+      event_id: entry.event_id,
+      waitlist_id: entry.id,
+      ticket_type_id: entry.ticket_type_id,
+      email: entry.email.trim().toLowerCase(),
+      name: entry.name,
+      phone: entry.phone || null,
+      token: generateOfferToken(),
+      status: "active",
+      offered_at: now.toISOString(),
+      expires_at: expiresAt.toISOString(),
+    })
+    .select("id, token")
+    .single()
+
+  if (insertError || !offer) {
+    console.error("[WaitlistOffers] Failed to create offer:", insertError)
+    return { offered: false, email: entry.email, error: "Failed to create offer" }
+  }
+
+  const details = await loadOfferDetails(db, entry.event_id, entry.ticket_type_id)
+  const claimUrl = `${getRequiredAppUrl()}/register/${details.eventSlug}/waitlist/${offer.token}`
+  const message = {
+    name: entry.name,
+    ticketName: details.ticketName,
+    eventName: details.eventName,
+    claimUrl,
+    expiresAt,
+  }
+
+  const channels: WaitlistOfferChannel[] = []
+  const errors: Partial<Record<WaitlistOfferChannel, string>> = {}
+
+  if (isEmailEnabled()) {
+    const emailResult = await sendEmail({
+      to: entry.email,
+      subject: `A spot is being held for you - ${details.eventName}`,
+      html: buildOfferEmailHtml(message),
+    })
+    if (emailResult.success) channels.push("email")
+    else errors.email = emailResult.error || "Email failed"
+  } else {
+    errors.email = "Email not configured"
+  }
+
+  if (entry.phone) {
+    const waResult = await sendWhatsAppText(entry.phone, entry.name, buildOfferWhatsAppText(message))
+    if (waResult.success) channels.push("whatsapp")
+    else errors.whatsapp = waResult.error || "WhatsApp failed"
+  }
+
+  const deliveryErrors = Object.keys(errors).length > 0 ? errors : null
+
+  if (channels.length === 0) {
+    await db
+      .from("waitlist_offers")
+      .update({ status: "cancelled", closed_at: now.toISOString(), delivery_errors: deliveryErrors })
+      .eq("id", offer.id)
+    await db
+      .from("waitlist")
+      .update({ notified_at: now.toISOString() })
+      .eq("id", entry.id)
+    console.error(`[WaitlistOffers] Could not reach ${entry.email}; offer cancelled`, errors)
+    return { offered: false, email: entry.email, error: "Offer could not be delivered", undeliverable: true }
+  }
+
+  await db
+    .from("waitlist_offers")
+    .update({ channels, delivery_errors: deliveryErrors })
+    .eq("id", offer.id)
+
+  const { error: updateError } = await db
+    .from("waitlist")
+    .update({ notified_at: now.toISOString(), status: "notified" })
+    .eq("id", entry.id)
+
+  if (updateError) {
+    console.error("[WaitlistOffers] Failed to mark entry notified:", updateError)
+  }
+
+  console.log(
+    `[WaitlistOffers] Held ${details.ticketName} for ${entry.name} (${entry.email}) until ${expiresAt.toISOString()} via ${channels.join(", ")}`
+  )
+
+  return { offered: true, offer_id: offer.id, email: entry.email, channels }
+}
+
+/**
+ * The holder's confirmed registration for the offered ticket, if they have
+ * one — that's what claims the offer.
+ */
+async function findClaimingRegistration(
+  db: any,
+  offer: Pick<WaitlistOffer, "event_id" | "email" | "ticket_type_id">
+): Promise<{ id: string } | null> {
+  let query = db
+    .from("registrations")
+    .select("id")
+    .eq("event_id", offer.event_id)
+    .eq("attendee_email", offer.email)
+    .eq("status", "confirmed")
+
+  if (offer.ticket_type_id) {
+    query = query.eq("ticket_type_id", offer.ticket_type_id)
+  }
+
+  const { data } = await query.limit(1).maybeSingle()
+  return data || null
+}
+
+async function markClaimed(db: any, offer: Pick<WaitlistOffer, "id" | "waitlist_id">, registrationId: string, now: Date) {
+  await db
+    .from("waitlist_offers")
+    .update({
+      status: "claimed",
+      claimed_at: now.toISOString(),
+      closed_at: now.toISOString(),
+      registration_id: registrationId,
+    })
+    .eq("id", offer.id)
+
+  await db
+    .from("waitlist")
+    .update({ status: "converted", converted_at: now.toISOString(), registration_id: registrationId })
+    .eq("id", offer.waitlist_id)
+}
+
+export interface SettleResult {
+  claimed: number
+  expired: number
+  reoffered: number
+}
+
+/**
+ * Claim offers whose holder has registered, expire the rest once their hold
+ * runs out, and pass each expired seat to the next person in line.
+ * Only offers for `eventIds` are touched.
+ */
+export async function settleWaitlistOffers(db: any, eventIds: string[], now = new Date()): Promise<SettleResult> {
+  const result: SettleResult = { claimed: 0, expired: 0, reoffered: 0 }
+  if (eventIds.length === 0) return result
+
+  const { data: offers, error } = await db
+    .from("waitlist_offers")
+    .select("id, event_id, waitlist_id, ticket_type_id, email, expires_at")
+    .in("event_id", eventIds)
+    .eq("status", "active")
+    .order("expires_at", { ascending: true })
+
+  if (error) throw new Error(`Failed to load active offers: ${error.message}`)
+
+  for (const offer of (offers || []) as WaitlistOffer[]) {
+    const registration = await findClaimingRegistration(db, offer)
+    if (registration) {
+      await markClaimed(db, offer, registration.id, now)
+      result.claimed++
+      continue
+    }
+
+    if (new Date(offer.expires_at).getTime() > now.getTime()) continue
+
+    // The holder registered or declined since we read it
+    if (!(await closeOffer(db, offer, "expired", "expired", now))) continue
+    result.expired++
+
+    const next = await offerNextInLine(db, offer.event_id, offer.ticket_type_id, now)
+    if (next.offered) result.reoffered++
+  }
+
+  return result
+}
+
+/**
+ * Close an active offer and its waitlist entry. Returns false, touching
+ * nothing else, when the offer was claimed or closed concurrently — the seat
+ * is then not this caller's to offer again.
+ */
+async function closeOffer(
+  db: any,
+  offer: Pick<WaitlistOffer, "id" | "waitlist_id">,
+  status: Exclude<WaitlistOfferStatus, "active" | "claimed">,
+  entryStatus: "expired" | "cancelled",
+  now: Date
+): Promise<boolean> {
+  const { data: closed, error } = await db
+    .from("waitlist_offers")
+    .update({ status, closed_at: now.toISOString() })
+    .eq("id", offer.id)
+    .eq("status", "active")
+    .select("id")
+
+  if (error) throw new Error(`Failed to close offer: ${error.message}`)
+  if (!closed || closed.length === 0) return false
+
+  await db
+    .from("waitlist")
+    .update({ status: entryStatus })
+    .eq("id", offer.waitlist_id)
+
+  return true
+}
+
+/**
+ * Look up an offer by its claim token, claiming it first if the holder has
+ * already registered.
+ */
+export async function getOfferByToken(db: any, token: string, now = new Date()): Promise<WaitlistOffer | null> {
+  const { data: offer } = await db
+    .from("waitlist_offers")
+    .select("*")
+    .eq("token", token)
+    .maybeSingle()
+
+  if (!offer) return null
+
+  if (offer.status === "active") {
+    const registration = await findClaimingRegistration(db, offer)
+    if (registration) {
+      await markClaimed(db, offer, registration.id, now)
+      return { ...offer, status: "claimed", claimed_at: now.toISOString(), registration_id: registration.id }
+    }
+  }
+
+  return { ...offer, status: effectiveOfferStatus(offer, now) }
+}
+
+/**
+ * The holder passes on the seat: release it and offer it to the next person.
+ * Returns null when the offer was no longer active (claimed, expired or
+ * already declined), in which case nothing is re-offered.
+ */
+export async function declineWaitlistOffer(db: any, offer: WaitlistOffer, now = new Date()): Promise<OfferResult | null> {
+  if (!(await closeOffer(db, offer, "declined", "cancelled", now))) return null
+  return offerNextInLine(db, offer.event_id, offer.ticket_type_id, now)
+}
+
+export async function loadOfferDetails(
+  db: any,
+  eventId: string,
+  ticketTypeId: string | null
+): Promise<{ eventName: string; eventSlug: string; ticketName: string }> {
+  let ticketName = "General Admission"
+  if (ticketTypeId) {
+    const { data: ticket } = await db
+      .from("ticket_types")
+      .select("name")
+      .eq("id", ticketTypeId)
+      .maybeSingle()
+    if (ticket?.name) ticketName = ticket.name
+  }
+
+  const { data: event } = await db
+    .from("events")
+    .select("name, short_name, slug")
+    .eq("id", eventId)
+    .maybeSingle()
+
+  return {
+    eventName: event?.short_name || event?.name || "the event",
+    eventSlug: event?.slug || eventId,
+    ticketName,
+  }
+}
+
+interface OfferMessage {
+  name: string
+  ticketName: string
+  eventName: string
+  claimUrl: string
+  expiresAt: Date
+}
+
+export function formatHoldExpiry(expiresAt: Date): string {
+  return expiresAt.toLocaleString("en-IN", {
+    timeZone: "Asia/Kolkata",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  }) + " IST"
+}
+
+export function buildOfferWhatsAppText(message: OfferMessage): string {
+  return [
+    `Hi ${message.name}, a spot has opened up for ${message.ticketName} at ${message.eventName}.`,
+    `We're holding it for you until ${formatHoldExpiry(message.expiresAt)}.`,
+    `Claim it here: ${message.claimUrl}`,
+  ].join("\n\n")
+}
+
+/**
+ * Build the HTML email body for a waitlist offer
+ */
+function buildOfferEmailHtml(message: OfferMessage): string {
+  const { name, ticketName, eventName, claimUrl, expiresAt } = message
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin:0; padding:0; background-color:#f4f4f5; font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,sans-serif;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#f4f4f5; padding:32px 16px;">
+    <tr>
+      <td align="center">
+        <table width="100%" cellpadding="0" cellspacing="0" style="max-width:560px; background-color:#ffffff; border-radius:8px; overflow:hidden; box-shadow:0 1px 3px rgba(0,0,0,0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background-color:#7c3aed; padding:24px 32px; text-align:center;">
+              <h1 style="margin:0; color:#ffffff; font-size:20px; font-weight:600;">
+                A Spot Is Being Held for You
+              </h1>
+            </td>
+          </tr>
+          <!-- Body -->
+          <tr>
+            <td style="padding:32px;">
+              <p style="margin:0 0 16px; color:#18181b; font-size:16px; line-height:1.5;">
+                Hi ${escapeHtml(name)},
+              </p>
+              <p style="margin:0 0 16px; color:#3f3f46; font-size:15px; line-height:1.6;">
+                Great news! A spot has opened up for <strong>${escapeHtml(ticketName)}</strong> at <strong>${escapeHtml(eventName)}</strong>, and you're next on the waitlist.
+              </p>
+              <p style="margin:0 0 24px; color:#3f3f46; font-size:15px; line-height:1.6;">
+                We're holding it for you until <strong>${escapeHtml(formatHoldExpiry(expiresAt))}</strong>. After that it goes to the next person in line.
+              </p>
+              <!-- CTA Button -->
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center" style="padding:8px 0 24px;">
+                    <a href="${claimUrl}" target="_blank"
+                       style="display:inline-block; background-color:#7c3aed; color:#ffffff; padding:14px 32px; border-radius:6px; text-decoration:none; font-size:16px; font-weight:600;">
+                      Claim Your Spot
+                    </a>
+                  </td>
+                </tr>
+              </table>
+              <p style="margin:0; color:#71717a; font-size:13px; line-height:1.5;">
+                If you no longer wish to attend, you can pass the spot on from the same link.
+              </p>
+            </td>
+          </tr>
+          <!-- Footer -->
+          <tr>
+            <td style="padding:16px 32px; border-top:1px solid #e4e4e7; text-align:center;">
+              <p style="margin:0; color:#a1a1aa; font-size:12px;">
+                You received this email because you joined the waitlist for ${escapeHtml(eventName)}.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+`.trim()
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
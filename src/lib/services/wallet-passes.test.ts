@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { fixtureAppleConfig, fixtureGoogleConfig } from "@/test/helpers/wallet-fixtures"
+import { buildPassContent, passContentHash } from "@/lib/wallet/pass-content"
+import { pushPassUpdates } from "@/lib/wallet/apns"
+import { syncGoogleObjects } from "@/lib/wallet/google-wallet"
+import { syncWalletPasses } from "./wallet-passes"
+
+vi.mock("@/lib/wallet/apns", () => ({
+  pushPassUpdates: vi.fn(async (_config: unknown, tokens: string[]) => ({
+    sent: tokens.length - 1,
+    unregistered: tokens.slice(-1),
+    failed: 0,
+  })),
+}))
+
+vi.mock("@/lib/wallet/google-wallet", () => ({
+  googleSaveUrl: vi.fn(),
+  syncGoogleObjects: vi.fn(async () => ({ updated: 2, missing: 0, failed: 0 })),
+}))
+
+const APP_URL = "https://events.example.org"
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const NOW = new Date("2026-10-19T09:00:00.000Z")
+
+const event = {
+  id: EVENT_ID,
+  name: "AMASICON 2026",
+  short_name: null,
+  start_date: "2026-11-20",
+  end_date: "2026-11-22",
+  venue_name: "Hotel Leela",
+  venue_address: null,
+  city: "Mumbai",
+  timezone: null,
+  primary_color: null,
+}
+
+const sessions = [
+  { session_date: "2026-11-20", updated_at: "2026-10-18T10:00:00.000Z" },
+  { session_date: "2026-11-21", updated_at: "2026-10-18T12:00:00.000Z" },
+]
+
+function registration(id: string, name: string) {
+  return {
+    id,
+    event_id: EVENT_ID,
+    status: "confirmed",
+    registration_number: `REG-${id}`,
+    checkin_token: id.repeat(32).slice(0, 32),
+    attendee_name: name,
+    attendee_designation: null,
+    attendee_institution: null,
+    ticket_types: { name: "Conference" },
+  }
+}
+
+function pass(id: string, registrationId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    event_id: EVENT_ID,
+    registration_id: registrationId,
+    authentication_token: "t".repeat(48),
+    content_hash: null,
+    content_updated_at: "2026-10-01T00:00:00.000Z",
+    apple_issued_at: "2026-10-01T00:00:00.000Z",
+    google_issued_at: null,
+    ...overrides,
+  }
+}
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  vi.mocked(pushPassUpdates).mockClear()
+  vi.mocked(syncGoogleObjects).mockClear()
+})
+
+describe("syncWalletPasses", () => {
+  it("does nothing for a tenant without wallet credentials", async () => {
+    const result = await syncWalletPasses(mock.client, [EVENT_ID], { organizationName: "AMASI", apple: null, google: null }, APP_URL)
+    expect(result.checked).toBe(0)
+    expect(mock.calls).toHaveLength(0)
+  })
+
+  it("records and pushes only the passes whose content changed", async () => {
+    const unchanged = registration("a", "Dr. Asha Rao")
+    const renamed = registration("b", "Dr. Bharat Mehta")
+    const currentHash = passContentHash(
+      buildPassContent({ registration: unchanged, event, program: { session_count: 2, day_count: 2, updated_at: "2026-10-18T12:00:00.000Z" } }, APP_URL)
+    )
+
+    mock.queueResponse("wallet_passes", {
+      data: [
+        pass("pass-a", "a", { content_hash: currentHash }),
+        pass("pass-b", "b", { content_hash: "stale", google_issued_at: "2026-10-01T00:00:00.000Z" }),
+      ],
+      error: null,
+    })
+    mock.queueResponse("events", { data: event, error: null })
+    mock.queueResponse("sessions", { data: sessions, error: null })
+    mock.queueResponse("registrations", { data: [unchanged, renamed], error: null })
+    mock.queueResponse("wallet_passes", { data: null, error: null })
+    mock.queueResponse("wallet_pass_devices", { data: [{ push_token: "phone" }, { push_token: "old-watch" }], error: null })
+
+    const config = { organizationName: "AMASI", apple: fixtureAppleConfig(), google: fixtureGoogleConfig() }
+    const result = await syncWalletPasses(mock.client, [EVENT_ID], config, APP_URL, NOW)
+
+    expect(result).toEqual({ checked: 2, changed: 1, apple_pushed: 1, apple_unregistered: 1, google_updated: 2, failed: 0 })
+
+    const update = mock.calls.find((c) => c.table === "wallet_passes" && c.method === "update")
+    expect(update?.args[0]).toMatchObject({ content_updated_at: NOW.toISOString() })
+    expect(mock.calls.find((c) => c.table === "wallet_pass_devices" && c.method === "in")?.args).toEqual(["serial_number", ["pass-b"]])
+    expect(vi.mocked(pushPassUpdates).mock.calls[0][1]).toEqual(["phone", "old-watch"])
+    // APNs said old-watch's token is gone
+    expect(mock.calls.filter((c) => c.table === "wallet_pass_devices" && c.method === "delete")).toHaveLength(1)
+
+    const [, classes, objects] = vi.mocked(syncGoogleObjects).mock.calls[0]
+    expect(classes).toHaveLength(1)
+    expect(objects.map((o: any) => o.ticketHolderName)).toEqual(["Dr. Bharat Mehta"])
+  })
+})
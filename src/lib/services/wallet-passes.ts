@@ -0,0 +1,337 @@
+/**
+ * Wallet passes
+ *
+ * Issuing and updating delegates' Apple Wallet and Google Wallet passes (see
+ * src/lib/wallet). A pass is identified by its wallet_passes row -- created
+ * the first time the delegate asks for either kind -- whose id is the Apple
+ * serial number and whose authentication_token Apple devices present to the
+ * pass web service.
+ *
+ * Issuing records the content hash it issued. The wallet-pass-sync cron
+ * rebuilds every issued pass and, where the hash moved (renamed venue,
+ * retimed session, corrected name), bumps content_updated_at, pushes Apple
+ * devices to refetch and replaces the Google object.
+ */
+
+import crypto from "crypto"
+import { fetchAllPages } from "@/lib/supabase/fetch-all-pages"
+import type { AppleWalletConfig, WalletConfig } from "@/lib/tenant"
+import { createPkpass, solidPng } from "@/lib/wallet/pkpass"
+import {
+  buildApplePassJson,
+  buildGoogleEventClass,
+  buildGoogleEventObject,
+  buildPassContent,
+  hexToRgb,
+  passContentHash,
+  type PassContent,
+  type PassSource,
+} from "@/lib/wallet/pass-content"
+import { pushPassUpdates } from "@/lib/wallet/apns"
+import { googleSaveUrl, syncGoogleObjects } from "@/lib/wallet/google-wallet"
+
+export interface WalletPass {
+  id: string
+  event_id: string
+  registration_id: string
+  authentication_token: string
+  content_hash: string | null
+  content_updated_at: string
+  apple_issued_at: string | null
+  google_issued_at: string | null
+}
+
+const PASS_SELECT =
+  "id, event_id, registration_id, authentication_token, content_hash, content_updated_at, apple_issued_at, google_issued_at"
+
+const REGISTRATION_SELECT =
+  "id, event_id, status, registration_number, checkin_token, attendee_name, attendee_designation, attendee_institution, ticket_types (name)"
+
+const EVENT_SELECT =
+  "id, name, short_name, start_date, end_date, venue_name, venue_address, city, timezone, primary_color"
+
+// Apple wants at least 16 characters; the checkin_token's 32 hex digits
+// would do, but a separate token keeps the badge QR out of device traffic.
+const newAuthenticationToken = () => crypto.randomBytes(24).toString("hex")
+
+/** The program as a pass shows it: how many sessions, over how many days, last edited when. */
+export async function loadProgramSummary(db: any, eventId: string): Promise<PassSource["program"]> {
+  const sessions = await fetchAllPages<{ session_date: string | null; updated_at: string | null }>(
+    db.from("sessions").select("session_date, updated_at").eq("event_id", eventId).order("id")
+  )
+  const days = new Set(sessions.map((s) => s.session_date).filter(Boolean))
+  const updatedAt = sessions.reduce<string | null>(
+    (latest, s) => (s.updated_at && (!latest || s.updated_at > latest) ? s.updated_at : latest),
+    null
+  )
+  return { session_count: sessions.length, day_count: days.size, updated_at: updatedAt }
+}
+
+/**
+ * Everything a delegate's pass is built from, looked up by checkin_token (the
+ * delegate-facing routes) or registration id (the web service and cron).
+ * Null when there's no such registration.
+ */
+export async function loadPassSource(
+  db: any,
+  lookup: { checkinToken: string } | { registrationId: string }
+): Promise<(PassSource & { status: string; eventId: string }) | null> {
+  let query = db.from("registrations").select(REGISTRATION_SELECT)
+  query =
+    "checkinToken" in lookup
+      ? query.eq("checkin_token", lookup.checkinToken)
+      : query.eq("id", lookup.registrationId)
+  const { data: registration, error } = await query.maybeSingle()
+  if (error) throw error
+  if (!registration?.checkin_token) return null
+
+  const { data: event, error: eventError } = await db
+    .from("events")
+    .select(EVENT_SELECT)
+    .eq("id", registration.event_id)
+    .maybeSingle()
+  if (eventError) throw eventError
+  if (!event) return null
+
+  return {
+    registration,
+    event,
+    program: await loadProgramSummary(db, event.id),
+    status: registration.status,
+    eventId: event.id,
+  }
+}
+
+/** The delegate's wallet_passes row, created on first request. */
+export async function ensureWalletPass(db: any, registration: { id: string; event_id: string }): Promise<WalletPass> {
+  const existing = await db.from("wallet_passes").select(PASS_SELECT).eq("registration_id", registration.id).maybeSingle()
+  if (existing.error) throw existing.error
+  if (existing.data) return existing.data
+
+  const { data, error } = await db
+    .from("wallet_passes")
+    .insert({
+      event_id: registration.event_id,
+      registration_id: registration.id,
+      authentication_token: newAuthenticationToken(),
+    })
+    .select(PASS_SELECT)
+    .single()
+  if (!error) return data
+  // Both wallet buttons tapped at once -- the other request created it.
+  if (error.code !== "23505") throw error
+  const retry = await db.from("wallet_passes").select(PASS_SELECT).eq("registration_id", registration.id).single()
+  if (retry.error) throw retry.error
+  return retry.data
+}
+
+/**
+ * Records `content` as what the pass now carries. content_updated_at only
+ * moves when the content actually changed -- it's the pass's Last-Modified,
+ * and moving it needlessly makes every device refetch.
+ */
+export async function recordPassContent(
+  db: any,
+  pass: WalletPass,
+  content: PassContent,
+  issued: Partial<Pick<WalletPass, "apple_issued_at" | "google_issued_at">> = {},
+  now: Date = new Date()
+): Promise<WalletPass> {
+  const hash = passContentHash(content)
+  const update: Record<string, unknown> = { ...issued }
+  if (hash !== pass.content_hash) {
+    update.content_hash = hash
+    update.content_updated_at = now.toISOString()
+  }
+  if (Object.keys(update).length === 0) return pass
+
+  const { error } = await db.from("wallet_passes").update(update).eq("id", pass.id)
+  if (error) throw error
+  return { ...pass, ...update } as WalletPass
+}
+
+/**
+ * The pass an Apple device is asking about, if the request carries that
+ * pass's "ApplePass <authenticationToken>" header. Null covers every refusal
+ * -- unknown pass type, unknown serial, wrong token -- so the web service
+ * answers them all with the same 401.
+ */
+export async function findAuthorizedPass(
+  db: any,
+  apple: AppleWalletConfig,
+  passTypeIdentifier: string,
+  serialNumber: string,
+  authorization: string | null
+): Promise<WalletPass | null> {
+  if (passTypeIdentifier !== apple.passTypeIdentifier) return null
+  if (!authorization?.startsWith("ApplePass ")) return null
+  if (!/^[0-9a-f-]{36}$/i.test(serialNumber)) return null
+
+  const { data: pass, error } = await db.from("wallet_passes").select(PASS_SELECT).eq("id", serialNumber).maybeSingle()
+  if (error) throw error
+  if (!pass) return null
+
+  const presented = Buffer.from(authorization.slice("ApplePass ".length).trim())
+  const expected = Buffer.from(pass.authentication_token)
+  return presented.length === expected.length && crypto.timingSafeEqual(presented, expected) ? pass : null
+}
+
+/** The signed .pkpass for `pass`. */
+export function renderApplePass(
+  content: PassContent,
+  pass: WalletPass,
+  config: { apple: AppleWalletConfig; organizationName: string },
+  appUrl: string,
+  signedAt: Date = new Date()
+): Buffer {
+  const passJson = buildApplePassJson(content, {
+    passTypeIdentifier: config.apple.passTypeIdentifier,
+    teamIdentifier: config.apple.teamIdentifier,
+    organizationName: config.organizationName,
+    serialNumber: pass.id,
+    authenticationToken: pass.authentication_token,
+    webServiceURL: `${appUrl}/api/wallet/apple`,
+  })
+  // icon.png is the one required image; a square of the pass colour keeps
+  // notifications and the share sheet from showing a blank.
+  const colour = hexToRgb(content.color)
+  return createPkpass(
+    {
+      "pass.json": Buffer.from(JSON.stringify(passJson), "utf8"),
+      "icon.png": solidPng(29, 29, colour),
+      "icon@2x.png": solidPng(58, 58, colour),
+    },
+    config.apple,
+    signedAt
+  )
+}
+
+/** The Save to Google Wallet link for the delegate's pass. */
+export function googlePassSaveUrl(
+  content: PassContent,
+  pass: WalletPass,
+  config: WalletConfig,
+  appUrl: string
+): string | null {
+  if (!config.google) return null
+  const identity = { issuerId: config.google.issuerId, organizationName: config.organizationName }
+  return googleSaveUrl(
+    config.google,
+    buildGoogleEventClass(content, identity),
+    buildGoogleEventObject(content, { issuerId: config.google.issuerId, registrationId: pass.registration_id }),
+    new URL(appUrl).origin
+  )
+}
+
+export interface WalletSyncResult {
+  checked: number
+  changed: number
+  apple_pushed: number
+  apple_unregistered: number
+  google_updated: number
+  failed: number
+}
+
+const REGISTRATION_CHUNK = 200
+
+/**
+ * Brings every issued pass for `eventIds` up to date with the registration,
+ * event and program. Passes never issued are skipped -- they're built fresh
+ * whenever they're first requested.
+ */
+export async function syncWalletPasses(
+  db: any,
+  eventIds: string[],
+  config: WalletConfig,
+  appUrl: string,
+  now: Date = new Date()
+): Promise<WalletSyncResult> {
+  const result: WalletSyncResult = {
+    checked: 0,
+    changed: 0,
+    apple_pushed: 0,
+    apple_unregistered: 0,
+    google_updated: 0,
+    failed: 0,
+  }
+  if (!config.apple && !config.google) return result
+
+  for (const eventId of eventIds) {
+    const passes = await fetchAllPages<WalletPass>(
+      db
+        .from("wallet_passes")
+        .select(PASS_SELECT)
+        .eq("event_id", eventId)
+        .or("apple_issued_at.not.is.null,google_issued_at.not.is.null")
+        .order("id")
+    )
+    if (passes.length === 0) continue
+
+    const { data: event, error: eventError } = await db.from("events").select(EVENT_SELECT).eq("id", eventId).maybeSingle()
+    if (eventError) throw eventError
+    if (!event) continue
+    const program = await loadProgramSummary(db, eventId)
+
+    const registrations = new Map<string, any>()
+    for (let i = 0; i < passes.length; i += REGISTRATION_CHUNK) {
+      const ids = passes.slice(i, i + REGISTRATION_CHUNK).map((p) => p.registration_id)
+      const { data, error } = await db.from("registrations").select(REGISTRATION_SELECT).in("id", ids)
+      if (error) throw error
+      for (const registration of data || []) registrations.set(registration.id, registration)
+    }
+
+    // Record the new content before telling any device: an Apple device
+    // answers the push by asking which passes changed since its last sync,
+    // and that's read from content_updated_at.
+    const changed: { pass: WalletPass; content: PassContent }[] = []
+    for (const pass of passes) {
+      const registration = registrations.get(pass.registration_id)
+      if (!registration?.checkin_token) continue
+      result.checked++
+      const content = buildPassContent({ registration, event, program }, appUrl)
+      if (passContentHash(content) === pass.content_hash) continue
+      try {
+        changed.push({ pass: await recordPassContent(db, pass, content, {}, now), content })
+      } catch {
+        result.failed++
+      }
+    }
+    result.changed += changed.length
+    if (changed.length === 0) continue
+
+    const appleSerials = changed.filter((c) => c.pass.apple_issued_at).map((c) => c.pass.id)
+    if (config.apple && appleSerials.length > 0) {
+      const { data: devices, error } = await db
+        .from("wallet_pass_devices")
+        .select("push_token")
+        .eq("pass_type_identifier", config.apple.passTypeIdentifier)
+        .in("serial_number", appleSerials)
+      if (error) throw error
+      const push = await pushPassUpdates(
+        config.apple,
+        (devices || []).map((d: { push_token: string }) => d.push_token)
+      )
+      result.apple_pushed += push.sent
+      result.failed += push.failed
+      if (push.unregistered.length > 0) {
+        await db.from("wallet_pass_devices").delete().in("push_token", push.unregistered)
+        result.apple_unregistered += push.unregistered.length
+      }
+    }
+
+    const google = changed.filter((c) => c.pass.google_issued_at)
+    if (config.google && google.length > 0) {
+      const identity = { issuerId: config.google.issuerId, organizationName: config.organizationName }
+      const sync = await syncGoogleObjects(
+        config.google,
+        [buildGoogleEventClass(google[0].content, identity)],
+        google.map((c) =>
+          buildGoogleEventObject(c.content, { issuerId: config.google!.issuerId, registrationId: c.pass.registration_id })
+        )
+      )
+      result.google_updated += sync.updated
+      result.failed += sync.failed
+    }
+  }
+  return result
+}
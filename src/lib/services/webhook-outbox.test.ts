@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createSupabaseMock } from "@/test/helpers/supabase-mock"
+import { endpointWantsEvent, webhookRetryDelayMs } from "@/lib/webhook-events"
+import {
+  attemptDelivery,
+  enqueueWebhook,
+  replayWebhook,
+  type WebhookOutboxRow,
+} from "./webhook-outbox"
+
+const postWebhook = vi.fn()
+const assertPublicHttpUrl = vi.fn()
+
+vi.mock("@/lib/services/webhook", () => ({
+  postWebhook: (...args: unknown[]) => postWebhook(...args),
+  assertPublicHttpUrl: (...args: unknown[]) => assertPublicHttpUrl(...args),
+}))
+
+const NOW = new Date("2026-10-19T10:00:00Z")
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+
+const ROW: WebhookOutboxRow = {
+  id: "ob1",
+  event_id: EVENT_ID,
+  endpoint_id: "ep1",
+  target_url: "https://crm.example.com/hook",
+  event_type: "registration.created",
+  payload: { event: "registration.created", data: { event_id: EVENT_ID } },
+  status: "pending",
+  attempts: 0,
+  next_attempt_at: NOW.toISOString(),
+}
+
+const ENDPOINT = { url: ROW.target_url, secret: "whsec_abc", headers: {}, is_active: true }
+
+let mock: ReturnType<typeof createSupabaseMock>
+
+beforeEach(() => {
+  mock = createSupabaseMock()
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] })
+  postWebhook.mockReset().mockResolvedValue({ success: true, statusCode: 200, response: { ok: true }, durationMs: 42 })
+  assertPublicHttpUrl.mockReset().mockResolvedValue(undefined)
+  delete process.env.WEBHOOK_URLS
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+function outboxUpdates() {
+  return mock.calls
+    .filter((c) => c.table === "webhook_outbox" && c.method === "update")
+    .map((c) => c.args[0] as Record<string, unknown>)
+}
+
+describe("retry policy", () => {
+  it("doubles the wait after each failure until attempts run out", () => {
+    expect(webhookRetryDelayMs(1)).toBe(5 * 60 * 1000)
+    expect(webhookRetryDelayMs(2)).toBe(10 * 60 * 1000)
+    expect(webhookRetryDelayMs(7)).toBe(320 * 60 * 1000)
+    expect(webhookRetryDelayMs(8)).toBeNull()
+  })
+
+  it("sends everything to endpoints without subscriptions but never broadcasts tests", () => {
+    expect(endpointWantsEvent([], "booking.created")).toBe(true)
+    expect(endpointWantsEvent(["message.sent"], "booking.created")).toBe(false)
+    expect(endpointWantsEvent([], "webhook.test")).toBe(false)
+  })
+})
+
+describe("enqueueWebhook", () => {
+  it("queues one row per subscribed endpoint plus deployment-wide URLs", async () => {
+    process.env.WEBHOOK_URLS = "https://hooks.example.com/a"
+    mock.queueResponse("webhook_endpoints", {
+      data: [
+        { id: "ep1", url: "https://crm.example.com/hook", event_types: ["registration.created"] },
+        { id: "ep2", url: "https://chat.example.com/hook", event_types: ["message.sent"] },
+        { id: "ep3", url: "https://all.example.com/hook", event_types: [] },
+      ],
+      error: null,
+    })
+
+    await enqueueWebhook(
+      mock.client,
+      { eventId: EVENT_ID, eventType: "registration.created", payload: ROW.payload, deploymentWide: true },
+      NOW
+    )
+
+    const insert = mock.calls.find((c) => c.table === "webhook_outbox" && c.method === "insert")!.args[0] as any[]
+    expect(insert.map((r) => [r.endpoint_id, r.target_url])).toEqual([
+      ["ep1", "https://crm.example.com/hook"],
+      ["ep3", "https://all.example.com/hook"],
+      [null, "https://hooks.example.com/a"],
+    ])
+    expect(insert[0]).toMatchObject({ status: "pending", attempts: 0, next_attempt_at: NOW.toISOString() })
+  })
+
+  it("queues nothing when no endpoint is listening", async () => {
+    mock.queueResponse("webhook_endpoints", {
+      data: [{ id: "ep2", url: "https://chat.example.com/hook", event_types: ["message.sent"] }],
+      error: null,
+    })
+
+    const rows = await enqueueWebhook(mock.client, { eventId: EVENT_ID, eventType: "booking.created", payload: {} }, NOW)
+
+    expect(rows).toEqual([])
+    expect(mock.calls.some((c) => c.table === "webhook_outbox")).toBe(false)
+  })
+})
+
+describe("attemptDelivery", () => {
+  it("signs with the endpoint secret and records a successful attempt", async () => {
+    mock.queueResponse("webhook_outbox", { data: [{ id: "ob1" }], error: null })
+    mock.queueResponse("webhook_endpoints", { data: ENDPOINT, error: null })
+
+    const ok = await attemptDelivery(mock.client, ROW, "auto", NOW)
+
+    expect(ok).toBe(true)
+    const [config, body, headers] = postWebhook.mock.calls[0]
+    expect(config).toMatchObject({ url: ROW.target_url, secret: "whsec_abc" })
+    expect(JSON.parse(body)).toEqual(ROW.payload)
+    expect(headers).toMatchObject({ "X-Webhook-Event": "registration.created", "X-Webhook-Attempt": "1" })
+
+    const attempt = mock.calls.find((c) => c.table === "webhook_deliveries" && c.method === "insert")!.args[0]
+    expect(attempt).toMatchObject({ outbox_id: "ob1", attempt: 1, success: true, status_code: 200, duration_ms: 42, trigger: "auto" })
+    expect(outboxUpdates()[1]).toMatchObject({ status: "delivered", attempts: 1, next_attempt_at: null })
+  })
+
+  it("schedules the next attempt with backoff when the receiver fails", async () => {
+    postWebhook.mockResolvedValue({ success: false, statusCode: 503, error: "HTTP 503", durationMs: 10 })
+    mock.queueResponse("webhook_outbox", { data: [{ id: "ob1" }], error: null })
+    mock.queueResponse("webhook_endpoints", { data: ENDPOINT, error: null })
+
+    const ok = await attemptDelivery(mock.client, { ...ROW, attempts: 2 }, "auto", NOW)
+
+    expect(ok).toBe(false)
+    expect(outboxUpdates()[1]).toEqual({
+      status: "pending",
+      attempts: 3,
+      last_status_code: 503,
+      last_error: "HTTP 503",
+      next_attempt_at: "2026-10-19T10:20:00.000Z",
+    })
+  })
+
+  it("gives up after the last attempt", async () => {
+    postWebhook.mockResolvedValue({ success: false, error: "Request timed out" })
+    mock.queueResponse("webhook_outbox", { data: [{ id: "ob1" }], error: null })
+    mock.queueResponse("webhook_endpoints", { data: ENDPOINT, error: null })
+
+    await attemptDelivery(mock.client, { ...ROW, attempts: 7 }, "auto", NOW)
+
+    expect(outboxUpdates()[1]).toMatchObject({ status: "failed", attempts: 8, next_attempt_at: null })
+  })
+
+  it("fails straight away, without sending, when the endpoint is disabled", async () => {
+    mock.queueResponse("webhook_outbox", { data: [{ id: "ob1" }], error: null })
+    mock.queueResponse("webhook_endpoints", { data: { ...ENDPOINT, is_active: false }, error: null })
+
+    await attemptDelivery(mock.client, ROW, "auto", NOW)
+
+    expect(postWebhook).not.toHaveBeenCalled()
+    expect(outboxUpdates()[1]).toMatchObject({ status: "failed", last_error: "Endpoint is disabled" })
+  })
+
+  it("leaves a row alone when another worker has already claimed it", async () => {
+    mock.queueResponse("webhook_outbox", { data: [], error: null })
+
+    const ok = await attemptDelivery(mock.client, ROW, "auto", NOW)
+
+    expect(ok).toBe(false)
+    expect(postWebhook).not.toHaveBeenCalled()
+    expect(mock.calls).toContainEqual({ table: "webhook_outbox", method: "eq", args: ["status", "pending"] })
+  })
+})
+
+describe("replayWebhook", () => {
+  it("resends a failed row regardless of its schedule", async () => {
+    mock.queueResponse("webhook_outbox", { data: { ...ROW, status: "failed", attempts: 8, next_attempt_at: null }, error: null })
+    mock.queueResponse("webhook_outbox", { data: [{ id: "ob1" }], error: null })
+    mock.queueResponse("webhook_endpoints", { data: ENDPOINT, error: null })
+
+    const result = await replayWebhook(mock.client, "ob1", EVENT_ID)
+
+    expect(result).toEqual({ found: true, delivered: true })
+    expect(mock.calls).not.toContainEqual({ table: "webhook_outbox", method: "eq", args: ["status", "pending"] })
+    const attempt = mock.calls.find((c) => c.table === "webhook_deliveries" && c.method === "insert")!.args[0]
+    expect(attempt).toMatchObject({ attempt: 9, trigger: "replay" })
+  })
+
+  it("only replays rows that belong to the event", async () => {
+    mock.queueResponse("webhook_outbox", { data: null, error: null })
+
+    expect(await replayWebhook(mock.client, "ob1", EVENT_ID)).toEqual({ found: false, delivered: false })
+    expect(mock.calls).toContainEqual({ table: "webhook_outbox", method: "eq", args: ["event_id", EVENT_ID] })
+  })
+})
@@ -0,0 +1,352 @@
+/**
+ * Webhook Outbox
+ *
+ * Every outgoing webhook is written to webhook_outbox (one row per endpoint)
+ * before it is sent, and every attempt is recorded in webhook_deliveries.
+ * The first attempt happens inline when the event fires; failures are
+ * retried with exponential backoff by the webhook-deliveries cron until
+ * WEBHOOK_MAX_ATTEMPTS is reached, after which the row is marked failed and
+ * can be replayed from the webhook settings page.
+ *
+ * Targets are the event's webhook_endpoints (filtered by their event-type
+ * subscriptions) plus any deployment-wide URLs from WEBHOOK_URLS.
+ */
+
+import crypto from "crypto"
+import {
+  endpointWantsEvent,
+  isWebhookEventType,
+  webhookRetryDelayMs,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from "@/lib/webhook-events"
+import { assertPublicHttpUrl, postWebhook, type WebhookConfig } from "@/lib/services/webhook"
+
+export interface WebhookEndpoint {
+  id: string
+  event_id: string
+  url: string
+  description: string | null
+  secret: string | null
+  headers: Record<string, string> | null
+  event_types: string[]
+  is_active: boolean
+}
+
+export interface WebhookOutboxRow {
+  id: string
+  event_id: string
+  endpoint_id: string | null
+  target_url: string
+  event_type: string
+  payload: Record<string, unknown>
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string | null
+}
+
+export const ENDPOINT_COLUMNS =
+  "id, event_id, url, description, secret, headers, event_types, is_active, created_at, updated_at"
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`
+}
+
+// Secrets are only shown in full when an endpoint is created or rotated
+export function maskEndpoint<T extends { secret: string | null }>(endpoint: T): T {
+  return { ...endpoint, secret: endpoint.secret ? `whsec_••••${endpoint.secret.slice(-4)}` : null }
+}
+
+export function cleanEventTypes(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return [...new Set(value.filter((t): t is string => typeof t === "string" && isWebhookEventType(t) && t !== "webhook.test"))]
+}
+
+export type DeliveryTrigger = "auto" | "replay"
+
+// How long a claimed row is left alone by other workers while it's being sent
+const CLAIM_LEASE_MS = 2 * 60 * 1000
+
+const MAX_RESPONSE_BODY = 2000
+
+/**
+ * Deployment-wide webhook URLs from the environment.
+ * Format: WEBHOOK_URL_1, WEBHOOK_URL_2, etc. or comma-separated WEBHOOK_URLS
+ */
+export function deploymentWebhookUrls(): string[] {
+  const urls: string[] = []
+
+  // Check for comma-separated URLs
+  if (process.env.WEBHOOK_URLS) {
+    urls.push(...process.env.WEBHOOK_URLS.split(",").map(u => u.trim()).filter(Boolean))
+  }
+
+  // Check for individual URLs
+  for (let i = 1; i <= 5; i++) {
+    const url = process.env[`WEBHOOK_URL_${i}`]
+    if (url) urls.push(url)
+  }
+
+  // Boost.space specific
+  if (process.env.BOOSTSPACE_WEBHOOK_URL) {
+    urls.push(process.env.BOOSTSPACE_WEBHOOK_URL)
+  }
+
+  return [...new Set(urls)] // Remove duplicates
+}
+
+export interface EnqueueParams {
+  eventId: string
+  eventType: WebhookEventType
+  payload: Record<string, unknown>
+  // Restrict the fan-out to one endpoint (test deliveries)
+  endpointId?: string
+  // Also send to the WEBHOOK_URLS integrations
+  deploymentWide?: boolean
+}
+
+/**
+ * Write one outbox row per target.
+ */
+export async function enqueueWebhook(db: any, params: EnqueueParams, now = new Date()): Promise<WebhookOutboxRow[]> {
+  const { eventId, eventType, payload, endpointId, deploymentWide } = params
+
+  let query = db
+    .from("webhook_endpoints")
+    .select("id, url, event_types")
+    .eq("event_id", eventId)
+    .eq("is_active", true)
+  if (endpointId) query = query.eq("id", endpointId)
+
+  const { data: endpoints, error } = await query
+  if (error) throw new Error(`Failed to load webhook endpoints: ${error.message}`)
+
+  const targets: Array<{ endpoint_id: string | null; target_url: string }> = (
+    (endpoints || []) as Array<Pick<WebhookEndpoint, "id" | "url" | "event_types">>
+  )
+    .filter((e) => endpointId || endpointWantsEvent(e.event_types, eventType))
+    .map((e) => ({ endpoint_id: e.id, target_url: e.url }))
+
+  if (deploymentWide && !endpointId) {
+    for (const url of deploymentWebhookUrls()) {
+      targets.push({ endpoint_id: null, target_url: url })
+    }
+  }
+
+  if (targets.length === 0) return []
+
+  const { data: rows, error: insertError } = await db
+    .from("webhook_outbox")
+    .insert(
+      targets.map((t) => ({
+        ...t,
+        event_id: eventId,
+        event_type: eventType,
+        payload,
+        status: "pending",
+        attempts: 0,
+        next_attempt_at: now.toISOString(),
+      }))
+    )
+    .select("id, event_id, endpoint_id, target_url, event_type, payload, status, attempts, next_attempt_at")
+
+  if (insertError) throw new Error(`Failed to queue webhook: ${insertError.message}`)
+  return rows || []
+}
+
+/**
+ * Queue an event and make the first delivery attempt right away. Never
+ * throws — a webhook problem must not fail the request that caused it.
+ */
+export async function dispatchWebhook(db: any, params: EnqueueParams): Promise<WebhookOutboxRow[]> {
+  try {
+    const rows = await enqueueWebhook(db, params)
+    await Promise.allSettled(rows.map((row) => attemptDelivery(db, row, "auto")))
+    return rows
+  } catch (error) {
+    console.error(`[WebhookOutbox] Failed to dispatch ${params.eventType}:`, error)
+    return []
+  }
+}
+
+/**
+ * Whether any of the event's active endpoints would receive this event type.
+ * Lets bulk senders skip queueing per recipient when nobody is listening.
+ */
+export async function hasWebhookSubscribers(db: any, eventId: string, eventType: WebhookEventType): Promise<boolean> {
+  const { data } = await db
+    .from("webhook_endpoints")
+    .select("event_types")
+    .eq("event_id", eventId)
+    .eq("is_active", true)
+  return ((data || []) as Array<{ event_types: string[] }>).some((e) => endpointWantsEvent(e.event_types, eventType))
+}
+
+async function resolveConfig(db: any, row: WebhookOutboxRow): Promise<WebhookConfig | { error: string }> {
+  if (!row.endpoint_id) {
+    // Deployment-wide URLs are configured by whoever runs the deployment
+    return { url: row.target_url, secret: process.env.WEBHOOK_SECRET || undefined }
+  }
+
+  const { data: endpoint } = await db
+    .from("webhook_endpoints")
+    .select("url, secret, headers, is_active")
+    .eq("id", row.endpoint_id)
+    .maybeSingle()
+
+  if (!endpoint) return { error: "Endpoint was deleted" }
+  if (!endpoint.is_active) return { error: "Endpoint is disabled" }
+
+  try {
+    await assertPublicHttpUrl(endpoint.url)
+  } catch (err: any) {
+    return { error: err.message }
+  }
+
+  return { url: endpoint.url, secret: endpoint.secret || undefined, headers: endpoint.headers || {} }
+}
+
+/**
+ * Make one delivery attempt for an outbox row and record it. Returns true
+ * if the receiver accepted it.
+ *
+ * The row is claimed first (pushing next_attempt_at out by a short lease)
+ * so the cron and an inline attempt never send the same row twice.
+ */
+export async function attemptDelivery(
+  db: any,
+  row: WebhookOutboxRow,
+  trigger: DeliveryTrigger,
+  now = new Date()
+): Promise<boolean> {
+  let claim = db
+    .from("webhook_outbox")
+    .update({ status: "pending", next_attempt_at: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString() })
+    .eq("id", row.id)
+  if (trigger === "auto") {
+    claim = claim.eq("status", "pending").lte("next_attempt_at", now.toISOString())
+  }
+  const { data: claimed } = await claim.select("id")
+  if (!claimed || claimed.length === 0) return false
+
+  const attempt = row.attempts + 1
+  const config = await resolveConfig(db, row)
+
+  let result: { success: boolean; statusCode?: number; error?: string; response?: unknown; durationMs?: number }
+  if ("error" in config) {
+    result = { success: false, error: config.error }
+  } else {
+    result = await postWebhook(config, JSON.stringify(row.payload), {
+      "X-Webhook-Event": row.event_type,
+      "X-Webhook-Delivery": row.id,
+      "X-Webhook-Attempt": String(attempt),
+    })
+  }
+
+  const responseBody =
+    result.response === undefined || result.response === null
+      ? null
+      : (typeof result.response === "string" ? result.response : JSON.stringify(result.response)).slice(0, MAX_RESPONSE_BODY)
+
+  await db.from("webhook_deliveries").insert({
+    outbox_id: row.id,
+    attempt,
+    success: result.success,
+    status_code: result.statusCode ?? null,
+    error: result.error ?? null,
+    response_body: responseBody,
+    duration_ms: result.durationMs ?? null,
+    trigger,
+    attempted_at: now.toISOString(),
+  })
+
+  const finishedAt = new Date()
+  const retryDelay = result.success ? null : webhookRetryDelayMs(attempt)
+
+  await db
+    .from("webhook_outbox")
+    .update(
+      result.success
+        ? {
+            status: "delivered",
+            attempts: attempt,
+            last_status_code: result.statusCode ?? null,
+            last_error: null,
+            delivered_at: finishedAt.toISOString(),
+            next_attempt_at: null,
+          }
+        : {
+            // A disabled or deleted endpoint won't recover by waiting
+            status: retryDelay === null || "error" in config ? "failed" : "pending",
+            attempts: attempt,
+            last_status_code: result.statusCode ?? null,
+            last_error: result.error ?? null,
+            next_attempt_at:
+              retryDelay === null || "error" in config ? null : new Date(finishedAt.getTime() + retryDelay).toISOString(),
+          }
+    )
+    .eq("id", row.id)
+
+  if (!result.success) {
+    console.error(`[WebhookOutbox] ${row.event_type} to ${row.target_url} failed (attempt ${attempt}): ${result.error}`)
+  }
+
+  return result.success
+}
+
+export interface ProcessResult {
+  attempted: number
+  delivered: number
+  failed: number
+}
+
+/**
+ * Retry every pending row that's due, for the given events. Called by the
+ * webhook-deliveries cron.
+ */
+export async function processDueWebhooks(
+  db: any,
+  eventIds: string[],
+  now = new Date(),
+  limit = 200
+): Promise<ProcessResult> {
+  const result: ProcessResult = { attempted: 0, delivered: 0, failed: 0 }
+  if (eventIds.length === 0) return result
+
+  const { data: rows, error } = await db
+    .from("webhook_outbox")
+    .select("id, event_id, endpoint_id, target_url, event_type, payload, status, attempts, next_attempt_at")
+    .in("event_id", eventIds)
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load due webhooks: ${error.message}`)
+
+  for (const row of (rows || []) as WebhookOutboxRow[]) {
+    result.attempted++
+    if (await attemptDelivery(db, row, "auto", now)) result.delivered++
+    else result.failed++
+  }
+
+  return result
+}
+
+/**
+ * Send an outbox row again now, whatever its state. Counts as one more
+ * attempt; if it fails and attempts remain, the cron keeps retrying.
+ */
+export async function replayWebhook(db: any, outboxId: string, eventId: string): Promise<{ found: boolean; delivered: boolean }> {
+  const { data: row } = await db
+    .from("webhook_outbox")
+    .select("id, event_id, endpoint_id, target_url, event_type, payload, status, attempts, next_attempt_at")
+    .eq("id", outboxId)
+    .eq("event_id", eventId)
+    .maybeSingle()
+
+  if (!row) return { found: false, delivered: false }
+
+  const delivered = await attemptDelivery(db, row, "replay")
+  return { found: true, delivered }
+}
@@ -4,7 +4,14 @@
  */
 
 import crypto from "crypto"
+import dns from "dns/promises"
+import net from "net"
 import { COMPANY_CONFIG } from "@/lib/config"
+import { fetchWithTimeout } from "@/lib/fetch-with-timeout"
+
+// A receiver that accepts the connection but never answers must not hold up
+// the request that triggered the webhook
+const WEBHOOK_TIMEOUT_MS = 10000
 
 export interface WebhookConfig {
   url: string
@@ -17,6 +24,7 @@ export interface SendResult {
   statusCode?: number
   response?: any
   error?: string
+  durationMs?: number
 }
 
 export interface WebhookPayload {
@@ -48,45 +56,63 @@ export async function sendWebhook(
     return { success: false, error: "Webhook URL is required" }
   }
 
-  // Prepare headers
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    "User-Agent": `${COMPANY_CONFIG.name}-Communications/1.0`,
-    ...config.headers,
-  }
-
   // Add timestamp to payload
   const fullPayload = {
     ...payload,
     timestamp: payload.timestamp || new Date().toISOString(),
   }
 
-  const bodyString = JSON.stringify(fullPayload)
+  return postWebhook(config, JSON.stringify(fullPayload))
+}
+
+/**
+ * POST an already-serialised body to a webhook URL, signed with the
+ * config's secret. The signature covers the exact bytes sent, so receivers
+ * check it with verifyWebhookSignature before parsing.
+ */
+export async function postWebhook(
+  config: WebhookConfig,
+  bodyString: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<SendResult> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": `${COMPANY_CONFIG.name}-Communications/1.0`,
+    ...config.headers,
+    ...extraHeaders,
+  }
 
   // Add signature if secret is provided
   if (config.secret) {
-    const signature = generateSignature(bodyString, config.secret)
+    const signature = signWebhookPayload(bodyString, config.secret)
     headers["X-Webhook-Signature"] = signature
     headers["X-Webhook-Signature-256"] = `sha256=${signature}`
   }
 
+  const startedAt = Date.now()
   try {
-    const response = await fetch(config.url, {
-      method: "POST",
-      headers,
-      body: bodyString,
-    })
+    const response = await fetchWithTimeout(
+      config.url,
+      {
+        method: "POST",
+        redirect: "manual", // a redirect could point somewhere we haven't vetted
+        headers,
+        body: bodyString,
+      },
+      WEBHOOK_TIMEOUT_MS
+    )
 
     let responseBody: any = null
     try {
-      responseBody = await response.json()
-    } catch {
-      // Response may not be JSON
+      const text = await response.text()
       try {
-        responseBody = await response.text()
+        responseBody = JSON.parse(text)
       } catch {
-        // Ignore if we can't read the body
+        // Response may not be JSON
+        responseBody = text
       }
+    } catch {
+      // Ignore if we can't read the body
     }
 
     return {
@@ -94,11 +120,15 @@ export async function sendWebhook(
       statusCode: response.status,
       response: responseBody,
       error: response.ok ? undefined : `HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt,
     }
   } catch (error: any) {
     return {
       success: false,
-      error: error.message || "Webhook request failed",
+      error: error?.name === "AbortError"
+        ? `Timed out after ${WEBHOOK_TIMEOUT_MS / 1000}s`
+        : error.message || "Webhook request failed",
+      durationMs: Date.now() - startedAt,
     }
   }
 }
@@ -106,7 +136,7 @@ export async function sendWebhook(
 /**
  * Generate HMAC-SHA256 signature
  */
-function generateSignature(payload: string, secret: string): string {
+export function signWebhookPayload(payload: string, secret: string): string {
   return crypto
     .createHmac("sha256", secret)
     .update(payload, "utf8")
@@ -121,13 +151,16 @@ export function verifyWebhookSignature(
   signature: string,
   secret: string
 ): boolean {
-  const expectedSignature = generateSignature(payload, secret)
+  const expectedSignature = signWebhookPayload(payload, secret)
 
   // Handle both "sha256=xxx" format and raw signature
   const cleanSignature = signature.startsWith("sha256=")
     ? signature.slice(7)
     : signature
 
+  // timingSafeEqual throws on a length mismatch
+  if (cleanSignature.length !== expectedSignature.length) return false
+
   return crypto.timingSafeEqual(
     Buffer.from(expectedSignature),
     Buffer.from(cleanSignature)
@@ -187,3 +220,58 @@ export async function testWebhook(config: WebhookConfig): Promise<SendResult> {
     },
   })
 }
+
+/**
+ * Blocks SSRF: only plain http(s) URLs whose hostname resolves exclusively
+ * to public IPs may be fetched. Checks the *resolved* address, not just the
+ * literal string, so a hostname that DNS-rebinds to an internal address
+ * (e.g. cloud metadata) is still caught, not just a literal
+ * 169.254.x.x/localhost.
+ */
+export async function assertPublicHttpUrl(rawUrl: string): Promise<void> {
+  let parsed: URL
+  try {
+    parsed = new URL(rawUrl)
+  } catch {
+    throw new Error("Invalid URL")
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Only http/https URLs are allowed")
+  }
+
+  const hostname = parsed.hostname
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.lookup(hostname, { all: true })).map((a) => a.address)
+
+  if (addresses.some(isPrivateOrReservedIp)) {
+    throw new Error("URL resolves to a private/internal address")
+  }
+}
+
+function isPrivateOrReservedIp(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number)
+    return (
+      a === 10 ||
+      a === 127 ||
+      a === 0 ||
+      (a === 169 && b === 254) || // link-local + cloud metadata (169.254.169.254)
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127) || // CGNAT
+      a >= 224 // multicast + reserved
+    )
+  }
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase()
+    if (normalized === "::1" || normalized === "::") return true
+    if (normalized.startsWith("fc") || normalized.startsWith("fd")) return true // ULA fc00::/7
+    if (/^fe[89ab]/.test(normalized)) return true // link-local fe80::/10
+    if (normalized.startsWith("::ffff:")) {
+      const embeddedV4 = normalized.split(":").pop()!
+      return net.isIPv4(embeddedV4) && isPrivateOrReservedIp(embeddedV4)
+    }
+  }
+  return false
+}
@@ -0,0 +1,200 @@
+/**
+ * Welcome Messages
+ *
+ * The welcome WhatsApp (delegate portal link) and welcome email
+ * (registration confirmation) sent to delegates who were added by an admin
+ * rather than through checkout — manual resends and bulk imports. Each send is
+ * stamped on registrations.custom_fields (welcome_whatsapp_sent /
+ * welcome_email_sent) so the registrations list can show it and a batch can
+ * resume without sending anyone the same message twice.
+ */
+
+import { internalSecretHeaders } from "@/lib/env"
+import { isGallaboxEnabled, sendGallaboxTemplate } from "@/lib/gallabox"
+import { isQikchatEnabled, sendQikchatTemplate, QIKCHAT_TEMPLATE_WELCOME } from "@/lib/qikchat"
+import { isPlaceholderEmail } from "@/lib/registration-import"
+
+export type WelcomeChannel = "email" | "whatsapp"
+
+export const WELCOME_CHANNELS: WelcomeChannel[] = ["email", "whatsapp"]
+
+export interface WelcomeRegistration {
+  id: string
+  event_id: string
+  registration_number: string
+  attendee_name: string | null
+  attendee_email: string | null
+  attendee_phone: string | null
+  total_amount?: number | null
+  payment_status?: string | null
+  custom_fields: Record<string, any> | null
+  ticket_types?: { name: string } | null
+}
+
+export interface WelcomeEvent {
+  name: string
+  short_name: string | null
+  start_date?: string | null
+  venue_name?: string | null
+}
+
+export interface WelcomeResult {
+  success: boolean
+  /** Nothing was attempted: no phone, placeholder email, or already sent. */
+  skipped?: boolean
+  messageId?: string
+  error?: string
+}
+
+export function welcomeAlreadySent(registration: Pick<WelcomeRegistration, "custom_fields">, channel: WelcomeChannel): boolean {
+  return registration.custom_fields?.[`welcome_${channel}_sent`] === true
+}
+
+/**
+ * Whether a channel can reach this registration at all.
+ */
+export function canSendWelcome(
+  registration: Pick<WelcomeRegistration, "attendee_email" | "attendee_phone">,
+  channel: WelcomeChannel
+): boolean {
+  return channel === "whatsapp" ? !!registration.attendee_phone : !isPlaceholderEmail(registration.attendee_email)
+}
+
+export function isWhatsAppConfigured(): boolean {
+  return isQikchatEnabled() || isGallaboxEnabled()
+}
+
+async function stampWelcome(db: any, registration: WelcomeRegistration, channel: WelcomeChannel, result: WelcomeResult) {
+  const now = new Date().toISOString()
+  const fields = result.success
+    ? { [`welcome_${channel}_sent`]: true, [`welcome_${channel}_sent_at`]: now, [`welcome_${channel}_error`]: null }
+    : { [`welcome_${channel}_error`]: result.error || "Failed" }
+  registration.custom_fields = { ...(registration.custom_fields || {}), ...fields }
+  await db.from("registrations").update({ custom_fields: registration.custom_fields }).eq("id", registration.id)
+}
+
+/**
+ * Welcome WhatsApp with the delegate portal link. Prefers Qikchat
+ * (`technosurg_welcome`) and falls back to Gallabox (`delegate_login`).
+ */
+export async function sendWelcomeWhatsApp(
+  db: any,
+  registration: WelcomeRegistration,
+  event: WelcomeEvent
+): Promise<WelcomeResult> {
+  if (!registration.attendee_phone) return { success: false, skipped: true, error: "Attendee phone not available" }
+
+  const eventName = event.short_name || event.name || "Event"
+  const attendeeName = registration.attendee_name || "Delegate"
+  const baseUrl = (process.env.NEXT_PUBLIC_APP_URL || "").trim().replace(/\/$/, "")
+  // Prefill /my with the phone so taps from the link land on their registration.
+  const portalUrl = `${baseUrl}/my?q=${encodeURIComponent(registration.attendee_phone)}`
+
+  let result: { success: boolean; messageId?: string; error?: string }
+  let providerUsed: string
+  let templateUsed: string
+  if (isQikchatEnabled()) {
+    providerUsed = "qikchat"
+    templateUsed = QIKCHAT_TEMPLATE_WELCOME
+    result = await sendQikchatTemplate(
+      registration.attendee_phone,
+      QIKCHAT_TEMPLATE_WELCOME,
+      [attendeeName, eventName, registration.registration_number, portalUrl]
+    )
+  } else {
+    providerUsed = "gallabox"
+    templateUsed = "delegate_login"
+    result = await sendGallaboxTemplate(
+      registration.attendee_phone,
+      attendeeName,
+      "delegate_login",
+      { Delegate_Name: attendeeName, Event_Name: eventName, Portal_URL: portalUrl }
+    )
+  }
+
+  // Same shape as /api/whatsapp/send
+  try {
+    await db.from("message_logs").insert({
+      event_id: registration.event_id,
+      registration_id: registration.id,
+      channel: "whatsapp",
+      provider: providerUsed,
+      recipient: registration.attendee_phone,
+      recipient_name: attendeeName,
+      subject: null,
+      message_body: `Template: ${templateUsed}`,
+      status: result.success ? "sent" : "failed",
+      provider_message_id: result.messageId || null,
+      error_message: result.error || null,
+      sent_at: result.success ? new Date().toISOString() : null,
+      failed_at: result.success ? null : new Date().toISOString(),
+    })
+  } catch (logError) {
+    console.error("[welcome-messages] Failed to log WhatsApp message:", (logError as Error).message)
+  }
+
+  await stampWelcome(db, registration, "whatsapp", result)
+  return result
+}
+
+/**
+ * Welcome email: the event's registration confirmation template, sent through
+ * /api/email/registration-confirmation like every other confirmation.
+ */
+export async function sendWelcomeEmail(
+  db: any,
+  registration: WelcomeRegistration,
+  event: WelcomeEvent
+): Promise<WelcomeResult> {
+  if (isPlaceholderEmail(registration.attendee_email)) {
+    return { success: false, skipped: true, error: "No email address" }
+  }
+
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+  let result: WelcomeResult
+  try {
+    const res = await fetch(`${baseUrl}/api/email/registration-confirmation`, {
+      method: "POST",
+      headers: internalSecretHeaders(),
+      body: JSON.stringify({
+        registration_id: registration.id,
+        registration_number: registration.registration_number,
+        attendee_name: registration.attendee_name,
+        attendee_email: registration.attendee_email,
+        event_id: registration.event_id,
+        event_name: event.name,
+        event_date: event.start_date || "",
+        event_venue: event.venue_name || "",
+        ticket_name: registration.ticket_types?.name || "",
+        quantity: 1,
+        total_amount: registration.total_amount || 0,
+        payment_method: "import",
+        payment_status: registration.payment_status || "completed",
+      }),
+    })
+    const body = await res.json().catch(() => ({}))
+    if (body.dev_mode) {
+      result = { success: false, error: "No email provider configured" }
+    } else if (res.ok && body.success !== false) {
+      result = { success: true, messageId: body.email_id }
+    } else {
+      result = { success: false, error: body.details || body.error || `HTTP ${res.status}` }
+    }
+  } catch (error) {
+    result = { success: false, error: (error as Error).message }
+  }
+
+  await stampWelcome(db, registration, "email", result)
+  return result
+}
+
+export function sendWelcome(
+  db: any,
+  channel: WelcomeChannel,
+  registration: WelcomeRegistration,
+  event: WelcomeEvent
+): Promise<WelcomeResult> {
+  return channel === "whatsapp"
+    ? sendWelcomeWhatsApp(db, registration, event)
+    : sendWelcomeEmail(db, registration, event)
+}
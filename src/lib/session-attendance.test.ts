@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildCmeTranscripts,
+  cmeCsvRows,
+  computeDwellMinutes,
+  creditsForDwell,
+  formatCmeTranscriptLines,
+  parseUploadedDoorScan,
+  replaceCmePlaceholders,
+  usesCmePlaceholders,
+  type AttendanceScan,
+  type AttendanceSession,
+} from "./session-attendance"
+
+const REG_A = "33333333-3333-3333-3333-333333333333"
+const REG_B = "44444444-4444-4444-4444-444444444444"
+const LIST = "22222222-2222-2222-2222-222222222222"
+const SCAN = "55555555-5555-5555-5555-555555555555"
+const S1 = "66666666-6666-6666-6666-666666666666"
+const S2 = "77777777-7777-7777-7777-777777777777"
+
+// 10:00-11:00 UTC, so the window with grace is 09:45-11:15.
+const WINDOW = {
+  opensAt: Date.parse("2026-10-20T09:45:00Z"),
+  closesAt: Date.parse("2026-10-20T11:15:00Z"),
+  endsAt: Date.parse("2026-10-20T11:00:00Z"),
+}
+
+function at(time: string) {
+  return `2026-10-20T${time}:00.000Z`
+}
+
+function scan(direction: "in" | "out", time: string, overrides: Partial<AttendanceScan> = {}): AttendanceScan {
+  return { session_id: S1, registration_id: REG_A, direction, scanned_at: at(time), ...overrides }
+}
+
+describe("parseUploadedDoorScan", () => {
+  it("maps a scan_log entry with a door direction", () => {
+    expect(
+      parseUploadedDoorScan({ scan_id: SCAN, list_id: LIST, registration_id: REG_A, door: "out", scanned_at: Date.parse(at("10:30")) })
+    ).toEqual({ scan_id: SCAN, checkin_list_id: LIST, registration_id: REG_A, direction: "out", scanned_at: at("10:30") })
+  })
+
+  it("drops entries without a door direction or with a bad id", () => {
+    expect(parseUploadedDoorScan({ scan_id: SCAN, list_id: LIST, registration_id: REG_A, scanned_at: 1 })).toBeNull()
+    expect(parseUploadedDoorScan({ scan_id: "x", list_id: LIST, registration_id: REG_A, door: "in", scanned_at: 1 })).toBeNull()
+    expect(parseUploadedDoorScan(null)).toBeNull()
+  })
+})
+
+describe("computeDwellMinutes", () => {
+  it("counts the time between an entry and an exit", () => {
+    expect(computeDwellMinutes([scan("out", "10:40"), scan("in", "10:10")], WINDOW)).toBe(30)
+  })
+
+  it("treats a repeat entry scan as the same visit", () => {
+    expect(computeDwellMinutes([scan("in", "10:00"), scan("in", "10:20"), scan("out", "10:30")], WINDOW)).toBe(30)
+  })
+
+  it("counts an entry with no exit until the scheduled end", () => {
+    expect(computeDwellMinutes([scan("in", "10:15")], WINDOW)).toBe(45)
+  })
+
+  it("ignores an exit with no entry before it", () => {
+    expect(computeDwellMinutes([scan("out", "10:30")], WINDOW)).toBe(0)
+  })
+
+  it("adds separate visits and clips them to the window", () => {
+    const scans = [scan("in", "09:00"), scan("out", "10:00"), scan("in", "10:50"), scan("out", "12:00")]
+    expect(computeDwellMinutes(scans, WINDOW)).toBe(15 + 25)
+  })
+})
+
+describe("creditsForDwell", () => {
+  it("pro-rates, rounds down to the cent, and caps at the full amount", () => {
+    expect(creditsForDwell(1.5, 45, 60)).toBe(1.12)
+    expect(creditsForDwell(1.5, 80, 60)).toBe(1.5)
+    expect(creditsForDwell(1.5, 0, 60)).toBe(0)
+    expect(creditsForDwell(0, 60, 60)).toBe(0)
+  })
+})
+
+describe("buildCmeTranscripts", () => {
+  const sessions: AttendanceSession[] = [
+    { id: S2, session_name: "Afternoon plenary", session_date: "2026-10-20", start_time: "14:00", end_time: "15:00" },
+    { id: S1, session_name: "Hernia masterclass", session_date: "2026-10-20", start_time: "10:00", end_time: "11:00" },
+  ]
+
+  it("weights each session's credits by dwell and totals them in programme order", () => {
+    const transcripts = buildCmeTranscripts({
+      sessions,
+      cme: [
+        { session_id: S1, cme_credits: "1.00", cme_category: "Category 1", accrediting_body: "TNMC" },
+        { session_id: S2, cme_credits: 2, cme_category: null, accrediting_body: null },
+      ],
+      scans: [
+        scan("in", "14:00", { session_id: S2 }),
+        scan("in", "10:00"),
+        scan("out", "10:30"),
+        scan("in", "10:00", { registration_id: REG_B }),
+        scan("out", "10:05", { registration_id: REG_B }),
+      ],
+      timezone: "UTC",
+    })
+
+    const a = transcripts.get(REG_A)!
+    expect(a.lines.map((l) => [l.session_name, l.dwell_minutes, l.credits_earned])).toEqual([
+      ["Hernia masterclass", 30, 0.5],
+      ["Afternoon plenary", 60, 2],
+    ])
+    expect(a.total_credits).toBe(2.5)
+    expect(a.lines[0].accrediting_body).toBe("TNMC")
+    expect(transcripts.get(REG_B)!.total_credits).toBe(0.08)
+  })
+
+  it("leaves out sessions without CME credits and delegates who earned nothing", () => {
+    const transcripts = buildCmeTranscripts({
+      sessions,
+      cme: [{ session_id: S1, cme_credits: 0, cme_category: null, accrediting_body: null }],
+      scans: [scan("in", "10:00"), scan("in", "14:00", { session_id: S2, registration_id: REG_B })],
+      timezone: "UTC",
+    })
+    expect(transcripts.size).toBe(0)
+  })
+
+  it("resolves session times in the event's timezone", () => {
+    const transcripts = buildCmeTranscripts({
+      sessions: [sessions[1]],
+      cme: [{ session_id: S1, cme_credits: 1, cme_category: null, accrediting_body: null }],
+      // 10:00-11:00 in Kolkata is 04:30-05:30 UTC.
+      scans: [scan("in", "04:30"), scan("out", "05:00")],
+      timezone: "Asia/Kolkata",
+    })
+    expect(transcripts.get(REG_A)!.lines[0].dwell_minutes).toBe(30)
+  })
+})
+
+describe("transcript formatting", () => {
+  it("renders one certificate line per session and a CSV row per delegate", () => {
+    const transcripts = buildCmeTranscripts({
+      sessions: [{ id: S1, session_name: "Hernia masterclass", session_date: "2026-10-20", start_time: "10:00", end_time: "11:00" }],
+      cme: [{ session_id: S1, cme_credits: 1.5, cme_category: null, accrediting_body: null }],
+      scans: [scan("in", "10:00")],
+      timezone: "UTC",
+    })
+    expect(formatCmeTranscriptLines(transcripts.get(REG_A)!)).toEqual(["20 Oct · Hernia masterclass · 1.50 credits"])
+    expect(formatCmeTranscriptLines(null)).toEqual([])
+    expect(replaceCmePlaceholders("{{cme_credits}} credits:\n{{cme_transcript}}", transcripts.get(REG_A)!)).toBe(
+      "1.50 credits:\n20 Oct · Hernia masterclass · 1.50 credits"
+    )
+    expect(replaceCmePlaceholders("{{cme_credits}}|{{cme_transcript}}", null)).toBe("0.00|")
+    expect(usesCmePlaceholders("Awarded {{cme_credits}} credits")).toBe(true)
+    expect(usesCmePlaceholders("{{name}}")).toBe(false)
+    expect(
+      cmeCsvRows([{ registration_id: REG_A, registration_number: "REG-1", attendee_name: "A", sessions: 1, total_credits: 1.5 }])
+    ).toEqual([["REG-1", "A", 1, "1.50"]])
+  })
+})
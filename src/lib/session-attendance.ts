@@ -0,0 +1,282 @@
+// Pure logic for hall-door attendance and CME credit: turning a delegate's
+// entry/exit scans for a session into time spent inside it, and weighting
+// the session's session_cme.cme_credits by that time. The DB reads live in
+// src/lib/services/session-attendance.ts.
+//
+// Where the scans come from: a session-purpose checkin_lists row is scanned
+// at the hall door by kiosk tablets (kiosk_stations.door_direction). An
+// entry tablet checks the delegate in as usual and records an "in" scan; an
+// exit tablet records an "out" scan instead of a check-in. Tablets upload
+// both through /api/kiosk/session-scans.
+//
+// Dwell rules, in order of how often they come up on the day:
+//  - an "in" followed by an "out" counts the time between them;
+//  - a repeat "in" while already inside is the same visit (people re-scan
+//    at the door) and changes nothing;
+//  - an "in" with no later "out" counts until the session's scheduled end
+//    -- most halls have no exit tablet at all;
+//  - an "out" with no "in" before it counts nothing: there's no evidence of
+//    when the delegate arrived.
+// Every stretch is clipped to the session's check-in window (scheduled time
+// plus the same grace computeSessionCheckinWindow gives the kiosk list), so
+// chatting at the door an hour later adds nothing.
+
+import { computeSessionCheckinWindow } from "@/lib/agenda-session-checkin-window"
+import { isValidUUID } from "@/lib/validation"
+
+export type DoorDirection = "in" | "out"
+
+export interface AttendanceScan {
+  session_id: string
+  registration_id: string
+  direction: DoorDirection
+  scanned_at: string
+}
+
+export interface AttendanceSession {
+  id: string
+  session_name: string | null
+  session_date: string | null
+  start_time: string | null
+  end_time: string | null
+}
+
+export interface SessionCmeWeight {
+  session_id: string
+  cme_credits: number | string | null
+  cme_category: string | null
+  accrediting_body: string | null
+}
+
+export interface CmeTranscriptLine {
+  session_id: string
+  session_name: string
+  session_date: string
+  start_time: string
+  end_time: string
+  dwell_minutes: number
+  session_minutes: number
+  credits_available: number
+  credits_earned: number
+  cme_category: string | null
+  accrediting_body: string | null
+}
+
+export interface CmeTranscript {
+  registration_id: string
+  lines: CmeTranscriptLine[]
+  total_credits: number
+}
+
+// Same grace computeSessionCheckinWindow's auto-provisioned kiosk list uses,
+// so the time that counts is exactly the time the door tablet accepts scans.
+export const ATTENDANCE_GRACE_MINUTES = 15
+
+// --- Upload parsing -----------------------------------------------------------
+
+export interface UploadedDoorScan {
+  scan_id: string
+  checkin_list_id: string
+  registration_id: string
+  direction: DoorDirection
+  scanned_at: string
+}
+
+// One entry of a tablet's /api/kiosk/session-scans upload -- a scan_log
+// entry with its `door` field set. Anything malformed is dropped.
+export function parseUploadedDoorScan(raw: unknown): UploadedDoorScan | null {
+  if (!raw || typeof raw !== "object") return null
+  const s = raw as Record<string, unknown>
+  if (typeof s.scan_id !== "string" || !isValidUUID(s.scan_id)) return null
+  if (typeof s.list_id !== "string" || !isValidUUID(s.list_id)) return null
+  if (typeof s.registration_id !== "string" || !isValidUUID(s.registration_id)) return null
+  if (s.door !== "in" && s.door !== "out") return null
+  const scannedAt = typeof s.scanned_at === "number" || typeof s.scanned_at === "string" ? new Date(s.scanned_at) : null
+  if (!scannedAt || isNaN(scannedAt.getTime())) return null
+  return {
+    scan_id: s.scan_id,
+    checkin_list_id: s.list_id,
+    registration_id: s.registration_id,
+    direction: s.door,
+    scanned_at: scannedAt.toISOString(),
+  }
+}
+
+// --- Dwell ---------------------------------------------------------------------
+
+interface SessionTimes {
+  startsAt: number
+  endsAt: number
+  opensAt: number
+  closesAt: number
+}
+
+function sessionTimes(session: AttendanceSession, timezone: string): SessionTimes | null {
+  if (!session.session_date || !session.start_time || !session.end_time) return null
+  const times = { session_date: session.session_date, start_time: session.start_time, end_time: session.end_time }
+  const scheduled = computeSessionCheckinWindow(times, timezone, 0)
+  const window = computeSessionCheckinWindow(times, timezone, ATTENDANCE_GRACE_MINUTES)
+  const startsAt = Date.parse(scheduled.opensAt)
+  const endsAt = Date.parse(scheduled.closesAt)
+  if (!(endsAt > startsAt)) return null
+  return { startsAt, endsAt, opensAt: Date.parse(window.opensAt), closesAt: Date.parse(window.closesAt) }
+}
+
+// Minutes inside the window covered by one delegate's scans for one
+// session, per the rules in the module comment. `scans` may be unsorted.
+export function computeDwellMinutes(
+  scans: Pick<AttendanceScan, "direction" | "scanned_at">[],
+  window: { opensAt: number; closesAt: number; endsAt: number }
+): number {
+  const sorted = [...scans].sort((a, b) => Date.parse(a.scanned_at) - Date.parse(b.scanned_at))
+  let insideSince: number | null = null
+  let total = 0
+
+  const add = (from: number, to: number) => {
+    const start = Math.max(from, window.opensAt)
+    const end = Math.min(to, window.closesAt)
+    if (end > start) total += end - start
+  }
+
+  for (const scan of sorted) {
+    const at = Date.parse(scan.scanned_at)
+    if (scan.direction === "in") {
+      if (insideSince === null) insideSince = at
+    } else if (insideSince !== null) {
+      add(insideSince, at)
+      insideSince = null
+    }
+  }
+  if (insideSince !== null) add(insideSince, window.endsAt)
+
+  return Math.floor(total / 60000)
+}
+
+// Credits scale with the share of the scheduled session attended, capped at
+// the full amount (the grace window can make dwell exceed the session), and
+// round down to the cent -- a transcript must never claim more than was
+// earned. Full attendance always earns the full amount.
+export function creditsForDwell(available: number, dwellMinutes: number, sessionMinutes: number): number {
+  if (available <= 0 || sessionMinutes <= 0 || dwellMinutes <= 0) return 0
+  if (dwellMinutes >= sessionMinutes) return available
+  return Math.floor(available * (dwellMinutes / sessionMinutes) * 100) / 100
+}
+
+// --- Transcripts ------------------------------------------------------------------
+
+function toCredits(value: number | string | null): number {
+  const n = typeof value === "string" ? Number(value) : value ?? 0
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+// One transcript per delegate with at least one credited session. Sessions
+// without a session_cme row (or with zero credits) never appear: this is a
+// CME transcript, not an attendance log. Lines are in programme order.
+export function buildCmeTranscripts(input: {
+  sessions: AttendanceSession[]
+  cme: SessionCmeWeight[]
+  scans: AttendanceScan[]
+  timezone: string
+}): Map<string, CmeTranscript> {
+  const cmeBySession = new Map(input.cme.map((c) => [c.session_id, c]))
+  const sessions = new Map<string, { session: AttendanceSession; times: SessionTimes; weight: SessionCmeWeight }>()
+  for (const session of input.sessions) {
+    const weight = cmeBySession.get(session.id)
+    if (!weight || toCredits(weight.cme_credits) === 0) continue
+    const times = sessionTimes(session, input.timezone)
+    if (times) sessions.set(session.id, { session, times, weight })
+  }
+
+  const scansByKey = new Map<string, AttendanceScan[]>()
+  for (const scan of input.scans) {
+    if (!sessions.has(scan.session_id)) continue
+    const key = `${scan.registration_id}:${scan.session_id}`
+    const list = scansByKey.get(key)
+    if (list) list.push(scan)
+    else scansByKey.set(key, [scan])
+  }
+
+  const transcripts = new Map<string, CmeTranscript>()
+  for (const [key, scans] of scansByKey) {
+    const [registrationId, sessionId] = key.split(":")
+    const { session, times, weight } = sessions.get(sessionId)!
+    const dwell = computeDwellMinutes(scans, times)
+    const sessionMinutes = Math.round((times.endsAt - times.startsAt) / 60000)
+    const available = toCredits(weight.cme_credits)
+    const earned = creditsForDwell(available, dwell, sessionMinutes)
+    if (earned === 0) continue
+
+    const transcript = transcripts.get(registrationId) ?? { registration_id: registrationId, lines: [], total_credits: 0 }
+    transcript.lines.push({
+      session_id: session.id,
+      session_name: session.session_name || "Untitled session",
+      session_date: session.session_date!,
+      start_time: session.start_time!,
+      end_time: session.end_time!,
+      dwell_minutes: dwell,
+      session_minutes: sessionMinutes,
+      credits_available: available,
+      credits_earned: earned,
+      cme_category: weight.cme_category,
+      accrediting_body: weight.accrediting_body,
+    })
+    transcripts.set(registrationId, transcript)
+  }
+
+  for (const transcript of transcripts.values()) {
+    transcript.lines.sort((a, b) => `${a.session_date} ${a.start_time}`.localeCompare(`${b.session_date} ${b.start_time}`))
+    // Summed in cents so 0.1 + 0.2 doesn't print as 0.30000000000000004.
+    transcript.total_credits = transcript.lines.reduce((sum, l) => sum + Math.round(l.credits_earned * 100), 0) / 100
+  }
+  return transcripts
+}
+
+export function formatCredits(credits: number): string {
+  return credits.toFixed(2)
+}
+
+// The {{cme_transcript}} certificate placeholder: one line per session.
+export function formatCmeTranscriptLines(transcript: CmeTranscript | null): string[] {
+  if (!transcript) return []
+  return transcript.lines.map((l) => {
+    const date = new Date(`${l.session_date}T00:00:00Z`).toLocaleDateString("en-IN", {
+      day: "numeric",
+      month: "short",
+      timeZone: "UTC",
+    })
+    return `${date} · ${l.session_name} · ${formatCredits(l.credits_earned)} credits`
+  })
+}
+
+const CME_PLACEHOLDER = /\{\{cme_(credits|transcript)\}\}/
+
+// Whether certificate text uses either CME placeholder -- the certificate
+// routes only load transcripts when a template asks for them.
+export function usesCmePlaceholders(text: string | null | undefined): boolean {
+  return !!text && CME_PLACEHOLDER.test(text)
+}
+
+// {{cme_credits}} is the delegate's total ("0.00" with nothing credited);
+// {{cme_transcript}} is formatCmeTranscriptLines joined with newlines, which
+// the certificate renderers draw as stacked lines.
+export function replaceCmePlaceholders(text: string, transcript: CmeTranscript | null): string {
+  return text
+    .replace(/\{\{cme_credits\}\}/g, formatCredits(transcript?.total_credits ?? 0))
+    .replace(/\{\{cme_transcript\}\}/g, formatCmeTranscriptLines(transcript).join("\n"))
+}
+
+// --- Admin report -------------------------------------------------------------
+
+export interface CmeReportRow {
+  registration_id: string
+  registration_number: string
+  attendee_name: string
+  sessions: number
+  total_credits: number
+}
+
+export const CME_CSV_HEADERS = ["Registration Number", "Name", "Sessions Credited", "CME Credits"]
+
+export function cmeCsvRows(rows: CmeReportRow[]): (string | number)[][] {
+  return rows.map((r) => [r.registration_number, r.attendee_name, r.sessions, formatCredits(r.total_credits)])
+}
@@ -1,5 +1,11 @@
 import { describe, it, expect } from "vitest"
-import { fetchAllPages, type RangeableQuery } from "./fetch-all-pages"
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchAllPages,
+  fetchCursorPage,
+  type RangeableQuery,
+} from "./fetch-all-pages"
 
 /** A fake PostgREST builder that caps each response at 1000, like the real one. */
 function fakeQuery(totalRows: number, opts: { error?: unknown } = {}): {
@@ -74,3 +80,43 @@ describe("fetchAllPages", () => {
     expect(rows).toHaveLength(100_000)
   })
 })
+
+describe("fetchCursorPage", () => {
+  const ids = Array.from({ length: 5 }, (_, n) => `00000000-0000-4000-8000-00000000000${n}`)
+
+  function idQuery(available: string[]) {
+    const calls: Array<[number, number]> = []
+    const query: RangeableQuery<{ id: string }> = {
+      range(from, to) {
+        calls.push([from, to])
+        return Promise.resolve({ data: available.slice(from, to + 1).map((id) => ({ id })), error: null })
+      },
+    }
+    return { query, calls }
+  }
+
+  it("asks for one extra row and points the cursor at the last row returned", async () => {
+    const { query, calls } = idQuery(ids)
+    const page = await fetchCursorPage(query, 3)
+    expect(calls).toEqual([[0, 3]])
+    expect(page.rows.map((r) => r.id)).toEqual(ids.slice(0, 3))
+    expect(decodeCursor(page.next_cursor)).toBe(ids[2])
+  })
+
+  it("has no next cursor on the last page", async () => {
+    const { query } = idQuery(ids.slice(0, 2))
+    expect(await fetchCursorPage(query, 2)).toEqual({ rows: ids.slice(0, 2).map((id) => ({ id })), next_cursor: null })
+  })
+
+  it("caps the page size", async () => {
+    const { query, calls } = idQuery([])
+    await fetchCursorPage(query, 5000)
+    expect(calls).toEqual([[0, 200]])
+  })
+
+  it("rejects cursors it didn't issue", () => {
+    expect(decodeCursor(encodeCursor(ids[1]))).toBe(ids[1])
+    expect(decodeCursor("not-a-cursor")).toBeNull()
+    expect(decodeCursor(null)).toBeNull()
+  })
+})
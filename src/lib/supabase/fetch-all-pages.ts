@@ -56,3 +56,50 @@ export async function fetchAllPages<T>(query: RangeableQuery<T>): Promise<T[]> {
 
   return out
 }
+
+// ---------------------------------------------------------------------------
+// Cursor pages, for APIs that hand the paging to the caller (/api/v1).
+//
+// Keyset rather than offset: the caller orders by `id` and filters
+// `.gt("id", after)`, so rows inserted while a client is walking the list
+// can't shift later pages and make it skip or repeat a row.
+
+// Kept under the server cap, so one page is never silently truncated
+export const MAX_CURSOR_PAGE_SIZE = 200
+
+export interface CursorPage<T> {
+  rows: T[]
+  next_cursor: string | null
+}
+
+export function encodeCursor(id: string): string {
+  return Buffer.from(id, "utf8").toString("base64url")
+}
+
+/** The id a cursor points after, or null if it isn't one of ours. */
+export function decodeCursor(cursor: string | null | undefined): string | null {
+  if (!cursor) return null
+  const id = Buffer.from(cursor, "base64url").toString("utf8")
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id) ? id : null
+}
+
+/**
+ * Read one page of an id-ordered query. Asks for one row more than the page
+ * so "is there another page" is answered without a count query.
+ *
+ * Throws on a query error, like fetchAllPages.
+ */
+export async function fetchCursorPage<T extends { id: string }>(
+  query: RangeableQuery<T>,
+  limit: number
+): Promise<CursorPage<T>> {
+  const size = Math.min(Math.max(1, Math.floor(limit)), MAX_CURSOR_PAGE_SIZE)
+  const { data, error } = await query.range(0, size)
+  if (error) throw error
+
+  const rows = data || []
+  if (rows.length <= size) return { rows, next_cursor: null }
+
+  const page = rows.slice(0, size)
+  return { rows: page, next_cursor: encodeCursor(page[page.length - 1].id) }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest"
+import { walletFixture } from "@/test/helpers/wallet-fixtures"
+import { getWalletConfig } from "./tenant"
+
+// getWalletConfig trims surrounding whitespace; compare against trimmed PEMs.
+const cert = walletFixture("pass-signer.pem").trim()
+const key = walletFixture("pass-signer-key.pem").trim()
+const wwdr = walletFixture("wwdr-ca.pem").trim()
+
+function appleEnv(prefix: string) {
+  return {
+    [`${prefix}APPLE_PASS_TYPE_ID`]: "pass.org.example.test",
+    [`${prefix}APPLE_TEAM_ID`]: "TEAM123456",
+    [`${prefix}APPLE_CERT`]: cert,
+    [`${prefix}APPLE_KEY`]: key,
+    [`${prefix}APPLE_WWDR_CERT`]: wwdr,
+  }
+}
+
+describe("getWalletConfig", () => {
+  it("reads only the given tenant's credentials", () => {
+    const env = { ...appleEnv("WALLET_COS_"), WALLET_COS_ORGANIZATION_NAME: "COS" }
+    expect(getWalletConfig("amasi", env)).toEqual({ organizationName: "AMASI", apple: null, google: null })
+    expect(getWalletConfig("cos", env)).toEqual({
+      organizationName: "COS",
+      apple: {
+        passTypeIdentifier: "pass.org.example.test",
+        teamIdentifier: "TEAM123456",
+        certificate: cert,
+        privateKey: key,
+        privateKeyPassphrase: null,
+        wwdrCertificate: wwdr,
+      },
+      google: null,
+    })
+  })
+
+  it("accepts PEMs base64-encoded or with escaped newlines", () => {
+    const env = {
+      ...appleEnv("WALLET_AMASI_"),
+      WALLET_AMASI_APPLE_CERT: Buffer.from(cert).toString("base64"),
+      WALLET_AMASI_APPLE_KEY: key.replace(/\n/g, "\\n"),
+    }
+    const { apple } = getWalletConfig("amasi", env)
+    expect(apple?.certificate).toBe(cert)
+    expect(apple?.privateKey).toBe(key)
+  })
+
+  it("leaves a platform off when any of its values is missing or unreadable", () => {
+    expect(getWalletConfig("amasi", { ...appleEnv("WALLET_AMASI_"), WALLET_AMASI_APPLE_WWDR_CERT: "" }).apple).toBeNull()
+    expect(getWalletConfig("amasi", { ...appleEnv("WALLET_AMASI_"), WALLET_AMASI_APPLE_KEY: "not a key" }).apple).toBeNull()
+    expect(
+      getWalletConfig("amasi", { WALLET_AMASI_GOOGLE_ISSUER_ID: "3388", WALLET_AMASI_GOOGLE_SERVICE_ACCOUNT: "{oops" }).google
+    ).toBeNull()
+  })
+
+  it("takes the Google key and email from the service account JSON", () => {
+    const google = walletFixture("google-service-account-key.pem")
+    const env = {
+      WALLET_AMASI_GOOGLE_ISSUER_ID: "3388",
+      WALLET_AMASI_GOOGLE_SERVICE_ACCOUNT: JSON.stringify({
+        type: "service_account",
+        client_email: "wallet@example-project.iam.gserviceaccount.com",
+        private_key: google,
+      }),
+    }
+    expect(getWalletConfig("amasi", env).google).toEqual({
+      issuerId: "3388",
+      serviceAccountEmail: "wallet@example-project.iam.gserviceaccount.com",
+      privateKey: google.trim(),
+    })
+  })
+})
@@ -93,3 +93,98 @@ export function withTenant<T extends Record<string, unknown>>(
   }
   return { ...payload, tenant: getTenant() }
 }
+
+// ── Wallet passes ────────────────────────────────────────────────────
+
+export interface AppleWalletConfig {
+  passTypeIdentifier: string
+  teamIdentifier: string
+  /** Pass Type ID certificate, PEM -- also the APNs client certificate for pass updates */
+  certificate: string
+  privateKey: string
+  privateKeyPassphrase: string | null
+  /** Apple WWDR intermediate, PEM */
+  wwdrCertificate: string
+}
+
+export interface GoogleWalletConfig {
+  issuerId: string
+  serviceAccountEmail: string
+  /** Service account private key, PEM */
+  privateKey: string
+}
+
+export interface WalletConfig {
+  organizationName: string
+  apple: AppleWalletConfig | null
+  google: GoogleWalletConfig | null
+}
+
+// PEMs arrive through env vars either as-is, with literal "\n"s (how Vercel
+// stores a pasted multi-line value), or base64-encoded whole.
+function readPem(value: string | undefined): string | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+  if (trimmed.includes("-----BEGIN")) return trimmed.replace(/\\n/g, "\n")
+  const decoded = Buffer.from(trimmed, "base64").toString("utf8")
+  return decoded.includes("-----BEGIN") ? decoded : null
+}
+
+/**
+ * Apple / Google Wallet signing credentials for a tenant. Each tenant signs
+ * passes as itself, so the variables carry the tenant slug:
+ *
+ *   WALLET_<TENANT>_ORGANIZATION_NAME     shown on the pass (default: slug)
+ *   WALLET_<TENANT>_APPLE_PASS_TYPE_ID    pass.org.example.badge
+ *   WALLET_<TENANT>_APPLE_TEAM_ID
+ *   WALLET_<TENANT>_APPLE_CERT            Pass Type ID certificate (PEM)
+ *   WALLET_<TENANT>_APPLE_KEY             its private key (PEM)
+ *   WALLET_<TENANT>_APPLE_KEY_PASSPHRASE  optional
+ *   WALLET_<TENANT>_APPLE_WWDR_CERT       Apple WWDR intermediate (PEM)
+ *   WALLET_<TENANT>_GOOGLE_ISSUER_ID
+ *   WALLET_<TENANT>_GOOGLE_SERVICE_ACCOUNT  service account key JSON
+ *
+ * A platform missing any required value is null -- its "Add to Wallet"
+ * link is simply not offered. Server-only: none of these are NEXT_PUBLIC.
+ */
+export function getWalletConfig(
+  tenant: Tenant = getTenant(),
+  env: Record<string, string | undefined> = process.env,
+): WalletConfig {
+  const prefix = `WALLET_${tenant.toUpperCase()}_`
+  const read = (name: string) => env[prefix + name]?.trim() || null
+
+  const passTypeIdentifier = read("APPLE_PASS_TYPE_ID")
+  const teamIdentifier = read("APPLE_TEAM_ID")
+  const certificate = readPem(env[prefix + "APPLE_CERT"])
+  const privateKey = readPem(env[prefix + "APPLE_KEY"])
+  const wwdrCertificate = readPem(env[prefix + "APPLE_WWDR_CERT"])
+  const apple =
+    passTypeIdentifier && teamIdentifier && certificate && privateKey && wwdrCertificate
+      ? {
+          passTypeIdentifier,
+          teamIdentifier,
+          certificate,
+          privateKey,
+          privateKeyPassphrase: read("APPLE_KEY_PASSPHRASE"),
+          wwdrCertificate,
+        }
+      : null
+
+  let google: GoogleWalletConfig | null = null
+  const issuerId = read("GOOGLE_ISSUER_ID")
+  const serviceAccount = read("GOOGLE_SERVICE_ACCOUNT")
+  if (issuerId && serviceAccount) {
+    try {
+      const account = JSON.parse(serviceAccount)
+      const key = readPem(account.private_key)
+      if (account.client_email && key) {
+        google = { issuerId, serviceAccountEmail: account.client_email, privateKey: key }
+      }
+    } catch {
+      // Malformed JSON leaves Google Wallet off, same as not configuring it.
+    }
+  }
+
+  return { organizationName: read("ORGANIZATION_NAME") || tenant.toUpperCase(), apple, google }
+}
@@ -25,6 +25,7 @@
 
 import { ditherToMonochrome, packBits, getPaperWidthDots } from "./escpos-printer"
 import { getPaperSizeInches as getPaperDimensionsInches } from "./paper-sizes"
+import { compileBadgeLayout, type BadgeImages, type CompiledBadge } from "./badge-layout-compiler"
 
 function textToBytes(s: string): number[] {
   const out: number[] = []
@@ -48,6 +49,37 @@ function invertPackedBits(packed: Uint8Array): Uint8Array {
   return inverted
 }
 
+// One BITMAP command per band (see MAX_BAND_HEIGHT_DOTS), already inverted
+// to this firmware's polarity (see buildTsplRaster).
+function pushBitmapBands(
+  parts: Uint8Array[],
+  x: number,
+  y: number,
+  inverted: Uint8Array,
+  bytesPerRow: number,
+  height: number
+): void {
+  for (let row = 0; row < height; row += MAX_BAND_HEIGHT_DOTS) {
+    const bandHeight = Math.min(MAX_BAND_HEIGHT_DOTS, height - row)
+    const bandStart = row * bytesPerRow
+    const bandBytes = bandHeight * bytesPerRow
+    parts.push(new Uint8Array(textToBytes(`BITMAP ${x},${y + row},${bytesPerRow},${bandHeight},0,`)))
+    parts.push(inverted.subarray(bandStart, bandStart + bandBytes))
+    parts.push(new Uint8Array(textToBytes(`\r\n`)))
+  }
+}
+
+function concatParts(parts: Uint8Array[]): Uint8Array {
+  const totalLength = parts.reduce((sum, p) => sum + p.length, 0)
+  const buffer = new Uint8Array(totalLength)
+  let offset = 0
+  for (const part of parts) {
+    buffer.set(part, offset)
+    offset += part.length
+  }
+  return buffer
+}
+
 // Build a TSPL2 job that prints a raster image filling the label.
 export function buildTsplRaster(
   imageData: { data: Uint8ClampedArray; width: number; height: number },
@@ -91,25 +123,114 @@ export function buildTsplRaster(
     `CLS\r\n`
   )))
 
-  for (let y = 0; y < totalHeight; y += MAX_BAND_HEIGHT_DOTS) {
-    const bandHeight = Math.min(MAX_BAND_HEIGHT_DOTS, totalHeight - y)
-    const bandStart = y * bytesPerRow
-    const bandBytes = bandHeight * bytesPerRow
-    parts.push(new Uint8Array(textToBytes(`BITMAP 0,${y},${bytesPerRow},${bandHeight},0,`)))
-    parts.push(inverted.subarray(bandStart, bandStart + bandBytes))
-    parts.push(new Uint8Array(textToBytes(`\r\n`)))
-  }
+  pushBitmapBands(parts, 0, 0, inverted, bytesPerRow, totalHeight)
 
   parts.push(new Uint8Array(textToBytes(`PRINT 1,1\r\n`)))
 
-  const totalLength = parts.reduce((sum, p) => sum + p.length, 0)
-  const buffer = new Uint8Array(totalLength)
-  let offset = 0
-  for (const part of parts) {
-    buffer.set(part, offset)
-    offset += part.length
+  return concatParts(parts)
+}
+
+// Build a TSPL2 job that draws the badge template with native commands
+// (BLOCK text, BOX/BAR, ELLIPSE, QRCODE, BARCODE) instead of one full-label
+// raster: a fraction of the bytes, and text/codes at the printer's own
+// resolution. Only photos, logos and triangles go out as BITMAP bands.
+//
+// Unlike buildTsplRaster, rotation can't be baked into pixels here, so
+// DIRECTION carries print_settings.rotation. Like the raster path, this
+// hasn't been confirmed on the physical DC421 yet -- canvasToTspl stays the
+// kiosk's print path until it has.
+export function buildTsplFromTemplate(
+  templateData: any,
+  registration: any,
+  options: {
+    paperSize?: string
+    printMode?: "label" | "overlay" | "full_badge"
+    rotation?: number
+    dpi?: number
+    eventName?: string
+    images?: BadgeImages
+  } = {}
+): Uint8Array {
+  const layout = compileBadgeLayout(templateData, registration, { ...options, paperSize: options.paperSize || "4x6" })
+  return badgeLayoutToTspl(layout, options.paperSize || "4x6")
+}
+
+// TSPL2 string literals escape a double quote as \["]
+function tsplString(text: string): string {
+  return `"${text.replace(/"/g, '\\["]').replace(/\r?\n/g, " ")}"`
+}
+
+export function badgeLayoutToTspl(layout: CompiledBadge, paperSize: string = "4x6"): Uint8Array {
+  const { widthIn, heightIn } = getPaperDimensionsInches(paperSize)
+  const utf8 = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const command = (line: string) => parts.push(utf8.encode(line + "\r\n"))
+
+  command(`SIZE ${widthIn} in,${heightIn} in`)
+  command(`GAP 0 in,0 in`)
+  command(`DIRECTION ${layout.rotation === 180 ? 1 : 0}`)
+  command(`REFERENCE 0,0`)
+  command(`CODEPAGE UTF-8`)
+  command(`CLS`)
+
+  for (const op of layout.ops) {
+    switch (op.kind) {
+      case "box":
+        if (op.thickness >= Math.min(op.width, op.height) && op.radius === 0) {
+          command(`BAR ${op.x},${op.y},${op.width},${op.height}`)
+        } else {
+          command(`BOX ${op.x},${op.y},${op.x + op.width},${op.y + op.height},${op.thickness}${op.radius ? `,${op.radius}` : ""}`)
+        }
+        break
+      case "ellipse":
+        command(`ELLIPSE ${op.x},${op.y},${op.width},${op.height},${op.thickness}`)
+        break
+      case "text": {
+        // Font "0" is the scalable font; its multipliers are point sizes
+        const points = Math.max(1, Math.round((op.fontHeight * 72) / layout.dpi))
+        const align = op.align === "center" ? 2 : op.align === "right" ? 3 : 1
+        const sideways = op.rotation === 90 || op.rotation === 270
+        // TSPL rotates clockwise about (x, y), so anchor at the corner that
+        // ends up top-left once turned
+        const depth = op.height
+        const anchor = {
+          0: [op.x, op.y],
+          90: [op.x + depth, op.y],
+          180: [op.x + op.width, op.y + depth],
+          270: [op.x, op.y + op.width],
+        }[op.rotation]
+        const region = sideways
+          ? `${op.x},${op.y},${depth},${op.width}`
+          : `${op.x},${op.y},${op.width},${depth}`
+        const block = (x: number, y: number) =>
+          `BLOCK ${x},${y},${op.width},${depth},"0",${op.rotation},${points},${points},${op.lineSpacing},${align},${tsplString(op.text)}`
+        // White-on-black: clear the area, print black, flip it back
+        if (op.reverse) command(`REVERSE ${region}`)
+        command(block(anchor[0], anchor[1]))
+        if (op.bold) {
+          const shift = Math.max(1, Math.round(op.fontHeight / 30))
+          command(block(anchor[0] + (sideways ? 0 : shift), anchor[1] + (sideways ? shift : 0)))
+        }
+        if (op.reverse) command(`REVERSE ${region}`)
+        break
+      }
+      case "qr":
+        command(`QRCODE ${op.x},${op.y},Q,${op.magnification},A,0,${tsplString(op.data)}`)
+        break
+      case "barcode": {
+        const type = { CODE128: "128", CODE39: "39", EAN13: "EAN13", UPC: "UPCA" }[op.symbology]
+        const wide = op.symbology === "CODE39" ? op.moduleWidth * 3 : op.moduleWidth
+        command(`BARCODE ${op.x},${op.y},"${type}",${op.height},1,0,${op.moduleWidth},${wide},${tsplString(op.data)}`)
+        break
+      }
+      case "bitmap":
+        pushBitmapBands(parts, op.x, op.y, invertPackedBits(op.data), op.bytesPerRow, op.height)
+        break
+    }
   }
-  return buffer
+
+  command(`PRINT 1,1`)
+  return concatParts(parts)
 }
 
 
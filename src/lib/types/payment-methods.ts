@@ -18,3 +18,17 @@ export const DEFAULT_PAYMENT_METHODS_ENABLED: PaymentMethodsEnabled = {
   cash: false,
   free: true,
 }
+
+// Gateways an event can route its online payments through
+// (events.payment_gateway). Kept here rather than in the server-only
+// payment-gateway-registry.ts so the payment-settings page can import it.
+export type PaymentGatewayName = "razorpay" | "icici"
+
+export const DEFAULT_PAYMENT_GATEWAY: PaymentGatewayName = "razorpay"
+
+// `available` is false while an integration is a stub: it stays listed (so
+// existing rows resolve) but can't be picked.
+export const PAYMENT_GATEWAY_OPTIONS: Record<PaymentGatewayName, { label: string; available: boolean }> = {
+  razorpay: { label: "Razorpay", available: true },
+  icici: { label: "ICICI Payment Gateway", available: false },
+}
@@ -302,6 +302,21 @@ export async function printBadgeViaUsb(
   return sendToUsbPrinter(tsplData)
 }
 
+// Print a badge template via USB as native TSPL2 commands (see
+// buildTsplFromTemplate) rather than a rasterized canvas.
+export async function printBadgeTemplateViaUsb(
+  templateData: any,
+  registration: any,
+  options: { paperSize?: string; printMode?: "label" | "overlay" | "full_badge"; rotation?: number; eventName?: string } = {}
+): Promise<{ success: boolean; error?: string }> {
+  const [{ buildTsplFromTemplate }, { loadBadgeImages }] = await Promise.all([
+    import("./tspl-generator"),
+    import("./badge-layout-compiler"),
+  ])
+  const images = options.printMode === "overlay" ? undefined : await loadBadgeImages(templateData)
+  return sendToUsbPrinter(buildTsplFromTemplate(templateData, registration, { ...options, images }))
+}
+
 // Listen for USB disconnect events
 export function onUsbDisconnect(callback: () => void): () => void {
   if (!isWebUSBSupported()) return () => {}
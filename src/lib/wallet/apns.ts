@@ -0,0 +1,66 @@
+// Apple Wallet update pushes. A pass update push is an empty APNs
+// notification to the device's push token, topic = the pass type id, sent
+// with the Pass Type ID certificate itself as the TLS client certificate. The
+// device then asks the pass web service (/api/wallet/apple/v1) what changed.
+
+import { connect } from "node:http2"
+import type { AppleWalletConfig } from "@/lib/tenant"
+
+const APNS_HOST = "https://api.push.apple.com"
+const PUSH_TIMEOUT_MS = 10_000
+
+export interface PushResult {
+  sent: number
+  /** Tokens APNs says are no longer valid -- the device registration can go */
+  unregistered: string[]
+  failed: number
+}
+
+export async function pushPassUpdates(config: AppleWalletConfig, pushTokens: string[]): Promise<PushResult> {
+  const result: PushResult = { sent: 0, unregistered: [], failed: 0 }
+  const tokens = [...new Set(pushTokens)]
+  if (tokens.length === 0) return result
+
+  const session = connect(APNS_HOST, {
+    cert: config.certificate,
+    key: config.privateKey,
+    passphrase: config.privateKeyPassphrase || undefined,
+  })
+  // A connection error fails whichever pushes are in flight; don't let it
+  // surface as an unhandled 'error' event as well.
+  session.on("error", () => {})
+
+  try {
+    for (const token of tokens) {
+      const status = await new Promise<number>((resolve) => {
+        const stream = session.request({
+          ":method": "POST",
+          ":path": `/3/device/${token}`,
+          "apns-topic": config.passTypeIdentifier,
+          "apns-push-type": "background",
+          "apns-priority": "5",
+        })
+        const timer = setTimeout(() => {
+          stream.close()
+          resolve(0)
+        }, PUSH_TIMEOUT_MS)
+        stream.on("response", (headers) => {
+          clearTimeout(timer)
+          resolve(Number(headers[":status"]) || 0)
+        })
+        stream.on("error", () => {
+          clearTimeout(timer)
+          resolve(0)
+        })
+        stream.resume()
+        stream.end("{}")
+      })
+      if (status === 200) result.sent++
+      else if (status === 410) result.unregistered.push(token)
+      else result.failed++
+    }
+  } finally {
+    session.close()
+  }
+  return result
+}
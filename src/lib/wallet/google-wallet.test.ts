@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import { createPublicKey, verify } from "node:crypto"
+import { fixtureGoogleConfig } from "@/test/helpers/wallet-fixtures"
+import { googleSaveUrl, syncGoogleObjects } from "./google-wallet"
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("googleSaveUrl", () => {
+  it("carries the class and object in a JWT signed with the service account key", () => {
+    const config = fixtureGoogleConfig()
+    const url = googleSaveUrl(config, { id: "3388.event_1" }, { id: "3388.reg_1" }, "https://events.example.org")
+    expect(url.startsWith("https://pay.google.com/gp/v/save/")).toBe(true)
+
+    const [header, payload, signature] = url.split("/").pop()!.split(".")
+    const publicKey = createPublicKey(config.privateKey)
+    expect(verify("sha256", Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, "base64url"))).toBe(true)
+    expect(JSON.parse(Buffer.from(header, "base64url").toString())).toEqual({ alg: "RS256", typ: "JWT" })
+    expect(JSON.parse(Buffer.from(payload, "base64url").toString())).toMatchObject({
+      iss: config.serviceAccountEmail,
+      aud: "google",
+      typ: "savetowallet",
+      origins: ["https://events.example.org"],
+      payload: { eventTicketClasses: [{ id: "3388.event_1" }], eventTicketObjects: [{ id: "3388.reg_1" }] },
+    })
+  })
+})
+
+describe("syncGoogleObjects", () => {
+  it("puts classes before objects and counts unsaved objects separately", async () => {
+    const urls: string[] = []
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        urls.push(url)
+        if (url.includes("oauth2")) return new Response(JSON.stringify({ access_token: "at" }))
+        if (url.includes("reg_2")) return new Response("", { status: 404 })
+        return new Response("{}")
+      })
+    )
+    const result = await syncGoogleObjects(fixtureGoogleConfig(), [{ id: "3388.event_1" }], [{ id: "3388.reg_1" }, { id: "3388.reg_2" }])
+    expect(result).toEqual({ updated: 2, missing: 1, failed: 0 })
+    expect(urls.slice(1).map((u) => u.split("/v1/")[1])).toEqual([
+      "eventTicketClass/3388.event_1",
+      "eventTicketObject/3388.reg_1",
+      "eventTicketObject/3388.reg_2",
+    ])
+  })
+})
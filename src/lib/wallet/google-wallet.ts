@@ -0,0 +1,106 @@
+// Google Wallet: the "Save to Google Wallet" link and the REST calls that
+// keep saved passes current.
+//
+// The save link carries the class and object inline in an RS256 JWT signed
+// with the tenant's service account key, so issuing a pass needs no API call.
+// Updates do: Google re-renders a saved pass from whatever the class/object
+// hold on its side, so syncGoogleObjects() PUTs fresh copies.
+
+import { sign } from "node:crypto"
+import type { GoogleWalletConfig } from "@/lib/tenant"
+
+const SAVE_URL = "https://pay.google.com/gp/v/save/"
+const TOKEN_URL = "https://oauth2.googleapis.com/token"
+const API_BASE = "https://walletobjects.googleapis.com/walletobjects/v1"
+const SCOPE = "https://www.googleapis.com/auth/wallet_object.issuer"
+
+const base64url = (data: Buffer | string) => Buffer.from(data).toString("base64url")
+
+export function signJwt(payload: Record<string, unknown>, privateKey: string): string {
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }))
+  const body = base64url(JSON.stringify(payload))
+  const signature = sign("sha256", Buffer.from(`${header}.${body}`), privateKey)
+  return `${header}.${body}.${base64url(signature)}`
+}
+
+/** The save link for one delegate's pass, class included. */
+export function googleSaveUrl(
+  config: GoogleWalletConfig,
+  eventClass: Record<string, unknown>,
+  eventObject: Record<string, unknown>,
+  origin: string,
+  issuedAt: Date = new Date()
+): string {
+  const jwt = signJwt(
+    {
+      iss: config.serviceAccountEmail,
+      aud: "google",
+      typ: "savetowallet",
+      iat: Math.floor(issuedAt.getTime() / 1000),
+      origins: [origin],
+      payload: { eventTicketClasses: [eventClass], eventTicketObjects: [eventObject] },
+    },
+    config.privateKey
+  )
+  return SAVE_URL + jwt
+}
+
+async function accessToken(config: GoogleWalletConfig): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const assertion = signJwt(
+    { iss: config.serviceAccountEmail, scope: SCOPE, aud: TOKEN_URL, iat: now, exp: now + 3600 },
+    config.privateKey
+  )
+  const res = await fetch(TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer", assertion }),
+  })
+  if (!res.ok) throw new Error(`Google token request failed: ${res.status}`)
+  const data = (await res.json()) as { access_token?: string }
+  if (!data.access_token) throw new Error("Google token response had no access_token")
+  return data.access_token
+}
+
+export interface GoogleSyncResult {
+  updated: number
+  /** Objects Google has never seen -- the delegate got a link but didn't save it */
+  missing: number
+  failed: number
+}
+
+/**
+ * Replaces the given classes and objects on Google's side. A 404 means the
+ * delegate never tapped "Save"; there's nothing to update and the next save
+ * link will carry current content anyway.
+ */
+export async function syncGoogleObjects(
+  config: GoogleWalletConfig,
+  classes: Record<string, unknown>[],
+  objects: Record<string, unknown>[]
+): Promise<GoogleSyncResult> {
+  const result: GoogleSyncResult = { updated: 0, missing: 0, failed: 0 }
+  if (classes.length === 0 && objects.length === 0) return result
+
+  const token = await accessToken(config)
+  const put = async (kind: "eventTicketClass" | "eventTicketObject", resource: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`${API_BASE}/${kind}/${encodeURIComponent(String(resource.id))}`, {
+        method: "PUT",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify(resource),
+      })
+      if (res.ok) result.updated++
+      else if (res.status === 404) result.missing++
+      else result.failed++
+    } catch {
+      result.failed++
+    }
+  }
+
+  // Classes first: an object update that references a class Google hasn't
+  // got yet is rejected.
+  for (const resource of classes) await put("eventTicketClass", resource)
+  for (const resource of objects) await put("eventTicketObject", resource)
+  return result
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildApplePassJson,
+  buildGoogleEventClass,
+  buildGoogleEventObject,
+  buildPassContent,
+  formatEventDates,
+  passContentHash,
+  type PassSource,
+} from "./pass-content"
+
+const APP_URL = "https://events.example.org"
+const EVENT_ID = "11111111-1111-1111-1111-111111111111"
+const REG_ID = "33333333-3333-3333-3333-333333333333"
+
+function source(overrides: { event?: Partial<PassSource["event"]>; program?: Partial<PassSource["program"]> } = {}): PassSource {
+  return {
+    registration: {
+      id: REG_ID,
+      registration_number: "REG-1001",
+      checkin_token: "a".repeat(32),
+      attendee_name: "Dr. Anil Kumar",
+      attendee_designation: "Professor",
+      attendee_institution: "AIIMS",
+      ticket_types: { name: "Conference" },
+    },
+    event: {
+      id: EVENT_ID,
+      name: "AMASICON 2026 Annual Conference",
+      short_name: "AMASICON 2026",
+      start_date: "2026-11-20",
+      end_date: "2026-11-22",
+      venue_name: "Hotel Leela",
+      venue_address: "Sahar Road, Andheri East",
+      city: "Mumbai",
+      timezone: null,
+      primary_color: "#0f766e",
+      ...overrides.event,
+    },
+    program: { session_count: 42, day_count: 3, updated_at: "2026-10-18T10:30:00.000Z", ...overrides.program },
+  }
+}
+
+describe("formatEventDates", () => {
+  it("collapses the shared month and year", () => {
+    expect(formatEventDates("2026-11-20", "2026-11-22")).toBe("20 – 22 Nov 2026")
+    expect(formatEventDates("2026-11-30", "2026-12-02")).toBe("30 Nov – 2 Dec 2026")
+    expect(formatEventDates("2026-12-31", "2027-01-01")).toBe("31 Dec 2026 – 1 Jan 2027")
+    expect(formatEventDates("2026-11-20", "2026-11-20")).toBe("20 Nov 2026")
+  })
+})
+
+describe("buildPassContent", () => {
+  it("gathers the delegate, ticket, dates, venue and program", () => {
+    const content = buildPassContent(source(), APP_URL)
+    expect(content).toMatchObject({
+      eventName: "AMASICON 2026",
+      attendeeName: "Dr. Anil Kumar",
+      attendeeSubtitle: "Professor, AIIMS",
+      ticketType: "Conference",
+      dates: "20 – 22 Nov 2026",
+      venue: "Hotel Leela, Mumbai",
+      barcode: "a".repeat(32),
+      color: "#0f766e",
+      programUrl: `${APP_URL}/program/${EVENT_ID}`,
+    })
+    // Edit time in the event's zone (IST by default)
+    expect(content.program).toContain("42 sessions over 3 days")
+    expect(content.program).toContain("4:00")
+  })
+
+  it("falls back for a missing end date, venue, program and an unusable colour", () => {
+    const content = buildPassContent(
+      source({
+        event: { end_date: null, venue_name: null, city: null, primary_color: "teal" },
+        program: { session_count: 0, day_count: 0, updated_at: null },
+      }),
+      APP_URL
+    )
+    expect(content).toMatchObject({ endDate: "2026-11-20", venue: null, program: null, color: "#1e3a5f" })
+  })
+})
+
+describe("passContentHash", () => {
+  it("moves when the venue or program changes, and only then", () => {
+    const base = passContentHash(buildPassContent(source(), APP_URL))
+    expect(passContentHash(buildPassContent(source(), APP_URL))).toBe(base)
+    expect(passContentHash(buildPassContent(source({ event: { venue_name: "NESCO" } }), APP_URL))).not.toBe(base)
+    // A retimed session: same count, same days, later edit
+    expect(
+      passContentHash(buildPassContent(source({ program: { updated_at: "2026-10-19T08:00:00.000Z" } }), APP_URL))
+    ).not.toBe(base)
+  })
+})
+
+describe("buildApplePassJson", () => {
+  it("builds an eventTicket with the badge QR and the web service", () => {
+    const pass = buildApplePassJson(buildPassContent(source(), APP_URL), {
+      passTypeIdentifier: "pass.org.example.test",
+      teamIdentifier: "TEAM123456",
+      organizationName: "AMASI",
+      serialNumber: "serial-1",
+      authenticationToken: "t".repeat(48),
+      webServiceURL: `${APP_URL}/api/wallet/apple`,
+    }) as any
+
+    expect(pass).toMatchObject({
+      formatVersion: 1,
+      passTypeIdentifier: "pass.org.example.test",
+      serialNumber: "serial-1",
+      webServiceURL: `${APP_URL}/api/wallet/apple`,
+      backgroundColor: "rgb(15, 118, 110)",
+    })
+    expect(pass.barcodes).toEqual([
+      { format: "PKBarcodeFormatQR", message: "a".repeat(32), messageEncoding: "iso-8859-1", altText: "REG-1001" },
+    ])
+    expect(pass.eventTicket.primaryFields[0].value).toBe("Dr. Anil Kumar")
+    const venue = pass.eventTicket.secondaryFields.find((f: any) => f.key === "venue")
+    expect(venue).toMatchObject({ value: "Hotel Leela, Mumbai", changeMessage: "Venue changed: %@" })
+    expect(pass.eventTicket.backFields.map((f: any) => f.key)).toEqual(["address", "program", "program_url"])
+  })
+})
+
+describe("Google Wallet objects", () => {
+  it("links the delegate's object to the event class", () => {
+    const content = buildPassContent(source(), APP_URL)
+    const eventClass = buildGoogleEventClass(content, { issuerId: "3388", organizationName: "AMASI" }) as any
+    const eventObject = buildGoogleEventObject(content, { issuerId: "3388", registrationId: REG_ID }) as any
+
+    expect(eventClass).toMatchObject({
+      id: `3388.event_${EVENT_ID}`,
+      eventName: { defaultValue: { language: "en-IN", value: "AMASICON 2026" } },
+      dateTime: { start: "2026-11-20T00:00:00", end: "2026-11-22T23:59:00" },
+    })
+    expect(eventClass.venue.name.defaultValue.value).toBe("Hotel Leela, Mumbai")
+    expect(eventObject).toMatchObject({
+      id: `3388.reg_${REG_ID}`,
+      classId: eventClass.id,
+      ticketHolderName: "Dr. Anil Kumar",
+      barcode: { type: "QR_CODE", value: "a".repeat(32), alternateText: "REG-1001" },
+    })
+  })
+})
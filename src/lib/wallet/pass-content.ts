@@ -0,0 +1,248 @@
+// What goes on a delegate's wallet pass, and the Apple pass.json / Google
+// Wallet eventTicket objects built from it.
+//
+// A pass is a snapshot: once saved, the phone only learns about a new venue
+// or a reshuffled program when we push an update. passContentHash() is how
+// the wallet-pass-sync cron notices a snapshot has gone stale -- any field
+// here changing changes the hash, so everything on the pass must come
+// through PassContent.
+
+import { createHash } from "node:crypto"
+
+const DEFAULT_TIMEZONE = "Asia/Kolkata"
+const DEFAULT_COLOR = "#1e3a5f"
+
+export interface PassSource {
+  registration: {
+    id: string
+    registration_number: string | null
+    checkin_token: string
+    attendee_name: string | null
+    attendee_designation: string | null
+    attendee_institution: string | null
+    ticket_types: { name: string | null } | null
+  }
+  event: {
+    id: string
+    name: string
+    short_name: string | null
+    start_date: string
+    end_date: string | null
+    venue_name: string | null
+    venue_address: string | null
+    city: string | null
+    timezone: string | null
+    primary_color: string | null
+  }
+  /** Public sessions on the program; updated_at is the latest edit to any of them */
+  program: { session_count: number; day_count: number; updated_at: string | null }
+}
+
+export interface PassContent {
+  eventId: string
+  eventName: string
+  attendeeName: string
+  attendeeSubtitle: string | null
+  registrationNumber: string
+  ticketType: string
+  /** yyyy-mm-dd */
+  startDate: string
+  endDate: string
+  dates: string
+  venue: string | null
+  venueAddress: string | null
+  program: string | null
+  programUrl: string
+  /** What the QR encodes -- the checkin_token, same as the printed badge */
+  barcode: string
+  color: string
+  timezone: string
+}
+
+function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  // Date-only values are calendar dates; format them in UTC so the day
+  // doesn't drift with the server's zone.
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-IN", { ...options, timeZone: "UTC" })
+}
+
+/** "20 – 22 Nov 2026", "30 Nov – 2 Dec 2026", or one date for a single-day event. */
+export function formatEventDates(start: string, end: string): string {
+  if (start === end) return formatDate(start, { day: "numeric", month: "short", year: "numeric" })
+  const sameYear = start.slice(0, 4) === end.slice(0, 4)
+  const sameMonth = sameYear && start.slice(0, 7) === end.slice(0, 7)
+  const from = formatDate(start, sameMonth ? { day: "numeric" } : sameYear ? { day: "numeric", month: "short" } : { day: "numeric", month: "short", year: "numeric" })
+  return `${from} – ${formatDate(end, { day: "numeric", month: "short", year: "numeric" })}`
+}
+
+function summarizeProgram(program: PassSource["program"], timezone: string): string | null {
+  if (program.session_count === 0) return null
+  const sessions = `${program.session_count} session${program.session_count === 1 ? "" : "s"}`
+  const days = program.day_count > 1 ? ` over ${program.day_count} days` : ""
+  // The edit time is part of the text so that a retimed session -- same
+  // count, same days -- still reads as a new program on the pass.
+  const updated = program.updated_at
+    ? ` · updated ${new Date(program.updated_at).toLocaleString("en-IN", {
+        day: "numeric",
+        month: "short",
+        hour: "numeric",
+        minute: "2-digit",
+        timeZone: timezone,
+      })}`
+    : ""
+  return sessions + days + updated
+}
+
+export function buildPassContent(source: PassSource, appUrl: string): PassContent {
+  const { registration, event } = source
+  const timezone = event.timezone || DEFAULT_TIMEZONE
+  const endDate = event.end_date || event.start_date
+  const subtitle = [registration.attendee_designation, registration.attendee_institution].filter(Boolean).join(", ")
+  const venue = [event.venue_name, event.city].filter(Boolean).join(", ")
+
+  return {
+    eventId: event.id,
+    eventName: event.short_name || event.name,
+    attendeeName: registration.attendee_name || "Delegate",
+    attendeeSubtitle: subtitle || null,
+    registrationNumber: registration.registration_number || "",
+    ticketType: registration.ticket_types?.name || "Delegate",
+    startDate: event.start_date,
+    endDate,
+    dates: formatEventDates(event.start_date, endDate),
+    venue: venue || null,
+    venueAddress: event.venue_address || null,
+    program: summarizeProgram(source.program, timezone),
+    programUrl: `${appUrl}/program/${event.id}`,
+    barcode: registration.checkin_token,
+    color: /^#[0-9a-f]{6}$/i.test(event.primary_color || "") ? event.primary_color! : DEFAULT_COLOR,
+    timezone,
+  }
+}
+
+export function passContentHash(content: PassContent): string {
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex")
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+// ── Apple ────────────────────────────────────────────────────────────
+
+export interface ApplePassIdentity {
+  passTypeIdentifier: string
+  teamIdentifier: string
+  organizationName: string
+  serialNumber: string
+  authenticationToken: string
+  /** Base URL of the pass web service, without the /v1 */
+  webServiceURL: string
+}
+
+/** pass.json for an eventTicket pass. */
+export function buildApplePassJson(content: PassContent, identity: ApplePassIdentity): Record<string, unknown> {
+  const [r, g, b] = hexToRgb(content.color)
+  const secondaryFields: Record<string, unknown>[] = [
+    {
+      key: "dates",
+      label: "DATES",
+      value: content.dates,
+      changeMessage: "Event dates changed: %@",
+    },
+  ]
+  if (content.venue) {
+    secondaryFields.push({ key: "venue", label: "VENUE", value: content.venue, changeMessage: "Venue changed: %@" })
+  }
+
+  const backFields: Record<string, unknown>[] = []
+  if (content.venueAddress) backFields.push({ key: "address", label: "Venue address", value: content.venueAddress })
+  // No changeMessage: the program moves often enough in the run-up that a
+  // lock-screen alert per edit would be noise. The pass still refreshes.
+  if (content.program) backFields.push({ key: "program", label: "Program", value: content.program })
+  backFields.push({ key: "program_url", label: "Full program", value: content.programUrl })
+
+  return {
+    formatVersion: 1,
+    passTypeIdentifier: identity.passTypeIdentifier,
+    teamIdentifier: identity.teamIdentifier,
+    serialNumber: identity.serialNumber,
+    authenticationToken: identity.authenticationToken,
+    webServiceURL: identity.webServiceURL,
+    organizationName: identity.organizationName,
+    description: `${content.eventName} delegate badge`,
+    logoText: content.eventName,
+    foregroundColor: "rgb(255, 255, 255)",
+    labelColor: "rgb(255, 255, 255)",
+    backgroundColor: `rgb(${r}, ${g}, ${b})`,
+    barcodes: [
+      {
+        format: "PKBarcodeFormatQR",
+        message: content.barcode,
+        messageEncoding: "iso-8859-1",
+        altText: content.registrationNumber,
+      },
+    ],
+    eventTicket: {
+      primaryFields: [{ key: "name", label: "DELEGATE", value: content.attendeeName }],
+      secondaryFields,
+      auxiliaryFields: [
+        { key: "ticket", label: "TICKET", value: content.ticketType },
+        { key: "registration", label: "REG NO", value: content.registrationNumber },
+      ],
+      backFields,
+    },
+  }
+}
+
+// ── Google ───────────────────────────────────────────────────────────
+
+// Google object ids are "<issuerId>.<suffix>" with the suffix limited to
+// [\w.-]; our UUIDs already fit.
+export const googleClassId = (issuerId: string, eventId: string) => `${issuerId}.event_${eventId}`
+export const googleObjectId = (issuerId: string, registrationId: string) => `${issuerId}.reg_${registrationId}`
+
+const localized = (value: string) => ({ defaultValue: { language: "en-IN", value } })
+
+/** The eventTicketClass shared by every delegate pass for the event. */
+export function buildGoogleEventClass(
+  content: PassContent,
+  identity: { issuerId: string; organizationName: string }
+): Record<string, unknown> {
+  const venue: Record<string, unknown> = {}
+  if (content.venue) venue.name = localized(content.venue)
+  if (content.venueAddress) venue.address = localized(content.venueAddress)
+
+  return {
+    id: googleClassId(identity.issuerId, content.eventId),
+    issuerName: identity.organizationName,
+    eventName: localized(content.eventName),
+    reviewStatus: "UNDER_REVIEW",
+    hexBackgroundColor: content.color,
+    ...(Object.keys(venue).length > 0 ? { venue } : {}),
+    // Local date-times without an offset: Google shows them as-is, in the
+    // venue's time, which is what a delegate expects.
+    dateTime: { start: `${content.startDate}T00:00:00`, end: `${content.endDate}T23:59:00` },
+    linksModuleData: { uris: [{ uri: content.programUrl, description: "Full program" }] },
+  }
+}
+
+/** The delegate's own eventTicketObject. */
+export function buildGoogleEventObject(
+  content: PassContent,
+  identity: { issuerId: string; registrationId: string }
+): Record<string, unknown> {
+  const textModulesData = [{ id: "ticket", header: "Ticket", body: content.ticketType }]
+  if (content.program) textModulesData.push({ id: "program", header: "Program", body: content.program })
+
+  return {
+    id: googleObjectId(identity.issuerId, identity.registrationId),
+    classId: googleClassId(identity.issuerId, content.eventId),
+    state: "ACTIVE",
+    ticketHolderName: content.attendeeName,
+    ticketNumber: content.registrationNumber,
+    ticketType: localized(content.ticketType),
+    barcode: { type: "QR_CODE", value: content.barcode, alternateText: content.registrationNumber },
+    textModulesData,
+  }
+}
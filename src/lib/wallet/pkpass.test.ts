@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest"
+import { X509Certificate, createHash, verify } from "node:crypto"
+import { inflateRawSync, inflateSync } from "node:zlib"
+import { fixtureAppleConfig } from "@/test/helpers/wallet-fixtures"
+import { crc32, createPkpass, createZip, signDetached, solidPng } from "./pkpass"
+
+const SIGNED_AT = new Date("2026-10-19T09:00:00.000Z")
+
+// Just enough of a DER reader to take the signature apart again.
+function tlv(data: Buffer, at = 0) {
+  let length = data[at + 1]
+  let header = 2
+  if (length & 0x80) {
+    const count = length & 0x7f
+    length = 0
+    for (let i = 0; i < count; i++) length = length * 256 + data[at + 2 + i]
+    header += count
+  }
+  return { tag: data[at], whole: data.subarray(at, at + header + length), body: data.subarray(at + header, at + header + length) }
+}
+
+function children(data: Buffer): Buffer[] {
+  const { body } = tlv(data)
+  const out: Buffer[] = []
+  for (let at = 0; at < body.length; ) {
+    const child = tlv(body, at)
+    out.push(child.whole)
+    at += child.whole.length
+  }
+  return out
+}
+
+function unzip(zip: Buffer): Record<string, Buffer> {
+  const files: Record<string, Buffer> = {}
+  for (let at = 0; zip.readUInt32LE(at) === 0x04034b50; ) {
+    const crc = zip.readUInt32LE(at + 14)
+    const compressedSize = zip.readUInt32LE(at + 18)
+    const nameLength = zip.readUInt16LE(at + 26)
+    const extraLength = zip.readUInt16LE(at + 28)
+    const name = zip.subarray(at + 30, at + 30 + nameLength).toString("utf8")
+    const start = at + 30 + nameLength + extraLength
+    const data = inflateRawSync(zip.subarray(start, start + compressedSize))
+    expect(crc32(data)).toBe(crc)
+    files[name] = data
+    at = start + compressedSize
+  }
+  return files
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926)
+  })
+})
+
+describe("createZip", () => {
+  it("round-trips names and contents", () => {
+    const zip = createZip([
+      { name: "a.txt", data: Buffer.from("hello") },
+      { name: "dir/é.json", data: Buffer.from("{}") },
+    ])
+    expect(unzip(zip)).toEqual({ "a.txt": Buffer.from("hello"), "dir/é.json": Buffer.from("{}") })
+    // End of central directory records both entries
+    expect(zip.readUInt16LE(zip.length - 12)).toBe(2)
+  })
+})
+
+describe("solidPng", () => {
+  it("writes a PNG of the requested size and colour", () => {
+    const png = solidPng(3, 2, [30, 58, 95])
+    expect(png.subarray(1, 4).toString("ascii")).toBe("PNG")
+    expect(png.readUInt32BE(16)).toBe(3)
+    expect(png.readUInt32BE(20)).toBe(2)
+    const idatLength = png.readUInt32BE(33)
+    const pixels = inflateSync(png.subarray(41, 41 + idatLength))
+    // Each row: filter byte 0, then RGB triples
+    expect([...pixels.subarray(0, 4)]).toEqual([0, 30, 58, 95])
+    expect(pixels.length).toBe(2 * (1 + 3 * 3))
+  })
+})
+
+describe("signDetached", () => {
+  const signer = fixtureAppleConfig()
+  const certificate = new X509Certificate(signer.certificate)
+  const wwdr = new X509Certificate(signer.wwdrCertificate)
+
+  function signerInfo(signature: Buffer) {
+    const [, wrapped] = children(signature)
+    const signedData = children(children(wrapped)[0])
+    const [, , , certificates, signerInfos] = signedData
+    const info = children(children(signerInfos)[0])
+    return { certificates, info }
+  }
+
+  it("signs with the pass certificate and embeds it with the WWDR intermediate", () => {
+    const manifest = Buffer.from('{"pass.json":"abc"}')
+    const { certificates, info } = signerInfo(signDetached(manifest, signer, SIGNED_AT))
+
+    expect(certificates.includes(certificate.raw)).toBe(true)
+    expect(certificates.includes(wwdr.raw)).toBe(true)
+
+    const [, , , signedAttributes, , signatureValue] = info
+    expect(signedAttributes[0]).toBe(0xa0)
+    expect(signedAttributes.includes(createHash("sha256").update(manifest).digest())).toBe(true)
+
+    // The signature covers the attributes as a SET (tag 0x31), not as [0].
+    const asSet = Buffer.concat([Buffer.from([0x31]), signedAttributes.subarray(1)])
+    expect(verify("sha256", asSet, certificate.publicKey, tlv(signatureValue).body)).toBe(true)
+  })
+
+  it("identifies the signer by the certificate's issuer and serial", () => {
+    const { info } = signerInfo(signDetached(Buffer.from("{}"), signer, SIGNED_AT))
+    const [issuer, serial] = children(info[1])
+    expect(tlv(serial).body.toString("hex").toUpperCase().replace(/^0+/, "")).toBe(certificate.serialNumber.replace(/^0+/, ""))
+    expect(wwdr.raw.includes(issuer)).toBe(true)
+  })
+})
+
+describe("createPkpass", () => {
+  it("packages the files with a manifest of their hashes and its signature", () => {
+    const passJson = Buffer.from(JSON.stringify({ formatVersion: 1, serialNumber: "s-1" }))
+    const icon = solidPng(29, 29, [0, 0, 0])
+    const files = unzip(createPkpass({ "pass.json": passJson, "icon.png": icon }, fixtureAppleConfig(), SIGNED_AT))
+
+    expect(Object.keys(files)).toEqual(["pass.json", "icon.png", "manifest.json", "signature"])
+    expect(JSON.parse(files["manifest.json"].toString())).toEqual({
+      "pass.json": createHash("sha1").update(passJson).digest("hex"),
+      "icon.png": createHash("sha1").update(icon).digest("hex"),
+    })
+    expect(files.signature.includes(createHash("sha256").update(files["manifest.json"]).digest())).toBe(true)
+  })
+})
@@ -0,0 +1,284 @@
+// Apple Wallet .pkpass packaging: a zip of pass.json and its images, a
+// manifest.json of their SHA-1 hashes, and `signature` -- a detached PKCS #7
+// (CMS SignedData) signature of the manifest made with the tenant's Pass Type
+// ID certificate and chained to Apple's WWDR intermediate.
+//
+// Built on node:crypto and node:zlib alone: the zip writer, the DER encoder
+// and the CMS structure below are the small subset a pass needs, so passes
+// can be generated (and tested, with the fixtures in src/test/fixtures/wallet)
+// without a signing service or an openssl binary.
+
+import { X509Certificate, createHash, createPrivateKey, sign } from "node:crypto"
+import { deflateRawSync, deflateSync } from "node:zlib"
+
+export interface PassSigner {
+  /** Pass Type ID certificate, PEM */
+  certificate: string
+  /** Its private key, PEM */
+  privateKey: string
+  privateKeyPassphrase?: string | null
+  /** Apple WWDR intermediate certificate, PEM */
+  wwdrCertificate: string
+}
+
+// ── CRC-32 (zip and PNG) ─────────────────────────────────────────────
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ── Zip ──────────────────────────────────────────────────────────────
+
+function dosDateTime(at: Date): { time: number; date: number } {
+  return {
+    time: (at.getUTCHours() << 11) | (at.getUTCMinutes() << 5) | Math.floor(at.getUTCSeconds() / 2),
+    date: ((at.getUTCFullYear() - 1980) << 9) | ((at.getUTCMonth() + 1) << 5) | at.getUTCDate(),
+  }
+}
+
+/** A deflated zip of `files`, in the order given. */
+export function createZip(files: { name: string; data: Buffer }[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = dosDateTime(modifiedAt)
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8")
+    const compressed = deflateRawSync(file.data)
+    const crc = crc32(file.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(file.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(file.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + compressed.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+// ── PNG ──────────────────────────────────────────────────────────────
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data])
+  const crc = Buffer.alloc(4)
+  crc.writeUInt32BE(crc32(body))
+  return Buffer.concat([length, body, crc])
+}
+
+/**
+ * A solid-colour PNG. Every pass needs an icon.png; when the event has no
+ * usable logo this is it, in the pass's own background colour.
+ */
+export function solidPng(width: number, height: number, rgb: [number, number, number]): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 2 // truecolour
+  const row = Buffer.alloc(1 + width * 3)
+  for (let x = 0; x < width; x++) row.set(rgb, 1 + x * 3)
+  const pixels = Buffer.concat(Array.from({ length: height }, () => row))
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    // IDAT is a zlib stream, unlike a zip entry's raw deflate
+    pngChunk("IDAT", deflateSync(pixels)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ])
+}
+
+// ── DER ──────────────────────────────────────────────────────────────
+
+function der(tag: number, content: Buffer): Buffer {
+  const length = content.length
+  let header: Buffer
+  if (length < 0x80) {
+    header = Buffer.from([tag, length])
+  } else {
+    const bytes: number[] = []
+    for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff)
+    header = Buffer.from([tag, 0x80 | bytes.length, ...bytes])
+  }
+  return Buffer.concat([header, content])
+}
+
+const sequence = (...parts: Buffer[]) => der(0x30, Buffer.concat(parts))
+// DER orders SET OF members by their encodings.
+const setOf = (...parts: Buffer[]) => der(0x31, Buffer.concat(parts.slice().sort(Buffer.compare)))
+const octetString = (data: Buffer) => der(0x04, data)
+const integer = (value: number) => der(0x02, Buffer.from([value]))
+const NULL = Buffer.from([0x05, 0x00])
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number)
+  const bytes = [first * 40 + second]
+  for (const arc of rest) {
+    const chunk = [arc & 0x7f]
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) chunk.unshift(0x80 | (n & 0x7f))
+    bytes.push(...chunk)
+  }
+  return der(0x06, Buffer.from(bytes))
+}
+
+function utcTime(at: Date): Buffer {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  const text =
+    pad(at.getUTCFullYear() % 100) +
+    pad(at.getUTCMonth() + 1) +
+    pad(at.getUTCDate()) +
+    pad(at.getUTCHours()) +
+    pad(at.getUTCMinutes()) +
+    pad(at.getUTCSeconds()) +
+    "Z"
+  return der(0x17, Buffer.from(text, "ascii"))
+}
+
+/** The TLVs directly inside the constructed value at `start`. */
+function derChildren(data: Buffer, start = 0): Buffer[] {
+  const read = (at: number) => {
+    let length = data[at + 1]
+    let header = 2
+    if (length & 0x80) {
+      const count = length & 0x7f
+      length = 0
+      for (let i = 0; i < count; i++) length = length * 256 + data[at + 2 + i]
+      header += count
+    }
+    return { header, end: at + header + length }
+  }
+  const outer = read(start)
+  const children: Buffer[] = []
+  for (let at = start + outer.header; at < outer.end; ) {
+    const { end } = read(at)
+    children.push(data.subarray(at, end))
+    at = end
+  }
+  return children
+}
+
+const OID = {
+  data: "1.2.840.113549.1.7.1",
+  signedData: "1.2.840.113549.1.7.2",
+  contentType: "1.2.840.113549.1.9.3",
+  messageDigest: "1.2.840.113549.1.9.4",
+  signingTime: "1.2.840.113549.1.9.5",
+  sha256: "2.16.840.1.101.3.4.2.1",
+  rsaEncryption: "1.2.840.113549.1.1.1",
+  ecdsaWithSha256: "1.2.840.10045.4.3.2",
+}
+
+/**
+ * Detached CMS SignedData over `content`: signed attributes (content type,
+ * signing time, SHA-256 digest) signed with the pass certificate's key, with
+ * the pass certificate and the WWDR intermediate embedded -- what Wallet
+ * expects in a pass's `signature` file.
+ */
+export function signDetached(content: Buffer, signer: PassSigner, signedAt: Date = new Date()): Buffer {
+  const certificate = new X509Certificate(signer.certificate)
+  const wwdr = new X509Certificate(signer.wwdrCertificate)
+  const key = createPrivateKey({ key: signer.privateKey, passphrase: signer.privateKeyPassphrase || undefined })
+
+  // TBSCertificate: [0] version (v3 only), serialNumber, signature, issuer, ...
+  const tbs = derChildren(derChildren(certificate.raw)[0])
+  const first = tbs[0][0] === 0xa0 ? 1 : 0
+  const serial = tbs[first]
+  const issuer = tbs[first + 2]
+
+  const attributes = [
+    sequence(oid(OID.contentType), setOf(oid(OID.data))),
+    sequence(oid(OID.signingTime), setOf(utcTime(signedAt))),
+    sequence(oid(OID.messageDigest), setOf(octetString(createHash("sha256").update(content).digest()))),
+  ]
+  const signedAttributes = setOf(...attributes)
+  const isEc = key.asymmetricKeyType === "ec"
+  const signature = sign("sha256", signedAttributes, key)
+
+  const sha256 = sequence(oid(OID.sha256), NULL)
+  const signerInfo = sequence(
+    integer(1),
+    sequence(issuer, serial),
+    sha256,
+    // signedAttrs is [0] IMPLICIT: the SET with its tag swapped.
+    Buffer.concat([Buffer.from([0xa0]), signedAttributes.subarray(1)]),
+    isEc ? sequence(oid(OID.ecdsaWithSha256)) : sequence(oid(OID.rsaEncryption), NULL),
+    octetString(signature)
+  )
+  const signedData = sequence(
+    integer(1),
+    setOf(sha256),
+    sequence(oid(OID.data)),
+    der(0xa0, Buffer.concat([certificate.raw, wwdr.raw])),
+    setOf(signerInfo)
+  )
+  return sequence(oid(OID.signedData), der(0xa0, signedData))
+}
+
+// ── The pass ─────────────────────────────────────────────────────────
+
+/**
+ * Packages pass files (pass.json, icon.png, ...) into a signed .pkpass.
+ * `signedAt` is the manifest signature's signing time and the zip entries'
+ * modified time.
+ */
+export function createPkpass(files: Record<string, Buffer>, signer: PassSigner, signedAt: Date = new Date()): Buffer {
+  const manifest: Record<string, string> = {}
+  for (const [name, data] of Object.entries(files)) {
+    manifest[name] = createHash("sha1").update(data).digest("hex")
+  }
+  const manifestData = Buffer.from(JSON.stringify(manifest), "utf8")
+  return createZip(
+    [
+      ...Object.entries(files).map(([name, data]) => ({ name, data })),
+      { name: "manifest.json", data: manifestData },
+      { name: "signature", data: signDetached(manifestData, signer, signedAt) },
+    ],
+    signedAt
+  )
+}
@@ -0,0 +1,52 @@
+/**
+ * Outgoing webhook event types and delivery retry policy.
+ *
+ * Client-safe: the webhook settings page uses the catalog for endpoint
+ * subscriptions, and the outbox (services/webhook-outbox.ts) uses the same
+ * list and backoff when fanning out and retrying.
+ */
+
+export const WEBHOOK_EVENT_TYPES = {
+  "registration.created": "A new registration is created",
+  "registration.updated": "A registration is updated",
+  "speaker.responded": "A speaker accepts or declines an invitation",
+  "speaker.travel_submitted": "A speaker submits travel details",
+  "speaker.invitation_sent": "A speaker invitation is sent",
+  "booking.created": "A flight, hotel or transport booking is made",
+  "booking.updated": "A booking is changed",
+  "message.sent": "An email, WhatsApp or SMS is sent from Communications",
+  "webhook.test": "Test delivery from the webhook settings page",
+} as const
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES
+
+export function isWebhookEventType(value: string): value is WebhookEventType {
+  return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_TYPES, value)
+}
+
+/**
+ * An endpoint with no subscriptions receives every event type; test
+ * deliveries are only ever sent to the endpoint being tested.
+ */
+export function endpointWantsEvent(subscriptions: string[] | null | undefined, eventType: WebhookEventType): boolean {
+  if (eventType === "webhook.test") return false
+  if (!subscriptions || subscriptions.length === 0) return true
+  return subscriptions.includes(eventType)
+}
+
+// Attempt 1 is made inline when the event happens; the cron makes the rest.
+export const WEBHOOK_MAX_ATTEMPTS = 8
+
+const BASE_DELAY_MS = 5 * 60 * 1000
+const MAX_DELAY_MS = 6 * 60 * 60 * 1000
+
+/**
+ * Wait after failed attempt number `attempt` (1-based) before trying again:
+ * 5m, 10m, 20m, ... capped at 6h. Null once attempts are used up.
+ */
+export function webhookRetryDelayMs(attempt: number): number | null {
+  if (attempt >= WEBHOOK_MAX_ATTEMPTS) return null
+  return Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS)
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed"
@@ -1,95 +1,40 @@
 /**
  * Webhooks for external integrations (Boost.space, Zapier, Make, etc.)
- * Sends event data to configured webhook URLs
+ * Sends event data to the event's webhook endpoints and any configured
+ * webhook URLs, through the outbox so failed deliveries are retried.
+ * See services/webhook-outbox.ts.
  */
 
-type WebhookEvent =
-  | "registration.created"
-  | "registration.updated"
-  | "speaker.responded"
-  | "speaker.travel_submitted"
-  | "speaker.invitation_sent"
-  | "booking.created"
-  | "booking.updated"
+import { createAdminClient } from "@/lib/supabase/server"
+import { deploymentWebhookUrls, dispatchWebhook } from "@/lib/services/webhook-outbox"
+import type { WebhookEventType } from "@/lib/webhook-events"
 
 type WebhookPayload = {
-  event: WebhookEvent
+  event: WebhookEventType
   timestamp: string
   data: Record<string, any>
 }
 
-/**
- * Send data to a webhook URL
- */
-async function sendWebhook(url: string, payload: WebhookPayload): Promise<boolean> {
-  try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "X-Webhook-Event": payload.event,
-        "X-Webhook-Timestamp": payload.timestamp,
-      },
-      body: JSON.stringify(payload),
-    })
-
-    if (response.ok) {
-      console.log(`[Webhook] Sent ${payload.event} to ${url}`)
-      return true
-    } else {
-      console.error(`[Webhook] Failed ${payload.event} to ${url}: ${response.status}`)
-      return false
-    }
-  } catch (error) {
-    console.error(`[Webhook] Error sending ${payload.event}:`, error)
-    return false
-  }
-}
-
-/**
- * Get webhook URLs from environment
- * Format: WEBHOOK_URL_1, WEBHOOK_URL_2, etc. or comma-separated WEBHOOK_URLS
- */
-function getWebhookUrls(): string[] {
-  const urls: string[] = []
-
-  // Check for comma-separated URLs
-  if (process.env.WEBHOOK_URLS) {
-    urls.push(...process.env.WEBHOOK_URLS.split(",").map(u => u.trim()).filter(Boolean))
-  }
-
-  // Check for individual URLs
-  for (let i = 1; i <= 5; i++) {
-    const url = process.env[`WEBHOOK_URL_${i}`]
-    if (url) urls.push(url)
-  }
-
-  // Boost.space specific
-  if (process.env.BOOSTSPACE_WEBHOOK_URL) {
-    urls.push(process.env.BOOSTSPACE_WEBHOOK_URL)
-  }
-
-  return [...new Set(urls)] // Remove duplicates
-}
-
 /**
  * Trigger webhooks for an event
  */
-export async function triggerWebhook(event: WebhookEvent, data: Record<string, any>): Promise<void> {
-  const urls = getWebhookUrls()
-
-  if (urls.length === 0) {
-    return // No webhooks configured
-  }
-
+export async function triggerWebhook(
+  event: WebhookEventType,
+  data: { event_id: string } & Record<string, any>
+): Promise<void> {
   const payload: WebhookPayload = {
     event,
     timestamp: new Date().toISOString(),
     data,
   }
 
-  // Send to all webhook URLs in parallel
-  await Promise.allSettled(urls.map(url => sendWebhook(url, payload)))
+  const supabase = await createAdminClient()
+  await dispatchWebhook(supabase as any, {
+    eventId: data.event_id,
+    eventType: event,
+    payload,
+    deploymentWide: true,
+  })
 }
 
 /**
@@ -159,8 +104,8 @@ export async function webhookBookingCreated(data: {
 }
 
 /**
- * Check if webhooks are enabled
+ * Check if deployment-wide webhooks are configured
  */
 export function isWebhooksEnabled(): boolean {
-  return getWebhookUrls().length > 0
+  return deploymentWebhookUrls().length > 0
 }
@@ -1,5 +1,14 @@
 // Client-side ZPL generator for Zebra label printers
 // Extracted from /api/print-stations/zpl-print/route.ts for use in browser (iPad PWA)
+// Templates compile through badge-layout-compiler.ts, shared with TSPL.
+
+import {
+  compileBadgeLayout,
+  loadBadgeImages,
+  type BadgeImages,
+  type CompiledBadge,
+  type Rotation,
+} from "./badge-layout-compiler"
 
 export interface ZPLRegistration {
   attendee_name?: string
@@ -18,6 +27,7 @@ export interface ZPLStation {
   print_settings?: {
     paper_size?: string
     rotation?: number
+    dpi?: number
     [key: string]: any
   }
   events?: { id?: string; name?: string; short_name?: string } | null
@@ -126,80 +136,19 @@ function generateZPLFromTemplate(
   templateData: any,
   registration: ZPLRegistration,
   station: ZPLStation,
-  printMode?: "label" | "overlay" | "full_badge"
+  printMode?: "label" | "overlay" | "full_badge",
+  images?: BadgeImages
 ): string {
-  let elements = templateData.elements || []
   const settings = station?.print_settings || {}
-  const paperSize = settings.paper_size || "4x6"
-  const isOverlayMode = printMode === "overlay"
-
-  // Overlay mode: NO rotation (pre-printed stock orientation is fixed)
-  // Full badge/label: Use settings or default 180° for thermal printers
-  const rotation = isOverlayMode ? 0 : (settings.rotation ?? 180)
-
-  const dimensions = getLabelDimensions(paperSize)
-  const rotationCmd = rotation === 0 ? "^PON" : "^POI"
-
-  // Scale factor: template uses pixels, Zebra uses 203 DPI dots
-  const templateDims = getTemplateDimensions(paperSize)
-  const scaleX = dimensions.width / templateDims.width
-  const scaleY = dimensions.height / templateDims.height
-
-  // For overlay mode: only print variable data (text, QR, barcode)
-  if (isOverlayMode) {
-    elements = elements.filter((el: any) =>
-      el.type === "text" || el.type === "qr_code" || el.type === "barcode"
-    )
-  }
-
-  let zplElements = ""
-
-  const sortedElements = [...elements].sort((a: any, b: any) => (a.zIndex || 0) - (b.zIndex || 0))
-
-  for (const element of sortedElements) {
-    const x = Math.floor(element.x * scaleX)
-    const y = Math.floor(element.y * scaleY)
-    const width = Math.floor(element.width * scaleX)
-    const height = Math.floor(element.height * scaleY)
-
-    if (element.type === "text") {
-      const content = replacePlaceholders(element.content || "", registration, station)
-      // Scale font properly to match design
-      const scaledFontSize = Math.floor((element.fontSize || 14) * scaleY)
-      const fontHeight = Math.max(20, Math.min(scaledFontSize, 150))
-      const fontWidth = fontHeight
-
-      const align = element.align === "center" ? "C" : element.align === "right" ? "R" : "L"
-
-      // Calculate max lines based on element height and font size
-      const maxLines = Math.max(1, Math.floor(height / fontHeight))
-
-      zplElements += `^FO${x},${y}^A0N,${fontHeight},${fontWidth}^FB${width},${maxLines},0,${align}^FD${content}^FS\n`
-    } else if (element.type === "shape" && element.shapeType === "rectangle") {
-      const borderWidth = Math.max(1, Math.floor((element.borderWidth || 1) * scaleX))
-      zplElements += `^FO${x},${y}^GB${width},${height},${borderWidth}^FS\n`
-    } else if (element.type === "line") {
-      const lineThickness = Math.max(1, Math.floor(height))
-      zplElements += `^FO${x},${y}^GB${width},${lineThickness},${lineThickness}^FS\n`
-    } else if (element.type === "qr_code") {
-      const qrContent = replacePlaceholders(element.content || "", registration, station)
-      // QR magnification: use max (10) for best quality, ~25 modules typical
-      const magnification = 10
-      const actualQrSize = 25 * magnification // Approximate QR size in dots
-      // Center QR within its designed area
-      const qrX = x + Math.floor((width - actualQrSize) / 2)
-      const qrY = y + Math.floor((height - actualQrSize) / 2)
-      // ^BQ adds no quiet zone — guarantee >=4 modules (1 module = `magnification` dots)
-      // while keeping the code on-label (smallest stock is 4x2 = 812x406 dots).
-      const quiet = magnification * 4
-      const safeX = Math.min(Math.max(quiet, qrX), Math.max(quiet, dimensions.width - actualQrSize - quiet))
-      const safeY = Math.min(Math.max(quiet, qrY), Math.max(quiet, dimensions.height - actualQrSize - quiet))
-      zplElements += `^FO${safeX},${safeY}^BQN,2,${magnification}^FDQA,${qrContent}^FS\n`
-    } else if (element.type === "barcode") {
-      const barcodeContent = replacePlaceholders(element.content || "", registration, station)
-      zplElements += `^FO${x},${y}^BCN,${height},Y,N,N^FD${barcodeContent}^FS\n`
-    }
-  }
+  const layout = compileBadgeLayout(templateData, registration, {
+    paperSize: settings.paper_size || "4x6",
+    dpi: settings.dpi,
+    printMode,
+    rotation: settings.rotation,
+    eventName: station?.events?.name,
+    images,
+  })
+  const rotationCmd = layout.rotation === 0 ? "^PON" : "^POI"
 
   return [
     "^XA",
@@ -211,28 +160,88 @@ function generateZPLFromTemplate(
     "^LS0",            // Label shift left/right (adjust if needed)
     rotationCmd,
     "^LH0,0",          // Label home position
-    `^LL${dimensions.height}`,  // Label length
-    `^PW${dimensions.width}`,   // Print width
-    zplElements,
+    `^LL${layout.heightDots}`,  // Label length
+    `^PW${layout.widthDots}`,   // Print width
+    badgeLayoutToZPL(layout),
     "^PQ1,0,1,Y",      // Print quantity: 1 label, pause, cut
     "^XZ",
   ].join("\n")
 }
 
-// Replace placeholders with registration data
-function replacePlaceholders(text: string, registration: ZPLRegistration, station: ZPLStation): string {
-  if (!text) return ""
-  let result = text
-  result = result.replace(/\{\{name\}\}/gi, registration?.attendee_name || "")
-  result = result.replace(/\{\{registration_number\}\}/gi, registration?.registration_number || "")
-  result = result.replace(/\{\{ticket_type\}\}/gi, registration?.ticket_type || registration?.ticket_types?.name || "")
-  result = result.replace(/\{\{email\}\}/gi, registration?.attendee_email || "")
-  result = result.replace(/\{\{phone\}\}/gi, registration?.attendee_phone || "")
-  result = result.replace(/\{\{institution\}\}/gi, registration?.attendee_institution || "")
-  result = result.replace(/\{\{designation\}\}/gi, registration?.attendee_designation || "")
-  result = result.replace(/\{\{event_name\}\}/gi, station?.events?.name || "")
-  result = result.replace(/\{\{event_date\}\}/gi, "")
-  return result
+// Same as generateZPL, but decodes the template's images first so photos and
+// logos print as dithered graphics. Browser only (see loadBadgeImages).
+export async function generateZPLWithImages(
+  registration: ZPLRegistration,
+  station: ZPLStation,
+  badgeTemplate?: ZPLBadgeTemplate | null,
+  printMode?: "label" | "overlay" | "full_badge"
+): Promise<string> {
+  if (!badgeTemplate?.template_data || printMode === "overlay") {
+    return generateZPL(registration, station, badgeTemplate, printMode)
+  }
+  const images = await loadBadgeImages(badgeTemplate.template_data, { dpi: station?.print_settings?.dpi })
+  return generateZPLFromTemplate(badgeTemplate.template_data, registration, station, printMode, images)
+}
+
+const ZPL_ORIENTATION: Record<Rotation, string> = { 0: "N", 90: "R", 180: "I", 270: "B" }
+
+// ^FH makes "_" the hex escape, so "^" and "~" in attendee data can't be
+// read as commands
+function zplFieldData(text: string): string {
+  return "^FH^FD" + text.replace(/[_^~]/g, (c) => `_${c.charCodeAt(0).toString(16).toUpperCase()}`) + "^FS"
+}
+
+// Compiled badge ops as ZPL fields, without the ^XA/^XZ job wrapper -- each
+// caller keeps the media/darkness header its printer was calibrated with.
+export function badgeLayoutToZPL(layout: CompiledBadge): string {
+  const lines: string[] = []
+  for (const op of layout.ops) {
+    switch (op.kind) {
+      case "box": {
+        // ^GB rounding is 0-8, in eighths of half the shorter side
+        const half = Math.min(op.width, op.height) / 2
+        const rounding = op.radius > 0 ? Math.max(1, Math.min(8, Math.round((op.radius / half) * 8))) : 0
+        lines.push(`^FO${op.x},${op.y}^GB${op.width},${op.height},${op.thickness},B,${rounding}^FS`)
+        break
+      }
+      case "ellipse":
+        lines.push(`^FO${op.x},${op.y}^GE${op.width},${op.height},${op.thickness},B^FS`)
+        break
+      case "text": {
+        const align = op.align === "center" ? "C" : op.align === "right" ? "R" : "L"
+        // ^FB: "\&" is a line break, so a literal backslash must be doubled
+        const text = op.text.replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\&")
+        const field = `^A0${ZPL_ORIENTATION[op.rotation]},${op.fontHeight},${op.fontHeight}^FB${op.width},${op.lines},${op.lineSpacing},${align}${op.reverse ? "^FR" : ""}${zplFieldData(text)}`
+        lines.push(`^FO${op.x},${op.y}${field}`)
+        // ^A0 has no bold weight: strike it again a dot or two across
+        if (op.bold) {
+          const shift = Math.max(1, Math.round(op.fontHeight / 30))
+          const sideways = op.rotation === 90 || op.rotation === 270
+          lines.push(`^FO${op.x + (sideways ? 0 : shift)},${op.y + (sideways ? shift : 0)}${field}`)
+        }
+        break
+      }
+      case "qr":
+        lines.push(`^FO${op.x},${op.y}^BQN,2,${op.magnification}${zplFieldData(`QA,${op.data}`)}`)
+        break
+      case "barcode": {
+        const symbol = {
+          CODE128: `^BCN,${op.height},Y,N,N`,
+          CODE39: `^B3N,N,${op.height},Y,N`,
+          EAN13: `^BEN,${op.height},Y,N`,
+          UPC: `^BUN,${op.height},Y,N,Y`,
+        }[op.symbology]
+        lines.push(`^BY${op.moduleWidth},3^FO${op.x},${op.y}${symbol}${zplFieldData(op.data)}`)
+        break
+      }
+      case "bitmap": {
+        const hex = Array.from(op.data, (byte) => byte.toString(16).padStart(2, "0")).join("").toUpperCase()
+        lines.push(`^FO${op.x},${op.y}^GFA,${op.data.length},${op.data.length},${op.bytesPerRow},${hex}^FS`)
+        break
+      }
+    }
+  }
+  return lines.join("\n")
 }
 
 // Label dimensions in dots (203 DPI: 1 inch = 203 dots)
@@ -246,15 +255,3 @@ function getLabelDimensions(paperSize: string): { width: number; height: number
   }
   return sizes[paperSize] || sizes["4x6"]
 }
-
-// Template dimensions in pixels (for scaling)
-function getTemplateDimensions(paperSize: string): { width: number; height: number } {
-  const sizes: Record<string, { width: number; height: number }> = {
-    "4x2": { width: 384, height: 192 },
-    "4x3": { width: 384, height: 288 },
-    "4x6": { width: 384, height: 576 },
-    "a6": { width: 397, height: 559 },
-    "a5": { width: 559, height: 794 },
-  }
-  return sizes[paperSize] || sizes["4x6"]
-}
@@ -142,12 +142,14 @@ export async function middleware(request: NextRequest) {
     '/api/examination/examiner', // Examiner portal API (token-based)
     '/my',                  // Delegate portal (email/phone lookup, public)
     '/api/my',              // Delegate portal API
+    '/api/wallet',          // Apple Wallet pass web service (pass-token-gated in-route)
     '/convocation',         // Public convocation portal
     '/api/convocation',     // Public convocation lookup API
     '/api/sheet-webhook',   // AMASICON 2026 Google Sheets edit webhook (token-gated in-route)
     '/api/sheet-changes',   // AMASICON 2026 SSE stream to dashboard tabs
     '/api/sheet-write',     // AMASICON 2026 sheet write-back proxy (token-gated in-route)
     '/api/gmail-webhook',   // AMASICON 2026 Gmail-reply webhook (token-gated in-route)
+    '/api/v1',              // Public REST API (API-key-gated in-route)
   ]
   const _isPublicRoute = publicRoutes.some(
     (route) =>
@@ -25,6 +25,7 @@ export interface RecordedCall {
 const CHAIN_METHODS = [
   "select",
   "insert",
+  "upsert",
   "update",
   "delete",
   "eq",
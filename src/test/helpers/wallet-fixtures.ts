@@ -0,0 +1,29 @@
+import { readFileSync } from "fs"
+import path from "path"
+import type { AppleWalletConfig, GoogleWalletConfig } from "@/lib/tenant"
+
+// The throwaway signing certificates in src/test/fixtures/wallet (see its
+// README), shaped the way getWalletConfig() hands real ones to the wallet code.
+
+export function walletFixture(name: string): string {
+  return readFileSync(path.resolve(__dirname, "../fixtures/wallet", name), "utf8")
+}
+
+export function fixtureAppleConfig(): AppleWalletConfig {
+  return {
+    passTypeIdentifier: "pass.org.example.test",
+    teamIdentifier: "TEAM123456",
+    certificate: walletFixture("pass-signer.pem"),
+    privateKey: walletFixture("pass-signer-key.pem"),
+    privateKeyPassphrase: null,
+    wwdrCertificate: walletFixture("wwdr-ca.pem"),
+  }
+}
+
+export function fixtureGoogleConfig(): GoogleWalletConfig {
+  return {
+    issuerId: "3388000000012345678",
+    serviceAccountEmail: "wallet@example-project.iam.gserviceaccount.com",
+    privateKey: walletFixture("google-service-account-key.pem"),
+  }
+}
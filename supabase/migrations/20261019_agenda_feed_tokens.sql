@@ -0,0 +1,16 @@
+-- Read-only tokens for the personal agenda calendar feed.
+-- The webcal:// feed at /api/my/agenda/calendar used to carry the
+-- registration's checkin_token, which also checks the delegate in, downloads
+-- their badge and files badge corrections -- and calendar apps store and sync
+-- feed URLs indefinitely. The feed now takes its own token that only reads
+-- the agenda. It is issued the first time the delegate's agenda is loaded
+-- and replaced (revoking the old URL) when they reset their calendar link
+-- from the portal. See src/lib/services/personal-agenda.ts.
+
+alter table registrations add column if not exists agenda_feed_token text;
+
+comment on column registrations.agenda_feed_token is
+  'Secret in the delegate''s agenda calendar feed URL. Grants read access to their bookmarked sessions only; null until first issued.';
+
+create unique index if not exists registrations_agenda_feed_token_key
+  on registrations (agenda_feed_token) where agenda_feed_token is not null;
@@ -0,0 +1,35 @@
+-- Public API (v1) keys. The api_keys table already appears in the generated
+-- types but had no migration; create it if missing, then add what the API
+-- needs: the event a key is scoped to, its scopes ('<permission>:read' or
+-- ':write', permission names as in route-permissions.ts), an optional
+-- per-key rate limit and an optional expiry.
+--
+-- Only the SHA-256 of a key is stored; key_prefix keeps the first few
+-- characters so admins can tell keys apart.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  created_by UUID,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE CASCADE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT '{}';
+-- Requests per minute; null uses the 'api' rate limit tier
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_limit_per_minute INTEGER
+  CHECK (rate_limit_per_minute IS NULL OR rate_limit_per_minute > 0);
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_api_keys_key_hash ON api_keys(key_hash);
+CREATE INDEX IF NOT EXISTS idx_api_keys_event ON api_keys(event_id);
+
+-- Accessed only through service-role API routes
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON COLUMN api_keys.scopes IS 'e.g. {registrations:read,checkin:write}; write implies read';
@@ -0,0 +1,32 @@
+-- Audience segments: saved, reusable recipient rules for communications.
+--
+--   audience_segments   a named rule tree over an event's registrations
+--   campaigns.segment_id the segment a campaign's recipients were taken from
+--
+-- The definition is evaluated by the app (lib/audience-segments.ts) when a
+-- segment is counted, exported or sent to, so it always reflects current data.
+
+CREATE TABLE IF NOT EXISTS audience_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- { "match": "all" | "any", "rules": [ rule | group, ... ] }
+  definition JSONB NOT NULL DEFAULT '{"match": "all", "rules": []}',
+  -- Cached from the last time the segment was resolved
+  last_count INTEGER,
+  last_counted_at TIMESTAMPTZ,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audience_segments_event ON audience_segments(event_id, name);
+
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS segment_id UUID REFERENCES audience_segments(id) ON DELETE SET NULL;
+
+-- Accessed only through service-role API routes
+ALTER TABLE audience_segments ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE audience_segments IS 'Saved recipient rules (ticket, payment, check-in, add-ons, abstracts, faculty role, forms, membership) for communications';
@@ -0,0 +1,43 @@
+-- Badge correction requests from the delegate portal (/my).
+-- Delegates usually notice a misspelt name or institution only when they
+-- collect the printed badge. They can now preview their badge with the
+-- event's template and ask for a correction; staff approve or reject it in
+-- the delegate portal's Badges queue. Approving one:
+--   * writes the corrected fields to the registration,
+--   * invalidates the stored badge (generated_badges rows and
+--     registrations.badge_url / badge_generated_at), so the next download
+--     renders the corrected details,
+--   * and, when the delegate already had a badge printed, queues a reprint
+--     (reason details_changed) at the print station serving their check-in
+--     list. See src/lib/badge-corrections.ts.
+
+create table if not exists badge_correction_requests (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  registration_id uuid not null references registrations(id) on delete cascade,
+  -- pending -> approved | rejected
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  -- Only the fields being corrected, e.g. {"attendee_name": "Dr. A. Kumar"}.
+  requested_changes jsonb not null,
+  -- The same fields as they were when the request was made, so the queue
+  -- can show a before/after and approval can spot a registration edited since.
+  previous_values jsonb not null,
+  delegate_note text,
+  review_note text,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  -- The reprint queued on approval, if any.
+  print_job_id uuid references print_jobs(id) on delete set null,
+  print_station_id uuid references print_stations(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+-- One open request per delegate; they can ask again once it's reviewed.
+create unique index if not exists badge_correction_requests_one_pending
+  on badge_correction_requests (registration_id) where status = 'pending';
+create index if not exists badge_correction_requests_event_idx
+  on badge_correction_requests (event_id, status, created_at);
+
+alter table badge_correction_requests enable row level security;
+-- Accessed only through service-role API routes (default-deny).
@@ -0,0 +1,46 @@
+-- Badge template version history.
+--
+--   badge_template_versions  a snapshot of a template's design every time it
+--                            is created, saved with design changes, or
+--                            rolled back; version 1 is the first snapshot
+--   badge_templates          current_version, the snapshot it matches
+--
+-- Snapshots are never edited. A rollback copies an old snapshot back onto
+-- the template and records it as a new version, so history only grows.
+-- The diff between two snapshots is computed by the app
+-- (src/lib/badge-template-versions.ts).
+
+CREATE TABLE IF NOT EXISTS badge_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES badge_templates(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  size VARCHAR(20),
+  template_image_url TEXT,
+  template_data JSONB NOT NULL DEFAULT '{}',
+  -- e.g. "Restored from v3"
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (template_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_badge_template_versions_template
+  ON badge_template_versions(template_id, version DESC);
+
+ALTER TABLE badge_templates ADD COLUMN IF NOT EXISTS current_version INTEGER;
+
+-- Existing templates start their history at what they look like today
+INSERT INTO badge_template_versions (template_id, event_id, version, name, size, template_image_url, template_data, note, created_at)
+SELECT t.id, t.event_id, 1, t.name, t.size, t.template_image_url, COALESCE(t.template_data, '{}'::jsonb), 'Design before version history', COALESCE(t.updated_at, t.created_at, NOW())
+FROM badge_templates t
+WHERE NOT EXISTS (SELECT 1 FROM badge_template_versions v WHERE v.template_id = t.id);
+
+UPDATE badge_templates SET current_version = 1 WHERE current_version IS NULL;
+
+-- Accessed only through service-role API routes
+ALTER TABLE badge_template_versions ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE badge_template_versions IS 'Immutable snapshots of badge template designs, for history, diff and rollback';
+COMMENT ON COLUMN badge_templates.current_version IS 'The badge_template_versions.version the current design was saved as';
@@ -0,0 +1,67 @@
+-- Campaign scheduler: a compose send becomes a campaign whose recipients are
+-- sent in throttled chunks by the campaigns cron, instead of one long request.
+--
+--   campaigns            the message, schedule and run state (existing table)
+--   campaign_recipients  one row per registration: send state + retry schedule
+--   message_logs         every attempt, tagged with its campaign
+--
+-- Per-provider send rates live in communication_settings.campaign_throttles.
+
+ALTER TABLE campaigns
+  ADD COLUMN IF NOT EXISTS subject TEXT,
+  ADD COLUMN IF NOT EXISTS message_body TEXT,
+  ADD COLUMN IF NOT EXISTS message_template_id UUID REFERENCES message_templates(id) ON DELETE SET NULL,
+  -- Provider the campaign sends through, resolved when it was created
+  ADD COLUMN IF NOT EXISTS provider TEXT,
+  ADD COLUMN IF NOT EXISTS total_skipped INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ,
+  -- Why the runner paused the campaign on its own (e.g. provider not configured)
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_campaigns_due
+  ON campaigns(scheduled_at)
+  WHERE status IN ('scheduled', 'sending');
+
+CREATE TABLE IF NOT EXISTS campaign_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES campaigns(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  registration_id UUID REFERENCES registrations(id) ON DELETE SET NULL,
+  recipient_name TEXT,
+  -- Email or phone as it was when the campaign was created
+  recipient TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sending', 'retrying', 'sent', 'failed', 'skipped', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Due time for queued/retrying rows; the claim lease while sending
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (campaign_id, registration_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_due
+  ON campaign_recipients(campaign_id, next_attempt_at)
+  WHERE status IN ('queued', 'sending', 'retrying');
+CREATE INDEX IF NOT EXISTS idx_campaign_recipients_status
+  ON campaign_recipients(campaign_id, status);
+
+ALTER TABLE message_logs
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_message_logs_campaign
+  ON message_logs(campaign_id, registration_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- { "resend": 100, "gallabox": 60, ... } sends per minute; missing keys use the defaults
+ALTER TABLE communication_settings
+  ADD COLUMN IF NOT EXISTS campaign_throttles JSONB NOT NULL DEFAULT '{}';
+
+-- Accessed only through service-role API routes
+ALTER TABLE campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE campaign_recipients IS 'Per-recipient send state of a campaign, worked through by the campaigns cron';
@@ -0,0 +1,47 @@
+-- Per-day entitlement rules and daily scan limits on check-in lists.
+-- A checkin_lists row so far gates only on ticket_type_ids/addon_ids for the
+-- whole event, plus the soft starts_at/ends_at warning. Multi-day events need
+-- "Day 2 only for workshop tickets" and "one lunch coupon per day" on a
+-- single list, so a list can now carry:
+--   entitlement_rules  -- who may scan on which event day (ticket types,
+--                         add-ons from registration_addons, meal plans from
+--                         meal_registrations); see src/lib/checkin-entitlements.ts
+--   max_scans_per_day  -- how many admitted scans each delegate gets per
+--                         event day, counted in checkin_entitlement_uses.
+-- A list with neither behaves exactly as before.
+
+alter table checkin_lists add column if not exists entitlement_rules jsonb not null default '[]'::jsonb;
+alter table checkin_lists add column if not exists max_scans_per_day integer
+  check (max_scans_per_day is null or max_scans_per_day > 0);
+
+comment on column checkin_lists.entitlement_rules is
+  'Array of {day, ticket_type_ids, addon_ids, meal_plan_ids}. A delegate may scan on a day when any rule for that day (or for every day, day null) matches them.';
+comment on column checkin_lists.max_scans_per_day is
+  'Admitted scans per delegate per event day (in the event timezone). Null means the usual one check-in per list.';
+
+-- One row per admitted scan on a list with max_scans_per_day. checkin_records
+-- still holds the single per-list check-in row; this is the per-day counter.
+create table if not exists checkin_entitlement_uses (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  checkin_list_id uuid not null references checkin_lists(id) on delete cascade,
+  registration_id uuid not null references registrations(id) on delete cascade,
+  -- The event-timezone calendar day of scanned_at.
+  use_date date not null,
+  -- The tablet's clock for kiosk scans taken offline, otherwise now().
+  scanned_at timestamptz not null default now(),
+  -- Kiosk scans only: makes a retried upload of the same scan idempotent.
+  scan_id uuid,
+  station_id uuid references kiosk_stations(id) on delete set null,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists checkin_entitlement_uses_scan_id_key
+  on checkin_entitlement_uses (scan_id) where scan_id is not null;
+create index if not exists checkin_entitlement_uses_day_idx
+  on checkin_entitlement_uses (checkin_list_id, registration_id, use_date);
+
+alter table checkin_entitlement_uses enable row level security;
+-- Accessed only through service-role API routes (default-deny, same as
+-- checkin_records).
@@ -0,0 +1,33 @@
+-- Daily scan limits enforced by the database, not just by the route.
+-- /api/checkin, /api/kiosk/checkin and /api/verify/[token] counted today's
+-- checkin_entitlement_uses and then inserted one, so two desks scanning the
+-- same delegate at the same moment could both see "0 of 1" and both admit.
+-- Each use now takes a numbered slot (1..max_scans_per_day) for its list,
+-- delegate and day; the unique index below lets only one scan hold a slot,
+-- and a scan that finds every slot up to the limit taken is refused. See
+-- claimEntitlementUse in src/lib/services/checkin-entitlements.ts.
+
+alter table checkin_entitlement_uses add column if not exists slot integer;
+
+-- Number the uses recorded before this migration in scan order.
+update checkin_entitlement_uses u
+set slot = numbered.slot
+from (
+  select id, row_number() over (
+    partition by checkin_list_id, registration_id, use_date
+    order by scanned_at, created_at, id
+  ) as slot
+  from checkin_entitlement_uses
+) numbered
+where numbered.id = u.id
+  and u.slot is null;
+
+alter table checkin_entitlement_uses alter column slot set not null;
+alter table checkin_entitlement_uses drop constraint if exists checkin_entitlement_uses_slot_check;
+alter table checkin_entitlement_uses add constraint checkin_entitlement_uses_slot_check check (slot > 0);
+
+comment on column checkin_entitlement_uses.slot is
+  'Which of the day''s max_scans_per_day uses this is. Unique per list, registration and use_date.';
+
+create unique index if not exists checkin_entitlement_uses_slot_key
+  on checkin_entitlement_uses (checkin_list_id, registration_id, use_date, slot);
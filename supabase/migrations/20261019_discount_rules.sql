@@ -0,0 +1,59 @@
+-- Automatic discount rules, priced by src/lib/discount-rules.ts.
+--
+-- Unlike discount_codes these apply without the customer typing anything:
+--   early_bird  tiers = [{ ends_at, discount_value }], earliest open tier wins
+--   group       tiers = [{ min_quantity, discount_value }], largest reached wins
+--   member      discount_value, for payers found in the members table
+--   bundle      any of bundle_ticket_ids bought with every bundle_addon_ids
+--
+-- Fixed values are per qualifying ticket (per bundle for bundles).
+-- stacking = 'combinable' rules add up; an 'exclusive' rule only applies
+-- alone, and checkout picks whichever option saves the customer more.
+-- Codes get the same stacking flag.
+--
+-- Each order/payment stores the discounts that were applied in
+-- discount_breakdown so receipts and reports can explain the final price.
+
+CREATE TABLE IF NOT EXISTS discount_rules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('early_bird', 'group', 'member', 'bundle')),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value NUMERIC(10,2) NOT NULL DEFAULT 0,
+  max_discount_amount NUMERIC(10,2),
+  tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  applies_to_ticket_ids UUID[],
+  bundle_ticket_ids UUID[],
+  bundle_addon_ids UUID[],
+  stacking TEXT NOT NULL DEFAULT 'combinable' CHECK (stacking IN ('combinable', 'exclusive')),
+  priority INTEGER NOT NULL DEFAULT 0,
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_discount_rules_event ON discount_rules(event_id, is_active);
+
+ALTER TABLE discount_rules ENABLE ROW LEVEL SECURITY;
+-- No public policies; pricing runs server-side with the admin client.
+
+ALTER TABLE discount_codes
+  ADD COLUMN IF NOT EXISTS stacking TEXT NOT NULL DEFAULT 'combinable';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'discount_codes_stacking_check'
+  ) then
+    alter table discount_codes
+      add constraint discount_codes_stacking_check check (stacking in ('combinable', 'exclusive'));
+  end if;
+end $$;
+
+-- [{ source: 'rule'|'code', id, name, type, amount }]
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS discount_breakdown JSONB;
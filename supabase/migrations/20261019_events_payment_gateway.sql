@@ -0,0 +1,25 @@
+-- Per-event payment gateway choice.
+--
+-- Companion code in src/lib/services/payment-gateway-registry.ts resolves
+-- this name to a PaymentGatewayService implementation (razorpay.ts,
+-- icici.ts) for order creation, webhooks, refunds and reconciliation.
+--
+-- Default is 'razorpay' so every existing event keeps its current behaviour
+-- without a backfill. Adding a gateway means widening the check below in the
+-- same migration that adds its credential columns.
+
+alter table public.events
+  add column if not exists payment_gateway text not null default 'razorpay';
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'events_payment_gateway_check'
+      and conrelid = 'public.events'::regclass
+  ) then
+    alter table public.events
+      add constraint events_payment_gateway_check
+      check (payment_gateway in ('razorpay', 'icici'));
+  end if;
+end $$;
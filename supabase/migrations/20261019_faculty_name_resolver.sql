@@ -0,0 +1,32 @@
+-- Faculty-name resolver review queue.
+-- 1,242 sessions are staffed only in free text (speakers / chairpersons /
+-- moderators). The resolver proposes faculty_assignments rows for those names
+-- and a coordinator accepts or rejects each one; nothing is written without
+-- that. See src/lib/faculty-name-resolver.ts.
+--
+-- Accepted rows keep their provenance so Open Slots can tell them from
+-- hand-made ones: a block only stops being `unverified` once every name in its
+-- text has been accepted (isTextReconciled).
+
+alter table faculty_assignments add column if not exists match_source text;
+alter table faculty_assignments add column if not exists match_confidence smallint;
+-- The free-text name the row was resolved from, verbatim.
+alter table faculty_assignments add column if not exists match_text text;
+
+-- Proposals a coordinator turned down, so the queue doesn't offer them again.
+create table if not exists faculty_match_rejections (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  session_id uuid not null references sessions(id) on delete cascade,
+  role text not null,
+  text_name text not null,
+  faculty_id uuid references faculty(id) on delete cascade,
+  registration_id uuid references registrations(id) on delete cascade,
+  rejected_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists faculty_match_rejections_event_idx on faculty_match_rejections (event_id);
+
+alter table faculty_match_rejections enable row level security;
+-- Accessed only through service-role API routes (default-deny).
@@ -0,0 +1,54 @@
+-- Kiosk fleet console: device telemetry + remote commands.
+-- Every station-shell tablet now posts a heartbeat (/api/kiosk/heartbeat)
+-- every ~30s with what only the device itself knows -- app build, roster
+-- cache age, unsynced/conflicted scans from its IndexedDB scan log, battery
+-- -- and picks up any commands an admin has queued for it in the same round
+-- trip. last_seen_at keeps its existing meaning (any authenticated contact,
+-- see /api/kiosk/delegates); telemetry_at is specifically "last heartbeat",
+-- so a tablet stuck on an old build that never heartbeats still reads as
+-- online-but-silent rather than vanishing from the status dot.
+
+alter table kiosk_stations
+  add column if not exists app_version text,
+  add column if not exists device_id text,
+  add column if not exists cache_updated_at timestamptz,
+  add column if not exists pending_scans integer,
+  add column if not exists conflict_scans integer,
+  add column if not exists battery_level numeric(4, 3),
+  add column if not exists battery_charging boolean,
+  add column if not exists current_list_id uuid references checkin_lists(id) on delete set null,
+  add column if not exists telemetry_at timestamptz,
+  -- Admin-held screen lock. Set by the lock_screen/unlock_screen commands at
+  -- queue time and echoed back on every heartbeat, so a locked tablet that
+  -- reloads (or reconnects after the command itself expired) comes back
+  -- locked instead of silently unlocking itself.
+  add column if not exists locked boolean not null default false;
+
+create table if not exists kiosk_station_commands (
+  id uuid primary key default gen_random_uuid(),
+  station_id uuid not null references kiosk_stations(id) on delete cascade,
+  event_id uuid not null references events(id) on delete cascade,
+  command text not null check (command in (
+    'refresh_manifest', 'clear_cache', 'force_sync', 'reload', 'lock_screen', 'unlock_screen', 'switch_list'
+  )),
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'acked', 'failed', 'expired')),
+  result text,
+  created_by uuid,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz,
+  completed_at timestamptz
+);
+
+create index if not exists kiosk_station_commands_pending_idx
+  on kiosk_station_commands (station_id, created_at) where status = 'pending';
+create index if not exists kiosk_station_commands_event_idx
+  on kiosk_station_commands (event_id, created_at desc);
+
+alter table kiosk_station_commands enable row level security;
+-- Accessed only through service-role API routes, same default-deny stance
+-- as kiosk_stations itself.
+
+comment on column kiosk_stations.telemetry_at is 'Last /api/kiosk/heartbeat from the device; the other telemetry columns are as of this time';
+comment on column kiosk_stations.locked is 'Admin-held screen lock, re-applied by the device on every heartbeat';
+comment on table kiosk_station_commands is 'Remote commands queued for a kiosk tablet, delivered on its next heartbeat';
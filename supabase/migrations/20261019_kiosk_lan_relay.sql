@@ -0,0 +1,21 @@
+-- Optional venue-LAN relay for kiosk tablets (scripts/kiosk-relay.mjs,
+-- src/lib/kiosk-relay.ts). When the venue internet drops, tablets on the
+-- same network exchange scans and badge prints through it so a delegate
+-- who collected at one desk isn't treated as uncollected at the next.
+--
+-- Both columns are handed to every station in its manifest
+-- (/api/kiosk/station-manifest) and cached on-device, so a tablet that
+-- cold-starts offline still finds the relay. The key is a shared secret the
+-- relay checks on every request -- generated on the Fleet page and passed
+-- to the relay process as KIOSK_RELAY_KEY. NULL url = no relay (default).
+--
+-- Additive only, nullable, no backfill needed.
+
+alter table event_settings
+  add column if not exists kiosk_relay_url text,
+  add column if not exists kiosk_relay_key text;
+
+comment on column event_settings.kiosk_relay_url is
+  'Base URL of the venue-LAN kiosk relay (e.g. https://192.168.1.20:3012). NULL = no relay.';
+comment on column event_settings.kiosk_relay_key is
+  'Shared secret kiosk tablets send to the LAN relay (X-Relay-Key); must match the relay''s KIOSK_RELAY_KEY.';
@@ -0,0 +1,53 @@
+-- Kiosk offline-sync conflicts, reviewable by admins.
+-- A "conflict" is a scan the tablet showed as a fresh check-in while offline,
+-- which the server later answered with alreadyCheckedIn=true on sync (see
+-- src/lib/kiosk-sync-worker.ts). Until now that only ever lived in the
+-- device's own IndexedDB scan_log -- the server kept just its side, as a
+-- duplicate row in checkin_audit_log. Devices now upload their conflict
+-- entries (/api/kiosk/conflicts) so the admin console can show both halves
+-- side by side: what the attendee saw, and what the server decided.
+--
+-- One row per device-reported scan (source = 'device', keyed by scan_id),
+-- plus one row per server-only duplicate an admin has resolved
+-- (source = 'audit', keyed by audit_log_id) -- an unresolved server-only
+-- duplicate needs no row, the console reads it straight from the audit log.
+-- Resolving never deletes anything: 'voided' reverses the surviving
+-- checkin_records row through its existing reversed_at columns, and 'merged'
+-- moves that row's time/station to the earlier of the two scans.
+
+create table if not exists kiosk_scan_conflicts (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  source text not null check (source in ('device', 'audit')),
+  station_id uuid references kiosk_stations(id) on delete set null,
+  device_id text,
+  scan_id uuid,
+  audit_log_id uuid,
+  checkin_list_id uuid references checkin_lists(id) on delete cascade,
+  registration_id uuid references registrations(id) on delete cascade,
+  scanned_at timestamptz,
+  device_snapshot jsonb,
+  server_response jsonb,
+  status text not null default 'open' check (status in ('open', 'accepted', 'voided', 'merged')),
+  resolution_note text,
+  resolved_by uuid references users(id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Plain (not partial) unique indexes: NULLs never collide anyway, and the
+-- upload route's upsert needs an index ON CONFLICT (scan_id) can infer.
+create unique index if not exists kiosk_scan_conflicts_scan_id_key
+  on kiosk_scan_conflicts (scan_id);
+create unique index if not exists kiosk_scan_conflicts_audit_log_id_key
+  on kiosk_scan_conflicts (audit_log_id);
+create index if not exists kiosk_scan_conflicts_event_idx
+  on kiosk_scan_conflicts (event_id, status);
+
+alter table kiosk_scan_conflicts enable row level security;
+-- Accessed only through service-role API routes (default-deny, same as
+-- kiosk_stations).
+
+comment on table kiosk_scan_conflicts is 'Kiosk scans the server disagreed with, uploaded by devices or resolved from checkin_audit_log duplicates';
+comment on column kiosk_scan_conflicts.device_snapshot is 'The cached delegate the tablet matched and showed, as uploaded by the device';
+comment on column kiosk_scan_conflicts.server_response is 'The /api/kiosk/checkin response the device received on sync';
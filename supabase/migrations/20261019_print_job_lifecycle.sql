@@ -0,0 +1,97 @@
+-- Print job lifecycle: leased claims, zones, reprint reasons, printer health.
+--
+--   print_jobs      queued -> claimed -> printing -> completed | failed, where
+--                   a claim is a lease the agent renews while it works; an
+--                   expired lease puts the job back up for grabs
+--   print_stations  zone (stations in one zone share a queue) and the last
+--                   health report from the station's print agent
+--
+-- The transition rules live in src/lib/print-queue.ts.
+
+ALTER TABLE print_stations ADD COLUMN IF NOT EXISTS zone VARCHAR(100);
+ALTER TABLE print_stations ADD COLUMN IF NOT EXISTS agent_id VARCHAR(255);
+ALTER TABLE print_stations ADD COLUMN IF NOT EXISTS agent_last_seen_at TIMESTAMPTZ;
+-- ready | paper_out | ribbon_out | head_open | paused | offline | error
+ALTER TABLE print_stations ADD COLUMN IF NOT EXISTS printer_state VARCHAR(20);
+ALTER TABLE print_stations ADD COLUMN IF NOT EXISTS printer_message TEXT;
+ALTER TABLE print_stations ADD COLUMN IF NOT EXISTS printer_state_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_print_stations_zone
+  ON print_stations(event_id, zone) WHERE zone IS NOT NULL;
+
+ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS claimed_by_station_id UUID REFERENCES print_stations(id) ON DELETE SET NULL;
+ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+-- damaged | misprint | lost | details_changed | category_changed | other
+ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS reprint_reason VARCHAR(30);
+ALTER TABLE print_jobs ADD COLUMN IF NOT EXISTS reprint_note TEXT;
+
+-- Leases the claim function sweeps for expiry
+CREATE INDEX IF NOT EXISTS idx_print_jobs_leased
+  ON print_jobs(lease_expires_at) WHERE status IN ('claimed', 'printing');
+
+-- Claims up to p_limit jobs for one station's agent: the oldest queued jobs
+-- from the station itself or any station in its zone, plus jobs whose lease
+-- ran out. A job that has used up its attempts is failed instead of being
+-- handed out again. SKIP LOCKED keeps two agents polling at the same moment
+-- from claiming the same job.
+CREATE OR REPLACE FUNCTION claim_print_jobs(
+  p_station_id UUID,
+  p_agent_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 60,
+  p_max_attempts INTEGER DEFAULT 3
+)
+RETURNS SETOF print_jobs AS $$
+DECLARE
+  v_event UUID;
+  v_zone TEXT;
+BEGIN
+  SELECT event_id, zone INTO v_event, v_zone FROM print_stations WHERE id = p_station_id;
+  IF v_event IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE print_jobs j
+  SET status = 'failed',
+      lease_expires_at = NULL,
+      error_message = COALESCE(j.error_message, 'Print agent stopped responding')
+  FROM print_stations s
+  WHERE s.id = j.print_station_id
+    AND (s.id = p_station_id OR (v_zone IS NOT NULL AND s.event_id = v_event AND s.zone = v_zone))
+    AND j.status IN ('claimed', 'printing')
+    AND j.lease_expires_at < NOW()
+    AND j.attempts >= p_max_attempts;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT j.id
+    FROM print_jobs j
+    JOIN print_stations s ON s.id = j.print_station_id
+    WHERE (s.id = p_station_id OR (v_zone IS NOT NULL AND s.event_id = v_event AND s.zone = v_zone))
+      AND (
+        j.status = 'queued'
+        OR (j.status IN ('claimed', 'printing') AND j.lease_expires_at < NOW())
+      )
+    ORDER BY j.created_at
+    LIMIT p_limit
+    FOR UPDATE OF j SKIP LOCKED
+  )
+  UPDATE print_jobs j
+  SET status = 'claimed',
+      claimed_by_station_id = p_station_id,
+      agent_id = p_agent_id,
+      claimed_at = NOW(),
+      picked_up_at = NOW(),
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + 1
+  FROM candidates c
+  WHERE j.id = c.id
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN print_jobs.lease_expires_at IS 'When a claimed job may be taken over by another agent; renewed on every progress report';
+COMMENT ON COLUMN print_jobs.reprint_reason IS 'Why a badge was printed again; required when print_number > 1';
+COMMENT ON COLUMN print_stations.zone IS 'Stations sharing a zone take jobs from one another''s queue';
@@ -0,0 +1,16 @@
+-- Claim program change notices before sending them.
+-- The program-change-notices cron read pending rows and sent them, so two
+-- overlapping runs could both pick up the same notice and send it twice. A
+-- run now moves the rows it is about to send to 'sending' with a lease, and
+-- only the run whose update matched sends them. A row whose lease ran out
+-- (the run died mid-send) is picked up again by a later run. See
+-- deliverProgramChangeNotices in src/lib/services/program-publication.ts.
+
+alter table program_change_notices drop constraint if exists program_change_notices_status_check;
+alter table program_change_notices add constraint program_change_notices_status_check
+  check (status in ('pending', 'sending', 'sent', 'failed', 'skipped'));
+
+alter table program_change_notices add column if not exists lease_expires_at timestamptz;
+
+create index if not exists program_change_notices_sending_idx
+  on program_change_notices (lease_expires_at) where status = 'sending';
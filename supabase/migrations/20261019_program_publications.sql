@@ -0,0 +1,63 @@
+-- Program change propagation.
+-- Each publish of an agenda freezes it into agenda_snapshots; the diff against
+-- the previous snapshot (moved / renamed / re-halled / cancelled sessions,
+-- faculty added / removed) is stored alongside and drives both the public
+-- changelog and the notices below. See src/lib/program-diff.ts.
+
+create table if not exists agenda_snapshots (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  approval_log_id uuid references agenda_approval_log(id) on delete set null,
+  -- 1 for the first publish. Also the calendar SEQUENCE sent with updated .ics files.
+  sequence integer not null,
+  snapshot jsonb not null,
+  changes jsonb not null default '[]'::jsonb,
+  published_by text,
+  created_at timestamptz not null default now(),
+  unique (event_id, sequence)
+);
+
+-- One row per person to tell about a publication, composed when it is
+-- published and sent by the program-change-notices cron.
+create table if not exists program_change_notices (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  snapshot_id uuid not null references agenda_snapshots(id) on delete cascade,
+  recipient_kind text not null check (recipient_kind in ('faculty', 'delegate')),
+  recipient_name text not null,
+  recipient_email text,
+  recipient_phone text,
+  registration_id uuid references registrations(id) on delete set null,
+  session_ids uuid[] not null default '{}',
+  subject text not null,
+  message text not null,
+  -- Updated calendar entries, attached when the notice goes by email.
+  ics text,
+  status text not null default 'pending' check (status in ('pending', 'sent', 'failed', 'skipped')),
+  channel text,
+  error_message text,
+  sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists program_change_notices_pending_idx on program_change_notices (created_at) where status = 'pending';
+create index if not exists program_change_notices_snapshot_idx on program_change_notices (snapshot_id);
+
+-- Sessions a delegate has bookmarked, so changes to them reach the delegate.
+create table if not exists session_bookmarks (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  -- No foreign key: a bookmark on a deleted session has to outlive it until
+  -- the next publish has told the delegate it was cancelled.
+  session_id uuid not null,
+  registration_id uuid not null references registrations(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (session_id, registration_id)
+);
+
+create index if not exists session_bookmarks_event_idx on session_bookmarks (event_id);
+
+alter table agenda_snapshots enable row level security;
+alter table program_change_notices enable row level security;
+alter table session_bookmarks enable row level security;
+-- Accessed only through service-role API routes (default-deny).
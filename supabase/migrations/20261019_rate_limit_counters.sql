@@ -0,0 +1,75 @@
+-- Shared counters for the Postgres rate-limit store (src/lib/rate-limit.ts).
+--
+-- The default in-memory store keeps one counter per serverless instance, so
+-- on Vercel a limit of 5/minute is really 5/minute per warm instance. With
+-- RATE_LIMIT_STORE=postgres every instance counts against these rows instead.
+--
+-- Sliding-window counter: one row per (key, fixed window). rate_limit_hit()
+-- bumps the current window atomically and returns it with the previous
+-- window's count; the caller weights the previous window by how much of it
+-- still overlaps the sliding window. Two rows per key, no per-request log.
+--
+-- Rows are drained by expires_at; rate_limit_hit() deletes a batch of expired
+-- rows on roughly 1 in 100 calls, so no cron is needed.
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key           TEXT NOT NULL,
+  window_start  TIMESTAMPTZ NOT NULL,
+  count         INT NOT NULL DEFAULT 0,
+  expires_at    TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires
+  ON rate_limit_counters(expires_at);
+
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+-- No public policies; admin client bypasses RLS.
+
+COMMENT ON TABLE rate_limit_counters IS
+  'Per-window request counts for the distributed rate limiter. Drained by TTL.';
+
+CREATE OR REPLACE FUNCTION rate_limit_hit(
+  p_key TEXT,
+  p_window_start TIMESTAMPTZ,
+  p_window_ms INTEGER
+)
+RETURNS TABLE (current_count INTEGER, previous_count INTEGER) AS $$
+DECLARE
+  v_window INTERVAL := make_interval(secs => p_window_ms / 1000.0);
+  v_current INTEGER;
+  v_previous INTEGER;
+BEGIN
+  INSERT INTO rate_limit_counters AS c (key, window_start, count, expires_at)
+  VALUES (p_key, p_window_start, 1, p_window_start + v_window * 2)
+  ON CONFLICT (key, window_start) DO UPDATE SET count = c.count + 1
+  RETURNING c.count INTO v_current;
+
+  SELECT c.count INTO v_previous
+  FROM rate_limit_counters c
+  WHERE c.key = p_key AND c.window_start = p_window_start - v_window;
+
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_counters
+    WHERE ctid IN (
+      SELECT ctid FROM rate_limit_counters WHERE expires_at < NOW() LIMIT 1000
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_current, COALESCE(v_previous, 0);
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Per-tier overrides, read by src/lib/rate-limit.ts. Value is a partial map of
+-- tier -> { requests, windowMs }; tiers left out keep their code defaults.
+INSERT INTO platform_settings (key, category, value, value_type, description, is_public, is_sensitive, is_editable)
+SELECT
+  'rate_limit_tiers',
+  'security',
+  '{}'::jsonb,
+  'json',
+  'Rate limit overrides per tier, e.g. {"strict": {"requests": 3, "windowMs": 60000}}',
+  false,
+  false,
+  true
+WHERE NOT EXISTS (SELECT 1 FROM platform_settings WHERE key = 'rate_limit_tiers');
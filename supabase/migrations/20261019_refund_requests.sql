@@ -0,0 +1,108 @@
+-- Refund workflow: requests, line items and credit notes.
+--
+-- Until now every refund went through either the one-click "Refund via
+-- Razorpay" action (src/app/api/registrations/[id]/cancel) or a one-off
+-- script under scripts/ts-refund-*. Neither left a record of WHY the money
+-- went back, neither supported refunding a single add-on out of an order, and
+-- both let one person move money on their own.
+--
+-- A refund is now a request (reason code + one or more line items) that a
+-- SECOND person approves before the gateway is called. The approval rule
+-- lives in src/lib/refunds.ts (canDecideRefund); the table only records who
+-- did what.
+--
+-- Additive only -- do NOT apply until explicit user go-ahead.
+
+create table if not exists refund_requests (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  payment_id uuid not null references payments(id) on delete cascade,
+
+  -- Reason codes are enumerated in src/lib/refunds.ts (REFUND_REASON_CODES).
+  -- Kept as free text here rather than a CHECK so adding a code is a
+  -- TypeScript-only change.
+  reason_code text not null,
+  reason_note text,
+
+  -- Sum of the line items, in rupees. Denormalised so the orders page and the
+  -- "already refunded" balance check don't need to aggregate items.
+  amount numeric(12,2) not null check (amount > 0),
+  -- GST portion of `amount`, computed at request time (splitRefundGst) and
+  -- printed on the credit note.
+  tax_amount numeric(12,2) not null default 0,
+
+  -- 'requested' -> 'approved' -> 'processed' | 'failed'
+  -- 'requested' -> 'rejected'
+  -- A 'failed' request can be re-approved, which retries the gateway call.
+  status text not null default 'requested'
+    check (status in ('requested', 'approved', 'rejected', 'processed', 'failed')),
+
+  requested_by uuid not null references users(id),
+  requested_by_name text,
+  decided_by uuid references users(id),
+  decided_by_name text,
+  decided_at timestamptz,
+  decision_note text,
+
+  -- 'gateway' when the refund went through the payment gateway, 'manual'
+  -- when the original payment was offline (bank transfer, cash) and the
+  -- office pays it back outside the system.
+  refund_mode text check (refund_mode in ('gateway', 'manual')),
+  gateway_refund_id text,
+  error_message text,
+  processed_at timestamptz,
+
+  -- Set when the request is processed. Format CN-<payment_number>-<n>, see
+  -- creditNoteNumber() in src/lib/refunds.ts.
+  credit_note_number text unique,
+
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_refund_requests_payment on refund_requests(payment_id, created_at desc);
+create index if not exists idx_refund_requests_event_status on refund_requests(event_id, status);
+
+create table if not exists refund_request_items (
+  id uuid primary key default gen_random_uuid(),
+  refund_request_id uuid not null references refund_requests(id) on delete cascade,
+
+  -- 'ticket' refunds (part of) a registration's ticket price. 'addon' refunds
+  -- (part of) one registration_addons row.
+  item_type text not null check (item_type in ('ticket', 'addon')),
+  registration_id uuid not null references registrations(id) on delete cascade,
+  -- No FK: a fully refunded add-on row is deleted from registration_addons
+  -- when the request is processed, and the credit note must still render.
+  registration_addon_id uuid,
+
+  -- Snapshot of the line's label at request time, for the same reason.
+  description text not null,
+  amount numeric(12,2) not null check (amount > 0),
+
+  -- True when processing this line gives the seat back: the ticket is
+  -- refunded in full and the registration is cancelled. The seat is released
+  -- through increment_ticket_sold_atomic with a negative quantity, keyed on
+  -- this row's id so a retried request can never release it twice.
+  releases_seat boolean not null default false,
+
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_refund_request_items_request on refund_request_items(refund_request_id);
+create index if not exists idx_refund_request_items_registration on refund_request_items(registration_id);
+
+comment on table refund_requests is
+  'One refund against one payment: reason, amount, two-person approval and the resulting gateway refund / credit note.';
+comment on table refund_request_items is
+  'The ticket and add-on lines a refund request gives money back for. Labels are snapshotted so credit notes survive add-on row deletion.';
+
+alter table refund_requests enable row level security;
+alter table refund_request_items enable row level security;
+-- No policies -- default-deny. Only ever read/written via the admin
+-- (service-role) Supabase client, matching agenda_approval_log.
+
+drop trigger if exists update_refund_requests_timestamp on refund_requests;
+create trigger update_refund_requests_timestamp
+  before update on refund_requests
+  for each row
+  execute function update_updated_at_column();
@@ -0,0 +1,27 @@
+-- One refund in flight per payment, and a status for a refund whose money
+-- went out but could not be recorded.
+--
+-- Approving a refund claims the request as 'approved', calls the gateway and
+-- then numbers the credit note and totals payments.refund_amount from the
+-- refunds already processed on the payment. Two requests on the same payment
+-- approved at the same moment both read the same history: both got the same
+-- credit_note_number (unique -- the second write failed silently), the second
+-- overwrote refund_amount with a stale total, and neither saw the other's
+-- money leave when checking the balance. The index below lets only one
+-- request per payment be 'approved' (i.e. being processed) at a time; the
+-- approve route answers the loser with a 409 and re-reads the history after
+-- its own claim. See src/app/api/payments/[id]/refunds/[refundId]/route.ts.
+--
+-- 'needs_attention' marks a request whose gateway refund succeeded but whose
+-- refund_requests or payments write then failed. It keeps its
+-- gateway_refund_id, counts as refunded in every balance, and can't be
+-- approved again; the office reconciles it by hand.
+--
+-- Additive only -- do NOT apply until explicit user go-ahead.
+
+alter table refund_requests drop constraint if exists refund_requests_status_check;
+alter table refund_requests add constraint refund_requests_status_check
+  check (status in ('requested', 'approved', 'rejected', 'processed', 'failed', 'needs_attention'));
+
+create unique index if not exists refund_requests_one_approved_per_payment
+  on refund_requests (payment_id) where status = 'approved';
@@ -0,0 +1,51 @@
+-- Bulk registration imports: one row per committed import, so an import can
+-- be listed, undone as a unit and followed by a queued welcome batch.
+--
+--   registration_import_batches   who imported what, with which ticket mode,
+--                                 and the state of the welcome sends
+--   registrations.import_batch_id the batch that created a registration
+
+CREATE TABLE IF NOT EXISTS registration_import_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  file_name TEXT,
+  ticket_mode VARCHAR(20) NOT NULL DEFAULT 'paid'
+    CHECK (ticket_mode IN ('paid', 'complimentary', 'sponsor', 'exhibitor')),
+  organization TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'importing'
+    CHECK (status IN ('importing', 'completed', 'undone')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  -- Channels for the welcome batch; empty means none was requested
+  welcome_channels TEXT[] NOT NULL DEFAULT '{}',
+  welcome_status VARCHAR(20) NOT NULL DEFAULT 'none'
+    CHECK (welcome_status IN ('none', 'pending', 'sent', 'cancelled')),
+  welcome_sent INTEGER NOT NULL DEFAULT 0,
+  welcome_failed INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  undone_at TIMESTAMPTZ,
+  undone_by_email TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_registration_import_batches_event
+  ON registration_import_batches(event_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_registration_import_batches_welcome
+  ON registration_import_batches(welcome_status)
+  WHERE welcome_status = 'pending';
+
+ALTER TABLE registrations
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES registration_import_batches(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_registrations_import_batch
+  ON registrations(import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
+
+ALTER TABLE registration_import_batches ENABLE ROW LEVEL SECURITY;
+-- Accessed only through service-role API routes
+
+COMMENT ON TABLE registration_import_batches IS 'Committed bulk imports of registrations; undo deletes the batch''s registrations';
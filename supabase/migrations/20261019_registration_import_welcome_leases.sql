@@ -0,0 +1,13 @@
+-- Claim an import's welcome batch before sending it.
+-- processImportWelcomes is run both by the import route right after the
+-- import and by the import-welcome cron every five minutes. Both read batches
+-- with welcome_status = 'pending' and sent their next chunk, so two runs at
+-- the same moment welcomed the same delegates twice and one run's
+-- welcome_sent/welcome_failed counts overwrote the other's. A run now sets a
+-- lease on the batch first, and only the run whose update matched sends the
+-- chunk; the counter write clears the lease. A batch whose lease ran out (the
+-- run died mid-chunk) is picked up again. See
+-- src/lib/services/registration-import.ts.
+
+ALTER TABLE registration_import_batches
+  ADD COLUMN IF NOT EXISTS welcome_lease_expires_at TIMESTAMPTZ;
@@ -0,0 +1,38 @@
+-- Hall-door attendance scanning for CME credit.
+-- Session check-in already runs through a session-purpose checkin_lists row
+-- (20260730_agenda_builder_session_checkin.sql), but checkin_records keeps
+-- one row per delegate per list -- enough to say "attended", not for how
+-- long. A CME transcript needs dwell time, so every door scan on a session
+-- list is also kept here: entry scans from the hall's normal check-in
+-- tablet, exit scans from a tablet marked as the hall's exit door.
+-- src/lib/session-attendance.ts pairs them into time inside the session's
+-- check-in window and weights session_cme.cme_credits by it.
+
+alter table kiosk_stations add column if not exists door_direction text not null default 'entry'
+  check (door_direction in ('entry', 'exit'));
+
+comment on column kiosk_stations.door_direction is
+  'Which way delegates pass this tablet at a session hall door. Exit tablets record an exit scan instead of a check-in on session-purpose lists.';
+
+create table if not exists session_attendance_scans (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  session_id uuid not null references sessions(id) on delete cascade,
+  registration_id uuid not null references registrations(id) on delete cascade,
+  direction text not null check (direction in ('in', 'out')),
+  -- The tablet's clock at scan time, not upload time: scans taken offline
+  -- arrive late, and dwell time is only as good as these.
+  scanned_at timestamptz not null,
+  scan_id uuid not null,
+  station_id uuid references kiosk_stations(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists session_attendance_scans_scan_id_key
+  on session_attendance_scans (scan_id);
+create index if not exists session_attendance_scans_event_idx
+  on session_attendance_scans (event_id, registration_id);
+
+alter table session_attendance_scans enable row level security;
+-- Accessed only through service-role API routes (default-deny, same as
+-- kiosk_stations).
@@ -0,0 +1,33 @@
+-- Live running order for hall coordinators.
+-- A coordinator marks a session started / ended and pushes overrun delays from
+-- the hall-coordinator portal; the rest of the hall's day is re-projected from
+-- these (see src/lib/agenda-running-order.ts) for the now/next hall screens and
+-- the public programme.
+
+alter table sessions add column if not exists actual_start_at timestamptz;
+alter table sessions add column if not exists actual_end_at timestamptz;
+
+-- Every mark and every pushed delay, so organisers can review overruns after
+-- the event. `minutes` is the delay pushed for action = 'delay'; for 'started'
+-- and 'ended' it is how late (negative: early) that was against the plan.
+-- A delay pushed before the session started holds back its start; one pushed
+-- while it runs is an overrun.
+create table if not exists session_running_log (
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  session_id uuid not null references sessions(id) on delete cascade,
+  hall text,
+  hall_coordinator_id uuid references hall_coordinators(id) on delete set null,
+  action text not null check (action in ('started', 'ended', 'delay')),
+  minutes integer,
+  before_start boolean not null default false,
+  reason text,
+  logged_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists session_running_log_event_idx on session_running_log (event_id, created_at);
+create index if not exists session_running_log_session_idx on session_running_log (session_id);
+
+alter table session_running_log enable row level security;
+-- Accessed only through service-role API routes (default-deny).
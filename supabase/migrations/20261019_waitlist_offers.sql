@@ -0,0 +1,45 @@
+-- Waitlist offers: a freed seat is held for one waitlisted person for a
+-- limited time. The link in the offer carries the claim token; while the
+-- offer is active the seat is excluded from availability for everyone else.
+-- When the hold runs out the waitlist-offers cron expires it and offers the
+-- seat to the next person in line.
+
+CREATE TABLE IF NOT EXISTS waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  waitlist_id UUID NOT NULL REFERENCES waitlist(id) ON DELETE CASCADE,
+  ticket_type_id UUID REFERENCES ticket_types(id) ON DELETE SET NULL,
+  email VARCHAR(255) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  phone VARCHAR(50),
+  token TEXT NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'claimed', 'expired', 'declined', 'cancelled')),
+  -- Channels the offer actually went out on, e.g. {email,whatsapp}
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  delivery_errors JSONB,
+  offered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  claimed_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  registration_id UUID REFERENCES registrations(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_event ON waitlist_offers(event_id, offered_at DESC);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_waitlist ON waitlist_offers(waitlist_id);
+CREATE INDEX IF NOT EXISTS idx_waitlist_offers_active
+  ON waitlist_offers(ticket_type_id, expires_at) WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS trigger_waitlist_offers_updated_at ON waitlist_offers;
+CREATE TRIGGER trigger_waitlist_offers_updated_at
+  BEFORE UPDATE ON waitlist_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_waitlist_updated_at();
+
+-- Accessed only through service-role API routes
+ALTER TABLE waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE waitlist_offers IS 'Timed seat holds offered to waitlisted people';
+COMMENT ON COLUMN waitlist_offers.status IS 'active=seat held, claimed=registered, expired=hold ran out, declined=person passed, cancelled=withdrawn or undeliverable';
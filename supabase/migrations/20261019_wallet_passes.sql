@@ -0,0 +1,46 @@
+-- Apple Wallet / Google Wallet delegate passes.
+-- A delegate can add their badge to Apple Wallet (a signed .pkpass) or
+-- Google Wallet (a save link) from the badge email or the /my portal. Both
+-- carry the same QR as the printed badge (the checkin_token), so the kiosk
+-- scans them unchanged.
+--
+-- Saved passes are kept current: the wallet-pass-sync cron rebuilds each
+-- pass's content, and when its hash differs from content_hash it bumps
+-- content_updated_at, pushes an update to every Apple device that registered
+-- the pass and replaces the Google object. Signing credentials are per tenant
+-- (getWalletConfig in src/lib/tenant.ts). See src/lib/services/wallet-passes.ts.
+
+create table if not exists wallet_passes (
+  -- Doubles as the Apple serialNumber.
+  id uuid primary key default gen_random_uuid(),
+  event_id uuid not null references events(id) on delete cascade,
+  registration_id uuid not null unique references registrations(id) on delete cascade,
+  -- Apple devices present this ("ApplePass <token>") to the pass web service.
+  authentication_token text not null,
+  -- sha256 of the content last issued; null until first issued.
+  content_hash text,
+  -- When the content last changed -- the pass's Last-Modified, and what
+  -- passesUpdatedSince is compared against.
+  content_updated_at timestamptz not null default now(),
+  apple_issued_at timestamptz,
+  google_issued_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists wallet_passes_event_idx on wallet_passes (event_id);
+
+-- Apple devices that added a pass and want update pushes.
+create table if not exists wallet_pass_devices (
+  device_library_identifier text not null,
+  pass_type_identifier text not null,
+  serial_number uuid not null references wallet_passes(id) on delete cascade,
+  push_token text not null,
+  created_at timestamptz not null default now(),
+  primary key (device_library_identifier, pass_type_identifier, serial_number)
+);
+
+create index if not exists wallet_pass_devices_serial_idx on wallet_pass_devices (serial_number);
+
+alter table wallet_passes enable row level security;
+alter table wallet_pass_devices enable row level security;
+-- Accessed only through service-role API routes (default-deny).
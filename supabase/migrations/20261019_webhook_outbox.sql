@@ -0,0 +1,86 @@
+-- Outgoing webhooks: per-event endpoints with event-type subscriptions, and a
+-- persisted outbox so a delivery that fails is retried (with backoff, by the
+-- webhook-deliveries cron) instead of being lost.
+--
+--   webhook_endpoints   where to send, what to send, the HMAC secret
+--   webhook_outbox      one row per (event, endpoint): payload + retry state
+--   webhook_deliveries  one row per attempt: status code, error, timing
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- HMAC-SHA256 key for X-Webhook-Signature; null sends unsigned
+  secret TEXT,
+  headers JSONB NOT NULL DEFAULT '{}',
+  -- Subscribed event types; empty means every event type
+  event_types TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_event ON webhook_endpoints(event_id);
+
+CREATE TABLE IF NOT EXISTS webhook_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  -- Null for deployment-wide URLs configured through WEBHOOK_URLS
+  endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  target_url TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_event ON webhook_outbox(event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_outbox_due
+  ON webhook_outbox(next_attempt_at) WHERE status = 'pending';
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  outbox_id UUID NOT NULL REFERENCES webhook_outbox(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  success BOOLEAN NOT NULL,
+  status_code INTEGER,
+  error TEXT,
+  response_body TEXT,
+  duration_ms INTEGER,
+  -- 'auto' for the inline and cron attempts, 'replay' when an admin retries
+  trigger VARCHAR(20) NOT NULL DEFAULT 'auto',
+  attempted_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_outbox ON webhook_deliveries(outbox_id, attempt);
+
+-- Accessed only through service-role API routes
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Carry over the single per-event webhook from communication settings. It
+-- only ever received message events.
+INSERT INTO webhook_endpoints (event_id, url, description, secret, headers, event_types)
+SELECT cs.event_id, cs.webhook_url, 'Communications webhook', cs.webhook_secret,
+       COALESCE(cs.webhook_headers, '{}'), '{message.sent}'
+FROM communication_settings cs
+WHERE cs.webhook_enabled = true
+  AND cs.webhook_url IS NOT NULL
+  AND cs.webhook_url <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM webhook_endpoints e
+    WHERE e.event_id = cs.event_id AND e.url = cs.webhook_url
+  );
+
+COMMENT ON TABLE webhook_outbox IS 'Outgoing webhook messages awaiting or past delivery, one per endpoint';
+COMMENT ON TABLE webhook_deliveries IS 'Every attempt to deliver a webhook_outbox row';